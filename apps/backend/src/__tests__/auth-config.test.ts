@@ -1,6 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 const mockTrackEvent = vi.fn();
+const mockIsSsoRequiredForEmail = vi.hoisted(() => vi.fn());
 
 vi.mock("../utils/authUtils", () => ({
   getDynamoDBAdapter: vi.fn().mockResolvedValue({}),
@@ -22,6 +23,10 @@ vi.mock("../utils/sentry", () => ({
   initSentry: vi.fn(),
 }));
 
+vi.mock("../utils/sso", () => ({
+  isSsoRequiredForEmail: mockIsSsoRequiredForEmail,
+}));
+
 vi.mock("../utils/tracking", () => ({
   trackEvent: (...args: unknown[]) => mockTrackEvent(...args),
 }));
@@ -35,6 +40,7 @@ describe("auth-config signIn callback", () => {
   beforeEach(() => {
     process.env.AUTH_SECRET = "test-secret-for-auth-config-test";
     vi.clearAllMocks();
+    mockIsSsoRequiredForEmail.mockResolvedValue(false);
     vi.mocked(getUserSubscription).mockResolvedValue({
       pk: "subscriptions/sub-1",
       sk: "subscription",
@@ -69,4 +75,44 @@ describe("auth-config signIn callback", () => {
       expect.anything()
     );
   });
+
+  it("blocks email and passkey login when single sign-on is enforced", async () => {
+    mockIsSsoRequiredForEmail.mockResolvedValue(true);
+    const config = await authConfig();
+    const signIn = config.callbacks?.signIn as (
+      args: unknown
+    ) => Promise<boolean>;
+
+    await expect(
+      signIn({
+        user: { email: "member@acme.com" },
+        account: { type: "email", provider: "email" },
+        email: { verificationRequest: true },
+      })
+    ).resolves.toBe(false);
+    await expect(
+      signIn({
+        user: { id: "user-1", email: "member@acme.com" },
+        account: { type: "credentials", provider: "passkey" },
+      })
+    ).resolves.toBe(false);
+    expect(mockIsSsoRequiredForEmail).toHaveBeenCalledWith("member@acme.com");
+  });
+
+  it("lets SSO logins through when single sign-on is enforced", async () => {
+    mockIsSsoRequiredForEmail.mockResolvedValue(true);
+    const config = await authConfig();
+    const signIn = config.callbacks?.signIn as (
+      args: unknown
+    ) => Promise<boolean>;
+
+    await expect(
+      signIn({
+        user: { id: "user-1", email: "member@acme.com" },
+        account: { type: "credentials", provider: "sso" },
+      })
+    ).resolves.toBe(true);
+    expect(mockIsSsoRequiredForEmail).not.toHaveBeenCalled();
+    expect(getUserSubscription).toHaveBeenCalledWith("user-1");
+  });
 });
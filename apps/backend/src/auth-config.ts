@@ -5,12 +5,16 @@ import { getDefined, once } from "./utils";
 import { ensureSubscriptionApiKeyActive } from "./utils/apiGatewayUsagePlans";
 import { getDynamoDBAdapter } from "./utils/authUtils";
 import { Sentry, ensureError, initSentry } from "./utils/sentry";
+import { isSsoRequiredForEmail } from "./utils/sso";
 import {
   getUserSubscription,
   getUserByEmail,
   getUserById,
 } from "./utils/subscriptionUtils";
-import { verifyPasskeyLoginToken } from "./utils/tokenUtils";
+import {
+  verifyPasskeyLoginToken,
+  verifySsoLoginToken,
+} from "./utils/tokenUtils";
 
 // Initialize Sentry when this module is loaded
 initSentry();
@@ -145,12 +149,71 @@ export const authConfig = once(async (): Promise<ExpressAuthConfig> => {
           }
         },
       }),
+      Credentials({
+        id: "sso",
+        name: "Single sign-on",
+        credentials: {
+          token: { label: "Token", type: "text" },
+        },
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars -- Auth.js authorize(credentials, request) signature
+        async authorize(credentials, _request) {
+          const token =
+            credentials && typeof credentials.token === "string"
+              ? credentials.token.trim()
+              : undefined;
+          if (!token) return null;
+          try {
+            // Issued by GET /api/user/sso/callback after the ID token was verified
+            const { userId } = await verifySsoLoginToken(token);
+            const user = await getUserById(userId);
+            if (!user?.email) return null;
+            return {
+              id: user.id,
+              email: user.email,
+              name: user.name ?? undefined,
+            };
+          } catch {
+            return null;
+          }
+        },
+      }),
     ],
     adapter: databaseAdapter,
     callbacks: {
       async signIn({ user, account }) {
-        // For passkey (Credentials provider)
-        if (account?.provider === "passkey" && user?.id) {
+        // Members of a domain with enforced SSO may only sign in through their
+        // identity provider (checked before the magic link is sent, too)
+        if (
+          (account?.provider === "passkey" || account?.type === "email") &&
+          user?.email
+        ) {
+          try {
+            if (await isSsoRequiredForEmail(user.email)) {
+              console.log(
+                `[signIn] Blocking ${account.provider} login: single sign-on is enforced for ${user.email}`,
+              );
+              return false;
+            }
+          } catch (error) {
+            console.error(
+              "[signIn] Failed to check single sign-on enforcement:",
+              error instanceof Error ? error.message : String(error),
+            );
+            Sentry.captureException(ensureError(error), {
+              tags: {
+                handler: "NextAuth.signIn",
+                errorType: "sso_enforcement_check_failed",
+              },
+            });
+            return false;
+          }
+        }
+
+        // For passkey and SSO (Credentials providers)
+        if (
+          (account?.provider === "passkey" || account?.provider === "sso") &&
+          user?.id
+        ) {
           const userId = user.id;
           try {
             const subscription = await getUserSubscription(userId);
@@ -165,7 +228,7 @@ export const authConfig = once(async (): Promise<ExpressAuthConfig> => {
             return true;
           } catch (error) {
             console.error(
-              "[signIn] Passkey: failed to ensure subscription for user:",
+              `[signIn] ${account.provider}: failed to ensure subscription for user:`,
               userId,
               error instanceof Error ? error.message : String(error),
             );
@@ -435,8 +498,11 @@ export const authConfig = once(async (): Promise<ExpressAuthConfig> => {
         return false;
       },
       async jwt({ token, account, user }) {
-        // Handle passkey (Credentials) authentication
-        if (account?.provider === "passkey" && user) {
+        // Handle passkey and SSO (Credentials) authentication
+        if (
+          (account?.provider === "passkey" || account?.provider === "sso") &&
+          user
+        ) {
           token.email = user.email;
           token.id = token.sub ?? user.id;
           if (user.name) {
@@ -11,7 +11,7 @@ const {
   mockAssociateSubscriptionWithPlan,
   mockDatabase,
   mockVerifyAccessToken,
-  mockValidateApiKeyAndGetUserId,
+  mockAuthenticateUserApiKey,
 } = vi.hoisted(() => {
   return {
     mockGetWorkspaceSubscription: vi.fn(),
@@ -21,7 +21,7 @@ const {
     mockAssociateSubscriptionWithPlan: vi.fn(),
     mockDatabase: vi.fn(),
     mockVerifyAccessToken: vi.fn(),
-    mockValidateApiKeyAndGetUserId: vi.fn(),
+    mockAuthenticateUserApiKey: vi.fn(),
   };
 });
 
@@ -48,6 +48,10 @@ vi.mock("../../../utils/tokenUtils", () => ({
   verifyAccessToken: mockVerifyAccessToken,
 }));
 
+vi.mock("../../../utils/apiKeyUtils", () => ({
+  authenticateUserApiKey: mockAuthenticateUserApiKey,
+}));
+
 // Import the handler after mocks are set up
 import { handler } from "../index";
 
@@ -281,7 +285,7 @@ describe("API Authorizer", () => {
       mockVerifyAccessToken.mockRejectedValue(
         unauthorized("Invalid or expired access token")
       ); // No valid Bearer token
-      mockValidateApiKeyAndGetUserId.mockResolvedValue(null); // No valid API key
+      mockAuthenticateUserApiKey.mockResolvedValue(null); // No valid API key
 
       const result = await handler(event);
       expect(result.policyDocument.Statement[0].Effect).toBe("Deny");
@@ -306,7 +310,7 @@ describe("API Authorizer", () => {
       mockVerifyAccessToken.mockRejectedValue(
         unauthorized("Invalid or expired access token")
       ); // No valid Bearer token
-      mockValidateApiKeyAndGetUserId.mockResolvedValue(null); // No valid API key
+      mockAuthenticateUserApiKey.mockResolvedValue(null); // No valid API key
 
       const result = await handler(event);
       expect(result.policyDocument.Statement[0].Effect).toBe("Deny");
@@ -334,7 +338,7 @@ describe("API Authorizer", () => {
       mockVerifyAccessToken.mockRejectedValue(
         unauthorized("Invalid or expired access token")
       );
-      mockValidateApiKeyAndGetUserId.mockResolvedValue(null);
+      mockAuthenticateUserApiKey.mockResolvedValue(null);
 
       const result = await handler(event);
       expect(result.policyDocument.Statement[0].Effect).toBe("Deny");
@@ -373,7 +377,7 @@ describe("API Authorizer", () => {
       mockVerifyAccessToken.mockRejectedValue(
         unauthorized("Invalid or expired access token")
       );
-      mockValidateApiKeyAndGetUserId.mockResolvedValue(null);
+      mockAuthenticateUserApiKey.mockResolvedValue(null);
 
       const result = await handler(event);
       expect(result.policyDocument.Statement[0].Effect).toBe("Deny");
@@ -411,7 +415,7 @@ describe("API Authorizer", () => {
       mockVerifyAccessToken.mockRejectedValue(
         unauthorized("Invalid or expired access token")
       );
-      mockValidateApiKeyAndGetUserId.mockResolvedValue(null);
+      mockAuthenticateUserApiKey.mockResolvedValue(null);
 
       const result = await handler(event);
       expect(result.policyDocument.Statement[0].Effect).toBe("Deny");
@@ -486,7 +490,7 @@ describe("API Authorizer", () => {
       });
 
       mockVerifyAccessToken.mockResolvedValue(null);
-      mockValidateApiKeyAndGetUserId.mockResolvedValue(null);
+      mockAuthenticateUserApiKey.mockResolvedValue(null);
 
       const result = await handler(event);
       expect(result.policyDocument.Statement[0].Effect).toBe("Deny");
@@ -509,7 +513,7 @@ describe("API Authorizer", () => {
       mockVerifyAccessToken.mockRejectedValue(
         unauthorized("Invalid or expired access token")
       );
-      mockValidateApiKeyAndGetUserId.mockResolvedValue(null);
+      mockAuthenticateUserApiKey.mockResolvedValue(null);
 
       const result = await handler(event);
       expect(result.policyDocument.Statement[0].Effect).toBe("Deny");
@@ -518,6 +522,57 @@ describe("API Authorizer", () => {
       expect(result.context?.errorMessage).toBe("User not authenticated");
     });
 
+    it("should authorize user API keys without recording usage", async () => {
+      const apiKey = `hmat_${"a".repeat(64)}`;
+      const event = createAuthorizerEvent({
+        methodArn:
+          "arn:aws:execute-api:eu-west-2:123456789012:abc123/default/GET/api/subscription",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+        },
+      });
+      const mockSubscription = {
+        pk: "subscriptions/sub-789",
+        plan: "free" as const,
+        userId: "user-123",
+        apiKeyId: "api-key-789",
+      };
+
+      mockAuthenticateUserApiKey.mockResolvedValue({
+        userId: "user-123",
+        scope: { keyId: "key-1" },
+      });
+      mockGetUserSubscription.mockResolvedValue(mockSubscription);
+      mockGetSubscriptionById.mockResolvedValue(mockSubscription);
+
+      const result = await handler(event);
+
+      expect(mockAuthenticateUserApiKey).toHaveBeenCalledWith(apiKey, {
+        sourceIp: "127.0.0.1",
+        recordUsage: false,
+      });
+      expect(mockVerifyAccessToken).not.toHaveBeenCalled();
+      expect(mockGetUserSubscription).toHaveBeenCalledWith("user-123");
+      expect(result.policyDocument.Statement[0].Effect).toBe("Allow");
+    });
+
+    it("should deny expired or disallowed API keys on workspace paths", async () => {
+      const event = createAuthorizerEvent({
+        headers: {
+          Authorization: `Bearer hmat_${"b".repeat(64)}`,
+        },
+      });
+
+      mockAuthenticateUserApiKey.mockResolvedValue(null);
+
+      const result = await handler(event);
+
+      expect(result.policyDocument.Statement[0].Effect).toBe("Deny");
+      expect(result.context?.statusCode).toBe("401");
+      expect(result.context?.errorMessage).toBe("Invalid or expired API key");
+      expect(mockGetWorkspaceSubscription).not.toHaveBeenCalled();
+    });
+
     it("should throw error when user subscription cannot be retrieved", async () => {
       const event = createAuthorizerEvent({
         methodArn:
@@ -767,7 +822,7 @@ describe("API Authorizer", () => {
       mockVerifyAccessToken.mockRejectedValue(
         unauthorized("Invalid or expired access token")
       );
-      mockValidateApiKeyAndGetUserId.mockResolvedValue(null);
+      mockAuthenticateUserApiKey.mockResolvedValue(null);
 
       // Error from getWorkspaceSubscription is caught and it falls back to user-based auth
       // Since user is not authenticated, it throws "user not authenticated"
@@ -796,7 +851,7 @@ describe("API Authorizer", () => {
       mockVerifyAccessToken.mockRejectedValue(
         unauthorized("Invalid or expired access token")
       );
-      mockValidateApiKeyAndGetUserId.mockResolvedValue(null);
+      mockAuthenticateUserApiKey.mockResolvedValue(null);
 
       // Error from getWorkspaceSubscription is caught and it falls back to user-based auth
       // Since user is not authenticated, it throws "user not authenticated"
@@ -6,7 +6,7 @@ import type {
 
 import { database } from "../../tables/database";
 import { associateSubscriptionWithPlan } from "../../utils/apiGatewayUsagePlans";
-import { validateApiKeyAndGetUserId } from "../../utils/apiKeyUtils";
+import { authenticateUserApiKey } from "../../utils/apiKeyUtils";
 import {
   initSentry,
   Sentry,
@@ -157,6 +157,35 @@ export const handler = async (
       return allowResponse;
     }
 
+    // Copy headers from request (normalize to lowercase)
+    const headers: Record<string, string> = {};
+    if (event.headers) {
+      for (const [key, value] of Object.entries(event.headers)) {
+        headers[key.toLowerCase()] = value || "";
+      }
+    }
+    const bearerToken = extractBearerToken(headers);
+
+    // User API keys are validated on every route (expiry, IP allowlist), not only
+    // when falling back to user-based authentication. Results are cached per
+    // resource path template, so workspace binding and capabilities are enforced
+    // per request by the handlers (requireAuth, MCP server, stream test endpoint).
+    // Usage is recorded there too, so it isn't counted twice.
+    let apiKeyUserId: string | undefined;
+    if (bearerToken?.startsWith("hmat_")) {
+      const authenticated = await authenticateUserApiKey(bearerToken, {
+        sourceIp: event.requestContext?.identity?.sourceIp,
+        recordUsage: false,
+      });
+      if (!authenticated) {
+        throw unauthorized("Invalid or expired API key");
+      }
+      apiKeyUserId = authenticated.userId;
+      console.log(
+        `[api-authorizer] API key validated successfully for user: ${apiKeyUserId}`
+      );
+    }
+
     // Extract workspace ID from path
     const extractedWorkspaceId = extractWorkspaceIdFromPath(path);
     let workspaceId: string | undefined;
@@ -217,26 +246,15 @@ export const handler = async (
         }, attempting user-based authentication`
       );
 
-      // Get user from Bearer token authentication
-      const headers: Record<string, string> = {};
-
-      // Copy headers from request (normalize to lowercase)
-      if (event.headers) {
-        for (const [key, value] of Object.entries(event.headers)) {
-          headers[key.toLowerCase()] = value || "";
-        }
-      }
-
-      // Extract and validate Bearer token (JWT access token or API key)
-      const bearerToken = extractBearerToken(headers);
-      let userId: string | undefined;
+      // Get user from Bearer token authentication (JWT access token or API key)
+      let userId: string | undefined = apiKeyUserId;
 
-      if (bearerToken) {
+      if (bearerToken && !userId) {
         console.log(
           `[api-authorizer] Bearer token found, attempting authentication`
         );
 
-        // First try JWT access token validation
+        // Verify JWT access token (API keys were validated above)
         try {
           const tokenPayload = await verifyAccessToken(bearerToken);
           userId = tokenPayload.userId;
@@ -244,29 +262,15 @@ export const handler = async (
             `[api-authorizer] JWT access token validated successfully for user: ${userId}`
           );
         } catch (jwtError) {
-          // If it's an unauthorized error from JWT validation, fall back to API key
-          // Otherwise, re-throw the error
+          // Unauthorized errors leave the user unauthenticated; re-throw the others
           if (
-            jwtError &&
-            typeof jwtError === "object" &&
-            "isBoom" in jwtError
+            !jwtError ||
+            typeof jwtError !== "object" ||
+            !("isBoom" in jwtError)
           ) {
-            // Fall back to API key validation (for backward compatibility with API keys)
-            console.log(
-              `[api-authorizer] JWT validation failed, trying API key authentication`
-            );
-            userId =
-              (await validateApiKeyAndGetUserId(bearerToken)) || undefined;
-
-            if (userId) {
-              console.log(
-                `[api-authorizer] API key validated successfully for user: ${userId}`
-              );
-            }
-          } else {
-            // Re-throw non-unauthorized errors
             throw jwtError;
           }
+          console.log(`[api-authorizer] JWT validation failed`);
         }
       }
 
@@ -0,0 +1,351 @@
+import { unauthorized } from "@hapi/boom";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import {
+  createAPIGatewayEventV2,
+  createMockContext,
+} from "../../utils/__tests__/test-helpers";
+
+const {
+  mockAuthenticateUserApiKey,
+  mockIsUserAuthorized,
+  mockValidateWebhookKey,
+  mockListMcpServerTools,
+  mockCallMcpServerTool,
+} = vi.hoisted(() => ({
+  mockAuthenticateUserApiKey: vi.fn(),
+  mockIsUserAuthorized: vi.fn(),
+  mockValidateWebhookKey: vi.fn(),
+  mockListMcpServerTools: vi.fn(),
+  mockCallMcpServerTool: vi.fn(),
+}));
+
+vi.mock("../../../utils/apiKeyUtils", () => ({
+  authenticateUserApiKey: mockAuthenticateUserApiKey,
+}));
+
+vi.mock("../../../tables/permissions", () => ({
+  isUserAuthorized: mockIsUserAuthorized,
+}));
+
+vi.mock("../../utils/requestValidation", () => ({
+  validateWebhookKey: mockValidateWebhookKey,
+}));
+
+vi.mock("../../utils/mcpServerTools", async () => {
+  const actual = await vi.importActual<
+    typeof import("../../utils/mcpServerTools")
+  >("../../utils/mcpServerTools");
+  return {
+    McpToolCallError: actual.McpToolCallError,
+    canUseAnyMcpServerTool: actual.canUseAnyMcpServerTool,
+    listMcpServerTools: mockListMcpServerTools,
+    callMcpServerTool: mockCallMcpServerTool,
+  };
+});
+
+type HandlerResult = {
+  statusCode: number;
+  headers?: Record<string, string>;
+  body: string;
+};
+
+const createMcpEvent = (
+  body: unknown,
+  options: {
+    method?: string;
+    token?: string;
+    query?: Record<string, string>;
+    headers?: Record<string, string>;
+  } = {}
+) => {
+  const base = createAPIGatewayEventV2();
+  return createAPIGatewayEventV2({
+    routeKey: "ANY /api/mcp/{workspaceId}",
+    rawPath: "/api/mcp/workspace-123",
+    body: typeof body === "string" ? body : JSON.stringify(body),
+    headers: {
+      "content-type": "application/json",
+      ...(options.token !== undefined
+        ? { authorization: `Bearer ${options.token}` }
+        : {}),
+      ...options.headers,
+    },
+    queryStringParameters: options.query,
+    pathParameters: { workspaceId: "workspace-123" },
+    requestContext: {
+      ...base.requestContext,
+      http: {
+        ...base.requestContext.http,
+        method: options.method ?? "POST",
+      },
+    },
+  });
+};
+
+const callHandler = async (event: ReturnType<typeof createMcpEvent>) => {
+  const { handler } = await import("../index");
+  return (await handler(event, createMockContext())) as HandlerResult;
+};
+
+describe("any-api-mcp-000workspaceId handler", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuthenticateUserApiKey.mockResolvedValue({
+      userId: "user-1",
+      scope: { keyId: "key-1" },
+    });
+    mockIsUserAuthorized.mockResolvedValue([true]);
+    mockValidateWebhookKey.mockResolvedValue("key-1");
+  });
+
+  it("answers initialize with the negotiated protocol version", async () => {
+    const result = await callHandler(
+      createMcpEvent(
+        {
+          jsonrpc: "2.0",
+          id: 1,
+          method: "initialize",
+          params: {
+            protocolVersion: "2025-03-26",
+            capabilities: {},
+            clientInfo: { name: "cursor", version: "1.0.0" },
+          },
+        },
+        { token: "hmat_user_key" }
+      )
+    );
+
+    expect(result.statusCode).toBe(200);
+    const response = JSON.parse(result.body);
+    expect(response).toMatchObject({
+      jsonrpc: "2.0",
+      id: 1,
+      result: {
+        protocolVersion: "2025-03-26",
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: { name: "helpmaton" },
+      },
+    });
+    expect(mockIsUserAuthorized).toHaveBeenCalledWith(
+      "users/user-1",
+      "workspaces/workspace-123",
+      1
+    );
+  });
+
+  it("acknowledges notifications with 202", async () => {
+    const result = await callHandler(
+      createMcpEvent(
+        { jsonrpc: "2.0", method: "notifications/initialized" },
+        { token: "hmat_user_key" }
+      )
+    );
+
+    expect(result.statusCode).toBe(202);
+    expect(result.body).toBe("");
+  });
+
+  it("lists the workspace tools for a user API key", async () => {
+    mockListMcpServerTools.mockResolvedValue([
+      { name: "ask_support", description: "Ask", inputSchema: {} },
+    ]);
+
+    const result = await callHandler(
+      createMcpEvent(
+        { jsonrpc: "2.0", id: "list-1", method: "tools/list" },
+        { token: "hmat_user_key" }
+      )
+    );
+
+    expect(JSON.parse(result.body)).toEqual({
+      jsonrpc: "2.0",
+      id: "list-1",
+      result: {
+        tools: [{ name: "ask_support", description: "Ask", inputSchema: {} }],
+      },
+    });
+    expect(mockListMcpServerTools).toHaveBeenCalledWith({
+      workspaceId: "workspace-123",
+      apiKeyScope: { keyId: "key-1" },
+    });
+  });
+
+  it("rejects API keys bound to other workspaces", async () => {
+    mockAuthenticateUserApiKey.mockResolvedValue({
+      userId: "user-1",
+      scope: { keyId: "key-1", workspaceIds: ["other-workspace"] },
+    });
+
+    const result = await callHandler(
+      createMcpEvent(
+        { jsonrpc: "2.0", id: 1, method: "tools/list" },
+        { token: "hmat_user_key" }
+      )
+    );
+
+    expect(result.statusCode).toBe(403);
+    expect(mockListMcpServerTools).not.toHaveBeenCalled();
+  });
+
+  it("rejects API keys without a capability covering any tool", async () => {
+    mockAuthenticateUserApiKey.mockResolvedValue({
+      userId: "user-1",
+      scope: { keyId: "key-1", capabilities: ["usage"] },
+    });
+
+    const result = await callHandler(
+      createMcpEvent(
+        { jsonrpc: "2.0", id: 1, method: "tools/list" },
+        { token: "hmat_user_key" }
+      )
+    );
+
+    expect(result.statusCode).toBe(403);
+  });
+
+  it("scopes the tools to the agent when authenticated with an agent key", async () => {
+    mockCallMcpServerTool.mockResolvedValue({
+      content: [{ type: "text", text: "Hello" }],
+    });
+
+    const result = await callHandler(
+      createMcpEvent(
+        {
+          jsonrpc: "2.0",
+          id: 7,
+          method: "tools/call",
+          params: { name: "ask_support", arguments: { message: "Hi" } },
+        },
+        { token: "agent-webhook-key", query: { agentId: "agent-1" } }
+      )
+    );
+
+    expect(mockValidateWebhookKey).toHaveBeenCalledWith(
+      "workspace-123",
+      "agent-1",
+      "agent-webhook-key"
+    );
+    expect(mockAuthenticateUserApiKey).not.toHaveBeenCalled();
+    expect(mockCallMcpServerTool).toHaveBeenCalledWith(
+      { workspaceId: "workspace-123", agentId: "agent-1" },
+      "ask_support",
+      { message: "Hi" },
+      expect.anything()
+    );
+    expect(JSON.parse(result.body)).toEqual({
+      jsonrpc: "2.0",
+      id: 7,
+      result: { content: [{ type: "text", text: "Hello" }] },
+    });
+  });
+
+  it("reports unknown tools as invalid params", async () => {
+    const { McpToolCallError } = await import("../../utils/mcpServerTools");
+    mockCallMcpServerTool.mockRejectedValue(
+      new McpToolCallError("Unknown tool: nope")
+    );
+
+    const result = await callHandler(
+      createMcpEvent(
+        {
+          jsonrpc: "2.0",
+          id: 2,
+          method: "tools/call",
+          params: { name: "nope" },
+        },
+        { token: "hmat_user_key" }
+      )
+    );
+
+    expect(JSON.parse(result.body)).toEqual({
+      jsonrpc: "2.0",
+      id: 2,
+      error: { code: -32602, message: "Unknown tool: nope" },
+    });
+  });
+
+  it("returns method not found for unsupported methods", async () => {
+    const result = await callHandler(
+      createMcpEvent(
+        { jsonrpc: "2.0", id: 3, method: "resources/list" },
+        { token: "hmat_user_key" }
+      )
+    );
+
+    expect(JSON.parse(result.body)).toMatchObject({
+      id: 3,
+      error: { code: -32601 },
+    });
+  });
+
+  it("returns a parse error for invalid JSON", async () => {
+    const result = await callHandler(
+      createMcpEvent("{not json", { token: "hmat_user_key" })
+    );
+
+    expect(result.statusCode).toBe(400);
+    expect(JSON.parse(result.body)).toMatchObject({
+      id: null,
+      error: { code: -32700 },
+    });
+  });
+
+  it("rejects GET requests with 405", async () => {
+    const result = await callHandler(
+      createMcpEvent("", { token: "hmat_user_key", method: "GET" })
+    );
+
+    expect(result.statusCode).toBe(405);
+    expect(result.headers?.Allow).toBe("POST");
+  });
+
+  it("rejects requests without a bearer token", async () => {
+    const result = await callHandler(
+      createMcpEvent({ jsonrpc: "2.0", id: 1, method: "tools/list" })
+    );
+
+    expect(result.statusCode).toBe(401);
+    expect(mockListMcpServerTools).not.toHaveBeenCalled();
+  });
+
+  it("rejects invalid API keys", async () => {
+    mockAuthenticateUserApiKey.mockResolvedValue(null);
+
+    const result = await callHandler(
+      createMcpEvent(
+        { jsonrpc: "2.0", id: 1, method: "tools/list" },
+        { token: "hmat_wrong" }
+      )
+    );
+
+    expect(result.statusCode).toBe(401);
+  });
+
+  it("rejects invalid agent keys", async () => {
+    mockValidateWebhookKey.mockRejectedValue(unauthorized("Invalid webhook key"));
+
+    const result = await callHandler(
+      createMcpEvent(
+        { jsonrpc: "2.0", id: 1, method: "tools/list" },
+        { token: "wrong", query: { agentId: "agent-1" } }
+      )
+    );
+
+    expect(result.statusCode).toBe(401);
+    expect(mockListMcpServerTools).not.toHaveBeenCalled();
+  });
+
+  it("rejects users without access to the workspace", async () => {
+    mockIsUserAuthorized.mockResolvedValue([false]);
+
+    const result = await callHandler(
+      createMcpEvent(
+        { jsonrpc: "2.0", id: 1, method: "tools/list" },
+        { token: "hmat_user_key" }
+      )
+    );
+
+    expect(result.statusCode).toBe(403);
+  });
+});
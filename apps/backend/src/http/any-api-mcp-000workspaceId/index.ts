@@ -0,0 +1,74 @@
+import type {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+} from "aws-lambda";
+
+import { handlingErrors } from "../../utils/handlingErrors";
+import { adaptHttpHandler } from "../../utils/httpEventAdapter";
+import { initSentry } from "../../utils/sentry";
+import type { AugmentedContext } from "../../utils/workspaceCreditContext";
+
+import { handleMcpServerRequest } from "./mcpServerHandler";
+
+initSentry();
+
+/**
+ * @openapi
+ * /api/mcp/{workspaceId}:
+ *   post:
+ *     summary: MCP server for workspace agents
+ *     description: Model Context Protocol endpoint (Streamable HTTP transport, JSON responses) for MCP clients such as Cursor or Claude Desktop. Lists each agent of the workspace as an ask_<agent> tool plus search_documents and search_memory. Authenticate with a user API key (Bearer hmat_..., workspace read permission) or with an agent's webhook key as Bearer token plus the agentId query parameter, which limits the tools to that agent. Agent calls use normal credit reservation, spending limits and conversation logging (conversation type mcp).
+ *     tags:
+ *       - MCP Server
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: query
+ *         required: false
+ *         description: Agent ID, required when authenticating with an agent key
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: JSON-RPC 2.0 message or batch (initialize, ping, tools/list, tools/call)
+ *     responses:
+ *       200:
+ *         description: JSON-RPC response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       202:
+ *         description: Notification accepted
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       405:
+ *         description: Only POST is supported (no server-initiated stream or sessions)
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const handler = adaptHttpHandler(
+  handlingErrors(
+    async (
+      event: APIGatewayProxyEventV2,
+      context
+    ): Promise<APIGatewayProxyResultV2> =>
+      // handlingErrors passes the context augmented with credit transactions
+      handleMcpServerRequest(event, context as AugmentedContext)
+  )
+);
@@ -0,0 +1,295 @@
+import { badRequest, forbidden, unauthorized } from "@hapi/boom";
+import type {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+} from "aws-lambda";
+
+import { isUserAuthorized } from "../../tables/permissions";
+import { PERMISSION_LEVELS } from "../../tables/schema";
+import { isWorkspaceInApiKeyScope } from "../../utils/apiKeyScope";
+import { authenticateUserApiKey } from "../../utils/apiKeyUtils";
+import type { AugmentedContext } from "../../utils/workspaceCreditContext";
+import {
+  MCP_PROTOCOL_VERSION,
+  MCP_SUPPORTED_PROTOCOL_VERSIONS,
+} from "../utils/mcpClient";
+import {
+  McpToolCallError,
+  callMcpServerTool,
+  canUseAnyMcpServerTool,
+  listMcpServerTools,
+  type McpServerAccess,
+} from "../utils/mcpServerTools";
+import { validateWebhookKey } from "../utils/requestValidation";
+import { userRef } from "../utils/session";
+
+/**
+ * Helpmaton as an MCP server (Streamable HTTP transport, JSON responses only)
+ *
+ * - Authenticated with a user API key (Bearer `hmat_...`, workspace read permission;
+ *   scoped keys only see the tools their capabilities allow) or with an agent's
+ *   webhook key plus the `agentId` query parameter
+ * - Stateless: no `Mcp-Session-Id` is issued, GET (server-initiated SSE stream)
+ *   and DELETE (session termination) answer 405
+ */
+
+const JSON_RPC_PARSE_ERROR = -32700;
+const JSON_RPC_INVALID_REQUEST = -32600;
+const JSON_RPC_METHOD_NOT_FOUND = -32601;
+const JSON_RPC_INVALID_PARAMS = -32602;
+const JSON_RPC_INTERNAL_ERROR = -32603;
+
+const MCP_SERVER_INFO = { name: "helpmaton", version: "1.0.0" };
+
+type JsonRpcId = string | number | null;
+
+type JsonRpcRequest = {
+  jsonrpc?: string;
+  id?: JsonRpcId;
+  method?: unknown;
+  params?: unknown;
+};
+
+type JsonRpcResponse =
+  | { jsonrpc: "2.0"; id: JsonRpcId; result: unknown }
+  | {
+      jsonrpc: "2.0";
+      id: JsonRpcId;
+      error: { code: number; message: string };
+    };
+
+const getHeader = (
+  event: APIGatewayProxyEventV2,
+  name: string
+): string | undefined => {
+  const headers = event.headers || {};
+  const key = Object.keys(headers).find(
+    (header) => header.toLowerCase() === name.toLowerCase()
+  );
+  return key ? headers[key] : undefined;
+};
+
+const extractWorkspaceId = (event: APIGatewayProxyEventV2): string => {
+  const workspaceId =
+    event.pathParameters?.workspaceId ??
+    (event.rawPath || "")
+      .split("?")[0]
+      .match(/^\/api\/mcp\/([^/]+)\/?$/)?.[1];
+  if (!workspaceId) {
+    throw badRequest("workspaceId is required in the URL path");
+  }
+  return workspaceId;
+};
+
+/**
+ * Resolves what the caller may reach: the whole workspace for user API keys,
+ * a single agent for agent keys
+ */
+export async function authenticateMcpRequest(
+  event: APIGatewayProxyEventV2,
+  workspaceId: string
+): Promise<McpServerAccess> {
+  const match = getHeader(event, "authorization")?.match(/^Bearer\s+(.+)$/i);
+  const token = match?.[1]?.trim();
+  if (!token) {
+    throw unauthorized("Bearer token required");
+  }
+
+  const agentId = event.queryStringParameters?.agentId;
+  if (agentId) {
+    await validateWebhookKey(workspaceId, agentId, token);
+    return { workspaceId, agentId };
+  }
+
+  const authenticated = await authenticateUserApiKey(token, {
+    sourceIp: event.requestContext?.http?.sourceIp,
+  });
+  if (!authenticated) {
+    throw unauthorized("Invalid API key");
+  }
+  const { userId, scope } = authenticated;
+  const access: McpServerAccess = { workspaceId, apiKeyScope: scope };
+  if (
+    !isWorkspaceInApiKeyScope(scope, workspaceId) ||
+    !canUseAnyMcpServerTool(access)
+  ) {
+    throw forbidden("This API key is not allowed to use this MCP server");
+  }
+  const [authorized] = await isUserAuthorized(
+    userRef(userId),
+    `workspaces/${workspaceId}`,
+    PERMISSION_LEVELS.READ
+  );
+  if (!authorized) {
+    throw forbidden(
+      `Insufficient permissions. Required level: ${PERMISSION_LEVELS.READ}`
+    );
+  }
+  return access;
+}
+
+const jsonRpcError = (
+  id: JsonRpcId,
+  code: number,
+  message: string
+): JsonRpcResponse => ({ jsonrpc: "2.0", id, error: { code, message } });
+
+const jsonResponse = (
+  statusCode: number,
+  body: unknown
+): APIGatewayProxyResultV2 => ({
+  statusCode,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const handleRequest = async (
+  request: JsonRpcRequest & { id: JsonRpcId; method: string },
+  access: McpServerAccess,
+  context?: AugmentedContext
+): Promise<JsonRpcResponse> => {
+  const { id, method } = request;
+  const params = isRecord(request.params) ? request.params : {};
+
+  switch (method) {
+    case "initialize": {
+      const requested = params.protocolVersion;
+      const protocolVersion =
+        typeof requested === "string" &&
+        MCP_SUPPORTED_PROTOCOL_VERSIONS.has(requested)
+          ? requested
+          : MCP_PROTOCOL_VERSION;
+      return {
+        jsonrpc: "2.0",
+        id,
+        result: {
+          protocolVersion,
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: MCP_SERVER_INFO,
+          instructions: access.agentId
+            ? "Use the ask_ tool to talk to the Helpmaton agent, search_documents to search the documents it can read and search_memory to recall its memory."
+            : "Use the ask_<agent> tools to talk to the Helpmaton agents of this workspace, search_documents to search workspace documents and search_memory to recall an agent's memory.",
+        },
+      };
+    }
+    case "ping":
+      return { jsonrpc: "2.0", id, result: {} };
+    case "tools/list":
+      return {
+        jsonrpc: "2.0",
+        id,
+        result: { tools: await listMcpServerTools(access) },
+      };
+    case "tools/call": {
+      if (typeof params.name !== "string" || !params.name) {
+        return jsonRpcError(id, JSON_RPC_INVALID_PARAMS, "Tool name is required");
+      }
+      try {
+        const result = await callMcpServerTool(
+          access,
+          params.name,
+          params.arguments ?? {},
+          context
+        );
+        return { jsonrpc: "2.0", id, result };
+      } catch (error) {
+        if (error instanceof McpToolCallError) {
+          return jsonRpcError(id, JSON_RPC_INVALID_PARAMS, error.message);
+        }
+        throw error;
+      }
+    }
+    default:
+      return jsonRpcError(
+        id,
+        JSON_RPC_METHOD_NOT_FOUND,
+        `Method not found: ${method}`
+      );
+  }
+};
+
+export async function handleMcpServerRequest(
+  event: APIGatewayProxyEventV2,
+  context?: AugmentedContext
+): Promise<APIGatewayProxyResultV2> {
+  const workspaceId = extractWorkspaceId(event);
+  const access = await authenticateMcpRequest(event, workspaceId);
+
+  if (event.requestContext.http.method !== "POST") {
+    return {
+      statusCode: 405,
+      headers: { Allow: "POST" },
+      body: "",
+    };
+  }
+
+  const protocolVersionHeader = getHeader(event, "mcp-protocol-version");
+  if (
+    protocolVersionHeader &&
+    !MCP_SUPPORTED_PROTOCOL_VERSIONS.has(protocolVersionHeader)
+  ) {
+    throw badRequest(
+      `Unsupported MCP-Protocol-Version: ${protocolVersionHeader}`
+    );
+  }
+
+  let payload: unknown;
+  try {
+    const body = event.isBase64Encoded
+      ? Buffer.from(event.body || "", "base64").toString("utf8")
+      : event.body || "";
+    payload = JSON.parse(body);
+  } catch {
+    return jsonResponse(
+      400,
+      jsonRpcError(null, JSON_RPC_PARSE_ERROR, "Parse error")
+    );
+  }
+
+  const batch = Array.isArray(payload);
+  const messages = (batch ? payload : [payload]) as unknown[];
+  const responses: JsonRpcResponse[] = [];
+  for (const message of messages) {
+    if (!isRecord(message)) {
+      responses.push(
+        jsonRpcError(null, JSON_RPC_INVALID_REQUEST, "Invalid request")
+      );
+      continue;
+    }
+    const request = message as JsonRpcRequest;
+    // Notifications and responses to our (non-existent) requests need no answer
+    if (request.id === undefined || typeof request.method !== "string") {
+      continue;
+    }
+    try {
+      responses.push(
+        await handleRequest(
+          { ...request, id: request.id, method: request.method },
+          access,
+          context
+        )
+      );
+    } catch (error) {
+      console.error("[MCP Server] Request failed:", {
+        workspaceId,
+        method: request.method,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      responses.push(
+        jsonRpcError(
+          request.id,
+          JSON_RPC_INTERNAL_ERROR,
+          error instanceof Error ? error.message : String(error)
+        )
+      );
+    }
+  }
+
+  if (responses.length === 0) {
+    return { statusCode: 202, body: "" };
+  }
+  return jsonResponse(200, batch ? responses : responses[0]);
+}
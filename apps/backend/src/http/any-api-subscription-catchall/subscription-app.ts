@@ -9,6 +9,7 @@ import {
 import express from "express";
 
 import { database } from "../../tables";
+import type { SsoConfigRecord } from "../../tables/schema";
 import {
   createCheckout,
   cancelSubscription as cancelLemonSqueezySubscription,
@@ -19,6 +20,17 @@ import {
 } from "../../utils/lemonSqueezy";
 import { updatePostHogUserSubscriptionPlan } from "../../utils/posthog";
 import { ensureError } from "../../utils/sentry";
+import {
+  DEFAULT_OIDC_SCOPES,
+  SSO_CONFIG_SK,
+  generateDomainVerificationToken,
+  getDomainVerificationRecord,
+  getSsoConfig,
+  getSsoConfigPk,
+  getSsoRedirectUri,
+  normalizeSsoDomain,
+  verifySsoDomain,
+} from "../../utils/sso";
 import { getPlanLimits } from "../../utils/subscriptionPlans";
 import {
   checkGracePeriod,
@@ -47,7 +59,10 @@ import { ensurePostHogIdentityFromRequest } from "../../utils/tracking";
 import { validateBody } from "../utils/bodyValidation";
 import { expressErrorHandler } from "../utils/errorHandler";
 import { posthogResetMiddleware } from "../utils/posthogMiddleware";
-import { modifySubscriptionSchema } from "../utils/schemas/subscriptionSchemas";
+import {
+  modifySubscriptionSchema,
+  ssoConfigSchema,
+} from "../utils/schemas/subscriptionSchemas";
 import { userRef } from "../utils/session";
 
 // Helper to handle errors: boomify, log, then pass to next
@@ -75,6 +90,46 @@ const handleError = (
   next(boomError);
 };
 
+// Current user's subscription, for routes only its managers may use
+const getManagedSubscriptionId = async (
+  req: express.Request,
+  action: string,
+): Promise<{ subscriptionId: string; currentUserRef: string }> => {
+  const currentUserRef = req.userRef;
+  if (!currentUserRef) {
+    throw unauthorized();
+  }
+  const currentUserId = currentUserRef.replace("users/", "");
+  const subscription = await getUserSubscription(currentUserId);
+  const subscriptionId = subscription.pk.replace("subscriptions/", "");
+  if (!(await isSubscriptionManager(currentUserId, subscriptionId))) {
+    throw forbidden(`You must be a manager of this subscription to ${action}`);
+  }
+  return { subscriptionId, currentUserRef };
+};
+
+// SSO configuration as returned to managers (the client secret is never sent back)
+const toSsoConfigResponse = (config: SsoConfigRecord) => ({
+  protocol: config.protocol,
+  domain: config.domain,
+  domainVerified: !!config.domainVerifiedAt,
+  domainVerifiedAt: config.domainVerifiedAt ?? null,
+  verificationRecord: {
+    type: "TXT",
+    name: config.domain,
+    value: getDomainVerificationRecord(config),
+  },
+  issuer: config.issuer,
+  clientId: config.clientId,
+  hasClientSecret: !!config.clientSecret,
+  scopes: config.scopes || DEFAULT_OIDC_SCOPES,
+  provisionWorkspaceIds: config.provisionWorkspaceIds,
+  defaultPermissionLevel: config.defaultPermissionLevel,
+  enforceSso: config.enforceSso,
+  enabled: config.enabled,
+  updatedAt: config.updatedAt ?? config.createdAt,
+});
+
 // Helper to wrap async handlers with error handling
 const asyncHandler = (
   fn: (
@@ -541,6 +596,144 @@ export const createApp: () => express.Application = () => {
     }),
   );
 
+  // GET /api/subscription/sso - Single sign-on configuration of the current user's subscription
+  app.get(
+    "/api/subscription/sso",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const { subscriptionId } = await getManagedSubscriptionId(
+        req,
+        "manage single sign-on",
+      );
+      const [config, workspaces] = await Promise.all([
+        getSsoConfig(subscriptionId),
+        getSubscriptionWorkspaces(subscriptionId),
+      ]);
+
+      res.json({
+        config: config ? toSsoConfigResponse(config) : null,
+        redirectUri: getSsoRedirectUri(),
+        workspaces: workspaces.map((workspace) => ({
+          id: workspace.pk.replace("workspaces/", ""),
+          name: workspace.name,
+        })),
+      });
+    }),
+  );
+
+  // PUT /api/subscription/sso - Create or update the OIDC identity provider configuration
+  app.put(
+    "/api/subscription/sso",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const { subscriptionId, currentUserRef } = await getManagedSubscriptionId(
+        req,
+        "manage single sign-on",
+      );
+      const body = validateBody(req.body ?? {}, ssoConfigSchema);
+      const domain = normalizeSsoDomain(body.domain);
+
+      const subscriptionWorkspaceIds = new Set(
+        (await getSubscriptionWorkspaces(subscriptionId)).map((workspace) =>
+          workspace.pk.replace("workspaces/", ""),
+        ),
+      );
+      const unknownWorkspaceId = body.provisionWorkspaceIds.find(
+        (workspaceId) => !subscriptionWorkspaceIds.has(workspaceId),
+      );
+      if (unknownWorkspaceId) {
+        throw badRequest(
+          `Workspace ${unknownWorkspaceId} does not belong to this subscription`,
+        );
+      }
+
+      const db = await database();
+      const existing = await getSsoConfig(subscriptionId);
+      const fields = {
+        protocol: body.protocol,
+        domain,
+        issuer: body.issuer,
+        clientId: body.clientId,
+        scopes: body.scopes?.trim() || undefined,
+        provisionWorkspaceIds: [...new Set(body.provisionWorkspaceIds)],
+        defaultPermissionLevel: body.defaultPermissionLevel,
+        enforceSso: body.enforceSso,
+        enabled: body.enabled,
+      };
+
+      let config: SsoConfigRecord;
+      if (existing) {
+        const domainChanged = existing.domain !== domain;
+        config = await db["sso-config"].update({
+          pk: existing.pk,
+          sk: SSO_CONFIG_SK,
+          ...fields,
+          clientSecret: body.clientSecret ?? existing.clientSecret,
+          // A new domain has to be verified again
+          ...(domainChanged
+            ? {
+                domainVerificationToken: generateDomainVerificationToken(),
+                domainVerifiedAt: undefined,
+              }
+            : {}),
+          updatedBy: currentUserRef,
+        });
+      } else {
+        if (!body.clientSecret) {
+          throw badRequest("clientSecret is required");
+        }
+        config = await db["sso-config"].create({
+          pk: getSsoConfigPk(subscriptionId),
+          sk: SSO_CONFIG_SK,
+          subscriptionId,
+          ...fields,
+          clientSecret: body.clientSecret,
+          domainVerificationToken: generateDomainVerificationToken(),
+          createdBy: currentUserRef,
+        });
+      }
+
+      res.json({ config: toSsoConfigResponse(config) });
+    }),
+  );
+
+  // POST /api/subscription/sso/verify-domain - Check the DNS TXT record of the configured domain
+  app.post(
+    "/api/subscription/sso/verify-domain",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const { subscriptionId } = await getManagedSubscriptionId(
+        req,
+        "manage single sign-on",
+      );
+      const config = await getSsoConfig(subscriptionId);
+      if (!config) {
+        throw notFound("Single sign-on is not configured");
+      }
+
+      const verified = await verifySsoDomain(config);
+      res.json({ config: toSsoConfigResponse(verified) });
+    }),
+  );
+
+  // DELETE /api/subscription/sso - Remove the identity provider configuration
+  app.delete(
+    "/api/subscription/sso",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const { subscriptionId } = await getManagedSubscriptionId(
+        req,
+        "manage single sign-on",
+      );
+      const db = await database();
+      await db["sso-config"].deleteIfExists(
+        getSsoConfigPk(subscriptionId),
+        SSO_CONFIG_SK,
+      );
+      res.status(204).send();
+    }),
+  );
+
   // POST /api/subscription/checkout - Create Lemon Squeezy checkout for plan upgrade
   // Note: API Gateway strips /api/subscription prefix for catchall routes, so we use /checkout
   app.post(
@@ -0,0 +1,182 @@
+import { unauthorized } from "@hapi/boom";
+import type express from "express";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import {
+  createMockRequest,
+  createMockResponse,
+} from "../../../utils/__tests__/test-helpers";
+import { registerGetSsoCallback } from "../get-sso-callback";
+
+const {
+  mockGetSsoStateFromCookie,
+  mockClearSsoStateCookie,
+  mockGetSsoConfig,
+  mockDiscoverOidcProvider,
+  mockCompleteOidcLogin,
+  mockProvisionSsoUser,
+  mockGenerateSsoLoginToken,
+} = vi.hoisted(() => ({
+  mockGetSsoStateFromCookie: vi.fn(),
+  mockClearSsoStateCookie: vi.fn(),
+  mockGetSsoConfig: vi.fn(),
+  mockDiscoverOidcProvider: vi.fn(),
+  mockCompleteOidcLogin: vi.fn(),
+  mockProvisionSsoUser: vi.fn(),
+  mockGenerateSsoLoginToken: vi.fn(),
+}));
+
+vi.mock("../../../../utils/ssoStateCookie", () => ({
+  getSsoStateFromCookie: mockGetSsoStateFromCookie,
+  clearSsoStateCookie: mockClearSsoStateCookie,
+}));
+
+vi.mock("../../../../utils/sso", async () => {
+  const actual = await vi.importActual<
+    typeof import("../../../../utils/sso")
+  >("../../../../utils/sso");
+  return {
+    buildSsoCompletionUrl: actual.buildSsoCompletionUrl,
+    isSsoConfigActive: actual.isSsoConfigActive,
+    getSsoConfig: mockGetSsoConfig,
+    discoverOidcProvider: mockDiscoverOidcProvider,
+    completeOidcLogin: mockCompleteOidcLogin,
+    provisionSsoUser: mockProvisionSsoUser,
+  };
+});
+
+vi.mock("../../../../utils/tokenUtils", () => ({
+  generateSsoLoginToken: mockGenerateSsoLoginToken,
+}));
+
+vi.mock("../../../../utils/sentry", () => ({
+  Sentry: { captureException: vi.fn() },
+  ensureError: (error: unknown) => error,
+  initSentry: vi.fn(),
+}));
+
+const loginState = {
+  state: "state-1",
+  nonce: "nonce-1",
+  codeVerifier: "verifier-1",
+  subscriptionId: "sub-1",
+  callbackUrl: "http://localhost:5173/workspaces",
+};
+
+const activeConfig = {
+  subscriptionId: "sub-1",
+  domain: "acme.com",
+  issuer: "https://login.acme.com",
+  enabled: true,
+  domainVerifiedAt: "2026-10-01T00:00:00.000Z",
+};
+
+describe("GET /api/user/sso/callback", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.FRONTEND_URL = "http://localhost:5173";
+    mockGetSsoStateFromCookie.mockResolvedValue(loginState);
+    mockGetSsoConfig.mockResolvedValue(activeConfig);
+    mockDiscoverOidcProvider.mockResolvedValue({ issuer: activeConfig.issuer });
+  });
+
+  const callHandler = async (query: Record<string, string>) => {
+    const app = { get: vi.fn() } as unknown as express.Application;
+    registerGetSsoCallback(app);
+    const handler = (app.get as ReturnType<typeof vi.fn>).mock.calls[0][1] as (
+      req: express.Request,
+      res: express.Response
+    ) => Promise<void>;
+    const req = createMockRequest({
+      query,
+      headers: { cookie: "sso_state=signed" },
+    });
+    const res = createMockResponse();
+    res.redirect = vi.fn() as unknown as express.Response["redirect"];
+    await handler(req as express.Request, res as express.Response);
+    const [status, location] = (res.redirect as ReturnType<typeof vi.fn>).mock
+      .calls[0];
+    return { res, status, location: new URL(location as string) };
+  };
+
+  it("provisions the user and redirects with a one-time login token", async () => {
+    mockCompleteOidcLogin.mockResolvedValue({ email: "jane@acme.com" });
+    mockProvisionSsoUser.mockResolvedValue("user-1");
+    mockGenerateSsoLoginToken.mockResolvedValue("sso-token");
+
+    const { res, status, location } = await callHandler({
+      code: "code-1",
+      state: "state-1",
+    });
+
+    expect(mockCompleteOidcLogin).toHaveBeenCalledWith(
+      { issuer: activeConfig.issuer },
+      activeConfig,
+      { code: "code-1", codeVerifier: "verifier-1", nonce: "nonce-1" }
+    );
+    expect(mockProvisionSsoUser).toHaveBeenCalledWith(
+      activeConfig,
+      "jane@acme.com"
+    );
+    expect(mockGenerateSsoLoginToken).toHaveBeenCalledWith("user-1", "sub-1");
+    expect(mockClearSsoStateCookie).toHaveBeenCalledWith(res);
+    expect(status).toBe(302);
+    expect(location.pathname).toBe("/auth/sso");
+    expect(location.searchParams.get("token")).toBe("sso-token");
+    expect(location.searchParams.get("callbackUrl")).toBe(
+      "http://localhost:5173/workspaces"
+    );
+  });
+
+  it("rejects a state that does not match the cookie", async () => {
+    const { location } = await callHandler({
+      code: "code-1",
+      state: "forged",
+    });
+
+    expect(mockCompleteOidcLogin).not.toHaveBeenCalled();
+    expect(location.searchParams.get("error")).toBe(
+      "Invalid sign-in state. Please try again."
+    );
+  });
+
+  it("shows an expired attempt when the state cookie is missing", async () => {
+    mockGetSsoStateFromCookie.mockResolvedValue(null);
+
+    const { location } = await callHandler({ code: "code-1", state: "state-1" });
+
+    expect(location.searchParams.get("error")).toBe(
+      "Your sign-in attempt expired. Please try again."
+    );
+  });
+
+  it("passes ID token verification errors to the SSO page", async () => {
+    mockCompleteOidcLogin.mockRejectedValue(
+      unauthorized("Only acme.com accounts can sign in here")
+    );
+
+    const { location } = await callHandler({
+      code: "code-1",
+      state: "state-1",
+    });
+
+    expect(mockProvisionSsoUser).not.toHaveBeenCalled();
+    expect(location.searchParams.get("error")).toBe(
+      "Only acme.com accounts can sign in here"
+    );
+  });
+
+  it("refuses logins when the configuration is no longer active", async () => {
+    mockGetSsoConfig.mockResolvedValue({ ...activeConfig, enabled: false });
+
+    const { location } = await callHandler({
+      code: "code-1",
+      state: "state-1",
+    });
+
+    expect(mockDiscoverOidcProvider).not.toHaveBeenCalled();
+    expect(location.searchParams.get("error")).toBe(
+      "Single sign-on is no longer configured."
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import { badRequest, boomify } from "@hapi/boom";
+import express from "express";
+
+import { Sentry, ensureError } from "../../../utils/sentry";
+import {
+  buildSsoCompletionUrl,
+  completeOidcLogin,
+  discoverOidcProvider,
+  getSsoConfig,
+  isSsoConfigActive,
+  provisionSsoUser,
+} from "../../../utils/sso";
+import {
+  clearSsoStateCookie,
+  getSsoStateFromCookie,
+} from "../../../utils/ssoStateCookie";
+import { generateSsoLoginToken } from "../../../utils/tokenUtils";
+
+/**
+ * GET /api/user/sso/callback
+ * Redirect URI registered at the identity provider. Verifies the state cookie,
+ * exchanges the code, verifies the ID token, provisions the user and redirects to
+ * the frontend SSO page with a one-time token for signIn("sso", { token }).
+ * No auth required.
+ */
+export const registerGetSsoCallback = (app: express.Application) => {
+  app.get("/api/user/sso/callback", async (req, res) => {
+    try {
+      const loginState = await getSsoStateFromCookie(req.headers.cookie);
+      clearSsoStateCookie(res);
+      if (!loginState) {
+        throw badRequest("Your sign-in attempt expired. Please try again.");
+      }
+      if (typeof req.query.error === "string") {
+        throw badRequest(
+          typeof req.query.error_description === "string"
+            ? req.query.error_description
+            : `Identity provider error: ${req.query.error}`
+        );
+      }
+      if (req.query.state !== loginState.state) {
+        throw badRequest("Invalid sign-in state. Please try again.");
+      }
+      if (typeof req.query.code !== "string" || !req.query.code) {
+        throw badRequest("Missing authorization code");
+      }
+
+      const config = await getSsoConfig(loginState.subscriptionId);
+      if (!config || !isSsoConfigActive(config)) {
+        throw badRequest("Single sign-on is no longer configured.");
+      }
+
+      const metadata = await discoverOidcProvider(config.issuer);
+      const { email } = await completeOidcLogin(metadata, config, {
+        code: req.query.code,
+        codeVerifier: loginState.codeVerifier,
+        nonce: loginState.nonce,
+      });
+      const userId = await provisionSsoUser(config, email);
+      const token = await generateSsoLoginToken(userId, config.subscriptionId);
+
+      res.redirect(
+        302,
+        buildSsoCompletionUrl({ token, callbackUrl: loginState.callbackUrl })
+      );
+    } catch (error) {
+      const boomError = boomify(ensureError(error));
+      console.error("[GET /api/user/sso/callback] Error:", boomError.message);
+      if (boomError.isServer) {
+        Sentry.captureException(ensureError(error), {
+          tags: { handler: "GET /api/user/sso/callback" },
+        });
+      }
+      res.redirect(
+        302,
+        buildSsoCompletionUrl({
+          error: boomError.isServer
+            ? "Single sign-on failed. Please try again."
+            : boomError.message,
+        })
+      );
+    }
+  });
+};
@@ -0,0 +1,30 @@
+import { badRequest } from "@hapi/boom";
+import express from "express";
+
+import { getActiveSsoConfigForEmail } from "../../../utils/sso";
+import { handleError } from "../../any-api-workspaces-catchall/middleware";
+
+/**
+ * GET /api/user/sso/discover?email=
+ * Tells the login page whether the email's domain signs in through an identity provider.
+ * No authentication required.
+ */
+export const registerGetSsoDiscover = (app: express.Application) => {
+  app.get("/api/user/sso/discover", async (req, res, next) => {
+    try {
+      const email =
+        typeof req.query.email === "string" ? req.query.email.trim() : "";
+      if (!email) {
+        throw badRequest("email query parameter is required");
+      }
+
+      const config = await getActiveSsoConfigForEmail(email);
+      res.json({
+        sso: !!config,
+        enforced: !!config?.enforceSso,
+      });
+    } catch (error) {
+      handleError(error, next, "GET /api/user/sso/discover");
+    }
+  });
+};
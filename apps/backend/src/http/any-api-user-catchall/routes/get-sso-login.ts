@@ -0,0 +1,77 @@
+import { randomBytes } from "crypto";
+
+import { boomify } from "@hapi/boom";
+import express from "express";
+
+import { ensureError } from "../../../utils/sentry";
+import {
+  buildOidcAuthorizationUrl,
+  buildSsoCompletionUrl,
+  createPkcePair,
+  discoverOidcProvider,
+  getActiveSsoConfigForEmail,
+  resolveSsoReturnUrl,
+} from "../../../utils/sso";
+import { setSsoStateCookie } from "../../../utils/ssoStateCookie";
+
+/**
+ * GET /api/user/sso/login?email=&callbackUrl=
+ * Starts the OpenID Connect login (authorization code flow with PKCE) for the
+ * identity provider of the email's domain. Browser navigation, so errors are
+ * shown on the frontend SSO page instead of returned as JSON. No auth required.
+ */
+export const registerGetSsoLogin = (app: express.Application) => {
+  app.get("/api/user/sso/login", async (req, res) => {
+    try {
+      const email =
+        typeof req.query.email === "string"
+          ? req.query.email.trim().toLowerCase()
+          : "";
+      const config = email
+        ? await getActiveSsoConfigForEmail(email)
+        : undefined;
+      if (!config) {
+        res.redirect(
+          302,
+          buildSsoCompletionUrl({
+            error: "Single sign-on is not configured for this email address.",
+          })
+        );
+        return;
+      }
+
+      const metadata = await discoverOidcProvider(config.issuer);
+      const { codeVerifier, codeChallenge } = createPkcePair();
+      const state = randomBytes(16).toString("base64url");
+      const nonce = randomBytes(16).toString("base64url");
+      await setSsoStateCookie(res, {
+        state,
+        nonce,
+        codeVerifier,
+        subscriptionId: config.subscriptionId,
+        callbackUrl: resolveSsoReturnUrl(req.query.callbackUrl),
+      });
+
+      res.redirect(
+        302,
+        buildOidcAuthorizationUrl(metadata, config, {
+          state,
+          nonce,
+          codeChallenge,
+          loginHint: email,
+        })
+      );
+    } catch (error) {
+      const boomError = boomify(ensureError(error));
+      console.error("[GET /api/user/sso/login] Error:", boomError.message);
+      res.redirect(
+        302,
+        buildSsoCompletionUrl({
+          error: boomError.isServer
+            ? "Could not start single sign-on. Please try again."
+            : boomError.message,
+        })
+      );
+    }
+  });
+};
@@ -50,6 +50,33 @@ import {
  *                     format: date-time
  *                     nullable: true
  *                     description: When the key was last used
+ *                   requestCount:
+ *                     type: integer
+ *                     description: Number of requests made with the key
+ *                   workspaceIds:
+ *                     type: array
+ *                     nullable: true
+ *                     items:
+ *                       type: string
+ *                     description: Workspaces the key is limited to (null for all workspaces)
+ *                   capabilities:
+ *                     type: array
+ *                     nullable: true
+ *                     items:
+ *                       type: string
+ *                       enum: [read, documents, agents, usage]
+ *                     description: Capabilities the key is limited to (null for full access)
+ *                   expiresAt:
+ *                     type: string
+ *                     format: date-time
+ *                     nullable: true
+ *                     description: When the key expires
+ *                   allowedIps:
+ *                     type: array
+ *                     nullable: true
+ *                     items:
+ *                       type: string
+ *                     description: IP addresses or CIDR ranges the key may be used from
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       500:
@@ -89,6 +116,11 @@ export const registerGetUserApiKeys = (app: express.Application) => {
           maskedKey: maskedKey,
           createdAt: key.createdAt,
           lastUsedAt: key.lastUsedAt || null,
+          requestCount: key.requestCount ?? 0,
+          workspaceIds: key.workspaceIds ?? null,
+          capabilities: key.capabilities ?? null,
+          expiresAt: key.expiresAt ?? null,
+          allowedIps: key.allowedIps ?? null,
         };
       });
 
@@ -1,9 +1,11 @@
 import { randomUUID } from "crypto";
 
-import { unauthorized } from "@hapi/boom";
+import { forbidden, unauthorized } from "@hapi/boom";
 import express from "express";
 
 import { database } from "../../../tables";
+import { isUserAuthorized } from "../../../tables/permissions";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
 import {
   generateApiKey,
   getKeyPrefix,
@@ -21,7 +23,7 @@ import { createUserApiKeySchema } from "../../utils/schemas/userSchemas";
  * /api/user/api-keys:
  *   post:
  *     summary: Create user API key
- *     description: Creates a new API key for the authenticated user. The key value is only returned once upon creation.
+ *     description: Creates a new API key for the authenticated user. The key value is only returned once upon creation. Without workspaceIds and capabilities the key has the full power of the user; otherwise it is limited to the given workspaces and capabilities.
  *     tags:
  *       - User
  *     security:
@@ -36,6 +38,26 @@ import { createUserApiKeySchema } from "../../utils/schemas/userSchemas";
  *               name:
  *                 type: string
  *                 description: Optional name/label for the key
+ *               workspaceIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Workspaces the key is limited to (the user must have access to each of them)
+ *               capabilities:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [read, documents, agents, usage]
+ *                 description: Capabilities the key is limited to (read-only, manage documents, call agents, read usage)
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Optional expiry date (must be in the future)
+ *               allowedIps:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: IP addresses or CIDR ranges the key may be used from
  *     responses:
  *       201:
  *         description: API key created successfully
@@ -61,8 +83,31 @@ import { createUserApiKeySchema } from "../../utils/schemas/userSchemas";
  *                   type: string
  *                   format: date-time
  *                   description: When the key was created
+ *                 workspaceIds:
+ *                   type: array
+ *                   nullable: true
+ *                   items:
+ *                     type: string
+ *                 capabilities:
+ *                   type: array
+ *                   nullable: true
+ *                   items:
+ *                     type: string
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
+ *                 allowedIps:
+ *                   type: array
+ *                   nullable: true
+ *                   items:
+ *                     type: string
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
@@ -77,7 +122,26 @@ export const registerPostUserApiKeys = (app: express.Application) => {
 
       const userId = userRef.replace("users/", "");
       const body = validateBody(req.body || {}, createUserApiKeySchema);
-      const { name } = body;
+      const { name, expiresAt } = body;
+      const workspaceIds = body.workspaceIds && [...new Set(body.workspaceIds)];
+      const capabilities = body.capabilities && [...new Set(body.capabilities)];
+      const allowedIps = body.allowedIps?.length
+        ? [...new Set(body.allowedIps)]
+        : undefined;
+
+      // A key can never reach more than its owner
+      for (const workspaceId of workspaceIds ?? []) {
+        const [authorized] = await isUserAuthorized(
+          userRef,
+          `workspaces/${workspaceId}`,
+          PERMISSION_LEVELS.READ
+        );
+        if (!authorized) {
+          throw forbidden(
+            `You do not have access to workspace ${workspaceId}`
+          );
+        }
+      }
 
       // Generate API key
       const apiKey = generateApiKey();
@@ -105,6 +169,10 @@ export const registerPostUserApiKeys = (app: express.Application) => {
         keyLookupHash,
         keyPrefix,
         name: name || undefined,
+        workspaceIds,
+        capabilities,
+        allowedIps,
+        expiresAt,
         createdBy: userRef,
       });
 
@@ -114,6 +182,10 @@ export const registerPostUserApiKeys = (app: express.Application) => {
         name: apiKeyRecord.name || null,
         keyPrefix: apiKeyRecord.keyPrefix,
         createdAt: apiKeyRecord.createdAt,
+        workspaceIds: apiKeyRecord.workspaceIds ?? null,
+        capabilities: apiKeyRecord.capabilities ?? null,
+        expiresAt: apiKeyRecord.expiresAt ?? null,
+        allowedIps: apiKeyRecord.allowedIps ?? null,
       });
     } catch (error) {
       handleError(error, next, "POST /api/user/api-keys");
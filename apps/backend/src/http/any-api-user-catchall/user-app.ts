@@ -6,6 +6,9 @@ import { posthogResetMiddleware } from "../utils/posthogMiddleware";
 // Import user API key route handlers
 import { registerDeleteUserApiKeys } from "./routes/delete-user-api-keys";
 import { registerGetPasskeyLoginOptions } from "./routes/get-passkey-login-options";
+import { registerGetSsoCallback } from "./routes/get-sso-callback";
+import { registerGetSsoDiscover } from "./routes/get-sso-discover";
+import { registerGetSsoLogin } from "./routes/get-sso-login";
 import { registerGetUserApiKeys } from "./routes/get-user-api-keys";
 import { registerGetUserPasskeys } from "./routes/get-user-passkeys";
 import { registerPostGenerateTokens } from "./routes/post-generate-tokens";
@@ -47,6 +50,11 @@ export const createApp = (): express.Application => {
   registerGetPasskeyLoginOptions(app);
   registerPostPasskeyLoginVerify(app);
 
+  // Single sign-on (OpenID Connect) routes
+  registerGetSsoDiscover(app);
+  registerGetSsoLogin(app);
+  registerGetSsoCallback(app);
+
   // Error handler must be last
   app.use(expressErrorHandler);
 
@@ -1,3 +1,5 @@
+import { createHash } from "crypto";
+
 import { WebClient } from "@slack/web-api";
 import type {
   APIGatewayProxyEventV2,
@@ -6,20 +8,32 @@ import type {
 
 import { database } from "../../tables";
 import type { BotIntegrationRecord } from "../../tables/schema";
-import { enqueueBotWebhookTask } from "../../utils/botWebhookQueue";
+import {
+  enqueueBotFeedbackTask,
+  enqueueBotWebhookTask,
+} from "../../utils/botWebhookQueue";
 import { handlingErrors } from "../../utils/handlingErrors";
 import { adaptHttpHandler } from "../../utils/httpEventAdapter";
 import { resetPostHogRequestContext } from "../../utils/posthog";
 import { initSentry } from "../../utils/sentry";
+import { getTeamsAccessToken } from "../../utils/teamsApi";
 import { trackEvent } from "../../utils/tracking";
 
 import {
   createDiscordDeferredResponse,
   createDiscordInteractionResponse,
+  parseDiscordFeedbackCustomId,
 } from "./services/discordResponse";
 import { verifyDiscordSignature } from "./services/discordVerification";
-import { postSlackMessage } from "./services/slackResponse";
+import {
+  postSlackMessage,
+  slackReactionToRating,
+} from "./services/slackResponse";
 import { verifySlackSignature } from "./services/slackVerification";
+import { sendTeamsReply, stripTeamsMentions } from "./services/teamsResponse";
+import { verifyTeamsRequest } from "./services/teamsVerification";
+import { sendTelegramMessage } from "./services/telegramResponse";
+import { verifyTelegramSecretToken } from "./services/telegramVerification";
 
 initSentry();
 
@@ -50,6 +64,14 @@ interface SlackEvent {
     ts?: string;
     thread_ts?: string;
     subtype?: string;
+    // reaction_added / reaction_removed
+    reaction?: string;
+    item_user?: string;
+    item?: {
+      type: string;
+      channel?: string;
+      ts?: string;
+    };
   };
   challenge?: string;
 }
@@ -62,6 +84,8 @@ interface DiscordInteraction {
       name: string;
       value: string;
     }>;
+    // MESSAGE_COMPONENT (type 3)
+    custom_id?: string;
   };
   token?: string;
   member?: {
@@ -78,6 +102,56 @@ interface DiscordInteraction {
   guild_id?: string;
 }
 
+interface TelegramUpdate {
+  update_id?: number;
+  message?: {
+    message_id: number;
+    message_thread_id?: number;
+    is_topic_message?: boolean;
+    text?: string;
+    from?: {
+      id: number;
+      is_bot?: boolean;
+      username?: string;
+    };
+    chat: {
+      id: number;
+      type: "private" | "group" | "supergroup" | "channel";
+    };
+    reply_to_message?: {
+      from?: {
+        id: number;
+      };
+    };
+  };
+}
+
+interface TeamsActivity {
+  type?: string;
+  id?: string;
+  text?: string;
+  serviceUrl?: string;
+  from?: {
+    id: string;
+    name?: string;
+  };
+  conversation?: {
+    id: string;
+    conversationType?: string;
+    tenantId?: string;
+  };
+  recipient?: {
+    id: string;
+  };
+  channelData?: {
+    tenant?: {
+      id?: string;
+    };
+  };
+}
+
+const SUPPORTED_WEBHOOK_TYPES = ["slack", "discord", "teams", "telegram"];
+
 export const handler = adaptHttpHandler(
   handlingErrors(
     async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
@@ -99,11 +173,12 @@ export const handler = adaptHttpHandler(
       }
 
       // Validate type parameter
-      if (type !== "slack" && type !== "discord") {
+      if (!SUPPORTED_WEBHOOK_TYPES.includes(type)) {
         return {
           statusCode: 400,
           body: JSON.stringify({
-            error: "Invalid type. Must be 'slack' or 'discord'",
+            error:
+              "Invalid type. Must be 'slack', 'discord', 'teams' or 'telegram'",
           }),
           headers: { "Content-Type": "application/json" },
         };
@@ -123,6 +198,10 @@ export const handler = adaptHttpHandler(
               : parsedBody.type === 2
               ? "interaction"
               : "unknown";
+        } else if (type === "telegram") {
+          eventType = parsedBody.message ? "message" : "unknown";
+        } else if (type === "teams") {
+          eventType = parsedBody.type || "unknown";
         }
       } catch {
         // Ignore parse errors for tracking
@@ -273,6 +352,10 @@ export const handler = adaptHttpHandler(
           headers: Object.keys(event.headers || {}),
         });
         return handleSlackWebhook(event, integration, integrationId);
+      } else if (type === "telegram") {
+        return handleTelegramWebhook(event, integration, integrationId);
+      } else if (type === "teams") {
+        return handleTeamsWebhook(event, integration, integrationId);
       } else {
         return handleDiscordWebhook(event, integration, integrationId);
       }
@@ -359,6 +442,19 @@ async function handleSlackWebhook(
     event_type: body.type || "unknown",
   });
 
+  if (
+    body.type === "event_callback" &&
+    (body.event?.type === "reaction_added" ||
+      body.event?.type === "reaction_removed")
+  ) {
+    await handleSlackReaction(body.event, integration, integrationId);
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ ok: true }),
+      headers: { "Content-Type": "application/json" },
+    };
+  }
+
   // Handle event callback
   if (body.type === "event_callback" && body.event) {
     const slackEvent = body.event;
@@ -537,7 +633,8 @@ async function handleSlackWebhook(
               messageTs: initialMessage.ts,
               threadTs: slackEvent.thread_ts,
             },
-            slackEvent.thread_ts || slackEvent.ts
+            slackEvent.thread_ts || slackEvent.ts,
+            `slack:${slackEvent.user}`
           );
         } catch (error) {
           console.error("[Slack Webhook] Error enqueueing task:", error);
@@ -570,6 +667,55 @@ async function handleSlackWebhook(
   };
 }
 
+/**
+ * Enqueues a 👍/👎 reaction on a bot message as feedback on the agent reply.
+ * Which reply the message is, if any, is read from its metadata by the queue task.
+ */
+async function handleSlackReaction(
+  slackEvent: NonNullable<SlackEvent["event"]>,
+  integration: BotIntegrationRecord,
+  integrationId: string
+): Promise<void> {
+  const config = integration.config as {
+    botToken: string;
+    botUserId?: string;
+  };
+  const rating = slackEvent.reaction
+    ? slackReactionToRating(slackEvent.reaction)
+    : undefined;
+  const { item } = slackEvent;
+  if (
+    !rating ||
+    item?.type !== "message" ||
+    !item.channel ||
+    !item.ts ||
+    (config.botUserId && slackEvent.item_user !== config.botUserId)
+  ) {
+    return;
+  }
+
+  try {
+    await enqueueBotFeedbackTask(
+      "slack",
+      integrationId,
+      integration.workspaceId,
+      integration.agentId,
+      {
+        rating,
+        ...(slackEvent.type === "reaction_removed" && { removed: true }),
+        ...(slackEvent.user && { userId: slackEvent.user }),
+      },
+      {
+        botToken: config.botToken,
+        channel: item.channel,
+        messageTs: item.ts,
+      }
+    );
+  } catch (error) {
+    console.error("[Slack Webhook] Error enqueueing feedback task:", error);
+  }
+}
+
 /**
  * Handle Discord webhook interactions
  */
@@ -693,6 +839,8 @@ async function handleDiscordWebhook(
     // This acknowledges the interaction and allows up to 15 minutes for follow-up
     const deferredResponse = createDiscordDeferredResponse();
 
+    const discordUserId = body.member?.user?.id || body.user?.id;
+
     // Enqueue task for async processing
     try {
       await enqueueBotWebhookTask(
@@ -707,7 +855,8 @@ async function handleDiscordWebhook(
           channelId: body.channel_id,
           botToken: config.botToken,
         },
-        body.channel_id
+        body.channel_id,
+        discordUserId && `discord:${discordUserId}`
       );
     } catch (error) {
       console.error("[Discord Webhook] Error enqueueing task:", error);
@@ -722,6 +871,50 @@ async function handleDiscordWebhook(
     };
   }
 
+  // Handle MESSAGE_COMPONENT (type 3) - 👍/👎 buttons under agent replies
+  const feedback =
+    body.type === 3 && body.data?.custom_id
+      ? parseDiscordFeedbackCustomId(body.data.custom_id)
+      : undefined;
+  if (feedback) {
+    const userId = body.member?.user?.id || body.user?.id;
+    try {
+      await enqueueBotFeedbackTask(
+        "discord",
+        integrationId,
+        integration.workspaceId,
+        integration.agentId,
+        {
+          rating: feedback.rating,
+          messageId: feedback.messageId,
+          ...(userId && { userId }),
+        },
+        undefined,
+        feedback.conversationId
+      );
+    } catch (error) {
+      console.error("[Discord Webhook] Error enqueueing feedback task:", error);
+      return {
+        statusCode: 200,
+        body: JSON.stringify(
+          createDiscordInteractionResponse(
+            "Sorry, your feedback could not be saved.",
+            true
+          )
+        ),
+        headers: { "Content-Type": "application/json" },
+      };
+    }
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify(
+        createDiscordInteractionResponse("Thanks for your feedback!", true)
+      ),
+      headers: { "Content-Type": "application/json" },
+    };
+  }
+
   // Unknown interaction type
   return {
     statusCode: 200,
@@ -731,3 +924,314 @@ async function handleDiscordWebhook(
     headers: { "Content-Type": "application/json" },
   };
 }
+
+/**
+ * Extracts the text addressed to the bot from a Telegram message.
+ * Private chats always address the bot; in groups the bot must be mentioned,
+ * replied to, or called with the /ask command.
+ * Returns undefined when the message is not addressed to the bot.
+ */
+export function extractTelegramMessageText(
+  message: NonNullable<TelegramUpdate["message"]>,
+  botUsername: string | undefined,
+  botUserId: number | undefined
+): string | undefined {
+  const text = message.text?.trim();
+  if (!text) {
+    return undefined;
+  }
+
+  const mention = botUsername ? `@${botUsername}` : undefined;
+  const commandMatch = text.match(/^\/(\w+)(@\w+)?(?:\s+([\s\S]*))?$/);
+  if (commandMatch) {
+    const [, command, commandTarget, commandArgs] = commandMatch;
+    // Commands addressed to another bot in the group
+    if (
+      commandTarget &&
+      mention &&
+      commandTarget.toLowerCase() !== mention.toLowerCase()
+    ) {
+      return undefined;
+    }
+    if (command === "ask") {
+      return commandArgs?.trim() || undefined;
+    }
+    // Other commands (such as /start) are not forwarded to the agent
+    return undefined;
+  }
+
+  if (message.chat.type === "private") {
+    return text;
+  }
+
+  const isReplyToBot =
+    botUserId !== undefined && message.reply_to_message?.from?.id === botUserId;
+  const hasMention =
+    !!mention && text.toLowerCase().includes(mention.toLowerCase());
+  if (!isReplyToBot && !hasMention) {
+    return undefined;
+  }
+
+  if (!mention) {
+    return text;
+  }
+  return text
+    .replace(new RegExp(mention.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi"), "")
+    .trim() || undefined;
+}
+
+/**
+ * Handle Telegram webhook updates
+ */
+async function handleTelegramWebhook(
+  event: APIGatewayProxyEventV2,
+  integration: BotIntegrationRecord,
+  integrationId: string
+): Promise<APIGatewayProxyResultV2> {
+  const config = integration.config as {
+    botToken: string;
+    secretToken?: string;
+    botUsername?: string;
+    botUserId?: number;
+    messageHistoryCount?: number;
+  };
+
+  if (!verifyTelegramSecretToken(event, config.secretToken)) {
+    trackEvent("bot_webhook_verification_failed", {
+      workspace_id: integration.workspaceId,
+      integration_id: integrationId,
+      platform: "telegram",
+      event_type: "update",
+    });
+    return {
+      statusCode: 401,
+      body: JSON.stringify({ error: "Invalid secret token" }),
+      headers: { "Content-Type": "application/json" },
+    };
+  }
+
+  trackEvent("bot_webhook_verified", {
+    workspace_id: integration.workspaceId,
+    integration_id: integrationId,
+    platform: "telegram",
+    event_type: "update",
+  });
+
+  // Telegram retries updates until it receives a 2xx, so every verified
+  // update is acknowledged, including the ones we ignore or fail to process
+  const okResponse: APIGatewayProxyResultV2 = {
+    statusCode: 200,
+    body: JSON.stringify({ ok: true }),
+    headers: { "Content-Type": "application/json" },
+  };
+
+  let body: TelegramUpdate;
+  try {
+    body = JSON.parse(decodeRequestBody(event));
+  } catch {
+    return okResponse;
+  }
+
+  const message = body.message;
+  if (!message || !message.from || message.from.is_bot) {
+    return okResponse;
+  }
+
+  const messageText = extractTelegramMessageText(
+    message,
+    config.botUsername,
+    config.botUserId
+  );
+  if (!messageText) {
+    return okResponse;
+  }
+
+  const chatId = String(message.chat.id);
+  const messageThreadId = message.is_topic_message
+    ? message.message_thread_id
+    : undefined;
+
+  // Post initial "thinking" message (for immediate feedback)
+  let placeholder: { messageId: number };
+  try {
+    placeholder = await sendTelegramMessage(
+      config.botToken,
+      chatId,
+      "Agent is thinking...",
+      { replyToMessageId: message.message_id, messageThreadId }
+    );
+  } catch (error) {
+    console.error("[Telegram Webhook] Error posting initial message:", error);
+    return okResponse;
+  }
+
+  try {
+    await enqueueBotWebhookTask(
+      "telegram",
+      integrationId,
+      integration.workspaceId,
+      integration.agentId,
+      messageText,
+      {
+        chatId,
+        telegramMessageId: placeholder.messageId,
+        messageThreadId,
+      },
+      // One conversation per chat (and per forum topic)
+      messageThreadId !== undefined
+        ? `telegram-${chatId}-${messageThreadId}`
+        : `telegram-${chatId}`
+    );
+  } catch (error) {
+    console.error("[Telegram Webhook] Error enqueueing task:", error);
+    try {
+      await sendTelegramMessage(
+        config.botToken,
+        chatId,
+        `❌ Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+        { messageThreadId }
+      );
+    } catch (updateError) {
+      console.error(
+        "[Telegram Webhook] Error posting error message:",
+        updateError
+      );
+    }
+  }
+
+  return okResponse;
+}
+
+/**
+ * Handle Microsoft Teams (Bot Framework) activities
+ */
+async function handleTeamsWebhook(
+  event: APIGatewayProxyEventV2,
+  integration: BotIntegrationRecord,
+  integrationId: string
+): Promise<APIGatewayProxyResultV2> {
+  const config = integration.config as {
+    appId: string;
+    appPassword: string;
+    tenantId?: string;
+    messageHistoryCount?: number;
+  };
+
+  let activity: TeamsActivity;
+  try {
+    activity = JSON.parse(decodeRequestBody(event));
+  } catch {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: "Invalid JSON" }),
+      headers: { "Content-Type": "application/json" },
+    };
+  }
+
+  const verified = await verifyTeamsRequest(
+    event,
+    { appId: config.appId, tenantId: config.tenantId },
+    {
+      serviceUrl: activity.serviceUrl,
+      tenantId:
+        activity.conversation?.tenantId ?? activity.channelData?.tenant?.id,
+    }
+  );
+  if (!verified) {
+    trackEvent("bot_webhook_verification_failed", {
+      workspace_id: integration.workspaceId,
+      integration_id: integrationId,
+      platform: "teams",
+      event_type: activity.type || "unknown",
+    });
+    return {
+      statusCode: 401,
+      body: JSON.stringify({ error: "Invalid token" }),
+      headers: { "Content-Type": "application/json" },
+    };
+  }
+
+  trackEvent("bot_webhook_verified", {
+    workspace_id: integration.workspaceId,
+    integration_id: integrationId,
+    platform: "teams",
+    event_type: activity.type || "unknown",
+  });
+
+  // Only user messages are forwarded; conversationUpdate, typing, etc. are acknowledged
+  const okResponse: APIGatewayProxyResultV2 = {
+    statusCode: 200,
+    body: JSON.stringify({ ok: true }),
+    headers: { "Content-Type": "application/json" },
+  };
+  if (
+    activity.type !== "message" ||
+    !activity.text ||
+    !activity.id ||
+    !activity.serviceUrl ||
+    !activity.conversation?.id
+  ) {
+    return okResponse;
+  }
+
+  // Channel messages include the bot mention as <at>Bot</at>
+  const messageText = stripTeamsMentions(activity.text);
+  if (!messageText) {
+    return okResponse;
+  }
+
+  const serviceUrl = activity.serviceUrl;
+  const teamsConversationId = activity.conversation.id;
+
+  let placeholder: { activityId: string };
+  try {
+    const accessToken = await getTeamsAccessToken(
+      config.appId,
+      config.appPassword,
+      config.tenantId
+    );
+    placeholder = await sendTeamsReply(
+      accessToken,
+      serviceUrl,
+      teamsConversationId,
+      activity.id,
+      "Agent is thinking..."
+    );
+  } catch (error) {
+    console.error("[Teams Webhook] Error posting initial message:", error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        ok: false,
+        error: error instanceof Error ? error.message : "Failed to post message",
+      }),
+      headers: { "Content-Type": "application/json" },
+    };
+  }
+
+  try {
+    await enqueueBotWebhookTask(
+      "teams",
+      integrationId,
+      integration.workspaceId,
+      integration.agentId,
+      messageText,
+      {
+        serviceUrl,
+        teamsConversationId,
+        activityId: placeholder.activityId,
+      },
+      // Teams conversation IDs are long and contain reserved characters, so
+      // the conversation (one per chat or channel thread) is keyed by a hash
+      `teams-${createHash("sha256")
+        .update(teamsConversationId)
+        .digest("hex")
+        .substring(0, 32)}`
+    );
+  } catch (error) {
+    console.error("[Teams Webhook] Error enqueueing task:", error);
+    // Don't fail the request - Bot Framework would redeliver the activity
+  }
+
+  return okResponse;
+}
@@ -1,7 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 
 import {
+  buildDiscordFeedbackComponents,
   markdownToDiscord,
+  parseDiscordFeedbackCustomId,
   truncateDiscordMessage,
   createDiscordInteractionResponse,
   createDiscordDeferredResponse,
@@ -148,6 +150,36 @@ describe("createDiscordDeferredResponse", () => {
   });
 });
 
+describe("Discord feedback buttons", () => {
+  it("should build 👍/👎 buttons whose custom_id round-trips", () => {
+    const [row] = buildDiscordFeedbackComponents("conv-1", "req-1");
+
+    expect(row.type).toBe(1);
+    expect(row.components.map((button) => button.emoji.name)).toEqual([
+      "👍",
+      "👎",
+    ]);
+    expect(
+      row.components.map((button) =>
+        parseDiscordFeedbackCustomId(button.custom_id)
+      )
+    ).toEqual([
+      { rating: "positive", conversationId: "conv-1", messageId: "req-1" },
+      { rating: "negative", conversationId: "conv-1", messageId: "req-1" },
+    ]);
+  });
+
+  it("should omit the buttons when the custom_id would be too long", () => {
+    expect(buildDiscordFeedbackComponents("c".repeat(80), "req-1")).toEqual([]);
+  });
+
+  it("should not parse custom_ids of other components", () => {
+    expect(parseDiscordFeedbackCustomId("other:positive:c:m")).toBeUndefined();
+    expect(parseDiscordFeedbackCustomId("feedback:meh:c:m")).toBeUndefined();
+    expect(parseDiscordFeedbackCustomId("feedback:positive:c")).toBeUndefined();
+  });
+});
+
 describe("updateDiscordMessage", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -5,6 +5,7 @@ import {
   markdownToSlack,
   truncateSlackMessage,
   postSlackMessage,
+  slackReactionToRating,
   updateSlackMessage,
 } from "../slackResponse";
 
@@ -301,3 +302,16 @@ describe("updateSlackMessage", () => {
   });
 });
 
+
+describe("slackReactionToRating", () => {
+  it("should map thumbs reactions, ignoring skin tones", () => {
+    expect(slackReactionToRating("+1")).toBe("positive");
+    expect(slackReactionToRating("thumbsup::skin-tone-2")).toBe("positive");
+    expect(slackReactionToRating("-1")).toBe("negative");
+    expect(slackReactionToRating("thumbsdown")).toBe("negative");
+  });
+
+  it("should return undefined for other reactions", () => {
+    expect(slackReactionToRating("tada")).toBeUndefined();
+  });
+});
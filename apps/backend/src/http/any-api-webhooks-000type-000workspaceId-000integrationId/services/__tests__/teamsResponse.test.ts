@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { mockCallTeamsConnector } = vi.hoisted(() => ({
+  mockCallTeamsConnector: vi.fn(),
+}));
+
+vi.mock("../../../../utils/teamsApi", () => ({
+  callTeamsConnector: mockCallTeamsConnector,
+}));
+
+import {
+  sendTeamsReply,
+  stripTeamsMentions,
+  truncateTeamsMessage,
+  updateTeamsActivity,
+} from "../teamsResponse";
+
+describe("stripTeamsMentions", () => {
+  it("should remove bot mentions and non-breaking spaces", () => {
+    expect(stripTeamsMentions("<at>Helpmaton</at>&nbsp;what is new?")).toBe(
+      "what is new?"
+    );
+  });
+
+  it("should leave text without mentions unchanged", () => {
+    expect(stripTeamsMentions("hello there")).toBe("hello there");
+  });
+});
+
+describe("truncateTeamsMessage", () => {
+  it("should truncate long messages with an ellipsis", () => {
+    const result = truncateTeamsMessage("a".repeat(25000));
+    expect(result).toHaveLength(20000);
+    expect(result.endsWith("...")).toBe(true);
+  });
+});
+
+describe("sendTeamsReply", () => {
+  const serviceUrl = "https://smba.trafficmanager.net/emea/";
+
+  beforeEach(() => {
+    mockCallTeamsConnector.mockReset();
+  });
+
+  it("should post a markdown reply and return the activity ID", async () => {
+    mockCallTeamsConnector.mockResolvedValue({ id: "activity-2" });
+
+    const result = await sendTeamsReply(
+      "access-token",
+      serviceUrl,
+      "19:conv@thread.v2",
+      "activity-1",
+      "Hello"
+    );
+
+    expect(result).toEqual({ activityId: "activity-2" });
+    expect(mockCallTeamsConnector).toHaveBeenCalledWith(
+      "access-token",
+      "POST",
+      serviceUrl,
+      "/v3/conversations/19%3Aconv%40thread.v2/activities/activity-1",
+      {
+        type: "message",
+        text: "Hello",
+        textFormat: "markdown",
+        replyToId: "activity-1",
+      }
+    );
+  });
+
+  it("should throw when no activity ID is returned", async () => {
+    mockCallTeamsConnector.mockResolvedValue({});
+
+    await expect(
+      sendTeamsReply("access-token", serviceUrl, "conv", "activity-1", "Hello")
+    ).rejects.toThrow("no activity ID returned");
+  });
+});
+
+describe("updateTeamsActivity", () => {
+  it("should replace the activity with PUT", async () => {
+    mockCallTeamsConnector.mockResolvedValue({});
+
+    await updateTeamsActivity(
+      "access-token",
+      "https://smba.trafficmanager.net/emea/",
+      "conv",
+      "activity-2",
+      "Updated"
+    );
+
+    expect(mockCallTeamsConnector).toHaveBeenCalledWith(
+      "access-token",
+      "PUT",
+      "https://smba.trafficmanager.net/emea/",
+      "/v3/conversations/conv/activities/activity-2",
+      {
+        type: "message",
+        text: "Updated",
+        textFormat: "markdown",
+        id: "activity-2",
+      }
+    );
+  });
+});
@@ -0,0 +1,156 @@
+import { SignJWT, createLocalJWKSet, exportJWK, generateKeyPair } from "jose";
+import type { JWTPayload } from "jose";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+import { createAPIGatewayEventV2 } from "../../../utils/__tests__/test-helpers";
+import { verifyTeamsRequest } from "../teamsVerification";
+
+const { jwks } = vi.hoisted(() => ({
+  jwks: {} as { current?: ReturnType<typeof createLocalJWKSet> },
+}));
+
+// Serve the Bot Framework keys from a local key set instead of login.botframework.com
+vi.mock("jose", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("jose")>()),
+  createRemoteJWKSet: () => {
+    if (!jwks.current) {
+      throw new Error("Test key set not initialized");
+    }
+    return jwks.current;
+  },
+}));
+
+describe("verifyTeamsRequest", () => {
+  const appId = "app-id";
+  const tenantId = "72F988BF-86F1-41AF-91AB-2D7CD011DB47";
+  const serviceUrl = "https://smba.trafficmanager.net/emea/";
+  let signingKey: CryptoKey;
+  let otherKey: CryptoKey;
+
+  beforeAll(async () => {
+    const keyPair = await generateKeyPair("RS256", { extractable: true });
+    signingKey = keyPair.privateKey;
+    otherKey = (await generateKeyPair("RS256")).privateKey;
+    const publicJwk = await exportJWK(keyPair.publicKey);
+    jwks.current = createLocalJWKSet({
+      keys: [{ ...publicJwk, kid: "test-key", alg: "RS256" }],
+    });
+  });
+
+  async function createToken(
+    overrides: {
+      payload?: JWTPayload;
+      issuer?: string;
+      audience?: string;
+      expiresAt?: number;
+      key?: CryptoKey;
+    } = {}
+  ): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+    return new SignJWT({ serviceurl: serviceUrl, ...overrides.payload })
+      .setProtectedHeader({ alg: "RS256", kid: "test-key" })
+      .setIssuer(overrides.issuer ?? "https://api.botframework.com")
+      .setAudience(overrides.audience ?? appId)
+      .setIssuedAt(now - 60)
+      .setExpirationTime(overrides.expiresAt ?? now + 3600)
+      .sign(overrides.key ?? signingKey);
+  }
+
+  function createEvent(token: string) {
+    return createAPIGatewayEventV2({
+      headers: { authorization: `Bearer ${token}` },
+    });
+  }
+
+  it("should accept a valid token for the activity's serviceUrl", async () => {
+    const event = createEvent(await createToken());
+
+    await expect(
+      verifyTeamsRequest(event, { appId }, { serviceUrl })
+    ).resolves.toBe(true);
+  });
+
+  it("should reject a missing authorization header", async () => {
+    const event = createAPIGatewayEventV2({ headers: {} });
+
+    await expect(
+      verifyTeamsRequest(event, { appId }, { serviceUrl })
+    ).resolves.toBe(false);
+  });
+
+  it("should reject a token with a bad signature", async () => {
+    const event = createEvent(await createToken({ key: otherKey }));
+
+    await expect(
+      verifyTeamsRequest(event, { appId }, { serviceUrl })
+    ).resolves.toBe(false);
+  });
+
+  it("should reject a token issued for another app", async () => {
+    const event = createEvent(await createToken({ audience: "other-app" }));
+
+    await expect(
+      verifyTeamsRequest(event, { appId }, { serviceUrl })
+    ).resolves.toBe(false);
+  });
+
+  it("should reject a token from another issuer", async () => {
+    const event = createEvent(
+      await createToken({ issuer: "https://sts.windows.net/other/" })
+    );
+
+    await expect(
+      verifyTeamsRequest(event, { appId }, { serviceUrl })
+    ).resolves.toBe(false);
+  });
+
+  it("should reject an expired token", async () => {
+    // Beyond the 5 minute clock tolerance
+    const event = createEvent(
+      await createToken({ expiresAt: Math.floor(Date.now() / 1000) - 600 })
+    );
+
+    await expect(
+      verifyTeamsRequest(event, { appId }, { serviceUrl })
+    ).resolves.toBe(false);
+  });
+
+  it("should reject a token bound to another serviceUrl", async () => {
+    const event = createEvent(await createToken());
+
+    await expect(
+      verifyTeamsRequest(
+        event,
+        { appId },
+        { serviceUrl: "https://attacker.example.com/" }
+      )
+    ).resolves.toBe(false);
+  });
+
+  it("should accept activities from the configured tenant", async () => {
+    const event = createEvent(await createToken());
+
+    await expect(
+      verifyTeamsRequest(
+        event,
+        { appId, tenantId },
+        { serviceUrl, tenantId: tenantId.toLowerCase() }
+      )
+    ).resolves.toBe(true);
+  });
+
+  it("should reject activities from another tenant", async () => {
+    const event = createEvent(await createToken());
+
+    await expect(
+      verifyTeamsRequest(
+        event,
+        { appId, tenantId },
+        { serviceUrl, tenantId: "00000000-0000-0000-0000-000000000000" }
+      )
+    ).resolves.toBe(false);
+    await expect(
+      verifyTeamsRequest(event, { appId, tenantId }, { serviceUrl })
+    ).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { mockCallTelegramApi } = vi.hoisted(() => ({
+  mockCallTelegramApi: vi.fn(),
+}));
+
+vi.mock("../../../../utils/telegramApi", () => ({
+  callTelegramApi: mockCallTelegramApi,
+}));
+
+import {
+  editTelegramMessage,
+  markdownToTelegramHtml,
+  sendTelegramMessage,
+  truncateTelegramMessage,
+} from "../telegramResponse";
+
+describe("markdownToTelegramHtml", () => {
+  it("should convert bold and italic text", () => {
+    expect(markdownToTelegramHtml("**bold** and *italic*")).toBe(
+      "<b>bold</b> and <i>italic</i>"
+    );
+  });
+
+  it("should convert strikethrough and headings", () => {
+    expect(markdownToTelegramHtml("# Title\n~~old~~")).toBe(
+      "<b>Title</b>\n<s>old</s>"
+    );
+  });
+
+  it("should convert links", () => {
+    expect(markdownToTelegramHtml("[Docs](https://example.com)")).toBe(
+      '<a href="https://example.com">Docs</a>'
+    );
+  });
+
+  it("should escape HTML special characters", () => {
+    expect(markdownToTelegramHtml("a < b && c > d")).toBe(
+      "a &lt; b &amp;&amp; c &gt; d"
+    );
+  });
+
+  it("should not format or double-escape code", () => {
+    expect(markdownToTelegramHtml("Run `a **b** <c>`")).toBe(
+      "Run <code>a **b** &lt;c&gt;</code>"
+    );
+    expect(markdownToTelegramHtml("```ts\nconst x = 1 < 2;\n```")).toBe(
+      "<pre>const x = 1 &lt; 2;</pre>"
+    );
+  });
+});
+
+describe("truncateTelegramMessage", () => {
+  it("should leave short messages unchanged", () => {
+    expect(truncateTelegramMessage("Hello")).toBe("Hello");
+  });
+
+  it("should truncate long messages with an ellipsis", () => {
+    const result = truncateTelegramMessage("a".repeat(5000));
+    expect(result).toHaveLength(4000);
+    expect(result.endsWith("...")).toBe(true);
+  });
+});
+
+describe("sendTelegramMessage", () => {
+  beforeEach(() => {
+    mockCallTelegramApi.mockReset();
+  });
+
+  it("should send HTML formatted replies", async () => {
+    mockCallTelegramApi.mockResolvedValue({ message_id: 12 });
+
+    const result = await sendTelegramMessage("token", "555", "**Hi**", {
+      replyToMessageId: 11,
+      messageThreadId: 3,
+    });
+
+    expect(result).toEqual({ messageId: 12 });
+    expect(mockCallTelegramApi).toHaveBeenCalledWith("token", "sendMessage", {
+      chat_id: "555",
+      message_thread_id: 3,
+      reply_parameters: {
+        message_id: 11,
+        allow_sending_without_reply: true,
+      },
+      text: "<b>Hi</b>",
+      parse_mode: "HTML",
+    });
+  });
+
+  it("should fall back to plain text when Telegram rejects the HTML", async () => {
+    mockCallTelegramApi
+      .mockRejectedValueOnce(
+        new Error("Telegram sendMessage failed: Bad Request: can't parse entities")
+      )
+      .mockResolvedValueOnce({ message_id: 13 });
+
+    const result = await sendTelegramMessage("token", "555", "**Hi**");
+
+    expect(result).toEqual({ messageId: 13 });
+    expect(mockCallTelegramApi).toHaveBeenLastCalledWith(
+      "token",
+      "sendMessage",
+      { chat_id: "555", text: "**Hi**" }
+    );
+  });
+
+  it("should rethrow other errors", async () => {
+    mockCallTelegramApi.mockRejectedValue(
+      new Error("Telegram sendMessage failed: Forbidden")
+    );
+
+    await expect(sendTelegramMessage("token", "555", "Hi")).rejects.toThrow(
+      "Forbidden"
+    );
+    expect(mockCallTelegramApi).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("editTelegramMessage", () => {
+  beforeEach(() => {
+    mockCallTelegramApi.mockReset();
+  });
+
+  it("should edit the message with HTML formatting", async () => {
+    mockCallTelegramApi.mockResolvedValue(true);
+
+    await editTelegramMessage("token", "555", 12, "_done_");
+
+    expect(mockCallTelegramApi).toHaveBeenCalledWith(
+      "token",
+      "editMessageText",
+      {
+        chat_id: "555",
+        message_id: 12,
+        text: "<i>done</i>",
+        parse_mode: "HTML",
+      }
+    );
+  });
+
+  it("should ignore 'message is not modified' errors", async () => {
+    mockCallTelegramApi.mockRejectedValue(
+      new Error(
+        "Telegram editMessageText failed: Bad Request: message is not modified"
+      )
+    );
+
+    await expect(
+      editTelegramMessage("token", "555", 12, "same")
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+
+import { createAPIGatewayEventV2 } from "../../../utils/__tests__/test-helpers";
+import { verifyTelegramSecretToken } from "../telegramVerification";
+
+describe("verifyTelegramSecretToken", () => {
+  const secretToken = "test-secret-token";
+
+  it("should accept a matching secret token", () => {
+    const event = createAPIGatewayEventV2({
+      headers: { "x-telegram-bot-api-secret-token": secretToken },
+    });
+
+    expect(verifyTelegramSecretToken(event, secretToken)).toBe(true);
+  });
+
+  it("should handle mixed case headers", () => {
+    const event = createAPIGatewayEventV2({
+      headers: { "X-Telegram-Bot-Api-Secret-Token": secretToken },
+    });
+
+    expect(verifyTelegramSecretToken(event, secretToken)).toBe(true);
+  });
+
+  it("should reject a missing secret token header", () => {
+    const event = createAPIGatewayEventV2({ headers: {} });
+
+    expect(verifyTelegramSecretToken(event, secretToken)).toBe(false);
+  });
+
+  it("should reject a secret token of a different length", () => {
+    const event = createAPIGatewayEventV2({
+      headers: { "x-telegram-bot-api-secret-token": "short" },
+    });
+
+    expect(verifyTelegramSecretToken(event, secretToken)).toBe(false);
+  });
+
+  it("should reject requests when no secret token is configured", () => {
+    const event = createAPIGatewayEventV2({
+      headers: { "x-telegram-bot-api-secret-token": secretToken },
+    });
+
+    expect(verifyTelegramSecretToken(event, undefined)).toBe(false);
+    expect(verifyTelegramSecretToken(event, "")).toBe(false);
+  });
+
+  it("should reject a wrong secret token of the same length", () => {
+    const event = createAPIGatewayEventV2({
+      headers: { "x-telegram-bot-api-secret-token": "test-secret-tokeX" },
+    });
+
+    expect(verifyTelegramSecretToken(event, secretToken)).toBe(false);
+  });
+});
@@ -61,6 +61,74 @@ export function createDiscordDeferredResponse(): { type: number } {
   };
 }
 
+const FEEDBACK_CUSTOM_ID_PREFIX = "feedback";
+const MAX_CUSTOM_ID_LENGTH = 100;
+
+export type DiscordMessageComponent = {
+  type: 1; // ACTION_ROW
+  components: Array<{
+    type: 2; // BUTTON
+    style: 2; // SECONDARY
+    emoji: { name: string };
+    custom_id: string;
+  }>;
+};
+
+/**
+ * 👍/👎 buttons under an agent reply. Discord only delivers reactions over the Gateway,
+ * which this HTTP interactions bot does not connect to, so ratings use buttons.
+ * Returns no buttons when the IDs do not fit Discord's custom_id limit.
+ */
+export function buildDiscordFeedbackComponents(
+  conversationId: string,
+  messageId: string
+): DiscordMessageComponent[] {
+  const buttons = (
+    [
+      ["positive", "👍"],
+      ["negative", "👎"],
+    ] as const
+  ).map(([rating, emoji]) => ({
+    type: 2 as const,
+    style: 2 as const,
+    emoji: { name: emoji },
+    custom_id: [
+      FEEDBACK_CUSTOM_ID_PREFIX,
+      rating,
+      conversationId,
+      messageId,
+    ].join(":"),
+  }));
+  if (buttons.some((button) => button.custom_id.length > MAX_CUSTOM_ID_LENGTH)) {
+    return [];
+  }
+  return [{ type: 1, components: buttons }];
+}
+
+/**
+ * Parses the custom_id of a feedback button, undefined for other components
+ */
+export function parseDiscordFeedbackCustomId(customId: string):
+  | {
+      rating: "positive" | "negative";
+      conversationId: string;
+      messageId: string;
+    }
+  | undefined {
+  const [prefix, rating, conversationId, messageId, ...rest] =
+    customId.split(":");
+  if (
+    prefix !== FEEDBACK_CUSTOM_ID_PREFIX ||
+    (rating !== "positive" && rating !== "negative") ||
+    !conversationId ||
+    !messageId ||
+    rest.length > 0
+  ) {
+    return undefined;
+  }
+  return { rating, conversationId, messageId };
+}
+
 /**
  * Updates a Discord message via REST API
  */
@@ -68,7 +136,8 @@ export async function updateDiscordMessage(
   botToken: string,
   applicationId: string,
   interactionToken: string,
-  content: string
+  content: string,
+  components?: DiscordMessageComponent[]
 ): Promise<void> {
   const url = `https://discord.com/api/v10/webhooks/${applicationId}/${interactionToken}/messages/@original`;
 
@@ -80,6 +149,7 @@ export async function updateDiscordMessage(
     },
     body: JSON.stringify({
       content: truncateDiscordMessage(markdownToDiscord(content)),
+      ...(components && { components }),
     }),
   });
 
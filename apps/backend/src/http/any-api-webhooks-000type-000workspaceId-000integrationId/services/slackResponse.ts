@@ -83,18 +83,36 @@ export async function postSlackMessage(
 }
 
 /**
- * Updates a Slack message
+ * Event type of the metadata attached to agent replies, read back when a reply gets a reaction
+ */
+export const SLACK_REPLY_METADATA_EVENT_TYPE = "helpmaton_reply";
+
+export type SlackReplyMetadata = {
+  conversationId: string;
+  /** Request ID of the reply in the conversation */
+  messageId: string;
+};
+
+/**
+ * Updates a Slack message, optionally attaching the agent reply's metadata
  */
 export async function updateSlackMessage(
   client: WebClient,
   channel: string,
   ts: string,
-  text: string
+  text: string,
+  replyMetadata?: SlackReplyMetadata
 ): Promise<void> {
   const response = await client.chat.update({
     channel,
     ts,
     text: truncateSlackMessage(markdownToSlack(text)),
+    ...(replyMetadata && {
+      metadata: {
+        event_type: SLACK_REPLY_METADATA_EVENT_TYPE,
+        event_payload: replyMetadata,
+      },
+    }),
   });
 
   if (!response.ok) {
@@ -109,3 +127,19 @@ export async function updateSlackMessage(
   }
 }
 
+
+/**
+ * Maps a Slack reaction to a feedback rating: 👍 or 👎 in any skin tone
+ */
+export function slackReactionToRating(
+  reaction: string
+): "positive" | "negative" | undefined {
+  const name = reaction.split("::")[0];
+  if (name === "+1" || name === "thumbsup") {
+    return "positive";
+  }
+  if (name === "-1" || name === "thumbsdown") {
+    return "negative";
+  }
+  return undefined;
+}
@@ -0,0 +1,75 @@
+import { callTeamsConnector } from "../../../utils/teamsApi";
+
+/**
+ * Truncates text to stay well below Teams' ~28KB activity size limit
+ */
+export function truncateTeamsMessage(
+  text: string,
+  maxLength: number = 20000
+): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  return text.substring(0, maxLength - 3) + "...";
+}
+
+/**
+ * Removes bot mentions (<at>Bot</at>) from the text of a Teams message
+ */
+export function stripTeamsMentions(text: string): string {
+  return text
+    .replace(/<at>[^<]*<\/at>/gi, "")
+    .replace(/&nbsp;/g, " ")
+    .trim();
+}
+
+function createMessageActivity(text: string) {
+  // Teams renders a markdown subset natively
+  return {
+    type: "message",
+    text: truncateTeamsMessage(text),
+    textFormat: "markdown",
+  };
+}
+
+/**
+ * Replies to an activity in a Teams conversation and returns the new activity ID
+ */
+export async function sendTeamsReply(
+  accessToken: string,
+  serviceUrl: string,
+  conversationId: string,
+  replyToId: string,
+  text: string
+): Promise<{ activityId: string }> {
+  const result = await callTeamsConnector<{ id?: string }>(
+    accessToken,
+    "POST",
+    serviceUrl,
+    `/v3/conversations/${encodeURIComponent(conversationId)}/activities/${encodeURIComponent(replyToId)}`,
+    { ...createMessageActivity(text), replyToId }
+  );
+  if (!result.id) {
+    throw new Error("Failed to post Teams message: no activity ID returned");
+  }
+  return { activityId: result.id };
+}
+
+/**
+ * Updates an activity previously sent by the bot
+ */
+export async function updateTeamsActivity(
+  accessToken: string,
+  serviceUrl: string,
+  conversationId: string,
+  activityId: string,
+  text: string
+): Promise<void> {
+  await callTeamsConnector(
+    accessToken,
+    "PUT",
+    serviceUrl,
+    `/v3/conversations/${encodeURIComponent(conversationId)}/activities/${encodeURIComponent(activityId)}`,
+    { ...createMessageActivity(text), id: activityId }
+  );
+}
@@ -0,0 +1,77 @@
+import type { APIGatewayProxyEventV2 } from "aws-lambda";
+import { createRemoteJWKSet, jwtVerify } from "jose";
+
+const BOT_FRAMEWORK_JWKS_URL =
+  "https://login.botframework.com/v1/.well-known/keys";
+const BOT_FRAMEWORK_ISSUER = "https://api.botframework.com";
+
+// Cached per Lambda container; jose handles key rotation and refetching
+let botFrameworkJwks: ReturnType<typeof createRemoteJWKSet> | undefined;
+
+function getBotFrameworkJwks(): ReturnType<typeof createRemoteJWKSet> {
+  if (!botFrameworkJwks) {
+    botFrameworkJwks = createRemoteJWKSet(new URL(BOT_FRAMEWORK_JWKS_URL));
+  }
+  return botFrameworkJwks;
+}
+
+/**
+ * Verifies the Bot Framework JWT sent by the Teams channel.
+ * The token must be signed by the Bot Framework, issued for our app ID and
+ * bound to the serviceUrl the activity asks us to reply to. Single-tenant bots
+ * (configured with a tenantId) only accept activities from their own tenant.
+ */
+export async function verifyTeamsRequest(
+  event: APIGatewayProxyEventV2,
+  expected: { appId: string; tenantId?: string },
+  activity: { serviceUrl?: string; tenantId?: string }
+): Promise<boolean> {
+  // API Gateway normalizes headers to lowercase, but handle both cases
+  const headers = Object.keys(event.headers).reduce((acc, key) => {
+    acc[key.toLowerCase()] = event.headers[key];
+    return acc;
+  }, {} as Record<string, string | undefined>);
+
+  const authorization = headers["authorization"];
+  if (!authorization || !authorization.startsWith("Bearer ")) {
+    console.warn("Missing Teams authorization header");
+    return false;
+  }
+
+  try {
+    const { payload } = await jwtVerify(
+      authorization.substring("Bearer ".length),
+      getBotFrameworkJwks(),
+      {
+        issuer: BOT_FRAMEWORK_ISSUER,
+        audience: expected.appId,
+        clockTolerance: 300,
+      }
+    );
+
+    const tokenServiceUrl = payload.serviceurl;
+    const { serviceUrl } = activity;
+    if (
+      !serviceUrl ||
+      typeof tokenServiceUrl !== "string" ||
+      tokenServiceUrl.replace(/\/$/, "") !== serviceUrl.replace(/\/$/, "")
+    ) {
+      console.warn("Teams token serviceUrl does not match activity");
+      return false;
+    }
+
+    // The token does not carry the tenant, so it is checked on the activity
+    if (
+      expected.tenantId &&
+      activity.tenantId?.toLowerCase() !== expected.tenantId.toLowerCase()
+    ) {
+      console.warn("Teams activity tenant does not match the integration");
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.warn("Teams token verification failed:", error);
+    return false;
+  }
+}
@@ -0,0 +1,136 @@
+import { callTelegramApi } from "../../../utils/telegramApi";
+
+function escapeTelegramHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Converts markdown to the HTML subset supported by Telegram (parse_mode "HTML")
+ */
+export function markdownToTelegramHtml(markdown: string): string {
+  // Code is extracted first so its content is not formatted
+  const codeSegments: string[] = [];
+  const placeholder = (html: string) => {
+    codeSegments.push(html);
+    return `\u0000${codeSegments.length - 1}\u0000`;
+  };
+
+  let html = markdown.replace(/```[\w-]*\n?([\s\S]*?)```/g, (_, code) =>
+    placeholder(`<pre>${escapeTelegramHtml(code.replace(/\n$/, ""))}</pre>`)
+  );
+  html = html.replace(/`([^`\n]+)`/g, (_, code) =>
+    placeholder(`<code>${escapeTelegramHtml(code)}</code>`)
+  );
+
+  html = escapeTelegramHtml(html);
+
+  // Links: [text](url)
+  html = html.replace(
+    /\[([^\]]+)\]\(([^)\s]+)\)/g,
+    (_, text, url) => `<a href="${url.replace(/"/g, "&quot;")}">${text}</a>`
+  );
+  // Headings render as bold lines
+  html = html.replace(/^#{1,6}\s+(.+)$/gm, "<b>$1</b>");
+  html = html.replace(/\*\*(.+?)\*\*/g, "<b>$1</b>");
+  html = html.replace(/__(.+?)__/g, "<b>$1</b>");
+  html = html.replace(/(^|[^*\w])\*([^*\n]+)\*(?!\w)/g, "$1<i>$2</i>");
+  html = html.replace(/(^|[^_\w])_([^_\n]+)_(?!\w)/g, "$1<i>$2</i>");
+  html = html.replace(/~~(.+?)~~/g, "<s>$1</s>");
+
+  // eslint-disable-next-line no-control-regex
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index) => codeSegments[Number(index)]);
+}
+
+/**
+ * Truncates text to Telegram's message limit (4096 characters after formatting)
+ */
+export function truncateTelegramMessage(
+  text: string,
+  maxLength: number = 4000
+): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  return text.substring(0, maxLength - 3) + "...";
+}
+
+function isEntityParseError(error: unknown): boolean {
+  return error instanceof Error && error.message.includes("can't parse entities");
+}
+
+/**
+ * Sends a message to a Telegram chat.
+ * Falls back to plain text when Telegram rejects the generated HTML.
+ */
+export async function sendTelegramMessage(
+  botToken: string,
+  chatId: string,
+  text: string,
+  options: { replyToMessageId?: number; messageThreadId?: number } = {}
+): Promise<{ messageId: number }> {
+  const truncated = truncateTelegramMessage(text);
+  const params = {
+    chat_id: chatId,
+    ...(options.messageThreadId !== undefined && {
+      message_thread_id: options.messageThreadId,
+    }),
+    ...(options.replyToMessageId !== undefined && {
+      reply_parameters: {
+        message_id: options.replyToMessageId,
+        allow_sending_without_reply: true,
+      },
+    }),
+  };
+
+  let result: { message_id: number };
+  try {
+    result = await callTelegramApi(botToken, "sendMessage", {
+      ...params,
+      text: markdownToTelegramHtml(truncated),
+      parse_mode: "HTML",
+    });
+  } catch (error) {
+    if (!isEntityParseError(error)) {
+      throw error;
+    }
+    result = await callTelegramApi(botToken, "sendMessage", {
+      ...params,
+      text: truncated,
+    });
+  }
+  return { messageId: result.message_id };
+}
+
+/**
+ * Edits a message previously sent by the bot
+ */
+export async function editTelegramMessage(
+  botToken: string,
+  chatId: string,
+  messageId: number,
+  text: string
+): Promise<void> {
+  const truncated = truncateTelegramMessage(text);
+  const params = { chat_id: chatId, message_id: messageId };
+  try {
+    await callTelegramApi(botToken, "editMessageText", {
+      ...params,
+      text: markdownToTelegramHtml(truncated),
+      parse_mode: "HTML",
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("message is not modified")) {
+      return;
+    }
+    if (!isEntityParseError(error)) {
+      throw error;
+    }
+    await callTelegramApi(botToken, "editMessageText", {
+      ...params,
+      text: truncated,
+    });
+  }
+}
@@ -0,0 +1,43 @@
+import { timingSafeEqual } from "crypto";
+
+import type { APIGatewayProxyEventV2 } from "aws-lambda";
+
+/**
+ * Verifies a Telegram webhook request using the secret token registered with setWebhook.
+ * Telegram sends it back in the X-Telegram-Bot-Api-Secret-Token header.
+ */
+export function verifyTelegramSecretToken(
+  event: APIGatewayProxyEventV2,
+  secretToken: string | undefined
+): boolean {
+  if (!secretToken) {
+    console.warn("Telegram integration has no secret token configured");
+    return false;
+  }
+
+  // API Gateway normalizes headers to lowercase, but handle both cases
+  const headers = Object.keys(event.headers).reduce((acc, key) => {
+    acc[key.toLowerCase()] = event.headers[key];
+    return acc;
+  }, {} as Record<string, string | undefined>);
+
+  const receivedToken = headers["x-telegram-bot-api-secret-token"];
+  if (!receivedToken) {
+    console.warn("Missing Telegram secret token header");
+    return false;
+  }
+
+  const receivedBuffer = Buffer.from(receivedToken);
+  const expectedBuffer = Buffer.from(secretToken);
+  if (receivedBuffer.length !== expectedBuffer.length) {
+    console.warn("Telegram secret token length mismatch");
+    return false;
+  }
+
+  if (!timingSafeEqual(receivedBuffer, expectedBuffer)) {
+    console.warn("Telegram secret token verification failed");
+    return false;
+  }
+
+  return true;
+}
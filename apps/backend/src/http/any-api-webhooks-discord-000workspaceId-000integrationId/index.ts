@@ -179,6 +179,8 @@ export const handler = adaptHttpHandler(
         // This acknowledges the interaction and allows up to 15 minutes for follow-up
         const deferredResponse = createDiscordDeferredResponse();
 
+        const discordUserId = body.member?.user?.id || body.user?.id;
+
         // Enqueue task for async processing
         try {
           await enqueueBotWebhookTask(
@@ -193,7 +195,8 @@ export const handler = adaptHttpHandler(
               channelId: body.channel_id,
               botToken: config.botToken,
             },
-            body.channel_id
+            body.channel_id,
+            discordUserId && `discord:${discordUserId}`
           );
         } catch (error) {
           console.error("[Discord Webhook] Error enqueueing task:", error);
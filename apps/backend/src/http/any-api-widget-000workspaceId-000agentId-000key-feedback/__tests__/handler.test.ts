@@ -0,0 +1,223 @@
+import { notFound, unauthorized } from "@hapi/boom";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import {
+  createAPIGatewayEventV2,
+  createMockContext,
+} from "../../utils/__tests__/test-helpers";
+
+const {
+  mockValidateWidgetKey,
+  mockDatabase,
+  mockAgentGet,
+  mockGetRecord,
+  mockRecordConversationFeedback,
+} = vi.hoisted(() => ({
+  mockValidateWidgetKey: vi.fn(),
+  mockDatabase: vi.fn(),
+  mockAgentGet: vi.fn(),
+  mockGetRecord: vi.fn(),
+  mockRecordConversationFeedback: vi.fn(),
+}));
+
+vi.mock("../../utils/requestValidation", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("../../utils/requestValidation")>();
+  return {
+    ...actual,
+    validateWidgetKey: mockValidateWidgetKey,
+  };
+});
+
+vi.mock("../../../tables", () => ({
+  database: mockDatabase,
+}));
+
+vi.mock("../../../utils/conversationRecords", () => ({
+  getRecord: mockGetRecord,
+}));
+
+vi.mock("../../../utils/conversationFeedback", async (importOriginal) => ({
+  ...(await importOriginal<
+    typeof import("../../../utils/conversationFeedback")
+  >()),
+  recordConversationFeedback: mockRecordConversationFeedback,
+}));
+
+vi.mock("../../../utils/tracking", () => ({
+  trackBusinessEvent: vi.fn(),
+}));
+
+const getHandler = async () => {
+  const { handler } = await import("../index");
+  return handler;
+};
+
+const buildEvent = (method: string, body?: unknown) =>
+  createAPIGatewayEventV2({
+    routeKey: `${method} /api/widget/workspace-123/agent-456/key-789/feedback`,
+    rawPath: "/api/widget/workspace-123/agent-456/key-789/feedback",
+    headers: { origin: "https://shop.example.com" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    requestContext: {
+      ...createAPIGatewayEventV2().requestContext,
+      http: {
+        ...createAPIGatewayEventV2().requestContext.http,
+        method,
+      },
+    },
+    pathParameters: {
+      workspaceId: "workspace-123",
+      agentId: "agent-456",
+      key: "key-789",
+    },
+  });
+
+type Result = {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+};
+
+describe("any-api-widget-000workspaceId-000agentId-000key-feedback handler", () => {
+  const mockContext = createMockContext();
+  const feedbackBody = {
+    conversationId: "conversation-1",
+    messageId: "request-1",
+    rating: "negative",
+    comment: "Wrong opening hours",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDatabase.mockResolvedValue({ agent: { get: mockAgentGet } });
+    mockAgentGet.mockResolvedValue({
+      widgetConfig: {
+        enabled: true,
+        allowedOrigins: ["https://shop.example.com"],
+      },
+    });
+    mockValidateWidgetKey.mockResolvedValue(undefined);
+    mockGetRecord.mockResolvedValue({ conversationType: "stream" });
+    mockRecordConversationFeedback.mockImplementation(async (_db, params) => ({
+      messageId: params.messageId,
+      rating: params.rating,
+      comment: params.comment,
+      source: params.source,
+      createdAt: "2026-10-19T10:00:00.000Z",
+    }));
+  });
+
+  it("records the rating of a widget reply", async () => {
+    const handler = await getHandler();
+    const result = (await handler(
+      buildEvent("POST", feedbackBody),
+      mockContext
+    )) as Result;
+
+    expect(result.statusCode).toBe(200);
+    expect(result.headers["Access-Control-Allow-Origin"]).toBe(
+      "https://shop.example.com"
+    );
+    expect(mockValidateWidgetKey).toHaveBeenCalledWith(
+      "workspace-123",
+      "agent-456",
+      "key-789"
+    );
+    expect(mockRecordConversationFeedback).toHaveBeenCalledWith(
+      expect.anything(),
+      {
+        workspaceId: "workspace-123",
+        agentId: "agent-456",
+        conversationId: "conversation-1",
+        messageId: "request-1",
+        rating: "negative",
+        comment: "Wrong opening hours",
+        source: "widget",
+      }
+    );
+    expect(JSON.parse(result.body).feedback.rating).toBe("negative");
+  });
+
+  it("answers the CORS preflight", async () => {
+    const handler = await getHandler();
+    const result = (await handler(
+      buildEvent("OPTIONS"),
+      mockContext
+    )) as Result;
+
+    expect(result.statusCode).toBe(200);
+    expect(result.headers["Access-Control-Allow-Methods"]).toContain("POST");
+    expect(mockValidateWidgetKey).not.toHaveBeenCalled();
+  });
+
+  it("returns 401 with CORS headers when the widget key is invalid", async () => {
+    mockValidateWidgetKey.mockRejectedValue(
+      unauthorized("Invalid widget key")
+    );
+
+    const handler = await getHandler();
+    const result = (await handler(
+      buildEvent("POST", feedbackBody),
+      mockContext
+    )) as Result;
+
+    expect(result.statusCode).toBe(401);
+    expect(result.headers["Access-Control-Allow-Origin"]).toBe(
+      "https://shop.example.com"
+    );
+    expect(mockRecordConversationFeedback).not.toHaveBeenCalled();
+  });
+
+  it("returns 403 when the widget is disabled", async () => {
+    mockAgentGet.mockResolvedValue({ widgetConfig: { enabled: false } });
+
+    const handler = await getHandler();
+    const result = (await handler(
+      buildEvent("POST", feedbackBody),
+      mockContext
+    )) as Result;
+
+    expect(result.statusCode).toBe(403);
+  });
+
+  it("returns 404 for conversations that are not chats", async () => {
+    mockGetRecord.mockResolvedValue({ conversationType: "webhook" });
+
+    const handler = await getHandler();
+    const result = (await handler(
+      buildEvent("POST", feedbackBody),
+      mockContext
+    )) as Result;
+
+    expect(result.statusCode).toBe(404);
+    expect(mockRecordConversationFeedback).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 when the reply is not in the conversation", async () => {
+    mockRecordConversationFeedback.mockRejectedValue(
+      notFound("Message not found in conversation")
+    );
+
+    const handler = await getHandler();
+    const result = (await handler(
+      buildEvent("POST", feedbackBody),
+      mockContext
+    )) as Result;
+
+    expect(result.statusCode).toBe(404);
+    expect(JSON.parse(result.body).error).toBe(
+      "Message not found in conversation"
+    );
+  });
+
+  it("rejects an invalid rating", async () => {
+    const handler = await getHandler();
+    const result = (await handler(
+      buildEvent("POST", { ...feedbackBody, rating: "meh" }),
+      mockContext
+    )) as Result;
+
+    expect(result.statusCode).toBe(400);
+  });
+});
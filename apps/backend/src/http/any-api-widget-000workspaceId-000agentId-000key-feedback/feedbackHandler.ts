@@ -0,0 +1,157 @@
+import { badRequest, forbidden, isBoom, notFound } from "@hapi/boom";
+import type {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+} from "aws-lambda";
+
+import { database } from "../../tables";
+import {
+  type ConversationFeedback,
+  recordConversationFeedback,
+} from "../../utils/conversationFeedback";
+import { getRecord } from "../../utils/conversationRecords";
+import { trackBusinessEvent } from "../../utils/tracking";
+import { parseAndValidateBody } from "../utils/bodyValidation";
+import { validateWidgetKey } from "../utils/requestValidation";
+import { widgetFeedbackRequestSchema } from "../utils/schemas/requestSchemas";
+import { computeCorsHeaders } from "../utils/streamCorsHeaders";
+
+type WidgetPathParams = {
+  workspaceId: string;
+  agentId: string;
+  key: string;
+};
+
+/**
+ * Reads the path parameters, from rawPath when pathParameters is not available
+ * Pattern: /api/widget/:workspaceId/:agentId/:key/feedback
+ */
+function resolvePathParams(event: APIGatewayProxyEventV2): WidgetPathParams {
+  let workspaceId = event.pathParameters?.workspaceId;
+  let agentId = event.pathParameters?.agentId;
+  let key = event.pathParameters?.key;
+
+  if (!workspaceId || !agentId || !key) {
+    const path = (event.rawPath || event.requestContext?.http?.path || "").split(
+      "?"
+    )[0];
+    const match = path.match(
+      /^\/api\/widget\/([^/]+)\/([^/]+)\/([^/]+)\/feedback\/?$/
+    );
+    if (match) {
+      [, workspaceId, agentId, key] = match;
+    }
+  }
+
+  if (!workspaceId || !agentId || !key) {
+    throw badRequest(
+      "workspaceId, agentId, and key are required in the URL path"
+    );
+  }
+  return { workspaceId, agentId, key };
+}
+
+const jsonResponse = (
+  statusCode: number,
+  corsHeaders: Record<string, string>,
+  body: unknown
+): APIGatewayProxyResultV2 => ({
+  statusCode,
+  headers: { ...corsHeaders, "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+});
+
+async function recordWidgetFeedback(
+  event: APIGatewayProxyEventV2,
+  params: WidgetPathParams,
+  agent: { widgetConfig?: { enabled?: boolean } } | undefined
+): Promise<ConversationFeedback> {
+  const { workspaceId, agentId, key } = params;
+  if (!agent) {
+    throw notFound("Agent not found");
+  }
+  if (!agent.widgetConfig?.enabled) {
+    throw forbidden("Widget is not enabled for this agent");
+  }
+  await validateWidgetKey(workspaceId, agentId, key);
+
+  const body = parseAndValidateBody(event, widgetFeedbackRequestSchema);
+  const db = await database();
+  const conversation = await getRecord(
+    db,
+    `conversations/${workspaceId}/${agentId}/${body.conversationId}`,
+    undefined,
+    { enrichFromS3: false }
+  );
+  // Widget keys only grant access to chat conversations, not to other conversations of the agent
+  if (!conversation || conversation.conversationType !== "stream") {
+    throw notFound("Conversation not found");
+  }
+
+  const feedback = await recordConversationFeedback(db, {
+    workspaceId,
+    agentId,
+    conversationId: body.conversationId,
+    messageId: body.messageId,
+    rating: body.rating,
+    comment: body.comment,
+    source: "widget",
+  });
+
+  trackBusinessEvent("widget_feedback", "submitted", {
+    workspace_id: workspaceId,
+    agent_id: agentId,
+    rating: body.rating,
+    has_comment: !!feedback.comment,
+  });
+
+  return feedback;
+}
+
+/**
+ * Records an end user's rating of an agent reply in the chat widget.
+ * Authenticated by the widget key; CORS follows the agent's widget allowed origins.
+ */
+export async function handleWidgetFeedbackRequest(
+  event: APIGatewayProxyEventV2
+): Promise<APIGatewayProxyResultV2> {
+  const origin = event.headers["origin"] || event.headers["Origin"];
+  const method = event.requestContext.http.method;
+
+  if (method === "OPTIONS") {
+    return {
+      statusCode: 200,
+      headers: computeCorsHeaders("stream", origin, null),
+      body: "",
+    };
+  }
+
+  let corsHeaders = computeCorsHeaders("stream", origin, null);
+  try {
+    if (method !== "POST") {
+      throw badRequest("Method not allowed");
+    }
+    const params = resolvePathParams(event);
+    const db = await database();
+    const agent = await db.agent.get(
+      `agents/${params.workspaceId}/${params.agentId}`,
+      "agent"
+    );
+    corsHeaders = computeCorsHeaders(
+      "stream",
+      origin,
+      agent?.widgetConfig?.allowedOrigins || null
+    );
+
+    const feedback = await recordWidgetFeedback(event, params, agent);
+    return jsonResponse(200, corsHeaders, { feedback });
+  } catch (error) {
+    // Errors need the CORS headers too, or the widget cannot read them
+    if (isBoom(error) && error.output.statusCode < 500) {
+      return jsonResponse(error.output.statusCode, corsHeaders, {
+        error: error.message,
+      });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,89 @@
+import type {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+} from "aws-lambda";
+
+import { handlingErrors } from "../../utils/handlingErrors";
+import { adaptHttpHandler } from "../../utils/httpEventAdapter";
+import { initSentry } from "../../utils/sentry";
+
+import { handleWidgetFeedbackRequest } from "./feedbackHandler";
+
+initSentry();
+
+/**
+ * @openapi
+ * /api/widget/{workspaceId}/{agentId}/{key}/feedback:
+ *   post:
+ *     summary: Rate an agent reply in the chat widget
+ *     description: Records an end user's thumbs up or down, with an optional comment, on a reply in a widget conversation. The reply is identified by the requestId sent in the metadata of the streamed message. Rating a reply again replaces the earlier rating. Authenticated by the widget key in the path.
+ *     tags:
+ *       - Streams
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: key
+ *         in: path
+ *         required: true
+ *         description: Widget key
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - conversationId
+ *               - messageId
+ *               - rating
+ *             properties:
+ *               conversationId:
+ *                 type: string
+ *               messageId:
+ *                 type: string
+ *                 description: requestId from the metadata of the rated reply
+ *               rating:
+ *                 type: string
+ *                 enum: [positive, negative]
+ *               comment:
+ *                 type: string
+ *                 maxLength: 2000
+ *     responses:
+ *       200:
+ *         description: Feedback recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 feedback:
+ *                   $ref: '#/components/schemas/ConversationFeedback'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const handler = adaptHttpHandler(
+  handlingErrors(
+    async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> =>
+      handleWidgetFeedbackRequest(event)
+  )
+);
@@ -0,0 +1,197 @@
+import { unauthorized } from "@hapi/boom";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import {
+  createAPIGatewayEventV2,
+  createMockContext,
+} from "../../utils/__tests__/test-helpers";
+
+const {
+  mockValidateWidgetKey,
+  mockDatabase,
+  mockAgentGet,
+  mockToolApprovalQuery,
+  mockGetRecord,
+} = vi.hoisted(() => ({
+  mockValidateWidgetKey: vi.fn(),
+  mockDatabase: vi.fn(),
+  mockAgentGet: vi.fn(),
+  mockToolApprovalQuery: vi.fn(),
+  mockGetRecord: vi.fn(),
+}));
+
+vi.mock("../../utils/requestValidation", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("../../utils/requestValidation")>();
+  return {
+    ...actual,
+    validateWidgetKey: mockValidateWidgetKey,
+  };
+});
+
+vi.mock("../../../tables", () => ({
+  database: mockDatabase,
+}));
+
+vi.mock("../../../utils/conversationRecords", () => ({
+  getRecord: mockGetRecord,
+}));
+
+const getHandler = async () => {
+  const { handler } = await import("../index");
+  return handler;
+};
+
+const buildEvent = (method: string, conversationId?: string) =>
+  createAPIGatewayEventV2({
+    routeKey: `${method} /api/widget/workspace-123/agent-456/key-789/tool-approvals`,
+    rawPath: "/api/widget/workspace-123/agent-456/key-789/tool-approvals",
+    headers: { origin: "https://shop.example.com" },
+    queryStringParameters: conversationId ? { conversationId } : undefined,
+    requestContext: {
+      ...createAPIGatewayEventV2().requestContext,
+      http: {
+        ...createAPIGatewayEventV2().requestContext.http,
+        method,
+      },
+    },
+    pathParameters: {
+      workspaceId: "workspace-123",
+      agentId: "agent-456",
+      key: "key-789",
+    },
+  });
+
+type Result = {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+};
+
+describe("any-api-widget-000workspaceId-000agentId-000key-tool-approvals handler", () => {
+  const mockContext = createMockContext();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDatabase.mockResolvedValue({
+      agent: { get: mockAgentGet },
+      "tool-approval": { query: mockToolApprovalQuery },
+    });
+    mockAgentGet.mockResolvedValue({
+      widgetConfig: {
+        enabled: true,
+        allowedOrigins: ["https://shop.example.com"],
+      },
+    });
+    mockValidateWidgetKey.mockResolvedValue(undefined);
+    mockGetRecord.mockResolvedValue({ conversationType: "stream" });
+    mockToolApprovalQuery.mockResolvedValue({
+      items: [
+        {
+          approvalId: "approval-1",
+          toolName: "send_email",
+          status: "approved",
+          args: { to: "someone@example.com" },
+          resultPreview: "Email sent",
+          answer: "I sent the email.",
+        },
+        {
+          approvalId: "approval-2",
+          toolName: "send_email",
+          status: "pending",
+          args: { to: "other@example.com" },
+        },
+      ],
+      areAnyUnpublished: false,
+    });
+  });
+
+  it("lists the approval requests of the conversation without arguments", async () => {
+    const handler = await getHandler();
+    const result = (await handler(
+      buildEvent("GET", "conversation-1"),
+      mockContext
+    )) as Result;
+
+    expect(result.statusCode).toBe(200);
+    expect(result.headers["Access-Control-Allow-Origin"]).toBe(
+      "https://shop.example.com"
+    );
+    expect(mockToolApprovalQuery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        IndexName: "byAgentId",
+        ExpressionAttributeValues: {
+          ":agentId": "agent-456",
+          ":workspaceId": "workspace-123",
+          ":conversationId": "conversation-1",
+        },
+      })
+    );
+    expect(JSON.parse(result.body).approvals).toEqual([
+      {
+        id: "approval-1",
+        toolName: "send_email",
+        status: "approved",
+        resumed: true,
+        answer: "I sent the email.",
+      },
+      {
+        id: "approval-2",
+        toolName: "send_email",
+        status: "pending",
+        resumed: false,
+        answer: null,
+      },
+    ]);
+  });
+
+  it("answers the CORS preflight", async () => {
+    const handler = await getHandler();
+    const result = (await handler(
+      buildEvent("OPTIONS"),
+      mockContext
+    )) as Result;
+
+    expect(result.statusCode).toBe(200);
+    expect(result.headers["Access-Control-Allow-Methods"]).toContain("GET");
+    expect(mockValidateWidgetKey).not.toHaveBeenCalled();
+  });
+
+  it("returns 401 with CORS headers when the widget key is invalid", async () => {
+    mockValidateWidgetKey.mockRejectedValue(
+      unauthorized("Invalid widget key")
+    );
+
+    const handler = await getHandler();
+    const result = (await handler(
+      buildEvent("GET", "conversation-1"),
+      mockContext
+    )) as Result;
+
+    expect(result.statusCode).toBe(401);
+    expect(result.headers["Access-Control-Allow-Origin"]).toBe(
+      "https://shop.example.com"
+    );
+    expect(mockToolApprovalQuery).not.toHaveBeenCalled();
+  });
+
+  it("requires the conversation ID", async () => {
+    const handler = await getHandler();
+    const result = (await handler(buildEvent("GET"), mockContext)) as Result;
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  it("returns 404 for conversations that are not chats", async () => {
+    mockGetRecord.mockResolvedValue({ conversationType: "webhook" });
+
+    const handler = await getHandler();
+    const result = (await handler(
+      buildEvent("GET", "conversation-1"),
+      mockContext
+    )) as Result;
+
+    expect(result.statusCode).toBe(404);
+    expect(mockToolApprovalQuery).not.toHaveBeenCalled();
+  });
+});
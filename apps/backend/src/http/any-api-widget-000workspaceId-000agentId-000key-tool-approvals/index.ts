@@ -0,0 +1,90 @@
+import type {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+} from "aws-lambda";
+
+import { handlingErrors } from "../../utils/handlingErrors";
+import { adaptHttpHandler } from "../../utils/httpEventAdapter";
+import { initSentry } from "../../utils/sentry";
+
+import { handleWidgetToolApprovalsRequest } from "./toolApprovalsHandler";
+
+initSentry();
+
+/**
+ * @openapi
+ * /api/widget/{workspaceId}/{agentId}/{key}/tool-approvals:
+ *   get:
+ *     summary: List tool approval requests of a widget conversation
+ *     description: Returns the approval requests of tool calls made in a widget conversation. When a paused run resumes after a decision, its answer is stored on the request; the widget polls this endpoint to show that answer. Arguments and tool results are not returned. Authenticated by the widget key in the path.
+ *     tags:
+ *       - Streams
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: key
+ *         in: path
+ *         required: true
+ *         description: Widget key
+ *         schema:
+ *           type: string
+ *       - name: conversationId
+ *         in: query
+ *         required: true
+ *         description: Widget conversation ID
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tool approval requests of the conversation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 approvals:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       toolName:
+ *                         type: string
+ *                       status:
+ *                         type: string
+ *                         enum: [pending, approved, rejected, expired]
+ *                       resumed:
+ *                         type: boolean
+ *                         description: Whether the paused run has finished resuming
+ *                       answer:
+ *                         type: string
+ *                         nullable: true
+ *                         description: The agent's answer of the resumed run
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const handler = adaptHttpHandler(
+  handlingErrors(
+    async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> =>
+      handleWidgetToolApprovalsRequest(event)
+  )
+);
@@ -0,0 +1,162 @@
+import { badRequest, forbidden, isBoom, notFound } from "@hapi/boom";
+import type {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+} from "aws-lambda";
+
+import { database } from "../../tables";
+import type { ToolApprovalRecord } from "../../tables/schema";
+import { getRecord } from "../../utils/conversationRecords";
+import { validateWidgetKey } from "../utils/requestValidation";
+import { computeCorsHeaders } from "../utils/streamCorsHeaders";
+
+type WidgetPathParams = {
+  workspaceId: string;
+  agentId: string;
+  key: string;
+};
+
+/**
+ * Reads the path parameters, from rawPath when pathParameters is not available
+ * Pattern: /api/widget/:workspaceId/:agentId/:key/tool-approvals
+ */
+function resolvePathParams(event: APIGatewayProxyEventV2): WidgetPathParams {
+  let workspaceId = event.pathParameters?.workspaceId;
+  let agentId = event.pathParameters?.agentId;
+  let key = event.pathParameters?.key;
+
+  if (!workspaceId || !agentId || !key) {
+    const path = (event.rawPath || event.requestContext?.http?.path || "").split(
+      "?"
+    )[0];
+    const match = path.match(
+      /^\/api\/widget\/([^/]+)\/([^/]+)\/([^/]+)\/tool-approvals\/?$/
+    );
+    if (match) {
+      [, workspaceId, agentId, key] = match;
+    }
+  }
+
+  if (!workspaceId || !agentId || !key) {
+    throw badRequest(
+      "workspaceId, agentId, and key are required in the URL path"
+    );
+  }
+  return { workspaceId, agentId, key };
+}
+
+const jsonResponse = (
+  statusCode: number,
+  corsHeaders: Record<string, string>,
+  body: unknown
+): APIGatewayProxyResultV2 => ({
+  statusCode,
+  headers: { ...corsHeaders, "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+});
+
+/**
+ * What the end user may see of an approval request: no arguments or tool
+ * results, only whether the run resumed and the agent's answer
+ */
+const toWidgetToolApproval = (approval: ToolApprovalRecord) => ({
+  id: approval.approvalId,
+  toolName: approval.toolName,
+  status: approval.status,
+  resumed:
+    approval.resultPreview !== undefined || approval.error !== undefined,
+  answer: approval.answer ?? null,
+});
+
+async function listWidgetToolApprovals(
+  event: APIGatewayProxyEventV2,
+  params: WidgetPathParams,
+  agent: { widgetConfig?: { enabled?: boolean } } | undefined
+) {
+  const { workspaceId, agentId, key } = params;
+  if (!agent) {
+    throw notFound("Agent not found");
+  }
+  if (!agent.widgetConfig?.enabled) {
+    throw forbidden("Widget is not enabled for this agent");
+  }
+  await validateWidgetKey(workspaceId, agentId, key);
+
+  const conversationId = event.queryStringParameters?.conversationId;
+  if (!conversationId) {
+    throw badRequest("conversationId is required");
+  }
+  const db = await database();
+  const conversation = await getRecord(
+    db,
+    `conversations/${workspaceId}/${agentId}/${conversationId}`,
+    undefined,
+    { enrichFromS3: false }
+  );
+  // Widget keys only grant access to chat conversations, not to other conversations of the agent
+  if (!conversation || conversation.conversationType !== "stream") {
+    throw notFound("Conversation not found");
+  }
+
+  const { items } = await db["tool-approval"].query({
+    IndexName: "byAgentId",
+    KeyConditionExpression: "agentId = :agentId",
+    FilterExpression:
+      "workspaceId = :workspaceId AND conversationId = :conversationId",
+    ExpressionAttributeValues: {
+      ":agentId": agentId,
+      ":workspaceId": workspaceId,
+      ":conversationId": conversationId,
+    },
+  });
+  return items.map(toWidgetToolApproval);
+}
+
+/**
+ * Lists the approval requests of a widget conversation, so the widget can
+ * show the agent's answer once a paused run resumes.
+ * Authenticated by the widget key; CORS follows the agent's widget allowed origins.
+ */
+export async function handleWidgetToolApprovalsRequest(
+  event: APIGatewayProxyEventV2
+): Promise<APIGatewayProxyResultV2> {
+  const origin = event.headers["origin"] || event.headers["Origin"];
+  const method = event.requestContext.http.method;
+
+  if (method === "OPTIONS") {
+    return {
+      statusCode: 200,
+      headers: computeCorsHeaders("stream", origin, null),
+      body: "",
+    };
+  }
+
+  let corsHeaders = computeCorsHeaders("stream", origin, null);
+  try {
+    if (method !== "GET") {
+      throw badRequest("Method not allowed");
+    }
+    const params = resolvePathParams(event);
+    const db = await database();
+    const agent = await db.agent.get(
+      `agents/${params.workspaceId}/${params.agentId}`,
+      "agent"
+    );
+    corsHeaders = computeCorsHeaders(
+      "stream",
+      origin,
+      agent?.widgetConfig?.allowedOrigins || null
+    );
+
+    const approvals = await listWidgetToolApprovals(event, params, agent);
+    return jsonResponse(200, corsHeaders, { approvals });
+  } catch (error) {
+    // Errors need the CORS headers too, or the widget cannot read them
+    if (isBoom(error) && error.output.statusCode < 500) {
+      return jsonResponse(error.output.statusCode, corsHeaders, {
+        error: error.message,
+      });
+    }
+    throw error;
+  }
+}
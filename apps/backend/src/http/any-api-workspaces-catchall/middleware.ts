@@ -3,11 +3,19 @@ import express from "express";
 
 import { isUserAuthorized } from "../../tables/permissions";
 import { sendAgentErrorNotification } from "../../utils/agentErrorNotifications";
+import {
+  getAcceptedApiKeyCapabilities,
+  hasApiKeyCapability,
+  isRestrictedApiKeyScope,
+  isWorkspaceInApiKeyScope,
+} from "../../utils/apiKeyScope";
+import { authenticateUserApiKey } from "../../utils/apiKeyUtils";
 import {
   InsufficientCreditsError,
   SpendingLimitExceededError,
 } from "../../utils/creditErrors";
 import { ensureError } from "../../utils/sentry";
+import { getUserEmailById } from "../../utils/subscriptionUtils";
 import { verifyAccessToken } from "../../utils/tokenUtils";
 import { ensurePostHogIdentityFromRequest } from "../../utils/tracking";
 import { requireSessionFromRequest, userRef } from "../utils/session";
@@ -192,9 +200,60 @@ function extractBearerToken(req: express.Request): string | null {
   return match[1];
 }
 
+// User API keys are hmat_<64 hex chars>; refresh tokens (hmat_refresh_...) are not accepted here
+const isUserApiKeyToken = (token: string) =>
+  /^hmat_[0-9a-f]{64}$/.test(token);
+
+const getClientIp = (req: express.Request): string | undefined =>
+  req.apiGateway?.event?.requestContext?.http?.sourceIp || req.ip;
+
+/**
+ * Authenticates a user API key and enforces its scope on this request:
+ * restricted keys only reach their workspaces, and only with a capability
+ * that covers the route (see getAcceptedApiKeyCapabilities)
+ */
+const authenticateApiKeyRequest = async (
+  req: express.Request,
+  token: string
+) => {
+  const authenticated = await authenticateUserApiKey(token, {
+    sourceIp: getClientIp(req),
+  });
+  if (!authenticated) {
+    throw unauthorized("Invalid or expired API key");
+  }
+  const { userId, scope } = authenticated;
+
+  if (isRestrictedApiKeyScope(scope)) {
+    const workspaceId = req.params?.workspaceId;
+    const path = req.originalUrl || req.path;
+    const accepted = getAcceptedApiKeyCapabilities(req.method, path);
+    if (workspaceId && !isWorkspaceInApiKeyScope(scope, workspaceId)) {
+      throw forbidden("This API key is not allowed to access this workspace");
+    }
+    // Workspace-bound keys without capabilities act as the user within their workspaces
+    const allowed = scope.capabilities
+      ? hasApiKeyCapability(scope, accepted)
+      : Boolean(workspaceId) || accepted.length > 0;
+    if (!allowed) {
+      throw forbidden("This API key is not allowed to make this request");
+    }
+  }
+
+  req.userRef = userRef(userId);
+  req.apiKeyScope = scope;
+  req.session = {
+    user: {
+      id: userId,
+      email: await getUserEmailById(userId),
+    },
+    expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours from now
+  };
+};
+
 /**
  * Helper middleware to require authentication via Bearer token
- * Validates Bearer token (JWT access token) and extracts user information
+ * Validates Bearer token (JWT access token or user API key) and extracts user information
  */
 export const requireAuth = async (
   req: express.Request,
@@ -207,6 +266,12 @@ export const requireAuth = async (
       throw unauthorized("Bearer token required");
     }
 
+    if (isUserApiKeyToken(bearerToken)) {
+      await authenticateApiKeyRequest(req, bearerToken);
+      ensurePostHogIdentityFromRequest(req);
+      return next();
+    }
+
     // Verify JWT access token (throws unauthorized if invalid)
     const tokenPayload = await verifyAccessToken(bearerToken);
 
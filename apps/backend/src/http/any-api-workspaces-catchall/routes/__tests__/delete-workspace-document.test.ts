@@ -9,12 +9,15 @@ import {
 } from "../../../utils/__tests__/test-helpers";
 
 // Mock dependencies using vi.hoisted to ensure they're set up before imports
-const { mockDatabase, mockDeleteDocument } = vi.hoisted(() => {
-  return {
-    mockDatabase: vi.fn(),
-    mockDeleteDocument: vi.fn(),
-  };
-});
+const { mockDatabase, mockDeleteDocument, mockDeleteS3Object } = vi.hoisted(
+  () => {
+    return {
+      mockDatabase: vi.fn(),
+      mockDeleteDocument: vi.fn(),
+      mockDeleteS3Object: vi.fn(),
+    };
+  }
+);
 
 // Mock the modules
 vi.mock("../../../../tables", () => ({
@@ -23,6 +26,7 @@ vi.mock("../../../../tables", () => ({
 
 vi.mock("../../../../utils/s3", () => ({
   deleteDocument: mockDeleteDocument,
+  deleteS3Object: mockDeleteS3Object,
 }));
 
 describe("DELETE /api/workspaces/:workspaceId/documents/:documentId", () => {
@@ -55,6 +59,9 @@ describe("DELETE /api/workspaces/:workspaceId/documents/:documentId", () => {
 
       // Delete from S3
       await mockDeleteDocument(workspaceId, documentId, document.s3Key);
+      if (document.extractedS3Key) {
+        await mockDeleteS3Object(document.extractedS3Key);
+      }
 
       // Delete from database
       await db["workspace-document"].delete(documentPk, "document");
@@ -117,10 +124,59 @@ describe("DELETE /api/workspaces/:workspaceId/documents/:documentId", () => {
       `workspace-documents/${workspaceId}/${documentId}`,
       "document"
     );
+    expect(mockDeleteS3Object).not.toHaveBeenCalled();
     expect(res.status).toHaveBeenCalledWith(204);
     expect(res.send).toHaveBeenCalled();
   });
 
+  it("should delete the extracted text copy of a converted document", async () => {
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+
+    const workspaceId = "workspace-123";
+    const documentId = "doc-456";
+
+    const mockDocument = {
+      pk: `workspace-documents/${workspaceId}/${documentId}`,
+      sk: "document",
+      workspaceId,
+      name: "Handbook",
+      filename: "handbook.pdf",
+      folderPath: "",
+      contentType: "application/pdf",
+      size: 4096,
+      s3Key: `workspaces/${workspaceId}/documents/handbook.pdf`,
+      extractedS3Key: `workspaces/${workspaceId}/document-extracts/${documentId}.md`,
+      createdAt: "2024-01-01T00:00:00Z",
+      updatedAt: "2024-01-01T00:00:00Z",
+    };
+
+    mockDb["workspace-document"].get = vi.fn().mockResolvedValue(mockDocument);
+    mockDb["workspace-document"].delete = vi.fn().mockResolvedValue(undefined);
+    mockDeleteDocument.mockResolvedValue(undefined);
+    mockDeleteS3Object.mockResolvedValue(undefined);
+
+    const req = createMockRequest({
+      params: {
+        workspaceId,
+        documentId,
+      },
+    });
+    const res = createMockResponse();
+
+    await callRouteHandler(req, res);
+
+    expect(mockDeleteDocument).toHaveBeenCalledWith(
+      workspaceId,
+      documentId,
+      mockDocument.s3Key
+    );
+    expect(mockDeleteS3Object).toHaveBeenCalledWith(
+      mockDocument.extractedS3Key
+    );
+    expect(res.status).toHaveBeenCalledWith(204);
+  });
+
   it("should delete document in root folder", async () => {
     const mockDb = createMockDatabase();
     mockDatabase.mockResolvedValue(mockDb);
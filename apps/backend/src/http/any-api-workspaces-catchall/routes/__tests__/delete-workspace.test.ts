@@ -38,6 +38,7 @@ vi.mock("../../../../utils/documentIndexing", () => ({
 
 vi.mock("../../../../utils/s3", () => ({
   deleteDocument: mockDeleteDocument,
+  deleteS3Object: vi.fn(),
 }));
 
 vi.mock("../../../../utils/discordApi", () => ({
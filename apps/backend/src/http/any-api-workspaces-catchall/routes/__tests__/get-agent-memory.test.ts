@@ -115,6 +115,60 @@ describe("GET /api/workspaces/:workspaceId/agents/:agentId/memory", () => {
       ],
     });
   });
+
+  it("lists only the end user's memory when endUserId is provided", async () => {
+    const mockDb = createMockDatabase();
+    mockDb.agent.get = vi.fn().mockResolvedValue({
+      pk: "agents/workspace-123/agent-456",
+      sk: "agent",
+    });
+    const partitionGet = vi.fn().mockResolvedValue({ sk: "registered" });
+    mockDatabase.mockResolvedValue({
+      ...mockDb,
+      "agent-memory-partition": { get: partitionGet },
+    });
+    mockSearchMemory.mockResolvedValue([]);
+    mockGetContextFromRequestId.mockReturnValue({
+      addWorkspaceCreditTransaction: vi.fn(),
+    });
+
+    const { app, getHandler } = createTestAppWithHandlerCapture();
+    registerGetAgentMemory(app);
+    const handler = getHandler(
+      "/api/workspaces/:workspaceId/agents/:agentId/memory",
+    );
+
+    const req = createMockRequest({
+      params: {
+        workspaceId: "workspace-123",
+        agentId: "agent-456",
+      },
+      query: {
+        endUserId: "customer-a",
+      },
+      headers: {
+        "x-request-id": "test-request-id",
+      },
+    }) as express.Request;
+
+    const res = createMockResponse() as express.Response;
+    const next = createMockNext();
+
+    await handler?.(req, res, next);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(partitionGet).toHaveBeenCalledWith(
+      "agent-memory-partitions/workspace-123/agent-456",
+      expect.stringMatching(/^[a-f0-9]{32}$/),
+    );
+    expect(mockSearchMemory).toHaveBeenCalledWith(
+      expect.objectContaining({
+        agentId: "agent-456",
+        partitionKey: partitionGet.mock.calls[0][1],
+        includeAgentMemory: false,
+      }),
+    );
+  });
 });
 
 describe("GET /api/workspaces/:workspaceId/agents/:agentId/memory/:recordId", () => {
@@ -0,0 +1,167 @@
+/* eslint-disable import/order */
+import type { Application, RequestHandler } from "express";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import {
+  createMockRequest,
+  createMockResponse,
+  createMockDatabase,
+} from "../../../utils/__tests__/test-helpers";
+
+const { mockDatabase } = vi.hoisted(() => ({
+  mockDatabase: vi.fn(),
+}));
+
+vi.mock("../../../../tables", () => ({
+  database: mockDatabase,
+}));
+
+import { registerGetAgentScheduleRuns } from "../get-agent-schedule-runs";
+
+function captureGetHandler(register: (app: Application) => void) {
+  let captured: RequestHandler | undefined;
+  const app = {
+    get: (...args: unknown[]) => {
+      const handlers = args.slice(1) as RequestHandler[];
+      captured = handlers[handlers.length - 1];
+    },
+  } as unknown as Application;
+  register(app);
+  if (!captured) {
+    throw new Error("Get handler not registered");
+  }
+  return captured;
+}
+
+describe("GET /api/workspaces/:workspaceId/agents/:agentId/schedules/:scheduleId/runs", () => {
+  const workspaceId = "workspace-123";
+  const agentId = "agent-456";
+  const scheduleId = "schedule-789";
+  const schedulePk = `agent-schedules/${workspaceId}/${agentId}/${scheduleId}`;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns the schedule runs, most recent first", async () => {
+    const handler = captureGetHandler(registerGetAgentScheduleRuns);
+
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+
+    const mockGet = vi.fn().mockResolvedValue({
+      pk: schedulePk,
+      sk: "schedule",
+      workspaceId,
+      agentId,
+      scheduleId,
+    });
+    const mockQueryPaginated = vi.fn().mockResolvedValue({
+      items: [
+        {
+          runId: "run-2",
+          status: "failed",
+          startedAt: "2026-03-02T09:00:00.000Z",
+          endedAt: "2026-03-02T09:00:05.000Z",
+          conversationId: "conv-2",
+          error: "Boom",
+        },
+        {
+          runId: "run-1",
+          status: "succeeded",
+          startedAt: "2026-03-01T09:00:00.000Z",
+          endedAt: "2026-03-01T09:00:12.000Z",
+          conversationId: "conv-1",
+          costUsd: 1500000,
+          deliveryStatus: "sent",
+        },
+      ],
+      nextCursor: "cursor-abc",
+    });
+    (mockDb as Record<string, unknown>)["agent-schedule"] = { get: mockGet };
+    (mockDb as Record<string, unknown>)["agent-schedule-run"] = {
+      queryPaginated: mockQueryPaginated,
+    };
+
+    const req = createMockRequest({
+      workspaceResource: `workspaces/${workspaceId}`,
+      params: { workspaceId, agentId, scheduleId },
+      query: { limit: "10" },
+    });
+    const res = createMockResponse();
+    const next = vi.fn();
+
+    await handler(req as never, res as never, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(mockGet).toHaveBeenCalledWith(schedulePk, "schedule");
+    expect(mockQueryPaginated).toHaveBeenCalledWith(
+      {
+        KeyConditionExpression: "pk = :pk",
+        ExpressionAttributeValues: {
+          ":pk": `agent-schedule-runs/${workspaceId}/${agentId}/${scheduleId}`,
+        },
+        ScanIndexForward: false,
+      },
+      { limit: 10, cursor: null }
+    );
+    expect(res.json).toHaveBeenCalledWith({
+      runs: [
+        {
+          id: "run-2",
+          status: "failed",
+          startedAt: "2026-03-02T09:00:00.000Z",
+          endedAt: "2026-03-02T09:00:05.000Z",
+          conversationId: "conv-2",
+          costUsd: null,
+          error: "Boom",
+          deliveryStatus: null,
+          deliveryError: null,
+        },
+        {
+          id: "run-1",
+          status: "succeeded",
+          startedAt: "2026-03-01T09:00:00.000Z",
+          endedAt: "2026-03-01T09:00:12.000Z",
+          conversationId: "conv-1",
+          costUsd: 1500000,
+          error: null,
+          deliveryStatus: "sent",
+          deliveryError: null,
+        },
+      ],
+      nextCursor: "cursor-abc",
+    });
+  });
+
+  it("returns 410 when the schedule does not exist", async () => {
+    const handler = captureGetHandler(registerGetAgentScheduleRuns);
+
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+
+    const mockQueryPaginated = vi.fn();
+    (mockDb as Record<string, unknown>)["agent-schedule"] = {
+      get: vi.fn().mockResolvedValue(undefined),
+    };
+    (mockDb as Record<string, unknown>)["agent-schedule-run"] = {
+      queryPaginated: mockQueryPaginated,
+    };
+
+    const req = createMockRequest({
+      workspaceResource: `workspaces/${workspaceId}`,
+      params: { workspaceId, agentId, scheduleId },
+    });
+    const res = createMockResponse();
+    const next = vi.fn();
+
+    await handler(req as never, res as never, next);
+
+    expect(mockQueryPaginated).not.toHaveBeenCalled();
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({
+        output: expect.objectContaining({ statusCode: 410 }),
+      })
+    );
+  });
+});
@@ -0,0 +1,111 @@
+/* eslint-disable import/order */
+import type { Application, RequestHandler } from "express";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import {
+  createMockRequest,
+  createMockResponse,
+} from "../../../utils/__tests__/test-helpers";
+
+const { mockDatabase, mockRecordConversationFeedback } = vi.hoisted(() => ({
+  mockDatabase: vi.fn(),
+  mockRecordConversationFeedback: vi.fn(),
+}));
+
+vi.mock("../../../../tables", () => ({
+  database: mockDatabase,
+}));
+
+vi.mock("../../../../utils/conversationFeedback", async (importOriginal) => ({
+  ...(await importOriginal<
+    typeof import("../../../../utils/conversationFeedback")
+  >()),
+  recordConversationFeedback: mockRecordConversationFeedback,
+}));
+
+import { registerPostAgentConversationFeedback } from "../post-agent-conversation-feedback";
+
+function capturePostHandler(register: (app: Application) => void) {
+  let captured: RequestHandler | undefined;
+  const app = {
+    post: (...args: unknown[]) => {
+      const handlers = args.slice(1) as RequestHandler[];
+      captured = handlers[handlers.length - 1];
+    },
+  } as unknown as Application;
+  register(app);
+  if (!captured) {
+    throw new Error("Post handler not registered");
+  }
+  return captured;
+}
+
+describe("POST /api/workspaces/:workspaceId/agents/:agentId/conversations/:conversationId/feedback", () => {
+  const params = {
+    workspaceId: "workspace-123",
+    agentId: "agent-456",
+    conversationId: "conversation-1",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDatabase.mockResolvedValue({});
+  });
+
+  it("records the end user's rating with the api source", async () => {
+    const feedback = {
+      messageId: "request-1",
+      rating: "positive",
+      source: "api",
+      userId: "customer-42",
+      createdAt: "2026-10-19T10:00:00.000Z",
+    };
+    mockRecordConversationFeedback.mockResolvedValue(feedback);
+    const handler = capturePostHandler(registerPostAgentConversationFeedback);
+
+    const req = createMockRequest({
+      params,
+      body: { messageId: "request-1", rating: "positive", userId: "customer-42" },
+    });
+    const res = createMockResponse();
+    const next = vi.fn();
+
+    await handler(req as never, res as never, next);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(mockRecordConversationFeedback).toHaveBeenCalledWith(
+      {},
+      {
+        ...params,
+        messageId: "request-1",
+        rating: "positive",
+        comment: undefined,
+        source: "api",
+        userId: "customer-42",
+      }
+    );
+    expect((res as { body: unknown }).body).toEqual(feedback);
+  });
+
+  it("rejects an unknown rating", async () => {
+    const handler = capturePostHandler(registerPostAgentConversationFeedback);
+
+    const req = createMockRequest({
+      params,
+      body: { messageId: "request-1", rating: "neutral" },
+    });
+    const res = createMockResponse();
+    const next = vi.fn();
+
+    await handler(req as never, res as never, next);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({
+        output: expect.objectContaining({ statusCode: 400 }),
+      })
+    );
+    expect(mockRecordConversationFeedback).not.toHaveBeenCalled();
+  });
+});
@@ -142,6 +142,7 @@ describe("POST /api/workspaces/:workspaceId/agents/:agentId/eval-judges", () =>
       samplingProbability: 100,
       provider: "openrouter",
       modelName: "gpt-4o",
+      fallbackModelNames: [],
       evalPrompt: "Evaluate accuracy",
       createdAt: expect.any(String),
     });
@@ -0,0 +1,125 @@
+/* eslint-disable import/order */
+import express from "express";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import {
+  createMockRequest,
+  createMockResponse,
+  createMockDatabase,
+} from "../../../utils/__tests__/test-helpers";
+
+const { mockDatabase, mockCreateMemoryRecord } = vi.hoisted(() => ({
+  mockDatabase: vi.fn(),
+  mockCreateMemoryRecord: vi.fn(),
+}));
+
+vi.mock("../../../../tables", () => ({
+  database: mockDatabase,
+}));
+
+vi.mock("../../../../utils/memory/manualMemory", () => ({
+  createMemoryRecord: mockCreateMemoryRecord,
+}));
+
+import { registerPostAgentMemory } from "../post-agent-memory";
+
+import { createTestAppWithHandlerCapture } from "./route-test-helpers";
+
+describe("POST /api/workspaces/:workspaceId/agents/:agentId/memory", () => {
+  const path = "/api/workspaces/:workspaceId/agents/:agentId/memory";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function setup(agent: unknown) {
+    const mockDb = createMockDatabase();
+    mockDb.agent.get = vi.fn().mockResolvedValue(agent);
+    mockDatabase.mockResolvedValue(mockDb);
+    const { app, postHandler } = createTestAppWithHandlerCapture();
+    registerPostAgentMemory(app);
+    return postHandler(path);
+  }
+
+  it("queues the record in the requested grain", async () => {
+    const handler = setup({ pk: "agents/workspace-123/agent-456" });
+    const record = {
+      id: "record-1",
+      content: "The customer prefers email",
+      date: "2026-10-18",
+      timestamp: "2026-10-18T12:00:00.000Z",
+      metadata: { workspaceId: "workspace-123", agentId: "agent-456" },
+    };
+    mockCreateMemoryRecord.mockResolvedValue(record);
+
+    const req = createMockRequest({
+      params: { workspaceId: "workspace-123", agentId: "agent-456" },
+      body: {
+        grain: "daily",
+        content: "  The customer prefers email ",
+        timestamp: "2026-10-18T12:00:00.000Z",
+      },
+    }) as express.Request;
+    const res = createMockResponse() as express.Response;
+    const next = vi.fn();
+
+    await handler?.(req, res, next);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(mockCreateMemoryRecord).toHaveBeenCalledWith({
+      workspaceId: "workspace-123",
+      agentId: "agent-456",
+      grain: "daily",
+      content: "The customer prefers email",
+      timestamp: "2026-10-18T12:00:00.000Z",
+    });
+    expect(res.status).toHaveBeenCalledWith(202);
+    expect(res.json).toHaveBeenCalledWith({
+      workspaceId: "workspace-123",
+      agentId: "agent-456",
+      grain: "daily",
+      record,
+    });
+  });
+
+  it("rejects empty content", async () => {
+    const handler = setup({ pk: "agents/workspace-123/agent-456" });
+
+    const req = createMockRequest({
+      params: { workspaceId: "workspace-123", agentId: "agent-456" },
+      body: { content: "   " },
+    }) as express.Request;
+    const res = createMockResponse() as express.Response;
+    const next = vi.fn();
+
+    await handler?.(req, res, next);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const error = next.mock.calls[0]?.[0] as {
+      output?: { statusCode?: number };
+    };
+    expect(error?.output?.statusCode).toBe(400);
+    expect(mockCreateMemoryRecord).not.toHaveBeenCalled();
+  });
+
+  it("returns 410 when the agent is missing", async () => {
+    const handler = setup(null);
+
+    const req = createMockRequest({
+      params: { workspaceId: "workspace-123", agentId: "agent-456" },
+      body: { content: "A fact" },
+    }) as express.Request;
+    const res = createMockResponse() as express.Response;
+    const next = vi.fn();
+
+    await handler?.(req, res, next);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const error = next.mock.calls[0]?.[0] as {
+      output?: { statusCode?: number };
+    };
+    expect(error?.output?.statusCode).toBe(410);
+    expect(mockCreateMemoryRecord).not.toHaveBeenCalled();
+  });
+});
@@ -34,6 +34,7 @@ vi.mock("../../../../tables", () => ({
 vi.mock("../../../../utils/cron", () => ({
   getNextRunAtEpochSeconds: mockGetNextRunAtEpochSeconds,
   isValidCronExpression: vi.fn().mockReturnValue(true),
+  isValidTimezone: vi.fn().mockReturnValue(true),
 }));
 
 vi.mock("../../../../utils/subscriptionUtils", () => ({
@@ -97,6 +98,7 @@ describe("POST /api/workspaces/:workspaceId/agents/:agentId/schedules", () => {
       scheduleId,
       name: "Daily run",
       cronExpression: "0 0 * * *",
+      timezone: "UTC",
       prompt: "Run daily report",
       enabled: true,
       duePartition: "due",
@@ -144,7 +146,8 @@ describe("POST /api/workspaces/:workspaceId/agents/:agentId/schedules", () => {
     );
     expect(mockGetNextRunAtEpochSeconds).toHaveBeenCalledWith(
       "0 0 * * *",
-      expect.any(Date)
+      expect.any(Date),
+      "UTC"
     );
     expect(mockCreate).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -155,6 +158,7 @@ describe("POST /api/workspaces/:workspaceId/agents/:agentId/schedules", () => {
         scheduleId,
         name: "Daily run",
         cronExpression: "0 0 * * *",
+        timezone: "UTC",
         prompt: "Run daily report",
         enabled: true,
         duePartition: "due",
@@ -166,7 +170,9 @@ describe("POST /api/workspaces/:workspaceId/agents/:agentId/schedules", () => {
       id: scheduleId,
       name: "Daily run",
       cronExpression: "0 0 * * *",
+      timezone: "UTC",
       prompt: "Run daily report",
+      delivery: null,
       enabled: true,
       nextRunAt,
       lastRunAt: null,
@@ -224,4 +230,61 @@ describe("POST /api/workspaces/:workspaceId/agents/:agentId/schedules", () => {
     );
     expect(next).toHaveBeenCalledWith(expect.any(Error));
   });
+
+  it("rejects a delivery channel that does not exist", async () => {
+    const handler = capturePostHandler(registerPostAgentSchedules);
+
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+
+    const workspaceId = "workspace-123";
+    const agentId = "agent-456";
+
+    mockDb.agent.get = vi.fn().mockResolvedValue({
+      pk: `agents/${workspaceId}/${agentId}`,
+      sk: "agent",
+      workspaceId,
+      agentId,
+      name: "Agent",
+    });
+    const mockChannelGet = vi.fn().mockResolvedValue(undefined);
+    const mockCreate = vi.fn();
+    (mockDb as Record<string, unknown>)["output_channel"] = {
+      get: mockChannelGet,
+    };
+    (mockDb as Record<string, unknown>)["agent-schedule"] = {
+      create: mockCreate,
+    };
+
+    const req = createMockRequest({
+      workspaceResource: `workspaces/${workspaceId}`,
+      userRef: "users/user-123",
+      params: {
+        workspaceId,
+        agentId,
+      },
+      body: {
+        name: "Daily digest",
+        cronExpression: "0 9 * * 1-5",
+        prompt: "Summarize everything since {{lastRunAt}}",
+        delivery: { type: "channel", channelId: "channel-missing" },
+      },
+    });
+    const res = createMockResponse();
+    const next = vi.fn();
+
+    await handler(req as never, res as never, next);
+
+    expect(mockChannelGet).toHaveBeenCalledWith(
+      `output-channels/${workspaceId}/channel-missing`,
+      "channel"
+    );
+    expect(mockCreate).not.toHaveBeenCalled();
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "Delivery channel not found",
+        output: expect.objectContaining({ statusCode: 400 }),
+      })
+    );
+  });
 });
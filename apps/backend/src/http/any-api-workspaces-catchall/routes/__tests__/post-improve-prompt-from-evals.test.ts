@@ -24,6 +24,7 @@ const {
   mockCleanupReservationOnError,
   mockCleanupReservationWithoutTokenUsage,
   mockExtractTokenUsageAndCosts,
+  mockListAgentFeedbackExamples,
 } = vi.hoisted(() => ({
   mockCreateModel: vi.fn(),
   mockGetDefaultModel: vi.fn(),
@@ -40,6 +41,7 @@ const {
   mockCleanupReservationOnError: vi.fn(),
   mockCleanupReservationWithoutTokenUsage: vi.fn(),
   mockExtractTokenUsageAndCosts: vi.fn(),
+  mockListAgentFeedbackExamples: vi.fn(),
 }));
 
 vi.mock("../../../utils/modelFactory", () => ({
@@ -64,6 +66,13 @@ vi.mock("../../../../utils/tracking", () => ({
   trackBusinessEvent: mockTrackBusinessEvent,
 }));
 
+vi.mock("../../../../utils/conversationFeedback", async (importOriginal) => ({
+  ...(await importOriginal<
+    typeof import("../../../../utils/conversationFeedback")
+  >()),
+  listAgentFeedbackExamples: mockListAgentFeedbackExamples,
+}));
+
 vi.mock("../../../../utils/workspaceCreditContext", () => ({
   getContextFromRequestId: mockGetContextFromRequestId,
 }));
@@ -444,6 +453,66 @@ describe("POST /api/workspaces/:workspaceId/agents/:agentId/improve-prompt-from-
     expect(error.message).toContain("selectedEvaluations");
   });
 
+  it("improves the prompt from end-user feedback without evaluations", async () => {
+    const handler = capturePostHandler(registerPostImprovePromptFromEvals);
+    const mockDb = createMockDatabase();
+    const evalResultGet = vi.fn();
+    mockDb.agent.get = vi.fn().mockResolvedValue({
+      pk: "agents/workspace-123/agent-456",
+      sk: "agent",
+      workspaceId: "workspace-123",
+      agentId: "agent-456",
+      systemPrompt: "Current system prompt",
+    });
+    (mockDb as Record<string, unknown>)["agent-eval-result"] = {
+      get: evalResultGet,
+    };
+    mockDatabase.mockResolvedValue(mockDb);
+    mockListAgentFeedbackExamples.mockResolvedValue([
+      {
+        conversationId: "c1",
+        rating: "negative",
+        comment: "Wrong opening hours",
+        source: "widget",
+        createdAt: "2026-10-19T10:00:00.000Z",
+        question: "When do you open?",
+        answer: "We open at 7am.",
+      },
+    ]);
+    mockCreateModel.mockResolvedValue({ model: "mock" });
+    mockGenerateText.mockResolvedValue({ text: "Improved prompt" });
+
+    const req = createMockRequest({
+      userRef: "users/user-123",
+      workspaceResource: "workspaces/workspace-123",
+      params: { workspaceId: "workspace-123", agentId: "agent-456" },
+      headers: { "x-request-id": "test-req-id" },
+      body: {
+        userPrompt: "Fix what users complain about",
+        includeFeedback: "negative",
+      },
+    });
+    const res = createMockResponse();
+    const next = vi.fn();
+
+    handler(req as never, res as never, next);
+    await new Promise((r) => setImmediate(r));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(evalResultGet).not.toHaveBeenCalled();
+    expect(mockListAgentFeedbackExamples).toHaveBeenCalledWith(mockDb, {
+      workspaceId: "workspace-123",
+      agentId: "agent-456",
+      rating: "negative",
+      limit: 30,
+    });
+    const userMessage = mockGenerateText.mock.calls[0][0].messages[0].content;
+    expect(userMessage).toContain("End-user feedback on recent replies");
+    expect(userMessage).toContain("Wrong opening hours");
+    expect(userMessage).not.toContain("Selected evaluation results");
+    expect(res.json).toHaveBeenCalledWith({ prompt: "Improved prompt" });
+  });
+
   it("rejects when agent does not exist", async () => {
     const handler = capturePostHandler(registerPostImprovePromptFromEvals);
     const mockDb = createMockDatabase();
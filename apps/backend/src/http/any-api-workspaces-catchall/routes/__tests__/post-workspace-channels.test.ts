@@ -2,6 +2,14 @@ import { badRequest, unauthorized } from "@hapi/boom";
 import express from "express";
 import { describe, it, expect, vi, beforeEach } from "vitest";
 
+import {
+  assertSystemSenderRecipients,
+  parseEmailChannelConfig,
+} from "../../../../utils/emailChannel";
+import {
+  generateHttpChannelSecret,
+  parseHttpChannelConfig,
+} from "../../../../utils/httpChannel";
 import {
   createMockRequest,
   createMockResponse,
@@ -14,17 +22,20 @@ const {
   mockDatabase,
   mockEnsureWorkspaceSubscription,
   mockCheckSubscriptionLimits,
+  mockGetUserEmailById,
 } = vi.hoisted(() => {
   return {
     mockRandomUUID: vi.fn(),
     mockDatabase: vi.fn(),
     mockEnsureWorkspaceSubscription: vi.fn(),
     mockCheckSubscriptionLimits: vi.fn(),
+    mockGetUserEmailById: vi.fn(),
   };
 });
 
 // Mock the modules
-vi.mock("crypto", () => ({
+vi.mock("crypto", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("crypto")>()),
   randomUUID: mockRandomUUID,
 }));
 
@@ -35,6 +46,7 @@ vi.mock("../../../../tables", () => ({
 vi.mock("../../../../utils/subscriptionUtils", () => ({
   ensureWorkspaceSubscription: mockEnsureWorkspaceSubscription,
   checkSubscriptionLimits: mockCheckSubscriptionLimits,
+  getUserEmailById: mockGetUserEmailById,
 }));
 
 describe("POST /api/workspaces/:workspaceId/channels", () => {
@@ -54,7 +66,8 @@ describe("POST /api/workspaces/:workspaceId/channels", () => {
       next: express.NextFunction
     ) => {
       try {
-        const { type, name, config } = req.body;
+        const { type, name } = req.body;
+        let config = req.body.config;
         if (!type || typeof type !== "string") {
           throw badRequest("type is required and must be a string");
         }
@@ -99,6 +112,25 @@ describe("POST /api/workspaces/:workspaceId/channels", () => {
               "Invalid Slack webhook URL format. Must start with https://hooks.slack.com/services/"
             );
           }
+        } else if (type === "email") {
+          try {
+            config = parseEmailChannelConfig(config);
+          } catch (error) {
+            throw badRequest(
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+        } else if (type === "http") {
+          try {
+            config = parseHttpChannelConfig({
+              ...config,
+              secret: config.secret ?? generateHttpChannelSecret(),
+            });
+          } catch (error) {
+            throw badRequest(
+              error instanceof Error ? error.message : String(error)
+            );
+          }
         } else {
           throw badRequest(`Unsupported channel type: ${type}`);
         }
@@ -115,6 +147,26 @@ describe("POST /api/workspaces/:workspaceId/channels", () => {
         }
         const workspaceId = req.params.workspaceId;
 
+        if (type === "email" && config.sender === "workspace") {
+          const emailConnection = await db["email-connection"].get(
+            `email-connections/${workspaceId}`,
+            "connection"
+          );
+          if (!emailConnection) {
+            throw badRequest(
+              'Workspace has no email connection. Connect an email account or use config.sender "system"'
+            );
+          }
+        } else if (type === "email" && config.sender === "system") {
+          try {
+            await assertSystemSenderRecipients(workspaceId, config.recipients);
+          } catch (error) {
+            throw badRequest(
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+        }
+
         // Ensure workspace has a subscription and check channel limit
         const userId = currentUserRef.replace("users/", "");
         const subscriptionId = await mockEnsureWorkspaceSubscription(
@@ -144,6 +196,7 @@ describe("POST /api/workspaces/:workspaceId/channels", () => {
           name: channel.name,
           type: channel.type,
           createdAt: channel.createdAt,
+          ...(type === "http" && { signingSecret: config.secret }),
         });
       } catch (error) {
         next(error);
@@ -778,9 +831,225 @@ describe("POST /api/workspaces/:workspaceId/channels", () => {
     );
   });
 
-  it("should throw badRequest when channel type is unsupported", async () => {
+  it("should create an email channel with the default sender", async () => {
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+
+    const workspaceId = "workspace-123";
+    const channelId = "channel-email-1";
+    mockRandomUUID.mockReturnValue(channelId);
+    mockEnsureWorkspaceSubscription.mockResolvedValue("sub-789");
+    mockCheckSubscriptionLimits.mockResolvedValue(undefined);
+    mockDb["email-connection"].get = vi
+      .fn()
+      .mockResolvedValue({ type: "gmail" });
+    const mockChannelCreate = vi.fn().mockResolvedValue({
+      channelId,
+      name: "Alerts",
+      type: "email",
+      createdAt: "2024-01-01T00:00:00Z",
+    });
+    mockDb["output_channel"].create = mockChannelCreate;
+
+    const req = createMockRequest({
+      workspaceResource: `workspaces/${workspaceId}`,
+      userRef: "users/user-456",
+      params: { workspaceId },
+      body: {
+        type: "email",
+        name: "Alerts",
+        config: {
+          recipients: ["ops@example.com"],
+          subjectTemplate: "[{{channelName}}] {{title}}",
+        },
+      },
+    });
+    const res = createMockResponse();
+    const next = vi.fn();
+
+    await callRouteHandler(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(mockDb["email-connection"].get).toHaveBeenCalledWith(
+      `email-connections/${workspaceId}`,
+      "connection"
+    );
+    expect(mockChannelCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "email",
+        config: {
+          recipients: ["ops@example.com"],
+          subjectTemplate: "[{{channelName}}] {{title}}",
+          sender: "workspace",
+        },
+      })
+    );
+    expect(res.status).toHaveBeenCalledWith(201);
+  });
+
+  it("should create an http channel and return its generated signing secret", async () => {
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+
+    const workspaceId = "workspace-123";
+    const channelId = "channel-http-1";
+    mockRandomUUID.mockReturnValue(channelId);
+    mockEnsureWorkspaceSubscription.mockResolvedValue("sub-789");
+    mockCheckSubscriptionLimits.mockResolvedValue(undefined);
+    const mockChannelCreate = vi.fn().mockResolvedValue({
+      channelId,
+      name: "Webhook",
+      type: "http",
+      createdAt: "2024-01-01T00:00:00Z",
+    });
+    mockDb["output_channel"].create = mockChannelCreate;
+
+    const req = createMockRequest({
+      workspaceResource: `workspaces/${workspaceId}`,
+      userRef: "users/user-456",
+      params: { workspaceId },
+      body: {
+        type: "http",
+        name: "Webhook",
+        config: {
+          url: "https://example.com/hooks",
+          headers: { Authorization: "Bearer abc" },
+        },
+      },
+    });
+    const res = createMockResponse();
+    const next = vi.fn();
+
+    await callRouteHandler(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    const createdConfig = mockChannelCreate.mock.calls[0][0].config;
+    expect(createdConfig).toEqual({
+      url: "https://example.com/hooks",
+      headers: { Authorization: "Bearer abc" },
+      secret: expect.stringMatching(/^whsec_[0-9a-f]{64}$/),
+    });
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: channelId,
+        signingSecret: createdConfig.secret,
+      })
+    );
+  });
+
+  it("should throw badRequest when the http channel URL is not https", async () => {
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+
+    const req = createMockRequest({
+      workspaceResource: "workspaces/workspace-123",
+      userRef: "users/user-456",
+      params: { workspaceId: "workspace-123" },
+      body: {
+        type: "http",
+        name: "Webhook",
+        config: { url: "ftp://example.com/hooks" },
+      },
+    });
+    const res = createMockResponse();
+    const next = vi.fn();
+
+    await callRouteHandler(req, res, next);
+
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({
+        output: expect.objectContaining({
+          statusCode: 400,
+          payload: expect.objectContaining({
+            message: "config.url must use https",
+          }),
+        }),
+      })
+    );
+  });
+
+  it("should throw badRequest when email recipients are invalid", async () => {
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+
+    const req = createMockRequest({
+      workspaceResource: "workspaces/workspace-123",
+      userRef: "users/user-456",
+      params: {
+        workspaceId: "workspace-123",
+      },
+      body: {
+        type: "email",
+        name: "Alerts",
+        config: { recipients: ["not-an-email"], sender: "system" },
+      },
+    });
+    const res = createMockResponse();
+    const next = vi.fn();
+
+    await callRouteHandler(req, res, next);
+
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({
+        output: expect.objectContaining({
+          statusCode: 400,
+          payload: expect.objectContaining({
+            message: "config.recipients must contain valid email addresses",
+          }),
+        }),
+      })
+    );
+  });
+
+  it("should throw badRequest when the workspace sender has no email connection", async () => {
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+    mockDb["email-connection"].get = vi.fn().mockResolvedValue(undefined);
+    const mockChannelCreate = vi.fn();
+    mockDb["output_channel"].create = mockChannelCreate;
+
+    const req = createMockRequest({
+      workspaceResource: "workspaces/workspace-123",
+      userRef: "users/user-456",
+      params: {
+        workspaceId: "workspace-123",
+      },
+      body: {
+        type: "email",
+        name: "Alerts",
+        config: { recipients: ["ops@example.com"] },
+      },
+    });
+    const res = createMockResponse();
+    const next = vi.fn();
+
+    await callRouteHandler(req, res, next);
+
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({
+        output: expect.objectContaining({
+          statusCode: 400,
+          payload: expect.objectContaining({
+            message: expect.stringContaining(
+              "Workspace has no email connection"
+            ),
+          }),
+        }),
+      })
+    );
+    expect(mockChannelCreate).not.toHaveBeenCalled();
+  });
+
+  it("should throw badRequest when a system sender recipient is not a workspace member", async () => {
     const mockDb = createMockDatabase();
     mockDatabase.mockResolvedValue(mockDb);
+    mockDb.permission.query = vi.fn().mockResolvedValue({
+      items: [{ pk: "workspaces/workspace-123", sk: "users/user-456" }],
+    });
+    mockGetUserEmailById.mockResolvedValue("Member@example.com");
+    const mockChannelCreate = vi.fn();
+    mockDb["output_channel"].create = mockChannelCreate;
 
     const req = createMockRequest({
       workspaceResource: "workspaces/workspace-123",
@@ -790,6 +1059,46 @@ describe("POST /api/workspaces/:workspaceId/channels", () => {
       },
       body: {
         type: "email",
+        name: "Alerts",
+        config: {
+          recipients: ["member@example.com", "stranger@example.com"],
+          sender: "system",
+        },
+      },
+    });
+    const res = createMockResponse();
+    const next = vi.fn();
+
+    await callRouteHandler(req, res, next);
+
+    expect(mockGetUserEmailById).toHaveBeenCalledWith("user-456");
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({
+        output: expect.objectContaining({
+          statusCode: 400,
+          payload: expect.objectContaining({
+            message: expect.stringContaining(
+              "stranger@example.com is not a member"
+            ),
+          }),
+        }),
+      })
+    );
+    expect(mockChannelCreate).not.toHaveBeenCalled();
+  });
+
+  it("should throw badRequest when channel type is unsupported", async () => {
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+
+    const req = createMockRequest({
+      workspaceResource: "workspaces/workspace-123",
+      userRef: "users/user-456",
+      params: {
+        workspaceId: "workspace-123",
+      },
+      body: {
+        type: "sms",
         name: "My Channel",
         config: {},
       },
@@ -804,7 +1113,7 @@ describe("POST /api/workspaces/:workspaceId/channels", () => {
         output: expect.objectContaining({
           statusCode: 400,
           payload: expect.objectContaining({
-            message: expect.stringContaining("Unsupported channel type: email"),
+            message: expect.stringContaining("Unsupported channel type: sms"),
           }),
         }),
       })
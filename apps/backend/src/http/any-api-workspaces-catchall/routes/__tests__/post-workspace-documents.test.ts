@@ -4,6 +4,10 @@ import { badRequest, unauthorized } from "@hapi/boom";
 import express from "express";
 import { describe, it, expect, vi, beforeEach } from "vitest";
 
+import {
+  getSupportedDocumentExtensions,
+  isSupportedDocumentType,
+} from "../../../../utils/documentExtraction/registry";
 import {
   createMockRequest,
   createMockResponse,
@@ -120,22 +124,9 @@ describe("POST /api/workspaces/:workspaceId/documents", () => {
           const originalFilename = file.originalname;
 
           // Validate file type
-          const allowedTypes = [
-            "text/markdown",
-            "text/plain",
-            "text/x-markdown",
-          ];
-          const allowedExtensions = [".md", ".txt", ".markdown"];
-          const fileExt = originalFilename
-            .substring(originalFilename.lastIndexOf("."))
-            .toLowerCase();
-
-          if (
-            !allowedTypes.includes(file.mimetype) &&
-            !allowedExtensions.includes(fileExt)
-          ) {
+          if (!isSupportedDocumentType(file.mimetype, originalFilename)) {
             throw badRequest(
-              `Invalid file type. Allowed: ${allowedExtensions.join(", ")}`
+              `Invalid file type. Allowed: ${getSupportedDocumentExtensions().join(", ")}`
             );
           }
 
@@ -726,9 +717,9 @@ describe("POST /api/workspaces/:workspaceId/documents", () => {
 
     const mockFile: Express.Multer.File = {
       fieldname: "files",
-      originalname: "test.pdf",
+      originalname: "diagram.png",
       encoding: "7bit",
-      mimetype: "application/pdf",
+      mimetype: "image/png",
       size: 1024,
       buffer: Buffer.from("Test content"),
       destination: "",
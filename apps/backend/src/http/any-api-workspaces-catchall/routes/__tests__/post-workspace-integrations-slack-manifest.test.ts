@@ -172,6 +172,30 @@ describe("POST /api/workspaces/:workspaceId/integrations/slack/manifest", () =>
     expect(botEvents).not.toContain("app_mentions");
   });
 
+  it("should subscribe to reactions for feedback on agent replies", async () => {
+    process.env.WEBHOOK_BASE_URL = "https://api.helpmaton.com";
+
+    const req = createMockRequest({
+      params: { workspaceId: "workspace-123" },
+      body: {
+        agentId: "agent-456",
+      },
+      userRef: "user-123",
+    });
+    const res = createMockResponse() as MockResponseWithBody;
+
+    await callRouteHandler(req, res);
+
+    const manifest = res.body.manifest as {
+      oauth_config: { scopes: { bot: string[] } };
+      settings: { event_subscriptions: { bot_events: string[] } };
+    };
+    expect(manifest.oauth_config.scopes.bot).toContain("reactions:read");
+    expect(manifest.settings.event_subscriptions.bot_events).toEqual(
+      expect.arrayContaining(["reaction_added", "reaction_removed"])
+    );
+  });
+
   it("should include app_home configuration to enable DMs", async () => {
     process.env.WEBHOOK_BASE_URL = "https://api.helpmaton.com";
 
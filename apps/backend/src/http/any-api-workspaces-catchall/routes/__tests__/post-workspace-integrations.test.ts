@@ -9,9 +9,15 @@ import {
 } from "../../../utils/__tests__/test-helpers";
 
 // Mock dependencies using vi.hoisted
-const { mockDatabase } = vi.hoisted(() => {
+const {
+  mockDatabase,
+  mockGetTelegramBotInfo,
+  mockSetTelegramWebhook,
+} = vi.hoisted(() => {
   return {
     mockDatabase: vi.fn(),
+    mockGetTelegramBotInfo: vi.fn(),
+    mockSetTelegramWebhook: vi.fn(),
   };
 });
 
@@ -20,6 +26,13 @@ vi.mock("../../../../tables", () => ({
   database: mockDatabase,
 }));
 
+// Mock the Telegram Bot API client
+vi.mock("../../../../utils/telegramApi", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../../utils/telegramApi")>()),
+  getTelegramBotInfo: mockGetTelegramBotInfo,
+  setTelegramWebhook: mockSetTelegramWebhook,
+}));
+
 // Mock @architect/functions for database initialization
 vi.mock("@architect/functions", () => ({
   tables: vi.fn().mockResolvedValue({
@@ -183,6 +196,99 @@ describe("POST /api/workspaces/:workspaceId/integrations", () => {
     expect(res.body.platform).toBe("discord");
   });
 
+  it("should create Telegram integration and register its webhook", async () => {
+    const mockDb = createMockDatabase();
+    const mockCreate = vi.fn().mockImplementation(async (record) => record);
+    mockDb.agent.get = vi.fn().mockResolvedValue({
+      pk: "agents/workspace-123/agent-456",
+      sk: "agent",
+    });
+    mockDb["bot-integration"] = {
+      get: vi.fn(),
+      put: vi.fn(),
+      create: mockCreate,
+      update: vi.fn(),
+      delete: vi.fn(),
+      query: vi.fn(),
+    };
+    mockDatabase.mockResolvedValue(mockDb);
+    mockGetTelegramBotInfo.mockResolvedValue({
+      id: 123456,
+      is_bot: true,
+      username: "helpmaton_bot",
+    });
+    mockSetTelegramWebhook.mockResolvedValue(undefined);
+
+    process.env.WEBHOOK_BASE_URL = "https://api.helpmaton.com";
+
+    const botToken = `123456:${"A".repeat(35)}`;
+    const req = createMockRequest({
+      params: { workspaceId: "workspace-123" },
+      body: {
+        platform: "telegram",
+        name: "Test Bot",
+        agentId: "agent-456",
+        config: { botToken },
+      },
+      userRef: "user-123",
+    });
+    const res = createMockResponse() as MockResponse;
+
+    await callRouteHandler(req, res);
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.botUsername).toBe("helpmaton_bot");
+    const created = mockCreate.mock.calls[0][0];
+    expect(created.config).toMatchObject({
+      botToken,
+      botUsername: "helpmaton_bot",
+      botUserId: 123456,
+      secretToken: expect.any(String),
+      messageHistoryCount: 10,
+    });
+    expect(mockSetTelegramWebhook).toHaveBeenCalledWith(
+      botToken,
+      created.webhookUrl,
+      created.config.secretToken
+    );
+  });
+
+  it("should throw badRequest when Telegram bot token is rejected", async () => {
+    const mockDb = createMockDatabase();
+    mockDb.agent.get = vi.fn().mockResolvedValue({
+      pk: "agents/workspace-123/agent-456",
+      sk: "agent",
+    });
+    mockDatabase.mockResolvedValue(mockDb);
+    mockGetTelegramBotInfo.mockRejectedValue(
+      new Error("Telegram getMe failed: Unauthorized")
+    );
+
+    const req = createMockRequest({
+      params: { workspaceId: "workspace-123" },
+      body: {
+        platform: "telegram",
+        name: "Test Bot",
+        agentId: "agent-456",
+        config: { botToken: `123456:${"A".repeat(35)}` },
+      },
+      userRef: "user-123",
+    });
+    const res = createMockResponse() as MockResponse;
+    const next = vi.fn();
+
+    await callRouteHandler(req, res, next);
+
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({
+        output: expect.objectContaining({
+          statusCode: 400,
+        }),
+      })
+    );
+    expect(mockSetTelegramWebhook).not.toHaveBeenCalled();
+  });
+
   it("should throw badRequest for invalid platform", async () => {
     const req = createMockRequest({
       params: { workspaceId: "workspace-123" },
@@ -0,0 +1,102 @@
+/* eslint-disable import/order */
+import express from "express";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import {
+  createMockRequest,
+  createMockResponse,
+  createMockDatabase,
+} from "../../../utils/__tests__/test-helpers";
+
+const { mockDatabase, mockUpdateGraphFact } = vi.hoisted(() => ({
+  mockDatabase: vi.fn(),
+  mockUpdateGraphFact: vi.fn(),
+}));
+
+vi.mock("../../../../tables", () => ({
+  database: mockDatabase,
+}));
+
+vi.mock("../../../../utils/memory/manualMemory", () => ({
+  updateGraphFact: mockUpdateGraphFact,
+}));
+
+import { registerPutAgentKnowledgeGraphFact } from "../put-agent-knowledge-graph-fact";
+
+import { createTestAppWithHandlerCapture } from "./route-test-helpers";
+
+describe("PUT /api/workspaces/:workspaceId/agents/:agentId/knowledge-graph/facts/:factId", () => {
+  const path =
+    "/api/workspaces/:workspaceId/agents/:agentId/knowledge-graph/facts/:factId";
+  const params = {
+    workspaceId: "workspace-123",
+    agentId: "agent-456",
+    factId: "fact-1",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const mockDb = createMockDatabase();
+    mockDb.agent.get = vi
+      .fn()
+      .mockResolvedValue({ pk: "agents/workspace-123/agent-456" });
+    mockDatabase.mockResolvedValue(mockDb);
+  });
+
+  it("updates the fact and returns it with its new ID", async () => {
+    const fact = {
+      id: "fact-2",
+      source_id: "Alice",
+      label: "works_on",
+      target_id: "Project Y",
+      properties: { source: "manual" },
+    };
+    mockUpdateGraphFact.mockResolvedValue(fact);
+    const { app, putHandler } = createTestAppWithHandlerCapture();
+    registerPutAgentKnowledgeGraphFact(app);
+
+    const req = createMockRequest({
+      params,
+      userRef: "users/user-1",
+      body: { source_id: "Alice", label: "works_on", target_id: "Project Y" },
+    }) as express.Request;
+    const res = createMockResponse() as express.Response;
+    const next = vi.fn();
+
+    await putHandler(path)?.(req, res, next);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(mockUpdateGraphFact).toHaveBeenCalledWith(
+      {
+        workspaceId: "workspace-123",
+        agentId: "agent-456",
+        userRef: "users/user-1",
+      },
+      "fact-1",
+      { source_id: "Alice", label: "works_on", target_id: "Project Y" }
+    );
+    expect(res.json).toHaveBeenCalledWith(fact);
+  });
+
+  it("rejects facts without a predicate", async () => {
+    const { app, putHandler } = createTestAppWithHandlerCapture();
+    registerPutAgentKnowledgeGraphFact(app);
+
+    const req = createMockRequest({
+      params,
+      body: { source_id: "Alice", label: "", target_id: "Project Y" },
+    }) as express.Request;
+    const res = createMockResponse() as express.Response;
+    const next = vi.fn();
+
+    await putHandler(path)?.(req, res, next);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const error = next.mock.calls[0]?.[0] as {
+      output?: { statusCode?: number };
+    };
+    expect(error?.output?.statusCode).toBe(400);
+    expect(mockUpdateGraphFact).not.toHaveBeenCalled();
+  });
+});
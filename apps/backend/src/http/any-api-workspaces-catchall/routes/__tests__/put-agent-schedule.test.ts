@@ -11,10 +11,12 @@ import {
 const {
   mockDatabase,
   mockGetNextRunAtEpochSeconds,
+  mockIsValidTimezone,
   mockTrackBusinessEvent,
 } = vi.hoisted(() => ({
   mockDatabase: vi.fn(),
   mockGetNextRunAtEpochSeconds: vi.fn(),
+  mockIsValidTimezone: vi.fn().mockReturnValue(true),
   mockTrackBusinessEvent: vi.fn(),
 }));
 
@@ -25,6 +27,7 @@ vi.mock("../../../../tables", () => ({
 vi.mock("../../../../utils/cron", () => ({
   getNextRunAtEpochSeconds: mockGetNextRunAtEpochSeconds,
   isValidCronExpression: vi.fn().mockReturnValue(true),
+  isValidTimezone: mockIsValidTimezone,
 }));
 
 vi.mock("../../../../utils/tracking", () => ({
@@ -138,7 +141,8 @@ describe("PUT /api/workspaces/:workspaceId/agents/:agentId/schedules/:scheduleId
     expect(mockGet).toHaveBeenCalledWith(schedulePk, "schedule");
     expect(mockGetNextRunAtEpochSeconds).toHaveBeenCalledWith(
       "0 12 * * *",
-      expect.any(Date)
+      expect.any(Date),
+      "UTC"
     );
     expect(mockUpdate).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -150,4 +154,103 @@ describe("PUT /api/workspaces/:workspaceId/agents/:agentId/schedules/:scheduleId
       })
     );
   });
+
+  it("recomputes nextRunAt in the new timezone", async () => {
+    const handler = capturePutHandler(registerPutAgentSchedule);
+
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+
+    const workspaceId = "workspace-123";
+    const agentId = "agent-456";
+    const scheduleId = "schedule-789";
+    const nextRunAt = 1712349999;
+    const schedulePk = `agent-schedules/${workspaceId}/${agentId}/${scheduleId}`;
+
+    mockGetNextRunAtEpochSeconds.mockReturnValue(nextRunAt);
+
+    const existingSchedule = {
+      pk: schedulePk,
+      sk: "schedule",
+      workspaceId,
+      agentId,
+      scheduleId,
+      name: "Weekday standup",
+      cronExpression: "0 9 * * 1-5",
+      timezone: "UTC",
+      prompt: "Summarize",
+      enabled: true,
+      duePartition: "due",
+      nextRunAt: 1710000000,
+      createdAt: "2026-01-01T00:00:00Z",
+    };
+    const updatedSchedule = {
+      ...existingSchedule,
+      timezone: "Europe/Lisbon",
+      nextRunAt,
+      updatedAt: "2026-01-02T00:00:00Z",
+    };
+    const mockGet = vi
+      .fn()
+      .mockResolvedValueOnce(existingSchedule)
+      .mockResolvedValueOnce(updatedSchedule);
+    const mockUpdate = vi.fn().mockResolvedValue(updatedSchedule);
+    (mockDb as Record<string, unknown>)["agent-schedule"] = {
+      get: mockGet,
+      update: mockUpdate,
+    };
+
+    const req = createMockRequest({
+      workspaceResource: `workspaces/${workspaceId}`,
+      userRef: "users/user-123",
+      params: { workspaceId, agentId, scheduleId },
+      body: { timezone: "Europe/Lisbon" },
+    });
+    const res = createMockResponse();
+    const next = vi.fn();
+
+    await handler(req as never, res as never, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(mockGetNextRunAtEpochSeconds).toHaveBeenCalledWith(
+      "0 9 * * 1-5",
+      expect.any(Date),
+      "Europe/Lisbon"
+    );
+    expect(mockUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ timezone: "Europe/Lisbon", nextRunAt })
+    );
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ timezone: "Europe/Lisbon" })
+    );
+  });
+
+  it("rejects an unknown timezone", async () => {
+    const handler = capturePutHandler(registerPutAgentSchedule);
+
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+    mockIsValidTimezone.mockReturnValueOnce(false);
+
+    const req = createMockRequest({
+      workspaceResource: "workspaces/workspace-123",
+      userRef: "users/user-123",
+      params: {
+        workspaceId: "workspace-123",
+        agentId: "agent-456",
+        scheduleId: "schedule-789",
+      },
+      body: { timezone: "Mars/Olympus_Mons" },
+    });
+    const res = createMockResponse();
+    const next = vi.fn();
+
+    await handler(req as never, res as never, next);
+
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({
+        output: expect.objectContaining({ statusCode: 400 }),
+      })
+    );
+  });
 });
@@ -23,10 +23,12 @@ import {
   validateDelegatableAgentIds,
   validateImageGenerationConfig,
   validateKnowledgeConfig,
+  validateKnowledgeFolderPaths,
   validateMemoryExtractionModel,
   validateModelName,
   validateModelTuning,
   validateNotificationChannelId,
+  validateOutputSchema,
   validateSpendingLimits,
   validateAvatar,
 } from "../agentUpdate";
@@ -123,6 +125,7 @@ describe("PUT /api/workspaces/:workspaceId/agents/:agentId", () => {
         validateKnowledgeConfig({
           knowledgeInjectionMinSimilarity: body.knowledgeInjectionMinSimilarity,
         });
+        validateKnowledgeFolderPaths(body.knowledgeFolderPaths);
         validateModelTuning({
           temperature: body.temperature,
           topP: body.topP,
@@ -131,6 +134,7 @@ describe("PUT /api/workspaces/:workspaceId/agents/:agentId", () => {
           stopSequences: body.stopSequences,
           maxToolRoundtrips: body.maxToolRoundtrips,
         });
+        validateOutputSchema(body.outputSchema);
         const resolvedModelName = await validateModelName({
           modelName: body.modelName,
           getModelPricing: mockGetModelPricing,
@@ -1027,6 +1031,246 @@ describe("PUT /api/workspaces/:workspaceId/agents/:agentId", () => {
     ).toContain("temperature must be a number between 0 and 2");
   });
 
+  it("should reject an outputSchema without an object root", async () => {
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+    mockDb.agent.get = vi.fn().mockResolvedValue({
+      pk: "agents/workspace-123/agent-456",
+      sk: "agent",
+      workspaceId: "workspace-123",
+      name: "Test Agent",
+      systemPrompt: "Test Prompt",
+      provider: "openrouter",
+      createdAt: "2024-01-01T00:00:00Z",
+    });
+
+    const req = createMockRequest({
+      userRef: "users/user-123",
+      workspaceResource: "workspaces/workspace-123",
+      params: {
+        workspaceId: "workspace-123",
+        agentId: "agent-456",
+      },
+      body: {
+        outputSchema: { type: "array", items: { type: "string" } },
+      },
+    });
+    const res = createMockResponse();
+    const next = vi.fn();
+
+    await callRouteHandler(req, res, next);
+
+    const error = next.mock.calls[0][0];
+    expect(
+      (error as { output?: { payload: { message: string } } }).output?.payload
+        .message,
+    ).toContain('outputSchema must have "type": "object" at the root');
+  });
+
+  it("should persist and clear outputSchema", async () => {
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+    const outputSchema = {
+      type: "object",
+      properties: { answer: { type: "string" } },
+      required: ["answer"],
+    };
+    const mockAgent = {
+      pk: "agents/workspace-123/agent-456",
+      sk: "agent",
+      workspaceId: "workspace-123",
+      name: "Test Agent",
+      systemPrompt: "Test Prompt",
+      provider: "openrouter",
+      createdAt: "2024-01-01T00:00:00Z",
+    };
+    mockDb.agent.get = vi.fn().mockResolvedValue(mockAgent);
+    const mockAgentUpdate = vi
+      .fn()
+      .mockImplementation(async (params) => ({ ...mockAgent, ...params }));
+    mockDb.agent.update = mockAgentUpdate;
+
+    const buildRequest = (body: Record<string, unknown>) =>
+      createMockRequest({
+        userRef: "users/user-123",
+        workspaceResource: "workspaces/workspace-123",
+        params: {
+          workspaceId: "workspace-123",
+          agentId: "agent-456",
+        },
+        body,
+      });
+
+    const res = createMockResponse();
+    await callRouteHandler(buildRequest({ outputSchema }), res, vi.fn());
+    expect(mockAgentUpdate).toHaveBeenLastCalledWith(
+      expect.objectContaining({ outputSchema }),
+    );
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ outputSchema }),
+    );
+
+    mockDb.agent.get = vi
+      .fn()
+      .mockResolvedValue({ ...mockAgent, outputSchema });
+    await callRouteHandler(
+      buildRequest({ outputSchema: null }),
+      createMockResponse(),
+      vi.fn(),
+    );
+    expect(mockAgentUpdate.mock.lastCall?.[0].outputSchema).toBeUndefined();
+  });
+
+  it("should normalize, persist and clear knowledgeFolderPaths", async () => {
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+    const mockAgent = {
+      pk: "agents/workspace-123/agent-456",
+      sk: "agent",
+      workspaceId: "workspace-123",
+      name: "Test Agent",
+      systemPrompt: "Test Prompt",
+      provider: "openrouter",
+      createdAt: "2024-01-01T00:00:00Z",
+    };
+    mockDb.agent.get = vi.fn().mockResolvedValue(mockAgent);
+    const mockAgentUpdate = vi
+      .fn()
+      .mockImplementation(async (params) => ({ ...mockAgent, ...params }));
+    mockDb.agent.update = mockAgentUpdate;
+
+    const buildRequest = (body: Record<string, unknown>) =>
+      createMockRequest({
+        userRef: "users/user-123",
+        workspaceResource: "workspaces/workspace-123",
+        params: {
+          workspaceId: "workspace-123",
+          agentId: "agent-456",
+        },
+        body,
+      });
+
+    const res = createMockResponse();
+    await callRouteHandler(
+      buildRequest({ knowledgeFolderPaths: ["/support/", "hr", "hr/"] }),
+      res,
+      vi.fn(),
+    );
+    expect(mockAgentUpdate).toHaveBeenLastCalledWith(
+      expect.objectContaining({ knowledgeFolderPaths: ["hr", "support"] }),
+    );
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ knowledgeFolderPaths: ["hr", "support"] }),
+    );
+
+    // Selecting the root folder means all documents, stored as no scope
+    mockDb.agent.get = vi
+      .fn()
+      .mockResolvedValue({ ...mockAgent, knowledgeFolderPaths: ["hr"] });
+    await callRouteHandler(
+      buildRequest({ knowledgeFolderPaths: ["hr", ""] }),
+      createMockResponse(),
+      vi.fn(),
+    );
+    expect(
+      mockAgentUpdate.mock.lastCall?.[0].knowledgeFolderPaths,
+    ).toBeUndefined();
+
+    await callRouteHandler(
+      buildRequest({ knowledgeFolderPaths: null }),
+      createMockResponse(),
+      vi.fn(),
+    );
+    expect(
+      mockAgentUpdate.mock.lastCall?.[0].knowledgeFolderPaths,
+    ).toBeUndefined();
+  });
+
+  it("should normalize, persist and clear knowledgeTags", async () => {
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+    const mockAgent = {
+      pk: "agents/workspace-123/agent-456",
+      sk: "agent",
+      workspaceId: "workspace-123",
+      name: "Test Agent",
+      systemPrompt: "Test Prompt",
+      provider: "openrouter",
+      createdAt: "2024-01-01T00:00:00Z",
+    };
+    mockDb.agent.get = vi.fn().mockResolvedValue(mockAgent);
+    const mockAgentUpdate = vi
+      .fn()
+      .mockImplementation(async (params) => ({ ...mockAgent, ...params }));
+    mockDb.agent.update = mockAgentUpdate;
+
+    const buildRequest = (body: Record<string, unknown>) =>
+      createMockRequest({
+        userRef: "users/user-123",
+        workspaceResource: "workspaces/workspace-123",
+        params: {
+          workspaceId: "workspace-123",
+          agentId: "agent-456",
+        },
+        body,
+      });
+
+    const res = createMockResponse();
+    await callRouteHandler(
+      buildRequest({ knowledgeTags: ["Public", " onboarding", "public"] }),
+      res,
+      vi.fn(),
+    );
+    expect(mockAgentUpdate).toHaveBeenLastCalledWith(
+      expect.objectContaining({ knowledgeTags: ["onboarding", "public"] }),
+    );
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ knowledgeTags: ["onboarding", "public"] }),
+    );
+
+    mockDb.agent.get = vi
+      .fn()
+      .mockResolvedValue({ ...mockAgent, knowledgeTags: ["public"] });
+    await callRouteHandler(
+      buildRequest({ knowledgeTags: null }),
+      createMockResponse(),
+      vi.fn(),
+    );
+    expect(mockAgentUpdate.mock.lastCall?.[0].knowledgeTags).toBeUndefined();
+  });
+
+  it("should reject knowledgeFolderPaths with path traversal", async () => {
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+    mockDb.agent.get = vi.fn().mockResolvedValue({
+      pk: "agents/workspace-123/agent-456",
+      sk: "agent",
+      workspaceId: "workspace-123",
+      name: "Test Agent",
+      systemPrompt: "Test Prompt",
+      provider: "openrouter",
+      createdAt: "2024-01-01T00:00:00Z",
+    });
+
+    const req = createMockRequest({
+      userRef: "users/user-123",
+      workspaceResource: "workspaces/workspace-123",
+      params: {
+        workspaceId: "workspace-123",
+        agentId: "agent-456",
+      },
+      body: { knowledgeFolderPaths: ["hr/../finance"] },
+    });
+    const next = vi.fn();
+
+    await callRouteHandler(req, createMockResponse(), next);
+
+    const error = next.mock.calls[0][0];
+    expect(
+      (error as { output?: { statusCode: number } }).output?.statusCode,
+    ).toBe(400);
+  });
+
   it("should validate modelName against pricing config", async () => {
     const mockDb = createMockDatabase();
     mockDatabase.mockResolvedValue(mockDb);
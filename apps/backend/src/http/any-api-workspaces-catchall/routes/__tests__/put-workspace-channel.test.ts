@@ -2,6 +2,11 @@ import { badRequest, forbidden, resourceGone } from "@hapi/boom";
 import express from "express";
 import { describe, it, expect, vi, beforeEach } from "vitest";
 
+import {
+  assertSystemSenderRecipients,
+  parseEmailChannelConfig,
+} from "../../../../utils/emailChannel";
+import { parseHttpChannelConfig } from "../../../../utils/httpChannel";
 import {
   createMockRequest,
   createMockResponse,
@@ -9,9 +14,10 @@ import {
 } from "../../../utils/__tests__/test-helpers";
 
 // Mock dependencies using vi.hoisted to ensure they're set up before imports
-const { mockDatabase } = vi.hoisted(() => {
+const { mockDatabase, mockGetUserEmailById } = vi.hoisted(() => {
   return {
     mockDatabase: vi.fn(),
+    mockGetUserEmailById: vi.fn(),
   };
 });
 
@@ -20,6 +26,10 @@ vi.mock("../../../../tables", () => ({
   database: mockDatabase,
 }));
 
+vi.mock("../../../../utils/subscriptionUtils", () => ({
+  getUserEmailById: mockGetUserEmailById,
+}));
+
 describe("PUT /api/workspaces/:workspaceId/channels/:channelId", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -86,11 +96,51 @@ describe("PUT /api/workspaces/:workspaceId/channels/:channelId", () => {
         }
 
         // Merge config if provided
-        const updatedConfig =
+        let updatedConfig =
           config !== undefined
             ? { ...channel.config, ...config }
             : channel.config;
 
+        if (channel.type === "email" && config !== undefined) {
+          try {
+            updatedConfig = parseEmailChannelConfig(updatedConfig);
+          } catch (error) {
+            throw badRequest(
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+          if (updatedConfig.sender === "workspace") {
+            const emailConnection = await db["email-connection"].get(
+              `email-connections/${workspaceId}`,
+              "connection"
+            );
+            if (!emailConnection) {
+              throw badRequest(
+                'Workspace has no email connection. Connect an email account or use config.sender "system"'
+              );
+            }
+          } else {
+            try {
+              await assertSystemSenderRecipients(
+                workspaceId,
+                updatedConfig.recipients
+              );
+            } catch (error) {
+              throw badRequest(
+                error instanceof Error ? error.message : String(error)
+              );
+            }
+          }
+        } else if (channel.type === "http" && config !== undefined) {
+          try {
+            updatedConfig = parseHttpChannelConfig(updatedConfig);
+          } catch (error) {
+            throw badRequest(
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+        }
+
         // Update channel
         const updated = await db["output_channel"].update({
           pk: channelPk,
@@ -359,6 +409,137 @@ describe("PUT /api/workspaces/:workspaceId/channels/:channelId", () => {
     });
   });
 
+  it("should validate the merged config of an email channel", async () => {
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+
+    const workspaceId = "workspace-123";
+    const channelId = "channel-email-1";
+    const mockChannel = {
+      pk: `output-channels/${workspaceId}/${channelId}`,
+      sk: "channel",
+      workspaceId,
+      channelId,
+      type: "email",
+      name: "Alerts",
+      config: { recipients: ["ops@example.com"], sender: "system" },
+      createdAt: "2024-01-01T00:00:00Z",
+    };
+    mockDb["output_channel"].get = vi.fn().mockResolvedValue(mockChannel);
+    const mockChannelUpdate = vi.fn().mockResolvedValue(mockChannel);
+    mockDb["output_channel"].update = mockChannelUpdate;
+    mockDb.permission.query = vi.fn().mockResolvedValue({
+      items: [{ pk: `workspaces/${workspaceId}`, sk: "users/user-456" }],
+    });
+    mockGetUserEmailById.mockResolvedValue("ops@example.com");
+
+    const validReq = createMockRequest({
+      workspaceResource: `workspaces/${workspaceId}`,
+      userRef: "users/user-456",
+      params: { workspaceId, channelId },
+      body: { config: { subjectTemplate: "{{title}} ({{date}})" } },
+    });
+    const next = vi.fn();
+    await callRouteHandler(validReq, createMockResponse(), next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(mockChannelUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        config: {
+          recipients: ["ops@example.com"],
+          sender: "system",
+          subjectTemplate: "{{title}} ({{date}})",
+        },
+      })
+    );
+
+    mockChannelUpdate.mockClear();
+    const invalidReq = createMockRequest({
+      workspaceResource: `workspaces/${workspaceId}`,
+      userRef: "users/user-456",
+      params: { workspaceId, channelId },
+      body: { config: { recipients: [] } },
+    });
+    await callRouteHandler(invalidReq, createMockResponse(), next);
+
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({
+        output: expect.objectContaining({
+          statusCode: 400,
+          payload: expect.objectContaining({
+            message:
+              "config.recipients must contain at least one email address",
+          }),
+        }),
+      })
+    );
+    expect(mockChannelUpdate).not.toHaveBeenCalled();
+  });
+
+  it("should keep the signing secret when updating an http channel", async () => {
+    const mockDb = createMockDatabase();
+    mockDatabase.mockResolvedValue(mockDb);
+
+    const workspaceId = "workspace-123";
+    const channelId = "channel-http-1";
+    const mockChannel = {
+      pk: `output-channels/${workspaceId}/${channelId}`,
+      sk: "channel",
+      workspaceId,
+      channelId,
+      type: "http",
+      name: "Webhook",
+      config: {
+        url: "https://example.com/hooks",
+        secret: "whsec_0123456789abcdef",
+      },
+      createdAt: "2024-01-01T00:00:00Z",
+    };
+    mockDb["output_channel"].get = vi.fn().mockResolvedValue(mockChannel);
+    const mockChannelUpdate = vi.fn().mockResolvedValue(mockChannel);
+    mockDb["output_channel"].update = mockChannelUpdate;
+
+    const validReq = createMockRequest({
+      workspaceResource: `workspaces/${workspaceId}`,
+      userRef: "users/user-456",
+      params: { workspaceId, channelId },
+      body: { config: { url: "https://example.com/hooks/v2" } },
+    });
+    const next = vi.fn();
+    await callRouteHandler(validReq, createMockResponse(), next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(mockChannelUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        config: {
+          url: "https://example.com/hooks/v2",
+          secret: "whsec_0123456789abcdef",
+        },
+      })
+    );
+
+    mockChannelUpdate.mockClear();
+    const invalidReq = createMockRequest({
+      workspaceResource: `workspaces/${workspaceId}`,
+      userRef: "users/user-456",
+      params: { workspaceId, channelId },
+      body: { config: { headers: { Host: "evil.example.com" } } },
+    });
+    await callRouteHandler(invalidReq, createMockResponse(), next);
+
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({
+        output: expect.objectContaining({
+          statusCode: 400,
+          payload: expect.objectContaining({
+            message: 'config.headers: "Host" is set by Helpmaton',
+          }),
+        }),
+      })
+    );
+    expect(mockChannelUpdate).not.toHaveBeenCalled();
+  });
+
   it("should update both name and config successfully", async () => {
     const mockDb = createMockDatabase();
     mockDatabase.mockResolvedValue(mockDb);
@@ -2,7 +2,13 @@ import { badRequest, forbidden, resourceGone } from "@hapi/boom";
 import { z } from "zod";
 
 import type { DatabaseSchema } from "../../../tables/schema";
+import type { AgentConfigSnapshot } from "../../../utils/agentConfigVersions";
+import {
+  normalizeDocumentTags,
+  normalizeKnowledgeFolderPaths,
+} from "../../../utils/documentScope";
 import { isImageCapableModel } from "../../../utils/pricing";
+import { parseOutputSchema } from "../../../utils/structuredOutput";
 import { buildMcpServerToolList } from "../../../utils/toolMetadata";
 import { updateAgentSchema } from "../../utils/schemas/workspaceSchemas";
 
@@ -38,6 +44,17 @@ const resolveOptionalField = <T>(
   return incoming;
 };
 
+const resolveKnowledgeFolderPaths = (
+  incoming: UpdateAgentBody["knowledgeFolderPaths"],
+): string[] | null | undefined =>
+  // A scope covering the whole workspace is stored as no scope
+  incoming ? (normalizeKnowledgeFolderPaths(incoming) ?? null) : incoming;
+
+const resolveKnowledgeTags = (
+  incoming: UpdateAgentBody["knowledgeTags"],
+): string[] | null | undefined =>
+  incoming ? (normalizeDocumentTags(incoming) ?? null) : incoming;
+
 export async function getAgentOrThrow(params: {
   db: Database;
   workspaceId: string;
@@ -249,6 +266,80 @@ export async function cleanEnabledMcpServerIds(params: {
   return undefined;
 }
 
+/**
+ * Drops references of a restored configuration to MCP servers, agents and
+ * channels deleted since the version was saved. A restored delegation list
+ * that would now form a cycle is rejected.
+ */
+export async function cleanRestoredAgentReferences(params: {
+  db: Database;
+  workspaceId: string;
+  agentId: string;
+  config: AgentConfigSnapshot;
+}): Promise<AgentConfigSnapshot> {
+  const { db, workspaceId, agentId } = params;
+  const config = { ...params.config };
+
+  if (Array.isArray(config.enabledMcpServerIds)) {
+    const serverIds = await cleanEnabledMcpServerIds({
+      db,
+      workspaceId,
+      enabledMcpServerIds: undefined,
+      existingEnabledMcpServerIds: config.enabledMcpServerIds as string[],
+    });
+    config.enabledMcpServerIds = serverIds ?? [];
+    if (config.enabledMcpServerToolNames) {
+      config.enabledMcpServerToolNames = Object.fromEntries(
+        Object.entries(
+          config.enabledMcpServerToolNames as Record<string, string[]>
+        ).filter(([serverId]) => serverIds?.includes(serverId))
+      );
+    }
+    const toolApproval = config.toolApproval as
+      | { mcpServerToolNames?: Record<string, string[]> }
+      | undefined;
+    if (toolApproval?.mcpServerToolNames) {
+      config.toolApproval = {
+        ...toolApproval,
+        mcpServerToolNames: Object.fromEntries(
+          Object.entries(toolApproval.mcpServerToolNames).filter(([serverId]) =>
+            serverIds?.includes(serverId)
+          )
+        ),
+      };
+    }
+  }
+
+  if (Array.isArray(config.delegatableAgentIds)) {
+    const delegatableAgentIds: string[] = [];
+    for (const id of config.delegatableAgentIds as string[]) {
+      const target = await db.agent.get(`agents/${workspaceId}/${id}`, "agent");
+      if (id !== agentId && target?.workspaceId === workspaceId) {
+        delegatableAgentIds.push(id);
+      }
+    }
+    await validateDelegatableAgentIds({
+      db,
+      workspaceId,
+      agentId,
+      delegatableAgentIds,
+    });
+    config.delegatableAgentIds = delegatableAgentIds;
+  }
+
+  if (typeof config.notificationChannelId === "string") {
+    const channel = await db.output_channel.get(
+      `output-channels/${workspaceId}/${config.notificationChannelId}`,
+      "channel"
+    );
+    if (channel?.workspaceId !== workspaceId) {
+      delete config.notificationChannelId;
+    }
+  }
+
+  return config;
+}
+
 export async function cleanEnabledMcpServerToolNames(params: {
   db: Database;
   workspaceId: string;
@@ -469,6 +560,21 @@ export function validateKnowledgeInjectionSources(params: {
   }
 }
 
+export function validateKnowledgeFolderPaths(
+  knowledgeFolderPaths: UpdateAgentBody["knowledgeFolderPaths"],
+): void {
+  if (!knowledgeFolderPaths) {
+    return;
+  }
+  try {
+    normalizeKnowledgeFolderPaths(knowledgeFolderPaths);
+  } catch (error) {
+    throw badRequest(
+      error instanceof Error ? error.message : "Invalid knowledgeFolderPaths",
+    );
+  }
+}
+
 export function validateModelTuning(params: {
   temperature: UpdateAgentBody["temperature"];
   topP: UpdateAgentBody["topP"];
@@ -536,6 +642,21 @@ export function validateModelTuning(params: {
   }
 }
 
+export function validateOutputSchema(
+  outputSchema: UpdateAgentBody["outputSchema"],
+): void {
+  if (outputSchema === undefined || outputSchema === null) {
+    return;
+  }
+  try {
+    parseOutputSchema(outputSchema);
+  } catch (error) {
+    throw badRequest(
+      error instanceof Error ? error.message : "Invalid outputSchema",
+    );
+  }
+}
+
 export async function validateModelName(params: {
   modelName: UpdateAgentBody["modelName"];
   getModelPricing?: (provider: string, model: string) => unknown | null;
@@ -560,6 +681,71 @@ export async function validateModelName(params: {
   return trimmed;
 }
 
+/**
+ * Validates the fallback models of an agent or eval judge. Returns the trimmed
+ * list without duplicates or the primary model, null to clear it, or undefined
+ * when unchanged.
+ */
+export async function validateFallbackModelNames(params: {
+  fallbackModelNames: string[] | null | undefined;
+  modelName?: string | null;
+  getModelPricing?: (provider: string, model: string) => unknown | null;
+}): Promise<string[] | null | undefined> {
+  const { fallbackModelNames } = params;
+  if (fallbackModelNames === undefined || fallbackModelNames === null) {
+    return fallbackModelNames;
+  }
+  const resolver =
+    params.getModelPricing ??
+    (await import("../../../utils/pricing")).getModelPricing;
+  const primaryModelName = params.modelName?.trim();
+  const resolved: string[] = [];
+  for (const fallbackModelName of fallbackModelNames) {
+    const trimmed = fallbackModelName.trim();
+    if (trimmed.length === 0) {
+      throw badRequest("fallbackModelNames must contain non-empty strings");
+    }
+    if (!resolver("openrouter", trimmed)) {
+      throw badRequest(
+        `Model "${trimmed}" is not available. Please check available models at /api/models`,
+      );
+    }
+    if (trimmed !== primaryModelName && !resolved.includes(trimmed)) {
+      resolved.push(trimmed);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Validates the tool approval policy of an agent. MCP server tool names are
+ * checked like enabledMcpServerToolNames. Returns the policy without duplicate
+ * tool names, null to clear it, or undefined when unchanged.
+ */
+export async function validateToolApproval(params: {
+  db: Database;
+  workspaceId: string;
+  toolApproval: UpdateAgentBody["toolApproval"];
+}): Promise<NonNullable<UpdateAgentBody["toolApproval"]> | null | undefined> {
+  const { toolApproval } = params;
+  if (toolApproval === undefined || toolApproval === null) {
+    return toolApproval;
+  }
+  const mcpServerToolNames = await cleanEnabledMcpServerToolNames({
+    db: params.db,
+    workspaceId: params.workspaceId,
+    enabledMcpServerToolNames: toolApproval.mcpServerToolNames,
+    existingEnabledMcpServerToolNames: undefined,
+  });
+  return {
+    ...toolApproval,
+    ...(toolApproval.toolNames && {
+      toolNames: Array.from(new Set(toolApproval.toolNames)),
+    }),
+    ...(mcpServerToolNames && { mcpServerToolNames }),
+  };
+}
+
 export async function validateMemoryExtractionModel(params: {
   memoryExtractionModel: UpdateAgentBody["memoryExtractionModel"];
   getModelPricing?: (provider: string, model: string) => unknown | null;
@@ -724,6 +910,8 @@ export function buildAgentUpdateParams(params: {
   resolvedSearchWebProvider: "tavily" | "jina" | undefined;
   resolvedFetchWebProvider: "tavily" | "jina" | "scrape" | undefined;
   resolvedModelName: string | undefined;
+  resolvedFallbackModelNames?: string[] | null;
+  resolvedToolApproval?: UpdateAgentBody["toolApproval"];
   resolvedMemoryExtractionModel: string | undefined;
   resolvedKnowledgeInjectionEntityExtractorModel: string | undefined;
   updatedBy: string;
@@ -753,6 +941,10 @@ export function buildAgentUpdateParams(params: {
       params.cleanedEnabledMcpServerToolNames !== undefined
         ? params.cleanedEnabledMcpServerToolNames
         : agent.enabledMcpServerToolNames,
+    toolApproval: resolveOptionalField(
+      params.resolvedToolApproval,
+      agent.toolApproval,
+    ),
     enabledSkillIds: params.cleanedEnabledSkillIds,
     enableMemorySearch:
       body.enableMemorySearch !== undefined
@@ -774,6 +966,14 @@ export function buildAgentUpdateParams(params: {
       body.enableKnowledgeInjectionFromDocuments !== undefined
         ? body.enableKnowledgeInjectionFromDocuments
         : agent.enableKnowledgeInjectionFromDocuments,
+    knowledgeFolderPaths: resolveOptionalField(
+      resolveKnowledgeFolderPaths(body.knowledgeFolderPaths),
+      agent.knowledgeFolderPaths,
+    ),
+    knowledgeTags: resolveOptionalField(
+      resolveKnowledgeTags(body.knowledgeTags),
+      agent.knowledgeTags,
+    ),
     knowledgeInjectionSnippetCount:
       body.knowledgeInjectionSnippetCount !== undefined
         ? body.knowledgeInjectionSnippetCount
@@ -838,6 +1038,10 @@ export function buildAgentUpdateParams(params: {
       body.memoryExtractionPrompt,
       agent.memoryExtractionPrompt,
     ),
+    memoryPartitionByEndUser:
+      body.memoryPartitionByEndUser !== undefined
+        ? body.memoryPartitionByEndUser
+        : agent.memoryPartitionByEndUser,
     widgetConfig: resolveOptionalField(body.widgetConfig, agent.widgetConfig),
     spendingLimits:
       body.spendingLimits !== undefined
@@ -858,6 +1062,7 @@ export function buildAgentUpdateParams(params: {
       body.maxToolRoundtrips,
       agent.maxToolRoundtrips,
     ),
+    outputSchema: resolveOptionalField(body.outputSchema, agent.outputSchema),
     provider: "openrouter",
     modelName:
       body.modelName !== undefined
@@ -865,6 +1070,10 @@ export function buildAgentUpdateParams(params: {
           ? undefined
           : params.resolvedModelName
         : agent.modelName,
+    fallbackModelNames: resolveOptionalField(
+      params.resolvedFallbackModelNames,
+      agent.fallbackModelNames,
+    ),
     avatar: resolveOptionalField(body.avatar, agent.avatar),
     suggestions: null,
     updatedBy: params.updatedBy,
@@ -886,10 +1095,12 @@ export function buildAgentResponse(params: {
     memoryExtractionEnabled: updated.memoryExtractionEnabled ?? false,
     memoryExtractionModel: updated.memoryExtractionModel ?? null,
     memoryExtractionPrompt: updated.memoryExtractionPrompt ?? null,
+    memoryPartitionByEndUser: updated.memoryPartitionByEndUser ?? false,
     notificationChannelId: updated.notificationChannelId,
     delegatableAgentIds: updated.delegatableAgentIds ?? [],
     enabledMcpServerIds: updated.enabledMcpServerIds ?? [],
     enabledMcpServerToolNames: updated.enabledMcpServerToolNames ?? undefined,
+    toolApproval: updated.toolApproval ?? null,
     enabledSkillIds: updated.enabledSkillIds ?? [],
     enableMemorySearch: updated.enableMemorySearch ?? false,
     enableSearchDocuments: updated.enableSearchDocuments ?? false,
@@ -898,6 +1109,8 @@ export function buildAgentResponse(params: {
       updated.enableKnowledgeInjectionFromMemories ?? false,
     enableKnowledgeInjectionFromDocuments:
       updated.enableKnowledgeInjectionFromDocuments ?? true,
+    knowledgeFolderPaths: updated.knowledgeFolderPaths ?? null,
+    knowledgeTags: updated.knowledgeTags ?? null,
     knowledgeInjectionSnippetCount:
       updated.knowledgeInjectionSnippetCount ?? undefined,
     knowledgeInjectionMinSimilarity:
@@ -921,8 +1134,10 @@ export function buildAgentResponse(params: {
     maxOutputTokens: updated.maxOutputTokens ?? null,
     stopSequences: updated.stopSequences ?? null,
     maxToolRoundtrips: updated.maxToolRoundtrips ?? null,
+    outputSchema: updated.outputSchema ?? null,
     provider: updated.provider,
     modelName: updated.modelName ?? null,
+    fallbackModelNames: updated.fallbackModelNames ?? [],
     avatar: updated.avatar ?? null,
     widgetConfig: updated.widgetConfig ?? undefined,
     suggestions: updated.suggestions
@@ -0,0 +1,93 @@
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
+import { getEvalDatasetOrThrow } from "../../../utils/evalDataset";
+import { trackBusinessEvent } from "../../../utils/tracking";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/eval-datasets/{datasetId}:
+ *   delete:
+ *     summary: Delete an eval dataset
+ *     description: Deletes an offline eval dataset. Its past runs are kept until they expire.
+ *     tags:
+ *       - Agents
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: datasetId
+ *         in: path
+ *         required: true
+ *         description: Dataset ID
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Eval dataset deleted
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       410:
+ *         description: Dataset not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerDeleteAgentEvalDataset = (app: express.Application) => {
+  app.delete(
+    "/api/workspaces/:workspaceId/agents/:agentId/eval-datasets/:datasetId",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.WRITE),
+    asyncHandler(async (req, res) => {
+      const db = await database();
+      const { workspaceId, agentId, datasetId } = req.params;
+      const dataset = await getEvalDatasetOrThrow(
+        db,
+        workspaceId,
+        agentId,
+        datasetId
+      );
+      await db["agent-eval-dataset"].delete(dataset.pk, dataset.sk);
+
+      await recordAuditEvent(req, workspaceId, {
+        action: "deleted",
+        resourceType: "eval-dataset",
+        resourceId: datasetId,
+        resourceName: dataset.name,
+        agentId,
+      });
+
+      trackBusinessEvent(
+        "agent_eval_dataset",
+        "deleted",
+        {
+          workspace_id: workspaceId,
+          agent_id: agentId,
+          dataset_id: datasetId,
+        },
+        req
+      );
+
+      res.status(204).send();
+    })
+  );
+};
@@ -3,6 +3,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
 /**
@@ -81,6 +82,14 @@ export const registerDeleteAgentEvalJudge = (app: express.Application) => {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         await (db as any)["agent-eval-judge"].delete(judgePk, "judge");
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "deleted",
+          resourceType: "eval-judge",
+          resourceId: judgeId,
+          resourceName: judge.name,
+          agentId,
+        });
+
         res.status(204).send();
       } catch (error) {
         handleError(error, next);
@@ -3,6 +3,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
 /**
@@ -94,6 +95,14 @@ export const registerDeleteAgentKey = (app: express.Application) => {
         // Delete key
         await db["agent-key"].delete(agentKeyPk, agentKeySk);
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "deleted",
+          resourceType: "agent-key",
+          resourceId: keyId,
+          resourceName: agentKey.name,
+          agentId,
+        });
+
         res.status(204).send();
       } catch (error) {
         handleError(
@@ -0,0 +1,117 @@
+import { resourceGone } from "@hapi/boom";
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
+import { deleteGraphFact } from "../../../utils/memory/manualMemory";
+import { resolveMemoryPartitionParam } from "../../../utils/memory/memoryPartitions";
+import { trackBusinessEvent } from "../../../utils/tracking";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/knowledge-graph/facts/{factId}:
+ *   delete:
+ *     summary: Delete a knowledge graph fact
+ *     description: Removes a fact from the agent's knowledge graph
+ *     tags:
+ *       - Agents
+ *       - Memory
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: factId
+ *         in: path
+ *         required: true
+ *         description: Fact ID
+ *         schema:
+ *           type: string
+ *       - name: endUserId
+ *         in: query
+ *         description: End user whose knowledge graph contains the fact
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Fact deleted
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Fact not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       410:
+ *         description: Agent not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerDeleteAgentKnowledgeGraphFact = (
+  app: express.Application
+) => {
+  app.delete(
+    "/api/workspaces/:workspaceId/agents/:agentId/knowledge-graph/facts/:factId",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.WRITE),
+    asyncHandler(async (req, res) => {
+      const db = await database();
+      const { workspaceId, agentId, factId } = req.params;
+
+      const agent = await db.agent.get(`agents/${workspaceId}/${agentId}`, "agent");
+      if (!agent) {
+        throw resourceGone("Agent not found");
+      }
+
+      const partitionKey = await resolveMemoryPartitionParam(db, {
+        workspaceId,
+        agentId,
+        endUserId: req.query.endUserId,
+      });
+
+      await deleteGraphFact(
+        { workspaceId, agentId, ...(partitionKey && { partitionKey }) },
+        factId
+      );
+
+      await recordAuditEvent(req, workspaceId, {
+        action: "deleted",
+        resourceType: "knowledge-graph-fact",
+        resourceId: factId,
+        agentId,
+        ...(partitionKey && { details: { partitionKey } }),
+      });
+
+      trackBusinessEvent(
+        "agent_knowledge_graph",
+        "fact_deleted",
+        {
+          workspace_id: workspaceId,
+          agent_id: agentId,
+        },
+        req
+      );
+
+      res.status(204).send();
+    })
+  );
+};
@@ -0,0 +1,132 @@
+import { resourceGone } from "@hapi/boom";
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
+import {
+  deleteMemoryRecord,
+  parseMemoryGrainParam,
+} from "../../../utils/memory/manualMemory";
+import { resolveMemoryPartitionParam } from "../../../utils/memory/memoryPartitions";
+import { trackBusinessEvent } from "../../../utils/tracking";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/memory/{recordId}:
+ *   delete:
+ *     summary: Delete an agent memory record
+ *     description: Deletes a memory record through the memory write queue, so it disappears from memory search shortly after the request returns.
+ *     tags:
+ *       - Agents
+ *       - Memory
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: recordId
+ *         in: path
+ *         required: true
+ *         description: Memory record ID
+ *         schema:
+ *           type: string
+ *       - name: grain
+ *         in: query
+ *         description: Temporal grain of the record
+ *         schema:
+ *           type: string
+ *           enum: [working, daily, weekly, monthly, quarterly, yearly]
+ *           default: working
+ *       - name: endUserId
+ *         in: query
+ *         description: End user whose memory contains the record
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Memory record deletion queued
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Memory record not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       410:
+ *         description: Agent not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerDeleteAgentMemoryRecord = (app: express.Application) => {
+  app.delete(
+    "/api/workspaces/:workspaceId/agents/:agentId/memory/:recordId",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.WRITE),
+    asyncHandler(async (req, res) => {
+      const grain = parseMemoryGrainParam(req.query.grain);
+      const db = await database();
+      const { workspaceId, agentId, recordId } = req.params;
+
+      const agent = await db.agent.get(`agents/${workspaceId}/${agentId}`, "agent");
+      if (!agent) {
+        throw resourceGone("Agent not found");
+      }
+
+      const partitionKey = await resolveMemoryPartitionParam(db, {
+        workspaceId,
+        agentId,
+        endUserId: req.query.endUserId,
+      });
+
+      await deleteMemoryRecord({
+        workspaceId,
+        agentId,
+        grain,
+        recordId,
+        ...(partitionKey && { partitionKey }),
+      });
+
+      await recordAuditEvent(req, workspaceId, {
+        action: "deleted",
+        resourceType: "memory-record",
+        resourceId: recordId,
+        agentId,
+        details: { grain, ...(partitionKey && { partitionKey }) },
+      });
+
+      trackBusinessEvent(
+        "agent_memory",
+        "record_deleted",
+        {
+          workspace_id: workspaceId,
+          agent_id: agentId,
+          grain,
+        },
+        req
+      );
+
+      res.status(204).send();
+    })
+  );
+};
@@ -4,6 +4,7 @@ import express from "express";
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
 import { buildAgentSchedulePk } from "../../../utils/agentSchedule";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { trackBusinessEvent } from "../../../utils/tracking";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
@@ -91,6 +92,14 @@ export const registerDeleteAgentSchedule = (app: express.Application) => {
 
         await db["agent-schedule"].delete(schedulePk, "schedule");
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "deleted",
+          resourceType: "schedule",
+          resourceId: scheduleId,
+          resourceName: schedule.name,
+          agentId,
+        });
+
         trackBusinessEvent(
           "agent_schedule",
           "deleted",
@@ -4,6 +4,7 @@ import express from "express";
 import { database } from "../../../tables";
 import type { AgentRecord } from "../../../tables/schema";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { removeSpendingLimit } from "../../../utils/spendingLimitsManagement";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
@@ -100,6 +101,13 @@ export const registerDeleteAgentSpendingLimits = (app: express.Application) => {
           agentId
         )) as AgentRecord;
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "deleted",
+          resourceType: "spending-limit",
+          resourceId: timeFrame,
+          agentId,
+        });
+
         res.json({
           id: agentId,
           name: updated.name,
@@ -3,6 +3,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
 /**
@@ -67,6 +68,13 @@ export const registerDeleteEmailConnection = (app: express.Application) => {
         // Delete connection
         await db["email-connection"].delete(pk, "connection");
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "deleted",
+          resourceType: "email-connection",
+          resourceId: connection.type,
+          resourceName: connection.name,
+        });
+
         res.status(204).send();
       } catch (error) {
         handleError(
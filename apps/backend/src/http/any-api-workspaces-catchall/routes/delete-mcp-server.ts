@@ -3,6 +3,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { trackBusinessEvent } from "../../../utils/tracking";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
@@ -102,6 +103,13 @@ export const registerDeleteMcpServer = (app: express.Application) => {
         // Delete server
         await db["mcp-server"].delete(pk, "server");
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "deleted",
+          resourceType: "mcp-server",
+          resourceId: serverId,
+          resourceName: server.name,
+        });
+
         // Track MCP server deletion
         trackBusinessEvent(
           "mcp_server",
@@ -0,0 +1,124 @@
+import { badRequest, conflict, resourceGone } from "@hapi/boom";
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
+import {
+  findModelEndpointUsage,
+  getModelEndpointPk,
+  getWorkspaceModelEndpoint,
+  MODEL_ENDPOINT_SK,
+} from "../../../utils/modelEndpoints";
+import { trackBusinessEvent } from "../../../utils/tracking";
+import { handleError, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/model-endpoints/{endpointId}:
+ *   delete:
+ *     summary: Delete custom model endpoint
+ *     description: Deletes a model endpoint. Cannot delete if an agent or eval judge uses one of its models.
+ *     tags:
+ *       - Model Endpoints
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: endpointId
+ *         in: path
+ *         required: true
+ *         description: Model endpoint ID
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Model endpoint deleted successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       409:
+ *         description: A model of the endpoint is used by an agent or eval judge
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       410:
+ *         description: Model endpoint not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerDeleteModelEndpoint = (app: express.Application) => {
+  app.delete(
+    "/api/workspaces/:workspaceId/model-endpoints/:endpointId",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.WRITE),
+    async (req, res, next) => {
+      try {
+        if (!req.workspaceResource) {
+          throw badRequest("Workspace resource not found");
+        }
+        const workspaceId = req.params.workspaceId;
+        const endpointId = req.params.endpointId;
+
+        const endpoint = await getWorkspaceModelEndpoint(
+          workspaceId,
+          endpointId
+        );
+        if (!endpoint) {
+          throw resourceGone("Model endpoint not found");
+        }
+
+        const usedBy = await findModelEndpointUsage(workspaceId, endpointId);
+        if (usedBy) {
+          throw conflict(
+            `Cannot delete model endpoint: ${usedBy} uses one of its models. Please select another model there first.`
+          );
+        }
+
+        const db = await database();
+        await db["workspace-model-endpoint"].delete(
+          getModelEndpointPk(workspaceId, endpointId),
+          MODEL_ENDPOINT_SK
+        );
+
+        await recordAuditEvent(req, workspaceId, {
+          action: "deleted",
+          resourceType: "model-endpoint",
+          resourceId: endpointId,
+          resourceName: endpoint.name,
+        });
+
+        trackBusinessEvent(
+          "model_endpoint",
+          "deleted",
+          {
+            workspace_id: workspaceId,
+            endpoint_id: endpointId,
+          },
+          req
+        );
+
+        res.status(204).send();
+      } catch (error) {
+        handleError(
+          error,
+          next,
+          "DELETE /api/workspaces/:workspaceId/model-endpoints/:endpointId"
+        );
+      }
+    }
+  );
+};
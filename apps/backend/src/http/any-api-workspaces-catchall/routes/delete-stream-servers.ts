@@ -2,6 +2,7 @@ import { badRequest } from "@hapi/boom";
 import express from "express";
 
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { asyncHandler, requireAuth, requirePermission } from "../middleware";
 
 /**
@@ -58,6 +59,13 @@ export const registerDeleteStreamServers = (app: express.Application) => {
 
       await deleteStreamServerConfig(workspaceId, agentId);
 
+      await recordAuditEvent(req, workspaceId, {
+        action: "deleted",
+        resourceType: "stream-server",
+        resourceId: agentId,
+        agentId,
+      });
+
       res.status(204).send();
     })
   );
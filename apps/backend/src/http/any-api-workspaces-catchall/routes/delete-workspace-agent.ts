@@ -4,6 +4,7 @@ import express from "express";
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
 import { removeAgentResources } from "../../../utils/agentCleanup";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { trackBusinessEvent } from "../../../utils/tracking";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
@@ -75,6 +76,13 @@ export const registerDeleteWorkspaceAgent = (app: express.Application) => {
           agentId,
         });
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "deleted",
+          resourceType: "agent",
+          resourceId: agentId,
+          resourceName: agent.name,
+        });
+
         // Track agent deletion
         trackBusinessEvent(
           "agent",
@@ -3,6 +3,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
 import {
@@ -89,6 +90,12 @@ export const registerDeleteWorkspaceApiKey = (app: express.Application) => {
           // Key doesn't exist, that's fine
         }
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "deleted",
+          resourceType: "workspace-api-key",
+          resourceId: provider,
+        });
+
         res.status(204).send();
       } catch (error) {
         handleError(error, next, "DELETE /api/workspaces/:workspaceId/api-key");
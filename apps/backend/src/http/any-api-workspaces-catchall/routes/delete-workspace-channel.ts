@@ -3,6 +3,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { trackBusinessEvent } from "../../../utils/tracking";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
@@ -95,6 +96,13 @@ export const registerDeleteWorkspaceChannel = (app: express.Application) => {
         // Delete channel
         await db["output_channel"].delete(channelPk, "channel");
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "deleted",
+          resourceType: "channel",
+          resourceId: channelId,
+          resourceName: channel.name,
+        });
+
         // Track channel deletion
         trackBusinessEvent(
           "channel",
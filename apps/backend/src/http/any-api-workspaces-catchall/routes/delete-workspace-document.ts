@@ -3,8 +3,9 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { deleteDocumentSnippets } from "../../../utils/documentIndexing";
-import { deleteDocument } from "../../../utils/s3";
+import { deleteDocument, deleteS3Object } from "../../../utils/s3";
 import { Sentry, ensureError } from "../../../utils/sentry";
 import { trackBusinessEvent } from "../../../utils/tracking";
 import { asyncHandler, requireAuth, requirePermission } from "../middleware";
@@ -98,11 +99,21 @@ export const registerDeleteWorkspaceDocument = (app: express.Application) => {
 
       // Delete from S3
       await deleteDocument(workspaceId, documentId, document.s3Key);
+      if (document.extractedS3Key) {
+        await deleteS3Object(document.extractedS3Key);
+      }
 
       // Delete from database
       await db["workspace-document"].delete(documentPk, "document");
 
       // Track document deletion
+      await recordAuditEvent(req, workspaceId, {
+        action: "deleted",
+        resourceType: "document",
+        resourceId: documentId,
+        resourceName: document.name,
+      });
+
       trackBusinessEvent(
         "document",
         "deleted",
@@ -3,7 +3,9 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { deleteDiscordCommand } from "../../../utils/discordApi";
+import { releaseTelegramWebhook } from "../../../utils/telegramApi";
 import { trackBusinessEvent } from "../../../utils/tracking";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
@@ -74,8 +76,36 @@ export const registerDeleteWorkspaceIntegration = (app: express.Application) =>
           }
         }
 
+        if (integration.platform === "telegram") {
+          const config = integration.config as { botToken?: string };
+          if (config.botToken) {
+            try {
+              await releaseTelegramWebhook(
+                config.botToken,
+                integration.webhookUrl
+              );
+            } catch (error) {
+              // Log but don't fail - the bot token might have been revoked
+              console.warn(
+                `Failed to delete Telegram webhook during integration deletion: ${
+                  error instanceof Error ? error.message : String(error)
+                }`
+              );
+            }
+          }
+        }
+
         await db["bot-integration"].delete(integrationPk, "integration");
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "deleted",
+          resourceType: "integration",
+          resourceId: integrationId,
+          resourceName: integration.name,
+          agentId: integration.agentId,
+          details: { platform: integration.platform },
+        });
+
         // Track integration deletion
         trackBusinessEvent(
           "integration",
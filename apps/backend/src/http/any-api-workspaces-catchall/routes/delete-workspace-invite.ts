@@ -1,6 +1,7 @@
 import express from "express";
 
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { deleteWorkspaceInvite } from "../../../utils/workspaceInvites";
 import { asyncHandler, requireAuth, requirePermission } from "../middleware";
 
@@ -47,6 +48,11 @@ export const registerDeleteWorkspaceInvite = (app: express.Application) => {
     asyncHandler(async (req, res) => {
       const { workspaceId, inviteId } = req.params;
       await deleteWorkspaceInvite(workspaceId, inviteId);
+      await recordAuditEvent(req, workspaceId, {
+        action: "deleted",
+        resourceType: "invite",
+        resourceId: inviteId,
+      });
       res.status(204).send();
     })
   );
@@ -3,6 +3,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { userRef } from "../../utils/session";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
@@ -101,6 +102,13 @@ export const registerDeleteWorkspaceMember = (app: express.Application) => {
         // Delete permission
         await db.permission.delete(workspaceResource, memberUserRef);
 
+        await recordAuditEvent(req, req.params.workspaceId, {
+          action: "deleted",
+          resourceType: "member",
+          resourceId: userId,
+          details: { permissionLevel: permission.type },
+        });
+
         res.status(204).send();
       } catch (error) {
         handleError(
@@ -4,6 +4,7 @@ import express from "express";
 import { database } from "../../../tables";
 import type { WorkspaceRecord } from "../../../tables/schema";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { removeSpendingLimit } from "../../../utils/spendingLimitsManagement";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
@@ -80,6 +81,12 @@ export const registerDeleteWorkspaceSpendingLimits = (
           timeFrame as "daily" | "weekly" | "monthly"
         )) as WorkspaceRecord;
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "deleted",
+          resourceType: "spending-limit",
+          resourceId: timeFrame,
+        });
+
         res.json({
           id: updated.pk.replace("workspaces/", ""),
           name: updated.name,
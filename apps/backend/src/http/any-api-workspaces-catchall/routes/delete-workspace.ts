@@ -6,7 +6,8 @@ import { PERMISSION_LEVELS } from "../../../tables/schema";
 import { removeAgentResources } from "../../../utils/agentCleanup";
 import { deleteDiscordCommand } from "../../../utils/discordApi";
 import { deleteDocumentSnippets } from "../../../utils/documentIndexing";
-import { deleteDocument } from "../../../utils/s3";
+import { deleteDocument, deleteS3Object } from "../../../utils/s3";
+import { releaseTelegramWebhook } from "../../../utils/telegramApi";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
 /**
@@ -145,6 +146,9 @@ export const registerDeleteWorkspace = (app: express.Application) => {
                 documentId,
                 document.s3Key,
               );
+              if (document.extractedS3Key) {
+                await deleteS3Object(document.extractedS3Key);
+              }
             } catch (error) {
               const err =
                 error instanceof Error ? error : new Error(String(error));
@@ -294,6 +298,22 @@ export const registerDeleteWorkspace = (app: express.Application) => {
                 }
               }
             }
+            if (integration.platform === "telegram") {
+              const config = integration.config as { botToken?: string };
+              if (config.botToken) {
+                try {
+                  await releaseTelegramWebhook(
+                    config.botToken,
+                    integration.webhookUrl,
+                  );
+                } catch (error) {
+                  console.warn(
+                    `[Workspace Removal] Failed to delete Telegram webhook for integration ${integration.pk}:`,
+                    error instanceof Error ? error.message : String(error),
+                  );
+                }
+              }
+            }
             await db["bot-integration"].delete(integration.pk, integration.sk);
           }
         });
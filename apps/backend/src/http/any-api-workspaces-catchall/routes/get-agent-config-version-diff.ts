@@ -0,0 +1,146 @@
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import {
+  diffAgentConfigs,
+  getAgentConfigSnapshot,
+  getAgentConfigVersionOrThrow,
+  parseConfigVersionParam,
+  type AgentConfigSnapshot,
+} from "../../../utils/agentConfigVersions";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+import { getAgentOrThrow } from "./agentUpdate";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/versions/{version}/diff:
+ *   get:
+ *     summary: Compare agent configuration versions
+ *     description: Returns the configuration fields that differ between a version and another version (by default the previous one) or the current configuration. With compareTo=current, the changes are what restoring the version would change.
+ *     tags:
+ *       - Agents
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: version
+ *         in: path
+ *         required: true
+ *         description: Configuration version number
+ *         schema:
+ *           type: integer
+ *       - name: compareTo
+ *         in: query
+ *         required: false
+ *         description: Version number to compare with, or "current" for the current configuration (default previous version)
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Configuration differences (before = compareTo, after = version)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 version:
+ *                   type: integer
+ *                 compareTo:
+ *                   oneOf:
+ *                     - type: integer
+ *                     - type: string
+ *                       enum: [current]
+ *                   nullable: true
+ *                   description: Null when comparing version 1 with an empty configuration
+ *                 changes:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       field:
+ *                         type: string
+ *                       before:
+ *                         nullable: true
+ *                       after:
+ *                         nullable: true
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       410:
+ *         description: Agent or version not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerGetAgentConfigVersionDiff = (app: express.Application) => {
+  app.get(
+    "/api/workspaces/:workspaceId/agents/:agentId/versions/:version/diff",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.READ),
+    asyncHandler(async (req, res) => {
+      const db = await database();
+      const { workspaceId, agentId } = req.params;
+      const configVersion = parseConfigVersionParam(
+        req.params.version,
+        "version"
+      );
+      const agent = await getAgentOrThrow({ db, workspaceId, agentId });
+      const record = await getAgentConfigVersionOrThrow(
+        db,
+        workspaceId,
+        agentId,
+        configVersion
+      );
+
+      let compareTo: number | "current" | null;
+      let before: AgentConfigSnapshot;
+      if (req.query.compareTo === "current") {
+        compareTo = "current";
+        before = getAgentConfigSnapshot(agent);
+      } else {
+        compareTo =
+          req.query.compareTo !== undefined
+            ? parseConfigVersionParam(req.query.compareTo, "compareTo")
+            : configVersion > 1
+              ? configVersion - 1
+              : null;
+        before =
+          compareTo === null
+            ? {}
+            : (
+                await getAgentConfigVersionOrThrow(
+                  db,
+                  workspaceId,
+                  agentId,
+                  compareTo
+                )
+              ).config;
+      }
+
+      res.json({
+        version: configVersion,
+        compareTo,
+        changes: diffAgentConfigs(before, record.config),
+      });
+    })
+  );
+};
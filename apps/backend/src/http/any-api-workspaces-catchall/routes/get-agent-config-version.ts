@@ -0,0 +1,95 @@
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import {
+  getAgentConfigVersionOrThrow,
+  parseConfigVersionParam,
+  toAgentConfigVersionResponse,
+} from "../../../utils/agentConfigVersions";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+import { getAgentOrThrow } from "./agentUpdate";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/versions/{version}:
+ *   get:
+ *     summary: Get an agent configuration version
+ *     description: Returns a configuration version of an agent including the full configuration snapshot
+ *     tags:
+ *       - Agents
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: version
+ *         in: path
+ *         required: true
+ *         description: Configuration version number
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Agent configuration version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/AgentConfigVersion'
+ *                 - type: object
+ *                   properties:
+ *                     config:
+ *                       type: object
+ *                       additionalProperties: true
+ *                       description: Agent configuration fields at this version
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       410:
+ *         description: Agent or version not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerGetAgentConfigVersion = (app: express.Application) => {
+  app.get(
+    "/api/workspaces/:workspaceId/agents/:agentId/versions/:version",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.READ),
+    asyncHandler(async (req, res) => {
+      const db = await database();
+      const { workspaceId, agentId } = req.params;
+      const configVersion = parseConfigVersionParam(
+        req.params.version,
+        "version"
+      );
+      await getAgentOrThrow({ db, workspaceId, agentId });
+      const record = await getAgentConfigVersionOrThrow(
+        db,
+        workspaceId,
+        agentId,
+        configVersion
+      );
+
+      res.json(toAgentConfigVersionResponse(record, { includeConfig: true }));
+    })
+  );
+};
@@ -0,0 +1,114 @@
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import {
+  getAgentConfigVersionPk,
+  toAgentConfigVersionResponse,
+} from "../../../utils/agentConfigVersions";
+import { parseLimitParam } from "../../utils/paginationParams";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+import { getAgentOrThrow } from "./agentUpdate";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/versions:
+ *   get:
+ *     summary: List agent configuration versions
+ *     description: Returns the configuration history of an agent, most recent first. Every configuration change (from the API, the configuration assistant or a restore) creates a version. Agents not changed since versioning was introduced have no versions yet.
+ *     tags:
+ *       - Agents
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         description: Maximum number of versions to return
+ *         schema:
+ *           type: integer
+ *       - name: cursor
+ *         in: query
+ *         required: false
+ *         description: Pagination cursor from the previous response
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Agent configuration versions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 currentVersion:
+ *                   type: integer
+ *                   description: Configuration version the agent currently runs
+ *                 versions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AgentConfigVersion'
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       410:
+ *         description: Agent not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerGetAgentConfigVersions = (app: express.Application) => {
+  app.get(
+    "/api/workspaces/:workspaceId/agents/:agentId/versions",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.READ),
+    asyncHandler(async (req, res) => {
+      const db = await database();
+      const { workspaceId, agentId } = req.params;
+      const agent = await getAgentOrThrow({ db, workspaceId, agentId });
+
+      const limit = parseLimitParam(req.query.limit);
+      const cursor = req.query.cursor as string | undefined;
+      const result = await db["agent-config-version"].queryPaginated(
+        {
+          KeyConditionExpression: "pk = :pk",
+          ExpressionAttributeValues: {
+            ":pk": getAgentConfigVersionPk(workspaceId, agentId),
+          },
+          ScanIndexForward: false,
+        },
+        { limit, cursor: cursor ?? null }
+      );
+
+      res.json({
+        currentVersion: agent.configVersion ?? 1,
+        versions: result.items.map((record) =>
+          toAgentConfigVersionResponse(record)
+        ),
+        nextCursor: result.nextCursor ?? undefined,
+      });
+    })
+  );
+};
@@ -79,6 +79,10 @@ import { handleError, requireAuth, requirePermission } from "../middleware";
  *                   costUsd:
  *                     type: number
  *                     nullable: true
+ *                   modelName:
+ *                     type: string
+ *                     nullable: true
+ *                     description: Model that produced the evaluation (a fallback model when the judge's model failed)
  *                   evaluatedAt:
  *                     type: string
  *                     format: date-time
@@ -127,6 +131,7 @@ export const registerGetAgentConversationEvalResults = (app: express.Application
           criticalFailureDetected?: boolean;
           reasoningTrace: string;
           costUsd?: number;
+          modelName?: string;
           evaluatedAt: string;
           status?: "completed" | "failed";
           errorMessage?: string;
@@ -154,6 +159,7 @@ export const registerGetAgentConversationEvalResults = (app: express.Application
             criticalFailureDetected?: boolean;
             reasoningTrace: string;
             costUsd?: number;
+            modelName?: string;
             evaluatedAt: string;
             status?: "completed" | "failed";
             errorMessage?: string;
@@ -188,6 +194,7 @@ export const registerGetAgentConversationEvalResults = (app: express.Application
                 typeof result.costUsd === "number"
                   ? result.costUsd / 1_000_000_000
                   : null,
+              modelName: result.modelName ?? null,
               evaluatedAt: result.evaluatedAt,
             };
           })
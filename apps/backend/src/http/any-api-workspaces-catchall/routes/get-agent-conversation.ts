@@ -60,6 +60,58 @@ import { asyncHandler, requireAuth, requirePermission } from "../middleware";
  *                 lastMessageAt:
  *                   type: string
  *                   format: date-time
+ *                 agentConfigVersions:
+ *                   type: array
+ *                   description: Agent configuration versions that produced replies in this conversation (missing for conversations logged before versioning)
+ *                   items:
+ *                     type: integer
+ *                 compaction:
+ *                   type: object
+ *                   nullable: true
+ *                   description: Summary of older turns sent to the model instead of them once the conversation outgrew the model's context window
+ *                   properties:
+ *                     summary:
+ *                       type: string
+ *                     summarizedMessageCount:
+ *                       type: integer
+ *                       description: Number of leading model messages the summary replaces
+ *                     fingerprint:
+ *                       type: string
+ *                     modelName:
+ *                       type: string
+ *                     updatedAt:
+ *                       type: string
+ *                       format: date-time
+ *                 compactionEvents:
+ *                   type: array
+ *                   description: Most recent compactions of this conversation
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *                       summarizedMessageCount:
+ *                         type: integer
+ *                       keptMessageCount:
+ *                         type: integer
+ *                       estimatedTokensBefore:
+ *                         type: integer
+ *                       estimatedTokensAfter:
+ *                         type: integer
+ *                       maxSafeInputTokens:
+ *                         type: integer
+ *                       modelName:
+ *                         type: string
+ *                 feedback:
+ *                   type: array
+ *                   description: End users' ratings of the agent's replies
+ *                   items:
+ *                     $ref: '#/components/schemas/ConversationFeedback'
+ *                 positiveFeedbackCount:
+ *                   type: integer
+ *                 negativeFeedbackCount:
+ *                   type: integer
  *                 delegations:
  *                   type: array
  *                   items:
@@ -147,6 +199,12 @@ export const registerGetAgentConversation = (app: express.Application) => {
         modelName: conversation.modelName ?? null,
         provider: conversation.provider ?? null,
         rerankingCostUsd: conversation.rerankingCostUsd ?? null,
+        agentConfigVersions: conversation.agentConfigVersions,
+        compaction: conversation.compaction ?? null,
+        compactionEvents: conversation.compactionEvents ?? [],
+        feedback: conversation.feedback ?? [],
+        positiveFeedbackCount: conversation.positiveFeedbackCount ?? 0,
+        negativeFeedbackCount: conversation.negativeFeedbackCount ?? 0,
       });
     }),
   );
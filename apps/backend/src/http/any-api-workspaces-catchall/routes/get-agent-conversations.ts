@@ -4,6 +4,13 @@ import express from "express";
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
 import { queryRecordsPaginated } from "../../../utils/conversationRecords";
+import {
+  hasConversationSearchFilters,
+  parseConversationSearchFilters,
+  searchConversations,
+  toConversationSummary,
+} from "../../../utils/conversationSearch";
+import { trackBusinessEvent } from "../../../utils/tracking";
 import { parseLimitParam } from "../../utils/paginationParams";
 import { asyncHandler, requireAuth, requirePermission } from "../middleware";
 
@@ -12,7 +19,7 @@ import { asyncHandler, requireAuth, requirePermission } from "../middleware";
  * /api/workspaces/{workspaceId}/agents/{agentId}/conversations:
  *   get:
  *     summary: List agent conversations
- *     description: Returns paginated list of conversations for an agent, sorted by most recent first
+ *     description: Returns paginated list of conversations for an agent, sorted by most recent first. With any search parameter, conversations are searched by message text and filters; a search page looks at up to 500 conversations, so it can hold fewer than `limit` matches while `nextCursor` is still set.
  *     tags:
  *       - Agents
  *     security:
@@ -43,6 +50,20 @@ import { asyncHandler, requireAuth, requirePermission } from "../middleware";
  *         description: Pagination cursor from previous response
  *         schema:
  *           type: string
+ *       - $ref: '#/components/parameters/ConversationSearchText'
+ *       - $ref: '#/components/parameters/ConversationTypeFilter'
+ *       - $ref: '#/components/parameters/ConversationFrom'
+ *       - $ref: '#/components/parameters/ConversationTo'
+ *       - $ref: '#/components/parameters/ConversationHasError'
+ *       - $ref: '#/components/parameters/ConversationMinCostUsd'
+ *       - $ref: '#/components/parameters/ConversationMaxCostUsd'
+ *       - $ref: '#/components/parameters/ConversationModel'
+ *       - $ref: '#/components/parameters/ConversationTool'
+ *       - $ref: '#/components/parameters/ConversationMinEvalScore'
+ *       - $ref: '#/components/parameters/ConversationMaxEvalScore'
+ *       - $ref: '#/components/parameters/ConversationCriticalFailure'
+ *       - $ref: '#/components/parameters/ConversationHasDelegations'
+ *       - $ref: '#/components/parameters/ConversationFeedback'
  *     responses:
  *       200:
  *         description: List of conversations
@@ -54,23 +75,7 @@ import { asyncHandler, requireAuth, requirePermission } from "../middleware";
  *                 conversations:
  *                   type: array
  *                   items:
- *                     type: object
- *                     properties:
- *                       id:
- *                         type: string
- *                       conversationType:
- *                         type: string
- *                       startedAt:
- *                         type: string
- *                         format: date-time
- *                       lastMessageAt:
- *                         type: string
- *                         format: date-time
- *                       messageCount:
- *                         type: integer
- *                       tokenUsage:
- *                         type: object
- *                         nullable: true
+ *                     $ref: '#/components/schemas/ConversationSummary'
  *                 nextCursor:
  *                   type: string
  *                   nullable: true
@@ -114,6 +119,36 @@ export const registerGetAgentConversations = (app: express.Application) => {
       // Parse pagination parameters
       const limit = parseLimitParam(req.query.limit);
       const cursor = req.query.cursor as string | undefined;
+      const filters = parseConversationSearchFilters(req.query);
+
+      if (hasConversationSearchFilters(filters)) {
+        const result = await searchConversations(db, {
+          workspaceId,
+          agentId,
+          filters,
+          limit,
+          cursor: cursor || null,
+        });
+
+        trackBusinessEvent(
+          "conversation",
+          "search_performed",
+          {
+            workspace_id: workspaceId,
+            agent_id: agentId,
+            has_text: !!filters.text,
+            result_count: result.items.length,
+            scanned_count: result.scannedCount,
+          },
+          req
+        );
+
+        res.json({
+          conversations: result.items.map(toConversationSummary),
+          nextCursor: result.nextCursor || undefined,
+        });
+        return;
+      }
 
       // Query conversations by agentId using the byAgentIdAndLastMessageAt GSI with pagination
       // This GSI sorts by lastMessageAt at the database level, so no in-memory sorting is needed
@@ -138,24 +173,7 @@ export const registerGetAgentConversations = (app: express.Application) => {
       });
 
       // Map conversations to response format (no sorting needed - already sorted by DB)
-      const conversations = result.items.map((c) => {
-          // Extract conversationId from pk: "conversations/{workspaceId}/{agentId}/{conversationId}"
-          const pkParts = c.pk.split("/");
-          const conversationId = pkParts[3];
-
-          return {
-            id: conversationId,
-            conversationType: c.conversationType,
-            startedAt: c.startedAt,
-            lastMessageAt: c.lastMessageAt,
-            messageCount: Array.isArray(c.messages) ? c.messages.length : 0,
-            tokenUsage: c.tokenUsage || null,
-            costUsd: c.costUsd,
-            rerankingCostUsd: c.rerankingCostUsd,
-            hasError: !!c.error,
-            totalGenerationTimeMs: c.totalGenerationTimeMs || undefined,
-          };
-        });
+      const conversations = result.items.map(toConversationSummary);
 
       res.json({
         conversations,
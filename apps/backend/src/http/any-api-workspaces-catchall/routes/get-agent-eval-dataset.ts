@@ -0,0 +1,77 @@
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import {
+  getEvalDatasetOrThrow,
+  toEvalDatasetResponse,
+} from "../../../utils/evalDataset";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/eval-datasets/{datasetId}:
+ *   get:
+ *     summary: Get an eval dataset
+ *     description: Returns an offline eval dataset including its cases
+ *     tags:
+ *       - Agents
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: datasetId
+ *         in: path
+ *         required: true
+ *         description: Dataset ID
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Eval dataset with cases
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EvalDataset'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       410:
+ *         description: Dataset not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerGetAgentEvalDataset = (app: express.Application) => {
+  app.get(
+    "/api/workspaces/:workspaceId/agents/:agentId/eval-datasets/:datasetId",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.READ),
+    asyncHandler(async (req, res) => {
+      const db = await database();
+      const { workspaceId, agentId, datasetId } = req.params;
+      const dataset = await getEvalDatasetOrThrow(
+        db,
+        workspaceId,
+        agentId,
+        datasetId
+      );
+      res.json(toEvalDatasetResponse(dataset, { includeCases: true }));
+    })
+  );
+};
@@ -0,0 +1,90 @@
+import express from "express";
+
+import { database } from "../../../tables";
+import {
+  PERMISSION_LEVELS,
+  type AgentEvalDatasetRecord,
+} from "../../../tables/schema";
+import { toEvalDatasetResponse } from "../../../utils/evalDataset";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+import { getAgentOrThrow } from "./agentUpdate";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/eval-datasets:
+ *   get:
+ *     summary: List eval datasets
+ *     description: Returns the offline eval datasets of an agent, most recent first, without their cases
+ *     tags:
+ *       - Agents
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Eval datasets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 datasets:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/EvalDataset'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       410:
+ *         description: Agent not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerGetAgentEvalDatasets = (app: express.Application) => {
+  app.get(
+    "/api/workspaces/:workspaceId/agents/:agentId/eval-datasets",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.READ),
+    asyncHandler(async (req, res) => {
+      const db = await database();
+      const { workspaceId, agentId } = req.params;
+      await getAgentOrThrow({ db, workspaceId, agentId });
+
+      const datasets: AgentEvalDatasetRecord[] = [];
+      for await (const dataset of db["agent-eval-dataset"].queryAsync({
+        IndexName: "byAgentId",
+        KeyConditionExpression: "agentId = :agentId",
+        FilterExpression: "workspaceId = :workspaceId",
+        ExpressionAttributeValues: {
+          ":agentId": agentId,
+          ":workspaceId": workspaceId,
+        },
+        ScanIndexForward: false,
+      })) {
+        datasets.push(dataset);
+      }
+
+      res.json({
+        datasets: datasets.map((dataset) => toEvalDatasetResponse(dataset)),
+      });
+    })
+  );
+};
@@ -81,6 +81,7 @@ export const registerGetAgentEvalJudge = (app: express.Application) => {
           samplingProbability: judge.samplingProbability ?? 100,
           provider: judge.provider,
           modelName: judge.modelName,
+          fallbackModelNames: judge.fallbackModelNames ?? [],
           evalPrompt: judge.evalPrompt,
           createdAt: judge.createdAt,
         });
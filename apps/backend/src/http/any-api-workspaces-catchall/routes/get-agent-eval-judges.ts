@@ -54,6 +54,10 @@ import { handleError, requireAuth, requirePermission } from "../middleware";
  *                     type: string
  *                   modelName:
  *                     type: string
+ *                   fallbackModelNames:
+ *                     type: array
+ *                     items:
+ *                       type: string
  *                   evalPrompt:
  *                     type: string
  *                   createdAt:
@@ -105,7 +109,7 @@ export const registerGetAgentEvalJudges = (app: express.Application) => {
         };
 
         const result = await (
-          db as unknown as { "agent-eval-judge": { queryPaginated: (q: typeof query, o: { limit: number; cursor: string | null }) => Promise<{ items: Array<{ judgeId: string; name: string; enabled: boolean; samplingProbability?: number; provider: string; modelName: string; evalPrompt: string; createdAt: string }>; nextCursor: string | null }> } }
+          db as unknown as { "agent-eval-judge": { queryPaginated: (q: typeof query, o: { limit: number; cursor: string | null }) => Promise<{ items: Array<{ judgeId: string; name: string; enabled: boolean; samplingProbability?: number; provider: string; modelName: string; fallbackModelNames?: string[]; evalPrompt: string; createdAt: string }>; nextCursor: string | null }> } }
         )["agent-eval-judge"].queryPaginated(query, {
           limit,
           cursor: cursor ?? null,
@@ -118,6 +122,7 @@ export const registerGetAgentEvalJudges = (app: express.Application) => {
           samplingProbability: judge.samplingProbability ?? 100,
           provider: judge.provider,
           modelName: judge.modelName,
+          fallbackModelNames: judge.fallbackModelNames ?? [],
           evalPrompt: judge.evalPrompt,
           createdAt: judge.createdAt,
         }));
@@ -239,6 +239,7 @@ export const registerGetAgentEvalResults = (app: express.Application) => {
             criticalFailureDetected?: boolean;
             reasoningTrace: string;
             costUsd?: number;
+            modelName?: string;
             evaluatedAt: string;
             status?: "completed" | "failed";
             errorMessage?: string;
@@ -274,6 +275,7 @@ export const registerGetAgentEvalResults = (app: express.Application) => {
                 typeof result.costUsd === "number"
                   ? result.costUsd / 1_000_000_000
                   : null,
+              modelName: result.modelName ?? null,
               evaluatedAt: result.evaluatedAt,
             };
           })
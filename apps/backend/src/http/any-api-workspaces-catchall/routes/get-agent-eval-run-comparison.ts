@@ -0,0 +1,139 @@
+import { badRequest } from "@hapi/boom";
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import {
+  compareEvalRunCases,
+  getEvalRunOrThrow,
+  listEvalRunCases,
+  toEvalRunResponse,
+} from "../../../utils/evalDataset";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/eval-runs/compare:
+ *   get:
+ *     summary: Compare two eval runs
+ *     description: Compares a candidate run with a base run (e.g. the current config) case by case, with the score and cost deltas of the candidate. Deltas are null when a case was not scored in both runs.
+ *     tags:
+ *       - Agents
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: baseRunId
+ *         in: query
+ *         required: true
+ *         description: Run to compare against
+ *         schema:
+ *           type: string
+ *       - name: candidateRunId
+ *         in: query
+ *         required: true
+ *         description: Run being evaluated
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Run comparison
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 base:
+ *                   $ref: '#/components/schemas/EvalRun'
+ *                 candidate:
+ *                   $ref: '#/components/schemas/EvalRun'
+ *                 cases:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       caseId:
+ *                         type: string
+ *                       input:
+ *                         type: string
+ *                       base:
+ *                         allOf:
+ *                           - $ref: '#/components/schemas/EvalRunCase'
+ *                         nullable: true
+ *                       candidate:
+ *                         allOf:
+ *                           - $ref: '#/components/schemas/EvalRunCase'
+ *                         nullable: true
+ *                       scoreDelta:
+ *                         $ref: '#/components/schemas/EvalScores'
+ *                       costDeltaUsd:
+ *                         type: integer
+ *                         nullable: true
+ *                         description: Candidate cost minus base cost in nano-dollars
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       410:
+ *         description: Run not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerGetAgentEvalRunComparison = (
+  app: express.Application
+) => {
+  app.get(
+    "/api/workspaces/:workspaceId/agents/:agentId/eval-runs/compare",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.READ),
+    asyncHandler(async (req, res) => {
+      const { workspaceId, agentId } = req.params;
+      const baseRunId = req.query.baseRunId;
+      const candidateRunId = req.query.candidateRunId;
+      if (
+        typeof baseRunId !== "string" ||
+        !baseRunId ||
+        typeof candidateRunId !== "string" ||
+        !candidateRunId
+      ) {
+        throw badRequest("baseRunId and candidateRunId are required");
+      }
+
+      const db = await database();
+      const base = await getEvalRunOrThrow(db, workspaceId, agentId, baseRunId);
+      const candidate = await getEvalRunOrThrow(
+        db,
+        workspaceId,
+        agentId,
+        candidateRunId
+      );
+      const [baseCases, candidateCases] = await Promise.all([
+        listEvalRunCases(db, base),
+        listEvalRunCases(db, candidate),
+      ]);
+
+      res.json({
+        base: toEvalRunResponse(base),
+        candidate: toEvalRunResponse(candidate),
+        cases: compareEvalRunCases(baseCases, candidateCases),
+      });
+    })
+  );
+};
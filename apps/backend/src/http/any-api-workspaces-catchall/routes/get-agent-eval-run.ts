@@ -0,0 +1,85 @@
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import {
+  getEvalRunOrThrow,
+  listEvalRunCases,
+  toEvalRunCaseResponse,
+  toEvalRunResponse,
+} from "../../../utils/evalDataset";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/eval-runs/{runId}:
+ *   get:
+ *     summary: Get an eval run
+ *     description: Returns an offline eval run with the answer, scores and cost of each case
+ *     tags:
+ *       - Agents
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: runId
+ *         in: path
+ *         required: true
+ *         description: Run ID
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Eval run with case results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/EvalRun'
+ *                 - type: object
+ *                   properties:
+ *                     cases:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/EvalRunCase'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       410:
+ *         description: Run not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerGetAgentEvalRun = (app: express.Application) => {
+  app.get(
+    "/api/workspaces/:workspaceId/agents/:agentId/eval-runs/:runId",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.READ),
+    asyncHandler(async (req, res) => {
+      const db = await database();
+      const { workspaceId, agentId, runId } = req.params;
+      const run = await getEvalRunOrThrow(db, workspaceId, agentId, runId);
+      const cases = await listEvalRunCases(db, run);
+      res.json({
+        ...toEvalRunResponse(run),
+        cases: cases.map(toEvalRunCaseResponse),
+      });
+    })
+  );
+};
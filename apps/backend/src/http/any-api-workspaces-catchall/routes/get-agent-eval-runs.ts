@@ -0,0 +1,117 @@
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { toEvalRunResponse } from "../../../utils/evalDataset";
+import { parseLimitParam } from "../../utils/paginationParams";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+import { getAgentOrThrow } from "./agentUpdate";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/eval-runs:
+ *   get:
+ *     summary: List eval runs
+ *     description: Returns the offline eval runs of an agent, most recent first
+ *     tags:
+ *       - Agents
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: datasetId
+ *         in: query
+ *         required: false
+ *         description: Only runs of this dataset
+ *         schema:
+ *           type: string
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         description: Maximum number of runs to return (default 50, max 100)
+ *         schema:
+ *           type: integer
+ *       - name: cursor
+ *         in: query
+ *         required: false
+ *         description: Pagination cursor from a previous response
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Eval runs
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 runs:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/EvalRun'
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       410:
+ *         description: Agent not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerGetAgentEvalRuns = (app: express.Application) => {
+  app.get(
+    "/api/workspaces/:workspaceId/agents/:agentId/eval-runs",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.READ),
+    asyncHandler(async (req, res) => {
+      const db = await database();
+      const { workspaceId, agentId } = req.params;
+      await getAgentOrThrow({ db, workspaceId, agentId });
+
+      const limit = parseLimitParam(req.query.limit);
+      const cursor = (req.query.cursor as string | undefined) ?? null;
+      const datasetId = req.query.datasetId as string | undefined;
+
+      const result = await db["agent-eval-run"].queryPaginated(
+        {
+          IndexName: "byAgentId",
+          KeyConditionExpression: "agentId = :agentId",
+          FilterExpression: datasetId
+            ? "workspaceId = :workspaceId AND datasetId = :datasetId"
+            : "workspaceId = :workspaceId",
+          ExpressionAttributeValues: {
+            ":agentId": agentId,
+            ":workspaceId": workspaceId,
+            ...(datasetId && { ":datasetId": datasetId }),
+          },
+          ScanIndexForward: false,
+        },
+        { limit, cursor }
+      );
+
+      res.json({
+        runs: result.items.map(toEvalRunResponse),
+        nextCursor: result.nextCursor,
+      });
+    })
+  );
+};
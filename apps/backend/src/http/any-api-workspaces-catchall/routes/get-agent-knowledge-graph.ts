@@ -4,6 +4,7 @@ import express from "express";
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
 import { createGraphDb } from "../../../utils/duckdb/graphDb";
+import { resolveMemoryPartitionParam } from "../../../utils/memory/memoryPartitions";
 import { asyncHandler, requireAuth, requirePermission } from "../middleware";
 
 const DEFAULT_MAX_RESULTS = 200;
@@ -52,6 +53,11 @@ function escapeSqlLike(input: string): string {
  *         schema:
  *           type: integer
  *           default: 200
+ *       - name: endUserId
+ *         in: query
+ *         description: Return the graph facts of this end user instead of the agent-global graph
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Agent knowledge graph facts
@@ -85,6 +91,12 @@ function escapeSqlLike(input: string): string {
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
  *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: No memory found for the end user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       410:
  *         description: Agent not found
  *         content:
@@ -126,7 +138,14 @@ export const registerGetAgentKnowledgeGraph = (app: express.Application) => {
       }
 
       const maxResults = maxResultsRaw;
-      const graphDb = await createGraphDb(workspaceId, agentId);
+      const partitionKey = await resolveMemoryPartitionParam(db, {
+        workspaceId,
+        agentId,
+        endUserId: req.query.endUserId,
+      });
+      const graphDb = partitionKey
+        ? await createGraphDb(workspaceId, agentId, partitionKey)
+        : await createGraphDb(workspaceId, agentId);
       try {
         let whereClause = "";
         if (queryText && queryText.trim().length > 0) {
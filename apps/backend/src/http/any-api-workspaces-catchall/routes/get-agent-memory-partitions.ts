@@ -0,0 +1,90 @@
+import { resourceGone } from "@hapi/boom";
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { listAgentMemoryPartitions } from "../../../utils/memory/memoryPartitions";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/memory-partitions:
+ *   get:
+ *     summary: List end users with agent memory
+ *     description: Returns the end users for whom the agent keeps a separate memory (agents with per-end-user memory enabled)
+ *     tags:
+ *       - Agents
+ *       - Memory
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: End-user memory partitions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 partitions:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       endUserId:
+ *                         type: string
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       410:
+ *         description: Agent not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerGetAgentMemoryPartitions = (app: express.Application) => {
+  app.get(
+    "/api/workspaces/:workspaceId/agents/:agentId/memory-partitions",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.READ),
+    asyncHandler(async (req, res) => {
+      const db = await database();
+      const { workspaceId, agentId } = req.params;
+
+      const agent = await db.agent.get(`agents/${workspaceId}/${agentId}`, "agent");
+      if (!agent) {
+        throw resourceGone("Agent not found");
+      }
+
+      const partitions = await listAgentMemoryPartitions(db, workspaceId, agentId);
+
+      res.json({
+        partitions: partitions
+          .map((partition) => ({
+            endUserId: partition.endUserId,
+            createdAt: partition.createdAt,
+          }))
+          .sort((a, b) => a.endUserId.localeCompare(b.endUserId)),
+      });
+    })
+  );
+};
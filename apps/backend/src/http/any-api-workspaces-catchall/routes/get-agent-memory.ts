@@ -3,6 +3,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { resolveMemoryPartitionParam } from "../../../utils/memory/memoryPartitions";
 import {
   getMemoryRecord,
   searchMemory,
@@ -70,6 +71,11 @@ import { asyncHandler, requireAuth, requirePermission } from "../middleware";
  *         description: "If set, truncates content to the first N characters"
  *         schema:
  *           type: integer
+ *       - name: endUserId
+ *         in: query
+ *         description: Return the memory of this end user instead of the agent-global memory
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Agent memory records
@@ -105,6 +111,12 @@ import { asyncHandler, requireAuth, requirePermission } from "../middleware";
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
  *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: No memory found for the end user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       410:
  *         description: Agent not found
  *         content:
@@ -212,6 +224,12 @@ export const registerGetAgentMemory = (app: express.Application) => {
         );
       }
 
+      const partitionKey = await resolveMemoryPartitionParam(db, {
+        workspaceId,
+        agentId,
+        endUserId: req.query.endUserId,
+      });
+
       // Search memory
       // If queryText is empty/undefined, searchMemory will skip vector search and only apply temporal filtering
       const records = await searchMemory({
@@ -225,6 +243,8 @@ export const registerGetAgentMemory = (app: express.Application) => {
           queryText && queryText.trim().length > 0 ? queryText : undefined,
         db,
         context,
+        // The end user's partition is listed on its own, without the agent-global memory
+        ...(partitionKey && { partitionKey, includeAgentMemory: false }),
       });
 
       const responseRecords =
@@ -282,6 +302,11 @@ export const registerGetAgentMemory = (app: express.Application) => {
  *           type: string
  *           enum: [working, daily, weekly, monthly, quarterly, yearly]
  *           default: working
+ *       - name: endUserId
+ *         in: query
+ *         description: End user whose memory contains the record
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Agent memory record
@@ -362,10 +387,17 @@ export const registerGetAgentMemoryRecord = (app: express.Application) => {
       }
       const grain = grainStr as TemporalGrain;
 
+      const partitionKey = await resolveMemoryPartitionParam(db, {
+        workspaceId,
+        agentId,
+        endUserId: req.query.endUserId,
+      });
+
       const record = await getMemoryRecord({
         agentId,
         grain,
         recordId,
+        ...(partitionKey && { partitionKey }),
       });      if (!record) {
         res.status(404).json({
           statusCode: 404,
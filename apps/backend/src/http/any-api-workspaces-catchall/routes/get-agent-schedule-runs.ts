@@ -0,0 +1,177 @@
+import { badRequest, resourceGone } from "@hapi/boom";
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { buildAgentSchedulePk } from "../../../utils/agentSchedule";
+import { buildAgentScheduleRunPk } from "../../../utils/agentScheduleRun";
+import { parseLimitParam } from "../../utils/paginationParams";
+import { handleError, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/schedules/{scheduleId}/runs:
+ *   get:
+ *     summary: List runs of a schedule
+ *     description: Returns the run history of a schedule, most recent first. Runs are kept for 90 days
+ *     tags:
+ *       - Agents
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: scheduleId
+ *         in: path
+ *         required: true
+ *         description: Schedule ID
+ *         schema:
+ *           type: string
+ *       - name: limit
+ *         in: query
+ *         description: Maximum number of runs to return (1-100, default 50)
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *       - name: cursor
+ *         in: query
+ *         description: Pagination cursor from previous response
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of schedule runs
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 runs:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       status:
+ *                         type: string
+ *                         enum: [running, succeeded, failed]
+ *                       startedAt:
+ *                         type: string
+ *                         format: date-time
+ *                       endedAt:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                       conversationId:
+ *                         type: string
+ *                         nullable: true
+ *                       costUsd:
+ *                         type: integer
+ *                         nullable: true
+ *                         description: Provisional cost of the run in USD nano-dollars
+ *                       error:
+ *                         type: string
+ *                         nullable: true
+ *                       deliveryStatus:
+ *                         type: string
+ *                         enum: [sent, failed]
+ *                         nullable: true
+ *                         description: Outcome of the schedule's delivery target, when it has one
+ *                       deliveryError:
+ *                         type: string
+ *                         nullable: true
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Cursor for next page of results
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       410:
+ *         description: Schedule not found
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerGetAgentScheduleRuns = (app: express.Application) => {
+  app.get(
+    "/api/workspaces/:workspaceId/agents/:agentId/schedules/:scheduleId/runs",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.READ),
+    async (req, res, next) => {
+      try {
+        const db = await database();
+        const workspaceResource = req.workspaceResource;
+        if (!workspaceResource) {
+          throw badRequest("Workspace resource not found");
+        }
+        const workspaceId = req.params.workspaceId;
+        const agentId = req.params.agentId;
+        const scheduleId = req.params.scheduleId;
+
+        const schedule = await db["agent-schedule"].get(
+          buildAgentSchedulePk(workspaceId, agentId, scheduleId),
+          "schedule"
+        );
+        if (!schedule) {
+          throw resourceGone("Schedule not found");
+        }
+        if (
+          schedule.workspaceId !== workspaceId ||
+          schedule.agentId !== agentId
+        ) {
+          throw badRequest("Schedule does not belong to this agent");
+        }
+
+        const limit = parseLimitParam(req.query.limit);
+        const cursor = req.query.cursor as string | undefined;
+
+        const result = await db["agent-schedule-run"].queryPaginated(
+          {
+            KeyConditionExpression: "pk = :pk",
+            ExpressionAttributeValues: {
+              ":pk": buildAgentScheduleRunPk(workspaceId, agentId, scheduleId),
+            },
+            ScanIndexForward: false, // Most recent first (sk starts with startedAt)
+          },
+          {
+            limit,
+            cursor: cursor ?? null,
+          }
+        );
+
+        res.json({
+          runs: result.items.map((run) => ({
+            id: run.runId,
+            status: run.status,
+            startedAt: run.startedAt,
+            endedAt: run.endedAt ?? null,
+            conversationId: run.conversationId ?? null,
+            costUsd: run.costUsd ?? null,
+            error: run.error ?? null,
+            deliveryStatus: run.deliveryStatus ?? null,
+            deliveryError: run.deliveryError ?? null,
+          })),
+          nextCursor: result.nextCursor ?? undefined,
+        });
+      } catch (error) {
+        handleError(error, next);
+      }
+    }
+  );
+};
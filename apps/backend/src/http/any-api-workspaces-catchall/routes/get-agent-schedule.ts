@@ -3,7 +3,10 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
-import { buildAgentSchedulePk } from "../../../utils/agentSchedule";
+import {
+  DEFAULT_SCHEDULE_TIMEZONE,
+  buildAgentSchedulePk,
+} from "../../../utils/agentSchedule";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
 /**
@@ -88,7 +91,9 @@ export const registerGetAgentSchedule = (app: express.Application) => {
           id: schedule.scheduleId,
           name: schedule.name,
           cronExpression: schedule.cronExpression,
+          timezone: schedule.timezone ?? DEFAULT_SCHEDULE_TIMEZONE,
           prompt: schedule.prompt,
+          delivery: schedule.delivery ?? null,
           enabled: schedule.enabled,
           nextRunAt: schedule.nextRunAt,
           lastRunAt: schedule.lastRunAt ?? null,
@@ -3,6 +3,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { DEFAULT_SCHEDULE_TIMEZONE } from "../../../utils/agentSchedule";
 import { requireAgentInWorkspace } from "../../utils/agentScheduleAccess";
 import { parseLimitParam } from "../../utils/paginationParams";
 import { handleError, requireAuth, requirePermission } from "../middleware";
@@ -82,7 +83,9 @@ export const registerGetAgentSchedules = (app: express.Application) => {
           id: schedule.scheduleId,
           name: schedule.name,
           cronExpression: schedule.cronExpression,
+          timezone: schedule.timezone ?? DEFAULT_SCHEDULE_TIMEZONE,
           prompt: schedule.prompt,
+          delivery: schedule.delivery ?? null,
           enabled: schedule.enabled,
           nextRunAt: schedule.nextRunAt,
           lastRunAt: schedule.lastRunAt ?? null,
@@ -0,0 +1,151 @@
+import { badRequest } from "@hapi/boom";
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { toToolApprovalResponse } from "../../../utils/toolApproval";
+import { parseLimitParam } from "../../utils/paginationParams";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+import { getAgentOrThrow } from "./agentUpdate";
+
+const TOOL_APPROVAL_STATUSES = [
+  "pending",
+  "approved",
+  "rejected",
+  "expired",
+] as const;
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/tool-approvals:
+ *   get:
+ *     summary: List tool approval requests
+ *     description: Returns the approval requests of tool calls that require approval, most recent first. A request is created when the agent calls such a tool; the run pauses until the request is approved, rejected or times out.
+ *     tags:
+ *       - Agents
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: status
+ *         in: query
+ *         required: false
+ *         description: Only return requests with this status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected, expired]
+ *       - name: conversationId
+ *         in: query
+ *         required: false
+ *         description: Only return requests of this conversation (used by the test chat to show answers of resumed runs)
+ *         schema:
+ *           type: string
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         description: Maximum number of requests to return
+ *         schema:
+ *           type: integer
+ *       - name: cursor
+ *         in: query
+ *         required: false
+ *         description: Pagination cursor from the previous response
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tool approval requests
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 approvals:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ToolApprovalRequest'
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       410:
+ *         description: Agent not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerGetAgentToolApprovals = (app: express.Application) => {
+  app.get(
+    "/api/workspaces/:workspaceId/agents/:agentId/tool-approvals",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.READ),
+    asyncHandler(async (req, res) => {
+      const db = await database();
+      const { workspaceId, agentId } = req.params;
+      await getAgentOrThrow({ db, workspaceId, agentId });
+
+      const status = req.query.status as string | undefined;
+      if (
+        status !== undefined &&
+        !TOOL_APPROVAL_STATUSES.includes(
+          status as (typeof TOOL_APPROVAL_STATUSES)[number]
+        )
+      ) {
+        throw badRequest(
+          `status must be one of: ${TOOL_APPROVAL_STATUSES.join(", ")}`
+        );
+      }
+
+      const conversationId = req.query.conversationId as string | undefined;
+      const filters = [
+        "workspaceId = :workspaceId",
+        ...(status ? ["#status = :status"] : []),
+        ...(conversationId ? ["conversationId = :conversationId"] : []),
+      ];
+
+      const limit = parseLimitParam(req.query.limit);
+      const cursor = req.query.cursor as string | undefined;
+      const result = await db["tool-approval"].queryPaginated(
+        {
+          IndexName: "byAgentId",
+          KeyConditionExpression: "agentId = :agentId",
+          FilterExpression: filters.join(" AND "),
+          ExpressionAttributeValues: {
+            ":agentId": agentId,
+            ":workspaceId": workspaceId,
+            ...(status && { ":status": status }),
+            ...(conversationId && { ":conversationId": conversationId }),
+          },
+          ...(status && { ExpressionAttributeNames: { "#status": "status" } }),
+          ScanIndexForward: false,
+        },
+        { limit, cursor: cursor ?? null }
+      );
+
+      res.json({
+        approvals: result.items.map(toToolApprovalResponse),
+        nextCursor: result.nextCursor ?? undefined,
+      });
+    })
+  );
+};
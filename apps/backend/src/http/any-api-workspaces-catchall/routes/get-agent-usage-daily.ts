@@ -99,6 +99,12 @@ import { asyncHandler, requireAuth, requirePermission } from "../middleware";
  *                         type: integer
  *                       totalMessages:
  *                         type: integer
+ *                       positiveFeedback:
+ *                         type: integer
+ *                         description: End-user thumbs up on agent replies
+ *                       negativeFeedback:
+ *                         type: integer
+ *                         description: End-user thumbs down on agent replies
  *       400:
  *         $ref: '#/components/responses/BadRequest'
  *       401:
@@ -181,6 +187,8 @@ export const registerGetAgentUsageDaily = (app: express.Application) => {
           messagesIn: stats.messagesIn,
           messagesOut: stats.messagesOut,
           totalMessages: stats.totalMessages,
+          positiveFeedback: stats.positiveFeedback,
+          negativeFeedback: stats.negativeFeedback,
         });
 
         current.setDate(current.getDate() + 1);
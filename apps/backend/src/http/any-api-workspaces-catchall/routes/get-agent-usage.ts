@@ -177,6 +177,8 @@ export const registerGetAgentUsage = (app: express.Application) => {
           messagesIn: stats.messagesIn,
           messagesOut: stats.messagesOut,
           totalMessages: stats.totalMessages,
+          positiveFeedback: stats.positiveFeedback,
+          negativeFeedback: stats.negativeFeedback,
           byModel: Object.entries(stats.byModel).map(([model, modelStats]) => ({
             model,
             inputTokens: modelStats.inputTokens,
@@ -0,0 +1,74 @@
+import { badRequest } from "@hapi/boom";
+import express from "express";
+
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import {
+  listWorkspaceModelEndpoints,
+  toModelEndpointResponse,
+} from "../../../utils/modelEndpoints";
+import { handleError, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/model-endpoints:
+ *   get:
+ *     summary: List custom model endpoints
+ *     description: Returns the workspace's self-hosted OpenAI-compatible model endpoints. API keys are never returned.
+ *     tags:
+ *       - Model Endpoints
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of model endpoints
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 endpoints:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ModelEndpoint'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerGetModelEndpoints = (app: express.Application) => {
+  app.get(
+    "/api/workspaces/:workspaceId/model-endpoints",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.READ),
+    async (req, res, next) => {
+      try {
+        if (!req.workspaceResource) {
+          throw badRequest("Workspace resource not found");
+        }
+        const endpoints = await listWorkspaceModelEndpoints(
+          req.params.workspaceId
+        );
+        endpoints.sort((a, b) => a.name.localeCompare(b.name));
+
+        res.json({ endpoints: endpoints.map(toModelEndpointResponse) });
+      } catch (error) {
+        handleError(
+          error,
+          next,
+          "GET /api/workspaces/:workspaceId/model-endpoints"
+        );
+      }
+    }
+  );
+};
@@ -9,6 +9,14 @@ import {
 } from "../../../utils/agentContextStats";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
+const formatDocumentScope = (agent: {
+  knowledgeFolderPaths?: string[];
+  knowledgeTags?: string[];
+}) => ({
+  knowledgeFolderPaths: agent.knowledgeFolderPaths ?? null,
+  knowledgeTags: agent.knowledgeTags ?? null,
+});
+
 /**
  * @openapi
  * /api/workspaces/{workspaceId}/agents/{agentId}:
@@ -66,6 +74,22 @@ import { handleError, requireAuth, requirePermission } from "../middleware";
  *                     maxToolRoundtrips:
  *                       type: integer
  *                       nullable: true
+ *                     outputSchema:
+ *                       type: object
+ *                       nullable: true
+ *                       description: JSON Schema that webhook responses must match (structured-output mode)
+ *                     knowledgeFolderPaths:
+ *                       type: array
+ *                       nullable: true
+ *                       items:
+ *                         type: string
+ *                       description: Folders (including subfolders) the agent's document search and knowledge injection are restricted to; null means all workspace documents
+ *                     knowledgeTags:
+ *                       type: array
+ *                       nullable: true
+ *                       items:
+ *                         type: string
+ *                       description: Tags of documents the agent may also read, in any folder; null means no tag scope
  *                     updatedAt:
  *                       type: string
  *                       format: date-time
@@ -134,6 +158,7 @@ export const registerGetWorkspaceAgent = (app: express.Application) => {
           memoryExtractionEnabled: agent.memoryExtractionEnabled ?? false,
           memoryExtractionModel: agent.memoryExtractionModel ?? null,
           memoryExtractionPrompt: agent.memoryExtractionPrompt ?? null,
+          memoryPartitionByEndUser: agent.memoryPartitionByEndUser ?? false,
           notificationChannelId: agent.notificationChannelId,
           delegatableAgentIds: agent.delegatableAgentIds ?? [],
           enabledMcpServerIds: agent.enabledMcpServerIds ?? [],
@@ -146,6 +171,7 @@ export const registerGetWorkspaceAgent = (app: express.Application) => {
             agent.enableKnowledgeInjectionFromMemories ?? false,
           enableKnowledgeInjectionFromDocuments:
             agent.enableKnowledgeInjectionFromDocuments ?? true,
+          ...formatDocumentScope(agent),
           knowledgeInjectionSnippetCount:
             agent.knowledgeInjectionSnippetCount ?? undefined,
           knowledgeInjectionMinSimilarity:
@@ -169,8 +195,11 @@ export const registerGetWorkspaceAgent = (app: express.Application) => {
           maxOutputTokens: agent.maxOutputTokens ?? null,
           stopSequences: agent.stopSequences ?? null,
           maxToolRoundtrips: agent.maxToolRoundtrips ?? null,
+          outputSchema: agent.outputSchema ?? null,
           provider: agent.provider,
           modelName: agent.modelName ?? null,
+          fallbackModelNames: agent.fallbackModelNames ?? [],
+          toolApproval: agent.toolApproval ?? null,
           avatar: agent.avatar ?? null,
           widgetConfig: agent.widgetConfig ?? undefined,
           createdAt: agent.createdAt,
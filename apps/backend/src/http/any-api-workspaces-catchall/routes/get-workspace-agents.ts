@@ -104,6 +104,7 @@ export const registerGetWorkspaceAgents = (app: express.Application) => {
               memoryExtractionEnabled: agent.memoryExtractionEnabled ?? false,
               memoryExtractionModel: agent.memoryExtractionModel ?? null,
               memoryExtractionPrompt: agent.memoryExtractionPrompt ?? null,
+              memoryPartitionByEndUser: agent.memoryPartitionByEndUser ?? false,
               notificationChannelId: agent.notificationChannelId,
               delegatableAgentIds: agent.delegatableAgentIds ?? [],
               enabledMcpServerIds: agent.enabledMcpServerIds ?? [],
@@ -116,6 +117,8 @@ export const registerGetWorkspaceAgents = (app: express.Application) => {
               spendingLimits: agent.spendingLimits ?? [],
               provider: agent.provider,
               modelName: agent.modelName ?? null,
+              fallbackModelNames: agent.fallbackModelNames ?? [],
+              toolApproval: agent.toolApproval ?? null,
               avatar: agent.avatar ?? null,
               createdAt: agent.createdAt,
               updatedAt: agent.updatedAt,
@@ -0,0 +1,113 @@
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import {
+  buildAuditLogQuery,
+  parseAuditLogFilters,
+  toAuditLogCsv,
+  toAuditLogEntry,
+  type AuditLogEntry,
+} from "../../../utils/auditLog";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+// Keeps the export within the Lambda response size limit
+const MAX_EXPORTED_EVENTS = 10_000;
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/audit-log/export:
+ *   get:
+ *     summary: Export workspace audit log as CSV
+ *     description: Returns the audit log events matching the filters as a CSV file, most recent first (at most 10,000 events). Requires owner permission
+ *     tags:
+ *       - Workspaces
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: action
+ *         in: query
+ *         description: Only events with this action
+ *         schema:
+ *           type: string
+ *           enum: [created, updated, deleted]
+ *       - name: resourceType
+ *         in: query
+ *         description: Only events on this kind of resource (e.g. agent, document, member)
+ *         schema:
+ *           type: string
+ *       - name: resourceId
+ *         in: query
+ *         description: Only events on this resource
+ *         schema:
+ *           type: string
+ *       - name: actorUserId
+ *         in: query
+ *         description: Only events made by this user
+ *         schema:
+ *           type: string
+ *       - name: from
+ *         in: query
+ *         description: Only events at or after this date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - name: to
+ *         in: query
+ *         description: Only events at or before this date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: CSV file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerGetWorkspaceAuditLogExport = (
+  app: express.Application
+) => {
+  app.get(
+    "/api/workspaces/:workspaceId/audit-log/export",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.OWNER),
+    asyncHandler(async (req, res) => {
+      const db = await database();
+      const workspaceId = req.params.workspaceId;
+      const filters = parseAuditLogFilters(req.query);
+
+      const entries: AuditLogEntry[] = [];
+      for await (const record of db["workspace-audit-log"].queryAsync(
+        buildAuditLogQuery(workspaceId, filters)
+      )) {
+        entries.push(toAuditLogEntry(record));
+        if (entries.length >= MAX_EXPORTED_EVENTS) {
+          break;
+        }
+      }
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="audit-log-${workspaceId}.csv"`
+      );
+      res.send(toAuditLogCsv(entries));
+    })
+  );
+};
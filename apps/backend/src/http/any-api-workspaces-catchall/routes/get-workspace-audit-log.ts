@@ -0,0 +1,129 @@
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import {
+  buildAuditLogQuery,
+  parseAuditLogFilters,
+  toAuditLogEntry,
+} from "../../../utils/auditLog";
+import { parseLimitParam } from "../../utils/paginationParams";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/audit-log:
+ *   get:
+ *     summary: List workspace audit log
+ *     description: Returns the append-only log of changes made to the workspace (agents, keys, MCP servers, channels, documents, members, spending limits, integrations), most recent first. Requires owner permission
+ *     tags:
+ *       - Workspaces
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: action
+ *         in: query
+ *         description: Only events with this action
+ *         schema:
+ *           type: string
+ *           enum: [created, updated, deleted]
+ *       - name: resourceType
+ *         in: query
+ *         description: Only events on this kind of resource (e.g. agent, document, member)
+ *         schema:
+ *           type: string
+ *       - name: resourceId
+ *         in: query
+ *         description: Only events on this resource
+ *         schema:
+ *           type: string
+ *       - name: actorUserId
+ *         in: query
+ *         description: Only events made by this user
+ *         schema:
+ *           type: string
+ *       - name: from
+ *         in: query
+ *         description: Only events at or after this date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - name: to
+ *         in: query
+ *         description: Only events at or before this date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - name: limit
+ *         in: query
+ *         description: Maximum number of events to return (1-100, default 50)
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *       - name: cursor
+ *         in: query
+ *         description: Pagination cursor from previous response
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Audit log events
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 events:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AuditLogEntry'
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Cursor for next page of results
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerGetWorkspaceAuditLog = (app: express.Application) => {
+  app.get(
+    "/api/workspaces/:workspaceId/audit-log",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.OWNER),
+    asyncHandler(async (req, res) => {
+      const db = await database();
+      const workspaceId = req.params.workspaceId;
+      const filters = parseAuditLogFilters(req.query);
+      const limit = parseLimitParam(req.query.limit);
+      const cursor = req.query.cursor as string | undefined;
+
+      // With filters a page can hold fewer than `limit` events; keep following
+      // nextCursor until it is empty
+      const result = await db["workspace-audit-log"].queryPaginated(
+        buildAuditLogQuery(workspaceId, filters),
+        {
+          limit,
+          cursor: cursor || null,
+        }
+      );
+
+      res.json({
+        events: result.items.map(toAuditLogEntry),
+        nextCursor: result.nextCursor || undefined,
+      });
+    })
+  );
+};
@@ -0,0 +1,172 @@
+import { badRequest, forbidden, resourceGone } from "@hapi/boom";
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { getChannelDeliveryPk } from "../../../utils/channelDeliveryQueue";
+import { parseLimitParam } from "../../utils/paginationParams";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/channels/{channelId}/deliveries:
+ *   get:
+ *     summary: List channel deliveries
+ *     description: Returns the delivery log of an http channel, most recent first. Entries are kept for 30 days
+ *     tags:
+ *       - Channels
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: channelId
+ *         in: path
+ *         required: true
+ *         description: Channel ID
+ *         schema:
+ *           type: string
+ *       - name: limit
+ *         in: query
+ *         description: Maximum number of deliveries to return (1-100, default 50)
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *       - name: cursor
+ *         in: query
+ *         description: Pagination cursor from previous response
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of deliveries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 deliveries:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       status:
+ *                         type: string
+ *                         enum: [pending, delivered, failed]
+ *                       attempts:
+ *                         type: integer
+ *                       agentId:
+ *                         type: string
+ *                         nullable: true
+ *                       conversationId:
+ *                         type: string
+ *                         nullable: true
+ *                       contentPreview:
+ *                         type: string
+ *                       lastStatusCode:
+ *                         type: integer
+ *                         nullable: true
+ *                       lastError:
+ *                         type: string
+ *                         nullable: true
+ *                       nextAttemptAt:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                       deliveredAt:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Cursor for next page of results
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       410:
+ *         description: Channel not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerGetWorkspaceChannelDeliveries = (
+  app: express.Application
+) => {
+  app.get(
+    "/api/workspaces/:workspaceId/channels/:channelId/deliveries",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.READ),
+    asyncHandler(async (req, res) => {
+      const db = await database();
+      const workspaceResource = req.workspaceResource;
+      if (!workspaceResource) {
+        throw badRequest("Workspace resource not found");
+      }
+      const workspaceId = req.params.workspaceId;
+      const channelId = req.params.channelId;
+
+      const channel = await db["output_channel"].get(
+        `output-channels/${workspaceId}/${channelId}`,
+        "channel"
+      );
+      if (!channel) {
+        throw resourceGone("Channel not found");
+      }
+      if (channel.workspaceId !== workspaceId) {
+        throw forbidden("Channel does not belong to this workspace");
+      }
+
+      const limit = parseLimitParam(req.query.limit);
+      const cursor = req.query.cursor as string | undefined;
+
+      const result = await db["channel-delivery"].queryPaginated(
+        {
+          KeyConditionExpression: "pk = :pk",
+          ExpressionAttributeValues: {
+            ":pk": getChannelDeliveryPk(workspaceId, channelId),
+          },
+          ScanIndexForward: false, // Most recent first (sk starts with createdAt)
+        },
+        {
+          limit,
+          cursor: cursor || null,
+        }
+      );
+
+      res.json({
+        deliveries: result.items.map((delivery) => ({
+          id: delivery.deliveryId,
+          status: delivery.status,
+          attempts: delivery.attempts,
+          agentId: delivery.agentId ?? null,
+          conversationId: delivery.conversationId ?? null,
+          contentPreview: delivery.contentPreview,
+          lastStatusCode: delivery.lastStatusCode ?? null,
+          lastError: delivery.lastError ?? null,
+          nextAttemptAt: delivery.nextAttemptAt ?? null,
+          deliveredAt: delivery.deliveredAt ?? null,
+          createdAt: delivery.createdAt,
+        })),
+        nextCursor: result.nextCursor || undefined,
+      });
+    })
+  );
+};
@@ -0,0 +1,125 @@
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import {
+  hasConversationSearchFilters,
+  parseConversationSearchFilters,
+  searchConversations,
+  toConversationSummary,
+} from "../../../utils/conversationSearch";
+import { trackBusinessEvent } from "../../../utils/tracking";
+import { parseLimitParam } from "../../utils/paginationParams";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/conversations:
+ *   get:
+ *     summary: Search workspace conversations
+ *     description: Returns conversations of every agent in the workspace, most recent first, optionally searched by message text and filters. A page looks at up to 500 conversations, so a selective search can return fewer than `limit` matches while `nextCursor` is still set.
+ *     tags:
+ *       - Agents
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: limit
+ *         in: query
+ *         description: Maximum number of conversations to return (1-100, default 50)
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *       - name: cursor
+ *         in: query
+ *         description: Pagination cursor from previous response
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/ConversationSearchText'
+ *       - $ref: '#/components/parameters/ConversationTypeFilter'
+ *       - $ref: '#/components/parameters/ConversationFrom'
+ *       - $ref: '#/components/parameters/ConversationTo'
+ *       - $ref: '#/components/parameters/ConversationHasError'
+ *       - $ref: '#/components/parameters/ConversationMinCostUsd'
+ *       - $ref: '#/components/parameters/ConversationMaxCostUsd'
+ *       - $ref: '#/components/parameters/ConversationModel'
+ *       - $ref: '#/components/parameters/ConversationTool'
+ *       - $ref: '#/components/parameters/ConversationMinEvalScore'
+ *       - $ref: '#/components/parameters/ConversationMaxEvalScore'
+ *       - $ref: '#/components/parameters/ConversationCriticalFailure'
+ *       - $ref: '#/components/parameters/ConversationHasDelegations'
+ *       - $ref: '#/components/parameters/ConversationFeedback'
+ *     responses:
+ *       200:
+ *         description: Matching conversations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 conversations:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ConversationSummary'
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Cursor for next page of results
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerGetWorkspaceConversations = (
+  app: express.Application
+) => {
+  app.get(
+    "/api/workspaces/:workspaceId/conversations",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.READ),
+    asyncHandler(async (req, res) => {
+      const db = await database();
+      const workspaceId = req.params.workspaceId;
+      const limit = parseLimitParam(req.query.limit);
+      const cursor = req.query.cursor as string | undefined;
+      const filters = parseConversationSearchFilters(req.query);
+
+      const result = await searchConversations(db, {
+        workspaceId,
+        filters,
+        limit,
+        cursor: cursor || null,
+      });
+
+      if (hasConversationSearchFilters(filters)) {
+        trackBusinessEvent(
+          "conversation",
+          "search_performed",
+          {
+            workspace_id: workspaceId,
+            has_text: !!filters.text,
+            result_count: result.items.length,
+            scanned_count: result.scannedCount,
+          },
+          req
+        );
+      }
+
+      res.json({
+        conversations: result.items.map(toConversationSummary),
+        nextCursor: result.nextCursor || undefined,
+      });
+    })
+  );
+};
@@ -3,7 +3,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
-import { getDocument } from "../../../utils/s3";
+import { getDocumentTextContent } from "../../../utils/documentIndexing";
 import { asyncHandler, requireAuth, requirePermission } from "../middleware";
 
 /**
@@ -49,9 +49,16 @@ import { asyncHandler, requireAuth, requirePermission } from "../middleware";
  *                   type: string
  *                 size:
  *                   type: integer
+ *                 tags:
+ *                   type: array
+ *                   items:
+ *                     type: string
  *                 content:
  *                   type: string
- *                   description: Document content as text
+ *                   description: Document content as text (extracted markdown for PDF, DOCX, HTML and CSV documents)
+ *                 isExtracted:
+ *                   type: boolean
+ *                   description: True when content was extracted from a non-text file and cannot be edited in place
  *                 createdAt:
  *                   type: string
  *                   format: date-time
@@ -96,13 +103,12 @@ export const registerGetWorkspaceDocument = (app: express.Application) => {
         throw forbidden("Document does not belong to this workspace");
       }
 
-      // Get content from S3
-      const content = await getDocument(
+      // Get content from S3 (extracted markdown for converted documents)
+      const contentText = await getDocumentTextContent(
         workspaceId,
         documentId,
-        document.s3Key
+        document
       );
-      const contentText = content.toString("utf-8");
 
       res.json({
         id: documentId,
@@ -111,7 +117,9 @@ export const registerGetWorkspaceDocument = (app: express.Application) => {
         folderPath: document.folderPath,
         contentType: document.contentType,
         size: document.size,
+        tags: document.tags ?? [],
         content: contentText,
+        isExtracted: !!document.extractedS3Key,
         createdAt: document.createdAt,
         updatedAt: document.updatedAt,
       });
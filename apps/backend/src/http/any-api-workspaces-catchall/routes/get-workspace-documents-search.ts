@@ -2,7 +2,11 @@ import { badRequest } from "@hapi/boom";
 import express from "express";
 
 import { PERMISSION_LEVELS } from "../../../tables/schema";
-import { searchDocuments } from "../../../utils/documentSearch";
+import {
+  DOCUMENT_SEARCH_MODES,
+  searchDocuments,
+  type DocumentSearchMode,
+} from "../../../utils/documentSearch";
 import { trackBusinessEvent } from "../../../utils/tracking";
 import { getContextFromRequestId } from "../../../utils/workspaceCreditContext";
 import { asyncHandler, requireAuth, requirePermission } from "../middleware";
@@ -12,7 +16,7 @@ import { asyncHandler, requireAuth, requirePermission } from "../middleware";
  * /api/workspaces/{workspaceId}/documents/search:
  *   get:
  *     summary: Search workspace documents
- *     description: Search documents in a workspace using semantic vector search. Returns the most relevant document snippets based on the query.
+ *     description: Search documents in a workspace. Returns the most relevant document snippets based on the query, using semantic vector search, BM25 keyword search (exact words, product codes, error strings) or a hybrid of both fused with reciprocal-rank fusion.
  *     tags:
  *       - Documents
  *     security:
@@ -38,6 +42,13 @@ import { asyncHandler, requireAuth, requirePermission } from "../middleware";
  *           minimum: 1
  *           maximum: 50
  *           default: 5
+ *       - name: mode
+ *         in: query
+ *         description: "Matching strategy (default: vector)"
+ *         schema:
+ *           type: string
+ *           enum: [vector, keyword, hybrid]
+ *           default: vector
  *     responses:
  *       200:
  *         description: Search results
@@ -62,7 +73,7 @@ import { asyncHandler, requireAuth, requirePermission } from "../middleware";
  *                     description: Folder path of the document
  *                   similarity:
  *                     type: number
- *                     description: Similarity score (0-1)
+ *                     description: Relevance score (0-1). Vector similarity, keyword score relative to the best match, or normalized fused rank in hybrid mode
  *       400:
  *         $ref: '#/components/responses/BadRequest'
  *       401:
@@ -83,6 +94,7 @@ export const registerGetWorkspaceDocumentsSearch = (
       const workspaceId = req.params.workspaceId;
       const query = req.query.q as string | undefined;
       const limitParam = req.query.limit as string | undefined;
+      const modeParam = req.query.mode as string | undefined;
       const awsRequestIdRaw =
         req.headers["x-amzn-requestid"] ||
         req.headers["X-Amzn-Requestid"] ||
@@ -113,8 +125,19 @@ export const registerGetWorkspaceDocumentsSearch = (
         limit = parsedLimit;
       }
 
+      let mode: DocumentSearchMode = "vector";
+      if (modeParam) {
+        if (!DOCUMENT_SEARCH_MODES.includes(modeParam as DocumentSearchMode)) {
+          throw badRequest(
+            `Mode parameter must be one of: ${DOCUMENT_SEARCH_MODES.join(", ")}`
+          );
+        }
+        mode = modeParam as DocumentSearchMode;
+      }
+
       const results = await searchDocuments(workspaceId, query.trim(), limit, {
         context,
+        mode,
       });
 
       // Track document search
@@ -126,6 +149,7 @@ export const registerGetWorkspaceDocumentsSearch = (
           query_length: query.trim().length,
           result_count: results.length,
           limit,
+          mode,
         },
         req
       );
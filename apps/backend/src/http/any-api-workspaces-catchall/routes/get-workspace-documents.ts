@@ -53,6 +53,10 @@ import { asyncHandler, requireAuth, requirePermission } from "../middleware";
  *                         type: string
  *                       size:
  *                         type: integer
+ *                       tags:
+ *                         type: array
+ *                         items:
+ *                           type: string
  *                       createdAt:
  *                         type: string
  *                         format: date-time
@@ -113,6 +117,7 @@ export const registerGetWorkspaceDocuments = (app: express.Application) => {
         folderPath: doc.folderPath,
         contentType: doc.contentType,
         size: doc.size,
+        tags: doc.tags ?? [],
         createdAt: doc.createdAt,
         updatedAt: doc.updatedAt,
       }));
@@ -39,6 +39,7 @@ export const registerGetWorkspaceIntegration = (app: express.Application) => {
             commandName: string;
             commandId: string;
           };
+          botUsername?: string;
         };
 
         // Track integration view
@@ -64,6 +65,7 @@ export const registerGetWorkspaceIntegration = (app: express.Application) => {
           lastUsedAt: integration.lastUsedAt || null,
           createdAt: integration.createdAt,
           discordCommand: config.discordCommand,
+          botUsername: config.botUsername,
         });
       } catch (error) {
         handleError(error, next, "GET /api/workspaces/:workspaceId/integrations/:integrationId");
@@ -51,6 +51,7 @@ export const registerGetWorkspaceIntegrations = (app: express.Application) => {
               commandName: string;
               commandId: string;
             };
+            botUsername?: string;
           };
 
           return {
@@ -63,6 +64,7 @@ export const registerGetWorkspaceIntegrations = (app: express.Application) => {
             lastUsedAt: integration.lastUsedAt || null,
             createdAt: integration.createdAt,
             discordCommand: config.discordCommand,
+            botUsername: config.botUsername,
           };
         });
 
@@ -170,6 +170,8 @@ export const registerGetWorkspaceUsage = (app: express.Application) => {
           messagesIn: stats.messagesIn,
           messagesOut: stats.messagesOut,
           totalMessages: stats.totalMessages,
+          positiveFeedback: stats.positiveFeedback,
+          negativeFeedback: stats.negativeFeedback,
           byModel: Object.entries(stats.byModel)
             .filter(([, modelStats]) => modelStats.totalTokens > 0)
             .map(([model, modelStats]) => ({
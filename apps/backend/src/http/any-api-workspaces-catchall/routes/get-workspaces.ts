@@ -2,6 +2,7 @@ import { unauthorized } from "@hapi/boom";
 import express from "express";
 
 import { database } from "../../../tables";
+import { isWorkspaceInApiKeyScope } from "../../../utils/apiKeyScope";
 import { asyncHandler, requireAuth } from "../middleware";
 
 /**
@@ -61,8 +62,15 @@ export const registerGetWorkspaces = (app: express.Application) => {
         return res.json({ workspaces: [] });
       }
 
-      // Get workspace IDs from permissions
-      const workspaceIds = permissions.items.map((p) => p.pk);
+      // Get workspace IDs from permissions (API keys bound to workspaces only see those)
+      const workspaceIds = permissions.items
+        .map((p) => p.pk)
+        .filter((pk) =>
+          isWorkspaceInApiKeyScope(
+            req.apiKeyScope,
+            pk.replace("workspaces/", "")
+          )
+        );
 
       // Get workspace entities (using individual gets since batchGet doesn't support sort keys)
       const workspaces = await Promise.all(
@@ -3,6 +3,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { renameDocument, generateUniqueFilename } from "../../../utils/s3";
 import { trackBusinessEvent } from "../../../utils/tracking";
 import { validateBody } from "../../utils/bodyValidation";
@@ -146,6 +147,15 @@ export const registerPatchRenameDocument = (app: express.Application) => {
         null
       );
 
+      await recordAuditEvent(req, workspaceId, {
+        action: "updated",
+        resourceType: "document",
+        resourceId: documentId,
+        resourceName: updated.name,
+        changedFields: ["name"],
+        details: { previousName: document.name },
+      });
+
       // Track document rename
       trackBusinessEvent(
         "document",
@@ -3,17 +3,41 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
+import {
+  TELEGRAM_BOT_TOKEN_PATTERN,
+  generateTelegramSecretToken,
+  getTelegramBotInfo,
+  setTelegramWebhook,
+} from "../../../utils/telegramApi";
 import { trackBusinessEvent } from "../../../utils/tracking";
 import { validateBody } from "../../utils/bodyValidation";
 import { updateIntegrationSchema } from "../../utils/schemas/workspaceSchemas";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
+/**
+ * Validates config.messageHistoryCount (0-100) when provided
+ */
+function validateMessageHistoryCount(messageHistoryCount: unknown): void {
+  if (
+    messageHistoryCount !== undefined &&
+    (typeof messageHistoryCount !== "number" ||
+      !Number.isInteger(messageHistoryCount) ||
+      messageHistoryCount < 0 ||
+      messageHistoryCount > 100)
+  ) {
+    throw badRequest(
+      "config.messageHistoryCount must be an integer between 0 and 100"
+    );
+  }
+}
+
 /**
  * @openapi
  * /api/workspaces/{workspaceId}/integrations/{integrationId}:
  *   patch:
  *     summary: Update bot integration
- *     description: Updates a bot integration (status, name, config)
+ *     description: Updates a bot integration (status, name, config). Updating the config of a Telegram integration re-registers its webhook
  *     tags:
  *       - Integrations
  *     security:
@@ -87,19 +111,7 @@ export const registerPatchWorkspaceIntegration = (app: express.Application) => {
             ) {
               throw badRequest("config.signingSecret must be a string");
             }
-            // Validate messageHistoryCount if provided
-            if (config.messageHistoryCount !== undefined) {
-              if (
-                typeof config.messageHistoryCount !== "number" ||
-                !Number.isInteger(config.messageHistoryCount) ||
-                config.messageHistoryCount < 0 ||
-                config.messageHistoryCount > 100
-              ) {
-                throw badRequest(
-                  "config.messageHistoryCount must be an integer between 0 and 100"
-                );
-              }
-            }
+            validateMessageHistoryCount(config.messageHistoryCount);
           } else if (integration.platform === "discord") {
             if (
               config.botToken !== undefined &&
@@ -117,8 +129,54 @@ export const registerPatchWorkspaceIntegration = (app: express.Application) => {
                 );
               }
             }
+          } else if (integration.platform === "teams") {
+            for (const field of ["appId", "appPassword", "tenantId"]) {
+              if (
+                config[field] !== undefined &&
+                typeof config[field] !== "string"
+              ) {
+                throw badRequest(`config.${field} must be a string`);
+              }
+            }
+            validateMessageHistoryCount(config.messageHistoryCount);
+          } else if (integration.platform === "telegram") {
+            if (
+              config.botToken !== undefined &&
+              (typeof config.botToken !== "string" ||
+                !TELEGRAM_BOT_TOKEN_PATTERN.test(config.botToken))
+            ) {
+              throw badRequest("config.botToken must be a valid bot token");
+            }
+            validateMessageHistoryCount(config.messageHistoryCount);
           }
           updates.config = { ...integration.config, ...config };
+
+          if (integration.platform === "telegram") {
+            // Bot identity and secret are managed server-side. Re-registering the
+            // webhook also repoints bots of imported workspaces at this integration.
+            const botToken = updates.config.botToken as string;
+            try {
+              const botInfo = await getTelegramBotInfo(botToken);
+              const secretToken = generateTelegramSecretToken();
+              await setTelegramWebhook(
+                botToken,
+                integration.webhookUrl,
+                secretToken
+              );
+              updates.config = {
+                ...updates.config,
+                botUsername: botInfo.username,
+                botUserId: botInfo.id,
+                secretToken,
+              };
+            } catch (error) {
+              throw badRequest(
+                `Failed to register the Telegram webhook: ${
+                  error instanceof Error ? error.message : String(error)
+                }`
+              );
+            }
+          }
         }
 
         const updated = await db["bot-integration"].update({
@@ -132,6 +190,7 @@ export const registerPatchWorkspaceIntegration = (app: express.Application) => {
             commandName: string;
             commandId: string;
           };
+          botUsername?: string;
         };
 
         // Track integration update
@@ -140,6 +199,15 @@ export const registerPatchWorkspaceIntegration = (app: express.Application) => {
         if (status !== undefined) updatedFields.push("status");
         if (config !== undefined) updatedFields.push("config");
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "updated",
+          resourceType: "integration",
+          resourceId: integrationId,
+          resourceName: updated.name,
+          agentId: updated.agentId,
+          changedFields: updatedFields,
+        });
+
         trackBusinessEvent(
           "integration",
           "updated",
@@ -165,6 +233,7 @@ export const registerPatchWorkspaceIntegration = (app: express.Application) => {
           createdAt: updated.createdAt,
           updatedAt: updated.updatedAt,
           discordCommand: updatedConfig.discordCommand,
+          botUsername: updatedConfig.botUsername,
         });
       } catch (error) {
         handleError(
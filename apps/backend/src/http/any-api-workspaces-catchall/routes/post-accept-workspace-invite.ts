@@ -1,6 +1,7 @@
 import { badRequest, notFound } from "@hapi/boom";
 import express from "express";
 
+import { recordAuditEvent } from "../../../utils/auditLog";
 import {
   acceptWorkspaceInvite,
   getWorkspaceInviteByToken,
@@ -113,6 +114,17 @@ export const registerPostAcceptWorkspaceInvite = (app: express.Application) => {
         );
       }
 
+      // Unauthenticated acceptances have no actor; the invite email identifies them
+      await recordAuditEvent(req, workspaceId, {
+        action: "created",
+        resourceType: "member",
+        resourceName: invite.email,
+        details: {
+          via: "invite",
+          permissionLevel: acceptedInvite.permissionLevel,
+        },
+      });
+
       // Return JSON response with callback URL if unauthenticated
       // Frontend will redirect to the callback URL
       res.json({
@@ -0,0 +1,139 @@
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import {
+  buildAgentConfigRestoreUpdate,
+  getAgentConfigVersionOrThrow,
+  parseConfigVersionParam,
+  updateAgentWithConfigVersion,
+} from "../../../utils/agentConfigVersions";
+import { recordAuditEvent } from "../../../utils/auditLog";
+import { trackBusinessEvent } from "../../../utils/tracking";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+import {
+  buildAgentResponse,
+  cleanRestoredAgentReferences,
+  getAgentOrThrow,
+} from "./agentUpdate";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/versions/{version}/restore:
+ *   post:
+ *     summary: Restore an agent configuration version
+ *     description: Replaces the agent configuration with the configuration of an earlier version. The restore is recorded as a new version, so it can be undone as well. References to MCP servers, agents and channels deleted since are dropped.
+ *     tags:
+ *       - Agents
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: version
+ *         in: path
+ *         required: true
+ *         description: Configuration version number to restore
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Agent with the restored configuration
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Agent'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       410:
+ *         description: Agent or version not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerPostAgentConfigVersionRestore = (
+  app: express.Application
+) => {
+  app.post(
+    "/api/workspaces/:workspaceId/agents/:agentId/versions/:version/restore",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.WRITE),
+    asyncHandler(async (req, res) => {
+      const db = await database();
+      const { workspaceId, agentId } = req.params;
+      const configVersion = parseConfigVersionParam(
+        req.params.version,
+        "version"
+      );
+      const agent = await getAgentOrThrow({ db, workspaceId, agentId });
+      const record = await getAgentConfigVersionOrThrow(
+        db,
+        workspaceId,
+        agentId,
+        configVersion
+      );
+
+      const config = await cleanRestoredAgentReferences({
+        db,
+        workspaceId,
+        agentId,
+        config: record.config,
+      });
+      const updated = await updateAgentWithConfigVersion(
+        db,
+        agent,
+        {
+          ...buildAgentConfigRestoreUpdate(agent, config),
+          updatedBy: req.userRef,
+        },
+        {
+          source: "restored",
+          createdBy: req.userRef,
+          restoredFromVersion: configVersion,
+        }
+      );
+
+      await recordAuditEvent(req, workspaceId, {
+        action: "updated",
+        resourceType: "agent",
+        resourceId: agentId,
+        resourceName: updated.name,
+        details: {
+          restoredFromVersion: configVersion,
+          configVersion: updated.configVersion,
+        },
+      });
+
+      trackBusinessEvent(
+        "agent",
+        "version_restored",
+        {
+          workspace_id: workspaceId,
+          agent_id: agentId,
+          config_version: configVersion,
+        },
+        req
+      );
+
+      res.json(buildAgentResponse({ agentId, updated }));
+    })
+  );
+};
@@ -0,0 +1,119 @@
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordConversationFeedback } from "../../../utils/conversationFeedback";
+import { trackBusinessEvent } from "../../../utils/tracking";
+import { validateBody } from "../../utils/bodyValidation";
+import { conversationFeedbackSchema } from "../../utils/schemas/workspaceSchemas";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/conversations/{conversationId}/feedback:
+ *   post:
+ *     summary: Record end-user feedback on an agent reply
+ *     description: Records a thumbs up or down, with an optional comment, that an end user gave a reply in your own integration. The reply is identified by the request ID its messages carry (`awsRequestId`). A new rating by the same `userId` replaces their earlier rating of the reply. Feedback is counted in usage analytics and can be used to improve the agent's prompt.
+ *     tags:
+ *       - Agents
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: conversationId
+ *         in: path
+ *         required: true
+ *         description: Conversation ID
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - messageId
+ *               - rating
+ *             properties:
+ *               messageId:
+ *                 type: string
+ *                 description: Request ID of the rated reply
+ *               rating:
+ *                 type: string
+ *                 enum: [positive, negative]
+ *               comment:
+ *                 type: string
+ *                 maxLength: 2000
+ *               userId:
+ *                 type: string
+ *                 maxLength: 256
+ *                 description: End user ID in your integration
+ *     responses:
+ *       200:
+ *         description: Feedback recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ConversationFeedback'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerPostAgentConversationFeedback = (
+  app: express.Application
+) => {
+  app.post(
+    "/api/workspaces/:workspaceId/agents/:agentId/conversations/:conversationId/feedback",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.WRITE),
+    asyncHandler(async (req, res) => {
+      const body = validateBody(req.body, conversationFeedbackSchema);
+      const db = await database();
+      const { workspaceId, agentId, conversationId } = req.params;
+
+      const feedback = await recordConversationFeedback(db, {
+        workspaceId,
+        agentId,
+        conversationId,
+        messageId: body.messageId,
+        rating: body.rating,
+        comment: body.comment,
+        source: "api",
+        userId: body.userId,
+      });
+
+      trackBusinessEvent(
+        "conversation",
+        "feedback_recorded",
+        {
+          workspace_id: workspaceId,
+          agent_id: agentId,
+          rating: body.rating,
+          has_comment: !!feedback.comment,
+        },
+        req
+      );
+
+      res.json(feedback);
+    })
+  );
+};
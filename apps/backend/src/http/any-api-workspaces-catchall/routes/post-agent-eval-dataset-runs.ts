@@ -0,0 +1,174 @@
+import { badRequest } from "@hapi/boom";
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import {
+  getEvalDatasetOrThrow,
+  startEvalRun,
+  toEvalRunResponse,
+} from "../../../utils/evalDataset";
+import { getWorkspaceModelPricingResolver } from "../../../utils/modelEndpoints";
+import { trackBusinessEvent } from "../../../utils/tracking";
+import { validateBody } from "../../utils/bodyValidation";
+import { getDefaultModel } from "../../utils/modelFactory";
+import { startEvalRunSchema } from "../../utils/schemas/workspaceSchemas";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+import { getAgentOrThrow, validateModelName } from "./agentUpdate";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/eval-datasets/{datasetId}/runs:
+ *   post:
+ *     summary: Run an eval dataset
+ *     description: Starts a run of every case of the dataset through the eval queue. The agent answers each case (with the candidate system prompt or model, when given) and the agent's enabled judges score each answer against the expected output and rubric notes. Agent and judge calls are charged like any other request; tools run as they do in production.
+ *     tags:
+ *       - Agents
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: datasetId
+ *         in: path
+ *         required: true
+ *         description: Dataset ID
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               label:
+ *                 type: string
+ *                 description: Name of the run, e.g. the change being tried
+ *               systemPrompt:
+ *                 type: string
+ *                 description: Candidate system prompt used instead of the agent's
+ *               modelName:
+ *                 type: string
+ *                 description: Candidate model used instead of the agent's
+ *     responses:
+ *       202:
+ *         description: Run started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EvalRun'
+ *       400:
+ *         description: Invalid request, empty dataset or no enabled judges
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       410:
+ *         description: Agent or dataset not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerPostAgentEvalDatasetRuns = (app: express.Application) => {
+  app.post(
+    "/api/workspaces/:workspaceId/agents/:agentId/eval-datasets/:datasetId/runs",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.WRITE),
+    asyncHandler(async (req, res) => {
+      const body = validateBody(req.body ?? {}, startEvalRunSchema);
+      const db = await database();
+      const { workspaceId, agentId, datasetId } = req.params;
+      const agent = await getAgentOrThrow({ db, workspaceId, agentId });
+      const dataset = await getEvalDatasetOrThrow(
+        db,
+        workspaceId,
+        agentId,
+        datasetId
+      );
+      if (dataset.cases.length === 0) {
+        throw badRequest("The dataset has no cases");
+      }
+
+      const judgeIds: string[] = [];
+      for await (const judge of db["agent-eval-judge"].queryAsync({
+        IndexName: "byAgentId",
+        KeyConditionExpression: "agentId = :agentId",
+        FilterExpression: "#enabled = :enabled AND workspaceId = :workspaceId",
+        ExpressionAttributeNames: {
+          "#enabled": "enabled",
+        },
+        ExpressionAttributeValues: {
+          ":agentId": agentId,
+          ":enabled": true,
+          ":workspaceId": workspaceId,
+        },
+      })) {
+        judgeIds.push(judge.judgeId);
+      }
+      if (judgeIds.length === 0) {
+        throw badRequest(
+          "The agent has no enabled eval judges to score the run"
+        );
+      }
+
+      const candidateModelName = body.modelName
+        ? await validateModelName({
+            modelName: body.modelName,
+            getModelPricing: await getWorkspaceModelPricingResolver(
+              workspaceId,
+              body.modelName
+            ),
+          })
+        : undefined;
+      const overrides = {
+        ...(body.systemPrompt && { systemPrompt: body.systemPrompt }),
+        ...(candidateModelName && { modelName: candidateModelName }),
+      };
+
+      const run = await startEvalRun(db, {
+        dataset,
+        judgeIds,
+        modelName: candidateModelName ?? agent.modelName ?? getDefaultModel(),
+        configVersion: agent.configVersion,
+        label: body.label || undefined,
+        overrides: Object.keys(overrides).length > 0 ? overrides : undefined,
+        createdBy: req.userRef,
+      });
+
+      trackBusinessEvent(
+        "agent_eval_dataset",
+        "run_started",
+        {
+          workspace_id: workspaceId,
+          agent_id: agentId,
+          dataset_id: datasetId,
+          run_id: run.runId,
+          case_count: run.caseCount,
+          has_overrides: run.overrides !== undefined,
+        },
+        req
+      );
+
+      res.status(202).json(toEvalRunResponse(run));
+    })
+  );
+};
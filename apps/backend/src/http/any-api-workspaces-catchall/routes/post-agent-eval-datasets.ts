@@ -0,0 +1,124 @@
+import { randomUUID } from "crypto";
+
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
+import {
+  buildEvalDatasetPk,
+  EVAL_DATASET_SK,
+  normalizeEvalDatasetCases,
+  toEvalDatasetResponse,
+} from "../../../utils/evalDataset";
+import { trackBusinessEvent } from "../../../utils/tracking";
+import { validateBody } from "../../utils/bodyValidation";
+import { createEvalDatasetSchema } from "../../utils/schemas/workspaceSchemas";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+import { getAgentOrThrow } from "./agentUpdate";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/eval-datasets:
+ *   post:
+ *     summary: Create an eval dataset
+ *     description: Creates an offline eval dataset of input messages, each optionally with an expected answer and rubric notes for the judges
+ *     tags:
+ *       - Agents
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/EvalDatasetInput'
+ *     responses:
+ *       201:
+ *         description: Eval dataset created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EvalDataset'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       410:
+ *         description: Agent not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerPostAgentEvalDatasets = (app: express.Application) => {
+  app.post(
+    "/api/workspaces/:workspaceId/agents/:agentId/eval-datasets",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.WRITE),
+    asyncHandler(async (req, res) => {
+      const body = validateBody(req.body, createEvalDatasetSchema);
+      const db = await database();
+      const { workspaceId, agentId } = req.params;
+      await getAgentOrThrow({ db, workspaceId, agentId });
+
+      const datasetId = randomUUID();
+      const dataset = await db["agent-eval-dataset"].create({
+        pk: buildEvalDatasetPk(workspaceId, agentId, datasetId),
+        sk: EVAL_DATASET_SK,
+        workspaceId,
+        agentId,
+        datasetId,
+        name: body.name,
+        ...(body.description?.trim() && {
+          description: body.description.trim(),
+        }),
+        cases: normalizeEvalDatasetCases(body.cases),
+        ...(req.userRef && { createdBy: req.userRef }),
+      });
+
+      await recordAuditEvent(req, workspaceId, {
+        action: "created",
+        resourceType: "eval-dataset",
+        resourceId: datasetId,
+        resourceName: dataset.name,
+        agentId,
+        details: { caseCount: dataset.cases.length },
+      });
+
+      trackBusinessEvent(
+        "agent_eval_dataset",
+        "created",
+        {
+          workspace_id: workspaceId,
+          agent_id: agentId,
+          dataset_id: datasetId,
+          case_count: dataset.cases.length,
+        },
+        req
+      );
+
+      res
+        .status(201)
+        .json(toEvalDatasetResponse(dataset, { includeCases: true }));
+    })
+  );
+};
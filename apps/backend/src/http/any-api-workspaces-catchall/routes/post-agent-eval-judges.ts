@@ -8,6 +8,7 @@ import { PERMISSION_LEVELS } from "../../../tables/schema";
 import {
   buildEvalJudgeRecordForCreate,
 } from "../../../utils/agentEvalJudge";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import {
   ensureAgentEvalJudgeCreationAllowed,
 } from "../../../utils/subscriptionUtils";
@@ -70,6 +71,12 @@ import { handleError, requireAuth, requirePermission } from "../middleware";
  *               modelName:
  *                 type: string
  *                 description: Model name for the judge
+ *               fallbackModelNames:
+ *                 type: array
+ *                 maxItems: 3
+ *                 items:
+ *                   type: string
+ *                 description: Models tried in order when the judge's model fails with a provider error or timeout
  *               evalPrompt:
  *                 type: string
  *                 description: Evaluation prompt template
@@ -99,6 +106,7 @@ export const registerPostAgentEvalJudges = (app: express.Application) => {
           samplingProbability,
           provider,
           modelName,
+          fallbackModelNames,
           evalPrompt,
         } = body;
 
@@ -142,6 +150,7 @@ export const registerPostAgentEvalJudges = (app: express.Application) => {
             samplingProbability,
             provider,
             modelName,
+            fallbackModelNames,
             evalPrompt,
           }
         );
@@ -149,6 +158,14 @@ export const registerPostAgentEvalJudges = (app: express.Application) => {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         await (db as any)["agent-eval-judge"].create(judgeRecord);
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "created",
+          resourceType: "eval-judge",
+          resourceId: judgeId,
+          resourceName: name,
+          agentId,
+        });
+
         const created = judgeRecord as { createdAt: string };
         res.status(201).json({
           id: judgeId,
@@ -157,6 +174,7 @@ export const registerPostAgentEvalJudges = (app: express.Application) => {
           samplingProbability: samplingProbability ?? 100,
           provider: provider ?? "openrouter",
           modelName,
+          fallbackModelNames: fallbackModelNames ?? [],
           evalPrompt,
           createdAt: created.createdAt,
         });
@@ -5,6 +5,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import {
   checkSubscriptionLimits,
   ensureWorkspaceSubscription,
@@ -151,6 +152,15 @@ export const registerPostAgentKeys = (app: express.Application) => {
           createdBy: currentUserRef,
         });
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "created",
+          resourceType: "agent-key",
+          resourceId: keyId,
+          resourceName: agentKey.name,
+          agentId,
+          details: { type: agentKey.type || "webhook" },
+        });
+
         res.status(201).json({
           id: keyId,
           key: keyValue,
@@ -0,0 +1,137 @@
+import { resourceGone } from "@hapi/boom";
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
+import { createGraphFact } from "../../../utils/memory/manualMemory";
+import { resolveMemoryPartitionParam } from "../../../utils/memory/memoryPartitions";
+import { trackBusinessEvent } from "../../../utils/tracking";
+import { validateBody } from "../../utils/bodyValidation";
+import { graphFactSchema } from "../../utils/schemas/workspaceSchemas";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/knowledge-graph/facts:
+ *   post:
+ *     summary: Add a knowledge graph fact
+ *     description: Adds a subject-predicate-object fact to the agent's knowledge graph
+ *     tags:
+ *       - Agents
+ *       - Memory
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: endUserId
+ *         in: query
+ *         description: End user whose knowledge graph receives the fact
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/KnowledgeGraphFactInput'
+ *     responses:
+ *       201:
+ *         description: Created fact
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/KnowledgeGraphFact'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       409:
+ *         description: The fact already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: No memory found for the end user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       410:
+ *         description: Agent not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerPostAgentKnowledgeGraphFact = (
+  app: express.Application
+) => {
+  app.post(
+    "/api/workspaces/:workspaceId/agents/:agentId/knowledge-graph/facts",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.WRITE),
+    asyncHandler(async (req, res) => {
+      const body = validateBody(req.body, graphFactSchema);
+      const db = await database();
+      const { workspaceId, agentId } = req.params;
+
+      const agent = await db.agent.get(`agents/${workspaceId}/${agentId}`, "agent");
+      if (!agent) {
+        throw resourceGone("Agent not found");
+      }
+
+      const partitionKey = await resolveMemoryPartitionParam(db, {
+        workspaceId,
+        agentId,
+        endUserId: req.query.endUserId,
+      });
+
+      const fact = await createGraphFact(
+        {
+          workspaceId,
+          agentId,
+          userRef: req.userRef,
+          ...(partitionKey && { partitionKey }),
+        },
+        body
+      );
+
+      await recordAuditEvent(req, workspaceId, {
+        action: "created",
+        resourceType: "knowledge-graph-fact",
+        resourceId: fact.id,
+        agentId,
+        ...(partitionKey && { details: { partitionKey } }),
+      });
+
+      trackBusinessEvent(
+        "agent_knowledge_graph",
+        "fact_created",
+        {
+          workspace_id: workspaceId,
+          agent_id: agentId,
+        },
+        req
+      );
+
+      res.status(201).json(fact);
+    })
+  );
+};
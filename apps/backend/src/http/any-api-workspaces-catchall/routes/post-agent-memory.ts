@@ -0,0 +1,146 @@
+import { resourceGone } from "@hapi/boom";
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
+import { createMemoryRecord } from "../../../utils/memory/manualMemory";
+import { resolveMemoryPartitionParam } from "../../../utils/memory/memoryPartitions";
+import { trackBusinessEvent } from "../../../utils/tracking";
+import { validateBody } from "../../utils/bodyValidation";
+import { createMemoryRecordSchema } from "../../utils/schemas/workspaceSchemas";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/memory:
+ *   post:
+ *     summary: Add an agent memory record
+ *     description: Adds a memory record to a temporal grain of the agent's memory. The record is embedded by the memory write queue, so it shows up in memory search shortly after the request returns.
+ *     tags:
+ *       - Agents
+ *       - Memory
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: endUserId
+ *         in: query
+ *         description: End user whose memory receives the record
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/MemoryRecordInput'
+ *               - type: object
+ *                 properties:
+ *                   grain:
+ *                     type: string
+ *                     enum: [working, daily, weekly, monthly, quarterly, yearly]
+ *                     default: working
+ *     responses:
+ *       202:
+ *         description: Memory record queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 workspaceId:
+ *                   type: string
+ *                 agentId:
+ *                   type: string
+ *                 grain:
+ *                   type: string
+ *                 record:
+ *                   $ref: '#/components/schemas/MemoryRecord'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: No memory found for the end user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       410:
+ *         description: Agent not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerPostAgentMemory = (app: express.Application) => {
+  app.post(
+    "/api/workspaces/:workspaceId/agents/:agentId/memory",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.WRITE),
+    asyncHandler(async (req, res) => {
+      const body = validateBody(req.body, createMemoryRecordSchema);
+      const db = await database();
+      const { workspaceId, agentId } = req.params;
+
+      const agent = await db.agent.get(`agents/${workspaceId}/${agentId}`, "agent");
+      if (!agent) {
+        throw resourceGone("Agent not found");
+      }
+
+      const partitionKey = await resolveMemoryPartitionParam(db, {
+        workspaceId,
+        agentId,
+        endUserId: req.query.endUserId,
+      });
+
+      const grain = body.grain ?? "working";
+      const record = await createMemoryRecord({
+        workspaceId,
+        agentId,
+        grain,
+        content: body.content,
+        timestamp: body.timestamp,
+        ...(partitionKey && { partitionKey }),
+      });
+
+      await recordAuditEvent(req, workspaceId, {
+        action: "created",
+        resourceType: "memory-record",
+        resourceId: record.id,
+        agentId,
+        details: { grain, ...(partitionKey && { partitionKey }) },
+      });
+
+      trackBusinessEvent(
+        "agent_memory",
+        "record_created",
+        {
+          workspace_id: workspaceId,
+          agent_id: agentId,
+          grain,
+        },
+        req
+      );
+
+      res.status(202).json({ workspaceId, agentId, grain, record });
+    })
+  );
+};
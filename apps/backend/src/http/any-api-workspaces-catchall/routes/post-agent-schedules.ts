@@ -6,11 +6,15 @@ import express from "express";
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
 import { buildScheduleRecordForCreate } from "../../../utils/agentSchedule";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import {
   ensureAgentScheduleCreationAllowed,
 } from "../../../utils/subscriptionUtils";
 import { trackBusinessEvent } from "../../../utils/tracking";
-import { requireAgentInWorkspace } from "../../utils/agentScheduleAccess";
+import {
+  requireAgentInWorkspace,
+  requireScheduleDeliveryTarget,
+} from "../../utils/agentScheduleAccess";
 import { validateBody } from "../../utils/bodyValidation";
 import { createAgentScheduleSchema } from "../../utils/schemas/workspaceSchemas";
 import { handleError, requireAuth, requirePermission } from "../middleware";
@@ -20,7 +24,7 @@ import { handleError, requireAuth, requirePermission } from "../middleware";
  * /api/workspaces/{workspaceId}/agents/{agentId}/schedules:
  *   post:
  *     summary: Create a schedule for an agent
- *     description: Creates a new schedule configuration for an agent (UTC cron)
+ *     description: Creates a new schedule configuration for an agent. The cron expression is evaluated in the schedule's timezone (UTC by default)
  *     tags:
  *       - Agents
  *     security:
@@ -54,10 +58,35 @@ import { handleError, requireAuth, requirePermission } from "../middleware";
  *                 description: Schedule name
  *               cronExpression:
  *                 type: string
- *                 description: Cron expression (UTC)
+ *                 description: Cron expression, evaluated in timezone
+ *               timezone:
+ *                 type: string
+ *                 default: UTC
+ *                 description: IANA timezone of the schedule (e.g. Europe/Lisbon)
  *               prompt:
  *                 type: string
- *                 description: First user message for scheduled run
+ *                 description: First user message for scheduled run. Supports {{now}}, {{date}}, {{lastRunAt}}, {{lastRunSummary}}, {{workspaceName}}, {{agentName}} and {{scheduleName}}
+ *               delivery:
+ *                 type: object
+ *                 nullable: true
+ *                 description: Where the final answer of each successful run is sent.
+ *                 properties:
+ *                   type:
+ *                     type: string
+ *                     enum: [channel, email]
+ *                   channelId:
+ *                     type: string
+ *                     description: Output channel ID (type channel)
+ *                   recipients:
+ *                     type: array
+ *                     maxItems: 10
+ *                     items:
+ *                       type: string
+ *                       format: email
+ *                     description: Recipients, sent through the workspace email connection (type email)
+ *                   subjectTemplate:
+ *                     type: string
+ *                     description: Email subject; supports {{scheduleName}}, {{agentName}} and {{date}} (type email)
  *               enabled:
  *                 type: boolean
  *                 default: true
@@ -82,7 +111,7 @@ export const registerPostAgentSchedules = (app: express.Application) => {
     async (req, res, next) => {
       try {
         const body = validateBody(req.body, createAgentScheduleSchema);
-        const { name, cronExpression, prompt } = body;
+        const { name, cronExpression, timezone, prompt, delivery } = body;
         const enabled = body.enabled ?? true;
 
         const db = await database();
@@ -98,6 +127,9 @@ export const registerPostAgentSchedules = (app: express.Application) => {
         const agentId = req.params.agentId;
 
         await requireAgentInWorkspace(db, workspaceId, agentId);
+        if (delivery) {
+          await requireScheduleDeliveryTarget(db, workspaceId, delivery);
+        }
 
         const userId = currentUserRef.replace("users/", "");
         await ensureAgentScheduleCreationAllowed(workspaceId, userId, agentId);
@@ -107,7 +139,7 @@ export const registerPostAgentSchedules = (app: express.Application) => {
           workspaceId,
           agentId,
           scheduleId,
-          { name, cronExpression, prompt, enabled }
+          { name, cronExpression, timezone, prompt, delivery, enabled }
         );
 
         await db["agent-schedule"].create(
@@ -116,6 +148,15 @@ export const registerPostAgentSchedules = (app: express.Application) => {
           >[0]
         );
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "created",
+          resourceType: "schedule",
+          resourceId: scheduleId,
+          resourceName: name,
+          agentId,
+          details: { enabled },
+        });
+
         trackBusinessEvent(
           "agent_schedule",
           "created",
@@ -124,11 +165,13 @@ export const registerPostAgentSchedules = (app: express.Application) => {
             agent_id: agentId,
             schedule_id: scheduleId,
             enabled,
+            delivery_type: delivery?.type ?? null,
           },
           req
         );
 
         const created = scheduleRecord as {
+          timezone: string;
           nextRunAt: number;
           createdAt: string;
         };
@@ -136,7 +179,9 @@ export const registerPostAgentSchedules = (app: express.Application) => {
           id: scheduleId,
           name,
           cronExpression,
+          timezone: created.timezone,
           prompt,
+          delivery: delivery ?? null,
           enabled,
           nextRunAt: created.nextRunAt,
           lastRunAt: null,
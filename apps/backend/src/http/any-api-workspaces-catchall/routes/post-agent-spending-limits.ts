@@ -4,6 +4,7 @@ import express from "express";
 import { database } from "../../../tables";
 import type { AgentRecord } from "../../../tables/schema";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { addSpendingLimit } from "../../../utils/spendingLimitsManagement";
 import { validateBody } from "../../utils/bodyValidation";
 import { createAgentSpendingLimitSchema } from "../../utils/schemas/workspaceSchemas";
@@ -111,6 +112,14 @@ export const registerPostAgentSpendingLimits = (app: express.Application) => {
           agentId
         )) as AgentRecord;
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "created",
+          resourceType: "spending-limit",
+          resourceId: timeFrame,
+          agentId,
+          details: { amount },
+        });
+
         res.json({
           id: agentId,
           name: updated.name,
@@ -0,0 +1,159 @@
+import { resourceGone } from "@hapi/boom";
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
+import {
+  decideToolApproval,
+  enqueueToolApprovalResume,
+  getToolApprovalOrThrow,
+  toToolApprovalResponse,
+} from "../../../utils/toolApproval";
+import { trackBusinessEvent } from "../../../utils/tracking";
+import { validateBody } from "../../utils/bodyValidation";
+import { decideToolApprovalSchema } from "../../utils/schemas/workspaceSchemas";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/tool-approvals/{approvalId}/decision:
+ *   post:
+ *     summary: Decide a tool approval request
+ *     description: Approves (optionally with edited arguments) or rejects a pending tool call. The tool then runs (or is skipped) and the paused conversation resumes in the background; the agent's answer is added to the conversation and posted to the agent's notification channel.
+ *     tags:
+ *       - Agents
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: approvalId
+ *         in: path
+ *         required: true
+ *         description: Approval request ID
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - decision
+ *             properties:
+ *               decision:
+ *                 type: string
+ *                 enum: [approve, reject]
+ *               args:
+ *                 type: object
+ *                 additionalProperties: true
+ *                 description: Edited arguments to run the tool with (approve only)
+ *               reason:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 description: Reason passed to the agent
+ *     responses:
+ *       200:
+ *         description: Decided approval request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ToolApprovalRequest'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       409:
+ *         description: Request was already decided
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       410:
+ *         description: Request not found or expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerPostAgentToolApprovalDecision = (
+  app: express.Application
+) => {
+  app.post(
+    "/api/workspaces/:workspaceId/agents/:agentId/tool-approvals/:approvalId/decision",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.WRITE),
+    asyncHandler(async (req, res) => {
+      const body = validateBody(req.body, decideToolApprovalSchema);
+      const db = await database();
+      const { workspaceId, agentId, approvalId } = req.params;
+
+      const approval = await getToolApprovalOrThrow(
+        db,
+        workspaceId,
+        agentId,
+        approvalId
+      );
+      // Requests past their timeout are expired by the scheduled job
+      if (
+        approval.status === "pending" &&
+        new Date(approval.expiresAt).getTime() <= Date.now()
+      ) {
+        throw resourceGone("Tool approval request expired");
+      }
+
+      const decided = await decideToolApproval(db, {
+        workspaceId,
+        agentId,
+        approvalId,
+        status: body.decision === "approve" ? "approved" : "rejected",
+        decidedBy: req.userRef || "",
+        approvedArgs: body.args,
+        reason: body.reason,
+      });
+      await enqueueToolApprovalResume(decided);
+
+      await recordAuditEvent(req, workspaceId, {
+        action: "updated",
+        resourceType: "agent",
+        resourceId: agentId,
+        details: {
+          toolApprovalId: approvalId,
+          toolName: decided.toolName,
+          decision: decided.status,
+          argsEdited: body.args !== undefined,
+        },
+      });
+
+      trackBusinessEvent(
+        "agent",
+        "tool_approval_decided",
+        {
+          workspace_id: workspaceId,
+          agent_id: agentId,
+          tool_name: decided.toolName,
+          decision: decided.status,
+        },
+        req
+      );
+
+      res.json(toToolApprovalResponse(decided));
+    })
+  );
+};
@@ -3,6 +3,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { validateBody } from "../../utils/bodyValidation";
 import { createEmailConnectionSchema } from "../../utils/schemas/workspaceSchemas";
 import { handleError, requireAuth, requirePermission } from "../middleware";
@@ -176,6 +177,14 @@ export const registerPostEmailConnection = (app: express.Application) => {
             updatedAt: new Date().toISOString(),
           });
 
+          await recordAuditEvent(req, workspaceId, {
+            action: "updated",
+            resourceType: "email-connection",
+            resourceId: emailConnectionType,
+            resourceName: updated.name,
+            changedFields: ["config", "name", "type"],
+          });
+
           res.json({
             name: updated.name,
             type: updated.type,
@@ -194,6 +203,13 @@ export const registerPostEmailConnection = (app: express.Application) => {
             createdBy: currentUserRef,
           });
 
+          await recordAuditEvent(req, workspaceId, {
+            action: "created",
+            resourceType: "email-connection",
+            resourceId: emailConnectionType,
+            resourceName: connection.name,
+          });
+
           res.status(201).json({
             name: connection.name,
             type: connection.type,
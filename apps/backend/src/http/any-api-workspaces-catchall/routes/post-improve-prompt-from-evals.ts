@@ -4,6 +4,10 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import {
+  listAgentFeedbackExamples,
+  type FeedbackExample,
+} from "../../../utils/conversationFeedback";
 import {
   checkPromptGenerationLimit,
   incrementPromptGenerationBucketSafe,
@@ -37,14 +41,19 @@ Your task is to produce a revised system prompt based on:
 1. The current system prompt
 2. The user's improvement instructions
 3. The selected evaluation results
+4. End-user feedback on the agent's replies, when provided
 
 Guidelines:
 - Preserve important constraints and safety requirements from the current system prompt.
 - Focus on actionable, clear instructions.
 - Incorporate improvements suggested by the evaluation summaries and scores.
-- Do not mention the evaluation results directly in the final prompt.
+- Address the problems end users pointed out with negative feedback, and keep what they rated positively.
+- Do not mention the evaluation results or the feedback directly in the final prompt.
 - Return ONLY the updated system prompt text with no extra commentary.`;
 
+/** Most recent end-user ratings sent to the model */
+const MAX_FEEDBACK_EXAMPLES = 30;
+
 type SelectedEvaluationRef = {
   conversationId: string;
   judgeId: string;
@@ -127,6 +136,7 @@ const buildUserMessage = (params: {
   userPrompt: string;
   currentSystemPrompt: string;
   evaluations: EvalPayload[];
+  feedback?: FeedbackExample[];
 }): string => {
   return [
     "User improvement instructions:",
@@ -135,9 +145,22 @@ const buildUserMessage = (params: {
     "Current system prompt:",
     params.currentSystemPrompt.trim(),
     "",
-    "Selected evaluation results (summary + scores):",
-    JSON.stringify(params.evaluations, null, 2),
-    "",
+    ...(params.evaluations.length > 0
+      ? [
+          "Selected evaluation results (summary + scores):",
+          JSON.stringify(params.evaluations, null, 2),
+          "",
+        ]
+      : []),
+    ...(params.feedback
+      ? [
+          "End-user feedback on recent replies (rating, optional comment, rated exchange):",
+          params.feedback.length > 0
+            ? JSON.stringify(params.feedback, null, 2)
+            : "No feedback has been given yet.",
+          "",
+        ]
+      : []),
     "Return only the revised system prompt text.",
   ].join("\n");
 };
@@ -147,7 +170,7 @@ const buildUserMessage = (params: {
  * /api/workspaces/{workspaceId}/agents/{agentId}/improve-prompt-from-evals:
  *   post:
  *     summary: Improve an agent system prompt using evaluation results
- *     description: Generates a revised system prompt based on selected evaluation results and user instructions
+ *     description: Generates a revised system prompt based on selected evaluation results, end-user feedback on recent replies and user instructions
  *     tags:
  *       - Agents
  *     security:
@@ -173,7 +196,6 @@ const buildUserMessage = (params: {
  *             type: object
  *             required:
  *               - userPrompt
- *               - selectedEvaluations
  *             properties:
  *               userPrompt:
  *                 type: string
@@ -192,6 +214,11 @@ const buildUserMessage = (params: {
  *                       type: string
  *                     judgeId:
  *                       type: string
+ *                 description: Evaluation results to improve on. Required unless includeFeedback is set.
+ *               includeFeedback:
+ *                 type: string
+ *                 enum: [negative, all]
+ *                 description: Also send the most recent end-user ratings of the agent's replies (only negative ones, or all) with the rated exchanges
  *     responses:
  *       200:
  *         description: Improved system prompt
@@ -226,7 +253,8 @@ export const registerPostImprovePromptFromEvals = (app: express.Application) =>
     requirePermission(PERMISSION_LEVELS.WRITE),
     asyncHandler(async (req, res) => {
       const body = validateBody(req.body, improvePromptFromEvalsRequestSchema);
-      const { userPrompt, modelName, selectedEvaluations } = body;
+      const { userPrompt, modelName, selectedEvaluations, includeFeedback } =
+        body;
 
       const { workspaceId } = requireWorkspaceContext(req);
       const agentId = req.params.agentId;
@@ -285,6 +313,14 @@ export const registerPostImprovePromptFromEvals = (app: express.Application) =>
         agentId,
         selectedEvaluations,
       });
+      const feedback = includeFeedback
+        ? await listAgentFeedbackExamples(db, {
+            workspaceId,
+            agentId,
+            rating: includeFeedback === "negative" ? "negative" : undefined,
+            limit: MAX_FEEDBACK_EXAMPLES,
+          })
+        : undefined;
 
       await checkPromptGenerationLimit(workspaceId);
 
@@ -296,6 +332,7 @@ export const registerPostImprovePromptFromEvals = (app: express.Application) =>
         userPrompt,
         currentSystemPrompt,
         evaluations,
+        feedback,
       });
       const modelMessages = [{ role: "user" as const, content: userMessageContent }];
 
@@ -438,6 +475,8 @@ export const registerPostImprovePromptFromEvals = (app: express.Application) =>
         {
           workspace_id: workspaceId,
           agent_id: agentId,
+          evaluation_count: selectedEvaluations.length,
+          feedback_count: feedback?.length ?? 0,
         },
         req
       );
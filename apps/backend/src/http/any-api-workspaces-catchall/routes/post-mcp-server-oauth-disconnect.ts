@@ -3,6 +3,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
 /**
@@ -95,6 +96,14 @@ export const registerPostMcpServerOauthDisconnect = (
           updatedAt: new Date().toISOString(),
         });
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "updated",
+          resourceType: "mcp-server",
+          resourceId: serverId,
+          resourceName: server.name,
+          details: { oauth: "disconnected" },
+        });
+
         res.json({ message: "OAuth connection disconnected successfully" });
       } catch (error) {
         handleError(
@@ -5,6 +5,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import {
   isValidPosthogBaseUrl,
   normalizePosthogBaseUrl,
@@ -236,6 +237,14 @@ export const registerPostMcpServer = (app: express.Application) => {
           createdBy: currentUserRef,
         });
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "created",
+          resourceType: "mcp-server",
+          resourceId: serverId,
+          resourceName: server.name,
+          details: { authType, serviceType: server.serviceType },
+        });
+
         // Track MCP server creation
         trackBusinessEvent(
           "mcp_server",
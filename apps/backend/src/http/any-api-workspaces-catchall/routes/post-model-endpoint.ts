@@ -0,0 +1,135 @@
+import { randomUUID } from "crypto";
+
+import { badRequest } from "@hapi/boom";
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
+import {
+  assertModelEndpointHostIsPublic,
+  assertModelEndpointsAvailable,
+  getModelEndpointPk,
+  MODEL_ENDPOINT_SK,
+  toModelEndpointResponse,
+} from "../../../utils/modelEndpoints";
+import { trackBusinessEvent } from "../../../utils/tracking";
+import { validateBody } from "../../utils/bodyValidation";
+import { createModelEndpointSchema } from "../../utils/schemas/workspaceSchemas";
+import { handleError, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/model-endpoints:
+ *   post:
+ *     summary: Create custom model endpoint
+ *     description: Adds a self-hosted OpenAI-compatible model endpoint (vLLM, Ollama, ...) whose models agents and eval judges can use. Calls to it cost no workspace credits. Only available for paid plans.
+ *     tags:
+ *       - Model Endpoints
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - baseUrl
+ *               - models
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Endpoint name
+ *               baseUrl:
+ *                 type: string
+ *                 format: uri
+ *                 description: Base URL of the OpenAI-compatible API (e.g. https://llm.example.com/v1). Must use https and a public host.
+ *               apiKey:
+ *                 type: string
+ *                 description: API key sent as bearer token (optional)
+ *               models:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/ModelEndpointModel'
+ *     responses:
+ *       201:
+ *         description: Model endpoint created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ModelEndpoint'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerPostModelEndpoint = (app: express.Application) => {
+  app.post(
+    "/api/workspaces/:workspaceId/model-endpoints",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.WRITE),
+    async (req, res, next) => {
+      try {
+        const body = validateBody(req.body, createModelEndpointSchema);
+        if (!req.workspaceResource) {
+          throw badRequest("Workspace resource not found");
+        }
+        const workspaceId = req.params.workspaceId;
+        await assertModelEndpointsAvailable(workspaceId);
+        await assertModelEndpointHostIsPublic(body.baseUrl);
+
+        const db = await database();
+        const endpointId = randomUUID();
+        const endpoint = await db["workspace-model-endpoint"].create({
+          pk: getModelEndpointPk(workspaceId, endpointId),
+          sk: MODEL_ENDPOINT_SK,
+          workspaceId,
+          name: body.name,
+          baseUrl: body.baseUrl,
+          apiKey: body.apiKey || undefined,
+          models: body.models,
+        });
+
+        await recordAuditEvent(req, workspaceId, {
+          action: "created",
+          resourceType: "model-endpoint",
+          resourceId: endpointId,
+          resourceName: endpoint.name,
+          details: { modelCount: endpoint.models.length },
+        });
+
+        trackBusinessEvent(
+          "model_endpoint",
+          "created",
+          {
+            workspace_id: workspaceId,
+            endpoint_id: endpointId,
+            model_count: endpoint.models.length,
+          },
+          req
+        );
+
+        res.status(201).json(toModelEndpointResponse(endpoint));
+      } catch (error) {
+        handleError(
+          error,
+          next,
+          "POST /api/workspaces/:workspaceId/model-endpoints"
+        );
+      }
+    }
+  );
+};
@@ -2,6 +2,7 @@ import { badRequest } from "@hapi/boom";
 import express from "express";
 
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { validateBody } from "../../utils/bodyValidation";
 import { createStreamServerSchema } from "../../utils/schemas/workspaceSchemas";
 import { asyncHandler, requireAuth, requirePermission } from "../middleware";
@@ -106,6 +107,14 @@ export const registerPostStreamServers = (app: express.Application) => {
         allowedOrigins
       );
 
+      await recordAuditEvent(req, workspaceId, {
+        action: "created",
+        resourceType: "stream-server",
+        resourceId: agentId,
+        agentId,
+        changedFields: ["allowedOrigins"],
+      });
+
       res.status(201).json({
         secret: config.secret,
         allowedOrigins: config.allowedOrigins,
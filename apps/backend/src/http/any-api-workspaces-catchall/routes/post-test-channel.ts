@@ -102,7 +102,10 @@ export const registerPostTestChannel = (app: express.Application) => {
 
           res.json({
             success: true,
-            message: "Test message sent successfully",
+            message:
+              channel.type === "http"
+                ? "Test message queued for delivery. Check the delivery log for the result."
+                : "Test message sent successfully",
           });
         } catch (error) {
           const errorMessage =
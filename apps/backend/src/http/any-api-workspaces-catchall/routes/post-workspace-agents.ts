@@ -6,8 +6,10 @@ import express from "express";
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
 import { createAgentRecord } from "../../../utils/agentCreate";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { getRandomAvatar, isValidAvatar } from "../../../utils/avatarUtils";
 import { normalizeSummarizationPrompts } from "../../../utils/memory/summarizeMemory";
+import { getWorkspaceModelPricingResolver } from "../../../utils/modelEndpoints";
 import { isImageCapableModel } from "../../../utils/pricing";
 import {
   checkSubscriptionLimits,
@@ -17,6 +19,29 @@ import { validateBody } from "../../utils/bodyValidation";
 import { createAgentSchema } from "../../utils/schemas/workspaceSchemas";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
+import { validateFallbackModelNames, validateToolApproval } from "./agentUpdate";
+
+/**
+ * Verifies that the notification channel of a new agent exists and belongs to the workspace
+ */
+async function validateNewAgentNotificationChannel(
+  db: Awaited<ReturnType<typeof database>>,
+  workspaceId: string,
+  notificationChannelId: string | null | undefined,
+): Promise<void> {
+  if (notificationChannelId === undefined || notificationChannelId === null) {
+    return;
+  }
+  const channelPk = `output-channels/${workspaceId}/${notificationChannelId}`;
+  const channel = await db["output_channel"].get(channelPk, "channel");
+  if (!channel) {
+    throw badRequest("Notification channel not found");
+  }
+  if (channel.workspaceId !== workspaceId) {
+    throw badRequest("Notification channel does not belong to this workspace");
+  }
+}
+
 /**
  * @openapi
  * /api/workspaces/{workspaceId}/agents:
@@ -54,6 +79,31 @@ import { handleError, requireAuth, requirePermission } from "../middleware";
  *                 type: string
  *                 nullable: true
  *                 description: Model name (must be available in pricing config)
+ *               fallbackModelNames:
+ *                 type: array
+ *                 maxItems: 3
+ *                 items:
+ *                   type: string
+ *                 description: Models tried in order when the agent's model fails with a provider error or timeout
+ *               toolApproval:
+ *                 type: object
+ *                 nullable: true
+ *                 description: Tools whose calls wait for a workspace member's approval before they run
+ *                 properties:
+ *                   toolNames:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                       enum: [send_email, send_notification, call_agent, call_agent_async, generate_image]
+ *                   mcpServerToolNames:
+ *                     type: object
+ *                     additionalProperties:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                   timeoutMinutes:
+ *                     type: integer
+ *                     maximum: 10080
  *               clientTools:
  *                 type: array
  *                 items:
@@ -82,6 +132,13 @@ import { handleError, requireAuth, requirePermission } from "../middleware";
  *                 modelName:
  *                   type: string
  *                   nullable: true
+ *                 fallbackModelNames:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 toolApproval:
+ *                   type: object
+ *                   nullable: true
  *                 clientTools:
  *                   type: array
  *                   items:
@@ -114,6 +171,8 @@ export const registerPostWorkspaceAgents = (app: express.Application) => {
           systemPrompt,
           notificationChannelId,
           modelName,
+          fallbackModelNames,
+          toolApproval,
           clientTools,
           enableImageGeneration,
           imageGenerationModel,
@@ -122,6 +181,7 @@ export const registerPostWorkspaceAgents = (app: express.Application) => {
           memoryExtractionEnabled,
           memoryExtractionModel,
           memoryExtractionPrompt,
+          memoryPartitionByEndUser,
         } = body;
         const normalizedSummarizationPrompts =
           normalizeSummarizationPrompts(summarizationPrompts);
@@ -150,35 +210,40 @@ export const registerPostWorkspaceAgents = (app: express.Application) => {
         const agentSk = "agent";
 
         // Validate notificationChannelId if provided (Zod already validated the type)
-        if (
-          notificationChannelId !== undefined &&
-          notificationChannelId !== null
-        ) {
-          // Verify channel exists and belongs to workspace
-          const channelPk = `output-channels/${workspaceId}/${notificationChannelId}`;
-          const channel = await db["output_channel"].get(channelPk, "channel");
-          if (!channel) {
-            throw badRequest("Notification channel not found");
-          }
-          if (channel.workspaceId !== workspaceId) {
-            throw badRequest(
-              "Notification channel does not belong to this workspace",
-            );
-          }
-        }
+        await validateNewAgentNotificationChannel(
+          db,
+          workspaceId,
+          notificationChannelId,
+        );
+
+        // Agents may also use the models of the workspace's custom endpoints
+        const getAgentModelPricing = await getWorkspaceModelPricingResolver(
+          workspaceId,
+          modelName,
+          fallbackModelNames
+        );
 
         // Validate modelName if provided (Zod already validated the type)
         if (modelName !== undefined && modelName !== null) {
           // Validate model exists in pricing config
           // System always uses "openrouter" provider (see agentSetup.ts), regardless of agent.provider field
-          const { getModelPricing } = await import("../../../utils/pricing");
-          const pricing = getModelPricing("openrouter", modelName.trim());
+          const pricing = getAgentModelPricing("openrouter", modelName.trim());
           if (!pricing) {
             throw badRequest(
               `Model "${modelName.trim()}" is not available. Please check available models at /api/models`,
             );
           }
         }
+        const resolvedFallbackModelNames = await validateFallbackModelNames({
+          fallbackModelNames,
+          modelName,
+          getModelPricing: getAgentModelPricing,
+        });
+        const resolvedToolApproval = await validateToolApproval({
+          db,
+          workspaceId,
+          toolApproval,
+        });
 
         const trimmedMemoryExtractionModel =
           typeof memoryExtractionModel === "string"
@@ -251,6 +316,8 @@ export const registerPostWorkspaceAgents = (app: express.Application) => {
             typeof modelName === "string" && modelName.trim()
               ? modelName.trim()
               : undefined,
+          fallbackModelNames: resolvedFallbackModelNames ?? undefined,
+          toolApproval: resolvedToolApproval ?? undefined,
           clientTools: clientTools || undefined,
           memoryExtractionEnabled:
             memoryExtractionEnabled !== undefined
@@ -262,6 +329,10 @@ export const registerPostWorkspaceAgents = (app: express.Application) => {
             memoryExtractionPrompt.trim().length > 0
               ? memoryExtractionPrompt.trim()
               : undefined,
+          memoryPartitionByEndUser:
+            memoryPartitionByEndUser !== undefined
+              ? memoryPartitionByEndUser
+              : undefined,
           enableImageGeneration:
             enableImageGeneration !== undefined
               ? enableImageGeneration
@@ -275,6 +346,13 @@ export const registerPostWorkspaceAgents = (app: express.Application) => {
           createdBy: currentUserRef,
         });
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "created",
+          resourceType: "agent",
+          resourceId: agentId,
+          resourceName: agent.name,
+        });
+
         res.status(201).json({
           id: agentId,
           name: agent.name,
@@ -283,12 +361,15 @@ export const registerPostWorkspaceAgents = (app: express.Application) => {
           memoryExtractionEnabled: agent.memoryExtractionEnabled ?? false,
           memoryExtractionModel: agent.memoryExtractionModel ?? null,
           memoryExtractionPrompt: agent.memoryExtractionPrompt ?? null,
+          memoryPartitionByEndUser: agent.memoryPartitionByEndUser ?? false,
           provider: agent.provider,
           modelName: agent.modelName ?? null,
+          fallbackModelNames: agent.fallbackModelNames ?? [],
           delegatableAgentIds: agent.delegatableAgentIds ?? [],
           enabledMcpServerIds: agent.enabledMcpServerIds ?? [],
           enabledMcpServerToolNames:
             agent.enabledMcpServerToolNames ?? undefined,
+          toolApproval: agent.toolApproval ?? null,
           enableMemorySearch: agent.enableMemorySearch ?? false,
           enableImageGeneration: agent.enableImageGeneration ?? false,
           imageGenerationModel: agent.imageGenerationModel ?? null,
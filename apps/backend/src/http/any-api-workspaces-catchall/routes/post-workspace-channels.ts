@@ -5,6 +5,16 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
+import {
+  assertSystemSenderRecipients,
+  parseEmailChannelConfig,
+  type EmailChannelConfig,
+} from "../../../utils/emailChannel";
+import {
+  generateHttpChannelSecret,
+  parseHttpChannelConfig,
+} from "../../../utils/httpChannel";
 import {
   checkSubscriptionLimits,
   ensureWorkspaceSubscription,
@@ -44,7 +54,7 @@ import { handleError, requireAuth, requirePermission } from "../middleware";
  *             properties:
  *               type:
  *                 type: string
- *                 enum: [discord, slack]
+ *                 enum: [discord, slack, email, http]
  *                 description: Channel type
  *               name:
  *                 type: string
@@ -62,6 +72,30 @@ import { handleError, requireAuth, requirePermission } from "../middleware";
  *                   webhookUrl:
  *                     type: string
  *                     description: Slack webhook URL (required for slack type)
+ *                   recipients:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                       format: email
+ *                     description: Recipient email addresses, 1-10 (required for email type)
+ *                   subjectTemplate:
+ *                     type: string
+ *                     description: "Email subject template (email type). Placeholders: {{title}}, {{channelName}}, {{date}}. Defaults to {{title}}"
+ *                   sender:
+ *                     type: string
+ *                     enum: [workspace, system]
+ *                     description: "Email sender (email type): the workspace email connection (default) or the Helpmaton mailer"
+ *                   url:
+ *                     type: string
+ *                     description: HTTPS endpoint that receives the JSON envelope (required for http type)
+ *                   headers:
+ *                     type: object
+ *                     additionalProperties:
+ *                       type: string
+ *                     description: Custom request headers, e.g. Authorization (http type)
+ *                   secret:
+ *                     type: string
+ *                     description: HMAC-SHA256 signing secret, at least 16 characters (http type). Generated when omitted
  *     responses:
  *       201:
  *         description: Channel created successfully
@@ -79,6 +113,9 @@ import { handleError, requireAuth, requirePermission } from "../middleware";
  *                 createdAt:
  *                   type: string
  *                   format: date-time
+ *                 signingSecret:
+ *                   type: string
+ *                   description: Signing secret of an http channel. Only returned on creation
  *       400:
  *         $ref: '#/components/responses/BadRequest'
  *       401:
@@ -96,7 +133,8 @@ export const registerPostWorkspaceChannels = (app: express.Application) => {
     async (req, res, next) => {
       try {
         const body = validateBody(req.body, createChannelSchema);
-        const { type, name, config } = body;
+        const { type, name } = body;
+        let config = body.config;
 
         // Validate type-specific config
         if (type === "discord") {
@@ -128,6 +166,25 @@ export const registerPostWorkspaceChannels = (app: express.Application) => {
           if (!config.webhookUrl.startsWith("https://hooks.slack.com/services/")) {
             throw badRequest("Invalid Slack webhook URL format. Must start with https://hooks.slack.com/services/");
           }
+        } else if (type === "email") {
+          try {
+            config = parseEmailChannelConfig(config);
+          } catch (error) {
+            throw badRequest(
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+        } else if (type === "http") {
+          try {
+            config = parseHttpChannelConfig({
+              ...config,
+              secret: config.secret ?? generateHttpChannelSecret(),
+            });
+          } catch (error) {
+            throw badRequest(
+              error instanceof Error ? error.message : String(error)
+            );
+          }
         } else {
           throw badRequest(`Unsupported channel type: ${type}`);
         }
@@ -143,6 +200,29 @@ export const registerPostWorkspaceChannels = (app: express.Application) => {
         }
         const workspaceId = req.params.workspaceId;
 
+        if (type === "email" && config.sender === "workspace") {
+          const emailConnection = await db["email-connection"].get(
+            `email-connections/${workspaceId}`,
+            "connection"
+          );
+          if (!emailConnection) {
+            throw badRequest(
+              'Workspace has no email connection. Connect an email account or use config.sender "system"'
+            );
+          }
+        } else if (type === "email" && config.sender === "system") {
+          try {
+            await assertSystemSenderRecipients(
+              workspaceId,
+              (config as EmailChannelConfig).recipients
+            );
+          } catch (error) {
+            throw badRequest(
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+        }
+
         // Ensure workspace has a subscription and check channel limit
         const userId = currentUserRef.replace("users/", "");
         const subscriptionId = await ensureWorkspaceSubscription(
@@ -167,6 +247,14 @@ export const registerPostWorkspaceChannels = (app: express.Application) => {
           createdBy: currentUserRef,
         });
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "created",
+          resourceType: "channel",
+          resourceId: channelId,
+          resourceName: channel.name,
+          details: { type },
+        });
+
         // Track channel creation
         trackBusinessEvent(
           "channel",
@@ -184,6 +272,7 @@ export const registerPostWorkspaceChannels = (app: express.Application) => {
           name: channel.name,
           type: channel.type,
           createdAt: channel.createdAt,
+          ...(type === "http" && { signingSecret: config.secret }),
         });
       } catch (error) {
         handleError(error, next, "POST /api/workspaces/:workspaceId/channels");
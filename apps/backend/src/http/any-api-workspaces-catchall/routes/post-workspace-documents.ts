@@ -6,9 +6,17 @@ import multer from "multer";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
+import {
+  getSupportedDocumentExtensions,
+  isPlainTextDocumentType,
+  isSupportedDocumentType,
+  resolveDocumentContentType,
+} from "../../../utils/documentExtraction/registry";
 import { indexDocument } from "../../../utils/documentIndexing";
 import {
   uploadDocument,
+  uploadExtractedText,
   generateUniqueFilename,
   normalizeFolderPath,
 } from "../../../utils/s3";
@@ -21,7 +29,7 @@ import { trackBusinessEvent } from "../../../utils/tracking";
 import { validateBody } from "../../utils/bodyValidation";
 import { createDocumentSchema, textDocumentsArraySchema } from "../../utils/schemas/workspaceSchemas";
 import { asyncHandler, requireAuth, requirePermission } from "../middleware";
-import { calculateDocumentMetrics } from "../utils";
+import { calculateDocumentMetrics, extractUploadedDocument } from "../utils";
 
 // Configure multer for file uploads
 const upload = multer({
@@ -36,7 +44,7 @@ const upload = multer({
  * /api/workspaces/{workspaceId}/documents:
  *   post:
  *     summary: Upload workspace documents
- *     description: Uploads one or more documents (files or text) to a workspace. Supports up to 50 files. Allowed types are md, txt, and markdown.
+ *     description: Uploads one or more documents (files or text) to a workspace. Supports up to 50 files. Allowed types are md, txt, markdown, pdf, docx, html, htm and csv. PDF, DOCX, HTML and CSV files are converted to markdown for indexing; the extracted text is stored alongside the original and search results cite the page or section.
  *     tags:
  *       - Documents
  *     security:
@@ -173,24 +181,22 @@ export const registerPostWorkspaceDocuments = (app: express.Application) => {
           const originalFilename = file.originalname;
 
           // Validate file type
-          const allowedTypes = [
-            "text/markdown",
-            "text/plain",
-            "text/x-markdown",
-          ];
-          const allowedExtensions = [".md", ".txt", ".markdown"];
-          const fileExt = originalFilename
-            .substring(originalFilename.lastIndexOf("."))
-            .toLowerCase();
-
-          if (
-            !allowedTypes.includes(file.mimetype) &&
-            !allowedExtensions.includes(fileExt)
-          ) {
+          if (!isSupportedDocumentType(file.mimetype, originalFilename)) {
             throw badRequest(
-              `Invalid file type. Allowed: ${allowedExtensions.join(", ")}`
+              `Invalid file type. Allowed: ${getSupportedDocumentExtensions().join(", ")}`
             );
           }
+          const contentType = resolveDocumentContentType(
+            file.mimetype,
+            originalFilename
+          );
+
+          // Convert to markdown sections before storing anything, so unreadable files are rejected
+          const extracted = await extractUploadedDocument(
+            file.buffer,
+            contentType,
+            originalFilename
+          );
 
           // Generate unique filename if conflict exists
           const uniqueFilename = await generateUniqueFilename(
@@ -205,10 +211,22 @@ export const registerPostWorkspaceDocuments = (app: express.Application) => {
             documentId,
             file.buffer,
             uniqueFilename,
-            file.mimetype || "text/plain",
+            contentType,
             folderPath
           );
 
+          // Store the extracted markdown next to non-text originals
+          const extractedS3Key = isPlainTextDocumentType(
+            contentType,
+            originalFilename
+          )
+            ? undefined
+            : await uploadExtractedText(
+                workspaceId,
+                documentId,
+                extracted.markdown
+              );
+
           // Create database record
           const documentPk = `workspace-documents/${workspaceId}/${documentId}`;
           const document = await db["workspace-document"].create({
@@ -219,8 +237,9 @@ export const registerPostWorkspaceDocuments = (app: express.Application) => {
             filename: uniqueFilename,
             folderPath,
             s3Key,
-            contentType: file.mimetype || "text/plain",
+            contentType,
             size: file.size,
+            extractedS3Key,
           });
 
           uploadedDocuments.push({
@@ -234,8 +253,7 @@ export const registerPostWorkspaceDocuments = (app: express.Application) => {
           });
 
           // Index document for search (async, errors are logged but don't block upload)
-          const content = file.buffer.toString("utf-8");
-          await indexDocument(workspaceId, documentId, content, {
+          await indexDocument(workspaceId, documentId, extracted.sections, {
             documentName: document.name,
             folderPath: document.folderPath,
           }).catch((error) => {
@@ -350,6 +368,16 @@ export const registerPostWorkspaceDocuments = (app: express.Application) => {
         }
       }
 
+      for (const doc of uploadedDocuments) {
+        await recordAuditEvent(req, workspaceId, {
+          action: "created",
+          resourceType: "document",
+          resourceId: doc.id,
+          resourceName: doc.name,
+          details: { folderPath: doc.folderPath || "" },
+        });
+      }
+
       // Track document upload(s) - only include document_count for single uploads
       for (const doc of uploadedDocuments) {
         trackBusinessEvent(
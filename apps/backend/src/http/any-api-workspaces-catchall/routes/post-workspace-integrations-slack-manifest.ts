@@ -88,6 +88,7 @@ export const registerPostWorkspaceIntegrationsSlackManifest = (
                 "im:read",
                 "im:write",
                 "mpim:history",
+                "reactions:read",
               ],
             },
           },
@@ -100,6 +101,8 @@ export const registerPostWorkspaceIntegrationsSlackManifest = (
                 "message.groups",
                 "message.im",
                 "message.mpim",
+                "reaction_added",
+                "reaction_removed",
               ],
             },
             interactivity: {
@@ -5,17 +5,45 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
+import {
+  TELEGRAM_BOT_TOKEN_PATTERN,
+  generateTelegramSecretToken,
+  getTelegramBotInfo,
+  setTelegramWebhook,
+} from "../../../utils/telegramApi";
 import { trackBusinessEvent } from "../../../utils/tracking";
 import { validateBody } from "../../utils/bodyValidation";
 import { createIntegrationSchema } from "../../utils/schemas/workspaceSchemas";
 import { handleError, requireAuth, requirePermission } from "../middleware";
 
+/**
+ * Validates config.messageHistoryCount (0-100), defaulting it to 10
+ */
+function validateMessageHistoryCount(config: Record<string, unknown>): void {
+  if (config.messageHistoryCount !== undefined) {
+    if (
+      typeof config.messageHistoryCount !== "number" ||
+      !Number.isInteger(config.messageHistoryCount) ||
+      config.messageHistoryCount < 0 ||
+      config.messageHistoryCount > 100
+    ) {
+      throw badRequest(
+        "config.messageHistoryCount must be an integer between 0 and 100"
+      );
+    }
+  } else {
+    // Set default value of 10
+    config.messageHistoryCount = 10;
+  }
+}
+
 /**
  * @openapi
  * /api/workspaces/{workspaceId}/integrations:
  *   post:
  *     summary: Create a new bot integration
- *     description: Creates a new Slack or Discord bot integration for an agent
+ *     description: Creates a new Slack, Discord, Microsoft Teams or Telegram bot integration for an agent. For Telegram, the webhook is registered with the bot automatically
  *     tags:
  *       - Integrations
  *     security:
@@ -41,7 +69,7 @@ import { handleError, requireAuth, requirePermission } from "../middleware";
  *             properties:
  *               platform:
  *                 type: string
- *                 enum: [slack, discord]
+ *                 enum: [slack, discord, teams, telegram]
  *                 description: Platform type
  *               name:
  *                 type: string
@@ -97,22 +125,7 @@ export const registerPostWorkspaceIntegrations = (app: express.Application) => {
           ) {
             throw badRequest("config.signingSecret is required for Slack");
           }
-          // Validate messageHistoryCount if provided
-          if (config.messageHistoryCount !== undefined) {
-            if (
-              typeof config.messageHistoryCount !== "number" ||
-              !Number.isInteger(config.messageHistoryCount) ||
-              config.messageHistoryCount < 0 ||
-              config.messageHistoryCount > 100
-            ) {
-              throw badRequest(
-                "config.messageHistoryCount must be an integer between 0 and 100"
-              );
-            }
-          } else {
-            // Set default value of 10
-            config.messageHistoryCount = 10;
-          }
+          validateMessageHistoryCount(config);
         } else if (platform === "discord") {
           if (!config.botToken || typeof config.botToken !== "string") {
             throw badRequest("config.botToken is required for Discord");
@@ -126,6 +139,45 @@ export const registerPostWorkspaceIntegrations = (app: express.Application) => {
               "config.publicKey must be a 64-character hex string"
             );
           }
+        } else if (platform === "teams") {
+          if (!config.appId || typeof config.appId !== "string") {
+            throw badRequest("config.appId is required for Teams");
+          }
+          if (!config.appPassword || typeof config.appPassword !== "string") {
+            throw badRequest("config.appPassword is required for Teams");
+          }
+          if (
+            config.tenantId !== undefined &&
+            typeof config.tenantId !== "string"
+          ) {
+            throw badRequest("config.tenantId must be a string");
+          }
+          validateMessageHistoryCount(config);
+        } else if (platform === "telegram") {
+          if (
+            !config.botToken ||
+            typeof config.botToken !== "string" ||
+            !TELEGRAM_BOT_TOKEN_PATTERN.test(config.botToken)
+          ) {
+            throw badRequest(
+              "config.botToken is required for Telegram and must be a valid bot token"
+            );
+          }
+          validateMessageHistoryCount(config);
+          // Resolve the bot identity, used to detect mentions in group chats
+          try {
+            const botInfo = await getTelegramBotInfo(config.botToken);
+            config.botUsername = botInfo.username;
+            config.botUserId = botInfo.id;
+          } catch (error) {
+            throw badRequest(
+              `Invalid Telegram bot token: ${
+                error instanceof Error ? error.message : String(error)
+              }`
+            );
+          }
+          // Generated server-side; Telegram echoes it on every webhook call
+          config.secretToken = generateTelegramSecretToken();
         }
 
         // Generate integration ID
@@ -151,6 +203,22 @@ export const registerPostWorkspaceIntegrations = (app: express.Application) => {
         }
         const webhookUrl = `${baseUrl}/api/webhooks/${platform}/${workspaceId}/${integrationId}`;
 
+        if (platform === "telegram") {
+          try {
+            await setTelegramWebhook(
+              config.botToken as string,
+              webhookUrl,
+              config.secretToken as string
+            );
+          } catch (error) {
+            throw badRequest(
+              `Failed to register the Telegram webhook: ${
+                error instanceof Error ? error.message : String(error)
+              }`
+            );
+          }
+        }
+
         // Create integration
         const integrationPk = `bot-integrations/${workspaceId}/${integrationId}`;
         const integration = await db["bot-integration"].create({
@@ -171,8 +239,18 @@ export const registerPostWorkspaceIntegrations = (app: express.Application) => {
             commandName: string;
             commandId: string;
           };
+          botUsername?: string;
         };
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "created",
+          resourceType: "integration",
+          resourceId: integrationId,
+          resourceName: name,
+          agentId,
+          details: { platform: integration.platform },
+        });
+
         // Track integration creation
         trackBusinessEvent(
           "integration",
@@ -196,6 +274,7 @@ export const registerPostWorkspaceIntegrations = (app: express.Application) => {
           status: integration.status,
           createdAt: integration.createdAt,
           discordCommand: integrationConfig.discordCommand,
+          botUsername: integrationConfig.botUsername,
         });
       } catch (error) {
         handleError(
@@ -3,6 +3,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import {
   checkUserLimit,
   getUserEmailById,
@@ -133,6 +134,14 @@ export const registerPostWorkspaceInvite = (app: express.Application) => {
           currentUserRef
         );
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "created",
+          resourceType: "invite",
+          resourceId: invite.pk.replace(`workspace-invites/${workspaceId}/`, ""),
+          resourceName: invite.email,
+          details: { permissionLevel: level },
+        });
+
         // Get inviter email for email template
         const inviterEmail = await getUserEmailById(
           currentUserRef.replace("users/", "")
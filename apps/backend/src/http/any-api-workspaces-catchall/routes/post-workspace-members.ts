@@ -4,6 +4,7 @@ import express from "express";
 import { database } from "../../../tables";
 import { ensureAuthorization } from "../../../tables/permissions";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { validateBody } from "../../utils/bodyValidation";
 import { createMemberSchema } from "../../utils/schemas/workspaceSchemas";
 import { userRef } from "../../utils/session";
@@ -125,6 +126,13 @@ export const registerPostWorkspaceMembers = (app: express.Application) => {
           memberUserRef
         );
 
+        await recordAuditEvent(req, req.params.workspaceId, {
+          action: "created",
+          resourceType: "member",
+          resourceId: userId,
+          details: { permissionLevel: permission?.type || level },
+        });
+
         res.status(201).json({
           userId,
           userRef: memberUserRef,
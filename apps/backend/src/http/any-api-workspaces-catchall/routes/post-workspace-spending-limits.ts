@@ -4,6 +4,7 @@ import express from "express";
 import { database } from "../../../tables";
 import type { WorkspaceRecord } from "../../../tables/schema";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { addSpendingLimit } from "../../../utils/spendingLimitsManagement";
 import { validateBody } from "../../utils/bodyValidation";
 import { createSpendingLimitSchema } from "../../utils/schemas/workspaceSchemas";
@@ -90,6 +91,13 @@ export const registerPostWorkspaceSpendingLimits = (
           amount,
         })) as WorkspaceRecord;
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "created",
+          resourceType: "spending-limit",
+          resourceId: timeFrame,
+          details: { amount },
+        });
+
         res.json({
           id: updated.pk.replace("workspaces/", ""),
           name: updated.name,
@@ -0,0 +1,117 @@
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { getChangedFields, recordAuditEvent } from "../../../utils/auditLog";
+import {
+  buildEvalDatasetPk,
+  EVAL_DATASET_SK,
+  getEvalDatasetOrThrow,
+  normalizeEvalDatasetCases,
+  toEvalDatasetResponse,
+} from "../../../utils/evalDataset";
+import { validateBody } from "../../utils/bodyValidation";
+import { updateEvalDatasetSchema } from "../../utils/schemas/workspaceSchemas";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/eval-datasets/{datasetId}:
+ *   put:
+ *     summary: Update an eval dataset
+ *     description: Updates the name, description or cases of an offline eval dataset. The given cases replace the existing ones; cases keep their caseId so runs before and after the change can still be compared. Past runs are not affected.
+ *     tags:
+ *       - Agents
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: datasetId
+ *         in: path
+ *         required: true
+ *         description: Dataset ID
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/EvalDatasetInput'
+ *     responses:
+ *       200:
+ *         description: Updated eval dataset
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EvalDataset'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       410:
+ *         description: Dataset not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerPutAgentEvalDataset = (app: express.Application) => {
+  app.put(
+    "/api/workspaces/:workspaceId/agents/:agentId/eval-datasets/:datasetId",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.WRITE),
+    asyncHandler(async (req, res) => {
+      const body = validateBody(req.body, updateEvalDatasetSchema);
+      const db = await database();
+      const { workspaceId, agentId, datasetId } = req.params;
+      const dataset = await getEvalDatasetOrThrow(
+        db,
+        workspaceId,
+        agentId,
+        datasetId
+      );
+
+      const description =
+        body.description === undefined
+          ? undefined
+          : body.description?.trim() || undefined;
+      const updated = await db["agent-eval-dataset"].update({
+        pk: buildEvalDatasetPk(workspaceId, agentId, datasetId),
+        sk: EVAL_DATASET_SK,
+        ...(body.name !== undefined && { name: body.name }),
+        ...(body.description !== undefined && { description }),
+        ...(body.cases !== undefined && {
+          cases: normalizeEvalDatasetCases(body.cases),
+        }),
+        ...(req.userRef && { updatedBy: req.userRef }),
+      });
+
+      await recordAuditEvent(req, workspaceId, {
+        action: "updated",
+        resourceType: "eval-dataset",
+        resourceId: datasetId,
+        resourceName: updated.name,
+        agentId,
+        changedFields: getChangedFields(body, dataset),
+      });
+
+      res.json(toEvalDatasetResponse(updated, { includeCases: true }));
+    })
+  );
+};
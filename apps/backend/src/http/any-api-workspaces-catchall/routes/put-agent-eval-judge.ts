@@ -4,6 +4,7 @@ import express from "express";
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
 import { buildEvalJudgeUpdatePayload } from "../../../utils/agentEvalJudge";
+import { getChangedFields, recordAuditEvent } from "../../../utils/auditLog";
 import { validateBody } from "../../utils/bodyValidation";
 import { updateEvalJudgeSchema } from "../../utils/schemas/workspaceSchemas";
 import { handleError, requireAuth, requirePermission } from "../middleware";
@@ -58,6 +59,11 @@ import { handleError, requireAuth, requirePermission } from "../middleware";
  *                 enum: [google, openai, anthropic, openrouter]
  *               modelName:
  *                 type: string
+ *               fallbackModelNames:
+ *                 type: array
+ *                 maxItems: 3
+ *                 items:
+ *                   type: string
  *               evalPrompt:
  *                 type: string
  *     responses:
@@ -82,8 +88,15 @@ export const registerPutAgentEvalJudge = (app: express.Application) => {
     async (req, res, next) => {
       try {
         const body = validateBody(req.body, updateEvalJudgeSchema);
-        const { name, enabled, samplingProbability, provider, modelName, evalPrompt } =
-          body;
+        const {
+          name,
+          enabled,
+          samplingProbability,
+          provider,
+          modelName,
+          fallbackModelNames,
+          evalPrompt,
+        } = body;
 
         const db = await database();
         const workspaceResource = req.workspaceResource;
@@ -114,6 +127,7 @@ export const registerPutAgentEvalJudge = (app: express.Application) => {
           samplingProbability,
           provider,
           modelName,
+          fallbackModelNames,
           evalPrompt,
         });
 
@@ -126,6 +140,15 @@ export const registerPutAgentEvalJudge = (app: express.Application) => {
           throw resourceGone("Eval judge not found after update");
         }
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "updated",
+          resourceType: "eval-judge",
+          resourceId: judgeId,
+          resourceName: updatedJudge.name,
+          agentId,
+          changedFields: getChangedFields(body, judge),
+        });
+
         res.json({
           id: updatedJudge.judgeId,
           name: updatedJudge.name,
@@ -133,6 +156,7 @@ export const registerPutAgentEvalJudge = (app: express.Application) => {
           samplingProbability: updatedJudge.samplingProbability ?? 100,
           provider: updatedJudge.provider,
           modelName: updatedJudge.modelName,
+          fallbackModelNames: updatedJudge.fallbackModelNames ?? [],
           evalPrompt: updatedJudge.evalPrompt,
           createdAt: updatedJudge.createdAt,
           updatedAt: updatedJudge.updatedAt,
@@ -0,0 +1,138 @@
+import { resourceGone } from "@hapi/boom";
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
+import { updateGraphFact } from "../../../utils/memory/manualMemory";
+import { resolveMemoryPartitionParam } from "../../../utils/memory/memoryPartitions";
+import { trackBusinessEvent } from "../../../utils/tracking";
+import { validateBody } from "../../utils/bodyValidation";
+import { graphFactSchema } from "../../utils/schemas/workspaceSchemas";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/knowledge-graph/facts/{factId}:
+ *   put:
+ *     summary: Edit a knowledge graph fact
+ *     description: Replaces the subject, predicate and object of a fact. Fact IDs are derived from the triple, so the response carries the fact's new ID; if the edited triple already exists, the two facts are merged.
+ *     tags:
+ *       - Agents
+ *       - Memory
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: factId
+ *         in: path
+ *         required: true
+ *         description: Fact ID
+ *         schema:
+ *           type: string
+ *       - name: endUserId
+ *         in: query
+ *         description: End user whose knowledge graph contains the fact
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/KnowledgeGraphFactInput'
+ *     responses:
+ *       200:
+ *         description: Updated fact
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/KnowledgeGraphFact'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Fact not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       410:
+ *         description: Agent not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerPutAgentKnowledgeGraphFact = (
+  app: express.Application
+) => {
+  app.put(
+    "/api/workspaces/:workspaceId/agents/:agentId/knowledge-graph/facts/:factId",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.WRITE),
+    asyncHandler(async (req, res) => {
+      const body = validateBody(req.body, graphFactSchema);
+      const db = await database();
+      const { workspaceId, agentId, factId } = req.params;
+
+      const agent = await db.agent.get(`agents/${workspaceId}/${agentId}`, "agent");
+      if (!agent) {
+        throw resourceGone("Agent not found");
+      }
+
+      const partitionKey = await resolveMemoryPartitionParam(db, {
+        workspaceId,
+        agentId,
+        endUserId: req.query.endUserId,
+      });
+
+      const fact = await updateGraphFact(
+        {
+          workspaceId,
+          agentId,
+          userRef: req.userRef,
+          ...(partitionKey && { partitionKey }),
+        },
+        factId,
+        body
+      );
+
+      await recordAuditEvent(req, workspaceId, {
+        action: "updated",
+        resourceType: "knowledge-graph-fact",
+        resourceId: factId,
+        agentId,
+        ...(partitionKey && { details: { partitionKey } }),
+      });
+
+      trackBusinessEvent(
+        "agent_knowledge_graph",
+        "fact_updated",
+        {
+          workspace_id: workspaceId,
+          agent_id: agentId,
+        },
+        req
+      );
+
+      res.json(fact);
+    })
+  );
+};
@@ -0,0 +1,156 @@
+import { resourceGone } from "@hapi/boom";
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
+import {
+  parseMemoryGrainParam,
+  updateMemoryRecord,
+} from "../../../utils/memory/manualMemory";
+import { resolveMemoryPartitionParam } from "../../../utils/memory/memoryPartitions";
+import { trackBusinessEvent } from "../../../utils/tracking";
+import { validateBody } from "../../utils/bodyValidation";
+import { updateMemoryRecordSchema } from "../../utils/schemas/workspaceSchemas";
+import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/agents/{agentId}/memory/{recordId}:
+ *   put:
+ *     summary: Edit an agent memory record
+ *     description: Replaces the content (and optionally the timestamp) of a memory record. The record is re-embedded by the memory write queue, so memory search returns the new content shortly after the request returns. A working memory record of a conversation is rewritten when that conversation continues.
+ *     tags:
+ *       - Agents
+ *       - Memory
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: recordId
+ *         in: path
+ *         required: true
+ *         description: Memory record ID
+ *         schema:
+ *           type: string
+ *       - name: grain
+ *         in: query
+ *         description: Temporal grain of the record
+ *         schema:
+ *           type: string
+ *           enum: [working, daily, weekly, monthly, quarterly, yearly]
+ *           default: working
+ *       - name: endUserId
+ *         in: query
+ *         description: End user whose memory contains the record
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MemoryRecordInput'
+ *     responses:
+ *       202:
+ *         description: Memory record update queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 workspaceId:
+ *                   type: string
+ *                 agentId:
+ *                   type: string
+ *                 grain:
+ *                   type: string
+ *                 record:
+ *                   $ref: '#/components/schemas/MemoryRecord'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Memory record not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       410:
+ *         description: Agent not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerPutAgentMemoryRecord = (app: express.Application) => {
+  app.put(
+    "/api/workspaces/:workspaceId/agents/:agentId/memory/:recordId",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.WRITE),
+    asyncHandler(async (req, res) => {
+      const body = validateBody(req.body, updateMemoryRecordSchema);
+      const grain = parseMemoryGrainParam(req.query.grain);
+      const db = await database();
+      const { workspaceId, agentId, recordId } = req.params;
+
+      const agent = await db.agent.get(`agents/${workspaceId}/${agentId}`, "agent");
+      if (!agent) {
+        throw resourceGone("Agent not found");
+      }
+
+      const partitionKey = await resolveMemoryPartitionParam(db, {
+        workspaceId,
+        agentId,
+        endUserId: req.query.endUserId,
+      });
+
+      const record = await updateMemoryRecord({
+        workspaceId,
+        agentId,
+        grain,
+        recordId,
+        content: body.content,
+        timestamp: body.timestamp,
+        ...(partitionKey && { partitionKey }),
+      });
+
+      await recordAuditEvent(req, workspaceId, {
+        action: "updated",
+        resourceType: "memory-record",
+        resourceId: recordId,
+        agentId,
+        details: { grain, ...(partitionKey && { partitionKey }) },
+      });
+
+      trackBusinessEvent(
+        "agent_memory",
+        "record_updated",
+        {
+          workspace_id: workspaceId,
+          agent_id: agentId,
+          grain,
+        },
+        req
+      );
+
+      res.status(202).json({ workspaceId, agentId, grain, record });
+    })
+  );
+};
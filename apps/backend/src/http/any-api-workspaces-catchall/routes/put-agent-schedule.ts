@@ -4,10 +4,13 @@ import express from "express";
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
 import {
+  DEFAULT_SCHEDULE_TIMEZONE,
   buildAgentSchedulePk,
   buildScheduleUpdatePayload,
 } from "../../../utils/agentSchedule";
+import { getChangedFields, recordAuditEvent } from "../../../utils/auditLog";
 import { trackBusinessEvent } from "../../../utils/tracking";
+import { requireScheduleDeliveryTarget } from "../../utils/agentScheduleAccess";
 import { validateBody } from "../../utils/bodyValidation";
 import { updateAgentScheduleSchema } from "../../utils/schemas/workspaceSchemas";
 import { handleError, requireAuth, requirePermission } from "../middleware";
@@ -52,8 +55,16 @@ import { handleError, requireAuth, requirePermission } from "../middleware";
  *                 type: string
  *               cronExpression:
  *                 type: string
+ *               timezone:
+ *                 type: string
+ *                 description: IANA timezone of the schedule (e.g. Europe/Lisbon)
  *               prompt:
  *                 type: string
+ *                 description: Supports the same {{variables}} as when creating a schedule
+ *               delivery:
+ *                 type: object
+ *                 nullable: true
+ *                 description: Delivery target, same shape as when creating a schedule. null removes it
  *               enabled:
  *                 type: boolean
  *     responses:
@@ -78,7 +89,8 @@ export const registerPutAgentSchedule = (app: express.Application) => {
     async (req, res, next) => {
       try {
         const body = validateBody(req.body, updateAgentScheduleSchema);
-        const { name, cronExpression, prompt, enabled } = body;
+        const { name, cronExpression, timezone, prompt, delivery, enabled } =
+          body;
 
         const db = await database();
         const workspaceResource = req.workspaceResource;
@@ -111,11 +123,16 @@ export const registerPutAgentSchedule = (app: express.Application) => {
         ) {
           throw badRequest("Schedule does not belong to this agent");
         }
+        if (delivery) {
+          await requireScheduleDeliveryTarget(db, workspaceId, delivery);
+        }
 
         const updateData = buildScheduleUpdatePayload(schedule, {
           name,
           cronExpression,
+          timezone,
           prompt,
+          delivery,
           enabled,
         });
 
@@ -129,6 +146,15 @@ export const registerPutAgentSchedule = (app: express.Application) => {
           throw resourceGone("Schedule not found after update");
         }
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "updated",
+          resourceType: "schedule",
+          resourceId: scheduleId,
+          resourceName: updatedSchedule.name,
+          agentId,
+          changedFields: getChangedFields(body, schedule),
+        });
+
         trackBusinessEvent(
           "agent_schedule",
           "updated",
@@ -140,6 +166,8 @@ export const registerPutAgentSchedule = (app: express.Application) => {
             name_updated: name !== undefined,
             prompt_updated: prompt !== undefined,
             cron_expression_updated: cronExpression !== undefined,
+            timezone_updated: timezone !== undefined,
+            delivery_updated: delivery !== undefined,
             enabled_updated: enabled !== undefined,
           },
           req
@@ -149,7 +177,9 @@ export const registerPutAgentSchedule = (app: express.Application) => {
           id: updatedSchedule.scheduleId,
           name: updatedSchedule.name,
           cronExpression: updatedSchedule.cronExpression,
+          timezone: updatedSchedule.timezone ?? DEFAULT_SCHEDULE_TIMEZONE,
           prompt: updatedSchedule.prompt,
+          delivery: updatedSchedule.delivery ?? null,
           enabled: updatedSchedule.enabled,
           nextRunAt: updatedSchedule.nextRunAt,
           lastRunAt: updatedSchedule.lastRunAt ?? null,
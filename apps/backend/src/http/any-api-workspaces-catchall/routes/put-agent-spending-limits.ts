@@ -4,6 +4,7 @@ import express from "express";
 import { database } from "../../../tables";
 import type { AgentRecord } from "../../../tables/schema";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { updateSpendingLimit } from "../../../utils/spendingLimitsManagement";
 import { validateBody } from "../../utils/bodyValidation";
 import { updateAgentSpendingLimitSchema } from "../../utils/schemas/workspaceSchemas";
@@ -119,6 +120,14 @@ export const registerPutAgentSpendingLimits = (app: express.Application) => {
           agentId
         )) as AgentRecord;
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "updated",
+          resourceType: "spending-limit",
+          resourceId: timeFrame,
+          agentId,
+          details: { amount },
+        });
+
         res.json({
           id: agentId,
           name: updated.name,
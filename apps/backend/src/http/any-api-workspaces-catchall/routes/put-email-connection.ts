@@ -3,6 +3,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { getChangedFields, recordAuditEvent } from "../../../utils/auditLog";
 import { validateBody } from "../../utils/bodyValidation";
 import { updateEmailConnectionSchema } from "../../utils/schemas/workspaceSchemas";
 import { handleError, requireAuth, requirePermission } from "../middleware";
@@ -96,6 +97,8 @@ export const registerPutEmailConnection = (app: express.Application) => {
           throw forbidden("Email connection does not belong to this workspace");
         }
 
+        const changedFields = getChangedFields({ name, config }, connection);
+
         // Validate config if provided
         if (config !== undefined) {
           if (typeof config !== "object") {
@@ -118,6 +121,14 @@ export const registerPutEmailConnection = (app: express.Application) => {
           updatedAt: new Date().toISOString(),
         });
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "updated",
+          resourceType: "email-connection",
+          resourceId: updated.type,
+          resourceName: updated.name,
+          changedFields,
+        });
+
         res.json({
           name: updated.name,
           type: updated.type,
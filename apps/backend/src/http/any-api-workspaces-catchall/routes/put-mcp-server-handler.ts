@@ -2,6 +2,7 @@ import { badRequest, forbidden, resourceGone } from "@hapi/boom";
 import type express from "express";
 
 import { database } from "../../../tables";
+import { getChangedFields, recordAuditEvent } from "../../../utils/auditLog";
 import {
   isValidPosthogBaseUrl,
   normalizePosthogBaseUrl,
@@ -316,6 +317,14 @@ export const handlePutMcpServer = async (
       updatedAt: new Date().toISOString(),
     });
 
+    await recordAuditEvent(req, workspaceId, {
+      action: "updated",
+      resourceType: "mcp-server",
+      resourceId: serverId,
+      resourceName: updated.name,
+      changedFields: getChangedFields(body, server),
+    });
+
     trackBusinessEvent(
       "mcp_server",
       "updated",
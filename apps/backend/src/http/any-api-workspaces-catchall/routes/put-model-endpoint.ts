@@ -0,0 +1,151 @@
+import { badRequest, resourceGone } from "@hapi/boom";
+import express from "express";
+
+import { database } from "../../../tables";
+import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { getChangedFields, recordAuditEvent } from "../../../utils/auditLog";
+import {
+  assertModelEndpointHostIsPublic,
+  assertModelEndpointsAvailable,
+  getModelEndpointPk,
+  getWorkspaceModelEndpoint,
+  MODEL_ENDPOINT_SK,
+  toModelEndpointResponse,
+} from "../../../utils/modelEndpoints";
+import { trackBusinessEvent } from "../../../utils/tracking";
+import { validateBody } from "../../utils/bodyValidation";
+import { updateModelEndpointSchema } from "../../utils/schemas/workspaceSchemas";
+import { handleError, requireAuth, requirePermission } from "../middleware";
+
+/**
+ * @openapi
+ * /api/workspaces/{workspaceId}/model-endpoints/{endpointId}:
+ *   put:
+ *     summary: Update custom model endpoint
+ *     description: Updates a model endpoint. Omitted fields are kept; an empty apiKey removes the key. Models removed from the list stop working for agents and eval judges that use them.
+ *     tags:
+ *       - Model Endpoints
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: endpointId
+ *         in: path
+ *         required: true
+ *         description: Model endpoint ID
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               baseUrl:
+ *                 type: string
+ *                 format: uri
+ *               apiKey:
+ *                 type: string
+ *                 description: New API key, or an empty string to remove it
+ *               models:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/ModelEndpointModel'
+ *     responses:
+ *       200:
+ *         description: Model endpoint updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ModelEndpoint'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       410:
+ *         description: Model endpoint not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const registerPutModelEndpoint = (app: express.Application) => {
+  app.put(
+    "/api/workspaces/:workspaceId/model-endpoints/:endpointId",
+    requireAuth,
+    requirePermission(PERMISSION_LEVELS.WRITE),
+    async (req, res, next) => {
+      try {
+        const body = validateBody(req.body, updateModelEndpointSchema);
+        if (!req.workspaceResource) {
+          throw badRequest("Workspace resource not found");
+        }
+        const workspaceId = req.params.workspaceId;
+        const endpointId = req.params.endpointId;
+
+        const endpoint = await getWorkspaceModelEndpoint(
+          workspaceId,
+          endpointId
+        );
+        if (!endpoint) {
+          throw resourceGone("Model endpoint not found");
+        }
+        await assertModelEndpointsAvailable(workspaceId);
+        if (body.baseUrl !== undefined) {
+          await assertModelEndpointHostIsPublic(body.baseUrl);
+        }
+
+        const db = await database();
+        const updated = await db["workspace-model-endpoint"].update({
+          pk: getModelEndpointPk(workspaceId, endpointId),
+          sk: MODEL_ENDPOINT_SK,
+          name: body.name ?? endpoint.name,
+          baseUrl: body.baseUrl ?? endpoint.baseUrl,
+          apiKey:
+            body.apiKey !== undefined
+              ? body.apiKey || undefined
+              : endpoint.apiKey,
+          models: body.models ?? endpoint.models,
+        });
+
+        await recordAuditEvent(req, workspaceId, {
+          action: "updated",
+          resourceType: "model-endpoint",
+          resourceId: endpointId,
+          resourceName: updated.name,
+          changedFields: getChangedFields(body, endpoint),
+        });
+
+        trackBusinessEvent(
+          "model_endpoint",
+          "updated",
+          {
+            workspace_id: workspaceId,
+            endpoint_id: endpointId,
+          },
+          req
+        );
+
+        res.json(toModelEndpointResponse(updated));
+      } catch (error) {
+        handleError(
+          error,
+          next,
+          "PUT /api/workspaces/:workspaceId/model-endpoints/:endpointId"
+        );
+      }
+    }
+  );
+};
@@ -2,6 +2,7 @@ import { badRequest } from "@hapi/boom";
 import express from "express";
 
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { validateBody } from "../../utils/bodyValidation";
 import { updateStreamServerSchema } from "../../utils/schemas/workspaceSchemas";
 import { asyncHandler, requireAuth, requirePermission } from "../middleware";
@@ -90,6 +91,14 @@ export const registerPutStreamServers = (app: express.Application) => {
         allowedOrigins
       );
 
+      await recordAuditEvent(req, workspaceId, {
+        action: "updated",
+        resourceType: "stream-server",
+        resourceId: agentId,
+        agentId,
+        changedFields: ["allowedOrigins"],
+      });
+
       res.status(200).json({
         allowedOrigins: config.allowedOrigins,
       });
@@ -3,10 +3,13 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { updateAgentWithConfigVersion } from "../../../utils/agentConfigVersions";
 import { getAvailableSkills } from "../../../utils/agentSkills";
 import type { McpServerForSkills } from "../../../utils/agentSkills";
+import { getChangedFields, recordAuditEvent } from "../../../utils/auditLog";
 import { isValidAvatar } from "../../../utils/avatarUtils";
 import { normalizeSummarizationPrompts } from "../../../utils/memory/summarizeMemory";
+import { getWorkspaceModelPricingResolver } from "../../../utils/modelEndpoints";
 import { trackBusinessEvent } from "../../../utils/tracking";
 import { validateBody } from "../../utils/bodyValidation";
 import { updateAgentSchema } from "../../utils/schemas/workspaceSchemas";
@@ -23,14 +26,18 @@ import {
   resolveSearchWebProvider,
   validateClientTools,
   validateDelegatableAgentIds,
+  validateFallbackModelNames,
+  validateToolApproval,
   validateImageGenerationConfig,
   validateKnowledgeConfig,
+  validateKnowledgeFolderPaths,
   validateKnowledgeInjectionEntityExtractorModel,
   validateKnowledgeInjectionSources,
   validateMemoryExtractionModel,
   validateModelName,
   validateModelTuning,
   validateNotificationChannelId,
+  validateOutputSchema,
   validateSpendingLimits,
   validateAvatar,
 } from "./agentUpdate";
@@ -98,6 +105,22 @@ import {
  *                     maxToolRoundtrips:
  *                       type: integer
  *                       nullable: true
+ *                     outputSchema:
+ *                       type: object
+ *                       nullable: true
+ *                       description: JSON Schema that webhook responses must match (structured-output mode)
+ *                     knowledgeFolderPaths:
+ *                       type: array
+ *                       nullable: true
+ *                       items:
+ *                         type: string
+ *                       description: Folders (including subfolders) the agent's document search and knowledge injection are restricted to; null means all workspace documents
+ *                     knowledgeTags:
+ *                       type: array
+ *                       nullable: true
+ *                       items:
+ *                         type: string
+ *                       description: Tags of documents the agent may also read, in any folder; null means no tag scope
  *                     updatedAt:
  *                       type: string
  *                       format: date-time
@@ -169,6 +192,11 @@ export const registerPutWorkspaceAgent = (app: express.Application) => {
             existingEnabledMcpServerToolNames:
               agent.enabledMcpServerToolNames,
           });
+        const resolvedToolApproval = await validateToolApproval({
+          db,
+          workspaceId,
+          toolApproval: body.toolApproval,
+        });
         validateClientTools(body.clientTools);
         validateKnowledgeConfig({
           knowledgeInjectionMinSimilarity: body.knowledgeInjectionMinSimilarity,
@@ -176,6 +204,7 @@ export const registerPutWorkspaceAgent = (app: express.Application) => {
         const resolvedKnowledgeInjectionSources =
           resolveKnowledgeInjectionSources({ body, agent });
         validateKnowledgeInjectionSources(resolvedKnowledgeInjectionSources);
+        validateKnowledgeFolderPaths(body.knowledgeFolderPaths);
         validateModelTuning({
           temperature: body.temperature,
           topP: body.topP,
@@ -184,8 +213,22 @@ export const registerPutWorkspaceAgent = (app: express.Application) => {
           stopSequences: body.stopSequences,
           maxToolRoundtrips: body.maxToolRoundtrips,
         });
+        validateOutputSchema(body.outputSchema);
+        // Agents may also use the models of the workspace's custom endpoints
+        const getAgentModelPricing = await getWorkspaceModelPricingResolver(
+          workspaceId,
+          body.modelName,
+          body.fallbackModelNames
+        );
         const resolvedModelName = await validateModelName({
           modelName: body.modelName,
+          getModelPricing: getAgentModelPricing,
+        });
+        const resolvedFallbackModelNames = await validateFallbackModelNames({
+          fallbackModelNames: body.fallbackModelNames,
+          modelName:
+            body.modelName !== undefined ? body.modelName : agent.modelName,
+          getModelPricing: getAgentModelPricing,
         });
         const resolvedMemoryExtractionModel =
           await validateMemoryExtractionModel({
@@ -286,9 +329,11 @@ export const registerPutWorkspaceAgent = (app: express.Application) => {
           );
         }
 
-        // Update agent
+        // Update agent, recording a configuration version when it changed
         // Convert null to undefined for optional fields to match schema
-        const updated = await db.agent.update(
+        const updated = await updateAgentWithConfigVersion(
+          db,
+          agent,
           buildAgentUpdateParams({
             body,
             agent,
@@ -301,14 +346,25 @@ export const registerPutWorkspaceAgent = (app: express.Application) => {
             resolvedSearchWebProvider,
             resolvedFetchWebProvider,
             resolvedModelName,
+            resolvedFallbackModelNames,
+            resolvedToolApproval,
             resolvedMemoryExtractionModel,
             resolvedKnowledgeInjectionEntityExtractorModel,
             updatedBy: req.userRef || "",
           }),
+          { source: "updated", createdBy: req.userRef },
         );
 
         const response = buildAgentResponse({ agentId, updated });
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "updated",
+          resourceType: "agent",
+          resourceId: agentId,
+          resourceName: updated.name,
+          changedFields: getChangedFields(body, agent),
+        });
+
         // Track agent update
         trackBusinessEvent(
           "agent",
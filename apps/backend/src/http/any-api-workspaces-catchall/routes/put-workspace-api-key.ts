@@ -3,6 +3,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { getWorkspaceSubscription } from "../../../utils/subscriptionUtils";
 import { validateBody } from "../../utils/bodyValidation";
 import { updateApiKeySchema } from "../../utils/schemas/workspaceSchemas";
@@ -95,6 +96,12 @@ export const registerPutWorkspaceApiKey = (app: express.Application) => {
             // Key doesn't exist, that's fine
           }
 
+          await recordAuditEvent(req, workspaceId, {
+            action: "deleted",
+            resourceType: "workspace-api-key",
+            resourceId: provider,
+          });
+
           res.status(204).send();
           return;
         }
@@ -137,6 +144,13 @@ export const registerPutWorkspaceApiKey = (app: express.Application) => {
           });
         }
 
+        // Rotations show up as updates of the provider key
+        await recordAuditEvent(req, workspaceId, {
+          action: existing ? "updated" : "created",
+          resourceType: "workspace-api-key",
+          resourceId: provider,
+        });
+
         res.status(200).json({ success: true });
       } catch (error) {
         handleError(error, next, "PUT /api/workspaces/:workspaceId/api-key");
@@ -3,6 +3,13 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { getChangedFields, recordAuditEvent } from "../../../utils/auditLog";
+import {
+  assertSystemSenderRecipients,
+  parseEmailChannelConfig,
+  type EmailChannelConfig,
+} from "../../../utils/emailChannel";
+import { parseHttpChannelConfig } from "../../../utils/httpChannel";
 import { trackBusinessEvent } from "../../../utils/tracking";
 import { validateBody } from "../../utils/bodyValidation";
 import { updateChannelSchema } from "../../utils/schemas/workspaceSchemas";
@@ -135,11 +142,52 @@ export const registerPutWorkspaceChannel = (app: express.Application) => {
         }
 
         // Merge config if provided
-        const updatedConfig =
+        let updatedConfig =
           config !== undefined
             ? { ...channel.config, ...config }
             : channel.config;
 
+        // Validate the merged config so a stored email/http config is always complete
+        if (channel.type === "email" && config !== undefined) {
+          try {
+            updatedConfig = parseEmailChannelConfig(updatedConfig);
+          } catch (error) {
+            throw badRequest(
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+          if (updatedConfig.sender === "workspace") {
+            const emailConnection = await db["email-connection"].get(
+              `email-connections/${workspaceId}`,
+              "connection"
+            );
+            if (!emailConnection) {
+              throw badRequest(
+                'Workspace has no email connection. Connect an email account or use config.sender "system"'
+              );
+            }
+          } else {
+            try {
+              await assertSystemSenderRecipients(
+                workspaceId,
+                (updatedConfig as EmailChannelConfig).recipients
+              );
+            } catch (error) {
+              throw badRequest(
+                error instanceof Error ? error.message : String(error)
+              );
+            }
+          }
+        } else if (channel.type === "http" && config !== undefined) {
+          try {
+            updatedConfig = parseHttpChannelConfig(updatedConfig);
+          } catch (error) {
+            throw badRequest(
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+        }
+
         // Update channel
         const updated = await db["output_channel"].update({
           pk: channelPk,
@@ -153,6 +201,14 @@ export const registerPutWorkspaceChannel = (app: express.Application) => {
           updatedAt: new Date().toISOString(),
         });
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "updated",
+          resourceType: "channel",
+          resourceId: channelId,
+          resourceName: updated.name,
+          changedFields: getChangedFields(body, channel),
+        });
+
         // Track channel update
         trackBusinessEvent(
           "channel",
@@ -1,21 +1,61 @@
-import { forbidden, resourceGone } from "@hapi/boom";
+import { badRequest, forbidden, resourceGone } from "@hapi/boom";
 import express from "express";
 import multer from "multer";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
-import { updateDocument } from "../../../utils/documentIndexing";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import {
+  getReplacedDocumentFilename,
+  getSupportedDocumentExtensions,
+  isPlainTextDocumentType,
+  isSupportedDocumentType,
+  resolveDocumentContentType,
+} from "../../../utils/documentExtraction/registry";
+import type {
+  DocumentSection,
+  ExtractedDocument,
+} from "../../../utils/documentExtraction/types";
+import {
+  loadIndexableContent,
+  updateDocument,
+} from "../../../utils/documentIndexing";
+import { normalizeDocumentTags } from "../../../utils/documentScope";
+import {
+  deleteS3Object,
   getDocument,
   generateUniqueFilename,
   normalizeFolderPath,
   renameDocument,
   uploadDocument,
+  uploadExtractedText,
 } from "../../../utils/s3";
 import { Sentry, ensureError } from "../../../utils/sentry";
 import { validateBody } from "../../utils/bodyValidation";
 import { updateDocumentSchema } from "../../utils/schemas/workspaceSchemas";
 import { asyncHandler, requireAuth, requirePermission } from "../middleware";
+import { extractUploadedDocument } from "../utils";
+
+/**
+ * Tags arrive as an array in JSON bodies and as a JSON-encoded string in multipart forms
+ */
+function parseTagsField(value: unknown): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw badRequest("tags must be a JSON array of strings");
+  }
+}
+
+function tagsChanged(
+  previous: string[] | undefined,
+  next: string[] | undefined
+): boolean {
+  return (previous ?? []).join(",") !== (next ?? []).join(",");
+}
 
 // Configure multer for file uploads
 const upload = multer({
@@ -30,7 +70,7 @@ const upload = multer({
  * /api/workspaces/{workspaceId}/documents/{documentId}:
  *   put:
  *     summary: Update workspace document
- *     description: Updates document content, name, or folder location. Supports both JSON content and file uploads.
+ *     description: Updates document content, name, or folder location. Supports both JSON content and file uploads. Text content can only be edited for markdown and plain-text documents; PDF, DOCX, HTML and CSV documents are replaced by uploading a new file.
  *     tags:
  *       - Documents
  *     security:
@@ -65,6 +105,9 @@ const upload = multer({
  *               folderPath:
  *                 type: string
  *                 description: New folder path
+ *               tags:
+ *                 type: string
+ *                 description: JSON-encoded array of document tags (replaces the current tags)
  *         application/json:
  *           schema:
  *             type: object
@@ -78,6 +121,11 @@ const upload = multer({
  *               folderPath:
  *                 type: string
  *                 description: New folder path
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Document tags (replaces the current tags); agents can be scoped to documents by tag
  *     responses:
  *       200:
  *         description: Document updated successfully
@@ -98,6 +146,10 @@ const upload = multer({
  *                   type: string
  *                 size:
  *                   type: integer
+ *                 tags:
+ *                   type: array
+ *                   items:
+ *                     type: string
  *                 createdAt:
  *                   type: string
  *                   format: date-time
@@ -150,6 +202,9 @@ export const registerPutWorkspaceDocument = (app: express.Application) => {
       let newSize = document.size;
       let newContentType = document.contentType;
       let newName = document.name;
+      let newExtractedS3Key = document.extractedS3Key;
+      let newTags = document.tags;
+      let extracted: ExtractedDocument | undefined;
 
       // Validate JSON fields in req.body (multipart/form-data may have file fields)
       // Extract only the JSON fields we care about for validation
@@ -157,6 +212,7 @@ export const registerPutWorkspaceDocument = (app: express.Application) => {
         name?: string;
         content?: string;
         folderPath?: string;
+        tags?: unknown;
       } = {};
       if (req.body.name !== undefined)
         jsonFields.name = req.body.name as string;
@@ -164,32 +220,72 @@ export const registerPutWorkspaceDocument = (app: express.Application) => {
         jsonFields.content = req.body.content as string;
       if (req.body.folderPath !== undefined)
         jsonFields.folderPath = req.body.folderPath as string;
+      if (req.body.tags !== undefined)
+        jsonFields.tags = parseTagsField(req.body.tags);
 
       // Validate JSON fields if any are present
       if (Object.keys(jsonFields).length > 0) {
         const validated = validateBody(jsonFields, updateDocumentSchema);
         if (validated.name !== undefined) newName = validated.name;
         if (validated.content !== undefined) {
+          if (
+            !isPlainTextDocumentType(document.contentType, document.filename)
+          ) {
+            throw badRequest(
+              "Content of converted documents (PDF, DOCX, HTML, CSV) cannot be edited as text. Upload a new file instead."
+            );
+          }
           newContent = validated.content;
           newSize = Buffer.byteLength(newContent, "utf-8");
         }
         if (validated.folderPath !== undefined) {
           newFolderPath = normalizeFolderPath(validated.folderPath);
         }
+        if (validated.tags !== undefined) {
+          newTags = normalizeDocumentTags(validated.tags);
+        }
       }
 
       // Handle file upload (only if content field was not provided)
       if (newContent === undefined && req.file) {
+        if (
+          !isSupportedDocumentType(req.file.mimetype, req.file.originalname)
+        ) {
+          throw badRequest(
+            `Invalid file type. Allowed: ${getSupportedDocumentExtensions().join(", ")}`
+          );
+        }
         newContent = req.file.buffer;
         newSize = req.file.size;
-        newContentType = req.file.mimetype || "text/plain";
+        newContentType = resolveDocumentContentType(
+          req.file.mimetype,
+          req.file.originalname
+        );
+        extracted = await extractUploadedDocument(
+          req.file.buffer,
+          newContentType,
+          req.file.originalname
+        );
+
+        // A file of another type changes the extension, which later reads use to pick the extractor
+        const replacedFilename = getReplacedDocumentFilename(
+          document.filename,
+          req.file.originalname
+        );
+        if (replacedFilename !== document.filename) {
+          newFilename = await generateUniqueFilename(
+            workspaceId,
+            replacedFilename,
+            newFolderPath
+          );
+        }
       }
 
       // Handle name update (already validated above)
       if (newName !== document.name) {
         // Use name as new filename (with extension from original if not present)
-        const originalExt = document.filename.substring(
-          document.filename.lastIndexOf(".")
+        const originalExt = newFilename.substring(
+          newFilename.lastIndexOf(".")
         );
         const nameWithExt = newName.includes(".")
           ? newName
@@ -198,7 +294,9 @@ export const registerPutWorkspaceDocument = (app: express.Application) => {
         // Check for conflicts in current folder
         const uniqueFilename = await generateUniqueFilename(
           workspaceId,
-          nameWithExt,
+          extracted && req.file
+            ? getReplacedDocumentFilename(nameWithExt, req.file.originalname)
+            : nameWithExt,
           newFolderPath
         );
 
@@ -224,6 +322,7 @@ export const registerPutWorkspaceDocument = (app: express.Application) => {
 
       // Update content in S3 if provided
       if (newContent !== undefined) {
+        const previousS3Key = newS3Key;
         newS3Key = await uploadDocument(
           workspaceId,
           documentId,
@@ -232,6 +331,26 @@ export const registerPutWorkspaceDocument = (app: express.Application) => {
           newContentType,
           newFolderPath
         );
+        // The new extension stored the file under another key
+        if (newS3Key !== previousS3Key) {
+          await deleteS3Object(previousS3Key);
+        }
+
+        // Keep the extracted markdown in sync with the new original
+        if (
+          extracted &&
+          req.file &&
+          !isPlainTextDocumentType(newContentType, req.file.originalname)
+        ) {
+          newExtractedS3Key = await uploadExtractedText(
+            workspaceId,
+            documentId,
+            extracted.markdown
+          );
+        } else if (newExtractedS3Key) {
+          await deleteS3Object(newExtractedS3Key);
+          newExtractedS3Key = undefined;
+        }
       }
 
       // Update database record
@@ -243,7 +362,9 @@ export const registerPutWorkspaceDocument = (app: express.Application) => {
           folderPath: newFolderPath,
           s3Key: newS3Key,
           contentType: newContentType,
+          extractedS3Key: newExtractedS3Key,
           size: newSize,
+          tags: newTags,
           updatedAt: new Date().toISOString(),
         },
         null
@@ -257,8 +378,10 @@ export const registerPutWorkspaceDocument = (app: express.Application) => {
 
       if (contentChanged || metadataChanged) {
         // Get document content for indexing
-        let contentToIndex: string;
-        if (newContent !== undefined) {
+        let contentToIndex: string | DocumentSection[];
+        if (extracted) {
+          contentToIndex = extracted.sections;
+        } else if (newContent !== undefined) {
           contentToIndex =
             typeof newContent === "string"
               ? newContent
@@ -271,7 +394,11 @@ export const registerPutWorkspaceDocument = (app: express.Application) => {
               documentId,
               newS3Key
             );
-            contentToIndex = contentBuffer.toString("utf-8");
+            contentToIndex = await loadIndexableContent(
+              contentBuffer,
+              updated.contentType,
+              updated.filename
+            );
           } catch (error) {
             console.error(
               `[Document Update] Failed to fetch document content for indexing:`,
@@ -313,6 +440,19 @@ export const registerPutWorkspaceDocument = (app: express.Application) => {
         });
       }
 
+      await recordAuditEvent(req, workspaceId, {
+        action: "updated",
+        resourceType: "document",
+        resourceId: documentId,
+        resourceName: updated.name,
+        changedFields: [
+          ...(contentChanged ? ["content"] : []),
+          ...(newFolderPath !== document.folderPath ? ["folderPath"] : []),
+          ...(newName !== document.name ? ["name"] : []),
+          ...(tagsChanged(document.tags, newTags) ? ["tags"] : []),
+        ],
+      });
+
       res.json({
         id: documentId,
         name: updated.name,
@@ -320,6 +460,7 @@ export const registerPutWorkspaceDocument = (app: express.Application) => {
         folderPath: updated.folderPath,
         contentType: updated.contentType,
         size: updated.size,
+        tags: updated.tags ?? [],
         createdAt: updated.createdAt,
         updatedAt: updated.updatedAt,
       });
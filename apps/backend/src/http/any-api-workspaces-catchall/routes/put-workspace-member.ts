@@ -7,6 +7,7 @@ import {
   getUserAuthorizationLevelForResource,
 } from "../../../tables/permissions";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { validateBody } from "../../utils/bodyValidation";
 import { updateMemberSchema } from "../../utils/schemas/workspaceSchemas";
 import { userRef } from "../../utils/session";
@@ -123,6 +124,11 @@ export const registerPutWorkspaceMember = (app: express.Application) => {
           );
         }
 
+        const previousLevel = await getUserAuthorizationLevelForResource(
+          workspaceResource,
+          memberUserRef
+        );
+
         // Update permission
         await ensureExactAuthorization(
           workspaceResource,
@@ -137,6 +143,17 @@ export const registerPutWorkspaceMember = (app: express.Application) => {
           memberUserRef
         );
 
+        await recordAuditEvent(req, req.params.workspaceId, {
+          action: "updated",
+          resourceType: "member",
+          resourceId: userId,
+          changedFields: ["permissionLevel"],
+          details: {
+            previousPermissionLevel: previousLevel ?? null,
+            permissionLevel: permission?.type || level,
+          },
+        });
+
         res.json({
           userId,
           userRef: memberUserRef,
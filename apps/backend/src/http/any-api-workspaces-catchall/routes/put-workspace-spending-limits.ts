@@ -4,6 +4,7 @@ import express from "express";
 import { database } from "../../../tables";
 import type { WorkspaceRecord } from "../../../tables/schema";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { recordAuditEvent } from "../../../utils/auditLog";
 import { updateSpendingLimit } from "../../../utils/spendingLimitsManagement";
 import { validateBody } from "../../utils/bodyValidation";
 import { updateSpendingLimitSchema } from "../../utils/schemas/workspaceSchemas";
@@ -99,6 +100,13 @@ export const registerPutWorkspaceSpendingLimits = (
           amount
         )) as WorkspaceRecord;
 
+        await recordAuditEvent(req, workspaceId, {
+          action: "updated",
+          resourceType: "spending-limit",
+          resourceId: timeFrame,
+          details: { amount },
+        });
+
         res.json({
           id: updated.pk.replace("workspaces/", ""),
           name: updated.name,
@@ -3,6 +3,7 @@ import express from "express";
 
 import { database } from "../../../tables";
 import { PERMISSION_LEVELS } from "../../../tables/schema";
+import { getChangedFields, recordAuditEvent } from "../../../utils/auditLog";
 import { validateBody } from "../../utils/bodyValidation";
 import { updateWorkspaceSchema } from "../../utils/schemas/workspaceSchemas";
 import { handleError, requireAuth, requirePermission } from "../middleware";
@@ -120,6 +121,14 @@ export const registerPutWorkspace = (app: express.Application) => {
           "[PUT /api/workspaces/:workspaceId] Updated workspace"
         );
 
+        await recordAuditEvent(req, req.params.workspaceId, {
+          action: "updated",
+          resourceType: "workspace",
+          resourceId: req.params.workspaceId,
+          resourceName: updated.name,
+          changedFields: getChangedFields(body, workspace),
+        });
+
         res.json({
           id: updated.pk.replace("workspaces/", ""),
           name: updated.name,
@@ -1,4 +1,8 @@
+import { badRequest } from "@hapi/boom";
+
 import type { Currency } from "../../utils/aggregation";
+import { extractDocumentText } from "../../utils/documentExtraction/registry";
+import type { ExtractedDocument } from "../../utils/documentExtraction/types";
 
 export const ALLOWED_CURRENCIES: Currency[] = ["usd"];
 
@@ -32,3 +36,23 @@ export function calculateDocumentMetrics(
 
   return { totalSize, documentCount };
 }
+
+/**
+ * Run the document text extraction stage for an uploaded file.
+ * Parse failures (corrupt PDF, invalid DOCX, ...) become a 400 for the uploader.
+ */
+export async function extractUploadedDocument(
+  buffer: Buffer,
+  contentType: string,
+  filename: string
+): Promise<ExtractedDocument> {
+  try {
+    return await extractDocumentText(buffer, contentType, filename);
+  } catch (error) {
+    throw badRequest(
+      `Could not extract text from "${filename}": ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
@@ -4,12 +4,16 @@ import { expressErrorHandler } from "../utils/errorHandler";
 import { posthogResetMiddleware } from "../utils/posthogMiddleware";
 
 // Import all route handlers (sorted alphabetically)
+import { registerDeleteAgentEvalDataset } from "./routes/delete-agent-eval-dataset";
 import { registerDeleteAgentEvalJudge } from "./routes/delete-agent-eval-judge";
 import { registerDeleteAgentKey } from "./routes/delete-agent-key";
+import { registerDeleteAgentKnowledgeGraphFact } from "./routes/delete-agent-knowledge-graph-fact";
+import { registerDeleteAgentMemoryRecord } from "./routes/delete-agent-memory-record";
 import { registerDeleteAgentSchedule } from "./routes/delete-agent-schedule";
 import { registerDeleteAgentSpendingLimits } from "./routes/delete-agent-spending-limits";
 import { registerDeleteEmailConnection } from "./routes/delete-email-connection";
 import { registerDeleteMcpServer } from "./routes/delete-mcp-server";
+import { registerDeleteModelEndpoint } from "./routes/delete-model-endpoint";
 import { registerDeleteStreamServers } from "./routes/delete-stream-servers";
 import { registerDeleteWorkspace } from "./routes/delete-workspace";
 import { registerDeleteWorkspaceAgent } from "./routes/delete-workspace-agent";
@@ -20,21 +24,32 @@ import { registerDeleteWorkspaceIntegration } from "./routes/delete-workspace-in
 import { registerDeleteWorkspaceInvite } from "./routes/delete-workspace-invite";
 import { registerDeleteWorkspaceMember } from "./routes/delete-workspace-member";
 import { registerDeleteWorkspaceSpendingLimits } from "./routes/delete-workspace-spending-limits";
+import { registerGetAgentConfigVersion } from "./routes/get-agent-config-version";
+import { registerGetAgentConfigVersionDiff } from "./routes/get-agent-config-version-diff";
+import { registerGetAgentConfigVersions } from "./routes/get-agent-config-versions";
 import { registerGetAgentConversation } from "./routes/get-agent-conversation";
 import { registerGetAgentConversationEvalResults } from "./routes/get-agent-conversation-eval-results";
 import { registerGetAgentConversations } from "./routes/get-agent-conversations";
+import { registerGetAgentEvalDataset } from "./routes/get-agent-eval-dataset";
+import { registerGetAgentEvalDatasets } from "./routes/get-agent-eval-datasets";
 import { registerGetAgentEvalJudge } from "./routes/get-agent-eval-judge";
 import { registerGetAgentEvalJudges } from "./routes/get-agent-eval-judges";
 import { registerGetAgentEvalResults } from "./routes/get-agent-eval-results";
+import { registerGetAgentEvalRun } from "./routes/get-agent-eval-run";
+import { registerGetAgentEvalRunComparison } from "./routes/get-agent-eval-run-comparison";
+import { registerGetAgentEvalRuns } from "./routes/get-agent-eval-runs";
 import { registerGetAgentKeys } from "./routes/get-agent-keys";
 import { registerGetAgentKnowledgeGraph } from "./routes/get-agent-knowledge-graph";
 import {
   registerGetAgentMemory,
   registerGetAgentMemoryRecord,
 } from "./routes/get-agent-memory";
+import { registerGetAgentMemoryPartitions } from "./routes/get-agent-memory-partitions";
 import { registerGetAgentSchedule } from "./routes/get-agent-schedule";
+import { registerGetAgentScheduleRuns } from "./routes/get-agent-schedule-runs";
 import { registerGetAgentSchedules } from "./routes/get-agent-schedules";
 import { registerGetAgentSuggestions } from "./routes/get-agent-suggestions";
+import { registerGetAgentToolApprovals } from "./routes/get-agent-tool-approvals";
 import { registerGetAgentTools } from "./routes/get-agent-tools";
 import { registerGetAgentTransactions } from "./routes/get-agent-transactions";
 import { registerGetAgentUsage } from "./routes/get-agent-usage";
@@ -48,15 +63,20 @@ import { registerGetMcpServerOauthAuthorize } from "./routes/get-mcp-server-oaut
 import { registerGetMcpServerOauthStatus } from "./routes/get-mcp-server-oauth-status";
 import { registerGetMcpServerTools } from "./routes/get-mcp-server-tools";
 import { registerGetMcpServers } from "./routes/get-mcp-servers";
+import { registerGetModelEndpoints } from "./routes/get-model-endpoints";
 import { registerGetStreamServers } from "./routes/get-stream-servers";
 import { registerGetTrialStatus } from "./routes/get-trial-status";
 import { registerGetWorkspaceAgent } from "./routes/get-workspace-agent";
 import { registerGetWorkspaceAgents } from "./routes/get-workspace-agents";
 import { registerGetWorkspaceApiKey } from "./routes/get-workspace-api-key";
 import { registerGetWorkspaceApiKeys } from "./routes/get-workspace-api-keys";
+import { registerGetWorkspaceAuditLog } from "./routes/get-workspace-audit-log";
+import { registerGetWorkspaceAuditLogExport } from "./routes/get-workspace-audit-log-export";
 import { registerGetWorkspaceById } from "./routes/get-workspace-by-id";
 import { registerGetWorkspaceChannel } from "./routes/get-workspace-channel";
+import { registerGetWorkspaceChannelDeliveries } from "./routes/get-workspace-channel-deliveries";
 import { registerGetWorkspaceChannels } from "./routes/get-workspace-channels";
+import { registerGetWorkspaceConversations } from "./routes/get-workspace-conversations";
 import { registerGetWorkspaceDocument } from "./routes/get-workspace-document";
 import { registerGetWorkspaceDocumentFolders } from "./routes/get-workspace-document-folders";
 import { registerGetWorkspaceDocuments } from "./routes/get-workspace-documents";
@@ -76,17 +96,25 @@ import { registerGetWorkspaces } from "./routes/get-workspaces";
 import { registerPatchRenameDocument } from "./routes/patch-rename-document";
 import { registerPatchWorkspaceIntegration } from "./routes/patch-workspace-integration";
 import { registerPostAcceptWorkspaceInvite } from "./routes/post-accept-workspace-invite";
+import { registerPostAgentConfigVersionRestore } from "./routes/post-agent-config-version-restore";
+import { registerPostAgentConversationFeedback } from "./routes/post-agent-conversation-feedback";
+import { registerPostAgentEvalDatasetRuns } from "./routes/post-agent-eval-dataset-runs";
+import { registerPostAgentEvalDatasets } from "./routes/post-agent-eval-datasets";
 import { registerPostAgentEvalJudges } from "./routes/post-agent-eval-judges";
 import { registerPostAgentKeys } from "./routes/post-agent-keys";
+import { registerPostAgentKnowledgeGraphFact } from "./routes/post-agent-knowledge-graph-fact";
+import { registerPostAgentMemory } from "./routes/post-agent-memory";
 import { registerPostAgentSchedules } from "./routes/post-agent-schedules";
 import { registerPostAgentSpendingLimits } from "./routes/post-agent-spending-limits";
 import { registerPostAgentSuggestionsDismiss } from "./routes/post-agent-suggestions-dismiss";
+import { registerPostAgentToolApprovalDecision } from "./routes/post-agent-tool-approval-decision";
 import { registerPostEmailConnection } from "./routes/post-email-connection";
 import { registerPostFileUploadUrl } from "./routes/post-file-upload-url";
 import { registerPostGeneratePrompt } from "./routes/post-generate-prompt";
 import { registerPostImprovePromptFromEvals } from "./routes/post-improve-prompt-from-evals";
 import { registerPostMcpServer } from "./routes/post-mcp-server";
 import { registerPostMcpServerOauthDisconnect } from "./routes/post-mcp-server-oauth-disconnect";
+import { registerPostModelEndpoint } from "./routes/post-model-endpoint";
 import { registerPostStreamServers } from "./routes/post-stream-servers";
 import { registerPostTestChannel } from "./routes/post-test-channel";
 import { registerPostTestEmailConnection } from "./routes/post-test-email-connection";
@@ -105,11 +133,15 @@ import { registerPostWorkspaceSpendingLimits } from "./routes/post-workspace-spe
 import { registerPostWorkspaceSuggestionsDismiss } from "./routes/post-workspace-suggestions-dismiss";
 import { registerPostWorkspaces } from "./routes/post-workspaces";
 import { registerPostWorkspacesOnboardingAgentStream } from "./routes/post-workspaces-onboarding-agent-stream";
+import { registerPutAgentEvalDataset } from "./routes/put-agent-eval-dataset";
 import { registerPutAgentEvalJudge } from "./routes/put-agent-eval-judge";
+import { registerPutAgentKnowledgeGraphFact } from "./routes/put-agent-knowledge-graph-fact";
+import { registerPutAgentMemoryRecord } from "./routes/put-agent-memory-record";
 import { registerPutAgentSchedule } from "./routes/put-agent-schedule";
 import { registerPutAgentSpendingLimits } from "./routes/put-agent-spending-limits";
 import { registerPutEmailConnection } from "./routes/put-email-connection";
 import { registerPutMcpServer } from "./routes/put-mcp-server";
+import { registerPutModelEndpoint } from "./routes/put-model-endpoint";
 import { registerPutStreamServers } from "./routes/put-stream-servers";
 import { registerPutWorkspace } from "./routes/put-workspace";
 import { registerPutWorkspaceAgent } from "./routes/put-workspace-agent";
@@ -209,15 +241,26 @@ export const createApp: () => express.Application = () => {
   registerDeleteAgentKey(app);
   registerDeleteAgentSchedule(app);
   registerGetAgentKnowledgeGraph(app);
+  registerPostAgentKnowledgeGraphFact(app);
+  registerPutAgentKnowledgeGraphFact(app);
+  registerDeleteAgentKnowledgeGraphFact(app);
   registerGetAgentMemory(app);
+  registerPostAgentMemory(app);
   registerGetAgentMemoryRecord(app);
+  registerPutAgentMemoryRecord(app);
+  registerDeleteAgentMemoryRecord(app);
+  registerGetAgentMemoryPartitions(app);
   registerPutWorkspaceApiKey(app);
   registerGetWorkspaceApiKey(app);
   registerGetWorkspaceApiKeys(app);
+  registerGetWorkspaceAuditLog(app);
+  registerGetWorkspaceAuditLogExport(app);
   registerDeleteWorkspaceApiKey(app);
   registerGetAgentConversations(app);
+  registerGetWorkspaceConversations(app);
   registerGetAgentConversation(app);
   registerGetAgentConversationEvalResults(app);
+  registerPostAgentConversationFeedback(app);
   registerGetAgentEvalResults(app);
   registerGetAgentTransactions(app);
   registerGetWorkspaceTransactions(app);
@@ -235,6 +278,7 @@ export const createApp: () => express.Application = () => {
   registerPutWorkspaceChannel(app);
   registerDeleteWorkspaceChannel(app);
   registerPostTestChannel(app);
+  registerGetWorkspaceChannelDeliveries(app);
   registerGetWorkspaceIntegrations(app);
   registerPostWorkspaceIntegrations(app);
   registerPostWorkspaceIntegrationsSlackManifest(app);
@@ -256,6 +300,23 @@ export const createApp: () => express.Application = () => {
   registerGetAgentUsage(app);
   registerGetAgentSchedules(app);
   registerGetAgentSchedule(app);
+  registerGetAgentScheduleRuns(app);
+  registerGetAgentConfigVersions(app);
+  registerGetAgentConfigVersion(app);
+  registerGetAgentConfigVersionDiff(app);
+  registerPostAgentConfigVersionRestore(app);
+  registerGetAgentToolApprovals(app);
+  registerPostAgentToolApprovalDecision(app);
+  registerGetAgentEvalDatasets(app);
+  registerGetAgentEvalDataset(app);
+  registerPostAgentEvalDatasets(app);
+  registerPutAgentEvalDataset(app);
+  registerDeleteAgentEvalDataset(app);
+  registerPostAgentEvalDatasetRuns(app);
+  registerGetAgentEvalRuns(app);
+  // Before the single-run route so "compare" is not taken for a run ID
+  registerGetAgentEvalRunComparison(app);
+  registerGetAgentEvalRun(app);
   registerGetAgentEvalJudges(app);
   registerGetAgentEvalJudge(app);
   registerPostAgentEvalJudges(app);
@@ -272,6 +333,10 @@ export const createApp: () => express.Application = () => {
   registerPostMcpServer(app);
   registerPutMcpServer(app);
   registerDeleteMcpServer(app);
+  registerGetModelEndpoints(app);
+  registerPostModelEndpoint(app);
+  registerPutModelEndpoint(app);
+  registerDeleteModelEndpoint(app);
   registerPostStreamServers(app);
   registerGetStreamServers(app);
   registerPutStreamServers(app);
@@ -94,6 +94,12 @@ initSentry();
  *                         type: integer
  *                       totalMessages:
  *                         type: integer
+ *                       positiveFeedback:
+ *                         type: integer
+ *                         description: End-user thumbs up on agent replies
+ *                       negativeFeedback:
+ *                         type: integer
+ *                         description: End-user thumbs down on agent replies
  *       400:
  *         $ref: '#/components/responses/BadRequest'
  *       401:
@@ -198,6 +204,8 @@ export const handler = adaptHttpHandler(
             messagesIn: mergedStats.messagesIn,
             messagesOut: mergedStats.messagesOut,
             totalMessages: mergedStats.totalMessages,
+            positiveFeedback: mergedStats.positiveFeedback,
+            negativeFeedback: mergedStats.negativeFeedback,
           });
 
           current.setDate(current.getDate() + 1);
@@ -180,6 +180,8 @@ export const handler = adaptHttpHandler(
               messagesIn: mergedStats.messagesIn,
               messagesOut: mergedStats.messagesOut,
               totalMessages: mergedStats.totalMessages,
+              positiveFeedback: mergedStats.positiveFeedback,
+              negativeFeedback: mergedStats.negativeFeedback,
               byModel: Object.entries(mergedStats.byModel).map(
                 ([model, modelStats]) => ({
                   model,
@@ -0,0 +1,188 @@
+import { unauthorized } from "@hapi/boom";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import {
+  createAPIGatewayEventV2,
+  createMockContext,
+} from "../../utils/__tests__/test-helpers";
+
+const { mockValidateWebhookKey, mockDatabase, mockGetRecord } = vi.hoisted(
+  () => ({
+    mockValidateWebhookKey: vi.fn(),
+    mockDatabase: vi.fn(),
+    mockGetRecord: vi.fn(),
+  })
+);
+
+vi.mock("../../utils/requestValidation", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("../../utils/requestValidation")>();
+  return {
+    ...actual,
+    validateWebhookKey: mockValidateWebhookKey,
+  };
+});
+
+vi.mock("../../../tables", () => ({
+  database: mockDatabase,
+}));
+
+vi.mock("../../../utils/conversationRecords", () => ({
+  getRecord: mockGetRecord,
+}));
+
+const getHandler = async () => {
+  const { handler } = await import("../index");
+  return handler;
+};
+
+const buildEvent = () =>
+  createAPIGatewayEventV2({
+    routeKey:
+      "GET /api/webhook/workspace-123/agent-456/key-789/conversations/conversation-1",
+    rawPath:
+      "/api/webhook/workspace-123/agent-456/key-789/conversations/conversation-1",
+    requestContext: {
+      ...createAPIGatewayEventV2().requestContext,
+      http: {
+        ...createAPIGatewayEventV2().requestContext.http,
+        method: "GET",
+      },
+    },
+    pathParameters: {
+      workspaceId: "workspace-123",
+      agentId: "agent-456",
+      key: "key-789",
+      conversationId: "conversation-1",
+    },
+  });
+
+describe("get-api-webhook-000workspaceId-000agentId-000key-conversations-000conversationId handler", () => {
+  const mockContext = createMockContext();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDatabase.mockResolvedValue({});
+    mockValidateWebhookKey.mockResolvedValue("key-id-1");
+  });
+
+  it("returns 202 while the run is still pending", async () => {
+    mockGetRecord.mockResolvedValue(null);
+
+    const handler = await getHandler();
+    const result = (await handler(buildEvent(), mockContext)) as {
+      statusCode: number;
+      headers: Record<string, string>;
+      body: string;
+    };
+
+    expect(mockValidateWebhookKey).toHaveBeenCalledWith(
+      "workspace-123",
+      "agent-456",
+      "key-789"
+    );
+    expect(mockGetRecord).toHaveBeenCalledWith(
+      expect.anything(),
+      "conversations/workspace-123/agent-456/conversation-1"
+    );
+    expect(result.statusCode).toBe(202);
+    expect(result.headers["Cache-Control"]).toBe("no-store");
+    expect(JSON.parse(result.body)).toEqual({
+      conversationId: "conversation-1",
+      workspaceId: "workspace-123",
+      agentId: "agent-456",
+      status: "pending",
+    });
+  });
+
+  it("returns the completed result", async () => {
+    mockGetRecord.mockResolvedValue({
+      pk: "conversations/workspace-123/agent-456/conversation-1",
+      conversationType: "webhook",
+      messages: [
+        { role: "user", content: "hello" },
+        {
+          role: "assistant",
+          content: [
+            {
+              type: "tool-call",
+              toolCallId: "call-1",
+              toolName: "search_documents",
+              args: { query: "pricing" },
+            },
+          ],
+        },
+        {
+          role: "tool",
+          content: [
+            {
+              type: "tool-result",
+              toolCallId: "call-1",
+              toolName: "search_documents",
+              result: "Pro costs $10",
+            },
+          ],
+        },
+        { role: "assistant", content: "Pro costs $10 per month." },
+      ],
+      tokenUsage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      costUsd: 2_500_000,
+      startedAt: "2026-01-01T00:00:00.000Z",
+      lastMessageAt: "2026-01-01T00:00:04.000Z",
+    });
+
+    const handler = await getHandler();
+    const result = (await handler(buildEvent(), mockContext)) as {
+      statusCode: number;
+      body: string;
+    };
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body)).toEqual({
+      conversationId: "conversation-1",
+      workspaceId: "workspace-123",
+      agentId: "agent-456",
+      status: "completed",
+      message: "Pro costs $10 per month.",
+      toolCalls: [
+        {
+          toolCallId: "call-1",
+          toolName: "search_documents",
+          args: { query: "pricing" },
+          result: "Pro costs $10",
+        },
+      ],
+      tokenUsage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      costUsd: 0.0025,
+      startedAt: "2026-01-01T00:00:00.000Z",
+      completedAt: "2026-01-01T00:00:04.000Z",
+    });
+  });
+
+  it("returns 404 for conversations that are not webhook runs", async () => {
+    mockGetRecord.mockResolvedValue({
+      pk: "conversations/workspace-123/agent-456/conversation-1",
+      conversationType: "test",
+      messages: [],
+    });
+
+    const handler = await getHandler();
+    const result = (await handler(buildEvent(), mockContext)) as {
+      statusCode: number;
+    };
+
+    expect(result.statusCode).toBe(404);
+  });
+
+  it("returns 401 when the webhook key is invalid", async () => {
+    mockValidateWebhookKey.mockRejectedValue(unauthorized("Invalid key"));
+
+    const handler = await getHandler();
+    const result = (await handler(buildEvent(), mockContext)) as {
+      statusCode: number;
+    };
+
+    expect(result.statusCode).toBe(401);
+    expect(mockGetRecord).not.toHaveBeenCalled();
+  });
+});
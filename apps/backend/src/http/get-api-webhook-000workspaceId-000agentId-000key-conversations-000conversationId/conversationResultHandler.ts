@@ -0,0 +1,45 @@
+import { notFound } from "@hapi/boom";
+import type {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+} from "aws-lambda";
+
+import { database } from "../../tables";
+import { getRecord } from "../../utils/conversationRecords";
+import { buildWebhookResult } from "../../utils/webhookCallback";
+import {
+  validateWebhookConversationRequest,
+  validateWebhookKey,
+} from "../utils/requestValidation";
+
+export async function handleWebhookConversationRequest(
+  event: APIGatewayProxyEventV2
+): Promise<APIGatewayProxyResultV2> {
+  const { workspaceId, agentId, key, conversationId } =
+    validateWebhookConversationRequest(event);
+  await validateWebhookKey(workspaceId, agentId, key);
+
+  const db = await database();
+  const conversation = await getRecord(
+    db,
+    `conversations/${workspaceId}/${agentId}/${conversationId}`
+  );
+  // Webhook keys only grant access to webhook runs, not to other conversations of the agent
+  if (conversation && conversation.conversationType !== "webhook") {
+    throw notFound("Conversation not found");
+  }
+
+  const result = buildWebhookResult(
+    { workspaceId, agentId, conversationId },
+    conversation
+  );
+
+  return {
+    statusCode: result.status === "pending" ? 202 : 200,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-store",
+    },
+    body: JSON.stringify(result),
+  };
+}
@@ -0,0 +1,74 @@
+import type {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+} from "aws-lambda";
+
+import { handlingErrors } from "../../utils/handlingErrors";
+import { adaptHttpHandler } from "../../utils/httpEventAdapter";
+import { initSentry } from "../../utils/sentry";
+
+import { handleWebhookConversationRequest } from "./conversationResultHandler";
+
+initSentry();
+
+/**
+ * @openapi
+ * /api/webhook/{workspaceId}/{agentId}/{key}/conversations/{conversationId}:
+ *   get:
+ *     summary: Get webhook run result
+ *     description: Returns the status and result of an asynchronous webhook run. Poll this endpoint with the conversationId returned by the webhook until the status is completed or failed. Authenticated by the webhook key in the path.
+ *     tags:
+ *       - Webhooks
+ *     parameters:
+ *       - name: workspaceId
+ *         in: path
+ *         required: true
+ *         description: Workspace ID
+ *         schema:
+ *           type: string
+ *       - name: agentId
+ *         in: path
+ *         required: true
+ *         description: Agent ID
+ *         schema:
+ *           type: string
+ *       - name: key
+ *         in: path
+ *         required: true
+ *         description: Webhook key
+ *         schema:
+ *           type: string
+ *       - name: conversationId
+ *         in: path
+ *         required: true
+ *         description: Conversation ID returned by the webhook
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The run has finished (status is completed or failed)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookResult'
+ *       202:
+ *         description: The run has not finished yet (status is pending)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookResult'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export const handler = adaptHttpHandler(
+  handlingErrors(
+    async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> =>
+      handleWebhookConversationRequest(event)
+  )
+);
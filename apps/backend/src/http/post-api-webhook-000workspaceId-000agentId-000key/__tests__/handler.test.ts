@@ -114,7 +114,111 @@ describe("post-api-webhook-000workspaceId-000agentId-000key handler", () => {
       agentId,
       bodyText,
       "ff028639-8bb4-43f0-87fa-0618dada653c",
-      "sub-123"
+      "sub-123",
+      {}
+    );
+  });
+
+  it("passes the callback target to the webhook task", async () => {
+    mockValidateWebhookRequest.mockReturnValue({
+      workspaceId: "workspace-123",
+      agentId: "agent-456",
+      key: "key-789",
+      bodyText: "test",
+      callbackUrl: "https://example.com/hooks/helpmaton",
+    });
+    mockValidateWebhookKey.mockResolvedValue("key-id-1");
+    mockEnqueueWebhookTask.mockResolvedValue(undefined);
+
+    const event = createAPIGatewayEventV2({
+      routeKey: "POST /api/webhook/workspace-123/agent-456/key-789",
+      rawPath: "/api/webhook/workspace-123/agent-456/key-789",
+      rawQueryString: "callbackUrl=https%3A%2F%2Fexample.com%2Fhooks%2Fhelpmaton",
+      body: "test",
+      requestContext: {
+        ...createAPIGatewayEventV2().requestContext,
+        http: {
+          ...createAPIGatewayEventV2().requestContext.http,
+          method: "POST",
+        },
+      },
+      pathParameters: {
+        workspaceId: "workspace-123",
+        agentId: "agent-456",
+        key: "key-789",
+      },
+      queryStringParameters: {
+        callbackUrl: "https://example.com/hooks/helpmaton",
+      },
+    });
+
+    const handler = await getHandler();
+    const result = (await handler(event, mockContext)) as {
+      statusCode: number;
+    };
+
+    expect(result.statusCode).toBe(202);
+    expect(mockEnqueueWebhookTask).toHaveBeenCalledWith(
+      "workspace-123",
+      "agent-456",
+      "test",
+      "ff028639-8bb4-43f0-87fa-0618dada653c",
+      "sub-123",
+      {
+        callback: {
+          url: "https://example.com/hooks/helpmaton",
+          agentKeyId: "key-id-1",
+        },
+      }
+    );
+  });
+
+  it("passes the caller's output schema to the webhook task", async () => {
+    const outputSchema = {
+      type: "object",
+      properties: { answer: { type: "string" } },
+    };
+    mockValidateWebhookRequest.mockReturnValue({
+      workspaceId: "workspace-123",
+      agentId: "agent-456",
+      key: "key-789",
+      bodyText: "test",
+      outputSchema,
+    });
+    mockValidateWebhookKey.mockResolvedValue("key-id-1");
+    mockEnqueueWebhookTask.mockResolvedValue(undefined);
+
+    const event = createAPIGatewayEventV2({
+      routeKey: "POST /api/webhook/workspace-123/agent-456/key-789",
+      rawPath: "/api/webhook/workspace-123/agent-456/key-789",
+      body: "test",
+      headers: {
+        "x-helpmaton-output-schema": JSON.stringify(outputSchema),
+      },
+      requestContext: {
+        ...createAPIGatewayEventV2().requestContext,
+        http: {
+          ...createAPIGatewayEventV2().requestContext.http,
+          method: "POST",
+        },
+      },
+      pathParameters: {
+        workspaceId: "workspace-123",
+        agentId: "agent-456",
+        key: "key-789",
+      },
+    });
+
+    const handler = await getHandler();
+    await handler(event, mockContext);
+
+    expect(mockEnqueueWebhookTask).toHaveBeenCalledWith(
+      "workspace-123",
+      "agent-456",
+      "test",
+      "ff028639-8bb4-43f0-87fa-0618dada653c",
+      "sub-123",
+      { outputSchema }
     );
   });
 
@@ -12,9 +12,16 @@ import { validateWebhookRequest, validateWebhookKey } from "../utils/requestVali
 export async function handleWebhookRequest(
   event: APIGatewayProxyEventV2
 ): Promise<APIGatewayProxyResultV2> {
-  const { workspaceId, agentId, key, bodyText } =
-    validateWebhookRequest(event);
-  await validateWebhookKey(workspaceId, agentId, key);
+  const {
+    workspaceId,
+    agentId,
+    key,
+    bodyText,
+    callbackUrl,
+    outputSchema,
+    endUserId,
+  } = validateWebhookRequest(event);
+  const agentKeyId = await validateWebhookKey(workspaceId, agentId, key);
   const subscriptionId = await validateSubscriptionAndLimits(
     workspaceId,
     "webhook"
@@ -27,7 +34,12 @@ export async function handleWebhookRequest(
     agentId,
     bodyText,
     conversationId,
-    subscriptionId
+    subscriptionId,
+    {
+      ...(callbackUrl && { callback: { url: callbackUrl, agentKeyId } }),
+      ...(outputSchema && { outputSchema }),
+      ...(endUserId && { endUserId }),
+    }
   );
 
   return {
@@ -1,11 +1,15 @@
 import type { Session } from "@auth/express";
 import type { APIGatewayProxyEventV2, Context } from "aws-lambda";
 
+import type { ApiKeyScope } from "../../utils/apiKeyScope";
+
 declare global {
   namespace Express {
     interface Request {
       session?: Session;
       userRef?: string;
+      /** Set when authenticated with a user API key */
+      apiKeyScope?: ApiKeyScope;
       workspaceResource?: string;
       apiGateway?: {
         event?: APIGatewayProxyEventV2;
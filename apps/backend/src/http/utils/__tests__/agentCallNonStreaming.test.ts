@@ -32,9 +32,13 @@ const {
   mockDatabase: vi.fn(),
 }));
 
-vi.mock("ai", () => ({
-  generateText: mockGenerateText,
-}));
+vi.mock("ai", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("ai")>();
+  return {
+    ...actual,
+    generateText: mockGenerateText,
+  };
+});
 
 vi.mock("../../../tables", () => ({
   database: mockDatabase,
@@ -167,6 +171,7 @@ describe("callAgentNonStreaming", () => {
         completionTokens: 1,
         totalTokens: 2,
       },
+      responseMessages: [],
     });
     mockResolveModelCapabilities.mockReturnValue({});
     mockResolveToolsForCapabilities.mockReturnValue({});
@@ -323,4 +328,205 @@ describe("callAgentNonStreaming", () => {
     expect(mockValidateAndReserveCredits).not.toHaveBeenCalled();
     expect(mockGenerateText).not.toHaveBeenCalled();
   });
+
+  describe("model fallback", () => {
+    const providerError = Object.assign(new Error("Service unavailable"), {
+      statusCode: 503,
+    });
+
+    beforeEach(() => {
+      mockSetupAgentAndTools.mockResolvedValue({
+        agent: {
+          systemPrompt: "system",
+          modelName: "test-model",
+          fallbackModelNames: ["backup-model"],
+        },
+        model: {},
+        tools: {},
+        usesByok: false,
+        createFallbackModel: vi.fn().mockResolvedValue({}),
+      });
+    });
+
+    it("retries with the fallback model when the first model fails", async () => {
+      mockGenerateText.mockRejectedValueOnce(providerError);
+
+      await callAgentNonStreaming("workspace-1", "agent-1", "hello");
+
+      expect(mockGenerateText).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not rerun the generation once a tool step finished", async () => {
+      mockGenerateText.mockImplementationOnce(
+        async (options: { onStepFinish?: () => void }) => {
+          options.onStepFinish?.();
+          throw providerError;
+        }
+      );
+
+      await expect(
+        callAgentNonStreaming("workspace-1", "agent-1", "hello")
+      ).rejects.toThrow("Service unavailable");
+      expect(mockGenerateText).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("structured output", () => {
+    const outputSchema = {
+      type: "object",
+      properties: { sentiment: { type: "string" } },
+      required: ["sentiment"],
+      additionalProperties: false,
+    };
+
+    it("requests JSON output and returns the parsed object", async () => {
+      mockProcessNonStreamingResponse.mockResolvedValueOnce({
+        text: '{"sentiment":"positive"}',
+        tokenUsage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+        responseMessages: [],
+      });
+
+      const result = await callAgentNonStreaming(
+        "workspace-1",
+        "agent-1",
+        "hello",
+        { outputSchema }
+      );
+
+      expect(mockGenerateText).toHaveBeenCalledTimes(1);
+      const generateArgs = mockGenerateText.mock.calls[0][0];
+      await expect(generateArgs.output.responseFormat).resolves.toMatchObject({
+        type: "json",
+        schema: outputSchema,
+      });
+      expect(result.structuredOutput).toEqual({ sentiment: "positive" });
+    });
+
+    it("uses the agent's schema for webhook calls only", async () => {
+      mockSetupAgentAndTools.mockResolvedValue({
+        agent: {
+          systemPrompt: "system",
+          modelName: "test-model",
+          outputSchema,
+        },
+        model: {},
+        tools: {},
+        usesByok: false,
+      });
+      mockProcessNonStreamingResponse.mockResolvedValue({
+        text: '{"sentiment":"neutral"}',
+        tokenUsage: undefined,
+        responseMessages: [],
+      });
+
+      const bridgeResult = await callAgentNonStreaming(
+        "workspace-1",
+        "agent-1",
+        "hello"
+      );
+      expect(mockGenerateText.mock.calls[0][0].output).toBeUndefined();
+      expect(bridgeResult.structuredOutput).toBeUndefined();
+
+      const webhookResult = await callAgentNonStreaming(
+        "workspace-1",
+        "agent-1",
+        "hello",
+        { endpointType: "webhook" }
+      );
+      expect(mockGenerateText.mock.calls[1][0].output).toBeDefined();
+      expect(webhookResult.structuredOutput).toEqual({ sentiment: "neutral" });
+    });
+
+    it("retries once with the validation error and aggregates usage", async () => {
+      const toolResultMessage = {
+        role: "tool",
+        content: [
+          { type: "tool-result", toolCallId: "call_1", toolName: "search" },
+        ],
+      };
+      mockProcessNonStreamingResponse.mockResolvedValueOnce({
+        text: '{"mood":"positive"}',
+        tokenUsage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+        // Tool results from the first call followed by the continuation's answer
+        responseMessages: [
+          toolResultMessage,
+          { role: "assistant", content: '{"mood":"positive"}' },
+        ],
+      });
+      mockGenerateText
+        .mockResolvedValueOnce({
+          text: "",
+          response: { messages: [toolResultMessage] },
+        })
+        .mockResolvedValueOnce({
+          text: '{"sentiment":"positive"}',
+          response: { messages: [] },
+        });
+      mockExtractTokenUsageAndCosts
+        .mockReturnValueOnce({
+          tokenUsage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+          openrouterGenerationId: "gen-1",
+          openrouterGenerationIds: ["gen-1"],
+          provisionalCostUsd: 100,
+        })
+        .mockReturnValueOnce({
+          tokenUsage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 },
+          openrouterGenerationId: "gen-2",
+          openrouterGenerationIds: ["gen-2"],
+          provisionalCostUsd: 50,
+        });
+
+      const result = await callAgentNonStreaming(
+        "workspace-1",
+        "agent-1",
+        "hello",
+        { outputSchema }
+      );
+
+      expect(mockGenerateText).toHaveBeenCalledTimes(2);
+      const retryMessages = mockGenerateText.mock.calls[1][0].messages;
+      expect(retryMessages[retryMessages.length - 3]).toEqual(
+        toolResultMessage
+      );
+      expect(retryMessages[retryMessages.length - 2]).toEqual({
+        role: "assistant",
+        content: '{"mood":"positive"}',
+      });
+      expect(retryMessages[retryMessages.length - 1].content).toContain(
+        "did not match the required JSON Schema"
+      );
+      expect(mockValidateAndReserveCredits).toHaveBeenCalledTimes(2);
+      expect(result.structuredOutput).toEqual({ sentiment: "positive" });
+      expect(result.text).toBe('{"sentiment":"positive"}');
+      expect(result.tokenUsage).toEqual({
+        promptTokens: 4,
+        completionTokens: 3,
+        totalTokens: 7,
+      });
+      expect(result.openrouterGenerationIds).toEqual(["gen-1", "gen-2"]);
+      expect(result.provisionalCostUsd).toBe(150);
+    });
+
+    it("throws STRUCTURED_OUTPUT_INVALID when the retry also fails", async () => {
+      mockProcessNonStreamingResponse.mockResolvedValueOnce({
+        text: "not json",
+        tokenUsage: undefined,
+        responseMessages: [],
+      });
+      mockGenerateText.mockResolvedValue({
+        text: "still not json",
+        response: { messages: [] },
+      });
+
+      await expect(
+        callAgentNonStreaming("workspace-1", "agent-1", "hello", {
+          outputSchema,
+        })
+      ).rejects.toMatchObject({
+        code: "STRUCTURED_OUTPUT_INVALID",
+        output: { statusCode: 422 },
+      });
+      expect(mockGenerateText).toHaveBeenCalledTimes(2);
+    });
+  });
 });
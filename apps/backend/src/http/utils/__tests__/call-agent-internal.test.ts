@@ -19,6 +19,9 @@ const {
   mockBuildGenerateTextOptions,
   mockGetDefaultModel,
   mockInjectKnowledgeIntoMessages,
+  mockSendEmailExecute,
+  mockCreateToolApproval,
+  mockPostToolApprovalMessage,
 } = vi.hoisted(() => ({
   mockDatabase: vi.fn(),
   mockValidateCreditsAndLimitsAndReserve: vi.fn(),
@@ -38,6 +41,9 @@ const {
   mockBuildGenerateTextOptions: vi.fn(),
   mockGetDefaultModel: vi.fn(),
   mockInjectKnowledgeIntoMessages: vi.fn(),
+  mockSendEmailExecute: vi.fn(),
+  mockCreateToolApproval: vi.fn(),
+  mockPostToolApprovalMessage: vi.fn(),
 }));
 
 vi.mock("ai", () => ({
@@ -116,6 +122,26 @@ vi.mock("../../../utils/knowledgeInjection", () => ({
   injectKnowledgeIntoMessages: mockInjectKnowledgeIntoMessages,
 }));
 
+vi.mock("../agentUtils", () => ({
+  createGetDatetimeTool: () => ({ execute: vi.fn() }),
+  createSearchDocumentsTool: vi.fn(),
+  createSendNotificationTool: vi.fn(),
+  createListAgentsTool: vi.fn(),
+  createCallAgentTool: vi.fn(),
+  createCallAgentAsyncTool: vi.fn(),
+  createCheckDelegationStatusTool: vi.fn(),
+  createSendEmailTool: () => ({
+    description: "Send an email",
+    execute: mockSendEmailExecute,
+  }),
+}));
+
+vi.mock("../../../utils/toolApproval", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../utils/toolApproval")>()),
+  createToolApproval: mockCreateToolApproval,
+  postToolApprovalMessage: mockPostToolApprovalMessage,
+}));
+
 import type { DatabaseSchema } from "../../../tables/schema";
 import { SpendingLimitExceededError } from "../../../utils/creditErrors";
 import { callAgentInternal } from "../call-agent-internal";
@@ -237,4 +263,68 @@ describe("callAgentInternal", () => {
     expect(Sentry.captureException).not.toHaveBeenCalled();
     expect(result.response).toContain("Spending limits exceeded");
   });
+
+  it("requests approval instead of running gated tools of the target agent", async () => {
+    mockDatabase.mockResolvedValue({
+      agent: {
+        get: vi.fn().mockResolvedValue({
+          pk: "agents/workspace-1/agent-1",
+          workspaceId: "workspace-1",
+          name: "Mailer",
+          systemPrompt: "You are helpful",
+          enableSendEmail: true,
+          toolApproval: { toolNames: ["send_email"] },
+        }),
+      },
+      "email-connection": {
+        get: vi.fn().mockResolvedValue({ type: "smtp" }),
+      },
+    });
+    mockSupportsToolCalling.mockReturnValue(true);
+    mockResolveToolsForCapabilities.mockImplementation((tools) => tools);
+    mockCreateToolApproval.mockResolvedValue({
+      approvalId: "approval-1",
+      workspaceId: "workspace-1",
+      agentId: "agent-1",
+      toolName: "send_email",
+      args: { to: "someone@example.com" },
+      expiresAt: "2026-10-20T12:00:00.000Z",
+    });
+    let toolResult: unknown;
+    mockGenerateText.mockImplementation(
+      async (options: {
+        tools: Record<
+          string,
+          { execute: (args: unknown, context: unknown) => unknown }
+        >;
+      }) => {
+        toolResult = await options.tools.send_email.execute(
+          { to: "someone@example.com", subject: "Hi", text: "Hello" },
+          { toolCallId: "call-1" }
+        );
+        return { text: "The email is waiting for approval." };
+      }
+    );
+
+    const result = await callAgentInternal(
+      "workspace-1",
+      "agent-1",
+      "Email someone",
+      0,
+      2
+    );
+
+    expect(mockSendEmailExecute).not.toHaveBeenCalled();
+    expect(mockCreateToolApproval).toHaveBeenCalledWith(
+      expect.any(Object),
+      expect.objectContaining({
+        workspaceId: "workspace-1",
+        agentId: "agent-1",
+        conversationId: result.targetAgentConversationId,
+        toolCallId: "call-1",
+        toolName: "send_email",
+      })
+    );
+    expect(toolResult).toContain("approval request approval-1");
+  });
 });
@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import type { McpServerRecord } from "../../../tables/schema";
+import {
+  clearMcpSessions,
+  consumeMcpToolListChanged,
+  getMcpSession,
+  mcpRequest,
+} from "../mcpClient";
+
+type RpcMessage = {
+  id?: string;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+};
+
+const server = {
+  pk: "mcp-servers/workspace-1/server-1",
+  sk: "server",
+  workspaceId: "workspace-1",
+  name: "Test MCP",
+  url: "https://mcp.example.com/mcp",
+  authType: "header",
+  config: { headerValue: "Bearer secret" },
+} as unknown as McpServerRecord;
+
+const jsonResponse = (body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+const sseResponse = (messages: unknown[]) =>
+  new Response(
+    messages
+      .map((message) => `event: message\ndata: ${JSON.stringify(message)}\n\n`)
+      .join(""),
+    { status: 200, headers: { "Content-Type": "text/event-stream" } }
+  );
+
+const initializeResult = (id: string | undefined) => ({
+  jsonrpc: "2.0",
+  id,
+  result: {
+    protocolVersion: "2025-06-18",
+    capabilities: { tools: { listChanged: true }, resources: {} },
+    serverInfo: { name: "test-server", version: "1.0.0" },
+  },
+});
+
+/**
+ * Fake Streamable HTTP server: answers initialize with a session id and
+ * delegates other requests to the handler
+ */
+const createFetch = (
+  handler: (message: RpcMessage, headers: Headers) => Response | Promise<Response>
+) =>
+  vi.fn(async (_url: string, init: RequestInit) => {
+    const message = JSON.parse(String(init.body)) as RpcMessage;
+    const headers = new Headers(init.headers);
+    if (message.method === "initialize") {
+      return jsonResponse(initializeResult(message.id), {
+        "Mcp-Session-Id": "session-1",
+      });
+    }
+    if (message.id === undefined || message.method === undefined) {
+      return new Response(null, { status: 202 });
+    }
+    return handler(message, headers);
+  });
+
+const sentMessages = (fetchMock: ReturnType<typeof createFetch>) =>
+  fetchMock.mock.calls.map(
+    ([, init]) => JSON.parse(String(init.body)) as RpcMessage
+  );
+
+describe("mcpClient", () => {
+  beforeEach(() => {
+    clearMcpSessions();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("initializes a session once and reuses it for the same session key", async () => {
+    const fetchMock = createFetch((message) =>
+      jsonResponse({ jsonrpc: "2.0", id: message.id, result: { tools: [] } })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    await mcpRequest(server, "tools/list", {}, "conversation-1");
+    await mcpRequest(server, "tools/list", {}, "conversation-1");
+
+    const methods = sentMessages(fetchMock).map((message) => message.method);
+    expect(methods).toEqual([
+      "initialize",
+      "notifications/initialized",
+      "tools/list",
+      "tools/list",
+    ]);
+
+    const initialize = sentMessages(fetchMock)[0];
+    expect(initialize.params).toMatchObject({
+      protocolVersion: "2025-06-18",
+      clientInfo: { name: "helpmaton" },
+    });
+
+    const lastHeaders = new Headers(fetchMock.mock.calls[3][1].headers);
+    expect(lastHeaders.get("Mcp-Session-Id")).toBe("session-1");
+    expect(lastHeaders.get("MCP-Protocol-Version")).toBe("2025-06-18");
+    expect(lastHeaders.get("Authorization")).toBe("Bearer secret");
+    expect(lastHeaders.get("Accept")).toBe("application/json, text/event-stream");
+
+    const session = await getMcpSession(server, "conversation-1");
+    expect(session.capabilities.resources).toEqual({});
+  });
+
+  it("uses separate sessions for different session keys", async () => {
+    const fetchMock = createFetch((message) =>
+      jsonResponse({ jsonrpc: "2.0", id: message.id, result: {} })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    await mcpRequest(server, "ping", {}, "conversation-1");
+    await mcpRequest(server, "ping", {}, "conversation-2");
+
+    const initializeCount = sentMessages(fetchMock).filter(
+      (message) => message.method === "initialize"
+    ).length;
+    expect(initializeCount).toBe(2);
+  });
+
+  it("reads the response from an SSE stream and handles server messages", async () => {
+    const fetchMock = createFetch((message) => {
+      if (message.method === "tools/call") {
+        return sseResponse([
+          { jsonrpc: "2.0", method: "notifications/tools/list_changed" },
+          { jsonrpc: "2.0", id: "server-ping-1", method: "ping" },
+          {
+            jsonrpc: "2.0",
+            id: message.id,
+            result: { content: [{ type: "text", text: "done" }] },
+          },
+        ]);
+      }
+      return jsonResponse({ jsonrpc: "2.0", id: message.id, result: {} });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await mcpRequest(
+      server,
+      "tools/call",
+      { name: "doThing", arguments: {} },
+      "conversation-1"
+    );
+
+    expect(result).toEqual({ content: [{ type: "text", text: "done" }] });
+    // The ping request was answered
+    expect(sentMessages(fetchMock)).toContainEqual({
+      jsonrpc: "2.0",
+      id: "server-ping-1",
+      result: {},
+    });
+    expect(consumeMcpToolListChanged(server.pk)).toBe(true);
+    expect(consumeMcpToolListChanged(server.pk)).toBe(false);
+  });
+
+  it("re-initializes once when the server drops the session", async () => {
+    let expired = true;
+    const fetchMock = createFetch((message, headers) => {
+      if (expired && headers.get("Mcp-Session-Id")) {
+        expired = false;
+        return new Response("Session not found", {
+          status: 404,
+          statusText: "Not Found",
+        });
+      }
+      return jsonResponse({ jsonrpc: "2.0", id: message.id, result: { ok: true } });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await mcpRequest(server, "tools/list", {}, "conversation-1");
+
+    expect(result).toEqual({ ok: true });
+    const initializeCount = sentMessages(fetchMock).filter(
+      (message) => message.method === "initialize"
+    ).length;
+    expect(initializeCount).toBe(2);
+  });
+
+  it("falls back to plain JSON-RPC when the server has no initialize", async () => {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const message = JSON.parse(String(init.body)) as RpcMessage;
+      if (message.method === "initialize") {
+        return jsonResponse({
+          jsonrpc: "2.0",
+          id: message.id,
+          error: { code: -32601, message: "Method not found" },
+        });
+      }
+      return jsonResponse({ jsonrpc: "2.0", id: message.id, result: { tools: [] } });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await mcpRequest(server, "tools/list", {}, "conversation-1");
+
+    expect(result).toEqual({ tools: [] });
+    const session = await getMcpSession(server, "conversation-1");
+    expect(session.legacy).toBe(true);
+    const lastHeaders = new Headers(fetchMock.mock.calls[1][1].headers);
+    expect(lastHeaders.get("Mcp-Session-Id")).toBeNull();
+  });
+
+  it("rejects servers with an unsupported protocol version", async () => {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const message = JSON.parse(String(init.body)) as RpcMessage;
+      return jsonResponse({
+        jsonrpc: "2.0",
+        id: message.id,
+        result: { protocolVersion: "2023-01-01", capabilities: {} },
+      });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(
+      mcpRequest(server, "tools/list", {}, "conversation-1")
+    ).rejects.toThrow("unsupported protocol version 2023-01-01");
+  });
+
+  it("surfaces JSON-RPC errors", async () => {
+    const fetchMock = createFetch((message) =>
+      jsonResponse({
+        jsonrpc: "2.0",
+        id: message.id,
+        error: { code: -32602, message: "Unknown tool: nope" },
+      })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(
+      mcpRequest(server, "tools/call", { name: "nope" }, "conversation-1")
+    ).rejects.toThrow("MCP server error: Unknown tool: nope");
+  });
+});
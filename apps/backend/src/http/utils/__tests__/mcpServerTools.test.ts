@@ -0,0 +1,310 @@
+import { tooManyRequests } from "@hapi/boom";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const {
+  mockDatabase,
+  mockAgentGet,
+  mockAgentQuery,
+  mockCallAgentInternal,
+  mockExecuteWithRequestLimits,
+  mockSearchDocuments,
+  mockSearchMemory,
+} = vi.hoisted(() => ({
+  mockDatabase: vi.fn(),
+  mockAgentGet: vi.fn(),
+  mockAgentQuery: vi.fn(),
+  mockCallAgentInternal: vi.fn(),
+  mockExecuteWithRequestLimits: vi.fn(),
+  mockSearchDocuments: vi.fn(),
+  mockSearchMemory: vi.fn(),
+}));
+
+vi.mock("../../../tables", () => ({
+  database: mockDatabase,
+}));
+
+vi.mock("../call-agent-internal", () => ({
+  callAgentInternal: mockCallAgentInternal,
+}));
+
+vi.mock("../nonStreamingRequestLimits", () => ({
+  executeWithRequestLimits: mockExecuteWithRequestLimits,
+}));
+
+vi.mock("../../../utils/documentSearch", () => ({
+  searchDocuments: mockSearchDocuments,
+}));
+
+vi.mock("../../../utils/memory/searchMemory", () => ({
+  searchMemory: mockSearchMemory,
+}));
+
+vi.mock("../../../utils/sentry", () => ({
+  Sentry: { captureException: vi.fn() },
+  ensureError: (error: unknown) => error,
+}));
+
+import {
+  McpToolCallError,
+  buildAskToolNames,
+  callMcpServerTool,
+  listMcpServerTools,
+} from "../mcpServerTools";
+
+const agent = (agentId: string, name: string, extra = {}) => ({
+  pk: `agents/workspace-1/${agentId}`,
+  sk: "agent",
+  workspaceId: "workspace-1",
+  name,
+  systemPrompt: "You help.",
+  ...extra,
+});
+
+describe("mcpServerTools", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDatabase.mockResolvedValue({
+      agent: { get: mockAgentGet, query: mockAgentQuery },
+    });
+    mockAgentQuery.mockResolvedValue({
+      items: [
+        agent("agent-1", "Support Bot"),
+        agent("agent-2", "Sales Assistant"),
+      ],
+    });
+    mockExecuteWithRequestLimits.mockImplementation(
+      async (options: { execute: () => Promise<unknown> }) => options.execute()
+    );
+  });
+
+  describe("buildAskToolNames", () => {
+    it("derives tool names from agent names and keeps them unique", () => {
+      const names = buildAskToolNames([
+        { agentId: "a1b2c3d4e5", name: "Support Bot" },
+        { agentId: "f6g7h8i9j0", name: "support-bot" },
+        { agentId: "k1l2m3n4o5", name: "🤖" },
+      ]);
+
+      expect(names.get("a1b2c3d4e5")).toBe("ask_support_bot");
+      expect(names.get("f6g7h8i9j0")).toBe("ask_support_bot_f6g7h8i9");
+      expect(names.get("k1l2m3n4o5")).toBe("ask_agent_k1l2m3n4");
+    });
+  });
+
+  describe("listMcpServerTools", () => {
+    it("lists an ask tool per workspace agent plus the search tools", async () => {
+      const tools = await listMcpServerTools({ workspaceId: "workspace-1" });
+
+      expect(tools.map((tool) => tool.name)).toEqual([
+        "ask_support_bot",
+        "ask_sales_assistant",
+        "search_documents",
+        "search_memory",
+      ]);
+      expect(tools[0].inputSchema).toMatchObject({
+        type: "object",
+        properties: { message: { type: "string" } },
+        required: ["message"],
+      });
+      const searchMemory = tools[3].inputSchema as {
+        properties: { agent: { enum: string[] } };
+        required: string[];
+      };
+      expect(searchMemory.properties.agent.enum).toEqual([
+        "agent-1",
+        "agent-2",
+      ]);
+      expect(searchMemory.required).toEqual(["agent"]);
+    });
+
+    it("only lists the key's agent for agent key access", async () => {
+      mockAgentGet.mockResolvedValue(agent("agent-2", "Sales Assistant"));
+
+      const tools = await listMcpServerTools({
+        workspaceId: "workspace-1",
+        agentId: "agent-2",
+      });
+
+      expect(mockAgentQuery).not.toHaveBeenCalled();
+      expect(tools.map((tool) => tool.name)).toEqual([
+        "ask_sales_assistant",
+        "search_documents",
+        "search_memory",
+      ]);
+      const searchMemory = tools[2].inputSchema as {
+        properties: Record<string, unknown>;
+      };
+      expect(searchMemory.properties.agent).toBeUndefined();
+    });
+  });
+
+  describe("callMcpServerTool", () => {
+    it("calls the agent through callAgentInternal with request limits", async () => {
+      mockCallAgentInternal.mockResolvedValue({
+        response: "We ship worldwide.",
+        targetAgentConversationId: "conversation-1",
+        shouldTrackRequest: true,
+      });
+      const context = { awsRequestId: "request-1" };
+
+      const result = await callMcpServerTool(
+        { workspaceId: "workspace-1" },
+        "ask_support_bot",
+        { message: "Do you ship abroad?" },
+        context as never
+      );
+
+      expect(mockExecuteWithRequestLimits).toHaveBeenCalledWith(
+        expect.objectContaining({
+          workspaceId: "workspace-1",
+          agentId: "agent-1",
+          endpoint: "mcp",
+        })
+      );
+      expect(mockCallAgentInternal).toHaveBeenCalledWith(
+        "workspace-1",
+        "agent-1",
+        "Do you ship abroad?",
+        0,
+        3,
+        context,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { conversationType: "mcp" }
+      );
+      expect(result).toEqual({
+        content: [{ type: "text", text: "We ship worldwide." }],
+        structuredContent: {
+          response: "We ship worldwide.",
+          conversationId: "conversation-1",
+        },
+      });
+    });
+
+    it("returns agent failures as tool errors", async () => {
+      mockCallAgentInternal.mockResolvedValue({
+        response: "Error calling agent: Insufficient credits",
+        targetAgentConversationId: "conversation-1",
+        shouldTrackRequest: false,
+      });
+
+      const result = await callMcpServerTool(
+        { workspaceId: "workspace-1" },
+        "ask_support_bot",
+        { message: "Hi" }
+      );
+
+      expect(result).toEqual({
+        content: [
+          { type: "text", text: "Error calling agent: Insufficient credits" },
+        ],
+        isError: true,
+      });
+    });
+
+    it("returns request limit errors as tool errors", async () => {
+      mockExecuteWithRequestLimits.mockRejectedValue(
+        tooManyRequests("Daily request limit exceeded")
+      );
+
+      const result = await callMcpServerTool(
+        { workspaceId: "workspace-1" },
+        "ask_support_bot",
+        { message: "Hi" }
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe(
+        "Error: Daily request limit exceeded"
+      );
+    });
+
+    it("rejects unknown tools and invalid arguments", async () => {
+      await expect(
+        callMcpServerTool({ workspaceId: "workspace-1" }, "ask_nobody", {
+          message: "Hi",
+        })
+      ).rejects.toThrow(McpToolCallError);
+
+      await expect(
+        callMcpServerTool({ workspaceId: "workspace-1" }, "ask_support_bot", {})
+      ).rejects.toThrow(McpToolCallError);
+      expect(mockCallAgentInternal).not.toHaveBeenCalled();
+    });
+
+    it("scopes document search to the agent's folders for agent keys", async () => {
+      mockAgentGet.mockResolvedValue(
+        agent("agent-1", "Support Bot", { knowledgeFolderPaths: ["support"] })
+      );
+      mockSearchDocuments.mockResolvedValue([
+        {
+          snippet: "Returns are free within 30 days.",
+          documentName: "returns.md",
+          documentId: "doc-1",
+          folderPath: "support",
+          similarity: 0.9,
+          anchor: "page 2",
+        },
+      ]);
+
+      const result = await callMcpServerTool(
+        { workspaceId: "workspace-1", agentId: "agent-1" },
+        "search_documents",
+        { query: "returns" }
+      );
+
+      expect(mockSearchDocuments).toHaveBeenCalledWith(
+        "workspace-1",
+        "returns",
+        5,
+        {
+          context: undefined,
+          agentId: "agent-1",
+          folderPaths: ["support"],
+          mode: "hybrid",
+        }
+      );
+      expect(result.content[0].text).toContain("[support/returns.md, page 2]");
+      expect(result.content[0].text).toContain(
+        "Returns are free within 30 days."
+      );
+    });
+
+    it("searches the memory of the requested agent", async () => {
+      mockSearchMemory.mockResolvedValue([
+        { id: "m1", content: "Customer prefers email.", date: "2026-10-01", timestamp: "" },
+      ]);
+
+      const result = await callMcpServerTool(
+        { workspaceId: "workspace-1" },
+        "search_memory",
+        { agent: "agent-2", queryText: "contact preference" }
+      );
+
+      expect(mockSearchMemory).toHaveBeenCalledWith({
+        agentId: "agent-2",
+        workspaceId: "workspace-1",
+        grain: "working",
+        minimumDaysAgo: 0,
+        maximumDaysAgo: 365,
+        maxResults: 10,
+        queryText: "contact preference",
+        context: undefined,
+      });
+      expect(result.content[0].text).toBe(
+        "[2026-10-01] Customer prefers email."
+      );
+    });
+
+    it("rejects memory search for agents outside the workspace", async () => {
+      await expect(
+        callMcpServerTool({ workspaceId: "workspace-1" }, "search_memory", {
+          agent: "agent-9",
+        })
+      ).rejects.toThrow(McpToolCallError);
+      expect(mockSearchMemory).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -2,20 +2,74 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 
 import { database } from "../../../tables";
-import { createMcpServerTool } from "../mcpUtils";
+import { clearMcpSessions } from "../mcpClient";
+import {
+  createMcpGetPromptTool,
+  createMcpListResourcesTool,
+  createMcpReadResourceTool,
+  createMcpServerTool,
+  createMcpServerTools,
+} from "../mcpUtils";
 
 vi.mock("../../../tables", () => ({
   database: vi.fn(),
 }));
 
-const createJsonResponse = (result: unknown) => ({
-  ok: true,
-  headers: {
-    get: () => "application/json",
-  },
-  json: async () => ({ jsonrpc: "2.0", result }),
-  text: async () => JSON.stringify({ jsonrpc: "2.0", result }),
-});
+vi.mock("../../../utils/tracking", () => ({
+  trackBusinessEvent: vi.fn(),
+}));
+
+type RpcMessage = {
+  id?: string;
+  method?: string;
+  params?: Record<string, unknown>;
+};
+
+const DEFAULT_CAPABILITIES = { tools: {}, resources: {}, prompts: {} };
+
+/**
+ * Fake MCP server: handles the initialize handshake and answers other
+ * requests with the result for their method
+ */
+const createMcpFetch = (
+  results: Record<string, unknown | ((params: RpcMessage["params"]) => unknown)>,
+  capabilities: Record<string, unknown> = DEFAULT_CAPABILITIES
+) =>
+  vi.fn(async (_url: string, init: RequestInit) => {
+    const message = JSON.parse(String(init.body)) as RpcMessage;
+    if (message.id === undefined) {
+      return new Response(null, { status: 202 });
+    }
+    const result =
+      message.method === "initialize"
+        ? { protocolVersion: "2025-06-18", capabilities }
+        : results[message.method ?? ""];
+    const body =
+      result === undefined
+        ? {
+            jsonrpc: "2.0",
+            id: message.id,
+            error: { code: -32601, message: "Method not found" },
+          }
+        : {
+            jsonrpc: "2.0",
+            id: message.id,
+            result:
+              typeof result === "function" ? result(message.params) : result,
+          };
+    return new Response(JSON.stringify(body), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...(message.method === "initialize" && { "Mcp-Session-Id": "session-1" }),
+      },
+    });
+  });
+
+const sentMethods = (fetchMock: ReturnType<typeof createMcpFetch>) =>
+  fetchMock.mock.calls.map(
+    ([, init]) => (JSON.parse(String(init.body)) as RpcMessage).method
+  );
 
 describe("MCP Utils", () => {
   const workspaceId = "workspace-1";
@@ -28,8 +82,19 @@ describe("MCP Utils", () => {
     },
   };
 
+  const genericServer = {
+    pk: `mcp-servers/${workspaceId}/${serverId}`,
+    sk: "server",
+    workspaceId,
+    name: serverName,
+    authType: "none",
+    url: "https://example.com",
+    config: {},
+  };
+
   beforeEach(() => {
     vi.clearAllMocks();
+    clearMcpSessions();
     vi.mocked(database).mockResolvedValue(mockDb as any);
   });
 
@@ -47,8 +112,8 @@ describe("MCP Utils", () => {
       config: {},
     });
 
-    const fetchMock = vi.fn().mockResolvedValue(
-      createJsonResponse({
+    const fetchMock = createMcpFetch({
+      "tools/list": {
         tools: [
           {
             name: "doThing",
@@ -62,8 +127,8 @@ describe("MCP Utils", () => {
             },
           },
         ],
-      })
-    );
+      },
+    });
     vi.stubGlobal("fetch", fetchMock as any);
 
     const tool = createMcpServerTool(workspaceId, serverId, serverName);
@@ -73,7 +138,7 @@ describe("MCP Utils", () => {
     });
 
     expect(result).toContain("Invalid tool arguments");
-    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(sentMethods(fetchMock)).not.toContain("tools/call");
   });
 
   it("returns error for unknown method", async () => {
@@ -86,11 +151,11 @@ describe("MCP Utils", () => {
       config: {},
     });
 
-    const fetchMock = vi.fn().mockResolvedValue(
-      createJsonResponse({
+    const fetchMock = createMcpFetch({
+      "tools/list": {
         tools: [{ name: "doThing", inputSchema: { type: "object" } }],
-      })
-    );
+      },
+    });
     vi.stubGlobal("fetch", fetchMock as any);
 
     const tool = createMcpServerTool(workspaceId, serverId, serverName);
@@ -101,6 +166,180 @@ describe("MCP Utils", () => {
 
     expect(result).toContain("Unknown MCP method");
     expect(result).toContain("doThing");
-    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(sentMethods(fetchMock)).not.toContain("tools/call");
+  });
+
+  it("runs the tool with tools/call over the MCP session", async () => {
+    mockDb["mcp-server"].get.mockResolvedValue(genericServer);
+    const fetchMock = createMcpFetch({
+      "tools/list": {
+        tools: [{ name: "doThing", inputSchema: { type: "object" } }],
+      },
+      "tools/call": (params: RpcMessage["params"]) => ({
+        content: [{ type: "text", text: `ran ${JSON.stringify(params)}` }],
+      }),
+    });
+    vi.stubGlobal("fetch", fetchMock as any);
+
+    const tool = createMcpServerTool(
+      workspaceId,
+      serverId,
+      serverName,
+      "conversation-1"
+    );
+    const result = await (tool as any).execute({
+      method: "doThing",
+      params: { foo: "bar" },
+    });
+
+    expect(result).toBe('ran {"name":"doThing","arguments":{"foo":"bar"}}');
+    expect(sentMethods(fetchMock)).toEqual([
+      "initialize",
+      "notifications/initialized",
+      "tools/list",
+      "tools/call",
+    ]);
+    const callHeaders = new Headers(fetchMock.mock.calls[3][1].headers);
+    expect(callHeaders.get("Mcp-Session-Id")).toBe("session-1");
+    // Negotiated capabilities are stored for tool setup
+    expect(mockDb["mcp-server"].update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        config: expect.objectContaining({
+          serverCapabilities: DEFAULT_CAPABILITIES,
+        }),
+      })
+    );
+  });
+
+  it("returns MCP tool errors to the agent", async () => {
+    mockDb["mcp-server"].get.mockResolvedValue(genericServer);
+    vi.stubGlobal(
+      "fetch",
+      createMcpFetch({
+        "tools/list": {
+          tools: [{ name: "doThing", inputSchema: { type: "object" } }],
+        },
+        "tools/call": {
+          content: [{ type: "text", text: "record not found" }],
+          isError: true,
+        },
+      }) as any
+    );
+
+    const tool = createMcpServerTool(workspaceId, serverId, serverName);
+    const result = await (tool as any).execute({ method: "doThing" });
+
+    expect(result).toBe("Error: record not found");
+  });
+
+  it("lists resources and resource templates", async () => {
+    mockDb["mcp-server"].get.mockResolvedValue(genericServer);
+    const fetchMock = createMcpFetch({
+      "resources/list": (params: RpcMessage["params"]) =>
+        params?.cursor
+          ? { resources: [{ uri: "file:///b.md", name: "b.md" }] }
+          : {
+              resources: [{ uri: "file:///a.md", name: "a.md" }],
+              nextCursor: "page-2",
+            },
+      "resources/templates/list": {
+        resourceTemplates: [{ uriTemplate: "file:///{path}", name: "file" }],
+      },
+    });
+    vi.stubGlobal("fetch", fetchMock as any);
+
+    const tool = createMcpListResourcesTool(workspaceId, serverId, serverName);
+    const result = JSON.parse(await (tool as any).execute({}));
+
+    expect(result.resources.map((resource: any) => resource.uri)).toEqual([
+      "file:///a.md",
+      "file:///b.md",
+    ]);
+    expect(result.resourceTemplates).toHaveLength(1);
+  });
+
+  it("reads a resource by URI", async () => {
+    mockDb["mcp-server"].get.mockResolvedValue(genericServer);
+    vi.stubGlobal(
+      "fetch",
+      createMcpFetch({
+        "resources/read": (params: RpcMessage["params"]) => ({
+          contents: [
+            { uri: params?.uri, mimeType: "text/markdown", text: "# Hello" },
+          ],
+        }),
+      }) as any
+    );
+
+    const tool = createMcpReadResourceTool(workspaceId, serverId, serverName);
+    const result = await (tool as any).execute({ uri: "file:///a.md" });
+
+    expect(result).toBe("Resource: file:///a.md (text/markdown)\n\n# Hello");
+  });
+
+  it("reports servers without resources", async () => {
+    mockDb["mcp-server"].get.mockResolvedValue(genericServer);
+    const fetchMock = createMcpFetch({}, { tools: {} });
+    vi.stubGlobal("fetch", fetchMock as any);
+
+    const tool = createMcpReadResourceTool(workspaceId, serverId, serverName);
+    const result = await (tool as any).execute({ uri: "file:///a.md" });
+
+    expect(result).toContain("does not provide resources");
+    expect(sentMethods(fetchMock)).not.toContain("resources/read");
+  });
+
+  it("renders a prompt template", async () => {
+    mockDb["mcp-server"].get.mockResolvedValue(genericServer);
+    vi.stubGlobal(
+      "fetch",
+      createMcpFetch({
+        "prompts/get": (params: RpcMessage["params"]) => ({
+          description: "Review code",
+          messages: [
+            {
+              role: "user",
+              content: {
+                type: "text",
+                text: `Review ${(params?.arguments as any).file}`,
+              },
+            },
+          ],
+        }),
+      }) as any
+    );
+
+    const tool = createMcpGetPromptTool(workspaceId, serverId, serverName);
+    const result = await (tool as any).execute({
+      name: "review",
+      arguments: { file: "index.ts" },
+    });
+
+    expect(result).toBe("Review code\n\n[user]\nReview index.ts");
+  });
+
+  it("creates resources and prompts tools unless the server lacks them", async () => {
+    mockDb["mcp-server"].get.mockResolvedValueOnce(genericServer);
+    const tools = await createMcpServerTools(workspaceId, [serverId]);
+    expect(Object.keys(tools).sort()).toEqual([
+      "mcp_test_mcp",
+      "mcp_test_mcp_get_prompt",
+      "mcp_test_mcp_list_prompts",
+      "mcp_test_mcp_list_resources",
+      "mcp_test_mcp_read_resource",
+    ]);
+
+    mockDb["mcp-server"].get.mockResolvedValueOnce({
+      ...genericServer,
+      config: { serverCapabilities: { tools: {}, prompts: {} } },
+    });
+    const toolsWithoutResources = await createMcpServerTools(workspaceId, [
+      serverId,
+    ]);
+    expect(Object.keys(toolsWithoutResources).sort()).toEqual([
+      "mcp_test_mcp",
+      "mcp_test_mcp_get_prompt",
+      "mcp_test_mcp_list_prompts",
+    ]);
   });
 });
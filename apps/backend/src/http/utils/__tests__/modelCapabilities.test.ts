@@ -2,6 +2,7 @@ import { describe, expect, it } from "vitest";
 
 import type { GenerateTextOptions } from "../agent-model";
 import {
+  capabilitiesFromDeclaration,
   filterGenerateTextOptionsForCapabilities,
   filterModelSettingsForCapabilities,
   resolveToolsForCapabilities,
@@ -148,4 +149,26 @@ describe("modelCapabilities", () => {
       stopWhen,
     });
   });
+
+  it("derives the capabilities of custom endpoint models from their declaration", () => {
+    const declared = capabilitiesFromDeclaration({
+      toolCalling: true,
+      imageInput: true,
+    });
+    expect(supportsToolCalling(declared)).toBe(true);
+    expect(declared.structured_output).toBe(false);
+    expect(declared.input_modalities).toEqual(["image", "text"]);
+    expect(declared.supported_parameters).toContain("tools");
+    expect(declared.supported_parameters).not.toContain("response_format");
+
+    const undeclared = capabilitiesFromDeclaration();
+    expect(supportsToolCalling(undeclared)).toBe(false);
+    expect(supportsReasoning(undeclared)).toBe(false);
+    expect(
+      filterModelSettingsForCapabilities(
+        { temperature: 0.5, topK: 20, maxTokens: 100 },
+        undeclared
+      )
+    ).toEqual({ temperature: 0.5, maxTokens: 100 });
+  });
 });
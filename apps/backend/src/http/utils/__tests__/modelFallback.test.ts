@@ -0,0 +1,157 @@
+import { badRequest } from "@hapi/boom";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import {
+  getModelFallbackChain,
+  isModelFallbackError,
+  runWithModelFallback,
+} from "../modelFallback";
+
+const providerError = (statusCode: number) =>
+  Object.assign(new Error(`Provider returned ${statusCode}`), { statusCode });
+
+describe("getModelFallbackChain", () => {
+  it("puts the primary model first and removes duplicates", () => {
+    expect(
+      getModelFallbackChain("model-a", ["model-b", "model-a", "model-b"])
+    ).toEqual(["model-a", "model-b"]);
+  });
+
+  it("returns only the primary model without fallbacks", () => {
+    expect(getModelFallbackChain("model-a")).toEqual(["model-a"]);
+    expect(getModelFallbackChain("model-a", null)).toEqual(["model-a"]);
+  });
+});
+
+describe("isModelFallbackError", () => {
+  it("falls back on rate limits, server errors and provider timeouts", () => {
+    expect(isModelFallbackError(providerError(429))).toBe(true);
+    expect(isModelFallbackError(providerError(502))).toBe(true);
+    expect(isModelFallbackError(providerError(408))).toBe(true);
+  });
+
+  it("does not fall back on request errors", () => {
+    expect(isModelFallbackError(providerError(400))).toBe(false);
+    expect(isModelFallbackError(providerError(401))).toBe(false);
+    expect(isModelFallbackError(providerError(402))).toBe(false);
+  });
+
+  it("does not fall back on application errors", () => {
+    expect(isModelFallbackError(badRequest("Invalid input"))).toBe(false);
+    expect(isModelFallbackError(new Error("Something broke"))).toBe(false);
+  });
+
+  it("falls back on network failures and timeouts", () => {
+    expect(
+      isModelFallbackError(
+        new TypeError("fetch failed", {
+          cause: Object.assign(new Error("connect"), { code: "ECONNRESET" }),
+        })
+      )
+    ).toBe(true);
+    expect(
+      isModelFallbackError(
+        Object.assign(new Error("The operation timed out"), {
+          name: "TimeoutError",
+        })
+      )
+    ).toBe(true);
+  });
+
+  it("uses the last error of retried calls", () => {
+    const retryError = Object.assign(
+      new Error("Failed after 3 attempts. Last error: Too Many Requests"),
+      { name: "AI_RetryError", lastError: providerError(429) }
+    );
+    expect(isModelFallbackError(retryError)).toBe(true);
+  });
+});
+
+describe("runWithModelFallback", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("returns the first model's result without falling back", async () => {
+    const attempt = vi.fn().mockResolvedValue("answer");
+
+    const result = await runWithModelFallback(["model-a", "model-b"], attempt);
+
+    expect(result).toEqual({
+      result: "answer",
+      modelName: "model-a",
+      failedModelNames: [],
+    });
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it("tries the next model when a provider fails", async () => {
+    const attempt = vi
+      .fn()
+      .mockRejectedValueOnce(providerError(503))
+      .mockRejectedValueOnce(providerError(429))
+      .mockResolvedValueOnce("answer");
+
+    const result = await runWithModelFallback(
+      ["model-a", "model-b", "model-c"],
+      attempt
+    );
+
+    expect(result).toEqual({
+      result: "answer",
+      modelName: "model-c",
+      failedModelNames: ["model-a", "model-b"],
+    });
+    expect(attempt).toHaveBeenNthCalledWith(1, "model-a", 0);
+    expect(attempt).toHaveBeenNthCalledWith(2, "model-b", 1);
+    expect(attempt).toHaveBeenNthCalledWith(3, "model-c", 2);
+  });
+
+  it("throws request errors without falling back", async () => {
+    const error = providerError(401);
+    const attempt = vi.fn().mockRejectedValue(error);
+
+    await expect(
+      runWithModelFallback(["model-a", "model-b"], attempt)
+    ).rejects.toBe(error);
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it("throws the last model's error when every model fails", async () => {
+    const lastError = providerError(500);
+    const attempt = vi
+      .fn()
+      .mockRejectedValueOnce(providerError(503))
+      .mockRejectedValueOnce(lastError);
+
+    await expect(
+      runWithModelFallback(["model-a", "model-b"], attempt)
+    ).rejects.toBe(lastError);
+  });
+
+  it("does not fall back once the caller aborted", async () => {
+    const controller = new AbortController();
+    const attempt = vi.fn().mockImplementation(async () => {
+      controller.abort();
+      throw providerError(503);
+    });
+
+    await expect(
+      runWithModelFallback(["model-a", "model-b"], attempt, {
+        abortSignal: controller.signal,
+      })
+    ).rejects.toThrow("Provider returned 503");
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not fall back when the caller no longer allows it", async () => {
+    const attempt = vi.fn().mockRejectedValue(providerError(503));
+
+    await expect(
+      runWithModelFallback(["model-a", "model-b"], attempt, {
+        canFallback: () => false,
+      })
+    ).rejects.toThrow("Provider returned 503");
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,150 @@
+import { streamText } from "ai";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { pipeAIStreamToResponse } from "../streamAIPipeline";
+import { createMockResponseStream } from "../streamResponseStream";
+
+vi.mock("ai", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("ai")>();
+  return {
+    ...actual,
+    streamText: vi.fn(),
+  };
+});
+
+const agent = {
+  pk: "agents/workspace/agent",
+  systemPrompt: "",
+  modelName: "test",
+} as const;
+
+const providerError = Object.assign(new Error("Provider returned 503"), {
+  statusCode: 503,
+});
+
+const sse = (events: Record<string, unknown>[]) =>
+  events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("");
+
+/**
+ * Mocks streamText with a UI stream of the given events, reporting
+ * `error` through onError like the AI SDK does for provider failures
+ */
+function mockStream(payload: string, error?: unknown) {
+  vi.mocked(streamText).mockImplementation(((options: {
+    onError?: (event: { error: unknown }) => void;
+  }) => {
+    if (error) {
+      options.onError?.({ error });
+    }
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(payload));
+        controller.close();
+      },
+    });
+    return {
+      toUIMessageStreamResponse: () =>
+        new Response(stream, {
+          headers: { "content-type": "text/event-stream" },
+        }),
+    };
+  }) as unknown as typeof streamText);
+}
+
+async function pipe(allowFallback: boolean) {
+  const { stream: responseStream, getBody } = createMockResponseStream();
+  const onDataWritten = vi.fn();
+  const run = pipeAIStreamToResponse(
+    agent,
+    {} as unknown as Parameters<typeof pipeAIStreamToResponse>[1],
+    [],
+    {},
+    responseStream,
+    () => {},
+    undefined,
+    onDataWritten,
+    undefined,
+    undefined,
+    undefined,
+    { allowFallback }
+  );
+  return { run, getBody, onDataWritten };
+}
+
+describe("pipeAIStreamToResponse model fallback", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("throws a provider failure before any output without writing", async () => {
+    mockStream(
+      sse([
+        { type: "start" },
+        { type: "start-step" },
+        { type: "error", errorText: "Provider returned 503" },
+      ]),
+      providerError
+    );
+
+    const { run, getBody, onDataWritten } = await pipe(true);
+
+    await expect(run).rejects.toBe(providerError);
+    expect(getBody()).toBe("");
+    expect(onDataWritten).not.toHaveBeenCalled();
+  });
+
+  it("streams the failure when no fallback is allowed", async () => {
+    mockStream(
+      sse([
+        { type: "start" },
+        { type: "error", errorText: "Provider returned 503" },
+      ]),
+      providerError
+    );
+
+    const { run, getBody } = await pipe(false);
+
+    await run;
+    expect(getBody()).toContain('"type":"error"');
+  });
+
+  it("streams request errors instead of falling back", async () => {
+    mockStream(
+      sse([
+        { type: "start" },
+        { type: "error", errorText: "Invalid API key" },
+      ]),
+      Object.assign(new Error("Invalid API key"), { statusCode: 401 })
+    );
+
+    const { run, getBody } = await pipe(true);
+
+    await run;
+    expect(getBody()).toContain('"type":"error"');
+  });
+
+  it("writes the held preamble once the model produces output", async () => {
+    mockStream(
+      sse([
+        { type: "start" },
+        { type: "start-step" },
+        { type: "text-start", id: "text-1" },
+        { type: "text-delta", id: "text-1", delta: "Hello" },
+        { type: "finish" },
+      ])
+    );
+
+    const { run, getBody, onDataWritten } = await pipe(true);
+
+    await run;
+    const body = getBody();
+    expect(body.indexOf('"type":"start"')).toBeLessThan(
+      body.indexOf('"type":"text-delta"')
+    );
+    expect(body).toContain('"type":"start-step"');
+    expect(onDataWritten).toHaveBeenCalled();
+  });
+});
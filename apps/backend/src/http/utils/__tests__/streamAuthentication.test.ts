@@ -17,6 +17,10 @@ vi.mock("../../../utils/tokenUtils", () => ({
   verifyAccessToken: vi.fn(),
 }));
 
+vi.mock("../../../utils/apiKeyUtils", () => ({
+  authenticateUserApiKey: vi.fn(),
+}));
+
 describe("streamAuthentication", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -58,6 +62,62 @@ describe("streamAuthentication", () => {
         );
       });
 
+      it("should authenticate user API keys allowed to call agents", async () => {
+        const { authenticateUserApiKey } = await import(
+          "../../../utils/apiKeyUtils"
+        );
+        const { isUserAuthorized } = await import("../../../tables/permissions");
+
+        vi.mocked(authenticateUserApiKey).mockResolvedValue({
+          userId: "user123",
+          scope: {
+            keyId: "key-1",
+            workspaceIds: ["workspace123"],
+            capabilities: ["agents"],
+          },
+        });
+        vi.mocked(isUserAuthorized).mockResolvedValue([true, "users/user123", 1]);
+
+        const event = createAPIGatewayEventV2({
+          headers: {
+            authorization: "Bearer hmat_key",
+          },
+        });
+
+        const result = await authenticateStreamRequest(
+          "test",
+          event,
+          "workspace123",
+          "agent456"
+        );
+
+        expect(result).toEqual({ authenticated: true, userId: "user123" });
+        expect(authenticateUserApiKey).toHaveBeenCalledWith("hmat_key", {
+          sourceIp: event.requestContext.http.sourceIp,
+        });
+      });
+
+      it("should reject user API keys without the agents capability", async () => {
+        const { authenticateUserApiKey } = await import(
+          "../../../utils/apiKeyUtils"
+        );
+
+        vi.mocked(authenticateUserApiKey).mockResolvedValue({
+          userId: "user123",
+          scope: { keyId: "key-1", capabilities: ["read"] },
+        });
+
+        const event = createAPIGatewayEventV2({
+          headers: {
+            authorization: "Bearer hmat_key",
+          },
+        });
+
+        await expect(
+          authenticateStreamRequest("test", event, "workspace123", "agent456")
+        ).rejects.toThrow("This API key is not allowed to call agents");
+      });
+
       it("should throw unauthorized when Authorization header is missing", async () => {
         const event = createAPIGatewayEventV2({
           headers: {},
@@ -71,6 +71,16 @@ describe("streamCorsHeaders", () => {
         "X-Conversation-Id"
       );
     });
+
+    it("should include X-End-User-Id in allowed headers", () => {
+      const headers = computeCorsHeaders("stream", undefined, null);
+      expect(headers["Access-Control-Allow-Headers"]).toContain(
+        "X-End-User-Id"
+      );
+      expect(headers["Access-Control-Allow-Headers"]).toContain(
+        "X-End-User-Signature"
+      );
+    });
   });
 
   describe("handleOptionsRequest", () => {
@@ -0,0 +1,154 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { executeStream } from "../streamExecution";
+import type { StreamRequestContext } from "../streamRequestContext";
+import { createMockResponseStream } from "../streamResponseStream";
+
+const {
+  mockPipeAIStreamToResponse,
+  mockValidateCreditsAndReserveBeforeLLM,
+  mockCleanupReservationOnError,
+  mockGetContextFromRequestId,
+} = vi.hoisted(() => ({
+  mockPipeAIStreamToResponse: vi.fn(),
+  mockValidateCreditsAndReserveBeforeLLM: vi.fn(),
+  mockCleanupReservationOnError: vi.fn(),
+  mockGetContextFromRequestId: vi.fn(),
+}));
+
+vi.mock("../streamAIPipeline", () => ({
+  pipeAIStreamToResponse: mockPipeAIStreamToResponse,
+}));
+
+vi.mock("../streamRequestContext", () => ({
+  validateCreditsAndReserveBeforeLLM: mockValidateCreditsAndReserveBeforeLLM,
+}));
+
+vi.mock("../generationCreditManagement", () => ({
+  cleanupReservationOnError: mockCleanupReservationOnError,
+}));
+
+vi.mock("../../../utils/workspaceCreditContext", () => ({
+  getContextFromRequestId: mockGetContextFromRequestId,
+}));
+
+vi.mock("../streamErrorHandling", () => ({
+  handleStreamingError: vi.fn().mockResolvedValue(false),
+  handleResultExtractionError: vi.fn().mockResolvedValue(false),
+}));
+
+const providerError = Object.assign(new Error("Provider returned 503"), {
+  statusCode: 503,
+});
+
+const streamResult = {
+  text: Promise.resolve("Hello"),
+  usage: Promise.resolve({}),
+  totalUsage: Promise.resolve({}),
+};
+
+function createContext(): StreamRequestContext {
+  return {
+    workspaceId: "workspace-1",
+    agentId: "agent-1",
+    endpointType: "stream",
+    conversationId: "conversation-1",
+    db: {},
+    modelMessages: [],
+    agent: {
+      modelName: "model-a",
+      fallbackModelNames: ["model-b"],
+    },
+    model: { id: "model-a" },
+    tools: {},
+    llmObserver: {
+      getEvents: () => [],
+      recordText: vi.fn(),
+    },
+    usesByok: false,
+    reservationId: "reservation-a",
+    finalModelName: "model-a",
+    awsRequestId: "request-1",
+    modelFallback: {
+      createModel: vi.fn().mockResolvedValue({ id: "model-b" }),
+      usesByok: false,
+    },
+  } as unknown as StreamRequestContext;
+}
+
+describe("executeStream model fallback", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockGetContextFromRequestId.mockReturnValue({ awsRequestId: "request-1" });
+    mockValidateCreditsAndReserveBeforeLLM.mockResolvedValue("reservation-b");
+  });
+
+  it("retries with the fallback model when the model fails before any output", async () => {
+    mockPipeAIStreamToResponse
+      .mockRejectedValueOnce(providerError)
+      .mockResolvedValueOnce(streamResult);
+    const context = createContext();
+    const { stream } = createMockResponseStream();
+
+    const result = await executeStream(context, stream);
+
+    expect(result?.finalResponseText).toBe("Hello");
+    expect(mockPipeAIStreamToResponse.mock.calls[0][11]).toEqual({
+      allowFallback: true,
+    });
+    expect(mockPipeAIStreamToResponse.mock.calls[1][11]).toEqual({
+      allowFallback: false,
+    });
+    expect(mockPipeAIStreamToResponse.mock.calls[1][1]).toEqual({
+      id: "model-b",
+    });
+    expect(mockCleanupReservationOnError).toHaveBeenCalledWith(
+      context.db,
+      "reservation-a",
+      "workspace-1",
+      "agent-1",
+      "openrouter",
+      "model-a",
+      providerError,
+      true,
+      false,
+      "stream",
+      { awsRequestId: "request-1" }
+    );
+    expect(context.finalModelName).toBe("model-b");
+    expect(context.agent.modelName).toBe("model-b");
+    expect(context.reservationId).toBe("reservation-b");
+  });
+
+  it("does not fall back once output was written", async () => {
+    mockPipeAIStreamToResponse.mockImplementationOnce(
+      async (...args: unknown[]) => {
+        (args[7] as () => void)();
+        throw providerError;
+      }
+    );
+    const context = createContext();
+    const { stream } = createMockResponseStream();
+
+    await expect(executeStream(context, stream)).rejects.toBe(providerError);
+    expect(mockPipeAIStreamToResponse).toHaveBeenCalledTimes(1);
+    expect(context.finalModelName).toBe("model-a");
+  });
+
+  it("uses only the agent's model without fallback models", async () => {
+    mockPipeAIStreamToResponse.mockResolvedValueOnce(streamResult);
+    const context = {
+      ...createContext(),
+      modelFallback: undefined,
+    } as StreamRequestContext;
+    const { stream } = createMockResponseStream();
+
+    await executeStream(context, stream);
+
+    expect(mockPipeAIStreamToResponse.mock.calls[0][11]).toEqual({
+      allowFallback: false,
+    });
+  });
+});
@@ -82,6 +82,7 @@ describe("processNonStreamingResponse", () => {
     mockHandleToolContinuation.mockResolvedValue({
       text: "Notification sent successfully.",
       tokenUsage: { promptTokens: 20, completionTokens: 10, totalTokens: 30 },
+      responseMessages: [],
     });
 
     const output = await processNonStreamingResponse(
@@ -113,6 +114,46 @@ describe("processNonStreamingResponse", () => {
     expect(output.text).toBe("Notification sent successfully.");
   });
 
+  it("returns the initial and continuation messages together", async () => {
+    const toolCallMessage = {
+      role: "assistant",
+      content: [{ type: "tool-call", toolCallId: "call_1", toolName: "search" }],
+    };
+    const toolResultMessage = {
+      role: "tool",
+      content: [{ type: "tool-result", toolCallId: "call_1", toolName: "search" }],
+    };
+    const continuationMessage = { role: "assistant", content: "Found it." };
+    const result = {
+      text: "",
+      toolCalls: [
+        { toolCallId: "call_1", toolName: "search", args: { query: "x" } },
+      ],
+      toolResults: [
+        { toolCallId: "call_1", toolName: "search", result: "found" },
+      ],
+      response: { messages: [toolCallMessage, toolResultMessage] },
+    };
+    mockHandleToolContinuation.mockResolvedValue({
+      text: "Found it.",
+      tokenUsage: { promptTokens: 20, completionTokens: 10, totalTokens: 30 },
+      responseMessages: [continuationMessage],
+    });
+
+    const output = await processNonStreamingResponse(
+      result,
+      mockAgent,
+      mockModel as never,
+      mockMessages
+    );
+
+    expect(output.responseMessages).toEqual([
+      toolCallMessage,
+      toolResultMessage,
+      continuationMessage,
+    ]);
+  });
+
   it("passes corrected tool results when tool call has no matching result (production bug fix)", async () => {
     const result = {
       text: "",
@@ -128,6 +169,7 @@ describe("processNonStreamingResponse", () => {
     mockHandleToolContinuation.mockResolvedValue({
       text: "I attempted to send the notification.",
       tokenUsage: { promptTokens: 20, completionTokens: 10, totalTokens: 30 },
+      responseMessages: [],
     });
 
     const output = await processNonStreamingResponse(
@@ -179,6 +221,7 @@ describe("processNonStreamingResponse", () => {
     mockHandleToolContinuation.mockResolvedValue({
       text: "Done.",
       tokenUsage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      responseMessages: [],
     });
 
     await processNonStreamingResponse(
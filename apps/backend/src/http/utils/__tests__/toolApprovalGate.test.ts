@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  getToolsRequiringApproval,
+  wrapToolsRequiringApproval,
+  type ToolApprovalGateParams,
+} from "../toolApprovalGate";
+
+const { mockCreateToolApproval, mockPostToolApprovalMessage } = vi.hoisted(
+  () => ({
+    mockCreateToolApproval: vi.fn(),
+    mockPostToolApprovalMessage: vi.fn(),
+  })
+);
+
+vi.mock("../../../tables", () => ({
+  database: vi.fn().mockResolvedValue({}),
+}));
+
+vi.mock("../../../utils/toolApproval", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../utils/toolApproval")>()),
+  createToolApproval: mockCreateToolApproval,
+  postToolApprovalMessage: mockPostToolApprovalMessage,
+}));
+
+const mcpToolSources = {
+  stripe_create_refund: { serverId: "server-1", baseName: "create_refund" },
+  stripe_list_charges: { serverId: "server-1", baseName: "list_charges" },
+};
+
+const params: ToolApprovalGateParams = {
+  workspaceId: "ws-1",
+  agentId: "agent-1",
+  agentName: "Support",
+  conversationId: "conv-1",
+  policy: {
+    toolNames: ["send_email"],
+    mcpServerToolNames: { "server-1": ["create_refund"] },
+  },
+  notificationChannelId: "channel-1",
+  mcpToolSources,
+};
+
+describe("toolApprovalGate", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockCreateToolApproval.mockResolvedValue({
+      approvalId: "approval-1",
+      workspaceId: "ws-1",
+      agentId: "agent-1",
+      toolName: "send_email",
+      args: { to: "a@example.com", subject: "Hi" },
+      expiresAt: "2026-10-20T00:00:00.000Z",
+    });
+  });
+
+  it("matches built-in tools by name and MCP tools by server and base name", () => {
+    const required = getToolsRequiringApproval(
+      [
+        "send_email",
+        "search_documents",
+        "stripe_create_refund",
+        "stripe_list_charges",
+        "create_refund",
+      ],
+      params.policy,
+      mcpToolSources
+    );
+
+    expect([...required.entries()]).toEqual([
+      ["send_email", undefined],
+      ["stripe_create_refund", "server-1"],
+    ]);
+  });
+
+  it("returns the tools unchanged without a policy", () => {
+    const tools = { send_email: { execute: vi.fn() } };
+
+    expect(
+      wrapToolsRequiringApproval(tools, { ...params, policy: undefined })
+    ).toBe(tools);
+  });
+
+  it("records an approval request instead of running a gated tool", async () => {
+    const sendEmail = vi.fn();
+    const searchDocuments = vi.fn().mockResolvedValue("found");
+    const tools = wrapToolsRequiringApproval(
+      {
+        send_email: { description: "Send", execute: sendEmail },
+        search_documents: { execute: searchDocuments },
+      },
+      params
+    );
+
+    const result = await tools.send_email.execute(
+      { to: "a@example.com", subject: "Hi" },
+      { toolCallId: "call-1" }
+    );
+
+    expect(sendEmail).not.toHaveBeenCalled();
+    expect(tools.send_email.description).toBe("Send");
+    expect(tools.search_documents.execute).toBe(searchDocuments);
+    expect(mockCreateToolApproval).toHaveBeenCalledWith(
+      {},
+      expect.objectContaining({
+        workspaceId: "ws-1",
+        agentId: "agent-1",
+        conversationId: "conv-1",
+        toolCallId: "call-1",
+        toolName: "send_email",
+        args: { to: "a@example.com", subject: "Hi" },
+        notificationChannelId: "channel-1",
+      })
+    );
+    expect(mockPostToolApprovalMessage).toHaveBeenCalledWith(
+      {},
+      expect.objectContaining({ approvalId: "approval-1" }),
+      expect.stringContaining('agent "Support"')
+    );
+    expect(result).toContain("NOT executed yet");
+  });
+
+  it("does not run the tool when the request cannot be recorded", async () => {
+    mockCreateToolApproval.mockRejectedValue(new Error("db down"));
+    const createRefund = vi.fn();
+    const tools = wrapToolsRequiringApproval(
+      { stripe_create_refund: { execute: createRefund } },
+      params
+    );
+
+    const result = await tools.stripe_create_refund.execute(
+      { charge: "ch_1" },
+      { toolCallId: "call-2" }
+    );
+
+    expect(createRefund).not.toHaveBeenCalled();
+    expect(result).toContain("NOT executed");
+  });
+});
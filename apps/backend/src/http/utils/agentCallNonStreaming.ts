@@ -4,16 +4,35 @@ import { generateText } from "ai";
 
 
 import { buildSystemPromptWithSkills } from "../../utils/agentSkills";
-import type {
-  GenerateTextResultWithTotalUsage,
-  TokenUsage,
+import { compactConversationIfNeeded } from "../../utils/conversationCompaction";
+import {
+  aggregateTokenUsage,
+  type GenerateTextResultWithTotalUsage,
+  type TokenUsage,
 } from "../../utils/conversationLogger";
+import { formatDocumentSource } from "../../utils/documentSearch";
 import type { UIMessage } from "../../utils/messageTypes";
+import { isCustomModelName } from "../../utils/modelEndpoints";
 import { getMaxSafeInputTokens } from "../../utils/pricing";
-import { estimateInputTokens } from "../../utils/tokenEstimation";
+import {
+  buildStructuredOutputRetryMessage,
+  buildStructuredOutputSpec,
+  createStructuredOutputError,
+  validateStructuredOutput,
+  type OutputJsonSchema,
+} from "../../utils/structuredOutput";
+import {
+  CONTEXT_ESTIMATE_SAFETY_FACTOR,
+  estimateInputTokens,
+} from "../../utils/tokenEstimation";
+import type { ToolApprovalOrigin } from "../../utils/toolApproval";
 import type { AugmentedContext } from "../../utils/workspaceCreditContext";
 
-import { setupAgentAndTools, type AgentSetupOptions } from "./agentSetup";
+import {
+  setupAgentAndTools,
+  type AgentConfigOverrides,
+  type AgentSetupOptions,
+} from "./agentSetup";
 import { MODEL_NAME } from "./agentUtils";
 import {
   adjustCreditsAfterLLMCall,
@@ -37,6 +56,10 @@ import {
   resolveModelCapabilities,
   resolveToolsForCapabilities,
 } from "./modelCapabilities";
+import {
+  getModelFallbackChain,
+  runWithModelFallback,
+} from "./modelFallback";
 import { processNonStreamingResponse } from "./streaming";
 
 export interface AgentCallNonStreamingOptions {
@@ -45,10 +68,24 @@ export interface AgentCallNonStreamingOptions {
   conversationId?: string;
   conversationOwnerAgentId?: string;
   userId?: string;
-  endpointType?: "bridge" | "webhook" | "test" | "stream" | "scheduled";
+  endpointType?:
+    | "bridge"
+    | "webhook"
+    | "test"
+    | "stream"
+    | "scheduled"
+    | "eval-dataset";
   conversationHistory?: UIMessage[];
   abortSignal?: AbortSignal;
   llmObserver?: ReturnType<typeof createLlmObserver>;
+  // JSON Schema the response must match (overrides the agent's outputSchema)
+  outputSchema?: OutputJsonSchema;
+  // Candidate system prompt or model (offline eval runs)
+  agentOverrides?: AgentConfigOverrides;
+  // End user the agent is talking to (selects the per-end-user memory partition)
+  endUserId?: string;
+  // Bot thread of the run; answers of runs resumed after a tool approval are posted there
+  toolApprovalOrigin?: ToolApprovalOrigin;
 }
 
 export interface AgentCallNonStreamingResult {
@@ -63,6 +100,8 @@ export interface AgentCallNonStreamingResult {
   observerEvents?: LlmObserverEvent[];
   usesByok?: boolean;
   modelName?: string;
+  // Parsed response when a structured-output schema was applied
+  structuredOutput?: unknown;
 }
 
 type NonStreamingExecutionResult = {
@@ -84,19 +123,22 @@ export const buildNonStreamingSetupOptions = (
   conversationId: options?.conversationId,
   conversationOwnerAgentId: options?.conversationOwnerAgentId || agentId,
   userId: options?.userId,
+  endUserId: options?.endUserId,
   llmObserver,
+  agentOverrides: options?.agentOverrides,
+  toolApprovalOrigin: options?.toolApprovalOrigin,
   searchDocumentsOptions: {
     description:
-      "Search workspace documents using semantic vector search. Returns the most relevant document snippets based on the query.",
+      "Search workspace documents using hybrid keyword and semantic search, so both exact terms (product codes, error messages, names) and related concepts match. Returns the most relevant document snippets based on the query.",
     queryDescription:
       "The search query or prompt to find relevant document snippets",
     formatResults: (results) => {
       return results
         .map(
           (result, index) =>
-            `[${index + 1}] Document: ${result.documentName}${
-              result.folderPath ? ` (${result.folderPath})` : ""
-            }\nSimilarity: ${(result.similarity * 100).toFixed(
+            `[${index + 1}] Document: ${formatDocumentSource(
+              result,
+            )}\nSimilarity: ${(result.similarity * 100).toFixed(
               1,
             )}%\nContent:\n${result.snippet}\n`,
         )
@@ -114,6 +156,53 @@ const buildNonStreamingMessages = (
   return { uiMessage, allMessages };
 };
 
+/**
+ * Compacts older turns into a summary when the prompt for the agent's primary
+ * model approaches its context limit
+ */
+const compactNonStreamingMessages = async (params: {
+  db: Awaited<ReturnType<typeof import("../../tables").database>>;
+  workspaceId: string;
+  agentId: string;
+  agent: Awaited<ReturnType<typeof setupAgentAndTools>>["agent"];
+  tools: Awaited<ReturnType<typeof setupAgentAndTools>>["tools"];
+  usesByok: boolean;
+  messages: ModelMessage[];
+  modelName: string;
+  endpointType: NonNullable<AgentCallNonStreamingOptions["endpointType"]>;
+  context?: AugmentedContext;
+  conversationId?: string;
+}): Promise<ModelMessage[]> => {
+  const effectiveTools = resolveToolsForCapabilities(
+    params.tools,
+    resolveModelCapabilities("openrouter", params.modelName),
+  );
+  const { messages } = await compactConversationIfNeeded({
+    db: params.db,
+    workspaceId: params.workspaceId,
+    agentId: params.agentId,
+    conversationId: params.conversationId,
+    // Bot conversations are logged as webhook conversations; eval dataset
+    // runs are not logged and compact like test conversations
+    conversationType:
+      params.endpointType === "bridge"
+        ? "webhook"
+        : params.endpointType === "eval-dataset"
+          ? "test"
+          : params.endpointType,
+    messages: params.messages,
+    systemPrompt: await buildSystemPromptWithSkills(
+      params.agent.systemPrompt,
+      params.agent.enabledSkillIds,
+    ),
+    toolDefinitions: convertToolsToDefinitions(effectiveTools),
+    modelName: params.modelName,
+    usesByok: params.usesByok || isCustomModelName(params.modelName),
+    context: params.context,
+  });
+  return messages;
+};
+
 const executeNonStreamingLLMCall = async (params: {
   db: Awaited<ReturnType<typeof import("../../tables").database>>;
   workspaceId: string;
@@ -128,6 +217,8 @@ const executeNonStreamingLLMCall = async (params: {
   context?: AugmentedContext;
   conversationId?: string;
   abortSignal?: AbortSignal;
+  outputSchema?: OutputJsonSchema;
+  onStepFinish?: () => void;
 }): Promise<NonStreamingExecutionResult> => {
   let reservationId: string | undefined;
   let llmCallAttempted = false;
@@ -162,9 +253,7 @@ const executeNonStreamingLLMCall = async (params: {
       "openrouter",
       params.finalModelName,
     );
-    // Use conservative factor: real tokenizers often use fewer chars/token than 4,
-    // so we can underestimate; 1.5x ensures we fail fast before hitting the API.
-    const CONTEXT_ESTIMATE_SAFETY_FACTOR = 1.5;
+    // Conservative factor so we fail fast before hitting the API
     const effectiveEstimatedTokens = Math.ceil(
       estimatedInputTokens * CONTEXT_ESTIMATE_SAFETY_FACTOR,
     );
@@ -213,6 +302,7 @@ const executeNonStreamingLLMCall = async (params: {
       messagesCount: params.modelMessagesWithKnowledge.length,
       toolsCount: effectiveTools ? Object.keys(effectiveTools).length : 0,
       hasAbortSignal: Boolean(params.abortSignal),
+      hasOutputSchema: Boolean(params.outputSchema),
       ...generateOptions,
     });
 
@@ -225,7 +315,11 @@ const executeNonStreamingLLMCall = async (params: {
       messages: params.modelMessagesWithKnowledge,
       ...(effectiveTools ? { tools: effectiveTools } : {}),
       ...generateOptions,
+      ...(params.outputSchema && {
+        output: buildStructuredOutputSpec(params.outputSchema),
+      }),
       ...(params.abortSignal && { abortSignal: params.abortSignal }),
+      ...(params.onStepFinish && { onStepFinish: params.onStepFinish }),
     });
 
     extractionResult = extractTokenUsageAndCosts(
@@ -365,7 +459,8 @@ export async function callAgentNonStreaming(
     options?.conversationHistory,
   );
 
-  const { agent, model, tools, usesByok } = await setupAgentAndTools(
+  const { agent, model, tools, usesByok, createFallbackModel } =
+    await setupAgentAndTools(
     workspaceId,
     agentId,
     allMessages, // Pass conversation history including current message
@@ -388,9 +483,10 @@ export async function callAgentNonStreaming(
     agentId,
     options?.conversationId,
     usesByok,
+    undefined,
+    options?.endUserId,
   );
 
-  const modelMessagesWithKnowledge = knowledgeInjectionResult.modelMessages;
   const knowledgeInjectionMessage =
     knowledgeInjectionResult.knowledgeInjectionMessage;
   const rerankingRequestMessage =
@@ -408,34 +504,91 @@ export async function callAgentNonStreaming(
   );
 
   // Derive the model name from the agent's modelName if set, otherwise use default
-  const finalModelName =
+  const primaryModelName =
     typeof agent.modelName === "string" && agent.modelName.length > 0
       ? agent.modelName
       : MODEL_NAME;
+  // Model that answered (a fallback model when the primary one failed)
+  let finalModelName = primaryModelName;
+
+  const modelMessagesWithKnowledge = await compactNonStreamingMessages({
+    db,
+    workspaceId,
+    agentId,
+    agent,
+    tools,
+    usesByok,
+    messages: knowledgeInjectionResult.modelMessages,
+    modelName: primaryModelName,
+    endpointType,
+    context: options?.context,
+    conversationId: options?.conversationId,
+  });
+  const wasCompacted =
+    modelMessagesWithKnowledge !== knowledgeInjectionResult.modelMessages;
+
+  // The agent's own schema only applies to webhook calls; bot and scheduled
+  // responses are read by people
+  const outputSchema =
+    options?.outputSchema ??
+    (endpointType === "webhook" ? agent.outputSchema : undefined);
 
   try {
-    const execution = await executeNonStreamingLLMCall({
+    const baseExecutionParams = {
       db,
       workspaceId,
       agentId,
       agent,
-      model,
       tools,
       usesByok,
       modelMessagesWithKnowledge,
-      finalModelName,
       endpointType,
       context: options?.context,
       conversationId: options?.conversationId,
       abortSignal: options?.abortSignal,
-    });
+      outputSchema,
+    };
+    // Once a step finished, its tools ran: another model would run them again
+    let stepCompleted = false;
+    // Each attempt reserves and settles credits for its own model
+    const fallback = await runWithModelFallback(
+      getModelFallbackChain(primaryModelName, agent.fallbackModelNames),
+      async (modelName, attemptIndex) => {
+        finalModelName = modelName;
+        const attemptModel =
+          attemptIndex === 0 ? model : await createFallbackModel(modelName);
+        const execution = await executeNonStreamingLLMCall({
+          ...baseExecutionParams,
+          model: attemptModel,
+          finalModelName: modelName,
+          usesByok: usesByok || isCustomModelName(modelName),
+          onStepFinish: () => {
+            stepCompleted = true;
+          },
+        });
+        return { execution, model: attemptModel };
+      },
+      {
+        abortSignal: options?.abortSignal,
+        logLabel: "Non-Streaming Handler",
+        canFallback: () => !stepCompleted,
+      },
+    );
+    const { execution, model: answeringModel } = fallback.result;
+    const executionParams = {
+      ...baseExecutionParams,
+      model: answeringModel,
+      finalModelName,
+      usesByok: usesByok || isCustomModelName(finalModelName),
+    };
 
     // Process response and handle tool continuation if needed
     const processedResult = await processNonStreamingResponse(
       execution.result as unknown as GenerateTextResultWithTotalUsage,
       agent,
-      model,
-      modelMessages,
+      answeringModel,
+      // Tool continuation must not resend the compacted turns
+      wasCompacted ? modelMessagesWithKnowledge : modelMessages,
       tools,
       options?.abortSignal,
     );
@@ -445,30 +598,86 @@ export async function callAgentNonStreaming(
       conversationId: options?.conversationId,
       endpointType: options?.endpointType || "bridge",
       receivedAt: new Date().toISOString(),
+      modelName: finalModelName,
+      fallbackFrom: fallback.failedModelNames,
       text: processedResult.text,
     });
 
     // Use token usage from processedResult if available (includes continuation tokens),
     // otherwise fall back to initial extraction
-    const finalTokenUsage = processedResult.tokenUsage || execution.tokenUsage;
+    let finalTokenUsage = processedResult.tokenUsage || execution.tokenUsage;
+    let finalText = processedResult.text;
+    let openrouterGenerationIds =
+      execution.extractionResult.openrouterGenerationIds;
+    let provisionalCostUsd = execution.extractionResult.provisionalCostUsd;
+    let structuredOutput: unknown;
+
+    if (outputSchema) {
+      let validation = validateStructuredOutput(outputSchema, finalText);
+      if (!validation.success) {
+        console.warn(
+          "[Non-Streaming Handler] Structured output failed validation, retrying once:",
+          {
+            workspaceId,
+            agentId,
+            conversationId: options?.conversationId,
+            error: validation.error,
+          },
+        );
+        // Retry with the first attempt (including tool results and tool continuation)
+        // and the validation error in context
+        const retry = await executeNonStreamingLLMCall({
+          ...executionParams,
+          modelMessagesWithKnowledge: [
+            ...modelMessagesWithKnowledge,
+            ...processedResult.responseMessages,
+            buildStructuredOutputRetryMessage(validation.error),
+          ],
+        });
+        finalText = retry.result.text ?? "";
+        finalTokenUsage =
+          finalTokenUsage || retry.tokenUsage
+            ? aggregateTokenUsage(finalTokenUsage, retry.tokenUsage)
+            : undefined;
+        const retryGenerationIds =
+          retry.extractionResult.openrouterGenerationIds;
+        if (retryGenerationIds?.length) {
+          openrouterGenerationIds = [
+            ...(openrouterGenerationIds ?? []),
+            ...retryGenerationIds,
+          ];
+        }
+        if (retry.extractionResult.provisionalCostUsd !== undefined) {
+          provisionalCostUsd =
+            (provisionalCostUsd ?? 0) +
+            retry.extractionResult.provisionalCostUsd;
+        }
+
+        validation = validateStructuredOutput(outputSchema, finalText);
+        if (!validation.success) {
+          throw createStructuredOutputError(validation.error);
+        }
+      }
+      structuredOutput = validation.data;
+    }
 
     return {
-      text: processedResult.text,
+      text: finalText,
       tokenUsage: finalTokenUsage,
       rawResult: execution.result,
       openrouterGenerationId: execution.extractionResult.openrouterGenerationId,
-      openrouterGenerationIds:
-        execution.extractionResult.openrouterGenerationIds,
-      provisionalCostUsd: execution.extractionResult.provisionalCostUsd,
+      openrouterGenerationIds,
+      provisionalCostUsd,
       observerEvents: llmObserver.getEvents(),
-      usesByok,
+      usesByok: executionParams.usesByok,
       modelName: finalModelName,
+      ...(outputSchema && { structuredOutput }),
     };
   } catch (error) {
     if (error && typeof error === "object") {
       const errorAny = error as Record<string, unknown>;
       if (!("usesByok" in errorAny)) {
-        errorAny.usesByok = usesByok;
+        errorAny.usesByok = usesByok || isCustomModelName(finalModelName);
       }
       if (!("modelName" in errorAny)) {
         errorAny.modelName = finalModelName;
@@ -10,17 +10,23 @@ import { tool } from "ai";
 import { z } from "zod";
 
 import { database } from "../../tables";
+import { updateAgentWithConfigVersion } from "../../utils/agentConfigVersions";
 import {
   buildEvalJudgeRecordForCreate,
   buildEvalJudgeUpdatePayload,
   type ExistingEvalJudgeForUpdate,
 } from "../../utils/agentEvalJudge";
 import {
+  DEFAULT_SCHEDULE_TIMEZONE,
   buildAgentSchedulePk,
   buildScheduleRecordForCreate,
   buildScheduleUpdatePayload,
   type ExistingScheduleForUpdate,
 } from "../../utils/agentSchedule";
+import {
+  getChangedFields,
+  recordAuditEventForUser,
+} from "../../utils/auditLog";
 import {
   ensureAgentEvalJudgeCreationAllowed,
   ensureAgentScheduleCreationAllowed,
@@ -28,6 +34,7 @@ import {
 import type { AugmentedContext } from "../../utils/workspaceCreditContext";
 
 
+import { requireScheduleDeliveryTarget } from "./agentScheduleAccess";
 import { createGetDatetimeTool } from "./agentUtils";
 import {
   getInternalDocsPromptSection,
@@ -40,8 +47,10 @@ import {
 import type { LlmObserver } from "./llmObserver";
 import { wrapToolsWithObserver } from "./llmObserver";
 import { getDefaultModel } from "./modelFactory";
+import { MAX_FALLBACK_MODELS } from "./modelFallback";
 import {
   createAgentScheduleSchema,
+  scheduleDeliverySchema,
   updateAgentScheduleSchema,
   createEvalJudgeSchema,
   updateEvalJudgeSchema,
@@ -73,6 +82,7 @@ export type AgentRecordForConfig = {
   memoryExtractionEnabled?: boolean;
   memoryExtractionModel?: string | null;
   memoryExtractionPrompt?: string | null;
+  memoryPartitionByEndUser?: boolean;
   [key: string]: unknown;
 };
 
@@ -81,13 +91,13 @@ const META_AGENT_PRODUCT_AND_CONFIG = `This agent belongs to a Helpmaton workspa
 ## What you can configure (use get_my_config first, then the relevant tools)
 - **Identity**: name, system prompt, model (modelName, temperature, topP) — update_my_config
 - **Document search**: enableSearchDocuments — update_my_config
-- **Memory**: enableMemorySearch; memory extraction (memoryExtractionEnabled, model, prompt) — get_my_memory_settings, update_my_memory_settings
+- **Memory**: enableMemorySearch; memory extraction (memoryExtractionEnabled, model, prompt); per-end-user memory (memoryPartitionByEndUser) — get_my_memory_settings, update_my_memory_settings
 - **Knowledge injection**: enableKnowledgeInjection — update_my_config
 - **Web search / fetch**: searchWebProvider (tavily/jina), fetchWebProvider (tavily/jina/scrape), enableExaSearch — update_my_config (and get_my_config to see current)
 - **Image generation, send email**: enableImageGeneration, enableSendEmail — update_my_config
 - **MCP tools**: enabledMcpServerIds (and tool allowlists) — configured in UI; use get_my_config to see current
 - **Delegation**: delegatableAgentIds (which agents this one can call via call_agent) — update_my_config
-- **Schedules**: list_my_schedules, create_my_schedule, update_my_schedule, delete_my_schedule (cron, prompt, enabled)
+- **Schedules**: list_my_schedules, create_my_schedule, update_my_schedule, delete_my_schedule (cron, timezone, prompt with {{variables}}, delivery to a channel or email, enabled)
 - **Eval judges**: list_my_eval_judges, create_my_eval_judge, update_my_eval_judge, delete_my_eval_judge
 - **API keys**: list_my_keys (webhook and widget keys)`;
 
@@ -126,6 +136,7 @@ function createAgentConfigTools(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any -- AI SDK tool types
 ): Record<string, any> {
   const userId = options?.userId;
+  const actorUserRef = userId ? `users/${userId}` : undefined;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any -- AI SDK tool types
   const tools: Record<string, any> = {};
   const readInternalDocState: ReadInternalDocState = { callCount: 0 };
@@ -226,9 +237,22 @@ function createAgentConfigTools(
         enableSendEmail: parsed.enableSendEmail ?? existing.enableSendEmail,
         updatedAt: new Date().toISOString(),
       };
-      await db.agent.update(
-        updatePayload as Parameters<typeof db.agent.update>[0]
+      await updateAgentWithConfigVersion(
+        db,
+        existing,
+        updatePayload as Parameters<typeof db.agent.update>[0],
+        {
+          source: "assistant",
+          createdBy: userId ? `users/${userId}` : undefined,
+        }
       );
+      await recordAuditEventForUser(actorUserRef, workspaceId, {
+        action: "updated",
+        resourceType: "agent",
+        resourceId: agentId,
+        resourceName: updatePayload.name,
+        changedFields: getChangedFields(parsed, existing),
+      });
       return "Agent configuration updated successfully.";
     },
   });
@@ -262,7 +286,9 @@ function createAgentConfigTools(
           scheduleId: string;
           name: string;
           cronExpression: string;
+          timezone?: string;
           prompt: string;
+          delivery?: unknown;
           enabled: boolean;
           nextRunAt: number;
           lastRunAt?: string;
@@ -272,7 +298,9 @@ function createAgentConfigTools(
           id: s.scheduleId,
           name: s.name,
           cronExpression: s.cronExpression,
+          timezone: s.timezone ?? DEFAULT_SCHEDULE_TIMEZONE,
           prompt: s.prompt,
+          delivery: s.delivery ?? null,
           enabled: s.enabled,
           nextRunAt: s.nextRunAt,
           lastRunAt: s.lastRunAt ?? null,
@@ -294,7 +322,7 @@ function createAgentConfigTools(
 
   tools.create_my_schedule = tool({
     description:
-      "Create a new schedule for this agent. name, cronExpression (UTC cron), prompt (first user message for the run), enabled (default true).",
+      "Create a new schedule for this agent. name, cronExpression, timezone (IANA name such as Europe/Lisbon the cron is evaluated in; default UTC), prompt (first user message for the run; may use {{now}}, {{date}}, {{lastRunAt}}, {{lastRunSummary}}, {{workspaceName}}, {{agentName}}, {{scheduleName}}), delivery (optional: {type:'channel', channelId} or {type:'email', recipients, subjectTemplate?} to send each run's final answer), enabled (default true).",
     parameters: createAgentScheduleSchema,
     // @ts-expect-error - AI SDK execute signature
     execute: async (args: unknown) => {
@@ -315,6 +343,15 @@ function createAgentConfigTools(
         }
       }
       const db = await database();
+      if (parsed.delivery) {
+        try {
+          await requireScheduleDeliveryTarget(db, workspaceId, parsed.delivery);
+        } catch (err) {
+          return JSON.stringify({
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
       const scheduleId = randomUUID();
       const scheduleRecord = buildScheduleRecordForCreate(
         workspaceId,
@@ -323,19 +360,30 @@ function createAgentConfigTools(
         {
           name: parsed.name,
           cronExpression: parsed.cronExpression,
+          timezone: parsed.timezone,
           prompt: parsed.prompt,
+          delivery: parsed.delivery,
           enabled: parsed.enabled,
         }
       );
       await db["agent-schedule"].create(
         scheduleRecord as Parameters<typeof db["agent-schedule"]["create"]>[0]
       );
+      await recordAuditEventForUser(actorUserRef, workspaceId, {
+        action: "created",
+        resourceType: "schedule",
+        resourceId: scheduleId,
+        resourceName: parsed.name,
+        agentId,
+      });
       const enabled = parsed.enabled ?? true;
       return JSON.stringify({
         id: scheduleId,
         name: parsed.name,
         cronExpression: parsed.cronExpression,
+        timezone: (scheduleRecord as { timezone: string }).timezone,
         prompt: parsed.prompt,
+        delivery: parsed.delivery ?? null,
         enabled,
         nextRunAt: (scheduleRecord as { nextRunAt: number }).nextRunAt,
         message: "Schedule created.",
@@ -348,13 +396,15 @@ function createAgentConfigTools(
       scheduleId: z.string().min(1),
       name: z.string().min(1).optional(),
       cronExpression: z.string().min(1).optional(),
+      timezone: z.string().min(1).optional(),
       prompt: z.string().min(1).optional(),
+      delivery: scheduleDeliverySchema.nullable().optional(),
       enabled: z.boolean().optional(),
     })
     .strict();
   tools.update_my_schedule = tool({
     description:
-      "Update an existing schedule. Pass scheduleId and the fields to change.",
+      "Update an existing schedule. Pass scheduleId and the fields to change. Set delivery to null to stop delivering results.",
     parameters: updateScheduleSchema,
     // @ts-expect-error - AI SDK execute signature
     execute: async (args: unknown) => {
@@ -374,6 +424,23 @@ function createAgentConfigTools(
       if (parsed.prompt !== undefined) body.prompt = parsed.prompt;
       if (parsed.cronExpression !== undefined)
         body.cronExpression = parsed.cronExpression;
+      if (parsed.timezone !== undefined) body.timezone = parsed.timezone;
+      if (parsed.delivery !== undefined) {
+        if (parsed.delivery) {
+          try {
+            await requireScheduleDeliveryTarget(
+              db,
+              workspaceId,
+              parsed.delivery
+            );
+          } catch (err) {
+            return JSON.stringify({
+              error: err instanceof Error ? err.message : String(err),
+            });
+          }
+        }
+        body.delivery = parsed.delivery;
+      }
       if (parsed.enabled !== undefined) body.enabled = parsed.enabled;
       const updatePayload = updateAgentScheduleSchema.parse(body);
       const updateData = buildScheduleUpdatePayload(
@@ -384,6 +451,14 @@ function createAgentConfigTools(
       await scheduleTable.update(
         updateData as Parameters<typeof scheduleTable.update>[0]
       );
+      await recordAuditEventForUser(actorUserRef, workspaceId, {
+        action: "updated",
+        resourceType: "schedule",
+        resourceId: parsed.scheduleId,
+        resourceName: updatePayload.name ?? schedule.name,
+        agentId,
+        changedFields: getChangedFields(body, schedule),
+      });
       return "Schedule updated successfully.";
     },
   });
@@ -404,6 +479,13 @@ function createAgentConfigTools(
         return JSON.stringify({ error: "Schedule not found" });
       }
       await db["agent-schedule"].delete(schedulePk, "schedule");
+      await recordAuditEventForUser(actorUserRef, workspaceId, {
+        action: "deleted",
+        resourceType: "schedule",
+        resourceId: scheduleId,
+        resourceName: schedule.name,
+        agentId,
+      });
       return "Schedule deleted successfully.";
     },
   });
@@ -478,7 +560,7 @@ function createAgentConfigTools(
 
   tools.create_my_eval_judge = tool({
     description:
-      "Create an evaluation judge for this agent. name, modelName, evalPrompt required; enabled, samplingProbability (0-100), provider (openrouter) optional.",
+      "Create an evaluation judge for this agent. name, modelName, evalPrompt required; enabled, samplingProbability (0-100), provider (openrouter), fallbackModelNames (up to 3 models tried when the judge's model fails) optional.",
     parameters: createEvalJudgeSchema,
     // @ts-expect-error - AI SDK execute signature
     execute: async (args: unknown) => {
@@ -510,12 +592,20 @@ function createAgentConfigTools(
           samplingProbability: parsed.samplingProbability,
           provider: parsed.provider,
           modelName: parsed.modelName,
+          fallbackModelNames: parsed.fallbackModelNames,
           evalPrompt: parsed.evalPrompt,
         }
       );
       await (db as unknown as Record<string, { create: (r: unknown) => Promise<unknown> }>)[
         "agent-eval-judge"
       ].create(judgeRecord);
+      await recordAuditEventForUser(actorUserRef, workspaceId, {
+        action: "created",
+        resourceType: "eval-judge",
+        resourceId: judgeId,
+        resourceName: parsed.name,
+        agentId,
+      });
       return JSON.stringify({
         id: judgeId,
         name: parsed.name,
@@ -533,6 +623,10 @@ function createAgentConfigTools(
       samplingProbability: z.number().int().min(0).max(100).optional(),
       provider: z.enum(["openrouter"]).optional(),
       modelName: z.string().min(1).optional(),
+      fallbackModelNames: z
+        .array(z.string().min(1))
+        .max(MAX_FALLBACK_MODELS)
+        .optional(),
       evalPrompt: z.string().min(1).optional(),
     })
     .strict();
@@ -556,6 +650,7 @@ function createAgentConfigTools(
         samplingProbability: parsed.samplingProbability,
         provider: parsed.provider,
         modelName: parsed.modelName,
+        fallbackModelNames: parsed.fallbackModelNames,
         evalPrompt: parsed.evalPrompt,
       });
       const updateData = buildEvalJudgeUpdatePayload(
@@ -565,6 +660,18 @@ function createAgentConfigTools(
       await (db as unknown as Record<string, { update: (r: unknown) => Promise<unknown> }>)[
         "agent-eval-judge"
       ].update(updateData);
+      const { judgeId, ...changes } = parsed;
+      await recordAuditEventForUser(actorUserRef, workspaceId, {
+        action: "updated",
+        resourceType: "eval-judge",
+        resourceId: judgeId,
+        resourceName: parsed.name ?? (judge as { name?: string }).name,
+        agentId,
+        changedFields: getChangedFields(
+          changes,
+          judge as Record<string, unknown>
+        ),
+      });
       return "Eval judge updated successfully.";
     },
   });
@@ -592,6 +699,13 @@ function createAgentConfigTools(
           { delete: (pk: string, sk: string) => Promise<unknown> }
         >
       )["agent-eval-judge"].delete(judgePk, "judge");
+      await recordAuditEventForUser(actorUserRef, workspaceId, {
+        action: "deleted",
+        resourceType: "eval-judge",
+        resourceId: judgeId,
+        resourceName: (judge as { name?: string }).name,
+        agentId,
+      });
       return "Eval judge deleted successfully.";
     },
   });
@@ -626,7 +740,7 @@ function createAgentConfigTools(
 
   tools.get_my_memory_settings = tool({
     description:
-      "Get this agent's memory extraction settings: enabled, model, prompt.",
+      "Get this agent's memory settings: extraction enabled, model, prompt, and whether memory is kept per end user.",
     parameters: z.object({}).strict(),
     // @ts-expect-error - AI SDK execute signature
     execute: async () => {
@@ -635,6 +749,7 @@ function createAgentConfigTools(
           memoryExtractionEnabled: agent.memoryExtractionEnabled ?? false,
           memoryExtractionModel: agent.memoryExtractionModel ?? null,
           memoryExtractionPrompt: agent.memoryExtractionPrompt ?? null,
+          memoryPartitionByEndUser: agent.memoryPartitionByEndUser ?? false,
         },
         null,
         2
@@ -647,11 +762,12 @@ function createAgentConfigTools(
       memoryExtractionEnabled: z.boolean().optional(),
       memoryExtractionModel: z.string().nullable().optional(),
       memoryExtractionPrompt: z.string().nullable().optional(),
+      memoryPartitionByEndUser: z.boolean().optional(),
     })
     .strict();
   tools.update_my_memory_settings = tool({
     description:
-      "Update this agent's memory extraction settings. Pass only the fields to change.",
+      "Update this agent's memory settings. Pass only the fields to change.",
     parameters: updateMemorySettingsSchema,
     // @ts-expect-error - AI SDK execute signature
     execute: async (args: unknown) => {
@@ -674,11 +790,27 @@ function createAgentConfigTools(
           parsed.memoryExtractionPrompt !== undefined
             ? parsed.memoryExtractionPrompt
             : existing.memoryExtractionPrompt,
+        memoryPartitionByEndUser:
+          parsed.memoryPartitionByEndUser ??
+          existing.memoryPartitionByEndUser,
         updatedAt: new Date().toISOString(),
       };
-      await db.agent.update(
-        updatePayload as Parameters<typeof db.agent.update>[0]
+      await updateAgentWithConfigVersion(
+        db,
+        existing,
+        updatePayload as Parameters<typeof db.agent.update>[0],
+        {
+          source: "assistant",
+          createdBy: userId ? `users/${userId}` : undefined,
+        }
       );
+      await recordAuditEventForUser(actorUserRef, workspaceId, {
+        action: "updated",
+        resourceType: "agent",
+        resourceId: agentId,
+        resourceName: existing.name,
+        changedFields: getChangedFields(parsed, existing),
+      });
       return "Memory settings updated successfully.";
     },
   });
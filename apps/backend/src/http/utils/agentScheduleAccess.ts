@@ -1,6 +1,7 @@
 import { badRequest } from "@hapi/boom";
 
 import type { DatabaseSchema } from "../../tables/schema";
+import type { ScheduleDeliveryTarget } from "../../utils/scheduleDelivery";
 
 export async function requireAgentInWorkspace(
   db: DatabaseSchema,
@@ -16,3 +17,31 @@ export async function requireAgentInWorkspace(
     throw badRequest("Agent does not belong to this workspace");
   }
 }
+
+/**
+ * Ensures a schedule delivery target points at something that exists in the workspace:
+ * an output channel, or the workspace email connection for email targets.
+ */
+export async function requireScheduleDeliveryTarget(
+  db: DatabaseSchema,
+  workspaceId: string,
+  delivery: ScheduleDeliveryTarget
+): Promise<void> {
+  if (delivery.type === "channel") {
+    const channel = await db["output_channel"].get(
+      `output-channels/${workspaceId}/${delivery.channelId}`,
+      "channel"
+    );
+    if (!channel || channel.workspaceId !== workspaceId) {
+      throw badRequest("Delivery channel not found");
+    }
+    return;
+  }
+  const connection = await db["email-connection"].get(
+    `email-connections/${workspaceId}`,
+    "connection"
+  );
+  if (!connection) {
+    throw badRequest("Email delivery requires a workspace email connection");
+  }
+}
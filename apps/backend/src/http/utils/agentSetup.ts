@@ -6,9 +6,11 @@ import { z } from "zod";
 import { database } from "../../tables";
 import { enqueueCostVerification, refundReservation, reserveCredits } from "../../utils/creditManagement";
 import { estimateImageGenerationCost } from "../../utils/imageGenerationCredits";
+import { getAgentMemoryPartitionKey } from "../../utils/memory/memoryPartitions";
 import type { UIMessage } from "../../utils/messageTypes";
 import { extractOpenRouterGenerationIdFromResponse } from "../../utils/openrouterUtils";
 import { uploadConversationFile } from "../../utils/s3";
+import type { ToolApprovalOrigin } from "../../utils/toolApproval";
 import type { AugmentedContext } from "../../utils/workspaceCreditContext";
 
 import {
@@ -27,20 +29,30 @@ import {
 } from "./agentUtils";
 import type { LlmObserver } from "./llmObserver";
 import { wrapToolsWithObserver } from "./llmObserver";
-import { createMcpServerTools } from "./mcpUtils";
+import {
+  createMcpServerToolsWithSources,
+  type McpToolSource,
+} from "./mcpUtils";
 import { createSearchMemoryTool } from "./memorySearchTool";
 import {
   resolveModelCapabilities,
   supportsToolCalling,
 } from "./modelCapabilities";
 import { getDefaultModel } from "./modelFactory";
+import { wrapToolsRequiringApproval } from "./toolApprovalGate";
 
 export interface AgentSetup {
   agent: WorkspaceAndAgent["agent"];
   model: Awaited<ReturnType<typeof createAgentModel>>;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Tools have varying types, including dynamic MCP tools
   tools: Record<string, any>;
+  // Whether the workspace's OpenRouter key is used (calls to custom endpoint
+  // models never cost credits either, see isCustomModelName)
   usesByok: boolean;
+  // Creates the model for another model name with the same key and settings (fallback models)
+  createFallbackModel: (
+    modelName: string
+  ) => Promise<Awaited<ReturnType<typeof createAgentModel>>>;
 }
 
 export interface AgentSetupOptions {
@@ -49,10 +61,23 @@ export interface AgentSetupOptions {
   callDepth?: number;
   maxDelegationDepth?: number;
   userId?: string;
+  // End user the agent is talking to (widget, bot or webhook caller), for per-end-user memory
+  endUserId?: string;
   context?: AugmentedContext;
   conversationId?: string;
   conversationOwnerAgentId?: string; // Agent ID that owns the conversation (for delegation tracking)
   llmObserver?: LlmObserver;
+  // Run tools that require approval directly (executing an approved call)
+  bypassToolApproval?: boolean;
+  // Bot thread of the run; answers of runs resumed after a tool approval are posted there
+  toolApprovalOrigin?: ToolApprovalOrigin;
+  // Candidate configuration used instead of the stored one (offline eval runs)
+  agentOverrides?: AgentConfigOverrides;
+}
+
+export interface AgentConfigOverrides {
+  systemPrompt?: string;
+  modelName?: string;
 }
 
 /**
@@ -182,21 +207,26 @@ const addCoreTools = (
       context: effectiveContext,
       agentId,
       conversationId: options?.conversationId,
+      folderPaths: agent.knowledgeFolderPaths,
+      tags: agent.knowledgeTags,
       ...options?.searchDocumentsOptions,
     });
   }
 
   if (agent.enableMemorySearch === true) {
+    const partitionKey = getAgentMemoryPartitionKey(agent, options?.endUserId);
     tools.search_memory = createSearchMemoryTool(agentId, workspaceId, {
       context: effectiveContext,
       conversationId: options?.conversationId,
+      ...(partitionKey && { partitionKey }),
     });
   }
 
   if (agent.notificationChannelId) {
     tools.send_notification = createSendNotificationTool(
       workspaceId,
-      agent.notificationChannelId
+      agent.notificationChannelId,
+      { agentId, conversationId: options?.conversationId }
     );
   }
 };
@@ -802,20 +832,23 @@ const addMcpTools = async (params: {
   tools: AgentSetup["tools"];
   workspaceId: string;
   agent: WorkspaceAndAgent["agent"];
-}) => {
+  conversationId?: string;
+}): Promise<Record<string, McpToolSource>> => {
   if (
     !params.agent.enabledMcpServerIds ||
     !Array.isArray(params.agent.enabledMcpServerIds) ||
     params.agent.enabledMcpServerIds.length === 0
   ) {
-    return;
+    return {};
   }
-  const mcpTools = await createMcpServerTools(
+  const { tools: mcpTools, sources } = await createMcpServerToolsWithSources(
     params.workspaceId,
     params.agent.enabledMcpServerIds,
-    params.agent.enabledMcpServerToolNames ?? undefined
+    params.agent.enabledMcpServerToolNames ?? undefined,
+    { conversationId: params.conversationId }
   );
   Object.assign(params.tools, mcpTools);
+  return sources;
 };
 
 type ClientToolConfig = {
@@ -851,7 +884,19 @@ export async function setupAgentAndTools(
   options?: AgentSetupOptions,
   context?: AugmentedContext
 ): Promise<AgentSetup> {
-  const { agent } = await validateWorkspaceAndAgent(workspaceId, agentId);
+  const { agent: storedAgent } = await validateWorkspaceAndAgent(
+    workspaceId,
+    agentId
+  );
+  const agent: typeof storedAgent = {
+    ...storedAgent,
+    ...(options?.agentOverrides?.systemPrompt && {
+      systemPrompt: options.agentOverrides.systemPrompt,
+    }),
+    ...(options?.agentOverrides?.modelName && {
+      modelName: options.agentOverrides.modelName,
+    }),
+  };
 
   // Fetch workspace API key if it exists (only OpenRouter is supported for BYOK)
   const agentProvider = "openrouter"; // Only OpenRouter is supported for BYOK
@@ -861,32 +906,38 @@ export async function setupAgentAndTools(
   // Use agent's modelName if set, otherwise use default
   const modelName = resolveModelName(agent);
   const resolvedModelName = modelName || getDefaultModel();
-  const modelCapabilities = resolveModelCapabilities(
-    agentProvider,
-    resolvedModelName
-  );
-  const canUseTools = supportsToolCalling(modelCapabilities);
 
   // Extract agent config for advanced options
   const agentConfig = buildAgentConfig(agent);
 
-  const model = await createAgentModel(
-    options?.modelReferer || "http://localhost:3000/api/workspaces",
-    workspaceApiKey || undefined,
-    modelName,
-    workspaceId,
-    agentId,
-    usesByok,
-    options?.userId,
-    agentProvider, // Pass provider to createAgentModel
-    agentConfig, // Pass agent config with advanced options
-    options?.llmObserver
+  const createModelFor = (name: string | undefined) =>
+    createAgentModel(
+      options?.modelReferer || "http://localhost:3000/api/workspaces",
+      workspaceApiKey || undefined,
+      name,
+      workspaceId,
+      agentId,
+      usesByok,
+      options?.userId,
+      agentProvider, // Pass provider to createAgentModel
+      agentConfig, // Pass agent config with advanced options
+      options?.llmObserver
+    );
+  const model = await createModelFor(modelName);
+
+  // Resolved after creating the model, which registers the declared
+  // capabilities of custom endpoint models
+  const modelCapabilities = resolveModelCapabilities(
+    agentProvider,
+    resolvedModelName
   );
+  const canUseTools = supportsToolCalling(modelCapabilities);
 
   // Extract agentId from agent.pk (format: "agents/{workspaceId}/{agentId}")
   const extractedAgentId = resolveAgentIdFromPk(workspaceId, agent.pk);
 
   const tools: AgentSetup["tools"] = {};
+  let mcpToolSources: Record<string, McpToolSource> = {};
 
   if (canUseTools) {
     addCoreTools(tools, workspaceId, extractedAgentId, agent, messages, options);
@@ -917,18 +968,37 @@ export async function setupAgentAndTools(
       agentId: extractedAgentId,
       options,
     });
-    await addMcpTools({ tools, workspaceId, agent });
+    mcpToolSources = await addMcpTools({
+      tools,
+      workspaceId,
+      agent,
+      conversationId: options?.conversationId,
+    });
     addClientTools(tools, agent);
   }
 
+  const gatedTools = options?.bypassToolApproval
+    ? tools
+    : wrapToolsRequiringApproval(tools, {
+        workspaceId,
+        agentId: extractedAgentId,
+        agentName: typeof agent.name === "string" ? agent.name : agentId,
+        conversationId: options?.conversationId,
+        policy: agent.toolApproval,
+        notificationChannelId: agent.notificationChannelId,
+        origin: options?.toolApprovalOrigin,
+        mcpToolSources,
+      });
+
   return {
     agent,
     model,
-    tools: wrapToolsWithObserver(tools, {
+    tools: wrapToolsWithObserver(gatedTools, {
       observer: options?.llmObserver,
       provider: "openrouter",
       modelName: resolvedModelName,
     }),
     usesByok,
+    createFallbackModel: createModelFor,
   };
 }
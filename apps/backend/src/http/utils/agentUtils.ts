@@ -6,11 +6,13 @@ import { jsonSchema, tool } from "ai";
 import { z } from "zod";
 
 import { database } from "../../tables";
+import type { NotificationContext } from "../../utils/channelDeliveryQueue";
 import { trackDelegation } from "../../utils/conversationLogger";
 import { DISCORD_MESSAGE_MAX_LENGTH } from "../../utils/discord";
 import { searchDocuments } from "../../utils/documentSearch";
 import { sendNotification } from "../../utils/notifications";
 import { Sentry, ensureError } from "../../utils/sentry";
+import type { ToolApprovalPolicy } from "../../utils/toolApproval";
 import type { AugmentedContext } from "../../utils/workspaceCreditContext";
 
 import { MODEL_NAME } from "./agent-constants";
@@ -143,6 +145,12 @@ export interface WorkspaceAndAgent {
     maxOutputTokens?: number;
     stopSequences?: string[];
     maxToolRoundtrips?: number;
+    outputSchema?: Record<string, unknown>;
+    knowledgeFolderPaths?: string[];
+    knowledgeTags?: string[];
+    fallbackModelNames?: string[];
+    toolApproval?: ToolApprovalPolicy;
+    memoryPartitionByEndUser?: boolean;
     [key: string]: unknown;
   };
 }
@@ -251,12 +259,17 @@ export function createSearchDocumentsTool(
         documentId: string;
         folderPath: string;
         similarity: number;
+        anchor?: string;
       }>,
     ) => string;
     messages?: unknown[];
     context?: AugmentedContext;
     agentId?: string;
     conversationId?: string;
+    /** Agent's document folder scope (missing = all workspace documents) */
+    folderPaths?: string[];
+    /** Agent's document tag scope, combined with folderPaths */
+    tags?: string[];
   },
 ) {
   const searchDocumentsParamsSchema = z.object({
@@ -272,12 +285,19 @@ export function createSearchDocumentsTool(
       .optional()
       .default(5)
       .describe("Number of top results to return (default: 5)"),
+    mode: z
+      .enum(["hybrid", "keyword", "vector"])
+      .optional()
+      .default("hybrid")
+      .describe(
+        'How to match documents (default: "hybrid"). "hybrid" combines exact keyword matching with semantic similarity, "keyword" only matches exact terms such as product codes, error messages or names, "vector" only matches by meaning.',
+      ),
   });
 
   type SearchDocumentsArgs = z.infer<typeof searchDocumentsParamsSchema>;
 
   const defaultDescription =
-    "Search workspace documents using semantic vector search. YOU MUST ALWAYS provide a 'query' parameter with the search terms. When the user asks to search for something, extract the search terms from their message and pass them as the 'query' parameter. Example: User says 'search for helpmaton' → call with {query: 'helpmaton'}. User says 'find information about scheduling' → call with {query: 'scheduling'}. User says 'look up API documentation' → call with {query: 'API documentation'}. The query parameter is MANDATORY and must contain the search terms the user wants to find.";
+    "Search workspace documents using hybrid keyword and semantic search, so both exact terms (product codes, error messages, names) and related concepts match. YOU MUST ALWAYS provide a 'query' parameter with the search terms. When the user asks to search for something, extract the search terms from their message and pass them as the 'query' parameter. Example: User says 'search for helpmaton' → call with {query: 'helpmaton'}. User says 'find information about scheduling' → call with {query: 'scheduling'}. User says 'look up API documentation' → call with {query: 'API documentation'}. The query parameter is MANDATORY and must contain the search terms the user wants to find.";
 
   const defaultFormatResults = (
     results: Array<{
@@ -303,11 +323,12 @@ export function createSearchDocumentsTool(
       const typedArgs = args as SearchDocumentsArgs;
       let query: string | undefined = typedArgs.query;
       const topN = typedArgs.topN ?? 5;
+      const mode = typedArgs.mode ?? "hybrid";
 
       // Log tool call with arguments
       console.log("[Tool Call] search_documents", {
         toolName: "search_documents",
-        arguments: { query: typedArgs.query, topN: typedArgs.topN },
+        arguments: { query: typedArgs.query, topN: typedArgs.topN, mode },
         workspaceId,
       });
 
@@ -359,6 +380,9 @@ export function createSearchDocumentsTool(
           context: options?.context,
           agentId: options?.agentId,
           conversationId: options?.conversationId,
+          folderPaths: options?.folderPaths,
+          tags: options?.tags,
+          mode,
         });
 
         let result: string;
@@ -409,6 +433,7 @@ export function createSearchDocumentsTool(
 export function createSendNotificationTool(
   workspaceId: string,
   channelId: string,
+  context?: NotificationContext,
 ) {
   const sendNotificationParamsSchema = z.object({
     content: z
@@ -498,9 +523,12 @@ export function createSendNotificationTool(
           return errorMessage;
         }
 
-        await sendNotification(channel, content.trim());
+        await sendNotification(channel, content.trim(), { context });
 
-        const result = `✅ Notification successfully sent to ${channel.name} (${channel.type}). The message has been delivered to the configured notification channel.`;
+        const result =
+          channel.type === "http"
+            ? `✅ Notification queued for delivery to ${channel.name} (${channel.type}). It will be retried automatically if the endpoint is unavailable.`
+            : `✅ Notification successfully sent to ${channel.name} (${channel.type}). The message has been delivered to the configured notification channel.`;
 
         // Log tool result
         console.log("[Tool Result] send_notification", {
@@ -17,7 +17,9 @@ import {
 import { validateCreditsAndLimitsAndReserve } from "../../utils/creditValidation";
 import { isCreditDeductionEnabled } from "../../utils/featureFlags";
 import type { UIMessage } from "../../utils/messageTypes";
+import { isCustomModelName } from "../../utils/modelEndpoints";
 import { Sentry, ensureError } from "../../utils/sentry";
+import type { ToolApprovalPolicy } from "../../utils/toolApproval";
 import { extractTokenUsageAndCosts } from "../utils/generationTokenExtraction";
 
 import { MODEL_NAME } from "./agent-constants";
@@ -30,7 +32,7 @@ import {
   getGenerationTimingFromObserver,
   wrapToolsWithObserver,
 } from "./llmObserver";
-import { createMcpServerTools } from "./mcpUtils";
+import { createMcpServerToolsWithSources, type McpToolSource } from "./mcpUtils";
 import {
   filterGenerateTextOptionsForCapabilities,
   resolveModelCapabilities,
@@ -39,7 +41,13 @@ import {
 } from "./modelCapabilities";
 import { getDefaultModel } from "./modelFactory";
 import type { Provider } from "./modelFactory";
+import {
+  getModelFallbackChain,
+  isModelFallbackError,
+  runWithModelFallback,
+} from "./modelFallback";
 import { isTimeoutError } from "./requestTimeout";
+import { wrapToolsRequiringApproval } from "./toolApprovalGate";
 
 type CreditContext = Awaited<
   ReturnType<
@@ -67,6 +75,9 @@ const buildDelegationTools = async (params: {
     enabledMcpServerToolNames?: Record<string, string[]>;
     clientTools?: Array<Record<string, unknown>>;
     delegatableAgentIds?: string[];
+    knowledgeFolderPaths?: string[];
+    knowledgeTags?: string[];
+    toolApproval?: ToolApprovalPolicy;
     [key: string]: unknown;
   };
   message: string;
@@ -102,6 +113,7 @@ const buildDelegationTools = async (params: {
   } = await import("./agentUtils");
 
   const tools: ToolSet = {} as ToolSet;
+  let mcpToolSources: Record<string, McpToolSource> = {};
 
   tools.get_datetime = createGetDatetimeTool();
 
@@ -111,6 +123,8 @@ const buildDelegationTools = async (params: {
       context,
       agentId: extractedTargetAgentId,
       conversationId: targetAgentConversationId || conversationId,
+      folderPaths: targetAgent.knowledgeFolderPaths,
+      tags: targetAgent.knowledgeTags,
     });
   }
 
@@ -177,6 +191,7 @@ const buildDelegationTools = async (params: {
     tools.send_notification = createSendNotificationTool(
       workspaceId,
       targetAgent.notificationChannelId,
+      { agentId: targetAgentId, conversationId: targetAgentConversationId },
     );
   }
 
@@ -197,12 +212,14 @@ const buildDelegationTools = async (params: {
     Array.isArray(targetAgent.enabledMcpServerIds) &&
     targetAgent.enabledMcpServerIds.length > 0
   ) {
-    const mcpTools = await createMcpServerTools(
+    const { tools: mcpTools, sources } = await createMcpServerToolsWithSources(
       workspaceId,
       targetAgent.enabledMcpServerIds,
       targetAgent.enabledMcpServerToolNames ?? undefined,
+      { conversationId: targetAgentConversationId || conversationId },
     );
     Object.assign(tools, mcpTools);
+    mcpToolSources = sources;
   }
 
   if (
@@ -249,7 +266,18 @@ const buildDelegationTools = async (params: {
       createCheckDelegationStatusTool(workspaceId);
   }
 
-  return tools;
+  // Delegated runs and MCP server calls go through the same approval gate as
+  // direct runs; the approval resumes the target agent's conversation
+  return wrapToolsRequiringApproval(tools, {
+    workspaceId,
+    agentId: extractedTargetAgentId,
+    agentName:
+      typeof targetAgent.name === "string" ? targetAgent.name : targetAgentId,
+    conversationId: targetAgentConversationId,
+    policy: targetAgent.toolApproval,
+    notificationChannelId: targetAgent.notificationChannelId,
+    mcpToolSources,
+  });
 };
 
 /** Max time for a single delegation call when parent has long timeout (e.g. webhook/queue 900s). 5 min. */
@@ -319,6 +347,7 @@ const executeGenerateTextWithTimeout = async (params: {
   generateOptions: ReturnType<typeof buildGenerateTextOptions>;
   abortSignal?: AbortSignal;
   timeoutMs: number;
+  onStepFinish?: () => void;
 }): Promise<GenerateTextResult> => {
   const { signal: effectiveSignal, cleanup } = buildAbortSignal({
     abortSignal: params.abortSignal,
@@ -333,6 +362,7 @@ const executeGenerateTextWithTimeout = async (params: {
       ...(params.tools ? { tools: params.tools } : {}),
       ...params.generateOptions,
       ...(effectiveSignal && { abortSignal: effectiveSignal }),
+      ...(params.onStepFinish && { onStepFinish: params.onStepFinish }),
     });
   } finally {
     cleanup?.();
@@ -463,6 +493,7 @@ const logTargetAgentConversation = async (params: {
   message: string;
   responseText: string;
   context?: CreditContext;
+  conversationType: "test" | "mcp";
 }): Promise<void> => {
   const {
     db,
@@ -479,6 +510,7 @@ const logTargetAgentConversation = async (params: {
     message,
     responseText,
     context,
+    conversationType,
   } = params;
 
   try {
@@ -514,7 +546,7 @@ const logTargetAgentConversation = async (params: {
       usesByok,
       undefined,
       undefined,
-      "test",
+      conversationType,
       context,
     );
 
@@ -727,6 +759,7 @@ const logDelegationErrorConversation = async (params: {
   usesByok: boolean;
   modelName: string;
   error: unknown;
+  conversationType: "test" | "mcp";
 }): Promise<void> => {
   const {
     db,
@@ -737,6 +770,7 @@ const logDelegationErrorConversation = async (params: {
     usesByok,
     modelName,
     error,
+    conversationType,
   } = params;
   try {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -765,7 +799,7 @@ const logDelegationErrorConversation = async (params: {
       usesByok,
       errorInfo,
       undefined,
-      "test",
+      conversationType,
     );
   } catch (logError) {
     console.error("[callAgentInternal] Failed to log error conversation:", {
@@ -787,6 +821,8 @@ export type CallAgentInternalOptions = {
   configurationMode?: boolean;
   /** When set in configuration mode, meta-agent create_my_schedule/create_my_eval_judge enforce subscription limits. */
   userId?: string;
+  /** Conversation type the target agent's conversation is logged as (default "test"). */
+  conversationType?: "test" | "mcp";
 };
 
 export async function callAgentInternal(
@@ -807,6 +843,7 @@ export async function callAgentInternal(
   shouldTrackRequest: boolean;
 }> {
   const configurationMode = options?.configurationMode === true;
+  const conversationType = options?.conversationType ?? "test";
   if (callDepth >= maxDepth) {
     return {
       response: `Error: Maximum delegation depth (${maxDepth}) reached. Cannot delegate further.`,
@@ -849,10 +886,6 @@ export async function callAgentInternal(
       ? targetAgent.modelName
       : undefined;
   const resolvedModelName = modelName || getDefaultModel();
-  const modelCapabilities = resolveModelCapabilities(
-    agentProvider,
-    resolvedModelName,
-  );
 
   const agentConfig = {
     temperature: targetAgent.temperature,
@@ -875,6 +908,12 @@ export async function callAgentInternal(
     llmObserver,
   );
 
+  // Resolved after creating the model, which registers the declared
+  // capabilities of custom endpoint models
+  const modelCapabilities = resolveModelCapabilities(
+    agentProvider,
+    resolvedModelName,
+  );
   const shouldBuildTools = supportsToolCalling(modelCapabilities);
   let tools: ToolSet | undefined;
   let effectiveSystemPrompt: string;
@@ -978,19 +1017,46 @@ export async function callAgentInternal(
   let result: GenerateTextResult | undefined;
   let tokenUsage: TokenUsage | undefined;
 
-  try {
-    const toolDefinitions = buildToolDefinitionsForReservation(effectiveTools);
+  // One reservation and LLM call per model; failed attempts are refunded
+  const runDelegationAttempt = async (
+    attemptModelName: string,
+    attemptIndex: number,
+  ): Promise<GenerateTextResult> => {
+    const attemptModel =
+      attemptIndex === 0
+        ? model
+        : await createAgentModel(
+            "http://localhost:3000/api/agent-delegation",
+            workspaceApiKey || undefined,
+            attemptModelName,
+            workspaceId,
+            targetAgentId,
+            usesByok,
+            undefined,
+            agentProvider,
+            agentConfig,
+            llmObserver,
+          );
+    const attemptCapabilities =
+      attemptIndex === 0
+        ? modelCapabilities
+        : resolveModelCapabilities(agentProvider, attemptModelName);
+    const attemptTools =
+      attemptIndex === 0
+        ? effectiveTools
+        : resolveToolsForCapabilities(wrappedTools, attemptCapabilities);
+    const toolDefinitions = buildToolDefinitionsForReservation(attemptTools);
 
     const reservation = await validateCreditsAndLimitsAndReserve(
       db,
       workspaceId,
       targetAgentId,
       agentProvider,
-      resolvedModelName || MODEL_NAME,
+      attemptModelName,
       modelMessagesWithKnowledge,
       effectiveSystemPrompt,
       toolDefinitions,
-      usesByok,
+      usesByok || isCustomModelName(attemptModelName),
     );
 
     if (reservation) {
@@ -1005,21 +1071,21 @@ export async function callAgentInternal(
 
     const generateOptions = filterGenerateTextOptionsForCapabilities(
       buildGenerateTextOptions(targetAgent),
-      modelCapabilities,
+      attemptCapabilities,
     );
     console.log("[Agent Delegation] Executing generateText with parameters:", {
       workspaceId,
       targetAgentId,
-      model: resolvedModelName || MODEL_NAME,
+      model: attemptModelName,
       systemPromptLength: effectiveSystemPrompt.length,
       messagesCount: modelMessagesWithKnowledge.length,
-      toolsCount: effectiveTools ? Object.keys(effectiveTools).length : 0,
+      toolsCount: attemptTools ? Object.keys(attemptTools).length : 0,
       hasAbortSignal: Boolean(abortSignal || timeoutMs > 0),
       ...generateOptions,
     });
-    if (effectiveTools) {
+    if (attemptTools) {
       const { logToolDefinitions } = await import("./agentSetup");
-      logToolDefinitions(effectiveTools, "Agent Delegation", targetAgent);
+      logToolDefinitions(attemptTools, "Agent Delegation", targetAgent);
     }
 
     const llmCallStartedAt = Date.now();
@@ -1031,21 +1097,26 @@ export async function callAgentInternal(
         workspaceId,
         targetAgentId,
         provider: agentProvider,
-        model: resolvedModelName || MODEL_NAME,
+        model: attemptModelName,
         timeoutMs,
-        toolsCount: effectiveTools ? Object.keys(effectiveTools).length : 0,
+        toolsCount: attemptTools ? Object.keys(attemptTools).length : 0,
       },
     });
 
     try {
-      result = await executeGenerateTextWithTimeout({
-        model: model as unknown as Parameters<typeof generateText>[0]["model"],
+      const attemptResult = await executeGenerateTextWithTimeout({
+        model: attemptModel as unknown as Parameters<
+          typeof generateText
+        >[0]["model"],
         system: effectiveSystemPrompt,
         messages: modelMessagesWithKnowledge,
-        tools: effectiveTools,
+        tools: attemptTools,
         generateOptions,
         abortSignal,
         timeoutMs,
+        onStepFinish: () => {
+          stepCompleted = true;
+        },
       });
       Sentry.addBreadcrumb({
         category: "agent-delegation",
@@ -1055,11 +1126,12 @@ export async function callAgentInternal(
           workspaceId,
           targetAgentId,
           provider: agentProvider,
-          model: resolvedModelName || MODEL_NAME,
+          model: attemptModelName,
           durationMs: Date.now() - llmCallStartedAt,
           success: true,
         },
       });
+      return attemptResult;
     } catch (error) {
       Sentry.addBreadcrumb({
         category: "agent-delegation",
@@ -1069,14 +1141,52 @@ export async function callAgentInternal(
           workspaceId,
           targetAgentId,
           provider: agentProvider,
-          model: resolvedModelName || MODEL_NAME,
+          model: attemptModelName,
           durationMs: Date.now() - llmCallStartedAt,
           success: false,
           error: error instanceof Error ? error.message : String(error),
         },
       });
+      if (isModelFallbackError(error)) {
+        // Settle this attempt before the next model reserves its own credits
+        await handleReservationAfterError({
+          db,
+          reservationId,
+          llmCallAttempted,
+          error,
+          workspaceId,
+          targetAgentId,
+          agentProvider,
+          modelName: attemptModelName,
+          context,
+        });
+        reservationId = undefined;
+      }
       throw error;
     }
+  };
+
+  let answeringModelName = resolvedModelName || MODEL_NAME;
+  // Once a step finished, its tools ran: another model would run them again
+  let stepCompleted = false;
+
+  try {
+    const fallback = await runWithModelFallback(
+      getModelFallbackChain(
+        resolvedModelName || MODEL_NAME,
+        targetAgent.fallbackModelNames,
+      ),
+      (attemptModelName, attemptIndex) => {
+        answeringModelName = attemptModelName;
+        return runDelegationAttempt(attemptModelName, attemptIndex);
+      },
+      {
+        abortSignal,
+        logLabel: "Agent Delegation",
+        canFallback: () => !stepCompleted,
+      },
+    );
+    result = fallback.result;
 
     llmCallAttempted = true;
     shouldTrackRequest = true;
@@ -1087,7 +1197,7 @@ export async function callAgentInternal(
     const extractionResult = extractTokenUsageAndCosts(
       result,
       undefined,
-      resolvedModelName || MODEL_NAME,
+      answeringModelName,
       "test",
     );
     tokenUsage = extractionResult.tokenUsage;
@@ -1102,7 +1212,7 @@ export async function callAgentInternal(
       workspaceId,
       targetAgentId,
       agentProvider,
-      modelName: resolvedModelName || MODEL_NAME,
+      modelName: answeringModelName,
       context,
       openrouterGenerationId,
       openrouterGenerationIds,
@@ -1120,13 +1230,14 @@ export async function callAgentInternal(
       llmObserver,
       inputUserMessage,
       tokenUsage,
-      usesByok,
-      modelName: resolvedModelName || MODEL_NAME,
+      usesByok: usesByok || isCustomModelName(answeringModelName),
+      modelName: answeringModelName,
       openrouterGenerationId,
       provisionalCostUsd,
       message,
       responseText: result.text,
       context,
+      conversationType,
     });
 
     return {
@@ -1143,7 +1254,7 @@ export async function callAgentInternal(
       workspaceId,
       targetAgentId,
       agentProvider,
-      modelName: resolvedModelName || MODEL_NAME,
+      modelName: answeringModelName,
       context,
     });
 
@@ -1183,9 +1294,10 @@ export async function callAgentInternal(
       targetAgentId,
       targetAgentConversationId,
       message,
-      usesByok,
-      modelName: resolvedModelName || MODEL_NAME,
+      usesByok: usesByok || isCustomModelName(answeringModelName),
+      modelName: answeringModelName,
       error,
+      conversationType,
     });
 
     return {
@@ -8,6 +8,7 @@ import {
   type TokenUsage,
 } from "../../utils/conversationLogger";
 import type { UIMessage } from "../../utils/messageTypes";
+import type { ToolApprovalDecisionStatus } from "../../utils/toolApproval";
 
 import {
   type WorkspaceAndAgent,
@@ -29,13 +30,40 @@ import {
 export interface ContinuationResult {
   text: string | null;
   tokenUsage: TokenUsage | undefined;
+  /** Messages the continuation call generated (answer and any further tool rounds) */
+  responseMessages: ModelMessage[];
+}
+
+/**
+ * Tool result of a call that waited for human approval (see utils/toolApproval.ts)
+ */
+export type ApprovalToolResultInfo = {
+  toolName?: string;
+  approvalStatus?: ToolApprovalDecisionStatus;
+  // The approver changed the arguments the model proposed
+  approvalEdited?: boolean;
+};
+
+function buildApprovalInstruction(toolResult: ApprovalToolResultInfo): string {
+  const toolName = toolResult.toolName ?? "tool";
+  if (toolResult.approvalStatus === "approved") {
+    const edited = toolResult.approvalEdited
+      ? " after editing its arguments"
+      : "";
+    return `IMPORTANT: A workspace member approved the ${toolName} call you requested earlier${edited}, and it has now been executed. Its result is included below. Tell the user the outcome - do NOT call ${toolName} again for the same action.\n\n`;
+  }
+  const why =
+    toolResult.approvalStatus === "expired"
+      ? "its approval request expired without a decision"
+      : "a workspace member rejected it";
+  return `IMPORTANT: The ${toolName} call you requested earlier was NOT executed because ${why}. Tell the user and do NOT call ${toolName} again for the same action unless the user asks you to.\n\n`;
 }
 
 /**
  * Builds continuation instructions based on tool result types
  */
 export function buildContinuationInstructions(
-  toolResults: Array<{ toolName?: string }>
+  toolResults: ApprovalToolResultInfo[]
 ): string {
   const hasNotificationResult = toolResults.some(
     (tr) => tr?.toolName === "send_notification"
@@ -53,6 +81,11 @@ export function buildContinuationInstructions(
     instructions +=
       "IMPORTANT: When you receive tool results from document searches, you must provide a helpful summary and interpretation. DO NOT simply repeat or copy the raw tool results verbatim. Instead, synthesize the information, extract key points, and provide insights or answers based on what was found. Be concise and focus on what the user asked about.\n\n";
   }
+  for (const toolResult of toolResults) {
+    if (toolResult?.approvalStatus !== undefined) {
+      instructions += buildApprovalInstruction(toolResult);
+    }
+  }
 
   return instructions;
 }
@@ -124,7 +157,7 @@ export async function handleToolContinuation(
 ): Promise<ContinuationResult | null> {
   const continuationInstructions = buildContinuationInstructions(
     toolResults.filter(
-      (tr): tr is { toolName?: string } =>
+      (tr): tr is ApprovalToolResultInfo =>
         tr != null && typeof tr === "object" && "toolName" in tr
     )
   );
@@ -292,6 +325,7 @@ export async function handleToolContinuation(
       return {
         text: toolResultText,
         tokenUsage: continuationTokenUsage,
+        responseMessages: continuationResult.response.messages,
       };
     } else if (process.env.ARC_ENV !== "production") {
       console.log("[Continuation Handler] No tool result text found to use as reply", {
@@ -314,6 +348,7 @@ export async function handleToolContinuation(
     ? {
         text: continuationText,
         tokenUsage: continuationTokenUsage,
+        responseMessages: continuationResult.response.messages,
       }
     : null;
 }
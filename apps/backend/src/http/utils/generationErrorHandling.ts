@@ -18,8 +18,12 @@ export type GenerationEndpoint =
   | "webhook"
   | "bridge"
   | "scheduled"
+  | "mcp"
   | "knowledge-injection"
   | "memory-extraction"
+  | "conversation-compaction"
+  | "tool-approval"
+  | "eval-dataset"
   | "improve-prompt-from-evals";
 
 /**
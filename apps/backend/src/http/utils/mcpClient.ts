@@ -0,0 +1,573 @@
+import type { McpServerRecord } from "../../tables/schema";
+
+/**
+ * MCP client session layer (Streamable HTTP transport)
+ *
+ * - `initialize` handshake with protocol version and capability negotiation
+ * - `Mcp-Session-Id` is kept and reused for every request of the same session key
+ *   (one session per server and conversation); an expired session (HTTP 404) is
+ *   re-initialized once
+ * - Responses can be plain JSON or an SSE stream; server notifications and requests
+ *   sent on the stream are handled while waiting for the response
+ * - Servers that don't implement `initialize` keep working with plain JSON-RPC POSTs
+ */
+
+export const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+export const MCP_SUPPORTED_PROTOCOL_VERSIONS = new Set([
+  "2025-06-18",
+  "2025-03-26",
+  "2024-11-05",
+]);
+
+const MCP_CLIENT_INFO = { name: "helpmaton", version: "1.0.0" };
+const MCP_REQUEST_TIMEOUT_MS = 30000;
+// Sessions idle for longer than this are re-initialized (servers expire them too)
+const MCP_SESSION_IDLE_TTL_MS = 10 * 60 * 1000;
+
+const JSON_RPC_METHOD_NOT_FOUND = -32601;
+
+export type McpServerCapabilities = {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  [capability: string]: unknown;
+};
+
+export type McpSession = {
+  sessionId?: string;
+  protocolVersion?: string;
+  capabilities: McpServerCapabilities;
+  serverInfo?: { name?: string; version?: string };
+  /** Server has no `initialize`: plain JSON-RPC POSTs, capabilities unknown */
+  legacy: boolean;
+};
+
+type CachedSession = McpSession & {
+  fingerprint: string;
+  lastUsedAt: number;
+};
+
+type JsonRpcMessage = {
+  jsonrpc?: string;
+  id?: string | number | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code?: number; message?: string; data?: unknown };
+};
+
+/**
+ * JSON-RPC error returned by an MCP server
+ */
+export class McpServerError extends Error {
+  readonly code?: number;
+
+  constructor(error: NonNullable<JsonRpcMessage["error"]>) {
+    super(`MCP server error: ${error.message || JSON.stringify(error)}`);
+    this.name = "McpServerError";
+    this.code = error.code;
+  }
+}
+
+class McpHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, statusText: string) {
+    super(`MCP server request failed: ${status} ${statusText}`);
+    this.name = "McpHttpError";
+    this.status = status;
+  }
+}
+
+const sessions = new Map<string, CachedSession>();
+// Servers that sent notifications/tools/list_changed since their tool list was last read
+const changedToolLists = new Set<string>();
+const sessionInitializations = new Map<string, Promise<CachedSession>>();
+
+/**
+ * Build authentication headers for MCP server request
+ */
+function buildAuthHeaders(
+  authType: "none" | "header" | "basic" | "oauth",
+  config: Record<string, unknown>
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  if (authType === "header") {
+    const headerValue = config.headerValue as string;
+    if (!headerValue) {
+      throw new Error(
+        'Missing required "headerValue" for header authentication.'
+      );
+    }
+    headers["Authorization"] = headerValue;
+  } else if (authType === "basic") {
+    const username = config.username as string;
+    const password = config.password as string;
+    if (!username || !password) {
+      throw new Error(
+        'Missing required "username" or "password" for basic authentication.'
+      );
+    }
+    const credentials = Buffer.from(`${username}:${password}`).toString(
+      "base64"
+    );
+    headers["Authorization"] = `Basic ${credentials}`;
+  }
+  // For "none", no additional headers needed
+
+  return headers;
+}
+
+function resolveServerConnection(server: McpServerRecord): {
+  url: string;
+  authHeaders: Record<string, string>;
+} {
+  const url = server.url;
+  if (!url) {
+    throw new Error("MCP server URL is required for external servers");
+  }
+  // OAuth servers don't use this function - they have dedicated tools
+  if (server.authType === "oauth") {
+    throw new Error(
+      "OAuth MCP servers should use dedicated tools, not generic MCP calls"
+    );
+  }
+  return {
+    url,
+    authHeaders: buildAuthHeaders(server.authType, server.config),
+  };
+}
+
+const createRequestId = () =>
+  `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+/**
+ * Parse a Server-Sent Events stream into the data payload of each event
+ */
+async function* readSseData(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let dataLines: string[] = [];
+
+  const flushEvent = () => {
+    const data = dataLines.join("\n");
+    dataLines = [];
+    return data;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let newlineIndex = buffer.search(/\r\n|\r|\n/);
+      while (newlineIndex !== -1) {
+        const line = buffer.slice(0, newlineIndex);
+        const separatorLength =
+          buffer[newlineIndex] === "\r" && buffer[newlineIndex + 1] === "\n"
+            ? 2
+            : 1;
+        buffer = buffer.slice(newlineIndex + separatorLength);
+
+        if (line === "") {
+          // Blank line dispatches the event
+          const data = flushEvent();
+          if (data) {
+            yield data;
+          }
+        } else if (line.startsWith("data:")) {
+          dataLines.push(line.slice(5).replace(/^ /, ""));
+        }
+        // Comments (":") and event/id/retry fields are not needed for JSON-RPC
+
+        newlineIndex = buffer.search(/\r\n|\r|\n/);
+      }
+
+      if (done) {
+        if (buffer.startsWith("data:")) {
+          dataLines.push(buffer.slice(5).replace(/^ /, ""));
+        }
+        const data = flushEvent();
+        if (data) {
+          yield data;
+        }
+        return;
+      }
+    }
+  } finally {
+    // Also runs when the caller stops reading early: closes the connection
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+function parseJsonRpcPayload(payload: string, contentType: string): JsonRpcMessage[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(payload);
+  } catch (parseError) {
+    throw new Error(
+      `Failed to parse JSON from MCP server response. Content-Type: ${contentType}. Error: ${
+        parseError instanceof Error ? parseError.message : String(parseError)
+      }. Response body: ${payload.slice(0, 200)}`
+    );
+  }
+  const messages = Array.isArray(parsed) ? parsed : [parsed];
+  return messages.filter(
+    (message): message is JsonRpcMessage =>
+      !!message && typeof message === "object"
+  );
+}
+
+/**
+ * Whether the server sent notifications/tools/list_changed since the last check.
+ * Calling it clears the flag.
+ */
+export function consumeMcpToolListChanged(serverKey: string): boolean {
+  return changedToolLists.delete(serverKey);
+}
+
+function handleNotification(serverKey: string, message: JsonRpcMessage) {
+  if (message.method === "notifications/tools/list_changed") {
+    console.log(`[MCP Client] Tool list changed for ${serverKey}`);
+    changedToolLists.add(serverKey);
+  }
+  // Resources and prompts are listed live, so their list_changed needs no handling;
+  // progress, logging and other notifications are not surfaced to agents
+}
+
+type Connection = {
+  serverKey: string;
+  url: string;
+  authHeaders: Record<string, string>;
+  session?: McpSession;
+};
+
+/**
+ * POST one JSON-RPC message. Resolves with the response to `message.id`,
+ * or undefined for notifications and responses (HTTP 202).
+ */
+async function postMessage(
+  connection: Connection,
+  message: JsonRpcMessage,
+  onSessionId?: (sessionId: string) => void
+): Promise<JsonRpcMessage | undefined> {
+  const { session } = connection;
+  const headers: Record<string, string> = {
+    ...connection.authHeaders,
+    "Content-Type": "application/json",
+    Accept: "application/json, text/event-stream",
+  };
+  if (session?.sessionId) {
+    headers["Mcp-Session-Id"] = session.sessionId;
+  }
+  if (session?.protocolVersion && !session.legacy) {
+    headers["MCP-Protocol-Version"] = session.protocolVersion;
+  }
+
+  const response = await fetch(connection.url, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(message),
+    signal: AbortSignal.timeout(MCP_REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new McpHttpError(response.status, response.statusText);
+  }
+
+  const sessionId = response.headers.get("mcp-session-id");
+  if (sessionId && onSessionId) {
+    onSessionId(sessionId);
+  }
+
+  const expectsResponse = message.id !== undefined && message.method !== undefined;
+  if (!expectsResponse || response.status === 202) {
+    await response.body?.cancel().catch(() => undefined);
+    return undefined;
+  }
+
+  const contentType = response.headers.get("content-type") || "";
+  const isEventStream = contentType.toLowerCase().includes("text/event-stream");
+  if (!isEventStream && !contentType.toLowerCase().includes("application/json")) {
+    const bodyText = await response.text();
+    throw new Error(
+      `Expected JSON response from MCP server, but got Content-Type: ${contentType}. Response body: ${bodyText.slice(
+        0,
+        200
+      )}`
+    );
+  }
+
+  const handleMessages = async (
+    messages: JsonRpcMessage[]
+  ): Promise<JsonRpcMessage | undefined> => {
+    let matched: JsonRpcMessage | undefined;
+    for (const received of messages) {
+      if (received.method && received.id !== undefined && received.id !== null) {
+        await answerServerRequest(connection, received);
+      } else if (received.method) {
+        handleNotification(connection.serverKey, received);
+      } else if (received.id === message.id) {
+        matched = received;
+      }
+    }
+    return matched;
+  };
+
+  if (!isEventStream) {
+    const bodyText = await response.text();
+    return handleMessages(parseJsonRpcPayload(bodyText, contentType));
+  }
+
+  if (!response.body) {
+    throw new Error("MCP server returned an empty event stream");
+  }
+  for await (const data of readSseData(response.body)) {
+    const matched = await handleMessages(parseJsonRpcPayload(data, contentType));
+    if (matched) {
+      return matched;
+    }
+  }
+  throw new Error(
+    `MCP server closed the event stream without responding to ${message.method}`
+  );
+}
+
+/**
+ * Answer requests the server sends on a response stream.
+ * We only implement ping; sampling, elicitation and roots are not offered as capabilities.
+ */
+async function answerServerRequest(
+  connection: Connection,
+  request: JsonRpcMessage
+): Promise<void> {
+  const response: JsonRpcMessage =
+    request.method === "ping"
+      ? { jsonrpc: "2.0", id: request.id, result: {} }
+      : {
+          jsonrpc: "2.0",
+          id: request.id,
+          error: {
+            code: JSON_RPC_METHOD_NOT_FOUND,
+            message: `Method not supported by client: ${request.method}`,
+          },
+        };
+  try {
+    await postMessage(connection, response);
+  } catch (error) {
+    console.warn(
+      `[MCP Client] Failed to answer server request ${request.method}:`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+async function sendRequest(
+  connection: Connection,
+  method: string,
+  params: Record<string, unknown>,
+  onSessionId?: (sessionId: string) => void
+): Promise<unknown> {
+  const response = await postMessage(
+    connection,
+    { jsonrpc: "2.0", id: createRequestId(), method, params },
+    onSessionId
+  );
+  if (!response) {
+    throw new Error(`MCP server did not respond to ${method}`);
+  }
+  if (response.error) {
+    throw new McpServerError(response.error);
+  }
+  return response.result;
+}
+
+async function initializeSession(
+  server: McpServerRecord,
+  fingerprint: string
+): Promise<CachedSession> {
+  const { url, authHeaders } = resolveServerConnection(server);
+  const connection: Connection = { serverKey: server.pk, url, authHeaders };
+  let sessionId: string | undefined;
+
+  let result: unknown;
+  try {
+    result = await sendRequest(
+      connection,
+      "initialize",
+      {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: MCP_CLIENT_INFO,
+      },
+      (id) => {
+        sessionId = id;
+      }
+    );
+  } catch (error) {
+    const isUnsupported =
+      (error instanceof McpServerError &&
+        error.code === JSON_RPC_METHOD_NOT_FOUND) ||
+      (error instanceof McpHttpError &&
+        (error.status === 404 || error.status === 405));
+    if (!isUnsupported) {
+      throw error;
+    }
+    console.log(
+      `[MCP Client] Server ${server.pk} does not support initialize, using plain JSON-RPC`
+    );
+    return {
+      capabilities: {},
+      legacy: true,
+      fingerprint,
+      lastUsedAt: Date.now(),
+    };
+  }
+
+  const initializeResult = (result ?? {}) as {
+    protocolVersion?: unknown;
+    capabilities?: unknown;
+    serverInfo?: unknown;
+  };
+  const protocolVersion =
+    typeof initializeResult.protocolVersion === "string"
+      ? initializeResult.protocolVersion
+      : MCP_PROTOCOL_VERSION;
+  if (!MCP_SUPPORTED_PROTOCOL_VERSIONS.has(protocolVersion)) {
+    throw new Error(
+      `MCP server uses unsupported protocol version ${protocolVersion}`
+    );
+  }
+
+  const session: CachedSession = {
+    sessionId,
+    protocolVersion,
+    capabilities:
+      initializeResult.capabilities &&
+      typeof initializeResult.capabilities === "object"
+        ? (initializeResult.capabilities as McpServerCapabilities)
+        : {},
+    serverInfo:
+      initializeResult.serverInfo &&
+      typeof initializeResult.serverInfo === "object"
+        ? (initializeResult.serverInfo as McpSession["serverInfo"])
+        : undefined,
+    legacy: false,
+    fingerprint,
+    lastUsedAt: Date.now(),
+  };
+
+  await postMessage(
+    { ...connection, session },
+    { jsonrpc: "2.0", method: "notifications/initialized" }
+  );
+
+  return session;
+}
+
+const buildSessionCacheKey = (server: McpServerRecord, sessionKey?: string) =>
+  `${server.pk}#${sessionKey ?? ""}`;
+
+// Re-initialize when the URL or credentials of the server change
+const buildFingerprint = (server: McpServerRecord) =>
+  JSON.stringify([
+    server.url,
+    server.authType,
+    (server.config as Record<string, unknown>).headerValue,
+    (server.config as Record<string, unknown>).username,
+    (server.config as Record<string, unknown>).password,
+  ]);
+
+function pruneIdleSessions(now: number) {
+  for (const [key, session] of sessions) {
+    if (now - session.lastUsedAt > MCP_SESSION_IDLE_TTL_MS) {
+      sessions.delete(key);
+    }
+  }
+}
+
+/**
+ * Get the MCP session for a server, initializing it on first use.
+ * Sessions are shared by everything using the same session key (e.g. a conversation id).
+ */
+export async function getMcpSession(
+  server: McpServerRecord,
+  sessionKey?: string
+): Promise<McpSession> {
+  const cacheKey = buildSessionCacheKey(server, sessionKey);
+  const fingerprint = buildFingerprint(server);
+  const now = Date.now();
+  pruneIdleSessions(now);
+
+  const cached = sessions.get(cacheKey);
+  if (cached && cached.fingerprint === fingerprint) {
+    cached.lastUsedAt = now;
+    return cached;
+  }
+
+  // Concurrent tool calls of the same conversation share one handshake
+  let pending = sessionInitializations.get(cacheKey);
+  if (!pending) {
+    pending = initializeSession(server, fingerprint).finally(() => {
+      sessionInitializations.delete(cacheKey);
+    });
+    sessionInitializations.set(cacheKey, pending);
+  }
+  const session = await pending;
+  sessions.set(cacheKey, session);
+  return session;
+}
+
+/**
+ * Send a JSON-RPC request to an MCP server over its session
+ */
+export async function mcpRequest(
+  server: McpServerRecord,
+  method: string,
+  params: Record<string, unknown> = {},
+  sessionKey?: string
+): Promise<unknown> {
+  const { url, authHeaders } = resolveServerConnection(server);
+
+  const send = async () => {
+    const session = await getMcpSession(server, sessionKey);
+    return sendRequest(
+      { serverKey: server.pk, url, authHeaders, session },
+      method,
+      params
+    );
+  };
+
+  try {
+    return await send();
+  } catch (error) {
+    const session = sessions.get(buildSessionCacheKey(server, sessionKey));
+    // 404 on a request that carried a session id means the server dropped the session
+    if (
+      error instanceof McpHttpError &&
+      error.status === 404 &&
+      session?.sessionId
+    ) {
+      console.log(
+        `[MCP Client] Session expired for ${server.pk}, re-initializing`
+      );
+      sessions.delete(buildSessionCacheKey(server, sessionKey));
+      return send();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Forget all sessions and list_changed flags (tests)
+ */
+export function clearMcpSessions(): void {
+  sessions.clear();
+  changedToolLists.clear();
+  sessionInitializations.clear();
+}
@@ -0,0 +1,485 @@
+import { isBoom } from "@hapi/boom";
+import { z } from "zod";
+
+import { database } from "../../tables";
+import type { AgentRecord } from "../../tables/schema";
+import {
+  hasApiKeyCapability,
+  type ApiKeyScope,
+  type UserApiKeyCapability,
+} from "../../utils/apiKeyScope";
+import { searchDocuments } from "../../utils/documentSearch";
+import { searchMemory } from "../../utils/memory/searchMemory";
+import { Sentry, ensureError } from "../../utils/sentry";
+import type { AugmentedContext } from "../../utils/workspaceCreditContext";
+
+import { callAgentInternal } from "./call-agent-internal";
+import { executeWithRequestLimits } from "./nonStreamingRequestLimits";
+import { validateToolArgs } from "./toolValidation";
+
+/**
+ * Tools exposed by the Helpmaton MCP server endpoint (/api/mcp/:workspaceId)
+ *
+ * - `ask_<agent>` for every agent the caller can reach, answered through
+ *   callAgentInternal (credit reservation, spending limits, conversation logging)
+ * - `search_documents` over the workspace documents
+ * - `search_memory` over an agent's memory
+ *
+ * The server is stateless: the tool list is rebuilt from the workspace agents on
+ * every request, so `tools/call` resolves names the same way `tools/list` lists them.
+ */
+
+// Same default as delegation from agents (agentSetup maxDelegationDepth)
+const MCP_MAX_DELEGATION_DEPTH = 3;
+// MCP tool names are limited to 64 characters
+const MAX_AGENT_SLUG_LENGTH = 48;
+
+export type McpServerAccess = {
+  workspaceId: string;
+  /** Set when authenticated with an agent key: only this agent is reachable */
+  agentId?: string;
+  /** Set when authenticated with a user API key: its capabilities filter the tools */
+  apiKeyScope?: ApiKeyScope;
+};
+
+const TOOL_CAPABILITIES: Record<
+  "ask" | "search_documents" | "search_memory",
+  readonly UserApiKeyCapability[]
+> = {
+  ask: ["agents"],
+  search_documents: ["read", "documents"],
+  search_memory: ["read"],
+};
+
+const canUseTool = (
+  access: McpServerAccess,
+  tool: keyof typeof TOOL_CAPABILITIES
+) => hasApiKeyCapability(access.apiKeyScope, TOOL_CAPABILITIES[tool]);
+
+/**
+ * Whether a user API key can use at least one of the MCP server tools
+ */
+export const canUseAnyMcpServerTool = (access: McpServerAccess) =>
+  (Object.keys(TOOL_CAPABILITIES) as (keyof typeof TOOL_CAPABILITIES)[]).some(
+    (tool) => canUseTool(access, tool)
+  );
+
+export type McpToolDefinition = {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+};
+
+export type McpToolCallResult = {
+  content: Array<{ type: "text"; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
+/**
+ * Thrown for calls the client got wrong (unknown tool, invalid arguments);
+ * reported as a JSON-RPC error instead of a tool result
+ */
+export class McpToolCallError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "McpToolCallError";
+  }
+}
+
+type AgentTool = {
+  name: string;
+  agentId: string;
+  agent: AgentRecord;
+};
+
+const askAgentSchema = z
+  .object({
+    message: z
+      .string()
+      .min(1, "message is required and cannot be empty")
+      .describe("The question or task for the agent"),
+  })
+  .strict();
+
+const askAgentOutputSchema = z.object({
+  response: z.string().describe("The agent's answer"),
+  conversationId: z
+    .string()
+    .describe("ID of the conversation logged for the agent"),
+});
+
+const searchDocumentsSchema = z
+  .object({
+    query: z.string().min(1, "query is required and cannot be empty"),
+    topN: z
+      .number()
+      .int()
+      .min(1)
+      .max(50)
+      .optional()
+      .default(5)
+      .describe("Number of snippets to return (default: 5)"),
+    mode: z
+      .enum(["hybrid", "keyword", "vector"])
+      .optional()
+      .default("hybrid")
+      .describe(
+        'How to match documents (default: "hybrid"). "keyword" only matches exact terms, "vector" only matches by meaning.'
+      ),
+  })
+  .strict();
+
+const memorySearchFields = {
+  queryText: z
+    .string()
+    .optional()
+    .describe(
+      "Optional text for semantic search. Without it the most recent memories are returned."
+    ),
+  grain: z
+    .enum(["working", "daily", "weekly", "monthly", "quarterly", "yearly"])
+    .optional()
+    .default("working")
+    .describe(
+      "Time grain: 'working' (recent events, default) or day/week/month/quarter/year summaries"
+    ),
+  minimumDaysAgo: z.number().int().min(0).optional().default(0),
+  maximumDaysAgo: z.number().int().min(0).optional().default(365),
+  maxResults: z.number().int().min(1).max(100).optional().default(10),
+};
+
+const buildSearchMemorySchema = (agentTools: AgentTool[], scoped: boolean) =>
+  scoped
+    ? z.object(memorySearchFields).strict()
+    : z
+        .object({
+          agent: z
+            .enum(
+              agentTools.map((agentTool) => agentTool.agentId) as [
+                string,
+                ...string[],
+              ]
+            )
+            .describe(
+              `ID of the agent whose memory to search: ${agentTools
+                .map(
+                  (agentTool) => `${agentTool.agentId} (${agentTool.agent.name})`
+                )
+                .join(", ")}`
+            ),
+          ...memorySearchFields,
+        })
+        .strict();
+
+const toJsonSchema = (schema: z.ZodType): Record<string, unknown> =>
+  z.toJSONSchema(schema, { io: "input" }) as Record<string, unknown>;
+
+const textResult = (text: string, isError?: boolean): McpToolCallResult => ({
+  content: [{ type: "text", text }],
+  ...(isError && { isError: true }),
+});
+
+const toAgentSlug = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, MAX_AGENT_SLUG_LENGTH);
+
+/**
+ * Builds unique `ask_<agent>` tool names from agent names; agents whose names
+ * collide (or have no usable characters) get a suffix from their ID
+ */
+export function buildAskToolNames(
+  agents: Array<{ agentId: string; name: string }>
+): Map<string, string> {
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+  for (const { agentId, name } of agents) {
+    const slug = toAgentSlug(name);
+    let toolName = slug ? `ask_${slug}` : "";
+    if (!toolName || used.has(toolName)) {
+      const suffix = toAgentSlug(agentId).slice(0, 8);
+      toolName = slug ? `ask_${slug}_${suffix}` : `ask_agent_${suffix}`;
+    }
+    used.add(toolName);
+    names.set(agentId, toolName);
+  }
+  return names;
+}
+
+const loadAgentTools = async (
+  access: McpServerAccess
+): Promise<AgentTool[]> => {
+  const db = await database();
+  const { workspaceId } = access;
+  let agents: AgentRecord[];
+  if (access.agentId) {
+    const agent = await db.agent.get(
+      `agents/${workspaceId}/${access.agentId}`,
+      "agent"
+    );
+    agents = agent ? [agent] : [];
+  } else {
+    const result = await db.agent.query({
+      IndexName: "byWorkspaceId",
+      KeyConditionExpression: "workspaceId = :workspaceId",
+      ExpressionAttributeValues: {
+        ":workspaceId": workspaceId,
+      },
+    });
+    agents = result.items;
+  }
+
+  const withIds = agents.map((agent) => ({
+    agent,
+    agentId: agent.pk.replace(`agents/${workspaceId}/`, ""),
+  }));
+  const toolNames = buildAskToolNames(
+    withIds.map(({ agent, agentId }) => ({ agentId, name: agent.name }))
+  );
+  return withIds.map(({ agent, agentId }) => ({
+    agent,
+    agentId,
+    name: toolNames.get(agentId) ?? `ask_agent_${agentId}`,
+  }));
+};
+
+/**
+ * Lists the MCP tools available to the caller
+ */
+export async function listMcpServerTools(
+  access: McpServerAccess
+): Promise<McpToolDefinition[]> {
+  const agentTools = await loadAgentTools(access);
+  if (access.agentId && agentTools.length === 0) {
+    return [];
+  }
+  const tools: McpToolDefinition[] = canUseTool(access, "ask")
+    ? agentTools.map((agentTool) => ({
+        name: agentTool.name,
+        description: `Ask the "${agentTool.agent.name}" Helpmaton agent. The agent answers with its own instructions, tools and knowledge. Each call starts a new conversation.`,
+        inputSchema: toJsonSchema(askAgentSchema),
+        outputSchema: toJsonSchema(askAgentOutputSchema),
+      }))
+    : [];
+
+  if (canUseTool(access, "search_documents")) {
+    tools.push({
+      name: "search_documents",
+      description: access.agentId
+        ? "Search the workspace documents this agent can read, using hybrid keyword and semantic search. Returns matching snippets with their document names."
+        : "Search the workspace documents using hybrid keyword and semantic search. Returns matching snippets with their document names.",
+      inputSchema: toJsonSchema(searchDocumentsSchema),
+    });
+  }
+
+  if (agentTools.length > 0 && canUseTool(access, "search_memory")) {
+    tools.push({
+      name: "search_memory",
+      description: access.agentId
+        ? "Search the agent's factual memory. Returns events prefixed by the date they happened."
+        : "Search an agent's factual memory. Returns events prefixed by the date they happened.",
+      inputSchema: toJsonSchema(
+        buildSearchMemorySchema(agentTools, Boolean(access.agentId))
+      ),
+    });
+  }
+
+  return tools;
+}
+
+const askAgent = async (
+  access: McpServerAccess,
+  agentTool: AgentTool,
+  args: unknown,
+  context?: AugmentedContext
+): Promise<McpToolCallResult> => {
+  const parsed = validateToolArgs(askAgentSchema, args);
+  if (!parsed.ok) {
+    throw new McpToolCallError(parsed.error);
+  }
+
+  const { workspaceId } = access;
+  const result = await executeWithRequestLimits({
+    workspaceId,
+    agentId: agentTool.agentId,
+    endpoint: "mcp",
+    execute: () =>
+      callAgentInternal(
+        workspaceId,
+        agentTool.agentId,
+        parsed.data.message,
+        0,
+        MCP_MAX_DELEGATION_DEPTH,
+        context,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { conversationType: "mcp" }
+      ),
+    shouldTrack: (value) => value.shouldTrackRequest,
+  });
+
+  // callAgentInternal reports failures (credits, spending limits, model errors) as text
+  const isError = result.response.startsWith("Error");
+  return {
+    content: [{ type: "text", text: result.response }],
+    ...(isError
+      ? { isError: true }
+      : {
+          structuredContent: {
+            response: result.response,
+            conversationId: result.targetAgentConversationId,
+          },
+        }),
+  };
+};
+
+const runSearchDocuments = async (
+  access: McpServerAccess,
+  agentTools: AgentTool[],
+  args: unknown,
+  context?: AugmentedContext
+): Promise<McpToolCallResult> => {
+  const parsed = validateToolArgs(searchDocumentsSchema, args);
+  if (!parsed.ok) {
+    throw new McpToolCallError(parsed.error);
+  }
+
+  // An agent key only reaches the documents that agent can read
+  const scopedAgent = access.agentId ? agentTools[0].agent : undefined;
+  const results = await searchDocuments(
+    access.workspaceId,
+    parsed.data.query,
+    parsed.data.topN,
+    {
+      context,
+      agentId: access.agentId,
+      folderPaths: scopedAgent?.knowledgeFolderPaths,
+      tags: scopedAgent?.knowledgeTags,
+      mode: parsed.data.mode,
+    }
+  );
+
+  if (results.length === 0) {
+    return textResult("No relevant documents found for the query.");
+  }
+  const formatted = results
+    .map((result) => {
+      const location = [
+        result.folderPath
+          ? `${result.folderPath}/${result.documentName}`
+          : result.documentName,
+        result.anchor,
+      ]
+        .filter(Boolean)
+        .join(", ");
+      return `[${location}]\n${result.snippet}`;
+    })
+    .join("\n\n---\n\n");
+  return textResult(
+    `Found ${results.length} relevant document snippet(s):\n\n${formatted}`
+  );
+};
+
+const runSearchMemory = async (
+  access: McpServerAccess,
+  agentTools: AgentTool[],
+  args: unknown,
+  context?: AugmentedContext
+): Promise<McpToolCallResult> => {
+  const schema = buildSearchMemorySchema(agentTools, Boolean(access.agentId));
+  const parsed = validateToolArgs(schema, args);
+  if (!parsed.ok) {
+    throw new McpToolCallError(parsed.error);
+  }
+
+  const data = parsed.data as z.infer<typeof schema> & { agent?: string };
+  const agentId = access.agentId ?? data.agent;
+  if (!agentId) {
+    throw new McpToolCallError('Missing required field "agent".');
+  }
+
+  const results = await searchMemory({
+    agentId,
+    workspaceId: access.workspaceId,
+    grain: data.grain,
+    minimumDaysAgo: data.minimumDaysAgo,
+    maximumDaysAgo: data.maximumDaysAgo,
+    maxResults: data.maxResults,
+    queryText: data.queryText,
+    context,
+  });
+
+  if (results.length === 0) {
+    return textResult("No memories found for the specified criteria.");
+  }
+  return textResult(
+    results.map((result) => `[${result.date}] ${result.content}`).join("\n\n")
+  );
+};
+
+/**
+ * Calls one of the MCP server tools
+ * @throws McpToolCallError when the tool doesn't exist or the arguments are invalid
+ */
+export async function callMcpServerTool(
+  access: McpServerAccess,
+  name: string,
+  args: unknown,
+  context?: AugmentedContext
+): Promise<McpToolCallResult> {
+  const agentTools = await loadAgentTools(access);
+  if (access.agentId && agentTools.length === 0) {
+    throw new McpToolCallError(`Unknown tool: ${name}`);
+  }
+
+  try {
+    if (name === "search_documents" && canUseTool(access, name)) {
+      return await runSearchDocuments(access, agentTools, args, context);
+    }
+    if (
+      name === "search_memory" &&
+      agentTools.length > 0 &&
+      canUseTool(access, name)
+    ) {
+      return await runSearchMemory(access, agentTools, args, context);
+    }
+    const agentTool = canUseTool(access, "ask")
+      ? agentTools.find((candidate) => candidate.name === name)
+      : undefined;
+    if (!agentTool) {
+      throw new McpToolCallError(`Unknown tool: ${name}`);
+    }
+    return await askAgent(access, agentTool, args, context);
+  } catch (error) {
+    if (error instanceof McpToolCallError) {
+      throw error;
+    }
+    // Limits (daily requests, expired plan) come back as Boom errors
+    if (!isBoom(error) || error.isServer) {
+      console.error("[MCP Server] Tool call failed:", {
+        workspaceId: access.workspaceId,
+        tool: name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      Sentry.captureException(ensureError(error), {
+        tags: {
+          context: "mcp-server",
+          tool: name,
+        },
+        extra: {
+          workspaceId: access.workspaceId,
+        },
+      });
+    }
+    return textResult(
+      `Error: ${error instanceof Error ? error.message : String(error)}`,
+      true
+    );
+  }
+}
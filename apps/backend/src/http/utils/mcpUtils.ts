@@ -1,11 +1,21 @@
-import { tool } from "ai";
+import { randomUUID } from "crypto";
+
+import { jsonSchema, tool } from "ai";
 import { z } from "zod";
 
 import { database } from "../../tables";
 import type { McpServerRecord } from "../../tables/schema";
 import { trackBusinessEvent } from "../../utils/tracking";
 
+import {
+  consumeMcpToolListChanged,
+  getMcpSession,
+  mcpRequest,
+  type McpServerCapabilities,
+  type McpSession,
+} from "./mcpClient";
 import { validateMcpToolParams } from "./mcpToolSchemaValidation";
+import { EMPTY_PARAMETERS_JSON_SCHEMA } from "./toolSchemas";
 import { validateToolArgs } from "./toolValidation";
 
 /**
@@ -21,127 +31,6 @@ export async function getMcpServer(
   return server || null;
 }
 
-/**
- * Build authentication headers for MCP server request
- */
-function buildAuthHeaders(
-  authType: "none" | "header" | "basic" | "oauth",
-  config: Record<string, unknown>
-): Record<string, string> {
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-  };
-
-  if (authType === "header") {
-    const headerValue = config.headerValue as string;
-    if (!headerValue) {
-      throw new Error(
-        'Missing required "headerValue" for header authentication.'
-      );
-    }
-    headers["Authorization"] = headerValue;
-  } else if (authType === "basic") {
-    const username = config.username as string;
-    const password = config.password as string;
-    if (!username || !password) {
-      throw new Error(
-        'Missing required "username" or "password" for basic authentication.'
-      );
-    }
-    const credentials = Buffer.from(`${username}:${password}`).toString(
-      "base64"
-    );
-    headers["Authorization"] = `Basic ${credentials}`;
-  }
-  // For "none", no additional headers needed
-
-  return headers;
-}
-
-/**
- * Call MCP server using the MCP protocol
- * MCP uses JSON-RPC 2.0 format
- */
-async function callMcpServer(
-  server: McpServerRecord,
-  method: string,
-  params?: Record<string, unknown>
-): Promise<unknown> {
-  const url = server.url;
-  if (!url) {
-    throw new Error("MCP server URL is required for external servers");
-  }
-  // OAuth servers don't use this function - they have dedicated tools
-  if (server.authType === "oauth") {
-    throw new Error(
-      "OAuth MCP servers should use dedicated tools, not generic MCP calls"
-    );
-  }
-  const headers = buildAuthHeaders(server.authType, server.config);
-
-  // MCP protocol uses JSON-RPC 2.0
-  const requestBody = {
-    jsonrpc: "2.0",
-    id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-    method,
-    params: params || {},
-  };
-
-  try {
-    const response = await fetch(url, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(requestBody),
-      signal: AbortSignal.timeout(30000), // 30 seconds timeout
-    });
-
-    if (!response.ok) {
-      throw new Error(
-        `MCP server request failed: ${response.status} ${response.statusText}`
-      );
-    }
-
-    const contentType = response.headers.get("content-type") || "";
-    if (!contentType.toLowerCase().includes("application/json")) {
-      const bodyText = await response.text();
-      throw new Error(
-        `Expected JSON response from MCP server, but got Content-Type: ${contentType}. Response body: ${bodyText.slice(
-          0,
-          200
-        )}`
-      );
-    }
-
-    let result;
-    try {
-      result = await response.json();
-    } catch (parseError) {
-      const bodyText = await response.text();
-      throw new Error(
-        `Failed to parse JSON from MCP server response. Content-Type: ${contentType}. Error: ${
-          parseError instanceof Error ? parseError.message : String(parseError)
-        }. Response body: ${bodyText.slice(0, 200)}`
-      );
-    }
-
-    // Handle JSON-RPC 2.0 response
-    if (result.error) {
-      throw new Error(
-        `MCP server error: ${
-          result.error.message || JSON.stringify(result.error)
-        }`
-      );
-    }
-
-    return result.result;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw error;
-    }
-    throw new Error(`Failed to call MCP server: ${String(error)}`);
-  }
-}
-
 type McpToolSchemaEntry = {
   description?: string;
   inputSchema?: unknown;
@@ -154,6 +43,9 @@ type McpToolSchemaCache = {
 
 const TOOL_SCHEMA_CACHE_KEY = "toolSchemaCache";
 const TOOL_SCHEMA_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+const SERVER_CAPABILITIES_KEY = "serverCapabilities";
+// tools/list, resources/list and prompts/list are paginated with nextCursor
+const MAX_LIST_PAGES = 10;
 
 const getCachedToolSchemaCache = (
   server: McpServerRecord
@@ -182,6 +74,11 @@ const isCacheFresh = (cache: McpToolSchemaCache): boolean => {
   return Date.now() - fetched < TOOL_SCHEMA_CACHE_TTL_MS;
 };
 
+const getNextCursor = (result: unknown): string | undefined => {
+  const nextCursor = (result as { nextCursor?: unknown } | null)?.nextCursor;
+  return typeof nextCursor === "string" && nextCursor ? nextCursor : undefined;
+};
+
 const extractToolSchemas = (
   result: unknown
 ): Record<string, McpToolSchemaEntry> | null => {
@@ -242,11 +139,29 @@ const updateToolSchemaCache = async (
 const fetchToolSchemas = async (
   server: McpServerRecord,
   workspaceId: string,
-  serverId: string
+  serverId: string,
+  sessionKey?: string
 ): Promise<McpToolSchemaCache | null> => {
   try {
-    const result = await callMcpServer(server, "tools/list", {});
-    const tools = extractToolSchemas(result);
+    let tools: Record<string, McpToolSchemaEntry> | undefined;
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_LIST_PAGES; page++) {
+      const result = await mcpRequest(
+        server,
+        "tools/list",
+        cursor ? { cursor } : {},
+        sessionKey
+      );
+      const pageTools = extractToolSchemas(result);
+      if (!pageTools) {
+        break;
+      }
+      tools = { ...(tools ?? {}), ...pageTools };
+      cursor = getNextCursor(result);
+      if (!cursor) {
+        break;
+      }
+    }
     if (!tools) {
       return null;
     }
@@ -260,41 +175,156 @@ const fetchToolSchemas = async (
 const getMcpToolSchemaCache = async (
   server: McpServerRecord,
   workspaceId: string,
-  serverId: string
+  serverId: string,
+  sessionKey?: string
 ): Promise<McpToolSchemaCache | null> => {
   const cached = getCachedToolSchemaCache(server);
-  if (cached && isCacheFresh(cached)) {
+  // A notifications/tools/list_changed from the server invalidates the cache
+  if (cached && isCacheFresh(cached) && !consumeMcpToolListChanged(server.pk)) {
     return cached;
   }
-  const refreshed = await fetchToolSchemas(server, workspaceId, serverId);
+  const refreshed = await fetchToolSchemas(
+    server,
+    workspaceId,
+    serverId,
+    sessionKey
+  );
   if (refreshed) {
     return refreshed;
   }
   return cached ?? null;
 };
 
+const getCachedServerCapabilities = (
+  server: McpServerRecord
+): McpServerCapabilities | null => {
+  const config = server.config as Record<string, unknown>;
+  const capabilities = config[SERVER_CAPABILITIES_KEY];
+  if (!capabilities || typeof capabilities !== "object") {
+    return null;
+  }
+  return capabilities as McpServerCapabilities;
+};
+
+/**
+ * Store the capabilities negotiated in `initialize` so tool setup can skip
+ * resources/prompts tools for servers that don't offer them
+ */
+const rememberServerCapabilities = async (
+  server: McpServerRecord,
+  session: McpSession
+): Promise<void> => {
+  if (session.legacy) {
+    return;
+  }
+  const cached = getCachedServerCapabilities(server);
+  if (JSON.stringify(cached) === JSON.stringify(session.capabilities)) {
+    return;
+  }
+  try {
+    const db = await database();
+    await db["mcp-server"].update({
+      pk: server.pk,
+      sk: "server",
+      config: {
+        ...(server.config as Record<string, unknown>),
+        [SERVER_CAPABILITIES_KEY]: session.capabilities,
+      },
+      updatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.warn("Failed to store MCP server capabilities:", error);
+  }
+};
+
+/**
+ * Load a generic MCP server for a tool call and open its session.
+ * Returns an error message for the agent when the server can't be used.
+ */
+const openGenericServer = async (
+  workspaceId: string,
+  serverId: string,
+  sessionKey?: string
+): Promise<
+  | { ok: true; server: McpServerRecord; session: McpSession }
+  | { ok: false; error: string }
+> => {
+  const server = await getMcpServer(workspaceId, serverId);
+
+  if (!server) {
+    return { ok: false, error: `Error: MCP server ${serverId} not found` };
+  }
+
+  if (server.workspaceId !== workspaceId) {
+    return {
+      ok: false,
+      error: `Error: MCP server ${serverId} does not belong to this workspace`,
+    };
+  }
+
+  const session = await getMcpSession(server, sessionKey);
+  await rememberServerCapabilities(server, session);
+  return { ok: true, server, session };
+};
+
+/**
+ * Format a tools/call result for the agent: text content as-is, other content as JSON
+ */
+export function formatMcpToolResult(result: unknown): string {
+  const content = (result as { content?: unknown } | null)?.content;
+  if (!Array.isArray(content)) {
+    return JSON.stringify(result, null, 2);
+  }
+  const parts = content.map((item) => {
+    if (item && typeof item === "object") {
+      const { type, text } = item as { type?: unknown; text?: unknown };
+      if (type === "text" && typeof text === "string") {
+        return text;
+      }
+      if (type === "image" || type === "audio") {
+        const mimeType = (item as { mimeType?: unknown }).mimeType;
+        return `[${type} content${typeof mimeType === "string" ? ` (${mimeType})` : ""} omitted]`;
+      }
+    }
+    return JSON.stringify(item, null, 2);
+  });
+  const structuredContent = (result as { structuredContent?: unknown })
+    .structuredContent;
+  if (parts.length === 0 && structuredContent !== undefined) {
+    parts.push(JSON.stringify(structuredContent, null, 2));
+  }
+  const text = parts.join("\n\n");
+  return (result as { isError?: unknown }).isError === true
+    ? `Error: ${text}`
+    : text;
+}
+
 /**
  * Create a tool for calling an MCP server
- * This creates a generic tool that can call any MCP method
+ * The agent picks one of the server's tools (from tools/list) and it is run with tools/call
  */
 export function createMcpServerTool(
   workspaceId: string,
   serverId: string,
-  serverName: string
+  serverName: string,
+  sessionKey?: string
 ) {
   const toolParamsSchema = z
     .object({
-      method: z.string().min(1).describe("The MCP method to call"),
+      method: z
+        .string()
+        .min(1)
+        .describe("Name of the MCP server tool to call"),
       params: z
         .record(z.string(), z.unknown())
         .optional()
-        .describe("Optional parameters for the MCP method"),
+        .describe("Arguments for the MCP server tool"),
     })
     .strict();
 
   type ToolArgs = z.infer<typeof toolParamsSchema>;
 
-  const description = `Call the MCP server "${serverName}". Provide the MCP method name and optional parameters. Example: { "method": "tools/list", "params": {} }`;
+  const description = `Call a tool of the MCP server "${serverName}". Provide the tool name as "method" and its arguments as "params". If you don't know the tool names, call with any method name and the error lists them. Example: { "method": "search", "params": { "query": "..." } }`;
 
   return tool({
     description,
@@ -308,20 +338,21 @@ export function createMcpServerTool(
           return parsed.error;
         }
         const typedArgs = parsed.data;
-        const server = await getMcpServer(workspaceId, serverId);
-
-        if (!server) {
-          return `Error: MCP server ${serverId} not found`;
-        }
-
-        if (server.workspaceId !== workspaceId) {
-          return `Error: MCP server ${serverId} does not belong to this workspace`;
+        const opened = await openGenericServer(
+          workspaceId,
+          serverId,
+          sessionKey
+        );
+        if (!opened.ok) {
+          return opened.error;
         }
+        const { server } = opened;
 
         const schemaCache = await getMcpToolSchemaCache(
           server,
           workspaceId,
-          serverId
+          serverId,
+          sessionKey
         );
         if (!schemaCache) {
           return "Error: MCP tool schemas are unavailable for this server. Ensure the server supports tools/list and try again.";
@@ -343,7 +374,12 @@ export function createMcpServerTool(
           return validation.error;
         }
 
-        const result = await callMcpServer(server, typedArgs.method, params);
+        const result = await mcpRequest(
+          server,
+          "tools/call",
+          { name: typedArgs.method, arguments: params },
+          sessionKey
+        );
 
         // Track MCP server tool call
         trackBusinessEvent(
@@ -358,7 +394,7 @@ export function createMcpServerTool(
         );
 
         // Format result as string for the agent
-        return JSON.stringify(result, null, 2);
+        return formatMcpToolResult(result);
       } catch (error) {
         console.error(`Error in MCP server tool for ${serverName}:`, error);
         return `Error calling MCP server: ${
@@ -369,6 +405,384 @@ export function createMcpServerTool(
   });
 }
 
+/**
+ * Collect all pages of a paginated MCP list method (resources/list, prompts/list, ...)
+ */
+const listAllPages = async (
+  server: McpServerRecord,
+  method: string,
+  itemsKey: string,
+  sessionKey?: string
+): Promise<unknown[]> => {
+  const items: unknown[] = [];
+  let cursor: string | undefined;
+  for (let page = 0; page < MAX_LIST_PAGES; page++) {
+    const result = await mcpRequest(
+      server,
+      method,
+      cursor ? { cursor } : {},
+      sessionKey
+    );
+    const pageItems = (result as Record<string, unknown> | null)?.[itemsKey];
+    if (Array.isArray(pageItems)) {
+      items.push(...pageItems);
+    }
+    cursor = getNextCursor(result);
+    if (!cursor) {
+      break;
+    }
+  }
+  return items;
+};
+
+const unsupportedCapabilityError = (
+  session: McpSession,
+  capability: "resources" | "prompts",
+  serverName: string
+): string | null =>
+  // Legacy servers didn't negotiate capabilities, so just try the request
+  !session.legacy && !session.capabilities[capability]
+    ? `Error: The MCP server "${serverName}" does not provide ${capability}.`
+    : null;
+
+/**
+ * Create a tool listing the resources (and resource templates) of an MCP server
+ */
+export function createMcpListResourcesTool(
+  workspaceId: string,
+  serverId: string,
+  serverName: string,
+  sessionKey?: string
+) {
+  const schema = z.object({}).strict();
+
+  return tool({
+    description: `List the resources (files, records, documents) the MCP server "${serverName}" exposes. Returns each resource's URI, name, description and MIME type, plus URI templates for parameterized resources. Read a resource with its URI.`,
+    inputSchema: jsonSchema(EMPTY_PARAMETERS_JSON_SCHEMA),
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment -- AI SDK tool function has type inference limitations when schema is extracted
+    // @ts-ignore - The execute function signature doesn't match the expected type, but works at runtime
+    execute: async (args: unknown) => {
+      try {
+        const parsed = validateToolArgs<z.infer<typeof schema>>(schema, args);
+        if (!parsed.ok) {
+          return parsed.error;
+        }
+        const opened = await openGenericServer(
+          workspaceId,
+          serverId,
+          sessionKey
+        );
+        if (!opened.ok) {
+          return opened.error;
+        }
+        const unsupported = unsupportedCapabilityError(
+          opened.session,
+          "resources",
+          serverName
+        );
+        if (unsupported) {
+          return unsupported;
+        }
+
+        const resources = await listAllPages(
+          opened.server,
+          "resources/list",
+          "resources",
+          sessionKey
+        );
+        // Templates are optional for servers, so a failure only means there are none
+        const resourceTemplates = await listAllPages(
+          opened.server,
+          "resources/templates/list",
+          "resourceTemplates",
+          sessionKey
+        ).catch(() => []);
+
+        trackBusinessEvent(
+          "mcp_server",
+          "resources_listed",
+          {
+            workspace_id: workspaceId,
+            server_id: serverId,
+            resource_count: resources.length,
+          },
+          undefined
+        );
+
+        return JSON.stringify({ resources, resourceTemplates }, null, 2);
+      } catch (error) {
+        console.error(`Error in MCP list resources tool for ${serverName}:`, error);
+        return `Error listing MCP resources: ${
+          error instanceof Error ? error.message : String(error)
+        }`;
+      }
+    },
+  });
+}
+
+/**
+ * Create a tool reading a resource of an MCP server by URI
+ */
+export function createMcpReadResourceTool(
+  workspaceId: string,
+  serverId: string,
+  serverName: string,
+  sessionKey?: string
+) {
+  const schema = z
+    .object({
+      uri: z
+        .string()
+        .min(1)
+        .describe(
+          "URI of the resource, from the resource list or a filled-in resource template"
+        ),
+    })
+    .strict();
+
+  return tool({
+    description: `Read a resource of the MCP server "${serverName}" by its URI. Returns the text content; binary content is summarized.`,
+    parameters: schema,
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment -- AI SDK tool function has type inference limitations when schema is extracted
+    // @ts-ignore - The execute function signature doesn't match the expected type, but works at runtime
+    execute: async (args: unknown) => {
+      try {
+        const parsed = validateToolArgs<z.infer<typeof schema>>(schema, args);
+        if (!parsed.ok) {
+          return parsed.error;
+        }
+        const opened = await openGenericServer(
+          workspaceId,
+          serverId,
+          sessionKey
+        );
+        if (!opened.ok) {
+          return opened.error;
+        }
+        const unsupported = unsupportedCapabilityError(
+          opened.session,
+          "resources",
+          serverName
+        );
+        if (unsupported) {
+          return unsupported;
+        }
+
+        const result = await mcpRequest(
+          opened.server,
+          "resources/read",
+          { uri: parsed.data.uri },
+          sessionKey
+        );
+
+        trackBusinessEvent(
+          "mcp_server",
+          "resource_read",
+          { workspace_id: workspaceId, server_id: serverId },
+          undefined
+        );
+
+        const contents = (result as { contents?: unknown } | null)?.contents;
+        if (!Array.isArray(contents) || contents.length === 0) {
+          return `Resource ${parsed.data.uri} has no content.`;
+        }
+        return contents
+          .map((content) => {
+            const { uri, mimeType, text, blob } = (content ?? {}) as {
+              uri?: unknown;
+              mimeType?: unknown;
+              text?: unknown;
+              blob?: unknown;
+            };
+            const header = `Resource: ${typeof uri === "string" ? uri : parsed.data.uri}${
+              typeof mimeType === "string" ? ` (${mimeType})` : ""
+            }`;
+            if (typeof text === "string") {
+              return `${header}\n\n${text}`;
+            }
+            if (typeof blob === "string") {
+              return `${header}\n\n[binary content, ${blob.length} base64 characters omitted]`;
+            }
+            return `${header}\n\n${JSON.stringify(content, null, 2)}`;
+          })
+          .join("\n\n---\n\n");
+      } catch (error) {
+        console.error(`Error in MCP read resource tool for ${serverName}:`, error);
+        return `Error reading MCP resource: ${
+          error instanceof Error ? error.message : String(error)
+        }`;
+      }
+    },
+  });
+}
+
+/**
+ * Create a tool listing the prompt templates of an MCP server
+ */
+export function createMcpListPromptsTool(
+  workspaceId: string,
+  serverId: string,
+  serverName: string,
+  sessionKey?: string
+) {
+  const schema = z.object({}).strict();
+
+  return tool({
+    description: `List the prompt templates the MCP server "${serverName}" offers, with their arguments. Use a prompt template to get ready-made instructions from the server.`,
+    inputSchema: jsonSchema(EMPTY_PARAMETERS_JSON_SCHEMA),
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment -- AI SDK tool function has type inference limitations when schema is extracted
+    // @ts-ignore - The execute function signature doesn't match the expected type, but works at runtime
+    execute: async (args: unknown) => {
+      try {
+        const parsed = validateToolArgs<z.infer<typeof schema>>(schema, args);
+        if (!parsed.ok) {
+          return parsed.error;
+        }
+        const opened = await openGenericServer(
+          workspaceId,
+          serverId,
+          sessionKey
+        );
+        if (!opened.ok) {
+          return opened.error;
+        }
+        const unsupported = unsupportedCapabilityError(
+          opened.session,
+          "prompts",
+          serverName
+        );
+        if (unsupported) {
+          return unsupported;
+        }
+
+        const prompts = await listAllPages(
+          opened.server,
+          "prompts/list",
+          "prompts",
+          sessionKey
+        );
+
+        trackBusinessEvent(
+          "mcp_server",
+          "prompts_listed",
+          {
+            workspace_id: workspaceId,
+            server_id: serverId,
+            prompt_count: prompts.length,
+          },
+          undefined
+        );
+
+        return JSON.stringify({ prompts }, null, 2);
+      } catch (error) {
+        console.error(`Error in MCP list prompts tool for ${serverName}:`, error);
+        return `Error listing MCP prompts: ${
+          error instanceof Error ? error.message : String(error)
+        }`;
+      }
+    },
+  });
+}
+
+/**
+ * Create a tool rendering a prompt template of an MCP server
+ */
+export function createMcpGetPromptTool(
+  workspaceId: string,
+  serverId: string,
+  serverName: string,
+  sessionKey?: string
+) {
+  const schema = z
+    .object({
+      name: z.string().min(1).describe("Name of the prompt template"),
+      arguments: z
+        .record(z.string(), z.string())
+        .optional()
+        .describe("Values for the prompt template arguments"),
+    })
+    .strict();
+
+  return tool({
+    description: `Get a prompt template of the MCP server "${serverName}" filled in with arguments. Returns the prompt messages to follow.`,
+    parameters: schema,
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment -- AI SDK tool function has type inference limitations when schema is extracted
+    // @ts-ignore - The execute function signature doesn't match the expected type, but works at runtime
+    execute: async (args: unknown) => {
+      try {
+        const parsed = validateToolArgs<z.infer<typeof schema>>(schema, args);
+        if (!parsed.ok) {
+          return parsed.error;
+        }
+        const opened = await openGenericServer(
+          workspaceId,
+          serverId,
+          sessionKey
+        );
+        if (!opened.ok) {
+          return opened.error;
+        }
+        const unsupported = unsupportedCapabilityError(
+          opened.session,
+          "prompts",
+          serverName
+        );
+        if (unsupported) {
+          return unsupported;
+        }
+
+        const result = await mcpRequest(
+          opened.server,
+          "prompts/get",
+          {
+            name: parsed.data.name,
+            arguments: parsed.data.arguments ?? {},
+          },
+          sessionKey
+        );
+
+        trackBusinessEvent(
+          "mcp_server",
+          "prompt_used",
+          {
+            workspace_id: workspaceId,
+            server_id: serverId,
+            prompt_name: parsed.data.name,
+          },
+          undefined
+        );
+
+        const { description, messages } = (result ?? {}) as {
+          description?: unknown;
+          messages?: unknown;
+        };
+        const formattedMessages = Array.isArray(messages)
+          ? messages.map((message) => {
+              const { role, content } = (message ?? {}) as {
+                role?: unknown;
+                content?: unknown;
+              };
+              return `[${typeof role === "string" ? role : "user"}]\n${formatMcpToolResult({
+                content: Array.isArray(content) ? content : [content],
+              })}`;
+            })
+          : [];
+        return [
+          typeof description === "string" ? description : undefined,
+          ...formattedMessages,
+        ]
+          .filter((part): part is string => !!part)
+          .join("\n\n");
+      } catch (error) {
+        console.error(`Error in MCP get prompt tool for ${serverName}:`, error);
+        return `Error getting MCP prompt: ${
+          error instanceof Error ? error.message : String(error)
+        }`;
+      }
+    },
+  });
+}
+
 /**
  * Sanitize server name for use in tool names
  */
@@ -1248,15 +1662,91 @@ const createDedicatedTools = async (params: {
   return false;
 };
 
+/**
+ * Add the tools of a generic (non-OAuth) MCP server: tools/call plus resources and prompts.
+ * Resources/prompts tools are skipped when the server's stored capabilities don't offer them;
+ * servers we never connected to get them (the tools report when unsupported).
+ */
+const addGenericServerTools = (params: {
+  tools: Record<string, ReturnType<typeof createMcpServerTool>>;
+  workspaceId: string;
+  server: McpServerRecord;
+  serverId: string;
+  sessionKey: string;
+}) => {
+  const { tools, workspaceId, server, serverId, sessionKey } = params;
+  const toolName = `mcp_${sanitizeServerName(server.name)}`;
+  registerTool(
+    tools,
+    toolName,
+    createMcpServerTool(workspaceId, serverId, server.name, sessionKey)
+  );
+
+  const capabilities = getCachedServerCapabilities(server);
+  if (!capabilities || capabilities.resources) {
+    registerTool(
+      tools,
+      `${toolName}_list_resources`,
+      createMcpListResourcesTool(workspaceId, serverId, server.name, sessionKey)
+    );
+    registerTool(
+      tools,
+      `${toolName}_read_resource`,
+      createMcpReadResourceTool(workspaceId, serverId, server.name, sessionKey)
+    );
+  }
+  if (!capabilities || capabilities.prompts) {
+    registerTool(
+      tools,
+      `${toolName}_list_prompts`,
+      createMcpListPromptsTool(workspaceId, serverId, server.name, sessionKey)
+    );
+    registerTool(
+      tools,
+      `${toolName}_get_prompt`,
+      createMcpGetPromptTool(workspaceId, serverId, server.name, sessionKey)
+    );
+  }
+};
+
+/** Server and configured (unsuffixed) tool name an MCP tool was created for */
+export type McpToolSource = { serverId: string; baseName: string };
+
 /**
  * Create tools for all enabled MCP servers for an agent
+ * Generic MCP servers share one MCP session per conversation (a new one per call without a conversation id).
  */
 export async function createMcpServerTools(
   workspaceId: string,
   enabledMcpServerIds: string[],
-  enabledMcpServerToolNames?: Record<string, string[]>
+  enabledMcpServerToolNames?: Record<string, string[]>,
+  options?: { conversationId?: string }
 ): Promise<Record<string, ReturnType<typeof createMcpServerTool>>> {
+  const { tools } = await createMcpServerToolsWithSources(
+    workspaceId,
+    enabledMcpServerIds,
+    enabledMcpServerToolNames,
+    options
+  );
+  return tools;
+}
+
+/**
+ * Same as createMcpServerTools, also returning the server each tool belongs to
+ * (tool names get a server suffix when several servers of a type are enabled)
+ */
+export async function createMcpServerToolsWithSources(
+  workspaceId: string,
+  enabledMcpServerIds: string[],
+  enabledMcpServerToolNames?: Record<string, string[]>,
+  options?: { conversationId?: string }
+): Promise<{
+  tools: Record<string, ReturnType<typeof createMcpServerTool>>;
+  sources: Record<string, McpToolSource>;
+}> {
   const tools: Record<string, ReturnType<typeof createMcpServerTool>> = {};
+  const sources: Record<string, McpToolSource> = {};
+  const sessionKey = options?.conversationId ?? randomUUID();
   const validServers = await collectValidServers(
     workspaceId,
     enabledMcpServerIds
@@ -1293,27 +1783,33 @@ export async function createMcpServerTools(
       // Create a generic MCP tool for external servers
       // For generic servers, always use server name since they're inherently different
       // Only append suffix if there are multiple generic servers
-      const toolName = `mcp_${sanitizeServerName(server.name)}`;
       logNotionGenericFallback(server, serverId);
-      tools[toolName] = createMcpServerTool(workspaceId, serverId, server.name);
+      addGenericServerTools({
+        tools,
+        workspaceId,
+        server,
+        serverId,
+        sessionKey,
+      });
     }
 
-    if (allowedToolNames !== undefined) {
-      const allowedToolNamesSet = new Set(allowedToolNames);
-      const newlyCreatedToolNames = Object.keys(tools).filter(
-        (toolName) => !existingToolNames.has(toolName),
-      );
-      for (const toolName of newlyCreatedToolNames) {
-        const baseName =
-          suffix && toolName.endsWith(suffix)
-            ? toolName.slice(0, -suffix.length)
-            : toolName;
-        if (!allowedToolNamesSet.has(baseName)) {
-          delete tools[toolName];
-        }
+    const allowedToolNamesSet =
+      allowedToolNames !== undefined ? new Set(allowedToolNames) : undefined;
+    const newlyCreatedToolNames = Object.keys(tools).filter(
+      (toolName) => !existingToolNames.has(toolName),
+    );
+    for (const toolName of newlyCreatedToolNames) {
+      const baseName =
+        suffix && toolName.endsWith(suffix)
+          ? toolName.slice(0, -suffix.length)
+          : toolName;
+      if (allowedToolNamesSet && !allowedToolNamesSet.has(baseName)) {
+        delete tools[toolName];
+      } else {
+        sources[toolName] = { serverId, baseName };
       }
     }
   }
 
-  return tools;
+  return { tools, sources };
 }
@@ -8,6 +8,7 @@ import type { AugmentedContext } from "../../utils/workspaceCreditContext";
 /**
  * Create a search_memory tool for agents
  * Allows agents to search their factual memory across different time grains and ranges
+ * With a partitionKey, the tool searches the current end user's memory and the agent-global memory
  */
 export function createSearchMemoryTool(
   agentId: string,
@@ -15,6 +16,7 @@ export function createSearchMemoryTool(
   options?: {
     context?: AugmentedContext;
     conversationId?: string;
+    partitionKey?: string;
   },
 ) {
   const searchMemoryParamsSchema = z.object({
@@ -108,6 +110,7 @@ export function createSearchMemoryTool(
           queryText,
           context: options?.context,
           conversationId: options?.conversationId,
+          ...(options?.partitionKey && { partitionKey: options.partitionKey }),
         });
 
         // Calculate date range for context
@@ -24,6 +24,48 @@ const PARAMETER_KEY_MAP: Record<keyof Omit<ModelSettings, "reasoning" | "usage">
 
 const REASONING_PARAMETERS = new Set(["reasoning", "include_reasoning"]);
 
+/** Sampling parameters every OpenAI-compatible server accepts */
+const OPENAI_COMPATIBLE_PARAMETERS = ["max_tokens", "stop", "temperature", "top_p"];
+
+/**
+ * Capabilities declared for a model of a workspace's custom model endpoint.
+ * Undeclared capabilities are treated as unsupported.
+ */
+export type DeclaredModelCapabilities = {
+  toolCalling?: boolean;
+  structuredOutput?: boolean;
+  imageInput?: boolean;
+};
+
+/**
+ * Convert declared capabilities into the capabilities format of the pricing
+ * config, so custom endpoint models go through the same parameter and tool
+ * gating as OpenRouter models.
+ */
+export function capabilitiesFromDeclaration(
+  declared: DeclaredModelCapabilities = {}
+): ModelCapabilities {
+  const supportedParameters = [...OPENAI_COMPATIBLE_PARAMETERS];
+  if (declared.toolCalling) {
+    supportedParameters.push("tool_choice", "tools");
+  }
+  if (declared.structuredOutput) {
+    supportedParameters.push("response_format", "structured_outputs");
+  }
+  return {
+    input_modalities: declared.imageInput ? ["image", "text"] : ["text"],
+    output_modalities: ["text"],
+    supported_parameters: supportedParameters.sort(),
+    text_generation: true,
+    image_generation: false,
+    embeddings: false,
+    rerank: false,
+    tool_calling: declared.toolCalling === true,
+    structured_output: declared.structuredOutput === true,
+    image: false,
+  };
+}
+
 export function resolveModelCapabilities(
   provider: string,
   modelName?: string
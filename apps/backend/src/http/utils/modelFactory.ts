@@ -155,7 +155,8 @@ export function getOnboardingAgentModel(): string {
 }
 
 /**
- * Create a model instance for OpenRouter
+ * Create a model instance for OpenRouter, or for a custom model endpoint of
+ * the workspace when the model name is a custom model ("custom:{endpointId}:{model}")
  * @param modelName - The model name (optional, defaults to OpenRouter's default)
  * @param workspaceId - Workspace ID to check for workspace API key
  * @param referer - Referer header (kept for compatibility, not used for OpenRouter)
@@ -186,6 +187,16 @@ export async function createModel(
   const finalModelName =
     modelName && modelName !== "auto" ? modelName : getDefaultModel();
 
+  // Models of the workspace's custom endpoints are called on that endpoint.
+  // Resolving one registers its declared pricing and capabilities.
+  // Lazy import to avoid pulling in table dependencies when not needed
+  const { isCustomModelName, resolveCustomModel } = await import(
+    "../../utils/modelEndpoints"
+  );
+  const customModel = isCustomModelName(finalModelName)
+    ? await resolveCustomModel(workspaceId, finalModelName)
+    : undefined;
+
   // Validate that pricing exists for this model
   const pricing = getModelPricing("openrouter", finalModelName);
   if (!pricing) {
@@ -199,7 +210,17 @@ export async function createModel(
   // Lazy import to avoid pulling in documentSearch dependencies when not needed
   let apiKey: string;
   let usesByok = false;
-  if (workspaceId) {
+  if (customModel) {
+    console.log(
+      "[modelFactory] Using custom model endpoint for workspace:",
+      workspaceId
+    );
+    // Never leave the key empty: the provider would fall back to the system
+    // OpenRouter key from the environment. Servers without authentication
+    // ignore the header.
+    apiKey = customModel.endpoint.apiKey || "none";
+    usesByok = true;
+  } else if (workspaceId) {
     const { getWorkspaceApiKey } = await import("./agentUtils");
     const workspaceKey = await getWorkspaceApiKey(workspaceId, "openrouter");
     usesByok = workspaceKey !== null;
@@ -221,30 +242,45 @@ export async function createModel(
     apiKey = getSystemApiKey();
   }
 
-  const openrouter = createOpenRouter({
-    apiKey,
-  });
+  const openrouter = createOpenRouter(
+    customModel
+      ? {
+          baseURL: customModel.endpoint.baseUrl,
+          apiKey,
+          // A redirect could point to an internal address
+          fetch: (input, init) => fetch(input, { ...init, redirect: "manual" }),
+          // Requests the standard OpenAI stream usage chunk, so streamed calls
+          // still report token usage
+          compatibility: "strict",
+        }
+      : { apiKey }
+  );
 
-  // Use the final model name (always a valid model ID, never "auto")
-  const modelNameToUse = finalModelName;
+  // Use the final model name (always a valid model ID, never "auto"), or the
+  // model ID served by the custom endpoint
+  const modelNameToUse = customModel?.model ?? finalModelName;
 
   const modelCapabilities = resolveModelCapabilities(
     "openrouter",
-    modelNameToUse
+    finalModelName
   );
 
   // Build model settings from agent config
   // Note: temperature, topP, etc. are typically passed to generateText/streamText,
   // but we include them here for model-level configuration if the provider supports it
-  const modelSettings: Record<string, unknown> = {
-    reasoning: {
-      effort: "high",
-      enabled: true,
-    },
-    usage: {
-      include: true,
-    },
-  };
+  // Reasoning and usage accounting are OpenRouter extensions, not sent to
+  // custom endpoints
+  const modelSettings: Record<string, unknown> = customModel
+    ? {}
+    : {
+        reasoning: {
+          effort: "high",
+          enabled: true,
+        },
+        usage: {
+          include: true,
+        },
+      };
 
   // Apply agent config advanced options if provided
   // These will be applied at the model level and may also be used in generateText calls
@@ -313,8 +349,9 @@ export async function createModel(
       distinctId = "system";
     }
     // Parse OpenRouter model name to extract actual provider and model
-    const { provider: actualProvider, model: actualModel } =
-      parseOpenRouterModel(finalModelName);
+    const { provider: actualProvider, model: actualModel } = customModel
+      ? { provider: "custom", model: customModel.model }
+      : parseOpenRouterModel(finalModelName);
     const tracedModel = withTracing(model, phClient, {
       posthogDistinctId: distinctId,
       posthogProperties: {
@@ -0,0 +1,136 @@
+import { isRetryableHttpStatus } from "../../utils/webhookCallback";
+
+/**
+ * Model fallback chains: when the model of an agent or eval judge is down,
+ * rate limited or times out, the generation is retried with the next model of
+ * its fallback list. Each attempt is a separate LLM call, so credits are
+ * reserved and priced for the model that was actually called.
+ */
+
+export const MAX_FALLBACK_MODELS = 3;
+
+const NETWORK_ERROR_CODES = new Set([
+  "ETIMEDOUT",
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+  "UND_ERR_SOCKET",
+]);
+
+const TIMEOUT_MESSAGE_PATTERN =
+  /fetch failed|timed out|timeout|socket hang up|network error/i;
+
+/**
+ * Primary model followed by its fallbacks, without duplicates
+ */
+export function getModelFallbackChain(
+  modelName: string,
+  fallbackModelNames?: string[] | null
+): string[] {
+  return [...new Set([modelName, ...(fallbackModelNames ?? [])])];
+}
+
+const getStatusCode = (error: Record<string, unknown>): number | undefined => {
+  const status = error.statusCode ?? error.status;
+  return typeof status === "number" ? status : undefined;
+};
+
+/**
+ * Whether a generation error means the model's provider is unavailable
+ * (rate limits, server errors, timeouts, network failures), so another model
+ * may answer. Request errors (authentication, credits, context length, bad
+ * input) fail the same way with every model and are not retried.
+ */
+export function isModelFallbackError(error: unknown): boolean {
+  let current: unknown = error;
+  // Walk wrapped errors: AI SDK RetryError keeps the last attempt's error,
+  // fetch failures keep the network error as cause
+  for (let depth = 0; depth < 5 && current; depth += 1) {
+    if (typeof current !== "object") {
+      return false;
+    }
+    const candidate = current as Record<string, unknown>;
+    if (candidate.isBoom) {
+      return false;
+    }
+    const statusCode = getStatusCode(candidate);
+    if (statusCode !== undefined) {
+      return isRetryableHttpStatus(statusCode);
+    }
+    if (
+      typeof candidate.code === "string" &&
+      NETWORK_ERROR_CODES.has(candidate.code)
+    ) {
+      return true;
+    }
+    if (candidate.name === "TimeoutError") {
+      return true;
+    }
+    if (
+      candidate.name !== "AI_RetryError" &&
+      typeof candidate.message === "string" &&
+      TIMEOUT_MESSAGE_PATTERN.test(candidate.message)
+    ) {
+      return true;
+    }
+    current = candidate.lastError ?? candidate.cause;
+  }
+  return false;
+}
+
+export type ModelFallbackResult<T> = {
+  result: T;
+  /** Model that answered */
+  modelName: string;
+  /** Models that failed before, in order */
+  failedModelNames: string[];
+};
+
+/**
+ * Runs a generation with each model of the chain in turn until one succeeds.
+ * Errors that are not provider failures, and any error once the caller's
+ * signal was aborted or `canFallback` returns false (e.g. once output was
+ * streamed), are thrown right away.
+ */
+export async function runWithModelFallback<T>(
+  modelNames: string[],
+  attempt: (modelName: string, attemptIndex: number) => Promise<T>,
+  options: {
+    abortSignal?: AbortSignal;
+    logLabel?: string;
+    canFallback?: () => boolean;
+  } = {}
+): Promise<ModelFallbackResult<T>> {
+  const failedModelNames: string[] = [];
+  for (const [index, modelName] of modelNames.entries()) {
+    try {
+      const result = await attempt(modelName, index);
+      return { result, modelName, failedModelNames };
+    } catch (error) {
+      const nextModelName = modelNames[index + 1];
+      if (
+        !nextModelName ||
+        options.abortSignal?.aborted ||
+        options.canFallback?.() === false ||
+        !isModelFallbackError(error)
+      ) {
+        throw error;
+      }
+      failedModelNames.push(modelName);
+      console.warn(
+        `[${options.logLabel ?? "Model Fallback"}] Model failed, falling back:`,
+        {
+          failedModel: modelName,
+          nextModel: nextModelName,
+          error: error instanceof Error ? error.message : String(error),
+        }
+      );
+    }
+  }
+  // Only reached with an empty chain
+  throw new Error("No model available");
+}
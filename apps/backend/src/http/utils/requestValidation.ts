@@ -4,12 +4,20 @@ import type { APIGatewayProxyEventV2 } from "aws-lambda";
 import { database } from "../../tables";
 import { isUserAuthorized } from "../../tables/permissions";
 import { PERMISSION_LEVELS } from "../../tables/schema";
+import { getEndUserIdFromHeaders } from "../../utils/memory/memoryPartitions";
 import type { RequestParams } from "../../utils/messageTypes";
+import {
+  parseOutputSchema,
+  type OutputJsonSchema,
+} from "../../utils/structuredOutput";
+import { parseCallbackUrl } from "../../utils/webhookCallback";
 
 import { parseAndValidateBody } from "./bodyValidation";
 import { streamRequestSchema } from "./schemas/requestSchemas";
 import { requireSession, userRef } from "./session";
 
+// API Gateway lower-cases header names
+const WEBHOOK_OUTPUT_SCHEMA_HEADER = "x-helpmaton-output-schema";
 
 /**
  * Extracts path parameters from rawPath when pathParameters is not available
@@ -213,13 +221,17 @@ function extractWebhookPathParametersFromRawPath(rawPath: string): {
 }
 
 /**
- * Validates webhook request: extracts and validates path parameters and body text
+ * Validates webhook request: extracts and validates path parameters, body text
+ * and the optional `callbackUrl` query parameter
  */
 export function validateWebhookRequest(event: APIGatewayProxyEventV2): {
   workspaceId: string;
   agentId: string;
   key: string;
   bodyText: string;
+  callbackUrl?: string;
+  outputSchema?: OutputJsonSchema;
+  endUserId?: string;
 } {
   // Validate HTTP method
   if (event.requestContext.http.method !== "POST") {
@@ -300,17 +312,102 @@ export function validateWebhookRequest(event: APIGatewayProxyEventV2): {
     throw badRequest("Request body is required");
   }
 
-  return { workspaceId, agentId, key, bodyText };
+  const rawCallbackUrl = event.queryStringParameters?.callbackUrl;
+  let callbackUrl: string | undefined;
+  if (rawCallbackUrl !== undefined) {
+    try {
+      callbackUrl = parseCallbackUrl(rawCallbackUrl);
+    } catch (error) {
+      throw badRequest(
+        error instanceof Error ? error.message : "Invalid callbackUrl"
+      );
+    }
+  }
+
+  // Optional JSON Schema for structured output, sent as JSON in a header so the
+  // body stays free-form text
+  const rawOutputSchema = event.headers?.[WEBHOOK_OUTPUT_SCHEMA_HEADER];
+  let outputSchema: OutputJsonSchema | undefined;
+  if (rawOutputSchema !== undefined) {
+    try {
+      outputSchema = parseOutputSchema(JSON.parse(rawOutputSchema));
+    } catch (error) {
+      throw badRequest(
+        error instanceof SyntaxError
+          ? `${WEBHOOK_OUTPUT_SCHEMA_HEADER} header must contain valid JSON`
+          : error instanceof Error
+            ? error.message
+            : "Invalid outputSchema"
+      );
+    }
+  }
+
+  // Optional end-user ID for agents that keep a separate memory per end user. Webhook
+  // callers authenticate with the agent key, so the ID is trusted without a signature.
+  const endUserId = getEndUserIdFromHeaders(event.headers);
+
+  return {
+    workspaceId,
+    agentId,
+    key,
+    bodyText,
+    ...(callbackUrl ? { callbackUrl } : {}),
+    ...(outputSchema ? { outputSchema } : {}),
+    ...(endUserId ? { endUserId } : {}),
+  };
+}
+
+/**
+ * Validates a webhook result polling request:
+ * GET /api/webhook/:workspaceId/:agentId/:key/conversations/:conversationId
+ */
+export function validateWebhookConversationRequest(
+  event: APIGatewayProxyEventV2
+): {
+  workspaceId: string;
+  agentId: string;
+  key: string;
+  conversationId: string;
+} {
+  if (event.requestContext.http.method !== "GET") {
+    throw badRequest("Method not allowed");
+  }
+
+  let workspaceId = event.pathParameters?.workspaceId;
+  let agentId = event.pathParameters?.agentId;
+  let key = event.pathParameters?.key;
+  let conversationId = event.pathParameters?.conversationId;
+
+  if (!workspaceId || !agentId || !key || !conversationId) {
+    const path = (event.rawPath || event.requestContext?.http?.path || "").split(
+      "?"
+    )[0];
+    const match = path.match(
+      /^\/api\/webhook\/([^/]+)\/([^/]+)\/([^/]+)\/conversations\/([^/]+)\/?$/
+    );
+    if (match) {
+      [, workspaceId, agentId, key, conversationId] = match;
+    }
+  }
+
+  if (!workspaceId || !agentId || !key || !conversationId) {
+    throw badRequest(
+      "workspaceId, agentId, key, and conversationId are required in the URL path"
+    );
+  }
+
+  return { workspaceId, agentId, key, conversationId };
 }
 
 /**
  * Validates webhook key against the database
+ * @returns The ID of the matching agent key
  */
 export async function validateWebhookKey(
   workspaceId: string,
   agentId: string,
   key: string
-): Promise<void> {
+): Promise<string> {
   const db = await database();
 
   // Query agent-key table by agentId using GSI
@@ -332,6 +429,9 @@ export async function validateWebhookKey(
   if (!agentKey) {
     throw unauthorized("Invalid webhook key");
   }
+
+  // pk format: "agent-keys/{workspaceId}/{agentId}/{keyId}"
+  return agentKey.pk.split("/").pop() ?? "";
 }
 
 /**
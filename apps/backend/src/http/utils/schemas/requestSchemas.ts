@@ -1,5 +1,7 @@
 import { z } from "zod";
 
+import { FEEDBACK_COMMENT_MAX_LENGTH } from "../../../utils/conversationFeedback";
+
 /**
  * Schema for UIMessage content - supports both string and array formats
  * This is a flexible schema that allows the various content formats used in UIMessage
@@ -173,6 +175,35 @@ export const improvePromptFromEvalsRequestSchema = z
           })
           .strict()
       )
-      .min(1, "selectedEvaluations must include at least one evaluation"),
+      .default([]),
+    // Also learn from end-user feedback: thumbs-down ratings only, or all ratings
+    includeFeedback: z.enum(["negative", "all"]).optional(),
+  })
+  .strict()
+  .refine(
+    (body) => body.selectedEvaluations.length > 0 || !!body.includeFeedback,
+    {
+      message:
+        "selectedEvaluations must include at least one evaluation unless includeFeedback is set",
+      path: ["selectedEvaluations"],
+    }
+  );
+
+/**
+ * Schema for end-user feedback on an agent reply from the chat widget
+ * Used in POST /api/widget/:workspaceId/:agentId/:key/feedback
+ */
+export const widgetFeedbackRequestSchema = z
+  .object({
+    conversationId: z.string().min(1, "conversationId is required"),
+    messageId: z.string().min(1, "messageId is required"),
+    rating: z.enum(["positive", "negative"]),
+    comment: z
+      .string()
+      .max(
+        FEEDBACK_COMMENT_MAX_LENGTH,
+        `comment must be at most ${FEEDBACK_COMMENT_MAX_LENGTH} characters`
+      )
+      .optional(),
   })
   .strict();
@@ -7,3 +7,22 @@ import { z } from "zod";
 export const modifySubscriptionSchema = z.object({
   plan: z.enum(["starter", "pro"]),
 }).strict();
+
+export const ssoConfigSchema = z
+  .object({
+    protocol: z.literal("oidc").default("oidc"),
+    domain: z.string().min(1),
+    issuer: z
+      .url()
+      .refine((value) => value.startsWith("https://"), {
+        message: "Issuer must be an https URL",
+      }),
+    clientId: z.string().min(1),
+    clientSecret: z.string().min(1).optional(), // keeps the stored secret when omitted
+    scopes: z.string().optional(),
+    provisionWorkspaceIds: z.array(z.string()).default([]),
+    defaultPermissionLevel: z.number().int().min(1).max(3).default(1),
+    enforceSso: z.boolean().default(false),
+    enabled: z.boolean().default(true),
+  })
+  .strict();
@@ -1,11 +1,50 @@
 import { z } from "zod";
 
+import {
+  isValidIpAllowlistEntry,
+  USER_API_KEY_CAPABILITIES,
+  type UserApiKeyCapability,
+} from "../../../utils/apiKeyScope";
+
 /**
  * User API key schemas
  */
 
 export const createUserApiKeySchema = z.object({
   name: z.string().optional(),
+  workspaceIds: z
+    .array(z.string().min(1))
+    .min(1, "workspaceIds must contain at least one workspace")
+    .max(100)
+    .optional(),
+  capabilities: z
+    .array(
+      z.enum(
+        USER_API_KEY_CAPABILITIES as [
+          UserApiKeyCapability,
+          ...UserApiKeyCapability[],
+        ]
+      )
+    )
+    .min(1, "capabilities must contain at least one capability")
+    .optional(),
+  expiresAt: z.iso
+    .datetime()
+    .refine((value) => new Date(value).getTime() > Date.now(), {
+      message: "expiresAt must be in the future",
+    })
+    .optional(),
+  allowedIps: z
+    .array(
+      z
+        .string()
+        .transform((value) => value.trim())
+        .refine(isValidIpAllowlistEntry, {
+          message: "allowedIps entries must be IP addresses or CIDR ranges",
+        })
+    )
+    .max(50)
+    .optional(),
 }).strict();
 
 /**
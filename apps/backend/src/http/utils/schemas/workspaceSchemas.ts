@@ -1,6 +1,16 @@
 import { z } from "zod";
 
-import { isValidCronExpression } from "../../../utils/cron";
+import { FEEDBACK_COMMENT_MAX_LENGTH } from "../../../utils/conversationFeedback";
+import { isValidCronExpression, isValidTimezone } from "../../../utils/cron";
+import { MAX_EVAL_DATASET_CASES } from "../../../utils/evalDataset";
+import { MAX_ENDPOINT_MODELS } from "../../../utils/modelEndpoints";
+import { isNonPublicHostname } from "../../../utils/publicAddress";
+import {
+  APPROVABLE_BUILT_IN_TOOL_NAMES,
+  TOOL_APPROVAL_MAX_TIMEOUT_MINUTES,
+} from "../../../utils/toolApproval";
+import { isLocalSandbox } from "../../../utils/webhookCallback";
+import { MAX_FALLBACK_MODELS } from "../modelFallback";
 
 /**
  * Common schemas reused across multiple request types
@@ -42,6 +52,25 @@ const spendingLimitSchema = z
   })
   .strict();
 
+// Models tried in order when the primary model's provider fails
+const fallbackModelNamesSchema = z
+  .array(z.string().min(1))
+  .max(MAX_FALLBACK_MODELS);
+
+// Tools whose calls wait for a human decision before they run
+const toolApprovalSchema = z
+  .object({
+    toolNames: z.array(z.enum(APPROVABLE_BUILT_IN_TOOL_NAMES)).optional(),
+    mcpServerToolNames: z.record(z.string(), z.array(z.string())).optional(),
+    timeoutMinutes: z
+      .number()
+      .int()
+      .positive()
+      .max(TOOL_APPROVAL_MAX_TIMEOUT_MINUTES)
+      .optional(),
+  })
+  .strict();
+
 // Summarization prompt overrides per temporal grain
 const summarizationPromptsSchema = z
   .object({
@@ -56,9 +85,35 @@ const cronExpressionSchema = z
   .string()
   .min(1, "cronExpression is required and must be a string")
   .refine(isValidCronExpression, {
-    message: "cronExpression must be a valid cron expression (UTC)",
+    message: "cronExpression must be a valid cron expression",
   });
 
+const timezoneSchema = z.string().refine(isValidTimezone, {
+  message: "timezone must be a valid IANA timezone (e.g. Europe/Lisbon)",
+});
+
+export const scheduleDeliverySchema = z.discriminatedUnion("type", [
+  z
+    .object({
+      type: z.literal("channel"),
+      channelId: z.string().min(1, "delivery.channelId is required"),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("email"),
+      recipients: z
+        .array(z.email("delivery.recipients must contain valid email addresses"))
+        .min(1, "delivery.recipients must contain at least one email address")
+        .max(10, "delivery.recipients must contain at most 10 email addresses"),
+      subjectTemplate: z
+        .string()
+        .max(200, "delivery.subjectTemplate must be at most 200 characters")
+        .optional(),
+    })
+    .strict(),
+]);
+
 /**
  * Workspace schemas
  */
@@ -89,6 +144,8 @@ export const createAgentSchema = z
       .min(1, "systemPrompt is required and must be a string"),
     notificationChannelId: z.string().nullable().optional(),
     modelName: z.string().nullable().optional(),
+    fallbackModelNames: fallbackModelNamesSchema.nullable().optional(),
+    toolApproval: toolApprovalSchema.nullable().optional(),
     clientTools: z.array(clientToolSchema).optional(),
     enableImageGeneration: z.boolean().optional(),
     imageGenerationModel: z.string().nullable().optional(),
@@ -97,6 +154,7 @@ export const createAgentSchema = z
     memoryExtractionEnabled: z.boolean().optional(),
     memoryExtractionModel: z.string().nullable().optional(),
     memoryExtractionPrompt: z.string().nullable().optional(),
+    memoryPartitionByEndUser: z.boolean().optional(),
   })
   .strict();
 
@@ -117,6 +175,8 @@ export const updateAgentSchema = z
     enableKnowledgeInjection: z.boolean().optional(),
     enableKnowledgeInjectionFromMemories: z.boolean().optional(),
     enableKnowledgeInjectionFromDocuments: z.boolean().optional(),
+    knowledgeFolderPaths: z.array(z.string().max(512)).max(50).nullable().optional(),
+    knowledgeTags: z.array(z.string().trim().min(1).max(50)).max(50).nullable().optional(),
     knowledgeInjectionSnippetCount: z.number().int().positive().optional(),
     knowledgeInjectionMinSimilarity: z.number().min(0).max(1).optional(),
     knowledgeInjectionEntityExtractorModel: z.string().nullable().optional(),
@@ -150,10 +210,14 @@ export const updateAgentSchema = z
     maxOutputTokens: z.number().int().positive().nullable().optional(),
     stopSequences: z.array(z.string()).nullable().optional(),
     maxToolRoundtrips: z.number().int().positive().nullable().optional(),
+    outputSchema: z.record(z.string(), z.unknown()).nullable().optional(),
     modelName: z.string().nullable().optional(),
+    fallbackModelNames: fallbackModelNamesSchema.nullable().optional(),
+    toolApproval: toolApprovalSchema.nullable().optional(),
     memoryExtractionEnabled: z.boolean().optional(),
     memoryExtractionModel: z.string().nullable().optional(),
     memoryExtractionPrompt: z.string().nullable().optional(),
+    memoryPartitionByEndUser: z.boolean().optional(),
     avatar: z.string().nullable().optional(),
   })
   .strict();
@@ -166,7 +230,9 @@ export const createAgentScheduleSchema = z
   .object({
     name: z.string().min(1, "name is required and must be a string"),
     cronExpression: cronExpressionSchema,
+    timezone: timezoneSchema.optional(),
     prompt: z.string().min(1, "prompt is required and must be a string"),
+    delivery: scheduleDeliverySchema.optional(),
     enabled: z.boolean().optional(),
   })
   .strict();
@@ -175,7 +241,9 @@ export const updateAgentScheduleSchema = z
   .object({
     name: z.string().min(1).optional(),
     cronExpression: cronExpressionSchema.optional(),
+    timezone: timezoneSchema.optional(),
     prompt: z.string().min(1).optional(),
+    delivery: scheduleDeliverySchema.nullable().optional(), // null removes the delivery target
     enabled: z.boolean().optional(),
   })
   .strict();
@@ -222,11 +290,16 @@ export const textDocumentSchema = z
 
 export const textDocumentsArraySchema = z.array(textDocumentSchema);
 
+export const documentTagsSchema = z
+  .array(z.string().trim().min(1).max(50))
+  .max(20);
+
 export const updateDocumentSchema = z
   .object({
     name: z.string().min(1).optional(),
     content: z.string().optional(),
     folderPath: z.string().optional(),
+    tags: documentTagsSchema.optional(),
   })
   .strict();
 
@@ -270,7 +343,7 @@ export const createInviteSchema = z
 
 export const createIntegrationSchema = z
   .object({
-    platform: z.enum(["slack", "discord"]),
+    platform: z.enum(["slack", "discord", "teams", "telegram"]),
     name: z.string().min(1, "name is required and must be a string"),
     agentId: z.string().min(1, "agentId is required and must be a string"),
     config: z.record(z.string(), z.unknown()),
@@ -495,6 +568,81 @@ export const updateApiKeySchema = z
   })
   .strict();
 
+/**
+ * Custom model endpoint schemas
+ */
+
+const modelEndpointModelSchema = z
+  .object({
+    name: z.string().trim().min(1, "model name is required"),
+    contextLength: z.number().int().positive().optional(),
+    capabilities: z
+      .object({
+        toolCalling: z.boolean().optional(),
+        structuredOutput: z.boolean().optional(),
+        imageInput: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    pricing: z
+      .object({
+        input: z.number().min(0),
+        output: z.number().min(0),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+const modelEndpointModelsSchema = z
+  .array(modelEndpointModelSchema)
+  .min(1, "models must contain at least one model")
+  .max(MAX_ENDPOINT_MODELS)
+  .refine(
+    (models) => new Set(models.map((model) => model.name)).size === models.length,
+    { message: "models must have unique names" }
+  );
+
+// Like webhook callback URLs: http and local hosts only in the local sandbox.
+// The resolved addresses are checked when the endpoint is saved and before each call.
+const modelEndpointBaseUrlSchema = z
+  .string()
+  .url("baseUrl must be a valid URL")
+  .refine(
+    (url) =>
+      /^https:\/\//i.test(url) ||
+      (isLocalSandbox() && /^http:\/\//i.test(url)),
+    { message: "baseUrl must use https" }
+  )
+  .refine(
+    (url) => {
+      try {
+        return isLocalSandbox() || !isNonPublicHostname(new URL(url).hostname);
+      } catch {
+        return true; // reported by the URL check
+      }
+    },
+    { message: "baseUrl must point to a public host" }
+  );
+
+export const createModelEndpointSchema = z
+  .object({
+    name: z.string().trim().min(1, "name is required"),
+    baseUrl: modelEndpointBaseUrlSchema,
+    apiKey: z.string().optional(),
+    models: modelEndpointModelsSchema,
+  })
+  .strict();
+
+export const updateModelEndpointSchema = z
+  .object({
+    name: z.string().trim().min(1, "name is required").optional(),
+    baseUrl: modelEndpointBaseUrlSchema.optional(),
+    apiKey: z.string().optional(), // empty string removes the key
+    models: modelEndpointModelsSchema.optional(),
+  })
+  .strict();
+
 /**
  * Credits purchase schema
  */
@@ -541,6 +689,7 @@ export const createEvalJudgeSchema = z
       .default(100),
     provider: z.enum(["openrouter"]).default("openrouter"), // Only openrouter is supported for eval judges
     modelName: z.string().min(1, "modelName is required and must be a string"),
+    fallbackModelNames: fallbackModelNamesSchema.optional(),
     evalPrompt: z
       .string()
       .min(1, "evalPrompt is required and must be a string"),
@@ -554,6 +703,106 @@ export const updateEvalJudgeSchema = z
     samplingProbability: z.number().int().min(0).max(100).optional(),
     provider: z.enum(["openrouter"]).optional(), // Only openrouter is supported for eval judges
     modelName: z.string().min(1).optional(),
+    fallbackModelNames: fallbackModelNamesSchema.optional(),
     evalPrompt: z.string().min(1).optional(),
   })
   .strict();
+
+const evalDatasetCaseSchema = z
+  .object({
+    caseId: z.string().min(1).max(100).optional(), // kept so runs can be compared case by case
+    input: z.string().trim().min(1, "input is required").max(20000),
+    expectedOutput: z.string().max(20000).nullable().optional(),
+    rubric: z.string().max(5000).nullable().optional(),
+  })
+  .strict();
+
+const evalDatasetCasesSchema = z
+  .array(evalDatasetCaseSchema)
+  .max(
+    MAX_EVAL_DATASET_CASES,
+    `A dataset can have at most ${MAX_EVAL_DATASET_CASES} cases`
+  )
+  .refine(
+    (cases) => {
+      const caseIds = cases.flatMap((c) => (c.caseId ? [c.caseId] : []));
+      return new Set(caseIds).size === caseIds.length;
+    },
+    { message: "caseId values must be unique" }
+  );
+
+export const createEvalDatasetSchema = z
+  .object({
+    name: z.string().trim().min(1, "name is required").max(200),
+    description: z.string().max(2000).optional(),
+    cases: evalDatasetCasesSchema,
+  })
+  .strict();
+
+export const updateEvalDatasetSchema = z
+  .object({
+    name: z.string().trim().min(1).max(200).optional(),
+    description: z.string().max(2000).nullable().optional(),
+    cases: evalDatasetCasesSchema.optional(),
+  })
+  .strict();
+
+export const startEvalRunSchema = z
+  .object({
+    label: z.string().trim().max(200).optional(),
+    systemPrompt: z.string().trim().min(1).optional(), // candidate prompt instead of the agent's
+    modelName: z.string().trim().min(1).optional(), // candidate model instead of the agent's
+  })
+  .strict();
+
+export const decideToolApprovalSchema = z
+  .object({
+    decision: z.enum(["approve", "reject"]),
+    args: z.record(z.string(), z.unknown()).optional(), // edited arguments, approve only
+    reason: z.string().max(1000).optional(),
+  })
+  .strict()
+  .refine((body) => body.decision === "approve" || body.args === undefined, {
+    message: "args can only be provided when approving",
+    path: ["args"],
+  });
+
+export const conversationFeedbackSchema = z
+  .object({
+    messageId: z.string().min(1), // request ID of the rated reply
+    rating: z.enum(["positive", "negative"]),
+    comment: z.string().max(FEEDBACK_COMMENT_MAX_LENGTH).optional(),
+    userId: z.string().min(1).max(256).optional(), // end user in the reporting integration
+  })
+  .strict();
+
+const memoryRecordContentSchema = z
+  .string()
+  .trim()
+  .min(1, "content is required")
+  .max(20000);
+
+export const createMemoryRecordSchema = z
+  .object({
+    grain: z
+      .enum(["working", "daily", "weekly", "monthly", "quarterly", "yearly"])
+      .optional(),
+    content: memoryRecordContentSchema,
+    timestamp: z.iso.datetime().optional(), // places the record in time, defaults to now
+  })
+  .strict();
+
+export const updateMemoryRecordSchema = z
+  .object({
+    content: memoryRecordContentSchema,
+    timestamp: z.iso.datetime().optional(),
+  })
+  .strict();
+
+export const graphFactSchema = z
+  .object({
+    source_id: z.string().trim().min(1, "source_id is required").max(500),
+    label: z.string().trim().min(1, "label is required").max(200),
+    target_id: z.string().trim().min(1, "target_id is required").max(500),
+  })
+  .strict();
@@ -13,6 +13,7 @@ import {
   resolveToolsForCapabilities,
 } from "./modelCapabilities";
 import { getDefaultModel } from "./modelFactory";
+import { isModelFallbackError } from "./modelFallback";
 import {
   writeChunkToStream,
   type HttpResponseStream,
@@ -32,6 +33,9 @@ type FilePartPayload = {
 
 const MAX_ASSISTANT_FILE_SIZE = 10 * 1024 * 1024;
 
+// UI stream events sent before the model produces any output
+const STREAM_PREAMBLE_EVENT_TYPES = new Set(["start", "start-step"]);
+
 function isObject(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null;
 }
@@ -328,6 +332,20 @@ function recordObserverEvent(params: {
   }
 }
 
+function getSseEventType(line: string): string | undefined {
+  if (!line.startsWith("data: ")) {
+    return undefined;
+  }
+  try {
+    const parsed: unknown = JSON.parse(line.substring(6));
+    return isObject(parsed) && typeof parsed.type === "string"
+      ? parsed.type
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 async function transformSseLine(params: {
   line: string;
   observer?: LlmObserver;
@@ -413,6 +431,8 @@ async function transformSseLine(params: {
 /**
  * Pipes the AI stream to the response stream
  * Reads from the UI message stream and writes chunks to responseStream as they arrive
+ * With `allowFallback`, a provider failure before any model output is thrown
+ * without writing anything, so the caller can retry with a fallback model
  */
 export async function pipeAIStreamToResponse(
   agent: Awaited<ReturnType<typeof setupAgentAndTools>>["agent"],
@@ -424,7 +444,9 @@ export async function pipeAIStreamToResponse(
   abortSignal?: AbortSignal,
   onDataWritten?: () => void, // Callback to notify when data is written to stream
   observer?: LlmObserver, // Optional LLM observer for event capture
-  fileUploadContext?: FileUploadContext
+  fileUploadContext?: FileUploadContext,
+  requestId?: string, // Sent as message metadata so clients can refer to the reply (e.g. feedback)
+  options: { allowFallback?: boolean } = {}
 ): Promise<Awaited<ReturnType<typeof streamText>>> {
   const resolvedModelName =
     typeof agent.modelName === "string" && agent.modelName.length > 0
@@ -465,6 +487,9 @@ export async function pipeAIStreamToResponse(
     ...generateOptions,
   });
 
+  // The UI stream only carries the error text; keep the error itself so
+  // provider failures can be told apart from request errors
+  let providerError: unknown;
   const streamResult = streamText({
     model: model as unknown as Parameters<typeof streamText>[0]["model"],
     system: effectiveSystemPrompt,
@@ -473,13 +498,24 @@ export async function pipeAIStreamToResponse(
     ...generateOptions,
     ...(abortSignal && { abortSignal }),
     ...(observerCallbacks ? observerCallbacks : {}),
+    onError: ({ error }) => {
+      providerError = error;
+      console.error("[Stream Handler] streamText error:", error);
+    },
   });
 
   // Get the UI message stream response from streamText result
   // This might throw NoOutputGeneratedError if there was an error during streaming
   // This returns SSE format (Server-Sent Events) that useChat expects
   // Errors will be caught by the outer handler which has access to usesByok
-  const streamResponse = streamResult.toUIMessageStreamResponse();
+  const streamResponse = streamResult.toUIMessageStreamResponse(
+    requestId
+      ? {
+          messageMetadata: ({ part }) =>
+            part.type === "start" ? { requestId } : undefined,
+        }
+      : undefined
+  );
 
   // Read from the stream and write chunks to responseStream immediately as they arrive
   // This ensures true streaming without buffering
@@ -494,6 +530,29 @@ export async function pipeAIStreamToResponse(
   let hasWrittenData = false; // Track if we've written any data to the stream
   const toolNamesByCallId = new Map<string, string>();
 
+  // Hold back the stream preamble until the model produces output, so a
+  // failed attempt leaves the response untouched
+  let holdingOutput = options.allowFallback === true;
+  const heldChunks: string[] = [];
+  const writeOutput = async (output: string) => {
+    if (holdingOutput) {
+      heldChunks.push(output);
+      return;
+    }
+    await writeChunkToStream(responseStream, output);
+  };
+  const releaseHeldOutput = async () => {
+    holdingOutput = false;
+    if (heldChunks.length === 0) {
+      return;
+    }
+    hasWrittenData = true;
+    onDataWritten?.();
+    for (const output of heldChunks.splice(0)) {
+      await writeChunkToStream(responseStream, output);
+    }
+  };
+
   try {
     while (true) {
       // Check if signal is aborted before reading next chunk
@@ -504,9 +563,11 @@ export async function pipeAIStreamToResponse(
       const { done, value } = await reader.read();
       if (done) break;
       if (value) {
-        hasWrittenData = true;
-        // Notify that data has been written (for timeout handling)
-        onDataWritten?.();
+        if (!holdingOutput) {
+          hasWrittenData = true;
+          // Notify that data has been written (for timeout handling)
+          onDataWritten?.();
+        }
 
         const chunk = decoder.decode(value, { stream: true });
 
@@ -518,6 +579,16 @@ export async function pipeAIStreamToResponse(
         sseBuffer = lines.pop() || "";
 
         for (const line of lines) {
+          if (holdingOutput) {
+            const eventType = getSseEventType(line);
+            if (eventType === "error" && isModelFallbackError(providerError)) {
+              await reader.cancel().catch(() => undefined);
+              throw providerError;
+            }
+            if (eventType && !STREAM_PREAMBLE_EVENT_TYPES.has(eventType)) {
+              await releaseHeldOutput();
+            }
+          }
           try {
             const transformed = await transformSseLine({
               line,
@@ -533,9 +604,9 @@ export async function pipeAIStreamToResponse(
                 filename: filePart.filename,
               });
             }
-            await writeChunkToStream(responseStream, `${transformed.line}\n\n`);
+            await writeOutput(`${transformed.line}\n\n`);
             for (const extraLine of transformed.extraLines) {
-              await writeChunkToStream(responseStream, `${extraLine}\n\n`);
+              await writeOutput(`${extraLine}\n\n`);
             }
           } catch (error) {
             console.error("[Stream Handler] Error parsing JSON:", line);
@@ -549,12 +620,16 @@ export async function pipeAIStreamToResponse(
               },
               level: "warning",
             });
-            await writeChunkToStream(responseStream, `${line}\n`);
+            await writeOutput(`${line}\n`);
           }
         }
       }
     }
 
+    if (holdingOutput) {
+      await releaseHeldOutput();
+    }
+
     if (sseBuffer.length > 0) {
       await writeChunkToStream(responseStream, sseBuffer);
     }
@@ -2,15 +2,41 @@ import { forbidden, unauthorized } from "@hapi/boom";
 import type { APIGatewayProxyEventV2 } from "aws-lambda";
 
 import { isUserAuthorized } from "../../tables/permissions";
+import {
+  hasApiKeyCapability,
+  isWorkspaceInApiKeyScope,
+} from "../../utils/apiKeyScope";
+import { authenticateUserApiKey } from "../../utils/apiKeyUtils";
 import type { LambdaUrlEvent } from "../../utils/httpEventAdapter";
 import { validateSecret } from "../../utils/streamServerUtils";
 import { verifyAccessToken } from "../../utils/tokenUtils";
 
 import type { EndpointType } from "./streamEndpointDetection";
 
+const authenticateApiKeyForAgentCall = async (
+  event: LambdaUrlEvent | APIGatewayProxyEventV2,
+  workspaceId: string,
+  token: string
+): Promise<string> => {
+  const authenticated = await authenticateUserApiKey(token, {
+    sourceIp: event.requestContext?.http?.sourceIp,
+  });
+  if (!authenticated) {
+    throw unauthorized("Invalid or expired API key");
+  }
+  const { userId, scope } = authenticated;
+  if (
+    !isWorkspaceInApiKeyScope(scope, workspaceId) ||
+    !hasApiKeyCapability(scope, ["agents"])
+  ) {
+    throw forbidden("This API key is not allowed to call agents in this workspace");
+  }
+  return userId;
+};
+
 /**
  * Authenticates request based on endpoint type
- * Test endpoint: JWT Bearer token authentication
+ * Test endpoint: Bearer token authentication (JWT access token or user API key)
  * Stream endpoint: Secret validation
  */
 export async function authenticateStreamRequest(
@@ -28,11 +54,13 @@ export async function authenticateStreamRequest(
       throw unauthorized("Missing or invalid Authorization header");
     }
     const token = authHeader.substring(7);
-    // Verify token
-    const tokenPayload = await verifyAccessToken(token);
+    // Verify token (JWT access token, or a user API key allowed to call agents)
+    const userId = token.startsWith("hmat_")
+      ? await authenticateApiKeyForAgentCall(event, workspaceId, token)
+      : (await verifyAccessToken(token)).userId;
 
     // Verify workspace access (similar to Express middleware)
-    const userRef = `users/${tokenPayload.userId}`;
+    const userRef = `users/${userId}`;
     const resource = `workspaces/${workspaceId}`;
     const [authorized] = await isUserAuthorized(userRef, resource, 1); // READ permission
 
@@ -40,7 +68,7 @@ export async function authenticateStreamRequest(
       throw forbidden("Insufficient permissions to access this workspace");
     }
 
-    return { authenticated: true, userId: tokenPayload.userId };
+    return { authenticated: true, userId };
   } else {
     // Validate secret
     if (!secret) {
@@ -23,7 +23,7 @@ export function computeCorsHeaders(
     headers["Access-Control-Allow-Origin"] = allowOrigin;
     headers["Access-Control-Allow-Methods"] = "GET, POST, OPTIONS";
     headers["Access-Control-Allow-Headers"] =
-      "Content-Type, Authorization, X-Requested-With, Origin, Accept, X-Conversation-Id";
+      "Content-Type, Authorization, X-Requested-With, Origin, Accept, X-Conversation-Id, X-End-User-Id, X-End-User-Signature";
     if (allowOrigin !== "*") {
       headers["Access-Control-Allow-Credentials"] = "true";
     }
@@ -36,7 +36,7 @@ export function computeCorsHeaders(
     headers["Access-Control-Allow-Origin"] = "*";
     headers["Access-Control-Allow-Methods"] = "GET, POST, OPTIONS";
     headers["Access-Control-Allow-Headers"] =
-      "Content-Type, Authorization, X-Requested-With, Origin, Accept, X-Conversation-Id";
+      "Content-Type, Authorization, X-Requested-With, Origin, Accept, X-Conversation-Id, X-End-User-Id, X-End-User-Signature";
     return headers;
   }
 
@@ -53,7 +53,7 @@ export function computeCorsHeaders(
 
   headers["Access-Control-Allow-Methods"] = "GET, POST, OPTIONS";
   headers["Access-Control-Allow-Headers"] =
-    "Content-Type, Authorization, X-Requested-With, Origin, Accept, X-Conversation-Id";
+    "Content-Type, Authorization, X-Requested-With, Origin, Accept, X-Conversation-Id, X-End-User-Id, X-End-User-Signature";
 
   console.log("[Stream Handler] Response headers:", headers);
   return headers;
@@ -199,6 +199,7 @@ export async function persistConversationError(
       context.awsRequestId,
       conversationType,
       lambdaContext,
+      context.endUserId,
     );
   } catch (logError) {
     console.error("[Stream Handler] Failed to persist conversation error:", {
@@ -4,9 +4,16 @@ import {
   type StreamTextResultWithResolvedUsage,
   type TokenUsage,
 } from "../../utils/conversationLogger";
+import { isCustomModelName } from "../../utils/modelEndpoints";
+import { getContextFromRequestId } from "../../utils/workspaceCreditContext";
 
+import { cleanupReservationOnError } from "./generationCreditManagement";
 import { extractTokenUsageAndCosts } from "./generationTokenExtraction";
 import { getGenerationTimingFromObserver } from "./llmObserver";
+import {
+  getModelFallbackChain,
+  runWithModelFallback,
+} from "./modelFallback";
 import {
   isTimeoutError,
   createTimeoutError,
@@ -16,7 +23,10 @@ import {
   handleStreamingError,
   handleResultExtractionError,
 } from "./streamErrorHandling";
-import type { StreamRequestContext } from "./streamRequestContext";
+import {
+  validateCreditsAndReserveBeforeLLM,
+  type StreamRequestContext,
+} from "./streamRequestContext";
 import type { HttpResponseStream } from "./streamResponseStream";
 
 /**
@@ -52,6 +62,125 @@ function recordFinalTextIfNotStreamed(params: {
   observer.recordText(finalResponseText);
 }
 
+/**
+ * Points the request context at a fallback model: refunds the failed model's
+ * reservation and reserves credits for the next model, so post-processing
+ * settles and logs the model that answered
+ */
+async function switchToFallbackModel(
+  context: StreamRequestContext,
+  modelName: string,
+  failure: unknown
+): Promise<void> {
+  const { modelFallback } = context;
+  if (!modelFallback) {
+    throw new Error("Agent has no fallback models");
+  }
+  const lambdaContext = getContextFromRequestId(context.awsRequestId);
+  if (
+    context.reservationId &&
+    context.reservationId !== "byok" &&
+    lambdaContext
+  ) {
+    await cleanupReservationOnError(
+      context.db,
+      context.reservationId,
+      context.workspaceId,
+      context.agentId,
+      "openrouter",
+      context.finalModelName,
+      failure,
+      true,
+      context.usesByok,
+      context.endpointType as "test" | "stream",
+      lambdaContext
+    );
+  }
+  // The old reservation is settled; don't refund it again if reserving fails
+  context.reservationId = undefined;
+
+  const agent = { ...context.agent, modelName };
+  const usesByok = modelFallback.usesByok || isCustomModelName(modelName);
+  context.model = await modelFallback.createModel(modelName);
+  context.agent = agent;
+  context.finalModelName = modelName;
+  context.usesByok = usesByok;
+  context.reservationId = await validateCreditsAndReserveBeforeLLM(
+    context.db,
+    context.workspaceId,
+    context.agentId,
+    agent,
+    context.modelMessages,
+    context.tools,
+    usesByok,
+    context.endpointType,
+    lambdaContext,
+    context.conversationId
+  );
+}
+
+/**
+ * Pipes the agent's stream to the response, switching to the agent's fallback
+ * models while a model fails before any output was written
+ */
+async function pipeStreamWithModelFallback(
+  context: StreamRequestContext,
+  responseStream: HttpResponseStream,
+  onTextChunk: (textDelta: string) => void,
+  abortSignal?: AbortSignal,
+  onDataWritten?: () => void
+): ReturnType<typeof pipeAIStreamToResponse> {
+  const modelNames = context.modelFallback
+    ? getModelFallbackChain(
+        context.finalModelName,
+        context.agent.fallbackModelNames
+      )
+    : [context.finalModelName];
+  let hasOutput = false;
+  let lastFailure: unknown;
+
+  const fallback = await runWithModelFallback(
+    modelNames,
+    async (modelName, attemptIndex) => {
+      if (attemptIndex > 0) {
+        await switchToFallbackModel(context, modelName, lastFailure);
+      }
+      try {
+        return await pipeAIStreamToResponse(
+          context.agent,
+          context.model,
+          context.modelMessages,
+          context.tools,
+          responseStream,
+          onTextChunk,
+          abortSignal,
+          () => {
+            hasOutput = true;
+            onDataWritten?.();
+          },
+          context.llmObserver,
+          {
+            workspaceId: context.workspaceId,
+            agentId: context.agentId,
+            conversationId: context.conversationId,
+          },
+          context.awsRequestId,
+          { allowFallback: attemptIndex < modelNames.length - 1 }
+        );
+      } catch (error) {
+        lastFailure = error;
+        throw error;
+      }
+    },
+    {
+      abortSignal,
+      logLabel: "Stream Handler",
+      canFallback: () => !hasOutput,
+    }
+  );
+  return fallback.result;
+}
+
 /**
  * Executes the AI stream and handles all processing
  * Returns the execution result or null if an error was handled
@@ -74,11 +203,8 @@ export async function executeStream(
   try {
     generationStartTime = Date.now();
     generationStartedAt = new Date().toISOString();
-    streamResult = await pipeAIStreamToResponse(
-      context.agent,
-      context.model,
-      context.modelMessages,
-      context.tools,
+    streamResult = await pipeStreamWithModelFallback(
+      context,
       responseStream,
       (textDelta) => {
         fullStreamedText += textDelta;
@@ -87,12 +213,6 @@ export async function executeStream(
       () => {
         // Callback to track when data is actually written to the stream
         hasWrittenData = true;
-      },
-      context.llmObserver,
-      {
-        workspaceId: context.workspaceId,
-        agentId: context.agentId,
-        conversationId: context.conversationId,
       }
     );
     
@@ -214,23 +334,13 @@ export async function executeStreamForApiGateway(
   const generationStartTime = Date.now();
   let generationStartedAt = new Date().toISOString();
 
-  const streamResult = await pipeAIStreamToResponse(
-    context.agent,
-    context.model,
-    context.modelMessages,
-    context.tools,
+  const streamResult = await pipeStreamWithModelFallback(
+    context,
     mockStream,
     (textDelta) => {
       fullStreamedText += textDelta;
     },
-    abortSignal,
-    undefined, // No need to track data written for API Gateway (buffered)
-    context.llmObserver,
-    {
-      workspaceId: context.workspaceId,
-      agentId: context.agentId,
-      conversationId: context.conversationId,
-    }
+    abortSignal
   );
 
   if (!streamResult) {
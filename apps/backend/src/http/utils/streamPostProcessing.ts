@@ -258,7 +258,8 @@ export async function logConversation(
       undefined,
       context.awsRequestId,
       conversationType,
-      lambdaContext
+      lambdaContext,
+      context.endUserId
     ).catch((error) => {
       console.error("[Stream Handler] Error logging conversation:", {
         error: error instanceof Error ? error.message : String(error),
@@ -11,8 +11,12 @@ import {
 } from "../../http/utils/messageConversion";
 import { database } from "../../tables";
 import { buildSystemPromptWithSkills } from "../../utils/agentSkills";
+import { compactConversationIfNeeded } from "../../utils/conversationCompaction";
+import { formatDocumentSource } from "../../utils/documentSearch";
 import type { LambdaUrlEvent } from "../../utils/httpEventAdapter";
+import { getVerifiedEndUserIdFromHeaders } from "../../utils/memory/memoryPartitions";
 import type { UIMessage } from "../../utils/messageTypes";
+import { isCustomModelName } from "../../utils/modelEndpoints";
 import { getAllowedOrigins } from "../../utils/streamServerUtils";
 import { getContextFromRequestId } from "../../utils/workspaceCreditContext";
 
@@ -20,7 +24,10 @@ import { getWorkspaceApiKey } from "./agent-keys";
 import { createAgentModel } from "./agent-model";
 import type { AgentRecordForConfig } from "./agentConfigTools";
 import { MODEL_NAME, validateWorkspaceAndAgent } from "./agentUtils";
-import { validateAndReserveCredits } from "./generationCreditManagement";
+import {
+  convertToolsToDefinitions,
+  validateAndReserveCredits,
+} from "./generationCreditManagement";
 import { validateSubscriptionAndLimits } from "./generationRequestTracking";
 import { createLlmObserver, type LlmObserver } from "./llmObserver";
 import { getDefaultModel } from "./modelFactory";
@@ -54,6 +61,15 @@ export interface StreamRequestContext {
   finalModelName: string;
   awsRequestId?: string;
   userId?: string; // For test endpoint
+  endUserId?: string; // End user from the signed X-End-User-Id header (widget and stream callers)
+  // Set for agents with fallback models; streaming switches to them when the
+  // model fails before any output (see executeStream)
+  modelFallback?: {
+    createModel: Awaited<
+      ReturnType<typeof setupAgentAndTools>
+    >["createFallbackModel"];
+    usesByok: boolean; // Whether the workspace's OpenRouter key is used
+  };
 }
 
 /**
@@ -66,11 +82,15 @@ async function setupAgentContext(
   context?: Awaited<ReturnType<typeof getContextFromRequestId>>,
   conversationId?: string,
   llmObserver?: LlmObserver,
+  endUserId?: string,
 ): Promise<{
   agent: Awaited<ReturnType<typeof setupAgentAndTools>>["agent"];
   model: Awaited<ReturnType<typeof setupAgentAndTools>>["model"];
   tools: Awaited<ReturnType<typeof setupAgentAndTools>>["tools"];
   usesByok: boolean;
+  createFallbackModel: Awaited<
+    ReturnType<typeof setupAgentAndTools>
+  >["createFallbackModel"];
 }> {
   const result = await setupAgentAndTools(
     workspaceId,
@@ -83,18 +103,19 @@ async function setupAgentContext(
       context,
       conversationId,
       llmObserver,
+      endUserId,
       searchDocumentsOptions: {
         description:
-          "Search workspace documents using semantic vector search. Returns the most relevant document snippets based on the query.",
+          "Search workspace documents using hybrid keyword and semantic search, so both exact terms (product codes, error messages, names) and related concepts match. Returns the most relevant document snippets based on the query.",
         queryDescription:
           "The search query or prompt to find relevant document snippets",
         formatResults: (results) => {
           return results
             .map(
               (result, index) =>
-                `[${index + 1}] Document: ${result.documentName}${
-                  result.folderPath ? ` (${result.folderPath})` : ""
-                }\nSimilarity: ${(result.similarity * 100).toFixed(
+                `[${index + 1}] Document: ${formatDocumentSource(
+                  result,
+                )}\nSimilarity: ${(result.similarity * 100).toFixed(
                   1,
                 )}%\nContent:\n${result.snippet}\n`,
             )
@@ -109,6 +130,7 @@ async function setupAgentContext(
     model: result.model,
     tools: result.tools,
     usesByok: result.usesByok,
+    createFallbackModel: result.createFallbackModel,
   };
 }
 
@@ -466,7 +488,7 @@ async function convertRequestBodyToMessages(bodyText: string): Promise<{
  * Validates credits, spending limits, and reserves credits before the LLM call
  * Returns the reservation ID if credits were reserved
  */
-async function validateCreditsAndReserveBeforeLLM(
+export async function validateCreditsAndReserveBeforeLLM(
   db: Awaited<ReturnType<typeof database>>,
   workspaceId: string,
   agentId: string,
@@ -503,6 +525,44 @@ async function validateCreditsAndReserveBeforeLLM(
   );
 }
 
+/**
+ * Compacts older turns into a summary when the prompt approaches the model's
+ * context limit. The client resends the whole history, so the stored summary
+ * is reused on later turns.
+ */
+async function compactStreamMessages(
+  db: Awaited<ReturnType<typeof database>>,
+  workspaceId: string,
+  agentId: string,
+  agent: Awaited<ReturnType<typeof setupAgentAndTools>>["agent"],
+  modelMessages: ModelMessage[],
+  tools: Awaited<ReturnType<typeof setupAgentAndTools>>["tools"],
+  usesByok: boolean,
+  endpointType: EndpointType,
+  conversationId: string,
+  context?: Awaited<ReturnType<typeof getContextFromRequestId>>,
+): Promise<ModelMessage[]> {
+  const { messages } = await compactConversationIfNeeded({
+    db,
+    workspaceId,
+    agentId,
+    conversationId,
+    // config-test is a UI flow like test
+    conversationType: endpointType === "config-test" ? "test" : endpointType,
+    messages: modelMessages,
+    systemPrompt: await buildSystemPromptWithSkills(
+      agent.systemPrompt,
+      agent.enabledSkillIds
+    ),
+    toolDefinitions: convertToolsToDefinitions(tools),
+    modelName:
+      typeof agent.modelName === "string" ? agent.modelName : MODEL_NAME,
+    usesByok,
+    context,
+  });
+  return messages;
+}
+
 /**
  * Validates subscription and plan limits
  */
@@ -755,6 +815,11 @@ export async function buildStreamRequestContext(
 
   // Setup database connection
   const db = await database();
+  const endUserId = await getVerifiedEndUserIdFromHeaders(
+    db,
+    { workspaceId, agentId },
+    event.headers,
+  );
 
   const { awsRequestId, lambdaContext } = requireLambdaContext(event);
 
@@ -766,6 +831,7 @@ export async function buildStreamRequestContext(
   let model: Awaited<ReturnType<typeof setupAgentAndTools>>["model"];
   let tools: Awaited<ReturnType<typeof setupAgentAndTools>>["tools"];
   let usesByok: boolean;
+  let modelFallback: StreamRequestContext["modelFallback"];
 
   if (agentId === WORKSPACE_AGENT_ID) {
     const { setupWorkspaceAgentAndTools } =
@@ -843,11 +909,18 @@ export async function buildStreamRequestContext(
       lambdaContext,
       conversationId,
       llmObserver,
+      endUserId,
     );
     agent = normalSetup.agent;
     model = normalSetup.model;
     tools = normalSetup.tools;
     usesByok = normalSetup.usesByok;
+    if (agent.fallbackModelNames?.length) {
+      modelFallback = {
+        createModel: normalSetup.createFallbackModel,
+        usesByok: normalSetup.usesByok,
+      };
+    }
   }
 
   // Extract and convert request body
@@ -877,6 +950,8 @@ export async function buildStreamRequestContext(
     agentId,
     conversationId,
     usesByok,
+    undefined,
+    endUserId,
   );
 
   const modelMessagesWithKnowledge = knowledgeInjectionResult.modelMessages;
@@ -902,18 +977,34 @@ export async function buildStreamRequestContext(
   // Derive the model name from the agent's modelName if set, otherwise use default
   const finalModelName =
     typeof agent.modelName === "string" ? agent.modelName : MODEL_NAME;
+  // Custom endpoint models are called with the workspace's own endpoint and,
+  // like BYOK, cost no credits
+  const llmUsesByok = usesByok || isCustomModelName(finalModelName);
 
   logClientToolResults(agent, modelMessagesWithKnowledge);
 
+  const modelMessagesToSend = await compactStreamMessages(
+    db,
+    workspaceId,
+    agentId,
+    agent,
+    modelMessagesWithKnowledge,
+    tools,
+    llmUsesByok,
+    endpointType,
+    conversationId,
+    lambdaContext,
+  );
+
   // Validate credits, spending limits, and reserve credits before LLM call
   const reservationId = await validateCreditsAndReserveBeforeLLM(
     db,
     workspaceId,
     agentId,
     agent,
-    modelMessagesWithKnowledge,
+    modelMessagesToSend,
     tools,
-    usesByok,
+    llmUsesByok,
     endpointType,
     lambdaContext,
     conversationId,
@@ -931,15 +1022,17 @@ export async function buildStreamRequestContext(
     db,
     uiMessage: uiMessageWithTimestamps,
     convertedMessages: updatedConvertedMessages,
-    modelMessages: modelMessagesWithKnowledge,
+    modelMessages: modelMessagesToSend,
     agent,
     model,
     tools,
     llmObserver,
-    usesByok,
+    usesByok: llmUsesByok,
     reservationId,
     finalModelName,
     awsRequestId,
     userId: authResult.userId,
+    endUserId,
+    ...(modelFallback ? { modelFallback } : {}),
   };
 }
@@ -1,3 +1,5 @@
+import type { ModelMessage } from "ai";
+
 import {
   extractTokenUsage,
   type GenerateTextResultWithTotalUsage,
@@ -16,6 +18,8 @@ import { createModel } from "./modelFactory";
 export interface ProcessResponseResult {
   text: string;
   tokenUsage: TokenUsage | undefined;
+  /** Messages generated for this response, including tool continuation */
+  responseMessages: ModelMessage[];
 }
 
 /**
@@ -58,6 +62,9 @@ export async function processNonStreamingResponse(
   }
 
   const initialTokenUsage = extractTokenUsage(typedResult);
+  const initialResponseMessages =
+    (typedResult as { response?: { messages?: ModelMessage[] } }).response
+      ?.messages ?? [];
   const hasText = finalText && finalText.trim().length > 0;
   const hasToolResults = toolResults && toolResults.length > 0;
 
@@ -98,6 +105,10 @@ export async function processNonStreamingResponse(
       return {
         text: continuationResult.text || "",
         tokenUsage: aggregatedTokenUsage,
+        responseMessages: [
+          ...initialResponseMessages,
+          ...continuationResult.responseMessages,
+        ],
       };
     }
   }
@@ -106,6 +117,7 @@ export async function processNonStreamingResponse(
   return {
     text: finalText || "",
     tokenUsage: initialTokenUsage,
+    responseMessages: initialResponseMessages,
   };
 }
 
@@ -0,0 +1,141 @@
+import { database } from "../../tables";
+import { Sentry, ensureError } from "../../utils/sentry";
+import {
+  buildPendingToolApprovalResult,
+  buildToolApprovalRequestMessage,
+  createToolApproval,
+  postToolApprovalMessage,
+  type ToolApprovalOrigin,
+  type ToolApprovalPolicy,
+} from "../../utils/toolApproval";
+
+import type { McpToolSource } from "./mcpUtils";
+
+export interface ToolApprovalGateParams {
+  workspaceId: string;
+  agentId: string;
+  agentName: string;
+  conversationId?: string;
+  policy: ToolApprovalPolicy | undefined;
+  notificationChannelId?: string;
+  origin?: ToolApprovalOrigin; // bot thread of the run, where the resumed answer is posted
+  mcpToolSources: Record<string, McpToolSource>;
+}
+
+/**
+ * Names of the given tools that require approval, mapped to their MCP server
+ * (undefined for built-in tools)
+ */
+export function getToolsRequiringApproval(
+  toolNames: string[],
+  policy: ToolApprovalPolicy | undefined,
+  mcpToolSources: Record<string, McpToolSource>
+): Map<string, string | undefined> {
+  const required = new Map<string, string | undefined>();
+  if (!policy) {
+    return required;
+  }
+  const builtInToolNames = new Set(policy.toolNames ?? []);
+  for (const toolName of toolNames) {
+    const source = mcpToolSources[toolName];
+    if (source) {
+      if (policy.mcpServerToolNames?.[source.serverId]?.includes(source.baseName)) {
+        required.set(toolName, source.serverId);
+      }
+    } else if (builtInToolNames.has(toolName)) {
+      required.set(toolName, undefined);
+    }
+  }
+  return required;
+}
+
+const toArgsRecord = (args: unknown): Record<string, unknown> =>
+  args != null && typeof args === "object" && !Array.isArray(args)
+    ? (args as Record<string, unknown>)
+    : { input: args };
+
+/**
+ * Replaces the execute function of tools that require approval: a call records
+ * a pending approval request and posts it to the agent's notification channel
+ * instead of running the tool. The tool runs from the tool-approval queue once
+ * the request is approved.
+ */
+export function wrapToolsRequiringApproval<
+  TTools extends Record<string, unknown>,
+>(tools: TTools, params: ToolApprovalGateParams): TTools {
+  const required = getToolsRequiringApproval(
+    Object.keys(tools),
+    params.policy,
+    params.mcpToolSources
+  );
+  if (required.size === 0) {
+    return tools;
+  }
+
+  const gated: Record<string, unknown> = { ...tools };
+  for (const [toolName, mcpServerId] of required) {
+    const toolDef = tools[toolName] as
+      | { execute?: (...args: unknown[]) => unknown }
+      | undefined;
+    if (!toolDef || typeof toolDef.execute !== "function") {
+      // Client-side tools run in the browser and are never gated
+      continue;
+    }
+    gated[toolName] = {
+      ...toolDef,
+      execute: async (args: unknown, context?: unknown) => {
+        const toolCallId =
+          (context as { toolCallId?: string } | undefined)?.toolCallId ??
+          "unknown";
+        try {
+          const db = await database();
+          const approval = await createToolApproval(db, {
+            workspaceId: params.workspaceId,
+            agentId: params.agentId,
+            conversationId: params.conversationId,
+            toolCallId,
+            toolName,
+            mcpServerId,
+            args: toArgsRecord(args),
+            policy: params.policy,
+            notificationChannelId: params.notificationChannelId,
+            origin: params.origin,
+          });
+          console.log("[Tool Approval] Approval requested:", {
+            workspaceId: params.workspaceId,
+            agentId: params.agentId,
+            conversationId: params.conversationId,
+            approvalId: approval.approvalId,
+            toolName,
+          });
+          await postToolApprovalMessage(
+            db,
+            approval,
+            buildToolApprovalRequestMessage(approval, params.agentName)
+          );
+          return buildPendingToolApprovalResult(approval);
+        } catch (error) {
+          console.error("[Tool Approval] Failed to request approval:", {
+            workspaceId: params.workspaceId,
+            agentId: params.agentId,
+            toolName,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          Sentry.captureException(ensureError(error), {
+            tags: {
+              context: "tool-approval",
+              operation: "request-approval",
+            },
+            extra: {
+              workspaceId: params.workspaceId,
+              agentId: params.agentId,
+              toolName,
+            },
+          });
+          return `Error: ${toolName} requires approval but the approval request could not be created. The tool was NOT executed.`;
+        }
+      },
+    };
+  }
+  return gated as TTools;
+}
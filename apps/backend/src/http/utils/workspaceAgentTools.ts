@@ -18,10 +18,18 @@ import { PERMISSION_LEVELS } from "../../tables/schema";
 import { removeAgentResources } from "../../utils/agentCleanup";
 import { createAgentRecord } from "../../utils/agentCreate";
 import { queryUsageStats } from "../../utils/aggregation";
-import { indexDocument } from "../../utils/documentIndexing";
+import {
+  getChangedFields,
+  recordAuditEventForUser,
+} from "../../utils/auditLog";
+import { isPlainTextDocumentType } from "../../utils/documentExtraction/registry";
+import {
+  getDocumentTextContent,
+  indexDocument,
+} from "../../utils/documentIndexing";
 import {
   deleteDocument,
-  getDocument,
+  deleteS3Object,
   normalizeFolderPath,
   uploadDocument,
 } from "../../utils/s3";
@@ -204,6 +212,7 @@ function createWorkspaceAgentTools(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any -- AI SDK tool types
   const tools: Record<string, any> = {};
   const readInternalDocState: ReadInternalDocState = { callCount: 0 };
+  const actorUserRef = userId ? userRef(userId) : undefined;
 
   tools.read_internal_doc = tool({
     description: READ_INTERNAL_DOC_TOOL_DESCRIPTION,
@@ -268,7 +277,7 @@ function createWorkspaceAgentTools(
       if (!existing) {
         return JSON.stringify({ error: "Workspace not found" });
       }
-      await db.workspace.update({
+      const updated = await db.workspace.update({
         pk,
         sk: "workspace",
         name: parsed.name ?? existing.name,
@@ -278,6 +287,13 @@ function createWorkspaceAgentTools(
         updatedBy: userId ? `users/${userId}` : "",
         updatedAt: new Date().toISOString(),
       });
+      await recordAuditEventForUser(actorUserRef, workspaceId, {
+        action: "updated",
+        resourceType: "workspace",
+        resourceId: workspaceId,
+        resourceName: updated.name,
+        changedFields: getChangedFields(parsed, existing),
+      });
       return "Workspace updated successfully.";
     },
   });
@@ -423,6 +439,13 @@ function createWorkspaceAgentTools(
           level,
           currentUserRef,
         );
+        await recordAuditEventForUser(actorUserRef, workspaceId, {
+          action: "created",
+          resourceType: "invite",
+          resourceId: invite.pk.replace(`workspace-invites/${workspaceId}/`, ""),
+          resourceName: invite.email,
+          details: { permissionLevel: level },
+        });
         const inviterEmail = userId
           ? await getUserEmailById(userId)
           : undefined;
@@ -471,12 +494,26 @@ function createWorkspaceAgentTools(
         throw new Error("Cannot grant permission level higher than your own");
       }
       const memberUserRef = userRef(memberUserId);
+      const previousLevel = await getUserAuthorizationLevelForResource(
+        workspaceResource,
+        memberUserRef,
+      );
       await ensureExactAuthorization(
         workspaceResource,
         memberUserRef,
         permissionLevel,
         currentUserRef,
       );
+      await recordAuditEventForUser(actorUserRef, workspaceId, {
+        action: "updated",
+        resourceType: "member",
+        resourceId: memberUserId,
+        changedFields: ["permissionLevel"],
+        details: {
+          previousPermissionLevel: previousLevel ?? null,
+          permissionLevel,
+        },
+      });
       return `Member ${memberUserId} permission updated to ${permissionLevel}.`;
     },
   });
@@ -519,6 +556,12 @@ function createWorkspaceAgentTools(
         }
       }
       await db.permission.delete(workspaceResource, memberUserRef);
+      await recordAuditEventForUser(actorUserRef, workspaceId, {
+        action: "deleted",
+        resourceType: "member",
+        resourceId: memberUserId,
+        details: { permissionLevel: permission.type },
+      });
       return `Member ${memberUserId} removed from the workspace.`;
     },
   });
@@ -613,10 +656,10 @@ function createWorkspaceAgentTools(
       if (!document) {
         return JSON.stringify({ error: "Document not found" });
       }
-      const content = await getDocument(
+      const content = await getDocumentTextContent(
         workspaceId,
         documentId,
-        document.s3Key,
+        document,
       );
       return JSON.stringify(
         {
@@ -626,7 +669,7 @@ function createWorkspaceAgentTools(
           folderPath: document.folderPath,
           contentType: document.contentType,
           size: document.size,
-          content: content.toString("utf-8"),
+          content,
           createdAt: document.createdAt,
           updatedAt: document.updatedAt ?? document.createdAt,
         },
@@ -699,6 +742,13 @@ function createWorkspaceAgentTools(
       }).catch((err) => {
         console.error("[workspaceAgentTools] indexDocument failed:", err);
       });
+      await recordAuditEventForUser(actorUserRef, workspaceId, {
+        action: "created",
+        resourceType: "document",
+        resourceId: documentId,
+        resourceName: parsed.name,
+        details: { folderPath },
+      });
       return JSON.stringify({
         id: documentId,
         name: parsed.name,
@@ -732,6 +782,15 @@ function createWorkspaceAgentTools(
       if (!document) {
         return JSON.stringify({ error: "Document not found" });
       }
+      if (
+        parsed.content !== undefined &&
+        !isPlainTextDocumentType(document.contentType, document.filename)
+      ) {
+        return JSON.stringify({
+          error:
+            "This document was converted from a PDF, DOCX, HTML or CSV file and its content cannot be edited as text.",
+        });
+      }
       if (parsed.name !== undefined) {
         document.name = parsed.name;
       }
@@ -755,6 +814,16 @@ function createWorkspaceAgentTools(
       }
       document.updatedAt = new Date().toISOString();
       await db["workspace-document"].update(document);
+      await recordAuditEventForUser(actorUserRef, workspaceId, {
+        action: "updated",
+        resourceType: "document",
+        resourceId: parsed.documentId,
+        resourceName: document.name,
+        changedFields: [
+          ...(parsed.content !== undefined ? ["content"] : []),
+          ...(parsed.name !== undefined ? ["name"] : []),
+        ],
+      });
       return "Document updated successfully.";
     },
   });
@@ -787,7 +856,16 @@ function createWorkspaceAgentTools(
         );
       });
       await deleteDocument(workspaceId, documentId, document.s3Key);
+      if (document.extractedS3Key) {
+        await deleteS3Object(document.extractedS3Key);
+      }
       await db["workspace-document"].delete(documentPk, "document");
+      await recordAuditEventForUser(actorUserRef, workspaceId, {
+        action: "deleted",
+        resourceType: "document",
+        resourceId: documentId,
+        resourceName: document.name,
+      });
       return "Document deleted successfully.";
     },
   });
@@ -901,6 +979,12 @@ function createWorkspaceAgentTools(
         avatar: getRandomAvatar(),
         createdBy: currentUserRef,
       });
+      await recordAuditEventForUser(actorUserRef, workspaceId, {
+        action: "created",
+        resourceType: "agent",
+        resourceId: agentId,
+        resourceName: agent.name,
+      });
       return JSON.stringify(
         {
           id: agentId,
@@ -943,6 +1027,12 @@ function createWorkspaceAgentTools(
         return JSON.stringify({ error: "Agent not found" });
       }
       await removeAgentResources({ db, workspaceId, agentId });
+      await recordAuditEventForUser(actorUserRef, workspaceId, {
+        action: "deleted",
+        resourceType: "agent",
+        resourceId: agentId,
+        resourceName: agent.name,
+      });
       return "Agent deleted successfully.";
     },
   });
@@ -1034,6 +1124,8 @@ function createWorkspaceAgentTools(
             conversationCount: stats.conversationCount,
             messagesIn: stats.messagesIn,
             messagesOut: stats.messagesOut,
+            positiveFeedback: stats.positiveFeedback,
+            negativeFeedback: stats.negativeFeedback,
           },
         },
         null,
@@ -1101,6 +1193,12 @@ function createWorkspaceAgentTools(
           amount: parsed.amount,
         });
       }
+      await recordAuditEventForUser(actorUserRef, workspaceId, {
+        action: hasLimit ? "updated" : "created",
+        resourceType: "spending-limit",
+        resourceId: parsed.timeFrame,
+        details: { amount: parsed.amount },
+      });
       return `Spending limit ${parsed.timeFrame} set to $${parsed.amount}.`;
     },
   });
@@ -40,6 +40,10 @@ export const openApiConfig = {
     { name: "Channels", description: "Notification channel management" },
     { name: "Email", description: "Email connection management" },
     { name: "MCP Servers", description: "MCP server management" },
+    {
+      name: "Model Endpoints",
+      description: "Self-hosted OpenAI-compatible model endpoints",
+    },
     { name: "Subscription", description: "Subscription management" },
     { name: "User", description: "User settings and API key management" },
     { name: "Auth", description: "Authentication operations" },
@@ -147,5 +151,105 @@ export const openApiConfig = {
         },
       },
     },
+    parameters: {
+      ConversationSearchText: {
+        name: "q",
+        in: "query",
+        description:
+          "Case-insensitive text contained in a user or assistant message",
+        schema: { type: "string", maxLength: 200 },
+      },
+      ConversationTypeFilter: {
+        name: "conversationType",
+        in: "query",
+        description:
+          "Comma-separated conversation types (test, webhook, stream, scheduled, mcp)",
+        schema: { type: "string" },
+      },
+      ConversationFrom: {
+        name: "from",
+        in: "query",
+        description:
+          "Only conversations whose last message is at or after this date",
+        schema: { type: "string", format: "date-time" },
+      },
+      ConversationTo: {
+        name: "to",
+        in: "query",
+        description:
+          "Only conversations whose last message is at or before this date",
+        schema: { type: "string", format: "date-time" },
+      },
+      ConversationHasError: {
+        name: "hasError",
+        in: "query",
+        description:
+          "Only conversations with (true) or without (false) an error",
+        schema: { type: "boolean" },
+      },
+      ConversationMinCostUsd: {
+        name: "minCostUsd",
+        in: "query",
+        description:
+          "Minimum conversation cost in nano-dollars",
+        schema: { type: "integer", minimum: 0 },
+      },
+      ConversationMaxCostUsd: {
+        name: "maxCostUsd",
+        in: "query",
+        description:
+          "Maximum conversation cost in nano-dollars",
+        schema: { type: "integer", minimum: 0 },
+      },
+      ConversationModel: {
+        name: "model",
+        in: "query",
+        description:
+          "Case-insensitive part of the name of a model that replied",
+        schema: { type: "string" },
+      },
+      ConversationTool: {
+        name: "tool",
+        in: "query",
+        description:
+          "Name of a tool called in the conversation",
+        schema: { type: "string" },
+      },
+      ConversationMinEvalScore: {
+        name: "minEvalScore",
+        in: "query",
+        description:
+          "Minimum average eval score (0-100); only evaluated conversations match",
+        schema: { type: "number", minimum: 0, maximum: 100 },
+      },
+      ConversationMaxEvalScore: {
+        name: "maxEvalScore",
+        in: "query",
+        description:
+          "Maximum average eval score (0-100); only evaluated conversations match",
+        schema: { type: "number", minimum: 0, maximum: 100 },
+      },
+      ConversationCriticalFailure: {
+        name: "criticalFailure",
+        in: "query",
+        description:
+          "Only evaluated conversations where a judge detected (true) or did not detect (false) a critical failure",
+        schema: { type: "boolean" },
+      },
+      ConversationHasDelegations: {
+        name: "hasDelegations",
+        in: "query",
+        description:
+          "Only conversations with (true) or without (false) delegations to other agents",
+        schema: { type: "boolean" },
+      },
+      ConversationFeedback: {
+        name: "feedback",
+        in: "query",
+        description:
+          "Only conversations with end-user feedback of any kind, with a thumbs up (positive) or down (negative), or without feedback (none)",
+        schema: { type: "string", enum: ["any", "positive", "negative", "none"] },
+      },
+    },
   },
 };
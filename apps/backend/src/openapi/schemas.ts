@@ -253,6 +253,20 @@ export const openApiSchemas = {
         type: "boolean",
         description: "Inject knowledge from workspace documents",
       },
+      knowledgeFolderPaths: {
+        type: "array",
+        items: { type: "string" },
+        nullable: true,
+        description:
+          "Restrict document search and knowledge injection to these folders (and their subfolders); null means all workspace documents",
+      },
+      knowledgeTags: {
+        type: "array",
+        items: { type: "string" },
+        nullable: true,
+        description:
+          "Also allow documents carrying any of these tags, in any folder; null means no tag scope",
+      },
       knowledgeInjectionSnippetCount: {
         type: "integer",
         description: "Number of knowledge snippets to inject",
@@ -289,6 +303,52 @@ export const openApiSchemas = {
         description: "Image generation model name from OpenRouter",
         nullable: true,
       },
+      fallbackModelNames: {
+        type: "array",
+        items: { type: "string" },
+        maxItems: 3,
+        nullable: true,
+        description:
+          "OpenRouter models tried in order when the agent's model fails with a provider error or timeout (non-streaming generations only)",
+      },
+      toolApproval: {
+        type: "object",
+        nullable: true,
+        description:
+          "Tools whose calls wait for a workspace member's approval before they run. The run pauses with the proposed arguments and resumes once the request is approved (optionally with edited arguments), rejected or timed out.",
+        properties: {
+          toolNames: {
+            type: "array",
+            items: {
+              type: "string",
+              enum: [
+                "send_email",
+                "send_notification",
+                "call_agent",
+                "call_agent_async",
+                "generate_image",
+              ],
+            },
+            description: "Built-in tools that require approval",
+          },
+          mcpServerToolNames: {
+            type: "object",
+            additionalProperties: {
+              type: "array",
+              items: { type: "string" },
+            },
+            description:
+              "Per-server MCP tools that require approval (same tool names as enabledMcpServerToolNames)",
+          },
+          timeoutMinutes: {
+            type: "integer",
+            minimum: 1,
+            maximum: 10080,
+            description:
+              "How long a request stays pending (default: 1440 minutes)",
+          },
+        },
+      },
       memoryExtractionEnabled: {
         type: "boolean",
         description: "Enable memory extraction for this agent",
@@ -303,6 +363,11 @@ export const openApiSchemas = {
         description: "Prompt to use for memory extraction",
         nullable: true,
       },
+      memoryPartitionByEndUser: {
+        type: "boolean",
+        description:
+          "Keep working memory, summaries and graph facts per end user (identified by the X-End-User-Id header, signed with an agent webhook key in X-End-User-Signature for widget and stream requests)",
+      },
       summarizationPrompts: {
         $ref: "#/components/schemas/SummarizationPrompts",
       },
@@ -485,6 +550,52 @@ export const openApiSchemas = {
         description: "Image generation model name from OpenRouter",
         nullable: true,
       },
+      fallbackModelNames: {
+        type: "array",
+        items: { type: "string" },
+        maxItems: 3,
+        nullable: true,
+        description:
+          "OpenRouter models tried in order when the agent's model fails with a provider error or timeout (non-streaming generations only)",
+      },
+      toolApproval: {
+        type: "object",
+        nullable: true,
+        description:
+          "Tools whose calls wait for a workspace member's approval before they run. The run pauses with the proposed arguments and resumes once the request is approved (optionally with edited arguments), rejected or timed out.",
+        properties: {
+          toolNames: {
+            type: "array",
+            items: {
+              type: "string",
+              enum: [
+                "send_email",
+                "send_notification",
+                "call_agent",
+                "call_agent_async",
+                "generate_image",
+              ],
+            },
+            description: "Built-in tools that require approval",
+          },
+          mcpServerToolNames: {
+            type: "object",
+            additionalProperties: {
+              type: "array",
+              items: { type: "string" },
+            },
+            description:
+              "Per-server MCP tools that require approval (same tool names as enabledMcpServerToolNames)",
+          },
+          timeoutMinutes: {
+            type: "integer",
+            minimum: 1,
+            maximum: 10080,
+            description:
+              "How long a request stays pending (default: 1440 minutes)",
+          },
+        },
+      },
       summarizationPrompts: {
         $ref: "#/components/schemas/SummarizationPrompts",
       },
@@ -502,6 +613,11 @@ export const openApiSchemas = {
         description: "Prompt to use for memory extraction",
         nullable: true,
       },
+      memoryPartitionByEndUser: {
+        type: "boolean",
+        description:
+          "Keep working memory, summaries and graph facts per end user (identified by the X-End-User-Id header, signed with an agent webhook key in X-End-User-Signature for widget and stream requests)",
+      },
     },
   },
   UpdateAgentRequest: {
@@ -559,6 +675,20 @@ export const openApiSchemas = {
         type: "boolean",
         description: "Enable the document search tool for this agent",
       },
+      knowledgeFolderPaths: {
+        type: "array",
+        items: { type: "string" },
+        nullable: true,
+        description:
+          "Restrict document search and knowledge injection to these folders (and their subfolders); null means all workspace documents",
+      },
+      knowledgeTags: {
+        type: "array",
+        items: { type: "string" },
+        nullable: true,
+        description:
+          "Also allow documents carrying any of these tags, in any folder; null means no tag scope",
+      },
       enableSendEmail: {
         type: "boolean",
         description:
@@ -573,6 +703,52 @@ export const openApiSchemas = {
         description: "Image generation model name from OpenRouter",
         nullable: true,
       },
+      fallbackModelNames: {
+        type: "array",
+        items: { type: "string" },
+        maxItems: 3,
+        nullable: true,
+        description:
+          "OpenRouter models tried in order when the agent's model fails with a provider error or timeout (non-streaming generations only)",
+      },
+      toolApproval: {
+        type: "object",
+        nullable: true,
+        description:
+          "Tools whose calls wait for a workspace member's approval before they run. The run pauses with the proposed arguments and resumes once the request is approved (optionally with edited arguments), rejected or timed out.",
+        properties: {
+          toolNames: {
+            type: "array",
+            items: {
+              type: "string",
+              enum: [
+                "send_email",
+                "send_notification",
+                "call_agent",
+                "call_agent_async",
+                "generate_image",
+              ],
+            },
+            description: "Built-in tools that require approval",
+          },
+          mcpServerToolNames: {
+            type: "object",
+            additionalProperties: {
+              type: "array",
+              items: { type: "string" },
+            },
+            description:
+              "Per-server MCP tools that require approval (same tool names as enabledMcpServerToolNames)",
+          },
+          timeoutMinutes: {
+            type: "integer",
+            minimum: 1,
+            maximum: 10080,
+            description:
+              "How long a request stays pending (default: 1440 minutes)",
+          },
+        },
+      },
       summarizationPrompts: {
         $ref: "#/components/schemas/SummarizationPrompts",
       },
@@ -590,6 +766,11 @@ export const openApiSchemas = {
         description: "Prompt to use for memory extraction",
         nullable: true,
       },
+      memoryPartitionByEndUser: {
+        type: "boolean",
+        description:
+          "Keep working memory, summaries and graph facts per end user (identified by the X-End-User-Id header, signed with an agent webhook key in X-End-User-Signature for widget and stream requests)",
+      },
     },
   },
   SpendingLimit: {
@@ -879,4 +1060,523 @@ export const openApiSchemas = {
       },
     },
   },
+  WebhookResult: {
+    type: "object",
+    required: ["conversationId", "workspaceId", "agentId", "status"],
+    properties: {
+      conversationId: {
+        type: "string",
+        description: "Conversation ID returned by the webhook",
+      },
+      workspaceId: {
+        type: "string",
+        description: "Workspace ID",
+      },
+      agentId: {
+        type: "string",
+        description: "Agent ID",
+      },
+      status: {
+        type: "string",
+        enum: ["pending", "completed", "failed"],
+        description: "Run status",
+      },
+      message: {
+        type: "string",
+        description: "Final assistant message text",
+      },
+      structuredOutput: {
+        description:
+          "Parsed response object when the run used a structured-output schema (agent outputSchema or the X-Helpmaton-Output-Schema header)",
+      },
+      toolCalls: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            toolCallId: { type: "string" },
+            toolName: { type: "string" },
+            args: { type: "object" },
+            result: {},
+          },
+        },
+        description: "Tool calls made during the run, with their results",
+      },
+      tokenUsage: {
+        type: "object",
+        properties: {
+          promptTokens: { type: "integer" },
+          completionTokens: { type: "integer" },
+          totalTokens: { type: "integer" },
+          reasoningTokens: { type: "integer" },
+          cachedPromptTokens: { type: "integer" },
+        },
+      },
+      costUsd: {
+        type: "number",
+        description:
+          "Cost in USD (provisional until the provider cost has been verified)",
+      },
+      error: {
+        type: "object",
+        properties: {
+          message: { type: "string" },
+          code: { type: "string" },
+          statusCode: { type: "integer" },
+        },
+        description: "Error details when status is failed",
+      },
+      startedAt: {
+        type: "string",
+        format: "date-time",
+      },
+      completedAt: {
+        type: "string",
+        format: "date-time",
+      },
+    },
+  },
+  AuditLogEntry: {
+    type: "object",
+    properties: {
+      id: { type: "string", description: "Event ID" },
+      action: { type: "string", enum: ["created", "updated", "deleted"] },
+      resourceType: {
+        type: "string",
+        enum: [
+          "workspace",
+          "agent",
+          "agent-key",
+          "workspace-api-key",
+          "stream-server",
+          "mcp-server",
+          "channel",
+          "document",
+          "member",
+          "invite",
+          "spending-limit",
+          "integration",
+          "email-connection",
+          "model-endpoint",
+          "schedule",
+          "eval-judge",
+          "eval-dataset",
+          "memory-record",
+          "knowledge-graph-fact",
+        ],
+      },
+      resourceId: { type: "string", nullable: true },
+      resourceName: {
+        type: "string",
+        nullable: true,
+        description: "Name of the resource at the time of the event",
+      },
+      agentId: { type: "string", nullable: true },
+      actorUserId: { type: "string", nullable: true },
+      actorEmail: { type: "string", nullable: true },
+      apiKeyId: {
+        type: "string",
+        nullable: true,
+        description: "User API key used by the actor, if any",
+      },
+      changedFields: {
+        type: "array",
+        items: { type: "string" },
+        description: "Names of the changed fields (values are not logged)",
+      },
+      details: { type: "object", nullable: true },
+      ipAddress: { type: "string", nullable: true },
+      requestId: { type: "string", nullable: true },
+      createdAt: { type: "string", format: "date-time" },
+    },
+  },
+  AgentConfigVersion: {
+    type: "object",
+    properties: {
+      configVersion: { type: "integer", description: "Version number" },
+      source: {
+        type: "string",
+        enum: ["created", "baseline", "updated", "assistant", "restored"],
+        description:
+          "What produced the version (baseline = configuration before the first tracked change, assistant = configuration assistant)",
+      },
+      changedFields: {
+        type: "array",
+        items: { type: "string" },
+        description: "Fields changed from the previous version",
+      },
+      restoredFromVersion: { type: "integer", nullable: true },
+      createdBy: {
+        type: "string",
+        nullable: true,
+        description: "User ID of the author",
+      },
+      createdAt: { type: "string", format: "date-time" },
+    },
+  },
+  ToolApprovalRequest: {
+    type: "object",
+    properties: {
+      id: { type: "string", description: "Approval request ID" },
+      agentId: { type: "string" },
+      conversationId: {
+        type: "string",
+        nullable: true,
+        description: "Conversation that is resumed once the request is decided",
+      },
+      toolName: { type: "string" },
+      mcpServerId: {
+        type: "string",
+        nullable: true,
+        description: "MCP server of the tool (null for built-in tools)",
+      },
+      args: {
+        type: "object",
+        additionalProperties: true,
+        description: "Arguments proposed by the model",
+      },
+      approvedArgs: {
+        type: "object",
+        additionalProperties: true,
+        nullable: true,
+        description: "Edited arguments the tool ran with",
+      },
+      status: {
+        type: "string",
+        enum: ["pending", "approved", "rejected", "expired"],
+      },
+      expiresAt: {
+        type: "string",
+        format: "date-time",
+        description: "When a pending request expires without a decision",
+      },
+      decidedAt: { type: "string", format: "date-time", nullable: true },
+      decidedBy: {
+        type: "string",
+        nullable: true,
+        description: 'User reference of the decider, or "timeout"',
+      },
+      reason: { type: "string", nullable: true },
+      resumedAt: {
+        type: "string",
+        format: "date-time",
+        nullable: true,
+        description: "When the conversation was resumed",
+      },
+      resultPreview: {
+        type: "string",
+        nullable: true,
+        description: "Start of the tool result passed to the model",
+      },
+      error: { type: "string", nullable: true },
+      createdAt: { type: "string", format: "date-time" },
+    },
+  },
+  ConversationFeedback: {
+    type: "object",
+    description: "An end user's rating of an agent reply",
+    properties: {
+      messageId: {
+        type: "string",
+        description:
+          "Request ID of the rated reply (awsRequestId of its messages)",
+      },
+      rating: { type: "string", enum: ["positive", "negative"] },
+      comment: { type: "string" },
+      source: {
+        type: "string",
+        enum: ["widget", "slack", "discord", "api"],
+      },
+      userId: {
+        type: "string",
+        description: "End user ID from the integration, if known",
+      },
+      createdAt: { type: "string", format: "date-time" },
+    },
+  },
+  ConversationSummary: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      agentId: { type: "string" },
+      conversationType: {
+        type: "string",
+        enum: ["test", "webhook", "stream", "scheduled", "mcp"],
+      },
+      startedAt: { type: "string", format: "date-time" },
+      lastMessageAt: { type: "string", format: "date-time" },
+      messageCount: { type: "integer" },
+      tokenUsage: { type: "object", nullable: true },
+      costUsd: {
+        type: "integer",
+        description: "Cost in nano-dollars",
+      },
+      rerankingCostUsd: {
+        type: "integer",
+        description: "Re-ranking cost in nano-dollars",
+      },
+      hasError: { type: "boolean" },
+      totalGenerationTimeMs: { type: "number" },
+      agentConfigVersions: {
+        type: "array",
+        description:
+          "Agent configuration versions that produced replies in this conversation",
+        items: { type: "integer" },
+      },
+      positiveFeedbackCount: {
+        type: "integer",
+        description: "Number of thumbs-up ratings of replies by end users",
+      },
+      negativeFeedbackCount: {
+        type: "integer",
+        description: "Number of thumbs-down ratings of replies by end users",
+      },
+    },
+  },
+  EvalDatasetCase: {
+    type: "object",
+    required: ["input"],
+    properties: {
+      caseId: {
+        type: "string",
+        description:
+          "Stable case ID used to match cases across runs (generated when omitted)",
+      },
+      input: { type: "string", description: "User message sent to the agent" },
+      expectedOutput: {
+        type: "string",
+        nullable: true,
+        description: "Expected answer the judges compare the agent's answer with",
+      },
+      rubric: {
+        type: "string",
+        nullable: true,
+        description: "Rubric notes for the judges",
+      },
+    },
+  },
+  EvalDatasetInput: {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      description: { type: "string", nullable: true },
+      cases: {
+        type: "array",
+        maxItems: 100,
+        items: { $ref: "#/components/schemas/EvalDatasetCase" },
+      },
+    },
+  },
+  EvalDataset: {
+    type: "object",
+    properties: {
+      id: { type: "string", description: "Dataset ID" },
+      name: { type: "string" },
+      description: { type: "string", nullable: true },
+      caseCount: { type: "integer" },
+      cases: {
+        type: "array",
+        description: "Only returned for a single dataset",
+        items: { $ref: "#/components/schemas/EvalDatasetCase" },
+      },
+      createdAt: { type: "string", format: "date-time" },
+      updatedAt: { type: "string", format: "date-time", nullable: true },
+    },
+  },
+  EvalScores: {
+    type: "object",
+    nullable: true,
+    description: "Scores from 0 to 100 averaged over the judges",
+    properties: {
+      goalCompletion: { type: "number" },
+      toolEfficiency: { type: "number" },
+      faithfulness: { type: "number" },
+    },
+  },
+  EvalRun: {
+    type: "object",
+    properties: {
+      id: { type: "string", description: "Run ID" },
+      datasetId: { type: "string" },
+      datasetName: { type: "string" },
+      label: { type: "string", nullable: true },
+      overrides: {
+        type: "object",
+        nullable: true,
+        description: "Candidate config the run used instead of the agent's",
+        properties: {
+          systemPrompt: { type: "string" },
+          modelName: { type: "string" },
+        },
+      },
+      modelName: { type: "string", description: "Model the agent ran with" },
+      configVersion: {
+        type: "integer",
+        nullable: true,
+        description: "Agent config version the run started from",
+      },
+      status: { type: "string", enum: ["running", "completed"] },
+      caseCount: { type: "integer" },
+      finishedCaseCount: { type: "integer" },
+      failedCaseCount: { type: "integer" },
+      scoredCaseCount: { type: "integer" },
+      averageScores: { $ref: "#/components/schemas/EvalScores" },
+      criticalFailureCount: { type: "integer" },
+      costUsd: {
+        type: "integer",
+        description: "Agent and judge cost in nano-dollars",
+      },
+      createdBy: { type: "string", nullable: true },
+      createdAt: { type: "string", format: "date-time" },
+      completedAt: { type: "string", format: "date-time", nullable: true },
+    },
+  },
+  EvalRunCase: {
+    type: "object",
+    properties: {
+      caseId: { type: "string" },
+      input: { type: "string" },
+      expectedOutput: { type: "string", nullable: true },
+      rubric: { type: "string", nullable: true },
+      status: {
+        type: "string",
+        enum: ["pending", "running", "completed", "failed"],
+      },
+      output: { type: "string", nullable: true, description: "Agent answer" },
+      toolCallCount: { type: "integer", nullable: true },
+      error: { type: "string", nullable: true },
+      averageScores: { $ref: "#/components/schemas/EvalScores" },
+      scores: {
+        type: "array",
+        description: "Result of each judge",
+        items: {
+          type: "object",
+          properties: {
+            judgeId: { type: "string" },
+            judgeName: { type: "string" },
+            status: { type: "string", enum: ["completed", "failed"] },
+            scoreGoalCompletion: { type: "number", nullable: true },
+            scoreToolEfficiency: { type: "number", nullable: true },
+            scoreFaithfulness: { type: "number", nullable: true },
+            criticalFailureDetected: { type: "boolean" },
+            summary: { type: "string" },
+            errorMessage: { type: "string" },
+          },
+        },
+      },
+      costUsd: {
+        type: "integer",
+        description: "Agent and judge cost in nano-dollars",
+      },
+      durationMs: { type: "integer", nullable: true },
+    },
+  },
+  ModelEndpointModel: {
+    type: "object",
+    required: ["name"],
+    properties: {
+      name: {
+        type: "string",
+        description: "Model ID as served by the endpoint (e.g. llama3.1:8b)",
+      },
+      modelName: {
+        type: "string",
+        readOnly: true,
+        description:
+          "Model name to select for agents and eval judges (custom:{endpointId}:{name})",
+      },
+      contextLength: {
+        type: "integer",
+        nullable: true,
+        description: "Max context window in tokens",
+      },
+      capabilities: {
+        type: "object",
+        description:
+          "Declared capabilities; undeclared capabilities are treated as unsupported",
+        properties: {
+          toolCalling: { type: "boolean" },
+          structuredOutput: { type: "boolean" },
+          imageInput: { type: "boolean" },
+        },
+      },
+      pricing: {
+        type: "object",
+        nullable: true,
+        description:
+          "USD per 1M tokens, used to report costs only (calls never cost credits)",
+        properties: {
+          input: { type: "number", minimum: 0 },
+          output: { type: "number", minimum: 0 },
+        },
+      },
+    },
+  },
+  ModelEndpoint: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      name: { type: "string" },
+      baseUrl: {
+        type: "string",
+        format: "uri",
+        description: "OpenAI-compatible API base URL (e.g. https://llm.example.com/v1)",
+      },
+      hasApiKey: {
+        type: "boolean",
+        description: "Whether an API key is set (the key is never returned)",
+      },
+      models: {
+        type: "array",
+        items: { $ref: "#/components/schemas/ModelEndpointModel" },
+      },
+      createdAt: { type: "string", format: "date-time" },
+      updatedAt: { type: "string", format: "date-time", nullable: true },
+    },
+  },
+  MemoryRecord: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      content: { type: "string" },
+      date: { type: "string", description: "Date of the record (YYYY-MM-DD)" },
+      timestamp: { type: "string", format: "date-time" },
+      metadata: { type: "object" },
+    },
+  },
+  MemoryRecordInput: {
+    type: "object",
+    required: ["content"],
+    properties: {
+      content: { type: "string", maxLength: 20000 },
+      timestamp: {
+        type: "string",
+        format: "date-time",
+        description:
+          "Places the record in time, e.g. the day a daily summary covers. Defaults to now for new records and to the current timestamp when editing.",
+      },
+    },
+  },
+  KnowledgeGraphFact: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "Derived from the triple, so it changes when the fact is edited",
+      },
+      source_id: { type: "string", description: "Subject" },
+      label: { type: "string", description: "Predicate" },
+      target_id: { type: "string", description: "Object" },
+      properties: { type: "object", nullable: true },
+    },
+  },
+  KnowledgeGraphFactInput: {
+    type: "object",
+    required: ["source_id", "label", "target_id"],
+    properties: {
+      source_id: { type: "string", maxLength: 500, description: "Subject" },
+      label: { type: "string", maxLength: 200, description: "Predicate" },
+      target_id: { type: "string", maxLength: 500, description: "Object" },
+    },
+  },
 };
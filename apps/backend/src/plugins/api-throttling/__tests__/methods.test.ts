@@ -16,7 +16,7 @@ const createMethod = (resourceId: string) => ({
 });
 
 describe("configureMethodAuthorizers", () => {
-  it("skips OAuth callback routes for email and MCP", async () => {
+  it("skips OAuth callback routes for email and MCP and the MCP server route", async () => {
     const { configureMethodAuthorizers } = await import("../methods");
     const resources = {
       ApiResource: createResource("api", "RootResource"),
@@ -30,10 +30,12 @@ describe("configureMethodAuthorizers", () => {
       McpResource: createResource("mcp", "ApiResource"),
       McpOauthResource: createResource("oauth", "McpResource"),
       McpOauthCallbackResource: createResource("callback", "McpOauthResource"),
+      McpServerResource: createResource("{workspaceId}", "McpResource"),
       DiscordResource: createResource("discord", "ApiResource"),
       WorkspacesResource: createResource("workspaces", "ApiResource"),
       EmailOauthMethod: createMethod("EmailOauthCallbackResource"),
       McpOauthMethod: createMethod("McpOauthCallbackResource"),
+      McpServerMethod: createMethod("McpServerResource"),
       DiscordMethod: createMethod("DiscordResource"),
       HealthMethod: createMethod("HealthResource"),
       WorkspacesMethod: createMethod("WorkspacesResource"),
@@ -54,6 +56,11 @@ describe("configureMethodAuthorizers", () => {
       AuthorizationType?: string;
       AuthorizerId?: unknown;
     };
+    const mcpServerMethod = updated.Resources.McpServerMethod
+      .Properties as {
+      AuthorizationType?: string;
+      AuthorizerId?: unknown;
+    };
     const discordMethod = updated.Resources.DiscordMethod
       .Properties as {
       AuthorizationType?: string;
@@ -74,6 +81,8 @@ describe("configureMethodAuthorizers", () => {
     expect(emailMethod.AuthorizerId).toBeUndefined();
     expect(mcpMethod.AuthorizationType).toBeUndefined();
     expect(mcpMethod.AuthorizerId).toBeUndefined();
+    expect(mcpServerMethod.AuthorizationType).toBeUndefined();
+    expect(mcpServerMethod.AuthorizerId).toBeUndefined();
     expect(discordMethod.AuthorizationType).toBeUndefined();
     expect(discordMethod.AuthorizerId).toBeUndefined();
     expect(healthMethod.AuthorizationType).toBeUndefined();
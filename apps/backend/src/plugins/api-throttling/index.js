@@ -338,9 +338,10 @@ async function configureApiThrottling({ cloudformation, inventory, arc }) {
         // For REQUEST authorizers, IdentitySource specifies which parts of the request to pass
         // Configure to forward Authorization header so the authorizer can access Bearer tokens
         // Include resourcePath to avoid caching across different routes with empty auth headers
+        // Include sourceIp so user API key IP allowlists aren't bypassed by cached results
         // Note: Header names must be lowercase in IdentitySource
         IdentitySource:
-          "method.request.header.authorization,context.resourcePath",
+          "method.request.header.authorization,context.resourcePath,context.identity.sourceIp",
         AuthorizerResultTtlInSeconds: 300,
       },
     };
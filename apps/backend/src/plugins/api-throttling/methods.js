@@ -15,8 +15,9 @@ function configureMethodAuthorizers(cloudformation, authorizerId) {
         ? getPathFromResourceId(resources, resource.Properties.ResourceId)
         : null;
 
-      // Skip auth routes, authorizer route, webhook route, scrape route, user routes, OAuth callbacks, and Discord interactions
+      // Skip auth routes, authorizer route, webhook route, MCP server route, scrape route, user routes, OAuth callbacks, and Discord interactions
       // Webhook route has its own authentication (webhook key validation)
+      // MCP server route has its own authentication (user API key or agent key validation)
       // Scrape route has its own authentication (JWT token validation)
       // User routes handle their own authentication (cookie-based for migration, refresh tokens, etc.)
       if (
@@ -24,7 +25,7 @@ function configureMethodAuthorizers(cloudformation, authorizerId) {
         (path.startsWith("/api/auth") ||
           path.startsWith("/api/authorizer") ||
           path.startsWith("/api/email/oauth") ||
-          path.startsWith("/api/mcp/oauth") ||
+          path.startsWith("/api/mcp/") ||
           path.startsWith("/api/webhook") ||
           path.startsWith("/api/discord") ||
           path.startsWith("/api/scrape") ||
@@ -2,12 +2,17 @@ import type { SQSEvent, SQSRecord } from "aws-lambda";
 import { describe, it, expect, vi, beforeEach } from "vitest";
 
 // Mock dependencies using vi.hoisted to ensure they're set up before imports
-const { mockDatabase, mockExecuteEvaluation, mockGetCurrentSQSContext } =
-  vi.hoisted(() => ({
-    mockDatabase: vi.fn(),
-    mockExecuteEvaluation: vi.fn(),
-    mockGetCurrentSQSContext: vi.fn(),
-  }));
+const {
+  mockDatabase,
+  mockExecuteEvaluation,
+  mockExecuteEvalDatasetCase,
+  mockGetCurrentSQSContext,
+} = vi.hoisted(() => ({
+  mockDatabase: vi.fn(),
+  mockExecuteEvaluation: vi.fn(),
+  mockExecuteEvalDatasetCase: vi.fn(),
+  mockGetCurrentSQSContext: vi.fn(),
+}));
 
 // Mock the database module - index.ts imports from "../../tables" which exports database
 vi.mock("../../tables", () => ({
@@ -27,6 +32,10 @@ vi.mock("../../../utils/evalExecution", () => ({
   executeEvaluation: mockExecuteEvaluation,
 }));
 
+vi.mock("../../../utils/evalDatasetExecution", () => ({
+  executeEvalDatasetCase: mockExecuteEvalDatasetCase,
+}));
+
 import { handler } from "../index";
 
 // Mock workspaceCreditContext functions - following pattern from openrouter-cost-verification-queue test
@@ -147,6 +156,45 @@ describe("agent-eval-queue handler", () => {
     expect(result).toEqual({ batchItemFailures: [] }); // No failed messages
   });
 
+  it("should run eval dataset cases", async () => {
+    const record: SQSRecord = {
+      messageId: "msg-1",
+      receiptHandle: "receipt-1",
+      body: JSON.stringify({
+        workspaceId: "workspace-123",
+        agentId: "agent-456",
+        runId: "run-1",
+        caseId: "case-1",
+      }),
+      attributes: {
+        ApproximateReceiveCount: "1",
+        SentTimestamp: "1234567890000",
+        SenderId: "test-sender",
+        ApproximateFirstReceiveTimestamp: "1234567890000",
+      },
+      messageAttributes: {},
+      md5OfBody: "",
+      eventSource: "aws:sqs",
+      eventSourceARN: "arn:aws:sqs:region:account:queue",
+      awsRegion: "eu-west-2",
+    };
+
+    const result = await handler({ Records: [record] });
+
+    expect(mockExecuteEvaluation).not.toHaveBeenCalled();
+    expect(mockExecuteEvalDatasetCase).toHaveBeenCalledWith(
+      expect.anything(),
+      {
+        workspaceId: "workspace-123",
+        agentId: "agent-456",
+        runId: "run-1",
+        caseId: "case-1",
+      },
+      expect.objectContaining({ awsRequestId: "msg-1" }),
+    );
+    expect(result).toEqual({ batchItemFailures: [] });
+  });
+
   it("should process multiple evaluation tasks", async () => {
     const record1: SQSRecord = {
       messageId: "msg-1",
@@ -1,6 +1,8 @@
 import type { SQSRecord } from "aws-lambda";
 
 import { database } from "../../tables";
+import { EvalDatasetCaseMessageSchema } from "../../utils/evalDataset";
+import { executeEvalDatasetCase } from "../../utils/evalDatasetExecution";
 import { executeEvaluation } from "../../utils/evalExecution";
 import { handlingSQSErrors } from "../../utils/handlingSQSErrors";
 import { initSentry } from "../../utils/sentry";
@@ -32,9 +34,9 @@ async function processEvalTask(record: SQSRecord): Promise<void> {
 
   const db = await database();
 
-  let message: EvalTaskMessage;
+  let body: unknown;
   try {
-    message = JSON.parse(record.body) as EvalTaskMessage;
+    body = JSON.parse(record.body);
   } catch (error) {
     console.error("[Eval Queue] Failed to parse message body:", {
       error: error instanceof Error ? error.message : String(error),
@@ -43,6 +45,18 @@ async function processEvalTask(record: SQSRecord): Promise<void> {
     throw error;
   }
 
+  // Cases of offline eval dataset runs share the queue with live evaluations
+  const datasetCase = EvalDatasetCaseMessageSchema.safeParse(body);
+  if (datasetCase.success) {
+    console.log("[Eval Queue] Processing eval dataset case:", {
+      ...datasetCase.data,
+      messageId: record.messageId,
+    });
+    await executeEvalDatasetCase(db, datasetCase.data, context);
+    return;
+  }
+  const message = body as EvalTaskMessage;
+
   const { workspaceId, agentId, conversationId, judgeId } = message;
 
   console.log("[Eval Queue] Processing evaluation task:", {
@@ -18,13 +18,27 @@ import {
   cleanupRequestTimeout,
 } from "../../http/utils/requestTimeout";
 import { database } from "../../tables";
-import { buildAgentSchedulePk } from "../../utils/agentSchedule";
+import {
+  DEFAULT_SCHEDULE_TIMEZONE,
+  buildAgentSchedulePk,
+} from "../../utils/agentSchedule";
+import {
+  completeAgentScheduleRun,
+  startAgentScheduleRun,
+  type AgentScheduleRunKey,
+} from "../../utils/agentScheduleRun";
 import {
   buildConversationErrorInfo,
   startConversation,
 } from "../../utils/conversationLogger";
 import { handlingSQSErrors } from "../../utils/handlingSQSErrors";
 import { getMaxCharsForPromptSegment } from "../../utils/pricing";
+import { deliverScheduleResult } from "../../utils/scheduleDelivery";
+import {
+  buildSchedulePromptVariables,
+  renderSchedulePrompt,
+  summarizeRunOutput,
+} from "../../utils/scheduleTemplate";
 import { Sentry, ensureError, initSentry } from "../../utils/sentry";
 import { getCurrentSQSContext } from "../../utils/workspaceCreditContext";
 
@@ -87,6 +101,34 @@ async function persistScheduleConversationError(params: {
   }
 }
 
+/**
+ * Run history is informational: failing to write it must not fail the run
+ */
+async function recordScheduleRun<T>(
+  operation: "start-run" | "complete-run",
+  extra: Record<string, unknown>,
+  write: () => Promise<T>
+): Promise<T | undefined> {
+  try {
+    return await write();
+  } catch (error) {
+    console.error("[Schedule Queue] Failed to record schedule run:", {
+      operation,
+      error: error instanceof Error ? error.message : String(error),
+      ...extra,
+    });
+    Sentry.captureException(ensureError(error), {
+      tags: {
+        context: "agent-schedule-queue",
+        operation,
+      },
+      extra,
+      level: "warning",
+    });
+    return undefined;
+  }
+}
+
 async function processScheduleExecution(record: SQSRecord): Promise<void> {
   const messageId = record.messageId || "unknown";
   const context = getCurrentSQSContext(messageId);
@@ -164,7 +206,24 @@ async function processScheduleExecution(record: SQSRecord): Promise<void> {
     "openrouter",
     effectiveModelName,
   );
-  const rawPrompt = schedule.prompt;
+  const timezone = schedule.timezone ?? DEFAULT_SCHEDULE_TIMEZONE;
+  const agentName = agent.name;
+  const workspace = await db.workspace.get(
+    `workspaces/${workspaceId}`,
+    "workspace"
+  );
+  const rawPrompt = renderSchedulePrompt(
+    schedule.prompt,
+    buildSchedulePromptVariables({
+      now: new Date(),
+      timezone,
+      lastRunAt: schedule.lastRunAt,
+      lastRunSummary: schedule.lastRunSummary,
+      workspaceName: workspace?.name ?? "",
+      agentName,
+      scheduleName: schedule.name,
+    })
+  );
   const prompt =
     rawPrompt.length <= maxSchedulePromptChars
       ? rawPrompt
@@ -180,6 +239,18 @@ async function processScheduleExecution(record: SQSRecord): Promise<void> {
     });
   }
   const conversationId = randomUUID();
+  const runLogExtra = { scheduleId, workspaceId, agentId, conversationId };
+  const run: AgentScheduleRunKey | undefined = await recordScheduleRun(
+    "start-run",
+    runLogExtra,
+    () =>
+      startAgentScheduleRun(db, {
+        workspaceId,
+        agentId,
+        scheduleId,
+        conversationId,
+      })
+  );
   const requestTimeout = createRequestTimeout();
 
   try {
@@ -210,7 +281,7 @@ async function processScheduleExecution(record: SQSRecord): Promise<void> {
       "scheduled"
     );
 
-    const { agent, usesByok } = await setupAgentAndTools(
+    const { agent, usesByok: agentUsesByok } = await setupAgentAndTools(
       workspaceId,
       agentId,
       [],
@@ -221,10 +292,12 @@ async function processScheduleExecution(record: SQSRecord): Promise<void> {
         context,
       }
     );
+    // Also set for custom endpoint models, which cost no credits either
+    const usesByok = agentResult.usesByok ?? agentUsesByok;
+    // The answering model differs from the agent's model after a fallback
     const finalModelName =
-      typeof agent.modelName === "string"
-        ? agent.modelName
-        : MODEL_NAME;
+      agentResult.modelName ??
+      (typeof agent.modelName === "string" ? agent.modelName : MODEL_NAME);
 
     const userMessage = convertTextToUIMessage(prompt);
     // Use observer when we have events or assistant text so we never persist only the
@@ -271,12 +344,69 @@ async function processScheduleExecution(record: SQSRecord): Promise<void> {
       context,
     });
 
+    const lastRunSummary = summarizeRunOutput(agentResult.text);
     await db["agent-schedule"].update({
       pk: schedule.pk,
       sk: schedule.sk,
       lastRunAt: new Date().toISOString(),
+      ...(lastRunSummary && { lastRunSummary }),
     });
 
+    // Delivery failures are recorded on the run but do not fail it:
+    // retrying the message would run the agent (and charge for it) again
+    let delivery:
+      | { status: "sent" }
+      | { status: "failed"; error: string }
+      | undefined;
+    if (schedule.delivery) {
+      try {
+        if (!lastRunSummary) {
+          throw new Error("The run produced no answer to deliver");
+        }
+        await deliverScheduleResult(db, {
+          workspaceId,
+          agentId,
+          agentName,
+          scheduleName: schedule.name,
+          timezone,
+          delivery: schedule.delivery,
+          content: agentResult.text.trim(),
+          conversationId,
+          costUsd: agentResult.provisionalCostUsd,
+        });
+        delivery = { status: "sent" };
+      } catch (deliveryError) {
+        const message =
+          deliveryError instanceof Error
+            ? deliveryError.message
+            : String(deliveryError);
+        console.error("[Schedule Queue] Failed to deliver schedule result:", {
+          ...runLogExtra,
+          deliveryType: schedule.delivery.type,
+          error: message,
+        });
+        Sentry.captureException(ensureError(deliveryError), {
+          tags: {
+            context: "agent-schedule-queue",
+            operation: "deliver-result",
+          },
+          extra: { ...runLogExtra, deliveryType: schedule.delivery.type },
+          level: "warning",
+        });
+        delivery = { status: "failed", error: message };
+      }
+    }
+
+    if (run) {
+      await recordScheduleRun("complete-run", runLogExtra, () =>
+        completeAgentScheduleRun(db, run, {
+          status: "succeeded",
+          costUsd: agentResult.provisionalCostUsd,
+          delivery,
+        })
+      );
+    }
+
     console.log("[Schedule Queue] Schedule execution completed:", {
       scheduleId,
       workspaceId,
@@ -291,6 +421,12 @@ async function processScheduleExecution(record: SQSRecord): Promise<void> {
       error: error instanceof Error ? error.message : String(error),
     });
 
+    if (run) {
+      await recordScheduleRun("complete-run", runLogExtra, () =>
+        completeAgentScheduleRun(db, run, { status: "failed", error })
+      );
+    }
+
     await persistScheduleConversationError({
       db,
       workspaceId,
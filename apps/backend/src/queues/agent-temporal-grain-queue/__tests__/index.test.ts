@@ -10,6 +10,7 @@ import { handler } from "../index";
 // Mock dependencies
 vi.mock("@lancedb/lancedb", () => ({
   connect: vi.fn(),
+  Index: { fts: vi.fn(() => ({ type: "fts" })) },
 }));
 
 vi.mock("../../../utils/vectordb/paths", () => ({
@@ -250,11 +251,73 @@ describe("agent-temporal-grain-queue handler", () => {
             documentId: "",
             documentName: "",
             folderPath: "",
+            anchor: "",
           },
         ]);
         expect(result).toEqual({ batchItemFailures: [] });
       });
 
+      it("should add missing metadata columns to an existing table", async () => {
+        const { connect } = await import("@lancedb/lancedb");
+        const mockConnect = vi.mocked(connect);
+
+        const records: FactRecord[] = [
+          {
+            id: "record-1",
+            content: "Test content",
+            embedding: [0.1, 0.2, 0.3],
+            timestamp: "2024-01-01T00:00:00Z",
+            metadata: { anchor: "page 3" },
+          },
+        ];
+
+        const mockAdd = vi.fn().mockResolvedValue(undefined);
+        const mockAddColumns = vi.fn().mockResolvedValue(undefined);
+        const mockOpenTable = vi.fn().mockResolvedValue({
+          add: mockAdd,
+          addColumns: mockAddColumns,
+          schema: vi.fn().mockResolvedValue({
+            fields: [
+              "id",
+              "content",
+              "vector",
+              "timestamp",
+              "conversationId",
+              "workspaceId",
+              "agentId",
+              "documentId",
+              "documentName",
+              "folderPath",
+            ].map((name) => ({ name })),
+          }),
+        });
+
+        mockConnect.mockResolvedValue({
+          openTable: mockOpenTable,
+          createTable: vi.fn(),
+        } as unknown as Awaited<ReturnType<typeof connect>>);
+
+        const message: WriteOperationMessage = {
+          operation: "insert",
+          agentId: "agent-123",
+          temporalGrain: "docs",
+          data: { records },
+        };
+
+        const result = await handler(createSQSEvent([message]));
+
+        expect(mockAddColumns).toHaveBeenCalledWith([
+          { name: "anchor", valueSql: "''" },
+        ]);
+        expect(mockAddColumns.mock.invocationCallOrder[0]).toBeLessThan(
+          mockAdd.mock.invocationCallOrder[0]
+        );
+        expect(mockAdd).toHaveBeenCalledWith([
+          expect.objectContaining({ id: "record-1", anchor: "page 3" }),
+        ]);
+        expect(result).toEqual({ batchItemFailures: [] });
+      });
+
       it("should use BYOK key and skip charged reservations for rawFacts", async () => {
         mockResolveEmbeddingApiKey.mockResolvedValue({
           apiKey: "byok-key",
@@ -431,6 +494,90 @@ describe("agent-temporal-grain-queue handler", () => {
       });
     });
 
+    describe("docs full-text index", () => {
+      const docsMessage: WriteOperationMessage = {
+        operation: "insert",
+        agentId: "workspace-123",
+        temporalGrain: "docs",
+        data: {
+          records: [
+            {
+              id: "doc-1:0",
+              content: "Error ERR-4012",
+              embedding: [0.1, 0.2, 0.3],
+              timestamp: "2024-01-01T00:00:00Z",
+            },
+          ],
+        },
+      };
+
+      it("should create a full-text index on content for the docs grain", async () => {
+        const { connect } = await import("@lancedb/lancedb");
+        const mockConnect = vi.mocked(connect);
+
+        const mockCreateIndex = vi.fn().mockResolvedValue(undefined);
+        const mockOpenTable = vi.fn().mockResolvedValue({
+          add: vi.fn().mockResolvedValue(undefined),
+          listIndices: vi.fn().mockResolvedValue([]),
+          createIndex: mockCreateIndex,
+        });
+        mockConnect.mockResolvedValue({
+          openTable: mockOpenTable,
+          createTable: vi.fn(),
+        } as unknown as Awaited<ReturnType<typeof connect>>);
+
+        const result = await handler(createSQSEvent([docsMessage]));
+
+        expect(mockCreateIndex).toHaveBeenCalledWith("content", {
+          config: { type: "fts" },
+        });
+        expect(result).toEqual({ batchItemFailures: [] });
+      });
+
+      it("should not recreate an existing full-text index", async () => {
+        const { connect } = await import("@lancedb/lancedb");
+        const mockConnect = vi.mocked(connect);
+
+        const mockCreateIndex = vi.fn().mockResolvedValue(undefined);
+        const mockOpenTable = vi.fn().mockResolvedValue({
+          add: vi.fn().mockResolvedValue(undefined),
+          listIndices: vi
+            .fn()
+            .mockResolvedValue([{ name: "content_idx", columns: ["content"] }]),
+          createIndex: mockCreateIndex,
+        });
+        mockConnect.mockResolvedValue({
+          openTable: mockOpenTable,
+          createTable: vi.fn(),
+        } as unknown as Awaited<ReturnType<typeof connect>>);
+
+        await handler(createSQSEvent([docsMessage]));
+
+        expect(mockCreateIndex).not.toHaveBeenCalled();
+      });
+
+      it("should keep the write when index creation fails", async () => {
+        const { connect } = await import("@lancedb/lancedb");
+        const mockConnect = vi.mocked(connect);
+
+        const mockAdd = vi.fn().mockResolvedValue(undefined);
+        const mockOpenTable = vi.fn().mockResolvedValue({
+          add: mockAdd,
+          listIndices: vi.fn().mockResolvedValue([]),
+          createIndex: vi.fn().mockRejectedValue(new Error("index failed")),
+        });
+        mockConnect.mockResolvedValue({
+          openTable: mockOpenTable,
+          createTable: vi.fn(),
+        } as unknown as Awaited<ReturnType<typeof connect>>);
+
+        const result = await handler(createSQSEvent([docsMessage]));
+
+        expect(mockAdd).toHaveBeenCalled();
+        expect(result).toEqual({ batchItemFailures: [] });
+      });
+    });
+
     describe("update operation", () => {
       it("should process update operation", async () => {
         const { connect } = await import("@lancedb/lancedb");
@@ -735,6 +882,7 @@ describe("agent-temporal-grain-queue handler", () => {
             documentId: "",
             documentName: "",
             folderPath: "",
+            anchor: "",
           },
         ]);
         expect(result).toEqual({ batchItemFailures: [] });
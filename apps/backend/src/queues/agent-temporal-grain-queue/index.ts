@@ -1,4 +1,4 @@
-import { connect } from "@lancedb/lancedb";
+import { Index, connect } from "@lancedb/lancedb";
 import type { SQSEvent, SQSRecord } from "aws-lambda";
 
 import { database } from "../../tables";
@@ -298,6 +298,7 @@ function normalizeRecordSchema(r: FactRecord): {
   documentId: string;
   documentName: string;
   folderPath: string;
+  anchor: string;
 } {
   // Extract metadata fields and store them at the top level
   // LanceDB doesn't handle nested metadata objects well, so we flatten the structure
@@ -308,6 +309,7 @@ function normalizeRecordSchema(r: FactRecord): {
   let documentId = "";
   let documentName = "";
   let folderPath = "";
+  let anchor = "";
 
   if (
     r.metadata &&
@@ -328,6 +330,7 @@ function normalizeRecordSchema(r: FactRecord): {
       documentId = String(parsed.documentId || "");
       documentName = String(parsed.documentName || "");
       folderPath = String(parsed.folderPath || "");
+      anchor = String(parsed.anchor || "");
     } catch {
       // Fallback to direct access if JSON fails
       conversationId = String(r.metadata.conversationId || "");
@@ -336,6 +339,7 @@ function normalizeRecordSchema(r: FactRecord): {
       documentId = String(r.metadata.documentId || "");
       documentName = String(r.metadata.documentName || "");
       folderPath = String(r.metadata.folderPath || "");
+      anchor = String(r.metadata.anchor || "");
     }
   }
 
@@ -352,9 +356,80 @@ function normalizeRecordSchema(r: FactRecord): {
     documentId,
     documentName,
     folderPath,
+    anchor,
   };
 }
 
+type VectorsTable = Awaited<
+  ReturnType<Awaited<ReturnType<typeof connect>>["openTable"]>
+>;
+
+/**
+ * Add any top-level columns that the normalized records carry but an existing
+ * table was created without (e.g. "anchor" for document snippets).
+ * New string columns are back-filled with empty strings so the schema stays consistent.
+ */
+async function ensureTableColumns(
+  table: VectorsTable,
+  records: Array<Record<string, unknown>>,
+): Promise<void> {
+  if (records.length === 0) {
+    return;
+  }
+  let existingFields: Set<string>;
+  try {
+    const schema = await table.schema();
+    existingFields = new Set(schema.fields.map((field) => field.name));
+  } catch (error) {
+    console.warn(
+      `[Write Server] Could not read table schema, skipping column check:`,
+      error instanceof Error ? error.message : String(error),
+    );
+    return;
+  }
+  const missingColumns = Object.keys(records[0]).filter(
+    (column) =>
+      !existingFields.has(column) && typeof records[0][column] === "string",
+  );
+  if (missingColumns.length === 0) {
+    return;
+  }
+  console.log(
+    `[Write Server] Adding missing columns to table: ${missingColumns.join(", ")}`,
+  );
+  await table.addColumns(
+    missingColumns.map((name) => ({ name, valueSql: "''" })),
+  );
+}
+
+/**
+ * Make sure the docs grain has a BM25 full-text index on "content" for keyword and hybrid
+ * document search. The index is only created once; rows added later are still found because
+ * LanceDB searches unindexed rows with a flat scan. Failures are logged, not thrown: the
+ * vectors are already written and the next docs write retries.
+ */
+async function ensureFullTextIndex(
+  table: VectorsTable,
+  temporalGrain: TemporalGrain,
+): Promise<void> {
+  if (temporalGrain !== "docs") {
+    return;
+  }
+  try {
+    const indices = await table.listIndices();
+    if (indices.some((index) => index.columns.includes("content"))) {
+      return;
+    }
+    await table.createIndex("content", { config: Index.fts() });
+    console.log(`[Write Server] Created full-text index on "content"`);
+  } catch (error) {
+    console.warn(
+      `[Write Server] Could not create full-text index, keyword search will miss this table until the next write:`,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
 /**
  * Execute insert operation on LanceDB database
  */
@@ -364,6 +439,7 @@ async function executeInsert(
   records: FactRecord[],
   rawFacts?: RawFactData[],
   embeddingContext?: EmbeddingGenerationContext,
+  partitionKey?: string,
 ): Promise<void> {
   // If rawFacts are provided, generate embeddings first
   let finalRecords = records;
@@ -387,7 +463,7 @@ async function executeInsert(
     );
     return;
   }
-  const uri = getDatabaseUri(agentId, temporalGrain);
+  const uri = getDatabaseUri(agentId, temporalGrain, partitionKey);
   console.log(
     `[Write Server] Executing insert for agent ${agentId}, grain ${temporalGrain}, ${finalRecords.length} records, URI: ${uri}`,
   );
@@ -452,6 +528,7 @@ async function executeInsert(
       console.log(
         `[Write Server] Successfully inserted ${initialRecords.length} records into newly created table for agent ${agentId}, grain ${temporalGrain}`,
       );
+      await ensureFullTextIndex(table, temporalGrain);
       return;
     }
 
@@ -479,7 +556,9 @@ async function executeInsert(
         ),
       );
     }
+    await ensureTableColumns(table, recordsToInsert);
     await table.add(recordsToInsert);
+    await ensureFullTextIndex(table, temporalGrain);
 
     console.log(
       `[Write Server] Successfully inserted ${finalRecords.length} records into database for agent ${agentId}, grain ${temporalGrain}`,
@@ -497,8 +576,9 @@ async function executeUpdate(
   agentId: string,
   temporalGrain: TemporalGrain,
   records: FactRecord[],
+  partitionKey?: string,
 ): Promise<void> {
-  const uri = getDatabaseUri(agentId, temporalGrain);
+  const uri = getDatabaseUri(agentId, temporalGrain, partitionKey);
   console.log(
     `[Write Server] Executing update for agent ${agentId}, grain ${temporalGrain}, ${records.length} records`,
   );
@@ -525,6 +605,7 @@ async function executeUpdate(
       console.log(
         `[Write Server] Created table "vectors" while updating for agent ${agentId}, grain ${temporalGrain}`,
       );
+      await ensureFullTextIndex(table, temporalGrain);
       return;
     }
 
@@ -539,7 +620,10 @@ async function executeUpdate(
 
     // Insert updated records with flattened metadata
     // Use normalizeRecordSchema to ensure all records have the same schema structure
-    await table.add(records.map((r) => normalizeRecordSchema(r)));
+    const updatedRecords = records.map((r) => normalizeRecordSchema(r));
+    await ensureTableColumns(table, updatedRecords);
+    await table.add(updatedRecords);
+    await ensureFullTextIndex(table, temporalGrain);
 
     console.log(
       `[Write Server] Successfully updated ${records.length} records`,
@@ -557,8 +641,9 @@ async function executeDelete(
   agentId: string,
   temporalGrain: TemporalGrain,
   recordIds: string[],
+  partitionKey?: string,
 ): Promise<void> {
-  const uri = getDatabaseUri(agentId, temporalGrain);
+  const uri = getDatabaseUri(agentId, temporalGrain, partitionKey);
   console.log(
     `[Write Server] Executing delete for agent ${agentId}, grain ${temporalGrain}, ${recordIds.length} records`,
   );
@@ -589,8 +674,9 @@ async function executeDelete(
 async function executePurge(
   agentId: string,
   temporalGrain: TemporalGrain,
+  partitionKey?: string,
 ): Promise<void> {
-  const uri = getDatabaseUri(agentId, temporalGrain);
+  const uri = getDatabaseUri(agentId, temporalGrain, partitionKey);
   console.log(
     `[Write Server] Executing purge for agent ${agentId}, grain ${temporalGrain}`,
   );
@@ -674,7 +760,8 @@ async function processWriteOperation(record: SQSRecord): Promise<void> {
   }
 
   const message: WriteOperationMessage = validationResult.data;
-  const { operation, agentId, temporalGrain, data, workspaceId } = message;
+  const { operation, agentId, temporalGrain, data, workspaceId, partitionKey } =
+    message;
   const context = getCurrentSQSContext(messageId);
   const embeddingContext: EmbeddingGenerationContext = {
     workspaceId,
@@ -717,10 +804,18 @@ async function processWriteOperation(record: SQSRecord): Promise<void> {
           [], // No pre-generated records
           data.rawFacts,
           embeddingContext,
+          partitionKey,
         );
       } else if (data.records && data.records.length > 0) {
         // Use pre-generated embeddings
-        await executeInsert(agentId, temporalGrain, data.records);
+        await executeInsert(
+          agentId,
+          temporalGrain,
+          data.records,
+          undefined,
+          undefined,
+          partitionKey,
+        );
       } else {
         throw new Error("Insert operation requires either records or rawFacts");
       }
@@ -732,9 +827,10 @@ async function processWriteOperation(record: SQSRecord): Promise<void> {
           agentId,
           temporalGrain,
           await generateEmbeddingsForFacts(data.rawFacts, embeddingContext),
+          partitionKey,
         );
       } else if (data.records && data.records.length > 0) {
-        await executeUpdate(agentId, temporalGrain, data.records);
+        await executeUpdate(agentId, temporalGrain, data.records, partitionKey);
       } else {
         throw new Error("Update operation requires records or rawFacts");
       }
@@ -744,11 +840,16 @@ async function processWriteOperation(record: SQSRecord): Promise<void> {
       if (!data.recordIds) {
         throw new Error("Delete operation requires recordIds");
       }
-      await executeDelete(agentId, temporalGrain, data.recordIds);
+      await executeDelete(
+        agentId,
+        temporalGrain,
+        data.recordIds,
+        partitionKey,
+      );
       break;
 
     case "purge":
-      await executePurge(agentId, temporalGrain);
+      await executePurge(agentId, temporalGrain, partitionKey);
       break;
 
     default:
@@ -0,0 +1,97 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+
+import type { UIMessage } from "../../../utils/messageTypes";
+import {
+  buildStoredHistoryMessages,
+  resolveBotWebhookBaseUrl,
+  selectCurrentTurnMessages,
+} from "../botConversation";
+
+describe("buildStoredHistoryMessages", () => {
+  it("should keep only user and assistant text, limited to the last messages", () => {
+    const messages = [
+      { role: "system", content: "You are helpful" },
+      { role: "user", content: "First question" },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "First answer" },
+          { type: "tool-call", toolCallId: "1", toolName: "search", args: {} },
+        ],
+      },
+      { role: "tool", content: [] },
+      { role: "user", content: "Second question" },
+      { role: "assistant", content: "Second answer" },
+    ];
+
+    expect(buildStoredHistoryMessages(messages, 3)).toEqual([
+      { role: "assistant", content: "First answer" },
+      { role: "user", content: "Second question" },
+      { role: "assistant", content: "Second answer" },
+    ]);
+  });
+
+  it("should skip knowledge injection and empty messages", () => {
+    const messages = [
+      { role: "user", content: "Injected docs", knowledgeInjection: true },
+      { role: "assistant", content: "" },
+      { role: "user", content: "Question" },
+    ];
+
+    expect(buildStoredHistoryMessages(messages, 10)).toEqual([
+      { role: "user", content: "Question" },
+    ]);
+  });
+
+  it("should return no history when the count is 0", () => {
+    expect(
+      buildStoredHistoryMessages([{ role: "user", content: "Question" }], 0)
+    ).toEqual([]);
+  });
+});
+
+describe("selectCurrentTurnMessages", () => {
+  it("should return messages from the last matching user message", () => {
+    const messages = [
+      { role: "user", content: "Hello" },
+      { role: "assistant", content: "Hi" },
+      { role: "user", content: "Hello" },
+      { role: "assistant", content: "Hi again" },
+    ] as UIMessage[];
+
+    expect(selectCurrentTurnMessages(messages, "Hello ")).toEqual([
+      { role: "user", content: "Hello" },
+      { role: "assistant", content: "Hi again" },
+    ]);
+  });
+
+  it("should return all messages when the user message is not found", () => {
+    const messages = [
+      { role: "user", content: "Something else" },
+      { role: "assistant", content: "Answer" },
+    ] as UIMessage[];
+
+    expect(selectCurrentTurnMessages(messages, "Hello")).toEqual(messages);
+  });
+});
+
+describe("resolveBotWebhookBaseUrl", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should prefer WEBHOOK_BASE_URL over BASE_URL", () => {
+    vi.stubEnv("WEBHOOK_BASE_URL", "https://webhooks.example.com");
+    vi.stubEnv("BASE_URL", "https://app.example.com");
+
+    expect(resolveBotWebhookBaseUrl()).toBe("https://webhooks.example.com");
+  });
+
+  it("should fall back to the production API URL", () => {
+    vi.stubEnv("WEBHOOK_BASE_URL", "");
+    vi.stubEnv("BASE_URL", "");
+    vi.stubEnv("ARC_ENV", "production");
+
+    expect(resolveBotWebhookBaseUrl()).toBe("https://api.helpmaton.com");
+  });
+});
@@ -3,6 +3,7 @@ import { describe, expect, it } from "vitest";
 import {
   buildSlackChannelHistoryMessages,
   buildSlackThreadHistoryMessages,
+  findSlackReplyMetadata,
 } from "../slackTask";
 
 describe("slackTask history helpers", () => {
@@ -49,3 +50,33 @@ describe("slackTask history helpers", () => {
     ]);
   });
 });
+
+describe("findSlackReplyMetadata", () => {
+  const reply = {
+    ts: "2",
+    text: "Agent reply",
+    bot_id: "B1",
+    metadata: {
+      event_type: "helpmaton_reply",
+      event_payload: { conversationId: "conv-1", messageId: "req-1" },
+    },
+  };
+
+  it("reads the rated reply of the message with the given ts", () => {
+    const messages = [{ ts: "1", text: "Question", user: "U1" }, reply];
+
+    expect(findSlackReplyMetadata(messages, "2")).toEqual({
+      conversationId: "conv-1",
+      messageId: "req-1",
+    });
+    expect(findSlackReplyMetadata(messages, "1")).toBeUndefined();
+  });
+
+  it("ignores metadata of other apps", () => {
+    const messages = [
+      { ...reply, metadata: { ...reply.metadata, event_type: "other_app" } },
+    ];
+
+    expect(findSlackReplyMetadata(messages, "2")).toBeUndefined();
+  });
+});
@@ -0,0 +1,545 @@
+import { callAgentNonStreaming } from "../../http/utils/agentCallNonStreaming";
+// eslint-disable-next-line import/order
+import { executeWithRequestLimits } from "../../http/utils/nonStreamingRequestLimits";
+import { reconstructToolCallsFromResults } from "../../http/utils/generationToolReconstruction";
+import { buildConversationMessagesFromObserver } from "../../http/utils/llmObserver";
+import { convertTextToUIMessage } from "../../http/utils/messageConversion";
+import {
+  formatToolCallMessage,
+  formatToolResultMessage,
+} from "../../http/utils/toolFormatting";
+import type { database } from "../../tables";
+import { runPeriodicTask } from "../../utils/asyncTasks";
+import {
+  startConversation,
+  updateConversation,
+} from "../../utils/conversationLogger";
+import { getRecord } from "../../utils/conversationRecords";
+import type { UIMessage } from "../../utils/messageTypes";
+import { Sentry, ensureError } from "../../utils/sentry";
+import type { ToolApprovalOrigin } from "../../utils/toolApproval";
+import type { getCurrentSQSContext } from "../../utils/workspaceCreditContext";
+
+/**
+ * Shared agent call and conversation logging for bot platforms whose APIs
+ * do not expose chat history to bots (Teams, Telegram). Their thread history
+ * is read back from the conversation we store for the chat instead.
+ */
+
+export type BotTaskContext = NonNullable<
+  Awaited<ReturnType<typeof getCurrentSQSContext>>
+>;
+
+type AssistantContentItem = Extract<
+  UIMessage,
+  { role: "assistant" }
+>["content"] extends string | Array<infer Item>
+  ? Item
+  : never;
+
+export function resolveBotWebhookBaseUrl(): string {
+  const webhookBaseFromEnv = process.env.WEBHOOK_BASE_URL?.trim();
+  const baseUrlFromEnv = process.env.BASE_URL?.trim();
+  if (webhookBaseFromEnv && webhookBaseFromEnv.length > 0) {
+    return webhookBaseFromEnv;
+  }
+  if (baseUrlFromEnv && baseUrlFromEnv.length > 0) {
+    return baseUrlFromEnv;
+  }
+  if (process.env.ARC_ENV === "production") {
+    return "https://api.helpmaton.com";
+  }
+  if (process.env.ARC_ENV === "staging") {
+    return "https://staging-api.helpmaton.com";
+  }
+  return "http://localhost:3333";
+}
+
+/**
+ * Periodically edits the placeholder message with the elapsed time until stopped
+ */
+export function startBotThinkingUpdates(params: {
+  platform: "teams" | "telegram";
+  intervalMs: number;
+  updateMessage: (text: string) => Promise<void>;
+  workspaceId: string;
+  agentId: string;
+  integrationId: string;
+}): {
+  stopThinkingUpdates: () => Promise<void>;
+} {
+  const { platform, intervalMs, updateMessage, workspaceId, agentId, integrationId } =
+    params;
+  const startTime = Date.now();
+  let isComplete = false;
+
+  const reportError = (operation: string, error: unknown) => {
+    console.error(
+      `[Bot Webhook Queue] Error in ${platform} thinking updates (${operation}):`,
+      error
+    );
+    Sentry.captureException(ensureError(error), {
+      tags: {
+        context: "bot-webhook-queue",
+        platform,
+        operation,
+      },
+      extra: {
+        workspaceId,
+        agentId,
+        integrationId,
+      },
+      level: "warning",
+    });
+  };
+
+  const updateLoopAbortController = new AbortController();
+  const updateLoopPromise = runPeriodicTask({
+    intervalMs,
+    task: async () => {
+      if (isComplete) {
+        return;
+      }
+      try {
+        const elapsed = Math.floor((Date.now() - startTime) / 1000);
+        await updateMessage(`Agent is thinking... (${elapsed}s)`);
+      } catch (error) {
+        reportError("update-thinking-message", error);
+      }
+    },
+    shouldContinue: () => !isComplete,
+    signal: updateLoopAbortController.signal,
+    onError: (error) => reportError("update-interval", error),
+  });
+
+  const stopThinkingUpdates = async (): Promise<void> => {
+    if (isComplete) {
+      return;
+    }
+    isComplete = true;
+    updateLoopAbortController.abort();
+    await updateLoopPromise;
+  };
+
+  return { stopThinkingUpdates };
+}
+
+function getMessageText(message: UIMessage): string {
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+  return message.content
+    .map((part) =>
+      typeof part === "object" &&
+      part !== null &&
+      "type" in part &&
+      part.type === "text" &&
+      "text" in part &&
+      typeof part.text === "string"
+        ? part.text
+        : ""
+    )
+    .join("")
+    .trim();
+}
+
+/**
+ * Reduces stored conversation messages to the last N user/assistant text turns
+ */
+export function buildStoredHistoryMessages(
+  messages: unknown[],
+  messageHistoryCount: number
+): UIMessage[] {
+  if (messageHistoryCount <= 0) {
+    return [];
+  }
+  return (messages as UIMessage[])
+    .filter(
+      (msg) =>
+        msg != null &&
+        typeof msg === "object" &&
+        (msg.role === "user" || msg.role === "assistant") &&
+        !("knowledgeInjection" in msg && msg.knowledgeInjection)
+    )
+    .map((msg): UIMessage => ({ role: msg.role, content: getMessageText(msg) }) as UIMessage)
+    .filter((msg) => (msg.content as string).length > 0)
+    .slice(-messageHistoryCount);
+}
+
+/**
+ * Loads the history of a bot chat from its stored conversation
+ */
+export async function loadStoredConversationHistory(params: {
+  db: Awaited<ReturnType<typeof database>>;
+  workspaceId: string;
+  agentId: string;
+  conversationId: string;
+  messageHistoryCount: number;
+}): Promise<UIMessage[]> {
+  const { db, workspaceId, agentId, conversationId, messageHistoryCount } =
+    params;
+  if (messageHistoryCount <= 0) {
+    return [];
+  }
+  const conversation = await getRecord(
+    db,
+    `conversations/${workspaceId}/${agentId}/${conversationId}`
+  );
+  if (!conversation) {
+    return [];
+  }
+  return buildStoredHistoryMessages(
+    conversation.messages || [],
+    messageHistoryCount
+  );
+}
+
+export async function executeBotAgentCall(params: {
+  workspaceId: string;
+  agentId: string;
+  messageText: string;
+  modelReferer: string;
+  conversationId: string;
+  context: BotTaskContext;
+  conversationHistory: UIMessage[];
+  toolApprovalOrigin: ToolApprovalOrigin;
+}): Promise<{
+  agentResult: Awaited<ReturnType<typeof callAgentNonStreaming>>;
+  generationStartedAt: string;
+  generationStartTime: number;
+}> {
+  const {
+    workspaceId,
+    agentId,
+    messageText,
+    modelReferer,
+    conversationId,
+    context,
+    conversationHistory,
+    toolApprovalOrigin,
+  } = params;
+
+  const { createRequestTimeout, cleanupRequestTimeout } = await import(
+    "../../http/utils/requestTimeout"
+  );
+  const requestTimeout = createRequestTimeout();
+  const generationStartTime = Date.now();
+  const generationStartedAt = new Date().toISOString();
+
+  try {
+    const agentResult = await executeWithRequestLimits({
+      workspaceId,
+      agentId,
+      endpoint: "webhook",
+      execute: () =>
+        callAgentNonStreaming(workspaceId, agentId, messageText, {
+          modelReferer,
+          conversationId,
+          context,
+          endpointType: "webhook",
+          conversationHistory,
+          abortSignal: requestTimeout.signal,
+          toolApprovalOrigin,
+        }),
+    });
+    return { agentResult, generationStartedAt, generationStartTime };
+  } finally {
+    cleanupRequestTimeout(requestTimeout);
+  }
+}
+
+export function extractBotToolingFromResult(options: {
+  rawResult?: unknown;
+  generationStartedAt?: string;
+}): {
+  toolCallsFromResult: unknown[];
+  toolResultsFromResult: unknown[];
+  reasoningFromSteps: Array<{ type: "reasoning"; text: string }>;
+} {
+  const reasoningFromSteps: Array<{ type: "reasoning"; text: string }> = [];
+  if (!options.rawResult) {
+    return {
+      toolCallsFromResult: [],
+      toolResultsFromResult: [],
+      reasoningFromSteps,
+    };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- AI SDK generateText result types are complex
+  const resultAny = options.rawResult as any;
+  const stepsValue = Array.isArray(resultAny.steps)
+    ? resultAny.steps
+    : resultAny._steps?.status?.value;
+
+  const toolCallsFromSteps: unknown[] = [];
+  const toolResultsFromSteps: unknown[] = [];
+
+  if (Array.isArray(stepsValue)) {
+    for (const step of stepsValue) {
+      if (!step?.content || !Array.isArray(step.content)) {
+        continue;
+      }
+      for (const contentItem of step.content) {
+        if (
+          typeof contentItem !== "object" ||
+          contentItem === null ||
+          !("type" in contentItem)
+        ) {
+          continue;
+        }
+        const hasToolIdentity =
+          typeof contentItem.toolCallId === "string" &&
+          typeof contentItem.toolName === "string" &&
+          contentItem.toolCallId &&
+          contentItem.toolName;
+        if (contentItem.type === "tool-call" && hasToolIdentity) {
+          toolCallsFromSteps.push({
+            toolCallId: contentItem.toolCallId,
+            toolName: contentItem.toolName,
+            args: contentItem.input || contentItem.args || {},
+            toolCallStartedAt: options.generationStartedAt,
+          });
+        } else if (contentItem.type === "tool-result" && hasToolIdentity) {
+          let resultValue = contentItem.output;
+          if (
+            typeof resultValue === "object" &&
+            resultValue !== null &&
+            "value" in resultValue
+          ) {
+            resultValue = resultValue.value;
+          }
+          toolResultsFromSteps.push({
+            toolCallId: contentItem.toolCallId,
+            toolName: contentItem.toolName,
+            output: resultValue || contentItem.output || contentItem.result,
+            result: resultValue || contentItem.result,
+          });
+        } else if (
+          contentItem.type === "reasoning" &&
+          typeof contentItem.text === "string"
+        ) {
+          reasoningFromSteps.push({ type: "reasoning", text: contentItem.text });
+        }
+      }
+    }
+  }
+
+  return {
+    toolCallsFromResult:
+      toolCallsFromSteps.length > 0
+        ? toolCallsFromSteps
+        : (options.rawResult as { toolCalls?: unknown[] }).toolCalls || [],
+    toolResultsFromResult:
+      toolResultsFromSteps.length > 0
+        ? toolResultsFromSteps
+        : (options.rawResult as { toolResults?: unknown[] }).toolResults || [],
+    reasoningFromSteps,
+  };
+}
+
+function buildBotAssistantContent(options: {
+  responseText: string;
+  toolCallsFromResult: unknown[];
+  toolResultsFromResult: unknown[];
+  reasoningFromSteps: Array<{ type: "reasoning"; text: string }>;
+  modelName?: string;
+}): AssistantContentItem[] {
+  const assistantContent: AssistantContentItem[] = [
+    ...options.reasoningFromSteps,
+  ];
+
+  for (const toolCallMsg of options.toolCallsFromResult.map(
+    formatToolCallMessage
+  )) {
+    if (Array.isArray(toolCallMsg.content)) {
+      assistantContent.push(...toolCallMsg.content);
+    }
+  }
+
+  for (const toolResult of options.toolResultsFromResult) {
+    const toolResultMsg = formatToolResultMessage(toolResult, {
+      provider: "openrouter",
+      modelName: options.modelName,
+    });
+    if (Array.isArray(toolResultMsg.content)) {
+      for (const contentItem of toolResultMsg.content) {
+        assistantContent.push(contentItem as AssistantContentItem);
+      }
+    }
+  }
+
+  if (options.responseText.trim().length > 0) {
+    assistantContent.push({ type: "text", text: options.responseText });
+  }
+
+  return assistantContent;
+}
+
+/**
+ * Keeps only the messages of the current turn (from the new user message on).
+ * The stored conversation already holds the history; re-sending the text-only
+ * history would not deduplicate against stored messages with tool content.
+ */
+export function selectCurrentTurnMessages(
+  messages: UIMessage[],
+  messageText: string
+): UIMessage[] {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (msg.role === "user" && getMessageText(msg) === messageText.trim()) {
+      return messages.slice(i);
+    }
+  }
+  return messages;
+}
+
+export async function logBotConversation(options: {
+  db: Awaited<ReturnType<typeof database>>;
+  workspaceId: string;
+  agentId: string;
+  messageText: string;
+  responseText: string;
+  agentResult: Awaited<ReturnType<typeof callAgentNonStreaming>>;
+  conversationHistory: UIMessage[];
+  conversationId: string;
+  modelReferer: string;
+  logLabel: string;
+  context: BotTaskContext;
+  generationStartedAt: string;
+  generationStartTime: number;
+}): Promise<void> {
+  const generationEndedAt = new Date().toISOString();
+  const generationTimeMs = Date.now() - options.generationStartTime;
+
+  const tooling = extractBotToolingFromResult({
+    rawResult: options.agentResult.rawResult,
+    generationStartedAt: options.generationStartedAt,
+  });
+  if (
+    tooling.toolCallsFromResult.length === 0 &&
+    tooling.toolResultsFromResult.length > 0
+  ) {
+    tooling.toolCallsFromResult = reconstructToolCallsFromResults(
+      tooling.toolResultsFromResult,
+      `Bot Webhook Queue (${options.logLabel})`
+    ) as unknown as typeof tooling.toolCallsFromResult;
+  }
+
+  const { setupAgentAndTools } = await import("../../http/utils/agentSetup");
+  const { agent, usesByok: agentUsesByok } = await setupAgentAndTools(
+    options.workspaceId,
+    options.agentId,
+    [],
+    {
+      modelReferer: options.modelReferer,
+      callDepth: 0,
+      maxDelegationDepth: 3,
+      context: options.context,
+    }
+  );
+  // Also set for custom endpoint models, which cost no credits either
+  const usesByok = options.agentResult.usesByok ?? agentUsesByok;
+  // The answering model differs from the agent's model after a fallback
+  const finalModelName =
+    options.agentResult.modelName ??
+    (typeof agent.modelName === "string"
+      ? agent.modelName
+      : "openrouter/gemini-2.0-flash-exp");
+
+  const assistantContent = buildBotAssistantContent({
+    responseText: options.responseText,
+    toolCallsFromResult: tooling.toolCallsFromResult,
+    toolResultsFromResult: tooling.toolResultsFromResult,
+    reasoningFromSteps: tooling.reasoningFromSteps,
+    modelName: finalModelName,
+  });
+
+  const userMessage = convertTextToUIMessage(options.messageText);
+  const messagesForLogging: UIMessage[] = options.agentResult.observerEvents
+    ? buildConversationMessagesFromObserver({
+        observerEvents: options.agentResult.observerEvents,
+        fallbackInputMessages: [...options.conversationHistory, userMessage],
+        assistantMeta: {
+          tokenUsage: options.agentResult.tokenUsage,
+          modelName: finalModelName,
+          provider: "openrouter",
+          openrouterGenerationId: options.agentResult.openrouterGenerationId,
+          provisionalCostUsd: options.agentResult.provisionalCostUsd,
+          generationTimeMs,
+        },
+      })
+    : [
+        userMessage,
+        {
+          role: "assistant",
+          content:
+            assistantContent.length > 0
+              ? assistantContent
+              : options.responseText || "",
+          ...(options.agentResult.tokenUsage && {
+            tokenUsage: options.agentResult.tokenUsage,
+          }),
+          modelName: finalModelName,
+          provider: "openrouter",
+          ...(options.agentResult.openrouterGenerationId && {
+            openrouterGenerationId: options.agentResult.openrouterGenerationId,
+          }),
+          ...(options.agentResult.provisionalCostUsd !== undefined && {
+            provisionalCostUsd: options.agentResult.provisionalCostUsd,
+          }),
+          generationTimeMs,
+          generationStartedAt: options.generationStartedAt,
+          generationEndedAt,
+        },
+      ];
+
+  const validMessages = selectCurrentTurnMessages(
+    messagesForLogging.filter(
+      (msg): msg is UIMessage =>
+        msg != null &&
+        typeof msg === "object" &&
+        "role" in msg &&
+        (msg.role === "user" ||
+          msg.role === "assistant" ||
+          msg.role === "system" ||
+          msg.role === "tool") &&
+        "content" in msg
+    ),
+    options.messageText
+  );
+
+  const conversationPk = `conversations/${options.workspaceId}/${options.agentId}/${options.conversationId}`;
+  const existingConversation = await getRecord(
+    options.db,
+    conversationPk,
+    undefined,
+    { enrichFromS3: false }
+  );
+
+  if (existingConversation) {
+    await updateConversation(
+      options.db,
+      options.workspaceId,
+      options.agentId,
+      options.conversationId,
+      validMessages,
+      options.agentResult.tokenUsage,
+      usesByok,
+      undefined,
+      undefined,
+      "webhook",
+      options.context
+    );
+  } else {
+    await startConversation(options.db, {
+      workspaceId: options.workspaceId,
+      agentId: options.agentId,
+      conversationId: options.conversationId,
+      conversationType: "webhook",
+      messages: validMessages,
+      tokenUsage: options.agentResult.tokenUsage,
+      usesByok,
+      context: options.context,
+    });
+  }
+}
@@ -0,0 +1,61 @@
+import { isBoom } from "@hapi/boom";
+
+import { database } from "../../tables";
+import type { BotWebhookTaskMessage } from "../../utils/botWebhookQueue";
+import {
+  recordConversationFeedback,
+  removeConversationFeedback,
+} from "../../utils/conversationFeedback";
+import { trackEvent } from "../../utils/tracking";
+
+/**
+ * Records or withdraws an end user's rating of an agent reply given in a chat platform.
+ * Ratings of replies whose conversation was not logged are dropped instead of retried.
+ */
+export async function applyBotFeedback(
+  message: BotWebhookTaskMessage & { platform: "slack" | "discord" },
+  reply: { conversationId: string; messageId: string }
+): Promise<void> {
+  const { workspaceId, agentId, feedback } = message;
+  if (!feedback) {
+    throw new Error("Missing feedback in bot feedback task");
+  }
+
+  const db = await database();
+  const params = {
+    workspaceId,
+    agentId,
+    conversationId: reply.conversationId,
+    messageId: reply.messageId,
+    rating: feedback.rating,
+    source: message.platform,
+    userId: feedback.userId,
+  };
+  try {
+    if (feedback.removed) {
+      await removeConversationFeedback(db, params);
+    } else {
+      await recordConversationFeedback(db, params);
+    }
+  } catch (error) {
+    if (isBoom(error) && error.output.statusCode === 404) {
+      console.warn("[Bot Webhook Queue] Dropping feedback:", {
+        error: error.message,
+        workspaceId,
+        agentId,
+        conversationId: reply.conversationId,
+      });
+      return;
+    }
+    throw error;
+  }
+
+  trackEvent("bot_feedback_received", {
+    workspace_id: workspaceId,
+    integration_id: message.integrationId,
+    platform: message.platform,
+    agent_id: agentId,
+    rating: feedback.rating,
+    removed: !!feedback.removed,
+  });
+}
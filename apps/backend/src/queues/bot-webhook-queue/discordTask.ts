@@ -1,6 +1,9 @@
 import { randomUUID } from "crypto";
 
-import { updateDiscordMessage } from "../../http/any-api-webhooks-000type-000workspaceId-000integrationId/services/discordResponse";
+import {
+  buildDiscordFeedbackComponents,
+  updateDiscordMessage,
+} from "../../http/any-api-webhooks-000type-000workspaceId-000integrationId/services/discordResponse";
 import { callAgentNonStreaming } from "../../http/utils/agentCallNonStreaming";
 // eslint-disable-next-line import/order
 import { executeWithRequestLimits } from "../../http/utils/nonStreamingRequestLimits";
@@ -27,6 +30,8 @@ import { Sentry, ensureError } from "../../utils/sentry";
 import { trackEvent } from "../../utils/tracking";
 import { getCurrentSQSContext } from "../../utils/workspaceCreditContext";
 
+import { applyBotFeedback } from "./botFeedback";
+
 type DiscordTaskContext = NonNullable<
   Awaited<ReturnType<typeof getCurrentSQSContext>>
 >;
@@ -436,6 +441,7 @@ async function logDiscordConversation(options: {
   finalConversationId: string;
   baseUrl: string;
   context: DiscordTaskContext;
+  endUserId?: string;
   generationTimeMs?: number;
   generationStartedAt?: string;
   generationEndedAt?: string;
@@ -455,12 +461,17 @@ async function logDiscordConversation(options: {
     ) as unknown as typeof tooling.toolCallsFromResult;
   }
 
-  const { finalModelName, usesByok } = await getDiscordAgentInfo({
+  const agentInfo = await getDiscordAgentInfo({
     workspaceId: options.workspaceId,
     agentId: options.agentId,
     baseUrl: options.baseUrl,
     context: options.context,
   });
+  // Also set for custom endpoint models, which cost no credits either
+  const usesByok = options.agentResult.usesByok ?? agentInfo.usesByok;
+  // The answering model differs from the agent's model after a fallback
+  const finalModelName =
+    options.agentResult.modelName ?? agentInfo.finalModelName;
 
   const assistantContent = buildDiscordAssistantContent({
     responseText: options.responseText,
@@ -545,9 +556,11 @@ async function logDiscordConversation(options: {
       options.agentResult.tokenUsage,
       usesByok,
       undefined,
-      undefined,
+      // Request ID of the reply, referenced by feedback on it
+      options.context.awsRequestId,
       "webhook",
-      options.context
+      options.context,
+      options.endUserId
     );
   } else {
     await startConversation(options.db, {
@@ -556,9 +569,11 @@ async function logDiscordConversation(options: {
       conversationId: options.finalConversationId,
       conversationType: "webhook",
       messages: validMessages,
+      awsRequestId: options.context.awsRequestId,
       tokenUsage: options.agentResult.tokenUsage,
       context: options.context,
       usesByok,
+      ...(options.endUserId && { endUserId: options.endUserId }),
     });
   }
 }
@@ -575,6 +590,7 @@ export async function processDiscordTask(
     messageText,
     conversationId,
     channelId,
+    endUserId,
   } = message;
 
   const { safeBotToken, safeApplicationId, safeInteractionToken } =
@@ -636,6 +652,14 @@ export async function processDiscordTask(
             context,
             endpointType: "webhook",
             abortSignal: requestTimeout.signal,
+            ...(endUserId && { endUserId }),
+            ...(channelId && {
+              toolApprovalOrigin: {
+                platform: "discord",
+                integrationId: message.integrationId,
+                channelId,
+              },
+            }),
           }),
       });
     } finally {
@@ -645,14 +669,15 @@ export async function processDiscordTask(
     await thinkingUpdates.stop();
 
     const responseText = agentResult.text || "No response generated.";
+    const finalConversationId = conversationId || channelId || randomUUID();
     await updateDiscordMessage(
       safeBotToken,
       safeApplicationId,
       safeInteractionToken,
-      responseText
+      responseText,
+      buildDiscordFeedbackComponents(finalConversationId, context.awsRequestId)
     );
 
-    const finalConversationId = conversationId || channelId || randomUUID();
     const generationEndedAt = new Date().toISOString();
     const generationTimeMs =
       generationStartTime !== undefined
@@ -670,6 +695,7 @@ export async function processDiscordTask(
         finalConversationId,
         baseUrl,
         context,
+        endUserId,
         generationTimeMs,
         generationStartedAt,
         generationEndedAt,
@@ -759,3 +785,22 @@ export async function processDiscordTask(
     throw error;
   }
 }
+
+/**
+ * Records an end user's 👍/👎 button click on an agent reply
+ */
+export async function processDiscordFeedbackTask(
+  message: BotWebhookTaskMessage
+): Promise<void> {
+  const { conversationId, feedback } = message;
+  if (!conversationId || !feedback?.messageId) {
+    throw new Error(
+      "Missing required Discord feedback fields: conversationId or messageId"
+    );
+  }
+
+  await applyBotFeedback(
+    { ...message, platform: "discord" },
+    { conversationId, messageId: feedback.messageId }
+  );
+}
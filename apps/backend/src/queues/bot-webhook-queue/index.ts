@@ -8,8 +8,10 @@ import { handlingSQSErrors } from "../../utils/handlingSQSErrors";
 import { Sentry, ensureError, initSentry } from "../../utils/sentry";
 import { getCurrentSQSContext } from "../../utils/workspaceCreditContext";
 
-import { processDiscordTask } from "./discordTask";
-import { processSlackTask } from "./slackTask";
+import { processDiscordFeedbackTask, processDiscordTask } from "./discordTask";
+import { processSlackFeedbackTask, processSlackTask } from "./slackTask";
+import { processTeamsTask } from "./teamsTask";
+import { processTelegramTask } from "./telegramTask";
 
 initSentry();
 
@@ -26,10 +28,25 @@ async function processBotWebhookTask(
     throw new Error("Context not available for workspace credit transactions");
   }
 
+  if (message.feedback) {
+    if (message.platform === "slack") {
+      await processSlackFeedbackTask(message);
+    } else if (message.platform === "discord") {
+      await processDiscordFeedbackTask(message);
+    } else {
+      throw new Error(`Feedback not supported on platform: ${message.platform}`);
+    }
+    return;
+  }
+
   if (message.platform === "discord") {
     await processDiscordTask(message, context);
   } else if (message.platform === "slack") {
     await processSlackTask(message, context);
+  } else if (message.platform === "telegram") {
+    await processTelegramTask(message, context);
+  } else if (message.platform === "teams") {
+    await processTeamsTask(message, context);
   } else {
     throw new Error(`Unknown platform: ${message.platform}`);
   }
@@ -2,7 +2,11 @@ import { randomUUID } from "crypto";
 
 import { WebClient } from "@slack/web-api";
 
-import { updateSlackMessage } from "../../http/any-api-webhooks-000type-000workspaceId-000integrationId/services/slackResponse";
+import {
+  SLACK_REPLY_METADATA_EVENT_TYPE,
+  type SlackReplyMetadata,
+  updateSlackMessage,
+} from "../../http/any-api-webhooks-000type-000workspaceId-000integrationId/services/slackResponse";
 import { callAgentNonStreaming } from "../../http/utils/agentCallNonStreaming";
 // eslint-disable-next-line import/order
 import { executeWithRequestLimits } from "../../http/utils/nonStreamingRequestLimits";
@@ -26,9 +30,12 @@ import { getRecord } from "../../utils/conversationRecords";
 import type { UIMessage } from "../../utils/messageTypes";
 import { resetPostHogRequestContext } from "../../utils/posthog";
 import { Sentry, ensureError } from "../../utils/sentry";
+import type { ToolApprovalOrigin } from "../../utils/toolApproval";
 import { trackEvent } from "../../utils/tracking";
 import { getCurrentSQSContext } from "../../utils/workspaceCreditContext";
 
+import { applyBotFeedback } from "./botFeedback";
+
 type SlackTaskContext = NonNullable<
   Awaited<ReturnType<typeof getCurrentSQSContext>>
 >;
@@ -48,6 +55,10 @@ type SlackHistoryMessage = {
   user?: string;
   bot_id?: string;
   thread_ts?: string;
+  metadata?: {
+    event_type?: string;
+    event_payload?: Record<string, unknown>;
+  };
 };
 
 type ToolingExtraction = {
@@ -367,6 +378,8 @@ async function executeSlackAgentCall(params: {
   conversationId: string;
   context: SlackTaskContext;
   conversationHistory: UIMessage[];
+  endUserId?: string;
+  toolApprovalOrigin: ToolApprovalOrigin;
 }): Promise<{
   agentResult: Awaited<ReturnType<typeof callAgentNonStreaming>>;
   generationStartedAt: string;
@@ -380,6 +393,8 @@ async function executeSlackAgentCall(params: {
     conversationId,
     context,
     conversationHistory,
+    endUserId,
+    toolApprovalOrigin,
   } = params;
 
   const { createRequestTimeout, cleanupRequestTimeout } = await import(
@@ -402,6 +417,8 @@ async function executeSlackAgentCall(params: {
           endpointType: "webhook",
           conversationHistory,
           abortSignal: requestTimeout.signal,
+          ...(endUserId && { endUserId }),
+          toolApprovalOrigin,
         }),
     });
     return { agentResult, generationStartedAt, generationStartTime };
@@ -610,6 +627,7 @@ async function logSlackConversation(params: {
   baseUrl: string;
   finalConversationId: string;
   context: SlackTaskContext;
+  endUserId?: string;
 }): Promise<void> {
   const {
     db,
@@ -624,6 +642,7 @@ async function logSlackConversation(params: {
     baseUrl,
     finalConversationId,
     context,
+    endUserId,
   } = params;
 
   const generationEndedAt = new Date().toISOString();
@@ -650,10 +669,12 @@ async function logSlackConversation(params: {
       context,
     }
   );
+  // The answering model differs from the agent's model after a fallback
   const finalModelName =
-    typeof agent.modelName === "string"
+    agentResult.modelName ??
+    (typeof agent.modelName === "string"
       ? agent.modelName
-      : "openrouter/gemini-2.0-flash-exp";
+      : "openrouter/gemini-2.0-flash-exp");
 
   const assistantContent = buildSlackAssistantContent({
     reasoningFromSteps,
@@ -729,9 +750,11 @@ async function logSlackConversation(params: {
       agentResult.tokenUsage,
       agentUsesByok,
       undefined,
-      undefined,
+      // Request ID of the reply, referenced by feedback on it
+      context.awsRequestId,
       "webhook",
-      context
+      context,
+      endUserId
     );
   } else {
     await startConversation(db, {
@@ -740,9 +763,12 @@ async function logSlackConversation(params: {
       conversationId: finalConversationId,
       conversationType: "webhook",
       messages: validMessages,
+      awsRequestId: context.awsRequestId,
       tokenUsage: agentResult.tokenUsage,
-      usesByok: agentUsesByok,
+      // Also set for custom endpoint models, which cost no credits either
+      usesByok: agentResult.usesByok ?? agentUsesByok,
       context,
+      ...(endUserId && { endUserId }),
     });
   }
 }
@@ -759,6 +785,7 @@ export async function processSlackTask(
     messageText,
     threadTs,
     conversationId,
+    endUserId,
   } = message;
 
   const { safeBotToken, safeChannel, safeMessageTs } =
@@ -825,15 +852,25 @@ export async function processSlackTask(
         conversationId: conversationKey,
         context,
         conversationHistory,
+        endUserId,
+        // Replies go to the thread the conversation is keyed by
+        toolApprovalOrigin: {
+          platform: "slack",
+          integrationId: message.integrationId,
+          channel: safeChannel,
+          threadTs: conversationKey,
+        },
       });
 
     await stopThinkingUpdates();
 
     const responseText = agentResult.text || "No response generated.";
-    await updateSlackMessage(client, safeChannel, safeMessageTs, responseText);
-
     const finalConversationId =
       conversationId || threadTs || safeMessageTs || randomUUID();
+    await updateSlackMessage(client, safeChannel, safeMessageTs, responseText, {
+      conversationId: finalConversationId,
+      messageId: context.awsRequestId,
+    });
 
     try {
       await logSlackConversation({
@@ -850,6 +887,7 @@ export async function processSlackTask(
         baseUrl,
         finalConversationId,
         context,
+        endUserId,
       });
     } catch (conversationError) {
       console.error("[Bot Webhook Queue] Error logging conversation (Slack):", {
@@ -931,3 +969,61 @@ export async function processSlackTask(
     throw error;
   }
 }
+
+/**
+ * The reply metadata of a Slack message, undefined when it is not an agent reply
+ */
+export function findSlackReplyMetadata(
+  messages: SlackHistoryMessage[],
+  ts: string
+): SlackReplyMetadata | undefined {
+  const metadata = messages.find((msg) => msg.ts === ts)?.metadata;
+  const payload = metadata?.event_payload;
+  if (
+    metadata?.event_type !== SLACK_REPLY_METADATA_EVENT_TYPE ||
+    typeof payload?.conversationId !== "string" ||
+    typeof payload?.messageId !== "string"
+  ) {
+    return undefined;
+  }
+  return {
+    conversationId: payload.conversationId,
+    messageId: payload.messageId,
+  };
+}
+
+/**
+ * Records or removes an end user's 👍/👎 reaction on an agent reply
+ */
+export async function processSlackFeedbackTask(
+  message: BotWebhookTaskMessage
+): Promise<void> {
+  const { safeBotToken, safeChannel, safeMessageTs } =
+    requireSlackFields(message);
+
+  const client = new WebClient(safeBotToken);
+  // Works for replies in threads and at the top level of a channel. The thread's
+  // parent can come back too, so the reply is looked up by its ts.
+  const result = await client.conversations.replies({
+    channel: safeChannel,
+    ts: safeMessageTs,
+    oldest: safeMessageTs,
+    latest: safeMessageTs,
+    inclusive: true,
+    include_all_metadata: true,
+  });
+  const reply = findSlackReplyMetadata(
+    (result.messages ?? []) as SlackHistoryMessage[],
+    safeMessageTs
+  );
+  if (!reply) {
+    console.log("[Bot Webhook Queue] Ignoring reaction on a non-reply message", {
+      workspaceId: message.workspaceId,
+      channel: safeChannel,
+      ts: safeMessageTs,
+    });
+    return;
+  }
+
+  await applyBotFeedback({ ...message, platform: "slack" }, reply);
+}
@@ -0,0 +1,251 @@
+import { updateTeamsActivity } from "../../http/any-api-webhooks-000type-000workspaceId-000integrationId/services/teamsResponse";
+import { database } from "../../tables";
+import type { BotIntegrationRecord } from "../../tables/schema";
+import type { BotWebhookTaskMessage } from "../../utils/botWebhookQueue";
+import { extractErrorMessage } from "../../utils/conversationLogger";
+import type { UIMessage } from "../../utils/messageTypes";
+import { resetPostHogRequestContext } from "../../utils/posthog";
+import { Sentry, ensureError } from "../../utils/sentry";
+import { getTeamsAccessToken } from "../../utils/teamsApi";
+import { trackEvent } from "../../utils/tracking";
+
+import {
+  executeBotAgentCall,
+  loadStoredConversationHistory,
+  logBotConversation,
+  resolveBotWebhookBaseUrl,
+  startBotThinkingUpdates,
+  type BotTaskContext,
+} from "./botConversation";
+
+type TeamsIntegrationConfig = {
+  appId: string;
+  appPassword: string;
+  tenantId?: string;
+  messageHistoryCount?: number;
+};
+
+const TEAMS_THINKING_UPDATE_INTERVAL_MS = 2000;
+
+function requireTeamsFields(message: BotWebhookTaskMessage): {
+  safeServiceUrl: string;
+  safeConversationId: string;
+  safeActivityId: string;
+} {
+  const { serviceUrl, teamsConversationId, activityId } = message;
+  if (!serviceUrl || !teamsConversationId || !activityId) {
+    throw new Error(
+      "Missing required Teams fields: serviceUrl, teamsConversationId, or activityId"
+    );
+  }
+
+  return {
+    safeServiceUrl: serviceUrl,
+    safeConversationId: teamsConversationId,
+    safeActivityId: activityId,
+  };
+}
+
+async function getTeamsIntegration(
+  db: Awaited<ReturnType<typeof database>>,
+  workspaceId: string,
+  integrationId: string
+): Promise<BotIntegrationRecord> {
+  const integrationPk = `bot-integrations/${workspaceId}/${integrationId}`;
+  const integration = await db["bot-integration"].get(
+    integrationPk,
+    "integration"
+  );
+
+  if (!integration || integration.platform !== "teams") {
+    throw new Error(`Integration not found: ${integrationId}`);
+  }
+
+  return integration;
+}
+
+export async function processTeamsTask(
+  message: BotWebhookTaskMessage,
+  context: BotTaskContext
+): Promise<void> {
+  resetPostHogRequestContext();
+
+  const { workspaceId, agentId, messageText } = message;
+  const { safeServiceUrl, safeConversationId, safeActivityId } =
+    requireTeamsFields(message);
+  const conversationId = message.conversationId || safeConversationId;
+
+  const db = await database();
+  const integration = await getTeamsIntegration(
+    db,
+    workspaceId,
+    message.integrationId
+  );
+  const config = integration.config as TeamsIntegrationConfig;
+  const updateMessage = async (text: string) => {
+    // Tokens are cached, so this only hits Azure AD when the token expires
+    const accessToken = await getTeamsAccessToken(
+      config.appId,
+      config.appPassword,
+      config.tenantId
+    );
+    await updateTeamsActivity(
+      accessToken,
+      safeServiceUrl,
+      safeConversationId,
+      safeActivityId,
+      text
+    );
+  };
+
+  const processingStartTime = Date.now();
+  const { stopThinkingUpdates } = startBotThinkingUpdates({
+    platform: "teams",
+    intervalMs: TEAMS_THINKING_UPDATE_INTERVAL_MS,
+    updateMessage,
+    workspaceId,
+    agentId,
+    integrationId: message.integrationId,
+  });
+
+  const modelReferer = `${resolveBotWebhookBaseUrl()}/api/webhooks/teams`;
+  let conversationHistory: UIMessage[] = [];
+  try {
+    conversationHistory = await loadStoredConversationHistory({
+      db,
+      workspaceId,
+      agentId,
+      conversationId,
+      messageHistoryCount: config.messageHistoryCount ?? 10,
+    });
+  } catch (error) {
+    console.error("[Bot Webhook Queue] Error loading Teams chat history:", error);
+    Sentry.captureException(ensureError(error), {
+      tags: {
+        context: "bot-webhook-queue",
+        platform: "teams",
+        operation: "fetch-message-history",
+      },
+      extra: {
+        workspaceId,
+        agentId,
+        integrationId: message.integrationId,
+      },
+      level: "warning",
+    });
+  }
+
+  try {
+    const { agentResult, generationStartedAt, generationStartTime } =
+      await executeBotAgentCall({
+        workspaceId,
+        agentId,
+        messageText,
+        modelReferer,
+        conversationId,
+        context,
+        conversationHistory,
+        toolApprovalOrigin: {
+          platform: "teams",
+          integrationId: message.integrationId,
+          serviceUrl: safeServiceUrl,
+          conversationId: safeConversationId,
+          activityId: safeActivityId,
+        },
+      });
+
+    await stopThinkingUpdates();
+
+    const responseText = agentResult.text || "No response generated.";
+    await updateMessage(responseText);
+
+    try {
+      await logBotConversation({
+        db,
+        workspaceId,
+        agentId,
+        messageText,
+        responseText,
+        agentResult,
+        conversationHistory,
+        conversationId,
+        modelReferer,
+        logLabel: "Teams",
+        context,
+        generationStartedAt,
+        generationStartTime,
+      });
+    } catch (conversationError) {
+      console.error("[Bot Webhook Queue] Error logging conversation (Teams):", {
+        error:
+          conversationError instanceof Error
+            ? conversationError.message
+            : String(conversationError),
+        workspaceId,
+        agentId,
+        conversationId,
+      });
+      Sentry.captureException(ensureError(conversationError), {
+        tags: {
+          context: "bot-webhook-queue",
+          platform: "teams",
+          operation: "log-conversation",
+        },
+        extra: {
+          workspaceId,
+          agentId,
+          conversationId,
+        },
+        level: "warning",
+      });
+    }
+
+    await db["bot-integration"].update({
+      ...integration,
+      lastUsedAt: new Date().toISOString(),
+    });
+
+    trackEvent("bot_webhook_processed", {
+      workspace_id: workspaceId,
+      integration_id: message.integrationId,
+      platform: "teams",
+      agent_id: agentId,
+      processing_time_ms: Date.now() - processingStartTime,
+      response_length: responseText.length,
+    });
+  } catch (error) {
+    await stopThinkingUpdates();
+    try {
+      await updateMessage(`❌ Error: ${extractErrorMessage(error)}`);
+    } catch (updateError) {
+      console.error(
+        "[Bot Webhook Queue] Error updating Teams message with error:",
+        updateError
+      );
+      Sentry.captureException(ensureError(updateError), {
+        tags: {
+          context: "bot-webhook-queue",
+          platform: "teams",
+          operation: "update-error-message",
+        },
+        extra: {
+          workspaceId,
+          agentId,
+          integrationId: message.integrationId,
+        },
+        level: "warning",
+      });
+    }
+
+    trackEvent("bot_webhook_processing_failed", {
+      workspace_id: workspaceId,
+      integration_id: message.integrationId,
+      platform: "teams",
+      agent_id: agentId,
+      error_type: error instanceof Error ? error.constructor.name : "Unknown",
+      error_message: extractErrorMessage(error),
+    });
+
+    throw error;
+  }
+}
@@ -0,0 +1,237 @@
+import { editTelegramMessage } from "../../http/any-api-webhooks-000type-000workspaceId-000integrationId/services/telegramResponse";
+import { database } from "../../tables";
+import type { BotIntegrationRecord } from "../../tables/schema";
+import type { BotWebhookTaskMessage } from "../../utils/botWebhookQueue";
+import { extractErrorMessage } from "../../utils/conversationLogger";
+import type { UIMessage } from "../../utils/messageTypes";
+import { resetPostHogRequestContext } from "../../utils/posthog";
+import { Sentry, ensureError } from "../../utils/sentry";
+import { trackEvent } from "../../utils/tracking";
+
+import {
+  executeBotAgentCall,
+  loadStoredConversationHistory,
+  logBotConversation,
+  resolveBotWebhookBaseUrl,
+  startBotThinkingUpdates,
+  type BotTaskContext,
+} from "./botConversation";
+
+type TelegramIntegrationConfig = {
+  botToken: string;
+  secretToken: string;
+  botUsername?: string;
+  botUserId?: number;
+  messageHistoryCount?: number;
+};
+
+// Telegram rate-limits message edits, so thinking updates are spaced out more than Slack's
+const TELEGRAM_THINKING_UPDATE_INTERVAL_MS = 3000;
+
+function requireTelegramFields(message: BotWebhookTaskMessage): {
+  safeChatId: string;
+  safeMessageId: number;
+} {
+  const { chatId, telegramMessageId } = message;
+  if (!chatId || telegramMessageId === undefined) {
+    throw new Error(
+      "Missing required Telegram fields: chatId or telegramMessageId"
+    );
+  }
+
+  return {
+    safeChatId: chatId,
+    safeMessageId: telegramMessageId,
+  };
+}
+
+async function getTelegramIntegration(
+  db: Awaited<ReturnType<typeof database>>,
+  workspaceId: string,
+  integrationId: string
+): Promise<BotIntegrationRecord> {
+  const integrationPk = `bot-integrations/${workspaceId}/${integrationId}`;
+  const integration = await db["bot-integration"].get(
+    integrationPk,
+    "integration"
+  );
+
+  if (!integration || integration.platform !== "telegram") {
+    throw new Error(`Integration not found: ${integrationId}`);
+  }
+
+  return integration;
+}
+
+export async function processTelegramTask(
+  message: BotWebhookTaskMessage,
+  context: BotTaskContext
+): Promise<void> {
+  resetPostHogRequestContext();
+
+  const { workspaceId, agentId, messageText } = message;
+  const { safeChatId, safeMessageId } = requireTelegramFields(message);
+  const conversationId = message.conversationId || `telegram-${safeChatId}`;
+
+  const db = await database();
+  const integration = await getTelegramIntegration(
+    db,
+    workspaceId,
+    message.integrationId
+  );
+  const config = integration.config as TelegramIntegrationConfig;
+  const updateMessage = (text: string) =>
+    editTelegramMessage(config.botToken, safeChatId, safeMessageId, text);
+
+  const processingStartTime = Date.now();
+  const { stopThinkingUpdates } = startBotThinkingUpdates({
+    platform: "telegram",
+    intervalMs: TELEGRAM_THINKING_UPDATE_INTERVAL_MS,
+    updateMessage,
+    workspaceId,
+    agentId,
+    integrationId: message.integrationId,
+  });
+
+  const modelReferer = `${resolveBotWebhookBaseUrl()}/api/webhooks/telegram`;
+  let conversationHistory: UIMessage[] = [];
+  try {
+    conversationHistory = await loadStoredConversationHistory({
+      db,
+      workspaceId,
+      agentId,
+      conversationId,
+      messageHistoryCount: config.messageHistoryCount ?? 10,
+    });
+  } catch (error) {
+    console.error("[Bot Webhook Queue] Error loading Telegram chat history:", error);
+    Sentry.captureException(ensureError(error), {
+      tags: {
+        context: "bot-webhook-queue",
+        platform: "telegram",
+        operation: "fetch-message-history",
+      },
+      extra: {
+        workspaceId,
+        agentId,
+        integrationId: message.integrationId,
+      },
+      level: "warning",
+    });
+  }
+
+  try {
+    const { agentResult, generationStartedAt, generationStartTime } =
+      await executeBotAgentCall({
+        workspaceId,
+        agentId,
+        messageText,
+        modelReferer,
+        conversationId,
+        context,
+        conversationHistory,
+        toolApprovalOrigin: {
+          platform: "telegram",
+          integrationId: message.integrationId,
+          chatId: safeChatId,
+          ...(message.messageThreadId !== undefined && {
+            messageThreadId: message.messageThreadId,
+          }),
+        },
+      });
+
+    await stopThinkingUpdates();
+
+    const responseText = agentResult.text || "No response generated.";
+    await updateMessage(responseText);
+
+    try {
+      await logBotConversation({
+        db,
+        workspaceId,
+        agentId,
+        messageText,
+        responseText,
+        agentResult,
+        conversationHistory,
+        conversationId,
+        modelReferer,
+        logLabel: "Telegram",
+        context,
+        generationStartedAt,
+        generationStartTime,
+      });
+    } catch (conversationError) {
+      console.error("[Bot Webhook Queue] Error logging conversation (Telegram):", {
+        error:
+          conversationError instanceof Error
+            ? conversationError.message
+            : String(conversationError),
+        workspaceId,
+        agentId,
+        conversationId,
+      });
+      Sentry.captureException(ensureError(conversationError), {
+        tags: {
+          context: "bot-webhook-queue",
+          platform: "telegram",
+          operation: "log-conversation",
+        },
+        extra: {
+          workspaceId,
+          agentId,
+          conversationId,
+        },
+        level: "warning",
+      });
+    }
+
+    await db["bot-integration"].update({
+      ...integration,
+      lastUsedAt: new Date().toISOString(),
+    });
+
+    trackEvent("bot_webhook_processed", {
+      workspace_id: workspaceId,
+      integration_id: message.integrationId,
+      platform: "telegram",
+      agent_id: agentId,
+      processing_time_ms: Date.now() - processingStartTime,
+      response_length: responseText.length,
+    });
+  } catch (error) {
+    await stopThinkingUpdates();
+    try {
+      await updateMessage(`❌ Error: ${extractErrorMessage(error)}`);
+    } catch (updateError) {
+      console.error(
+        "[Bot Webhook Queue] Error updating Telegram message with error:",
+        updateError
+      );
+      Sentry.captureException(ensureError(updateError), {
+        tags: {
+          context: "bot-webhook-queue",
+          platform: "telegram",
+          operation: "update-error-message",
+        },
+        extra: {
+          workspaceId,
+          agentId,
+          integrationId: message.integrationId,
+        },
+        level: "warning",
+      });
+    }
+
+    trackEvent("bot_webhook_processing_failed", {
+      workspace_id: workspaceId,
+      integration_id: message.integrationId,
+      platform: "telegram",
+      agent_id: agentId,
+      error_type: error instanceof Error ? error.constructor.name : "Unknown",
+      error_message: extractErrorMessage(error),
+    });
+
+    throw error;
+  }
+}
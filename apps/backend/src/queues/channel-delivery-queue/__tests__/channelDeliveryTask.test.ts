@@ -0,0 +1,213 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { ChannelDeliveryQueueMessage } from "../../../utils/channelDeliveryQueue";
+import { processChannelDelivery } from "../channelDeliveryTask";
+
+const {
+  mockDeliveryGet,
+  mockDeliveryUpdate,
+  mockChannelGet,
+  mockPostHttpChannelEnvelope,
+  mockPublishChannelDelivery,
+} = vi.hoisted(() => ({
+  mockDeliveryGet: vi.fn(),
+  mockDeliveryUpdate: vi.fn(),
+  mockChannelGet: vi.fn(),
+  mockPostHttpChannelEnvelope: vi.fn(),
+  mockPublishChannelDelivery: vi.fn(),
+}));
+
+vi.mock("../../../tables", () => ({
+  database: vi.fn().mockResolvedValue({
+    "channel-delivery": {
+      get: mockDeliveryGet,
+      update: mockDeliveryUpdate,
+    },
+    output_channel: {
+      get: mockChannelGet,
+    },
+  }),
+}));
+
+vi.mock("../../../utils/httpChannel", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../utils/httpChannel")>()),
+  postHttpChannelEnvelope: mockPostHttpChannelEnvelope,
+}));
+
+vi.mock("../../../utils/channelDeliveryQueue", async (importOriginal) => ({
+  ...(await importOriginal<
+    typeof import("../../../utils/channelDeliveryQueue")
+  >()),
+  publishChannelDelivery: mockPublishChannelDelivery,
+}));
+
+const message: ChannelDeliveryQueueMessage = {
+  workspaceId: "workspace-123",
+  channelId: "channel-456",
+  deliveryId: "delivery-1",
+  deliverySk: "2026-01-01T00:00:00.000Z#delivery-1",
+  envelope: {
+    deliveryId: "delivery-1",
+    event: "notification",
+    workspaceId: "workspace-123",
+    channelId: "channel-456",
+    content: "Daily report is ready",
+    createdAt: "2026-01-01T00:00:00.000Z",
+  },
+};
+
+const deliveryKey = {
+  pk: "channel-deliveries/workspace-123/channel-456",
+  sk: "2026-01-01T00:00:00.000Z#delivery-1",
+};
+
+const httpChannel = {
+  pk: "output-channels/workspace-123/channel-456",
+  sk: "channel",
+  workspaceId: "workspace-123",
+  channelId: "channel-456",
+  type: "http",
+  name: "HTTP Channel",
+  config: {
+    url: "https://example.com/hooks",
+    secret: "whsec_0123456789abcdef",
+  },
+};
+
+describe("processChannelDelivery", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockDeliveryGet.mockResolvedValue({
+      ...deliveryKey,
+      status: "pending",
+      attempts: 0,
+    });
+    mockChannelGet.mockResolvedValue(httpChannel);
+  });
+
+  it("marks the delivery as delivered on success", async () => {
+    mockPostHttpChannelEnvelope.mockResolvedValue({
+      ok: true,
+      retryable: false,
+      statusCode: 200,
+    });
+
+    await processChannelDelivery(message);
+
+    expect(mockPostHttpChannelEnvelope).toHaveBeenCalledWith(
+      httpChannel.config,
+      message.envelope
+    );
+    expect(mockDeliveryUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        ...deliveryKey,
+        status: "delivered",
+        attempts: 1,
+        lastStatusCode: 200,
+        deliveredAt: expect.any(String),
+      })
+    );
+    expect(mockPublishChannelDelivery).not.toHaveBeenCalled();
+  });
+
+  it("re-queues retryable failures with backoff", async () => {
+    mockDeliveryGet.mockResolvedValue({
+      ...deliveryKey,
+      status: "pending",
+      attempts: 2,
+    });
+    mockPostHttpChannelEnvelope.mockResolvedValue({
+      ok: false,
+      retryable: true,
+      statusCode: 503,
+      error: "Endpoint responded with status 503",
+    });
+
+    await processChannelDelivery(message);
+
+    expect(mockDeliveryUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        ...deliveryKey,
+        attempts: 3,
+        lastStatusCode: 503,
+        lastError: "Endpoint responded with status 503",
+        nextAttemptAt: expect.any(String),
+      })
+    );
+    expect(mockDeliveryUpdate.mock.calls[0][0].status).toBeUndefined();
+    expect(mockPublishChannelDelivery).toHaveBeenCalledWith(message, 120);
+  });
+
+  it("fails after the maximum number of attempts", async () => {
+    mockDeliveryGet.mockResolvedValue({
+      ...deliveryKey,
+      status: "pending",
+      attempts: 5,
+    });
+    mockPostHttpChannelEnvelope.mockResolvedValue({
+      ok: false,
+      retryable: true,
+      error: "ECONNREFUSED",
+    });
+
+    await processChannelDelivery(message);
+
+    expect(mockDeliveryUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: "failed",
+        attempts: 6,
+        lastError: "ECONNREFUSED",
+      })
+    );
+    expect(mockPublishChannelDelivery).not.toHaveBeenCalled();
+  });
+
+  it("does not retry client errors", async () => {
+    mockPostHttpChannelEnvelope.mockResolvedValue({
+      ok: false,
+      retryable: false,
+      statusCode: 400,
+      error: "Endpoint responded with status 400",
+    });
+
+    await processChannelDelivery(message);
+
+    expect(mockDeliveryUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: "failed",
+        attempts: 1,
+        lastStatusCode: 400,
+      })
+    );
+    expect(mockPublishChannelDelivery).not.toHaveBeenCalled();
+  });
+
+  it("fails the delivery when the channel was deleted", async () => {
+    mockChannelGet.mockResolvedValue(undefined);
+
+    await processChannelDelivery(message);
+
+    expect(mockPostHttpChannelEnvelope).not.toHaveBeenCalled();
+    expect(mockDeliveryUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        ...deliveryKey,
+        status: "failed",
+        lastError: "Channel no longer exists",
+      })
+    );
+  });
+
+  it("ignores deliveries that are no longer pending", async () => {
+    mockDeliveryGet.mockResolvedValue({
+      ...deliveryKey,
+      status: "delivered",
+      attempts: 1,
+    });
+
+    await processChannelDelivery(message);
+
+    expect(mockPostHttpChannelEnvelope).not.toHaveBeenCalled();
+    expect(mockDeliveryUpdate).not.toHaveBeenCalled();
+  });
+});
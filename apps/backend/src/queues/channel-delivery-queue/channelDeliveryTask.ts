@@ -0,0 +1,121 @@
+import { database } from "../../tables";
+import {
+  CHANNEL_DELIVERY_MAX_ATTEMPTS,
+  getChannelDeliveryPk,
+  getChannelDeliveryRetryDelaySeconds,
+  publishChannelDelivery,
+  type ChannelDeliveryQueueMessage,
+} from "../../utils/channelDeliveryQueue";
+import {
+  parseHttpChannelConfig,
+  postHttpChannelEnvelope,
+} from "../../utils/httpChannel";
+
+/**
+ * Make one delivery attempt for a queued http channel notification.
+ * Transient failures are re-queued with exponential backoff (SQS message delay)
+ * instead of being thrown, so the outcome of every attempt lands in the delivery log.
+ */
+export async function processChannelDelivery(
+  message: ChannelDeliveryQueueMessage
+): Promise<void> {
+  const db = await database();
+  const deliveryPk = getChannelDeliveryPk(
+    message.workspaceId,
+    message.channelId
+  );
+  const delivery = await db["channel-delivery"].get(
+    deliveryPk,
+    message.deliverySk
+  );
+  if (!delivery) {
+    console.warn("[Channel Delivery] Delivery log record not found:", {
+      workspaceId: message.workspaceId,
+      channelId: message.channelId,
+      deliveryId: message.deliveryId,
+    });
+    return;
+  }
+  if (delivery.status !== "pending") {
+    // Duplicate SQS delivery of a message that was already handled
+    return;
+  }
+
+  const markFailed = async (lastError: string, lastStatusCode?: number) => {
+    await db["channel-delivery"].update({
+      pk: deliveryPk,
+      sk: message.deliverySk,
+      status: "failed",
+      lastError,
+      lastStatusCode,
+      nextAttemptAt: undefined,
+    });
+  };
+
+  const channel = await db["output_channel"].get(
+    `output-channels/${message.workspaceId}/${message.channelId}`,
+    "channel"
+  );
+  if (!channel || channel.type !== "http") {
+    await markFailed("Channel no longer exists");
+    return;
+  }
+
+  let config;
+  try {
+    config = parseHttpChannelConfig(channel.config);
+  } catch (error) {
+    await markFailed(error instanceof Error ? error.message : String(error));
+    return;
+  }
+
+  const attempts = delivery.attempts + 1;
+  const attempt = await postHttpChannelEnvelope(config, message.envelope);
+
+  if (attempt.ok) {
+    await db["channel-delivery"].update({
+      pk: deliveryPk,
+      sk: message.deliverySk,
+      status: "delivered",
+      attempts,
+      lastStatusCode: attempt.statusCode,
+      lastError: undefined,
+      nextAttemptAt: undefined,
+      deliveredAt: new Date().toISOString(),
+    });
+    return;
+  }
+
+  console.warn("[Channel Delivery] Delivery attempt failed:", {
+    workspaceId: message.workspaceId,
+    channelId: message.channelId,
+    deliveryId: message.deliveryId,
+    attempt: attempts,
+    statusCode: attempt.statusCode,
+    error: attempt.error,
+  });
+
+  if (!attempt.retryable || attempts >= CHANNEL_DELIVERY_MAX_ATTEMPTS) {
+    await db["channel-delivery"].update({
+      pk: deliveryPk,
+      sk: message.deliverySk,
+      status: "failed",
+      attempts,
+      lastStatusCode: attempt.statusCode,
+      lastError: attempt.error,
+      nextAttemptAt: undefined,
+    });
+    return;
+  }
+
+  const delaySeconds = getChannelDeliveryRetryDelaySeconds(attempts);
+  await db["channel-delivery"].update({
+    pk: deliveryPk,
+    sk: message.deliverySk,
+    attempts,
+    lastStatusCode: attempt.statusCode,
+    lastError: attempt.error,
+    nextAttemptAt: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+  });
+  await publishChannelDelivery(message, delaySeconds);
+}
@@ -0,0 +1,49 @@
+import type { SQSEvent } from "aws-lambda";
+
+import { ChannelDeliveryQueueMessageSchema } from "../../utils/channelDeliveryQueue";
+import { handlingSQSErrors } from "../../utils/handlingSQSErrors";
+import { Sentry, ensureError, initSentry } from "../../utils/sentry";
+
+import { processChannelDelivery } from "./channelDeliveryTask";
+
+initSentry();
+
+export const handler = handlingSQSErrors(
+  async (event: SQSEvent): Promise<string[]> => {
+    const failedMessageIds: string[] = [];
+
+    for (const record of event.Records) {
+      const messageId = record.messageId || "unknown";
+      try {
+        const body = JSON.parse(record.body);
+        const message = ChannelDeliveryQueueMessageSchema.parse(body);
+
+        console.log("[Channel Delivery Queue] Processing delivery:", {
+          workspaceId: message.workspaceId,
+          channelId: message.channelId,
+          deliveryId: message.deliveryId,
+        });
+
+        await processChannelDelivery(message);
+      } catch (error) {
+        console.error(
+          `[Channel Delivery Queue] Error processing message ${messageId}:`,
+          error
+        );
+        Sentry.captureException(ensureError(error), {
+          tags: {
+            context: "channel-delivery-queue",
+            operation: "process-message",
+          },
+          extra: {
+            messageId,
+          },
+        });
+        failedMessageIds.push(messageId);
+      }
+    }
+
+    return failedMessageIds;
+  },
+  { handlerName: "channel-delivery-queue" }
+);
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { AugmentedContext } from "../../../utils/workspaceCreditContext";
+import { processMemorySummary } from "../summarizeTask";
+
+const {
+  mockAgentGet,
+  mockQuery,
+  mockSummarizeWithLLM,
+  mockGenerateEmbedding,
+  mockQueueMemoryWrite,
+} = vi.hoisted(() => ({
+  mockAgentGet: vi.fn(),
+  mockQuery: vi.fn(),
+  mockSummarizeWithLLM: vi.fn(),
+  mockGenerateEmbedding: vi.fn(),
+  mockQueueMemoryWrite: vi.fn(),
+}));
+
+vi.mock("../../../tables", () => ({
+  database: vi.fn().mockResolvedValue({
+    agent: { get: mockAgentGet },
+  }),
+}));
+
+vi.mock("../../../utils/vectordb/readClient", () => ({
+  query: mockQuery,
+}));
+
+vi.mock("../../../utils/memory/summarizeMemory", () => ({
+  summarizeWithLLM: mockSummarizeWithLLM,
+}));
+
+vi.mock("../../../utils/embedding", () => ({
+  generateEmbedding: mockGenerateEmbedding,
+  resolveEmbeddingApiKey: vi.fn().mockResolvedValue({ apiKey: "key" }),
+}));
+
+vi.mock("../../../utils/memory/writeMemory", () => ({
+  queueMemoryWrite: mockQueueMemoryWrite,
+}));
+
+const message = {
+  task: "summarize" as const,
+  workspaceId: "ws1",
+  agentId: "ag1",
+  partitionKey: "end-user-key",
+  grain: "weekly" as const,
+  periodStart: "2026-10-12T00:00:00.000Z",
+  periodEnd: "2026-10-19T00:00:00.000Z",
+};
+const context = {} as AugmentedContext;
+
+describe("processMemorySummary", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAgentGet.mockResolvedValue({ summarizationPrompts: undefined });
+    mockSummarizeWithLLM.mockResolvedValue("Week summary");
+    mockGenerateEmbedding.mockResolvedValue([0.1, 0.2]);
+  });
+
+  it("summarizes the source grain of the partition in chronological order", async () => {
+    mockQuery.mockResolvedValue([
+      { content: "Tuesday", timestamp: "2026-10-14T00:00:00.000Z" },
+      { content: "Monday", timestamp: "2026-10-13T00:00:00.000Z" },
+    ]);
+
+    await processMemorySummary(message, context);
+
+    expect(mockQuery).toHaveBeenCalledWith("ag1", "daily", {
+      partitionKey: "end-user-key",
+      limit: 1000,
+      temporalFilter: {
+        startDate: message.periodStart,
+        endDate: message.periodEnd,
+      },
+    });
+    expect(mockSummarizeWithLLM).toHaveBeenCalledWith(
+      ["Monday", "Tuesday"],
+      "weekly",
+      "ws1",
+      "ag1",
+      undefined,
+      context
+    );
+    expect(mockQueueMemoryWrite).toHaveBeenCalledWith(
+      "ag1",
+      "weekly",
+      [
+        expect.objectContaining({
+          content: "Week summary",
+          embedding: [0.1, 0.2],
+          timestamp: message.periodStart,
+        }),
+      ],
+      "end-user-key"
+    );
+  });
+
+  it("does nothing when the period has no records", async () => {
+    mockQuery.mockResolvedValue([]);
+
+    await processMemorySummary(message, context);
+
+    expect(mockSummarizeWithLLM).not.toHaveBeenCalled();
+    expect(mockQueueMemoryWrite).not.toHaveBeenCalled();
+  });
+
+  it("throws so the message is retried when summarizing fails", async () => {
+    mockQuery.mockResolvedValue([
+      { content: "Monday", timestamp: "2026-10-13T00:00:00.000Z" },
+    ]);
+    mockSummarizeWithLLM.mockRejectedValue(new Error("LLM unavailable"));
+
+    await expect(processMemorySummary(message, context)).rejects.toThrow(
+      "LLM unavailable"
+    );
+    expect(mockQueueMemoryWrite).not.toHaveBeenCalled();
+  });
+});
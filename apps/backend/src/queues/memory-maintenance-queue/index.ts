@@ -0,0 +1,69 @@
+import type { SQSEvent } from "aws-lambda";
+
+import { handlingSQSErrors } from "../../utils/handlingSQSErrors";
+import { MemoryMaintenanceMessageSchema } from "../../utils/memory/memoryMaintenance";
+import { Sentry, ensureError, initSentry } from "../../utils/sentry";
+import { getCurrentSQSContext } from "../../utils/workspaceCreditContext";
+
+import { processMemoryRetentionCleanup } from "./retentionTask";
+import { processMemorySummary } from "./summarizeTask";
+
+initSentry();
+
+/**
+ * Summarizes or cleans up the memory of one partition (the agent-global memory or one end
+ * user) as queued by the scheduled memory jobs
+ */
+export const handler = handlingSQSErrors(
+  async (event: SQSEvent): Promise<string[]> => {
+    const failedMessageIds: string[] = [];
+
+    for (const record of event.Records) {
+      const messageId = record.messageId || "unknown";
+      try {
+        const body = JSON.parse(record.body);
+        const message = MemoryMaintenanceMessageSchema.parse(body);
+
+        console.log("[Memory Maintenance Queue] Processing partition:", {
+          task: message.task,
+          workspaceId: message.workspaceId,
+          agentId: message.agentId,
+          partitionKey: message.partitionKey,
+        });
+
+        if (message.task === "cleanup") {
+          await processMemoryRetentionCleanup(message);
+          continue;
+        }
+
+        // Get context for workspace credit transactions
+        const context = getCurrentSQSContext(messageId);
+        if (!context) {
+          throw new Error(
+            "Context not available for workspace credit transactions"
+          );
+        }
+
+        await processMemorySummary(message, context);
+      } catch (error) {
+        console.error(
+          `[Memory Maintenance Queue] Error processing message ${messageId}:`,
+          error
+        );
+        Sentry.captureException(ensureError(error), {
+          tags: {
+            context: "memory-maintenance-queue",
+            operation: "process-message",
+          },
+          extra: {
+            messageId,
+          },
+        });
+        failedMessageIds.push(messageId);
+      }
+    }
+
+    return failedMessageIds;
+  },
+  { handlerName: "memory-maintenance-queue" }
+);
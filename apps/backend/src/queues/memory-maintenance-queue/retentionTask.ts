@@ -0,0 +1,58 @@
+import type { MemoryCleanupMessage } from "../../utils/memory/memoryMaintenance";
+import { calculateRetentionCutoff } from "../../utils/memory/retentionPolicies";
+import { sendWriteOperation } from "../../utils/vectordb/queueClient";
+import { query } from "../../utils/vectordb/readClient";
+import { TEMPORAL_GRAINS } from "../../utils/vectordb/types";
+
+/**
+ * Deletes the records of one partition that are older than the retention period of their
+ * grain for the workspace's plan. Errors are thrown so the message is retried; deleting
+ * already deleted records again is harmless.
+ */
+export async function processMemoryRetentionCleanup(
+  message: MemoryCleanupMessage
+): Promise<void> {
+  const { agentId, partitionKey, plan } = message;
+
+  // Process each grain, starting from shortest (working) and working up
+  for (const grain of TEMPORAL_GRAINS) {
+    const cutoffDate = calculateRetentionCutoff(grain, plan);
+
+    const allRecords = await query(agentId, grain, {
+      partitionKey,
+      limit: 10000, // Get a large number of records
+    });
+
+    const recordsToDelete = allRecords.filter(
+      (record) => new Date(record.timestamp) < cutoffDate
+    );
+
+    if (recordsToDelete.length === 0) {
+      continue;
+    }
+
+    // Delete records in batches (SQS has message size limits)
+    const batchSize = 100;
+    for (let i = 0; i < recordsToDelete.length; i += batchSize) {
+      const recordIds = recordsToDelete
+        .slice(i, i + batchSize)
+        .map((record) => record.id);
+
+      await sendWriteOperation({
+        operation: "delete",
+        agentId,
+        temporalGrain: grain,
+        ...(partitionKey && { partitionKey }),
+        data: {
+          recordIds,
+        },
+      });
+    }
+
+    console.log(
+      `[Memory Maintenance Queue] Agent ${agentId}, grain ${grain}: Deleted ${
+        recordsToDelete.length
+      } records (cutoff: ${cutoffDate.toISOString()})`
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { randomUUID } from "crypto";
+
+import { database } from "../../tables";
+import { generateEmbedding, resolveEmbeddingApiKey } from "../../utils/embedding";
+import {
+  SUMMARY_SOURCE_GRAINS,
+  type MemorySummaryMessage,
+} from "../../utils/memory/memoryMaintenance";
+import { summarizeWithLLM } from "../../utils/memory/summarizeMemory";
+import { formatTimeForGrain } from "../../utils/memory/timeFormats";
+import { queueMemoryWrite } from "../../utils/memory/writeMemory";
+import { query } from "../../utils/vectordb/readClient";
+import type { FactRecord } from "../../utils/vectordb/types";
+import type { AugmentedContext } from "../../utils/workspaceCreditContext";
+
+/**
+ * Summarizes the records of the next smaller grain in the period of the message into one
+ * record of the message's grain. Errors are thrown so the message is retried.
+ */
+export async function processMemorySummary(
+  message: MemorySummaryMessage,
+  context: AugmentedContext
+): Promise<void> {
+  const { workspaceId, agentId, partitionKey, grain } = message;
+  const sourceGrain = SUMMARY_SOURCE_GRAINS[grain];
+  const periodStart = new Date(message.periodStart);
+
+  const sourceRecords = await query(agentId, sourceGrain, {
+    partitionKey,
+    limit: 1000,
+    temporalFilter: {
+      startDate: message.periodStart,
+      endDate: message.periodEnd,
+    },
+  });
+
+  if (sourceRecords.length === 0) {
+    console.log(
+      `[Memory Maintenance Queue] Agent ${agentId}: No ${sourceGrain} memory to summarize`
+    );
+    return;
+  }
+
+  const db = await database();
+  const agent = await db.agent.get(`agents/${workspaceId}/${agentId}`, "agent");
+  if (!agent) {
+    console.log(
+      `[Memory Maintenance Queue] Agent ${agentId}: Agent not found, skipping`
+    );
+    return;
+  }
+
+  // Sort by timestamp (oldest first) to ensure chronological order
+  const content = [...sourceRecords]
+    .sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    )
+    .map((record) => record.content);
+
+  const summary = await summarizeWithLLM(
+    content,
+    grain,
+    workspaceId,
+    agentId,
+    agent.summarizationPrompts,
+    context
+  );
+
+  if (!summary || summary.trim().length === 0) {
+    console.log(
+      `[Memory Maintenance Queue] Agent ${agentId}: Empty ${grain} summary, skipping`
+    );
+    return;
+  }
+
+  const { apiKey } = await resolveEmbeddingApiKey(workspaceId);
+  const embedding = await generateEmbedding(
+    summary,
+    apiKey,
+    undefined,
+    undefined
+  );
+
+  const timeString = formatTimeForGrain(grain, periodStart);
+  const record: FactRecord = {
+    id: randomUUID(),
+    content: summary,
+    embedding,
+    timestamp: periodStart.toISOString(),
+    metadata: {
+      agentId,
+      workspaceId,
+      grain,
+      timeString,
+    },
+  };
+
+  await queueMemoryWrite(agentId, grain, [record], partitionKey);
+
+  console.log(
+    `[Memory Maintenance Queue] Agent ${agentId}: Created ${grain} summary for ${timeString}`
+  );
+}
@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { database } from "../../../tables";
+import type { ToolApprovalRecord } from "../../../tables/schema";
+import { deliverToolApprovalAnswer } from "../toolApprovalDelivery";
+
+const {
+  mockIntegrationGet,
+  mockPostSlackMessage,
+  mockSendDiscordMessage,
+  mockSendTelegramMessage,
+} = vi.hoisted(() => ({
+  mockIntegrationGet: vi.fn(),
+  mockPostSlackMessage: vi.fn(),
+  mockSendDiscordMessage: vi.fn(),
+  mockSendTelegramMessage: vi.fn(),
+}));
+
+vi.mock("@slack/web-api", () => ({
+  WebClient: vi.fn(),
+}));
+
+vi.mock(
+  "../../../http/any-api-webhooks-000type-000workspaceId-000integrationId/services/slackResponse",
+  () => ({ postSlackMessage: mockPostSlackMessage })
+);
+
+vi.mock(
+  "../../../http/any-api-webhooks-000type-000workspaceId-000integrationId/services/telegramResponse",
+  () => ({ sendTelegramMessage: mockSendTelegramMessage })
+);
+
+vi.mock("../../../utils/discord", () => ({
+  sendDiscordMessage: mockSendDiscordMessage,
+}));
+
+const db = {
+  "bot-integration": { get: mockIntegrationGet },
+} as unknown as Awaited<ReturnType<typeof database>>;
+
+const approval = {
+  pk: "tool-approvals/ws-1/agent-1/approval-1",
+  workspaceId: "ws-1",
+  agentId: "agent-1",
+  approvalId: "approval-1",
+  conversationId: "conv-1",
+  toolName: "send_email",
+  status: "approved",
+} as ToolApprovalRecord;
+
+describe("deliverToolApprovalAnswer", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("posts the answer to the Slack thread of the run", async () => {
+    mockIntegrationGet.mockResolvedValue({
+      platform: "slack",
+      config: { botToken: "xoxb-token" },
+    });
+
+    await deliverToolApprovalAnswer(
+      db,
+      {
+        ...approval,
+        origin: {
+          platform: "slack",
+          integrationId: "int-1",
+          channel: "C123",
+          threadTs: "1700000000.000100",
+        },
+      },
+      "I sent the email."
+    );
+
+    expect(mockIntegrationGet).toHaveBeenCalledWith(
+      "bot-integrations/ws-1/int-1",
+      "integration"
+    );
+    expect(mockPostSlackMessage).toHaveBeenCalledWith(
+      expect.anything(),
+      "C123",
+      "I sent the email.",
+      "1700000000.000100"
+    );
+  });
+
+  it("posts the answer to the Discord channel of the run", async () => {
+    mockIntegrationGet.mockResolvedValue({
+      platform: "discord",
+      config: { botToken: "discord-token" },
+    });
+
+    await deliverToolApprovalAnswer(
+      db,
+      {
+        ...approval,
+        origin: { platform: "discord", integrationId: "int-1", channelId: "D1" },
+      },
+      "Done."
+    );
+
+    expect(mockSendDiscordMessage).toHaveBeenCalledWith(
+      "discord-token",
+      "D1",
+      "Done."
+    );
+  });
+
+  it("does nothing for runs that did not come from a bot", async () => {
+    await deliverToolApprovalAnswer(db, approval, "Done.");
+
+    expect(mockIntegrationGet).not.toHaveBeenCalled();
+  });
+
+  it("does not fail when posting fails", async () => {
+    mockIntegrationGet.mockResolvedValue({
+      platform: "telegram",
+      config: { botToken: "telegram-token" },
+    });
+    mockSendTelegramMessage.mockRejectedValue(new Error("chat not found"));
+
+    await expect(
+      deliverToolApprovalAnswer(
+        db,
+        {
+          ...approval,
+          origin: { platform: "telegram", integrationId: "int-1", chatId: "42" },
+        },
+        "Done."
+      )
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,235 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { ToolApprovalRecord } from "../../../tables/schema";
+import type { AugmentedContext } from "../../../utils/workspaceCreditContext";
+import { processToolApprovalResume } from "../toolApprovalTask";
+
+const {
+  mockApprovalGet,
+  mockApprovalUpdate,
+  mockClaimToolApprovalResume,
+  mockDeliverToolApprovalAnswer,
+  mockSetupAgentAndTools,
+  mockHandleToolContinuation,
+  mockGetRecord,
+  mockUpdateConversation,
+  mockValidateCreditsAndLimitsAndReserve,
+  mockAdjustCreditsAfterLLMCall,
+} = vi.hoisted(() => ({
+  mockApprovalGet: vi.fn(),
+  mockApprovalUpdate: vi.fn(),
+  mockClaimToolApprovalResume: vi.fn(),
+  mockDeliverToolApprovalAnswer: vi.fn(),
+  mockSetupAgentAndTools: vi.fn(),
+  mockHandleToolContinuation: vi.fn(),
+  mockGetRecord: vi.fn(),
+  mockUpdateConversation: vi.fn(),
+  mockValidateCreditsAndLimitsAndReserve: vi.fn(),
+  mockAdjustCreditsAfterLLMCall: vi.fn(),
+}));
+
+vi.mock("../../../tables", () => ({
+  database: vi.fn().mockResolvedValue({
+    "tool-approval": {
+      get: mockApprovalGet,
+      update: mockApprovalUpdate,
+    },
+  }),
+}));
+
+vi.mock("../../../utils/toolApproval", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../utils/toolApproval")>()),
+  claimToolApprovalResume: mockClaimToolApprovalResume,
+}));
+
+vi.mock("../toolApprovalDelivery", () => ({
+  deliverToolApprovalAnswer: mockDeliverToolApprovalAnswer,
+}));
+
+vi.mock("../../../http/utils/agentSetup", () => ({
+  setupAgentAndTools: mockSetupAgentAndTools,
+}));
+
+vi.mock("../../../http/utils/continuation", () => ({
+  handleToolContinuation: mockHandleToolContinuation,
+}));
+
+vi.mock("../../../http/utils/generationCreditManagement", () => ({
+  adjustCreditsAfterLLMCall: mockAdjustCreditsAfterLLMCall,
+  cleanupReservationOnError: vi.fn(),
+  cleanupReservationWithoutTokenUsage: vi.fn(),
+}));
+
+vi.mock("../../../utils/creditValidation", () => ({
+  validateCreditsAndLimitsAndReserve: mockValidateCreditsAndLimitsAndReserve,
+}));
+
+vi.mock("../../../utils/conversationRecords", () => ({
+  getRecord: mockGetRecord,
+}));
+
+vi.mock("../../../utils/conversationLogger", () => ({
+  updateConversation: mockUpdateConversation,
+}));
+
+const message = {
+  workspaceId: "ws-1",
+  agentId: "agent-1",
+  approvalId: "approval-1",
+};
+const context = {} as AugmentedContext;
+
+const approval = {
+  pk: "tool-approvals/ws-1/agent-1/approval-1",
+  sk: "approval",
+  workspaceId: "ws-1",
+  agentId: "agent-1",
+  approvalId: "approval-1",
+  conversationId: "conv-1",
+  toolCallId: "call-1",
+  toolName: "send_email",
+  args: { to: "a@example.com" },
+  status: "approved",
+  expiresAt: "2026-10-20T12:00:00.000Z",
+  expires: 1_800_000_000,
+  notificationChannelId: "channel-1",
+  version: 1,
+  createdAt: "2026-10-19T12:00:00.000Z",
+} as ToolApprovalRecord;
+
+describe("processToolApprovalResume", () => {
+  const sendEmail = vi.fn();
+  const gatedSendEmail = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockApprovalGet.mockResolvedValue(approval);
+    mockClaimToolApprovalResume.mockImplementation(async (_db, record) => ({
+      ...record,
+      resumedAt: "2026-10-19T12:10:00.000Z",
+    }));
+    mockGetRecord.mockResolvedValue({
+      messages: [{ role: "user", content: "Email the customer" }],
+    });
+    mockSetupAgentAndTools.mockImplementation(
+      async (_ws, _agent, _messages, options) => ({
+        agent: { modelName: "openai/gpt-4o", systemPrompt: "You help." },
+        model: {},
+        tools: {
+          send_email: {
+            execute: options.bypassToolApproval ? sendEmail : gatedSendEmail,
+          },
+        },
+        usesByok: false,
+      })
+    );
+    sendEmail.mockResolvedValue("Email sent");
+    mockValidateCreditsAndLimitsAndReserve.mockResolvedValue({
+      reservationId: "res-1",
+    });
+    mockHandleToolContinuation.mockResolvedValue({
+      text: "I sent the email.",
+      tokenUsage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    });
+  });
+
+  it("runs an approved call with the edited arguments and resumes the conversation", async () => {
+    mockApprovalGet.mockResolvedValue({
+      ...approval,
+      approvedArgs: { to: "b@example.com" },
+    });
+
+    await processToolApprovalResume(message, context);
+
+    expect(sendEmail).toHaveBeenCalledWith(
+      { to: "b@example.com" },
+      { toolCallId: "call-1-approved", messages: [] }
+    );
+    // The continuation keeps the approval gate
+    const [, , , , toolResults, tools] =
+      mockHandleToolContinuation.mock.calls[0]!;
+    expect(toolResults).toEqual([
+      expect.objectContaining({
+        output: "Email sent",
+        approvalStatus: "approved",
+        approvalEdited: true,
+      }),
+    ]);
+    expect(tools.send_email.execute).toBe(gatedSendEmail);
+    expect(mockAdjustCreditsAfterLLMCall).toHaveBeenCalledWith(
+      expect.anything(),
+      "ws-1",
+      "agent-1",
+      "res-1",
+      "openrouter",
+      "openai/gpt-4o",
+      expect.anything(),
+      false,
+      undefined,
+      undefined,
+      "tool-approval",
+      context,
+      "conv-1"
+    );
+    const [, , , conversationId, newMessages] =
+      mockUpdateConversation.mock.calls[0]!;
+    expect(conversationId).toBe("conv-1");
+    expect(newMessages).toHaveLength(2);
+    expect(newMessages[1]).toMatchObject({
+      role: "assistant",
+      content: "I sent the email.",
+    });
+    expect(mockApprovalUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        resultPreview: "Email sent",
+        answer: "I sent the email.",
+      })
+    );
+    expect(mockDeliverToolApprovalAnswer).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ approvalId: "approval-1" }),
+      "I sent the email."
+    );
+  });
+
+  it("skips a rejected call and tells the model why", async () => {
+    mockApprovalGet.mockResolvedValue({
+      ...approval,
+      status: "rejected",
+      reason: "Wrong customer",
+    });
+
+    await processToolApprovalResume(message, context);
+
+    expect(sendEmail).not.toHaveBeenCalled();
+    expect(mockSetupAgentAndTools).toHaveBeenCalledTimes(1);
+    const [, , , , toolResults] = mockHandleToolContinuation.mock.calls[0]!;
+    expect(toolResults[0]).toMatchObject({
+      approvalStatus: "rejected",
+      output: expect.stringContaining("Reason: Wrong customer"),
+    });
+  });
+
+  it("does nothing when the request was already resumed", async () => {
+    mockClaimToolApprovalResume.mockResolvedValue(undefined);
+
+    await processToolApprovalResume(message, context);
+
+    expect(mockSetupAgentAndTools).not.toHaveBeenCalled();
+    expect(mockApprovalUpdate).not.toHaveBeenCalled();
+  });
+
+  it("records tool errors without failing the message", async () => {
+    sendEmail.mockRejectedValue(new Error("SMTP down"));
+
+    await processToolApprovalResume(message, context);
+
+    const [, , , , toolResults] = mockHandleToolContinuation.mock.calls[0]!;
+    expect(toolResults[0].output).toBe("Error: SMTP down");
+    expect(mockApprovalUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ error: "SMTP down" })
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import type { SQSEvent } from "aws-lambda";
+
+import { handlingSQSErrors } from "../../utils/handlingSQSErrors";
+import { Sentry, ensureError, initSentry } from "../../utils/sentry";
+import { ToolApprovalQueueMessageSchema } from "../../utils/toolApproval";
+import { getCurrentSQSContext } from "../../utils/workspaceCreditContext";
+
+import { processToolApprovalResume } from "./toolApprovalTask";
+
+initSentry();
+
+export const handler = handlingSQSErrors(
+  async (event: SQSEvent): Promise<string[]> => {
+    const failedMessageIds: string[] = [];
+
+    for (const record of event.Records) {
+      const messageId = record.messageId || "unknown";
+      try {
+        const body = JSON.parse(record.body);
+        const message = ToolApprovalQueueMessageSchema.parse(body);
+
+        console.log("[Tool Approval Queue] Resuming approval request:", {
+          workspaceId: message.workspaceId,
+          agentId: message.agentId,
+          approvalId: message.approvalId,
+        });
+
+        // Get context for workspace credit transactions
+        const context = getCurrentSQSContext(messageId);
+        if (!context) {
+          throw new Error(
+            "Context not available for workspace credit transactions"
+          );
+        }
+
+        await processToolApprovalResume(message, context);
+      } catch (error) {
+        console.error(
+          `[Tool Approval Queue] Error processing message ${messageId}:`,
+          error
+        );
+        Sentry.captureException(ensureError(error), {
+          tags: {
+            context: "tool-approval-queue",
+            operation: "process-message",
+          },
+          extra: {
+            messageId,
+          },
+        });
+        failedMessageIds.push(messageId);
+      }
+    }
+
+    return failedMessageIds;
+  },
+  { handlerName: "tool-approval-queue" }
+);
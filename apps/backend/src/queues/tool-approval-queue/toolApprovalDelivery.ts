@@ -0,0 +1,119 @@
+import { WebClient } from "@slack/web-api";
+
+import { postSlackMessage } from "../../http/any-api-webhooks-000type-000workspaceId-000integrationId/services/slackResponse";
+import { sendTeamsReply } from "../../http/any-api-webhooks-000type-000workspaceId-000integrationId/services/teamsResponse";
+import { sendTelegramMessage } from "../../http/any-api-webhooks-000type-000workspaceId-000integrationId/services/telegramResponse";
+import type { database } from "../../tables";
+import type { ToolApprovalRecord } from "../../tables/schema";
+import { sendDiscordMessage } from "../../utils/discord";
+import { Sentry, ensureError } from "../../utils/sentry";
+import { getTeamsAccessToken } from "../../utils/teamsApi";
+import type { ToolApprovalOrigin } from "../../utils/toolApproval";
+
+type BotIntegrationConfig = {
+  botToken?: string;
+  appId?: string;
+  appPassword?: string;
+  tenantId?: string;
+};
+
+async function postToOrigin(
+  origin: ToolApprovalOrigin,
+  config: BotIntegrationConfig,
+  answer: string
+): Promise<void> {
+  if (origin.platform === "teams") {
+    if (!config.appId || !config.appPassword) {
+      throw new Error("Teams app credentials are missing in integration config");
+    }
+    const accessToken = await getTeamsAccessToken(
+      config.appId,
+      config.appPassword,
+      config.tenantId
+    );
+    await sendTeamsReply(
+      accessToken,
+      origin.serviceUrl,
+      origin.conversationId,
+      origin.activityId,
+      answer
+    );
+    return;
+  }
+
+  if (!config.botToken) {
+    throw new Error("Bot token is missing in integration config");
+  }
+  if (origin.platform === "slack") {
+    await postSlackMessage(
+      new WebClient(config.botToken),
+      origin.channel,
+      answer,
+      origin.threadTs
+    );
+  } else if (origin.platform === "discord") {
+    await sendDiscordMessage(config.botToken, origin.channelId, answer);
+  } else {
+    await sendTelegramMessage(config.botToken, origin.chatId, answer, {
+      ...(origin.messageThreadId !== undefined && {
+        messageThreadId: origin.messageThreadId,
+      }),
+    });
+  }
+}
+
+/**
+ * Posts the agent's answer of a resumed run to the bot thread (Slack,
+ * Discord, Telegram, Teams) the paused run came from. Chat clients (widget,
+ * test chat) fetch the answer from the request instead.
+ * Best effort: the answer is stored on the conversation either way.
+ */
+export async function deliverToolApprovalAnswer(
+  db: Awaited<ReturnType<typeof database>>,
+  approval: ToolApprovalRecord,
+  answer: string
+): Promise<void> {
+  const { origin } = approval;
+  if (!origin) {
+    return;
+  }
+  try {
+    const integration = await db["bot-integration"].get(
+      `bot-integrations/${approval.workspaceId}/${origin.integrationId}`,
+      "integration"
+    );
+    if (!integration || integration.platform !== origin.platform) {
+      console.warn("[Tool Approval Queue] Bot integration not found:", {
+        workspaceId: approval.workspaceId,
+        integrationId: origin.integrationId,
+        platform: origin.platform,
+      });
+      return;
+    }
+    await postToOrigin(
+      origin,
+      integration.config as BotIntegrationConfig,
+      answer
+    );
+  } catch (error) {
+    console.error("[Tool Approval Queue] Failed to post the answer:", {
+      workspaceId: approval.workspaceId,
+      approvalId: approval.approvalId,
+      platform: origin.platform,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    Sentry.captureException(ensureError(error), {
+      tags: {
+        context: "tool-approval",
+        operation: "deliver-answer",
+        platform: origin.platform,
+      },
+      extra: {
+        workspaceId: approval.workspaceId,
+        agentId: approval.agentId,
+        approvalId: approval.approvalId,
+      },
+      level: "warning",
+    });
+  }
+}
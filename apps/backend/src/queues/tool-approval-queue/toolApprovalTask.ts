@@ -0,0 +1,358 @@
+import type { ModelMessage } from "ai";
+
+import { setupAgentAndTools } from "../../http/utils/agentSetup";
+import { handleToolContinuation } from "../../http/utils/continuation";
+import {
+  adjustCreditsAfterLLMCall,
+  cleanupReservationOnError,
+  cleanupReservationWithoutTokenUsage,
+} from "../../http/utils/generationCreditManagement";
+import { convertUIMessagesToModelMessages } from "../../http/utils/messageConversion";
+import { getDefaultModel } from "../../http/utils/modelFactory";
+import {
+  cleanupRequestTimeout,
+  createRequestTimeout,
+} from "../../http/utils/requestTimeout";
+import {
+  formatToolCallMessage,
+  formatToolResultMessage,
+} from "../../http/utils/toolFormatting";
+import { database } from "../../tables";
+import type { ToolApprovalRecord } from "../../tables/schema";
+import { updateConversation } from "../../utils/conversationLogger";
+import { getRecord } from "../../utils/conversationRecords";
+import { validateCreditsAndLimitsAndReserve } from "../../utils/creditValidation";
+import type { UIMessage } from "../../utils/messageTypes";
+import { isCustomModelName } from "../../utils/modelEndpoints";
+import {
+  buildSkippedToolApprovalResult,
+  buildToolApprovalPk,
+  buildToolResultPreview,
+  claimToolApprovalResume,
+  TOOL_APPROVAL_SK,
+  type ToolApprovalQueueMessage,
+} from "../../utils/toolApproval";
+import type { AugmentedContext } from "../../utils/workspaceCreditContext";
+
+import { deliverToolApprovalAnswer } from "./toolApprovalDelivery";
+
+const TOOL_APPROVAL_MODEL_REFERER = "http://localhost:3000/api/tool-approval";
+
+type AgentSetupResult = Awaited<ReturnType<typeof setupAgentAndTools>>;
+
+/**
+ * Runs the approved tool with the approved (possibly edited) arguments.
+ * Rejected and expired requests produce a result telling the model so.
+ */
+async function runApprovedTool(
+  approval: ToolApprovalRecord,
+  toolCallId: string,
+  history: UIMessage[],
+  context: AugmentedContext
+): Promise<{ result: unknown; error?: string }> {
+  if (approval.status !== "approved") {
+    return { result: buildSkippedToolApprovalResult(approval) };
+  }
+
+  // Fresh tools without the approval gate, so the call actually runs
+  const { tools } = await setupAgentAndTools(
+    approval.workspaceId,
+    approval.agentId,
+    history,
+    {
+      modelReferer: TOOL_APPROVAL_MODEL_REFERER,
+      callDepth: 0,
+      maxDelegationDepth: 3,
+      context,
+      conversationId: approval.conversationId,
+      bypassToolApproval: true,
+    }
+  );
+  const toolDef = tools[approval.toolName] as
+    | { execute?: (args: unknown, options: unknown) => Promise<unknown> }
+    | undefined;
+  if (!toolDef?.execute) {
+    const error = `${approval.toolName} is no longer available to this agent`;
+    return {
+      result: `Error: ${error}. The call was not executed.`,
+      error,
+    };
+  }
+  try {
+    const result = await toolDef.execute(
+      approval.approvedArgs ?? approval.args,
+      { toolCallId, messages: [] }
+    );
+    return { result };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { result: `Error: ${message}`, error: message };
+  }
+}
+
+/**
+ * Continues the conversation with the tool round through the continuation
+ * handler and stores both. Returns the agent's answer.
+ */
+async function resumeConversation(params: {
+  approval: ToolApprovalRecord;
+  conversationId: string;
+  history: UIMessage[];
+  setup: AgentSetupResult;
+  toolCallId: string;
+  result: unknown;
+  context: AugmentedContext;
+}): Promise<string | null> {
+  const { approval, conversationId, history, setup, context } = params;
+  const db = await database();
+  const modelName =
+    typeof setup.agent.modelName === "string" && setup.agent.modelName
+      ? setup.agent.modelName
+      : getDefaultModel();
+  const usesByok = setup.usesByok || isCustomModelName(modelName);
+
+  const toolCall = {
+    toolCallId: params.toolCallId,
+    toolName: approval.toolName,
+    args: approval.approvedArgs ?? approval.args,
+  };
+  const toolResult = {
+    toolCallId: params.toolCallId,
+    toolName: approval.toolName,
+    output: params.result,
+    approvalStatus: approval.status,
+    approvalEdited: approval.approvedArgs !== undefined,
+  };
+
+  let estimateMessages: ModelMessage[] = [];
+  try {
+    estimateMessages = convertUIMessagesToModelMessages(
+      history.filter(
+        (message) => message.role === "user" || message.role === "assistant"
+      )
+    );
+  } catch {
+    // The reservation is an estimate; settle with the actual usage below
+  }
+  const reservation = await validateCreditsAndLimitsAndReserve(
+    db,
+    approval.workspaceId,
+    approval.agentId,
+    "openrouter",
+    modelName,
+    estimateMessages,
+    setup.agent.systemPrompt,
+    undefined,
+    usesByok,
+    context,
+    conversationId
+  );
+  const reservationId = reservation?.reservationId;
+
+  const requestTimeout = createRequestTimeout();
+  let continuation: Awaited<ReturnType<typeof handleToolContinuation>>;
+  try {
+    continuation = await handleToolContinuation(
+      setup.agent,
+      setup.model,
+      history,
+      [toolCall],
+      [toolResult],
+      setup.tools,
+      requestTimeout.signal
+    );
+  } catch (error) {
+    if (reservationId) {
+      await cleanupReservationOnError(
+        db,
+        reservationId,
+        approval.workspaceId,
+        approval.agentId,
+        "openrouter",
+        modelName,
+        error,
+        true,
+        usesByok,
+        "tool-approval",
+        context
+      );
+    }
+    throw error;
+  } finally {
+    cleanupRequestTimeout(requestTimeout);
+  }
+
+  const tokenUsage = continuation?.tokenUsage;
+  if (reservationId && tokenUsage) {
+    await adjustCreditsAfterLLMCall(
+      db,
+      approval.workspaceId,
+      approval.agentId,
+      reservationId,
+      "openrouter",
+      modelName,
+      tokenUsage,
+      usesByok,
+      undefined,
+      undefined,
+      "tool-approval",
+      context,
+      conversationId
+    );
+  } else if (reservationId && reservationId !== "byok") {
+    await cleanupReservationWithoutTokenUsage(
+      db,
+      reservationId,
+      approval.workspaceId,
+      approval.agentId,
+      "tool-approval"
+    );
+  }
+
+  const toolRoundMessage: UIMessage = {
+    role: "assistant",
+    content: [
+      ...formatToolCallMessage(toolCall).content,
+      ...formatToolResultMessage(toolResult, {
+        provider: "openrouter",
+        modelName,
+      }).content,
+    ],
+  };
+  const answer = continuation?.text ?? null;
+  const newMessages: UIMessage[] = [
+    toolRoundMessage,
+    ...(answer
+      ? [
+          {
+            role: "assistant" as const,
+            content: answer,
+            ...(tokenUsage && { tokenUsage }),
+            modelName,
+            provider: "openrouter",
+          },
+        ]
+      : []),
+  ];
+  await updateConversation(
+    db,
+    approval.workspaceId,
+    approval.agentId,
+    conversationId,
+    newMessages,
+    tokenUsage,
+    usesByok,
+    undefined,
+    undefined,
+    undefined,
+    context
+  );
+  return answer;
+}
+
+/**
+ * Executes (or skips) the tool of a decided approval request and resumes the
+ * paused conversation. The outcome and the agent's answer are stored on the
+ * request; the answer is also posted to the bot thread the run came from.
+ */
+export async function processToolApprovalResume(
+  message: ToolApprovalQueueMessage,
+  context: AugmentedContext
+): Promise<void> {
+  const db = await database();
+  const pk = buildToolApprovalPk(
+    message.workspaceId,
+    message.agentId,
+    message.approvalId
+  );
+  const approval = await db["tool-approval"].get(pk, TOOL_APPROVAL_SK);
+  if (!approval) {
+    console.warn("[Tool Approval Queue] Approval request not found:", message);
+    return;
+  }
+
+  const claimed = await claimToolApprovalResume(db, approval);
+  if (!claimed) {
+    // Still pending, or a duplicate SQS delivery of a message that was already handled
+    console.log("[Tool Approval Queue] Nothing to resume:", {
+      ...message,
+      status: approval.status,
+      resumedAt: approval.resumedAt,
+    });
+    return;
+  }
+
+  const conversationId = claimed.conversationId;
+  const conversation = conversationId
+    ? await getRecord(
+        db,
+        `conversations/${claimed.workspaceId}/${claimed.agentId}/${conversationId}`
+      )
+    : null;
+  const history = (conversation?.messages ?? []) as UIMessage[];
+  // A new id keeps the resumed tool round apart from the pending one in the history
+  const toolCallId = `${claimed.toolCallId}-${claimed.status}`;
+
+  const { result, error: toolError } = await runApprovedTool(
+    claimed,
+    toolCallId,
+    history,
+    context
+  );
+  console.log("[Tool Approval Queue] Tool call handled:", {
+    ...message,
+    status: claimed.status,
+    toolName: claimed.toolName,
+    error: toolError,
+  });
+
+  let error = toolError;
+  let answer: string | null = null;
+  if (conversationId && history.some((m) => m.role === "user")) {
+    try {
+      // Tools keep the approval gate: calls made while resuming need approval too
+      const setup = await setupAgentAndTools(
+        claimed.workspaceId,
+        claimed.agentId,
+        history,
+        {
+          modelReferer: TOOL_APPROVAL_MODEL_REFERER,
+          callDepth: 0,
+          maxDelegationDepth: 3,
+          context,
+          conversationId,
+        }
+      );
+      answer = await resumeConversation({
+        approval: claimed,
+        conversationId,
+        history,
+        setup,
+        toolCallId,
+        result,
+        context,
+      });
+    } catch (resumeError) {
+      const resumeMessage =
+        resumeError instanceof Error ? resumeError.message : String(resumeError);
+      console.error("[Tool Approval Queue] Failed to resume conversation:", {
+        ...message,
+        conversationId,
+        error: resumeMessage,
+      });
+      error = error ?? `Resuming the conversation failed: ${resumeMessage}`;
+    }
+  }
+
+  await db["tool-approval"].update({
+    pk: claimed.pk,
+    sk: TOOL_APPROVAL_SK,
+    resultPreview: buildToolResultPreview(result),
+    ...(answer && { answer }),
+    ...(error && { error }),
+  });
+
+  if (answer) {
+    await deliverToolApprovalAnswer(db, claimed, answer);
+  }
+}
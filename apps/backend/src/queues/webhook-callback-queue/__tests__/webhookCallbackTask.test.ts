@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { WebhookCallbackQueueMessage } from "../../../utils/webhookCallbackQueue";
+import { processWebhookCallback } from "../webhookCallbackTask";
+
+const {
+  mockAgentKeyGet,
+  mockGetRecord,
+  mockDeliverWebhookCallback,
+  mockEnqueueWebhookCallback,
+} = vi.hoisted(() => ({
+  mockAgentKeyGet: vi.fn(),
+  mockGetRecord: vi.fn(),
+  mockDeliverWebhookCallback: vi.fn(),
+  mockEnqueueWebhookCallback: vi.fn(),
+}));
+
+vi.mock("../../../tables", () => ({
+  database: vi.fn().mockResolvedValue({
+    "agent-key": { get: mockAgentKeyGet },
+  }),
+}));
+
+vi.mock("../../../utils/conversationRecords", () => ({
+  getRecord: mockGetRecord,
+}));
+
+vi.mock("../../../utils/webhookCallback", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../utils/webhookCallback")>()),
+  deliverWebhookCallback: mockDeliverWebhookCallback,
+}));
+
+vi.mock("../../../utils/webhookCallbackQueue", () => ({
+  enqueueWebhookCallback: mockEnqueueWebhookCallback,
+}));
+
+const message: WebhookCallbackQueueMessage = {
+  workspaceId: "workspace-123",
+  agentId: "agent-456",
+  conversationId: "conversation-789",
+  callback: {
+    url: "https://example.com/hooks/helpmaton",
+    agentKeyId: "key-1",
+  },
+  attempts: 0,
+};
+
+describe("processWebhookCallback", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockAgentKeyGet.mockResolvedValue({
+      pk: "agent-keys/workspace-123/agent-456/key-1",
+      sk: "key",
+      key: "secret-key",
+    });
+    mockGetRecord.mockResolvedValue({
+      pk: "conversations/workspace-123/agent-456/conversation-789",
+      conversationType: "webhook",
+      messages: [
+        { role: "user", content: "hello" },
+        { role: "assistant", content: "hi there" },
+      ],
+      startedAt: "2026-01-01T00:00:00.000Z",
+      lastMessageAt: "2026-01-01T00:00:05.000Z",
+    });
+    mockDeliverWebhookCallback.mockResolvedValue({
+      delivered: true,
+      retryable: false,
+      statusCode: 200,
+    });
+  });
+
+  it("delivers the completed result signed with the webhook key", async () => {
+    await processWebhookCallback(message);
+
+    expect(mockAgentKeyGet).toHaveBeenCalledWith(
+      "agent-keys/workspace-123/agent-456/key-1",
+      "key"
+    );
+    expect(mockDeliverWebhookCallback).toHaveBeenCalledWith({
+      callbackUrl: message.callback.url,
+      signingKey: "secret-key",
+      result: expect.objectContaining({
+        conversationId: "conversation-789",
+        status: "completed",
+        message: "hi there",
+      }),
+    });
+    expect(mockEnqueueWebhookCallback).not.toHaveBeenCalled();
+  });
+
+  it("reports a failure when the conversation could not be recorded", async () => {
+    mockGetRecord.mockResolvedValue(null);
+
+    await processWebhookCallback(message);
+    await processWebhookCallback({
+      ...message,
+      failureMessage: "The webhook run failed repeatedly and was given up",
+    });
+
+    expect(mockDeliverWebhookCallback).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        result: expect.objectContaining({
+          status: "failed",
+          error: { message: "The conversation result could not be recorded" },
+        }),
+      })
+    );
+    expect(mockDeliverWebhookCallback).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        result: expect.objectContaining({
+          status: "failed",
+          error: {
+            message: "The webhook run failed repeatedly and was given up",
+          },
+        }),
+      })
+    );
+  });
+
+  it("skips the callback when the webhook key was deleted", async () => {
+    mockAgentKeyGet.mockResolvedValue(undefined);
+
+    await processWebhookCallback(message);
+
+    expect(mockDeliverWebhookCallback).not.toHaveBeenCalled();
+  });
+
+  it("re-queues retryable failures with a delay", async () => {
+    mockDeliverWebhookCallback.mockResolvedValue({
+      delivered: false,
+      retryable: true,
+      statusCode: 503,
+      error: "Callback responded with status 503",
+    });
+
+    await processWebhookCallback({ ...message, attempts: 1 });
+
+    expect(mockEnqueueWebhookCallback).toHaveBeenCalledWith(
+      { ...message, attempts: 2 },
+      20
+    );
+  });
+
+  it("does not retry permanent failures or after the last attempt", async () => {
+    mockDeliverWebhookCallback.mockResolvedValueOnce({
+      delivered: false,
+      retryable: false,
+      error: "example.com resolves to a non-public address",
+    });
+    await processWebhookCallback(message);
+
+    mockDeliverWebhookCallback.mockResolvedValueOnce({
+      delivered: false,
+      retryable: true,
+      error: "ECONNREFUSED",
+    });
+    await processWebhookCallback({ ...message, attempts: 4 });
+
+    expect(mockEnqueueWebhookCallback).not.toHaveBeenCalled();
+  });
+});
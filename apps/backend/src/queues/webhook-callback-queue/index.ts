@@ -0,0 +1,50 @@
+import type { SQSEvent } from "aws-lambda";
+
+import { handlingSQSErrors } from "../../utils/handlingSQSErrors";
+import { Sentry, ensureError, initSentry } from "../../utils/sentry";
+import { WebhookCallbackQueueMessageSchema } from "../../utils/webhookCallbackQueue";
+
+import { processWebhookCallback } from "./webhookCallbackTask";
+
+initSentry();
+
+export const handler = handlingSQSErrors(
+  async (event: SQSEvent): Promise<string[]> => {
+    const failedMessageIds: string[] = [];
+
+    for (const record of event.Records) {
+      const messageId = record.messageId || "unknown";
+      try {
+        const body = JSON.parse(record.body);
+        const message = WebhookCallbackQueueMessageSchema.parse(body);
+
+        console.log("[Webhook Callback Queue] Processing callback:", {
+          workspaceId: message.workspaceId,
+          agentId: message.agentId,
+          conversationId: message.conversationId,
+          attempts: message.attempts,
+        });
+
+        await processWebhookCallback(message);
+      } catch (error) {
+        console.error(
+          `[Webhook Callback Queue] Error processing message ${messageId}:`,
+          error
+        );
+        Sentry.captureException(ensureError(error), {
+          tags: {
+            context: "webhook-callback-queue",
+            operation: "process-message",
+          },
+          extra: {
+            messageId,
+          },
+        });
+        failedMessageIds.push(messageId);
+      }
+    }
+
+    return failedMessageIds;
+  },
+  { handlerName: "webhook-callback-queue" }
+);
@@ -0,0 +1,97 @@
+import { database } from "../../tables";
+import { getRecord } from "../../utils/conversationRecords";
+import {
+  WEBHOOK_CALLBACK_MAX_ATTEMPTS,
+  buildWebhookResult,
+  deliverWebhookCallback,
+  getWebhookCallbackRetryDelaySeconds,
+} from "../../utils/webhookCallback";
+import {
+  enqueueWebhookCallback,
+  type WebhookCallbackQueueMessage,
+} from "../../utils/webhookCallbackQueue";
+
+/**
+ * Make one delivery attempt of a webhook run result to the caller's callback URL,
+ * signed with the webhook key. Transient failures are re-queued with exponential
+ * backoff (SQS message delay) instead of waiting in the Lambda.
+ */
+export async function processWebhookCallback(
+  message: WebhookCallbackQueueMessage
+): Promise<void> {
+  const { workspaceId, agentId, conversationId, callback } = message;
+  const db = await database();
+
+  const agentKey = await db["agent-key"].get(
+    `agent-keys/${workspaceId}/${agentId}/${callback.agentKeyId}`,
+    "key"
+  );
+  if (!agentKey) {
+    console.warn(
+      "[Webhook Callback] Webhook key was deleted, skipping result callback:",
+      { workspaceId, agentId, conversationId }
+    );
+    return;
+  }
+
+  const conversation = await getRecord(
+    db,
+    `conversations/${workspaceId}/${agentId}/${conversationId}`
+  );
+  const result = buildWebhookResult(
+    { workspaceId, agentId, conversationId },
+    conversation
+  );
+  // The run has finished, so a missing conversation means it could not be logged
+  const finalResult =
+    result.status === "pending"
+      ? {
+          ...result,
+          status: "failed" as const,
+          error: {
+            message:
+              message.failureMessage ??
+              "The conversation result could not be recorded",
+          },
+        }
+      : result;
+
+  const attempts = message.attempts + 1;
+  const delivery = await deliverWebhookCallback({
+    callbackUrl: callback.url,
+    signingKey: agentKey.key,
+    result: finalResult,
+  });
+
+  if (delivery.delivered) {
+    console.log("[Webhook Callback] Result callback delivered:", {
+      conversationId,
+      attempts,
+      statusCode: delivery.statusCode,
+    });
+    return;
+  }
+
+  if (!delivery.retryable || attempts >= WEBHOOK_CALLBACK_MAX_ATTEMPTS) {
+    console.warn("[Webhook Callback] Result callback delivery failed:", {
+      conversationId,
+      callbackUrl: callback.url,
+      attempts,
+      statusCode: delivery.statusCode,
+      error: delivery.error,
+    });
+    return;
+  }
+
+  console.warn("[Webhook Callback] Delivery attempt failed, retrying:", {
+    conversationId,
+    callbackUrl: callback.url,
+    attempt: attempts,
+    statusCode: delivery.statusCode,
+    error: delivery.error,
+  });
+  await enqueueWebhookCallback(
+    { ...message, attempts },
+    getWebhookCallbackRetryDelaySeconds(attempts)
+  );
+}
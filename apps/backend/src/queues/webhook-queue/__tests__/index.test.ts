@@ -1,13 +1,19 @@
 import type { SQSEvent, SQSRecord } from "aws-lambda";
 import { describe, it, expect, vi, beforeEach } from "vitest";
 
-const { mockProcessWebhookTask, mockGetCurrentSQSContext } = vi.hoisted(() => ({
+const {
+  mockProcessWebhookTask,
+  mockAbandonWebhookTask,
+  mockGetCurrentSQSContext,
+} = vi.hoisted(() => ({
   mockProcessWebhookTask: vi.fn(),
+  mockAbandonWebhookTask: vi.fn(),
   mockGetCurrentSQSContext: vi.fn(),
 }));
 
 vi.mock("../webhookTask", () => ({
   processWebhookTask: mockProcessWebhookTask,
+  abandonWebhookTask: mockAbandonWebhookTask,
 }));
 
 vi.mock("../../../utils/workspaceCreditContext", () => ({
@@ -104,4 +110,61 @@ describe("webhook-queue handler", () => {
     expect(mockProcessWebhookTask).not.toHaveBeenCalled();
     expect(result).toEqual(["msg-1"]);
   });
+
+  describe("failing runs", () => {
+    const callback = {
+      url: "https://example.com/hooks/helpmaton",
+      agentKeyId: "key-1",
+    };
+
+    function buildRecord(receiveCount: string): SQSRecord {
+      return {
+        messageId: "msg-1",
+        receiptHandle: "receipt-1",
+        body: JSON.stringify({
+          workspaceId: "workspace-123",
+          agentId: "agent-456",
+          bodyText: "hello",
+          conversationId: "conversation-789",
+          callback,
+        }),
+        attributes: {
+          ApproximateReceiveCount: receiveCount,
+          SentTimestamp: "1234567890000",
+          SenderId: "test-sender",
+          ApproximateFirstReceiveTimestamp: "1234567890000",
+        },
+        messageAttributes: {},
+        md5OfBody: "",
+        eventSource: "aws:sqs",
+        eventSourceARN: "arn:aws:sqs:region:account:queue",
+        awsRegion: "eu-west-2",
+      };
+    }
+
+    it("leaves a failing run to be retried before its last receive", async () => {
+      mockProcessWebhookTask.mockRejectedValue(new Error("provider down"));
+
+      const result = await handler({ Records: [buildRecord("2")] });
+
+      expect(result).toEqual(["msg-1"]);
+      expect(mockAbandonWebhookTask).not.toHaveBeenCalled();
+    });
+
+    it("gives up and reports the run on its last receive", async () => {
+      const error = new Error("provider down");
+      mockProcessWebhookTask.mockRejectedValue(error);
+
+      const result = await handler({ Records: [buildRecord("3")] });
+
+      expect(result).toEqual([]);
+      expect(mockAbandonWebhookTask).toHaveBeenCalledWith({
+        workspaceId: "workspace-123",
+        agentId: "agent-456",
+        conversationId: "conversation-789",
+        callback,
+        error,
+      });
+    });
+  });
 });
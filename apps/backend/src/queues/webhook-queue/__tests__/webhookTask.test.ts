@@ -11,6 +11,7 @@ const {
   mockSetupAgentAndTools,
   mockFormatToolCallMessage,
   mockFormatToolResultMessage,
+  mockEnqueueWebhookCallback,
 } = vi.hoisted(() => ({
   mockDatabase: vi.fn(),
   mockStartConversation: vi.fn(),
@@ -22,6 +23,7 @@ const {
   mockSetupAgentAndTools: vi.fn(),
   mockFormatToolCallMessage: vi.fn(),
   mockFormatToolResultMessage: vi.fn(),
+  mockEnqueueWebhookCallback: vi.fn(),
 }));
 
 vi.mock("../../../tables", () => ({
@@ -113,8 +115,12 @@ vi.mock("../../../http/utils/agentSetup", () => ({
   setupAgentAndTools: mockSetupAgentAndTools,
 }));
 
+vi.mock("../../../utils/webhookCallbackQueue", () => ({
+  enqueueWebhookCallback: mockEnqueueWebhookCallback,
+}));
+
 import type { AugmentedContext } from "../../../utils/workspaceCreditContext";
-import { processWebhookTask } from "../webhookTask";
+import { abandonWebhookTask, processWebhookTask } from "../webhookTask";
 
 describe("processWebhookTask", () => {
   beforeEach(() => {
@@ -708,4 +714,154 @@ describe("processWebhookTask", () => {
       "webhook"
     );
   });
+
+  it("passes the output schema and records the structured output", async () => {
+    const outputSchema = {
+      type: "object",
+      properties: { answer: { type: "string" } },
+    };
+    mockCallAgentNonStreaming.mockResolvedValue({
+      text: '{"answer":"42"}',
+      tokenUsage: undefined,
+      rawResult: {
+        toolCalls: [],
+        toolResults: [],
+      },
+      structuredOutput: { answer: "42" },
+    });
+
+    await processWebhookTask({
+      workspaceId: "workspace-123",
+      agentId: "agent-456",
+      bodyText: "hello",
+      conversationId: "conversation-789",
+      outputSchema,
+      context: buildContext(),
+      awsRequestId: "msg-1",
+    });
+
+    expect(mockCallAgentNonStreaming).toHaveBeenCalledWith(
+      "workspace-123",
+      "agent-456",
+      "hello",
+      expect.objectContaining({ outputSchema })
+    );
+    expect(mockStartConversation).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ structuredOutput: { answer: "42" } })
+    );
+  });
+
+  it("records structured-output failures without retrying the message", async () => {
+    const error = Object.assign(new Error("did not match the output schema"), {
+      code: "STRUCTURED_OUTPUT_INVALID",
+    });
+    mockCallAgentNonStreaming.mockRejectedValue(error);
+
+    await expect(
+      processWebhookTask({
+        workspaceId: "workspace-123",
+        agentId: "agent-456",
+        bodyText: "hello",
+        conversationId: "conversation-789",
+        context: buildContext(),
+        awsRequestId: "msg-1",
+      })
+    ).resolves.toBeUndefined();
+
+    expect(mockStartConversation).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        conversationId: "conversation-789",
+        error: expect.anything(),
+      })
+    );
+  });
+
+  describe("result callbacks", () => {
+    const callback = {
+      url: "https://example.com/hooks/helpmaton",
+      agentKeyId: "key-1",
+    };
+
+    beforeEach(() => {
+      mockEnqueueWebhookCallback.mockResolvedValue(undefined);
+    });
+
+    it("does not send a callback when none was requested", async () => {
+      await processWebhookTask({
+        workspaceId: "workspace-123",
+        agentId: "agent-456",
+        bodyText: "hello",
+        conversationId: "conversation-789",
+        context: buildContext(),
+        awsRequestId: "msg-1",
+      });
+
+      expect(mockEnqueueWebhookCallback).not.toHaveBeenCalled();
+    });
+
+    it("queues the result callback once the run has finished", async () => {
+      await processWebhookTask({
+        workspaceId: "workspace-123",
+        agentId: "agent-456",
+        bodyText: "hello",
+        conversationId: "conversation-789",
+        callback,
+        context: buildContext(),
+        awsRequestId: "msg-1",
+      });
+
+      expect(mockEnqueueWebhookCallback).toHaveBeenCalledWith({
+        workspaceId: "workspace-123",
+        agentId: "agent-456",
+        conversationId: "conversation-789",
+        callback,
+        attempts: 0,
+      });
+    });
+
+    it("does not fail the task when queueing the callback throws", async () => {
+      mockEnqueueWebhookCallback.mockRejectedValue(new Error("boom"));
+
+      await expect(
+        processWebhookTask({
+          workspaceId: "workspace-123",
+          agentId: "agent-456",
+          bodyText: "hello",
+          conversationId: "conversation-789",
+          callback,
+          context: buildContext(),
+          awsRequestId: "msg-1",
+        })
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("abandonWebhookTask", () => {
+    it("sends a failed result to the callback URL", async () => {
+      mockEnqueueWebhookCallback.mockResolvedValue(undefined);
+      const callback = {
+        url: "https://example.com/hooks/helpmaton",
+        agentKeyId: "key-1",
+      };
+
+      await abandonWebhookTask({
+        workspaceId: "workspace-123",
+        agentId: "agent-456",
+        conversationId: "conversation-789",
+        callback,
+        error: new Error("provider down"),
+      });
+
+      expect(mockEnqueueWebhookCallback).toHaveBeenCalledWith({
+        workspaceId: "workspace-123",
+        agentId: "agent-456",
+        conversationId: "conversation-789",
+        callback,
+        attempts: 0,
+        failureMessage: "The webhook run failed repeatedly and was given up",
+      });
+    });
+  });
 });
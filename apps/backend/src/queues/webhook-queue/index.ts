@@ -8,10 +8,14 @@ import {
 } from "../../utils/webhookQueue";
 import { getCurrentSQSContext } from "../../utils/workspaceCreditContext";
 
-import { processWebhookTask } from "./webhookTask";
+import { abandonWebhookTask, processWebhookTask } from "./webhookTask";
 
 initSentry();
 
+// A run that still fails on this receive is given up and reported as failed,
+// instead of being retried until the message expires
+const WEBHOOK_TASK_MAX_RECEIVES = 3;
+
 async function processWebhookQueueMessage(
   message: WebhookQueueMessage,
   messageId: string
@@ -27,6 +31,9 @@ async function processWebhookQueueMessage(
     bodyText: message.bodyText,
     conversationId: message.conversationId,
     subscriptionId: message.subscriptionId,
+    callback: message.callback,
+    outputSchema: message.outputSchema,
+    endUserId: message.endUserId,
     context,
     awsRequestId: messageId,
   });
@@ -38,9 +45,10 @@ export const handler = handlingSQSErrors(
 
     for (const record of event.Records) {
       const messageId = record.messageId || "unknown";
+      let message: WebhookQueueMessage | undefined;
       try {
         const body = JSON.parse(record.body);
-        const message = WebhookQueueMessageSchema.parse(body);
+        message = WebhookQueueMessageSchema.parse(body);
 
         console.log("[Webhook Queue] Processing task:", {
           workspaceId: message.workspaceId,
@@ -64,6 +72,20 @@ export const handler = handlingSQSErrors(
             messageBody: record.body,
           },
         });
+
+        const receiveCount = Number(
+          record.attributes?.ApproximateReceiveCount ?? 1
+        );
+        if (message && receiveCount >= WEBHOOK_TASK_MAX_RECEIVES) {
+          await abandonWebhookTask({
+            workspaceId: message.workspaceId,
+            agentId: message.agentId,
+            conversationId: message.conversationId,
+            callback: message.callback,
+            error,
+          });
+          continue;
+        }
         failedMessageIds.push(messageId);
       }
     }
@@ -29,7 +29,13 @@ import {
 import type { UIMessage } from "../../utils/messageTypes";
 import { resetPostHogRequestContext } from "../../utils/posthog";
 import { Sentry, ensureError } from "../../utils/sentry";
+import {
+  isStructuredOutputError,
+  type OutputJsonSchema,
+} from "../../utils/structuredOutput";
 import { trackBusinessEvent } from "../../utils/tracking";
+import { enqueueWebhookCallback } from "../../utils/webhookCallbackQueue";
+import type { WebhookCallbackTarget } from "../../utils/webhookQueue";
 import { getTransactionBuffer, type AugmentedContext } from "../../utils/workspaceCreditContext";
 import { updateTransactionBufferConversationId } from "../../utils/workspaceCreditTransactions";
 
@@ -43,12 +49,14 @@ async function persistWebhookConversationError(options: {
   db: Awaited<ReturnType<typeof database>>;
   workspaceId: string;
   agentId: string;
+  conversationId: string;
   uiMessage: UIMessage;
   usesByok?: boolean;
   finalModelName?: string;
   error: unknown;
   awsRequestId?: string;
   context?: AugmentedContext;
+  endUserId?: string;
 }): Promise<void> {
   try {
     const messages = [options.uiMessage].filter(
@@ -117,12 +125,14 @@ async function persistWebhookConversationError(options: {
     await startConversation(options.db, {
       workspaceId: options.workspaceId,
       agentId: options.agentId,
+      conversationId: options.conversationId,
       conversationType: "webhook",
       messages,
       usesByok: options.usesByok,
       error: errorInfo,
       awsRequestId: options.awsRequestId,
       context: options.context,
+      ...(options.endUserId && { endUserId: options.endUserId }),
     });
   } catch (logError) {
     console.error("[Webhook Task] Failed to persist conversation error:", {
@@ -399,6 +409,7 @@ async function logWebhookConversation(options: {
   generationTimeMs: number;
   awsRequestId?: string;
   context: AugmentedContext | undefined;
+  endUserId?: string;
 }): Promise<void> {
   const {
     db,
@@ -413,6 +424,7 @@ async function logWebhookConversation(options: {
     generationTimeMs,
     awsRequestId,
     context,
+    endUserId,
   } = options;
 
   const observerMessages = agentResult.observerEvents
@@ -501,6 +513,10 @@ async function logWebhookConversation(options: {
     usesByok,
     awsRequestId,
     context,
+    ...(endUserId && { endUserId }),
+    ...(agentResult.structuredOutput !== undefined && {
+      structuredOutput: agentResult.structuredOutput,
+    }),
   });
 
   if (createdConversationId !== conversationId) {
@@ -535,12 +551,113 @@ async function logWebhookConversation(options: {
   );
 }
 
+/**
+ * Queue the delivery of the run result to the caller's callback URL.
+ * Delivery problems are logged and never fail the queue message.
+ */
+async function sendWebhookResultCallback(options: {
+  workspaceId: string;
+  agentId: string;
+  conversationId: string;
+  callback: WebhookCallbackTarget;
+  failureMessage?: string;
+}): Promise<void> {
+  const { workspaceId, agentId, conversationId, callback, failureMessage } =
+    options;
+  try {
+    await enqueueWebhookCallback({
+      workspaceId,
+      agentId,
+      conversationId,
+      callback,
+      attempts: 0,
+      ...(failureMessage && { failureMessage }),
+    });
+  } catch (error) {
+    console.error("[Webhook Task] Error queueing result callback:", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    Sentry.captureException(ensureError(error), {
+      tags: {
+        endpoint: "webhook",
+        operation: "result_callback",
+      },
+      extra: {
+        workspaceId,
+        agentId,
+        conversationId,
+      },
+    });
+  }
+}
+
 export async function processWebhookTask(options: {
   workspaceId: string;
   agentId: string;
   bodyText: string;
   conversationId: string;
   subscriptionId?: string;
+  callback?: WebhookCallbackTarget;
+  outputSchema?: OutputJsonSchema;
+  endUserId?: string;
+  context: AugmentedContext;
+  awsRequestId?: string;
+}): Promise<void> {
+  await runWebhookTask(options);
+
+  // Errors that are rethrown above are retried by SQS, so the callback is only
+  // sent once the run has reached a final state (completed or handled failure)
+  if (options.callback) {
+    await sendWebhookResultCallback({
+      workspaceId: options.workspaceId,
+      agentId: options.agentId,
+      conversationId: options.conversationId,
+      callback: options.callback,
+    });
+  }
+}
+
+/**
+ * Give up a webhook run that failed on its last queue receive: the caller is sent a
+ * failed result instead of waiting for a callback that never comes. The run's
+ * conversation usually holds the error already; a missing one is reported with the
+ * given error.
+ */
+export async function abandonWebhookTask(options: {
+  workspaceId: string;
+  agentId: string;
+  conversationId: string;
+  callback?: WebhookCallbackTarget;
+  error: unknown;
+}): Promise<void> {
+  console.error("[Webhook Task] Giving up webhook run after repeated failures:", {
+    workspaceId: options.workspaceId,
+    agentId: options.agentId,
+    conversationId: options.conversationId,
+    error:
+      options.error instanceof Error
+        ? options.error.message
+        : String(options.error),
+  });
+  if (options.callback) {
+    await sendWebhookResultCallback({
+      workspaceId: options.workspaceId,
+      agentId: options.agentId,
+      conversationId: options.conversationId,
+      callback: options.callback,
+      failureMessage: "The webhook run failed repeatedly and was given up",
+    });
+  }
+}
+
+async function runWebhookTask(options: {
+  workspaceId: string;
+  agentId: string;
+  bodyText: string;
+  conversationId: string;
+  subscriptionId?: string;
+  outputSchema?: OutputJsonSchema;
+  endUserId?: string;
   context: AugmentedContext;
   awsRequestId?: string;
 }): Promise<void> {
@@ -552,6 +669,8 @@ export async function processWebhookTask(options: {
     bodyText,
     conversationId,
     subscriptionId,
+    outputSchema,
+    endUserId,
     context,
     awsRequestId,
   } = options;
@@ -573,6 +692,8 @@ export async function processWebhookTask(options: {
       endpointType: "webhook",
       conversationId,
       abortSignal: requestTimeout.signal,
+      ...(outputSchema && { outputSchema }),
+      ...(endUserId && { endUserId }),
     });
     const generationTimeMs = Date.now() - generationStartTime;
     const generationEndedAt = new Date().toISOString();
@@ -609,11 +730,13 @@ export async function processWebhookTask(options: {
           db,
           workspaceId,
           agentId,
+          conversationId,
           uiMessage,
           usesByok,
           finalModelName,
           error: errorToLog,
           context,
+          endUserId,
         });
         cleanupRequestTimeout(requestTimeout);
         return;
@@ -622,12 +745,14 @@ export async function processWebhookTask(options: {
         db,
         workspaceId,
         agentId,
+        conversationId,
         uiMessage,
         usesByok,
         finalModelName,
         error: resultError,
         awsRequestId,
         context,
+        endUserId,
       });
       cleanupRequestTimeout(requestTimeout);
       throw resultError;
@@ -731,6 +856,7 @@ export async function processWebhookTask(options: {
         generationTimeMs,
         awsRequestId,
         context,
+        endUserId,
       });
     } catch (error) {
       console.error("[Webhook Task] Error logging conversation:", {
@@ -769,12 +895,14 @@ export async function processWebhookTask(options: {
         db,
         workspaceId,
         agentId,
+        conversationId,
         uiMessage,
         usesByok,
         finalModelName,
         error: timeoutError,
         awsRequestId,
         context,
+        endUserId,
       });
       return;
     }
@@ -802,18 +930,25 @@ export async function processWebhookTask(options: {
       db,
       workspaceId,
       agentId,
+      conversationId,
       uiMessage,
       usesByok,
       finalModelName,
       error: errorToLog,
       awsRequestId,
       context,
+      endUserId,
     });
 
     if (isByokAuthenticationError(error, usesByok === true)) {
       return;
     }
 
+    // The call was already retried once; repeating the whole run is unlikely to help
+    if (isStructuredOutputError(error)) {
+      return;
+    }
+
     const creditErrorResult = await handleCreditErrors(
       error,
       workspaceId,
@@ -43,6 +43,8 @@ describe("aggregate-token-usage helpers", () => {
           totalTokens: 7,
         },
         messages: [{ role: "user" }],
+        positiveFeedbackCount: 2,
+        negativeFeedbackCount: 1,
       },
     ] as AgentConversationRecord[];
 
@@ -63,6 +65,8 @@ describe("aggregate-token-usage helpers", () => {
       messagesIn: 2,
       messagesOut: 2,
       totalMessages: 4,
+      positiveFeedback: 2,
+      negativeFeedback: 1,
     });
   });
 
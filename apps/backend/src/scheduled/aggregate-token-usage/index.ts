@@ -27,6 +27,8 @@ type ConversationMessageCounts = {
   messagesIn: number;
   messagesOut: number;
   totalMessages: number;
+  positiveFeedback: number;
+  negativeFeedback: number;
 };
 
 type TokenUsageAggregateInput = {
@@ -229,12 +231,16 @@ export const buildConversationAggregates = (
         messagesIn: 0,
         messagesOut: 0,
         totalMessages: 0,
+        positiveFeedback: 0,
+        negativeFeedback: 0,
       });
     }
     const messageCounts = messageCountMap.get(conversationKey)!;
     messageCounts.messagesIn += userMessageCount;
     messageCounts.messagesOut += assistantMessageCount;
     messageCounts.totalMessages += userMessageCount + assistantMessageCount;
+    messageCounts.positiveFeedback += conv.positiveFeedbackCount ?? 0;
+    messageCounts.negativeFeedback += conv.negativeFeedbackCount ?? 0;
 
     const tokenUsage = conv.tokenUsage;
     const supplier = extractSupplierFromModelName(conv.modelName);
@@ -293,6 +299,8 @@ const writeTokenUsageAggregates = async (params: {
         messagesIn: 0,
         messagesOut: 0,
         totalMessages: 0,
+        positiveFeedback: 0,
+        negativeFeedback: 0,
       };
 
     const agentIdDate = `${aggData.agentId ?? "workspace"}#${params.dateStr}`;
@@ -315,6 +323,8 @@ const writeTokenUsageAggregates = async (params: {
       messagesIn: messageCounts.messagesIn,
       messagesOut: messageCounts.messagesOut,
       totalMessages: messageCounts.totalMessages,
+      positiveFeedback: messageCounts.positiveFeedback,
+      negativeFeedback: messageCounts.negativeFeedback,
       createdAt: new Date().toISOString(),
     };
 
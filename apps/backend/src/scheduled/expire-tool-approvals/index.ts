@@ -0,0 +1,105 @@
+import type { ScheduledEvent } from "aws-lambda";
+
+import { database } from "../../tables";
+import type { ToolApprovalRecord } from "../../tables/schema";
+import { handlingScheduledErrors } from "../../utils/handlingErrors";
+import { Sentry, ensureError, initSentry } from "../../utils/sentry";
+import {
+  decideToolApproval,
+  enqueueToolApprovalResume,
+} from "../../utils/toolApproval";
+
+initSentry();
+
+const MAX_APPROVALS_PER_RUN = 100;
+
+/**
+ * Expires approval requests nobody decided in time and queues resuming their
+ * conversations. A timeout never runs the tool: only a person can approve it.
+ */
+export const handler = handlingScheduledErrors(
+  async (event: ScheduledEvent): Promise<void> => {
+    const db = await database();
+    const nowIso = new Date().toISOString();
+
+    console.log("[Tool Approvals] Checking for timed out approval requests:", {
+      nowIso,
+      eventTime: event.time,
+    });
+
+    const timedOut: ToolApprovalRecord[] = [];
+    try {
+      for await (const approval of db["tool-approval"].queryAsync({
+        IndexName: "byStatusAndExpiresAt",
+        KeyConditionExpression: "#status = :pending AND expiresAt <= :now",
+        ExpressionAttributeNames: {
+          "#status": "status",
+        },
+        ExpressionAttributeValues: {
+          ":pending": "pending",
+          ":now": nowIso,
+        },
+      })) {
+        timedOut.push(approval);
+        if (timedOut.length >= MAX_APPROVALS_PER_RUN) {
+          break;
+        }
+      }
+    } catch (error) {
+      console.error("[Tool Approvals] Failed to query timed out requests:", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      Sentry.captureException(ensureError(error), {
+        tags: {
+          handler: "expire-tool-approvals",
+          operation: "query",
+        },
+      });
+      throw error;
+    }
+
+    if (timedOut.length === 0) {
+      console.log("[Tool Approvals] No timed out approval requests.");
+      return;
+    }
+
+    for (const approval of timedOut) {
+      const { workspaceId, agentId, approvalId } = approval;
+      try {
+        const decided = await decideToolApproval(db, {
+          workspaceId,
+          agentId,
+          approvalId,
+          status: "expired",
+          decidedBy: "timeout",
+        });
+        await enqueueToolApprovalResume(decided);
+
+        console.log("[Tool Approvals] Expired approval request:", {
+          workspaceId,
+          agentId,
+          approvalId,
+          status: decided.status,
+        });
+      } catch (error) {
+        console.error("[Tool Approvals] Failed to expire approval request:", {
+          workspaceId,
+          agentId,
+          approvalId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        Sentry.captureException(ensureError(error), {
+          tags: {
+            handler: "expire-tool-approvals",
+            operation: "expire",
+          },
+          extra: {
+            workspaceId,
+            agentId,
+            approvalId,
+          },
+        });
+      }
+    }
+  }
+);
@@ -84,7 +84,8 @@ describe("run-agent-schedules", () => {
     );
     expect(mockGetNextRunAtEpochSeconds).toHaveBeenCalledWith(
       schedule.cronExpression,
-      new Date(schedule.nextRunAt * 1000)
+      new Date(schedule.nextRunAt * 1000),
+      "UTC"
     );
     expect(mockUpdate).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -104,4 +105,42 @@ describe("run-agent-schedules", () => {
     });
     dateNowSpy.mockRestore();
   });
+
+  it("computes nextRunAt in the schedule timezone", async () => {
+    const dateNowSpy = vi
+      .spyOn(Date, "now")
+      .mockReturnValue(1710000000 * 1000);
+    const schedule = {
+      pk: "agent-schedules/workspace-1/agent-1/schedule-2",
+      sk: "schedule",
+      scheduleId: "schedule-2",
+      workspaceId: "workspace-1",
+      agentId: "agent-1",
+      cronExpression: "0 9 * * 1-5",
+      timezone: "Europe/Lisbon",
+      prompt: "Morning briefing",
+      enabled: true,
+      duePartition: "due",
+      nextRunAt: 1710000000,
+    };
+
+    mockDatabase.mockResolvedValue({
+      "agent-schedule": {
+        queryAsync: vi.fn(async function* () {
+          yield schedule;
+        }),
+        update: vi.fn().mockResolvedValue(schedule),
+      },
+    });
+    mockGetNextRunAtEpochSeconds.mockReturnValue(1712345678);
+
+    await handler({} as never);
+
+    expect(mockGetNextRunAtEpochSeconds).toHaveBeenCalledWith(
+      schedule.cronExpression,
+      new Date(schedule.nextRunAt * 1000),
+      "Europe/Lisbon"
+    );
+    dateNowSpy.mockRestore();
+  });
 });
@@ -2,7 +2,10 @@ import { queues } from "@architect/functions";
 import type { ScheduledEvent } from "aws-lambda";
 
 import { database } from "../../tables";
-import { DUE_PARTITION } from "../../utils/agentSchedule";
+import {
+  DEFAULT_SCHEDULE_TIMEZONE,
+  DUE_PARTITION,
+} from "../../utils/agentSchedule";
 import { getNextRunAtEpochSeconds } from "../../utils/cron";
 import { handlingScheduledErrors } from "../../utils/handlingErrors";
 import { Sentry, ensureError, initSentry } from "../../utils/sentry";
@@ -19,6 +22,7 @@ interface ScheduleRecord {
   workspaceId: string;
   agentId: string;
   cronExpression: string;
+  timezone?: string;
   prompt: string;
   enabled: boolean;
   nextRunAt: number;
@@ -82,6 +86,7 @@ export const handler = handlingScheduledErrors(
         cronExpression,
         enabled,
       } = schedule;
+      const timezone = schedule.timezone ?? DEFAULT_SCHEDULE_TIMEZONE;
 
       if (!enabled) {
         console.log("[Agent Schedules] Skipping disabled schedule:", {
@@ -95,12 +100,14 @@ export const handler = handlingScheduledErrors(
       try {
         let nextRunAt = getNextRunAtEpochSeconds(
           cronExpression,
-          new Date(schedule.nextRunAt * 1000)
+          new Date(schedule.nextRunAt * 1000),
+          timezone
         );
         while (nextRunAt <= now) {
           nextRunAt = getNextRunAtEpochSeconds(
             cronExpression,
-            new Date(nextRunAt * 1000)
+            new Date(nextRunAt * 1000),
+            timezone
           );
         }
 
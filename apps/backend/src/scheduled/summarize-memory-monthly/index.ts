@@ -1,156 +1,31 @@
-import { randomUUID } from "crypto";
-
 import type { ScheduledEvent } from "aws-lambda";
 
 import { database } from "../../tables";
-import { generateEmbedding, resolveEmbeddingApiKey } from "../../utils/embedding";
 import { handlingScheduledErrors } from "../../utils/handlingErrors";
-import { summarizeWithLLM } from "../../utils/memory/summarizeMemory";
-import { formatTimeForGrain } from "../../utils/memory/timeFormats";
-import { queueMemoryWrite } from "../../utils/memory/writeMemory";
+import {
+  enqueueMemorySummaries,
+  getMemorySummaryPeriod,
+} from "../../utils/memory/memoryMaintenance";
 import { initSentry } from "../../utils/sentry";
-import { query } from "../../utils/vectordb/readClient";
-import type { FactRecord } from "../../utils/vectordb/types";
-import type { AugmentedContext } from "../../utils/workspaceCreditContext";
 
 initSentry();
 
 /**
  * Summarize week summaries into month summaries for all agents
+ * Queues one memory-maintenance-queue message per memory partition
  */
 export const handler = handlingScheduledErrors(
-   
-  async (
-    _event: ScheduledEvent,
-    context?: AugmentedContext
-  ): Promise<void> => {
-    console.log(
-      "[Monthly Memory Summarization] Starting monthly summarization",
-    );
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars -- event parameter required by Lambda handler signature
+  async (_event: ScheduledEvent): Promise<void> => {
+    console.log("[Monthly Memory Summarization] Starting monthly summarization");
 
     const db = await database();
-    const now = new Date();
-    const lastMonth = new Date(now);
-    lastMonth.setMonth(lastMonth.getMonth() - 1);
-
-    // Get all workspaces
-    const workspacePermissions = await db.permission.query({
-      IndexName: "byResourceTypeAndEntityId",
-      KeyConditionExpression: "resourceType = :resourceType",
-      ExpressionAttributeValues: {
-        ":resourceType": "workspaces",
-      },
-    });
-
-    const workspaceIds = [
-      ...new Set(
-        workspacePermissions.items.map((p) => p.pk.replace("workspaces/", "")),
-      ),
-    ];
-
-    // Process each workspace
-    for (const workspaceId of workspaceIds) {
-      try {
-        const { apiKey } = await resolveEmbeddingApiKey(workspaceId);
-        const agentsQuery = await db.agent.query({
-          IndexName: "byWorkspaceId",
-          KeyConditionExpression: "workspaceId = :workspaceId",
-          ExpressionAttributeValues: {
-            ":workspaceId": workspaceId,
-          },
-        });
-
-        const agents = agentsQuery.items;
-
-        for (const agent of agents) {
-          try {
-            const agentId = agent.pk.replace(`agents/${workspaceId}/`, "");
-
-            // Query week summaries from last 30 days
-            const thirtyDaysAgo = new Date(now);
-            thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-
-            const weekSummaries = await query(agentId, "weekly", {
-              limit: 1000,
-              temporalFilter: {
-                startDate: thirtyDaysAgo.toISOString(),
-                endDate: now.toISOString(),
-              },
-            });
-
-            if (weekSummaries.length === 0) {
-              continue;
-            }
-
-            // Sort week summaries by timestamp (oldest first) to ensure chronological order
-            const sortedWeekSummaries = [...weekSummaries].sort((a, b) => {
-              const aTime = new Date(a.timestamp).getTime();
-              const bTime = new Date(b.timestamp).getTime();
-              return aTime - bTime;
-            });
-
-            // Extract content from sorted week summaries
-            const content = sortedWeekSummaries.map((record) => record.content);
-
-            // Summarize
-            const summary = await summarizeWithLLM(
-              content,
-              "monthly",
-              workspaceId,
-              agentId,
-              agent.summarizationPrompts,
-              context,
-            );
-
-            if (!summary || summary.trim().length === 0) {
-              continue;
-            }
-
-            // Generate embedding
-            const embedding = await generateEmbedding(
-              summary,
-              apiKey,
-              undefined,
-              undefined,
-            );
-
-            // Create month summary record
-            const monthTimeString = formatTimeForGrain("monthly", lastMonth);
-            const record: FactRecord = {
-              id: randomUUID(),
-              content: summary,
-              embedding,
-              timestamp: lastMonth.toISOString(),
-              metadata: {
-                agentId,
-                workspaceId,
-                grain: "monthly",
-                timeString: monthTimeString,
-              },
-            };
-
-            await queueMemoryWrite(agentId, "monthly", [record]);
-
-            console.log(
-              `[Monthly Memory Summarization] Agent ${agentId}: Created month summary for ${monthTimeString}`,
-            );
-          } catch (error) {
-            console.error(
-              `[Monthly Memory Summarization] Error processing agent ${agent.pk}:`,
-              error,
-            );
-          }
-        }
-      } catch (error) {
-        console.error(
-          `[Monthly Memory Summarization] Error processing workspace ${workspaceId}:`,
-          error,
-        );
-      }
-    }
-
-    console.log(
-      "[Monthly Memory Summarization] Completed monthly summarization",
+    await enqueueMemorySummaries(
+      db,
+      "monthly",
+      getMemorySummaryPeriod("monthly", new Date())
     );
-  },
+
+    console.log("[Monthly Memory Summarization] Queued monthly summarization");
+  }
 );
@@ -358,7 +358,7 @@ describe("workspaceExportSchema", () => {
           {
             id: "bot-1",
             agentId: "agent-456",
-            platform: "telegram", // Invalid
+            platform: "whatsapp", // Invalid
             name: "Bot",
             config: {},
             webhookUrl: "https://example.com/webhook",
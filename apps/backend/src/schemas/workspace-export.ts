@@ -1,5 +1,6 @@
 import { z } from "zod";
 
+import { MAX_FALLBACK_MODELS } from "../http/utils/modelFallback";
 import { getValidOpenRouterModelNames } from "../utils/pricing";
 
 /**
@@ -133,6 +134,12 @@ const openRouterModelNameRequired = z
     { message: OPENROUTER_MODEL_ERROR },
   );
 
+/** Fallback models, each validated against OpenRouter pricing config. */
+const openRouterFallbackModelNames = z
+  .array(openRouterModelNameRequired)
+  .max(MAX_FALLBACK_MODELS)
+  .optional();
+
 /**
  * Spending limit configuration
  *
@@ -277,6 +284,9 @@ const evalJudgeSchema = z
     modelName: openRouterModelNameRequired.describe(
       "Model name for the judge (must be a valid OpenRouter model from pricing config)",
     ),
+    fallbackModelNames: openRouterFallbackModelNames.describe(
+      "Models tried in order when the judge's model fails with a provider error or timeout",
+    ),
     evalPrompt: z.string().describe("The evaluation prompt template"),
   })
   .describe("Evaluation judge configuration for an agent");
@@ -318,6 +328,12 @@ const agentSchema = z
       .string()
       .optional()
       .describe("Prompt to use for memory extraction"),
+    memoryPartitionByEndUser: z
+      .boolean()
+      .optional()
+      .describe(
+        "Keep working memory, summaries and graph facts per end user (default: false)",
+      ),
     notificationChannelId: referenceString
       .optional()
       .describe("Reference to output channel"),
@@ -337,6 +353,27 @@ const agentSchema = z
       .record(z.string(), z.array(z.string()))
       .optional()
       .describe("Per-server tool allowlist for MCP servers"),
+    toolApproval: z
+      .object({
+        toolNames: z
+          .array(z.string())
+          .optional()
+          .describe("Built-in tools that require approval (e.g. send_email)"),
+        mcpServerToolNames: z
+          .record(z.string(), z.array(z.string()))
+          .optional()
+          .describe(
+            "Per-server MCP tools that require approval (keys can use references)",
+          ),
+        timeoutMinutes: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("How long a request stays pending (default: 1440)"),
+      })
+      .optional()
+      .describe("Tools whose calls wait for a human decision before they run"),
     enabledSkillIds: z
       .array(z.string())
       .optional()
@@ -367,6 +404,18 @@ const agentSchema = z
       .describe(
         "Include workspace documents when injecting knowledge (default: true)",
       ),
+    knowledgeFolderPaths: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Restrict document search and knowledge injection to these folders and their subfolders (default: all documents)",
+      ),
+    knowledgeTags: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Also allow documents carrying any of these tags, in any folder (default: no tag scope)",
+      ),
     knowledgeInjectionSnippetCount: z
       .number()
       .int()
@@ -477,6 +526,10 @@ const agentSchema = z
       .positive()
       .optional()
       .describe("Max tool roundtrips (positive integer, default 5)"),
+    outputSchema: z
+      .record(z.string(), z.unknown())
+      .optional()
+      .describe("JSON Schema that webhook responses must match"),
     provider: z
       .enum(["google", "openai", "anthropic", "openrouter"])
       .default("openrouter")
@@ -486,6 +539,9 @@ const agentSchema = z
     modelName: openRouterModelNameOptional.describe(
       "Model name (must be a valid OpenRouter model from pricing config)",
     ),
+    fallbackModelNames: openRouterFallbackModelNames.describe(
+      "Models tried in order when the agent's model fails with a provider error or timeout",
+    ),
     clientTools: z
       .array(clientToolSchema)
       .optional()
@@ -516,7 +572,7 @@ const outputChannelSchema = z
     channelId: z.string().describe("Unique identifier for the channel"),
     type: z
       .string()
-      .describe("Discriminator: 'discord', future: 'slack', 'email', etc."),
+      .describe("Discriminator: 'discord', 'slack', 'email' or 'http'"),
     name: z.string().describe("User-friendly name for the channel"),
     config: z
       .record(z.string(), z.unknown())
@@ -585,7 +641,7 @@ const mcpServerSchema = z
   .describe("MCP server configuration");
 
 /**
- * Bot integration configuration (Slack, Discord)
+ * Bot integration configuration (Slack, Discord, Teams, Telegram)
  */
 const botIntegrationSchema = z
   .object({
@@ -593,12 +649,14 @@ const botIntegrationSchema = z
     agentId: referenceString.describe(
       "Agent ID this bot is connected to (can use reference)",
     ),
-    platform: z.enum(["slack", "discord"]).describe("Platform type"),
+    platform: z
+      .enum(["slack", "discord", "teams", "telegram"])
+      .describe("Platform type"),
     name: z.string().describe("User-friendly name for the integration"),
     config: z
       .record(z.string(), z.unknown())
       .describe(
-        "Platform-specific config (encrypted). Slack: { botToken, signingSecret, teamId?, teamName?, botUserId?, messageHistoryCount? }. Discord: { botToken, publicKey, applicationId? }",
+        "Platform-specific config (encrypted). Slack: { botToken, signingSecret, teamId?, teamName?, botUserId?, messageHistoryCount? }. Discord: { botToken, publicKey, applicationId? }. Teams: { appId, appPassword, tenantId?, messageHistoryCount? }. Telegram: { botToken, secretToken, botUsername?, botUserId?, messageHistoryCount? }",
       ),
     webhookUrl: z
       .string()
@@ -12,13 +12,18 @@ function isProduction(): boolean {
   );
 }
 
+/**
+ * Send an email through Mailgun.
+ * Several recipients are sent as one batch: each gets an individual copy that
+ * shows only their own address.
+ */
 export const sendEmail = async ({
   to,
   subject,
   text,
   html,
 }: {
-  to: string;
+  to: string | string[];
   subject: string;
   text: string;
   html?: string;
@@ -63,7 +68,18 @@ export const sendEmail = async ({
   }
 
   formData.append("from", `info@${domain}`);
-  formData.append("to", to);
+  if (Array.isArray(to)) {
+    for (const recipient of to) {
+      formData.append("to", recipient);
+    }
+    // Recipient variables turn the message into a batch send
+    formData.append(
+      "recipient-variables",
+      JSON.stringify(Object.fromEntries(to.map((recipient) => [recipient, {}])))
+    );
+  } else {
+    formData.append("to", to);
+  }
   formData.append("subject", subject);
   formData.append("text", textWithFooter);
   if (htmlWithFooter) {
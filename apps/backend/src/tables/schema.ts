@@ -126,18 +126,30 @@ export const tableSchemas = {
     memoryExtractionEnabled: z.boolean().optional(),
     memoryExtractionModel: z.string().optional(),
     memoryExtractionPrompt: z.string().optional(),
+    memoryPartitionByEndUser: z.boolean().optional(), // keep a separate memory per end user (widget, bot and webhook callers) next to the agent-global memory (default: false)
     notificationChannelId: z.string().optional(), // reference to output_channel
     delegatableAgentIds: z.array(z.string()).optional(), // list of agent IDs this agent can delegate to
     enabledMcpServerIds: z.array(z.string()).optional(), // list of MCP server IDs enabled for this agent
     enabledMcpServerToolNames: z
       .record(z.string(), z.array(z.string()))
       .optional(), // per-server tool allowlist for this agent
+    toolApproval: z
+      .object({
+        toolNames: z.array(z.string()).optional(), // built-in tools that require approval (e.g. "send_email")
+        mcpServerToolNames: z
+          .record(z.string(), z.array(z.string()))
+          .optional(), // per-server tool names that require approval (same names as enabledMcpServerToolNames)
+        timeoutMinutes: z.number().int().positive().optional(), // how long a request stays pending (default: 1440)
+      })
+      .optional(), // human-in-the-loop approval of sensitive tool calls
     enabledSkillIds: z.array(z.string()).optional(), // skill IDs to inject into system prompt (must satisfy tool requirements)
     enableMemorySearch: z.boolean().optional(), // enable memory search tool for this agent (default: false)
     enableSearchDocuments: z.boolean().optional(), // enable document search tool for this agent (default: false)
     enableKnowledgeInjection: z.boolean().optional(), // enable knowledge injection from workspace documents (default: false)
     enableKnowledgeInjectionFromMemories: z.boolean().optional(), // enable knowledge injection from agent memories (default: false)
     enableKnowledgeInjectionFromDocuments: z.boolean().optional(), // include workspace documents when injecting knowledge (default: true)
+    knowledgeFolderPaths: z.array(z.string()).optional(), // restrict document search and knowledge injection to these folders and their subfolders (missing = all workspace documents)
+    knowledgeTags: z.array(z.string()).optional(), // also allow documents carrying any of these tags (combined with knowledgeFolderPaths; both missing = all workspace documents)
     knowledgeInjectionSnippetCount: z.number().int().positive().optional(), // number of document snippets to inject (default: 5)
     knowledgeInjectionMinSimilarity: z.number().min(0).max(1).optional(), // minimum similarity score (0-1) required for snippets to be included (default: 0)
     knowledgeInjectionEntityExtractorModel: z.string().optional(), // model used to extract entities from prompt for graph search
@@ -165,12 +177,14 @@ export const tableSchemas = {
     maxOutputTokens: z.number().int().positive().optional(), // max output tokens (positive integer)
     stopSequences: z.array(z.string()).optional(), // stop sequences (array of strings)
     maxToolRoundtrips: z.number().int().positive().optional(), // max tool roundtrips (positive integer, default 5)
+    outputSchema: z.record(z.string(), z.unknown()).optional(), // JSON Schema that webhook responses must match (structured-output mode)
     // Accept legacy providers for backward compatibility, but default to "openrouter"
     // Legacy agents with provider="google" will still validate correctly
     provider: z
       .enum(["google", "openai", "anthropic", "openrouter"])
       .default("openrouter"), // provider name (only "openrouter" supported, but legacy values accepted)
     modelName: z.string().optional(), // model name (e.g., "gemini-2.5-flash")
+    fallbackModelNames: z.array(z.string()).optional(), // models tried in order when modelName's provider fails (rate limits, outages, timeouts)
     clientTools: z
       .array(
         z.object({
@@ -192,6 +206,7 @@ export const tableSchemas = {
       .optional(), // Widget configuration
     avatar: z.string().optional(), // Avatar image path (e.g., "/images/helpmaton_logo_10.svg")
     suggestions: suggestionsCacheSchema.nullable().optional(),
+    configVersion: z.number().int().positive().optional(), // latest agent-config-version (missing for agents not changed since versioning)
     version: z.number().default(1),
     createdAt: z.iso.datetime().default(new Date().toISOString()),
   }),
@@ -200,7 +215,7 @@ export const tableSchemas = {
     sk: z.string().optional(), // optional sort key
     workspaceId: z.string(), // workspace ID for GSI queries
     channelId: z.string(), // unique identifier for the channel
-    type: z.string(), // discriminator: "discord", future: "slack", "email", etc.
+    type: z.string(), // discriminator: "discord", "slack", "email" or "http"
     name: z.string(), // user-friendly name for the channel
     config: z.record(z.string(), z.unknown()), // type-specific configuration, encrypted
     version: z.number().default(1),
@@ -235,8 +250,10 @@ export const tableSchemas = {
     filename: z.string(), // actual filename in S3 (may have conflict suffix)
     folderPath: z.string(), // folder path (e.g., "folder1/subfolder" or "" for root)
     s3Key: z.string(), // S3 key for the document
-    contentType: z.string(), // MIME type (e.g., "text/markdown", "text/plain")
+    contentType: z.string(), // MIME type (e.g., "text/markdown", "text/plain", "application/pdf")
     size: z.number(), // file size in bytes
+    extractedS3Key: z.string().optional(), // S3 key of the markdown extracted from non-text documents (PDF, DOCX, HTML, CSV)
+    tags: z.array(z.string()).optional(), // lowercase tags used to scope agents to documents across folders
     version: z.number().default(1),
     createdAt: z.iso.datetime().default(new Date().toISOString()),
   }),
@@ -246,7 +263,7 @@ export const tableSchemas = {
     workspaceId: z.string(), // workspace ID
     agentId: z.string(), // agent ID for GSI queries
     conversationId: z.string(), // unique conversation ID (UUID)
-    conversationType: z.enum(["test", "webhook", "stream", "scheduled"]), // type of conversation
+    conversationType: z.enum(["test", "webhook", "stream", "scheduled", "mcp"]), // type of conversation
     messages: z.array(z.unknown()), // array of all messages in the conversation
     tokenUsage: z
       .object({
@@ -260,6 +277,7 @@ export const tableSchemas = {
     modelName: z.string().optional(), // @deprecated - Use per-message modelName instead. Kept for backward compatibility.
     provider: z.string().optional(), // @deprecated - Use per-message provider instead. Kept for backward compatibility.
     usesByok: z.boolean().optional(), // whether this conversation used BYOK (Bring Your Own Key)
+    endUserId: z.string().optional(), // end user the conversation belongs to (widget user ID, "slack:{userId}", "discord:{userId}" or webhook X-End-User-Id)
     error: z
       .object({
         message: z.string(),
@@ -278,6 +296,7 @@ export const tableSchemas = {
     rerankingCostUsd: z.number().int().optional(), // re-ranking cost in USD in nano-dollars (tracked separately since re-ranking happens before LLM call)
     totalGenerationTimeMs: z.number().optional(), // sum of all generation times in milliseconds
     awsRequestIds: z.array(z.string()).optional(), // array of AWS Lambda/API Gateway request IDs that added messages to this conversation
+    structuredOutput: z.unknown().optional(), // parsed response object when the call used a structured-output schema
     delegations: z
       .array(
         z.object({
@@ -296,6 +315,43 @@ export const tableSchemas = {
     lastMessageAt: z.iso.datetime(), // when last message was added
     expires: z.number(), // TTL timestamp
     messagesS3Key: z.string().optional(), // when set, messages are stored in S3 at this key; DynamoDB record has messages: []
+    agentConfigVersions: z.array(z.number().int().positive()).optional(), // agent configVersions that produced replies in this conversation
+    compaction: z
+      .object({
+        summary: z.string(), // summary sent to the model instead of the older messages
+        summarizedMessageCount: z.number().int().nonnegative(), // number of leading model messages the summary replaces
+        fingerprint: z.string(), // hash of those messages; the summary is reused while they are unchanged
+        modelName: z.string(), // model that wrote the summary
+        updatedAt: z.iso.datetime(),
+      })
+      .optional(), // pinned summary of older turns when the conversation outgrows the model's context window
+    compactionEvents: z
+      .array(
+        z.object({
+          createdAt: z.iso.datetime(),
+          summarizedMessageCount: z.number().int().nonnegative(),
+          keptMessageCount: z.number().int().nonnegative(), // recent messages sent verbatim
+          estimatedTokensBefore: z.number().int().nonnegative(),
+          estimatedTokensAfter: z.number().int().nonnegative(),
+          maxSafeInputTokens: z.number().int().nonnegative(),
+          modelName: z.string(),
+        }),
+      )
+      .optional(), // most recent compactions of this conversation (capped)
+    feedback: z
+      .array(
+        z.object({
+          messageId: z.string(), // request ID of the rated reply (its messages carry it as awsRequestId)
+          rating: z.enum(["positive", "negative"]),
+          comment: z.string().optional(),
+          source: z.enum(["widget", "slack", "discord", "api"]),
+          userId: z.string().optional(), // end user on the rating platform; one rating per user and reply
+          createdAt: z.iso.datetime(),
+        }),
+      )
+      .optional(), // end-user ratings of the agent's replies
+    positiveFeedbackCount: z.number().int().optional(), // number of positive entries in feedback (filterable in DynamoDB)
+    negativeFeedbackCount: z.number().int().optional(), // number of negative entries in feedback (filterable in DynamoDB)
     version: z.number().default(1),
     createdAt: z.iso.datetime().default(new Date().toISOString()),
   }),
@@ -346,6 +402,8 @@ export const tableSchemas = {
     messagesIn: z.number().int().optional(), // number of user messages for this workspace/agent/user/date (same value across all aggregates for same key)
     messagesOut: z.number().int().optional(), // number of assistant messages for this workspace/agent/user/date (same value across all aggregates for same key)
     totalMessages: z.number().int().optional(), // total messages (user + assistant) for this workspace/agent/user/date (same value across all aggregates for same key)
+    positiveFeedback: z.number().int().optional(), // positive end-user ratings on conversations of this workspace/agent/user/date (same value across all aggregates for same key)
+    negativeFeedback: z.number().int().optional(), // negative end-user ratings on conversations of this workspace/agent/user/date (same value across all aggregates for same key)
     version: z.number().default(1),
     createdAt: z.iso.datetime().default(new Date().toISOString()),
   }),
@@ -503,7 +561,14 @@ export const tableSchemas = {
     keyLookupHash: z.string(), // SHA256 hash of the plain key for GSI lookup (hex encoded)
     keyPrefix: z.string(), // first 12 characters for display (e.g., "hmat_abc...")
     name: z.string().optional(), // optional user-provided name/label
+    workspaceIds: z.array(z.string()).optional(), // workspaces the key is bound to (missing = every workspace of the user)
+    capabilities: z
+      .array(z.enum(["read", "documents", "agents", "usage"]))
+      .optional(), // what the key may do (missing = everything the user can do)
+    allowedIps: z.array(z.string()).optional(), // IP addresses or CIDR ranges allowed to use the key
+    expiresAt: z.iso.datetime().optional(), // key is rejected after this time
     lastUsedAt: z.iso.datetime().optional(), // timestamp for tracking usage
+    requestCount: z.number().int().min(0).optional(), // number of authenticated requests
     version: z.number().default(1),
     createdAt: z.iso.datetime().default(new Date().toISOString()),
   }),
@@ -568,11 +633,13 @@ export const tableSchemas = {
     sk: z.string().optional(), // optional sort key (fixed value "integration")
     workspaceId: z.string(), // workspace ID for GSI queries
     agentId: z.string(), // agent ID this bot is connected to (for GSI queries)
-    platform: z.enum(["slack", "discord"]), // platform type
+    platform: z.enum(["slack", "discord", "teams", "telegram"]), // platform type
     name: z.string(), // user-friendly name for the integration
     config: z.record(z.string(), z.unknown()), // platform-specific config (encrypted)
     // Slack: { botToken, signingSecret, teamId?, teamName?, botUserId?, messageHistoryCount? }
     // Discord: { botToken, publicKey, applicationId? }
+    // Teams: { appId, appPassword, tenantId?, messageHistoryCount? }
+    // Telegram: { botToken, secretToken, botUsername?, botUserId?, messageHistoryCount? }
     webhookUrl: z.string().url(), // the webhook URL for this integration
     status: z.enum(["active", "inactive", "error"]).default("active"), // integration status
     lastUsedAt: z.iso.datetime().optional(), // timestamp of last use
@@ -590,6 +657,7 @@ export const tableSchemas = {
     samplingProbability: z.number().int().min(0).max(100).default(100), // percent (0-100) for sampling evaluations
     provider: z.enum(["openrouter"]).default("openrouter"), // LLM provider for the judge (only openrouter is supported)
     modelName: z.string(), // model name for the judge (e.g., "gpt-4o")
+    fallbackModelNames: z.array(z.string()).optional(), // models tried in order when modelName's provider fails
     evalPrompt: z.string(), // the evaluation prompt template
     version: z.number().default(1),
     createdAt: z.iso.datetime().default(new Date().toISOString()),
@@ -612,6 +680,7 @@ export const tableSchemas = {
     errorDetails: z.string().optional(), // detailed error message when evaluation fails
     costUsd: z.number().int().optional(), // cost of the evaluation call in USD nano-dollars
     usesByok: z.boolean().optional(), // whether this evaluation used BYOK
+    modelName: z.string().optional(), // model that performed the evaluation (a fallback model when the judge's model failed)
     tokenUsage: z
       .object({
         promptTokens: z.number(),
@@ -633,12 +702,330 @@ export const tableSchemas = {
     agentId: z.string(), // agent ID for GSI queries
     scheduleId: z.string(), // unique schedule ID (UUID)
     name: z.string(), // user-friendly name for the schedule
-    cronExpression: z.string(), // cron expression (UTC)
-    prompt: z.string(), // first user message for the scheduled run
+    cronExpression: z.string(), // cron expression, evaluated in `timezone`
+    timezone: z.string().optional(), // IANA timezone (e.g. "Europe/Lisbon"); UTC when missing
+    prompt: z.string(), // first user message for the scheduled run; supports {{variables}} (see utils/scheduleTemplate.ts)
+    delivery: z
+      .discriminatedUnion("type", [
+        z.object({
+          type: z.literal("channel"),
+          channelId: z.string(), // output channel in the same workspace
+        }),
+        z.object({
+          type: z.literal("email"),
+          recipients: z.array(z.string()), // sent through the workspace email connection
+          subjectTemplate: z.string().optional(),
+        }),
+      ])
+      .optional(), // where the final answer of each successful run is sent
     enabled: z.boolean().default(true),
     duePartition: z.string(), // partition key for due schedule GSI (e.g., "due")
     nextRunAt: z.number().int(), // epoch seconds for next run
     lastRunAt: z.iso.datetime().optional(),
+    lastRunSummary: z.string().optional(), // truncated final answer of the last successful run
+    version: z.number().default(1),
+    createdAt: z.iso.datetime().default(new Date().toISOString()),
+    updatedAt: z.iso.datetime().optional(),
+  }),
+  "agent-schedule-run": TableBaseSchema.extend({
+    pk: z.string(), // "agent-schedule-runs/{workspaceId}/{agentId}/{scheduleId}"
+    sk: z.string(), // `${startedAt}#${runId}` so the history sorts chronologically
+    workspaceId: z.string(),
+    agentId: z.string(),
+    scheduleId: z.string(),
+    runId: z.string(),
+    status: z.enum(["running", "succeeded", "failed"]),
+    startedAt: z.iso.datetime(),
+    endedAt: z.iso.datetime().optional(),
+    conversationId: z.string().optional(),
+    costUsd: z.number().int().optional(), // provisional cost of the run in USD nano-dollars
+    error: z.string().optional(), // error message of a failed run
+    deliveryStatus: z.enum(["sent", "failed"]).optional(), // outcome of the schedule's delivery target, when it has one
+    deliveryError: z.string().optional(),
+    version: z.number().default(1),
+    createdAt: z.iso.datetime().default(new Date().toISOString()),
+    updatedAt: z.iso.datetime().optional(),
+    expires: z.number(), // TTL timestamp (90 days from start)
+  }),
+  "channel-delivery": TableBaseSchema.extend({
+    pk: z.string(), // "channel-deliveries/{workspaceId}/{channelId}"
+    sk: z.string(), // `${createdAt}#${deliveryId}` so the log sorts chronologically
+    workspaceId: z.string(),
+    channelId: z.string(),
+    deliveryId: z.string(), // also sent as X-Helpmaton-Delivery so receivers can deduplicate
+    status: z.enum(["pending", "delivered", "failed"]),
+    attempts: z.number().int().default(0),
+    agentId: z.string().optional(),
+    conversationId: z.string().optional(),
+    contentPreview: z.string(), // first characters of the notification content
+    lastStatusCode: z.number().int().optional(), // HTTP status of the last attempt
+    lastError: z.string().optional(), // error of the last failed attempt
+    nextAttemptAt: z.iso.datetime().optional(), // when the next retry is due (status "pending")
+    deliveredAt: z.iso.datetime().optional(),
+    version: z.number().default(1),
+    createdAt: z.iso.datetime().default(new Date().toISOString()),
+    updatedAt: z.iso.datetime().optional(),
+    expires: z.number(), // TTL timestamp (30 days from creation)
+  }),
+  "sso-config": TableBaseSchema.extend({
+    pk: z.string(), // "sso-configs/{subscriptionId}"
+    sk: z.string(), // fixed value "config" (one identity provider per subscription)
+    subscriptionId: z.string(),
+    protocol: z.enum(["oidc"]), // only OpenID Connect for now
+    domain: z.string(), // lowercase email domain handled by the identity provider (GSI key)
+    domainVerificationToken: z.string(), // expected in a "helpmaton-verification=<token>" DNS TXT record
+    domainVerifiedAt: z.iso.datetime().optional(), // set once the TXT record was found; SSO is inactive until then
+    issuer: z.string(), // OIDC issuer URL, discovery document at {issuer}/.well-known/openid-configuration
+    clientId: z.string(),
+    clientSecret: z.string(),
+    scopes: z.string().optional(), // space separated, defaults to "openid email profile"
+    provisionWorkspaceIds: z.array(z.string()).default([]), // workspaces new SSO users join (just-in-time provisioning)
+    defaultPermissionLevel: z.number().int().min(1).max(3).default(1), // permission granted on those workspaces
+    enforceSso: z.boolean().default(false), // block email link and passkey login for users of the domain
+    enabled: z.boolean().default(true),
+    version: z.number().default(1),
+    createdAt: z.iso.datetime().default(new Date().toISOString()),
+    updatedAt: z.iso.datetime().optional(),
+  }),
+  "workspace-audit-log": TableBaseSchema.extend({
+    pk: z.string(), // "workspaces/{workspaceId}"
+    sk: z.string(), // `${createdAt}#${eventId}` so the log sorts chronologically (append-only, never updated)
+    workspaceId: z.string(),
+    eventId: z.string(),
+    action: z.enum(["created", "updated", "deleted"]),
+    resourceType: z.enum([
+      "workspace",
+      "agent",
+      "agent-key",
+      "workspace-api-key",
+      "stream-server",
+      "mcp-server",
+      "channel",
+      "document",
+      "member",
+      "invite",
+      "spending-limit",
+      "integration",
+      "email-connection",
+      "model-endpoint",
+      "schedule",
+      "eval-judge",
+      "eval-dataset",
+      "memory-record",
+      "knowledge-graph-fact",
+    ]),
+    resourceId: z.string().optional(),
+    resourceName: z.string().optional(), // name at the time of the event, kept after deletion
+    agentId: z.string().optional(), // owning agent for agent-level resources
+    actorUserId: z.string().optional(),
+    actorEmail: z.string().optional(),
+    apiKeyId: z.string().optional(), // set when the actor used a user API key
+    changedFields: z.array(z.string()).optional(), // names only, values (prompts, secrets) are never logged
+    details: z.record(z.string(), z.unknown()).optional(), // small non-secret context, e.g. permission levels
+    ipAddress: z.string().optional(),
+    requestId: z.string().optional(),
+    version: z.number().default(1),
+    createdAt: z.iso.datetime().default(new Date().toISOString()),
+  }),
+  "agent-config-version": TableBaseSchema.extend({
+    pk: z.string(), // "agent-config-versions/{workspaceId}/{agentId}"
+    sk: z.string(), // zero-padded configVersion so versions sort numerically (never updated)
+    workspaceId: z.string(),
+    agentId: z.string(),
+    configVersion: z.number().int().positive(),
+    config: z.record(z.string(), z.unknown()), // snapshot of the agent configuration fields
+    changedFields: z.array(z.string()).optional(), // fields changed from the previous version
+    source: z.enum(["created", "baseline", "updated", "assistant", "restored"]), // baseline = configuration found before the first tracked change
+    restoredFromVersion: z.number().int().positive().optional(),
+    version: z.number().default(1),
+    createdAt: z.iso.datetime().default(new Date().toISOString()),
+  }),
+  "tool-approval": TableBaseSchema.extend({
+    pk: z.string(), // "tool-approvals/{workspaceId}/{agentId}/{approvalId}"
+    sk: z.string(), // fixed value "approval"
+    workspaceId: z.string(),
+    agentId: z.string(), // GSI byAgentId partition key
+    approvalId: z.string(),
+    conversationId: z.string().optional(), // conversation resumed once the request is decided
+    toolCallId: z.string(), // tool call of the paused run
+    toolName: z.string(), // name the model called (MCP tools include their server suffix)
+    mcpServerId: z.string().optional(), // set for MCP server tools
+    args: z.record(z.string(), z.unknown()), // arguments proposed by the model
+    approvedArgs: z.record(z.string(), z.unknown()).optional(), // arguments edited by the approver, used instead of args
+    status: z.enum(["pending", "approved", "rejected", "expired"]), // expired = timed out without a decision (the tool is not run)
+    expiresAt: z.iso.datetime(), // when an undecided request expires (GSI byStatusAndExpiresAt sort key)
+    notificationChannelId: z.string().optional(), // output channel the request was posted to
+    origin: z
+      .discriminatedUnion("platform", [
+        z.object({
+          platform: z.literal("slack"),
+          integrationId: z.string(),
+          channel: z.string(),
+          threadTs: z.string(),
+        }),
+        z.object({
+          platform: z.literal("discord"),
+          integrationId: z.string(),
+          channelId: z.string(),
+        }),
+        z.object({
+          platform: z.literal("telegram"),
+          integrationId: z.string(),
+          chatId: z.string(),
+          messageThreadId: z.number().int().optional(),
+        }),
+        z.object({
+          platform: z.literal("teams"),
+          integrationId: z.string(),
+          serviceUrl: z.string(),
+          conversationId: z.string(),
+          activityId: z.string(), // activity the answer replies to
+        }),
+      ])
+      .optional(), // bot thread the paused run came from; the resumed answer is posted there
+    decidedAt: z.iso.datetime().optional(),
+    decidedBy: z.string().optional(), // user reference, or "timeout"
+    reason: z.string().optional(), // note from the approver, passed to the agent
+    resumedAt: z.iso.datetime().optional(), // set when the tool ran (or was skipped) and the conversation resumed
+    resultPreview: z.string().optional(), // first characters of the tool result
+    answer: z.string().optional(), // agent's answer after resuming, fetched by chat clients (widget, test chat)
+    error: z.string().optional(), // error of the tool execution or the resumed run
+    version: z.number().default(1),
+    createdAt: z.iso.datetime().default(new Date().toISOString()),
+    updatedAt: z.iso.datetime().optional(),
+    expires: z.number(), // TTL timestamp (30 days from creation)
+  }),
+  "agent-eval-dataset": TableBaseSchema.extend({
+    pk: z.string(), // "agent-eval-datasets/{workspaceId}/{agentId}/{datasetId}"
+    sk: z.string(), // fixed value "dataset"
+    workspaceId: z.string(),
+    agentId: z.string(), // GSI byAgentId partition key
+    datasetId: z.string(),
+    name: z.string(),
+    description: z.string().optional(),
+    cases: z.array(
+      z.object({
+        caseId: z.string(),
+        input: z.string(), // user message sent to the agent
+        expectedOutput: z.string().optional(), // reference answer passed to the judges
+        rubric: z.string().optional(), // grading notes passed to the judges
+      })
+    ),
+    version: z.number().default(1),
+    createdAt: z.iso.datetime().default(new Date().toISOString()),
+    updatedAt: z.iso.datetime().optional(),
+  }),
+  "agent-eval-run": TableBaseSchema.extend({
+    pk: z.string(), // "agent-eval-runs/{workspaceId}/{agentId}/{runId}"
+    sk: z.string(), // fixed value "run"
+    workspaceId: z.string(),
+    agentId: z.string(), // GSI byAgentId partition key
+    runId: z.string(),
+    datasetId: z.string(),
+    datasetName: z.string(), // dataset name when the run started
+    label: z.string().optional(), // e.g. "current" or "shorter prompt"
+    overrides: z
+      .object({
+        systemPrompt: z.string().optional(),
+        modelName: z.string().optional(),
+      })
+      .optional(), // candidate configuration used instead of the agent's
+    modelName: z.string(), // model the agent ran with
+    configVersion: z.number().int().positive().optional(), // agent-config-version the run started from
+    judgeIds: z.array(z.string()), // enabled judges when the run started
+    status: z.enum(["running", "completed"]),
+    caseCount: z.number().int(),
+    finishedCaseCount: z.number().int(), // completed or failed cases
+    failedCaseCount: z.number().int(),
+    scoredCaseCount: z.number().int(), // cases with at least one judge score
+    scoreSums: z.object({
+      goalCompletion: z.number(),
+      toolEfficiency: z.number(),
+      faithfulness: z.number(),
+    }), // sums of the per-case average scores, for run averages
+    criticalFailureCount: z.number().int(),
+    costUsd: z.number().int(), // agent and judge cost in USD nano-dollars
+    completedAt: z.iso.datetime().optional(),
+    version: z.number().default(1),
+    createdAt: z.iso.datetime().default(new Date().toISOString()),
+    updatedAt: z.iso.datetime().optional(),
+    expires: z.number(), // TTL timestamp (90 days from creation)
+  }),
+  "agent-eval-run-case": TableBaseSchema.extend({
+    pk: z.string(), // "agent-eval-run-cases/{workspaceId}/{agentId}/{runId}"
+    sk: z.string(), // caseId
+    workspaceId: z.string(),
+    agentId: z.string(),
+    runId: z.string(),
+    caseId: z.string(),
+    position: z.number().int(), // index of the case in the dataset
+    input: z.string(),
+    expectedOutput: z.string().optional(),
+    rubric: z.string().optional(),
+    status: z.enum(["pending", "running", "completed", "failed"]),
+    claimedAt: z.iso.datetime().optional(), // when the case was last set to running (stale claims are taken over)
+    output: z.string().optional(), // final answer of the agent (truncated)
+    toolCallCount: z.number().int().optional(),
+    error: z.string().optional(),
+    agentCostUsd: z.number().int().optional(), // USD nano-dollars
+    judgeCostUsd: z.number().int().optional(), // USD nano-dollars
+    durationMs: z.number().int().optional(), // agent generation time
+    scores: z
+      .array(
+        z.object({
+          judgeId: z.string(),
+          judgeName: z.string(),
+          status: z.enum(["completed", "failed"]),
+          scoreGoalCompletion: z.number().int().nullable(),
+          scoreToolEfficiency: z.number().int().nullable(),
+          scoreFaithfulness: z.number().int().nullable(),
+          criticalFailureDetected: z.boolean(),
+          summary: z.string(),
+          errorMessage: z.string().optional(),
+        })
+      )
+      .optional(),
+    version: z.number().default(1),
+    createdAt: z.iso.datetime().default(new Date().toISOString()),
+    updatedAt: z.iso.datetime().optional(),
+    expires: z.number(), // TTL timestamp (90 days from creation)
+  }),
+  "agent-memory-partition": TableBaseSchema.extend({
+    pk: z.string(), // "agent-memory-partitions/{workspaceId}/{agentId}"
+    sk: z.string(), // partitionKey (hash of the end-user ID, used in memory storage paths)
+    workspaceId: z.string(),
+    agentId: z.string(),
+    endUserId: z.string(), // end-user ID as sent by the widget, bot or webhook caller
+    lastActiveAt: z.iso.datetime().optional(), // first working memory write of the last day the end user was active (scheduled jobs skip idle partitions)
+    version: z.number().default(1),
+    createdAt: z.iso.datetime().default(new Date().toISOString()),
+  }),
+  "workspace-model-endpoint": TableBaseSchema.extend({
+    pk: z.string(), // "workspace-model-endpoints/{workspaceId}/{endpointId}"
+    sk: z.string(), // fixed value "endpoint"
+    workspaceId: z.string(), // workspace ID for GSI queries
+    name: z.string(), // user-friendly name for the endpoint
+    baseUrl: z.string(), // OpenAI-compatible API base URL (e.g. "https://llm.example.com/v1")
+    apiKey: z.string().optional(), // bearer token sent to the endpoint (never returned in API responses)
+    models: z.array(
+      z.object({
+        name: z.string(), // model ID as served by the endpoint (e.g. "llama3.1:8b")
+        contextLength: z.number().int().positive().optional(), // max context window in tokens
+        capabilities: z
+          .object({
+            toolCalling: z.boolean().optional(),
+            structuredOutput: z.boolean().optional(),
+            imageInput: z.boolean().optional(),
+          })
+          .optional(), // declared capabilities, gate tools and parameters like OpenRouter capabilities
+        pricing: z
+          .object({
+            input: z.number().min(0), // USD per 1M input tokens
+            output: z.number().min(0), // USD per 1M output tokens
+          })
+          .optional(), // used to report costs only; calls are never charged to workspace credits
+      })
+    ),
     version: z.number().default(1),
     createdAt: z.iso.datetime().default(new Date().toISOString()),
     updatedAt: z.iso.datetime().optional(),
@@ -689,7 +1076,18 @@ export type TableName =
   | "bot-integration"
   | "agent-eval-judge"
   | "agent-eval-result"
-  | "agent-schedule";
+  | "agent-schedule"
+  | "agent-schedule-run"
+  | "channel-delivery"
+  | "sso-config"
+  | "workspace-audit-log"
+  | "agent-config-version"
+  | "workspace-model-endpoint"
+  | "tool-approval"
+  | "agent-eval-dataset"
+  | "agent-eval-run"
+  | "agent-eval-run-case"
+  | "agent-memory-partition";
 
 export type WorkspaceRecord = z.infer<typeof tableSchemas.workspace>;
 export type PermissionRecord = z.infer<typeof tableSchemas.permission>;
@@ -746,6 +1144,33 @@ export type BotIntegrationRecord = z.infer<
 export type AgentScheduleRecord = z.infer<
   (typeof tableSchemas)["agent-schedule"]
 >;
+export type AgentScheduleRunRecord = z.infer<
+  (typeof tableSchemas)["agent-schedule-run"]
+>;
+export type ChannelDeliveryRecord = z.infer<
+  (typeof tableSchemas)["channel-delivery"]
+>;
+export type SsoConfigRecord = z.infer<(typeof tableSchemas)["sso-config"]>;
+export type WorkspaceAuditLogRecord = z.infer<
+  (typeof tableSchemas)["workspace-audit-log"]
+>;
+export type AgentConfigVersionRecord = z.infer<
+  (typeof tableSchemas)["agent-config-version"]
+>;
+export type WorkspaceModelEndpointRecord = z.infer<
+  (typeof tableSchemas)["workspace-model-endpoint"]
+>;
+export type ToolApprovalRecord = z.infer<(typeof tableSchemas)["tool-approval"]>;
+export type AgentEvalDatasetRecord = z.infer<
+  (typeof tableSchemas)["agent-eval-dataset"]
+>;
+export type AgentEvalRunRecord = z.infer<(typeof tableSchemas)["agent-eval-run"]>;
+export type AgentEvalRunCaseRecord = z.infer<
+  (typeof tableSchemas)["agent-eval-run-case"]
+>;
+export type AgentMemoryPartitionRecord = z.infer<
+  (typeof tableSchemas)["agent-memory-partition"]
+>;
 export type UserPasskeyRecord = z.infer<typeof passkeyRecordSchema>;
 
 export const PERMISSION_LEVELS = {
@@ -873,6 +1298,17 @@ export type DatabaseSchema = {
   "agent-schedule": TableAPI<"agent-schedule">;
   "agent-eval-judge": TableAPI<"agent-eval-judge">;
   "agent-eval-result": TableAPI<"agent-eval-result">;
+  "agent-schedule-run": TableAPI<"agent-schedule-run">;
+  "channel-delivery": TableAPI<"channel-delivery">;
+  "sso-config": TableAPI<"sso-config">;
+  "workspace-audit-log": TableAPI<"workspace-audit-log">;
+  "agent-config-version": TableAPI<"agent-config-version">;
+  "workspace-model-endpoint": TableAPI<"workspace-model-endpoint">;
+  "tool-approval": TableAPI<"tool-approval">;
+  "agent-eval-dataset": TableAPI<"agent-eval-dataset">;
+  "agent-eval-run": TableAPI<"agent-eval-run">;
+  "agent-eval-run-case": TableAPI<"agent-eval-run-case">;
+  "agent-memory-partition": TableAPI<"agent-memory-partition">;
 };
 
 /**
@@ -919,7 +1355,18 @@ export type TableRecord =
   | z.infer<(typeof tableSchemas)["bot-integration"]>
   | z.infer<(typeof tableSchemas)["agent-schedule"]>
   | z.infer<(typeof tableSchemas)["agent-eval-judge"]>
-  | z.infer<(typeof tableSchemas)["agent-eval-result"]>;
+  | z.infer<(typeof tableSchemas)["agent-eval-result"]>
+  | z.infer<(typeof tableSchemas)["agent-schedule-run"]>
+  | z.infer<(typeof tableSchemas)["channel-delivery"]>
+  | z.infer<(typeof tableSchemas)["sso-config"]>
+  | z.infer<(typeof tableSchemas)["workspace-audit-log"]>
+  | z.infer<(typeof tableSchemas)["agent-config-version"]>
+  | z.infer<(typeof tableSchemas)["workspace-model-endpoint"]>
+  | z.infer<(typeof tableSchemas)["tool-approval"]>
+  | z.infer<(typeof tableSchemas)["agent-eval-dataset"]>
+  | z.infer<(typeof tableSchemas)["agent-eval-run"]>
+  | z.infer<(typeof tableSchemas)["agent-eval-run-case"]>
+  | z.infer<(typeof tableSchemas)["agent-memory-partition"]>;
 
 /**
  * Callback function for atomic update operations
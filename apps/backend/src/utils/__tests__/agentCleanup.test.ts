@@ -109,6 +109,20 @@ describe("removeAgentResources", () => {
         queryAsync: vi.fn().mockReturnValue(buildAsyncGenerator([])),
         delete: vi.fn(),
       },
+      "agent-memory-partition": {
+        queryAsync: vi.fn().mockReturnValue(
+          buildAsyncGenerator([
+            {
+              pk: `agent-memory-partitions/${workspaceId}/${agentId}`,
+              sk: "partition-key-1",
+              workspaceId,
+              agentId,
+              endUserId: "end-user-1",
+            },
+          ]),
+        ),
+        delete: vi.fn(),
+      },
     };
 
     await removeAgentResources({
@@ -130,8 +144,19 @@ describe("removeAgentResources", () => {
       `conversations/${workspaceId}/${agentId}/${conversationId}`,
       "conversation",
     );
-    expect(mockRemoveAgentDatabases).toHaveBeenCalledWith(agentId);
+    expect(mockRemoveAgentDatabases).toHaveBeenCalledWith(agentId, [
+      "partition-key-1",
+    ]);
     expect(mockDeleteGraphFactsFile).toHaveBeenCalledWith(workspaceId, agentId);
+    expect(mockDeleteGraphFactsFile).toHaveBeenCalledWith(
+      workspaceId,
+      agentId,
+      "partition-key-1",
+    );
+    expect(db["agent-memory-partition"].delete).toHaveBeenCalledWith(
+      `agent-memory-partitions/${workspaceId}/${agentId}`,
+      "partition-key-1",
+    );
     expect(db.agent.delete).toHaveBeenCalledWith(
       `agents/${workspaceId}/${agentId}`,
       "agent",
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import type { AgentRecord } from "../../tables/schema";
+import {
+  buildAgentConfigRestoreUpdate,
+  diffAgentConfigs,
+  getAgentConfigSnapshot,
+  updateAgentWithConfigVersion,
+} from "../agentConfigVersions";
+
+const { mockCaptureException } = vi.hoisted(() => ({
+  mockCaptureException: vi.fn(),
+}));
+
+vi.mock("../sentry", () => ({
+  Sentry: { captureException: mockCaptureException },
+  ensureError: (error: unknown) => error,
+}));
+
+const baseAgent = {
+  pk: "agents/ws-1/agent-1",
+  sk: "agent",
+  workspaceId: "ws-1",
+  name: "Support",
+  systemPrompt: "Be helpful.",
+  provider: "openrouter",
+  enabledMcpServerIds: ["server-1"],
+  spendingLimits: [{ timeFrame: "daily", amount: 100 }],
+  version: 4,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  createdBy: "users/creator",
+  updatedBy: "users/editor",
+} as AgentRecord;
+
+describe("agentConfigVersions", () => {
+  const mockAgentAtomicUpdate = vi.fn();
+  const mockVersionCreate = vi.fn();
+  const db = {
+    agent: { atomicUpdate: mockAgentAtomicUpdate },
+    "agent-config-version": { create: mockVersionCreate },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // Simulates the conditional write: the updater runs against the stored agent
+  const storeAgent = (...attempts: AgentRecord[]) => {
+    mockAgentAtomicUpdate.mockImplementation(async (_pk, _sk, updater) => {
+      let result: AgentRecord | undefined;
+      for (const stored of attempts) {
+        result = { ...stored, ...(await updater(stored)) };
+      }
+      return result;
+    });
+  };
+
+  it("snapshots configuration fields only", () => {
+    expect(getAgentConfigSnapshot(baseAgent)).toEqual({
+      name: "Support",
+      systemPrompt: "Be helpful.",
+      provider: "openrouter",
+      enabledMcpServerIds: ["server-1"],
+    });
+  });
+
+  it("diffs configurations regardless of object key order", () => {
+    expect(
+      diffAgentConfigs(
+        { outputSchema: { a: 1, b: 2 }, systemPrompt: "Old" },
+        { outputSchema: { b: 2, a: 1 }, systemPrompt: "New", topP: 0.5 }
+      )
+    ).toEqual([
+      { field: "systemPrompt", before: "Old", after: "New" },
+      { field: "topP", before: null, after: 0.5 },
+    ]);
+  });
+
+  it("records a baseline and the new version for agents without history", async () => {
+    storeAgent(baseAgent);
+    const updated = await updateAgentWithConfigVersion(
+      db as never,
+      baseAgent,
+      { pk: baseAgent.pk, sk: "agent", systemPrompt: "Be concise." },
+      { source: "updated", createdBy: "users/editor-2" }
+    );
+
+    expect(updated).toMatchObject({
+      systemPrompt: "Be concise.",
+      configVersion: 2,
+    });
+    expect(mockVersionCreate).toHaveBeenCalledTimes(2);
+    expect(mockVersionCreate).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        pk: "agent-config-versions/ws-1/agent-1",
+        sk: "0000000001",
+        configVersion: 1,
+        source: "baseline",
+        createdBy: "users/editor",
+        config: expect.objectContaining({ systemPrompt: "Be helpful." }),
+      })
+    );
+    expect(mockVersionCreate).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        sk: "0000000002",
+        configVersion: 2,
+        source: "updated",
+        changedFields: ["systemPrompt"],
+        createdBy: "users/editor-2",
+        config: expect.objectContaining({ systemPrompt: "Be concise." }),
+      })
+    );
+  });
+
+  it("does not create a version when the configuration is unchanged", async () => {
+    storeAgent({ ...baseAgent, configVersion: 3 });
+    const updated = await updateAgentWithConfigVersion(
+      db as never,
+      { ...baseAgent, configVersion: 3 },
+      {
+        pk: baseAgent.pk,
+        sk: "agent",
+        systemPrompt: "Be helpful.",
+        spendingLimits: [],
+      },
+      { source: "updated" }
+    );
+
+    expect(updated.configVersion).toBe(3);
+    expect(mockVersionCreate).not.toHaveBeenCalled();
+  });
+
+  it("takes the version number from the agent stored when the write is retried", async () => {
+    storeAgent(
+      { ...baseAgent, configVersion: 3 },
+      { ...baseAgent, systemPrompt: "Be brief.", configVersion: 4 }
+    );
+
+    const updated = await updateAgentWithConfigVersion(
+      db as never,
+      { ...baseAgent, configVersion: 3 },
+      { pk: baseAgent.pk, sk: "agent", name: "Sales" },
+      { source: "updated" }
+    );
+
+    expect(updated.configVersion).toBe(5);
+    expect(mockVersionCreate).toHaveBeenCalledTimes(1);
+    expect(mockVersionCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sk: "0000000005",
+        configVersion: 5,
+        changedFields: ["name"],
+        config: expect.objectContaining({
+          name: "Sales",
+          systemPrompt: "Be brief.",
+        }),
+      })
+    );
+  });
+
+  it("keeps the agent update when recording the version fails", async () => {
+    mockVersionCreate.mockRejectedValue(new Error("DynamoDB unavailable"));
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => undefined);
+    storeAgent({ ...baseAgent, configVersion: 3 });
+
+    const updated = await updateAgentWithConfigVersion(
+      db as never,
+      { ...baseAgent, configVersion: 3 },
+      { pk: baseAgent.pk, sk: "agent", name: "Sales" },
+      { source: "assistant" }
+    );
+
+    expect(updated.configVersion).toBe(4);
+    expect(mockCaptureException).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it("clears fields missing from a restored configuration", () => {
+    expect(
+      buildAgentConfigRestoreUpdate(baseAgent, {
+        name: "Support",
+        systemPrompt: "Old prompt",
+        provider: "openrouter",
+      })
+    ).toEqual({
+      pk: "agents/ws-1/agent-1",
+      sk: "agent",
+      name: "Support",
+      systemPrompt: "Old prompt",
+      provider: "openrouter",
+      enabledMcpServerIds: undefined,
+    });
+  });
+});
@@ -67,6 +67,10 @@ describe("agentContextStats", () => {
       expect(result.contextLength).toBe(DEFAULT_CONTEXT);
       expect(result.ratio).toBe(3 / DEFAULT_CONTEXT);
       expect(result.modelName).toBe("openrouter/some-model");
+      // 80% of max safe input tokens, before the 1.5 estimate safety factor
+      expect(result.compactionThresholdTokens).toBe(
+        Math.floor((DEFAULT_SAFE * 0.8) / 1.5),
+      );
     });
 
     it("uses instructions-only when includeSkills is true but no enabledSkillIds", async () => {
@@ -10,11 +10,15 @@ vi.mock("../tracking", () => ({
 
 describe("agentCreate", () => {
   const mockAgentCreate = vi.fn();
+  const mockVersionCreate = vi.fn();
 
   const mockDb = {
     agent: {
       create: mockAgentCreate,
     },
+    "agent-config-version": {
+      create: mockVersionCreate,
+    },
   };
 
   beforeEach(() => {
@@ -52,10 +56,53 @@ describe("agentCreate", () => {
         name: "Test Agent",
         systemPrompt: "You are helpful.",
         provider: "openrouter",
+        configVersion: 1,
       });
       expect(result).toEqual(created);
     });
 
+    it("records the initial configuration as version 1", async () => {
+      mockAgentCreate.mockResolvedValue({
+        pk: "agents/ws-1/agent-1",
+        sk: "agent",
+        workspaceId: "ws-1",
+        name: "Test Agent",
+        systemPrompt: "You are helpful.",
+        provider: "openrouter",
+        configVersion: 1,
+        createdBy: "users/u1",
+        version: 1,
+        createdAt: "2024-01-01T00:00:00Z",
+      });
+
+      await createAgentRecord(mockDb as never, {
+        pk: "agents/ws-1/agent-1",
+        sk: "agent",
+        workspaceId: "ws-1",
+        name: "Test Agent",
+        systemPrompt: "You are helpful.",
+        provider: "openrouter",
+        createdBy: "users/u1",
+      });
+
+      expect(mockVersionCreate).toHaveBeenCalledWith({
+        pk: "agent-config-versions/ws-1/agent-1",
+        sk: "0000000001",
+        workspaceId: "ws-1",
+        agentId: "agent-1",
+        configVersion: 1,
+        config: {
+          name: "Test Agent",
+          systemPrompt: "You are helpful.",
+          provider: "openrouter",
+        },
+        changedFields: undefined,
+        source: "created",
+        restoredFromVersion: undefined,
+        createdBy: "users/u1",
+      });
+    });
+
     it("passes through optional params to db.agent.create", async () => {
       mockAgentCreate.mockResolvedValue({});
 
@@ -53,13 +53,36 @@ describe("agentSchedule", () => {
       expect(record.cronExpression).toBe("0 12 * * *");
       expect(record.prompt).toBe("Summarize");
       expect(record.enabled).toBe(true);
+      expect(record.timezone).toBe("UTC");
       expect(record.duePartition).toBe(DUE_PARTITION);
       expect(record.nextRunAt).toBe(1712345678);
       expect(record.version).toBe(1);
       expect(record.createdAt).toBeDefined();
       expect(mockGetNextRunAtEpochSeconds).toHaveBeenCalledWith(
         "0 12 * * *",
-        expect.any(Date)
+        expect.any(Date),
+        "UTC"
+      );
+    });
+
+    it("computes nextRunAt in the schedule timezone", () => {
+      const record = buildScheduleRecordForCreate(
+        "ws-1",
+        "agent-2",
+        "schedule-3",
+        {
+          name: "Weekday mornings",
+          cronExpression: "0 9 * * 1-5",
+          timezone: "Europe/Lisbon",
+          prompt: "Summarize",
+        }
+      );
+
+      expect(record.timezone).toBe("Europe/Lisbon");
+      expect(mockGetNextRunAtEpochSeconds).toHaveBeenCalledWith(
+        "0 9 * * 1-5",
+        expect.any(Date),
+        "Europe/Lisbon"
       );
     });
 
@@ -114,7 +137,8 @@ describe("agentSchedule", () => {
       expect(payload.nextRunAt).toBe(1712345678);
       expect(mockGetNextRunAtEpochSeconds).toHaveBeenCalledWith(
         "0 12 * * *",
-        expect.any(Date)
+        expect.any(Date),
+        "UTC"
       );
     });
 
@@ -127,7 +151,36 @@ describe("agentSchedule", () => {
       expect(payload.nextRunAt).toBe(1712345678);
       expect(mockGetNextRunAtEpochSeconds).toHaveBeenCalledWith(
         "0 8 * * *",
-        expect.any(Date)
+        expect.any(Date),
+        "UTC"
+      );
+    });
+
+    it("recomputes nextRunAt when timezone changes", () => {
+      const payload = buildScheduleUpdatePayload(existing, {
+        timezone: "America/New_York",
+      });
+
+      expect(payload.timezone).toBe("America/New_York");
+      expect(payload.nextRunAt).toBe(1712345678);
+      expect(mockGetNextRunAtEpochSeconds).toHaveBeenCalledWith(
+        "0 12 * * *",
+        expect.any(Date),
+        "America/New_York"
+      );
+    });
+
+    it("keeps the existing timezone when only cronExpression changes", () => {
+      const payload = buildScheduleUpdatePayload(
+        { ...existing, timezone: "Europe/Lisbon" },
+        { cronExpression: "0 8 * * *" }
+      );
+
+      expect(payload.timezone).toBe("Europe/Lisbon");
+      expect(mockGetNextRunAtEpochSeconds).toHaveBeenCalledWith(
+        "0 8 * * *",
+        expect.any(Date),
+        "Europe/Lisbon"
       );
     });
 
@@ -138,5 +191,22 @@ describe("agentSchedule", () => {
       expect(payload.duePartition).toBe(DISABLED_PARTITION);
       expect(mockGetNextRunAtEpochSeconds).not.toHaveBeenCalled();
     });
+
+    it("sets and removes the delivery target", () => {
+      const withDelivery = buildScheduleUpdatePayload(existing, {
+        delivery: { type: "channel", channelId: "channel-1" },
+      });
+      expect(withDelivery.delivery).toEqual({
+        type: "channel",
+        channelId: "channel-1",
+      });
+
+      const cleared = buildScheduleUpdatePayload(
+        { ...existing, delivery: withDelivery.delivery },
+        { delivery: null }
+      );
+      expect(cleared.delivery).toBeUndefined();
+      expect(mockGetNextRunAtEpochSeconds).not.toHaveBeenCalled();
+    });
   });
 });
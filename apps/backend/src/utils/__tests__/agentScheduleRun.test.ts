@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import type { DatabaseSchema } from "../../tables/schema";
+import {
+  buildAgentScheduleRunPk,
+  completeAgentScheduleRun,
+  startAgentScheduleRun,
+} from "../agentScheduleRun";
+
+describe("agentScheduleRun", () => {
+  const mockCreate = vi.fn();
+  const mockUpdate = vi.fn();
+  const db = {
+    "agent-schedule-run": { create: mockCreate, update: mockUpdate },
+  } as unknown as DatabaseSchema;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("builds pk in agent-schedule-runs/{workspaceId}/{agentId}/{scheduleId} format", () => {
+    expect(buildAgentScheduleRunPk("ws-1", "agent-2", "schedule-3")).toBe(
+      "agent-schedule-runs/ws-1/agent-2/schedule-3"
+    );
+  });
+
+  it("starts a running run keyed by start time", async () => {
+    const run = await startAgentScheduleRun(db, {
+      workspaceId: "ws-1",
+      agentId: "agent-2",
+      scheduleId: "schedule-3",
+      conversationId: "conv-4",
+    });
+
+    expect(run.pk).toBe("agent-schedule-runs/ws-1/agent-2/schedule-3");
+    expect(run.sk).toBe(`${run.startedAt}#${run.runId}`);
+    expect(mockCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        pk: run.pk,
+        sk: run.sk,
+        runId: run.runId,
+        status: "running",
+        conversationId: "conv-4",
+        expires: expect.any(Number),
+      })
+    );
+  });
+
+  it("completes a succeeded run with its cost", async () => {
+    await completeAgentScheduleRun(
+      db,
+      { pk: "pk-1", sk: "sk-1", runId: "run-1", startedAt: "t" },
+      { status: "succeeded", costUsd: 1234 }
+    );
+
+    expect(mockUpdate).toHaveBeenCalledWith({
+      pk: "pk-1",
+      sk: "sk-1",
+      status: "succeeded",
+      endedAt: expect.any(String),
+      costUsd: 1234,
+    });
+  });
+
+  it("completes a failed run with a truncated error message", async () => {
+    await completeAgentScheduleRun(
+      db,
+      { pk: "pk-1", sk: "sk-1", runId: "run-1", startedAt: "t" },
+      { status: "failed", error: new Error("x".repeat(2000)) }
+    );
+
+    const update = mockUpdate.mock.calls[0][0];
+    expect(update.status).toBe("failed");
+    expect(update.error).toHaveLength(1000);
+    expect(update).not.toHaveProperty("costUsd");
+  });
+});
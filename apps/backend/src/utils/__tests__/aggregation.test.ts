@@ -116,6 +116,21 @@ describe("aggregateConversations", () => {
     expect(stats.inputTokens).toBe(1);
     expect(stats.outputTokens).toBe(1);
   });
+
+  it("sums end-user feedback counts of conversations", () => {
+    const stats = aggregateConversations([
+      minimalConversation({ positiveFeedbackCount: 2, negativeFeedbackCount: 1 }),
+      minimalConversation({
+        conversationId: "conv-2",
+        pk: "conversations/ws-1/agent-1/conv-2",
+        negativeFeedbackCount: 3,
+      }),
+    ]);
+
+    expect(stats.positiveFeedback).toBe(2);
+    expect(stats.negativeFeedback).toBe(4);
+    expect(mergeUsageStats(stats, stats).negativeFeedback).toBe(8);
+  });
 });
 
 describe("mergeUsageStats (no double-count)", () => {
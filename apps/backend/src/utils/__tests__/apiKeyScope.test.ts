@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  getAcceptedApiKeyCapabilities,
+  hasApiKeyCapability,
+  isIpAllowed,
+  isValidIpAllowlistEntry,
+  isWorkspaceInApiKeyScope,
+} from "../apiKeyScope";
+
+describe("apiKeyScope", () => {
+  describe("getAcceptedApiKeyCapabilities", () => {
+    it("accepts every capability for listing workspaces", () => {
+      expect(getAcceptedApiKeyCapabilities("GET", "/api/workspaces")).toEqual([
+        "read",
+        "documents",
+        "agents",
+        "usage",
+      ]);
+      expect(getAcceptedApiKeyCapabilities("POST", "/api/workspaces")).toEqual(
+        []
+      );
+    });
+
+    it("maps workspace routes to capabilities", () => {
+      expect(
+        getAcceptedApiKeyCapabilities("GET", "/api/workspaces/ws-1/agents")
+      ).toEqual(["read"]);
+      expect(
+        getAcceptedApiKeyCapabilities("PUT", "/api/workspaces/ws-1/agents/a-1")
+      ).toEqual([]);
+      expect(
+        getAcceptedApiKeyCapabilities("GET", "/api/workspaces/ws-1/usage/daily")
+      ).toEqual(["usage"]);
+      expect(
+        getAcceptedApiKeyCapabilities(
+          "GET",
+          "/api/workspaces/ws-1/agents/a-1/transactions?limit=10"
+        )
+      ).toEqual(["usage"]);
+      expect(
+        getAcceptedApiKeyCapabilities("GET", "/api/workspaces/ws-1/documents")
+      ).toEqual(["read", "documents"]);
+      expect(
+        getAcceptedApiKeyCapabilities(
+          "DELETE",
+          "/api/workspaces/ws-1/documents/doc-1"
+        )
+      ).toEqual(["documents"]);
+    });
+
+    it("keeps credential and non-workspace routes out of reach", () => {
+      expect(
+        getAcceptedApiKeyCapabilities("GET", "/api/workspaces/ws-1/agents/a-1/keys")
+      ).toEqual([]);
+      expect(
+        getAcceptedApiKeyCapabilities(
+          "GET",
+          "/api/workspaces/ws-1/mcp-servers/m-1/oauth/authorize"
+        )
+      ).toEqual([]);
+      expect(getAcceptedApiKeyCapabilities("GET", "/api/user/api-keys")).toEqual(
+        []
+      );
+    });
+  });
+
+  it("treats keys without restrictions as unrestricted", () => {
+    expect(isWorkspaceInApiKeyScope(undefined, "ws-1")).toBe(true);
+    expect(isWorkspaceInApiKeyScope({ keyId: "k" }, "ws-1")).toBe(true);
+    expect(
+      isWorkspaceInApiKeyScope({ keyId: "k", workspaceIds: ["ws-2"] }, "ws-1")
+    ).toBe(false);
+    expect(hasApiKeyCapability({ keyId: "k" }, [])).toBe(true);
+    expect(
+      hasApiKeyCapability({ keyId: "k", capabilities: ["read"] }, ["usage"])
+    ).toBe(false);
+  });
+
+  describe("isIpAllowed", () => {
+    it("allows every address without an allowlist", () => {
+      expect(isIpAllowed("198.51.100.1", undefined)).toBe(true);
+      expect(isIpAllowed(undefined, [])).toBe(true);
+    });
+
+    it("matches addresses and CIDR ranges", () => {
+      const allowlist = ["203.0.113.4", "10.0.0.0/8", "2001:db8::/32"];
+      expect(isIpAllowed("203.0.113.4", allowlist)).toBe(true);
+      expect(isIpAllowed("10.20.30.40", allowlist)).toBe(true);
+      expect(isIpAllowed("::ffff:10.1.2.3", allowlist)).toBe(true);
+      expect(isIpAllowed("2001:db8::1", allowlist)).toBe(true);
+      expect(isIpAllowed("203.0.113.5", allowlist)).toBe(false);
+      expect(isIpAllowed(undefined, allowlist)).toBe(false);
+    });
+  });
+
+  it("validates allowlist entries", () => {
+    expect(isValidIpAllowlistEntry("192.0.2.1")).toBe(true);
+    expect(isValidIpAllowlistEntry("192.0.2.0/24")).toBe(true);
+    expect(isValidIpAllowlistEntry("192.0.2.0/33")).toBe(false);
+    expect(isValidIpAllowlistEntry("example.com")).toBe(false);
+  });
+});
@@ -0,0 +1,206 @@
+import type express from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  buildAuditLogQuery,
+  getChangedFields,
+  parseAuditLogFilters,
+  recordAuditEvent,
+  recordAuditEventForUser,
+  toAuditLogCsv,
+  toAuditLogEntry,
+} from "../auditLog";
+
+const { mockDatabase, mockCreate, mockCaptureException } = vi.hoisted(() => ({
+  mockDatabase: vi.fn(),
+  mockCreate: vi.fn(),
+  mockCaptureException: vi.fn(),
+}));
+
+vi.mock("../../tables", () => ({
+  database: mockDatabase,
+}));
+
+vi.mock("../sentry", () => ({
+  Sentry: { captureException: mockCaptureException },
+  ensureError: (error: unknown) => error,
+}));
+
+const createRequest = (overrides: Partial<express.Request> = {}) =>
+  ({
+    headers: { "x-amzn-requestid": "req-1" },
+    userRef: "users/user-1",
+    session: { user: { email: "jane@example.com" } },
+    apiGateway: {
+      event: { requestContext: { http: { sourceIp: "203.0.113.4" } } },
+    },
+    ...overrides,
+  }) as unknown as express.Request;
+
+describe("auditLog", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDatabase.mockResolvedValue({
+      "workspace-audit-log": { create: mockCreate },
+    });
+  });
+
+  describe("recordAuditEvent", () => {
+    it("records the event with the actor of the request", async () => {
+      await recordAuditEvent(
+        createRequest({ apiKeyScope: { keyId: "key-1" } }),
+        "ws-1",
+        {
+          action: "updated",
+          resourceType: "agent",
+          resourceId: "agent-1",
+          resourceName: "Support",
+          changedFields: ["systemPrompt"],
+        }
+      );
+
+      expect(mockCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          pk: "workspaces/ws-1",
+          sk: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T.*#/),
+          workspaceId: "ws-1",
+          action: "updated",
+          resourceType: "agent",
+          resourceId: "agent-1",
+          resourceName: "Support",
+          actorUserId: "user-1",
+          actorEmail: "jane@example.com",
+          apiKeyId: "key-1",
+          changedFields: ["systemPrompt"],
+          ipAddress: "203.0.113.4",
+          requestId: "req-1",
+        })
+      );
+    });
+
+    it("does not fail the request when the write fails", async () => {
+      mockCreate.mockRejectedValue(new Error("DynamoDB unavailable"));
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await expect(
+        recordAuditEvent(createRequest(), "ws-1", {
+          action: "deleted",
+          resourceType: "document",
+          resourceId: "doc-1",
+        })
+      ).resolves.toBeUndefined();
+      expect(mockCaptureException).toHaveBeenCalled();
+    });
+  });
+
+  describe("recordAuditEventForUser", () => {
+    it("records the event with the acting user only", async () => {
+      await recordAuditEventForUser("users/user-1", "ws-1", {
+        action: "deleted",
+        resourceType: "member",
+        resourceId: "user-2",
+      });
+
+      const record = mockCreate.mock.calls[0][0];
+      expect(record).toMatchObject({
+        pk: "workspaces/ws-1",
+        action: "deleted",
+        resourceType: "member",
+        resourceId: "user-2",
+        actorUserId: "user-1",
+      });
+      expect(record).not.toHaveProperty("ipAddress");
+      expect(record).not.toHaveProperty("requestId");
+    });
+  });
+
+  it("lists only the fields that changed", () => {
+    expect(
+      getChangedFields(
+        { name: "Support", systemPrompt: "New", temperature: undefined },
+        { name: "Support", systemPrompt: "Old", temperature: 0.2 }
+      )
+    ).toEqual(["systemPrompt"]);
+    expect(getChangedFields({ name: "A", config: {} })).toEqual([
+      "config",
+      "name",
+    ]);
+  });
+
+  describe("parseAuditLogFilters", () => {
+    it("parses filters and normalizes dates", () => {
+      expect(
+        parseAuditLogFilters({
+          action: "deleted",
+          resourceType: "member",
+          actorUserId: "user-1",
+          from: "2026-10-01",
+        })
+      ).toEqual({
+        action: "deleted",
+        resourceType: "member",
+        resourceId: undefined,
+        actorUserId: "user-1",
+        from: "2026-10-01T00:00:00.000Z",
+        to: undefined,
+      });
+    });
+
+    it("rejects unknown values", () => {
+      expect(() => parseAuditLogFilters({ action: "renamed" })).toThrow(
+        "action must be one of"
+      );
+      expect(() => parseAuditLogFilters({ from: "yesterday" })).toThrow(
+        "from must be a valid date"
+      );
+      expect(() =>
+        parseAuditLogFilters({ from: "2026-10-02", to: "2026-10-01" })
+      ).toThrow("from must be before to");
+    });
+  });
+
+  it("builds a most-recent-first query with date bounds and filters", () => {
+    expect(
+      buildAuditLogQuery("ws-1", {
+        resourceType: "agent",
+        to: "2026-10-19T00:00:00.000Z",
+      })
+    ).toEqual({
+      KeyConditionExpression: "pk = :pk AND sk BETWEEN :from AND :to",
+      FilterExpression: "#resourceType = :resourceType",
+      ExpressionAttributeNames: { "#resourceType": "resourceType" },
+      ExpressionAttributeValues: {
+        ":pk": "workspaces/ws-1",
+        ":from": "0",
+        ":to": "2026-10-19T00:00:00.000Z~",
+        ":resourceType": "agent",
+      },
+      ScanIndexForward: false,
+    });
+  });
+
+  it("renders CSV with escaping", () => {
+    const entry = toAuditLogEntry({
+      pk: "workspaces/ws-1",
+      sk: "2026-10-19T10:00:00.000Z#event-1",
+      workspaceId: "ws-1",
+      eventId: "event-1",
+      action: "updated",
+      resourceType: "agent",
+      resourceId: "agent-1",
+      resourceName: '=HYPERLINK("x"), "quoted"',
+      changedFields: ["name", "systemPrompt"],
+      version: 1,
+      createdAt: "2026-10-19T10:00:00.000Z",
+    });
+
+    const [header, row] = toAuditLogCsv([entry]).split("\r\n");
+
+    expect(header).toBe(
+      "createdAt,action,resourceType,resourceId,resourceName,agentId,actorUserId,actorEmail,apiKeyId,changedFields,details,ipAddress,requestId,id"
+    );
+    expect(row).toBe(
+      `2026-10-19T10:00:00.000Z,updated,agent,agent-1,"'=HYPERLINK(""x""), ""quoted""",,,,,name systemPrompt,,,,event-1`
+    );
+  });
+});
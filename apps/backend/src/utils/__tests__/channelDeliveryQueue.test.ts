@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { OutputChannelRecord } from "../../tables/schema";
+import { enqueueHttpChannelNotification } from "../channelDeliveryQueue";
+
+const { mockDeliveryCreate, mockGetRecord, mockPublish } = vi.hoisted(() => ({
+  mockDeliveryCreate: vi.fn(),
+  mockGetRecord: vi.fn(),
+  mockPublish: vi.fn(),
+}));
+
+vi.mock("@architect/functions", () => ({
+  queues: { publish: mockPublish },
+}));
+
+vi.mock("../../tables", () => ({
+  database: vi.fn().mockResolvedValue({
+    "channel-delivery": {
+      create: mockDeliveryCreate,
+      update: vi.fn(),
+    },
+  }),
+}));
+
+vi.mock("../conversationRecords", () => ({
+  getRecord: mockGetRecord,
+}));
+
+const channel = {
+  pk: "output-channels/workspace-123/channel-456",
+  sk: "channel",
+  workspaceId: "workspace-123",
+  channelId: "channel-456",
+  type: "http",
+  name: "Webhook",
+  config: { url: "https://example.com/hook", secret: "a".repeat(32) },
+} as unknown as OutputChannelRecord;
+
+const publishedEnvelope = () => mockPublish.mock.calls[0][0].payload.envelope;
+
+describe("enqueueHttpChannelNotification", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("uses the cost passed by the caller", async () => {
+    await enqueueHttpChannelNotification(channel, "Run finished", {
+      agentId: "agent-1",
+      conversationId: "conversation-1",
+      costUsd: 0.5,
+    });
+
+    expect(publishedEnvelope()).toMatchObject({
+      agentId: "agent-1",
+      conversationId: "conversation-1",
+      costUsd: 0.5,
+    });
+    expect(mockGetRecord).not.toHaveBeenCalled();
+  });
+
+  it("fills in the cost recorded on the conversation", async () => {
+    mockGetRecord.mockResolvedValue({ costUsd: 2_500_000 });
+
+    await enqueueHttpChannelNotification(channel, "Heads up", {
+      agentId: "agent-1",
+      conversationId: "conversation-1",
+    });
+
+    expect(mockGetRecord).toHaveBeenCalledWith(
+      expect.anything(),
+      "conversations/workspace-123/agent-1/conversation-1",
+      undefined,
+      { enrichFromS3: false }
+    );
+    expect(publishedEnvelope().costUsd).toBe(0.0025);
+  });
+
+  it("leaves the cost out when the conversation has none yet", async () => {
+    mockGetRecord.mockResolvedValue(null);
+
+    await enqueueHttpChannelNotification(channel, "Heads up", {
+      agentId: "agent-1",
+      conversationId: "conversation-1",
+    });
+
+    expect(publishedEnvelope()).not.toHaveProperty("costUsd");
+  });
+
+  it("does not look up a cost without a conversation", async () => {
+    await enqueueHttpChannelNotification(channel, "Test message");
+
+    expect(mockGetRecord).not.toHaveBeenCalled();
+    expect(publishedEnvelope()).not.toHaveProperty("costUsd");
+  });
+});
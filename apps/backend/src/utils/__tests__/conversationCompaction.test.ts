@@ -0,0 +1,332 @@
+import type { ModelMessage } from "ai";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  buildCompactionTranscript,
+  compactConversationIfNeeded,
+  COMPACTION_SUMMARY_PREFIX,
+  findCompactionSplitIndex,
+  fingerprintMessages,
+  MAX_COMPACTION_EVENTS,
+  type CompactConversationParams,
+} from "../conversationCompaction";
+
+const {
+  mockGenerateText,
+  mockCreateModel,
+  mockValidateCreditsAndLimitsAndReserve,
+  mockAdjustCreditsAfterLLMCall,
+  mockCleanupReservationOnError,
+  mockCleanupReservationWithoutTokenUsage,
+  mockEnqueueCostVerificationIfNeeded,
+  mockExtractTokenUsageAndCosts,
+  mockGetRecord,
+  mockAtomicUpdateRecord,
+  mockGetMaxSafeInputTokens,
+} = vi.hoisted(() => ({
+  mockGenerateText: vi.fn(),
+  mockCreateModel: vi.fn(),
+  mockValidateCreditsAndLimitsAndReserve: vi.fn(),
+  mockAdjustCreditsAfterLLMCall: vi.fn(),
+  mockCleanupReservationOnError: vi.fn(),
+  mockCleanupReservationWithoutTokenUsage: vi.fn(),
+  mockEnqueueCostVerificationIfNeeded: vi.fn(),
+  mockExtractTokenUsageAndCosts: vi.fn(),
+  mockGetRecord: vi.fn(),
+  mockAtomicUpdateRecord: vi.fn(),
+  mockGetMaxSafeInputTokens: vi.fn(),
+}));
+
+vi.mock("ai", async () => {
+  const actual = await vi.importActual("ai");
+  return {
+    ...actual,
+    generateText: mockGenerateText,
+  };
+});
+
+vi.mock("../../http/utils/modelFactory", () => ({
+  createModel: mockCreateModel,
+}));
+
+vi.mock("../../http/utils/generationCreditManagement", () => ({
+  adjustCreditsAfterLLMCall: mockAdjustCreditsAfterLLMCall,
+  cleanupReservationOnError: mockCleanupReservationOnError,
+  cleanupReservationWithoutTokenUsage: mockCleanupReservationWithoutTokenUsage,
+  enqueueCostVerificationIfNeeded: mockEnqueueCostVerificationIfNeeded,
+}));
+
+vi.mock("../../http/utils/generationTokenExtraction", () => ({
+  extractTokenUsageAndCosts: mockExtractTokenUsageAndCosts,
+}));
+
+vi.mock("../creditValidation", () => ({
+  validateCreditsAndLimitsAndReserve: mockValidateCreditsAndLimitsAndReserve,
+}));
+
+vi.mock("../conversationLogger", () => ({
+  WORKSPACE_META_AGENT_IDS: ["_workspace", "workspace"],
+}));
+
+vi.mock("../conversationRecords", () => ({
+  getRecord: mockGetRecord,
+  atomicUpdateRecord: mockAtomicUpdateRecord,
+  calculateTTL: () => 1234,
+}));
+
+vi.mock("../pricing", () => ({
+  getMaxSafeInputTokens: mockGetMaxSafeInputTokens,
+  getMaxCharsForPromptSegment: () => 100_000,
+}));
+
+const text = (chars: number) => "x".repeat(chars);
+
+/** Turn with a tool call and its result, ~420 estimated tokens each */
+const turn = (index: number): ModelMessage[] => [
+  { role: "user", content: `question ${index} ${text(800)}` },
+  {
+    role: "assistant",
+    content: [
+      {
+        type: "tool-call",
+        toolCallId: `call-${index}`,
+        toolName: "search_documents",
+        input: { query: `q${index}` },
+      },
+    ],
+  },
+  {
+    role: "tool",
+    content: [
+      {
+        type: "tool-result",
+        toolCallId: `call-${index}`,
+        toolName: "search_documents",
+        output: { type: "text", value: "result" },
+      },
+    ],
+  },
+  { role: "assistant", content: `answer ${index} ${text(800)}` },
+];
+
+const conversation = (turns: number): ModelMessage[] =>
+  Array.from({ length: turns }, (_, index) => turn(index)).flat();
+
+const baseParams = (
+  messages: ModelMessage[],
+): CompactConversationParams => ({
+  db: {} as CompactConversationParams["db"],
+  workspaceId: "ws-1",
+  agentId: "agent-1",
+  conversationId: "conv-1",
+  conversationType: "stream",
+  messages,
+  systemPrompt: "You are helpful.",
+  modelName: "openai/gpt-4o",
+  usesByok: false,
+  context: {} as CompactConversationParams["context"],
+});
+
+describe("conversationCompaction", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Threshold: 80% of 10k tokens; each turn is ~625 tokens with the 1.5 safety factor
+    mockGetMaxSafeInputTokens.mockReturnValue(10_000);
+    mockCreateModel.mockResolvedValue({});
+    mockGenerateText.mockResolvedValue({ text: "The user asked questions." });
+    mockExtractTokenUsageAndCosts.mockReturnValue({
+      tokenUsage: { promptTokens: 100, completionTokens: 20 },
+      openrouterGenerationId: "gen-1",
+      openrouterGenerationIds: ["gen-1"],
+    });
+    mockValidateCreditsAndLimitsAndReserve.mockResolvedValue({
+      reservationId: "res-1",
+    });
+    mockGetRecord.mockResolvedValue(null);
+    mockAtomicUpdateRecord.mockResolvedValue({});
+  });
+
+  describe("findCompactionSplitIndex", () => {
+    it("keeps the most recent turns that fit", () => {
+      const messages = conversation(6);
+
+      expect(findCompactionSplitIndex(messages, () => true)).toBe(8);
+      expect(
+        findCompactionSplitIndex(messages, (kept) => kept.length <= 8),
+      ).toBe(16);
+    });
+
+    it("keeps at least the last turn and treats injected knowledge as part of it", () => {
+      const messages: ModelMessage[] = [
+        ...conversation(2),
+        { role: "user", content: "Relevant knowledge" },
+        { role: "user", content: "Latest question" },
+      ];
+
+      expect(findCompactionSplitIndex(messages, () => false)).toBe(8);
+    });
+
+    it("returns 0 when there is only one turn", () => {
+      expect(findCompactionSplitIndex(turn(0), () => false)).toBe(0);
+    });
+  });
+
+  it("renders tool calls and results in the transcript and omits the oldest messages", () => {
+    const transcript = buildCompactionTranscript(turn(0), 100_000);
+    expect(transcript).toContain(
+      '[Called tool search_documents with {"query":"q0"}]',
+    );
+    expect(transcript).toContain("[Result of tool search_documents:");
+
+    const short = buildCompactionTranscript(
+      [
+        { role: "user", content: "first" },
+        { role: "assistant", content: "second" },
+      ],
+      20,
+    );
+    expect(short).toBe("[Earlier messages omitted]\n\nassistant: second");
+  });
+
+  it("leaves conversations below the threshold untouched", async () => {
+    const messages = conversation(3);
+
+    const result = await compactConversationIfNeeded(baseParams(messages));
+
+    expect(result.messages).toBe(messages);
+    expect(result.event).toBeUndefined();
+    expect(mockGenerateText).not.toHaveBeenCalled();
+  });
+
+  it("summarizes older turns, keeps recent ones verbatim and stores the summary", async () => {
+    const messages = conversation(16);
+
+    const result = await compactConversationIfNeeded(baseParams(messages));
+
+    expect(mockGenerateText).toHaveBeenCalledTimes(1);
+    expect(result.messages[0]).toEqual({
+      role: "user",
+      content: `${COMPACTION_SUMMARY_PREFIX}\n\nThe user asked questions.`,
+    });
+    expect(result.messages.slice(1)).toEqual(messages.slice(48));
+    expect(result.event).toMatchObject({
+      summarizedMessageCount: 48,
+      keptMessageCount: 16,
+      maxSafeInputTokens: 10_000,
+      modelName: "openai/gpt-4o",
+    });
+    expect(result.event!.estimatedTokensAfter).toBeLessThan(
+      result.event!.estimatedTokensBefore,
+    );
+    expect(mockAdjustCreditsAfterLLMCall).toHaveBeenCalledWith(
+      expect.anything(),
+      "ws-1",
+      "agent-1",
+      "res-1",
+      "openrouter",
+      "openai/gpt-4o",
+      expect.anything(),
+      false,
+      "gen-1",
+      ["gen-1"],
+      "conversation-compaction",
+      expect.anything(),
+      "conv-1",
+    );
+
+    const [, pk, , updater] = mockAtomicUpdateRecord.mock.calls[0]!;
+    expect(pk).toBe("conversations/ws-1/agent-1/conv-1");
+    const created = await updater(undefined);
+    expect(created).toMatchObject({
+      conversationId: "conv-1",
+      conversationType: "stream",
+      messages: [],
+      compaction: {
+        summary: "The user asked questions.",
+        summarizedMessageCount: 48,
+        fingerprint: fingerprintMessages(messages.slice(0, 48)),
+      },
+      compactionEvents: [result.event],
+    });
+  });
+
+  it("caps the stored compaction events", async () => {
+    await compactConversationIfNeeded(baseParams(conversation(16)));
+    const [, , , updater] = mockAtomicUpdateRecord.mock.calls[0]!;
+    const existingEvents = Array.from(
+      { length: MAX_COMPACTION_EVENTS },
+      (_, index) => ({ createdAt: `event-${index}` }),
+    );
+
+    const updated = await updater({ compactionEvents: existingEvents });
+
+    expect(updated.compactionEvents).toHaveLength(MAX_COMPACTION_EVENTS);
+    expect(updated.compactionEvents[0].createdAt).toBe("event-1");
+    expect(updated).not.toHaveProperty("messages");
+  });
+
+  it("reuses the stored summary while the older turns are unchanged", async () => {
+    const messages = conversation(16);
+    mockGetRecord.mockResolvedValue({
+      compaction: {
+        summary: "Stored summary",
+        summarizedMessageCount: 48,
+        fingerprint: fingerprintMessages(messages.slice(0, 48)),
+        modelName: "openai/gpt-4o",
+        updatedAt: "2026-10-19T00:00:00.000Z",
+      },
+    });
+
+    const result = await compactConversationIfNeeded(baseParams(messages));
+
+    expect(mockGenerateText).not.toHaveBeenCalled();
+    expect(mockAtomicUpdateRecord).not.toHaveBeenCalled();
+    expect(result.event).toBeUndefined();
+    expect(result.messages[0]!.content).toBe(
+      `${COMPACTION_SUMMARY_PREFIX}\n\nStored summary`,
+    );
+  });
+
+  it("extends the stored summary with the turns that aged out since", async () => {
+    const messages = conversation(17);
+    mockGetRecord.mockResolvedValue({
+      compaction: {
+        summary: "Stored summary",
+        summarizedMessageCount: 48,
+        fingerprint: fingerprintMessages(messages.slice(0, 48)),
+        modelName: "openai/gpt-4o",
+        updatedAt: "2026-10-19T00:00:00.000Z",
+      },
+    });
+
+    const result = await compactConversationIfNeeded(baseParams(messages));
+
+    const prompt = mockGenerateText.mock.calls[0]![0].messages[0].content;
+    expect(prompt).toContain("Stored summary");
+    expect(prompt).toContain("question 12");
+    expect(prompt).not.toContain("question 11");
+    expect(result.event?.summarizedMessageCount).toBe(52);
+  });
+
+  it("sends the conversation uncompacted when summarization fails", async () => {
+    const messages = conversation(16);
+    mockGenerateText.mockRejectedValue(new Error("provider down"));
+
+    const result = await compactConversationIfNeeded(baseParams(messages));
+
+    expect(result.messages).toBe(messages);
+    expect(mockCleanupReservationOnError).toHaveBeenCalled();
+    expect(mockAtomicUpdateRecord).not.toHaveBeenCalled();
+  });
+
+  it("does not store summaries of the workspace agent", async () => {
+    const result = await compactConversationIfNeeded({
+      ...baseParams(conversation(16)),
+      agentId: "_workspace",
+    });
+
+    expect(result.event).toBeDefined();
+    expect(mockGetRecord).not.toHaveBeenCalled();
+    expect(mockAtomicUpdateRecord).not.toHaveBeenCalled();
+  });
+});
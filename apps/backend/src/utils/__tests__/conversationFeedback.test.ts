@@ -0,0 +1,269 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { mockGetRecord, mockAtomicUpdateRecord, mockQueryRecordsAsync } =
+  vi.hoisted(() => ({
+    mockGetRecord: vi.fn(),
+    mockAtomicUpdateRecord: vi.fn(),
+    mockQueryRecordsAsync: vi.fn(),
+  }));
+
+vi.mock("../conversationRecords", () => ({
+  getRecord: mockGetRecord,
+  atomicUpdateRecord: mockAtomicUpdateRecord,
+  queryRecordsAsync: mockQueryRecordsAsync,
+}));
+
+import type { AgentConversationRecord } from "../../tables/schema";
+import {
+  getRatedExchange,
+  listAgentFeedbackExamples,
+  recordConversationFeedback,
+  removeConversationFeedback,
+} from "../conversationFeedback";
+
+const db = {} as never;
+const target = {
+  workspaceId: "ws1",
+  agentId: "ag1",
+  conversationId: "conv1",
+  messageId: "req-1",
+};
+
+function conversation(
+  overrides: Partial<AgentConversationRecord> = {}
+): AgentConversationRecord {
+  return {
+    pk: "conversations/ws1/ag1/conv1",
+    workspaceId: "ws1",
+    agentId: "ag1",
+    conversationId: "conv1",
+    conversationType: "stream",
+    messages: [],
+    awsRequestIds: ["req-1", "req-2"],
+    startedAt: "2026-10-19T10:00:00.000Z",
+    lastMessageAt: "2026-10-19T10:05:00.000Z",
+    expires: 0,
+    version: 1,
+    createdAt: "2026-10-19T10:00:00.000Z",
+    ...overrides,
+  };
+}
+
+/** Runs the update function of atomicUpdateRecord against the given record */
+function applyUpdatesTo(record: AgentConversationRecord) {
+  mockAtomicUpdateRecord.mockImplementation(
+    async (
+      _db: unknown,
+      _pk: string,
+      _sk: unknown,
+      update: (current: AgentConversationRecord) => Promise<object>
+    ) => ({ ...record, ...(await update(record)) })
+  );
+}
+
+describe("conversationFeedback", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("recordConversationFeedback", () => {
+    it("replaces the same end user's earlier rating and updates the counts", async () => {
+      const record = conversation({
+        feedback: [
+          {
+            messageId: "req-1",
+            rating: "positive",
+            source: "slack",
+            userId: "U1",
+            createdAt: "2026-10-19T10:01:00.000Z",
+          },
+          {
+            messageId: "req-1",
+            rating: "positive",
+            source: "slack",
+            userId: "U2",
+            createdAt: "2026-10-19T10:02:00.000Z",
+          },
+        ],
+      });
+      mockGetRecord.mockResolvedValue(record);
+      applyUpdatesTo(record);
+
+      const entry = await recordConversationFeedback(db, {
+        ...target,
+        rating: "negative",
+        comment: "  Wrong answer  ",
+        source: "slack",
+        userId: "U1",
+      });
+
+      expect(entry).toMatchObject({ rating: "negative", comment: "Wrong answer" });
+      const update = await mockAtomicUpdateRecord.mock.calls[0][3](record);
+      expect(update.feedback.map((e: { userId: string }) => e.userId)).toEqual([
+        "U2",
+        "U1",
+      ]);
+      expect(update.positiveFeedbackCount).toBe(1);
+      expect(update.negativeFeedbackCount).toBe(1);
+    });
+
+    it("rejects replies that are not part of the conversation", async () => {
+      mockGetRecord.mockResolvedValue(conversation());
+
+      await expect(
+        recordConversationFeedback(db, {
+          ...target,
+          messageId: "req-unknown",
+          rating: "positive",
+          source: "widget",
+        })
+      ).rejects.toThrow("Message not found in conversation");
+      expect(mockAtomicUpdateRecord).not.toHaveBeenCalled();
+    });
+
+    it("rejects unknown conversations", async () => {
+      mockGetRecord.mockResolvedValue(undefined);
+
+      await expect(
+        recordConversationFeedback(db, {
+          ...target,
+          rating: "positive",
+          source: "widget",
+        })
+      ).rejects.toThrow("Conversation not found");
+    });
+  });
+
+  describe("removeConversationFeedback", () => {
+    it("removes the rating only while it is still the removed one", async () => {
+      const record = conversation({
+        feedback: [
+          {
+            messageId: "req-1",
+            rating: "negative",
+            source: "slack",
+            userId: "U1",
+            createdAt: "2026-10-19T10:01:00.000Z",
+          },
+        ],
+      });
+      mockGetRecord.mockResolvedValue(record);
+      applyUpdatesTo(record);
+
+      await removeConversationFeedback(db, {
+        ...target,
+        rating: "positive",
+        source: "slack",
+        userId: "U1",
+      });
+      const kept = await mockAtomicUpdateRecord.mock.calls[0][3](record);
+      expect(kept.feedback).toHaveLength(1);
+
+      await removeConversationFeedback(db, {
+        ...target,
+        rating: "negative",
+        source: "slack",
+        userId: "U1",
+      });
+      const removed = await mockAtomicUpdateRecord.mock.calls[1][3](record);
+      expect(removed).toMatchObject({
+        feedback: [],
+        positiveFeedbackCount: 0,
+        negativeFeedbackCount: 0,
+      });
+    });
+  });
+
+  describe("getRatedExchange", () => {
+    it("returns the question and answer of the rated turn", () => {
+      const messages = [
+        { role: "user", content: "Earlier question", awsRequestId: "req-0" },
+        { role: "user", content: "When do you open?", awsRequestId: "req-1" },
+        {
+          role: "user",
+          knowledgeInjection: true,
+          content: "Opening hours: 9-17",
+          awsRequestId: "req-1",
+        },
+        {
+          role: "assistant",
+          content: [{ type: "text", text: "We open at 7am." }],
+          awsRequestId: "req-1",
+        },
+      ];
+
+      expect(getRatedExchange(messages, "req-1")).toEqual({
+        question: "When do you open?",
+        answer: "We open at 7am.",
+      });
+    });
+  });
+
+  describe("listAgentFeedbackExamples", () => {
+    it("returns rated exchanges of the requested rating, newest first", async () => {
+      mockQueryRecordsAsync.mockImplementation(async function* () {
+        yield conversation({
+          messages: [
+            { role: "user", content: "Q1", awsRequestId: "req-1" },
+            { role: "assistant", content: "A1", awsRequestId: "req-1" },
+            { role: "user", content: "Q2", awsRequestId: "req-2" },
+            { role: "assistant", content: "A2", awsRequestId: "req-2" },
+          ],
+          feedback: [
+            {
+              messageId: "req-1",
+              rating: "negative",
+              source: "widget",
+              createdAt: "2026-10-19T10:01:00.000Z",
+            },
+            {
+              messageId: "req-2",
+              rating: "negative",
+              comment: "Too long",
+              source: "api",
+              createdAt: "2026-10-19T10:06:00.000Z",
+            },
+            {
+              messageId: "req-2",
+              rating: "positive",
+              source: "widget",
+              createdAt: "2026-10-19T10:07:00.000Z",
+            },
+          ],
+        });
+      });
+
+      const examples = await listAgentFeedbackExamples(db, {
+        workspaceId: "ws1",
+        agentId: "ag1",
+        rating: "negative",
+        limit: 10,
+      });
+
+      expect(examples).toEqual([
+        {
+          conversationId: "conv1",
+          rating: "negative",
+          comment: "Too long",
+          source: "api",
+          createdAt: "2026-10-19T10:06:00.000Z",
+          question: "Q2",
+          answer: "A2",
+        },
+        {
+          conversationId: "conv1",
+          rating: "negative",
+          source: "widget",
+          createdAt: "2026-10-19T10:01:00.000Z",
+          question: "Q1",
+          answer: "A1",
+        },
+      ]);
+      expect(mockQueryRecordsAsync.mock.calls[0][1]).toMatchObject({
+        FilterExpression: expect.stringContaining(
+          "negativeFeedbackCount > :zero"
+        ),
+      });
+    });
+  });
+});
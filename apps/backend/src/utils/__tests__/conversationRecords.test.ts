@@ -16,6 +16,7 @@ import {
   deleteAllRecordsForAgent,
   getRecord,
   queryRecords,
+  queryRecordsAsync,
   queryRecordsPaginated,
   upsertRecord,
   atomicUpdateRecord,
@@ -609,6 +610,46 @@ describe("conversationRecords", () => {
     });
   });
 
+  describe("queryRecordsAsync", () => {
+    it("enriches items from S3 only as they are consumed", async () => {
+      vi.mocked(getS3ObjectBody).mockClear();
+      const rawItems = ["c1", "c2"].map((conversationId) => ({
+        pk: `conversations/ws1/ag1/${conversationId}`,
+        conversationId,
+        messages: [],
+        messagesS3Key: `conversation-messages/ws1/ag1/${conversationId}.json`,
+        workspaceId: "ws1",
+        agentId: "ag1",
+        conversationType: "stream" as const,
+        startedAt: new Date().toISOString(),
+        lastMessageAt: new Date().toISOString(),
+        expires: 888,
+      }));
+      const db = {
+        "agent-conversations": {
+          queryAsync: async function* () {
+            yield* rawItems;
+          },
+        },
+      } as never;
+
+      const consumed: AgentConversationRecord[] = [];
+      for await (const record of queryRecordsAsync(db, {
+        IndexName: "byAgentId",
+        KeyConditionExpression: "agentId = :a",
+        ExpressionAttributeValues: { ":a": "ag1" },
+      })) {
+        consumed.push(record);
+        break;
+      }
+
+      expect(consumed).toHaveLength(1);
+      expect(consumed[0].messages).toEqual([{ role: "user", content: "from S3" }]);
+      expect(getS3ObjectBody).toHaveBeenCalledTimes(1);
+      expect(getS3ObjectBody).toHaveBeenCalledWith("conversation-messages/ws1/ag1/c1.json");
+    });
+  });
+
   describe("deleteRecord", () => {
     it("deletes by pk and returns deleted item", async () => {
       const deleted = { pk: "conversations/ws1/ag1/conv1", sk: undefined };
@@ -0,0 +1,351 @@
+import { describe, it, expect, vi } from "vitest";
+
+import type { AgentConversationRecord } from "../../tables/schema";
+import {
+  buildConversationSearchQuery,
+  hasConversationSearchFilters,
+  matchesConversationContent,
+  matchesEvalResults,
+  parseConversationSearchFilters,
+  searchConversations,
+} from "../conversationSearch";
+
+function conversation(
+  conversationId: string,
+  lastMessageAt: string,
+  messages: unknown[] = []
+): AgentConversationRecord {
+  return {
+    pk: `conversations/ws1/ag1/${conversationId}`,
+    workspaceId: "ws1",
+    agentId: "ag1",
+    conversationId,
+    conversationType: "stream",
+    messages,
+    startedAt: lastMessageAt,
+    lastMessageAt,
+    expires: 0,
+    version: 1,
+    createdAt: lastMessageAt,
+  };
+}
+
+function createDb(records: AgentConversationRecord[], evalResults = []) {
+  const queryAsync = vi.fn(async function* () {
+    yield* records;
+  });
+  return {
+    db: {
+      "agent-conversations": { queryAsync },
+      "agent-eval-result": {
+        query: vi.fn().mockResolvedValue({ items: evalResults }),
+      },
+    } as never,
+    queryAsync,
+  };
+}
+
+describe("conversationSearch", () => {
+  describe("parseConversationSearchFilters", () => {
+    it("parses every filter", () => {
+      const filters = parseConversationSearchFilters({
+        q: "  invoice 4471 ",
+        conversationType: "webhook,stream",
+        from: "2026-10-01",
+        to: "2026-10-19T23:59:59.999Z",
+        hasError: "false",
+        minCostUsd: "1000",
+        maxCostUsd: "5000000",
+        model: "gpt",
+        tool: "search_documents",
+        maxEvalScore: "50",
+        criticalFailure: "true",
+        hasDelegations: "true",
+      });
+
+      expect(filters).toEqual({
+        text: "invoice 4471",
+        conversationTypes: ["webhook", "stream"],
+        from: "2026-10-01T00:00:00.000Z",
+        to: "2026-10-19T23:59:59.999Z",
+        hasError: false,
+        minCostUsd: 1000,
+        maxCostUsd: 5000000,
+        model: "gpt",
+        tool: "search_documents",
+        minEvalScore: undefined,
+        maxEvalScore: 50,
+        criticalFailure: true,
+        hasDelegations: true,
+      });
+      expect(hasConversationSearchFilters(filters)).toBe(true);
+    });
+
+    it("returns no filters for a plain list request", () => {
+      const filters = parseConversationSearchFilters({ limit: "20", q: " " });
+      expect(hasConversationSearchFilters(filters)).toBe(false);
+    });
+
+    it.each([
+      [{ conversationType: "email" }, "conversationType must be"],
+      [{ hasError: "yes" }, 'hasError must be "true" or "false"'],
+      [{ maxEvalScore: "101" }, "maxEvalScore must be a number between"],
+      [{ from: "soon" }, "from must be an ISO 8601 date"],
+      [{ from: "2026-10-19", to: "2026-10-01" }, "from must not be after to"],
+      [{ feedback: "great" }, "feedback must be one of"],
+    ])("rejects %j", (query, message) => {
+      expect(() => parseConversationSearchFilters(query)).toThrow(message);
+    });
+  });
+
+  describe("buildConversationSearchQuery", () => {
+    it("filters in DynamoDB what the record attributes can answer", () => {
+      const query = buildConversationSearchQuery(
+        { workspaceId: "ws1", agentId: "ag1" },
+        {
+          from: "2026-10-01T00:00:00.000Z",
+          conversationTypes: ["webhook"],
+          hasError: true,
+          hasDelegations: false,
+        }
+      );
+
+      expect(query).toEqual({
+        IndexName: "byAgentIdAndLastMessageAt",
+        KeyConditionExpression: "agentId = :agentId AND lastMessageAt >= :from",
+        FilterExpression:
+          "workspaceId = :workspaceId AND conversationType IN (:type0) AND attribute_exists(#error) AND (attribute_not_exists(delegations) OR size(delegations) = :zero)",
+        ExpressionAttributeValues: {
+          ":workspaceId": "ws1",
+          ":agentId": "ag1",
+          ":from": "2026-10-01T00:00:00.000Z",
+          ":type0": "webhook",
+          ":zero": 0,
+        },
+        ExpressionAttributeNames: { "#error": "error" },
+        ScanIndexForward: false,
+      });
+    });
+
+    it("queries the workspace index without an agent", () => {
+      const query = buildConversationSearchQuery(
+        { workspaceId: "ws1" },
+        { to: "2026-10-19T00:00:00.000Z" }
+      );
+
+      expect(query.IndexName).toBe("byWorkspaceIdAndLastMessageAt");
+      expect(query.KeyConditionExpression).toBe(
+        "workspaceId = :workspaceId AND lastMessageAt <= :to"
+      );
+      expect(query.FilterExpression).toBeUndefined();
+    });
+  });
+
+  describe("buildConversationSearchQuery feedback filter", () => {
+    it.each([
+      ["positive", "positiveFeedbackCount > :zero"],
+      ["negative", "negativeFeedbackCount > :zero"],
+      [
+        "any",
+        "(positiveFeedbackCount > :zero OR negativeFeedbackCount > :zero)",
+      ],
+      [
+        "none",
+        "NOT (positiveFeedbackCount > :zero OR negativeFeedbackCount > :zero)",
+      ],
+    ] as const)("filters %s feedback in DynamoDB", (feedback, expression) => {
+      const query = buildConversationSearchQuery(
+        { workspaceId: "ws1", agentId: "ag1" },
+        { feedback }
+      );
+
+      expect(query.FilterExpression).toBe(
+        `workspaceId = :workspaceId AND ${expression}`
+      );
+      expect(query.ExpressionAttributeValues).toMatchObject({ ":zero": 0 });
+    });
+  });
+
+    describe("matchesConversationContent", () => {
+    const messages = [
+      {
+        role: "user",
+        content: "Hi, where is my refund for Invoice 4471?",
+      },
+      {
+        role: "user",
+        knowledgeInjection: true,
+        content: "Invoices are paid within 30 days",
+      },
+      {
+        role: "assistant",
+        modelName: "openai/gpt-4.1",
+        content: [
+          {
+            type: "tool-call",
+            toolCallId: "t1",
+            toolName: "search_documents",
+            args: {},
+          },
+          { type: "text", text: "Let me check that." },
+        ],
+      },
+    ];
+
+    it("matches text case-insensitively in user and assistant messages", () => {
+      expect(
+        matchesConversationContent({ messages }, { text: "invoice 4471" })
+      ).toBe(true);
+      expect(
+        matchesConversationContent({ messages }, { text: "let me CHECK" })
+      ).toBe(true);
+    });
+
+    it("does not match text of injected knowledge", () => {
+      expect(
+        matchesConversationContent({ messages }, { text: "within 30 days" })
+      ).toBe(false);
+    });
+
+    it("matches model and tool", () => {
+      expect(
+        matchesConversationContent(
+          { messages },
+          { model: "GPT-4", tool: "search_documents" }
+        )
+      ).toBe(true);
+      expect(
+        matchesConversationContent({ messages }, { tool: "send_email" })
+      ).toBe(false);
+    });
+  });
+
+  describe("matchesEvalResults", () => {
+    const result = (score: number, criticalFailureDetected = false) => ({
+      status: "completed" as const,
+      scoreGoalCompletion: score,
+      scoreToolEfficiency: score,
+      scoreFaithfulness: score,
+      criticalFailureDetected,
+    });
+
+    it("compares the average score of completed evaluations", () => {
+      const results = [
+        result(20),
+        result(60),
+        { ...result(0), status: "failed" as const },
+      ];
+      expect(matchesEvalResults(results, { maxEvalScore: 40 })).toBe(true);
+      expect(matchesEvalResults(results, { maxEvalScore: 39 })).toBe(false);
+      expect(matchesEvalResults(results, { minEvalScore: 41 })).toBe(false);
+    });
+
+    it("matches critical failures only on evaluated conversations", () => {
+      expect(
+        matchesEvalResults([result(90, true)], { criticalFailure: true })
+      ).toBe(true);
+      expect(
+        matchesEvalResults([result(90)], { criticalFailure: false })
+      ).toBe(true);
+      expect(matchesEvalResults([], { criticalFailure: false })).toBe(false);
+    });
+  });
+
+  describe("searchConversations", () => {
+    it("returns matches up to the limit and resumes after the last record looked at", async () => {
+      const records = [
+        conversation("c1", "2026-10-19T10:00:00.000Z", [
+          { role: "user", content: "invoice 4471" },
+        ]),
+        conversation("c2", "2026-10-19T09:00:00.000Z", [
+          { role: "user", content: "hello" },
+        ]),
+        conversation("c3", "2026-10-19T09:00:00.000Z", [
+          { role: "user", content: "Invoice 4471 again" },
+        ]),
+        conversation("c4", "2026-10-18T09:00:00.000Z", [
+          { role: "user", content: "invoice 4471, third time" },
+        ]),
+      ];
+      const { db, queryAsync } = createDb(records);
+
+      const first = await searchConversations(db, {
+        workspaceId: "ws1",
+        agentId: "ag1",
+        filters: { text: "invoice 4471" },
+        limit: 2,
+      });
+
+      expect(first.items.map((item) => item.conversationId)).toEqual([
+        "c1",
+        "c3",
+      ]);
+      expect(first.scannedCount).toBe(3);
+      expect(first.nextCursor).not.toBeNull();
+
+      // DynamoDB re-reads records at the cursor's timestamp; those already looked at are skipped
+      const { db: resumedDb, queryAsync: resumedQueryAsync } = createDb(
+        records.slice(1)
+      );
+      const second = await searchConversations(resumedDb, {
+        workspaceId: "ws1",
+        agentId: "ag1",
+        filters: { text: "invoice 4471" },
+        limit: 2,
+        cursor: first.nextCursor,
+      });
+
+      expect(second.items.map((item) => item.conversationId)).toEqual(["c4"]);
+      expect(second.nextCursor).toBeNull();
+      expect(queryAsync).toHaveBeenCalledTimes(1);
+      expect(resumedQueryAsync.mock.calls[0]).toEqual([
+        expect.objectContaining({
+          KeyConditionExpression: "agentId = :agentId AND lastMessageAt <= :to",
+          ExpressionAttributeValues: expect.objectContaining({
+            ":to": "2026-10-19T09:00:00.000Z",
+          }),
+        }),
+      ]);
+    });
+
+    it("looks up eval results only for eval filters", async () => {
+      const { db } = createDb(
+        [conversation("c1", "2026-10-19T10:00:00.000Z")],
+        []
+      );
+
+      const result = await searchConversations(db, {
+        workspaceId: "ws1",
+        filters: { criticalFailure: true },
+        limit: 10,
+      });
+
+      expect(result.items).toEqual([]);
+      expect(
+        (db as { "agent-eval-result": { query: ReturnType<typeof vi.fn> } })[
+          "agent-eval-result"
+        ].query
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          IndexName: "byConversationId",
+          ExpressionAttributeValues: {
+            ":conversationId": "c1",
+            ":workspaceId": "ws1",
+          },
+        })
+      );
+    });
+
+    it("rejects an invalid cursor", async () => {
+      const { db } = createDb([]);
+      await expect(
+        searchConversations(db, {
+          workspaceId: "ws1",
+          filters: {},
+          limit: 10,
+          cursor: "not-a-cursor",
+        })
+      ).rejects.toThrow("Invalid cursor");
+    });
+  });
+});
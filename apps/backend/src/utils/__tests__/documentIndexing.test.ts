@@ -54,6 +54,7 @@ import {
   deleteDocumentSnippets,
   updateDocument,
   indexDocumentFromS3,
+  getDocumentTextContent,
   MAX_DOCUMENT_SNIPPETS,
 } from "../documentIndexing";
 import { MAX_QUERY_LIMIT } from "../vectordb/config";
@@ -131,6 +132,51 @@ describe("documentIndexing", () => {
       });
     });
 
+    it("should store section anchors in snippet metadata", async () => {
+      mockSplitDocumentIntoSnippets.mockImplementation((text: string) => [
+        `${text} snippet`,
+      ]);
+      const metadata = { documentName, folderPath };
+
+      await indexDocument(
+        workspaceId,
+        documentId,
+        [
+          { text: "page one", anchor: "page 1" },
+          { text: "page two", anchor: "page 2" },
+        ],
+        metadata
+      );
+
+      expect(mockSplitDocumentIntoSnippets).toHaveBeenCalledWith("page one");
+      expect(mockSplitDocumentIntoSnippets).toHaveBeenCalledWith("page two");
+      const rawFacts = mockSendWriteOperation.mock.calls[0][0].data.rawFacts;
+      expect(rawFacts).toEqual([
+        expect.objectContaining({
+          id: `${documentId}:0`,
+          content: "page one snippet",
+          metadata: {
+            documentId,
+            documentName,
+            folderPath,
+            workspaceId,
+            anchor: "page 1",
+          },
+        }),
+        expect.objectContaining({
+          id: `${documentId}:1`,
+          content: "page two snippet",
+          metadata: {
+            documentId,
+            documentName,
+            folderPath,
+            workspaceId,
+            anchor: "page 2",
+          },
+        }),
+      ]);
+    });
+
     it("should handle empty content gracefully", async () => {
       mockSplitDocumentIntoSnippets.mockReturnValue([]);
       const metadata = { documentName, folderPath };
@@ -867,6 +913,28 @@ describe("documentIndexing", () => {
       expect(mockSplitDocumentIntoSnippets).toHaveBeenCalledWith(s3Content);
     });
 
+    it("should extract text from non-text documents before indexing", async () => {
+      mockGetDocument.mockResolvedValue(
+        Buffer.from("<h1>Pricing</h1><p>Plans start at $10.</p>", "utf-8")
+      );
+      mockSplitDocumentIntoSnippets.mockImplementation((text: string) => [
+        text,
+      ]);
+
+      await indexDocumentFromS3(workspaceId, documentId, "s3-key", {
+        documentName,
+        folderPath,
+        contentType: "text/html",
+        filename: "pricing.html",
+      });
+
+      expect(mockSplitDocumentIntoSnippets).toHaveBeenCalledWith(
+        "# Pricing\n\nPlans start at $10."
+      );
+      const rawFacts = mockSendWriteOperation.mock.calls[0][0].data.rawFacts;
+      expect(rawFacts[0].metadata.anchor).toBe('section "Pricing"');
+    });
+
     it("should handle empty document content", async () => {
       mockGetDocument.mockResolvedValue(Buffer.from("", "utf-8"));
       mockSplitDocumentIntoSnippets.mockReturnValue([]);
@@ -879,6 +947,36 @@ describe("documentIndexing", () => {
     });
   });
 
+  describe("getDocumentTextContent", () => {
+    it("should read the extracted text when present", async () => {
+      mockGetDocument.mockResolvedValue(Buffer.from("## Page 1\n\nHello"));
+
+      const content = await getDocumentTextContent(workspaceId, documentId, {
+        s3Key: "original.pdf",
+        extractedS3Key: "extracted.md",
+      });
+
+      expect(mockGetDocument).toHaveBeenCalledWith(
+        workspaceId,
+        documentId,
+        "extracted.md"
+      );
+      expect(content).toBe("## Page 1\n\nHello");
+    });
+
+    it("should read the original document otherwise", async () => {
+      await getDocumentTextContent(workspaceId, documentId, {
+        s3Key: "notes.md",
+      });
+
+      expect(mockGetDocument).toHaveBeenCalledWith(
+        workspaceId,
+        documentId,
+        "notes.md"
+      );
+    });
+  });
+
   describe("edge cases and error handling", () => {
     it("should handle very large documents with many snippets", async () => {
       // Create a large number of snippets
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  buildDocumentIdFilter,
+  buildFolderScopeFilter,
+  getAgentDocumentScope,
+  isDocumentInScope,
+  isInFolderScope,
+  normalizeDocumentTags,
+  normalizeKnowledgeFolderPaths,
+} from "../documentScope";
+
+describe("documentScope", () => {
+  describe("normalizeKnowledgeFolderPaths", () => {
+    it("trims slashes, removes duplicates and sorts", () => {
+      expect(
+        normalizeKnowledgeFolderPaths(["/support/", "hr", "hr/", " hr/policies "]),
+      ).toEqual(["hr", "hr/policies", "support"]);
+    });
+
+    it("returns undefined when the scope covers the whole workspace", () => {
+      expect(normalizeKnowledgeFolderPaths(undefined)).toBeUndefined();
+      expect(normalizeKnowledgeFolderPaths([])).toBeUndefined();
+      expect(normalizeKnowledgeFolderPaths(["hr", "/"])).toBeUndefined();
+    });
+
+    it("rejects path traversal", () => {
+      expect(() => normalizeKnowledgeFolderPaths(["hr/../finance"])).toThrow(
+        "path traversal",
+      );
+    });
+  });
+
+  describe("isInFolderScope", () => {
+    it("matches the folder itself and its subfolders only", () => {
+      expect(isInFolderScope("hr", ["hr"])).toBe(true);
+      expect(isInFolderScope("hr/policies", ["hr"])).toBe(true);
+      expect(isInFolderScope("hr-archive", ["hr"])).toBe(false);
+      expect(isInFolderScope("", ["hr"])).toBe(false);
+    });
+
+    it("allows everything without a scope", () => {
+      expect(isInFolderScope("anything", undefined)).toBe(true);
+      expect(isInFolderScope("", [])).toBe(true);
+    });
+  });
+
+  describe("buildFolderScopeFilter", () => {
+    it("combines folders with OR and escapes quotes", () => {
+      expect(buildFolderScopeFilter(["hr", "team's docs"])).toBe(
+        "(folderPath = 'hr' OR folderPath LIKE 'hr/%') OR (folderPath = 'team''s docs' OR folderPath LIKE 'team''s docs/%')",
+      );
+    });
+
+    it("returns undefined without a scope", () => {
+      expect(buildFolderScopeFilter(undefined)).toBeUndefined();
+      expect(buildFolderScopeFilter([])).toBeUndefined();
+    });
+  });
+
+  describe("normalizeDocumentTags", () => {
+    it("trims, lowercases, removes duplicates and sorts", () => {
+      expect(normalizeDocumentTags([" Public", "hr", "public ", ""])).toEqual([
+        "hr",
+        "public",
+      ]);
+    });
+
+    it("returns undefined when no tags remain", () => {
+      expect(normalizeDocumentTags(undefined)).toBeUndefined();
+      expect(normalizeDocumentTags([" "])).toBeUndefined();
+    });
+  });
+
+  describe("isDocumentInScope", () => {
+    const scope = getAgentDocumentScope({
+      knowledgeFolderPaths: ["hr"],
+      knowledgeTags: ["public"],
+    });
+
+    it("allows documents in a scoped folder or with a scoped tag", () => {
+      expect(isDocumentInScope({ folderPath: "hr/policies" }, scope)).toBe(
+        true,
+      );
+      expect(
+        isDocumentInScope({ folderPath: "sales", tags: ["public"] }, scope),
+      ).toBe(true);
+      expect(
+        isDocumentInScope({ folderPath: "sales", tags: ["internal"] }, scope),
+      ).toBe(false);
+    });
+
+    it("scopes by tags only when no folders are set", () => {
+      const tagScope = getAgentDocumentScope({ knowledgeTags: ["public"] });
+      expect(isDocumentInScope({ folderPath: "hr" }, tagScope)).toBe(false);
+      expect(
+        isDocumentInScope({ folderPath: "", tags: ["public"] }, tagScope),
+      ).toBe(true);
+    });
+
+    it("allows everything without a scope", () => {
+      expect(isDocumentInScope({ folderPath: "hr" }, {})).toBe(true);
+      expect(isDocumentInScope({ folderPath: "hr" }, undefined)).toBe(true);
+    });
+  });
+
+  describe("buildDocumentIdFilter", () => {
+    it("lists the document IDs and escapes quotes", () => {
+      expect(buildDocumentIdFilter(["doc-1", "doc'2"])).toBe(
+        "documentId IN ('doc-1', 'doc''2')",
+      );
+    });
+  });
+});
@@ -55,6 +55,7 @@ vi.mock("../../http/utils/agent-keys", () => ({
 import {
   splitDocumentIntoSnippets,
   cosineSimilarity,
+  fuseRankedResults,
   searchDocuments,
 } from "../documentSearch";
 import { generateEmbedding } from "../embedding";
@@ -207,6 +208,30 @@ describe("documentSearch", () => {
     });
   });
 
+  describe("fuseRankedResults", () => {
+    const result = (id: string) => ({
+      id,
+      content: id,
+      embedding: [],
+      timestamp: "2026-01-01T00:00:00.000Z",
+    });
+
+    it("should score a row ranked first in every list as 1", () => {
+      const fused = fuseRankedResults([
+        [result("a"), result("b")],
+        [result("a"), result("c")],
+      ]);
+
+      expect(fused.map((entry) => entry.result.id)).toEqual(["a", "b", "c"]);
+      expect(fused[0].score).toBe(1);
+      expect(fused[1].score).toBeCloseTo(61 / 62 / 2);
+    });
+
+    it("should return an empty list when there are no results", () => {
+      expect(fuseRankedResults([[], []])).toEqual([]);
+    });
+  });
+
   describe("generateEmbedding", () => {
     beforeEach(() => {
       // Clear all caches before each test
@@ -601,6 +626,207 @@ describe("documentSearch", () => {
       expect(queryCall[2]).not.toHaveProperty("filter");
     });
 
+    it("should restrict results to the agent's folder scope", async () => {
+      const row = (documentId: string, folderPath: string) => ({
+        id: `${documentId}:0`,
+        content: `Content of ${documentId}`,
+        embedding: Array(768).fill(0.1),
+        timestamp: new Date().toISOString(),
+        metadata: {
+          documentId,
+          documentName: `${documentId}.md`,
+          folderPath,
+          workspaceId: "workspace-123",
+        },
+        distance: 0.5,
+      });
+      // Rows outside the scope are dropped even if the vector query returns them
+      mockQuery.mockResolvedValue([
+        row("doc-1", "hr"),
+        row("doc-2", "hr/policies"),
+        row("doc-3", "hr_archive"),
+      ]);
+
+      const mockEmbedding = Array(768).fill(0.1);
+      mockFetch.mockResolvedValue(
+        embeddingResponse({ data: [{ embedding: mockEmbedding }] }),
+      );
+
+      const results = await searchDocuments("workspace-123", "leave policy", 5, {
+        folderPaths: ["hr"],
+      });
+
+      expect(mockQuery).toHaveBeenCalledWith("workspace-123", "docs", {
+        vector: mockEmbedding,
+        limit: 5,
+        filter: "(folderPath = 'hr' OR folderPath LIKE 'hr/%')",
+      });
+      expect(results.map((result) => result.documentId)).toEqual([
+        "doc-1",
+        "doc-2",
+      ]);
+    });
+
+    it("should also allow tagged documents outside the scoped folders", async () => {
+      const documents = [
+        { pk: "workspace-documents/workspace-123/doc-1", folderPath: "hr" },
+        {
+          pk: "workspace-documents/workspace-123/doc-2",
+          folderPath: "sales",
+          tags: ["public"],
+        },
+        { pk: "workspace-documents/workspace-123/doc-3", folderPath: "sales" },
+      ];
+      const db = {
+        "workspace-document": {
+          queryAsync: vi.fn(async function* () {
+            yield* documents;
+          }),
+        },
+      };
+      const row = (documentId: string, folderPath: string) => ({
+        id: `${documentId}:0`,
+        content: `Content of ${documentId}`,
+        metadata: { documentId, documentName: `${documentId}.md`, folderPath },
+        distance: 0.5,
+      });
+      mockQuery.mockResolvedValue([
+        row("doc-1", "hr"),
+        row("doc-2", "sales"),
+        row("doc-3", "sales"),
+      ]);
+      const mockEmbedding = Array(768).fill(0.1);
+      mockFetch.mockResolvedValue(
+        embeddingResponse({ data: [{ embedding: mockEmbedding }] }),
+      );
+
+      const results = await searchDocuments("workspace-123", "pricing", 5, {
+        db: db as never,
+        folderPaths: ["hr"],
+        tags: ["public"],
+      });
+
+      expect(db["workspace-document"].queryAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ IndexName: "byWorkspaceId" }),
+      );
+      expect(mockQuery).toHaveBeenCalledWith("workspace-123", "docs", {
+        vector: mockEmbedding,
+        limit: 5,
+        filter: "documentId IN ('doc-1', 'doc-2')",
+      });
+      expect(results.map((result) => result.documentId)).toEqual([
+        "doc-1",
+        "doc-2",
+      ]);
+    });
+
+    it("should return nothing when no document carries the scoped tags", async () => {
+      const db = {
+        "workspace-document": {
+          queryAsync: vi.fn(async function* () {
+            yield { pk: "workspace-documents/workspace-123/doc-1", folderPath: "" };
+          }),
+        },
+      };
+
+      const results = await searchDocuments("workspace-123", "pricing", 5, {
+        db: db as never,
+        tags: ["public"],
+      });
+
+      expect(results).toEqual([]);
+      expect(mockQuery).not.toHaveBeenCalled();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should run a keyword search without generating an embedding", async () => {
+      const row = (documentId: string, score: number) => ({
+        id: `${documentId}:0`,
+        content: `Error ERR-4012 in ${documentId}`,
+        embedding: [],
+        timestamp: new Date().toISOString(),
+        metadata: {
+          documentId,
+          documentName: `${documentId}.md`,
+          folderPath: "",
+        },
+        score,
+      });
+      mockQuery.mockResolvedValue([row("doc-1", 8), row("doc-2", 2)]);
+
+      const results = await searchDocuments("workspace-123", "ERR-4012", 5, {
+        mode: "keyword",
+        context: { addWorkspaceCreditTransaction: vi.fn() } as never,
+        db: {} as never,
+      });
+
+      expect(mockQuery).toHaveBeenCalledWith("workspace-123", "docs", {
+        fullTextQuery: "ERR-4012",
+        limit: 5,
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockReserveEmbeddingCredits).not.toHaveBeenCalled();
+      expect(results.map((result) => result.similarity)).toEqual([1, 0.25]);
+    });
+
+    it("should return no keyword results when the full-text index is missing", async () => {
+      mockQuery.mockRejectedValue(
+        new Error(
+          "Vector database query failed: Cannot perform full text search unless an INVERTED index has been created",
+        ),
+      );
+
+      const results = await searchDocuments("workspace-123", "ERR-4012", 5, {
+        mode: "keyword",
+      });
+
+      expect(results).toEqual([]);
+    });
+
+    it("should fuse vector and keyword results in hybrid mode", async () => {
+      const row = (documentId: string) => ({
+        id: `${documentId}:0`,
+        content: `Content of ${documentId}`,
+        embedding: [],
+        timestamp: new Date().toISOString(),
+        metadata: {
+          documentId,
+          documentName: `${documentId}.md`,
+          folderPath: "",
+        },
+      });
+      const mockEmbedding = Array(768).fill(0.1);
+      mockFetch.mockResolvedValue(
+        embeddingResponse({ data: [{ embedding: mockEmbedding }] }),
+      );
+      mockQuery.mockImplementation(
+        async (_workspaceId: string, _grain: string, options: { vector?: number[] }) =>
+          options.vector
+            ? [row("doc-1"), row("doc-2"), row("doc-3")]
+            : [row("doc-3"), row("doc-4")],
+      );
+
+      const results = await searchDocuments("workspace-123", "ERR-4012", 3, {
+        mode: "hybrid",
+      });
+
+      expect(mockQuery).toHaveBeenCalledWith("workspace-123", "docs", {
+        vector: mockEmbedding,
+        limit: 6,
+      });
+      expect(mockQuery).toHaveBeenCalledWith("workspace-123", "docs", {
+        fullTextQuery: "ERR-4012",
+        limit: 6,
+      });
+      // doc-3 is in both lists, so it outranks the top result of either list alone
+      expect(results.map((result) => result.documentId)).toEqual([
+        "doc-3",
+        "doc-1",
+        "doc-2",
+      ]);
+      expect(results[0].similarity).toBeGreaterThan(results[1].similarity);
+    });
+
     it("should reserve and adjust credits when context is provided", async () => {
       const mockEmbedding = Array(768).fill(0.1);
       mockFetch.mockResolvedValue(
@@ -0,0 +1,237 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { OutputChannelRecord } from "../../tables/schema";
+import {
+  assertSystemSenderRecipients,
+  parseEmailChannelConfig,
+  renderNotificationHtml,
+  renderSubjectTemplate,
+  sendEmailChannelNotification,
+} from "../emailChannel";
+
+const {
+  mockSendEmail,
+  mockSendEmailViaConnection,
+  mockPermissionQuery,
+  mockGetUserEmailById,
+} = vi.hoisted(() => {
+  return {
+    mockSendEmail: vi.fn(),
+    mockSendEmailViaConnection: vi.fn(),
+    mockPermissionQuery: vi.fn(),
+    mockGetUserEmailById: vi.fn(),
+  };
+});
+
+vi.mock("../../send-email", () => ({
+  sendEmail: mockSendEmail,
+}));
+
+vi.mock("../email", () => ({
+  sendEmailViaConnection: mockSendEmailViaConnection,
+}));
+
+vi.mock("../../tables", () => ({
+  database: vi.fn().mockResolvedValue({
+    permission: { query: mockPermissionQuery },
+  }),
+}));
+
+vi.mock("../subscriptionUtils", () => ({
+  getUserEmailById: mockGetUserEmailById,
+}));
+
+function mockWorkspaceMembers(emails: Record<string, string>) {
+  mockPermissionQuery.mockResolvedValue({
+    items: Object.keys(emails).map((userId) => ({
+      pk: "workspaces/workspace-123",
+      sk: `users/${userId}`,
+    })),
+  });
+  mockGetUserEmailById.mockImplementation(
+    async (userId: string) => emails[userId]
+  );
+}
+
+function createEmailChannel(
+  config: Record<string, unknown>
+): OutputChannelRecord {
+  return {
+    pk: "output-channels/workspace-123/channel-456",
+    sk: "channel",
+    workspaceId: "workspace-123",
+    channelId: "channel-456",
+    type: "email",
+    name: "Daily Report",
+    config,
+    version: 1,
+    createdAt: "2024-01-01T00:00:00Z",
+  };
+}
+
+describe("parseEmailChannelConfig", () => {
+  it("defaults the sender to the workspace email connection", () => {
+    expect(parseEmailChannelConfig({ recipients: ["a@example.com"] })).toEqual(
+      { recipients: ["a@example.com"], sender: "workspace" }
+    );
+  });
+
+  it("rejects missing recipients, invalid addresses and unknown fields", () => {
+    expect(() => parseEmailChannelConfig({ recipients: [] })).toThrow(
+      "config.recipients must contain at least one email address"
+    );
+    expect(() =>
+      parseEmailChannelConfig({ recipients: ["not-an-email"] })
+    ).toThrow("config.recipients must contain valid email addresses");
+    expect(() =>
+      parseEmailChannelConfig({
+        recipients: ["a@example.com"],
+        webhookUrl: "https://example.com",
+      })
+    ).toThrow();
+  });
+
+  it("limits the number of recipients", () => {
+    const recipients = Array.from(
+      { length: 11 },
+      (_, i) => `user${i}@example.com`
+    );
+    expect(() => parseEmailChannelConfig({ recipients })).toThrow(
+      "config.recipients must contain at most 10 email addresses"
+    );
+  });
+});
+
+describe("renderSubjectTemplate", () => {
+  it("replaces known placeholders and drops unknown ones", () => {
+    expect(
+      renderSubjectTemplate("[{{ channelName }}] {{title}}{{missing}}", {
+        channelName: "Alerts",
+        title: "Disk almost full",
+      })
+    ).toBe("[Alerts] Disk almost full");
+  });
+
+  it("strips line breaks so values cannot inject headers", () => {
+    expect(
+      renderSubjectTemplate("{{title}}", { title: "Hello\r\nBcc: x@y.z" })
+    ).toBe("Hello Bcc: x@y.z");
+  });
+
+  it("falls back to a default subject when the result is empty", () => {
+    expect(renderSubjectTemplate("{{title}}", { title: "" })).toBe(
+      "Notification from Helpmaton"
+    );
+  });
+});
+
+describe("renderNotificationHtml", () => {
+  it("renders markdown and escapes raw HTML", () => {
+    const html = renderNotificationHtml(
+      "## Summary\n\n- **3** new tickets\n\n<script>alert(1)</script>"
+    );
+
+    expect(html).toContain("<h2>Summary</h2>");
+    expect(html).toContain("<li><strong>3</strong> new tickets</li>");
+    expect(html).not.toContain("<script>");
+    expect(html).toContain("&lt;script&gt;");
+  });
+});
+
+describe("assertSystemSenderRecipients", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("accepts account emails of workspace members, ignoring case", async () => {
+    mockWorkspaceMembers({ "user-1": "Ops@Example.com", "user-2": "b@example.com" });
+
+    await expect(
+      assertSystemSenderRecipients("workspace-123", [
+        "ops@example.com",
+        "b@example.com",
+      ])
+    ).resolves.toBeUndefined();
+    expect(mockPermissionQuery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        ExpressionAttributeValues: { ":workspacePk": "workspaces/workspace-123" },
+      })
+    );
+  });
+
+  it("rejects addresses outside the workspace", async () => {
+    mockWorkspaceMembers({ "user-1": "ops@example.com" });
+
+    await expect(
+      assertSystemSenderRecipients("workspace-123", ["someone@example.org"])
+    ).rejects.toThrow(
+      'config.recipients must be email addresses of workspace members when config.sender is "system"'
+    );
+  });
+});
+
+describe("sendEmailChannelNotification", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("sends one email to all recipients in Bcc through the workspace connection", async () => {
+    const channel = createEmailChannel({
+      recipients: ["a@example.com", "b@example.com"],
+      subjectTemplate: "[{{channelName}}] {{title}} - {{agentName}}",
+    });
+
+    await sendEmailChannelNotification(
+      channel,
+      "# Weekly *summary*\n\nAll good.",
+      { agentName: "Reporter" }
+    );
+
+    expect(mockSendEmailViaConnection).toHaveBeenCalledTimes(1);
+    expect(mockSendEmailViaConnection).toHaveBeenCalledWith("workspace-123", {
+      bcc: ["a@example.com", "b@example.com"],
+      subject: "[Daily Report] Weekly summary - Reporter",
+      text: "# Weekly *summary*\n\nAll good.",
+      html: expect.stringContaining("<h1>Weekly <em>summary</em></h1>"),
+    });
+    expect(mockSendEmail).not.toHaveBeenCalled();
+  });
+
+  it("uses the system mailer when configured", async () => {
+    mockWorkspaceMembers({ "user-1": "a@example.com" });
+    const channel = createEmailChannel({
+      recipients: ["a@example.com"],
+      sender: "system",
+    });
+
+    await sendEmailChannelNotification(channel, "Build failed");
+
+    expect(mockSendEmail).toHaveBeenCalledWith({
+      to: ["a@example.com"],
+      subject: "Build failed",
+      text: "Build failed",
+      html: expect.stringContaining("<p>Build failed</p>"),
+    });
+    expect(mockSendEmailViaConnection).not.toHaveBeenCalled();
+  });
+
+  it("refuses system mailer recipients that are no longer workspace members", async () => {
+    mockWorkspaceMembers({ "user-1": "a@example.com" });
+    const channel = createEmailChannel({
+      recipients: ["a@example.com", "former@example.com"],
+      sender: "system",
+    });
+
+    await expect(
+      sendEmailChannelNotification(channel, "Build failed")
+    ).rejects.toThrow("former@example.com is not a member");
+    expect(mockSendEmail).not.toHaveBeenCalled();
+  });
+
+  it("throws when the stored configuration is invalid", async () => {
+    await expect(
+      sendEmailChannelNotification(createEmailChannel({}), "Hello")
+    ).rejects.toThrow();
+    expect(mockSendEmail).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+
+import { escapeHtml, sanitizeEmailSubject } from "../emailFormatting";
+
+describe("escapeHtml", () => {
+  it("escapes markup and quotes", () => {
+    expect(escapeHtml(`<a href="x">Tom & 'Jerry'</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;Tom &amp; &#39;Jerry&#39;&lt;/a&gt;"
+    );
+  });
+});
+
+describe("sanitizeEmailSubject", () => {
+  it("replaces line breaks and control characters and collapses whitespace", () => {
+    expect(sanitizeEmailSubject(" Weekly\r\nBcc: x@example.com\t report ")).toBe(
+      "Weekly Bcc: x@example.com report"
+    );
+  });
+
+  it("returns an empty string for missing values", () => {
+    expect(sanitizeEmailSubject(undefined)).toBe("");
+  });
+});
@@ -0,0 +1,252 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type {
+  AgentEvalDatasetRecord,
+  AgentEvalRunCaseRecord,
+  AgentEvalRunRecord,
+  DatabaseSchema,
+} from "../../tables/schema";
+import {
+  averageCaseScores,
+  compareEvalRunCases,
+  normalizeEvalDatasetCases,
+  recordEvalRunCaseOutcome,
+  startEvalRun,
+  type EvalCaseJudgeScore,
+} from "../evalDataset";
+
+const { mockPublish, mockCreate, mockCaseCreate, mockAtomicUpdate } =
+  vi.hoisted(() => ({
+    mockPublish: vi.fn(),
+    mockCreate: vi.fn(),
+    mockCaseCreate: vi.fn(),
+    mockAtomicUpdate: vi.fn(),
+  }));
+
+vi.mock("@architect/functions", () => ({
+  queues: { publish: mockPublish },
+}));
+
+const db = {
+  "agent-eval-run": {
+    create: mockCreate,
+    atomicUpdate: mockAtomicUpdate,
+  },
+  "agent-eval-run-case": {
+    create: mockCaseCreate,
+  },
+} as unknown as DatabaseSchema;
+
+const score = (
+  overrides: Partial<EvalCaseJudgeScore> = {}
+): EvalCaseJudgeScore => ({
+  judgeId: "judge-1",
+  judgeName: "Judge",
+  status: "completed",
+  scoreGoalCompletion: 80,
+  scoreToolEfficiency: 60,
+  scoreFaithfulness: 90,
+  criticalFailureDetected: false,
+  summary: "Good",
+  ...overrides,
+});
+
+const run = {
+  pk: "agent-eval-runs/ws-1/agent-1/run-1",
+  sk: "run",
+  workspaceId: "ws-1",
+  agentId: "agent-1",
+  runId: "run-1",
+  datasetId: "dataset-1",
+  datasetName: "Refunds",
+  modelName: "openai/gpt-4o",
+  judgeIds: ["judge-1"],
+  status: "running",
+  caseCount: 2,
+  finishedCaseCount: 0,
+  failedCaseCount: 0,
+  scoredCaseCount: 0,
+  scoreSums: { goalCompletion: 0, toolEfficiency: 0, faithfulness: 0 },
+  criticalFailureCount: 0,
+  costUsd: 0,
+  expires: 1_800_000_000,
+  version: 1,
+  createdAt: "2026-10-19T12:00:00.000Z",
+} as AgentEvalRunRecord;
+
+const runCase = (
+  caseId: string,
+  overrides: Partial<AgentEvalRunCaseRecord> = {}
+) =>
+  ({
+    pk: "agent-eval-run-cases/ws-1/agent-1/run-1",
+    sk: caseId,
+    workspaceId: "ws-1",
+    agentId: "agent-1",
+    runId: "run-1",
+    caseId,
+    position: 0,
+    input: `Question ${caseId}`,
+    status: "completed",
+    agentCostUsd: 1000,
+    judgeCostUsd: 500,
+    scores: [score()],
+    expires: 1_800_000_000,
+    version: 1,
+    createdAt: "2026-10-19T12:00:00.000Z",
+    ...overrides,
+  }) as AgentEvalRunCaseRecord;
+
+/** Runs the updater passed to atomicUpdate against the given current record */
+const runUpdater = (current: AgentEvalRunRecord | undefined) =>
+  mockAtomicUpdate.mockImplementation(async (_pk, _sk, updater) => ({
+    ...current,
+    ...(await updater(current)),
+  }));
+
+describe("evalDataset", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreate.mockImplementation(async (record) => record);
+    mockCaseCreate.mockImplementation(async (record) => record);
+  });
+
+  it("trims cases and keeps existing case IDs", () => {
+    const cases = normalizeEvalDatasetCases([
+      { caseId: "case-1", input: "  Hi  ", expectedOutput: " Hello ", rubric: " " },
+      { input: "Refund?", expectedOutput: null },
+    ]);
+
+    expect(cases[0]).toEqual({
+      caseId: "case-1",
+      input: "Hi",
+      expectedOutput: "Hello",
+    });
+    expect(cases[1].caseId).toEqual(expect.any(String));
+    expect(cases[1]).not.toHaveProperty("expectedOutput");
+  });
+
+  it("creates a case record and queues a message for every case", async () => {
+    const dataset = {
+      workspaceId: "ws-1",
+      agentId: "agent-1",
+      datasetId: "dataset-1",
+      name: "Refunds",
+      cases: [
+        { caseId: "case-1", input: "Hi", rubric: "Be polite" },
+        { caseId: "case-2", input: "Refund?" },
+      ],
+    } as AgentEvalDatasetRecord;
+
+    const started = await startEvalRun(db, {
+      dataset,
+      judgeIds: ["judge-1"],
+      modelName: "openai/gpt-4o",
+      overrides: { systemPrompt: "Be brief" },
+    });
+
+    expect(started).toMatchObject({
+      status: "running",
+      caseCount: 2,
+      overrides: { systemPrompt: "Be brief" },
+    });
+    expect(mockCaseCreate).toHaveBeenCalledTimes(2);
+    expect(mockCaseCreate.mock.calls[0][0]).toMatchObject({
+      pk: `agent-eval-run-cases/ws-1/agent-1/${started.runId}`,
+      sk: "case-1",
+      position: 0,
+      rubric: "Be polite",
+      status: "pending",
+    });
+    expect(mockPublish).toHaveBeenCalledWith({
+      name: "agent-eval-queue",
+      payload: {
+        workspaceId: "ws-1",
+        agentId: "agent-1",
+        runId: started.runId,
+        caseId: "case-2",
+      },
+    });
+  });
+
+  it("averages the scores of completed judges only", () => {
+    expect(
+      averageCaseScores([
+        score(),
+        score({ scoreGoalCompletion: 40, scoreToolEfficiency: 80, scoreFaithfulness: 70 }),
+        score({
+          status: "failed",
+          scoreGoalCompletion: null,
+          scoreToolEfficiency: null,
+          scoreFaithfulness: null,
+        }),
+      ])
+    ).toEqual({ goalCompletion: 60, toolEfficiency: 70, faithfulness: 80 });
+    expect(averageCaseScores([])).toBeNull();
+  });
+
+  it("adds a case outcome to the run totals", async () => {
+    runUpdater(run);
+
+    const updated = await recordEvalRunCaseOutcome(db, run.pk, {
+      failed: false,
+      scores: [score({ criticalFailureDetected: true })],
+      costUsd: 1500.4,
+    });
+
+    expect(updated).toMatchObject({
+      status: "running",
+      finishedCaseCount: 1,
+      scoredCaseCount: 1,
+      scoreSums: { goalCompletion: 80, toolEfficiency: 60, faithfulness: 90 },
+      criticalFailureCount: 1,
+      costUsd: 1500,
+    });
+  });
+
+  it("completes the run with its last case", async () => {
+    runUpdater({ ...run, finishedCaseCount: 1 });
+
+    const updated = await recordEvalRunCaseOutcome(db, run.pk, {
+      failed: true,
+      costUsd: 0,
+    });
+
+    expect(updated).toMatchObject({
+      status: "completed",
+      finishedCaseCount: 2,
+      failedCaseCount: 1,
+      scoredCaseCount: 0,
+      completedAt: expect.any(String),
+    });
+  });
+
+  it("compares two runs case by case", () => {
+    const rows = compareEvalRunCases(
+      [runCase("case-1"), runCase("case-2")],
+      [
+        runCase("case-1", {
+          agentCostUsd: 3000,
+          scores: [score({ scoreGoalCompletion: 95 })],
+        }),
+        runCase("case-3"),
+      ]
+    );
+
+    expect(rows.map((row) => row.caseId)).toEqual([
+      "case-1",
+      "case-2",
+      "case-3",
+    ]);
+    expect(rows[0]).toMatchObject({
+      scoreDelta: { goalCompletion: 15, toolEfficiency: 0, faithfulness: 0 },
+      costDeltaUsd: 2000,
+    });
+    expect(rows[1]).toMatchObject({
+      candidate: null,
+      scoreDelta: null,
+      costDeltaUsd: null,
+    });
+    expect(rows[2].base).toBeNull();
+  });
+});
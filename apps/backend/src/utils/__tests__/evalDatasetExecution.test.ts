@@ -0,0 +1,218 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type {
+  AgentEvalRunCaseRecord,
+  AgentEvalRunRecord,
+  DatabaseSchema,
+} from "../../tables/schema";
+import { executeEvalDatasetCase } from "../evalDatasetExecution";
+import type { AugmentedContext } from "../workspaceCreditContext";
+
+const {
+  mockRunGet,
+  mockCaseAtomicUpdate,
+  mockCaseUpdate,
+  mockAgentGet,
+  mockJudgeGet,
+  mockCallAgentNonStreaming,
+  mockValidateSubscriptionAndLimits,
+  mockRunEvalJudge,
+  mockRecordEvalRunCaseOutcome,
+} = vi.hoisted(() => ({
+  mockRunGet: vi.fn(),
+  mockCaseAtomicUpdate: vi.fn(),
+  mockCaseUpdate: vi.fn(),
+  mockAgentGet: vi.fn(),
+  mockJudgeGet: vi.fn(),
+  mockCallAgentNonStreaming: vi.fn(),
+  mockValidateSubscriptionAndLimits: vi.fn(),
+  mockRunEvalJudge: vi.fn(),
+  mockRecordEvalRunCaseOutcome: vi.fn(),
+}));
+
+vi.mock("../../http/utils/agentCallNonStreaming", () => ({
+  callAgentNonStreaming: mockCallAgentNonStreaming,
+}));
+
+vi.mock("../../http/utils/generationRequestTracking", () => ({
+  validateSubscriptionAndLimits: mockValidateSubscriptionAndLimits,
+  trackSuccessfulRequest: vi.fn(),
+}));
+
+vi.mock("../evalExecution", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../evalExecution")>()),
+  runEvalJudge: mockRunEvalJudge,
+}));
+
+vi.mock("../evalDataset", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../evalDataset")>()),
+  recordEvalRunCaseOutcome: mockRecordEvalRunCaseOutcome,
+}));
+
+const db = {
+  "agent-eval-run": { get: mockRunGet },
+  "agent-eval-run-case": {
+    atomicUpdate: mockCaseAtomicUpdate,
+    update: mockCaseUpdate,
+  },
+  "agent-eval-judge": { get: mockJudgeGet },
+  agent: { get: mockAgentGet },
+} as unknown as DatabaseSchema;
+
+const message = {
+  workspaceId: "ws-1",
+  agentId: "agent-1",
+  runId: "run-1",
+  caseId: "case-1",
+};
+const context = {} as AugmentedContext;
+
+const run = {
+  pk: "agent-eval-runs/ws-1/agent-1/run-1",
+  sk: "run",
+  workspaceId: "ws-1",
+  agentId: "agent-1",
+  runId: "run-1",
+  modelName: "openai/gpt-4o",
+  overrides: { systemPrompt: "Candidate prompt" },
+  judgeIds: ["judge-1"],
+} as AgentEvalRunRecord;
+
+const runCase = {
+  pk: "agent-eval-run-cases/ws-1/agent-1/run-1",
+  sk: "case-1",
+  caseId: "case-1",
+  input: "Can I get a refund?",
+  expectedOutput: "Refunds within 30 days",
+  status: "pending",
+} as AgentEvalRunCaseRecord;
+
+/** Runs the updater passed to atomicUpdate against the given current case */
+const claimCase = (current: AgentEvalRunCaseRecord) =>
+  mockCaseAtomicUpdate.mockImplementation(async (_pk, _sk, updater) => ({
+    ...current,
+    ...(await updater(current)),
+  }));
+
+describe("executeEvalDatasetCase", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRunGet.mockResolvedValue(run);
+    mockAgentGet.mockResolvedValue({ systemPrompt: "Current prompt" });
+    mockJudgeGet.mockResolvedValue({
+      judgeId: "judge-1",
+      name: "Quality",
+      enabled: true,
+      provider: "openrouter",
+      modelName: "openai/gpt-4o-mini",
+      evalPrompt: "Goal: {agent_goal}",
+    });
+    mockValidateSubscriptionAndLimits.mockResolvedValue("sub-1");
+    mockCallAgentNonStreaming.mockResolvedValue({
+      text: "Yes, within 30 days.",
+      provisionalCostUsd: 2000,
+      observerEvents: [],
+    });
+  });
+
+  it("runs the case with the run's overrides and records the scores", async () => {
+    claimCase(runCase);
+    mockRunEvalJudge.mockResolvedValue({
+      evalResult: {
+        score_goal_completion: 90,
+        score_tool_efficiency: 100,
+        score_faithfulness: 80,
+        critical_failure_detected: false,
+        summary: "Matches the expected answer",
+      },
+      costUsd: 500,
+    });
+
+    await executeEvalDatasetCase(db, message, context);
+
+    expect(mockCallAgentNonStreaming).toHaveBeenCalledWith(
+      "ws-1",
+      "agent-1",
+      "Can I get a refund?",
+      expect.objectContaining({
+        endpointType: "eval-dataset",
+        agentOverrides: { systemPrompt: "Candidate prompt" },
+      })
+    );
+    const judgeParams = mockRunEvalJudge.mock.calls[0][1];
+    expect(judgeParams.prompt).toContain("Goal: Candidate prompt");
+    expect(judgeParams.prompt).toContain("Refunds within 30 days");
+    expect(mockCaseUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: "completed",
+        output: "Yes, within 30 days.",
+        agentCostUsd: 2000,
+        judgeCostUsd: 500,
+        scores: [
+          expect.objectContaining({
+            judgeId: "judge-1",
+            status: "completed",
+            scoreGoalCompletion: 90,
+          }),
+        ],
+      })
+    );
+    expect(mockRecordEvalRunCaseOutcome).toHaveBeenCalledWith(db, run.pk, {
+      failed: false,
+      scores: expect.any(Array),
+      costUsd: 2500,
+    });
+  });
+
+  it("records a failed case without rethrowing", async () => {
+    claimCase(runCase);
+    mockCallAgentNonStreaming.mockRejectedValue(new Error("Model unavailable"));
+
+    await executeEvalDatasetCase(db, message, context);
+
+    expect(mockCaseUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "failed", error: "Model unavailable" })
+    );
+    expect(mockRecordEvalRunCaseOutcome).toHaveBeenCalledWith(db, run.pk, {
+      failed: true,
+      costUsd: 0,
+    });
+    expect(mockRunEvalJudge).not.toHaveBeenCalled();
+  });
+
+  it("skips a case that was already picked up", async () => {
+    claimCase({ ...runCase, status: "completed" });
+
+    await executeEvalDatasetCase(db, message, context);
+
+    expect(mockCallAgentNonStreaming).not.toHaveBeenCalled();
+    expect(mockRecordEvalRunCaseOutcome).not.toHaveBeenCalled();
+  });
+
+  it("skips a case another invocation is running", async () => {
+    claimCase({
+      ...runCase,
+      status: "running",
+      claimedAt: new Date(Date.now() - 60 * 1000).toISOString(),
+    });
+
+    await executeEvalDatasetCase(db, message, context);
+
+    expect(mockCallAgentNonStreaming).not.toHaveBeenCalled();
+  });
+
+  it("takes over a case left running by a crashed invocation", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    claimCase({
+      ...runCase,
+      status: "running",
+      claimedAt: new Date(Date.now() - 20 * 60 * 1000).toISOString(),
+    });
+    mockRunEvalJudge.mockResolvedValue({ costUsd: 0 });
+
+    await executeEvalDatasetCase(db, message, context);
+
+    expect(mockCallAgentNonStreaming).toHaveBeenCalledTimes(1);
+    expect(mockRecordEvalRunCaseOutcome).toHaveBeenCalledTimes(1);
+  });
+});
@@ -18,6 +18,7 @@ import { validateCreditsAndLimitsAndReserve } from "../creditValidation";
 import {
   buildEvalFailureRecord,
   buildEvalParseRetryPrompt,
+  buildEvalPrompt,
   executeEvaluation,
   formatConversationForEval,
   parseEvalResponse,
@@ -455,6 +456,38 @@ describe("evalExecution", () => {
     });
   });
 
+  describe("buildEvalPrompt", () => {
+    const conversationData = {
+      input_prompt: "Can I get a refund?",
+      steps: [],
+      final_response: "Yes, within 30 days.",
+    };
+
+    it("should fill in the agent goal", () => {
+      const prompt = buildEvalPrompt(
+        "Goal: {agent_goal}",
+        "Help customers",
+        conversationData
+      );
+
+      expect(prompt).toContain("Goal: Help customers");
+      expect(prompt).not.toContain("expected_output");
+    });
+
+    it("should include the expected output and rubric of a test case", () => {
+      const prompt = buildEvalPrompt(
+        "Goal: {agent_goal}",
+        "Help customers",
+        conversationData,
+        { expectedOutput: "Refunds within 30 days", rubric: "Mention the limit" }
+      );
+
+      expect(prompt).toContain('"expected_output": "Refunds within 30 days"');
+      expect(prompt).toContain('"rubric_notes": "Mention the limit"');
+      expect(prompt).toContain("This is a test case");
+    });
+  });
+
   describe("buildEvalFailureRecord", () => {
     it("should build a failed evaluation record with error details", () => {
       const record = buildEvalFailureRecord({
@@ -684,6 +717,64 @@ describe("evalExecution", () => {
       );
     });
 
+    it("falls back to the next judge model when the provider fails", async () => {
+      const db = buildDb();
+      (db["agent-eval-judge"].get as ReturnType<typeof vi.fn>).mockResolvedValue({
+        judgeId,
+        enabled: true,
+        provider: "openrouter",
+        modelName: "test-model",
+        fallbackModelNames: ["fallback-model"],
+        evalPrompt: "Evaluate {agent_goal}",
+        name: "Judge",
+      });
+      const generateTextMock = vi.mocked(generateText);
+      generateTextMock
+        .mockRejectedValueOnce(
+          Object.assign(new Error("Service Unavailable"), { statusCode: 503 })
+        )
+        .mockResolvedValueOnce({
+          text: JSON.stringify({
+            summary: "OK",
+            score_goal_completion: 80,
+            score_tool_efficiency: 70,
+            score_faithfulness: 90,
+            critical_failure_detected: false,
+            reasoning_trace: "Trace",
+          }),
+        } as Awaited<ReturnType<typeof generateText>>);
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      await executeEvaluation(
+        db,
+        workspaceId,
+        agentId,
+        conversationId,
+        judgeId,
+        {
+          addWorkspaceCreditTransaction: vi.fn(),
+          awsRequestId: "req-fallback",
+        } as unknown as AugmentedContext
+      );
+
+      expect(vi.mocked(createModel).mock.calls.map((call) => call[1])).toEqual(
+        ["test-model", "fallback-model"]
+      );
+      expect(cleanupReservationOnError).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(cleanupReservationOnError).mock.calls[0][5]).toBe(
+        "test-model"
+      );
+      expect(vi.mocked(adjustCreditsAfterLLMCall).mock.calls[1][5]).toBe(
+        "fallback-model"
+      );
+      expect(db["agent-eval-result"].create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: "completed",
+          modelName: "fallback-model",
+        })
+      );
+    });
+
     it("skips evaluation when conversation has credit/budget error (402)", async () => {
       const db = buildDb();
       (db["agent-conversations"].get as ReturnType<typeof vi.fn>).mockResolvedValue({
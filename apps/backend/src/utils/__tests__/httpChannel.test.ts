@@ -0,0 +1,220 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  HTTP_CHANNEL_DELIVERY_HEADER,
+  generateHttpChannelSecret,
+  parseHttpChannelConfig,
+  postHttpChannelEnvelope,
+  type HttpChannelEnvelope,
+} from "../httpChannel";
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  signWebhookPayload,
+} from "../webhookCallback";
+
+const { mockLookup } = vi.hoisted(() => ({
+  mockLookup: vi.fn(),
+}));
+
+vi.mock("dns/promises", () => ({
+  lookup: mockLookup,
+}));
+
+const secret = "whsec_0123456789abcdef";
+
+describe("parseHttpChannelConfig", () => {
+  const originalArcEnv = process.env.ARC_ENV;
+
+  afterEach(() => {
+    process.env.ARC_ENV = originalArcEnv;
+  });
+
+  it("accepts a valid configuration", () => {
+    expect(
+      parseHttpChannelConfig({
+        url: " https://example.com/hooks?source=helpmaton ",
+        headers: { Authorization: "Bearer abc" },
+        secret,
+      })
+    ).toEqual({
+      url: "https://example.com/hooks?source=helpmaton",
+      headers: { Authorization: "Bearer abc" },
+      secret,
+    });
+  });
+
+  it("requires url and secret", () => {
+    expect(() => parseHttpChannelConfig({ secret })).toThrow(
+      "config.url is required and must be a string"
+    );
+    expect(() =>
+      parseHttpChannelConfig({ url: "https://example.com", secret: "short" })
+    ).toThrow("config.secret must be at least 16 characters");
+  });
+
+  it("rejects http URLs outside the local sandbox and URLs with credentials", () => {
+    process.env.ARC_ENV = "production";
+    expect(() =>
+      parseHttpChannelConfig({ url: "http://example.com", secret })
+    ).toThrow("config.url must use https");
+    expect(() =>
+      parseHttpChannelConfig({ url: "https://u:p@example.com", secret })
+    ).toThrow("config.url must not contain credentials");
+  });
+
+  it("rejects local and private hosts outside the local sandbox", () => {
+    process.env.ARC_ENV = "production";
+    for (const url of [
+      "https://localhost/hooks",
+      "https://127.0.0.1/hooks",
+      "https://169.254.169.254/latest/meta-data",
+      "https://[::1]/hooks",
+    ]) {
+      expect(() => parseHttpChannelConfig({ url, secret })).toThrow(
+        "config.url must point to a public host"
+      );
+    }
+  });
+
+  it("rejects reserved and malformed headers", () => {
+    expect(() =>
+      parseHttpChannelConfig({
+        url: "https://example.com",
+        headers: { "x-helpmaton-signature": "forged" },
+        secret,
+      })
+    ).toThrow('config.headers: "x-helpmaton-signature" is set by Helpmaton');
+    expect(() =>
+      parseHttpChannelConfig({
+        url: "https://example.com",
+        headers: { "Bad Header": "value" },
+        secret,
+      })
+    ).toThrow('config.headers: invalid header name "Bad Header"');
+    expect(() =>
+      parseHttpChannelConfig({
+        url: "https://example.com",
+        headers: { "X-Custom": "a\r\nInjected: b" },
+        secret,
+      })
+    ).toThrow('value of "X-Custom" must be a single line');
+  });
+
+  it("rejects unknown fields", () => {
+    expect(() =>
+      parseHttpChannelConfig({ url: "https://example.com", secret, foo: 1 })
+    ).toThrow();
+  });
+});
+
+describe("generateHttpChannelSecret", () => {
+  it("generates a valid random secret", () => {
+    const generated = generateHttpChannelSecret();
+    expect(generated).toMatch(/^whsec_[0-9a-f]{64}$/);
+    expect(generateHttpChannelSecret()).not.toBe(generated);
+  });
+});
+
+describe("postHttpChannelEnvelope", () => {
+  const envelope: HttpChannelEnvelope = {
+    deliveryId: "delivery-1",
+    event: "notification",
+    workspaceId: "workspace-123",
+    channelId: "channel-456",
+    agentId: "agent-789",
+    content: "Daily report is ready",
+    createdAt: "2026-01-01T00:00:00.000Z",
+  };
+  const config = {
+    url: "https://example.com/hooks",
+    headers: { Authorization: "Bearer abc" },
+    secret,
+  };
+  const mockFetch = vi.fn();
+  const originalArcEnv = process.env.ARC_ENV;
+
+  beforeEach(() => {
+    process.env.ARC_ENV = "production";
+    mockFetch.mockReset();
+    mockLookup.mockReset();
+    mockLookup.mockResolvedValue([{ address: "93.184.215.14", family: 4 }]);
+    vi.stubGlobal("fetch", mockFetch);
+  });
+
+  afterEach(() => {
+    process.env.ARC_ENV = originalArcEnv;
+    vi.unstubAllGlobals();
+  });
+
+  it("POSTs the signed envelope with the custom headers", async () => {
+    mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+    await expect(postHttpChannelEnvelope(config, envelope)).resolves.toEqual({
+      ok: true,
+      retryable: false,
+      statusCode: 200,
+    });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe("https://example.com/hooks");
+    expect(init.method).toBe("POST");
+    expect(init.redirect).toBe("manual");
+    expect(JSON.parse(init.body)).toEqual(envelope);
+    expect(init.headers.Authorization).toBe("Bearer abc");
+    expect(init.headers[HTTP_CHANNEL_DELIVERY_HEADER]).toBe("delivery-1");
+    const timestamp = init.headers[WEBHOOK_TIMESTAMP_HEADER];
+    expect(init.headers[WEBHOOK_SIGNATURE_HEADER]).toBe(
+      signWebhookPayload(secret, timestamp, init.body)
+    );
+  });
+
+  it("classifies server errors and network errors as retryable", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 503 });
+    await expect(postHttpChannelEnvelope(config, envelope)).resolves.toEqual({
+      ok: false,
+      retryable: true,
+      statusCode: 503,
+      error: "Endpoint responded with status 503",
+    });
+
+    mockFetch.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+    await expect(postHttpChannelEnvelope(config, envelope)).resolves.toEqual({
+      ok: false,
+      retryable: true,
+      error: "ECONNREFUSED",
+    });
+  });
+
+  it("does not retry client errors", async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 404 });
+
+    await expect(postHttpChannelEnvelope(config, envelope)).resolves.toEqual({
+      ok: false,
+      retryable: false,
+      statusCode: 404,
+      error: "Endpoint responded with status 404",
+    });
+  });
+
+  it("refuses hosts that resolve to non-public addresses without retrying", async () => {
+    mockLookup.mockResolvedValue([{ address: "10.0.0.5", family: 4 }]);
+
+    await expect(postHttpChannelEnvelope(config, envelope)).resolves.toEqual({
+      ok: false,
+      retryable: false,
+      error: "example.com resolves to a non-public address",
+    });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("retries when the host cannot be resolved", async () => {
+    mockLookup.mockRejectedValue(new Error("getaddrinfo EAI_AGAIN example.com"));
+
+    await expect(postHttpChannelEnvelope(config, envelope)).resolves.toEqual({
+      ok: false,
+      retryable: true,
+      error: "getaddrinfo EAI_AGAIN example.com",
+    });
+  });
+});
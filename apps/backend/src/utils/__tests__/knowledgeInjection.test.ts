@@ -29,9 +29,16 @@ const {
 });
 
 // Mock documentSearch
-vi.mock("../documentSearch", () => ({
-  searchDocuments: mockSearchDocuments,
-}));
+vi.mock("../documentSearch", async () => {
+  const actual =
+    await vi.importActual<typeof import("../documentSearch")>(
+      "../documentSearch"
+    );
+  return {
+    formatDocumentSource: actual.formatDocumentSource,
+    searchDocuments: mockSearchDocuments,
+  };
+});
 
 vi.mock("../memory/searchMemory", () => ({
   searchMemory: mockSearchMemory,
@@ -348,6 +355,29 @@ describe("knowledgeInjection", () => {
       expect(result.modelMessages[3].role).toBe("assistant");
     });
 
+    it("should restrict document search to the agent's folder scope", async () => {
+      const agent = {
+        enableKnowledgeInjection: true,
+        knowledgeFolderPaths: ["hr", "policies/leave"],
+      };
+
+      mockSearchDocuments.mockResolvedValue([]);
+
+      await injectKnowledgeIntoMessages("workspace-1", agent, [
+        { role: "user", content: "Test query" },
+      ]);
+
+      expect(mockSearchDocuments).toHaveBeenCalledWith(
+        "workspace-1",
+        "Test query",
+        10,
+        {
+          ...defaultSearchOptions,
+          folderPaths: ["hr", "policies/leave"],
+        },
+      );
+    });
+
     it("should use default snippet count of 5 when not specified", async () => {
       const agent = {
         enableKnowledgeInjection: true,
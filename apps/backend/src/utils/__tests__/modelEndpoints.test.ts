@@ -0,0 +1,278 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { WorkspaceModelEndpointRecord } from "../../tables/schema";
+import {
+  findModelEndpointUsage,
+  getWorkspaceModelPricingResolver,
+  parseCustomModelName,
+  resolveCustomModel,
+  toModelEndpointResponse,
+  withoutCustomModels,
+} from "../modelEndpoints";
+import { getModelPricing } from "../pricing";
+
+const {
+  mockDatabase,
+  mockEndpointGet,
+  mockEndpointQueryAsync,
+  mockAgentQueryAsync,
+  mockJudgeQueryAsync,
+  mockGetWorkspaceSubscription,
+  mockAssertPublicHost,
+} = vi.hoisted(() => ({
+  mockDatabase: vi.fn(),
+  mockEndpointGet: vi.fn(),
+  mockEndpointQueryAsync: vi.fn(),
+  mockAgentQueryAsync: vi.fn(),
+  mockJudgeQueryAsync: vi.fn(),
+  mockGetWorkspaceSubscription: vi.fn(),
+  mockAssertPublicHost: vi.fn(),
+}));
+
+vi.mock("../../tables", () => ({
+  database: mockDatabase,
+}));
+
+vi.mock("../subscriptionUtils", () => ({
+  getWorkspaceSubscription: mockGetWorkspaceSubscription,
+}));
+
+vi.mock("../publicAddress", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../publicAddress")>()),
+  assertPublicHost: mockAssertPublicHost,
+}));
+
+async function* items<T>(records: T[]) {
+  yield* records;
+}
+
+const endpoint: WorkspaceModelEndpointRecord = {
+  pk: "workspace-model-endpoints/ws-1/ep-1",
+  sk: "endpoint",
+  workspaceId: "ws-1",
+  name: "GPU box",
+  baseUrl: "https://llm.example.com/v1",
+  apiKey: "secret-key",
+  models: [
+    {
+      name: "llama3.1:8b",
+      contextLength: 8192,
+      capabilities: { toolCalling: true },
+      pricing: { input: 0.1, output: 0.2 },
+    },
+    { name: "qwen" },
+  ],
+  version: 1,
+  createdAt: "2026-10-01T00:00:00.000Z",
+};
+
+describe("modelEndpoints", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDatabase.mockResolvedValue({
+      "workspace-model-endpoint": {
+        get: mockEndpointGet,
+        queryAsync: mockEndpointQueryAsync,
+      },
+      agent: { queryAsync: mockAgentQueryAsync },
+      "agent-eval-judge": { queryAsync: mockJudgeQueryAsync },
+    });
+    mockGetWorkspaceSubscription.mockResolvedValue({ plan: "pro" });
+    mockAssertPublicHost.mockResolvedValue(undefined);
+  });
+
+  describe("parseCustomModelName", () => {
+    it("splits the endpoint from a model name containing colons", () => {
+      expect(parseCustomModelName("custom:ep-1:llama3.1:8b")).toEqual({
+        endpointId: "ep-1",
+        model: "llama3.1:8b",
+      });
+    });
+
+    it("rejects other and incomplete model names", () => {
+      expect(parseCustomModelName("openai/gpt-4o")).toBeNull();
+      expect(parseCustomModelName("custom:ep-1")).toBeNull();
+      expect(parseCustomModelName("custom::model")).toBeNull();
+      expect(parseCustomModelName("custom:ep-1:")).toBeNull();
+    });
+  });
+
+  describe("resolveCustomModel", () => {
+    it("loads the endpoint of the calling workspace and registers its models", async () => {
+      mockEndpointGet.mockResolvedValue(endpoint);
+
+      const result = await resolveCustomModel("ws-1", "custom:ep-1:llama3.1:8b");
+
+      expect(mockEndpointGet).toHaveBeenCalledWith(
+        "workspace-model-endpoints/ws-1/ep-1",
+        "endpoint"
+      );
+      expect(result).toEqual({ endpoint, model: "llama3.1:8b" });
+      const pricing = getModelPricing("openrouter", "custom:ep-1:llama3.1:8b");
+      expect(pricing?.usd).toEqual({ input: 0.1, output: 0.2 });
+      expect(pricing?.context_length).toBe(8192);
+      expect(pricing?.capabilities?.tool_calling).toBe(true);
+      expect(
+        getModelPricing("openrouter", "custom:ep-1:qwen")?.capabilities
+          ?.tool_calling
+      ).toBe(false);
+    });
+
+    it("rejects models that the endpoint does not serve", async () => {
+      mockEndpointGet.mockResolvedValue(endpoint);
+
+      await expect(
+        resolveCustomModel("ws-1", "custom:ep-1:mistral")
+      ).rejects.toThrow('Model "custom:ep-1:mistral" is not available');
+    });
+
+    it("rejects endpoints outside the workspace", async () => {
+      mockEndpointGet.mockResolvedValue(undefined);
+
+      await expect(
+        resolveCustomModel("ws-2", "custom:ep-1:qwen")
+      ).rejects.toThrow("is not available");
+      expect(mockEndpointGet).toHaveBeenCalledWith(
+        "workspace-model-endpoints/ws-2/ep-1",
+        "endpoint"
+      );
+    });
+
+    it("requires a paid plan", async () => {
+      mockEndpointGet.mockResolvedValue(endpoint);
+      mockGetWorkspaceSubscription.mockResolvedValue({ plan: "free" });
+
+      await expect(
+        resolveCustomModel("ws-1", "custom:ep-1:qwen")
+      ).rejects.toThrow("only available for Starter and Pro plans");
+    });
+
+    it("refuses endpoints that resolve to a non-public address", async () => {
+      const { NonPublicAddressError } = await import("../publicAddress");
+      mockEndpointGet.mockResolvedValue(endpoint);
+      mockAssertPublicHost.mockRejectedValue(
+        new NonPublicAddressError("llm.example.com resolves to a non-public address")
+      );
+
+      await expect(
+        resolveCustomModel("ws-1", "custom:ep-1:qwen")
+      ).rejects.toThrow("must point to a public host");
+      expect(mockAssertPublicHost).toHaveBeenCalledWith("llm.example.com");
+    });
+  });
+
+  describe("getWorkspaceModelPricingResolver", () => {
+    it("uses the pricing config when no custom model is selected", async () => {
+      const resolver = await getWorkspaceModelPricingResolver(
+        "ws-1",
+        "openai/gpt-4o",
+        ["google/gemini-2.5-flash"]
+      );
+
+      expect(resolver).toBe(getModelPricing);
+      expect(mockDatabase).not.toHaveBeenCalled();
+    });
+
+    it("resolves the models of the workspace's endpoints", async () => {
+      mockEndpointQueryAsync.mockReturnValue(items([endpoint]));
+
+      const resolver = await getWorkspaceModelPricingResolver(
+        "ws-1",
+        "custom:ep-1:qwen"
+      );
+
+      expect(resolver("openrouter", "custom:ep-1:qwen")).toBeDefined();
+      expect(resolver("openrouter", "custom:ep-2:qwen")).toBeUndefined();
+      expect(mockEndpointQueryAsync).toHaveBeenCalledWith(
+        expect.objectContaining({
+          IndexName: "byWorkspaceId",
+          ExpressionAttributeValues: { ":workspaceId": "ws-1" },
+        })
+      );
+    });
+  });
+
+  describe("findModelEndpointUsage", () => {
+    it("finds agents using a model of the endpoint as fallback", async () => {
+      mockAgentQueryAsync.mockReturnValue(
+        items([
+          {
+            pk: "agents/ws-1/agent-1",
+            name: "Support",
+            modelName: "openai/gpt-4o",
+            fallbackModelNames: ["custom:ep-1:qwen"],
+          },
+        ])
+      );
+
+      await expect(findModelEndpointUsage("ws-1", "ep-1")).resolves.toBe(
+        'agent "Support"'
+      );
+    });
+
+    it("finds eval judges using a model of the endpoint", async () => {
+      mockAgentQueryAsync.mockReturnValue(
+        items([{ pk: "agents/ws-1/agent-1", name: "Support" }])
+      );
+      mockJudgeQueryAsync.mockReturnValue(
+        items([{ name: "Tone", modelName: "custom:ep-1:qwen" }])
+      );
+
+      await expect(findModelEndpointUsage("ws-1", "ep-1")).resolves.toBe(
+        'eval judge "Tone" of agent "Support"'
+      );
+      expect(mockJudgeQueryAsync).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ExpressionAttributeValues: { ":agentId": "agent-1" },
+        })
+      );
+    });
+
+    it("ignores other endpoints with a matching prefix", async () => {
+      mockAgentQueryAsync.mockReturnValue(
+        items([
+          {
+            pk: "agents/ws-1/agent-1",
+            name: "Support",
+            modelName: "custom:ep-10:qwen",
+          },
+        ])
+      );
+      mockJudgeQueryAsync.mockReturnValue(items([]));
+
+      await expect(
+        findModelEndpointUsage("ws-1", "ep-1")
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("withoutCustomModels", () => {
+    it("keeps OpenRouter models and drops custom fallbacks", () => {
+      expect(
+        withoutCustomModels("openai/gpt-4o", ["custom:ep-1:qwen", "x/y"])
+      ).toEqual({ modelName: "openai/gpt-4o", fallbackModelNames: ["x/y"] });
+    });
+
+    it("promotes the first OpenRouter fallback of a custom model", () => {
+      expect(
+        withoutCustomModels("custom:ep-1:qwen", ["x/y", "custom:ep-1:llama"])
+      ).toEqual({ modelName: "x/y", fallbackModelNames: undefined });
+      expect(withoutCustomModels("custom:ep-1:qwen", undefined)).toEqual({
+        modelName: undefined,
+        fallbackModelNames: undefined,
+      });
+    });
+  });
+
+  it("never returns the API key of an endpoint", () => {
+    const response = toModelEndpointResponse(endpoint);
+
+    expect(response).not.toHaveProperty("apiKey");
+    expect(response.hasApiKey).toBe(true);
+    expect(response.id).toBe("ep-1");
+    expect(response.models.map((model) => model.modelName)).toEqual([
+      "custom:ep-1:llama3.1:8b",
+      "custom:ep-1:qwen",
+    ]);
+  });
+});
@@ -4,10 +4,17 @@ import type { OutputChannelRecord } from "../../tables/schema";
 import { sendNotification } from "../notifications";
 
 // Mock dependencies
-const { mockSendDiscordMessage, mockSendSlackMessage } = vi.hoisted(() => {
+const {
+  mockSendDiscordMessage,
+  mockSendSlackMessage,
+  mockSendEmailChannelNotification,
+  mockEnqueueHttpChannelNotification,
+} = vi.hoisted(() => {
   return {
     mockSendDiscordMessage: vi.fn(),
     mockSendSlackMessage: vi.fn(),
+    mockSendEmailChannelNotification: vi.fn(),
+    mockEnqueueHttpChannelNotification: vi.fn(),
   };
 });
 
@@ -19,6 +26,14 @@ vi.mock("../slack", () => ({
   sendSlackMessage: mockSendSlackMessage,
 }));
 
+vi.mock("../emailChannel", () => ({
+  sendEmailChannelNotification: mockSendEmailChannelNotification,
+}));
+
+vi.mock("../channelDeliveryQueue", () => ({
+  enqueueHttpChannelNotification: mockEnqueueHttpChannelNotification,
+}));
+
 describe("sendNotification", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -80,6 +95,63 @@ describe("sendNotification", () => {
     expect(mockSendDiscordMessage).not.toHaveBeenCalled();
   });
 
+  it("should send email notification with subject variables", async () => {
+    const channel: OutputChannelRecord = {
+      pk: "output-channels/workspace-123/channel-456",
+      sk: "channel",
+      workspaceId: "workspace-123",
+      channelId: "channel-456",
+      type: "email",
+      name: "Email Channel",
+      config: {
+        recipients: ["ops@example.com"],
+        sender: "system",
+      },
+      version: 1,
+      createdAt: "2024-01-01T00:00:00Z",
+    };
+
+    await sendNotification(channel, "Test message", {
+      subjectVariables: { agentName: "Reporter" },
+    });
+
+    expect(mockSendEmailChannelNotification).toHaveBeenCalledWith(
+      channel,
+      "Test message",
+      { agentName: "Reporter" }
+    );
+    expect(mockSendDiscordMessage).not.toHaveBeenCalled();
+    expect(mockSendSlackMessage).not.toHaveBeenCalled();
+  });
+
+  it("should queue http notification with its context", async () => {
+    const channel: OutputChannelRecord = {
+      pk: "output-channels/workspace-123/channel-456",
+      sk: "channel",
+      workspaceId: "workspace-123",
+      channelId: "channel-456",
+      type: "http",
+      name: "HTTP Channel",
+      config: {
+        url: "https://example.com/hooks/helpmaton",
+        secret: "whsec_0123456789abcdef",
+      },
+      version: 1,
+      createdAt: "2024-01-01T00:00:00Z",
+    };
+    const context = { agentId: "agent-789", conversationId: "conv-1" };
+
+    await sendNotification(channel, "Test message", { context });
+
+    expect(mockEnqueueHttpChannelNotification).toHaveBeenCalledWith(
+      channel,
+      "Test message",
+      context
+    );
+    expect(mockSendDiscordMessage).not.toHaveBeenCalled();
+    expect(mockSendSlackMessage).not.toHaveBeenCalled();
+  });
+
   it("should throw error when Discord bot token is missing", async () => {
     const channel: OutputChannelRecord = {
       pk: "output-channels/workspace-123/channel-456",
@@ -151,8 +223,8 @@ describe("sendNotification", () => {
       sk: "channel",
       workspaceId: "workspace-123",
       channelId: "channel-456",
-      type: "email",
-      name: "Email Channel",
+      type: "sms",
+      name: "SMS Channel",
       config: {},
       version: 1,
       createdAt: "2024-01-01T00:00:00Z",
@@ -161,7 +233,7 @@ describe("sendNotification", () => {
     const content = "Test message";
 
     await expect(sendNotification(channel, content)).rejects.toThrow(
-      "Unsupported channel type: email"
+      "Unsupported channel type: sms"
     );
   });
 });
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+
+import { isNonPublicAddress, isNonPublicHostname } from "../publicAddress";
+
+describe("isNonPublicAddress", () => {
+  it("flags loopback, private, link-local and reserved addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.20.30.40",
+      "172.31.255.255",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::1",
+      "fd12:3456::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+    ]) {
+      expect(isNonPublicAddress(address)).toBe(true);
+    }
+  });
+
+  it("accepts public addresses and ignores host names", () => {
+    expect(isNonPublicAddress("93.184.215.14")).toBe(false);
+    expect(isNonPublicAddress("172.32.0.1")).toBe(false);
+    expect(isNonPublicAddress("2606:4700::1111")).toBe(false);
+    expect(isNonPublicAddress("::ffff:8.8.8.8")).toBe(false);
+    expect(isNonPublicAddress("example.com")).toBe(false);
+  });
+});
+
+describe("isNonPublicHostname", () => {
+  it("flags local names and non-public IP literals in URLs", () => {
+    expect(isNonPublicHostname("localhost")).toBe(true);
+    expect(isNonPublicHostname("api.localhost")).toBe(true);
+    expect(isNonPublicHostname("[::1]")).toBe(true);
+    expect(isNonPublicHostname("10.0.0.1")).toBe(true);
+    expect(isNonPublicHostname("example.com")).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { mockSendNotification, mockSendEmailViaConnection } = vi.hoisted(
+  () => ({
+    mockSendNotification: vi.fn(),
+    mockSendEmailViaConnection: vi.fn(),
+  })
+);
+
+vi.mock("../notifications", () => ({
+  sendNotification: mockSendNotification,
+}));
+
+vi.mock("../email", () => ({
+  sendEmailViaConnection: mockSendEmailViaConnection,
+}));
+
+import type { DatabaseSchema } from "../../tables/schema";
+import { deliverScheduleResult } from "../scheduleDelivery";
+
+describe("deliverScheduleResult", () => {
+  const mockChannelGet = vi.fn();
+  const db = {
+    output_channel: { get: mockChannelGet },
+  } as unknown as DatabaseSchema;
+  const baseParams = {
+    workspaceId: "ws-1",
+    agentId: "agent-2",
+    agentName: "Digest bot",
+    scheduleName: "Daily digest",
+    timezone: "UTC",
+    content: "# Digest\n\nAll quiet.",
+    conversationId: "conv-3",
+    costUsd: 2_500_000,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("sends the answer to the output channel with run context", async () => {
+    const channel = {
+      pk: "output-channels/ws-1/channel-1",
+      sk: "channel",
+      workspaceId: "ws-1",
+      channelId: "channel-1",
+      type: "http",
+      name: "Webhook",
+    };
+    mockChannelGet.mockResolvedValue(channel);
+
+    await deliverScheduleResult(db, {
+      ...baseParams,
+      delivery: { type: "channel", channelId: "channel-1" },
+    });
+
+    expect(mockChannelGet).toHaveBeenCalledWith(
+      "output-channels/ws-1/channel-1",
+      "channel"
+    );
+    expect(mockSendNotification).toHaveBeenCalledWith(
+      channel,
+      baseParams.content,
+      {
+        subjectVariables: expect.objectContaining({
+          scheduleName: "Daily digest",
+          agentName: "Digest bot",
+        }),
+        context: {
+          agentId: "agent-2",
+          conversationId: "conv-3",
+          costUsd: 0.0025,
+        },
+      }
+    );
+  });
+
+  it("throws when the channel no longer exists", async () => {
+    mockChannelGet.mockResolvedValue(undefined);
+
+    await expect(
+      deliverScheduleResult(db, {
+        ...baseParams,
+        delivery: { type: "channel", channelId: "gone" },
+      })
+    ).rejects.toThrow("Delivery channel not found");
+    expect(mockSendNotification).not.toHaveBeenCalled();
+  });
+
+  it("emails all recipients in Bcc through the email connection", async () => {
+    await deliverScheduleResult(db, {
+      ...baseParams,
+      delivery: {
+        type: "email",
+        recipients: ["a@example.com", "b@example.com"],
+        subjectTemplate: "{{agentName}}: {{scheduleName}}",
+      },
+    });
+
+    expect(mockSendEmailViaConnection).toHaveBeenCalledTimes(1);
+    expect(mockSendEmailViaConnection).toHaveBeenCalledWith("ws-1", {
+      bcc: ["a@example.com", "b@example.com"],
+      subject: "Digest bot: Daily digest",
+      text: baseParams.content,
+      html: expect.stringContaining("<h1>Digest</h1>"),
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  LAST_RUN_SUMMARY_MAX_LENGTH,
+  buildSchedulePromptVariables,
+  renderSchedulePrompt,
+  summarizeRunOutput,
+} from "../scheduleTemplate";
+
+describe("scheduleTemplate", () => {
+  const variables = buildSchedulePromptVariables({
+    // 23:30 UTC on Jan 31 is already Feb 1 in Tokyo
+    now: new Date("2026-01-31T23:30:00.000Z"),
+    timezone: "Asia/Tokyo",
+    lastRunAt: "2026-01-30T23:30:05.000Z",
+    lastRunSummary: "Three new tickets",
+    workspaceName: "Acme",
+    agentName: "Digest bot",
+    scheduleName: "Daily digest",
+  });
+
+  describe("buildSchedulePromptVariables", () => {
+    it("formats now in UTC and date in the schedule timezone", () => {
+      expect(variables.now).toBe("2026-01-31T23:30:00.000Z");
+      expect(variables.date).toBe("2026-02-01");
+    });
+
+    it("uses placeholders when there is no previous run", () => {
+      const first = buildSchedulePromptVariables({
+        now: new Date("2026-01-31T09:00:00.000Z"),
+        timezone: "UTC",
+        workspaceName: "Acme",
+        agentName: "Digest bot",
+        scheduleName: "Daily digest",
+      });
+      expect(first.lastRunAt).toBe("never");
+      expect(first.lastRunSummary).toBe("");
+    });
+  });
+
+  describe("renderSchedulePrompt", () => {
+    it("replaces known variables, tolerating whitespace", () => {
+      expect(
+        renderSchedulePrompt(
+          "{{ agentName }} for {{workspaceName}} on {{date}}. Since {{lastRunAt}}: {{lastRunSummary}}",
+          variables
+        )
+      ).toBe(
+        "Digest bot for Acme on 2026-02-01. Since 2026-01-30T23:30:05.000Z: Three new tickets"
+      );
+    });
+
+    it("leaves unknown placeholders untouched", () => {
+      expect(renderSchedulePrompt("Hi {{customer}} - {{scheduleName}}", variables)).toBe(
+        "Hi {{customer}} - Daily digest"
+      );
+    });
+  });
+
+  describe("summarizeRunOutput", () => {
+    it("returns undefined for empty output", () => {
+      expect(summarizeRunOutput("   ")).toBeUndefined();
+    });
+
+    it("truncates long output", () => {
+      const summary = summarizeRunOutput("x".repeat(5000));
+      expect(summary).toHaveLength(LAST_RUN_SUMMARY_MAX_LENGTH);
+      expect(summary?.endsWith("…")).toBe(true);
+    });
+  });
+});
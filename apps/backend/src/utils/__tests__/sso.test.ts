@@ -0,0 +1,450 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const {
+  mockDatabase,
+  mockSsoQuery,
+  mockSsoUpdate,
+  mockWorkspaceGet,
+  mockResolveTxt,
+  mockJwtVerify,
+  mockCreateRemoteJWKSet,
+  mockGetUserByEmail,
+  mockIsSubscriptionManager,
+  mockCheckUserLimit,
+  mockCreateUserFromInvite,
+  mockGetUserAuthorizationLevelForResource,
+  mockGiveAuthorization,
+  mockAssertPublicHost,
+} = vi.hoisted(() => ({
+  mockDatabase: vi.fn(),
+  mockSsoQuery: vi.fn(),
+  mockSsoUpdate: vi.fn(),
+  mockWorkspaceGet: vi.fn(),
+  mockResolveTxt: vi.fn(),
+  mockJwtVerify: vi.fn(),
+  mockCreateRemoteJWKSet: vi.fn(),
+  mockGetUserByEmail: vi.fn(),
+  mockIsSubscriptionManager: vi.fn(),
+  mockCheckUserLimit: vi.fn(),
+  mockCreateUserFromInvite: vi.fn(),
+  mockGetUserAuthorizationLevelForResource: vi.fn(),
+  mockGiveAuthorization: vi.fn(),
+  mockAssertPublicHost: vi.fn(),
+}));
+
+vi.mock("../../tables", () => ({
+  database: mockDatabase,
+}));
+
+vi.mock("../../tables/permissions", () => ({
+  getUserAuthorizationLevelForResource:
+    mockGetUserAuthorizationLevelForResource,
+  giveAuthorization: mockGiveAuthorization,
+}));
+
+vi.mock("dns/promises", () => ({
+  resolveTxt: mockResolveTxt,
+}));
+
+vi.mock("jose", () => ({
+  jwtVerify: mockJwtVerify,
+  createRemoteJWKSet: mockCreateRemoteJWKSet,
+}));
+
+vi.mock("../subscriptionUtils", () => ({
+  checkUserLimit: mockCheckUserLimit,
+  getUserByEmail: mockGetUserByEmail,
+  isSubscriptionManager: mockIsSubscriptionManager,
+}));
+
+vi.mock("../workspaceInvites", () => ({
+  createUserFromInvite: mockCreateUserFromInvite,
+}));
+
+vi.mock("../oauth/common", () => ({
+  getOAuthRedirectBaseUrl: () => "https://api.helpmaton.test",
+}));
+
+vi.mock("../publicAddress", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../publicAddress")>()),
+  assertPublicHost: mockAssertPublicHost,
+}));
+
+import type { SsoConfigRecord } from "../../tables/schema";
+import { NonPublicAddressError } from "../publicAddress";
+import {
+  completeOidcLogin,
+  discoverOidcProvider,
+  getEmailDomain,
+  isSsoRequiredForEmail,
+  normalizeSsoDomain,
+  provisionSsoUser,
+  resolveSsoReturnUrl,
+  verifySsoDomain,
+  type OidcProviderMetadata,
+} from "../sso";
+
+const ssoConfig = (overrides: Partial<SsoConfigRecord> = {}) =>
+  ({
+    pk: "sso-configs/sub-1",
+    sk: "config",
+    subscriptionId: "sub-1",
+    protocol: "oidc",
+    domain: "acme.com",
+    domainVerificationToken: "token-123",
+    domainVerifiedAt: "2026-10-01T00:00:00.000Z",
+    issuer: "https://login.acme.com",
+    clientId: "client-1",
+    clientSecret: "secret-1",
+    provisionWorkspaceIds: [],
+    defaultPermissionLevel: 1,
+    enforceSso: false,
+    enabled: true,
+    version: 1,
+    createdAt: "2026-10-01T00:00:00.000Z",
+    createdBy: "users/manager-1",
+    ...overrides,
+  }) as SsoConfigRecord;
+
+const metadata: OidcProviderMetadata = {
+  issuer: "https://login.acme.com",
+  authorization_endpoint: "https://login.acme.com/authorize",
+  token_endpoint: "https://login.acme.com/token",
+  jwks_uri: "https://login.acme.com/jwks",
+};
+
+describe("sso", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDatabase.mockResolvedValue({
+      "sso-config": { query: mockSsoQuery, update: mockSsoUpdate },
+      workspace: { get: mockWorkspaceGet },
+    });
+    mockSsoQuery.mockResolvedValue({ items: [] });
+    mockSsoUpdate.mockImplementation(async (item) => ({
+      ...ssoConfig(),
+      ...item,
+    }));
+    mockAssertPublicHost.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  describe("domains", () => {
+    it("normalizes domains and rejects invalid ones", () => {
+      expect(normalizeSsoDomain(" @Acme.COM ")).toBe("acme.com");
+      expect(() => normalizeSsoDomain("not a domain")).toThrow(
+        "Invalid domain"
+      );
+    });
+
+    it("extracts the email domain", () => {
+      expect(getEmailDomain("Jane@Acme.com")).toBe("acme.com");
+      expect(getEmailDomain("invalid")).toBeUndefined();
+    });
+  });
+
+  describe("isSsoRequiredForEmail", () => {
+    it("requires SSO for members of an enforced, verified domain", async () => {
+      mockSsoQuery.mockResolvedValue({
+        items: [ssoConfig({ enforceSso: true })],
+      });
+      mockGetUserByEmail.mockResolvedValue({
+        userId: "user-1",
+        email: "jane@acme.com",
+      });
+      mockIsSubscriptionManager.mockResolvedValue(false);
+
+      await expect(isSsoRequiredForEmail("jane@acme.com")).resolves.toBe(true);
+      expect(mockSsoQuery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          IndexName: "byDomain",
+          ExpressionAttributeValues: { ":domain": "acme.com" },
+        })
+      );
+    });
+
+    it("exempts managers of the configuring subscription", async () => {
+      mockSsoQuery.mockResolvedValue({
+        items: [ssoConfig({ enforceSso: true })],
+      });
+      mockGetUserByEmail.mockResolvedValue({
+        userId: "manager-1",
+        email: "admin@acme.com",
+      });
+      mockIsSubscriptionManager.mockResolvedValue(true);
+
+      await expect(isSsoRequiredForEmail("admin@acme.com")).resolves.toBe(
+        false
+      );
+      expect(mockIsSubscriptionManager).toHaveBeenCalledWith(
+        "manager-1",
+        "sub-1"
+      );
+    });
+
+    it("ignores configurations whose domain is not verified", async () => {
+      mockSsoQuery.mockResolvedValue({
+        items: [ssoConfig({ enforceSso: true, domainVerifiedAt: undefined })],
+      });
+
+      await expect(isSsoRequiredForEmail("jane@acme.com")).resolves.toBe(
+        false
+      );
+    });
+  });
+
+  describe("verifySsoDomain", () => {
+    it("marks the domain verified when the TXT record exists", async () => {
+      mockResolveTxt.mockResolvedValue([
+        ["v=spf1 -all"],
+        ["helpmaton-verification=", "token-123"],
+      ]);
+
+      await verifySsoDomain(ssoConfig({ domainVerifiedAt: undefined }));
+
+      expect(mockResolveTxt).toHaveBeenCalledWith("acme.com");
+      expect(mockSsoUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          pk: "sso-configs/sub-1",
+          sk: "config",
+          domainVerifiedAt: expect.any(String),
+        })
+      );
+    });
+
+    it("fails when the TXT record is missing", async () => {
+      mockResolveTxt.mockRejectedValue(new Error("ENODATA"));
+
+      await expect(
+        verifySsoDomain(ssoConfig({ domainVerifiedAt: undefined }))
+      ).rejects.toThrow('TXT record "helpmaton-verification=token-123"');
+      expect(mockSsoUpdate).not.toHaveBeenCalled();
+    });
+
+    it("fails when another subscription verified the domain", async () => {
+      mockResolveTxt.mockResolvedValue([["helpmaton-verification=token-123"]]);
+      mockSsoQuery.mockResolvedValue({
+        items: [
+          ssoConfig({ domainVerifiedAt: undefined }),
+          ssoConfig({ pk: "sso-configs/sub-2", subscriptionId: "sub-2" }),
+        ],
+      });
+
+      await expect(
+        verifySsoDomain(ssoConfig({ domainVerifiedAt: undefined }))
+      ).rejects.toThrow("already verified by another subscription");
+    });
+  });
+
+  describe("discoverOidcProvider", () => {
+    it("fetches the discovery document without following redirects", async () => {
+      const mockFetch = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify(metadata), { status: 200 })
+      );
+      vi.stubGlobal("fetch", mockFetch);
+
+      await expect(
+        discoverOidcProvider("https://login.acme.com/")
+      ).resolves.toEqual(metadata);
+      expect(mockAssertPublicHost).toHaveBeenCalledWith("login.acme.com");
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe(
+        "https://login.acme.com/.well-known/openid-configuration"
+      );
+      expect(init.redirect).toBe("manual");
+    });
+
+    it("refuses issuers on non-public hosts", async () => {
+      const mockFetch = vi.fn();
+      vi.stubGlobal("fetch", mockFetch);
+      mockAssertPublicHost.mockRejectedValue(
+        new NonPublicAddressError("login.acme.com resolves to a non-public address")
+      );
+
+      await expect(
+        discoverOidcProvider("https://login.acme.com")
+      ).rejects.toThrow("must point to a public host");
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("completeOidcLogin", () => {
+    const mockTokenResponse = (body: unknown, status = 200) => {
+      const mockFetch = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify(body), {
+          status,
+          headers: { "Content-Type": "application/json" },
+        })
+      );
+      vi.stubGlobal("fetch", mockFetch);
+      return mockFetch;
+    };
+
+    it("exchanges the code and returns the verified email", async () => {
+      const mockFetch = mockTokenResponse({ id_token: "id.token.jwt" });
+      mockJwtVerify.mockResolvedValue({
+        payload: {
+          email: "Jane@acme.com",
+          email_verified: true,
+          nonce: "nonce-1",
+        },
+      });
+
+      const result = await completeOidcLogin(metadata, ssoConfig(), {
+        code: "code-1",
+        codeVerifier: "verifier-1",
+        nonce: "nonce-1",
+      });
+
+      expect(result).toEqual({ email: "jane@acme.com" });
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe("https://login.acme.com/token");
+      expect(init.redirect).toBe("manual");
+      const body = new URLSearchParams(init.body);
+      expect(body.get("code")).toBe("code-1");
+      expect(body.get("code_verifier")).toBe("verifier-1");
+      expect(body.get("redirect_uri")).toBe(
+        "https://api.helpmaton.test/api/user/sso/callback"
+      );
+      expect(init.headers.Authorization).toBe(
+        `Basic ${Buffer.from("client-1:secret-1").toString("base64")}`
+      );
+      expect(mockJwtVerify).toHaveBeenCalledWith("id.token.jwt", undefined, {
+        issuer: "https://login.acme.com",
+        audience: "client-1",
+      });
+    });
+
+    it("rejects ID tokens with a different nonce", async () => {
+      mockTokenResponse({ id_token: "id.token.jwt" });
+      mockJwtVerify.mockResolvedValue({
+        payload: { email: "jane@acme.com", nonce: "other" },
+      });
+
+      await expect(
+        completeOidcLogin(metadata, ssoConfig(), {
+          code: "code-1",
+          codeVerifier: "verifier-1",
+          nonce: "nonce-1",
+        })
+      ).rejects.toThrow("nonce mismatch");
+    });
+
+    it("rejects emails outside the configured domain", async () => {
+      mockTokenResponse({ id_token: "id.token.jwt" });
+      mockJwtVerify.mockResolvedValue({
+        payload: { email: "jane@gmail.com", nonce: "nonce-1" },
+      });
+
+      await expect(
+        completeOidcLogin(metadata, ssoConfig(), {
+          code: "code-1",
+          codeVerifier: "verifier-1",
+          nonce: "nonce-1",
+        })
+      ).rejects.toThrow("Only acme.com accounts can sign in here");
+    });
+
+    it("reports token endpoint errors", async () => {
+      mockTokenResponse(
+        { error: "invalid_grant", error_description: "Code expired" },
+        400
+      );
+
+      await expect(
+        completeOidcLogin(metadata, ssoConfig(), {
+          code: "code-1",
+          codeVerifier: "verifier-1",
+          nonce: "nonce-1",
+        })
+      ).rejects.toThrow("Code expired");
+      expect(mockJwtVerify).not.toHaveBeenCalled();
+    });
+
+    it("refuses key sets on non-public hosts", async () => {
+      mockTokenResponse({ id_token: "id.token.jwt" });
+      mockAssertPublicHost.mockImplementation(async (hostname: string) => {
+        if (hostname === "169.254.169.254") {
+          throw new NonPublicAddressError(`${hostname} is not a public address`);
+        }
+      });
+
+      await expect(
+        completeOidcLogin(
+          { ...metadata, jwks_uri: "http://169.254.169.254/keys" },
+          ssoConfig(),
+          { code: "code-1", codeVerifier: "verifier-1", nonce: "nonce-1" }
+        )
+      ).rejects.toThrow("must point to a public host");
+      expect(mockJwtVerify).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("provisionSsoUser", () => {
+    it("grants the default permission on provisioning workspaces without access", async () => {
+      mockCreateUserFromInvite.mockResolvedValue("user-1");
+      mockWorkspaceGet.mockImplementation(async (pk: string) =>
+        pk === "workspaces/ws-other"
+          ? { pk, subscriptionId: "sub-2" }
+          : { pk, subscriptionId: "sub-1" }
+      );
+      mockGetUserAuthorizationLevelForResource.mockImplementation(
+        async (resource: string) => (resource === "workspaces/ws-2" ? 3 : null)
+      );
+      mockCheckUserLimit.mockResolvedValue(undefined);
+
+      const userId = await provisionSsoUser(
+        ssoConfig({
+          provisionWorkspaceIds: ["ws-1", "ws-2", "ws-other"],
+          defaultPermissionLevel: 2,
+        }),
+        "jane@acme.com"
+      );
+
+      expect(userId).toBe("user-1");
+      expect(mockCreateUserFromInvite).toHaveBeenCalledWith("jane@acme.com");
+      expect(mockGiveAuthorization).toHaveBeenCalledTimes(1);
+      expect(mockGiveAuthorization).toHaveBeenCalledWith(
+        "workspaces/ws-1",
+        "users/user-1",
+        2,
+        "users/manager-1"
+      );
+    });
+
+    it("stops provisioning when the subscription user limit is reached", async () => {
+      mockCreateUserFromInvite.mockResolvedValue("user-1");
+      mockWorkspaceGet.mockResolvedValue({ subscriptionId: "sub-1" });
+      mockGetUserAuthorizationLevelForResource.mockResolvedValue(null);
+      mockCheckUserLimit.mockRejectedValue(new Error("User limit exceeded"));
+
+      await expect(
+        provisionSsoUser(
+          ssoConfig({ provisionWorkspaceIds: ["ws-1"] }),
+          "jane@acme.com"
+        )
+      ).resolves.toBe("user-1");
+      expect(mockGiveAuthorization).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("resolveSsoReturnUrl", () => {
+    it("only returns URLs on the frontend origin", () => {
+      vi.stubEnv("FRONTEND_URL", "https://app.helpmaton.test");
+
+      expect(resolveSsoReturnUrl("/workspaces/ws-1")).toBe(
+        "https://app.helpmaton.test/workspaces/ws-1"
+      );
+      expect(resolveSsoReturnUrl("https://evil.test/phish")).toBe(
+        "https://app.helpmaton.test/"
+      );
+      expect(resolveSsoReturnUrl(undefined)).toBe(
+        "https://app.helpmaton.test/"
+      );
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  STRUCTURED_OUTPUT_INVALID,
+  buildStructuredOutputSpec,
+  createStructuredOutputError,
+  isStructuredOutputError,
+  parseOutputSchema,
+  validateStructuredOutput,
+} from "../structuredOutput";
+
+const schema = {
+  type: "object",
+  properties: {
+    category: { type: "string", enum: ["billing", "technical"] },
+    priority: { type: "integer", minimum: 1, maximum: 3 },
+  },
+  required: ["category", "priority"],
+  additionalProperties: false,
+};
+
+describe("parseOutputSchema", () => {
+  it("accepts object schemas", () => {
+    expect(parseOutputSchema(schema)).toBe(schema);
+  });
+
+  it("rejects non-object values and non-object roots", () => {
+    expect(() => parseOutputSchema("schema")).toThrow(
+      "outputSchema must be a JSON Schema object"
+    );
+    expect(() => parseOutputSchema({ type: "string" })).toThrow(
+      'outputSchema must have "type": "object" at the root'
+    );
+  });
+
+  it("rejects schemas the validator cannot handle", () => {
+    expect(() =>
+      parseOutputSchema({
+        type: "object",
+        properties: { value: { type: "nonsense" } },
+      })
+    ).toThrow("outputSchema is not a supported JSON Schema");
+  });
+
+  it("rejects oversized schemas", () => {
+    expect(() =>
+      parseOutputSchema({ type: "object", description: "x".repeat(20_000) })
+    ).toThrow("outputSchema must be at most");
+  });
+});
+
+describe("validateStructuredOutput", () => {
+  it("returns the parsed object when it matches", () => {
+    expect(
+      validateStructuredOutput(schema, '{"category":"billing","priority":2}')
+    ).toEqual({
+      success: true,
+      data: { category: "billing", priority: 2 },
+    });
+  });
+
+  it("accepts JSON wrapped in a code fence", () => {
+    expect(
+      validateStructuredOutput(
+        schema,
+        '```json\n{"category":"technical","priority":1}\n```'
+      )
+    ).toMatchObject({ success: true });
+  });
+
+  it("reports invalid JSON", () => {
+    expect(validateStructuredOutput(schema, "Sure! Here it is")).toEqual({
+      success: false,
+      error: "Response is not valid JSON",
+    });
+  });
+
+  it("reports schema mismatches with their path", () => {
+    const result = validateStructuredOutput(
+      schema,
+      '{"category":"sales","priority":2}'
+    );
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toContain("category");
+  });
+});
+
+describe("buildStructuredOutputSpec", () => {
+  it("requests a JSON response format and leaves parsing to validation", async () => {
+    const spec = buildStructuredOutputSpec(schema);
+
+    await expect(spec.responseFormat).resolves.toMatchObject({
+      type: "json",
+      schema,
+    });
+    await expect(
+      spec.parseCompleteOutput(
+        { text: "not json" },
+        {} as Parameters<typeof spec.parseCompleteOutput>[1]
+      )
+    ).resolves.toBe("not json");
+  });
+});
+
+describe("createStructuredOutputError", () => {
+  it("creates a 422 error with a stable code", () => {
+    const error = createStructuredOutputError("✖ Required");
+
+    expect(isStructuredOutputError(error)).toBe(true);
+    expect(error).toMatchObject({
+      code: STRUCTURED_OUTPUT_INVALID,
+      output: { statusCode: 422 },
+    });
+    expect(isStructuredOutputError(new Error("other"))).toBe(false);
+  });
+});
@@ -1,14 +1,16 @@
-import { unauthorized } from "@hapi/boom";
+import { conflict, unauthorized } from "@hapi/boom";
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 
 import {
   generateAccessToken,
   generatePasskeyLoginToken,
   generateRefreshToken,
+  generateSsoLoginToken,
   hashRefreshToken,
   validateRefreshToken,
   verifyAccessToken,
   verifyPasskeyLoginToken,
+  verifySsoLoginToken,
 } from "../tokenUtils";
 
 // Mock jose using vi.hoisted
@@ -27,6 +29,7 @@ vi.mock("jose", () => {
   return {
     SignJWT: class {
       setProtectedHeader = vi.fn().mockReturnThis();
+      setJti = vi.fn().mockReturnThis();
       setIssuedAt = vi.fn().mockReturnThis();
       setExpirationTime = vi.fn().mockReturnThis();
       setIssuer = vi.fn().mockReturnThis();
@@ -37,6 +40,16 @@ vi.mock("jose", () => {
   };
 });
 
+const { mockNextAuthCreate } = vi.hoisted(() => ({
+  mockNextAuthCreate: vi.fn(),
+}));
+
+vi.mock("../../tables", () => ({
+  database: vi.fn().mockResolvedValue({
+    "next-auth": { create: mockNextAuthCreate },
+  }),
+}));
+
 // Mock crypto - use vi.hoisted to ensure it's available
 const { mockRandomBytes } = vi.hoisted(() => {
   return {
@@ -217,4 +230,77 @@ describe("tokenUtils", () => {
       );
     });
   });
+
+  describe("generateSsoLoginToken", () => {
+    it("should generate a JWT with correct claims", async () => {
+      const mockToken = "sso.jwt.token";
+      mockSignJWT.mockResolvedValue(mockToken);
+
+      const token = await generateSsoLoginToken("user-456", "sub-1");
+
+      expect(token).toBe(mockToken);
+      expect(mockSignJWT).toHaveBeenCalled();
+    });
+  });
+
+  describe("verifySsoLoginToken", () => {
+    const ssoPayload = {
+      userId: "user-789",
+      subscriptionId: "sub-1",
+      purpose: "sso-login",
+      jti: "token-id",
+      exp: 1_700_000_300,
+    };
+
+    it("should verify and return userId and subscriptionId for valid SSO token", async () => {
+      mockJwtVerify.mockResolvedValue({ payload: ssoPayload });
+
+      const result = await verifySsoLoginToken("valid.sso.jwt");
+
+      expect(result).toEqual({ userId: "user-789", subscriptionId: "sub-1" });
+      expect(mockNextAuthCreate).toHaveBeenCalledWith({
+        pk: "sso-login-tokens/token-id",
+        sk: "consumed",
+        expires: 1_700_000_300,
+      });
+    });
+
+    it("should reject a token that was already used", async () => {
+      mockJwtVerify.mockResolvedValue({ payload: ssoPayload });
+      mockNextAuthCreate.mockRejectedValueOnce(conflict("Item already exists"));
+
+      await expect(verifySsoLoginToken("valid.sso.jwt")).rejects.toThrow(
+        unauthorized("SSO login token already used")
+      );
+    });
+
+    it("should reject tokens without a jti", async () => {
+      mockJwtVerify.mockResolvedValue({
+        payload: { ...ssoPayload, jti: undefined },
+      });
+
+      await expect(verifySsoLoginToken("token")).rejects.toThrow(
+        unauthorized("Invalid SSO login token")
+      );
+      expect(mockNextAuthCreate).not.toHaveBeenCalled();
+    });
+
+    it("should reject passkey login tokens", async () => {
+      mockJwtVerify.mockResolvedValue({
+        payload: { userId: "user-1", purpose: "passkey-login" },
+      });
+
+      await expect(verifySsoLoginToken("token")).rejects.toThrow(
+        unauthorized("Invalid SSO login token")
+      );
+    });
+
+    it("should throw unauthorized for invalid or expired token", async () => {
+      mockJwtVerify.mockRejectedValue(new Error("Token expired"));
+
+      await expect(verifySsoLoginToken("bad.token")).rejects.toThrow(
+        unauthorized("Invalid or expired SSO login token")
+      );
+    });
+  });
 });
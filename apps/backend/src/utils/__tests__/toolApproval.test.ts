@@ -0,0 +1,172 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { DatabaseSchema, ToolApprovalRecord } from "../../tables/schema";
+import {
+  buildSkippedToolApprovalResult,
+  buildToolApprovalRequestMessage,
+  claimToolApprovalResume,
+  createToolApproval,
+  decideToolApproval,
+  hasToolApprovalRequirements,
+  TOOL_APPROVAL_DEFAULT_TIMEOUT_MINUTES,
+} from "../toolApproval";
+
+const { mockCreate, mockAtomicUpdate } = vi.hoisted(() => ({
+  mockCreate: vi.fn(),
+  mockAtomicUpdate: vi.fn(),
+}));
+
+vi.mock("@architect/functions", () => ({
+  queues: { publish: vi.fn() },
+}));
+
+vi.mock("../notifications", () => ({
+  sendNotification: vi.fn(),
+}));
+
+const db = {
+  "tool-approval": {
+    create: mockCreate,
+    atomicUpdate: mockAtomicUpdate,
+  },
+} as unknown as DatabaseSchema;
+
+const approval = {
+  pk: "tool-approvals/ws-1/agent-1/approval-1",
+  sk: "approval",
+  workspaceId: "ws-1",
+  agentId: "agent-1",
+  approvalId: "approval-1",
+  toolCallId: "call-1",
+  toolName: "send_email",
+  args: { to: "a@example.com" },
+  status: "pending",
+  expiresAt: "2026-10-20T12:00:00.000Z",
+  expires: 1_800_000_000,
+  version: 1,
+  createdAt: "2026-10-19T12:00:00.000Z",
+} as ToolApprovalRecord;
+
+/** Runs the updater passed to atomicUpdate against the given current record */
+const runUpdater = (current: Partial<ToolApprovalRecord> | undefined) =>
+  mockAtomicUpdate.mockImplementation(async (_pk, _sk, updater) => ({
+    ...current,
+    ...(await updater(current)),
+  }));
+
+describe("toolApproval", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreate.mockImplementation(async (record) => record);
+  });
+
+  it("detects whether a policy requires approval for any tool", () => {
+    expect(hasToolApprovalRequirements(undefined)).toBe(false);
+    expect(
+      hasToolApprovalRequirements({ mcpServerToolNames: { "server-1": [] } })
+    ).toBe(false);
+    expect(
+      hasToolApprovalRequirements({
+        mcpServerToolNames: { "server-1": ["create_refund"] },
+      })
+    ).toBe(true);
+  });
+
+  it("creates a pending request expiring after the default timeout", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-19T12:00:00.000Z"));
+    try {
+      const created = await createToolApproval(db, {
+        workspaceId: "ws-1",
+        agentId: "agent-1",
+        toolCallId: "call-1",
+        toolName: "send_email",
+        args: { to: "a@example.com" },
+        policy: { toolNames: ["send_email"] },
+      });
+
+      expect(created).toMatchObject({
+        status: "pending",
+              expiresAt: new Date(
+          Date.parse("2026-10-19T12:00:00.000Z") +
+            TOOL_APPROVAL_DEFAULT_TIMEOUT_MINUTES * 60 * 1000
+        ).toISOString(),
+      });
+      expect(created.pk).toBe(
+        `tool-approvals/ws-1/agent-1/${created.approvalId}`
+      );
+      expect(created).not.toHaveProperty("notificationChannelId");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("decides a pending request with edited arguments", async () => {
+    runUpdater(approval);
+
+    const decided = await decideToolApproval(db, {
+      workspaceId: "ws-1",
+      agentId: "agent-1",
+      approvalId: "approval-1",
+      status: "approved",
+      decidedBy: "users/user-1",
+      approvedArgs: { to: "b@example.com" },
+    });
+
+    expect(decided).toMatchObject({
+      status: "approved",
+      decidedBy: "users/user-1",
+      approvedArgs: { to: "b@example.com" },
+    });
+  });
+
+  it("refuses to decide a request twice", async () => {
+    runUpdater({ ...approval, status: "rejected" });
+
+    await expect(
+      decideToolApproval(db, {
+        workspaceId: "ws-1",
+        agentId: "agent-1",
+        approvalId: "approval-1",
+        status: "approved",
+        decidedBy: "users/user-1",
+      })
+    ).rejects.toMatchObject({ output: { statusCode: 409 } });
+  });
+
+  it("claims a decided request for resuming only once", async () => {
+    runUpdater({ ...approval, status: "approved" });
+    expect(await claimToolApprovalResume(db, approval)).toMatchObject({
+      resumedAt: expect.any(String),
+    });
+
+    runUpdater({
+      ...approval,
+      status: "approved",
+      resumedAt: "2026-10-19T12:05:00.000Z",
+    });
+    expect(await claimToolApprovalResume(db, approval)).toBeUndefined();
+
+    runUpdater(approval);
+    expect(await claimToolApprovalResume(db, approval)).toBeUndefined();
+  });
+
+  it("describes the request and its outcome", () => {
+    const message = buildToolApprovalRequestMessage(approval, "Support");
+    expect(message).toContain('agent "Support" wants to call `send_email`');
+    expect(message).toContain('"to": "a@example.com"');
+    expect(message).toContain("/workspaces/ws-1/agents/agent-1");
+    expect(message).toContain("the tool is not run");
+
+    expect(
+      buildSkippedToolApprovalResult({
+        ...approval,
+        status: "rejected",
+        reason: "Wrong customer",
+      })
+    ).toContain("rejected it. Reason: Wrong customer");
+    expect(
+      buildSkippedToolApprovalResult({ ...approval, status: "expired" })
+    ).toContain("expired without a decision");
+  });
+});
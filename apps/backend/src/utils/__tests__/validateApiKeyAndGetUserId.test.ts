@@ -15,6 +15,7 @@ vi.mock("../../tables/database", () => ({
 // Import after mocks are set up
 import type { DatabaseSchema, UserApiKeyRecord } from "../../tables/schema";
 import {
+  authenticateUserApiKey,
   generateApiKey,
   hashApiKey,
   validateApiKeyAndGetUserId,
@@ -23,7 +24,7 @@ import {
 describe("validateApiKeyAndGetUserId", () => {
   let mockDb: DatabaseSchema;
   let mockQuery: ReturnType<typeof vi.fn>;
-  let mockUpdate: ReturnType<typeof vi.fn>;
+  let mockAtomicUpdate: ReturnType<typeof vi.fn>;
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -32,14 +33,14 @@ describe("validateApiKeyAndGetUserId", () => {
     // Setup mock query
     mockQuery = vi.fn().mockResolvedValue({ items: [] });
 
-    // Setup mock update
-    mockUpdate = vi.fn().mockResolvedValue({});
+    // Setup mock atomic update (usage recording)
+    mockAtomicUpdate = vi.fn().mockResolvedValue({});
 
     // Setup mock database
     mockDb = {
       "user-api-key": {
         query: mockQuery,
-        update: mockUpdate,
+        atomicUpdate: mockAtomicUpdate,
       },
     } as unknown as DatabaseSchema;
 
@@ -77,7 +78,7 @@ describe("validateApiKeyAndGetUserId", () => {
     });
   });
 
-  it("should update lastUsedAt timestamp when key is validated", async () => {
+  it("should update lastUsedAt and requestCount when key is validated", async () => {
     const apiKey = generateApiKey();
     const { hash, salt, lookupHash } = await hashApiKey(apiKey);
     const userId = "user-123";
@@ -90,6 +91,7 @@ describe("validateApiKeyAndGetUserId", () => {
       keySalt: salt,
       keyLookupHash: lookupHash,
       keyPrefix: apiKey.substring(0, 12),
+      requestCount: 4,
       version: 1,
       createdAt: new Date().toISOString(),
     };
@@ -98,28 +100,28 @@ describe("validateApiKeyAndGetUserId", () => {
 
     const beforeTime = new Date().toISOString();
     await validateApiKeyAndGetUserId(apiKey);
-    const afterTime = new Date().toISOString();
 
-    expect(mockUpdate).toHaveBeenCalledWith(
+    expect(mockAtomicUpdate).toHaveBeenCalledWith(
+      keyRecord.pk,
+      keyRecord.sk,
+      expect.any(Function)
+    );
+
+    const updater = mockAtomicUpdate.mock.calls[0][2];
+    const updated = await updater(keyRecord);
+    const afterTime = new Date().toISOString();
+    expect(updated).toEqual(
       expect.objectContaining({
         pk: keyRecord.pk,
         sk: keyRecord.sk,
         userId: keyRecord.userId,
         keyHash: keyRecord.keyHash,
-        keySalt: keyRecord.keySalt,
-        keyLookupHash: keyRecord.keyLookupHash,
-        keyPrefix: keyRecord.keyPrefix,
-        name: keyRecord.name,
-        createdAt: keyRecord.createdAt,
-        version: keyRecord.version,
+        requestCount: 5,
         lastUsedAt: expect.any(String),
       })
     );
-
-    const updateCall = mockUpdate.mock.calls[0][0];
-    const lastUsedAt = updateCall.lastUsedAt;
-    expect(lastUsedAt >= beforeTime).toBe(true);
-    expect(lastUsedAt <= afterTime).toBe(true);
+    expect(updated.lastUsedAt >= beforeTime).toBe(true);
+    expect(updated.lastUsedAt <= afterTime).toBe(true);
   });
 
   it("should return null when key lookup hash finds no records", async () => {
@@ -138,7 +140,7 @@ describe("validateApiKeyAndGetUserId", () => {
         ":lookupHash": lookupHash,
       },
     });
-    expect(mockUpdate).not.toHaveBeenCalled();
+    expect(mockAtomicUpdate).not.toHaveBeenCalled();
   });
 
   it("should return null when key doesn't match any record's hash", async () => {
@@ -168,7 +170,7 @@ describe("validateApiKeyAndGetUserId", () => {
     const result = await validateApiKeyAndGetUserId(apiKey);
 
     expect(result).toBeNull();
-    expect(mockUpdate).not.toHaveBeenCalled();
+    expect(mockAtomicUpdate).not.toHaveBeenCalled();
   });
 
   it("should return null when key matches lookup hash but scrypt validation fails", async () => {
@@ -198,7 +200,7 @@ describe("validateApiKeyAndGetUserId", () => {
     const result = await validateApiKeyAndGetUserId(apiKey);
 
     expect(result).toBeNull();
-    expect(mockUpdate).not.toHaveBeenCalled();
+    expect(mockAtomicUpdate).not.toHaveBeenCalled();
   });
 
   it("should handle multiple records with same lookup hash (should validate all)", async () => {
@@ -241,7 +243,7 @@ describe("validateApiKeyAndGetUserId", () => {
 
     // Should find the correct record (second one)
     expect(result).toBe(userId);
-    expect(mockUpdate).toHaveBeenCalledTimes(1); // Only updates the valid one
+    expect(mockAtomicUpdate).toHaveBeenCalledTimes(1); // Only updates the valid one
   });
 
   it("should handle database query errors gracefully (returns null)", async () => {
@@ -252,7 +254,7 @@ describe("validateApiKeyAndGetUserId", () => {
     const result = await validateApiKeyAndGetUserId(apiKey);
 
     expect(result).toBeNull();
-    expect(mockUpdate).not.toHaveBeenCalled();
+    expect(mockAtomicUpdate).not.toHaveBeenCalled();
   });
 
   it("should handle update errors gracefully (returns null if update fails)", async () => {
@@ -273,13 +275,13 @@ describe("validateApiKeyAndGetUserId", () => {
     };
 
     mockQuery.mockResolvedValue({ items: [keyRecord] });
-    mockUpdate.mockRejectedValue(new Error("Update failed"));
+    mockAtomicUpdate.mockRejectedValue(new Error("Update failed"));
 
     // Function catches errors and returns null
     const result = await validateApiKeyAndGetUserId(apiKey);
 
     expect(result).toBeNull();
-    expect(mockUpdate).toHaveBeenCalled();
+    expect(mockAtomicUpdate).toHaveBeenCalled();
   });
 
   it("should validate that GSI query uses correct IndexName and KeyConditionExpression", async () => {
@@ -321,7 +323,7 @@ describe("validateApiKeyAndGetUserId", () => {
     const result = await validateApiKeyAndGetUserId(apiKey);
 
     expect(result).toBeNull();
-    expect(mockUpdate).not.toHaveBeenCalled();
+    expect(mockAtomicUpdate).not.toHaveBeenCalled();
   });
 
   it("should handle record with keyHash but no keySalt", async () => {
@@ -412,11 +414,110 @@ describe("validateApiKeyAndGetUserId", () => {
 
     // Should find the correct record (second one)
     expect(result).toBe(userId);
-    expect(mockUpdate).toHaveBeenCalledTimes(1);
+    expect(mockAtomicUpdate).toHaveBeenCalledTimes(1);
   });
 });
 
+describe("authenticateUserApiKey", () => {
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockAtomicUpdate: ReturnType<typeof vi.fn>;
+
+  const createKeyRecord = async (
+    apiKey: string,
+    overrides: Partial<UserApiKeyRecord> = {}
+  ): Promise<UserApiKeyRecord> => {
+    const { hash, salt, lookupHash } = await hashApiKey(apiKey);
+    return {
+      pk: "user-api-keys/user-123",
+      sk: "key-id-456",
+      userId: "user-123",
+      keyHash: hash,
+      keySalt: salt,
+      keyLookupHash: lookupHash,
+      keyPrefix: apiKey.substring(0, 12),
+      version: 1,
+      createdAt: new Date().toISOString(),
+      ...overrides,
+    };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery = vi.fn().mockResolvedValue({ items: [] });
+    mockAtomicUpdate = vi.fn().mockResolvedValue({});
+    mockDatabase.mockResolvedValue({
+      "user-api-key": {
+        query: mockQuery,
+        atomicUpdate: mockAtomicUpdate,
+      },
+    } as unknown as DatabaseSchema);
+  });
+
+  it("returns the key scope", async () => {
+    const apiKey = generateApiKey();
+    mockQuery.mockResolvedValue({
+      items: [
+        await createKeyRecord(apiKey, {
+          workspaceIds: ["ws-1"],
+          capabilities: ["read", "usage"],
+        }),
+      ],
+    });
+
+    const result = await authenticateUserApiKey(apiKey);
+
+    expect(result).toEqual({
+      userId: "user-123",
+      scope: {
+        keyId: "key-id-456",
+        workspaceIds: ["ws-1"],
+        capabilities: ["read", "usage"],
+      },
+    });
+  });
+
+  it("rejects expired keys", async () => {
+    const apiKey = generateApiKey();
+    mockQuery.mockResolvedValue({
+      items: [
+        await createKeyRecord(apiKey, {
+          expiresAt: new Date(Date.now() - 1000).toISOString(),
+        }),
+      ],
+    });
+
+    const result = await authenticateUserApiKey(apiKey);
+
+    expect(result).toBeNull();
+    expect(mockAtomicUpdate).not.toHaveBeenCalled();
+  });
+
+  it("enforces the IP allowlist", async () => {
+    const apiKey = generateApiKey();
+    mockQuery.mockResolvedValue({
+      items: [
+        await createKeyRecord(apiKey, { allowedIps: ["203.0.113.0/24"] }),
+      ],
+    });
 
+    await expect(
+      authenticateUserApiKey(apiKey, { sourceIp: "198.51.100.7" })
+    ).resolves.toBeNull();
+    await expect(authenticateUserApiKey(apiKey)).resolves.toBeNull();
+    await expect(
+      authenticateUserApiKey(apiKey, { sourceIp: "203.0.113.42" })
+    ).resolves.toEqual(expect.objectContaining({ userId: "user-123" }));
+  });
 
+  it("does not record usage when recordUsage is false", async () => {
+    const apiKey = generateApiKey();
+    mockQuery.mockResolvedValue({ items: [await createKeyRecord(apiKey)] });
 
+    const result = await authenticateUserApiKey(apiKey, {
+      recordUsage: false,
+    });
 
+    expect(result?.userId).toBe("user-123");
+    expect(mockAtomicUpdate).not.toHaveBeenCalled();
+  });
+});
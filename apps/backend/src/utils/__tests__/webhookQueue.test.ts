@@ -41,6 +41,41 @@ describe("webhookQueue", () => {
     });
   });
 
+  it("includes the callback target when one is provided", async () => {
+    const { queues } = await import("@architect/functions");
+    const mockPublish = vi.mocked(queues.publish);
+    mockPublish.mockResolvedValue(undefined);
+
+    await enqueueWebhookTask(
+      "workspace-123",
+      "agent-456",
+      "hello from webhook",
+      "conversation-789",
+      undefined,
+      {
+        callback: {
+          url: "https://example.com/hooks/helpmaton",
+          agentKeyId: "key-1",
+        },
+      }
+    );
+
+    const { payload } = mockPublish.mock.calls[0][0] as {
+      payload: unknown;
+    };
+    expect(payload).toEqual({
+      workspaceId: "workspace-123",
+      agentId: "agent-456",
+      bodyText: "hello from webhook",
+      conversationId: "conversation-789",
+      callback: {
+        url: "https://example.com/hooks/helpmaton",
+        agentKeyId: "key-1",
+      },
+    });
+    expect(WebhookQueueMessageSchema.safeParse(payload).success).toBe(true);
+  });
+
   it("rejects payloads with unexpected fields", () => {
     const result = WebhookQueueMessageSchema.safeParse({
       workspaceId: "workspace-123",
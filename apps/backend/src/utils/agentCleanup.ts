@@ -1,11 +1,19 @@
 import type {
+  AgentMemoryPartitionRecord,
   DatabaseSchemaWithAtomicUpdate,
   TableAPI,
 } from "../tables/schema";
 
+import { getAgentConfigVersionPk } from "./agentConfigVersions";
 import { deleteAllRecordsForAgent } from "./conversationRecords";
 import { deleteDiscordCommand } from "./discordApi";
 import { deleteGraphFactsFile } from "./duckdb/graphDb";
+import { deleteEvalRun } from "./evalDataset";
+import {
+  deleteAgentMemoryPartitions,
+  listAgentMemoryPartitions,
+} from "./memory/memoryPartitions";
+import { releaseTelegramWebhook } from "./telegramApi";
 import { removeAgentDatabases } from "./vectordb/agentRemoval";
 
 type CleanupResult = {
@@ -107,6 +115,65 @@ export async function removeAgentResources(
     }
   });
 
+  await safeCleanup("agent-config-versions", async () => {
+    const versionTable = db["agent-config-version"];
+    for await (const version of versionTable.queryAsync({
+      KeyConditionExpression: "pk = :pk",
+      ExpressionAttributeValues: {
+        ":pk": getAgentConfigVersionPk(workspaceId, agentId),
+      },
+    })) {
+      await versionTable.delete(version.pk, version.sk);
+    }
+  });
+
+  await safeCleanup("tool-approvals", async () => {
+    const approvalTable = db["tool-approval"];
+    for await (const approval of approvalTable.queryAsync({
+      IndexName: "byAgentId",
+      KeyConditionExpression: "agentId = :agentId",
+      ExpressionAttributeValues: {
+        ":agentId": agentId,
+      },
+    })) {
+      if (approval.workspaceId !== workspaceId) {
+        continue;
+      }
+      await approvalTable.delete(approval.pk, approval.sk);
+    }
+  });
+
+  await safeCleanup("agent-eval-datasets", async () => {
+    const datasetTable = db["agent-eval-dataset"];
+    for await (const dataset of datasetTable.queryAsync({
+      IndexName: "byAgentId",
+      KeyConditionExpression: "agentId = :agentId",
+      ExpressionAttributeValues: {
+        ":agentId": agentId,
+      },
+    })) {
+      if (dataset.workspaceId !== workspaceId) {
+        continue;
+      }
+      await datasetTable.delete(dataset.pk, dataset.sk);
+    }
+  });
+
+  await safeCleanup("agent-eval-runs", async () => {
+    for await (const run of db["agent-eval-run"].queryAsync({
+      IndexName: "byAgentId",
+      KeyConditionExpression: "agentId = :agentId",
+      ExpressionAttributeValues: {
+        ":agentId": agentId,
+      },
+    })) {
+      if (run.workspaceId !== workspaceId) {
+        continue;
+      }
+      await deleteEvalRun(db, run);
+    }
+  });
+
   await safeCleanup("agent-stream-servers", async () => {
     const streamServerPk = `stream-servers/${workspaceId}/${agentId}`;
     await db["agent-stream-servers"].deleteIfExists(streamServerPk, "config");
@@ -162,16 +229,47 @@ export async function removeAgentResources(
           }
         }
       }
+      if (integration.platform === "telegram") {
+        const config = integration.config as { botToken?: string };
+        if (config.botToken) {
+          try {
+            await releaseTelegramWebhook(
+              config.botToken,
+              integration.webhookUrl,
+            );
+          } catch (error) {
+            console.warn(
+              `[Agent Removal] Failed to delete Telegram webhook for integration ${integration.pk}:`,
+              error instanceof Error ? error.message : String(error),
+            );
+          }
+        }
+      }
       await integrationTable.delete(integration.pk, integration.sk);
     }
   });
 
+  let memoryPartitions: AgentMemoryPartitionRecord[] = [];
+  await safeCleanup("memory-partitions-list", async () => {
+    memoryPartitions = await listAgentMemoryPartitions(db, workspaceId, agentId);
+  });
+
   await safeCleanup("graph-facts", async () => {
     await deleteGraphFactsFile(workspaceId, agentId);
+    for (const partition of memoryPartitions) {
+      await deleteGraphFactsFile(workspaceId, agentId, partition.sk);
+    }
   });
 
   await safeCleanup("vector-databases", async () => {
-    await removeAgentDatabases(agentId);
+    await removeAgentDatabases(
+      agentId,
+      memoryPartitions.map((partition) => partition.sk),
+    );
+  });
+
+  await safeCleanup("memory-partitions", async () => {
+    await deleteAgentMemoryPartitions(db, memoryPartitions);
   });
 
   await db.agent.delete(agentPk, "agent");
@@ -0,0 +1,303 @@
+import { badRequest, resourceGone } from "@hapi/boom";
+
+import type { DatabaseSchema } from "../tables";
+import type { AgentConfigVersionRecord, AgentRecord } from "../tables/schema";
+
+import { Sentry, ensureError } from "./sentry";
+
+/**
+ * Version history of agent configurations. Every configuration change stores a
+ * full snapshot of the configuration, so versions can be compared and restored.
+ */
+
+export type AgentConfigVersionSource = AgentConfigVersionRecord["source"];
+export type AgentConfigSnapshot = Record<string, unknown>;
+
+export type AgentConfigChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+type AgentUpdate = Parameters<DatabaseSchema["agent"]["update"]>[0];
+
+// Record bookkeeping and fields managed outside the agent configuration
+const NON_CONFIG_FIELDS = new Set([
+  "pk",
+  "sk",
+  "workspaceId",
+  "version",
+  "createdAt",
+  "createdBy",
+  "updatedAt",
+  "updatedBy",
+  "noMainVersion",
+  "userVersion",
+  "userVersions",
+  "spendingLimits",
+  "suggestions",
+  "configVersion",
+]);
+
+export const getAgentConfigVersionPk = (workspaceId: string, agentId: string) =>
+  `agent-config-versions/${workspaceId}/${agentId}`;
+
+export const getAgentConfigVersionSk = (configVersion: number) =>
+  String(configVersion).padStart(10, "0");
+
+const getAgentId = (agent: Pick<AgentRecord, "pk" | "workspaceId">) =>
+  agent.pk.replace(`agents/${agent.workspaceId}/`, "");
+
+/**
+ * Parses a configuration version number from a path or query parameter
+ */
+export function parseConfigVersionParam(value: unknown, name: string): number {
+  const configVersion = typeof value === "string" ? Number(value) : NaN;
+  if (!Number.isInteger(configVersion) || configVersion < 1) {
+    throw badRequest(`${name} must be a positive integer`);
+  }
+  return configVersion;
+}
+
+export async function getAgentConfigVersionOrThrow(
+  db: DatabaseSchema,
+  workspaceId: string,
+  agentId: string,
+  configVersion: number
+): Promise<AgentConfigVersionRecord> {
+  const record = await db["agent-config-version"].get(
+    getAgentConfigVersionPk(workspaceId, agentId),
+    getAgentConfigVersionSk(configVersion)
+  );
+  if (!record) {
+    throw resourceGone(`Agent version ${configVersion} not found`);
+  }
+  return record;
+}
+
+/**
+ * Configuration fields of an agent record (unset fields are left out)
+ */
+export function getAgentConfigSnapshot(
+  agent: Partial<AgentRecord>
+): AgentConfigSnapshot {
+  return Object.fromEntries(
+    Object.entries(agent).filter(
+      ([field, value]) =>
+        !NON_CONFIG_FIELDS.has(field) && value !== undefined && value !== null
+    )
+  );
+}
+
+// Object key order differs between stored and freshly built records
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify(
+            (value as Record<string, unknown>)[key]
+          )}`
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * Field-level differences between two configuration snapshots
+ */
+export function diffAgentConfigs(
+  before: AgentConfigSnapshot,
+  after: AgentConfigSnapshot
+): AgentConfigChange[] {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return fields
+    .sort()
+    .filter(
+      (field) => stableStringify(before[field]) !== stableStringify(after[field])
+    )
+    .map((field) => ({
+      field,
+      before: before[field] ?? null,
+      after: after[field] ?? null,
+    }));
+}
+
+async function createAgentConfigVersion(
+  db: DatabaseSchema,
+  agent: AgentRecord,
+  params: {
+    configVersion: number;
+    config: AgentConfigSnapshot;
+    source: AgentConfigVersionSource;
+    changedFields?: string[];
+    createdBy?: string;
+    restoredFromVersion?: number;
+  }
+): Promise<void> {
+  const agentId = getAgentId(agent);
+  await db["agent-config-version"].create({
+    pk: getAgentConfigVersionPk(agent.workspaceId, agentId),
+    sk: getAgentConfigVersionSk(params.configVersion),
+    workspaceId: agent.workspaceId,
+    agentId,
+    configVersion: params.configVersion,
+    config: params.config,
+    changedFields: params.changedFields,
+    source: params.source,
+    restoredFromVersion: params.restoredFromVersion,
+    createdBy: params.createdBy,
+  });
+}
+
+// The agent may be missing when the write that should return it failed
+const reportVersionError = (
+  agent: AgentRecord | undefined,
+  error: unknown
+) => {
+  console.error("[agentConfigVersions] Failed to record agent version:", {
+    agentPk: agent?.pk,
+    configVersion: agent?.configVersion,
+    error: error instanceof Error ? error.message : String(error),
+  });
+  Sentry.captureException(ensureError(error), {
+    tags: {
+      context: "agent-config-versions",
+      operation: "record-version",
+    },
+  });
+};
+
+/**
+ * Records version 1 of a newly created agent (created with configVersion 1).
+ * Failures are reported but never fail the agent creation.
+ */
+export async function recordInitialAgentConfigVersion(
+  db: DatabaseSchema,
+  agent: AgentRecord
+): Promise<void> {
+  try {
+    await createAgentConfigVersion(db, agent, {
+      configVersion: 1,
+      config: getAgentConfigSnapshot(agent),
+      source: "created",
+      createdBy: agent.createdBy,
+    });
+  } catch (error) {
+    reportVersionError(agent, error);
+  }
+}
+
+/**
+ * Updates an agent and records a new configuration version when the update
+ * changes the configuration. For agents without history, the configuration
+ * before the change is recorded as version 1 first so the change can be undone.
+ * The next version number is taken from the stored agent inside a conditional
+ * write that is retried on conflict, so concurrent updates never share a version.
+ */
+export async function updateAgentWithConfigVersion(
+  db: DatabaseSchema,
+  previous: AgentRecord,
+  update: AgentUpdate,
+  options: {
+    source: AgentConfigVersionSource;
+    createdBy?: string;
+    restoredFromVersion?: number;
+  }
+): Promise<AgentRecord> {
+  // Set by the last (successful) attempt of the conditional write
+  let current = previous;
+  let changedFields: string[] = [];
+  const updated = await db.agent.atomicUpdate(
+    previous.pk,
+    previous.sk,
+    async (stored) => {
+      if (!stored) {
+        throw resourceGone(`Agent ${previous.pk} not found`);
+      }
+      current = stored;
+      changedFields = diffAgentConfigs(
+        getAgentConfigSnapshot(stored),
+        getAgentConfigSnapshot({ ...stored, ...update })
+      ).map((change) => change.field);
+      if (changedFields.length === 0) {
+        return { ...update, pk: stored.pk };
+      }
+      return {
+        ...update,
+        pk: stored.pk,
+        configVersion: (stored.configVersion ?? 1) + 1,
+      };
+    }
+  );
+  if (changedFields.length === 0) {
+    return updated;
+  }
+
+  try {
+    if (current.configVersion === undefined) {
+      await createAgentConfigVersion(db, current, {
+        configVersion: 1,
+        config: getAgentConfigSnapshot(current),
+        source: "baseline",
+        createdBy: current.updatedBy || current.createdBy,
+      });
+    }
+    await createAgentConfigVersion(db, updated, {
+      configVersion: updated.configVersion ?? 1,
+      config: getAgentConfigSnapshot(updated),
+      source: options.source,
+      changedFields,
+      createdBy: options.createdBy,
+      restoredFromVersion: options.restoredFromVersion,
+    });
+  } catch (error) {
+    reportVersionError(updated, error);
+  }
+  return updated;
+}
+
+/**
+ * Agent update that replaces the configuration with a stored snapshot:
+ * fields missing from the snapshot are cleared.
+ */
+export function buildAgentConfigRestoreUpdate(
+  agent: AgentRecord,
+  config: AgentConfigSnapshot
+): AgentUpdate {
+  const clearedFields = Object.fromEntries(
+    Object.keys(getAgentConfigSnapshot(agent)).map((field) => [
+      field,
+      undefined,
+    ])
+  );
+  return {
+    ...clearedFields,
+    ...getAgentConfigSnapshot(config as Partial<AgentRecord>),
+    pk: agent.pk,
+    sk: "agent",
+  };
+}
+
+/**
+ * API representation of a configuration version (config only when requested)
+ */
+export function toAgentConfigVersionResponse(
+  record: AgentConfigVersionRecord,
+  options: { includeConfig?: boolean } = {}
+) {
+  return {
+    configVersion: record.configVersion,
+    source: record.source,
+    changedFields: record.changedFields ?? [],
+    restoredFromVersion: record.restoredFromVersion ?? null,
+    createdBy: record.createdBy?.replace("users/", "") ?? null,
+    createdAt: record.createdAt,
+    ...(options.includeConfig && { config: record.config }),
+  };
+}
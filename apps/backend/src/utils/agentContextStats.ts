@@ -1,6 +1,7 @@
 import { getDefaultModel } from "../http/utils/modelFactory";
 
 import { buildSystemPromptWithSkills } from "./agentSkills";
+import { getCompactionThresholdTokens } from "./conversationCompaction";
 import type { CurrencyPricing, ModelCapabilities } from "./pricing";
 import {
   getMaxSafeInputTokens,
@@ -43,6 +44,8 @@ export interface ContextStats {
   /** Estimated tokens for injected knowledge (snippet count × estimate per snippet). 0 when knowledge injection disabled. */
   estimatedKnowledgeTokens: number;
   maxSafeInputTokens: number;
+  /** Estimated input tokens above which older conversation turns are compacted into a summary. */
+  compactionThresholdTokens: number;
   ratio: number;
   modelName: string;
 }
@@ -121,6 +124,10 @@ export async function computeContextStats(
     estimatedSkillsTokens,
     estimatedKnowledgeTokens,
     maxSafeInputTokens,
+    compactionThresholdTokens: getCompactionThresholdTokens(
+      "openrouter",
+      effectiveModelName
+    ),
     ratio,
     modelName: effectiveModelName,
   };
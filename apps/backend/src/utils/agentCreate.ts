@@ -1,6 +1,7 @@
 import type { DatabaseSchema } from "../tables";
 import type { AgentRecord } from "../tables/schema";
 
+import { recordInitialAgentConfigVersion } from "./agentConfigVersions";
 import { idFromRef } from "./refUtils";
 import { trackEvent } from "./tracking";
 
@@ -26,12 +27,14 @@ export type CreateAgentRecordParams = Omit<
  *
  * Expects pk in the form `agents/{workspaceId}/{agentId}` and sk `"agent"`.
  * User attribution uses params.createdBy (users/{id}) when present.
+ * The initial configuration is recorded as configuration version 1.
  */
 export async function createAgentRecord(
   db: DatabaseSchema,
   params: CreateAgentRecordParams,
 ): Promise<AgentRecord> {
-  const record = await db.agent.create(params);
+  const record = await db.agent.create({ ...params, configVersion: 1 });
+  await recordInitialAgentConfigVersion(db, record as AgentRecord);
   const afterPrefix = idFromRef(params.pk, "agents/");
   const parts = afterPrefix.split("/");
   const workspaceId = parts[0];
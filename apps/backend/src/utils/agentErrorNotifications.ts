@@ -14,6 +14,7 @@ import type {
   InsufficientCreditsError,
   SpendingLimitExceededError,
 } from "./creditErrors";
+import { escapeHtml, sanitizeEmailSubject } from "./emailFormatting";
 import { Sentry, ensureError } from "./sentry";
 
 const BASE_URL = process.env.BASE_URL || "https://app.helpmaton.com";
@@ -27,25 +28,6 @@ type NextAuthUserRecord = TableRecord & {
   lastSpendingLimitErrorEmailSentAt?: string;
 };
 
-function escapeHtml(value: string): string {
-  return value
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#39;");
-}
-
-function sanitizeSubjectValue(value?: string): string {
-  const input = value || "";
-  let output = "";
-  for (const char of input) {
-    const code = char.charCodeAt(0);
-    output += code < 32 || code === 127 ? " " : char;
-  }
-  return output.replace(/\s+/g, " ").trim();
-}
-
 function formatAmount(nanoDollars: number, currency: string): string {
   const value = fromNanoDollars(nanoDollars)
     .toFixed(12)
@@ -194,7 +176,7 @@ async function sendCreditErrorEmail(params: {
   const agentSummary = buildAgentSummary(agentId, agent);
   const required = formatAmount(error.required, error.currency);
   const available = formatAmount(error.available, error.currency);
-  const safeWorkspaceName = sanitizeSubjectValue(workspace.name) || "Workspace";
+  const safeWorkspaceName = sanitizeEmailSubject(workspace.name) || "Workspace";
 
   const subject = `Insufficient Credits - ${safeWorkspaceName}`;
   const text = `A request failed due to insufficient credits.
@@ -285,7 +267,7 @@ async function sendSpendingLimitErrorEmail(params: {
   const settingsUrl = buildWorkspaceSettingsUrl(workspaceId);
   const agentSummary = buildAgentSummary(agentId, agent);
   const currency = workspace.currency || "usd";
-  const safeWorkspaceName = sanitizeSubjectValue(workspace.name) || "Workspace";
+  const safeWorkspaceName = sanitizeEmailSubject(workspace.name) || "Workspace";
   const limitsSummary = error.failedLimits
     .map(
       (limit) =>
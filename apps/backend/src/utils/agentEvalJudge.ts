@@ -18,6 +18,8 @@ export type CreateEvalJudgeParams = {
   samplingProbability?: number;
   provider?: "openrouter";
   modelName: string;
+  /** Models tried in order when the judge's model fails with a provider error */
+  fallbackModelNames?: string[];
   evalPrompt: string;
 };
 
@@ -43,6 +45,9 @@ export function buildEvalJudgeRecordForCreate(
     samplingProbability: params.samplingProbability ?? 100,
     provider: (params.provider ?? "openrouter") as "openrouter",
     modelName: params.modelName,
+    ...(params.fallbackModelNames?.length && {
+      fallbackModelNames: params.fallbackModelNames,
+    }),
     evalPrompt: params.evalPrompt,
     version: 1,
     createdAt: now,
@@ -72,6 +77,7 @@ export type UpdateEvalJudgeParams = {
   samplingProbability?: number;
   provider?: "openrouter";
   modelName?: string;
+  fallbackModelNames?: string[];
   evalPrompt?: string;
 };
 
@@ -94,6 +100,9 @@ export function buildEvalJudgeUpdatePayload(
   }
   if (params.provider !== undefined) updateData.provider = params.provider;
   if (params.modelName !== undefined) updateData.modelName = params.modelName;
+  if (params.fallbackModelNames !== undefined) {
+    updateData.fallbackModelNames = params.fallbackModelNames;
+  }
   if (params.evalPrompt !== undefined) updateData.evalPrompt = params.evalPrompt;
   return updateData;
 }
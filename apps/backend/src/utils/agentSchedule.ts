@@ -1,7 +1,11 @@
+import type { AgentScheduleRecord } from "../tables/schema";
+
 import { getNextRunAtEpochSeconds } from "./cron";
 
 export const DUE_PARTITION = "due";
 export const DISABLED_PARTITION = "disabled";
+/** Timezone of schedules created before timezones were configurable */
+export const DEFAULT_SCHEDULE_TIMEZONE = "UTC";
 
 export const buildAgentSchedulePk = (
   workspaceId: string,
@@ -13,7 +17,10 @@ export const buildAgentSchedulePk = (
 export type CreateScheduleParams = {
   name: string;
   cronExpression: string;
+  /** IANA timezone the cron expression is evaluated in (default UTC) */
+  timezone?: string;
   prompt: string;
+  delivery?: AgentScheduleRecord["delivery"];
   enabled?: boolean;
 };
 
@@ -28,8 +35,13 @@ export function buildScheduleRecordForCreate(
   params: CreateScheduleParams
 ): Record<string, unknown> {
   const enabled = params.enabled ?? true;
+  const timezone = params.timezone ?? DEFAULT_SCHEDULE_TIMEZONE;
   const now = new Date();
-  const nextRunAt = getNextRunAtEpochSeconds(params.cronExpression, now);
+  const nextRunAt = getNextRunAtEpochSeconds(
+    params.cronExpression,
+    now,
+    timezone
+  );
   return {
     pk: buildAgentSchedulePk(workspaceId, agentId, scheduleId),
     sk: "schedule",
@@ -38,7 +50,9 @@ export function buildScheduleRecordForCreate(
     scheduleId,
     name: params.name,
     cronExpression: params.cronExpression,
+    timezone,
     prompt: params.prompt,
+    ...(params.delivery && { delivery: params.delivery }),
     enabled,
     duePartition: enabled ? DUE_PARTITION : DISABLED_PARTITION,
     nextRunAt,
@@ -56,6 +70,7 @@ export type ExistingScheduleForUpdate = {
   scheduleId: string;
   name: string;
   cronExpression: string;
+  timezone?: string;
   prompt: string;
   enabled: boolean;
   duePartition: string;
@@ -67,7 +82,10 @@ export type ExistingScheduleForUpdate = {
 export type UpdateScheduleParams = {
   name?: string;
   cronExpression?: string;
+  timezone?: string;
   prompt?: string;
+  /** null removes the delivery target */
+  delivery?: AgentScheduleRecord["delivery"] | null;
   enabled?: boolean;
 };
 
@@ -88,6 +106,12 @@ export function buildScheduleUpdatePayload(
   if (params.cronExpression !== undefined) {
     updateData.cronExpression = params.cronExpression;
   }
+  if (params.timezone !== undefined) {
+    updateData.timezone = params.timezone;
+  }
+  if (params.delivery !== undefined) {
+    updateData.delivery = params.delivery ?? undefined;
+  }
   if (params.enabled !== undefined) {
     updateData.enabled = params.enabled;
     updateData.duePartition = params.enabled
@@ -96,13 +120,15 @@ export function buildScheduleUpdatePayload(
   }
   const shouldRecomputeNextRunAt =
     params.cronExpression !== undefined ||
+    params.timezone !== undefined ||
     (params.enabled === true && !existing.enabled);
   if (shouldRecomputeNextRunAt) {
     const finalCronExpression =
       (params.cronExpression ?? existing.cronExpression) as string;
     updateData.nextRunAt = getNextRunAtEpochSeconds(
       finalCronExpression,
-      new Date()
+      new Date(),
+      params.timezone ?? existing.timezone ?? DEFAULT_SCHEDULE_TIMEZONE
     );
   }
   return updateData;
@@ -0,0 +1,99 @@
+import { randomUUID } from "crypto";
+
+import type { DatabaseSchema } from "../tables/schema";
+
+const SCHEDULE_RUN_HISTORY_TTL_SECONDS = 90 * 24 * 60 * 60;
+const SCHEDULE_RUN_ERROR_MAX_LENGTH = 1000;
+
+export const buildAgentScheduleRunPk = (
+  workspaceId: string,
+  agentId: string,
+  scheduleId: string
+): string => `agent-schedule-runs/${workspaceId}/${agentId}/${scheduleId}`;
+
+/** Keys of a run history record, returned by startAgentScheduleRun */
+export type AgentScheduleRunKey = {
+  pk: string;
+  sk: string;
+  runId: string;
+  startedAt: string;
+};
+
+/**
+ * Records the start of a schedule run in the run history (status "running").
+ * Entries expire after 90 days.
+ */
+export async function startAgentScheduleRun(
+  db: DatabaseSchema,
+  params: {
+    workspaceId: string;
+    agentId: string;
+    scheduleId: string;
+    conversationId: string;
+  }
+): Promise<AgentScheduleRunKey> {
+  const runId = randomUUID();
+  const startedAt = new Date().toISOString();
+  const run: AgentScheduleRunKey = {
+    pk: buildAgentScheduleRunPk(
+      params.workspaceId,
+      params.agentId,
+      params.scheduleId
+    ),
+    sk: `${startedAt}#${runId}`,
+    runId,
+    startedAt,
+  };
+  await db["agent-schedule-run"].create({
+    ...run,
+    workspaceId: params.workspaceId,
+    agentId: params.agentId,
+    scheduleId: params.scheduleId,
+    status: "running",
+    conversationId: params.conversationId,
+    expires:
+      Math.floor(Date.now() / 1000) + SCHEDULE_RUN_HISTORY_TTL_SECONDS,
+  });
+  return run;
+}
+
+/**
+ * Records the outcome of a schedule run started with startAgentScheduleRun
+ */
+export async function completeAgentScheduleRun(
+  db: DatabaseSchema,
+  run: AgentScheduleRunKey,
+  outcome:
+    | {
+        status: "succeeded";
+        costUsd?: number;
+        /** Outcome of the schedule's delivery target, when it has one */
+        delivery?: { status: "sent" } | { status: "failed"; error: string };
+      }
+    | { status: "failed"; error: unknown }
+): Promise<void> {
+  await db["agent-schedule-run"].update({
+    pk: run.pk,
+    sk: run.sk,
+    status: outcome.status,
+    endedAt: new Date().toISOString(),
+    ...(outcome.status === "succeeded" &&
+      outcome.costUsd !== undefined && { costUsd: outcome.costUsd }),
+    ...(outcome.status === "succeeded" &&
+      outcome.delivery && {
+        deliveryStatus: outcome.delivery.status,
+        ...(outcome.delivery.status === "failed" && {
+          deliveryError: outcome.delivery.error.substring(
+            0,
+            SCHEDULE_RUN_ERROR_MAX_LENGTH
+          ),
+        }),
+      }),
+    ...(outcome.status === "failed" && {
+      error: (outcome.error instanceof Error
+        ? outcome.error.message
+        : String(outcome.error)
+      ).substring(0, SCHEDULE_RUN_ERROR_MAX_LENGTH),
+    }),
+  });
+}
@@ -48,6 +48,8 @@ export interface UsageStats {
   messagesIn: number; // Number of user messages
   messagesOut: number; // Number of assistant messages
   totalMessages: number; // Total messages (user + assistant)
+  positiveFeedback: number; // End-user thumbs up on agent replies
+  negativeFeedback: number; // End-user thumbs down on agent replies
   byModel: Record<string, ByokStats>;
   byProvider: Record<string, ByokStats>;
   byByok: {
@@ -248,6 +250,8 @@ export function aggregateConversations(
     messagesIn: 0,
     messagesOut: 0,
     totalMessages: 0,
+    positiveFeedback: 0,
+    negativeFeedback: 0,
     byModel: {},
     byProvider: {},
     byByok: {
@@ -268,6 +272,10 @@ export function aggregateConversations(
   };
 
   for (const conv of conversations) {
+    // Counted for every conversation, including those skipped below for missing token usage
+    stats.positiveFeedback += conv.positiveFeedbackCount ?? 0;
+    stats.negativeFeedback += conv.negativeFeedbackCount ?? 0;
+
     // Handle tokenUsage - it might be stored as a string in some cases
     let tokenUsage: TokenUsage | undefined = conv.tokenUsage as
       | TokenUsage
@@ -466,6 +474,8 @@ export function aggregateAggregates(
     messagesIn: 0,
     messagesOut: 0,
     totalMessages: 0,
+    positiveFeedback: 0,
+    negativeFeedback: 0,
     byModel: {},
     byProvider: {},
     byByok: {
@@ -490,7 +500,13 @@ export function aggregateAggregates(
   // Track message counts per workspace/agent/user/date (same approach as conversation counts)
   const messageCountMap = new Map<
     string,
-    { messagesIn: number; messagesOut: number; totalMessages: number }
+    {
+      messagesIn: number;
+      messagesOut: number;
+      totalMessages: number;
+      positiveFeedback: number;
+      negativeFeedback: number;
+    }
   >();
 
   for (const agg of aggregates) {
@@ -526,6 +542,8 @@ export function aggregateAggregates(
         messagesIn: aggWithMessages.messagesIn ?? 0,
         messagesOut: aggWithMessages.messagesOut ?? 0,
         totalMessages: aggWithMessages.totalMessages ?? 0,
+        positiveFeedback: agg.positiveFeedback ?? 0,
+        negativeFeedback: agg.negativeFeedback ?? 0,
       });
     }
 
@@ -581,11 +599,13 @@ export function aggregateAggregates(
     0,
   );
 
-  // Sum message counts (each key represents unique workspace/agent/user/date)
+  // Sum message and feedback counts (each key represents unique workspace/agent/user/date)
   for (const messageCounts of messageCountMap.values()) {
     stats.messagesIn += messageCounts.messagesIn;
     stats.messagesOut += messageCounts.messagesOut;
     stats.totalMessages += messageCounts.totalMessages;
+    stats.positiveFeedback += messageCounts.positiveFeedback;
+    stats.negativeFeedback += messageCounts.negativeFeedback;
   }
 
   return stats;
@@ -607,6 +627,8 @@ export function mergeUsageStats(...statsArray: UsageStats[]): UsageStats {
     messagesIn: 0,
     messagesOut: 0,
     totalMessages: 0,
+    positiveFeedback: 0,
+    negativeFeedback: 0,
     byModel: {},
     byProvider: {},
     byByok: {
@@ -638,6 +660,8 @@ export function mergeUsageStats(...statsArray: UsageStats[]): UsageStats {
     merged.messagesIn += stats.messagesIn;
     merged.messagesOut += stats.messagesOut;
     merged.totalMessages += stats.totalMessages;
+    merged.positiveFeedback += stats.positiveFeedback;
+    merged.negativeFeedback += stats.negativeFeedback;
 
     // Merge byModel
     for (const [model, modelStats] of Object.entries(stats.byModel)) {
@@ -801,6 +825,8 @@ async function aggregateTransactionsStream(
     messagesIn: 0,
     messagesOut: 0,
     totalMessages: 0,
+    positiveFeedback: 0,
+    negativeFeedback: 0,
     byModel: {},
     byProvider: {},
     byByok: {
@@ -947,6 +973,8 @@ export async function aggregateToolTransactionsStream(
     messagesIn: 0,
     messagesOut: 0,
     totalMessages: 0,
+    positiveFeedback: 0,
+    negativeFeedback: 0,
     byModel: {},
     byProvider: {},
     byByok: {
@@ -1121,6 +1149,8 @@ function aggregateToolAggregates(
     messagesIn: 0,
     messagesOut: 0,
     totalMessages: 0,
+    positiveFeedback: 0,
+    negativeFeedback: 0,
     byModel: {},
     byProvider: {},
     byByok: {
@@ -1445,6 +1475,8 @@ async function queryEvalCostsForDateRange(
     messagesIn: 0,
     messagesOut: 0,
     totalMessages: 0,
+    positiveFeedback: 0,
+    negativeFeedback: 0,
     byModel: {},
     byProvider: {},
     byByok: {
@@ -0,0 +1,163 @@
+import { BlockList, isIP } from "net";
+
+import type { UserApiKeyRecord } from "../tables/schema";
+
+/**
+ * Scoping of user API keys: workspace binding, capabilities and IP allowlists.
+ * Keys without workspaceIds and capabilities (all keys created before scoping)
+ * keep the full power of the user.
+ */
+
+export type UserApiKeyCapability = NonNullable<
+  UserApiKeyRecord["capabilities"]
+>[number];
+
+export const USER_API_KEY_CAPABILITIES: readonly UserApiKeyCapability[] = [
+  "read",
+  "documents",
+  "agents",
+  "usage",
+];
+
+/**
+ * What an authenticated user API key may reach
+ */
+export type ApiKeyScope = {
+  keyId: string;
+  /** Missing = every workspace the user can access */
+  workspaceIds?: string[];
+  /** Missing = everything the user can do on the reachable workspaces */
+  capabilities?: UserApiKeyCapability[];
+};
+
+// Routes that hand out credentials outliving the key (webhook keys, stream
+// secrets, OAuth flows, invite tokens) stay out of reach of restricted keys
+const CREDENTIAL_ROUTE_PATTERN =
+  /^\/(agents\/[^/]+\/(keys|stream-servers)|email\/oauth|mcp-servers\/[^/]+\/oauth|invites)(\/|$)/;
+const USAGE_ROUTE_PATTERN =
+  /^(\/agents\/[^/]+)?\/(usage|transactions)(\/|$)/;
+const DOCUMENTS_ROUTE_PATTERN = /^\/documents(\/|$)/;
+
+/**
+ * Whether the key is limited to workspaces or capabilities
+ */
+export function isRestrictedApiKeyScope(scope: ApiKeyScope | undefined) {
+  return Boolean(scope && (scope.workspaceIds || scope.capabilities));
+}
+
+export function isWorkspaceInApiKeyScope(
+  scope: ApiKeyScope | undefined,
+  workspaceId: string
+): boolean {
+  return !scope?.workspaceIds || scope.workspaceIds.includes(workspaceId);
+}
+
+/**
+ * Whether the key has one of the accepted capabilities (always true for keys
+ * without capabilities)
+ */
+export function hasApiKeyCapability(
+  scope: ApiKeyScope | undefined,
+  accepted: readonly UserApiKeyCapability[]
+): boolean {
+  if (!scope?.capabilities) {
+    return true;
+  }
+  return accepted.some((capability) =>
+    scope.capabilities?.includes(capability)
+  );
+}
+
+/**
+ * Capabilities that allow a REST request for a restricted key.
+ * Empty when no restricted key may make the request: only workspace routes are
+ * reachable, and only reads unless the key manages documents.
+ */
+export function getAcceptedApiKeyCapabilities(
+  method: string,
+  path: string
+): readonly UserApiKeyCapability[] {
+  const isRead = ["GET", "HEAD"].includes(method.toUpperCase());
+  const normalizedPath = path.split("?")[0].replace(/\/+$/, "");
+
+  if (normalizedPath === "/api/workspaces") {
+    return isRead ? USER_API_KEY_CAPABILITIES : [];
+  }
+
+  const match = normalizedPath.match(/^\/api\/workspaces\/[^/]+(\/.*)?$/);
+  if (!match) {
+    return [];
+  }
+  const subPath = match[1] ?? "";
+
+  if (CREDENTIAL_ROUTE_PATTERN.test(subPath)) {
+    return [];
+  }
+  if (USAGE_ROUTE_PATTERN.test(subPath)) {
+    return isRead ? ["usage"] : [];
+  }
+  if (DOCUMENTS_ROUTE_PATTERN.test(subPath)) {
+    return isRead ? ["read", "documents"] : ["documents"];
+  }
+  return isRead ? ["read"] : [];
+}
+
+const parseAllowlistEntry = (
+  entry: string
+): { address: string; prefix?: number; family: "ipv4" | "ipv6" } | null => {
+  const [address, prefixText, ...rest] = entry.trim().split("/");
+  const version = isIP(address);
+  if (!version || rest.length > 0) {
+    return null;
+  }
+  const family = version === 4 ? "ipv4" : "ipv6";
+  if (prefixText === undefined) {
+    return { address, family };
+  }
+  const prefix = Number(prefixText);
+  const maxPrefix = version === 4 ? 32 : 128;
+  if (!/^\d+$/.test(prefixText) || prefix > maxPrefix) {
+    return null;
+  }
+  return { address, prefix, family };
+};
+
+/**
+ * Whether an entry of an IP allowlist is an IP address or CIDR range
+ */
+export function isValidIpAllowlistEntry(entry: string): boolean {
+  return parseAllowlistEntry(entry) !== null;
+}
+
+/**
+ * Checks a client IP against an allowlist of addresses and CIDR ranges.
+ * An empty or missing allowlist allows every address.
+ */
+export function isIpAllowed(
+  ip: string | undefined,
+  allowedIps: string[] | undefined
+): boolean {
+  if (!allowedIps || allowedIps.length === 0) {
+    return true;
+  }
+  // IPv4 clients can show up as IPv4-mapped IPv6 addresses
+  const clientIp = ip?.trim().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, "");
+  const version = clientIp ? isIP(clientIp) : 0;
+  if (!clientIp || !version) {
+    return false;
+  }
+
+  const blockList = new BlockList();
+  for (const entry of allowedIps) {
+    const parsed = parseAllowlistEntry(entry);
+    if (!parsed) {
+      continue;
+    }
+    if (parsed.prefix === undefined) {
+      blockList.addAddress(parsed.address, parsed.family);
+    } else {
+      blockList.addSubnet(parsed.address, parsed.prefix, parsed.family);
+    }
+  }
+  return blockList.check(clientIp, version === 4 ? "ipv4" : "ipv6");
+}
@@ -3,6 +3,8 @@ import { promisify } from "util";
 
 import { database } from "../tables/database";
 
+import { isIpAllowed, type ApiKeyScope } from "./apiKeyScope";
+
 // scrypt with options signature: (password, salt, keylen, options, callback)
 // When promisified, it becomes: (password, salt, keylen, options)
 const scryptAsync = promisify(
@@ -139,16 +141,25 @@ export function maskApiKey(key: string): string {
   return `${prefix}...${last4}`;
 }
 
+export type AuthenticatedUserApiKey = {
+  userId: string;
+  scope: ApiKeyScope;
+};
+
 /**
- * Validate API key and return user ID
+ * Authenticate a user API key
  * Queries the database using GSI lookup hash, validates the key using scrypt,
- * and updates the lastUsedAt timestamp if validation succeeds.
+ * rejects expired keys and client IPs outside the key's allowlist, and records
+ * usage (lastUsedAt, requestCount) unless `recordUsage` is false.
  * @param token - Bearer token from Authorization header
- * @returns User ID if valid, null otherwise
+ * @param options.sourceIp - Client IP, checked against the key's allowlist
+ * @param options.recordUsage - Whether to count the request (default true)
+ * @returns User ID and key scope if valid, null otherwise
  */
-export async function validateApiKeyAndGetUserId(
-  token: string
-): Promise<string | null> {
+export async function authenticateUserApiKey(
+  token: string,
+  options: { sourceIp?: string; recordUsage?: boolean } = {}
+): Promise<AuthenticatedUserApiKey | null> {
   try {
     const db = await database();
 
@@ -169,32 +180,56 @@ export async function validateApiKeyAndGetUserId(
     // There should be at most one match, but we check all results
     for (const keyRecord of result.items) {
       // Validate the key using scrypt (the lookup hash is just for fast lookup)
-      if (keyRecord.keyHash && keyRecord.keySalt) {
-        const isValid = await validateApiKey(
-          token,
-          keyRecord.keyHash,
-          keyRecord.keySalt
+      if (!keyRecord.keyHash || !keyRecord.keySalt) {
+        continue;
+      }
+      const isValid = await validateApiKey(
+        token,
+        keyRecord.keyHash,
+        keyRecord.keySalt
+      );
+      if (!isValid) {
+        continue;
+      }
+
+      if (keyRecord.expiresAt && new Date(keyRecord.expiresAt) <= new Date()) {
+        console.warn(
+          `[apiKeyUtils] API key ${keyRecord.sk} of user ${keyRecord.userId} expired at ${keyRecord.expiresAt}`
+        );
+        return null;
+      }
+      if (!isIpAllowed(options.sourceIp, keyRecord.allowedIps)) {
+        console.warn(
+          `[apiKeyUtils] API key ${keyRecord.sk} of user ${keyRecord.userId} used from IP ${options.sourceIp ?? "unknown"} outside its allowlist`
         );
+        return null;
+      }
 
-        if (isValid) {
-          // Update lastUsedAt
-          await db["user-api-key"].update({
-            pk: keyRecord.pk,
-            sk: keyRecord.sk,
-            userId: keyRecord.userId,
-            keyHash: keyRecord.keyHash,
-            keySalt: keyRecord.keySalt,
-            keyLookupHash: keyRecord.keyLookupHash,
-            keyPrefix: keyRecord.keyPrefix,
-            name: keyRecord.name,
-            createdAt: keyRecord.createdAt,
-            version: keyRecord.version,
-            lastUsedAt: new Date().toISOString(),
-          });
-
-          return keyRecord.userId;
-        }
+      if (options.recordUsage !== false) {
+        await db["user-api-key"].atomicUpdate(
+          keyRecord.pk,
+          keyRecord.sk,
+          async (current) => {
+            if (!current) {
+              throw new Error(`API key ${keyRecord.sk} no longer exists`);
+            }
+            return {
+              ...current,
+              lastUsedAt: new Date().toISOString(),
+              requestCount: (current.requestCount ?? 0) + 1,
+            };
+          }
+        );
       }
+
+      return {
+        userId: keyRecord.userId,
+        scope: {
+          keyId: keyRecord.sk,
+          workspaceIds: keyRecord.workspaceIds,
+          capabilities: keyRecord.capabilities,
+        },
+      };
     }
 
     return null;
@@ -203,3 +238,17 @@ export async function validateApiKeyAndGetUserId(
     return null;
   }
 }
+
+/**
+ * Validate API key and return user ID
+ * See authenticateUserApiKey; ignores the key's scope, so only use it where
+ * restricted keys are handled otherwise.
+ * @param token - Bearer token from Authorization header
+ * @returns User ID if valid, null otherwise
+ */
+export async function validateApiKeyAndGetUserId(
+  token: string
+): Promise<string | null> {
+  const authenticated = await authenticateUserApiKey(token);
+  return authenticated?.userId ?? null;
+}
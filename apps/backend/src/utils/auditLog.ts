@@ -0,0 +1,323 @@
+import { randomUUID } from "crypto";
+
+import { badRequest } from "@hapi/boom";
+import type express from "express";
+
+import { database } from "../tables";
+import { tableSchemas, type WorkspaceAuditLogRecord } from "../tables/schema";
+
+import { Sentry, ensureError } from "./sentry";
+
+/**
+ * Append-only audit log of workspace changes (who changed what, and when).
+ * Events are written by the workspace routes after a change succeeded and are
+ * never updated or deleted.
+ */
+
+export type AuditLogAction = WorkspaceAuditLogRecord["action"];
+export type AuditLogResourceType = WorkspaceAuditLogRecord["resourceType"];
+
+export type AuditEventInput = {
+  action: AuditLogAction;
+  resourceType: AuditLogResourceType;
+  resourceId?: string;
+  resourceName?: string;
+  agentId?: string;
+  /** Names of the changed fields; values are never logged */
+  changedFields?: string[];
+  /** Small non-secret context (e.g. permission levels) */
+  details?: Record<string, unknown>;
+};
+
+export type AuditLogFilters = {
+  action?: AuditLogAction;
+  resourceType?: AuditLogResourceType;
+  resourceId?: string;
+  actorUserId?: string;
+  /** ISO date-times, inclusive */
+  from?: string;
+  to?: string;
+};
+
+export const getAuditLogPk = (workspaceId: string) =>
+  `workspaces/${workspaceId}`;
+
+const auditLogShape = tableSchemas["workspace-audit-log"].shape;
+
+const parseDateParam = (value: unknown, name: string) => {
+  if (typeof value !== "string" || !value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw badRequest(`${name} must be a valid date`);
+  }
+  return date.toISOString();
+};
+
+const parseStringParam = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+/**
+ * Reads audit log filters from query parameters
+ */
+export function parseAuditLogFilters(
+  query: express.Request["query"]
+): AuditLogFilters {
+  const action = parseStringParam(query.action);
+  if (action && !auditLogShape.action.safeParse(action).success) {
+    throw badRequest(
+      `action must be one of: ${auditLogShape.action.options.join(", ")}`
+    );
+  }
+  const resourceType = parseStringParam(query.resourceType);
+  if (
+    resourceType &&
+    !auditLogShape.resourceType.safeParse(resourceType).success
+  ) {
+    throw badRequest(
+      `resourceType must be one of: ${auditLogShape.resourceType.options.join(", ")}`
+    );
+  }
+  const from = parseDateParam(query.from, "from");
+  const to = parseDateParam(query.to, "to");
+  if (from && to && from > to) {
+    throw badRequest("from must be before to");
+  }
+  return {
+    action: action as AuditLogAction | undefined,
+    resourceType: resourceType as AuditLogResourceType | undefined,
+    resourceId: parseStringParam(query.resourceId),
+    actorUserId: parseStringParam(query.actorUserId),
+    from,
+    to,
+  };
+}
+
+const getRequestId = (req: express.Request): string | undefined => {
+  const header = req.headers["x-amzn-requestid"];
+  return (
+    (Array.isArray(header) ? header[0] : header) ||
+    req.apiGateway?.event?.requestContext?.requestId ||
+    req.context?.awsRequestId
+  );
+};
+
+/**
+ * Names of the fields in an update body whose value differs from the stored
+ * record. Without a previous record, every field that was sent.
+ */
+export function getChangedFields(
+  body: Record<string, unknown> | undefined,
+  previous?: Record<string, unknown>
+): string[] {
+  if (!body) {
+    return [];
+  }
+  return Object.keys(body)
+    .filter((field) => body[field] !== undefined)
+    .filter(
+      (field) =>
+        !previous ||
+        JSON.stringify(body[field] ?? null) !==
+          JSON.stringify(previous[field] ?? null)
+    )
+    .sort();
+}
+
+type AuditEventActor = Pick<
+  WorkspaceAuditLogRecord,
+  "actorUserId" | "actorEmail" | "apiKeyId" | "ipAddress" | "requestId"
+>;
+
+async function writeAuditEvent(
+  workspaceId: string,
+  event: AuditEventInput,
+  actor: AuditEventActor
+): Promise<void> {
+  try {
+    const db = await database();
+    const createdAt = new Date().toISOString();
+    const eventId = randomUUID();
+    await db["workspace-audit-log"].create({
+      pk: getAuditLogPk(workspaceId),
+      sk: `${createdAt}#${eventId}`,
+      workspaceId,
+      eventId,
+      action: event.action,
+      resourceType: event.resourceType,
+      resourceId: event.resourceId,
+      resourceName: event.resourceName,
+      agentId: event.agentId,
+      ...actor,
+      changedFields: event.changedFields?.length
+        ? event.changedFields
+        : undefined,
+      details: event.details,
+    });
+  } catch (error) {
+    console.error("[auditLog] Failed to record audit event:", {
+      workspaceId,
+      action: event.action,
+      resourceType: event.resourceType,
+      resourceId: event.resourceId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    Sentry.captureException(ensureError(error), {
+      tags: {
+        context: "audit-log",
+        operation: "record-audit-event",
+      },
+    });
+  }
+}
+
+/**
+ * Records a workspace audit event for the authenticated actor of the request.
+ * Failures are reported but never fail the change that was already made.
+ */
+export async function recordAuditEvent(
+  req: express.Request,
+  workspaceId: string,
+  event: AuditEventInput
+): Promise<void> {
+  await writeAuditEvent(workspaceId, event, {
+    actorUserId: req.userRef?.replace("users/", ""),
+    actorEmail: req.session?.user?.email ?? undefined,
+    apiKeyId: req.apiKeyScope?.keyId,
+    ipAddress: req.apiGateway?.event?.requestContext?.http?.sourceIp || req.ip,
+    requestId: getRequestId(req),
+  });
+}
+
+/**
+ * Records a workspace audit event for a change made on behalf of a user outside
+ * a workspace route, such as a workspace assistant tool call.
+ * Failures are reported but never fail the change that was already made.
+ */
+export async function recordAuditEventForUser(
+  actorUserRef: string | undefined,
+  workspaceId: string,
+  event: AuditEventInput
+): Promise<void> {
+  await writeAuditEvent(workspaceId, event, {
+    actorUserId: actorUserRef?.replace("users/", ""),
+  });
+}
+
+/**
+ * DynamoDB query for a workspace audit log, most recent first.
+ * Date bounds use the sort key; the other filters are filter expressions.
+ */
+export function buildAuditLogQuery(
+  workspaceId: string,
+  filters: AuditLogFilters
+) {
+  const values: Record<string, unknown> = {
+    ":pk": getAuditLogPk(workspaceId),
+  };
+  let keyCondition = "pk = :pk";
+  if (filters.from || filters.to) {
+    // "~" sorts after "#" so events at exactly `to` are included
+    values[":from"] = filters.from ?? "0";
+    values[":to"] = `${filters.to ?? "9999"}~`;
+    keyCondition += " AND sk BETWEEN :from AND :to";
+  }
+
+  const conditions: string[] = [];
+  const names: Record<string, string> = {};
+  const filterFields = [
+    "action",
+    "resourceType",
+    "resourceId",
+    "actorUserId",
+  ] as const;
+  for (const field of filterFields) {
+    const value = filters[field];
+    if (value) {
+      names[`#${field}`] = field;
+      values[`:${field}`] = value;
+      conditions.push(`#${field} = :${field}`);
+    }
+  }
+
+  return {
+    KeyConditionExpression: keyCondition,
+    ...(conditions.length > 0 && {
+      FilterExpression: conditions.join(" AND "),
+      ExpressionAttributeNames: names,
+    }),
+    ExpressionAttributeValues: values,
+    ScanIndexForward: false,
+  };
+}
+
+/**
+ * API representation of an audit log entry
+ */
+export function toAuditLogEntry(record: WorkspaceAuditLogRecord) {
+  return {
+    id: record.eventId,
+    action: record.action,
+    resourceType: record.resourceType,
+    resourceId: record.resourceId ?? null,
+    resourceName: record.resourceName ?? null,
+    agentId: record.agentId ?? null,
+    actorUserId: record.actorUserId ?? null,
+    actorEmail: record.actorEmail ?? null,
+    apiKeyId: record.apiKeyId ?? null,
+    changedFields: record.changedFields ?? [],
+    details: record.details ?? null,
+    ipAddress: record.ipAddress ?? null,
+    requestId: record.requestId ?? null,
+    createdAt: record.createdAt,
+  };
+}
+
+export type AuditLogEntry = ReturnType<typeof toAuditLogEntry>;
+
+const CSV_COLUMNS: Array<keyof AuditLogEntry> = [
+  "createdAt",
+  "action",
+  "resourceType",
+  "resourceId",
+  "resourceName",
+  "agentId",
+  "actorUserId",
+  "actorEmail",
+  "apiKeyId",
+  "changedFields",
+  "details",
+  "ipAddress",
+  "requestId",
+  "id",
+];
+
+const toCsvCell = (value: unknown): string => {
+  let text =
+    value === null || value === undefined
+      ? ""
+      : Array.isArray(value)
+        ? value.join(" ")
+        : typeof value === "object"
+          ? JSON.stringify(value)
+          : String(value);
+  // Keep spreadsheet applications from evaluating user-provided names
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Renders audit log entries as CSV with a header row
+ */
+export function toAuditLogCsv(entries: AuditLogEntry[]): string {
+  const lines = [
+    CSV_COLUMNS.join(","),
+    ...entries.map((entry) =>
+      CSV_COLUMNS.map((column) => toCsvCell(entry[column])).join(",")
+    ),
+  ];
+  return `${lines.join("\r\n")}\r\n`;
+}
@@ -3,7 +3,7 @@ import { z } from "zod";
 
 // Export schema for use in queue handler
 export const BotWebhookTaskMessageSchema = z.object({
-  platform: z.enum(["discord", "slack"]),
+  platform: z.enum(["discord", "slack", "teams", "telegram"]),
   integrationId: z.string(),
   workspaceId: z.string(),
   agentId: z.string(),
@@ -17,7 +17,28 @@ export const BotWebhookTaskMessageSchema = z.object({
   channel: z.string().optional(),
   messageTs: z.string().optional(),
   threadTs: z.string().optional(),
+  // Telegram-specific
+  chatId: z.string().optional(),
+  telegramMessageId: z.number().int().optional(),
+  messageThreadId: z.number().int().optional(),
+  // Teams-specific
+  serviceUrl: z.string().optional(),
+  teamsConversationId: z.string().optional(),
+  activityId: z.string().optional(),
   conversationId: z.string().optional(),
+  // Platform-prefixed ID of the user who wrote the message (per-end-user agent memory)
+  endUserId: z.string().optional(),
+  // End-user rating of an agent reply (Slack reactions, Discord buttons) instead of a message
+  feedback: z
+    .object({
+      rating: z.enum(["positive", "negative"]),
+      // The rating was withdrawn (reaction removed)
+      removed: z.boolean().optional(),
+      userId: z.string().optional(),
+      // Request ID of the rated reply when the event carries it (Discord)
+      messageId: z.string().optional(),
+    })
+    .optional(),
 });
 
 export type BotWebhookTaskMessage = z.infer<typeof BotWebhookTaskMessageSchema>;
@@ -36,17 +57,52 @@ export interface SlackQueueData {
   threadTs?: string;
 }
 
+/**
+ * The bot token is read from the integration config by the queue task
+ */
+export interface TelegramQueueData {
+  chatId: string;
+  // ID of the placeholder message that is edited with the response
+  telegramMessageId: number;
+  messageThreadId?: number;
+}
+
+/**
+ * The app credentials are read from the integration config by the queue task
+ */
+export interface TeamsQueueData {
+  serviceUrl: string;
+  teamsConversationId: string;
+  // ID of the placeholder activity that is updated with the response
+  activityId: string;
+}
+
+export type BotFeedbackData = NonNullable<BotWebhookTaskMessage["feedback"]>;
+
+/**
+ * Identifies the reacted Slack message, whose metadata names the rated reply
+ */
+export type SlackFeedbackQueueData = Pick<
+  SlackQueueData,
+  "botToken" | "channel" | "messageTs"
+>;
+
 /**
  * Enqueues a bot webhook task to be processed asynchronously
  */
 export async function enqueueBotWebhookTask(
-  platform: "discord" | "slack",
+  platform: BotWebhookTaskMessage["platform"],
   integrationId: string,
   workspaceId: string,
   agentId: string,
   messageText: string,
-  platformData: DiscordQueueData | SlackQueueData,
-  conversationId?: string
+  platformData:
+    | DiscordQueueData
+    | SlackQueueData
+    | TelegramQueueData
+    | TeamsQueueData,
+  conversationId?: string,
+  endUserId?: string
 ): Promise<void> {
   const message: BotWebhookTaskMessage = {
     platform,
@@ -56,6 +112,7 @@ export async function enqueueBotWebhookTask(
     messageText,
     ...platformData,
     ...(conversationId && { conversationId }),
+    ...(endUserId && { endUserId }),
   };
 
   // Validate before enqueueing (queue handler will also validate)
@@ -67,3 +124,34 @@ export async function enqueueBotWebhookTask(
   });
 }
 
+
+/**
+ * Enqueues an end user's rating of an agent reply to be recorded asynchronously
+ */
+export async function enqueueBotFeedbackTask(
+  platform: "slack" | "discord",
+  integrationId: string,
+  workspaceId: string,
+  agentId: string,
+  feedback: BotFeedbackData,
+  platformData?: SlackFeedbackQueueData,
+  conversationId?: string
+): Promise<void> {
+  const message: BotWebhookTaskMessage = {
+    platform,
+    integrationId,
+    workspaceId,
+    agentId,
+    messageText: "",
+    ...platformData,
+    ...(conversationId && { conversationId }),
+    feedback,
+  };
+
+  BotWebhookTaskMessageSchema.parse(message);
+
+  await queues.publish({
+    name: "bot-webhook-queue",
+    payload: message,
+  });
+}
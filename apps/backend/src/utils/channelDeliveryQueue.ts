@@ -0,0 +1,179 @@
+import { randomUUID } from "crypto";
+
+import { queues } from "@architect/functions";
+import { z } from "zod";
+
+import { database } from "../tables";
+import type { DatabaseSchema, OutputChannelRecord } from "../tables/schema";
+
+import { getRecord } from "./conversationRecords";
+import { fromNanoDollars } from "./creditConversions";
+import type { HttpChannelEnvelope } from "./httpChannel";
+
+export const CHANNEL_DELIVERY_MAX_ATTEMPTS = 6;
+const CHANNEL_DELIVERY_INITIAL_RETRY_DELAY_SECONDS = 30;
+const CHANNEL_DELIVERY_RETRY_MULTIPLIER = 2;
+// SQS does not allow longer message delays
+const CHANNEL_DELIVERY_MAX_RETRY_DELAY_SECONDS = 900;
+const CHANNEL_DELIVERY_LOG_TTL_SECONDS = 30 * 24 * 60 * 60;
+const CONTENT_PREVIEW_MAX_LENGTH = 200;
+
+/**
+ * Where a notification came from; included in the http channel envelope
+ */
+export type NotificationContext = {
+  agentId?: string;
+  conversationId?: string;
+  /**
+   * Cost of the run that produced the notification in USD.
+   * When omitted, the cost recorded on the conversation is used.
+   */
+  costUsd?: number;
+};
+
+export const ChannelDeliveryQueueMessageSchema = z
+  .object({
+    workspaceId: z.string(),
+    channelId: z.string(),
+    deliveryId: z.string(),
+    deliverySk: z.string(), // sort key of the channel-delivery log record
+    envelope: z
+      .object({
+        deliveryId: z.string(),
+        event: z.literal("notification"),
+        workspaceId: z.string(),
+        channelId: z.string(),
+        agentId: z.string().optional(),
+        conversationId: z.string().optional(),
+        content: z.string(),
+        costUsd: z.number().optional(),
+        createdAt: z.string(),
+      })
+      .strict(),
+  })
+  .strict();
+
+export type ChannelDeliveryQueueMessage = z.infer<
+  typeof ChannelDeliveryQueueMessageSchema
+>;
+
+export function getChannelDeliveryPk(
+  workspaceId: string,
+  channelId: string
+): string {
+  return `channel-deliveries/${workspaceId}/${channelId}`;
+}
+
+/**
+ * Delay before the next attempt: 30s, 60s, 120s, ... capped at 15 minutes
+ * @param attempts - Number of attempts made so far
+ */
+export function getChannelDeliveryRetryDelaySeconds(attempts: number): number {
+  return Math.min(
+    CHANNEL_DELIVERY_INITIAL_RETRY_DELAY_SECONDS *
+      Math.pow(CHANNEL_DELIVERY_RETRY_MULTIPLIER, Math.max(attempts - 1, 0)),
+    CHANNEL_DELIVERY_MAX_RETRY_DELAY_SECONDS
+  );
+}
+
+export async function publishChannelDelivery(
+  message: ChannelDeliveryQueueMessage,
+  delaySeconds = 0
+): Promise<void> {
+  // Runtime validation protects against unexpected external callers.
+  ChannelDeliveryQueueMessageSchema.parse(message);
+
+  await queues.publish({
+    name: "channel-delivery-queue",
+    payload: message,
+    ...(delaySeconds > 0 ? { delaySeconds } : {}),
+  });
+}
+
+/**
+ * Cost recorded on the conversation in USD. Notifications sent by a tool during a run
+ * see the cost of the turns recorded before it.
+ */
+async function getConversationCostUsd(
+  db: DatabaseSchema,
+  workspaceId: string,
+  context: NotificationContext
+): Promise<number | undefined> {
+  if (!context.agentId || !context.conversationId) {
+    return undefined;
+  }
+  const conversation = await getRecord(
+    db,
+    `conversations/${workspaceId}/${context.agentId}/${context.conversationId}`,
+    undefined,
+    { enrichFromS3: false }
+  );
+  return conversation?.costUsd !== undefined
+    ? fromNanoDollars(conversation.costUsd)
+    : undefined;
+}
+
+/**
+ * Record a pending delivery in the channel's delivery log and queue it.
+ * The channel config (URL, headers, secret) is loaded when the message is
+ * delivered, so the queue never carries the signing secret.
+ */
+export async function enqueueHttpChannelNotification(
+  channel: OutputChannelRecord,
+  content: string,
+  context: NotificationContext = {}
+): Promise<string> {
+  const db = await database();
+  const costUsd =
+    context.costUsd ??
+    (await getConversationCostUsd(db, channel.workspaceId, context));
+  const deliveryId = randomUUID();
+  const createdAt = new Date().toISOString();
+  const deliverySk = `${createdAt}#${deliveryId}`;
+  const envelope: HttpChannelEnvelope = {
+    deliveryId,
+    event: "notification",
+    workspaceId: channel.workspaceId,
+    channelId: channel.channelId,
+    ...(context.agentId && { agentId: context.agentId }),
+    ...(context.conversationId && { conversationId: context.conversationId }),
+    content,
+    ...(costUsd !== undefined && { costUsd }),
+    createdAt,
+  };
+
+  const deliveryPk = getChannelDeliveryPk(channel.workspaceId, channel.channelId);
+  await db["channel-delivery"].create({
+    pk: deliveryPk,
+    sk: deliverySk,
+    workspaceId: channel.workspaceId,
+    channelId: channel.channelId,
+    deliveryId,
+    status: "pending",
+    attempts: 0,
+    ...(context.agentId && { agentId: context.agentId }),
+    ...(context.conversationId && { conversationId: context.conversationId }),
+    contentPreview: content.substring(0, CONTENT_PREVIEW_MAX_LENGTH),
+    expires: Math.floor(Date.now() / 1000) + CHANNEL_DELIVERY_LOG_TTL_SECONDS,
+  });
+
+  try {
+    await publishChannelDelivery({
+      workspaceId: channel.workspaceId,
+      channelId: channel.channelId,
+      deliveryId,
+      deliverySk,
+      envelope,
+    });
+  } catch (error) {
+    await db["channel-delivery"].update({
+      pk: deliveryPk,
+      sk: deliverySk,
+      status: "failed",
+      lastError: "Failed to queue the delivery",
+    });
+    throw error;
+  }
+
+  return deliveryId;
+}
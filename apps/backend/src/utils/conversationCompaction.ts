@@ -0,0 +1,651 @@
+/**
+ * Conversation compaction
+ *
+ * Long widget and bot conversations eventually outgrow the model's context window. When the
+ * estimated prompt gets close to the limit, the older turns are summarized by the conversation's
+ * model into a pinned summary message; the most recent turns (with their tool calls and results)
+ * are sent verbatim. The summary is stored on the conversation record and reused on later turns
+ * while the summarized messages are unchanged, and extended incrementally as more turns age out.
+ *
+ * Only the messages sent to the model are compacted; the conversation record keeps the full
+ * message history.
+ */
+
+import { createHash } from "crypto";
+
+import type { ModelMessage } from "ai";
+import { generateText } from "ai";
+
+import {
+  adjustCreditsAfterLLMCall,
+  cleanupReservationOnError,
+  cleanupReservationWithoutTokenUsage,
+  enqueueCostVerificationIfNeeded,
+} from "../http/utils/generationCreditManagement";
+import { extractTokenUsageAndCosts } from "../http/utils/generationTokenExtraction";
+import { createModel } from "../http/utils/modelFactory";
+import {
+  cleanupRequestTimeout,
+  createRequestTimeout,
+} from "../http/utils/requestTimeout";
+import type { database } from "../tables";
+import type { AgentConversationRecord } from "../tables/schema";
+
+import { WORKSPACE_META_AGENT_IDS } from "./conversationLogger";
+import {
+  atomicUpdateRecord,
+  calculateTTL,
+  getRecord,
+} from "./conversationRecords";
+import { validateCreditsAndLimitsAndReserve } from "./creditValidation";
+import { getMaxCharsForPromptSegment, getMaxSafeInputTokens } from "./pricing";
+import { Sentry, ensureError } from "./sentry";
+import {
+  CONTEXT_ESTIMATE_SAFETY_FACTOR,
+  estimateInputTokens,
+} from "./tokenEstimation";
+import type { AugmentedContext } from "./workspaceCreditContext";
+
+export type ConversationCompaction = NonNullable<
+  AgentConversationRecord["compaction"]
+>;
+export type ConversationCompactionEvent = NonNullable<
+  AgentConversationRecord["compactionEvents"]
+>[number];
+
+/** Compact once the estimated prompt exceeds this share of the model's max safe input tokens. */
+export const COMPACTION_THRESHOLD_RATIO = 0.8;
+
+/** Number of most recent turns (a user message and everything after it) kept verbatim when they fit. */
+export const COMPACTION_KEEP_RECENT_TURNS = 4;
+
+/** Compaction events kept on the conversation record (oldest are dropped). */
+export const MAX_COMPACTION_EVENTS = 20;
+
+/** Output limit of the summary; also reserved in the prompt when choosing the turns to keep. */
+const COMPACTION_SUMMARY_MAX_OUTPUT_TOKENS = 2_000;
+
+/** Max characters of a single message included in the summarization transcript. */
+const MAX_TRANSCRIPT_MESSAGE_CHARS = 4_000;
+
+const TRANSCRIPT_OMISSION_NOTE = "[Earlier messages omitted]";
+
+export const COMPACTION_SUMMARY_PREFIX =
+  "Summary of the earlier part of this conversation (older messages were compacted to fit the model's context window):";
+
+const COMPACTION_SYSTEM_PROMPT = `You are compacting the earlier part of a conversation between a user and an AI assistant so the assistant can continue it with a limited context window. Write a concise summary that preserves:
+- The user's goals, requests and preferences
+- Questions answered and decisions made
+- Important facts, names, numbers, identifiers and URLs
+- Results of tool calls that are still relevant
+- Open questions and pending tasks
+
+Write in the language of the conversation. Do not add information that is not in the conversation.`;
+
+/**
+ * Compaction threshold in estimated input tokens (before the safety factor), i.e. the prompt size
+ * at which conversations of an agent using this model start to be compacted.
+ */
+export function getCompactionThresholdTokens(
+  provider: string,
+  modelName: string,
+): number {
+  return Math.floor(
+    (getMaxSafeInputTokens(provider, modelName) * COMPACTION_THRESHOLD_RATIO) /
+      CONTEXT_ESTIMATE_SAFETY_FACTOR,
+  );
+}
+
+/**
+ * Hash of the role and content of messages, used to check that a stored summary still covers the
+ * same leading messages of the conversation.
+ */
+export function fingerprintMessages(messages: ModelMessage[]): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify(
+        messages.map((message) => ({
+          role: message.role,
+          content: message.content,
+        })),
+      ),
+    )
+    .digest("hex");
+}
+
+/**
+ * Indexes of the messages starting a turn: user messages not preceded by another user message
+ * (injected knowledge is a user message right before the user's own message).
+ */
+function findTurnStarts(messages: ModelMessage[]): number[] {
+  const starts: number[] = [];
+  messages.forEach((message, index) => {
+    if (
+      message.role === "user" &&
+      (index === 0 || messages[index - 1]?.role !== "user")
+    ) {
+      starts.push(index);
+    }
+  });
+  return starts;
+}
+
+/**
+ * Index splitting the messages into older ones to summarize and recent turns to keep. Keeps up to
+ * COMPACTION_KEEP_RECENT_TURNS turns, fewer when they do not fit, and at least the last turn.
+ * Splits only at turn starts so tool calls are never separated from their results.
+ * Returns 0 when there is nothing older than the last turn.
+ */
+export function findCompactionSplitIndex(
+  messages: ModelMessage[],
+  fits: (keptMessages: ModelMessage[]) => boolean,
+): number {
+  const turnStarts = findTurnStarts(messages);
+  for (let keep = COMPACTION_KEEP_RECENT_TURNS; keep >= 1; keep--) {
+    const splitIndex = turnStarts[turnStarts.length - keep];
+    if (splitIndex === undefined || splitIndex <= 0) {
+      continue;
+    }
+    if (keep === 1 || fits(messages.slice(splitIndex))) {
+      return splitIndex;
+    }
+  }
+  return 0;
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+}
+
+function stringifyValue(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function formatContentPart(part: unknown): string | undefined {
+  if (typeof part === "string") {
+    return part;
+  }
+  if (!part || typeof part !== "object" || !("type" in part)) {
+    return undefined;
+  }
+  const typed = part as {
+    type: string;
+    text?: string;
+    toolName?: string;
+    input?: unknown;
+    output?: unknown;
+    mediaType?: string;
+  };
+  switch (typed.type) {
+    case "text":
+      return typed.text;
+    case "tool-call":
+      return `[Called tool ${typed.toolName} with ${stringifyValue(typed.input)}]`;
+    case "tool-result":
+      return `[Result of tool ${typed.toolName}: ${stringifyValue(typed.output)}]`;
+    case "image":
+    case "file":
+      return `[Attached ${typed.mediaType ?? typed.type}]`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Plain-text transcript of messages for the summarization prompt. Long messages are truncated and,
+ * when the transcript exceeds maxChars, the oldest messages are omitted.
+ */
+export function buildCompactionTranscript(
+  messages: ModelMessage[],
+  maxChars: number,
+): string {
+  const lines = messages
+    .filter((message) => message.role !== "system")
+    .map((message) => {
+      const content = message.content as string | unknown[];
+      const text =
+        typeof content === "string"
+          ? content
+          : content
+              .map(formatContentPart)
+              .filter((part): part is string => !!part)
+              .join("\n");
+      return `${message.role}: ${truncate(text, MAX_TRANSCRIPT_MESSAGE_CHARS)}`;
+    });
+
+  const kept: string[] = [];
+  let length = 0;
+  for (let index = lines.length - 1; index >= 0; index--) {
+    const line = lines[index]!;
+    if (length + line.length > maxChars && kept.length > 0) {
+      kept.unshift(TRANSCRIPT_OMISSION_NOTE);
+      break;
+    }
+    kept.unshift(line);
+    length += line.length + 2;
+  }
+  return kept.join("\n\n");
+}
+
+/**
+ * Pinned message carrying the summary of the compacted turns
+ */
+export function buildCompactionSummaryMessage(summary: string): ModelMessage {
+  return {
+    role: "user",
+    content: `${COMPACTION_SUMMARY_PREFIX}\n\n${summary}`,
+  };
+}
+
+function buildCompactedMessages(
+  olderMessages: ModelMessage[],
+  summary: string,
+  recentMessages: ModelMessage[],
+): ModelMessage[] {
+  return [
+    // System messages are instructions, not conversation: keep them
+    ...olderMessages.filter((message) => message.role === "system"),
+    buildCompactionSummaryMessage(summary),
+    ...recentMessages,
+  ];
+}
+
+/**
+ * Summarize messages with the conversation's model, extending previousSummary when given.
+ * Credits are reserved and settled like for other internal LLM calls.
+ */
+async function summarizeMessages(params: {
+  db: Awaited<ReturnType<typeof database>>;
+  workspaceId: string;
+  agentId: string;
+  conversationId?: string;
+  modelName: string;
+  usesByok: boolean;
+  context?: AugmentedContext;
+  messages: ModelMessage[];
+  previousSummary?: string;
+}): Promise<string> {
+  const {
+    db,
+    workspaceId,
+    agentId,
+    conversationId,
+    modelName,
+    usesByok,
+    context,
+  } = params;
+  const transcript = buildCompactionTranscript(
+    params.messages,
+    getMaxCharsForPromptSegment("openrouter", modelName),
+  );
+  const messages: ModelMessage[] = [
+    {
+      role: "user",
+      content: params.previousSummary
+        ? `Summary of the conversation so far:\n\n${params.previousSummary}\n\nUpdate the summary with these later messages:\n\n${transcript}`
+        : `Summarize this conversation:\n\n${transcript}`,
+    },
+  ];
+
+  const reservation = await validateCreditsAndLimitsAndReserve(
+    db,
+    workspaceId,
+    agentId,
+    "openrouter",
+    modelName,
+    messages,
+    COMPACTION_SYSTEM_PROMPT,
+    undefined,
+    usesByok,
+    context,
+    conversationId,
+  );
+  const reservationId = reservation?.reservationId;
+
+  console.log("[Conversation Compaction] generateText arguments:", {
+    workspaceId,
+    agentId,
+    conversationId,
+    model: modelName,
+    summarizedMessagesCount: params.messages.length,
+    transcriptLength: transcript.length,
+    hasPreviousSummary: Boolean(params.previousSummary),
+  });
+
+  const requestTimeout = createRequestTimeout();
+  let result: Awaited<ReturnType<typeof generateText>>;
+  let llmCallAttempted = false;
+  try {
+    const model = await createModel(
+      "openrouter",
+      modelName,
+      workspaceId,
+      process.env.DEFAULT_REFERER || "http://localhost:3000/api/webhook",
+    );
+    llmCallAttempted = true;
+    result = await generateText({
+      model: model as unknown as Parameters<typeof generateText>[0]["model"],
+      system: COMPACTION_SYSTEM_PROMPT,
+      messages,
+      maxOutputTokens: COMPACTION_SUMMARY_MAX_OUTPUT_TOKENS,
+      abortSignal: requestTimeout.signal,
+    });
+  } catch (error) {
+    if (reservationId && context) {
+      await cleanupReservationOnError(
+        db,
+        reservationId,
+        workspaceId,
+        agentId,
+        "openrouter",
+        modelName,
+        error,
+        llmCallAttempted,
+        usesByok,
+        "conversation-compaction",
+        context,
+      );
+    }
+    throw error;
+  } finally {
+    cleanupRequestTimeout(requestTimeout);
+  }
+
+  const extractionResult = extractTokenUsageAndCosts(
+    result,
+    undefined,
+    modelName,
+    "conversation-compaction",
+  );
+  const tokenUsage = extractionResult.tokenUsage;
+
+  if (reservationId && context) {
+    const dbWithAtomic = db as Parameters<typeof adjustCreditsAfterLLMCall>[0];
+    await adjustCreditsAfterLLMCall(
+      dbWithAtomic,
+      workspaceId,
+      agentId,
+      reservationId,
+      "openrouter",
+      modelName,
+      tokenUsage,
+      usesByok,
+      extractionResult.openrouterGenerationId,
+      extractionResult.openrouterGenerationIds,
+      "conversation-compaction",
+      context,
+      conversationId,
+    );
+  } else if (reservationId) {
+    console.warn("[Conversation Compaction] No context for credit adjustment", {
+      workspaceId,
+      agentId,
+      reservationId,
+    });
+  }
+
+  const hasGenerationIds =
+    extractionResult.openrouterGenerationIds.length > 0 ||
+    Boolean(extractionResult.openrouterGenerationId);
+  if (
+    reservationId &&
+    reservationId !== "byok" &&
+    (!tokenUsage ||
+      (tokenUsage.promptTokens === 0 && tokenUsage.completionTokens === 0)) &&
+    !hasGenerationIds
+  ) {
+    await cleanupReservationWithoutTokenUsage(
+      db,
+      reservationId,
+      workspaceId,
+      agentId,
+      "conversation-compaction",
+    );
+  }
+
+  await enqueueCostVerificationIfNeeded(
+    extractionResult.openrouterGenerationId,
+    extractionResult.openrouterGenerationIds,
+    workspaceId,
+    reservationId,
+    conversationId,
+    agentId,
+    "conversation-compaction",
+  );
+
+  const summary = result.text.trim();
+  if (!summary) {
+    throw new Error("Conversation compaction returned an empty summary");
+  }
+  return summary;
+}
+
+/**
+ * Store the summary and the compaction event (if any) on the conversation record. Creates the
+ * record when the conversation has not been logged yet; the conversation logger fills in the rest.
+ */
+async function storeCompaction(params: {
+  db: Awaited<ReturnType<typeof database>>;
+  workspaceId: string;
+  agentId: string;
+  conversationId: string;
+  conversationType: AgentConversationRecord["conversationType"];
+  compaction: ConversationCompaction;
+  event?: ConversationCompactionEvent;
+}): Promise<void> {
+  const { workspaceId, agentId, conversationId, compaction, event } = params;
+  const pk = `conversations/${workspaceId}/${agentId}/${conversationId}`;
+  await atomicUpdateRecord(params.db, pk, undefined, async (current) => {
+    const compactionEvents = [
+      ...(current?.compactionEvents ?? []),
+      ...(event ? [event] : []),
+    ].slice(-MAX_COMPACTION_EVENTS);
+    if (current) {
+      return { pk, compaction, compactionEvents };
+    }
+    const now = new Date().toISOString();
+    return {
+      pk,
+      workspaceId,
+      agentId,
+      conversationId,
+      conversationType: params.conversationType,
+      messages: [],
+      startedAt: now,
+      agentIdStartedAt: `${agentId}#${now}`,
+      lastMessageAt: now,
+      expires: calculateTTL(),
+      compaction,
+      compactionEvents,
+    };
+  });
+}
+
+export interface CompactConversationParams {
+  db: Awaited<ReturnType<typeof database>>;
+  workspaceId: string;
+  agentId: string;
+  /** When set, the summary is stored on (and reused from) this conversation's record */
+  conversationId?: string;
+  /** Type of the conversation record created when the conversation was not logged yet */
+  conversationType: AgentConversationRecord["conversationType"];
+  /** Messages that would be sent to the model (including injected knowledge) */
+  messages: ModelMessage[];
+  systemPrompt: string;
+  toolDefinitions?: unknown[];
+  modelName: string;
+  /** BYOK or custom endpoint model: the summarization costs no credits */
+  usesByok: boolean;
+  context?: AugmentedContext;
+}
+
+export interface CompactConversationResult {
+  /** Messages to send to the model: unchanged, or the pinned summary followed by the recent turns */
+  messages: ModelMessage[];
+  /** Set when older turns were (re-)summarized for this request */
+  event?: ConversationCompactionEvent;
+}
+
+/**
+ * Compact the conversation when its estimated prompt approaches the model's context limit.
+ * Reuses the stored summary when it still covers the older turns, extends it when more turns
+ * aged out, and summarizes from scratch otherwise. On failure the messages are returned
+ * unchanged, so the request behaves as without compaction.
+ */
+export async function compactConversationIfNeeded(
+  params: CompactConversationParams,
+): Promise<CompactConversationResult> {
+  const { messages, modelName, workspaceId, agentId, conversationId } = params;
+  const maxSafeInputTokens = getMaxSafeInputTokens("openrouter", modelName);
+  const thresholdTokens = Math.floor(
+    maxSafeInputTokens * COMPACTION_THRESHOLD_RATIO,
+  );
+  const estimate = (candidate: ModelMessage[]) =>
+    Math.ceil(
+      estimateInputTokens(
+        candidate,
+        params.systemPrompt,
+        params.toolDefinitions,
+      ) * CONTEXT_ESTIMATE_SAFETY_FACTOR,
+    );
+
+  const estimatedTokensBefore = estimate(messages);
+  if (estimatedTokensBefore <= thresholdTokens) {
+    return { messages };
+  }
+
+  const summaryReserveTokens = Math.ceil(
+    COMPACTION_SUMMARY_MAX_OUTPUT_TOKENS * CONTEXT_ESTIMATE_SAFETY_FACTOR,
+  );
+  const splitIndex = findCompactionSplitIndex(
+    messages,
+    (kept) => estimate(kept) + summaryReserveTokens <= thresholdTokens,
+  );
+  if (splitIndex === 0) {
+    console.warn(
+      "[Conversation Compaction] Prompt exceeds the compaction threshold but has no older turns to compact:",
+      { workspaceId, agentId, conversationId, estimatedTokensBefore, thresholdTokens },
+    );
+    return { messages };
+  }
+
+  const olderMessages = messages.slice(0, splitIndex);
+  const recentMessages = messages.slice(splitIndex);
+  const persist =
+    !!conversationId &&
+    !WORKSPACE_META_AGENT_IDS.includes(
+      agentId as (typeof WORKSPACE_META_AGENT_IDS)[number],
+    );
+
+  try {
+    const stored = persist
+      ? (
+          await getRecord(
+            params.db,
+            `conversations/${workspaceId}/${agentId}/${conversationId}`,
+            undefined,
+            { enrichFromS3: false },
+          )
+        )?.compaction
+      : undefined;
+    const storedStillApplies =
+      !!stored &&
+      stored.summarizedMessageCount <= splitIndex &&
+      fingerprintMessages(messages.slice(0, stored.summarizedMessageCount)) ===
+        stored.fingerprint;
+
+    // Same older turns as last time: no new summary needed
+    if (storedStillApplies && stored.summarizedMessageCount === splitIndex) {
+      return {
+        messages: buildCompactedMessages(
+          olderMessages,
+          stored.summary,
+          recentMessages,
+        ),
+      };
+    }
+
+    const summary = await summarizeMessages({
+      ...params,
+      messages: storedStillApplies
+        ? olderMessages.slice(stored.summarizedMessageCount)
+        : olderMessages,
+      previousSummary: storedStillApplies ? stored.summary : undefined,
+    });
+    const compactedMessages = buildCompactedMessages(
+      olderMessages,
+      summary,
+      recentMessages,
+    );
+
+    const now = new Date().toISOString();
+    const event: ConversationCompactionEvent = {
+      createdAt: now,
+      summarizedMessageCount: splitIndex,
+      keptMessageCount: recentMessages.length,
+      estimatedTokensBefore,
+      estimatedTokensAfter: estimate(compactedMessages),
+      maxSafeInputTokens,
+      modelName,
+    };
+    console.log("[Conversation Compaction] Compacted conversation:", {
+      workspaceId,
+      agentId,
+      conversationId,
+      ...event,
+    });
+
+    if (persist && conversationId) {
+      await storeCompaction({
+        db: params.db,
+        workspaceId,
+        agentId,
+        conversationId,
+        conversationType: params.conversationType,
+        compaction: {
+          summary,
+          summarizedMessageCount: splitIndex,
+          fingerprint: fingerprintMessages(olderMessages),
+          modelName,
+          updatedAt: now,
+        },
+        event,
+      }).catch((error) => {
+        console.error("[Conversation Compaction] Failed to store summary:", {
+          workspaceId,
+          agentId,
+          conversationId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        Sentry.captureException(ensureError(error), {
+          tags: { context: "conversation-compaction", operation: "store" },
+          extra: { workspaceId, agentId, conversationId },
+        });
+      });
+    }
+
+    return { messages: compactedMessages, event };
+  } catch (error) {
+    console.error(
+      "[Conversation Compaction] Compaction failed, sending the conversation uncompacted:",
+      {
+        workspaceId,
+        agentId,
+        conversationId,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    );
+    Sentry.captureException(ensureError(error), {
+      tags: { context: "conversation-compaction", operation: "compact" },
+      extra: { workspaceId, agentId, conversationId },
+    });
+    return { messages };
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * End-user feedback on agent replies
+ *
+ * End users rate a reply with a thumbs up or down (widget buttons, Slack reactions, Discord
+ * buttons, or the API), optionally with a comment. A reply is identified by its conversation
+ * and the ID of the request that produced it: every message a request adds to a conversation
+ * carries that ID as `awsRequestId`, and the conversation lists it in `awsRequestIds`.
+ *
+ * Ratings are stored on the conversation record, one per reply and end user. The record also
+ * keeps positive/negative counts so conversation search can filter on feedback in DynamoDB.
+ */
+
+import { notFound } from "@hapi/boom";
+
+import type { AgentConversationRecord, DatabaseSchema } from "../tables/schema";
+
+import {
+  atomicUpdateRecord,
+  getRecord,
+  queryRecordsAsync,
+} from "./conversationRecords";
+import { buildConversationSearchQuery } from "./conversationSearch";
+
+export const FEEDBACK_COMMENT_MAX_LENGTH = 2000;
+/** Oldest ratings are dropped beyond this, e.g. in a busy Slack channel */
+const MAX_FEEDBACK_ENTRIES_PER_CONVERSATION = 200;
+/** Upper bound of conversations looked at when collecting feedback for a prompt */
+const MAX_FEEDBACK_SCANNED_CONVERSATIONS = 200;
+const FEEDBACK_EXCERPT_MAX_LENGTH = 1000;
+
+export type ConversationFeedback = NonNullable<
+  AgentConversationRecord["feedback"]
+>[number];
+export type FeedbackRating = ConversationFeedback["rating"];
+export type FeedbackSource = ConversationFeedback["source"];
+
+type FeedbackTarget = {
+  workspaceId: string;
+  agentId: string;
+  conversationId: string;
+  /** Request ID of the rated reply */
+  messageId: string;
+};
+
+const buildConversationPk = (target: FeedbackTarget) =>
+  `conversations/${target.workspaceId}/${target.agentId}/${target.conversationId}`;
+
+const isSameRater = (
+  entry: ConversationFeedback,
+  messageId: string,
+  source: FeedbackSource,
+  userId: string | undefined
+) =>
+  entry.messageId === messageId &&
+  entry.source === source &&
+  entry.userId === userId;
+
+/**
+ * Feedback list with its positive/negative counts
+ */
+export function withFeedbackCounts(feedback: ConversationFeedback[]): {
+  feedback: ConversationFeedback[];
+  positiveFeedbackCount: number;
+  negativeFeedbackCount: number;
+} {
+  const positiveFeedbackCount = feedback.filter(
+    (entry) => entry.rating === "positive"
+  ).length;
+  return {
+    feedback,
+    positiveFeedbackCount,
+    negativeFeedbackCount: feedback.length - positiveFeedbackCount,
+  };
+}
+
+async function updateFeedback(
+  db: DatabaseSchema,
+  target: FeedbackTarget,
+  update: (feedback: ConversationFeedback[]) => ConversationFeedback[]
+): Promise<AgentConversationRecord> {
+  const pk = buildConversationPk(target);
+  // Existence checks without reading messages from S3
+  const existing = await getRecord(db, pk, undefined, { enrichFromS3: false });
+  if (!existing) {
+    throw notFound("Conversation not found");
+  }
+  if (!existing.awsRequestIds?.includes(target.messageId)) {
+    throw notFound("Message not found in conversation");
+  }
+
+  return atomicUpdateRecord(db, pk, undefined, async (current) => {
+    if (!current) {
+      throw notFound("Conversation not found");
+    }
+    return { pk, ...withFeedbackCounts(update(current.feedback ?? [])) };
+  });
+}
+
+/**
+ * Records an end user's rating of a reply, replacing their earlier rating of it.
+ * Throws 404 when the conversation or the reply does not exist.
+ */
+export async function recordConversationFeedback(
+  db: DatabaseSchema,
+  params: FeedbackTarget & {
+    rating: FeedbackRating;
+    comment?: string;
+    source: FeedbackSource;
+    userId?: string;
+  }
+): Promise<ConversationFeedback> {
+  const entry: ConversationFeedback = {
+    messageId: params.messageId,
+    rating: params.rating,
+    ...(params.comment?.trim() && {
+      comment: params.comment.trim().slice(0, FEEDBACK_COMMENT_MAX_LENGTH),
+    }),
+    source: params.source,
+    ...(params.userId && { userId: params.userId }),
+    createdAt: new Date().toISOString(),
+  };
+
+  await updateFeedback(db, params, (feedback) =>
+    [
+      ...feedback.filter(
+        (existing) =>
+          !isSameRater(existing, params.messageId, params.source, params.userId)
+      ),
+      entry,
+    ].slice(-MAX_FEEDBACK_ENTRIES_PER_CONVERSATION)
+  );
+  return entry;
+}
+
+/**
+ * Removes an end user's rating of a reply if it is still the given rating
+ * (e.g. a Slack 👍 reaction was removed after the user had switched to 👎).
+ */
+export async function removeConversationFeedback(
+  db: DatabaseSchema,
+  params: FeedbackTarget & {
+    rating: FeedbackRating;
+    source: FeedbackSource;
+    userId?: string;
+  }
+): Promise<void> {
+  await updateFeedback(db, params, (feedback) =>
+    feedback.filter(
+      (existing) =>
+        !(
+          isSameRater(existing, params.messageId, params.source, params.userId) &&
+          existing.rating === params.rating
+        )
+    )
+  );
+}
+
+function getMessageText(message: unknown): string {
+  if (!message || typeof message !== "object") {
+    return "";
+  }
+  const { content } = message as { content?: unknown };
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return "";
+  }
+  return content
+    .map((part) =>
+      typeof part === "string"
+        ? part
+        : part &&
+          typeof part === "object" &&
+          (part as { type?: unknown }).type === "text" &&
+          typeof (part as { text?: unknown }).text === "string"
+        ? (part as { text: string }).text
+        : ""
+    )
+    .join("")
+    .trim();
+}
+
+function truncateExcerpt(text: string): string {
+  return text.length > FEEDBACK_EXCERPT_MAX_LENGTH
+    ? `${text.slice(0, FEEDBACK_EXCERPT_MAX_LENGTH)}…`
+    : text;
+}
+
+/**
+ * The end user's message and the agent's reply of the rated turn
+ */
+export function getRatedExchange(
+  messages: unknown[],
+  messageId: string
+): { question: string; answer: string } {
+  const turn = messages.filter(
+    (message): message is { role?: unknown; knowledgeInjection?: unknown } =>
+      !!message &&
+      typeof message === "object" &&
+      (message as { awsRequestId?: unknown }).awsRequestId === messageId
+  );
+  const question = turn
+    .filter((message) => message.role === "user" && !message.knowledgeInjection)
+    .map(getMessageText)
+    .filter(Boolean)
+    .pop();
+  const answer = turn
+    .filter((message) => message.role === "assistant")
+    .map(getMessageText)
+    .filter(Boolean)
+    .join("\n");
+  return {
+    question: truncateExcerpt(question ?? ""),
+    answer: truncateExcerpt(answer),
+  };
+}
+
+export type FeedbackExample = {
+  conversationId: string;
+  rating: FeedbackRating;
+  comment?: string;
+  source: FeedbackSource;
+  createdAt: string;
+  question: string;
+  answer: string;
+};
+
+/**
+ * The agent's most recently active conversations' feedback with the rated exchanges,
+ * newest rating first. Looks at most at MAX_FEEDBACK_SCANNED_CONVERSATIONS conversations.
+ */
+export async function listAgentFeedbackExamples(
+  db: DatabaseSchema,
+  params: {
+    workspaceId: string;
+    agentId: string;
+    rating?: FeedbackRating;
+    limit: number;
+  }
+): Promise<FeedbackExample[]> {
+  const query = buildConversationSearchQuery(
+    { workspaceId: params.workspaceId, agentId: params.agentId },
+    { feedback: params.rating ?? "any" }
+  );
+  const examples: FeedbackExample[] = [];
+  let scanned = 0;
+  for await (const record of queryRecordsAsync(db, query)) {
+    for (const entry of record.feedback ?? []) {
+      if (params.rating && entry.rating !== params.rating) {
+        continue;
+      }
+      examples.push({
+        conversationId: record.conversationId,
+        rating: entry.rating,
+        ...(entry.comment && { comment: entry.comment }),
+        source: entry.source,
+        createdAt: entry.createdAt,
+        ...getRatedExchange(record.messages, entry.messageId),
+      });
+    }
+    scanned += 1;
+    if (
+      examples.length >= params.limit ||
+      scanned >= MAX_FEEDBACK_SCANNED_CONVERSATIONS
+    ) {
+      break;
+    }
+  }
+  return examples
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, params.limit);
+}
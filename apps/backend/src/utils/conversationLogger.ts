@@ -14,6 +14,7 @@ import {
   getRecord,
   upsertRecord,
 } from "./conversationRecords";
+import { registerMemoryPartition } from "./memory/memoryPartitions";
 import {
   writeToWorkingMemory,
   type MemoryExtractionConfig,
@@ -77,12 +78,14 @@ export interface ConversationLogData {
   workspaceId: string;
   agentId: string;
   conversationId: string;
-  conversationType: "test" | "webhook" | "stream" | "scheduled";
+  conversationType: "test" | "webhook" | "stream" | "scheduled" | "mcp";
   messages: UIMessage[];
   tokenUsage?: TokenUsage;
   usesByok?: boolean;
   error?: ConversationErrorInfo;
   awsRequestId?: string; // AWS Lambda/API Gateway request ID for this message addition
+  structuredOutput?: unknown; // Parsed response when a structured-output schema was applied
+  endUserId?: string; // End user the conversation belongs to (widget, bot or webhook caller)
 }
 
 export {
@@ -94,35 +97,107 @@ export type { ConversationErrorInfo } from "./conversationErrorInfo";
 /** Re-export for backward compatibility; implementation lives in conversationRecords. */
 export { calculateTTL } from "./conversationRecords";
 
-async function resolveMemoryExtractionConfig(
+type AgentLogContext = {
+  memoryExtractionConfig?: MemoryExtractionConfig;
+  configVersion?: number;
+  memoryPartitionByEndUser?: boolean;
+};
+
+/**
+ * Agent settings used when logging a conversation: memory extraction and the
+ * configuration version that produced the reply (agents without history are
+ * on version 1, which is recorded on their first change)
+ */
+async function resolveAgentLogContext(
   db: DatabaseSchema,
   workspaceId: string,
   agentId: string,
-): Promise<MemoryExtractionConfig | undefined> {
+): Promise<AgentLogContext> {
   try {
     const agentPk = `agents/${workspaceId}/${agentId}`;
     const agent = await db.agent.get(agentPk, "agent");
     if (!agent) {
-      return undefined;
+      return {};
     }
     return {
-      enabled: agent.memoryExtractionEnabled ?? false,
-      modelName: agent.memoryExtractionModel ?? undefined,
-      prompt: agent.memoryExtractionPrompt ?? undefined,
+      memoryExtractionConfig: {
+        enabled: agent.memoryExtractionEnabled ?? false,
+        modelName: agent.memoryExtractionModel ?? undefined,
+        prompt: agent.memoryExtractionPrompt ?? undefined,
+      },
+      configVersion: agent.configVersion ?? 1,
+      memoryPartitionByEndUser: agent.memoryPartitionByEndUser ?? false,
     };
   } catch (error) {
     console.warn(
-      "[Conversation Logger] Failed to resolve memory extraction config:",
+      "[Conversation Logger] Failed to resolve agent settings:",
       {
         workspaceId,
         agentId,
         error: error instanceof Error ? error.message : String(error),
       },
     );
-    return undefined;
+    return {};
+  }
+}
+
+/**
+ * Writes conversation messages to the agent's working memory, in the end user's memory
+ * partition when the agent keeps one memory per end user
+ */
+async function writeConversationMemory(
+  db: DatabaseSchema,
+  params: {
+    workspaceId: string;
+    agentId: string;
+    conversationId: string;
+    messages: UIMessage[];
+    agentLogContext: AgentLogContext;
+    context?: AugmentedContext;
+    usesByok?: boolean;
+    endUserId?: string;
+  },
+): Promise<void> {
+  const { workspaceId, agentId, conversationId, messages, agentLogContext } =
+    params;
+  const { memoryExtractionConfig } = agentLogContext;
+  if (agentLogContext.memoryPartitionByEndUser && params.endUserId) {
+    const partitionKey = await registerMemoryPartition(db, {
+      workspaceId,
+      agentId,
+      endUserId: params.endUserId,
+    });
+    await writeToWorkingMemory(
+      agentId,
+      workspaceId,
+      conversationId,
+      messages,
+      memoryExtractionConfig,
+      params.context,
+      params.usesByok,
+      partitionKey,
+    );
+    return;
   }
+  await writeToWorkingMemory(
+    agentId,
+    workspaceId,
+    conversationId,
+    messages,
+    memoryExtractionConfig,
+    params.context,
+    params.usesByok,
+  );
 }
 
+const addAgentConfigVersion = (
+  versions: number[] | undefined,
+  configVersion: number | undefined,
+): number[] | undefined =>
+  configVersion === undefined || versions?.includes(configVersion)
+    ? versions
+    : [...(versions ?? []), configVersion];
+
 /**
  * Extract tool calls from messages
  */
@@ -922,6 +997,12 @@ export async function startConversation(
   // Initialize awsRequestIds array if awsRequestId is provided
   const awsRequestIds = data.awsRequestId ? [data.awsRequestId] : undefined;
 
+  const agentLogContext = await resolveAgentLogContext(
+    db,
+    data.workspaceId,
+    data.agentId,
+  );
+
   const conversationRecord = {
     pk,
     workspaceId: data.workspaceId,
@@ -931,12 +1012,18 @@ export async function startConversation(
     messages: expandedMessages as unknown[],
     tokenUsage: data.tokenUsage,
     usesByok: data.usesByok,
+    ...(data.endUserId && { endUserId: data.endUserId }),
     error: data.error,
+    structuredOutput: data.structuredOutput,
     costUsd: totalCostUsd > 0 ? totalCostUsd : undefined,
     rerankingCostUsd: rerankingCostUsd > 0 ? rerankingCostUsd : undefined,
     totalGenerationTimeMs:
       totalGenerationTimeMs > 0 ? totalGenerationTimeMs : undefined,
     awsRequestIds,
+    agentConfigVersions: addAgentConfigVersion(
+      undefined,
+      agentLogContext.configVersion,
+    ),
     startedAt: now,
     agentIdStartedAt: `${data.agentId}#${now}`,
     lastMessageAt: now,
@@ -955,32 +1042,16 @@ export async function startConversation(
     `[Conversation Logger] Parameter values being passed - agentId: "${data.agentId}", workspaceId: "${data.workspaceId}", conversationId: "${conversationId}"`,
   );
   try {
-    const memoryExtractionConfig = await resolveMemoryExtractionConfig(
-      db,
-      data.workspaceId,
-      data.agentId,
-    );
-    if (data.context) {
-      await writeToWorkingMemory(
-        data.agentId,
-        data.workspaceId,
-        conversationId,
-        expandedMessages,
-        memoryExtractionConfig,
-        data.context,
-        data.usesByok,
-      );
-    } else {
-      await writeToWorkingMemory(
-        data.agentId,
-        data.workspaceId,
-        conversationId,
-        expandedMessages,
-        memoryExtractionConfig,
-        undefined,
-        data.usesByok,
-      );
-    }
+    await writeConversationMemory(db, {
+      workspaceId: data.workspaceId,
+      agentId: data.agentId,
+      conversationId,
+      messages: expandedMessages,
+      agentLogContext,
+      context: data.context,
+      usesByok: data.usesByok,
+      endUserId: data.endUserId,
+    });
   } catch (error) {
     // Log error but don't throw - memory writes should not block conversation logging
     console.error(
@@ -1033,7 +1104,7 @@ export async function startConversation(
  * Track a delegation call in conversation metadata
  */
 /** Agent IDs for the workspace (meta) agent; conversations for these are not recorded */
-const WORKSPACE_META_AGENT_IDS = ["_workspace", "workspace"] as const;
+export const WORKSPACE_META_AGENT_IDS = ["_workspace", "workspace"] as const;
 
 export async function trackDelegation(
   db: DatabaseSchema,
@@ -1196,8 +1267,9 @@ export async function updateConversation(
   usesByok?: boolean,
   error?: ConversationErrorInfo,
   awsRequestId?: string,
-  conversationType?: "test" | "webhook" | "stream" | "scheduled",
+  conversationType?: "test" | "webhook" | "stream" | "scheduled" | "mcp",
   context?: AugmentedContext,
+  endUserId?: string,
 ): Promise<void> {
   const pk = `conversations/${workspaceId}/${agentId}/${conversationId}`;
 
@@ -1214,6 +1286,13 @@ export async function updateConversation(
   // This will be set inside atomicUpdate callback
   let trulyNewMessages: UIMessage[] = [];
   let expandedAllMessagesForMemory: UIMessage[] = [];
+  // A conversation belongs to the end user who started it
+  let conversationEndUserId = endUserId;
+  const agentLogContext = await resolveAgentLogContext(
+    db,
+    workspaceId,
+    agentId,
+  );
   // Use atomicUpdate to ensure thread-safe conversation updates
   await atomicUpdateRecord(db, pk, undefined, async (existing) => {
       const now = new Date().toISOString();
@@ -1305,12 +1384,17 @@ export async function updateConversation(
           messages: expandedMessages as unknown[],
           tokenUsage: additionalTokenUsage,
           usesByok: usesByok,
+          ...(endUserId && { endUserId }),
           error,
           costUsd: totalCostUsd > 0 ? totalCostUsd : undefined,
           rerankingCostUsd: rerankingCostUsd > 0 ? rerankingCostUsd : undefined,
           totalGenerationTimeMs:
             totalGenerationTimeMs > 0 ? totalGenerationTimeMs : undefined,
           awsRequestIds,
+          agentConfigVersions: addAgentConfigVersion(
+            undefined,
+            agentLogContext.configVersion,
+          ),
           startedAt: now,
           agentIdStartedAt: `${agentId}#${now}`,
           lastMessageAt: now,
@@ -1470,6 +1554,8 @@ export async function updateConversation(
         );
       }
 
+      conversationEndUserId = existing.endUserId ?? endUserId;
+
       // Update conversation, preserving existing fields including delegations
       const conversationRecord = {
         pk,
@@ -1487,12 +1573,17 @@ export async function updateConversation(
           totalGenerationTimeMs > 0 ? totalGenerationTimeMs : undefined,
         usesByok:
           existing.usesByok !== undefined ? existing.usesByok : usesByok,
+        ...(conversationEndUserId && { endUserId: conversationEndUserId }),
         error: error ?? (existing as { error?: ConversationErrorInfo }).error,
         startedAt: existing.startedAt,
         agentIdStartedAt:
           (existing as { agentIdStartedAt?: string }).agentIdStartedAt ??
           `${existing.agentId}#${existing.startedAt}`,
         awsRequestIds: updatedRequestIds,
+        agentConfigVersions: addAgentConfigVersion(
+          (existing as { agentConfigVersions?: number[] }).agentConfigVersions,
+          agentLogContext.configVersion,
+        ),
         // Always preserve delegations if they exist (even if empty array)
         // This is critical to prevent overwriting delegations added by trackDelegation
         ...(existingDelegations !== undefined
@@ -1515,32 +1606,16 @@ export async function updateConversation(
       `[Conversation Logger] Parameter values being passed - agentId: "${agentId}", workspaceId: "${workspaceId}", conversationId: "${conversationId}"`,
     );
     try {
-      const memoryExtractionConfig = await resolveMemoryExtractionConfig(
-        db,
+      await writeConversationMemory(db, {
         workspaceId,
         agentId,
-      );
-      if (context) {
-        await writeToWorkingMemory(
-          agentId,
-          workspaceId,
-          conversationId,
-          expandedAllMessagesForMemory,
-          memoryExtractionConfig,
-          context,
-          usesByok,
-        );
-      } else {
-        await writeToWorkingMemory(
-          agentId,
-          workspaceId,
-          conversationId,
-          expandedAllMessagesForMemory,
-          memoryExtractionConfig,
-          undefined,
-          usesByok,
-        );
-      }
+        conversationId,
+        messages: expandedAllMessagesForMemory,
+        agentLogContext,
+        context,
+        usesByok,
+        endUserId: conversationEndUserId,
+      });
     } catch (error) {
       // Log error but don't throw - memory writes should not block conversation logging
       console.error(
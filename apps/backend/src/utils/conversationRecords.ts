@@ -309,6 +309,22 @@ export async function queryRecordsPaginated(
   };
 }
 
+/**
+ * Query conversation records one at a time, following DynamoDB pages on demand. Each item is
+ * enriched from S3 right before it is yielded, so callers that stop early (e.g. a search that
+ * has found enough matches) never fetch messages of records they do not look at.
+ */
+export async function* queryRecordsAsync(
+  db: DatabaseSchema,
+  query: Query,
+  options?: QueryRecordsOptions,
+): AsyncGenerator<AgentConversationRecord, void, unknown> {
+  for await (const item of db["agent-conversations"].queryAsync(query)) {
+    const raw = item as AgentConversationRecord & { messagesS3Key?: string };
+    yield options?.enrichFromS3 === false ? raw : await enrichRecordFromS3(raw);
+  }
+}
+
 function isRecordNotFoundError(error: unknown): boolean {
   if (!error || typeof error !== "object" || !("message" in error)) {
     return false;
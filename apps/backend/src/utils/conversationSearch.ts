@@ -0,0 +1,608 @@
+/**
+ * Conversation search
+ *
+ * Finds conversations of an agent, or of every agent in a workspace, by message text and
+ * metadata. Conversations are read newest first (by lastMessageAt) from the
+ * byAgentIdAndLastMessageAt / byWorkspaceIdAndLastMessageAt indexes:
+ *
+ * - Date range, conversation type, error, cost, delegation and feedback filters run in DynamoDB
+ *   (key condition and FilterExpression), so non-matching records are never returned.
+ * - Message text, model and tool filters need the messages (possibly stored in S3) and run in
+ *   memory; eval score filters look up the conversation's eval results.
+ *
+ * A request stops once it has `limit` matches or has looked at MAX_SCANNED_CONVERSATIONS
+ * records, so a page of a selective search can hold fewer matches than `limit` (even none)
+ * while `nextCursor` is still set. The cursor is the position of the last record looked at.
+ */
+
+import { badRequest } from "@hapi/boom";
+
+import type {
+  AgentConversationRecord,
+  DatabaseSchema,
+  Query,
+} from "../tables/schema";
+
+import { queryRecordsAsync } from "./conversationRecords";
+
+/** Upper bound of records looked at per request, matching or not */
+const MAX_SCANNED_CONVERSATIONS = 500;
+
+const MAX_SEARCH_TEXT_LENGTH = 200;
+
+export const CONVERSATION_TYPES = [
+  "test",
+  "webhook",
+  "stream",
+  "scheduled",
+  "mcp",
+] as const satisfies readonly AgentConversationRecord["conversationType"][];
+
+/** End-user feedback filter: a rating of either kind, a positive/negative one, or none */
+export const FEEDBACK_FILTERS = ["any", "positive", "negative", "none"] as const;
+
+export type ConversationSearchFilters = {
+  /** Case-insensitive text contained in a user or assistant message */
+  text?: string;
+  conversationTypes?: AgentConversationRecord["conversationType"][];
+  /** ISO datetime; lower bound of lastMessageAt (inclusive) */
+  from?: string;
+  /** ISO datetime; upper bound of lastMessageAt (inclusive) */
+  to?: string;
+  hasError?: boolean;
+  /** Nano-dollars */
+  minCostUsd?: number;
+  /** Nano-dollars */
+  maxCostUsd?: number;
+  /** Case-insensitive part of the model name of any reply */
+  model?: string;
+  /** Exact name of a tool called in the conversation */
+  tool?: string;
+  /** Bounds (0-100) of the average score of the conversation's completed evaluations */
+  minEvalScore?: number;
+  maxEvalScore?: number;
+  /** true: a judge detected a critical failure; false: evaluated without one */
+  criticalFailure?: boolean;
+  hasDelegations?: boolean;
+  feedback?: (typeof FEEDBACK_FILTERS)[number];
+};
+
+function parseBooleanParam(name: string, value: unknown): boolean | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  if (value === "true") {
+    return true;
+  }
+  if (value === "false") {
+    return false;
+  }
+  throw badRequest(`${name} must be "true" or "false"`);
+}
+
+function parseNumberParam(
+  name: string,
+  value: unknown,
+  range: { min: number; max?: number }
+): number | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const parsed = typeof value === "string" ? Number(value) : NaN;
+  if (
+    !Number.isFinite(parsed) ||
+    parsed < range.min ||
+    (range.max !== undefined && parsed > range.max)
+  ) {
+    throw badRequest(
+      range.max !== undefined
+        ? `${name} must be a number between ${range.min} and ${range.max}`
+        : `${name} must be a number of at least ${range.min}`
+    );
+  }
+  return parsed;
+}
+
+function parseDateParam(name: string, value: unknown): string | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const time = typeof value === "string" ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    throw badRequest(`${name} must be an ISO 8601 date`);
+  }
+  // Same format as the stored lastMessageAt, so the key condition compares like with like
+  return new Date(time).toISOString();
+}
+
+function parseStringParam(
+  name: string,
+  value: unknown
+): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw badRequest(`${name} must be a string`);
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > MAX_SEARCH_TEXT_LENGTH) {
+    throw badRequest(
+      `${name} must be at most ${MAX_SEARCH_TEXT_LENGTH} characters`
+    );
+  }
+  return trimmed || undefined;
+}
+
+/**
+ * Reads the search filters from the query string of a conversation list request.
+ * Throws a 400 for invalid values.
+ */
+export function parseConversationSearchFilters(
+  query: Record<string, unknown>
+): ConversationSearchFilters {
+  let conversationTypes: ConversationSearchFilters["conversationTypes"];
+  const typeParam = parseStringParam("conversationType", query.conversationType);
+  if (typeParam) {
+    const types = typeParam.split(",").map((type) => type.trim());
+    const invalid = types.filter(
+      (type) =>
+        !CONVERSATION_TYPES.includes(
+          type as (typeof CONVERSATION_TYPES)[number]
+        )
+    );
+    if (invalid.length > 0) {
+      throw badRequest(
+        `conversationType must be a comma-separated list of: ${CONVERSATION_TYPES.join(", ")}`
+      );
+    }
+    conversationTypes = [...new Set(types)] as typeof conversationTypes;
+  }
+
+  const filters: ConversationSearchFilters = {
+    text: parseStringParam("q", query.q),
+    conversationTypes,
+    from: parseDateParam("from", query.from),
+    to: parseDateParam("to", query.to),
+    hasError: parseBooleanParam("hasError", query.hasError),
+    minCostUsd: parseNumberParam("minCostUsd", query.minCostUsd, { min: 0 }),
+    maxCostUsd: parseNumberParam("maxCostUsd", query.maxCostUsd, { min: 0 }),
+    model: parseStringParam("model", query.model),
+    tool: parseStringParam("tool", query.tool),
+    minEvalScore: parseNumberParam("minEvalScore", query.minEvalScore, {
+      min: 0,
+      max: 100,
+    }),
+    maxEvalScore: parseNumberParam("maxEvalScore", query.maxEvalScore, {
+      min: 0,
+      max: 100,
+    }),
+    criticalFailure: parseBooleanParam(
+      "criticalFailure",
+      query.criticalFailure
+    ),
+    hasDelegations: parseBooleanParam("hasDelegations", query.hasDelegations),
+    feedback: parseStringParam("feedback", query.feedback) as
+      | ConversationSearchFilters["feedback"]
+      | undefined,
+  };
+
+  if (
+    filters.feedback !== undefined &&
+    !FEEDBACK_FILTERS.includes(filters.feedback)
+  ) {
+    throw badRequest(`feedback must be one of: ${FEEDBACK_FILTERS.join(", ")}`);
+  }
+
+  if (filters.from && filters.to && filters.from > filters.to) {
+    throw badRequest("from must not be after to");
+  }
+  if (
+    filters.minCostUsd !== undefined &&
+    filters.maxCostUsd !== undefined &&
+    filters.minCostUsd > filters.maxCostUsd
+  ) {
+    throw badRequest("minCostUsd must not be greater than maxCostUsd");
+  }
+  if (
+    filters.minEvalScore !== undefined &&
+    filters.maxEvalScore !== undefined &&
+    filters.minEvalScore > filters.maxEvalScore
+  ) {
+    throw badRequest("minEvalScore must not be greater than maxEvalScore");
+  }
+  return filters;
+}
+
+export function hasConversationSearchFilters(
+  filters: ConversationSearchFilters
+): boolean {
+  return Object.values(filters).some((value) => value !== undefined);
+}
+
+type SearchCursor = {
+  /** lastMessageAt of the last record looked at */
+  lastMessageAt: string;
+  /** Records with that lastMessageAt already looked at, skipped when resuming */
+  pks: string[];
+};
+
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): SearchCursor {
+  try {
+    const parsed = JSON.parse(
+      Buffer.from(cursor, "base64url").toString()
+    ) as SearchCursor;
+    if (typeof parsed.lastMessageAt === "string" && Array.isArray(parsed.pks)) {
+      return parsed;
+    }
+  } catch {
+    // Fall through to the 400 below
+  }
+  throw badRequest("Invalid cursor");
+}
+
+/**
+ * Builds the index query: key condition for the scope and date range, FilterExpression for
+ * the filters DynamoDB can evaluate on the record's own attributes.
+ */
+export function buildConversationSearchQuery(
+  scope: { workspaceId: string; agentId?: string },
+  filters: ConversationSearchFilters,
+  cursor?: SearchCursor
+): Query {
+  const values: Record<string, unknown> = {
+    ":workspaceId": scope.workspaceId,
+  };
+  const names: Record<string, string> = {};
+  const keyConditions = scope.agentId
+    ? ["agentId = :agentId"]
+    : ["workspaceId = :workspaceId"];
+  // Conversations of an agent are additionally checked against the workspace (security check)
+  const filterConditions = scope.agentId ? ["workspaceId = :workspaceId"] : [];
+  if (scope.agentId) {
+    values[":agentId"] = scope.agentId;
+  }
+
+  // Resuming from a cursor: records at the cursor's timestamp are re-read and skipped by pk
+  const upper = cursor?.lastMessageAt ?? filters.to;
+  if (filters.from && upper) {
+    keyConditions.push("lastMessageAt BETWEEN :from AND :to");
+    values[":from"] = filters.from;
+    values[":to"] = upper;
+  } else if (filters.from) {
+    keyConditions.push("lastMessageAt >= :from");
+    values[":from"] = filters.from;
+  } else if (upper) {
+    keyConditions.push("lastMessageAt <= :to");
+    values[":to"] = upper;
+  }
+
+  if (filters.conversationTypes && filters.conversationTypes.length > 0) {
+    const placeholders = filters.conversationTypes.map((type, index) => {
+      values[`:type${index}`] = type;
+      return `:type${index}`;
+    });
+    filterConditions.push(`conversationType IN (${placeholders.join(", ")})`);
+  }
+  if (filters.hasError !== undefined) {
+    names["#error"] = "error";
+    filterConditions.push(
+      filters.hasError
+        ? "attribute_exists(#error)"
+        : "attribute_not_exists(#error)"
+    );
+  }
+  if (filters.minCostUsd !== undefined) {
+    values[":minCostUsd"] = filters.minCostUsd;
+    filterConditions.push("costUsd >= :minCostUsd");
+  }
+  if (filters.maxCostUsd !== undefined) {
+    values[":maxCostUsd"] = filters.maxCostUsd;
+    filterConditions.push(
+      "(attribute_not_exists(costUsd) OR costUsd <= :maxCostUsd)"
+    );
+  }
+  if (filters.hasDelegations !== undefined) {
+    values[":zero"] = 0;
+    filterConditions.push(
+      filters.hasDelegations
+        ? "size(delegations) > :zero"
+        : "(attribute_not_exists(delegations) OR size(delegations) = :zero)"
+    );
+  }
+  if (filters.feedback !== undefined) {
+    values[":zero"] = 0;
+    const hasPositive = "positiveFeedbackCount > :zero";
+    const hasNegative = "negativeFeedbackCount > :zero";
+    filterConditions.push(
+      filters.feedback === "positive"
+        ? hasPositive
+        : filters.feedback === "negative"
+        ? hasNegative
+        : filters.feedback === "any"
+        ? `(${hasPositive} OR ${hasNegative})`
+        : `NOT (${hasPositive} OR ${hasNegative})`
+    );
+  }
+
+  return {
+    IndexName: scope.agentId
+      ? "byAgentIdAndLastMessageAt"
+      : "byWorkspaceIdAndLastMessageAt",
+    KeyConditionExpression: keyConditions.join(" AND "),
+    ...(filterConditions.length > 0 && {
+      FilterExpression: filterConditions.join(" AND "),
+    }),
+    ExpressionAttributeValues: values,
+    ...(Object.keys(names).length > 0 && { ExpressionAttributeNames: names }),
+    ScanIndexForward: false, // Most recent first
+  };
+}
+
+type MessagePart = { type?: unknown; text?: unknown; toolName?: unknown };
+
+function getMessageParts(message: unknown): {
+  role: unknown;
+  parts: Array<string | MessagePart>;
+  modelName: unknown;
+  knowledgeInjection: unknown;
+} | null {
+  if (!message || typeof message !== "object") {
+    return null;
+  }
+  const { role, content, modelName, knowledgeInjection } = message as {
+    role?: unknown;
+    content?: unknown;
+    modelName?: unknown;
+    knowledgeInjection?: unknown;
+  };
+  const parts =
+    typeof content === "string"
+      ? [content]
+      : Array.isArray(content)
+      ? (content.filter(
+          (part) =>
+            typeof part === "string" || (!!part && typeof part === "object")
+        ) as Array<string | MessagePart>)
+      : [];
+  return { role, parts, modelName, knowledgeInjection };
+}
+
+/**
+ * Whether the messages of a conversation match the text, model and tool filters.
+ * Text is searched in user and assistant messages only; injected knowledge is skipped so
+ * a document snippet does not make every conversation that retrieved it match.
+ */
+export function matchesConversationContent(
+  record: Pick<AgentConversationRecord, "messages" | "modelName">,
+  filters: Pick<ConversationSearchFilters, "text" | "model" | "tool">
+): boolean {
+  const text = filters.text?.toLowerCase();
+  const model = filters.model?.toLowerCase();
+  let textFound = !text;
+  let modelFound =
+    !model || (record.modelName?.toLowerCase().includes(model) ?? false);
+  let toolFound = !filters.tool;
+
+  for (const message of record.messages) {
+    if (textFound && modelFound && toolFound) {
+      break;
+    }
+    const parsed = getMessageParts(message);
+    if (!parsed) {
+      continue;
+    }
+    if (
+      !modelFound &&
+      typeof parsed.modelName === "string" &&
+      parsed.modelName.toLowerCase().includes(model!)
+    ) {
+      modelFound = true;
+    }
+    for (const part of parsed.parts) {
+      if (
+        !textFound &&
+        (parsed.role === "user" || parsed.role === "assistant") &&
+        !parsed.knowledgeInjection
+      ) {
+        const partText =
+          typeof part === "string"
+            ? part
+            : part.type === "text" && typeof part.text === "string"
+            ? part.text
+            : undefined;
+        if (partText?.toLowerCase().includes(text!)) {
+          textFound = true;
+        }
+      }
+      if (
+        !toolFound &&
+        typeof part === "object" &&
+        (part.type === "tool-call" || part.type === "tool-result") &&
+        part.toolName === filters.tool
+      ) {
+        toolFound = true;
+      }
+    }
+  }
+  return textFound && modelFound && toolFound;
+}
+
+/**
+ * Whether the eval results of a conversation match the eval filters. The score of an
+ * evaluation is the mean of its goal completion, tool efficiency and faithfulness scores;
+ * conversations without completed evaluations never match.
+ */
+export function matchesEvalResults(
+  results: Array<{
+    status?: "completed" | "failed";
+    scoreGoalCompletion?: number | null;
+    scoreToolEfficiency?: number | null;
+    scoreFaithfulness?: number | null;
+    criticalFailureDetected: boolean;
+  }>,
+  filters: Pick<
+    ConversationSearchFilters,
+    "minEvalScore" | "maxEvalScore" | "criticalFailure"
+  >
+): boolean {
+  const completed = results.filter(
+    (result) => (result.status ?? "completed") === "completed"
+  );
+  if (completed.length === 0) {
+    return false;
+  }
+  if (filters.criticalFailure !== undefined) {
+    const detected = completed.some((result) => result.criticalFailureDetected);
+    if (detected !== filters.criticalFailure) {
+      return false;
+    }
+  }
+  if (
+    filters.minEvalScore === undefined &&
+    filters.maxEvalScore === undefined
+  ) {
+    return true;
+  }
+  const scored = completed.filter(
+    (result) =>
+      typeof result.scoreGoalCompletion === "number" &&
+      typeof result.scoreToolEfficiency === "number" &&
+      typeof result.scoreFaithfulness === "number"
+  );
+  if (scored.length === 0) {
+    return false;
+  }
+  const score =
+    scored.reduce(
+      (sum, result) =>
+        sum +
+        (result.scoreGoalCompletion! +
+          result.scoreToolEfficiency! +
+          result.scoreFaithfulness!) /
+          3,
+      0
+    ) / scored.length;
+  return (
+    (filters.minEvalScore === undefined || score >= filters.minEvalScore) &&
+    (filters.maxEvalScore === undefined || score <= filters.maxEvalScore)
+  );
+}
+
+async function matchesEvalFilters(
+  db: DatabaseSchema,
+  record: AgentConversationRecord,
+  filters: ConversationSearchFilters
+): Promise<boolean> {
+  if (
+    filters.minEvalScore === undefined &&
+    filters.maxEvalScore === undefined &&
+    filters.criticalFailure === undefined
+  ) {
+    return true;
+  }
+  const { items } = await db["agent-eval-result"].query({
+    IndexName: "byConversationId",
+    KeyConditionExpression: "conversationId = :conversationId",
+    FilterExpression: "workspaceId = :workspaceId",
+    ExpressionAttributeValues: {
+      ":conversationId": record.conversationId,
+      ":workspaceId": record.workspaceId,
+    },
+  });
+  return matchesEvalResults(items, filters);
+}
+
+/**
+ * API representation of a conversation in lists
+ */
+export function toConversationSummary(record: AgentConversationRecord) {
+  // Extract conversationId from pk: "conversations/{workspaceId}/{agentId}/{conversationId}"
+  const conversationId = record.pk.split("/")[3];
+  return {
+    id: conversationId,
+    agentId: record.agentId,
+    conversationType: record.conversationType,
+    startedAt: record.startedAt,
+    lastMessageAt: record.lastMessageAt,
+    messageCount: Array.isArray(record.messages) ? record.messages.length : 0,
+    tokenUsage: record.tokenUsage || null,
+    costUsd: record.costUsd,
+    rerankingCostUsd: record.rerankingCostUsd,
+    hasError: !!record.error,
+    totalGenerationTimeMs: record.totalGenerationTimeMs || undefined,
+    agentConfigVersions: record.agentConfigVersions,
+    positiveFeedbackCount: record.positiveFeedbackCount ?? 0,
+    negativeFeedbackCount: record.negativeFeedbackCount ?? 0,
+  };
+}
+
+/**
+ * Searches conversations newest first. Without agentId, searches every agent of the workspace.
+ */
+export async function searchConversations(
+  db: DatabaseSchema,
+  params: {
+    workspaceId: string;
+    agentId?: string;
+    filters: ConversationSearchFilters;
+    limit: number;
+    cursor?: string | null;
+  }
+): Promise<{
+  items: AgentConversationRecord[];
+  nextCursor: string | null;
+  scannedCount: number;
+}> {
+  const { workspaceId, agentId, filters, limit } = params;
+  const cursor = params.cursor ? decodeCursor(params.cursor) : undefined;
+  const query = buildConversationSearchQuery(
+    { workspaceId, agentId },
+    filters,
+    cursor
+  );
+  const needsMessages = !!(filters.text || filters.model || filters.tool);
+
+  const items: AgentConversationRecord[] = [];
+  let scannedCount = 0;
+  let position: SearchCursor | undefined = cursor;
+  let exhausted = true;
+
+  for await (const record of queryRecordsAsync(db, query)) {
+    if (
+      cursor &&
+      record.lastMessageAt === cursor.lastMessageAt &&
+      cursor.pks.includes(record.pk)
+    ) {
+      continue;
+    }
+    if (items.length >= limit || scannedCount >= MAX_SCANNED_CONVERSATIONS) {
+      exhausted = false;
+      break;
+    }
+
+    scannedCount += 1;
+    position =
+      position?.lastMessageAt === record.lastMessageAt
+        ? { lastMessageAt: record.lastMessageAt, pks: [...position.pks, record.pk] }
+        : { lastMessageAt: record.lastMessageAt, pks: [record.pk] };
+
+    if (needsMessages && !matchesConversationContent(record, filters)) {
+      continue;
+    }
+    if (!(await matchesEvalFilters(db, record, filters))) {
+      continue;
+    }
+    items.push(record);
+  }
+
+  return {
+    items,
+    nextCursor: !exhausted && position ? encodeCursor(position) : null,
+    scannedCount,
+  };
+}
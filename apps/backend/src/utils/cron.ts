@@ -24,6 +24,21 @@ function normalizeCronDate(value: unknown): Date {
   return new Date(value as string);
 }
 
+/**
+ * Checks that a timezone is a valid IANA timezone name (e.g. "Europe/Lisbon")
+ */
+export function isValidTimezone(timezone: string): boolean {
+  if (!timezone) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export function isValidCronExpression(expression: string): boolean {
   try {
     CronExpressionParser.parse(expression, DEFAULT_CRON_OPTIONS);
@@ -33,9 +48,19 @@ export function isValidCronExpression(expression: string): boolean {
   }
 }
 
-export function getNextRunAt(expression: string, fromDate: Date): Date {
+/**
+ * Returns the next time the cron expression fires after fromDate.
+ * The expression is evaluated in the given IANA timezone, so "0 9 * * 1-5" in
+ * "Europe/Lisbon" stays at 9am local time across DST changes.
+ */
+export function getNextRunAt(
+  expression: string,
+  fromDate: Date,
+  timezone: string = DEFAULT_CRON_OPTIONS.tz
+): Date {
   const interval = CronExpressionParser.parse(expression, {
     ...DEFAULT_CRON_OPTIONS,
+    tz: timezone,
     currentDate: fromDate,
   });
   return normalizeCronDate(interval.next());
@@ -43,8 +68,9 @@ export function getNextRunAt(expression: string, fromDate: Date): Date {
 
 export function getNextRunAtEpochSeconds(
   expression: string,
-  fromDate: Date
+  fromDate: Date,
+  timezone?: string
 ): number {
-  const next = getNextRunAt(expression, fromDate);
+  const next = getNextRunAt(expression, fromDate, timezone);
   return Math.floor(next.getTime() / 1000);
 }
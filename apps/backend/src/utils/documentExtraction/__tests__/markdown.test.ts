@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  csvRowsToSections,
+  htmlToMarkdown,
+  parseCsv,
+  splitMarkdownIntoSections,
+} from "../markdown";
+
+describe("htmlToMarkdown", () => {
+  it("converts headings, paragraphs and lists", () => {
+    const markdown = htmlToMarkdown(
+      "<h2>Plans</h2><p>Choose a <strong>plan</strong>.</p><ul><li>Free</li><li>Pro</li></ul>"
+    );
+
+    expect(markdown).toContain("## Plans");
+    expect(markdown).toContain("Choose a **plan**.");
+    expect(markdown).toMatch(/-\s+Free/);
+    expect(markdown).toMatch(/-\s+Pro/);
+  });
+
+  it("drops scripts and styles", () => {
+    const markdown = htmlToMarkdown(
+      "<style>p { color: red; }</style><p>Visible</p><script>alert(1)</script>"
+    );
+
+    expect(markdown).toBe("Visible");
+  });
+});
+
+describe("splitMarkdownIntoSections", () => {
+  it("splits at headings and anchors each section by its heading", () => {
+    const sections = splitMarkdownIntoSections(
+      "Intro text\n\n# Overview\n\nFirst\n\n## Pricing\n\nSecond\n\n#### Detail\n\nStill pricing"
+    );
+
+    expect(sections).toEqual([
+      { text: "Intro text" },
+      { text: "# Overview\n\nFirst", anchor: 'section "Overview"' },
+      {
+        text: "## Pricing\n\nSecond\n\n#### Detail\n\nStill pricing",
+        anchor: 'section "Pricing"',
+      },
+    ]);
+  });
+
+  it("ignores headings inside code fences", () => {
+    const sections = splitMarkdownIntoSections(
+      "# Setup\n\n```bash\n# not a heading\n```"
+    );
+
+    expect(sections).toHaveLength(1);
+    expect(sections[0].anchor).toBe('section "Setup"');
+  });
+
+  it("returns no sections for empty markdown", () => {
+    expect(splitMarkdownIntoSections("  \n\n")).toEqual([]);
+  });
+});
+
+describe("parseCsv", () => {
+  it("parses quoted fields, escaped quotes and CRLF line endings", () => {
+    const rows = parseCsv(
+      'name,notes\r\n"Smith, Jane","said ""hi"""\r\nBob,"multi\nline"\r\n'
+    );
+
+    expect(rows).toEqual([
+      ["name", "notes"],
+      ["Smith, Jane", 'said "hi"'],
+      ["Bob", "multi\nline"],
+    ]);
+  });
+
+  it("strips a byte order mark and skips empty lines", () => {
+    expect(parseCsv("\uFEFFa,b\n\n1,2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+});
+
+describe("csvRowsToSections", () => {
+  it("repeats the header in every section and anchors row ranges", () => {
+    const sections = csvRowsToSections(
+      [["id", "name"], ["1", "a"], ["2", "b"], ["3", "c"]],
+      2
+    );
+
+    expect(sections).toEqual([
+      {
+        text: "| id | name |\n| --- | --- |\n| 1 | a |\n| 2 | b |",
+        anchor: "rows 1-2",
+      },
+      {
+        text: "| id | name |\n| --- | --- |\n| 3 | c |",
+        anchor: "row 3",
+      },
+    ]);
+  });
+
+  it("escapes pipes and pads short rows", () => {
+    const [section] = csvRowsToSections([["a", "b"], ["x|y"]]);
+
+    expect(section.text).toContain("| x\\|y |  |");
+  });
+
+  it("returns no sections for an empty file", () => {
+    expect(csvRowsToSections([])).toEqual([]);
+  });
+});
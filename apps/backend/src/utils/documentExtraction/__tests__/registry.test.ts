@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  extractDocumentText,
+  getReplacedDocumentFilename,
+  getSupportedDocumentExtensions,
+  isPlainTextDocumentType,
+  isSupportedDocumentType,
+  registerDocumentExtractor,
+  resolveDocumentContentType,
+  resolveDocumentExtractor,
+} from "../registry";
+
+describe("documentExtraction registry", () => {
+  describe("resolveDocumentExtractor", () => {
+    it("resolves by file extension before content type", () => {
+      expect(
+        resolveDocumentExtractor("application/vnd.ms-excel", "data.csv")?.name
+      ).toBe("csv");
+      expect(
+        resolveDocumentExtractor("application/octet-stream", "guide.PDF")?.name
+      ).toBe("pdf");
+    });
+
+    it("falls back to the content type when the extension is unknown", () => {
+      expect(
+        resolveDocumentExtractor("text/html; charset=utf-8", "page")?.name
+      ).toBe("html");
+    });
+
+    it("returns undefined for unsupported files", () => {
+      expect(
+        resolveDocumentExtractor("image/png", "diagram.png")
+      ).toBeUndefined();
+      expect(isSupportedDocumentType("image/png", "diagram.png")).toBe(false);
+    });
+  });
+
+  describe("getReplacedDocumentFilename", () => {
+    it("takes the extension of the uploaded file", () => {
+      expect(getReplacedDocumentFilename("notes.md", "scan.pdf")).toBe(
+        "notes.pdf"
+      );
+      expect(getReplacedDocumentFilename("report", "report.docx")).toBe(
+        "report.docx"
+      );
+    });
+
+    it("keeps the filename when the type does not change", () => {
+      expect(getReplacedDocumentFilename("Guide.PDF", "new.pdf")).toBe(
+        "Guide.PDF"
+      );
+    });
+  });
+
+  describe("resolveDocumentContentType", () => {
+    it("keeps a specific content type handled by the extractor", () => {
+      expect(resolveDocumentContentType("text/markdown", "notes.md")).toBe(
+        "text/markdown"
+      );
+    });
+
+    it("replaces generic content types with the extractor's canonical type", () => {
+      expect(
+        resolveDocumentContentType("application/octet-stream", "report.docx")
+      ).toBe(
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+      );
+      expect(resolveDocumentContentType("", "table.csv")).toBe("text/csv");
+    });
+  });
+
+  it("reports plain-text types as editable", () => {
+    expect(isPlainTextDocumentType("text/plain", "notes.txt")).toBe(true);
+    expect(isPlainTextDocumentType("application/pdf", "guide.pdf")).toBe(false);
+  });
+
+  it("lists supported extensions", () => {
+    expect(getSupportedDocumentExtensions()).toEqual(
+      expect.arrayContaining([".md", ".pdf", ".docx", ".html", ".csv"])
+    );
+  });
+
+  describe("extractDocumentText", () => {
+    it("returns plain text as a single unanchored section", async () => {
+      const extracted = await extractDocumentText(
+        Buffer.from("Hello world"),
+        "text/plain",
+        "hello.txt"
+      );
+
+      expect(extracted).toEqual({
+        markdown: "Hello world",
+        sections: [{ text: "Hello world" }],
+      });
+    });
+
+    it("converts HTML into heading sections", async () => {
+      const extracted = await extractDocumentText(
+        Buffer.from("<h1>FAQ</h1><p>Answers</p>"),
+        "text/html",
+        "faq.html"
+      );
+
+      expect(extracted.markdown).toBe("# FAQ\n\nAnswers");
+      expect(extracted.sections).toEqual([
+        { text: "# FAQ\n\nAnswers", anchor: 'section "FAQ"' },
+      ]);
+    });
+
+    it("converts CSV into table sections", async () => {
+      const extracted = await extractDocumentText(
+        Buffer.from("sku,price\nA1,10\n"),
+        "text/csv",
+        "prices.csv"
+      );
+
+      expect(extracted.sections).toEqual([
+        { text: "| sku | price |\n| --- | --- |\n| A1 | 10 |", anchor: "row 1" },
+      ]);
+    });
+
+    it("rejects unsupported types", async () => {
+      await expect(
+        extractDocumentText(Buffer.from("x"), "image/png", "diagram.png")
+      ).rejects.toThrow('Unsupported document type "image/png"');
+    });
+
+    it("wraps parser errors with the file name and extractor", async () => {
+      await expect(
+        extractDocumentText(
+          Buffer.from("not a zip archive"),
+          undefined,
+          "broken.docx"
+        )
+      ).rejects.toThrow("Failed to extract text from broken.docx (docx)");
+    });
+  });
+
+  it("lets registered extractors override built-in handling", async () => {
+    registerDocumentExtractor({
+      name: "custom-csv",
+      contentTypes: ["text/csv"],
+      extensions: [".csv"],
+      isPlainText: false,
+      async extract() {
+        return { markdown: "custom", sections: [{ text: "custom" }] };
+      },
+    });
+
+    expect(resolveDocumentExtractor("text/csv", "data.csv")?.name).toBe(
+      "custom-csv"
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import mammoth from "mammoth";
+import { extractText } from "unpdf";
+
+import {
+  csvRowsToSections,
+  htmlToMarkdown,
+  parseCsv,
+  splitMarkdownIntoSections,
+} from "./markdown";
+import type { DocumentTextExtractor, ExtractedDocument } from "./types";
+
+function fromMarkdown(markdown: string): ExtractedDocument {
+  return { markdown, sections: splitMarkdownIntoSections(markdown) };
+}
+
+/**
+ * Markdown and plain text: indexed as-is (single section, no anchor),
+ * matching how text documents have always been indexed.
+ */
+export const textExtractor: DocumentTextExtractor = {
+  name: "text",
+  contentTypes: ["text/markdown", "text/plain", "text/x-markdown"],
+  extensions: [".md", ".txt", ".markdown"],
+  isPlainText: true,
+  async extract(buffer) {
+    const text = buffer.toString("utf-8");
+    return {
+      markdown: text,
+      sections: text.trim().length > 0 ? [{ text }] : [],
+    };
+  },
+};
+
+/**
+ * PDF: one section per page, anchored as "page N".
+ */
+export const pdfExtractor: DocumentTextExtractor = {
+  name: "pdf",
+  contentTypes: ["application/pdf"],
+  extensions: [".pdf"],
+  isPlainText: false,
+  async extract(buffer) {
+    const { text: pages } = await extractText(new Uint8Array(buffer), {
+      mergePages: false,
+    });
+    const nonEmptyPages = pages
+      .map((pageText, index) => ({
+        pageNumber: index + 1,
+        text: pageText.trim(),
+      }))
+      .filter((page) => page.text.length > 0);
+    return {
+      markdown: nonEmptyPages
+        .map((page) => `## Page ${page.pageNumber}\n\n${page.text}`)
+        .join("\n\n"),
+      sections: nonEmptyPages.map((page) => ({
+        text: page.text,
+        anchor: `page ${page.pageNumber}`,
+      })),
+    };
+  },
+};
+
+/**
+ * DOCX: converted to HTML with mammoth, then to markdown; sections follow headings.
+ */
+export const docxExtractor: DocumentTextExtractor = {
+  name: "docx",
+  contentTypes: [
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ],
+  extensions: [".docx"],
+  isPlainText: false,
+  async extract(buffer) {
+    const { value: html } = await mammoth.convertToHtml({ buffer });
+    return fromMarkdown(htmlToMarkdown(html));
+  },
+};
+
+/**
+ * HTML: converted to markdown; sections follow headings.
+ */
+export const htmlExtractor: DocumentTextExtractor = {
+  name: "html",
+  contentTypes: ["text/html", "application/xhtml+xml"],
+  extensions: [".html", ".htm"],
+  isPlainText: false,
+  async extract(buffer) {
+    return fromMarkdown(htmlToMarkdown(buffer.toString("utf-8")));
+  },
+};
+
+/**
+ * CSV: converted to markdown tables in chunks of rows, anchored as "rows A-B".
+ */
+export const csvExtractor: DocumentTextExtractor = {
+  name: "csv",
+  contentTypes: ["text/csv", "application/csv"],
+  extensions: [".csv"],
+  isPlainText: false,
+  async extract(buffer) {
+    const sections = csvRowsToSections(parseCsv(buffer.toString("utf-8")));
+    return {
+      markdown: sections.map((section) => section.text).join("\n\n"),
+      sections,
+    };
+  },
+};
@@ -0,0 +1,165 @@
+import TurndownService from "turndown";
+
+import type { DocumentSection } from "./types";
+
+// Number of data rows per CSV section (each section repeats the header row)
+export const CSV_ROWS_PER_SECTION = 50;
+
+// Headings up to this level start a new section when splitting markdown
+const SECTION_HEADING_MAX_LEVEL = 3;
+
+/**
+ * Convert HTML to markdown.
+ * Scripts, styles and other non-content elements are dropped.
+ */
+export function htmlToMarkdown(html: string): string {
+  const turndown = new TurndownService({
+    headingStyle: "atx",
+    codeBlockStyle: "fenced",
+    bulletListMarker: "-",
+  });
+  turndown.remove(["script", "style", "noscript", "iframe", "template"]);
+  return turndown
+    .turndown(html)
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Split markdown into sections at ATX headings (levels 1-3).
+ * Each section is anchored by its heading text; content before the first
+ * heading has no anchor. Headings inside fenced code blocks are ignored.
+ */
+export function splitMarkdownIntoSections(markdown: string): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  let currentLines: string[] = [];
+  let currentAnchor: string | undefined;
+  let inCodeFence = false;
+
+  const flush = () => {
+    const text = currentLines.join("\n").trim();
+    if (text.length > 0) {
+      sections.push(
+        currentAnchor !== undefined ? { text, anchor: currentAnchor } : { text },
+      );
+    }
+    currentLines = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeFence = !inCodeFence;
+    }
+    const heading = inCodeFence
+      ? null
+      : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading && heading[1].length <= SECTION_HEADING_MAX_LEVEL) {
+      flush();
+      currentAnchor = `section "${heading[2].trim()}"`;
+    }
+    currentLines.push(line);
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Parse CSV text into rows (RFC 4180: quoted fields, escaped quotes, CRLF).
+ * Empty lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    field = "";
+    if (row.length > 1 || row[0].trim().length > 0) {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field.length > 0 || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>").trim();
+}
+
+function toTableRow(cells: string[], width: number): string {
+  const padded = Array.from({ length: width }, (_, i) =>
+    escapeTableCell(cells[i] ?? ""),
+  );
+  return `| ${padded.join(" | ")} |`;
+}
+
+/**
+ * Convert parsed CSV rows into markdown table sections.
+ * The first row is treated as the header and repeated in every section so each
+ * snippet stays self-describing. Anchors reference 1-based data row ranges.
+ */
+export function csvRowsToSections(
+  rows: string[][],
+  rowsPerSection: number = CSV_ROWS_PER_SECTION,
+): DocumentSection[] {
+  if (rows.length === 0) {
+    return [];
+  }
+  const [header, ...dataRows] = rows;
+  const width = Math.max(...rows.map((row) => row.length));
+  const headerLines = [
+    toTableRow(header, width),
+    `| ${Array.from({ length: width }, () => "---").join(" | ")} |`,
+  ];
+
+  if (dataRows.length === 0) {
+    return [{ text: headerLines.join("\n") }];
+  }
+
+  const sections: DocumentSection[] = [];
+  for (let start = 0; start < dataRows.length; start += rowsPerSection) {
+    const chunk = dataRows.slice(start, start + rowsPerSection);
+    const end = start + chunk.length;
+    sections.push({
+      text: [...headerLines, ...chunk.map((row) => toTableRow(row, width))].join(
+        "\n",
+      ),
+      anchor: start + 1 === end ? `row ${end}` : `rows ${start + 1}-${end}`,
+    });
+  }
+  return sections;
+}
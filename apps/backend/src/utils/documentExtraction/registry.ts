@@ -0,0 +1,146 @@
+import {
+  csvExtractor,
+  docxExtractor,
+  htmlExtractor,
+  pdfExtractor,
+  textExtractor,
+} from "./extractors";
+import type { DocumentTextExtractor, ExtractedDocument } from "./types";
+
+const extractors: DocumentTextExtractor[] = [
+  textExtractor,
+  pdfExtractor,
+  docxExtractor,
+  htmlExtractor,
+  csvExtractor,
+];
+
+/**
+ * Register an additional extractor. Later registrations take precedence,
+ * so an extractor can override the built-in handling of a content type.
+ */
+export function registerDocumentExtractor(
+  extractor: DocumentTextExtractor,
+): void {
+  extractors.unshift(extractor);
+}
+
+function normalizeContentType(contentType: string | undefined): string {
+  return (contentType ?? "").split(";")[0].trim().toLowerCase();
+}
+
+function getFileExtension(filename: string): string {
+  const lastDot = filename.lastIndexOf(".");
+  return lastDot === -1 ? "" : filename.substring(lastDot).toLowerCase();
+}
+
+/**
+ * Find the extractor for a file, by file extension first and by content type second.
+ * Extensions win because browsers report many types generically (text/plain,
+ * application/octet-stream, application/vnd.ms-excel for CSV).
+ */
+export function resolveDocumentExtractor(
+  contentType: string | undefined,
+  filename: string,
+): DocumentTextExtractor | undefined {
+  const extension = getFileExtension(filename);
+  const byExtension = extractors.find((extractor) =>
+    extractor.extensions.includes(extension),
+  );
+  if (byExtension) {
+    return byExtension;
+  }
+  const normalizedType = normalizeContentType(contentType);
+  return extractors.find((extractor) =>
+    extractor.contentTypes.includes(normalizedType),
+  );
+}
+
+/**
+ * Content type to store for an uploaded file. Falls back to the extractor's
+ * canonical type when the browser sent a generic one (e.g. application/octet-stream).
+ */
+export function resolveDocumentContentType(
+  contentType: string | undefined,
+  filename: string,
+): string {
+  const extractor = resolveDocumentExtractor(contentType, filename);
+  const normalizedType = normalizeContentType(contentType);
+  if (!extractor || extractor.contentTypes.includes(normalizedType)) {
+    return normalizedType || "text/plain";
+  }
+  return extractor.contentTypes[0];
+}
+
+export function isSupportedDocumentType(
+  contentType: string | undefined,
+  filename: string,
+): boolean {
+  return resolveDocumentExtractor(contentType, filename) !== undefined;
+}
+
+/**
+ * True when documents of this type are stored as text and can be edited in place
+ */
+export function isPlainTextDocumentType(
+  contentType: string | undefined,
+  filename: string,
+): boolean {
+  return resolveDocumentExtractor(contentType, filename)?.isPlainText ?? false;
+}
+
+/**
+ * Filename of a document whose file is replaced by an upload. The name is kept and the
+ * extension is taken from the uploaded file, because extractors are chosen by extension.
+ */
+export function getReplacedDocumentFilename(
+  currentFilename: string,
+  uploadedFilename: string,
+): string {
+  const currentExtension = getFileExtension(currentFilename);
+  const uploadedExtension = getFileExtension(uploadedFilename);
+  if (currentExtension === uploadedExtension) {
+    return currentFilename;
+  }
+  const baseName = currentFilename.substring(
+    0,
+    currentFilename.length - currentExtension.length,
+  );
+  return `${baseName}${uploadedExtension}`;
+}
+
+/**
+ * File extensions accepted for upload (e.g. for error messages)
+ */
+export function getSupportedDocumentExtensions(): string[] {
+  return Array.from(
+    new Set(extractors.flatMap((extractor) => extractor.extensions)),
+  );
+}
+
+/**
+ * Convert an uploaded file into markdown and indexable sections
+ * @throws Error when the type is unsupported or the file cannot be parsed
+ */
+export async function extractDocumentText(
+  buffer: Buffer,
+  contentType: string | undefined,
+  filename: string,
+): Promise<ExtractedDocument> {
+  const extractor = resolveDocumentExtractor(contentType, filename);
+  if (!extractor) {
+    throw new Error(
+      `Unsupported document type "${contentType ?? "unknown"}" for ${filename}`,
+    );
+  }
+  try {
+    return await extractor.extract(buffer);
+  } catch (error) {
+    throw new Error(
+      `Failed to extract text from ${filename} (${extractor.name}): ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      { cause: error },
+    );
+  }
+}
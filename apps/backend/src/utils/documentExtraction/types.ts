@@ -0,0 +1,38 @@
+/**
+ * A contiguous part of an extracted document.
+ * The anchor is a human-readable location (e.g. "page 12", 'section "Pricing"')
+ * that is stored in snippet metadata so search results can cite where the text came from.
+ */
+export interface DocumentSection {
+  text: string;
+  anchor?: string;
+}
+
+/**
+ * Result of converting an uploaded file into indexable text
+ */
+export interface ExtractedDocument {
+  /** Full document converted to markdown (stored in S3 next to the original) */
+  markdown: string;
+  /** Sections used for indexing; each section is split into snippets independently */
+  sections: DocumentSection[];
+}
+
+/**
+ * A text extractor for one family of file types.
+ * Extractors are looked up by file extension first and by content type second.
+ */
+export interface DocumentTextExtractor {
+  /** Short identifier (e.g. "pdf"), used in logs and tests */
+  name: string;
+  /** Lower-case MIME types handled by this extractor */
+  contentTypes: string[];
+  /** Lower-case file extensions (including the dot) handled by this extractor */
+  extensions: string[];
+  /**
+   * True when the original file is already plain text/markdown.
+   * Such documents are indexed as-is and no extracted copy is stored.
+   */
+  isPlainText: boolean;
+  extract(buffer: Buffer): Promise<ExtractedDocument>;
+}
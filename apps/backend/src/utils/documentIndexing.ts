@@ -1,5 +1,10 @@
 import { getWorkspaceApiKey } from "../http/utils/agent-keys";
 
+import {
+  extractDocumentText,
+  isPlainTextDocumentType,
+} from "./documentExtraction/registry";
+import type { DocumentSection } from "./documentExtraction/types";
 import { splitDocumentIntoSnippets } from "./documentSearch";
 import { getDocument } from "./s3";
 import { Sentry, ensureError } from "./sentry";
@@ -15,17 +20,35 @@ import type { RawFactData } from "./vectordb/types";
  */
 export const MAX_DOCUMENT_SNIPPETS = 10000;
 
+/**
+ * Split document sections into snippets, carrying each section's anchor along
+ */
+function splitSectionsIntoSnippets(
+  content: string | DocumentSection[],
+): Array<{ text: string; anchor?: string }> {
+  if (typeof content === "string") {
+    return splitDocumentIntoSnippets(content).map((text) => ({ text }));
+  }
+  return content.flatMap((section) =>
+    splitDocumentIntoSnippets(section.text).map((text) => ({
+      text,
+      anchor: section.anchor,
+    })),
+  );
+}
+
 /**
  * Index a document by splitting it into snippets and queuing them for embedding generation
  * @param workspaceId - Workspace ID (used as agentId for docs grain)
  * @param documentId - Document ID
- * @param content - Document content (text)
+ * @param content - Document content (text), or extracted sections whose anchors
+ *                  (e.g. "page 12") are stored in each snippet's metadata
  * @param metadata - Document metadata (name, folderPath)
  */
 export async function indexDocument(
   workspaceId: string,
   documentId: string,
-  content: string,
+  content: string | DocumentSection[],
   metadata: {
     documentName: string;
     folderPath: string;
@@ -36,7 +59,7 @@ export async function indexDocument(
     usesByok ?? !!(await getWorkspaceApiKey(workspaceId, "openrouter"));
 
   // Split document into snippets
-  const snippets = splitDocumentIntoSnippets(content);
+  const snippets = splitSectionsIntoSnippets(content);
 
   if (snippets.length === 0) {
     console.log(
@@ -61,18 +84,19 @@ export async function indexDocument(
   const rawFacts: RawFactData[] = [];
 
   for (let snippetIndex = 0; snippetIndex < snippets.length; snippetIndex++) {
-    const snippetText = snippets[snippetIndex];
+    const snippet = snippets[snippetIndex];
     const snippetId = `${documentId}:${snippetIndex}`;
 
     const rawFact: RawFactData = {
       id: snippetId,
-      content: snippetText,
+      content: snippet.text,
       timestamp: new Date().toISOString(),
       metadata: {
         documentId,
         documentName: metadata.documentName,
         folderPath: metadata.folderPath,
         workspaceId,
+        ...(snippet.anchor ? { anchor: snippet.anchor } : {}),
       },
       // Cache key format: workspaceId:documentId:snippetHash
       // We don't need to hash the snippet here since the queue handler will handle it
@@ -320,7 +344,7 @@ export async function deleteDocumentSnippets(
 export async function updateDocument(
   workspaceId: string,
   documentId: string,
-  content: string,
+  content: string | DocumentSection[],
   metadata: {
     documentName: string;
     folderPath: string;
@@ -334,12 +358,58 @@ export async function updateDocument(
   await indexDocument(workspaceId, documentId, content, metadata);
 }
 
+/**
+ * Read a document's text for display and agent tools: the extracted markdown for
+ * converted types (PDF, DOCX, HTML, CSV), otherwise the original content
+ */
+export async function getDocumentTextContent(
+  workspaceId: string,
+  documentId: string,
+  document: { s3Key: string; extractedS3Key?: string }
+): Promise<string> {
+  const contentBuffer = await getDocument(
+    workspaceId,
+    documentId,
+    document.extractedS3Key ?? document.s3Key
+  );
+  return contentBuffer.toString("utf-8");
+}
+
+/**
+ * Turn a stored document's original bytes into indexable content.
+ * Plain text and markdown are indexed as-is; other types (PDF, DOCX, HTML, CSV)
+ * go through the text extraction stage so section anchors are preserved.
+ * @param contentBuffer - Original document bytes
+ * @param contentType - Stored MIME type
+ * @param filename - Stored filename (used for extension-based extractor lookup)
+ */
+export async function loadIndexableContent(
+  contentBuffer: Buffer,
+  contentType: string | undefined,
+  filename: string | undefined
+): Promise<string | DocumentSection[]> {
+  if (
+    contentType === undefined ||
+    filename === undefined ||
+    isPlainTextDocumentType(contentType, filename)
+  ) {
+    return contentBuffer.toString("utf-8");
+  }
+  const extracted = await extractDocumentText(
+    contentBuffer,
+    contentType,
+    filename
+  );
+  return extracted.sections;
+}
+
 /**
  * Index a document from S3 by fetching content and indexing it
  * @param workspaceId - Workspace ID (used as agentId for docs grain)
  * @param documentId - Document ID
  * @param s3Key - S3 key for the document
- * @param metadata - Document metadata (name, folderPath)
+ * @param metadata - Document metadata (name, folderPath, and optionally
+ *                   contentType/filename to run text extraction for non-text types)
  */
 export async function indexDocumentFromS3(
   workspaceId: string,
@@ -348,15 +418,24 @@ export async function indexDocumentFromS3(
   metadata: {
     documentName: string;
     folderPath: string;
+    contentType?: string;
+    filename?: string;
   }
 ): Promise<void> {
   try {
     // Fetch document content from S3
     const contentBuffer = await getDocument(workspaceId, documentId, s3Key);
-    const content = contentBuffer.toString("utf-8");
+    const content = await loadIndexableContent(
+      contentBuffer,
+      metadata.contentType,
+      metadata.filename
+    );
 
     // Index the document
-    await indexDocument(workspaceId, documentId, content, metadata);
+    await indexDocument(workspaceId, documentId, content, {
+      documentName: metadata.documentName,
+      folderPath: metadata.folderPath,
+    });
   } catch (error) {
     // Log error but don't throw - indexing should not block document operations
     console.error(
@@ -0,0 +1,160 @@
+import type { DatabaseSchema } from "../tables/schema";
+
+import { normalizeFolderPath } from "./s3";
+
+/**
+ * Documents an agent may read: those inside any of the folders or carrying any of the tags.
+ * Both missing = all workspace documents.
+ */
+export type DocumentScope = {
+  folderPaths?: string[];
+  tags?: string[];
+};
+
+/**
+ * Normalize an agent's document folder scope.
+ * Returns undefined when the scope covers the whole workspace (empty list or root folder).
+ * @throws when a folder path is invalid (e.g. path traversal)
+ */
+export function normalizeKnowledgeFolderPaths(
+  folderPaths: string[] | undefined,
+): string[] | undefined {
+  if (!folderPaths || folderPaths.length === 0) {
+    return undefined;
+  }
+  const normalized = new Set<string>();
+  for (const folderPath of folderPaths) {
+    const path = normalizeFolderPath(folderPath);
+    if (!path) {
+      // The root folder contains every document
+      return undefined;
+    }
+    normalized.add(path);
+  }
+  return Array.from(normalized).sort();
+}
+
+/**
+ * Normalize document or agent tags: trimmed, lowercase, without duplicates or empty tags.
+ * Returns undefined when no tags remain.
+ */
+export function normalizeDocumentTags(
+  tags: string[] | undefined,
+): string[] | undefined {
+  if (!tags) {
+    return undefined;
+  }
+  const normalized = new Set(
+    tags.map((tag) => tag.trim().toLowerCase()).filter((tag) => tag.length > 0),
+  );
+  return normalized.size > 0 ? Array.from(normalized).sort() : undefined;
+}
+
+/**
+ * The document scope configured on an agent
+ */
+export function getAgentDocumentScope(agent: {
+  knowledgeFolderPaths?: string[];
+  knowledgeTags?: string[];
+}): DocumentScope {
+  return {
+    ...(agent.knowledgeFolderPaths?.length && {
+      folderPaths: agent.knowledgeFolderPaths,
+    }),
+    ...(agent.knowledgeTags?.length && { tags: agent.knowledgeTags }),
+  };
+}
+
+/**
+ * Whether a scope restricts the agent to part of the workspace documents
+ */
+export function isDocumentScopeRestricted(
+  scope: DocumentScope | undefined,
+): boolean {
+  return !!(scope?.folderPaths?.length || scope?.tags?.length);
+}
+
+/**
+ * Whether a document folder is inside one of the scoped folders
+ */
+export function isInFolderScope(
+  folderPath: string,
+  folderPaths: string[] | undefined,
+): boolean {
+  if (!folderPaths || folderPaths.length === 0) {
+    return true;
+  }
+  return folderPaths.some(
+    (scope) => folderPath === scope || folderPath.startsWith(`${scope}/`),
+  );
+}
+
+/**
+ * Build the LanceDB filter restricting results to the scoped folders.
+ * LIKE wildcards in folder names can over-match, so results are re-checked with isInFolderScope.
+ */
+export function buildFolderScopeFilter(
+  folderPaths: string[] | undefined,
+): string | undefined {
+  if (!folderPaths || folderPaths.length === 0) {
+    return undefined;
+  }
+  return folderPaths
+    .map((scope) => {
+      const escaped = scope.replace(/'/g, "''");
+      return `(folderPath = '${escaped}' OR folderPath LIKE '${escaped}/%')`;
+    })
+    .join(" OR ");
+}
+
+/**
+ * Whether a document is inside the scope, either through its folder or one of its tags
+ */
+export function isDocumentInScope(
+  document: { folderPath: string; tags?: string[] },
+  scope: DocumentScope | undefined,
+): boolean {
+  if (!isDocumentScopeRestricted(scope)) {
+    return true;
+  }
+  if (
+    scope?.folderPaths?.length &&
+    isInFolderScope(document.folderPath, scope.folderPaths)
+  ) {
+    return true;
+  }
+  return !!scope?.tags?.some((tag) => document.tags?.includes(tag));
+}
+
+/**
+ * IDs of the workspace documents inside the scope.
+ * Tags are only stored on the document records, so tag scopes are resolved here
+ * rather than with a LanceDB folder filter.
+ */
+export async function listDocumentIdsInScope(
+  db: DatabaseSchema,
+  workspaceId: string,
+  scope: DocumentScope,
+): Promise<Set<string>> {
+  const documentIds = new Set<string>();
+  for await (const document of db["workspace-document"].queryAsync({
+    IndexName: "byWorkspaceId",
+    KeyConditionExpression: "workspaceId = :workspaceId",
+    ExpressionAttributeValues: { ":workspaceId": workspaceId },
+  })) {
+    if (isDocumentInScope(document, scope)) {
+      documentIds.add(document.pk.split("/")[2]);
+    }
+  }
+  return documentIds;
+}
+
+/**
+ * Build the LanceDB filter restricting results to the given documents
+ */
+export function buildDocumentIdFilter(documentIds: Iterable<string>): string {
+  const list = Array.from(documentIds)
+    .map((documentId) => `'${documentId.replace(/'/g, "''")}'`)
+    .join(", ");
+  return `documentId IN (${list})`;
+}
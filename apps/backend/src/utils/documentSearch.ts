@@ -3,19 +3,45 @@ import { split } from "llm-splitter";
 import { database } from "../tables";
 import type { DatabaseSchema } from "../tables/schema";
 
+import {
+  buildDocumentIdFilter,
+  buildFolderScopeFilter,
+  isInFolderScope,
+  listDocumentIdsInScope,
+} from "./documentScope";
 import { generateEmbeddingWithUsage, resolveEmbeddingApiKey } from "./embedding";
 import {
   adjustEmbeddingCreditReservation,
   refundEmbeddingCredits,
   reserveEmbeddingCredits,
 } from "./embeddingCredits";
+import { MAX_QUERY_LIMIT } from "./vectordb/config";
 import { query } from "./vectordb/readClient";
+import type { QueryResult } from "./vectordb/types";
 import type { AugmentedContext } from "./workspaceCreditContext";
 
 // Default chunk size for splitting documents (llm-splitter default: 1000)
 const DEFAULT_CHUNK_SIZE = 1000;
 // Default chunk overlap (llm-splitter default: 200)
 const DEFAULT_CHUNK_OVERLAP = 200;
+// Reciprocal-rank fusion constant (the usual value from the original RRF paper)
+const RRF_K = 60;
+// Hybrid search fetches this many times topN candidates from each list before fusing
+const HYBRID_CANDIDATE_MULTIPLIER = 2;
+
+/**
+ * How documents are matched against the query
+ * - vector: embedding similarity (meaning)
+ * - keyword: BM25 full-text search (exact words, product codes, error strings, names)
+ * - hybrid: both lists fused with reciprocal-rank fusion
+ */
+export type DocumentSearchMode = "vector" | "keyword" | "hybrid";
+
+export const DOCUMENT_SEARCH_MODES: readonly DocumentSearchMode[] = [
+  "vector",
+  "keyword",
+  "hybrid",
+];
 
 export interface DocumentSnippet {
   text: string;
@@ -30,6 +56,7 @@ export interface SearchResult {
   documentId: string;
   folderPath: string;
   similarity: number;
+  anchor?: string; // Location within the source document (e.g. "page 12"), when known
 }
 
 export interface SearchDocumentsOptions {
@@ -37,6 +64,32 @@ export interface SearchDocumentsOptions {
   context?: AugmentedContext;
   agentId?: string;
   conversationId?: string;
+  /**
+   * Restrict results to documents in these folders (and their subfolders).
+   * Missing or empty = all workspace documents.
+   */
+  folderPaths?: string[];
+  /**
+   * Also allow documents carrying any of these tags, wherever they are.
+   * Missing or empty = scope by folderPaths only.
+   */
+  tags?: string[];
+  /** Matching strategy, defaults to "vector" */
+  mode?: DocumentSearchMode;
+}
+
+/**
+ * Format where a document snippet comes from, for citations in prompts and tool results
+ * e.g. "Handbook.pdf (hr/policies), page 12"
+ */
+export function formatDocumentSource(result: {
+  documentName?: string;
+  folderPath?: string;
+  anchor?: string;
+}): string {
+  const folderPathText = result.folderPath ? ` (${result.folderPath})` : "";
+  const anchorText = result.anchor ? `, ${result.anchor}` : "";
+  return `${result.documentName ?? ""}${folderPathText}${anchorText}`;
 }
 
 /**
@@ -147,19 +200,13 @@ export function cosineSimilarity(vecA: number[], vecB: number[]): number {
 }
 
 /**
- * Search documents in a workspace using vector similarity with LanceDB
+ * Generate the query embedding, charging embedding credits when a credit context is given
  */
-export async function searchDocuments(
+async function embedSearchQuery(
   workspaceId: string,
-  queryText: string,
-  topN: number = 5,
+  trimmedQuery: string,
   options?: SearchDocumentsOptions,
-): Promise<SearchResult[]> {
-  if (!queryText || queryText.trim().length === 0) {
-    return [];
-  }
-
-  const trimmedQuery = queryText.trim();
+): Promise<number[]> {
   const { apiKey, usesByok } = await resolveEmbeddingApiKey(workspaceId);
 
   const hasCreditContext =
@@ -182,8 +229,6 @@ export async function searchDocuments(
     reservationId = reservation.reservationId;
   }
 
-  // Generate embedding for the query
-  let queryEmbedding: number[];
   try {
     const embeddingResult = await generateEmbeddingWithUsage(
       trimmedQuery,
@@ -191,7 +236,6 @@ export async function searchDocuments(
       undefined,
       undefined,
     );
-    queryEmbedding = embeddingResult.embedding;
 
     if (db && hasCreditContext && reservationId) {
       try {
@@ -200,7 +244,7 @@ export async function searchDocuments(
           reservationId,
           workspaceId,
           usage: embeddingResult.usage,
-            generationId: embeddingResult.id,
+          generationId: embeddingResult.id,
           context: options!.context!,
           agentId: options?.agentId,
           conversationId: options?.conversationId,
@@ -212,6 +256,8 @@ export async function searchDocuments(
         );
       }
     }
+
+    return embeddingResult.embedding;
   } catch (error) {
     console.error(
       "[searchDocuments] Failed to generate query embedding:",
@@ -236,39 +282,185 @@ export async function searchDocuments(
     }
     throw error;
   }
+}
+
+/**
+ * BM25 keyword search on the docs grain.
+ * Tables written before the full-text index existed have no index until their next
+ * document write, so a failing keyword query degrades to no keyword results.
+ */
+async function keywordSearch(
+  workspaceId: string,
+  trimmedQuery: string,
+  limit: number,
+  filter?: string,
+): Promise<QueryResult[]> {
+  try {
+    return await query(workspaceId, "docs", {
+      fullTextQuery: trimmedQuery,
+      limit,
+      ...(filter && { filter }),
+    });
+  } catch (error) {
+    console.warn(
+      "[searchDocuments] Keyword search failed, continuing without keyword results:",
+      error instanceof Error ? error.message : String(error),
+    );
+    return [];
+  }
+}
+
+/**
+ * Fuse ranked result lists with reciprocal-rank fusion: each list contributes
+ * 1 / (k + rank) for every row it contains, and rows are sorted by the summed score.
+ * Returns the fused rows with their score normalized to [0, 1]
+ * (1 = ranked first in every list).
+ */
+export function fuseRankedResults(
+  resultLists: QueryResult[][],
+  k: number = RRF_K,
+): Array<{ result: QueryResult; score: number }> {
+  const fused = new Map<string, { result: QueryResult; score: number }>();
+
+  for (const results of resultLists) {
+    results.forEach((result, index) => {
+      const contribution = 1 / (k + index + 1);
+      const existing = fused.get(result.id);
+      if (existing) {
+        existing.score += contribution;
+      } else {
+        fused.set(result.id, { result, score: contribution });
+      }
+    });
+  }
+
+  const maxScore = resultLists.length / (k + 1);
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .map(({ result, score }) => ({
+      result,
+      score: maxScore > 0 ? score / maxScore : 0,
+    }));
+}
+
+function toSearchResult(result: QueryResult, similarity: number): SearchResult {
+  const anchor = (result.metadata?.anchor as string) || undefined;
+
+  return {
+    snippet: result.content,
+    documentName: (result.metadata?.documentName as string) || "",
+    documentId: (result.metadata?.documentId as string) || "",
+    folderPath: (result.metadata?.folderPath as string) || "",
+    similarity,
+    ...(anchor ? { anchor } : {}),
+  };
+}
+
+/**
+ * Calculate similarity from a vector search distance
+ */
+function distanceToSimilarity(distance?: number): number {
+  // LanceDB uses L2 (Euclidean) distance by default
+  // Distance range: [0, ∞) where 0 = identical vectors, larger = more different
+  // Convert to similarity score [0, 1] where 1 = identical, 0 = very different
+  // Formula: similarity = 1 / (1 + distance)
+  // This formula is appropriate for L2 distance:
+  // - When distance = 0 (identical): similarity = 1
+  // - As distance increases: similarity approaches 0
+  // - The +1 prevents division by zero and provides a smooth curve
+  // Note: If LanceDB distance metric changes (e.g., to cosine distance),
+  // this conversion formula may need to be updated accordingly
+  return distance !== undefined ? 1 / (1 + distance) : 0;
+}
+
+/**
+ * Search documents in a workspace with LanceDB
+ * - "vector": embedding similarity (default)
+ * - "keyword": BM25 full-text search, no embedding is generated
+ * - "hybrid": both, fused with reciprocal-rank fusion
+ */
+export async function searchDocuments(
+  workspaceId: string,
+  queryText: string,
+  topN: number = 5,
+  options?: SearchDocumentsOptions,
+): Promise<SearchResult[]> {
+  if (!queryText || queryText.trim().length === 0) {
+    return [];
+  }
+
+  const trimmedQuery = queryText.trim();
+  const mode = options?.mode ?? "vector";
 
   // Query LanceDB for document snippets
   // For docs grain, workspaceId is used as agentId
-  // No filter needed - each workspace has its own isolated database at vectordb/{workspaceId}/docs/
-  const results = await query(workspaceId, "docs", {
-    vector: queryEmbedding,
-    limit: topN,
-  });
+  // Each workspace has its own isolated database at vectordb/{workspaceId}/docs/;
+  // the filter only narrows results to the agent's document scope
+  const folderPaths = options?.folderPaths;
+  let filter = buildFolderScopeFilter(folderPaths);
+  let documentIdsInScope: Set<string> | undefined;
+  if (options?.tags && options.tags.length > 0) {
+    documentIdsInScope = await listDocumentIdsInScope(
+      options.db ?? (await database()),
+      workspaceId,
+      { folderPaths, tags: options.tags },
+    );
+    if (documentIdsInScope.size === 0) {
+      return [];
+    }
+    filter = buildDocumentIdFilter(documentIdsInScope);
+  }
 
-  // Map query results to SearchResult format
-  const searchResults: SearchResult[] = results.map((result) => {
-    // Calculate similarity from distance
-    // LanceDB uses L2 (Euclidean) distance by default
-    // Distance range: [0, ∞) where 0 = identical vectors, larger = more different
-    // Convert to similarity score [0, 1] where 1 = identical, 0 = very different
-    // Formula: similarity = 1 / (1 + distance)
-    // This formula is appropriate for L2 distance:
-    // - When distance = 0 (identical): similarity = 1
-    // - As distance increases: similarity approaches 0
-    // - The +1 prevents division by zero and provides a smooth curve
-    // Note: If LanceDB distance metric changes (e.g., to cosine distance),
-    // this conversion formula may need to be updated accordingly
-    const similarity =
-      result.distance !== undefined ? 1 / (1 + result.distance) : 0;
-
-    return {
-      snippet: result.content,
-      documentName: (result.metadata?.documentName as string) || "",
-      documentId: (result.metadata?.documentId as string) || "",
-      folderPath: (result.metadata?.folderPath as string) || "",
-      similarity,
-    };
-  });
+  let searchResults: SearchResult[];
+  if (mode === "keyword") {
+    const results = await keywordSearch(workspaceId, trimmedQuery, topN, filter);
+    // BM25 scores are unbounded; scale them so the best match is 1
+    const topScore = Math.max(0, ...results.map((result) => result.score ?? 0));
+    searchResults = results.map((result) =>
+      toSearchResult(
+        result,
+        topScore > 0 ? (result.score ?? 0) / topScore : 0,
+      ),
+    );
+  } else {
+    const queryEmbedding = await embedSearchQuery(
+      workspaceId,
+      trimmedQuery,
+      options,
+    );
 
-  return searchResults;
+    if (mode === "hybrid") {
+      // Fetch extra candidates from each list so fusion can promote rows ranked lower in one
+      const candidateLimit = Math.min(
+        topN * HYBRID_CANDIDATE_MULTIPLIER,
+        MAX_QUERY_LIMIT,
+      );
+      const [vectorResults, keywordResults] = await Promise.all([
+        query(workspaceId, "docs", {
+          vector: queryEmbedding,
+          limit: candidateLimit,
+          ...(filter && { filter }),
+        }),
+        keywordSearch(workspaceId, trimmedQuery, candidateLimit, filter),
+      ]);
+      searchResults = fuseRankedResults([vectorResults, keywordResults])
+        .slice(0, topN)
+        .map(({ result, score }) => toSearchResult(result, score));
+    } else {
+      const results = await query(workspaceId, "docs", {
+        vector: queryEmbedding,
+        limit: topN,
+        ...(filter && { filter }),
+      });
+      searchResults = results.map((result) =>
+        toSearchResult(result, distanceToSimilarity(result.distance)),
+      );
+    }
+  }
+
+  return searchResults.filter((result) =>
+    documentIdsInScope
+      ? documentIdsInScope.has(result.documentId)
+      : isInFolderScope(result.folderPath, folderPaths),
+  );
 }
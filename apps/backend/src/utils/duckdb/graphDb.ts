@@ -108,12 +108,19 @@ function buildUpdateClause(updates: Partial<FactRow>): string {
   return `SET ${assignments.join(", ")}`;
 }
 
+/**
+ * End-user partitions keep their facts in a separate file under the agent:
+ * graphs/{workspaceId}/{agentId}/users/{partitionKey}/facts.parquet
+ */
 function buildFactsS3Location(
   workspaceId: string,
   agentId: string,
+  partitionKey?: string,
 ): S3Location {
   const bucket = getS3BucketName();
-  const key = `graphs/${workspaceId}/${agentId}/facts.parquet`;
+  const key = partitionKey
+    ? `graphs/${workspaceId}/${agentId}/users/${partitionKey}/facts.parquet`
+    : `graphs/${workspaceId}/${agentId}/facts.parquet`;
   return {
     bucket,
     key,
@@ -483,8 +490,9 @@ async function saveFactsToS3(
 export async function createGraphDb(
   workspaceId: string,
   agentId: string,
+  partitionKey?: string,
 ): Promise<GraphDb> {
-  const location = buildFactsS3Location(workspaceId, agentId);
+  const location = buildFactsS3Location(workspaceId, agentId, partitionKey);
   const instance = await DuckDBInstance.create(":memory:");
   const connection = await instance.connect();
   try {
@@ -544,8 +552,9 @@ export async function createGraphDb(
 export async function deleteGraphFactsFile(
   workspaceId: string,
   agentId: string,
+  partitionKey?: string,
 ): Promise<void> {
-  const location = buildFactsS3Location(workspaceId, agentId);
+  const location = buildFactsS3Location(workspaceId, agentId, partitionKey);
   const client = createS3Client();
   await client.send(
     new DeleteObjectCommand({
@@ -8,7 +8,9 @@ import { refreshGmailToken } from "./oauth/gmail";
 import { refreshOutlookToken } from "./oauth/outlook";
 
 export interface EmailOptions {
-  to: string;
+  to?: string;
+  /** Recipients hidden from each other; lets one message reach several people */
+  bcc?: string[];
   subject: string;
   text: string;
   html?: string;
@@ -125,13 +127,15 @@ async function sendEmailViaGmail(
 ): Promise<void> {
   const fromEmail = options.from || "me";
   const to = options.to;
+  const bcc = options.bcc;
   const subject = options.subject;
   const text = options.text;
   const html = options.html;
 
-  // Create MIME message
+  // Create MIME message (Gmail removes the Bcc header before delivery)
   const messageParts = [
-    `To: ${to}`,
+    ...(to ? [`To: ${to}`] : []),
+    ...(bcc?.length ? [`Bcc: ${bcc.join(", ")}`] : []),
     `From: ${fromEmail}`,
     `Subject: ${subject}`,
     "Content-Type: text/html; charset=utf-8",
@@ -168,6 +172,7 @@ async function sendEmailViaGmail(
     console.error("Email contents:", {
       from: fromEmail,
       to,
+      bcc,
       subject,
       text,
       html,
@@ -186,6 +191,7 @@ async function sendEmailViaOutlook(
   options: EmailOptions
 ): Promise<void> {
   const to = options.to;
+  const bcc = options.bcc;
   const subject = options.subject;
   const text = options.text;
   const html = options.html;
@@ -197,13 +203,10 @@ async function sendEmailViaOutlook(
         contentType: html ? "HTML" : "Text",
         content: html || text,
       },
-      toRecipients: [
-        {
-          emailAddress: {
-            address: to,
-          },
-        },
-      ],
+      toRecipients: to ? [{ emailAddress: { address: to } }] : [],
+      ...(bcc?.length && {
+        bccRecipients: bcc.map((address) => ({ emailAddress: { address } })),
+      }),
       // Note: 'from' field is omitted - Microsoft Graph API automatically uses
       // the authenticated user's email address as the sender
     },
@@ -226,6 +229,7 @@ async function sendEmailViaOutlook(
     console.error("Failed to send email via Outlook");
     console.error("Email contents:", {
       to,
+      bcc,
       subject,
       text,
       html,
@@ -258,6 +262,7 @@ async function sendEmailViaSMTP(
     await transporter.sendMail({
       from: options.from || config.fromEmail,
       to: options.to,
+      bcc: options.bcc,
       subject: options.subject,
       text: options.text,
       html: options.html,
@@ -267,6 +272,7 @@ async function sendEmailViaSMTP(
     console.error("Email contents:", {
       from: options.from || config.fromEmail,
       to: options.to,
+      bcc: options.bcc,
       subject: options.subject,
       text: options.text,
       html: options.html,
@@ -0,0 +1,212 @@
+import { Marked } from "marked";
+import { z } from "zod";
+
+import { sendEmail } from "../send-email";
+import { database } from "../tables";
+import type { OutputChannelRecord } from "../tables/schema";
+
+import { sendEmailViaConnection } from "./email";
+import { escapeHtml, sanitizeEmailSubject } from "./emailFormatting";
+import { getUserEmailById } from "./subscriptionUtils";
+
+const MAX_EMAIL_RECIPIENTS = 10;
+const MAX_SUBJECT_LENGTH = 200;
+const SUBJECT_TITLE_MAX_LENGTH = 80;
+const DEFAULT_SUBJECT_TEMPLATE = "{{title}}";
+const FALLBACK_SUBJECT = "Notification from Helpmaton";
+
+/**
+ * Configuration of an "email" output channel.
+ * sender "workspace" sends through the workspace email connection (Gmail/Outlook/SMTP),
+ * "system" sends through the Helpmaton mailer and only to email addresses of workspace members.
+ */
+export const emailChannelConfigSchema = z
+  .object({
+    recipients: z
+      .array(z.email("config.recipients must contain valid email addresses"))
+      .min(1, "config.recipients must contain at least one email address")
+      .max(
+        MAX_EMAIL_RECIPIENTS,
+        `config.recipients must contain at most ${MAX_EMAIL_RECIPIENTS} email addresses`
+      ),
+    subjectTemplate: z
+      .string()
+      .max(
+        MAX_SUBJECT_LENGTH,
+        `config.subjectTemplate must be at most ${MAX_SUBJECT_LENGTH} characters`
+      )
+      .optional(),
+    sender: z.enum(["workspace", "system"]).default("workspace"),
+  })
+  .strict();
+
+export type EmailChannelConfig = z.infer<typeof emailChannelConfigSchema>;
+
+/**
+ * Validate an email channel configuration
+ * @throws Error with a user-facing message when the configuration is invalid
+ */
+export function parseEmailChannelConfig(config: unknown): EmailChannelConfig {
+  const result = emailChannelConfigSchema.safeParse(config);
+  if (!result.success) {
+    throw new Error(
+      result.error.issues[0]?.message || "Invalid email channel configuration"
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Check that every recipient of a "system" sender channel is the account email of a
+ * workspace member, so the Helpmaton mailer cannot be used to reach arbitrary addresses
+ * @throws Error with a user-facing message when a recipient is not a member
+ */
+export async function assertSystemSenderRecipients(
+  workspaceId: string,
+  recipients: string[]
+): Promise<void> {
+  const db = await database();
+  const permissions = await db.permission.query({
+    KeyConditionExpression: "pk = :workspacePk",
+    ExpressionAttributeValues: {
+      ":workspacePk": `workspaces/${workspaceId}`,
+    },
+  });
+  const memberEmails = new Set(
+    (
+      await Promise.all(
+        permissions.items.map((permission) =>
+          getUserEmailById(permission.sk.replace("users/", ""))
+        )
+      )
+    )
+      .filter((email): email is string => Boolean(email))
+      .map((email) => email.toLowerCase())
+  );
+  const outsider = recipients.find(
+    (recipient) => !memberEmails.has(recipient.toLowerCase())
+  );
+  if (outsider) {
+    throw new Error(
+      `config.recipients must be email addresses of workspace members when config.sender is "system" (${outsider} is not a member)`
+    );
+  }
+}
+
+/**
+ * First non-empty line of the content without markdown heading/emphasis markers
+ */
+function extractTitle(content: string): string {
+  const firstLine =
+    content
+      .split("\n")
+      .map((line) => line.trim())
+      .find((line) => line.length > 0) ?? "";
+  const title = firstLine
+    .replace(/^#{1,6}\s+/, "")
+    .replace(/[*_`]/g, "")
+    .trim();
+  return title.length > SUBJECT_TITLE_MAX_LENGTH
+    ? `${title.substring(0, SUBJECT_TITLE_MAX_LENGTH - 3)}...`
+    : title;
+}
+
+/**
+ * Render a subject template.
+ * Supported placeholders: {{title}} (first line of the message), {{channelName}},
+ * {{date}} (YYYY-MM-DD, UTC) and any variables passed by the caller.
+ * Unknown placeholders render as empty strings.
+ */
+export function renderSubjectTemplate(
+  template: string,
+  variables: Record<string, string>
+): string {
+  const rendered = sanitizeEmailSubject(
+    template.replace(/\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g, (_, name: string) =>
+      Object.prototype.hasOwnProperty.call(variables, name)
+        ? variables[name]
+        : ""
+    )
+  );
+  if (!rendered) {
+    return FALLBACK_SUBJECT;
+  }
+  return rendered.length > MAX_SUBJECT_LENGTH
+    ? rendered.substring(0, MAX_SUBJECT_LENGTH)
+    : rendered;
+}
+
+// Raw HTML in agent output is shown as text so a message cannot inject markup into the email
+const markdownRenderer = new Marked({
+  gfm: true,
+  breaks: true,
+  renderer: {
+    html({ text }) {
+      return escapeHtml(text);
+    },
+  },
+});
+
+/**
+ * Render markdown notification content as a standalone HTML email body
+ */
+export function renderNotificationHtml(content: string): string {
+  const body = markdownRenderer.parse(content, { async: false });
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    pre { background: #f5f5f5; padding: 12px; border-radius: 6px; overflow-x: auto; }
+    code { font-family: Menlo, Consolas, monospace; }
+    table { border-collapse: collapse; }
+    th, td { border: 1px solid #ddd; padding: 6px 10px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+${body}
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * Send a notification to every recipient of an email channel.
+ * All recipients get a single message (Bcc, or a Mailgun batch for the system mailer)
+ * so addresses are not disclosed to each other and a failure never leaves the
+ * channel half-delivered. System mailer recipients are checked against the workspace
+ * members again, since members may have left since the channel was saved.
+ */
+export async function sendEmailChannelNotification(
+  channel: OutputChannelRecord,
+  content: string,
+  subjectVariables: Record<string, string> = {}
+): Promise<void> {
+  const config = parseEmailChannelConfig(channel.config);
+  const subject = renderSubjectTemplate(
+    config.subjectTemplate || DEFAULT_SUBJECT_TEMPLATE,
+    {
+      title: extractTitle(content),
+      channelName: channel.name,
+      date: new Date().toISOString().slice(0, 10),
+      ...subjectVariables,
+    }
+  );
+  const html = renderNotificationHtml(content);
+
+  if (config.sender === "system") {
+    await assertSystemSenderRecipients(channel.workspaceId, config.recipients);
+    await sendEmail({ to: config.recipients, subject, text: content, html });
+  } else {
+    await sendEmailViaConnection(channel.workspaceId, {
+      bcc: config.recipients,
+      subject,
+      text: content,
+      html,
+    });
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Formatting helpers for emails built from workspace or agent content
+ */
+
+/**
+ * Escape text for use in HTML element content and attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Make a value safe for an email subject line: control characters (including
+ * line breaks, which would allow header injection) become spaces and
+ * whitespace is collapsed.
+ */
+export function sanitizeEmailSubject(value?: string): string {
+  const input = value || "";
+  let output = "";
+  for (const char of input) {
+    const code = char.charCodeAt(0);
+    output += code < 32 || code === 127 ? " " : char;
+  }
+  return output.replace(/\s+/g, " ").trim();
+}
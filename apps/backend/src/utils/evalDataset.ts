@@ -0,0 +1,461 @@
+import { randomUUID } from "crypto";
+
+import { queues } from "@architect/functions";
+import { resourceGone } from "@hapi/boom";
+import { z } from "zod";
+
+import type {
+  AgentEvalDatasetRecord,
+  AgentEvalRunCaseRecord,
+  AgentEvalRunRecord,
+  DatabaseSchema,
+} from "../tables/schema";
+
+export const EVAL_DATASET_SK = "dataset";
+export const EVAL_RUN_SK = "run";
+export const MAX_EVAL_DATASET_CASES = 100;
+export const EVAL_RUN_OUTPUT_MAX_LENGTH = 10_000;
+const EVAL_RUN_TTL_SECONDS = 90 * 24 * 60 * 60;
+const EVAL_QUEUE_NAME = "agent-eval-queue";
+
+/**
+ * agent-eval-queue message running one case of an offline eval run.
+ * Live conversation evaluations use { workspaceId, agentId, conversationId, judgeId }.
+ */
+export const EvalDatasetCaseMessageSchema = z
+  .object({
+    workspaceId: z.string(),
+    agentId: z.string(),
+    runId: z.string(),
+    caseId: z.string(),
+  })
+  .strict();
+
+export type EvalDatasetCaseMessage = z.infer<
+  typeof EvalDatasetCaseMessageSchema
+>;
+
+export type EvalDatasetCase = AgentEvalDatasetRecord["cases"][number];
+export type EvalRunOverrides = NonNullable<AgentEvalRunRecord["overrides"]>;
+export type EvalCaseJudgeScore = NonNullable<
+  AgentEvalRunCaseRecord["scores"]
+>[number];
+
+export type EvalScores = {
+  goalCompletion: number;
+  toolEfficiency: number;
+  faithfulness: number;
+};
+
+export const buildEvalDatasetPk = (
+  workspaceId: string,
+  agentId: string,
+  datasetId: string
+): string => `agent-eval-datasets/${workspaceId}/${agentId}/${datasetId}`;
+
+export const buildEvalRunPk = (
+  workspaceId: string,
+  agentId: string,
+  runId: string
+): string => `agent-eval-runs/${workspaceId}/${agentId}/${runId}`;
+
+export const buildEvalRunCasesPk = (
+  workspaceId: string,
+  agentId: string,
+  runId: string
+): string => `agent-eval-run-cases/${workspaceId}/${agentId}/${runId}`;
+
+/**
+ * Trims the cases of a dataset and gives new cases an ID. Existing IDs are
+ * kept so runs of the same dataset can be compared case by case.
+ */
+export function normalizeEvalDatasetCases(
+  cases: Array<{
+    caseId?: string;
+    input: string;
+    expectedOutput?: string | null;
+    rubric?: string | null;
+  }>
+): EvalDatasetCase[] {
+  return cases.map((datasetCase) => {
+    const expectedOutput = datasetCase.expectedOutput?.trim();
+    const rubric = datasetCase.rubric?.trim();
+    return {
+      caseId: datasetCase.caseId || randomUUID(),
+      input: datasetCase.input.trim(),
+      ...(expectedOutput && { expectedOutput }),
+      ...(rubric && { rubric }),
+    };
+  });
+}
+
+export async function getEvalDatasetOrThrow(
+  db: DatabaseSchema,
+  workspaceId: string,
+  agentId: string,
+  datasetId: string
+): Promise<AgentEvalDatasetRecord> {
+  const dataset = await db["agent-eval-dataset"].get(
+    buildEvalDatasetPk(workspaceId, agentId, datasetId),
+    EVAL_DATASET_SK
+  );
+  if (!dataset) {
+    throw resourceGone("Eval dataset not found");
+  }
+  return dataset;
+}
+
+export async function getEvalRunOrThrow(
+  db: DatabaseSchema,
+  workspaceId: string,
+  agentId: string,
+  runId: string
+): Promise<AgentEvalRunRecord> {
+  const run = await db["agent-eval-run"].get(
+    buildEvalRunPk(workspaceId, agentId, runId),
+    EVAL_RUN_SK
+  );
+  if (!run) {
+    throw resourceGone("Eval run not found");
+  }
+  return run;
+}
+
+/**
+ * Case results of a run, in dataset order
+ */
+export async function listEvalRunCases(
+  db: DatabaseSchema,
+  run: Pick<AgentEvalRunRecord, "workspaceId" | "agentId" | "runId">
+): Promise<AgentEvalRunCaseRecord[]> {
+  const cases: AgentEvalRunCaseRecord[] = [];
+  for await (const runCase of db["agent-eval-run-case"].queryAsync({
+    KeyConditionExpression: "pk = :pk",
+    ExpressionAttributeValues: {
+      ":pk": buildEvalRunCasesPk(run.workspaceId, run.agentId, run.runId),
+    },
+  })) {
+    cases.push(runCase);
+  }
+  return cases.sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Records a run of every case of a dataset and queues the cases on the eval
+ * queue, where the agent answers each one and the judges score the answer
+ */
+export async function startEvalRun(
+  db: DatabaseSchema,
+  params: {
+    dataset: AgentEvalDatasetRecord;
+    judgeIds: string[];
+    modelName: string;
+    configVersion?: number;
+    label?: string;
+    overrides?: EvalRunOverrides;
+    createdBy?: string;
+  }
+): Promise<AgentEvalRunRecord> {
+  const { dataset } = params;
+  const runId = randomUUID();
+  const expires = Math.floor(Date.now() / 1000) + EVAL_RUN_TTL_SECONDS;
+  const casesPk = buildEvalRunCasesPk(
+    dataset.workspaceId,
+    dataset.agentId,
+    runId
+  );
+
+  const run = await db["agent-eval-run"].create({
+    pk: buildEvalRunPk(dataset.workspaceId, dataset.agentId, runId),
+    sk: EVAL_RUN_SK,
+    workspaceId: dataset.workspaceId,
+    agentId: dataset.agentId,
+    runId,
+    datasetId: dataset.datasetId,
+    datasetName: dataset.name,
+    ...(params.label && { label: params.label }),
+    ...(params.overrides && { overrides: params.overrides }),
+    modelName: params.modelName,
+    ...(params.configVersion && { configVersion: params.configVersion }),
+    judgeIds: params.judgeIds,
+    status: "running",
+    caseCount: dataset.cases.length,
+    finishedCaseCount: 0,
+    failedCaseCount: 0,
+    scoredCaseCount: 0,
+    scoreSums: { goalCompletion: 0, toolEfficiency: 0, faithfulness: 0 },
+    criticalFailureCount: 0,
+    costUsd: 0,
+    ...(params.createdBy && { createdBy: params.createdBy }),
+    expires,
+  });
+
+  for (const [position, datasetCase] of dataset.cases.entries()) {
+    await db["agent-eval-run-case"].create({
+      pk: casesPk,
+      sk: datasetCase.caseId,
+      workspaceId: dataset.workspaceId,
+      agentId: dataset.agentId,
+      runId,
+      caseId: datasetCase.caseId,
+      position,
+      input: datasetCase.input,
+      ...(datasetCase.expectedOutput && {
+        expectedOutput: datasetCase.expectedOutput,
+      }),
+      ...(datasetCase.rubric && { rubric: datasetCase.rubric }),
+      status: "pending",
+      expires,
+    });
+  }
+
+  for (const datasetCase of dataset.cases) {
+    const payload: EvalDatasetCaseMessage = {
+      workspaceId: dataset.workspaceId,
+      agentId: dataset.agentId,
+      runId,
+      caseId: datasetCase.caseId,
+    };
+    await queues.publish({ name: EVAL_QUEUE_NAME, payload });
+  }
+
+  return run;
+}
+
+/**
+ * Average of the scores of the judges that completed, or null when none did
+ */
+export function averageCaseScores(
+  scores: EvalCaseJudgeScore[] | undefined
+): EvalScores | null {
+  const completed = (scores ?? []).filter(
+    (score) =>
+      score.status === "completed" &&
+      score.scoreGoalCompletion !== null &&
+      score.scoreToolEfficiency !== null &&
+      score.scoreFaithfulness !== null
+  );
+  if (completed.length === 0) {
+    return null;
+  }
+  const average = (pick: (score: EvalCaseJudgeScore) => number | null) =>
+    completed.reduce((sum, score) => sum + (pick(score) ?? 0), 0) /
+    completed.length;
+  return {
+    goalCompletion: average((score) => score.scoreGoalCompletion),
+    toolEfficiency: average((score) => score.scoreToolEfficiency),
+    faithfulness: average((score) => score.scoreFaithfulness),
+  };
+}
+
+/**
+ * Adds the outcome of a finished case to the totals of its run. The run
+ * completes with its last case.
+ */
+export async function recordEvalRunCaseOutcome(
+  db: DatabaseSchema,
+  runPk: string,
+  outcome: {
+    failed: boolean;
+    scores?: EvalCaseJudgeScore[];
+    costUsd: number;
+  }
+): Promise<AgentEvalRunRecord> {
+  const averages = averageCaseScores(outcome.scores);
+  const criticalFailure = (outcome.scores ?? []).some(
+    (score) => score.criticalFailureDetected
+  );
+  return db["agent-eval-run"].atomicUpdate(
+    runPk,
+    EVAL_RUN_SK,
+    async (current) => {
+      if (!current) {
+        throw resourceGone("Eval run not found");
+      }
+      const finishedCaseCount = current.finishedCaseCount + 1;
+      const completed = finishedCaseCount >= current.caseCount;
+      return {
+        pk: runPk,
+        finishedCaseCount,
+        failedCaseCount: current.failedCaseCount + (outcome.failed ? 1 : 0),
+        scoredCaseCount: current.scoredCaseCount + (averages ? 1 : 0),
+        scoreSums: averages
+          ? {
+              goalCompletion:
+                current.scoreSums.goalCompletion + averages.goalCompletion,
+              toolEfficiency:
+                current.scoreSums.toolEfficiency + averages.toolEfficiency,
+              faithfulness:
+                current.scoreSums.faithfulness + averages.faithfulness,
+            }
+          : current.scoreSums,
+        criticalFailureCount:
+          current.criticalFailureCount + (criticalFailure ? 1 : 0),
+        costUsd: current.costUsd + Math.round(outcome.costUsd),
+        ...(completed && {
+          status: "completed" as const,
+          completedAt: new Date().toISOString(),
+        }),
+      };
+    }
+  );
+}
+
+export const truncateEvalOutput = (output: string): string =>
+  output.length <= EVAL_RUN_OUTPUT_MAX_LENGTH
+    ? output
+    : `${output.slice(0, EVAL_RUN_OUTPUT_MAX_LENGTH)}…`;
+
+const roundScore = (value: number): number => Math.round(value * 10) / 10;
+
+const roundScores = (scores: EvalScores | null): EvalScores | null =>
+  scores && {
+    goalCompletion: roundScore(scores.goalCompletion),
+    toolEfficiency: roundScore(scores.toolEfficiency),
+    faithfulness: roundScore(scores.faithfulness),
+  };
+
+/**
+ * API representation of a dataset; cases are only included when requested
+ */
+export function toEvalDatasetResponse(
+  dataset: AgentEvalDatasetRecord,
+  options?: { includeCases?: boolean }
+) {
+  return {
+    id: dataset.datasetId,
+    name: dataset.name,
+    description: dataset.description ?? null,
+    caseCount: dataset.cases.length,
+    ...(options?.includeCases && {
+      cases: dataset.cases.map((datasetCase) => ({
+        caseId: datasetCase.caseId,
+        input: datasetCase.input,
+        expectedOutput: datasetCase.expectedOutput ?? null,
+        rubric: datasetCase.rubric ?? null,
+      })),
+    }),
+    createdAt: dataset.createdAt,
+    updatedAt: dataset.updatedAt ?? null,
+  };
+}
+
+/**
+ * API representation of a run with its average scores
+ */
+export function toEvalRunResponse(run: AgentEvalRunRecord) {
+  return {
+    id: run.runId,
+    datasetId: run.datasetId,
+    datasetName: run.datasetName,
+    label: run.label ?? null,
+    overrides: run.overrides ?? null,
+    modelName: run.modelName,
+    configVersion: run.configVersion ?? null,
+    status: run.status,
+    caseCount: run.caseCount,
+    finishedCaseCount: run.finishedCaseCount,
+    failedCaseCount: run.failedCaseCount,
+    scoredCaseCount: run.scoredCaseCount,
+    averageScores:
+      run.scoredCaseCount > 0
+        ? roundScores({
+            goalCompletion: run.scoreSums.goalCompletion / run.scoredCaseCount,
+            toolEfficiency: run.scoreSums.toolEfficiency / run.scoredCaseCount,
+            faithfulness: run.scoreSums.faithfulness / run.scoredCaseCount,
+          })
+        : null,
+    criticalFailureCount: run.criticalFailureCount,
+    costUsd: run.costUsd,
+    createdBy: run.createdBy ?? null,
+    createdAt: run.createdAt,
+    completedAt: run.completedAt ?? null,
+  };
+}
+
+export function toEvalRunCaseResponse(runCase: AgentEvalRunCaseRecord) {
+  return {
+    caseId: runCase.caseId,
+    input: runCase.input,
+    expectedOutput: runCase.expectedOutput ?? null,
+    rubric: runCase.rubric ?? null,
+    status: runCase.status,
+    output: runCase.output ?? null,
+    toolCallCount: runCase.toolCallCount ?? null,
+    error: runCase.error ?? null,
+    averageScores: roundScores(averageCaseScores(runCase.scores)),
+    scores: runCase.scores ?? [],
+    costUsd: (runCase.agentCostUsd ?? 0) + (runCase.judgeCostUsd ?? 0),
+    durationMs: runCase.durationMs ?? null,
+  };
+}
+
+const scoreDelta = (
+  base: EvalScores | null,
+  candidate: EvalScores | null
+): EvalScores | null =>
+  base && candidate
+    ? roundScores({
+        goalCompletion: candidate.goalCompletion - base.goalCompletion,
+        toolEfficiency: candidate.toolEfficiency - base.toolEfficiency,
+        faithfulness: candidate.faithfulness - base.faithfulness,
+      })
+    : null;
+
+/**
+ * Matches the cases of two runs by case ID (in the order of the base run,
+ * followed by cases only the candidate ran) with the score and cost deltas
+ * of the candidate
+ */
+export function compareEvalRunCases(
+  baseCases: AgentEvalRunCaseRecord[],
+  candidateCases: AgentEvalRunCaseRecord[]
+) {
+  const candidateById = new Map(
+    candidateCases.map((runCase) => [runCase.caseId, runCase])
+  );
+  const baseIds = new Set(baseCases.map((runCase) => runCase.caseId));
+  const rows = [
+    ...baseCases.map((base) => ({
+      base,
+      candidate: candidateById.get(base.caseId),
+    })),
+    ...candidateCases
+      .filter((candidate) => !baseIds.has(candidate.caseId))
+      .map((candidate) => ({ base: undefined, candidate })),
+  ];
+
+  return rows.map(({ base, candidate }) => {
+    const baseResponse = base ? toEvalRunCaseResponse(base) : null;
+    const candidateResponse = candidate
+      ? toEvalRunCaseResponse(candidate)
+      : null;
+    return {
+      caseId: (base ?? candidate)!.caseId,
+      input: (base ?? candidate)!.input,
+      base: baseResponse,
+      candidate: candidateResponse,
+      scoreDelta: scoreDelta(
+        baseResponse?.averageScores ?? null,
+        candidateResponse?.averageScores ?? null
+      ),
+      costDeltaUsd:
+        baseResponse && candidateResponse
+          ? candidateResponse.costUsd - baseResponse.costUsd
+          : null,
+    };
+  });
+}
+
+/**
+ * Deletes a run and its case results
+ */
+export async function deleteEvalRun(
+  db: DatabaseSchema,
+  run: AgentEvalRunRecord
+): Promise<void> {
+  for (const runCase of await listEvalRunCases(db, run)) {
+    await db["agent-eval-run-case"].delete(runCase.pk, runCase.sk);
+  }
+  await db["agent-eval-run"].delete(run.pk, run.sk);
+}
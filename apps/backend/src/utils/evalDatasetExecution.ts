@@ -0,0 +1,299 @@
+import { callAgentNonStreaming } from "../http/utils/agentCallNonStreaming";
+import {
+  trackSuccessfulRequest,
+  validateSubscriptionAndLimits,
+} from "../http/utils/generationRequestTracking";
+import { buildConversationMessagesFromObserver } from "../http/utils/llmObserver";
+import { convertTextToUIMessage } from "../http/utils/messageConversion";
+import {
+  cleanupRequestTimeout,
+  createRequestTimeout,
+} from "../http/utils/requestTimeout";
+import type {
+  AgentEvalRunCaseRecord,
+  AgentEvalRunRecord,
+  DatabaseSchema,
+} from "../tables/schema";
+
+import {
+  buildEvalRunCasesPk,
+  buildEvalRunPk,
+  EVAL_RUN_SK,
+  recordEvalRunCaseOutcome,
+  truncateEvalOutput,
+  type EvalCaseJudgeScore,
+  type EvalDatasetCaseMessage,
+} from "./evalDataset";
+import {
+  buildEvalPrompt,
+  formatConversationForEval,
+  runEvalJudge,
+  type EvalJudgeConfig,
+} from "./evalExecution";
+import type { UIMessage } from "./messageTypes";
+import type { AugmentedContext } from "./workspaceCreditContext";
+
+const EVAL_DATASET_MODEL_REFERER = "http://localhost:3000/api/eval-dataset";
+// Timeout of the agent-eval-queue Lambda: a case running for longer was left
+// behind by an invocation that crashed or timed out
+const EVAL_RUN_CASE_STALE_CLAIM_MS = 15 * 60 * 1000;
+
+const isStaleClaim = (runCase: AgentEvalRunCaseRecord, now: number) =>
+  runCase.status === "running" &&
+  (!runCase.claimedAt ||
+    now - Date.parse(runCase.claimedAt) >= EVAL_RUN_CASE_STALE_CLAIM_MS);
+
+/**
+ * Marks a pending case as running. Returns undefined when another delivery
+ * of the same message already picked it up, so a case is charged once.
+ * A running case whose claim is stale is taken over: its invocation died
+ * and the redelivered message would otherwise leave it running forever.
+ */
+async function claimEvalRunCase(
+  db: DatabaseSchema,
+  pk: string,
+  caseId: string
+): Promise<AgentEvalRunCaseRecord | undefined> {
+  let claimed = false;
+  let stale = false;
+  const updated = await db["agent-eval-run-case"].atomicUpdate(
+    pk,
+    caseId,
+    async (current) => {
+      if (!current) {
+        throw new Error(`Eval run case ${caseId} not found`);
+      }
+      const now = Date.now();
+      stale = isStaleClaim(current, now);
+      claimed = current.status === "pending" || stale;
+      return claimed
+        ? {
+            pk,
+            sk: caseId,
+            status: "running",
+            claimedAt: new Date(now).toISOString(),
+          }
+        : { pk, sk: caseId };
+    }
+  );
+  if (claimed && stale) {
+    console.warn("[Eval Dataset] Taking over a stale running case:", {
+      pk,
+      caseId,
+    });
+  }
+  return claimed ? updated : undefined;
+}
+
+/**
+ * Scores the agent's answer with each judge of the run. A failing judge is
+ * recorded on the case and does not fail the others.
+ */
+async function scoreEvalRunCase(
+  db: DatabaseSchema,
+  params: {
+    run: AgentEvalRunRecord;
+    runCase: AgentEvalRunCaseRecord;
+    agentGoal: string;
+    messages: UIMessage[];
+    context: AugmentedContext;
+  }
+): Promise<{ scores: EvalCaseJudgeScore[]; costUsd: number }> {
+  const { run, runCase, context } = params;
+  const conversationData = formatConversationForEval(params.messages);
+  const scores: EvalCaseJudgeScore[] = [];
+  let costUsd = 0;
+
+  for (const judgeId of run.judgeIds) {
+    const judge = (await db["agent-eval-judge"].get(
+      `agent-eval-judges/${run.workspaceId}/${run.agentId}/${judgeId}`,
+      "judge"
+    )) as EvalJudgeConfig | undefined;
+    if (!judge) {
+      continue;
+    }
+    try {
+      const result = await runEvalJudge(db, {
+        workspaceId: run.workspaceId,
+        agentId: run.agentId,
+        judge,
+        prompt: buildEvalPrompt(
+          judge.evalPrompt,
+          params.agentGoal,
+          conversationData,
+          { expectedOutput: runCase.expectedOutput, rubric: runCase.rubric }
+        ),
+        context,
+      });
+      costUsd += result.costUsd ?? 0;
+      scores.push(
+        result.evalResult
+          ? {
+              judgeId,
+              judgeName: judge.name,
+              status: "completed",
+              scoreGoalCompletion: result.evalResult.score_goal_completion,
+              scoreToolEfficiency: result.evalResult.score_tool_efficiency,
+              scoreFaithfulness: result.evalResult.score_faithfulness,
+              criticalFailureDetected:
+                result.evalResult.critical_failure_detected,
+              summary: result.evalResult.summary,
+            }
+          : {
+              judgeId,
+              judgeName: judge.name,
+              status: "failed",
+              scoreGoalCompletion: null,
+              scoreToolEfficiency: null,
+              scoreFaithfulness: null,
+              criticalFailureDetected: false,
+              summary: "Evaluation failed",
+              errorMessage: (result.parseError ?? result.evalError)?.message,
+            }
+      );
+    } catch (error) {
+      scores.push({
+        judgeId,
+        judgeName: judge.name,
+        status: "failed",
+        scoreGoalCompletion: null,
+        scoreToolEfficiency: null,
+        scoreFaithfulness: null,
+        criticalFailureDetected: false,
+        summary: "Evaluation failed",
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { scores, costUsd };
+}
+
+/**
+ * Runs one case of an offline eval run: the agent (with the run's candidate
+ * overrides) answers the case input, the run's judges score the answer
+ * against the expected output and rubric, and the outcome is added to the
+ * run. Dataset runs are not logged as conversations.
+ */
+export async function executeEvalDatasetCase(
+  db: DatabaseSchema,
+  message: EvalDatasetCaseMessage,
+  context: AugmentedContext
+): Promise<void> {
+  const { workspaceId, agentId, runId, caseId } = message;
+  const runPk = buildEvalRunPk(workspaceId, agentId, runId);
+  const run = await db["agent-eval-run"].get(runPk, EVAL_RUN_SK);
+  if (!run) {
+    console.warn("[Eval Dataset] Run not found, skipping case:", message);
+    return;
+  }
+  const runCase = await claimEvalRunCase(
+    db,
+    buildEvalRunCasesPk(workspaceId, agentId, runId),
+    caseId
+  );
+  if (!runCase) {
+    console.log("[Eval Dataset] Case already handled:", message);
+    return;
+  }
+
+  const agent = await db.agent.get(`agents/${workspaceId}/${agentId}`, "agent");
+  if (!agent) {
+    await db["agent-eval-run-case"].update({
+      pk: runCase.pk,
+      sk: runCase.sk,
+      status: "failed",
+      error: "Agent not found",
+    });
+    await recordEvalRunCaseOutcome(db, runPk, { failed: true, costUsd: 0 });
+    return;
+  }
+
+  const requestTimeout = createRequestTimeout();
+  let agentCostUsd = 0;
+  try {
+    const subscriptionId = await validateSubscriptionAndLimits(
+      workspaceId,
+      "eval-dataset"
+    );
+    const generationStartTime = Date.now();
+    const agentResult = await callAgentNonStreaming(
+      workspaceId,
+      agentId,
+      runCase.input,
+      {
+        modelReferer: EVAL_DATASET_MODEL_REFERER,
+        context,
+        endpointType: "eval-dataset",
+        abortSignal: requestTimeout.signal,
+        agentOverrides: run.overrides,
+      }
+    );
+    const durationMs = Date.now() - generationStartTime;
+    agentCostUsd = agentResult.provisionalCostUsd ?? 0;
+    await trackSuccessfulRequest(
+      subscriptionId,
+      workspaceId,
+      agentId,
+      "eval-dataset"
+    );
+
+    const messages = buildConversationMessagesFromObserver({
+      observerEvents: agentResult.observerEvents ?? [],
+      fallbackInputMessages: [convertTextToUIMessage(runCase.input)],
+      fallbackAssistantText: agentResult.text,
+      assistantMeta: {
+        tokenUsage: agentResult.tokenUsage,
+        modelName: agentResult.modelName ?? run.modelName,
+        provider: "openrouter",
+      },
+    });
+    const toolCallCount = formatConversationForEval(messages).steps.filter(
+      (step) => step.type === "tool_call"
+    ).length;
+
+    const { scores, costUsd: judgeCostUsd } = await scoreEvalRunCase(db, {
+      run,
+      runCase,
+      agentGoal: run.overrides?.systemPrompt ?? agent.systemPrompt,
+      messages,
+      context,
+    });
+
+    await db["agent-eval-run-case"].update({
+      pk: runCase.pk,
+      sk: runCase.sk,
+      status: "completed",
+      output: truncateEvalOutput(agentResult.text),
+      toolCallCount,
+      agentCostUsd: Math.round(agentCostUsd),
+      judgeCostUsd: Math.round(judgeCostUsd),
+      durationMs,
+      scores,
+    });
+    await recordEvalRunCaseOutcome(db, runPk, {
+      failed: false,
+      scores,
+      costUsd: agentCostUsd + judgeCostUsd,
+    });
+  } catch (error) {
+    // Not rethrown: a retry would run (and charge for) the agent again
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("[Eval Dataset] Case failed:", {
+      ...message,
+      error: errorMessage,
+    });
+    await db["agent-eval-run-case"].update({
+      pk: runCase.pk,
+      sk: runCase.sk,
+      status: "failed",
+      error: errorMessage.substring(0, 1000),
+    });
+    await recordEvalRunCaseOutcome(db, runPk, {
+      failed: true,
+      costUsd: agentCostUsd,
+    });
+  } finally {
+    cleanupRequestTimeout(requestTimeout);
+  }
+}
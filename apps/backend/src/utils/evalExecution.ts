@@ -8,6 +8,10 @@ import {
 } from "../http/utils/generationCreditManagement";
 import { extractTokenUsageAndCosts } from "../http/utils/generationTokenExtraction";
 import { createModel } from "../http/utils/modelFactory";
+import {
+  getModelFallbackChain,
+  isModelFallbackError,
+} from "../http/utils/modelFallback";
 import {
   createRequestTimeout,
   cleanupRequestTimeout,
@@ -18,6 +22,7 @@ import type { TokenUsage } from "./conversationLogger";
 import { getRecord } from "./conversationRecords";
 import { validateCreditsAndLimitsAndReserve } from "./creditValidation";
 import type { UIMessage } from "./messageTypes";
+import { isCustomModelName } from "./modelEndpoints";
 import type { AugmentedContext } from "./workspaceCreditContext";
 
 /**
@@ -272,6 +277,7 @@ export function buildEvalFailureRecord(input: {
   costUsd: number | undefined;
   usesByok: boolean;
   tokenUsage: TokenUsage | undefined;
+  modelName?: string;
   errorMessage: string;
   errorDetails: string;
 }): Record<string, unknown> {
@@ -293,6 +299,7 @@ export function buildEvalFailureRecord(input: {
     errorDetails: input.errorDetails,
     costUsd: input.costUsd,
     usesByok: input.usesByok,
+    modelName: input.modelName,
     tokenUsage: input.tokenUsage,
     evaluatedAt: input.evaluatedAt,
     agentIdEvaluatedAt: `${input.agentId}#${input.evaluatedAt}`,
@@ -343,6 +350,353 @@ const mergeTokenUsage = (
   return merged;
 };
 
+/** Judge configuration used by runEvalJudge */
+export type EvalJudgeConfig = {
+  judgeId: string;
+  enabled: boolean;
+  provider: string;
+  modelName: string;
+  fallbackModelNames?: string[];
+  evalPrompt: string;
+  name: string;
+};
+
+/**
+ * Expected answer and rubric notes of an offline eval dataset case
+ */
+export type EvalReference = {
+  expectedOutput?: string;
+  rubric?: string;
+};
+
+/**
+ * Build the judge prompt: the judge's template with {agent_goal} replaced,
+ * followed by the conversation data (and the reference of a dataset case)
+ */
+export function buildEvalPrompt(
+  evalPromptTemplate: string,
+  agentGoal: string,
+  conversationData: ReturnType<typeof formatConversationForEval>,
+  reference?: EvalReference
+): string {
+  // The eval prompt should reference {input_prompt}, {steps}, {final_response}, and {agent_goal}
+  const evalPrompt = evalPromptTemplate.replace(/{agent_goal}/g, agentGoal);
+  const hasReference = Boolean(reference?.expectedOutput || reference?.rubric);
+
+  return `${evalPrompt}
+
+Here is the conversation data to evaluate:
+
+\`\`\`json
+${JSON.stringify(
+  {
+    input_prompt: conversationData.input_prompt,
+    steps: conversationData.steps,
+    final_response: conversationData.final_response,
+    agent_goal: agentGoal,
+    ...(reference?.expectedOutput && {
+      expected_output: reference.expectedOutput,
+    }),
+    ...(reference?.rubric && { rubric_notes: reference.rubric }),
+  },
+  null,
+  2
+)}
+\`\`\`
+${
+  hasReference
+    ? "\nThis is a test case: score goal completion and faithfulness against expected_output and rubric_notes. The wording of final_response may differ from expected_output.\n"
+    : ""
+}
+Please provide your evaluation as a JSON object following the specified format.`;
+}
+
+/**
+ * Run a judge on a prompt built with buildEvalPrompt, trying the judge's
+ * fallback models in order when its provider fails. Credits are reserved and
+ * settled for each model tried.
+ */
+export async function runEvalJudge(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Database schema is dynamically generated
+  db: any,
+  params: {
+    workspaceId: string;
+    agentId: string;
+    judge: EvalJudgeConfig;
+    prompt: string;
+    context: AugmentedContext;
+    conversationId?: string;
+  }
+): Promise<{
+  evalResult: ReturnType<typeof parseEvalResponse> | null;
+  parseError: Error | null;
+  evalError: Error | null;
+  tokenUsage: TokenUsage | undefined;
+  costUsd: number | undefined;
+  modelName: string;
+  usesByok: boolean;
+}> {
+  const { workspaceId, agentId, judge, context, conversationId } = params;
+  const judgeId = judge.judgeId;
+
+  // Check if workspace uses BYOK
+  const { getWorkspaceApiKey } = await import("../http/utils/agentUtils");
+  const workspaceKey = await getWorkspaceApiKey(workspaceId, judge.provider as "openrouter");
+  const usesByok = workspaceKey !== null;
+
+  // Create model for the judge
+  // Only openrouter is supported for eval judges
+  if (judge.provider !== "openrouter") {
+    throw new Error(`Provider ${judge.provider} is not supported for eval judges. Only openrouter is supported.`);
+  }
+  // Prepare messages for LLM call
+  const initialMessages: ModelMessage[] = [
+    {
+      role: "user",
+      content: params.prompt,
+    },
+  ];
+  /**
+   * Runs the judge with one model: reserves credits, calls the model (asking
+   * again when the response cannot be parsed) and settles the reservation
+   * priced for that model
+   */
+  const runJudgeWithModel = async (modelName: string) => {
+    const model = await createModel(
+      "openrouter",
+      modelName,
+      workspaceId,
+      undefined, // referer
+      undefined, // userId
+      undefined // agentConfig
+    );
+    const messages: ModelMessage[] = [...initialMessages];
+    // Custom endpoint models cost no credits, like BYOK
+    const callUsesByok = usesByok || isCustomModelName(modelName);
+
+    // Validate credits and reserve (if not BYOK)
+    const reservationId = await validateCreditsAndLimitsAndReserve(
+      db,
+      workspaceId,
+      undefined, // agentId (judge doesn't have an agent)
+      "openrouter",
+      modelName,
+      messages,
+      undefined, // systemPrompt (included in user message)
+      undefined, // toolDefinitions
+      callUsesByok,
+      context,
+      conversationId
+    );
+
+    let evalResult:
+      | ReturnType<typeof parseEvalResponse>
+      | null = null;
+    let parseError: Error | null = null;
+    let evalError: Error | null = null;
+    let totalTokenUsage: TokenUsage | undefined;
+    let totalOpenrouterGenerationIds: string[] = [];
+    let totalCostUsd: number | undefined;
+    let llmCallAttempted = false;
+
+    for (let attempt = 1; attempt <= MAX_EVAL_PARSE_ATTEMPTS; attempt += 1) {
+      console.log("[Eval Execution] generateText arguments:", {
+        model: modelName,
+        messagesCount: messages.length,
+        attempt,
+      });
+      const requestTimeout = createRequestTimeout();
+      let result: Awaited<ReturnType<typeof generateText>>;
+      try {
+        llmCallAttempted = true;
+        result = await generateText({
+          model: model as unknown as Parameters<typeof generateText>[0]["model"],
+          messages,
+          abortSignal: requestTimeout.signal,
+        });
+      } catch (error) {
+        evalError = error instanceof Error ? error : new Error(String(error));
+        break;
+      } finally {
+        cleanupRequestTimeout(requestTimeout);
+      }
+
+      const extractionResult = extractTokenUsageAndCosts(
+        result as unknown as { totalUsage?: unknown; usage?: unknown },
+        undefined,
+        modelName,
+        "test" // endpoint type
+      );
+
+      totalTokenUsage = mergeTokenUsage(
+        totalTokenUsage,
+        extractionResult.tokenUsage
+      );
+      if (extractionResult.openrouterGenerationIds.length > 0) {
+        totalOpenrouterGenerationIds = Array.from(
+          new Set([
+            ...totalOpenrouterGenerationIds,
+            ...extractionResult.openrouterGenerationIds,
+          ])
+        );
+      }
+      if (extractionResult.provisionalCostUsd !== undefined) {
+        totalCostUsd =
+          (totalCostUsd ?? 0) + extractionResult.provisionalCostUsd;
+      }
+
+      try {
+        evalResult = parseEvalResponse(result.text);
+        parseError = null;
+        break;
+      } catch (error) {
+        parseError = error instanceof Error ? error : new Error(String(error));
+        console.error("[Eval Execution] Failed to parse evaluation response:", {
+          error: parseError.message,
+          text: result.text.substring(0, 500), // Log first 500 chars
+          judgeId,
+          conversationId,
+          attempt,
+        });
+        if (attempt < MAX_EVAL_PARSE_ATTEMPTS) {
+          messages.push({
+            role: "assistant",
+            content: result.text,
+          });
+          messages.push({
+            role: "user",
+            content: buildEvalParseRetryPrompt(parseError.message),
+          });
+        }
+      }
+    }
+
+    // Adjust credits after LLM calls
+    if (reservationId) {
+      const dbWithAtomic = db as Parameters<typeof adjustCreditsAfterLLMCall>[0];
+      await adjustCreditsAfterLLMCall(
+        dbWithAtomic,
+        workspaceId,
+        agentId, // agentId for eval execution
+        reservationId.reservationId,
+        "openrouter",
+        modelName,
+        totalTokenUsage,
+        callUsesByok,
+        totalOpenrouterGenerationIds[0],
+        totalOpenrouterGenerationIds,
+        "test", // endpoint type
+        context,
+        conversationId
+      );
+    }
+
+    const reservationKey = reservationId?.reservationId;
+    const hasGenerationIds = totalOpenrouterGenerationIds.length > 0;
+    if (
+      !evalError &&
+      reservationKey &&
+      reservationKey !== "byok" &&
+      (!totalTokenUsage ||
+        (totalTokenUsage.promptTokens === 0 &&
+          totalTokenUsage.completionTokens === 0)) &&
+      !hasGenerationIds
+    ) {
+      await cleanupReservationWithoutTokenUsage(
+        db,
+        reservationKey,
+        workspaceId,
+        agentId,
+        "test"
+      );
+    } else if (
+      !evalError &&
+      reservationKey &&
+      reservationKey !== "byok" &&
+      (!totalTokenUsage ||
+        (totalTokenUsage.promptTokens === 0 &&
+          totalTokenUsage.completionTokens === 0)) &&
+      hasGenerationIds
+    ) {
+      console.warn(
+        "[Eval Execution] No token usage available, keeping reservation for verification",
+        {
+          workspaceId,
+          agentId,
+          reservationId: reservationKey,
+        }
+      );
+    }
+
+    if (!evalResult && evalError && reservationId) {
+      const dbWithAtomic = db as Parameters<typeof cleanupReservationOnError>[0];
+      await cleanupReservationOnError(
+        dbWithAtomic,
+        reservationId.reservationId,
+        workspaceId,
+        agentId,
+        "openrouter",
+        modelName,
+        evalError,
+        llmCallAttempted,
+        callUsesByok,
+        "test",
+        context
+      );
+    }
+
+    return {
+      evalResult,
+      parseError,
+      evalError,
+      tokenUsage: totalTokenUsage,
+      costUsd: totalCostUsd,
+    };
+  };
+
+  // Try the judge's fallback models in order when its provider fails
+  const modelChain = getModelFallbackChain(
+    judge.modelName,
+    judge.fallbackModelNames
+  );
+  let answeringModelName = judge.modelName;
+  let run: Awaited<ReturnType<typeof runJudgeWithModel>> | undefined;
+  let totalTokenUsage: TokenUsage | undefined;
+  let totalCostUsd: number | undefined;
+  for (const [index, modelName] of modelChain.entries()) {
+    answeringModelName = modelName;
+    run = await runJudgeWithModel(modelName);
+    totalTokenUsage = mergeTokenUsage(totalTokenUsage, run.tokenUsage);
+    if (run.costUsd !== undefined) {
+      totalCostUsd = (totalCostUsd ?? 0) + run.costUsd;
+    }
+    const nextModelName = modelChain[index + 1];
+    if (
+      run.evalResult ||
+      !run.evalError ||
+      !nextModelName ||
+      !isModelFallbackError(run.evalError)
+    ) {
+      break;
+    }
+    console.warn("[Eval Execution] Judge model failed, falling back:", {
+      judgeId,
+      failedModel: modelName,
+      nextModel: nextModelName,
+      error: run.evalError.message,
+    });
+  }
+  return {
+    evalResult: run?.evalResult ?? null,
+    parseError: run?.parseError ?? null,
+    evalError: run?.evalError ?? null,
+    tokenUsage: totalTokenUsage,
+    costUsd: totalCostUsd,
+    modelName: answeringModelName,
+    usesByok: usesByok || isCustomModelName(answeringModelName),
+  };
+}
+
 /**
  * Execute an evaluation using a judge on a conversation
  */
@@ -358,14 +712,7 @@ export async function executeEvaluation(
   // Get the judge configuration
   const judgePk = `agent-eval-judges/${workspaceId}/${agentId}/${judgeId}`;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Database schema is dynamically generated
-  const judge = await (db as any)["agent-eval-judge"].get(judgePk, "judge") as {
-    judgeId: string;
-    enabled: boolean;
-    provider: string;
-    modelName: string;
-    evalPrompt: string;
-    name: string;
-  } | null;
+  const judge = await (db as any)["agent-eval-judge"].get(judgePk, "judge") as EvalJudgeConfig | null;
   if (!judge) {
     throw new Error(`Eval judge ${judgeId} not found`);
   }
@@ -405,232 +752,28 @@ export async function executeEvaluation(
     conversation.messages as UIMessage[]
   );
 
-  // Build the eval prompt by replacing placeholders
-  // The eval prompt should reference {input_prompt}, {steps}, {final_response}, and {agent_goal}
-  let evalPrompt = judge.evalPrompt;
-  evalPrompt = evalPrompt.replace(/{agent_goal}/g, agent.systemPrompt);
-  
-  // Create the full prompt with the conversation data
-  const fullPrompt = `${evalPrompt}
-
-Here is the conversation data to evaluate:
-
-\`\`\`json
-${JSON.stringify(
-  {
-    input_prompt: conversationData.input_prompt,
-    steps: conversationData.steps,
-    final_response: conversationData.final_response,
-    agent_goal: agent.systemPrompt,
-  },
-  null,
-  2
-)}
-\`\`\`
-
-Please provide your evaluation as a JSON object following the specified format.`;
-
-  // Check if workspace uses BYOK
-  const { getWorkspaceApiKey } = await import("../http/utils/agentUtils");
-  const workspaceKey = await getWorkspaceApiKey(workspaceId, judge.provider as "openrouter");
-  const usesByok = workspaceKey !== null;
-
-  // Create model for the judge
-  // Only openrouter is supported for eval judges
-  if (judge.provider !== "openrouter") {
-    throw new Error(`Provider ${judge.provider} is not supported for eval judges. Only openrouter is supported.`);
-  }
-  const model = await createModel(
-    "openrouter",
-    judge.modelName,
-    workspaceId,
-    undefined, // referer
-    undefined, // userId
-    undefined // agentConfig
+  const fullPrompt = buildEvalPrompt(
+    judge.evalPrompt,
+    agent.systemPrompt,
+    conversationData
   );
 
-  // Prepare messages for LLM call
-  const messages: ModelMessage[] = [
-    {
-      role: "user",
-      content: fullPrompt,
-    },
-  ];
-
-  // Validate credits and reserve (if not BYOK)
-  // Only openrouter is supported for now
-  if (judge.provider !== "openrouter") {
-    throw new Error(`Provider ${judge.provider} is not supported for eval judges. Only openrouter is supported.`);
-  }
-  const reservationId = await validateCreditsAndLimitsAndReserve(
-    db,
+  const {
+    evalResult,
+    parseError,
+    evalError,
+    tokenUsage: totalTokenUsage,
+    costUsd: totalCostUsd,
+    modelName: answeringModelName,
+    usesByok: resultUsesByok,
+  } = await runEvalJudge(db, {
     workspaceId,
-    undefined, // agentId (judge doesn't have an agent)
-    "openrouter",
-    judge.modelName,
-    messages,
-    undefined, // systemPrompt (included in user message)
-    undefined, // toolDefinitions
-    usesByok,
+    agentId,
+    judge,
+    prompt: fullPrompt,
     context,
-    conversationId
-  );
-
-  let evalResult:
-    | ReturnType<typeof parseEvalResponse>
-    | null = null;
-  let parseError: Error | null = null;
-  let evalError: Error | null = null;
-  let totalTokenUsage: TokenUsage | undefined;
-  let totalOpenrouterGenerationIds: string[] = [];
-  let totalCostUsd: number | undefined;
-  let llmCallAttempted = false;
-
-  for (let attempt = 1; attempt <= MAX_EVAL_PARSE_ATTEMPTS; attempt += 1) {
-    console.log("[Eval Execution] generateText arguments:", {
-      model: judge.modelName,
-      messagesCount: messages.length,
-      attempt,
-    });
-    const requestTimeout = createRequestTimeout();
-    let result: Awaited<ReturnType<typeof generateText>>;
-    try {
-      llmCallAttempted = true;
-      result = await generateText({
-        model: model as unknown as Parameters<typeof generateText>[0]["model"],
-        messages,
-        abortSignal: requestTimeout.signal,
-      });
-    } catch (error) {
-      evalError = error instanceof Error ? error : new Error(String(error));
-      break;
-    } finally {
-      cleanupRequestTimeout(requestTimeout);
-    }
-
-    const extractionResult = extractTokenUsageAndCosts(
-      result as unknown as { totalUsage?: unknown; usage?: unknown },
-      undefined,
-      judge.modelName,
-      "test" // endpoint type
-    );
-
-    totalTokenUsage = mergeTokenUsage(
-      totalTokenUsage,
-      extractionResult.tokenUsage
-    );
-    if (extractionResult.openrouterGenerationIds.length > 0) {
-      totalOpenrouterGenerationIds = Array.from(
-        new Set([
-          ...totalOpenrouterGenerationIds,
-          ...extractionResult.openrouterGenerationIds,
-        ])
-      );
-    }
-    if (extractionResult.provisionalCostUsd !== undefined) {
-      totalCostUsd =
-        (totalCostUsd ?? 0) + extractionResult.provisionalCostUsd;
-    }
-
-    try {
-      evalResult = parseEvalResponse(result.text);
-      parseError = null;
-      break;
-    } catch (error) {
-      parseError = error instanceof Error ? error : new Error(String(error));
-      console.error("[Eval Execution] Failed to parse evaluation response:", {
-        error: parseError.message,
-        text: result.text.substring(0, 500), // Log first 500 chars
-        judgeId,
-        conversationId,
-        attempt,
-      });
-      if (attempt < MAX_EVAL_PARSE_ATTEMPTS) {
-        messages.push({
-          role: "assistant",
-          content: result.text,
-        });
-        messages.push({
-          role: "user",
-          content: buildEvalParseRetryPrompt(parseError.message),
-        });
-      }
-    }
-  }
-
-  // Adjust credits after LLM calls
-  if (reservationId) {
-    const dbWithAtomic = db as Parameters<typeof adjustCreditsAfterLLMCall>[0];
-    await adjustCreditsAfterLLMCall(
-      dbWithAtomic,
-      workspaceId,
-      agentId, // agentId for eval execution
-      reservationId.reservationId,
-      "openrouter",
-      judge.modelName,
-      totalTokenUsage,
-      usesByok,
-      totalOpenrouterGenerationIds[0],
-      totalOpenrouterGenerationIds,
-      "test", // endpoint type
-      context,
-      conversationId
-    );
-  }
-
-  const reservationKey = reservationId?.reservationId;
-  const hasGenerationIds = totalOpenrouterGenerationIds.length > 0;
-  if (
-    !evalError &&
-    reservationKey &&
-    reservationKey !== "byok" &&
-    (!totalTokenUsage ||
-      (totalTokenUsage.promptTokens === 0 &&
-        totalTokenUsage.completionTokens === 0)) &&
-    !hasGenerationIds
-  ) {
-    await cleanupReservationWithoutTokenUsage(
-      db,
-      reservationKey,
-      workspaceId,
-      agentId,
-      "test"
-    );
-  } else if (
-    !evalError &&
-    reservationKey &&
-    reservationKey !== "byok" &&
-    (!totalTokenUsage ||
-      (totalTokenUsage.promptTokens === 0 &&
-        totalTokenUsage.completionTokens === 0)) &&
-    hasGenerationIds
-  ) {
-    console.warn(
-      "[Eval Execution] No token usage available, keeping reservation for verification",
-      {
-        workspaceId,
-        agentId,
-        reservationId: reservationKey,
-      }
-    );
-  }
-
-  if (!evalResult && evalError && reservationId) {
-    const dbWithAtomic = db as Parameters<typeof cleanupReservationOnError>[0];
-    await cleanupReservationOnError(
-      dbWithAtomic,
-      reservationId.reservationId,
-      workspaceId,
-      agentId,
-      "openrouter",
-      judge.modelName,
-      evalError,
-      llmCallAttempted,
-      usesByok,
-      "test",
-      context
-    );
-  }
+    conversationId,
+  });
 
   // Store the evaluation result
   const resultPk = `agent-eval-results/${workspaceId}/${agentId}/${conversationId}/${judgeId}`;
@@ -654,8 +797,9 @@ Please provide your evaluation as a JSON object following the specified format.`
       criticalFailureDetected: evalResult.critical_failure_detected,
       reasoningTrace: evalResult.reasoning_trace,
       costUsd: totalCostUsd,
-      usesByok,
+      usesByok: resultUsesByok,
       tokenUsage: totalTokenUsage,
+      modelName: answeringModelName,
       evaluatedAt: now,
       agentIdEvaluatedAt: `${agentId}#${now}`,
       version: 1,
@@ -679,8 +823,9 @@ Please provide your evaluation as a JSON object following the specified format.`
       judgeId,
       evaluatedAt: now,
       costUsd: totalCostUsd,
-      usesByok,
+      usesByok: resultUsesByok,
       tokenUsage: totalTokenUsage,
+      modelName: answeringModelName,
       errorMessage: failureMessage,
       errorDetails: failureDetails,
     });
@@ -702,5 +847,6 @@ Please provide your evaluation as a JSON object following the specified format.`
       : undefined,
     criticalFailure: evalResult?.critical_failure_detected,
     costUsd: totalCostUsd,
+    modelName: answeringModelName,
   });
 }
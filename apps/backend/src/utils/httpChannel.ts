@@ -0,0 +1,221 @@
+import { randomBytes } from "crypto";
+
+import { z } from "zod";
+
+import {
+  NonPublicAddressError,
+  assertPublicHost,
+  isNonPublicHostname,
+} from "./publicAddress";
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  isLocalSandbox,
+  isRetryableHttpStatus,
+  signWebhookPayload,
+} from "./webhookCallback";
+
+export const HTTP_CHANNEL_DELIVERY_HEADER = "X-Helpmaton-Delivery";
+
+const HTTP_CHANNEL_URL_MAX_LENGTH = 2048;
+const HTTP_CHANNEL_MAX_HEADERS = 20;
+const HTTP_CHANNEL_HEADER_VALUE_MAX_LENGTH = 1024;
+const HTTP_CHANNEL_REQUEST_TIMEOUT_MS = 10000;
+const HTTP_CHANNEL_SECRET_MIN_LENGTH = 16;
+
+// Headers set by the delivery itself; custom headers cannot override them
+const RESERVED_HEADER_NAMES = new Set([
+  "content-type",
+  "content-length",
+  "host",
+  "user-agent",
+  WEBHOOK_SIGNATURE_HEADER.toLowerCase(),
+  WEBHOOK_TIMESTAMP_HEADER.toLowerCase(),
+  HTTP_CHANNEL_DELIVERY_HEADER.toLowerCase(),
+]);
+
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
+
+/**
+ * Configuration of an "http" output channel.
+ * The secret signs every delivery (see signWebhookPayload).
+ */
+export const httpChannelConfigSchema = z
+  .object({
+    url: z.string().max(HTTP_CHANNEL_URL_MAX_LENGTH),
+    headers: z.record(z.string(), z.string()).optional(),
+    secret: z
+      .string()
+      .min(
+        HTTP_CHANNEL_SECRET_MIN_LENGTH,
+        `config.secret must be at least ${HTTP_CHANNEL_SECRET_MIN_LENGTH} characters`
+      ),
+  })
+  .strict();
+
+export type HttpChannelConfig = z.infer<typeof httpChannelConfigSchema>;
+
+/**
+ * JSON body POSTed to an http channel
+ */
+export type HttpChannelEnvelope = {
+  deliveryId: string;
+  event: "notification";
+  workspaceId: string;
+  channelId: string;
+  agentId?: string;
+  conversationId?: string;
+  content: string;
+  /** Cost of the run that produced the notification in USD, when known */
+  costUsd?: number;
+  createdAt: string;
+};
+
+export type HttpChannelAttempt = {
+  ok: boolean;
+  /** True when the failure is transient and the delivery should be retried */
+  retryable: boolean;
+  statusCode?: number;
+  error?: string;
+};
+
+export function generateHttpChannelSecret(): string {
+  return `whsec_${randomBytes(32).toString("hex")}`;
+}
+
+function validateHttpChannelUrl(rawUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    throw new Error("config.url must be a valid URL");
+  }
+  const sandbox = isLocalSandbox();
+  if (url.protocol !== "https:" && !(sandbox && url.protocol === "http:")) {
+    throw new Error("config.url must use https");
+  }
+  if (url.username || url.password) {
+    throw new Error(
+      "config.url must not contain credentials; use config.headers instead"
+    );
+  }
+  // Host names are resolved again before each delivery
+  if (!sandbox && isNonPublicHostname(url.hostname)) {
+    throw new Error("config.url must point to a public host");
+  }
+  return url.toString();
+}
+
+function validateHttpChannelHeaders(
+  headers: Record<string, string>
+): Record<string, string> {
+  const entries = Object.entries(headers);
+  if (entries.length > HTTP_CHANNEL_MAX_HEADERS) {
+    throw new Error(
+      `config.headers must contain at most ${HTTP_CHANNEL_MAX_HEADERS} headers`
+    );
+  }
+  for (const [name, value] of entries) {
+    if (!HEADER_NAME_PATTERN.test(name)) {
+      throw new Error(`config.headers: invalid header name "${name}"`);
+    }
+    if (RESERVED_HEADER_NAMES.has(name.toLowerCase())) {
+      throw new Error(`config.headers: "${name}" is set by Helpmaton`);
+    }
+    if (
+      /[\r\n]/.test(value) ||
+      value.length > HTTP_CHANNEL_HEADER_VALUE_MAX_LENGTH
+    ) {
+      throw new Error(
+        `config.headers: value of "${name}" must be a single line of at most ${HTTP_CHANNEL_HEADER_VALUE_MAX_LENGTH} characters`
+      );
+    }
+  }
+  return headers;
+}
+
+/**
+ * Validate an http channel configuration
+ * @throws Error with a user-facing message when the configuration is invalid
+ */
+export function parseHttpChannelConfig(config: unknown): HttpChannelConfig {
+  const result = httpChannelConfigSchema.safeParse(config);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(
+      issue?.code === "invalid_type" && issue.path.length > 0
+        ? `config.${issue.path.join(".")} is required and must be a ${issue.expected}`
+        : issue?.message || "Invalid http channel configuration"
+    );
+  }
+  return {
+    ...result.data,
+    url: validateHttpChannelUrl(result.data.url),
+    ...(result.data.headers && {
+      headers: validateHttpChannelHeaders(result.data.headers),
+    }),
+  };
+}
+
+/**
+ * POST an envelope to an http channel once.
+ * The host is resolved first and non-public addresses are refused; redirects are not
+ * followed. Never throws - the outcome is returned so the caller can log it and schedule
+ * a retry.
+ */
+export async function postHttpChannelEnvelope(
+  config: HttpChannelConfig,
+  envelope: HttpChannelEnvelope
+): Promise<HttpChannelAttempt> {
+  if (!isLocalSandbox()) {
+    try {
+      await assertPublicHost(new URL(config.url).hostname);
+    } catch (error) {
+      return {
+        ok: false,
+        // DNS lookups can fail temporarily; non-public targets never become valid
+        retryable: !(error instanceof NonPublicAddressError),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  const body = JSON.stringify(envelope);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  try {
+    const response = await fetch(config.url, {
+      method: "POST",
+      headers: {
+        ...config.headers,
+        "Content-Type": "application/json",
+        "User-Agent": "Helpmaton-Webhook/1.0",
+        [HTTP_CHANNEL_DELIVERY_HEADER]: envelope.deliveryId,
+        [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+          config.secret,
+          timestamp,
+          body
+        ),
+      },
+      body,
+      // A redirect could point to an internal address
+      redirect: "manual",
+      signal: AbortSignal.timeout(HTTP_CHANNEL_REQUEST_TIMEOUT_MS),
+    });
+    if (response.ok) {
+      return { ok: true, retryable: false, statusCode: response.status };
+    }
+    return {
+      ok: false,
+      retryable: isRetryableHttpStatus(response.status),
+      statusCode: response.status,
+      error: `Endpoint responded with status ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      retryable: true,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
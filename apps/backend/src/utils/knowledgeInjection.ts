@@ -5,7 +5,8 @@ import type { DatabaseSchema } from "../tables/schema";
 
 import { fromNanoDollars, toNanoDollars } from "./creditConversions";
 import { InsufficientCreditsError, isCreditUserError } from "./creditErrors";
-import { searchDocuments } from "./documentSearch";
+import { getAgentDocumentScope } from "./documentScope";
+import { formatDocumentSource, searchDocuments } from "./documentSearch";
 import { extractEntitiesFromPrompt } from "./knowledgeInjection/entityExtraction";
 import { searchGraphByEntities } from "./knowledgeInjection/graphSearch";
 import { rerankSnippets } from "./knowledgeReranking";
@@ -15,6 +16,7 @@ import {
   refundRerankingCredits,
   reserveRerankingCredits,
 } from "./knowledgeRerankingCredits";
+import { getAgentMemoryPartitionKey } from "./memory/memoryPartitions";
 import { searchMemory } from "./memory/searchMemory";
 import type {
   KnowledgeSnippet,
@@ -587,13 +589,10 @@ function formatKnowledgePrompt(results: KnowledgeSnippet[]): string {
   if (documentSnippets.length > 0) {
     const snippetsText = documentSnippets
       .map((result) => {
-        const folderPathText = result.folderPath
-          ? ` (${result.folderPath})`
-          : "";
         const similarityPercent = (result.similarity * 100).toFixed(1);
         const snippetIndex = globalIndex++;
 
-        return `[${snippetIndex}] Document: ${result.documentName}${folderPathText}
+        return `[${snippetIndex}] Document: ${formatDocumentSource(result)}
 Similarity: ${similarityPercent}%
 Content:
 ${result.snippet}
@@ -718,8 +717,9 @@ export async function injectKnowledgeIntoMessages(
   agentId?: string,
   conversationId?: string,
   usesByok?: boolean,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars -- Kept for API compatibility; callers may pass existing conversation messages
+  // Kept for API compatibility; callers may pass existing conversation messages
   _existingConversationMessages?: UIMessage[],
+  endUserId?: string, // memories of this end user are searched with the agent-global ones
 ): Promise<KnowledgeInjectionResult> {
   // Check if knowledge injection is enabled
   if (!agent.enableKnowledgeInjection) {
@@ -772,6 +772,8 @@ export async function injectKnowledgeIntoMessages(
             context,
             agentId,
             conversationId,
+            folderPaths: agent.knowledgeFolderPaths,
+            tags: agent.knowledgeTags,
           })
         ).map((result) => ({
           ...result,
@@ -782,6 +784,7 @@ export async function injectKnowledgeIntoMessages(
     let memorySnippets: KnowledgeSnippet[] = [];
     let graphSnippets: KnowledgeSnippet[] = [];
     if (canInjectFromMemories) {
+      const partitionKey = getAgentMemoryPartitionKey(agent, endUserId);
       // Memory search and entity extraction are independent; run in parallel. Graph search depends on entities, so it runs after.
       const [memoryResults, entities] = await Promise.all([
         searchMemory({
@@ -793,6 +796,7 @@ export async function injectKnowledgeIntoMessages(
           db,
           context,
           conversationId,
+          ...(partitionKey && { partitionKey }),
         }),
         extractEntitiesFromPrompt({
           workspaceId,
@@ -815,6 +819,9 @@ export async function injectKnowledgeIntoMessages(
         workspaceId,
         agentId,
         entities,
+        ...(partitionKey && { partitionKey }),
+        documentScope: getAgentDocumentScope(agent),
+        db,
       });
       graphSnippets = graphResults.map((result) => ({
         snippet: result.snippet,
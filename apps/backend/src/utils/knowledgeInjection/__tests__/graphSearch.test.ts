@@ -54,4 +54,73 @@ describe("searchGraphByEntities", () => {
       },
     ]);
   });
+
+  it("drops facts learned from documents outside the document scope", async () => {
+    mockQueryGraph.mockResolvedValue([
+      { source_id: "User", target_id: "React", label: "likes" },
+      {
+        source_id: "User",
+        target_id: "Berlin",
+        label: "lives_in",
+        properties: JSON.stringify({ documentIds: ["doc-hr"] }),
+      },
+      {
+        source_id: "User",
+        target_id: "Team A",
+        label: "works_in",
+        properties: { documentIds: ["doc-public"] },
+      },
+      {
+        source_id: "User",
+        target_id: "Paris",
+        label: "visited",
+        properties: { documentIds: ["doc-deleted"] },
+      },
+    ]);
+    const documents: Record<string, unknown> = {
+      "workspace-documents/workspace-1/doc-hr": { folderPath: "hr" },
+      "workspace-documents/workspace-1/doc-public": {
+        folderPath: "sales",
+        tags: ["public"],
+      },
+    };
+    const db = {
+      "workspace-document": {
+        get: vi.fn(async (pk: string) => documents[pk]),
+      },
+    };
+
+    const result = await searchGraphByEntities({
+      workspaceId: "workspace-1",
+      agentId: "agent-1",
+      entities: ["User"],
+      documentScope: { tags: ["public"] },
+      db: db as never,
+    });
+
+    expect(result.map((fact) => fact.object)).toEqual(["React", "Team A"]);
+  });
+
+  it("keeps every fact without a document scope", async () => {
+    mockQueryGraph.mockResolvedValue([
+      {
+        source_id: "User",
+        target_id: "Berlin",
+        label: "lives_in",
+        properties: { documentIds: ["doc-hr"] },
+      },
+    ]);
+
+    const result = await searchGraphByEntities({
+      workspaceId: "workspace-1",
+      agentId: "agent-1",
+      entities: ["User"],
+      documentScope: {},
+      db: {} as never,
+    });
+
+    expect(result).toEqual([
+      expect.objectContaining({ object: "Berlin", documentIds: ["doc-hr"] }),
+    ]);
+  });
 });
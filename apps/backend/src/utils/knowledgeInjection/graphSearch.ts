@@ -1,3 +1,9 @@
+import type { DatabaseSchema } from "../../tables/schema";
+import type { DocumentScope } from "../documentScope";
+import {
+  isDocumentInScope,
+  isDocumentScopeRestricted,
+} from "../documentScope";
 import { createGraphDb } from "../duckdb/graphDb";
 
 export type GraphSearchResult = {
@@ -6,16 +12,84 @@ export type GraphSearchResult = {
   subject: string;
   predicate: string;
   object: string;
+  documentIds?: string[]; // workspace documents the fact was learned from
 };
 
 function escapeSqlValue(value: string): string {
   return value.replace(/'/g, "''");
 }
 
+function parseDocumentIds(properties: unknown): string[] | undefined {
+  const parsed =
+    typeof properties === "string" ? JSON.parse(properties) : properties;
+  const documentIds =
+    parsed && typeof parsed === "object"
+      ? (parsed as { documentIds?: unknown }).documentIds
+      : undefined;
+  return Array.isArray(documentIds) && documentIds.length > 0
+    ? documentIds.filter((id): id is string => typeof id === "string")
+    : undefined;
+}
+
+/**
+ * Drops facts learned from documents outside the agent's document scope (or since deleted),
+ * so graph search cannot surface content the agent may not read
+ */
+async function filterByDocumentScope(
+  db: DatabaseSchema,
+  workspaceId: string,
+  results: GraphSearchResult[],
+  documentScope: DocumentScope,
+): Promise<GraphSearchResult[]> {
+  const documentIds = new Set(
+    results.flatMap((result) => result.documentIds ?? []),
+  );
+  const allowed = new Set<string>();
+  await Promise.all(
+    Array.from(documentIds).map(async (documentId) => {
+      const document = await db["workspace-document"].get(
+        `workspace-documents/${workspaceId}/${documentId}`,
+      );
+      if (document && isDocumentInScope(document, documentScope)) {
+        allowed.add(documentId);
+      }
+    }),
+  );
+  return results.filter((result) =>
+    (result.documentIds ?? []).every((documentId) => allowed.has(documentId)),
+  );
+}
+
+/**
+ * Finds facts about the given entities in the agent's knowledge graph. With a partitionKey,
+ * the end user's graph is searched as well and its facts come first.
+ * With a restricted documentScope, facts learned from documents outside it are left out.
+ */
 export async function searchGraphByEntities(params: {
   workspaceId: string;
   agentId: string;
   entities: string[];
+  partitionKey?: string;
+  documentScope?: DocumentScope;
+  db?: DatabaseSchema;
+}): Promise<GraphSearchResult[]> {
+  const results = await searchGraphFiles(params);
+  if (!params.db || !isDocumentScopeRestricted(params.documentScope)) {
+    return results;
+  }
+  return filterByDocumentScope(
+    params.db,
+    params.workspaceId,
+    results,
+    params.documentScope ?? {},
+  );
+}
+
+async function searchGraphFiles(params: {
+  workspaceId: string;
+  agentId: string;
+  entities: string[];
+  partitionKey?: string;
 }): Promise<GraphSearchResult[]> {
   const trimmedEntities = params.entities
     .map((entity) => entity.trim())
@@ -24,25 +98,60 @@ export async function searchGraphByEntities(params: {
     return [];
   }
 
-  const graphDb = await createGraphDb(params.workspaceId, params.agentId);
+  if (params.partitionKey) {
+    const partitionResults = await searchGraphFile(
+      params.workspaceId,
+      params.agentId,
+      trimmedEntities,
+      params.partitionKey,
+    );
+    const agentResults = await searchGraphFile(
+      params.workspaceId,
+      params.agentId,
+      trimmedEntities,
+    );
+    const seen = new Set(partitionResults.map((result) => result.snippet));
+    return [
+      ...partitionResults,
+      ...agentResults.filter((result) => !seen.has(result.snippet)),
+    ];
+  }
+
+  return searchGraphFile(params.workspaceId, params.agentId, trimmedEntities);
+}
+
+async function searchGraphFile(
+  workspaceId: string,
+  agentId: string,
+  trimmedEntities: string[],
+  partitionKey?: string,
+): Promise<GraphSearchResult[]> {
+  const graphDb = partitionKey
+    ? await createGraphDb(workspaceId, agentId, partitionKey)
+    : await createGraphDb(workspaceId, agentId);
   try {
     const entityList = trimmedEntities
       .map((entity) => `'${escapeSqlValue(entity)}'`)
       .join(", ");
-    const sql = `SELECT source_id, target_id, label FROM facts WHERE source_id IN (${entityList}) OR target_id IN (${entityList});`;
+    const sql = `SELECT source_id, target_id, label, properties FROM facts WHERE source_id IN (${entityList}) OR target_id IN (${entityList});`;
     const rows = await graphDb.queryGraph<{
       source_id: string;
       target_id: string;
       label: string;
+      properties?: unknown;
     }>(sql);
 
-    return rows.map((row) => ({
-      snippet: `Subject: ${row.source_id}\nPredicate: ${row.label}\nObject: ${row.target_id}`,
-      similarity: 1,
-      subject: row.source_id,
-      predicate: row.label,
-      object: row.target_id,
-    }));
+    return rows.map((row) => {
+      const documentIds = parseDocumentIds(row.properties);
+      return {
+        snippet: `Subject: ${row.source_id}\nPredicate: ${row.label}\nObject: ${row.target_id}`,
+        similarity: 1,
+        subject: row.source_id,
+        predicate: row.label,
+        object: row.target_id,
+        ...(documentIds && { documentIds }),
+      };
+    });
   } finally {
     await graphDb.close();
   }
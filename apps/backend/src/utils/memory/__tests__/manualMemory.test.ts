@@ -0,0 +1,228 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockSendWriteOperation,
+  mockGetRecordById,
+  mockRemove,
+  mockCreateGraphDb,
+} = vi.hoisted(() => ({
+  mockSendWriteOperation: vi.fn(),
+  mockGetRecordById: vi.fn(),
+  mockRemove: vi.fn(),
+  mockCreateGraphDb: vi.fn(),
+}));
+
+vi.mock("../../vectordb/queueClient", () => ({
+  sendWriteOperation: mockSendWriteOperation,
+}));
+
+vi.mock("../../vectordb/readClient", () => ({
+  getRecordById: mockGetRecordById,
+}));
+
+vi.mock("../../vectordb/writeClient", () => ({
+  remove: mockRemove,
+}));
+
+vi.mock("../../duckdb/graphDb", () => ({
+  createGraphDb: mockCreateGraphDb,
+}));
+
+vi.mock("../memoryExtraction", () => ({
+  buildFactId: (subject: string, predicate: string, object: string) =>
+    `${subject}|${predicate}|${object}`,
+  escapeSqlString: (value: string) => value.replace(/'/g, "''"),
+}));
+
+import {
+  createGraphFact,
+  createMemoryRecord,
+  deleteGraphFact,
+  deleteMemoryRecord,
+  parseMemoryGrainParam,
+  updateGraphFact,
+  updateMemoryRecord,
+} from "../manualMemory";
+
+const target = { workspaceId: "ws1", agentId: "ag1" };
+
+/** Graph DB mock whose facts table holds the given IDs */
+function mockGraphDb(existingIds: string[]) {
+  const graphDb = {
+    insertFacts: vi.fn(),
+    updateFacts: vi.fn(),
+    deleteFacts: vi.fn(),
+    queryGraph: vi.fn(async (sql: string) =>
+      existingIds
+        .filter((id) => sql.includes(`id = '${id.replace(/'/g, "''")}'`))
+        .map((id) => ({ id }))
+    ),
+    save: vi.fn(),
+    close: vi.fn(),
+  };
+  mockCreateGraphDb.mockResolvedValue(graphDb);
+  return graphDb;
+}
+
+describe("manualMemory", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("parseMemoryGrainParam", () => {
+    it("defaults to working memory and rejects unknown grains", () => {
+      expect(parseMemoryGrainParam(undefined)).toBe("working");
+      expect(parseMemoryGrainParam("weekly")).toBe("weekly");
+      expect(() => parseMemoryGrainParam("docs")).toThrow("Invalid grain");
+    });
+  });
+
+  describe("memory records", () => {
+    it("queues new records as raw facts so the queue embeds them", async () => {
+      const record = await createMemoryRecord({
+        ...target,
+        grain: "daily",
+        content: "The customer prefers email",
+        timestamp: "2026-10-18T12:00:00.000Z",
+      });
+
+      expect(record).toMatchObject({
+        content: "The customer prefers email",
+        timestamp: "2026-10-18T12:00:00.000Z",
+      });
+      expect(mockSendWriteOperation).toHaveBeenCalledWith({
+        operation: "insert",
+        agentId: "ag1",
+        temporalGrain: "daily",
+        workspaceId: "ws1",
+        creditContext: { agentId: "ag1" },
+        data: {
+          rawFacts: [
+            {
+              id: record.id,
+              content: "The customer prefers email",
+              timestamp: "2026-10-18T12:00:00.000Z",
+              metadata: { workspaceId: "ws1", agentId: "ag1" },
+            },
+          ],
+        },
+      });
+    });
+
+    it("re-embeds edited records and keeps their timestamp and metadata", async () => {
+      mockGetRecordById.mockResolvedValue({
+        id: "conversation-c1",
+        content: "Old content",
+        embedding: [0.1],
+        timestamp: "2026-10-17T08:00:00.000Z",
+        metadata: { conversationId: "c1", workspaceId: "ws1", agentId: "ag1" },
+      });
+
+      await updateMemoryRecord({
+        ...target,
+        grain: "working",
+        recordId: "conversation-c1",
+        content: "Corrected content",
+      });
+
+      expect(mockSendWriteOperation).toHaveBeenCalledWith(
+        expect.objectContaining({
+          operation: "update",
+          temporalGrain: "working",
+          data: {
+            rawFacts: [
+              {
+                id: "conversation-c1",
+                content: "Corrected content",
+                timestamp: "2026-10-17T08:00:00.000Z",
+                metadata: {
+                  conversationId: "c1",
+                  workspaceId: "ws1",
+                  agentId: "ag1",
+                },
+              },
+            ],
+          },
+        })
+      );
+    });
+
+    it("returns 404 for unknown records", async () => {
+      mockGetRecordById.mockResolvedValue(null);
+
+      await expect(
+        deleteMemoryRecord({ ...target, grain: "working", recordId: "nope" })
+      ).rejects.toThrow("Memory record not found");
+      expect(mockRemove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("graph facts", () => {
+    const input = { source_id: " Alice ", label: "works_on", target_id: "X" };
+
+    it("adds a fact with manual properties", async () => {
+      const graphDb = mockGraphDb([]);
+
+      const fact = await createGraphFact(
+        { ...target, userRef: "users/u1" },
+        input
+      );
+
+      expect(fact).toMatchObject({
+        id: "Alice|works_on|X",
+        source_id: "Alice",
+        properties: { source: "manual", updatedBy: "users/u1" },
+      });
+      expect(graphDb.insertFacts).toHaveBeenCalledWith([fact]);
+      expect(graphDb.save).toHaveBeenCalled();
+      expect(graphDb.close).toHaveBeenCalled();
+    });
+
+    it("rejects facts that already exist", async () => {
+      const graphDb = mockGraphDb(["Alice|works_on|X"]);
+
+      await expect(createGraphFact(target, input)).rejects.toThrow(
+        "This fact already exists"
+      );
+      expect(graphDb.save).not.toHaveBeenCalled();
+      expect(graphDb.close).toHaveBeenCalled();
+    });
+
+    it("replaces an edited fact under the ID of its new triple", async () => {
+      const graphDb = mockGraphDb(["Alice|works_on|W"]);
+
+      const fact = await updateGraphFact(target, "Alice|works_on|W", input);
+
+      expect(graphDb.deleteFacts).toHaveBeenCalledWith({
+        id: "Alice|works_on|W",
+      });
+      expect(graphDb.insertFacts).toHaveBeenCalledWith([fact]);
+      expect(graphDb.save).toHaveBeenCalled();
+    });
+
+    it("merges an edited fact into an existing one with the same triple", async () => {
+      const graphDb = mockGraphDb(["Alice|works_on|W", "Alice|works_on|X"]);
+
+      await updateGraphFact(target, "Alice|works_on|W", input);
+
+      expect(graphDb.deleteFacts).toHaveBeenCalledWith({
+        id: "Alice|works_on|W",
+      });
+      expect(graphDb.insertFacts).not.toHaveBeenCalled();
+      expect(graphDb.updateFacts).toHaveBeenCalledWith(
+        { id: "Alice|works_on|X" },
+        { properties: expect.objectContaining({ source: "manual" }) }
+      );
+    });
+
+    it("returns 404 when deleting an unknown fact", async () => {
+      const graphDb = mockGraphDb([]);
+
+      await expect(deleteGraphFact(target, "nope")).rejects.toThrow(
+        "Fact not found"
+      );
+      expect(graphDb.deleteFacts).not.toHaveBeenCalled();
+      expect(graphDb.close).toHaveBeenCalled();
+    });
+  });
+});
@@ -631,4 +631,38 @@ describe("memoryExtraction", () => {
     expect(mockSave).toHaveBeenCalled();
     expect(mockClose).toHaveBeenCalled();
   });
+
+  it("records the injected documents a fact was learned from", async () => {
+    const mockInsertFacts = vi.fn();
+    mockCreateGraphDb.mockResolvedValue({
+      insertFacts: mockInsertFacts,
+      updateFacts: vi.fn(),
+      deleteFacts: vi.fn(),
+      queryGraph: vi.fn().mockResolvedValue([]),
+      save: vi.fn(),
+      close: vi.fn(),
+    });
+
+    await applyMemoryOperationsToGraph({
+      workspaceId: "workspace-1",
+      agentId: "agent-1",
+      conversationId: "conversation-1",
+      documentIds: ["doc-1"],
+      memoryOperations: [
+        {
+          operation: "ADD",
+          subject: "Company",
+          predicate: "offers",
+          object: "Parental leave",
+          confidence: 1,
+        },
+      ],
+    });
+
+    expect(mockInsertFacts).toHaveBeenCalledWith([
+      expect.objectContaining({
+        properties: expect.objectContaining({ documentIds: ["doc-1"] }),
+      }),
+    ]);
+  });
 });
@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  enqueueMemoryRetentionCleanup,
+  enqueueMemorySummaries,
+  getMemorySummaryPeriod,
+  MEMORY_MAINTENANCE_QUEUE_NAME,
+} from "../memoryMaintenance";
+
+const { mockPublish, mockGetSubscriptionById } = vi.hoisted(() => ({
+  mockPublish: vi.fn(),
+  mockGetSubscriptionById: vi.fn(),
+}));
+
+vi.mock("@architect/functions", () => ({
+  queues: { publish: mockPublish },
+}));
+
+vi.mock("../../subscriptionUtils", () => ({
+  getSubscriptionById: mockGetSubscriptionById,
+}));
+
+function buildAsyncGenerator<T>(items: T[]) {
+  return (async function* () {
+    for (const item of items) {
+      yield item;
+    }
+  })();
+}
+
+/** One workspace with one agent and the given end-user partitions */
+function mockDb(partitions: Array<Record<string, string>>) {
+  return {
+    permission: {
+      query: vi.fn().mockResolvedValue({
+        items: [{ pk: "workspaces/ws1" }, { pk: "workspaces/ws1" }],
+      }),
+    },
+    agent: {
+      query: vi.fn().mockResolvedValue({ items: [{ pk: "agents/ws1/ag1" }] }),
+    },
+    workspace: {
+      get: vi.fn().mockResolvedValue({ subscriptionId: "sub-1" }),
+    },
+    "agent-memory-partition": {
+      queryAsync: vi.fn(() => buildAsyncGenerator(partitions)),
+    },
+  } as never;
+}
+
+const publishedPayloads = () =>
+  mockPublish.mock.calls.map(([{ payload }]) => payload);
+
+describe("getMemorySummaryPeriod", () => {
+  const now = new Date(2026, 9, 19, 3, 30);
+
+  it("covers the previous day for daily summaries", () => {
+    expect(getMemorySummaryPeriod("daily", now)).toEqual({
+      start: new Date(2026, 9, 18),
+      end: new Date(2026, 9, 19),
+    });
+  });
+
+  it("covers the period up to now for the larger grains", () => {
+    expect(getMemorySummaryPeriod("weekly", now)).toEqual({
+      start: new Date(2026, 9, 12, 3, 30),
+      end: now,
+    });
+    expect(getMemorySummaryPeriod("quarterly", now).start).toEqual(
+      new Date(2026, 6, 19, 3, 30)
+    );
+  });
+});
+
+describe("enqueueMemorySummaries", () => {
+  const period = {
+    start: new Date("2026-10-18T00:00:00.000Z"),
+    end: new Date("2026-10-19T00:00:00.000Z"),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPublish.mockResolvedValue(undefined);
+  });
+
+  it("queues the agent-global memory and the partitions active in the period", async () => {
+    await enqueueMemorySummaries(
+      mockDb([
+        { sk: "active", lastActiveAt: "2026-10-18T09:00:00.000Z" },
+        { sk: "idle", lastActiveAt: "2026-09-01T09:00:00.000Z" },
+        { sk: "untracked" },
+      ]),
+      "daily",
+      period
+    );
+
+    expect(mockPublish).toHaveBeenCalledTimes(3);
+    expect(mockPublish.mock.calls[0][0].name).toBe(
+      MEMORY_MAINTENANCE_QUEUE_NAME
+    );
+    expect(publishedPayloads()).toEqual([
+      {
+        task: "summarize",
+        workspaceId: "ws1",
+        agentId: "ag1",
+        grain: "daily",
+        periodStart: "2026-10-18T00:00:00.000Z",
+        periodEnd: "2026-10-19T00:00:00.000Z",
+      },
+      expect.objectContaining({ partitionKey: "active" }),
+      expect.objectContaining({ partitionKey: "untracked" }),
+    ]);
+  });
+
+  it("keeps queueing the other partitions when one fails", async () => {
+    mockPublish
+      .mockRejectedValueOnce(new Error("Queue unavailable"))
+      .mockResolvedValue(undefined);
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    await enqueueMemorySummaries(
+      mockDb([{ sk: "key-1" }, { sk: "key-2" }]),
+      "daily",
+      period
+    );
+
+    expect(mockPublish).toHaveBeenCalledTimes(3);
+    expect(publishedPayloads()[2]).toEqual(
+      expect.objectContaining({ partitionKey: "key-2" })
+    );
+    consoleErrorSpy.mockRestore();
+  });
+});
+
+describe("enqueueMemoryRetentionCleanup", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPublish.mockResolvedValue(undefined);
+    mockGetSubscriptionById.mockResolvedValue({ plan: "free" });
+  });
+
+  it("skips partitions created after every retention cutoff", async () => {
+    await enqueueMemoryRetentionCleanup(
+      mockDb([
+        { sk: "old", createdAt: "2020-01-01T00:00:00.000Z" },
+        { sk: "new", createdAt: new Date().toISOString() },
+      ])
+    );
+
+    expect(publishedPayloads()).toEqual([
+      { task: "cleanup", workspaceId: "ws1", agentId: "ag1", plan: "free" },
+      {
+        task: "cleanup",
+        workspaceId: "ws1",
+        agentId: "ag1",
+        partitionKey: "old",
+        plan: "free",
+      },
+    ]);
+  });
+
+  it("skips workspaces without a subscription", async () => {
+    mockGetSubscriptionById.mockResolvedValue(undefined);
+
+    await enqueueMemoryRetentionCleanup(mockDb([]));
+
+    expect(mockPublish).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,344 @@
+import { createHmac } from "crypto";
+
+import { conflict } from "@hapi/boom";
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  getAgentMemoryPartitionKey,
+  getEndUserIdFromHeaders,
+  getMemoryPartitionKey,
+  getVerifiedEndUserIdFromHeaders,
+  isEndUserSignatureValid,
+  isMemoryPartitionActiveSince,
+  listAgentMemoryPartitions,
+  MAX_END_USER_ID_LENGTH,
+  parseEndUserId,
+  registerMemoryPartition,
+  resolveMemoryPartitionParam,
+  signEndUserId,
+} from "../memoryPartitions";
+
+function buildAsyncGenerator<T>(items: T[]) {
+  return (async function* () {
+    for (const item of items) {
+      yield item;
+    }
+  })();
+}
+
+/** Database mock with only the memory partition registry */
+function mockDb(
+  partitionTable: Partial<{
+    get: ReturnType<typeof vi.fn>;
+    create: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+    queryAsync: ReturnType<typeof vi.fn>;
+  }>
+) {
+  return { "agent-memory-partition": partitionTable } as never;
+}
+
+describe("parseEndUserId", () => {
+  it("trims the ID and treats empty values as no end user", () => {
+    expect(parseEndUserId("  customer-a ")).toBe("customer-a");
+    expect(parseEndUserId("   ")).toBeUndefined();
+    expect(parseEndUserId(undefined)).toBeUndefined();
+    expect(parseEndUserId(null)).toBeUndefined();
+  });
+
+  it("rejects non-string and overly long IDs", () => {
+    expect(() => parseEndUserId(["a", "b"])).toThrow(
+      "endUserId must be a string"
+    );
+    expect(() =>
+      parseEndUserId("a".repeat(MAX_END_USER_ID_LENGTH + 1))
+    ).toThrow(`at most ${MAX_END_USER_ID_LENGTH} characters`);
+  });
+});
+
+describe("getEndUserIdFromHeaders", () => {
+  it("reads the header case-insensitively", () => {
+    expect(getEndUserIdFromHeaders({ "X-End-User-Id": "customer-a" })).toBe(
+      "customer-a"
+    );
+    expect(getEndUserIdFromHeaders({ "x-end-user-id": "customer-b" })).toBe(
+      "customer-b"
+    );
+    expect(getEndUserIdFromHeaders({ "content-type": "text/plain" }))
+      .toBeUndefined();
+    expect(getEndUserIdFromHeaders(undefined)).toBeUndefined();
+  });
+});
+
+describe("signEndUserId", () => {
+  it("signs the ID with HMAC-SHA256 of the key", () => {
+    const expected = createHmac("sha256", "webhook-key")
+      .update("customer-a")
+      .digest("hex");
+    expect(signEndUserId("webhook-key", "customer-a")).toBe(
+      `sha256=${expected}`
+    );
+  });
+
+  it("accepts signatures made with any of the keys", () => {
+    const signature = signEndUserId("key-2", "customer-a");
+    expect(isEndUserSignatureValid(["key-1", "key-2"], "customer-a", signature))
+      .toBe(true);
+    expect(isEndUserSignatureValid(["key-1"], "customer-a", signature)).toBe(
+      false
+    );
+    expect(isEndUserSignatureValid(["key-2"], "customer-b", signature)).toBe(
+      false
+    );
+    expect(isEndUserSignatureValid(["key-2"], "customer-a", "sha256=00")).toBe(
+      false
+    );
+  });
+});
+
+describe("getVerifiedEndUserIdFromHeaders", () => {
+  const params = { workspaceId: "workspace-1", agentId: "agent-1" };
+
+  function mockAgentDb(options: {
+    memoryPartitionByEndUser?: boolean;
+    keys?: Array<{ key: string; type?: string; workspaceId?: string }>;
+  }) {
+    return {
+      agent: {
+        get: vi.fn().mockResolvedValue({
+          memoryPartitionByEndUser: options.memoryPartitionByEndUser,
+        }),
+      },
+      "agent-key": {
+        query: vi.fn().mockResolvedValue({
+          items: (options.keys ?? []).map((key) => ({
+            workspaceId: "workspace-1",
+            ...key,
+          })),
+        }),
+      },
+    } as never;
+  }
+
+  it("returns IDs signed with a webhook key of the agent", async () => {
+    const db = mockAgentDb({
+      memoryPartitionByEndUser: true,
+      keys: [
+        { key: "widget-key", type: "widget" },
+        { key: "webhook-key", type: "webhook" },
+      ],
+    });
+    await expect(
+      getVerifiedEndUserIdFromHeaders(db, params, {
+        "X-End-User-Id": "customer-a",
+        "X-End-User-Signature": signEndUserId("webhook-key", "customer-a"),
+      })
+    ).resolves.toBe("customer-a");
+  });
+
+  it("rejects IDs signed with a widget key or another workspace's key", async () => {
+    const db = mockAgentDb({
+      memoryPartitionByEndUser: true,
+      keys: [
+        { key: "widget-key", type: "widget" },
+        { key: "other-key", type: "webhook", workspaceId: "workspace-2" },
+      ],
+    });
+    for (const key of ["widget-key", "other-key"]) {
+      await expect(
+        getVerifiedEndUserIdFromHeaders(db, params, {
+          "x-end-user-id": "customer-a",
+          "x-end-user-signature": signEndUserId(key, "customer-a"),
+        })
+      ).rejects.toThrow("Invalid X-End-User-Signature");
+    }
+  });
+
+  it("requires a signature when the agent keeps memory per end user", async () => {
+    await expect(
+      getVerifiedEndUserIdFromHeaders(
+        mockAgentDb({ memoryPartitionByEndUser: true }),
+        params,
+        { "x-end-user-id": "customer-a" }
+      )
+    ).rejects.toMatchObject({ output: { statusCode: 401 } });
+  });
+
+  it("drops unsigned IDs for agents with a single memory", async () => {
+    await expect(
+      getVerifiedEndUserIdFromHeaders(mockAgentDb({}), params, {
+        "x-end-user-id": "customer-a",
+      })
+    ).resolves.toBeUndefined();
+    await expect(
+      getVerifiedEndUserIdFromHeaders(mockAgentDb({}), params, {})
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe("getMemoryPartitionKey", () => {
+  it("derives a stable, path-safe key per end user", () => {
+    const key = getMemoryPartitionKey("slack:U123");
+    expect(key).toMatch(/^[a-f0-9]{32}$/);
+    expect(getMemoryPartitionKey("slack:U123")).toBe(key);
+    expect(getMemoryPartitionKey("slack:U456")).not.toBe(key);
+  });
+});
+
+describe("getAgentMemoryPartitionKey", () => {
+  it("only partitions agents that keep memory per end user", () => {
+    expect(
+      getAgentMemoryPartitionKey({ memoryPartitionByEndUser: true }, "user-1")
+    ).toBe(getMemoryPartitionKey("user-1"));
+    expect(
+      getAgentMemoryPartitionKey({ memoryPartitionByEndUser: false }, "user-1")
+    ).toBeUndefined();
+    expect(getAgentMemoryPartitionKey({}, "user-1")).toBeUndefined();
+    expect(
+      getAgentMemoryPartitionKey({ memoryPartitionByEndUser: true }, undefined)
+    ).toBeUndefined();
+  });
+});
+
+describe("registerMemoryPartition", () => {
+  const params = { workspaceId: "ws1", agentId: "ag1", endUserId: "user-1" };
+  const partitionKey = getMemoryPartitionKey("user-1");
+
+  it("registers an end user the first time", async () => {
+    const create = vi.fn();
+    const db = mockDb({ get: vi.fn().mockResolvedValue(undefined), create });
+
+    await expect(registerMemoryPartition(db, params)).resolves.toBe(
+      partitionKey
+    );
+    expect(create).toHaveBeenCalledWith({
+      pk: "agent-memory-partitions/ws1/ag1",
+      sk: partitionKey,
+      workspaceId: "ws1",
+      agentId: "ag1",
+      endUserId: "user-1",
+      lastActiveAt: expect.any(String),
+    });
+  });
+
+  it("skips registered end users and concurrent registrations", async () => {
+    const create = vi.fn();
+    const update = vi.fn();
+    await registerMemoryPartition(
+      mockDb({
+        get: vi
+          .fn()
+          .mockResolvedValue({
+            sk: partitionKey,
+            lastActiveAt: new Date().toISOString(),
+          }),
+        create,
+        update,
+      }),
+      params
+    );
+    expect(create).not.toHaveBeenCalled();
+    expect(update).not.toHaveBeenCalled();
+
+    await expect(
+      registerMemoryPartition(
+        mockDb({
+          get: vi.fn().mockResolvedValue(undefined),
+          create: vi.fn().mockRejectedValue(conflict("Item already exists")),
+        }),
+        params
+      )
+    ).resolves.toBe(partitionKey);
+  });
+});
+
+describe("memory partition activity", () => {
+  it("records the first activity of a new day", async () => {
+    const update = vi.fn();
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+    await registerMemoryPartition(
+      mockDb({
+        get: vi.fn().mockResolvedValue({
+          sk: getMemoryPartitionKey("user-1"),
+          lastActiveAt: yesterday.toISOString(),
+        }),
+        update,
+      }),
+      { workspaceId: "ws1", agentId: "ag1", endUserId: "user-1" }
+    );
+
+    expect(update).toHaveBeenCalledWith({
+      pk: "agent-memory-partitions/ws1/ag1",
+      sk: getMemoryPartitionKey("user-1"),
+      lastActiveAt: expect.any(String),
+    });
+  });
+
+  it("compares activity by day", () => {
+    const periodStart = new Date("2026-10-18T09:30:00.000Z");
+    expect(
+      isMemoryPartitionActiveSince(
+        { lastActiveAt: "2026-10-18T00:10:00.000Z" },
+        periodStart
+      )
+    ).toBe(true);
+    expect(
+      isMemoryPartitionActiveSince(
+        { lastActiveAt: "2026-10-16T23:00:00.000Z" },
+        periodStart
+      )
+    ).toBe(false);
+    expect(isMemoryPartitionActiveSince({}, periodStart)).toBe(true);
+  });
+});
+
+describe("listAgentMemoryPartitions", () => {
+  it("lists the end-user partitions of the agent", async () => {
+    const queryAsync = vi
+      .fn()
+      .mockReturnValue(buildAsyncGenerator([{ sk: "key-1" }, { sk: "key-2" }]));
+
+    await expect(
+      listAgentMemoryPartitions(mockDb({ queryAsync }), "ws1", "ag1")
+    ).resolves.toEqual([{ sk: "key-1" }, { sk: "key-2" }]);
+    expect(queryAsync).toHaveBeenCalledWith({
+      KeyConditionExpression: "pk = :pk",
+      ExpressionAttributeValues: {
+        ":pk": "agent-memory-partitions/ws1/ag1",
+      },
+    });
+  });
+});
+
+describe("resolveMemoryPartitionParam", () => {
+  const params = { workspaceId: "ws1", agentId: "ag1" };
+
+  it("returns the key of a registered end user", async () => {
+    const get = vi.fn().mockResolvedValue({ sk: "key" });
+    await expect(
+      resolveMemoryPartitionParam(mockDb({ get }), {
+        ...params,
+        endUserId: "user-1",
+      })
+    ).resolves.toBe(getMemoryPartitionKey("user-1"));
+  });
+
+  it("returns undefined without an end user and 404 for unknown end users", async () => {
+    const get = vi.fn().mockResolvedValue(undefined);
+    await expect(
+      resolveMemoryPartitionParam(mockDb({ get }), {
+        ...params,
+        endUserId: undefined,
+      })
+    ).resolves.toBeUndefined();
+    expect(get).not.toHaveBeenCalled();
+
+    await expect(
+      resolveMemoryPartitionParam(mockDb({ get }), {
+        ...params,
+        endUserId: "unknown",
+      })
+    ).rejects.toThrow("No memory found for this end user");
+  });
+});
@@ -125,3 +125,80 @@ describe("searchMemory credit charging", () => {
     );
   });
 });
+
+describe("searchMemory end-user partitions", () => {
+  const agentId = "agent-123";
+  const workspaceId = "workspace-456";
+  const buildRecord = (id: string, daysAgo: number, distance: number) => ({
+    id,
+    content: `Memory ${id}`,
+    timestamp: new Date(Date.now() - daysAgo * 86_400_000).toISOString(),
+    metadata: {},
+    distance,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockResolveEmbeddingApiKey.mockResolvedValue({
+      apiKey: "test-key",
+      usesByok: false,
+    });
+    mockGenerateEmbeddingWithUsage.mockResolvedValue({
+      embedding: [0.1, 0.2],
+      usage: { promptTokens: 10, totalTokens: 10 },
+      id: "gen-1",
+      fromCache: false,
+    });
+  });
+
+  it("merges the end user's memory with the agent-global memory", async () => {
+    mockQuery.mockImplementation(
+      async (_agentId: string, _grain: string, options: { partitionKey?: string }) =>
+        options.partitionKey
+          ? [buildRecord("user-1", 1, 0.3), buildRecord("user-2", 3, 0.1)]
+          : [buildRecord("global-1", 2, 0.2)],
+    );
+
+    const results = await searchMemory({
+      agentId,
+      workspaceId,
+      grain: "working",
+      queryText: "preferences",
+      maxResults: 2,
+      partitionKey: "partition-key",
+    });
+
+    expect(mockQuery).toHaveBeenCalledWith(
+      agentId,
+      "working",
+      expect.objectContaining({ partitionKey: "partition-key" }),
+    );
+    expect(mockQuery).toHaveBeenCalledWith(
+      agentId,
+      "working",
+      expect.not.objectContaining({ partitionKey: expect.anything() }),
+    );
+    // Closest matches across both partitions, limited to maxResults
+    expect(results.map((result) => result.id)).toEqual(["user-2", "global-1"]);
+  });
+
+  it("reads only the end user's memory when agent memory is excluded", async () => {
+    mockQuery.mockResolvedValue([buildRecord("user-1", 1, 0.3)]);
+
+    const results = await searchMemory({
+      agentId,
+      workspaceId,
+      grain: "working",
+      partitionKey: "partition-key",
+      includeAgentMemory: false,
+    });
+
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+    expect(mockQuery).toHaveBeenCalledWith(
+      agentId,
+      "working",
+      expect.objectContaining({ partitionKey: "partition-key" }),
+    );
+    expect(results.map((result) => result.id)).toEqual(["user-1"]);
+  });
+});
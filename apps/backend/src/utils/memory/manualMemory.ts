@@ -0,0 +1,276 @@
+/**
+ * Manual corrections of an agent's memory
+ *
+ * Users can add, edit and delete memory records in each temporal grain and facts of the
+ * knowledge graph. Record writes go through the vector DB write queue like every other memory
+ * write: the queue handler generates the embedding of new and edited content, so changes show
+ * up in memory search once the queued write has been processed. Graph facts are changed in the
+ * agent's graph file directly. A partitionKey targets the memory of one end user instead of the
+ * agent-global memory.
+ */
+
+import { randomUUID } from "crypto";
+
+import { badRequest, conflict, notFound } from "@hapi/boom";
+
+import { createGraphDb, type FactRow } from "../duckdb/graphDb";
+import { sendWriteOperation } from "../vectordb/queueClient";
+import { getRecordById } from "../vectordb/readClient";
+import { TEMPORAL_GRAINS, type TemporalGrain } from "../vectordb/types";
+import { remove } from "../vectordb/writeClient";
+
+import { buildFactId, escapeSqlString } from "./memoryExtraction";
+import { formatDatePrefix, type SearchMemoryResult } from "./searchMemory";
+
+/**
+ * Reads the memory grain of a request (defaults to working memory)
+ */
+export function parseMemoryGrainParam(value: unknown): TemporalGrain {
+  const grain = typeof value === "string" && value ? value : "working";
+  if (!TEMPORAL_GRAINS.includes(grain as TemporalGrain)) {
+    throw badRequest(
+      `Invalid grain. Must be one of: ${TEMPORAL_GRAINS.join(", ")}`,
+    );
+  }
+  return grain as TemporalGrain;
+}
+
+type MemoryRecordTarget = {
+  workspaceId: string;
+  agentId: string;
+  grain: TemporalGrain;
+  partitionKey?: string;
+};
+
+function toMemoryRecordResult(record: {
+  id: string;
+  content: string;
+  timestamp: string;
+  metadata?: Record<string, unknown>;
+}): SearchMemoryResult {
+  return {
+    id: record.id,
+    content: record.content,
+    date: formatDatePrefix(new Date(record.timestamp)),
+    timestamp: record.timestamp,
+    metadata: record.metadata,
+  };
+}
+
+async function queueMemoryRecordWrite(
+  target: MemoryRecordTarget,
+  operation: "insert" | "update",
+  record: SearchMemoryResult,
+): Promise<void> {
+  await sendWriteOperation({
+    operation,
+    agentId: target.agentId,
+    temporalGrain: target.grain,
+    workspaceId: target.workspaceId, // For the embedding API key lookup in the queue handler
+    ...(target.partitionKey && { partitionKey: target.partitionKey }),
+    creditContext: { agentId: target.agentId },
+    data: {
+      rawFacts: [
+        {
+          id: record.id,
+          content: record.content,
+          timestamp: record.timestamp,
+          metadata: record.metadata,
+        },
+      ],
+    },
+  });
+}
+
+async function getMemoryRecordOrThrow(
+  target: MemoryRecordTarget,
+  recordId: string,
+) {
+  const record = await getRecordById(
+    target.agentId,
+    target.grain,
+    recordId,
+    target.partitionKey,
+  );
+  if (!record) {
+    throw notFound("Memory record not found");
+  }
+  return record;
+}
+
+/**
+ * Queues a new memory record. The timestamp places it in time (defaults to now).
+ */
+export async function createMemoryRecord(
+  target: MemoryRecordTarget & { content: string; timestamp?: string },
+): Promise<SearchMemoryResult> {
+  const record = toMemoryRecordResult({
+    id: randomUUID(),
+    content: target.content,
+    timestamp: target.timestamp ?? new Date().toISOString(),
+    metadata: { workspaceId: target.workspaceId, agentId: target.agentId },
+  });
+  await queueMemoryRecordWrite(target, "insert", record);
+  return record;
+}
+
+/**
+ * Queues new content (and optionally a new timestamp) for a memory record.
+ * The record is re-embedded; its other metadata is kept.
+ */
+export async function updateMemoryRecord(
+  target: MemoryRecordTarget & {
+    recordId: string;
+    content: string;
+    timestamp?: string;
+  },
+): Promise<SearchMemoryResult> {
+  const existing = await getMemoryRecordOrThrow(target, target.recordId);
+  const record = toMemoryRecordResult({
+    id: existing.id,
+    content: target.content,
+    timestamp: target.timestamp ?? existing.timestamp,
+    metadata: existing.metadata,
+  });
+  await queueMemoryRecordWrite(target, "update", record);
+  return record;
+}
+
+/**
+ * Queues the deletion of a memory record
+ */
+export async function deleteMemoryRecord(
+  target: MemoryRecordTarget & { recordId: string },
+): Promise<void> {
+  const existing = await getMemoryRecordOrThrow(target, target.recordId);
+  await remove(
+    target.agentId,
+    target.grain,
+    [existing.id],
+    undefined,
+    target.partitionKey,
+  );
+}
+
+export type GraphFactInput = {
+  source_id: string;
+  label: string;
+  target_id: string;
+};
+
+type GraphFactTarget = {
+  workspaceId: string;
+  agentId: string;
+  partitionKey?: string;
+  /** User reference of the editor, kept in the fact properties */
+  userRef?: string;
+};
+
+function buildManualFact(
+  target: GraphFactTarget,
+  input: GraphFactInput,
+): FactRow {
+  const source_id = input.source_id.trim();
+  const label = input.label.trim();
+  const target_id = input.target_id.trim();
+  return {
+    id: buildFactId(source_id, label, target_id),
+    source_id,
+    target_id,
+    label,
+    properties: {
+      confidence: 1,
+      workspaceId: target.workspaceId,
+      agentId: target.agentId,
+      source: "manual",
+      ...(target.userRef && { updatedBy: target.userRef }),
+      updatedAt: new Date().toISOString(),
+    },
+  };
+}
+
+async function withGraphDb<T>(
+  target: GraphFactTarget,
+  run: (
+    graphDb: Awaited<ReturnType<typeof createGraphDb>>,
+    factExists: (id: string) => Promise<boolean>,
+  ) => Promise<T>,
+): Promise<T> {
+  const graphDb = await createGraphDb(
+    target.workspaceId,
+    target.agentId,
+    target.partitionKey,
+  );
+  try {
+    const factExists = async (id: string) =>
+      (
+        await graphDb.queryGraph<{ id: string }>(
+          `SELECT id FROM facts WHERE id = '${escapeSqlString(id)}' LIMIT 1;`,
+        )
+      ).length > 0;
+    const result = await run(graphDb, factExists);
+    await graphDb.save();
+    return result;
+  } finally {
+    await graphDb.close();
+  }
+}
+
+/**
+ * Adds a fact to the agent's knowledge graph. Throws 409 when the fact already exists.
+ */
+export async function createGraphFact(
+  target: GraphFactTarget,
+  input: GraphFactInput,
+): Promise<FactRow> {
+  const fact = buildManualFact(target, input);
+  return withGraphDb(target, async (graphDb, factExists) => {
+    if (await factExists(fact.id)) {
+      throw conflict("This fact already exists");
+    }
+    await graphDb.insertFacts([fact]);
+    return fact;
+  });
+}
+
+/**
+ * Replaces a fact of the agent's knowledge graph. The fact ID follows the new triple; when
+ * the new triple is already stored, the edited fact is merged into it.
+ */
+export async function updateGraphFact(
+  target: GraphFactTarget,
+  factId: string,
+  input: GraphFactInput,
+): Promise<FactRow> {
+  const fact = buildManualFact(target, input);
+  return withGraphDb(target, async (graphDb, factExists) => {
+    if (!(await factExists(factId))) {
+      throw notFound("Fact not found");
+    }
+    if (fact.id === factId) {
+      await graphDb.updateFacts({ id: factId }, { properties: fact.properties });
+    } else if (await factExists(fact.id)) {
+      await graphDb.deleteFacts({ id: factId });
+      await graphDb.updateFacts({ id: fact.id }, { properties: fact.properties });
+    } else {
+      await graphDb.deleteFacts({ id: factId });
+      await graphDb.insertFacts([fact]);
+    }
+    return fact;
+  });
+}
+
+/**
+ * Deletes a fact from the agent's knowledge graph
+ */
+export async function deleteGraphFact(
+  target: GraphFactTarget,
+  factId: string,
+): Promise<void> {
+  await withGraphDb(target, async (graphDb, factExists) => {
+    if (!(await factExists(factId))) {
+      throw notFound("Fact not found");
+    }
+    await graphDb.deleteFacts({ id: factId });
+  });
+}
@@ -70,11 +70,14 @@ type MemoryExtractionResult = {
   memoryOperations: MemoryOperation[];
 };
 
-function escapeSqlString(value: string): string {
+export function escapeSqlString(value: string): string {
   return value.replace(/'/g, "''");
 }
 
-function buildFactId(
+/**
+ * Graph fact IDs are derived from the triple, so the same fact is never stored twice
+ */
+export function buildFactId(
   subject: string,
   predicate: string,
   object: string,
@@ -432,13 +435,24 @@ export async function applyMemoryOperationsToGraph(params: {
   agentId: string;
   conversationId: string;
   memoryOperations: MemoryOperation[];
+  partitionKey?: string; // end-user memory partition (omit for the agent-global graph)
+  documentIds?: string[]; // workspace documents injected into the conversation, used to scope graph search
 }): Promise<void> {
-  const { workspaceId, agentId, conversationId, memoryOperations } = params;
+  const {
+    workspaceId,
+    agentId,
+    conversationId,
+    memoryOperations,
+    partitionKey,
+    documentIds,
+  } = params;
   if (memoryOperations.length === 0) {
     return;
   }
 
-  const graphDb = await createGraphDb(workspaceId, agentId);
+  const graphDb = partitionKey
+    ? await createGraphDb(workspaceId, agentId, partitionKey)
+    : await createGraphDb(workspaceId, agentId);
   const now = new Date().toISOString();
   try {
     for (const operation of memoryOperations) {
@@ -459,6 +473,7 @@ export async function applyMemoryOperationsToGraph(params: {
         agentId,
         conversationId,
         updatedAt: now,
+        ...(documentIds && documentIds.length > 0 ? { documentIds } : {}),
       };
 
       if (operation.operation === "DELETE") {
@@ -0,0 +1,330 @@
+/**
+ * Fan-out of the scheduled memory jobs
+ *
+ * The scheduled summarization and retention jobs only list the memory partitions to process
+ * (the agent-global memory of each agent and its end-user partitions) and queue one
+ * memory-maintenance-queue message per partition. Each message is processed and retried on
+ * its own, so one failing or slow partition does not stop the others.
+ */
+
+import { queues } from "@architect/functions";
+import { z } from "zod";
+
+import type {
+  AgentMemoryPartitionRecord,
+  DatabaseSchema,
+} from "../../tables/schema";
+import { Sentry, ensureError } from "../sentry";
+import type { SubscriptionPlan } from "../subscriptionPlans";
+import { getSubscriptionById } from "../subscriptionUtils";
+import { TEMPORAL_GRAINS, type TemporalGrain } from "../vectordb/types";
+
+import {
+  isMemoryPartitionActiveSince,
+  listAgentMemoryPartitions,
+} from "./memoryPartitions";
+import { calculateRetentionCutoff } from "./retentionPolicies";
+
+export const MEMORY_MAINTENANCE_QUEUE_NAME = "memory-maintenance-queue";
+
+/** Summary grains and the grain each one summarizes */
+export const SUMMARY_SOURCE_GRAINS = {
+  daily: "working",
+  weekly: "daily",
+  monthly: "weekly",
+  quarterly: "monthly",
+  yearly: "quarterly",
+} as const satisfies Record<string, TemporalGrain>;
+
+export type SummaryGrain = keyof typeof SUMMARY_SOURCE_GRAINS;
+
+const SUMMARY_GRAINS = Object.keys(SUMMARY_SOURCE_GRAINS) as [
+  SummaryGrain,
+  ...SummaryGrain[],
+];
+
+export const MemoryMaintenanceMessageSchema = z.discriminatedUnion("task", [
+  z
+    .object({
+      task: z.literal("summarize"),
+      workspaceId: z.string(),
+      agentId: z.string(),
+      partitionKey: z.string().optional(),
+      grain: z.enum(SUMMARY_GRAINS),
+      periodStart: z.iso.datetime(),
+      periodEnd: z.iso.datetime(),
+    })
+    .strict(),
+  z
+    .object({
+      task: z.literal("cleanup"),
+      workspaceId: z.string(),
+      agentId: z.string(),
+      partitionKey: z.string().optional(),
+      plan: z.enum(["free", "starter", "pro"]),
+    })
+    .strict(),
+]);
+
+export type MemoryMaintenanceMessage = z.infer<
+  typeof MemoryMaintenanceMessageSchema
+>;
+export type MemorySummaryMessage = Extract<
+  MemoryMaintenanceMessage,
+  { task: "summarize" }
+>;
+export type MemoryCleanupMessage = Extract<
+  MemoryMaintenanceMessage,
+  { task: "cleanup" }
+>;
+
+/**
+ * Period a summary run covers: the previous day for daily summaries, and the week, month,
+ * quarter or year up to now for the larger grains
+ */
+export function getMemorySummaryPeriod(
+  grain: SummaryGrain,
+  now: Date,
+): { start: Date; end: Date } {
+  const start = new Date(now);
+  switch (grain) {
+    case "daily": {
+      start.setDate(start.getDate() - 1);
+      start.setHours(0, 0, 0, 0);
+      const end = new Date(now);
+      end.setHours(0, 0, 0, 0);
+      return { start, end };
+    }
+    case "weekly":
+      start.setDate(start.getDate() - 7);
+      break;
+    case "monthly":
+      start.setMonth(start.getMonth() - 1);
+      break;
+    case "quarterly":
+      start.setMonth(start.getMonth() - 3);
+      break;
+    case "yearly":
+      start.setFullYear(start.getFullYear() - 1);
+      break;
+  }
+  return { start, end: new Date(now) };
+}
+
+/**
+ * All workspace IDs, found through their permission records
+ */
+async function listWorkspaceIds(db: DatabaseSchema): Promise<string[]> {
+  const workspacePermissions = await db.permission.query({
+    IndexName: "byResourceTypeAndEntityId",
+    KeyConditionExpression: "resourceType = :resourceType",
+    ExpressionAttributeValues: {
+      ":resourceType": "workspaces",
+    },
+  });
+  return [
+    ...new Set(
+      workspacePermissions.items.map((p) => p.pk.replace("workspaces/", "")),
+    ),
+  ];
+}
+
+async function listWorkspaceAgentIds(
+  db: DatabaseSchema,
+  workspaceId: string,
+): Promise<string[]> {
+  const agentsQuery = await db.agent.query({
+    IndexName: "byWorkspaceId",
+    KeyConditionExpression: "workspaceId = :workspaceId",
+    ExpressionAttributeValues: {
+      ":workspaceId": workspaceId,
+    },
+  });
+  return agentsQuery.items.map((agent) =>
+    agent.pk.replace(`agents/${workspaceId}/`, ""),
+  );
+}
+
+/**
+ * Queues the message of one partition. Failures are reported and do not stop the fan-out.
+ */
+async function publishMemoryMaintenance(
+  payload: MemoryMaintenanceMessage,
+): Promise<boolean> {
+  try {
+    await queues.publish({
+      name: MEMORY_MAINTENANCE_QUEUE_NAME,
+      payload,
+    });
+    return true;
+  } catch (error) {
+    console.error("[Memory Maintenance] Failed to queue partition:", {
+      task: payload.task,
+      workspaceId: payload.workspaceId,
+      agentId: payload.agentId,
+      partitionKey: payload.partitionKey,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    Sentry.captureException(ensureError(error), {
+      tags: {
+        context: "memory-maintenance",
+        operation: "enqueue",
+        task: payload.task,
+      },
+      extra: {
+        workspaceId: payload.workspaceId,
+        agentId: payload.agentId,
+        partitionKey: payload.partitionKey,
+      },
+    });
+    return false;
+  }
+}
+
+/** How one workspace's partitions are queued, or undefined to skip the workspace */
+type WorkspaceMaintenancePlan =
+  | {
+      buildMessage: (
+        agentId: string,
+        partitionKey: string | undefined,
+      ) => MemoryMaintenanceMessage;
+      /** Whether an end-user partition needs processing; the agent-global memory always does */
+      isPartitionDue: (partition: AgentMemoryPartitionRecord) => boolean;
+    }
+  | undefined;
+
+/**
+ * Lists the partitions of every agent and queues one message per due partition
+ */
+async function fanOutMemoryMaintenance(
+  db: DatabaseSchema,
+  label: string,
+  planWorkspace: (workspaceId: string) => Promise<WorkspaceMaintenancePlan>,
+): Promise<void> {
+  const workspaceIds = await listWorkspaceIds(db);
+  let queued = 0;
+  let failed = 0;
+
+  for (const workspaceId of workspaceIds) {
+    try {
+      const plan = await planWorkspace(workspaceId);
+      if (!plan) {
+        continue;
+      }
+      for (const agentId of await listWorkspaceAgentIds(db, workspaceId)) {
+        try {
+          const partitions = await listAgentMemoryPartitions(
+            db,
+            workspaceId,
+            agentId,
+          );
+          const partitionKeys = [
+            undefined,
+            ...partitions
+              .filter((partition) => plan.isPartitionDue(partition))
+              .map((partition) => partition.sk),
+          ];
+          for (const partitionKey of partitionKeys) {
+            if (
+              await publishMemoryMaintenance(
+                plan.buildMessage(agentId, partitionKey),
+              )
+            ) {
+              queued++;
+            } else {
+              failed++;
+            }
+          }
+        } catch (error) {
+          console.error(
+            `[Memory Maintenance] ${label}: Error listing partitions of agent ${agentId}:`,
+            error,
+          );
+          // Continue with next agent
+        }
+      }
+    } catch (error) {
+      console.error(
+        `[Memory Maintenance] ${label}: Error processing workspace ${workspaceId}:`,
+        error,
+      );
+      // Continue with next workspace
+    }
+  }
+
+  console.log(`[Memory Maintenance] ${label}: Queued partitions`, {
+    workspaces: workspaceIds.length,
+    queued,
+    failed,
+  });
+}
+
+/**
+ * Queues the summaries of a period. End-user partitions without activity since the start of
+ * the period have no new records to summarize and are skipped.
+ */
+export async function enqueueMemorySummaries(
+  db: DatabaseSchema,
+  grain: SummaryGrain,
+  period: { start: Date; end: Date },
+): Promise<void> {
+  await fanOutMemoryMaintenance(db, `${grain} summaries`, async (workspaceId) => ({
+    buildMessage: (agentId, partitionKey) => ({
+      task: "summarize",
+      workspaceId,
+      agentId,
+      ...(partitionKey && { partitionKey }),
+      grain,
+      periodStart: period.start.toISOString(),
+      periodEnd: period.end.toISOString(),
+    }),
+    isPartitionDue: (partition) =>
+      isMemoryPartitionActiveSince(partition, period.start),
+  }));
+}
+
+/**
+ * Queues the retention cleanup of every partition, with the plan of its workspace.
+ * Partitions created after the most recent retention cutoff cannot hold expired records
+ * and are skipped.
+ */
+export async function enqueueMemoryRetentionCleanup(
+  db: DatabaseSchema,
+): Promise<void> {
+  await fanOutMemoryMaintenance(db, "retention cleanup", async (workspaceId) => {
+    const workspace = await db.workspace.get(
+      `workspaces/${workspaceId}`,
+      "workspace",
+    );
+    if (!workspace?.subscriptionId) {
+      console.log(
+        `[Memory Maintenance] Workspace ${workspaceId}: No subscription found, skipping`,
+      );
+      return undefined;
+    }
+    const subscription = await getSubscriptionById(workspace.subscriptionId);
+    if (!subscription) {
+      console.log(
+        `[Memory Maintenance] Workspace ${workspaceId}: Subscription not found, skipping`,
+      );
+      return undefined;
+    }
+    const plan = subscription.plan as SubscriptionPlan;
+    const latestCutoff = Math.max(
+      ...TEMPORAL_GRAINS.map((grain) =>
+        calculateRetentionCutoff(grain, plan).getTime(),
+      ),
+    );
+    return {
+      buildMessage: (agentId, partitionKey) => ({
+        task: "cleanup",
+        workspaceId,
+        agentId,
+        ...(partitionKey && { partitionKey }),
+        plan,
+      }),
+      isPartitionDue: (partition) =>
+        Date.parse(partition.createdAt) < latestCutoff,
+    };
+  });
+}
@@ -0,0 +1,283 @@
+/**
+ * Per-end-user memory partitions
+ *
+ * Agents that talk to many end users (widget visitors, Slack and Discord users, webhook
+ * callers) can keep a separate memory per end user next to the agent-global memory. Working
+ * memory, its summaries and the knowledge graph of an end user are stored under a partition
+ * key derived from the end-user ID, and searches read that partition plus the agent-global
+ * memory. Widget and stream callers are public, so they must sign end-user IDs with one of
+ * the agent's webhook keys; webhook calls are authenticated by the key itself and Slack and
+ * Discord IDs come from the verified platform payload. The partitions of an agent are registered in the agent-memory-partition table so
+ * that scheduled jobs, the memory UI and agent removal can find them.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+
+import { badRequest, isBoom, notFound, unauthorized } from "@hapi/boom";
+
+import type { AgentMemoryPartitionRecord, DatabaseSchema } from "../../tables/schema";
+
+export const MAX_END_USER_ID_LENGTH = 256;
+
+/** Header used by the widget, the stream endpoints and webhooks to identify the end user */
+export const END_USER_ID_HEADER = "x-end-user-id";
+
+/** Signature of the end-user ID, required from widget and stream callers */
+export const END_USER_SIGNATURE_HEADER = "x-end-user-signature";
+
+/**
+ * Reads an end-user ID from a header or query parameter. Empty values mean no end user.
+ */
+export function parseEndUserId(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw badRequest("endUserId must be a string");
+  }
+  const endUserId = value.trim();
+  if (!endUserId) {
+    return undefined;
+  }
+  if (endUserId.length > MAX_END_USER_ID_LENGTH) {
+    throw badRequest(
+      `endUserId must be at most ${MAX_END_USER_ID_LENGTH} characters`,
+    );
+  }
+  return endUserId;
+}
+
+function getHeader(
+  headers: Record<string, string | undefined>,
+  headerName: string,
+): string | undefined {
+  const name = Object.keys(headers).find(
+    (key) => key.toLowerCase() === headerName,
+  );
+  return name ? headers[name] : undefined;
+}
+
+/**
+ * Reads the end-user ID header of a request (header names are case-insensitive). The ID is
+ * not verified, so only callers authenticated by a secret key (webhooks) may use it as is.
+ */
+export function getEndUserIdFromHeaders(
+  headers: Record<string, string | undefined> | null | undefined,
+): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  return parseEndUserId(getHeader(headers, END_USER_ID_HEADER));
+}
+
+/**
+ * Sign an end-user ID with an agent webhook key: `sha256=` followed by the hex HMAC-SHA256
+ * of the ID. Sites compute this on their server and pass it to the widget or stream request.
+ */
+export function signEndUserId(key: string, endUserId: string): string {
+  return `sha256=${createHmac("sha256", key).update(endUserId).digest("hex")}`;
+}
+
+/**
+ * Whether the signature matches the end-user ID for any of the keys
+ */
+export function isEndUserSignatureValid(
+  keys: string[],
+  endUserId: string,
+  signature: string,
+): boolean {
+  const received = Buffer.from(signature.trim());
+  return keys.some((key) => {
+    const expected = Buffer.from(signEndUserId(key, endUserId));
+    return (
+      expected.length === received.length && timingSafeEqual(expected, received)
+    );
+  });
+}
+
+/**
+ * Reads the end-user ID of a widget or stream request and checks its signature against the
+ * agent's webhook keys. IDs sent to agents without per-end-user memory are dropped unless
+ * signed, since they have no effect there.
+ * @throws unauthorized when an agent with per-end-user memory gets an ID without a valid signature
+ */
+export async function getVerifiedEndUserIdFromHeaders(
+  db: DatabaseSchema,
+  params: { workspaceId: string; agentId: string },
+  headers: Record<string, string | undefined> | null | undefined,
+): Promise<string | undefined> {
+  const endUserId = getEndUserIdFromHeaders(headers);
+  if (!headers || !endUserId) {
+    return undefined;
+  }
+  const signature = getHeader(headers, END_USER_SIGNATURE_HEADER);
+  if (!signature) {
+    const agent = await db.agent.get(
+      `agents/${params.workspaceId}/${params.agentId}`,
+      "agent",
+    );
+    if (agent?.memoryPartitionByEndUser !== true) {
+      return undefined;
+    }
+    throw unauthorized(
+      "X-End-User-Id must be signed with an agent webhook key in X-End-User-Signature",
+    );
+  }
+  const keysQuery = await db["agent-key"].query({
+    IndexName: "byAgentId",
+    KeyConditionExpression: "agentId = :agentId",
+    ExpressionAttributeValues: {
+      ":agentId": params.agentId,
+    },
+  });
+  const webhookKeys = keysQuery.items
+    .filter(
+      (key) =>
+        key.workspaceId === params.workspaceId &&
+        (key.type === "webhook" || !key.type),
+    )
+    .map((key) => key.key);
+  if (!isEndUserSignatureValid(webhookKeys, endUserId, signature)) {
+    throw unauthorized("Invalid X-End-User-Signature");
+  }
+  return endUserId;
+}
+
+/**
+ * Storage key of an end user's memory. End-user IDs are chosen by callers, so they are hashed
+ * to a fixed-length value that is safe in S3 paths and SQS message group IDs.
+ */
+export function getMemoryPartitionKey(endUserId: string): string {
+  return createHash("sha256").update(endUserId).digest("hex").slice(0, 32);
+}
+
+/**
+ * Partition key for a conversation of the agent, or undefined when the agent keeps a single
+ * memory or the conversation has no end user
+ */
+export function getAgentMemoryPartitionKey(
+  agent: { memoryPartitionByEndUser?: boolean },
+  endUserId: string | undefined,
+): string | undefined {
+  if (agent.memoryPartitionByEndUser !== true || !endUserId) {
+    return undefined;
+  }
+  return getMemoryPartitionKey(endUserId);
+}
+
+const buildPartitionsPk = (workspaceId: string, agentId: string): string =>
+  `agent-memory-partitions/${workspaceId}/${agentId}`;
+
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+/**
+ * Records that the agent has memory for the end user and returns the partition key. The
+ * activity of the partition is updated once per day, so that scheduled jobs can skip end
+ * users who were not active in their period.
+ */
+export async function registerMemoryPartition(
+  db: DatabaseSchema,
+  params: { workspaceId: string; agentId: string; endUserId: string },
+): Promise<string> {
+  const partitionKey = getMemoryPartitionKey(params.endUserId);
+  const pk = buildPartitionsPk(params.workspaceId, params.agentId);
+  const now = new Date();
+  const existing = await db["agent-memory-partition"].get(pk, partitionKey);
+  if (!existing) {
+    try {
+      await db["agent-memory-partition"].create({
+        pk,
+        sk: partitionKey,
+        workspaceId: params.workspaceId,
+        agentId: params.agentId,
+        endUserId: params.endUserId,
+        lastActiveAt: now.toISOString(),
+      });
+    } catch (error) {
+      // Another request registered the same end user first
+      if (!isBoom(error) || error.output.statusCode !== 409) {
+        throw error;
+      }
+    }
+  } else if (!isMemoryPartitionActiveSince(existing, now)) {
+    await db["agent-memory-partition"].update({
+      pk,
+      sk: partitionKey,
+      lastActiveAt: now.toISOString(),
+    });
+  }
+  return partitionKey;
+}
+
+/**
+ * Whether the end user was active on or after the day of `since`. Partitions registered
+ * before activity was tracked count as active.
+ */
+export function isMemoryPartitionActiveSince(
+  partition: Pick<AgentMemoryPartitionRecord, "lastActiveAt">,
+  since: Date,
+): boolean {
+  return (
+    !partition.lastActiveAt ||
+    Date.parse(partition.lastActiveAt) >= startOfDay(since).getTime()
+  );
+}
+
+/**
+ * Lists the end-user memory partitions of an agent
+ */
+export async function listAgentMemoryPartitions(
+  db: DatabaseSchema,
+  workspaceId: string,
+  agentId: string,
+): Promise<AgentMemoryPartitionRecord[]> {
+  const partitions: AgentMemoryPartitionRecord[] = [];
+  for await (const partition of db["agent-memory-partition"].queryAsync({
+    KeyConditionExpression: "pk = :pk",
+    ExpressionAttributeValues: {
+      ":pk": buildPartitionsPk(workspaceId, agentId),
+    },
+  })) {
+    partitions.push(partition);
+  }
+  return partitions;
+}
+
+/**
+ * Resolves the partition of an end user for memory API requests. Only registered end users
+ * can be selected, so unknown IDs return 404 instead of an empty partition.
+ */
+export async function resolveMemoryPartitionParam(
+  db: DatabaseSchema,
+  params: { workspaceId: string; agentId: string; endUserId: unknown },
+): Promise<string | undefined> {
+  const endUserId = parseEndUserId(params.endUserId);
+  if (!endUserId) {
+    return undefined;
+  }
+  const partitionKey = getMemoryPartitionKey(endUserId);
+  const partition = await db["agent-memory-partition"].get(
+    buildPartitionsPk(params.workspaceId, params.agentId),
+    partitionKey,
+  );
+  if (!partition) {
+    throw notFound("No memory found for this end user");
+  }
+  return partitionKey;
+}
+
+/**
+ * Deletes the registry entries of an agent's memory partitions
+ */
+export async function deleteAgentMemoryPartitions(
+  db: DatabaseSchema,
+  partitions: AgentMemoryPartitionRecord[],
+): Promise<void> {
+  for (const partition of partitions) {
+    await db["agent-memory-partition"].delete(partition.pk, partition.sk);
+  }
+}
@@ -9,7 +9,7 @@ import {
 } from "../embeddingCredits";
 import { MAX_QUERY_LIMIT } from "../vectordb/config";
 import { getRecordById, query } from "../vectordb/readClient";
-import type { TemporalGrain } from "../vectordb/types";
+import type { QueryOptions, QueryResult, TemporalGrain } from "../vectordb/types";
 import type { AugmentedContext } from "../workspaceCreditContext";
 
 export interface SearchMemoryOptions {
@@ -23,6 +23,8 @@ export interface SearchMemoryOptions {
   db?: DatabaseSchema;
   context?: AugmentedContext;
   conversationId?: string;
+  partitionKey?: string; // End-user memory partition to search
+  includeAgentMemory?: boolean; // Also search the agent-global memory when a partitionKey is set (default: true)
 }
 
 export interface SearchMemoryResult {
@@ -86,6 +88,8 @@ export async function searchMemory(
         db: options.db,
         context: options.context,
         conversationId: options.conversationId,
+        partitionKey: options.partitionKey,
+        includeAgentMemory: options.includeAgentMemory,
       },
     );
   }
@@ -185,7 +189,12 @@ export async function searchMemory(
   console.log(
     `[Memory Search] Querying database for agent ${agentId}, grain ${grain}`,
   );
-  const results = await query(agentId, grain, queryOptions);
+  const results = await queryMemoryPartitions(
+    agentId,
+    grain,
+    queryOptions,
+    options,
+  );
   console.log(
     `[Memory Search] Found ${results.length} results for agent ${agentId}, grain ${grain}`,
   );
@@ -211,9 +220,12 @@ export async function getMemoryRecord(options: {
   agentId: string;
   grain: TemporalGrain;
   recordId: string;
+  partitionKey?: string;
 }): Promise<SearchMemoryResult | null> {
-  const { agentId, grain, recordId } = options;
-  const record = await getRecordById(agentId, grain, recordId);
+  const { agentId, grain, recordId, partitionKey } = options;
+  const record = partitionKey
+    ? await getRecordById(agentId, grain, recordId, partitionKey)
+    : await getRecordById(agentId, grain, recordId);
   if (!record) {
     return null;
   }
@@ -233,6 +245,44 @@ export async function getMemoryRecord(options: {
   };
 }
 
+/**
+ * Query the agent-global memory, an end user's partition, or both. Results of both are merged
+ * by similarity for semantic searches and by recency otherwise.
+ */
+async function queryMemoryPartitions(
+  agentId: string,
+  grain: TemporalGrain,
+  queryOptions: QueryOptions,
+  options?: Pick<SearchMemoryOptions, "partitionKey" | "includeAgentMemory">,
+): Promise<QueryResult[]> {
+  const partitionKey = options?.partitionKey;
+  if (!partitionKey) {
+    return query(agentId, grain, queryOptions);
+  }
+  const partitionResults = await query(agentId, grain, {
+    ...queryOptions,
+    partitionKey,
+  });
+  if (options?.includeAgentMemory === false) {
+    return partitionResults;
+  }
+  const agentResults = await query(agentId, grain, queryOptions);
+  const merged = [...partitionResults, ...agentResults];
+  if (queryOptions.vector) {
+    merged.sort(
+      (a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity),
+    );
+  } else {
+    merged.sort(
+      (a, b) =>
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
+    );
+  }
+  return queryOptions.limit !== undefined
+    ? merged.slice(0, queryOptions.limit)
+    : merged;
+}
+
 /**
  * Search working memory (no time string filtering)
  */
@@ -243,7 +293,10 @@ async function searchWorkingMemory(
   endDate: Date,
   maxResults: number,
   queryText?: string,
-  options?: Pick<SearchMemoryOptions, "db" | "context" | "conversationId">,
+  options?: Pick<
+    SearchMemoryOptions,
+    "db" | "context" | "conversationId" | "partitionKey" | "includeAgentMemory"
+  >,
 ): Promise<SearchMemoryResult[]> {
   const hasQueryText = Boolean(queryText && queryText.trim().length > 0);
   const queryOptions: Parameters<typeof query>[2] = {
@@ -341,7 +394,12 @@ async function searchWorkingMemory(
   console.log(
     `[Memory Search] Querying working memory for agent ${agentId}, date range: ${startDate.toISOString()} to ${endDate.toISOString()}`,
   );
-  const results = await query(agentId, "working", queryOptions);
+  const results = await queryMemoryPartitions(
+    agentId,
+    "working",
+    queryOptions,
+    options,
+  );
   console.log(
     `[Memory Search] Found ${results.length} results in working memory for agent ${agentId}`,
   );
@@ -376,7 +434,7 @@ async function searchWorkingMemory(
 /**
  * Format a date as a prefix string (YYYY-MM-DD)
  */
-function formatDatePrefix(date: Date): string {
+export function formatDatePrefix(date: Date): string {
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, "0");
   const day = String(date.getDate()).padStart(2, "0");
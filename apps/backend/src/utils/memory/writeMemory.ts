@@ -74,6 +74,25 @@ function formatConversationText(messages: UIMessage[]): string {
   return lines.join("\n");
 }
 
+/**
+ * IDs of the workspace documents injected into the conversation as knowledge.
+ * Stored on the extracted graph facts so agents scoped away from a document don't see what was learned from it.
+ */
+function collectInjectedDocumentIds(messages: UIMessage[]): string[] {
+  const documentIds = new Set<string>();
+  for (const message of messages) {
+    if (message.role !== "user" || !message.knowledgeSnippets) {
+      continue;
+    }
+    for (const snippet of message.knowledgeSnippets) {
+      if (snippet.source === "document" && snippet.documentId) {
+        documentIds.add(snippet.documentId);
+      }
+    }
+  }
+  return Array.from(documentIds).sort();
+}
+
 export type MemoryExtractionConfig = {
   enabled?: boolean;
   modelName?: string | null;
@@ -83,6 +102,7 @@ export type MemoryExtractionConfig = {
 /**
  * Write conversation messages to working memory
  * Extracts facts and queues raw facts to SQS for async embedding generation
+ * With a partitionKey, the record and graph facts go to the end user's memory partition
  */
 export async function writeToWorkingMemory(
   agentId: string,
@@ -92,6 +112,7 @@ export async function writeToWorkingMemory(
   memoryExtractionConfig?: MemoryExtractionConfig,
   context?: AugmentedContext,
   usesByok?: boolean,
+  partitionKey?: string,
 ): Promise<void> {
   console.log(
     `[Memory Write] Starting write to working memory for conversation ${conversationId}, agent ${agentId}, workspace ${workspaceId}, ${messages.length} messages`,
@@ -180,11 +201,14 @@ export async function writeToWorkingMemory(
           }
           memoryOperations = extraction.memoryOperations;
           if (memoryOperations.length > 0) {
+            const documentIds = collectInjectedDocumentIds(messages);
             await applyMemoryOperationsToGraph({
               workspaceId,
               agentId,
               conversationId,
               memoryOperations,
+              ...(partitionKey && { partitionKey }),
+              ...(documentIds.length > 0 && { documentIds }),
             });
           }
         }
@@ -265,6 +289,7 @@ export async function writeToWorkingMemory(
       agentId,
       temporalGrain: "working",
       workspaceId, // Include workspaceId for API key lookup in queue handler
+      ...(partitionKey && { partitionKey }),
       usesByok,
       creditContext: {
         agentId,
@@ -301,6 +326,7 @@ export async function queueMemoryWrite(
   agentId: string,
   grain: TemporalGrain,
   records: FactRecord[],
+  partitionKey?: string,
 ): Promise<void> {
   if (records.length === 0) {
     return;
@@ -310,6 +336,7 @@ export async function queueMemoryWrite(
     operation: "insert",
     agentId,
     temporalGrain: grain,
+    ...(partitionKey && { partitionKey }),
     data: {
       records,
     },
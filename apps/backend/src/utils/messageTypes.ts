@@ -9,6 +9,7 @@ export type KnowledgeSnippet = {
   documentName?: string;
   documentId?: string;
   folderPath?: string;
+  anchor?: string;
   timestamp?: string;
   date?: string;
   subject?: string;
@@ -0,0 +1,283 @@
+import { badRequest } from "@hapi/boom";
+
+import { capabilitiesFromDeclaration } from "../http/utils/modelCapabilities";
+import { database } from "../tables";
+import type { WorkspaceModelEndpointRecord } from "../tables/schema";
+
+import type { ModelPricing } from "./pricing";
+import { getModelPricing, registerCustomModelPricing } from "./pricing";
+import { NonPublicAddressError, assertPublicHost } from "./publicAddress";
+import { getWorkspaceSubscription } from "./subscriptionUtils";
+import { isLocalSandbox } from "./webhookCallback";
+
+/**
+ * Custom model endpoints: OpenAI-compatible servers (vLLM, Ollama, ...) run by
+ * the workspace itself. Agents and eval judges select their models as
+ * "custom:{endpointId}:{model}". Calls go to the endpoint with its own key and
+ * cost no workspace credits, like BYOK; the optional per-token pricing is only
+ * used to report costs.
+ */
+
+export const CUSTOM_MODEL_PREFIX = "custom:";
+export const MAX_ENDPOINT_MODELS = 50;
+export const MODEL_ENDPOINT_SK = "endpoint";
+
+export type ModelEndpointModel = WorkspaceModelEndpointRecord["models"][number];
+
+export const getModelEndpointPk = (workspaceId: string, endpointId: string) =>
+  `workspace-model-endpoints/${workspaceId}/${endpointId}`;
+
+export const getModelEndpointId = (endpoint: WorkspaceModelEndpointRecord) =>
+  endpoint.pk.replace(`workspace-model-endpoints/${endpoint.workspaceId}/`, "");
+
+export function buildCustomModelName(endpointId: string, model: string): string {
+  return `${CUSTOM_MODEL_PREFIX}${endpointId}:${model}`;
+}
+
+/**
+ * Split a custom model name into its endpoint and the model served by it.
+ * Model names may contain colons themselves (e.g. Ollama's "llama3.1:8b").
+ */
+export function parseCustomModelName(
+  modelName: string
+): { endpointId: string; model: string } | null {
+  if (!modelName.startsWith(CUSTOM_MODEL_PREFIX)) {
+    return null;
+  }
+  const rest = modelName.slice(CUSTOM_MODEL_PREFIX.length);
+  const separatorIndex = rest.indexOf(":");
+  if (separatorIndex <= 0 || separatorIndex === rest.length - 1) {
+    return null;
+  }
+  return {
+    endpointId: rest.slice(0, separatorIndex),
+    model: rest.slice(separatorIndex + 1),
+  };
+}
+
+export function isCustomModelName(modelName?: string | null): boolean {
+  return !!modelName && parseCustomModelName(modelName) !== null;
+}
+
+/**
+ * Model selection of an agent or eval judge without custom endpoint models, for
+ * workspace exports: endpoints and their API keys stay in the workspace. The
+ * first remaining fallback replaces a custom primary model.
+ */
+export function withoutCustomModels(
+  modelName: string | null | undefined,
+  fallbackModelNames: string[] | null | undefined
+): { modelName?: string; fallbackModelNames?: string[] } {
+  const fallbacks = fallbackModelNames?.filter(
+    (name) => !isCustomModelName(name)
+  );
+  if (!isCustomModelName(modelName)) {
+    return { modelName: modelName ?? undefined, fallbackModelNames: fallbacks };
+  }
+  const [primary, ...remaining] = fallbacks ?? [];
+  return {
+    modelName: primary,
+    fallbackModelNames: remaining.length > 0 ? remaining : undefined,
+  };
+}
+
+/**
+ * API representation of an endpoint: never includes the API key itself
+ */
+export function toModelEndpointResponse(endpoint: WorkspaceModelEndpointRecord) {
+  const endpointId = getModelEndpointId(endpoint);
+  return {
+    id: endpointId,
+    name: endpoint.name,
+    baseUrl: endpoint.baseUrl,
+    hasApiKey: !!endpoint.apiKey,
+    models: endpoint.models.map((model) => ({
+      ...model,
+      modelName: buildCustomModelName(endpointId, model.name),
+    })),
+    createdAt: endpoint.createdAt,
+    updatedAt: endpoint.updatedAt,
+  };
+}
+
+function toModelPricing(model: ModelEndpointModel): ModelPricing {
+  return {
+    usd: {
+      input: model.pricing?.input ?? 0,
+      output: model.pricing?.output ?? 0,
+    },
+    capabilities: capabilitiesFromDeclaration(model.capabilities),
+    ...(model.contextLength ? { context_length: model.contextLength } : {}),
+  };
+}
+
+function getEndpointModelPricing(
+  endpoint: WorkspaceModelEndpointRecord
+): Map<string, ModelPricing> {
+  const endpointId = getModelEndpointId(endpoint);
+  return new Map(
+    endpoint.models.map((model) => [
+      buildCustomModelName(endpointId, model.name),
+      toModelPricing(model),
+    ])
+  );
+}
+
+export async function getWorkspaceModelEndpoint(
+  workspaceId: string,
+  endpointId: string
+): Promise<WorkspaceModelEndpointRecord | undefined> {
+  const db = await database();
+  return db["workspace-model-endpoint"].get(
+    getModelEndpointPk(workspaceId, endpointId),
+    MODEL_ENDPOINT_SK
+  );
+}
+
+export async function listWorkspaceModelEndpoints(
+  workspaceId: string
+): Promise<WorkspaceModelEndpointRecord[]> {
+  const db = await database();
+  const endpoints: WorkspaceModelEndpointRecord[] = [];
+  for await (const endpoint of db["workspace-model-endpoint"].queryAsync({
+    IndexName: "byWorkspaceId",
+    KeyConditionExpression: "workspaceId = :workspaceId",
+    ExpressionAttributeValues: { ":workspaceId": workspaceId },
+  })) {
+    endpoints.push(endpoint);
+  }
+  return endpoints;
+}
+
+/**
+ * Custom model endpoints are only available for paid plans, like BYOK
+ */
+export async function assertModelEndpointsAvailable(
+  workspaceId: string
+): Promise<void> {
+  const subscription = await getWorkspaceSubscription(workspaceId);
+  if (!subscription || subscription.plan === "free") {
+    throw badRequest(
+      "Custom model endpoints are only available for Starter and Pro plans. Please upgrade to use your own model endpoints."
+    );
+  }
+}
+
+/**
+ * Refuse endpoints whose host is local or resolves to a non-public address
+ * (allowed in the local sandbox). Checked when an endpoint is saved and again
+ * before each call, as the host may resolve to another address by then.
+ */
+export async function assertModelEndpointHostIsPublic(
+  baseUrl: string
+): Promise<void> {
+  if (isLocalSandbox()) {
+    return;
+  }
+  try {
+    await assertPublicHost(new URL(baseUrl).hostname);
+  } catch (error) {
+    throw badRequest(
+      error instanceof NonPublicAddressError
+        ? `Model endpoint ${baseUrl} must point to a public host`
+        : `Model endpoint host could not be resolved: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+    );
+  }
+}
+
+/**
+ * Load the endpoint of a custom model for a call and register the pricing and
+ * capabilities of its models. The endpoint is looked up within the calling
+ * workspace, so other workspaces' endpoints can never be used.
+ */
+export async function resolveCustomModel(
+  workspaceId: string | undefined,
+  modelName: string
+): Promise<{ endpoint: WorkspaceModelEndpointRecord; model: string }> {
+  const ref = parseCustomModelName(modelName);
+  if (!ref) {
+    throw badRequest(`Invalid custom model name "${modelName}"`);
+  }
+  if (!workspaceId) {
+    throw badRequest("Custom endpoint models can only be used in a workspace");
+  }
+  const endpoint = await getWorkspaceModelEndpoint(workspaceId, ref.endpointId);
+  if (!endpoint || !endpoint.models.some((model) => model.name === ref.model)) {
+    throw badRequest(
+      `Model "${modelName}" is not available. Please check the workspace's custom model endpoints.`
+    );
+  }
+  await assertModelEndpointsAvailable(workspaceId);
+  await assertModelEndpointHostIsPublic(endpoint.baseUrl);
+  for (const [name, pricing] of getEndpointModelPricing(endpoint)) {
+    registerCustomModelPricing(name, pricing);
+  }
+  return { endpoint, model: ref.model };
+}
+
+/**
+ * Pricing lookup for validating the models selected for an agent or eval
+ * judge: also resolves the workspace's custom endpoint models. Endpoints are
+ * only loaded when one of the given models is a custom model.
+ */
+export async function getWorkspaceModelPricingResolver(
+  workspaceId: string,
+  modelName: string | null | undefined,
+  fallbackModelNames?: string[] | null
+): Promise<(provider: string, modelName: string) => ModelPricing | undefined> {
+  const modelNames = [modelName, ...(fallbackModelNames ?? [])];
+  if (!modelNames.some((name) => isCustomModelName(name?.trim()))) {
+    return getModelPricing;
+  }
+  const customPricing = new Map<string, ModelPricing>();
+  for (const endpoint of await listWorkspaceModelEndpoints(workspaceId)) {
+    for (const [name, pricing] of getEndpointModelPricing(endpoint)) {
+      customPricing.set(name, pricing);
+    }
+  }
+  return (provider, modelName) =>
+    isCustomModelName(modelName)
+      ? customPricing.get(modelName)
+      : getModelPricing(provider, modelName);
+}
+
+/**
+ * Name of an agent or eval judge that uses a model of the endpoint, if any
+ */
+export async function findModelEndpointUsage(
+  workspaceId: string,
+  endpointId: string
+): Promise<string | undefined> {
+  const db = await database();
+  const prefix = buildCustomModelName(endpointId, "");
+  const usesEndpoint = (record: {
+    modelName?: string | null;
+    fallbackModelNames?: string[];
+  }) =>
+    [record.modelName, ...(record.fallbackModelNames ?? [])].some(
+      (modelName) => modelName?.startsWith(prefix)
+    );
+
+  for await (const agent of db.agent.queryAsync({
+    IndexName: "byWorkspaceId",
+    KeyConditionExpression: "workspaceId = :workspaceId",
+    ExpressionAttributeValues: { ":workspaceId": workspaceId },
+  })) {
+    if (usesEndpoint(agent)) {
+      return `agent "${agent.name}"`;
+    }
+    const agentId = agent.pk.replace(`agents/${workspaceId}/`, "");
+    for await (const judge of db["agent-eval-judge"].queryAsync({
+      IndexName: "byAgentId",
+      KeyConditionExpression: "agentId = :agentId",
+      ExpressionAttributeValues: { ":agentId": agentId },
+    })) {
+      if (usesEndpoint(judge)) {
+        return `eval judge "${judge.name}" of agent "${agent.name}"`;
+      }
+    }
+  }
+  return undefined;
+}
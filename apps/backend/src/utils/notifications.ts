@@ -1,16 +1,27 @@
 import type { OutputChannelRecord } from "../tables/schema";
 
+import {
+  enqueueHttpChannelNotification,
+  type NotificationContext,
+} from "./channelDeliveryQueue";
 import { sendDiscordMessage } from "./discord";
+import { sendEmailChannelNotification } from "./emailChannel";
 import { sendSlackMessage } from "./slack";
 
 /**
  * Send a notification to a channel based on its type
  * @param channel - The output channel record
- * @param content - Message content to send
+ * @param content - Message content to send (markdown; rendered as HTML for email channels)
+ * @param options - subjectVariables are available as {{name}} placeholders in email subject templates;
+ * context (agent, conversation, cost) is included in the http channel envelope
  */
 export async function sendNotification(
   channel: OutputChannelRecord,
-  content: string
+  content: string,
+  options: {
+    subjectVariables?: Record<string, string>;
+    context?: NotificationContext;
+  } = {}
 ): Promise<void> {
   if (channel.type === "discord") {
     const config = channel.config as { botToken?: string; discordChannelId?: string };
@@ -32,6 +43,15 @@ export async function sendNotification(
     }
 
     await sendSlackMessage(config.webhookUrl, content);
+  } else if (channel.type === "email") {
+    await sendEmailChannelNotification(
+      channel,
+      content,
+      options.subjectVariables
+    );
+  } else if (channel.type === "http") {
+    // Delivered asynchronously with retries; the outcome is recorded in the channel's delivery log
+    await enqueueHttpChannelNotification(channel, content, options.context);
   } else {
     throw new Error(`Unsupported channel type: ${channel.type}`);
   }
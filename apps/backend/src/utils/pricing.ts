@@ -72,6 +72,22 @@ const TOKEN_PRICE_SCALE = 1_000; // 1e9 (nano) / 1e6 (per-million tokens)
 // Import pricing config directly (bundled with Lambda)
 const config = pricingConfigData as PricingConfig;
 
+// Pricing of custom endpoint models, registered when their endpoint is loaded
+// (see utils/modelEndpoints.ts). Custom model names never collide with
+// OpenRouter model names.
+const customModelPricing = new Map<string, ModelPricing>();
+
+/**
+ * Register the pricing and capabilities of a custom endpoint model so the
+ * synchronous pricing and capability lookups resolve it
+ */
+export function registerCustomModelPricing(
+  modelName: string,
+  pricing: ModelPricing
+): void {
+  customModelPricing.set(modelName, pricing);
+}
+
 /**
  * Load pricing configuration
  */
@@ -127,6 +143,11 @@ export function getModelPricing(
   provider: string,
   modelName: string
 ): ModelPricing | undefined {
+  const customPricing = customModelPricing.get(modelName);
+  if (customPricing) {
+    return customPricing;
+  }
+
   const pricingConfig = loadPricingConfig();
   const providerPricing = pricingConfig.providers[provider];
   if (!providerPricing) {
@@ -0,0 +1,103 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+/**
+ * Guards for outbound requests to caller-supplied URLs (e.g. webhook result callbacks),
+ * so they cannot reach loopback, private network, link-local (cloud metadata) or other
+ * non-public addresses.
+ */
+
+const nonPublicAddresses = new BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8], // private
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local, cloud metadata
+  ["172.16.0.0", 12], // private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.168.0.0", 16], // private
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved, broadcast
+] as const) {
+  nonPublicAddresses.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [
+  ["::", 128], // unspecified
+  ["::1", 128], // loopback
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  nonPublicAddresses.addSubnet(address, prefix, "ipv6");
+}
+
+const IPV4_MAPPED_PREFIX = "::ffff:";
+
+/**
+ * Raised when a URL targets an address that is not public
+ */
+export class NonPublicAddressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NonPublicAddressError";
+  }
+}
+
+/**
+ * True for IP addresses that are not reachable on the public internet
+ */
+export function isNonPublicAddress(address: string): boolean {
+  const normalized = address.toLowerCase();
+  if (normalized.startsWith(IPV4_MAPPED_PREFIX)) {
+    const mapped = normalized.substring(IPV4_MAPPED_PREFIX.length);
+    if (isIP(mapped) === 4) {
+      return isNonPublicAddress(mapped);
+    }
+  }
+  const version = isIP(normalized);
+  if (version === 0) {
+    return false;
+  }
+  return nonPublicAddresses.check(normalized, version === 4 ? "ipv4" : "ipv6");
+}
+
+function stripIpv6Brackets(hostname: string): string {
+  return hostname.startsWith("[") && hostname.endsWith("]")
+    ? hostname.substring(1, hostname.length - 1)
+    : hostname;
+}
+
+/**
+ * True when the host of a URL is a local name or a non-public IP literal.
+ * Checks the URL only; use assertPublicHost before connecting to also check DNS.
+ */
+export function isNonPublicHostname(hostname: string): boolean {
+  const host = stripIpv6Brackets(hostname.toLowerCase()).replace(/\.$/, "");
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    return true;
+  }
+  return isNonPublicAddress(host);
+}
+
+/**
+ * Resolve a hostname and reject it when any of its addresses is not public
+ * @throws NonPublicAddressError when the host is local or resolves to a non-public address
+ * @throws Error when the host cannot be resolved
+ */
+export async function assertPublicHost(hostname: string): Promise<void> {
+  if (isNonPublicHostname(hostname)) {
+    throw new NonPublicAddressError(`${hostname} is not a public address`);
+  }
+  const host = stripIpv6Brackets(hostname);
+  if (isIP(host) !== 0) {
+    return;
+  }
+  const addresses = await lookup(host, { all: true });
+  if (addresses.some((entry) => isNonPublicAddress(entry.address))) {
+    throw new NonPublicAddressError(
+      `${hostname} resolves to a non-public address`
+    );
+  }
+}
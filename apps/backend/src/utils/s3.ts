@@ -241,6 +241,14 @@ export function buildS3Key(
   return `workspaces/${workspaceId}/documents/${filename}`;
 }
 
+// Build S3 key for the markdown extracted from a non-text document (PDF, DOCX, HTML, CSV)
+export function buildExtractedTextS3Key(
+  workspaceId: string,
+  documentId: string,
+): string {
+  return `workspaces/${workspaceId}/document-extracts/${documentId}.md`;
+}
+
 // Check if a filename exists in a folder
 export async function checkFilenameExists(
   workspaceId: string,
@@ -337,6 +345,17 @@ export async function uploadDocument(
   return key;
 }
 
+// Upload the markdown extracted from a document, stored next to the original
+export async function uploadExtractedText(
+  workspaceId: string,
+  documentId: string,
+  markdown: string,
+): Promise<string> {
+  const key = buildExtractedTextS3Key(workspaceId, documentId);
+  await putS3Object(key, markdown, "text/markdown");
+  return key;
+}
+
 // Get document from S3
 export async function getDocument(
   workspaceId: string,
@@ -0,0 +1,79 @@
+import type { AgentScheduleRecord, DatabaseSchema } from "../tables/schema";
+
+import { fromNanoDollars } from "./creditConversions";
+import { sendEmailViaConnection } from "./email";
+import { renderNotificationHtml, renderSubjectTemplate } from "./emailChannel";
+import { sendNotification } from "./notifications";
+import { formatDateInTimezone } from "./scheduleTemplate";
+
+export type ScheduleDeliveryTarget = NonNullable<
+  AgentScheduleRecord["delivery"]
+>;
+
+export const DEFAULT_SCHEDULE_EMAIL_SUBJECT_TEMPLATE =
+  "{{scheduleName}} ({{date}})";
+
+/**
+ * Send the final answer of a successful scheduled run to the schedule's delivery target.
+ * Channel targets go through sendNotification (http channels are queued with retries);
+ * email targets are sent as one message to all recipients (Bcc) through the workspace
+ * email connection.
+ * @throws when the target no longer exists or sending fails
+ */
+export async function deliverScheduleResult(
+  db: DatabaseSchema,
+  params: {
+    workspaceId: string;
+    agentId: string;
+    agentName: string;
+    scheduleName: string;
+    timezone: string;
+    delivery: ScheduleDeliveryTarget;
+    content: string;
+    conversationId: string;
+    /** Provisional cost of the run in nano-dollars */
+    costUsd?: number;
+  }
+): Promise<void> {
+  const subjectVariables = {
+    scheduleName: params.scheduleName,
+    agentName: params.agentName,
+    date: formatDateInTimezone(new Date(), params.timezone),
+  };
+
+  if (params.delivery.type === "channel") {
+    const channel = await db["output_channel"].get(
+      `output-channels/${params.workspaceId}/${params.delivery.channelId}`,
+      "channel"
+    );
+    if (!channel) {
+      throw new Error(
+        "Delivery channel not found. It may have been deleted; update the schedule."
+      );
+    }
+    await sendNotification(channel, params.content, {
+      subjectVariables,
+      context: {
+        agentId: params.agentId,
+        conversationId: params.conversationId,
+        ...(params.costUsd !== undefined && {
+          costUsd: fromNanoDollars(params.costUsd),
+        }),
+      },
+    });
+    return;
+  }
+
+  const subject = renderSubjectTemplate(
+    params.delivery.subjectTemplate || DEFAULT_SCHEDULE_EMAIL_SUBJECT_TEMPLATE,
+    subjectVariables
+  );
+  const html = renderNotificationHtml(params.content);
+  // Bcc so recipients do not see each other's addresses
+  await sendEmailViaConnection(params.workspaceId, {
+    bcc: params.delivery.recipients,
+    subject,
+    text: params.content,
+    html,
+  });
+}
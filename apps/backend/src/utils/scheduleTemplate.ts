@@ -0,0 +1,97 @@
+/**
+ * Variables available as {{name}} placeholders in schedule prompts
+ */
+export type SchedulePromptVariables = {
+  /** Current time, ISO 8601 (UTC) */
+  now: string;
+  /** Current date (YYYY-MM-DD) in the schedule timezone */
+  date: string;
+  /** When the previous successful run completed (ISO 8601), or "never" */
+  lastRunAt: string;
+  /** Final answer of the previous successful run (truncated), empty when none */
+  lastRunSummary: string;
+  workspaceName: string;
+  agentName: string;
+  scheduleName: string;
+};
+
+export const SCHEDULE_PROMPT_VARIABLE_NAMES: ReadonlyArray<
+  keyof SchedulePromptVariables
+> = [
+  "now",
+  "date",
+  "lastRunAt",
+  "lastRunSummary",
+  "workspaceName",
+  "agentName",
+  "scheduleName",
+];
+
+/** Maximum length of lastRunSummary kept on the schedule record */
+export const LAST_RUN_SUMMARY_MAX_LENGTH = 2000;
+
+/**
+ * Current date as YYYY-MM-DD in the given IANA timezone
+ */
+export function formatDateInTimezone(date: Date, timezone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+/**
+ * Build the prompt variables of a scheduled run
+ */
+export function buildSchedulePromptVariables(params: {
+  now: Date;
+  timezone: string;
+  lastRunAt?: string;
+  lastRunSummary?: string;
+  workspaceName: string;
+  agentName: string;
+  scheduleName: string;
+}): SchedulePromptVariables {
+  return {
+    now: params.now.toISOString(),
+    date: formatDateInTimezone(params.now, params.timezone),
+    lastRunAt: params.lastRunAt ?? "never",
+    lastRunSummary: params.lastRunSummary ?? "",
+    workspaceName: params.workspaceName,
+    agentName: params.agentName,
+    scheduleName: params.scheduleName,
+  };
+}
+
+/**
+ * Render {{variable}} placeholders in a schedule prompt.
+ * Unknown placeholders are left untouched so prompts that talk about templates keep working.
+ */
+export function renderSchedulePrompt(
+  template: string,
+  variables: SchedulePromptVariables
+): string {
+  return template.replace(
+    /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g,
+    (match, name: string) =>
+      Object.prototype.hasOwnProperty.call(variables, name)
+        ? variables[name as keyof SchedulePromptVariables]
+        : match
+  );
+}
+
+/**
+ * Truncate a run's final answer for the lastRunSummary variable
+ */
+export function summarizeRunOutput(text: string): string | undefined {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  return trimmed.length > LAST_RUN_SUMMARY_MAX_LENGTH
+    ? `${trimmed.slice(0, LAST_RUN_SUMMARY_MAX_LENGTH - 1)}…`
+    : trimmed;
+}
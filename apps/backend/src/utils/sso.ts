@@ -0,0 +1,463 @@
+import { createHash, randomBytes } from "crypto";
+import { resolveTxt } from "dns/promises";
+
+import { badRequest, conflict, unauthorized } from "@hapi/boom";
+import { createRemoteJWKSet, jwtVerify } from "jose";
+
+import { database } from "../tables";
+import {
+  getUserAuthorizationLevelForResource,
+  giveAuthorization,
+} from "../tables/permissions";
+import type { SsoConfigRecord } from "../tables/schema";
+
+import { getOAuthRedirectBaseUrl } from "./oauth/common";
+import { NonPublicAddressError, assertPublicHost } from "./publicAddress";
+import {
+  checkUserLimit,
+  getUserByEmail,
+  isSubscriptionManager,
+} from "./subscriptionUtils";
+import { isLocalSandbox } from "./webhookCallback";
+import { createUserFromInvite } from "./workspaceInvites";
+
+/**
+ * Single sign-on through a subscription's identity provider (OpenID Connect).
+ *
+ * A subscription configures one identity provider for one email domain. The
+ * configuration becomes active once the domain is verified with a DNS TXT record;
+ * from then on users of that domain can sign in through the provider, get created
+ * on first login and join the configured workspaces (just-in-time provisioning).
+ */
+
+export const SSO_CONFIG_SK = "config";
+export const DEFAULT_OIDC_SCOPES = "openid email profile";
+const DOMAIN_VERIFICATION_PREFIX = "helpmaton-verification=";
+const OIDC_REQUEST_TIMEOUT_MS = 10_000;
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+export type OidcProviderMetadata = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+};
+
+export const getSsoConfigPk = (subscriptionId: string) =>
+  `sso-configs/${subscriptionId}`;
+
+/**
+ * Lowercase, trim and validate an email domain (a leading "@" is accepted)
+ */
+export function normalizeSsoDomain(domain: string): string {
+  const normalized = domain.trim().toLowerCase().replace(/^@/, "");
+  if (!DOMAIN_PATTERN.test(normalized)) {
+    throw badRequest(`Invalid domain: ${domain}`);
+  }
+  return normalized;
+}
+
+export function getEmailDomain(email: string): string | undefined {
+  const at = email.lastIndexOf("@");
+  if (at < 1 || at === email.length - 1) {
+    return undefined;
+  }
+  return email
+    .slice(at + 1)
+    .trim()
+    .toLowerCase();
+}
+
+export function generateDomainVerificationToken(): string {
+  return randomBytes(16).toString("hex");
+}
+
+/**
+ * Value of the DNS TXT record that proves ownership of the configured domain
+ */
+export function getDomainVerificationRecord(config: SsoConfigRecord): string {
+  return `${DOMAIN_VERIFICATION_PREFIX}${config.domainVerificationToken}`;
+}
+
+export const isSsoConfigActive = (config: SsoConfigRecord): boolean =>
+  config.enabled && !!config.domainVerifiedAt;
+
+export async function getSsoConfig(
+  subscriptionId: string
+): Promise<SsoConfigRecord | undefined> {
+  const db = await database();
+  return db["sso-config"].get(getSsoConfigPk(subscriptionId), SSO_CONFIG_SK);
+}
+
+async function getSsoConfigsByDomain(
+  domain: string
+): Promise<SsoConfigRecord[]> {
+  const db = await database();
+  const result = await db["sso-config"].query({
+    IndexName: "byDomain",
+    KeyConditionExpression: "#domain = :domain",
+    ExpressionAttributeNames: { "#domain": "domain" },
+    ExpressionAttributeValues: { ":domain": domain },
+  });
+  return result.items;
+}
+
+/**
+ * The enabled, verified configuration handling the email's domain, if any
+ */
+export async function getActiveSsoConfigForEmail(
+  email: string
+): Promise<SsoConfigRecord | undefined> {
+  const domain = getEmailDomain(email);
+  if (!domain) {
+    return undefined;
+  }
+  const configs = await getSsoConfigsByDomain(domain);
+  return configs.find(isSsoConfigActive);
+}
+
+/**
+ * Whether the user must sign in through SSO: the email's domain has an active
+ * configuration with enforcement on. Managers of the configuring subscription
+ * keep email and passkey login so a broken identity provider cannot lock them out.
+ */
+export async function isSsoRequiredForEmail(email: string): Promise<boolean> {
+  const config = await getActiveSsoConfigForEmail(email);
+  if (!config?.enforceSso) {
+    return false;
+  }
+  const user = await getUserByEmail(email);
+  if (
+    user &&
+    (await isSubscriptionManager(user.userId, config.subscriptionId))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Looks up the verification TXT record and marks the domain as verified.
+ * A domain can only be verified by one subscription at a time.
+ */
+export async function verifySsoDomain(
+  config: SsoConfigRecord
+): Promise<SsoConfigRecord> {
+  const expected = getDomainVerificationRecord(config);
+  let records: string[][] = [];
+  try {
+    records = await resolveTxt(config.domain);
+  } catch (error) {
+    console.warn("[sso] TXT lookup failed:", {
+      domain: config.domain,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  // Long TXT records are split into several strings
+  const found = records.some((chunks) => chunks.join("").trim() === expected);
+  if (!found) {
+    throw badRequest(
+      `TXT record "${expected}" not found on ${config.domain}. DNS changes can take a while to propagate.`
+    );
+  }
+
+  const claimedElsewhere = (await getSsoConfigsByDomain(config.domain)).some(
+    (other) =>
+      other.subscriptionId !== config.subscriptionId && !!other.domainVerifiedAt
+  );
+  if (claimedElsewhere) {
+    throw conflict(
+      `${config.domain} is already verified by another subscription`
+    );
+  }
+
+  const db = await database();
+  const now = new Date().toISOString();
+  return db["sso-config"].update({
+    pk: config.pk,
+    sk: SSO_CONFIG_SK,
+    domainVerifiedAt: now,
+    updatedAt: now,
+  });
+}
+
+const getFrontendUrl = () =>
+  process.env.FRONTEND_URL || "http://localhost:5173";
+
+/**
+ * Where to send the user after login: the given URL when it points to the
+ * frontend, the frontend root otherwise (no open redirects)
+ */
+export function resolveSsoReturnUrl(callbackUrl: unknown): string {
+  const frontendUrl = new URL(getFrontendUrl());
+  if (typeof callbackUrl === "string" && callbackUrl) {
+    try {
+      const url = new URL(callbackUrl, frontendUrl);
+      if (url.origin === frontendUrl.origin) {
+        return url.toString();
+      }
+    } catch {
+      // fall through to the frontend root
+    }
+  }
+  return frontendUrl.toString();
+}
+
+/**
+ * Frontend page that finishes the login with signIn("sso", { token }) or shows the error
+ */
+export function buildSsoCompletionUrl(
+  params: { token: string; callbackUrl: string } | { error: string }
+): string {
+  const url = new URL("/auth/sso", getFrontendUrl());
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
+export function getSsoRedirectUri(): string {
+  return `${getOAuthRedirectBaseUrl()}/api/user/sso/callback`;
+}
+
+const trimTrailingSlashes = (url: string) => url.replace(/\/+$/, "");
+
+/**
+ * Refuses identity provider URLs whose host is local or resolves to a non-public
+ * address (allowed in the local sandbox). The issuer and the URLs of its discovery
+ * document are supplied by subscription managers, so each is checked before use.
+ */
+async function assertPublicOidcUrl(url: string): Promise<void> {
+  if (isLocalSandbox()) {
+    return;
+  }
+  try {
+    await assertPublicHost(new URL(url).hostname);
+  } catch (error) {
+    throw badRequest(
+      error instanceof NonPublicAddressError
+        ? `Identity provider URL ${url} must point to a public host`
+        : `Could not reach the identity provider at ${url}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+    );
+  }
+}
+
+/**
+ * Fetches the OpenID Provider metadata of the configured issuer
+ */
+export async function discoverOidcProvider(
+  issuer: string
+): Promise<OidcProviderMetadata> {
+  const discoveryUrl = `${trimTrailingSlashes(issuer)}/.well-known/openid-configuration`;
+  await assertPublicOidcUrl(discoveryUrl);
+  let response: Response;
+  try {
+    response = await fetch(discoveryUrl, {
+      headers: { Accept: "application/json" },
+      // A redirect could point to an internal address
+      redirect: "manual",
+      signal: AbortSignal.timeout(OIDC_REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw badRequest(
+      `Could not reach the identity provider at ${discoveryUrl}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+  if (!response.ok) {
+    throw badRequest(
+      `Identity provider discovery failed (${response.status}) at ${discoveryUrl}`
+    );
+  }
+  const metadata = (await response.json()) as Partial<OidcProviderMetadata>;
+  if (
+    typeof metadata.issuer !== "string" ||
+    typeof metadata.authorization_endpoint !== "string" ||
+    typeof metadata.token_endpoint !== "string" ||
+    typeof metadata.jwks_uri !== "string"
+  ) {
+    throw badRequest("Identity provider discovery document is incomplete");
+  }
+  if (trimTrailingSlashes(metadata.issuer) !== trimTrailingSlashes(issuer)) {
+    throw badRequest(
+      `Identity provider reports issuer ${metadata.issuer}, expected ${issuer}`
+    );
+  }
+  return metadata as OidcProviderMetadata;
+}
+
+export function createPkcePair(): {
+  codeVerifier: string;
+  codeChallenge: string;
+} {
+  const codeVerifier = randomBytes(32).toString("base64url");
+  const codeChallenge = createHash("sha256")
+    .update(codeVerifier)
+    .digest("base64url");
+  return { codeVerifier, codeChallenge };
+}
+
+export function buildOidcAuthorizationUrl(
+  metadata: OidcProviderMetadata,
+  config: SsoConfigRecord,
+  params: {
+    state: string;
+    nonce: string;
+    codeChallenge: string;
+    loginHint?: string;
+  }
+): string {
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", config.clientId);
+  url.searchParams.set("redirect_uri", getSsoRedirectUri());
+  url.searchParams.set("scope", config.scopes || DEFAULT_OIDC_SCOPES);
+  url.searchParams.set("state", params.state);
+  url.searchParams.set("nonce", params.nonce);
+  url.searchParams.set("code_challenge", params.codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+  if (params.loginHint) {
+    url.searchParams.set("login_hint", params.loginHint);
+  }
+  return url.toString();
+}
+
+/**
+ * Exchanges the authorization code and verifies the ID token (signature against the
+ * provider's JWKS, issuer, audience and nonce). Returns the verified email address,
+ * which must belong to the configured domain.
+ */
+export async function completeOidcLogin(
+  metadata: OidcProviderMetadata,
+  config: SsoConfigRecord,
+  params: { code: string; codeVerifier: string; nonce: string }
+): Promise<{ email: string }> {
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code: params.code,
+    redirect_uri: getSsoRedirectUri(),
+    code_verifier: params.codeVerifier,
+  });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  const authMethods = metadata.token_endpoint_auth_methods_supported;
+  if (
+    authMethods &&
+    !authMethods.includes("client_secret_basic") &&
+    authMethods.includes("client_secret_post")
+  ) {
+    body.set("client_id", config.clientId);
+    body.set("client_secret", config.clientSecret);
+  } else {
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+
+  await assertPublicOidcUrl(metadata.token_endpoint);
+  const response = await fetch(metadata.token_endpoint, {
+    method: "POST",
+    headers,
+    body: body.toString(),
+    // A redirect could point to an internal address
+    redirect: "manual",
+    signal: AbortSignal.timeout(OIDC_REQUEST_TIMEOUT_MS),
+  });
+  const tokens = (await response.json().catch(() => ({}))) as {
+    id_token?: unknown;
+    error?: string;
+    error_description?: string;
+  };
+  if (!response.ok || typeof tokens.id_token !== "string") {
+    throw unauthorized(
+      `Identity provider token exchange failed: ${
+        tokens.error_description || tokens.error || response.status
+      }`
+    );
+  }
+
+  // jose does not follow redirects when fetching the key set
+  await assertPublicOidcUrl(metadata.jwks_uri);
+  let payload: Record<string, unknown>;
+  try {
+    ({ payload } = await jwtVerify(
+      tokens.id_token,
+      createRemoteJWKSet(new URL(metadata.jwks_uri)),
+      { issuer: metadata.issuer, audience: config.clientId }
+    ));
+  } catch (error) {
+    throw unauthorized(
+      `Invalid ID token: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  if (payload.nonce !== params.nonce) {
+    throw unauthorized("Invalid ID token: nonce mismatch");
+  }
+  if (typeof payload.email !== "string" || !payload.email) {
+    throw unauthorized(
+      'The identity provider did not return an email address. Make sure the "email" scope is granted.'
+    );
+  }
+  if (payload.email_verified === false) {
+    throw unauthorized("The identity provider has not verified this email");
+  }
+  const email = payload.email.toLowerCase().trim();
+  if (getEmailDomain(email) !== config.domain) {
+    throw unauthorized(`Only ${config.domain} accounts can sign in here`);
+  }
+  return { email };
+}
+
+/**
+ * Finds or creates the user and grants the configured permission on the
+ * provisioning workspaces the user has no access to yet. Existing permissions are
+ * left untouched. Workspaces that no longer belong to the subscription are skipped.
+ */
+export async function provisionSsoUser(
+  config: SsoConfigRecord,
+  email: string
+): Promise<string> {
+  const userId = await createUserFromInvite(email);
+  const userRef = `users/${userId}`;
+  const db = await database();
+
+  for (const workspaceId of config.provisionWorkspaceIds) {
+    const workspacePk = `workspaces/${workspaceId}`;
+    const workspace = await db.workspace.get(workspacePk, "workspace");
+    if (!workspace || workspace.subscriptionId !== config.subscriptionId) {
+      continue;
+    }
+    const existingLevel = await getUserAuthorizationLevelForResource(
+      workspacePk,
+      userRef
+    );
+    if (existingLevel !== null) {
+      continue;
+    }
+    try {
+      await checkUserLimit(config.subscriptionId, email);
+    } catch (error) {
+      // Sign-in still succeeds; the user just does not join more workspaces
+      console.warn("[sso] Skipping workspace provisioning:", {
+        subscriptionId: config.subscriptionId,
+        workspaceId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      break;
+    }
+    await giveAuthorization(
+      workspacePk,
+      userRef,
+      config.defaultPermissionLevel,
+      config.updatedBy ?? config.createdBy ?? userRef
+    );
+  }
+
+  return userId;
+}
@@ -0,0 +1,118 @@
+/**
+ * SSO login state storage via signed JWT in a cookie.
+ * Carries the OIDC state, nonce and PKCE verifier from the login redirect to the
+ * identity provider callback (no table write for abandoned logins).
+ */
+
+import { SignJWT, jwtVerify } from "jose";
+
+const STATE_EXPIRY_SECONDS = 10 * 60; // 10 minutes
+const COOKIE_NAME = "sso_state";
+const COOKIE_PATH = "/api/user/sso";
+
+export type SsoLoginState = {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  subscriptionId: string;
+  callbackUrl: string;
+};
+
+function getSecret(): Uint8Array {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_SECRET is required for SSO state cookie");
+  }
+  return new TextEncoder().encode(secret);
+}
+
+function isSecureCookie(): boolean {
+  const frontendUrl = process.env.FRONTEND_URL || "http://localhost:5173";
+  return frontendUrl.startsWith("https");
+}
+
+/**
+ * Clear the SSO state cookie on the response so the callback cannot be replayed.
+ */
+export function clearSsoStateCookie(res: {
+  setHeader: (name: string, value: string) => void;
+}): void {
+  const cookieParts = [
+    `${COOKIE_NAME}=; Max-Age=0; Path=${COOKIE_PATH}; HttpOnly; SameSite=Lax`,
+  ];
+  if (isSecureCookie()) {
+    cookieParts.push("Secure");
+  }
+  res.setHeader("Set-Cookie", cookieParts.join("; "));
+}
+
+/**
+ * Create a signed JWT containing the login state and set it as a cookie on the response.
+ * SameSite=Lax so the cookie is sent on the top-level redirect back from the identity provider.
+ */
+export async function setSsoStateCookie(
+  res: { setHeader: (name: string, value: string) => void },
+  loginState: SsoLoginState
+): Promise<void> {
+  const now = Math.floor(Date.now() / 1000);
+  const token = await new SignJWT({ ...loginState, purpose: "sso-state" })
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt(now)
+    .setExpirationTime(now + STATE_EXPIRY_SECONDS)
+    .setIssuer("helpmaton")
+    .setAudience("helpmaton-sso-state")
+    .sign(getSecret());
+
+  const cookieParts = [
+    `${COOKIE_NAME}=${token}`,
+    "HttpOnly",
+    `Path=${COOKIE_PATH}`,
+    `Max-Age=${STATE_EXPIRY_SECONDS}`,
+    "SameSite=Lax",
+  ];
+  if (isSecureCookie()) {
+    cookieParts.push("Secure");
+  }
+  res.setHeader("Set-Cookie", cookieParts.join("; "));
+}
+
+/**
+ * Read and verify the login state from the Cookie header. Returns null if missing/invalid.
+ */
+export async function getSsoStateFromCookie(
+  cookieHeader: string | undefined
+): Promise<SsoLoginState | null> {
+  if (!cookieHeader) {
+    return null;
+  }
+  const match = cookieHeader.match(new RegExp(`${COOKIE_NAME}=([^;]+)`, "i"));
+  const token = match?.[1]?.trim();
+  if (!token) {
+    return null;
+  }
+  try {
+    const { payload } = await jwtVerify(token, getSecret(), {
+      issuer: "helpmaton",
+      audience: "helpmaton-sso-state",
+    });
+    if (
+      payload.purpose === "sso-state" &&
+      typeof payload.state === "string" &&
+      typeof payload.nonce === "string" &&
+      typeof payload.codeVerifier === "string" &&
+      typeof payload.subscriptionId === "string" &&
+      typeof payload.callbackUrl === "string"
+    ) {
+      return {
+        state: payload.state,
+        nonce: payload.nonce,
+        codeVerifier: payload.codeVerifier,
+        subscriptionId: payload.subscriptionId,
+        callbackUrl: payload.callbackUrl,
+      };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,126 @@
+import { boomify } from "@hapi/boom";
+import type { ModelMessage } from "ai";
+import { Output, jsonSchema } from "ai";
+import { z } from "zod";
+
+export const STRUCTURED_OUTPUT_INVALID = "STRUCTURED_OUTPUT_INVALID";
+
+const MAX_OUTPUT_SCHEMA_LENGTH = 16 * 1024;
+
+/**
+ * JSON Schema describing the object an agent must return in structured-output mode
+ */
+export type OutputJsonSchema = Record<string, unknown>;
+
+export type StructuredOutputValidation =
+  | { success: true; data: unknown }
+  | { success: false; error: string };
+
+function toZodSchema(schema: OutputJsonSchema): z.ZodType {
+  return z.fromJSONSchema(schema as Parameters<typeof z.fromJSONSchema>[0]);
+}
+
+/**
+ * Validate a JSON Schema supplied by an agent config or a caller.
+ * The root must be an object schema (required by provider structured-output modes)
+ * and every keyword must be supported by the zod converter used for validation.
+ * @throws Error with a user-facing message when the schema is not acceptable
+ */
+export function parseOutputSchema(raw: unknown): OutputJsonSchema {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error("outputSchema must be a JSON Schema object");
+  }
+  const schema = raw as OutputJsonSchema;
+  if (JSON.stringify(schema).length > MAX_OUTPUT_SCHEMA_LENGTH) {
+    throw new Error(
+      `outputSchema must be at most ${MAX_OUTPUT_SCHEMA_LENGTH} characters`
+    );
+  }
+  if (schema.type !== "object") {
+    throw new Error('outputSchema must have "type": "object" at the root');
+  }
+  try {
+    toZodSchema(schema);
+  } catch (error) {
+    throw new Error(
+      `outputSchema is not a supported JSON Schema: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+  return schema;
+}
+
+/**
+ * Output specification for generateText that asks the model for JSON matching the schema.
+ * Parsing is left to validateStructuredOutput: the AI SDK throws when the output does
+ * not match, which would drop an already billed generation instead of allowing a retry.
+ */
+export function buildStructuredOutputSpec(
+  schema: OutputJsonSchema
+): Output.Output<string, string> {
+  return {
+    ...Output.object({ schema: jsonSchema(schema) }),
+    parseCompleteOutput: async ({ text }) => text,
+    parsePartialOutput: async () => undefined,
+  };
+}
+
+function stripCodeFence(text: string): string {
+  const match = text.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/i);
+  return match ? match[1] : text.trim();
+}
+
+/**
+ * Parse the model's final text as JSON and validate it against the schema
+ */
+export function validateStructuredOutput(
+  schema: OutputJsonSchema,
+  text: string
+): StructuredOutputValidation {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripCodeFence(text));
+  } catch {
+    return { success: false, error: "Response is not valid JSON" };
+  }
+  const result = toZodSchema(schema).safeParse(value);
+  if (!result.success) {
+    return { success: false, error: z.prettifyError(result.error) };
+  }
+  return { success: true, data: result.data };
+}
+
+/**
+ * Follow-up message asking the model to correct an output that failed validation
+ */
+export function buildStructuredOutputRetryMessage(
+  validationError: string
+): ModelMessage {
+  return {
+    role: "user",
+    content:
+      "Your previous response did not match the required JSON Schema:\n" +
+      `${validationError}\n\n` +
+      "Reply again with only a JSON value that matches the schema.",
+  };
+}
+
+export function createStructuredOutputError(validationError: string): Error {
+  const error = new Error(
+    `Agent response did not match the output schema after a retry: ${validationError}`
+  ) as Error & { code?: string };
+  error.code = STRUCTURED_OUTPUT_INVALID;
+  const boomErr = boomify(error, { statusCode: 422 });
+  (boomErr.output.payload as Record<string, unknown>).code =
+    STRUCTURED_OUTPUT_INVALID;
+  return boomErr;
+}
+
+export function isStructuredOutputError(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { code?: unknown }).code === STRUCTURED_OUTPUT_INVALID
+  );
+}
@@ -0,0 +1,93 @@
+const TEAMS_REQUEST_TIMEOUT_MS = 10000;
+const BOT_FRAMEWORK_SCOPE = "https://api.botframework.com/.default";
+// Multi-tenant bots authenticate against the shared Bot Framework tenant
+const BOT_FRAMEWORK_TENANT = "botframework.com";
+// Refresh tokens a minute before they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+// Cached per Lambda container, keyed by app ID and tenant
+const tokenCache = new Map<string, CachedToken>();
+
+/**
+ * Get a Bot Connector access token for an Azure Bot app registration
+ * using the client credentials flow.
+ */
+export async function getTeamsAccessToken(
+  appId: string,
+  appPassword: string,
+  tenantId?: string
+): Promise<string> {
+  const tenant = tenantId || BOT_FRAMEWORK_TENANT;
+  const cacheKey = `${appId}:${tenant}`;
+  const cached = tokenCache.get(cacheKey);
+  if (cached && cached.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+    return cached.accessToken;
+  }
+
+  const response = await fetch(
+    `https://login.microsoftonline.com/${encodeURIComponent(tenant)}/oauth2/v2.0/token`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "client_credentials",
+        client_id: appId,
+        client_secret: appPassword,
+        scope: BOT_FRAMEWORK_SCOPE,
+      }).toString(),
+      signal: AbortSignal.timeout(TEAMS_REQUEST_TIMEOUT_MS),
+    }
+  );
+
+  const data = (await response.json().catch(() => ({}))) as {
+    access_token?: string;
+    expires_in?: number;
+    error_description?: string;
+  };
+  if (!response.ok || !data.access_token) {
+    throw new Error(
+      `Failed to get Teams access token: ${
+        data.error_description || `HTTP ${response.status}`
+      }`
+    );
+  }
+
+  tokenCache.set(cacheKey, {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + (data.expires_in ?? 3600) * 1000,
+  });
+  return data.access_token;
+}
+
+/**
+ * Call the Bot Connector REST API of a Teams conversation
+ * @throws Error with the response status and body when the call fails
+ */
+export async function callTeamsConnector<T = unknown>(
+  accessToken: string,
+  method: "POST" | "PUT",
+  serviceUrl: string,
+  path: string,
+  body: unknown
+): Promise<T> {
+  const response = await fetch(`${serviceUrl.replace(/\/$/, "")}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(TEAMS_REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "Unknown error");
+    throw new Error(`Teams API ${method} ${path} failed: ${response.status} ${errorText}`);
+  }
+  return (await response.json().catch(() => ({}))) as T;
+}
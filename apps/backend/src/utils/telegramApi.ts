@@ -0,0 +1,99 @@
+import { randomBytes } from "crypto";
+
+const TELEGRAM_API_BASE = "https://api.telegram.org";
+const TELEGRAM_REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Telegram bot tokens look like "123456789:AAE..." (bot ID, colon, secret)
+ */
+export const TELEGRAM_BOT_TOKEN_PATTERN = /^\d+:[A-Za-z0-9_-]{30,}$/;
+
+export interface TelegramBotInfo {
+  id: number;
+  username: string;
+}
+
+/**
+ * Call a Telegram Bot API method
+ * @throws Error with Telegram's description when the call is not ok
+ */
+export async function callTelegramApi<T = unknown>(
+  botToken: string,
+  method: string,
+  params: Record<string, unknown> = {}
+): Promise<T> {
+  const response = await fetch(`${TELEGRAM_API_BASE}/bot${botToken}/${method}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(params),
+    signal: AbortSignal.timeout(TELEGRAM_REQUEST_TIMEOUT_MS),
+  });
+
+  const data = (await response.json().catch(() => ({}))) as {
+    ok?: boolean;
+    result?: T;
+    description?: string;
+  };
+  if (!response.ok || !data.ok) {
+    throw new Error(
+      `Telegram ${method} failed: ${data.description || `HTTP ${response.status}`}`
+    );
+  }
+  return data.result as T;
+}
+
+/**
+ * Secret sent back by Telegram in the X-Telegram-Bot-Api-Secret-Token header
+ * (1-256 characters, A-Z, a-z, 0-9, _ and -)
+ */
+export function generateTelegramSecretToken(): string {
+  return randomBytes(32).toString("hex");
+}
+
+export async function getTelegramBotInfo(
+  botToken: string
+): Promise<TelegramBotInfo> {
+  const result = await callTelegramApi<{ id: number; username?: string }>(
+    botToken,
+    "getMe"
+  );
+  if (!result.username) {
+    throw new Error("Telegram getMe failed: bot has no username");
+  }
+  return { id: result.id, username: result.username };
+}
+
+/**
+ * Point the bot's updates at our webhook URL
+ */
+export async function setTelegramWebhook(
+  botToken: string,
+  webhookUrl: string,
+  secretToken: string
+): Promise<void> {
+  await callTelegramApi(botToken, "setWebhook", {
+    url: webhookUrl,
+    secret_token: secretToken,
+    allowed_updates: ["message"],
+    drop_pending_updates: true,
+  });
+}
+
+/**
+ * Remove the bot's webhook if it still points at the given URL.
+ * The same bot may have been re-registered by another integration (e.g. after
+ * a workspace import), in which case its webhook is left alone.
+ */
+export async function releaseTelegramWebhook(
+  botToken: string,
+  webhookUrl: string
+): Promise<void> {
+  const info = await callTelegramApi<{ url?: string }>(
+    botToken,
+    "getWebhookInfo"
+  );
+  if (info.url !== webhookUrl) {
+    return;
+  }
+  await callTelegramApi(botToken, "deleteWebhook");
+}
@@ -2,6 +2,12 @@ import type { ModelMessage } from "ai";
 
 import { calculateTokenCost, supportsReasoningTokens } from "./pricing";
 
+/**
+ * Factor applied to estimateInputTokens before comparing with the model's context limit.
+ * Real tokenizers often use fewer chars/token than 4, so the estimate can be too low.
+ */
+export const CONTEXT_ESTIMATE_SAFETY_FACTOR = 1.5;
+
 /**
  * Estimate input tokens from messages
  * Uses character count / 4 as a rough estimate (most models use ~4 characters per token)
@@ -1,14 +1,17 @@
 import {
   createHash,
   randomBytes,
+  randomUUID,
   scrypt,
   timingSafeEqual,
 } from "crypto";
 import { promisify } from "util";
 
-import { unauthorized } from "@hapi/boom";
+import { isBoom, unauthorized } from "@hapi/boom";
 import { EncryptJWT, SignJWT, jwtVerify } from "jose";
 
+import { database } from "../tables";
+
 function getDefined<T>(value: T | undefined, message: string): T {
   if (value === undefined) {
     throw new Error(message);
@@ -303,3 +306,84 @@ export async function verifyPasskeyLoginToken(
     throw unauthorized("Invalid or expired passkey login token");
   }
 }
+
+const SSO_LOGIN_TOKEN_EXPIRY_SECONDS = 5 * 60; // 5 minutes
+
+/**
+ * Generate a one-time JWT for SSO login. After the identity provider callback is verified,
+ * the backend issues this token; the frontend calls signIn("sso", { token }) to create a session.
+ * The token travels in the callback redirect URL, so its jti is consumed on first use.
+ */
+export async function generateSsoLoginToken(
+  userId: string,
+  subscriptionId: string
+): Promise<string> {
+  const secret = getJwtSecret();
+  const now = Math.floor(Date.now() / 1000);
+  return new SignJWT({ userId, subscriptionId, purpose: "sso-login" })
+    .setProtectedHeader({ alg: "HS256" })
+    .setJti(randomUUID())
+    .setIssuedAt(now)
+    .setExpirationTime(now + SSO_LOGIN_TOKEN_EXPIRY_SECONDS)
+    .setIssuer("helpmaton")
+    .setAudience("helpmaton-sso")
+    .sign(secret);
+}
+
+/**
+ * Mark an SSO login token as used. The conditional create fails when the token
+ * was already redeemed; the record expires together with the token.
+ */
+async function consumeSsoLoginToken(
+  jti: string,
+  expiresAt: number
+): Promise<void> {
+  const db = await database();
+  try {
+    await db["next-auth"].create({
+      pk: `sso-login-tokens/${jti}`,
+      sk: "consumed",
+      expires: expiresAt,
+    });
+  } catch (error) {
+    if (isBoom(error) && error.output.statusCode === 409) {
+      throw unauthorized("SSO login token already used");
+    }
+    throw error;
+  }
+}
+
+/**
+ * Verify a one-time SSO login token and return userId and the subscription whose
+ * identity provider authenticated the user. A token can only be redeemed once.
+ */
+export async function verifySsoLoginToken(
+  token: string
+): Promise<{ userId: string; subscriptionId: string }> {
+  try {
+    const secret = getJwtSecret();
+    const { payload } = await jwtVerify(token, secret, {
+      issuer: "helpmaton",
+      audience: "helpmaton-sso",
+    });
+    if (
+      payload.purpose === "sso-login" &&
+      typeof payload.userId === "string" &&
+      typeof payload.subscriptionId === "string" &&
+      typeof payload.jti === "string" &&
+      typeof payload.exp === "number"
+    ) {
+      await consumeSsoLoginToken(payload.jti, payload.exp);
+      return {
+        userId: payload.userId,
+        subscriptionId: payload.subscriptionId,
+      };
+    }
+    throw unauthorized("Invalid SSO login token");
+  } catch (error) {
+    if (error && typeof error === "object" && "isBoom" in error) {
+      throw error;
+    }
+    throw unauthorized("Invalid or expired SSO login token");
+  }
+}
@@ -0,0 +1,359 @@
+import { randomUUID } from "crypto";
+
+import { queues } from "@architect/functions";
+import { conflict, resourceGone } from "@hapi/boom";
+import { z } from "zod";
+
+import type {
+  AgentRecord,
+  DatabaseSchema,
+  ToolApprovalRecord,
+} from "../tables/schema";
+
+import { sendNotification } from "./notifications";
+import { Sentry, ensureError } from "./sentry";
+
+export const TOOL_APPROVAL_QUEUE_NAME = "tool-approval-queue";
+export const TOOL_APPROVAL_SK = "approval";
+export const TOOL_APPROVAL_DEFAULT_TIMEOUT_MINUTES = 24 * 60;
+export const TOOL_APPROVAL_MAX_TIMEOUT_MINUTES = 7 * 24 * 60;
+const TOOL_APPROVAL_TTL_SECONDS = 30 * 24 * 60 * 60;
+const TOOL_APPROVAL_ARGS_PREVIEW_MAX_LENGTH = 1000;
+const TOOL_APPROVAL_RESULT_PREVIEW_MAX_LENGTH = 500;
+
+/**
+ * Built-in tools that can require approval: the ones with side effects
+ * outside the conversation. MCP server tools are configured per server.
+ */
+export const APPROVABLE_BUILT_IN_TOOL_NAMES = [
+  "send_email",
+  "send_notification",
+  "call_agent",
+  "call_agent_async",
+  "generate_image",
+] as const;
+
+export const ToolApprovalQueueMessageSchema = z
+  .object({
+    workspaceId: z.string(),
+    agentId: z.string(),
+    approvalId: z.string(),
+  })
+  .strict();
+
+export type ToolApprovalQueueMessage = z.infer<
+  typeof ToolApprovalQueueMessageSchema
+>;
+
+export type ToolApprovalPolicy = NonNullable<AgentRecord["toolApproval"]>;
+export type ToolApprovalStatus = ToolApprovalRecord["status"];
+/** Bot thread a run came from, where the answer of the resumed run is posted */
+export type ToolApprovalOrigin = NonNullable<ToolApprovalRecord["origin"]>;
+/** Decisions that end a pending request; "expired" is applied when nobody decides in time */
+export type ToolApprovalDecisionStatus = Exclude<ToolApprovalStatus, "pending">;
+
+export const buildToolApprovalPk = (
+  workspaceId: string,
+  agentId: string,
+  approvalId: string
+): string => `tool-approvals/${workspaceId}/${agentId}/${approvalId}`;
+
+/**
+ * Whether any tool of the agent requires approval
+ */
+export function hasToolApprovalRequirements(
+  policy: ToolApprovalPolicy | undefined
+): boolean {
+  if (!policy) {
+    return false;
+  }
+  return (
+    (policy.toolNames?.length ?? 0) > 0 ||
+    Object.values(policy.mcpServerToolNames ?? {}).some(
+      (toolNames) => toolNames.length > 0
+    )
+  );
+}
+
+
+/**
+ * Records a pending approval request for a tool call the model proposed
+ */
+export async function createToolApproval(
+  db: DatabaseSchema,
+  params: {
+    workspaceId: string;
+    agentId: string;
+    conversationId?: string;
+    toolCallId: string;
+    toolName: string;
+    mcpServerId?: string;
+    args: Record<string, unknown>;
+    policy: ToolApprovalPolicy | undefined;
+    notificationChannelId?: string;
+    origin?: ToolApprovalOrigin;
+  }
+): Promise<ToolApprovalRecord> {
+  const approvalId = randomUUID();
+  const now = new Date();
+  const timeoutMinutes =
+    params.policy?.timeoutMinutes ?? TOOL_APPROVAL_DEFAULT_TIMEOUT_MINUTES;
+  return db["tool-approval"].create({
+    pk: buildToolApprovalPk(params.workspaceId, params.agentId, approvalId),
+    sk: TOOL_APPROVAL_SK,
+    workspaceId: params.workspaceId,
+    agentId: params.agentId,
+    approvalId,
+    ...(params.conversationId && { conversationId: params.conversationId }),
+    toolCallId: params.toolCallId,
+    toolName: params.toolName,
+    ...(params.mcpServerId && { mcpServerId: params.mcpServerId }),
+    args: params.args,
+    status: "pending",
+    expiresAt: new Date(
+      now.getTime() + timeoutMinutes * 60 * 1000
+    ).toISOString(),
+    ...(params.notificationChannelId && {
+      notificationChannelId: params.notificationChannelId,
+    }),
+    ...(params.origin && { origin: params.origin }),
+    expires: Math.floor(now.getTime() / 1000) + TOOL_APPROVAL_TTL_SECONDS,
+  });
+}
+
+export async function getToolApprovalOrThrow(
+  db: DatabaseSchema,
+  workspaceId: string,
+  agentId: string,
+  approvalId: string
+): Promise<ToolApprovalRecord> {
+  const approval = await db["tool-approval"].get(
+    buildToolApprovalPk(workspaceId, agentId, approvalId),
+    TOOL_APPROVAL_SK
+  );
+  if (!approval) {
+    throw resourceGone("Tool approval request not found");
+  }
+  return approval;
+}
+
+/**
+ * Decides a pending request. Throws a conflict when it was already decided,
+ * so a request is resumed at most once.
+ */
+export async function decideToolApproval(
+  db: DatabaseSchema,
+  params: {
+    workspaceId: string;
+    agentId: string;
+    approvalId: string;
+    status: ToolApprovalDecisionStatus;
+    decidedBy: string;
+    approvedArgs?: Record<string, unknown>;
+    reason?: string;
+  }
+): Promise<ToolApprovalRecord> {
+  const pk = buildToolApprovalPk(
+    params.workspaceId,
+    params.agentId,
+    params.approvalId
+  );
+  return db["tool-approval"].atomicUpdate(
+    pk,
+    TOOL_APPROVAL_SK,
+    async (current) => {
+      if (!current) {
+        throw resourceGone("Tool approval request not found");
+      }
+      if (current.status !== "pending") {
+        throw conflict(`Tool approval request is already ${current.status}`);
+      }
+      return {
+        pk,
+        status: params.status,
+        decidedAt: new Date().toISOString(),
+        decidedBy: params.decidedBy,
+        ...(params.approvedArgs && { approvedArgs: params.approvedArgs }),
+        ...(params.reason && { reason: params.reason }),
+      };
+    }
+  );
+}
+
+/**
+ * Marks a decided request as picked up by the queue. Returns undefined when
+ * another delivery of the same message got there first.
+ */
+export async function claimToolApprovalResume(
+  db: DatabaseSchema,
+  approval: ToolApprovalRecord
+): Promise<ToolApprovalRecord | undefined> {
+  let claimed = false;
+  const updated = await db["tool-approval"].atomicUpdate(
+    approval.pk,
+    TOOL_APPROVAL_SK,
+    async (current) => {
+      if (!current) {
+        throw resourceGone("Tool approval request not found");
+      }
+      if (current.status === "pending" || current.resumedAt) {
+        claimed = false;
+        return { pk: approval.pk };
+      }
+      claimed = true;
+      return { pk: approval.pk, resumedAt: new Date().toISOString() };
+    }
+  );
+  return claimed ? updated : undefined;
+}
+
+/**
+ * Queues running (or skipping) the tool of a decided request and resuming its conversation
+ */
+export async function enqueueToolApprovalResume(
+  approval: Pick<ToolApprovalRecord, "workspaceId" | "agentId" | "approvalId">
+): Promise<void> {
+  const payload: ToolApprovalQueueMessage = {
+    workspaceId: approval.workspaceId,
+    agentId: approval.agentId,
+    approvalId: approval.approvalId,
+  };
+  await queues.publish({
+    name: TOOL_APPROVAL_QUEUE_NAME,
+    payload,
+  });
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length <= maxLength
+    ? value
+    : `${value.slice(0, maxLength)}…`;
+}
+
+export function buildToolResultPreview(result: unknown): string {
+  const text =
+    typeof result === "string" ? result : JSON.stringify(result) ?? "";
+  return truncate(text, TOOL_APPROVAL_RESULT_PREVIEW_MAX_LENGTH);
+}
+
+/**
+ * Tool result the model sees while the request is pending. The run ends with
+ * the model telling the user; the conversation resumes once it is decided.
+ */
+export function buildPendingToolApprovalResult(
+  approval: ToolApprovalRecord
+): string {
+  return `Approval required: this ${approval.toolName} call was NOT executed yet. A workspace member has to approve it first (approval request ${approval.approvalId}, expires ${approval.expiresAt}). Do not call ${approval.toolName} again for the same action. Tell the user the action is waiting for approval and that the conversation will continue once it is approved or rejected.`;
+}
+
+/**
+ * Result passed to the model when the conversation resumes after a rejection or timeout
+ */
+export function buildSkippedToolApprovalResult(
+  approval: ToolApprovalRecord
+): string {
+  if (approval.status === "expired") {
+    return `The ${approval.toolName} call was not executed: the approval request expired without a decision.`;
+  }
+  return `The ${approval.toolName} call was not executed: a workspace member rejected it.${
+    approval.reason ? ` Reason: ${approval.reason}` : ""
+  }`;
+}
+
+/**
+ * Markdown message posted to the agent's notification channel (Slack, Discord, ...)
+ */
+export function buildToolApprovalRequestMessage(
+  approval: ToolApprovalRecord,
+  agentName: string
+): string {
+  const frontendUrl = process.env.FRONTEND_URL || "http://localhost:5173";
+  const args = truncate(
+    JSON.stringify(approval.args, null, 2),
+    TOOL_APPROVAL_ARGS_PREVIEW_MAX_LENGTH
+  );
+  return [
+    `**Approval needed:** agent "${agentName}" wants to call \`${approval.toolName}\` with:`,
+    "```json",
+    args,
+    "```",
+    `Approve, edit or reject it: ${frontendUrl}/workspaces/${approval.workspaceId}/agents/${approval.agentId}`,
+    `Without a decision it expires at ${approval.expiresAt} and the tool is not run.`,
+  ].join("\n");
+}
+
+/**
+ * Posts an approval request to its notification channel.
+ * Best effort: the request stays decidable in the UI when posting fails.
+ */
+export async function postToolApprovalMessage(
+  db: DatabaseSchema,
+  approval: ToolApprovalRecord,
+  content: string
+): Promise<void> {
+  if (!approval.notificationChannelId) {
+    return;
+  }
+  try {
+    const channel = await db["output_channel"].get(
+      `output-channels/${approval.workspaceId}/${approval.notificationChannelId}`,
+      "channel"
+    );
+    if (!channel) {
+      console.warn("[Tool Approval] Notification channel not found:", {
+        workspaceId: approval.workspaceId,
+        channelId: approval.notificationChannelId,
+      });
+      return;
+    }
+    await sendNotification(channel, content, {
+      context: {
+        agentId: approval.agentId,
+        conversationId: approval.conversationId,
+      },
+    });
+  } catch (error) {
+    console.error("[Tool Approval] Failed to post to notification channel:", {
+      workspaceId: approval.workspaceId,
+      approvalId: approval.approvalId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    Sentry.captureException(ensureError(error), {
+      tags: {
+        context: "tool-approval",
+        operation: "post-message",
+      },
+      extra: {
+        workspaceId: approval.workspaceId,
+        agentId: approval.agentId,
+        approvalId: approval.approvalId,
+      },
+      level: "warning",
+    });
+  }
+}
+
+/**
+ * API representation of an approval request
+ */
+export function toToolApprovalResponse(approval: ToolApprovalRecord) {
+  return {
+    id: approval.approvalId,
+    agentId: approval.agentId,
+    conversationId: approval.conversationId ?? null,
+    toolName: approval.toolName,
+    mcpServerId: approval.mcpServerId ?? null,
+    args: approval.args,
+    approvedArgs: approval.approvedArgs ?? null,
+    status: approval.status,
+    expiresAt: approval.expiresAt,
+    decidedAt: approval.decidedAt ?? null,
+    decidedBy: approval.decidedBy ?? null,
+    reason: approval.reason ?? null,
+    resumedAt: approval.resumedAt ?? null,
+    resultPreview: approval.resultPreview ?? null,
+    answer: approval.answer ?? null,
+    error: approval.error ?? null,
+    createdAt: approval.createdAt,
+  };
+}
@@ -83,7 +83,7 @@ function getStandardToolMetadata(
     tools.push({
       name: "search_documents",
       description:
-        "Search workspace documents using semantic vector search. Returns the most relevant document snippets based on the query.",
+        "Search workspace documents using hybrid keyword and semantic search, so both exact terms (product codes, error messages, names) and related concepts match. Returns the most relevant document snippets based on the query.",
       category: "Document Tools",
       alwaysAvailable: false,
       condition: "Available (document search enabled)",
@@ -101,13 +101,20 @@ function getStandardToolMetadata(
           required: false,
           description: "Number of top results to return (default: 5).",
         },
+        {
+          name: "mode",
+          type: "string",
+          required: false,
+          description:
+            'How to match documents: "hybrid" (default), "keyword" for exact terms only, or "vector" for meaning only.',
+        },
       ],
     });
   } else {
     tools.push({
       name: "search_documents",
       description:
-        "Search workspace documents using semantic vector search. Returns the most relevant document snippets based on the query.",
+        "Search workspace documents using hybrid keyword and semantic search, so both exact terms (product codes, error messages, names) and related concepts match. Returns the most relevant document snippets based on the query.",
       category: "Document Tools",
       alwaysAvailable: false,
       condition: "Not available (document search not enabled)",
@@ -125,6 +132,13 @@ function getStandardToolMetadata(
           required: false,
           description: "Number of top results to return (default: 5).",
         },
+        {
+          name: "mode",
+          type: "string",
+          required: false,
+          description:
+            'How to match documents: "hybrid" (default), "keyword" for exact terms only, or "vector" for meaning only.',
+        },
       ],
     });
   }
@@ -3609,11 +3623,12 @@ function getMcpServerToolMetadata(
       ],
     });
   } else {
-    // Generic MCP server tool
+    // Generic MCP server tools
     const condition = `Available (MCP server "${serverName}" enabled)`;
+    const toolName = `mcp_${serverName.replace(/[^a-zA-Z0-9]/g, "_").toLowerCase()}`;
     tools.push({
-      name: `mcp_${serverName.replace(/[^a-zA-Z0-9]/g, "_").toLowerCase()}${suffix}`,
-      description: `Call the MCP server "${serverName}". Provide the MCP method name and optional parameters.`,
+      name: `${toolName}${suffix}`,
+      description: `Call a tool of the MCP server "${serverName}". Provide the tool name as "method" and its arguments as "params".`,
       category: "MCP Server Tools",
       alwaysAvailable: false,
       condition,
@@ -3622,13 +3637,71 @@ function getMcpServerToolMetadata(
           name: "method",
           type: "string",
           required: true,
-          description: "The MCP method to call.",
+          description: "Name of the MCP server tool to call.",
         },
         {
           name: "params",
           type: "object",
           required: false,
-          description: "Optional parameters for the MCP method.",
+          description: "Arguments for the MCP server tool.",
+        },
+      ],
+    });
+
+    const resourcesCondition = `${condition}, if the server provides resources`;
+    tools.push({
+      name: `${toolName}_list_resources${suffix}`,
+      description: `List the resources the MCP server "${serverName}" exposes, with their URIs and resource templates.`,
+      category: "MCP Server Tools",
+      alwaysAvailable: false,
+      condition: resourcesCondition,
+      parameters: [],
+    });
+
+    tools.push({
+      name: `${toolName}_read_resource${suffix}`,
+      description: `Read a resource of the MCP server "${serverName}" by its URI.`,
+      category: "MCP Server Tools",
+      alwaysAvailable: false,
+      condition: resourcesCondition,
+      parameters: [
+        {
+          name: "uri",
+          type: "string",
+          required: true,
+          description: "URI of the resource.",
+        },
+      ],
+    });
+
+    const promptsCondition = `${condition}, if the server provides prompts`;
+    tools.push({
+      name: `${toolName}_list_prompts${suffix}`,
+      description: `List the prompt templates the MCP server "${serverName}" offers, with their arguments.`,
+      category: "MCP Server Tools",
+      alwaysAvailable: false,
+      condition: promptsCondition,
+      parameters: [],
+    });
+
+    tools.push({
+      name: `${toolName}_get_prompt${suffix}`,
+      description: `Get a prompt template of the MCP server "${serverName}" filled in with arguments.`,
+      category: "MCP Server Tools",
+      alwaysAvailable: false,
+      condition: promptsCondition,
+      parameters: [
+        {
+          name: "name",
+          type: "string",
+          required: true,
+          description: "Name of the prompt template.",
+        },
+        {
+          name: "arguments",
+          type: "object",
+          required: false,
+          description: "Values for the prompt template arguments.",
         },
       ],
     });
@@ -27,6 +27,15 @@ describe("agentRemoval", () => {
       }
     });
 
+    it("should also purge every end-user partition", async () => {
+      await removeAgentDatabases("agent-123", ["a".repeat(32)]);
+
+      expect(mockPurge).toHaveBeenCalledTimes(TEMPORAL_GRAINS.length * 2);
+      for (const grain of TEMPORAL_GRAINS) {
+        expect(mockPurge).toHaveBeenCalledWith("agent-123", grain, "a".repeat(32));
+      }
+    });
+
     it("should handle errors gracefully", async () => {
       mockPurge.mockRejectedValueOnce(new Error("Queue error"));
 
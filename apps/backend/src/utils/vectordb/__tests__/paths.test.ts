@@ -39,6 +39,28 @@ describe("paths", () => {
     });
   });
 
+  describe("end-user partitions", () => {
+    const partitionKey = "0123456789abcdef0123456789abcdef";
+
+    it("should nest partition databases under the agent", () => {
+      expect(getDatabasePath(agentId, "working", partitionKey)).toBe(
+        `vectordb/agent-123/users/${partitionKey}/working/`
+      );
+      expect(getDatabaseUri(agentId, "daily", partitionKey)).toBe(
+        `s3://test-bucket/vectordb/agent-123/users/${partitionKey}/daily/`
+      );
+    });
+
+    it("should serialize partition writes separately from the agent-global database", () => {
+      expect(getMessageGroupId(agentId, "working", "ws-1", partitionKey)).toBe(
+        `agent-123-${partitionKey}-working`
+      );
+      expect(getMessageGroupId(agentId, "working", "ws-1")).toBe(
+        "agent-123-working"
+      );
+    });
+  });
+
   describe("getDatabaseUri", () => {
     it("should generate correct S3 URI", () => {
       const uri = getDatabaseUri(agentId, "daily");
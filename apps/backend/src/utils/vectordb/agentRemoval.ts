@@ -1,18 +1,27 @@
-import { TEMPORAL_GRAINS } from "./types";
+import { TEMPORAL_GRAINS, type TemporalGrain } from "./types";
 import { purge } from "./writeClient";
 
 /**
  * Remove all vector databases for an agent
- * Schedules purge operations for all temporal grains
+ * Schedules purge operations for all temporal grains, in the agent-global database and in
+ * every given end-user partition
  */
-export async function removeAgentDatabases(agentId: string): Promise<void> {
+export async function removeAgentDatabases(
+  agentId: string,
+  partitionKeys: string[] = [],
+): Promise<void> {
   console.log(`[Agent Removal] Scheduling database purge for agent ${agentId}`);
 
   const errors: Error[] = [];
 
-  for (const temporalGrain of TEMPORAL_GRAINS) {
+  const schedulePurge = async (
+    temporalGrain: TemporalGrain,
+    partitionKey?: string,
+  ) => {
     try {
-      await purge(agentId, temporalGrain);
+      await (partitionKey
+        ? purge(agentId, temporalGrain, partitionKey)
+        : purge(agentId, temporalGrain));
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       console.error(
@@ -21,6 +30,13 @@ export async function removeAgentDatabases(agentId: string): Promise<void> {
       );
       errors.push(err);
     }
+  };
+
+  for (const temporalGrain of TEMPORAL_GRAINS) {
+    await schedulePurge(temporalGrain);
+    for (const partitionKey of partitionKeys) {
+      await schedulePurge(temporalGrain, partitionKey);
+    }
   }
 
   if (errors.length > 0) {
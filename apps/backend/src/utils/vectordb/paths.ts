@@ -4,12 +4,17 @@ import { TEMPORAL_GRAINS, type TemporalGrain } from "./types";
 /**
  * Get the S3 path for a vector database
  * Format: vectordb/{agentId}/{temporalGrain}/
+ * or vectordb/{agentId}/users/{partitionKey}/{temporalGrain}/ for an end-user partition
  * For working grain, no time component is used
  */
 export function getDatabasePath(
   agentId: string,
-  temporalGrain: TemporalGrain
+  temporalGrain: TemporalGrain,
+  partitionKey?: string
 ): string {
+  if (partitionKey) {
+    return `vectordb/${agentId}/users/${partitionKey}/${temporalGrain}/`;
+  }
   return `vectordb/${agentId}/${temporalGrain}/`;
 }
 
@@ -19,28 +24,34 @@ export function getDatabasePath(
  */
 export function getDatabaseUri(
   agentId: string,
-  temporalGrain: TemporalGrain
+  temporalGrain: TemporalGrain,
+  partitionKey?: string
 ): string {
   const bucket = getS3BucketName();
-  const path = getDatabasePath(agentId, temporalGrain);
+  const path = getDatabasePath(agentId, temporalGrain, partitionKey);
   return `s3://${bucket}/${path}`;
 }
 
 /**
  * Get the message group ID for SQS FIFO queue
- * Format: {agentId}-{temporalGrain} or {workspaceId}-docs for docs grain
+ * Format: {agentId}-{temporalGrain}, {agentId}-{partitionKey}-{temporalGrain} for an
+ * end-user partition, or {workspaceId}-docs for docs grain
  * This ensures serialized processing per database
  * For docs grain, workspaceId should be provided and will be used instead of agentId
  */
 export function getMessageGroupId(
   agentId: string,
   temporalGrain: TemporalGrain,
-  workspaceId?: string
+  workspaceId?: string,
+  partitionKey?: string
 ): string {
   // For docs grain, use workspaceId if provided (since docs are workspace-scoped)
   if (temporalGrain === "docs" && workspaceId) {
     return `${workspaceId}-${temporalGrain}`;
   }
+  if (partitionKey) {
+    return `${agentId}-${partitionKey}-${temporalGrain}`;
+  }
   return `${agentId}-${temporalGrain}`;
 }
 
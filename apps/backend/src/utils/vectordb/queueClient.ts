@@ -29,6 +29,7 @@ function generateDeduplicationId(message: WriteOperationMessage): string {
         operation: message.operation,
         agentId: message.agentId,
         temporalGrain: message.temporalGrain,
+        partitionKey: message.partitionKey,
         data: message.data,
         timestamp: Date.now(),
       })
@@ -70,7 +71,8 @@ export async function sendWriteOperation(
   const messageGroupId = getMessageGroupId(
     message.agentId,
     message.temporalGrain,
-    message.workspaceId
+    message.workspaceId,
+    message.partitionKey
   );
   const deduplicationId = generateDeduplicationId(message);
 
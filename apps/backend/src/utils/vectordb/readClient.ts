@@ -18,8 +18,9 @@ export const connectionCache = new Map<
 async function getDatabaseConnection(
   agentId: string,
   temporalGrain: TemporalGrain,
+  partitionKey?: string,
 ): Promise<Awaited<ReturnType<typeof connect>>> {
-  const uri = getDatabaseUri(agentId, temporalGrain);
+  const uri = getDatabaseUri(agentId, temporalGrain, partitionKey);
   const cacheKey = uri;
 
   if (!connectionCache.has(cacheKey)) {
@@ -128,13 +129,19 @@ interface LanceDBRow {
   documentId?: string;
   documentName?: string;
   folderPath?: string;
+  anchor?: string;
   // Legacy: some tables might still have nested metadata
   metadata?: Record<string, unknown>;
   _distance?: number;
+  _score?: number;
 }
 
 type QueryBuilder = {
   nearestTo?: (vector: number[]) => unknown;
+  fullTextSearch?: (
+    query: string,
+    options?: { columns?: string | string[] },
+  ) => unknown;
   where?: (filter: string) => unknown;
   limit?: (limit: number) => unknown;
   toArray?: () => Promise<Array<LanceDBRow>>;
@@ -209,6 +216,7 @@ function buildQueryBuilder(
   table: { query: () => QueryBuilder },
   options: {
     vector?: number[];
+    fullTextQuery?: string;
     filter?: string;
     limit: number;
   },
@@ -219,6 +227,12 @@ function buildQueryBuilder(
     queryBuilder = queryBuilder.nearestTo(options.vector) as QueryBuilder;
   }
 
+  if (options.fullTextQuery && queryBuilder.fullTextSearch) {
+    queryBuilder = queryBuilder.fullTextSearch(options.fullTextQuery, {
+      columns: "content",
+    }) as QueryBuilder;
+  }
+
   if (options.filter && queryBuilder.where) {
     queryBuilder = queryBuilder.where(options.filter) as QueryBuilder;
   }
@@ -290,6 +304,7 @@ function buildMetadataFromRow(row: LanceDBRow): Record<string, unknown> {
     documentId: row.documentId || row.metadata?.documentId || null,
     documentName: row.documentName || row.metadata?.documentName || null,
     folderPath: row.folderPath || row.metadata?.folderPath || null,
+    anchor: row.anchor || row.metadata?.anchor || null,
   };
 }
 
@@ -338,6 +353,7 @@ function mapRowsToResults(rows: LanceDBRow[]): QueryResult[] {
       timestamp: row.timestamp,
       metadata,
       distance: row._distance,
+      score: row._score,
     });
   }
 
@@ -388,7 +404,7 @@ function logMetadataSummary(options: {
  *
  * @param agentId - Agent ID
  * @param temporalGrain - Temporal grain (daily, weekly, monthly, quarterly, yearly)
- * @param options - Query options (vector, filter, limit, temporalFilter)
+ * @param options - Query options (vector, fullTextQuery, filter, limit, temporalFilter, partitionKey)
  * @returns Query results
  */
 export async function query(
@@ -398,20 +414,22 @@ export async function query(
 ): Promise<QueryResult[]> {
   const {
     vector,
+    fullTextQuery,
     filter,
     limit = DEFAULT_QUERY_LIMIT,
     temporalFilter,
+    partitionKey,
   } = options;
 
   // Validate limit
   const queryLimit = clampQueryLimit(limit);
 
   try {
-    const dbUri = getDatabaseUri(agentId, temporalGrain);
+    const dbUri = getDatabaseUri(agentId, temporalGrain, partitionKey);
     console.log(
       `[Read Client] Querying database ${dbUri} for agent ${agentId}, grain ${temporalGrain}`,
     );
-    const db = await getDatabaseConnection(agentId, temporalGrain);
+    const db = await getDatabaseConnection(agentId, temporalGrain, partitionKey);
 
     const table = await openVectorsTable(db, dbUri, agentId, temporalGrain);
     if (!table) {
@@ -420,6 +438,7 @@ export async function query(
 
     const queryBuilder = buildQueryBuilder(table, {
       vector,
+      fullTextQuery,
       filter,
       limit: queryLimit,
     });
@@ -457,11 +476,13 @@ export async function getRecordById(
   agentId: string,
   temporalGrain: TemporalGrain,
   recordId: string,
+  partitionKey?: string,
 ): Promise<QueryResult | null> {
   const safeRecordId = escapeFilterValue(recordId);
   const results = await query(agentId, temporalGrain, {
     filter: `id = '${safeRecordId}'`,
     limit: 1,
+    partitionKey,
   });
   return results[0] ?? null;
 }
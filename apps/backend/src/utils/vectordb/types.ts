@@ -24,6 +24,12 @@ export const TEMPORAL_GRAINS: TemporalGrain[] = [
   "yearly",
 ];
 
+/**
+ * Shape of an end-user memory partition key. The key becomes part of the database path, so
+ * only lowercase hex is accepted.
+ */
+export const MEMORY_PARTITION_KEY_PATTERN = /^[a-f0-9]{32}$/;
+
 /**
  * Base fact record structure for vector database
  */
@@ -48,9 +54,11 @@ export interface TemporalFilter {
  */
 export interface QueryOptions {
   vector?: number[]; // Query vector for similarity search
+  fullTextQuery?: string; // BM25 keyword search on "content" (requires a full-text index)
   filter?: string; // SQL-like filter expression for metadata
   limit?: number; // Maximum number of results
   temporalFilter?: TemporalFilter; // Date range filter
+  partitionKey?: string; // End-user memory partition (omit for the agent-global memory)
 }
 
 /**
@@ -63,6 +71,7 @@ export interface QueryResult {
   timestamp: string;
   metadata?: Record<string, unknown>;
   distance?: number; // Similarity distance (if vector search was used)
+  score?: number; // BM25 relevance score (if full-text search was used)
 }
 
 /**
@@ -89,6 +98,7 @@ export interface WriteOperationMessage {
   agentId: string;
   temporalGrain: TemporalGrain;
   workspaceId?: string; // Required for insert operations to get API key
+  partitionKey?: string; // End-user memory partition (omit for the agent-global memory)
   usesByok?: boolean;
   creditContext?: {
     agentId?: string;
@@ -118,6 +128,10 @@ export const WriteOperationMessageSchema = z
       "docs",
     ]),
     workspaceId: z.string().optional(),
+    partitionKey: z
+      .string()
+      .regex(MEMORY_PARTITION_KEY_PATTERN, "Invalid partitionKey")
+      .optional(),
     usesByok: z.boolean().optional(),
     creditContext: z
       .object({
@@ -67,6 +67,7 @@ export async function remove(
   temporalGrain: TemporalGrain,
   recordIds: string[],
   workspaceId?: string,
+  partitionKey?: string,
 ): Promise<void> {
   if (recordIds.length === 0) {
     return;
@@ -77,6 +78,7 @@ export async function remove(
     agentId,
     temporalGrain,
     workspaceId,
+    partitionKey,
     data: {
       recordIds,
     },
@@ -90,16 +92,19 @@ export { remove as delete };
 
 /**
  * Purge all fact records from a vector database (by temporal grain)
+ * Pass a partitionKey to purge an end-user partition instead of the agent-global database
  * Sends the operation to SQS FIFO queue for processing
  */
 export async function purge(
   agentId: string,
   temporalGrain: TemporalGrain,
+  partitionKey?: string,
 ): Promise<void> {
   const message: WriteOperationMessage = {
     operation: "purge",
     agentId,
     temporalGrain,
+    partitionKey,
     data: {},
   };
 
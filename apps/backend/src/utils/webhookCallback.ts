@@ -0,0 +1,297 @@
+import { createHmac } from "crypto";
+
+import type { AgentConversationRecord } from "../tables/schema";
+
+import { fromNanoDollars } from "./creditConversions";
+import type { UIMessage } from "./messageTypes";
+import {
+  NonPublicAddressError,
+  assertPublicHost,
+  isNonPublicHostname,
+} from "./publicAddress";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Helpmaton-Signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Helpmaton-Timestamp";
+
+const CALLBACK_URL_MAX_LENGTH = 2048;
+export const WEBHOOK_CALLBACK_MAX_ATTEMPTS = 5;
+const CALLBACK_INITIAL_RETRY_DELAY_SECONDS = 10;
+const CALLBACK_RETRY_MULTIPLIER = 2;
+// SQS does not allow longer message delays
+const CALLBACK_MAX_RETRY_DELAY_SECONDS = 900;
+const CALLBACK_REQUEST_TIMEOUT_MS = 10000;
+
+export type WebhookResultStatus = "pending" | "completed" | "failed";
+
+export type WebhookResultToolCall = {
+  toolCallId: string;
+  toolName: string;
+  args: unknown;
+  result?: unknown;
+};
+
+/**
+ * Result of an async webhook run, returned by the polling endpoint and POSTed to callbackUrl
+ */
+export type WebhookResult = {
+  conversationId: string;
+  workspaceId: string;
+  agentId: string;
+  status: WebhookResultStatus;
+  message?: string;
+  /** Parsed response when the run used a structured-output schema */
+  structuredOutput?: unknown;
+  toolCalls?: WebhookResultToolCall[];
+  tokenUsage?: AgentConversationRecord["tokenUsage"];
+  /** Cost in USD (provisional until the provider cost has been verified) */
+  costUsd?: number;
+  error?: {
+    message: string;
+    code?: string;
+    statusCode?: number;
+  };
+  startedAt?: string;
+  completedAt?: string;
+};
+
+export type WebhookCallbackAttempt = {
+  delivered: boolean;
+  /** Whether a failed attempt may succeed later (network errors, 408, 429, 5xx) */
+  retryable: boolean;
+  statusCode?: number;
+  error?: string;
+};
+
+/**
+ * Whether the local sandbox is running, where http callbacks to local servers are allowed
+ */
+export function isLocalSandbox(): boolean {
+  return process.env.ARC_ENV === "testing";
+}
+
+/**
+ * Validate a caller-supplied callback URL.
+ * Only https URLs without credentials to public hosts are accepted (http and local hosts
+ * are allowed in the local sandbox). Host names are resolved again before each delivery.
+ * @throws Error with a user-facing message when the URL is not acceptable
+ */
+export function parseCallbackUrl(rawUrl: string): string {
+  const trimmed = rawUrl.trim();
+  if (trimmed.length > CALLBACK_URL_MAX_LENGTH) {
+    throw new Error(
+      `callbackUrl must be at most ${CALLBACK_URL_MAX_LENGTH} characters`
+    );
+  }
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    throw new Error("callbackUrl must be a valid URL");
+  }
+  const sandbox = isLocalSandbox();
+  if (url.protocol !== "https:" && !(sandbox && url.protocol === "http:")) {
+    throw new Error("callbackUrl must use https");
+  }
+  if (url.username || url.password) {
+    throw new Error("callbackUrl must not contain credentials");
+  }
+  if (!sandbox && isNonPublicHostname(url.hostname)) {
+    throw new Error("callbackUrl must point to a public host");
+  }
+  return url.toString();
+}
+
+/**
+ * Sign a callback body with the webhook key.
+ * The signature is an HMAC-SHA256 over `${timestamp}.${body}`, so receivers can
+ * reject replayed requests by checking the timestamp header.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  const hmac = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${hmac}`;
+}
+
+function getMessageText(message: UIMessage): string {
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+  return message.content
+    .map((part) =>
+      typeof part === "string"
+        ? part
+        : part.type === "text" && "text" in part
+          ? part.text
+          : ""
+    )
+    .join("");
+}
+
+function collectToolCalls(messages: UIMessage[]): WebhookResultToolCall[] {
+  const toolCalls = new Map<string, WebhookResultToolCall>();
+  for (const message of messages) {
+    if (!Array.isArray(message.content)) {
+      continue;
+    }
+    for (const part of message.content) {
+      if (typeof part !== "object" || part === null || !("type" in part)) {
+        continue;
+      }
+      if (part.type === "tool-call") {
+        const existing = toolCalls.get(part.toolCallId);
+        toolCalls.set(part.toolCallId, {
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          args: part.args,
+          ...(existing && "result" in existing
+            ? { result: existing.result }
+            : {}),
+        });
+      } else if (part.type === "tool-result") {
+        const existing = toolCalls.get(part.toolCallId);
+        toolCalls.set(part.toolCallId, {
+          toolCallId: part.toolCallId,
+          toolName: existing?.toolName ?? part.toolName,
+          args: existing?.args,
+          result: part.result,
+        });
+      }
+    }
+  }
+  return Array.from(toolCalls.values());
+}
+
+/**
+ * Build the webhook result for a conversation.
+ * A missing record means the run has not finished yet (the conversation is
+ * only written once the agent call completes or fails).
+ */
+export function buildWebhookResult(
+  ids: { workspaceId: string; agentId: string; conversationId: string },
+  conversation: AgentConversationRecord | null | undefined
+): WebhookResult {
+  if (!conversation) {
+    return { ...ids, status: "pending" };
+  }
+
+  const messages = conversation.messages as UIMessage[];
+  const lastAssistantText = messages
+    .filter((message) => message.role === "assistant")
+    .map(getMessageText)
+    .filter((text) => text.trim().length > 0)
+    .pop();
+
+  return {
+    ...ids,
+    status: conversation.error ? "failed" : "completed",
+    ...(lastAssistantText !== undefined ? { message: lastAssistantText } : {}),
+    ...(conversation.structuredOutput !== undefined
+      ? { structuredOutput: conversation.structuredOutput }
+      : {}),
+    toolCalls: collectToolCalls(messages),
+    ...(conversation.tokenUsage ? { tokenUsage: conversation.tokenUsage } : {}),
+    ...(conversation.costUsd !== undefined
+      ? { costUsd: fromNanoDollars(conversation.costUsd) }
+      : {}),
+    ...(conversation.error
+      ? {
+          error: {
+            message: conversation.error.message,
+            ...(conversation.error.code ? { code: conversation.error.code } : {}),
+            ...(conversation.error.statusCode !== undefined
+              ? { statusCode: conversation.error.statusCode }
+              : {}),
+          },
+        }
+      : {}),
+    startedAt: conversation.startedAt,
+    completedAt: conversation.lastMessageAt,
+  };
+}
+
+/**
+ * Whether a failed delivery should be retried: request timeouts, rate limits and server errors
+ */
+export function isRetryableHttpStatus(statusCode: number): boolean {
+  return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+/**
+ * Delay before the next delivery attempt: 10s, 20s, 40s, ... capped at 15 minutes
+ * @param attempts - Number of attempts made so far
+ */
+export function getWebhookCallbackRetryDelaySeconds(attempts: number): number {
+  return Math.min(
+    CALLBACK_INITIAL_RETRY_DELAY_SECONDS *
+      Math.pow(CALLBACK_RETRY_MULTIPLIER, Math.max(attempts - 1, 0)),
+    CALLBACK_MAX_RETRY_DELAY_SECONDS
+  );
+}
+
+/**
+ * Make one signed POST of a webhook result to the caller's callback URL.
+ * The host is resolved first and non-public addresses are refused; redirects are not
+ * followed. Retries are scheduled by the caller (webhook-callback-queue), so this
+ * never waits between attempts. Never throws - the outcome is returned for logging.
+ */
+export async function deliverWebhookCallback(options: {
+  callbackUrl: string;
+  signingKey: string;
+  result: WebhookResult;
+}): Promise<WebhookCallbackAttempt> {
+  if (!isLocalSandbox()) {
+    try {
+      await assertPublicHost(new URL(options.callbackUrl).hostname);
+    } catch (error) {
+      return {
+        delivered: false,
+        // DNS lookups can fail temporarily; non-public targets never become valid
+        retryable: !(error instanceof NonPublicAddressError),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  const body = JSON.stringify(options.result);
+  // Sign each attempt with a fresh timestamp so retries are not rejected as replays
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  try {
+    const response = await fetch(options.callbackUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Helpmaton-Webhook/1.0",
+        [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+          options.signingKey,
+          timestamp,
+          body
+        ),
+      },
+      body,
+      // A redirect could point to an internal address
+      redirect: "manual",
+      signal: AbortSignal.timeout(CALLBACK_REQUEST_TIMEOUT_MS),
+    });
+    if (response.ok) {
+      return { delivered: true, retryable: false, statusCode: response.status };
+    }
+    return {
+      delivered: false,
+      retryable: isRetryableHttpStatus(response.status),
+      statusCode: response.status,
+      error: `Callback responded with status ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      delivered: false,
+      retryable: true,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import { queues } from "@architect/functions";
+import { z } from "zod";
+
+import { WebhookCallbackTargetSchema } from "./webhookQueue";
+
+export const WebhookCallbackQueueMessageSchema = z
+  .object({
+    workspaceId: z.string(),
+    agentId: z.string(),
+    conversationId: z.string(),
+    callback: WebhookCallbackTargetSchema,
+    attempts: z.number().int().min(0), // delivery attempts made so far
+    failureMessage: z.string().optional(), // reported when the run was given up before its conversation was recorded
+  })
+  .strict();
+
+export type WebhookCallbackQueueMessage = z.infer<
+  typeof WebhookCallbackQueueMessageSchema
+>;
+
+/**
+ * Queue the delivery of a webhook result to the caller's callback URL.
+ * The result is read from the conversation when the message is processed,
+ * so retries send the latest state.
+ */
+export async function enqueueWebhookCallback(
+  message: WebhookCallbackQueueMessage,
+  delaySeconds = 0
+): Promise<void> {
+  // Runtime validation protects against unexpected external callers.
+  WebhookCallbackQueueMessageSchema.parse(message);
+
+  await queues.publish({
+    name: "webhook-callback-queue",
+    payload: message,
+    ...(delaySeconds > 0 ? { delaySeconds } : {}),
+  });
+}
@@ -1,6 +1,15 @@
 import { queues } from "@architect/functions";
 import { z } from "zod";
 
+export const WebhookCallbackTargetSchema = z
+  .object({
+    url: z.string().url(),
+    agentKeyId: z.string(), // agent-key record ID; the key value signs the callback
+  })
+  .strict();
+
+export type WebhookCallbackTarget = z.infer<typeof WebhookCallbackTargetSchema>;
+
 export const WebhookQueueMessageSchema = z
   .object({
     workspaceId: z.string(),
@@ -8,6 +17,9 @@ export const WebhookQueueMessageSchema = z
     bodyText: z.string(),
     conversationId: z.string(),
     subscriptionId: z.string().optional(),
+    callback: WebhookCallbackTargetSchema.optional(),
+    outputSchema: z.record(z.string(), z.unknown()).optional(), // caller-supplied JSON Schema for structured output
+    endUserId: z.string().optional(), // caller-supplied end user (X-End-User-Id header) for per-end-user memory
   })
   .strict();
 
@@ -18,7 +30,12 @@ export async function enqueueWebhookTask(
   agentId: string,
   bodyText: string,
   conversationId: string,
-  subscriptionId?: string
+  subscriptionId?: string,
+  options?: {
+    callback?: WebhookCallbackTarget;
+    outputSchema?: Record<string, unknown>;
+    endUserId?: string;
+  }
 ): Promise<void> {
   const message: WebhookQueueMessage = {
     workspaceId,
@@ -26,6 +43,9 @@ export async function enqueueWebhookTask(
     bodyText,
     conversationId,
     ...(subscriptionId ? { subscriptionId } : {}),
+    ...(options?.callback ? { callback: options.callback } : {}),
+    ...(options?.outputSchema ? { outputSchema: options.outputSchema } : {}),
+    ...(options?.endUserId ? { endUserId: options.endUserId } : {}),
   };
 
   // Runtime validation protects against unexpected external callers.
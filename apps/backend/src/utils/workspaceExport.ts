@@ -1,7 +1,10 @@
+import { getDefaultModel } from "../http/utils/modelFactory";
 import type { WorkspaceExport } from "../schemas/workspace-export";
 import { workspaceExportSchema } from "../schemas/workspace-export";
 import { database } from "../tables";
 
+import { withoutCustomModels } from "./modelEndpoints";
+
 /**
  * Generate a refName from an entity name, handling duplicates by appending numbers.
  *
@@ -292,6 +295,21 @@ export async function exportWorkspace(
             ),
           )
         : undefined;
+      const toolApproval = agent.toolApproval
+        ? {
+            ...agent.toolApproval,
+            ...(agent.toolApproval.mcpServerToolNames && {
+              mcpServerToolNames: Object.fromEntries(
+                Object.entries(agent.toolApproval.mcpServerToolNames).map(
+                  ([serverId, toolNames]) => [
+                    mcpServerIdToRefNameMap.get(serverId) || serverId,
+                    toolNames,
+                  ],
+                ),
+              ),
+            }),
+          }
+        : undefined;
 
       return {
         id: agentRefName,
@@ -309,10 +327,14 @@ export async function exportWorkspace(
         ...(agent.memoryExtractionPrompt
           ? { memoryExtractionPrompt: agent.memoryExtractionPrompt }
           : {}),
+        ...(agent.memoryPartitionByEndUser !== undefined
+          ? { memoryPartitionByEndUser: agent.memoryPartitionByEndUser }
+          : {}),
         notificationChannelId: notificationChannelRefName,
         delegatableAgentIds: delegatableAgentRefNames,
         enabledMcpServerIds: enabledMcpServerRefNames,
         enabledMcpServerToolNames,
+        toolApproval,
         enabledSkillIds: agent.enabledSkillIds,
         enableMemorySearch: agent.enableMemorySearch,
         enableSearchDocuments: agent.enableSearchDocuments,
@@ -321,6 +343,8 @@ export async function exportWorkspace(
           agent.enableKnowledgeInjectionFromMemories,
         enableKnowledgeInjectionFromDocuments:
           agent.enableKnowledgeInjectionFromDocuments,
+        knowledgeFolderPaths: agent.knowledgeFolderPaths,
+        knowledgeTags: agent.knowledgeTags,
         knowledgeInjectionSnippetCount: agent.knowledgeInjectionSnippetCount,
         knowledgeInjectionMinSimilarity: agent.knowledgeInjectionMinSimilarity,
         knowledgeInjectionEntityExtractorModel:
@@ -342,8 +366,9 @@ export async function exportWorkspace(
         maxOutputTokens: agent.maxOutputTokens,
         stopSequences: agent.stopSequences,
         maxToolRoundtrips: agent.maxToolRoundtrips,
+        outputSchema: agent.outputSchema,
         provider: agent.provider,
-        modelName: agent.modelName,
+        ...withoutCustomModels(agent.modelName, agent.fallbackModelNames),
         clientTools: agent.clientTools,
         widgetConfig: agent.widgetConfig,
         avatar: agent.avatar,
@@ -372,16 +397,24 @@ export async function exportWorkspace(
                   samplingProbability?: number;
                   provider: "openrouter";
                   modelName: string;
+                  fallbackModelNames?: string[];
                   evalPrompt: string;
-                }) => ({
-                  id: judgeIdToRefNameMap.get(judge.judgeId) || judge.judgeId,
-                  name: judge.name,
-                  enabled: judge.enabled,
-                  samplingProbability: judge.samplingProbability ?? 100,
-                  provider: judge.provider,
-                  modelName: judge.modelName,
-                  evalPrompt: judge.evalPrompt,
-                }),
+                }) => {
+                  const models = withoutCustomModels(
+                    judge.modelName,
+                    judge.fallbackModelNames,
+                  );
+                  return {
+                    id: judgeIdToRefNameMap.get(judge.judgeId) || judge.judgeId,
+                    name: judge.name,
+                    enabled: judge.enabled,
+                    samplingProbability: judge.samplingProbability ?? 100,
+                    provider: judge.provider,
+                    modelName: models.modelName ?? getDefaultModel(),
+                    fallbackModelNames: models.fallbackModelNames,
+                    evalPrompt: judge.evalPrompt,
+                  };
+                },
               )
             : undefined,
         streamServer: streamServer
@@ -22,6 +22,7 @@ import {
   checkSubscriptionLimits,
   getUserSubscription,
 } from "./subscriptionUtils";
+import { APPROVABLE_BUILT_IN_TOOL_NAMES } from "./toolApproval";
 import { createWorkspaceRecord } from "./workspaceCreate";
 
 /**
@@ -546,6 +547,21 @@ async function createAgentsAndNestedEntities(
       ctx.referenceMap,
       mcpServerIdMap,
     );
+    const toolApproval = agentData.toolApproval
+      ? {
+          ...agentData.toolApproval,
+          toolNames: agentData.toolApproval.toolNames?.filter((toolName) =>
+            (APPROVABLE_BUILT_IN_TOOL_NAMES as readonly string[]).includes(
+              toolName,
+            ),
+          ),
+          mcpServerToolNames: resolveMcpServerToolNames(
+            agentData.toolApproval.mcpServerToolNames,
+            ctx.referenceMap,
+            mcpServerIdMap,
+          ),
+        }
+      : undefined;
 
     let enabledSkillIds: string[];
     const requestedSkillIds = agentData.enabledSkillIds ?? [];
@@ -607,12 +623,15 @@ async function createAgentsAndNestedEntities(
       memoryExtractionEnabled: agentData.memoryExtractionEnabled ?? false,
       memoryExtractionModel: agentData.memoryExtractionModel,
       memoryExtractionPrompt: agentData.memoryExtractionPrompt,
+      memoryPartitionByEndUser: agentData.memoryPartitionByEndUser ?? false,
       provider: agentData.provider ?? "openrouter",
       modelName: agentData.modelName,
+      fallbackModelNames: agentData.fallbackModelNames,
       notificationChannelId,
       delegatableAgentIds,
       enabledMcpServerIds,
       enabledMcpServerToolNames,
+      toolApproval,
       enabledSkillIds,
       enableMemorySearch: agentData.enableMemorySearch ?? false,
       enableSearchDocuments: agentData.enableSearchDocuments ?? false,
@@ -621,6 +640,8 @@ async function createAgentsAndNestedEntities(
         agentData.enableKnowledgeInjectionFromMemories ?? false,
       enableKnowledgeInjectionFromDocuments:
         agentData.enableKnowledgeInjectionFromDocuments ?? true,
+      knowledgeFolderPaths: agentData.knowledgeFolderPaths,
+      knowledgeTags: agentData.knowledgeTags,
       knowledgeInjectionSnippetCount: agentData.knowledgeInjectionSnippetCount,
       knowledgeInjectionMinSimilarity:
         agentData.knowledgeInjectionMinSimilarity,
@@ -643,6 +664,7 @@ async function createAgentsAndNestedEntities(
       maxOutputTokens: agentData.maxOutputTokens,
       stopSequences: agentData.stopSequences,
       maxToolRoundtrips: agentData.maxToolRoundtrips,
+      outputSchema: agentData.outputSchema,
       clientTools: agentData.clientTools,
       widgetConfig: agentData.widgetConfig,
       avatar: agentData.avatar,
@@ -684,6 +706,7 @@ async function createAgentsAndNestedEntities(
           samplingProbability: judgeData.samplingProbability ?? 100,
           provider: judgeData.provider ?? "openrouter",
           modelName: judgeData.modelName,
+          fallbackModelNames: judgeData.fallbackModelNames,
           evalPrompt: judgeData.evalPrompt,
           version: 1,
           createdAt: new Date().toISOString(),
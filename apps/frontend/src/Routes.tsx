@@ -20,6 +20,7 @@ const ApiDocs = lazy(() => import("./pages/ApiDocs"));
 const Privacy = lazy(() => import("./pages/Privacy"));
 const TermsOfService = lazy(() => import("./pages/TermsOfService"));
 const AuthGate = lazy(() => import("./pages/AuthGate"));
+const SsoLogin = lazy(() => import("./pages/SsoLogin"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
 const RouteLoadingFallback: FC = () => {
@@ -59,6 +60,7 @@ export const AppRoutes: FC = () => {
         <Route path="/privacy" element={<Privacy />} />
         <Route path="/terms-of-service" element={<TermsOfService />} />
         <Route path="/auth/gate" element={<AuthGate />} />
+        <Route path="/auth/sso" element={<SsoLogin />} />
         <Route path="*" element={<NotFound />} />
       </Routes>
     </Suspense>
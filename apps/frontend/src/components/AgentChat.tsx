@@ -15,17 +15,27 @@ import {
 import type { FC } from "react";
 
 import { useAgentOptional } from "../hooks/useAgents";
-import { apiFetch, getAccessToken } from "../utils/api";
+import { apiFetch, getAccessToken, listToolApprovals } from "../utils/api";
 import { getDefaultAvatar } from "../utils/avatarUtils";
 import { lastAssistantMessageHasText } from "../utils/chatMessageParts";
+import {
+  TOOL_APPROVAL_POLL_INTERVAL_MS,
+  buildToolApprovalAnswerMessage,
+  findWaitingToolApprovalIds,
+  toToolApprovalAnswer,
+  type ToolApprovalAnswer,
+} from "../utils/toolApprovalAnswers";
 
 import { ChatMessage, type ChatMessageProps } from "./ChatMessage";
+import { MessageFeedback } from "./MessageFeedback";
 import { VirtualList } from "./VirtualList";
 
 interface AgentChatProps {
   workspaceId: string;
   agentId: string;
   api?: string; // Optional custom API endpoint URL
+  feedbackApi?: string; // Optional feedback endpoint; when set, agent replies can be rated
+  toolApprovalsApi?: string; // Optional widget endpoint listing the conversation's tool approval requests (the app uses the workspace API)
   onClear?: () => void; // Callback when conversation is cleared
   tools?: Record<
     string,
@@ -36,6 +46,8 @@ interface AgentChatProps {
   isWidget?: boolean; // If true, hide test message and use widget-appropriate styling
   enableFileUpload?: boolean; // If false, hide upload button and file input
   isEmbedded?: boolean; // If true, render without the outer frame
+  endUserId?: string; // Identifies the end user (widget), sent as X-End-User-Id for per-user agent memory
+  endUserIdSignature?: string; // Signature of endUserId made with an agent webhook key, sent as X-End-User-Signature
   /** Optional context-specific header (e.g. for meta-agent / configure-with-AI). When set, replaces the default "Test your agent" copy. */
   headerMessage?: React.ReactNode;
 }
@@ -61,6 +73,8 @@ export const AgentChat: FC<AgentChatProps> = ({
   workspaceId,
   agentId,
   api,
+  feedbackApi,
+  toolApprovalsApi,
   onClear,
   tools,
   agent: agentProp,
@@ -68,6 +82,8 @@ export const AgentChat: FC<AgentChatProps> = ({
   enableFileUpload = true,
   isEmbedded = false,
   headerMessage,
+  endUserId,
+  endUserIdSignature,
 }) => {
   // Use agent prop if provided, otherwise fetch from API
   // When agentProp is provided (e.g., in widget context), skip the query to avoid auth errors
@@ -200,6 +216,12 @@ export const AgentChat: FC<AgentChatProps> = ({
       // Add X-Conversation-Id header to the request
       const headers = new Headers(init?.headers);
       headers.set("X-Conversation-Id", conversationId);
+      if (endUserId) {
+        headers.set("X-End-User-Id", endUserId);
+      }
+      if (endUserIdSignature) {
+        headers.set("X-End-User-Signature", endUserIdSignature);
+      }
 
       // For cross-origin requests (Function URLs), explicitly add Authorization header
       // The global fetch override only adds it for same-origin requests
@@ -285,7 +307,7 @@ export const AgentChat: FC<AgentChatProps> = ({
         throw fetchError;
       }
     };
-  }, [conversationId]);
+  }, [conversationId, endUserId, endUserIdSignature]);
 
   // Determine credentials based on whether we're using a Function URL
   // Lambda Function URLs don't use cookies, so omit credentials
@@ -386,6 +408,81 @@ export const AgentChat: FC<AgentChatProps> = ({
     });
 
   const isLoading = status === "submitted" || status === "streaming";
+
+  // Tool calls that wait for approval: once the run resumes, its answer is
+  // stored on the approval request, so poll the requests and show the answer
+  const [settledToolApprovalIds, setSettledToolApprovalIds] = useState<
+    ReadonlySet<string>
+  >(() => new Set());
+  const waitingToolApprovalIds = useMemo(
+    () => findWaitingToolApprovalIds(messages, settledToolApprovalIds).join(","),
+    [messages, settledToolApprovalIds]
+  );
+  const canFetchToolApprovals = !!toolApprovalsApi || !isWidget;
+
+  const fetchToolApprovalAnswers = useCallback(async (): Promise<
+    ToolApprovalAnswer[]
+  > => {
+    if (toolApprovalsApi) {
+      const response = await fetch(
+        `${toolApprovalsApi}?${new URLSearchParams({ conversationId })}`
+      );
+      if (!response.ok) {
+        throw new Error(`Tool approvals request failed with ${response.status}`);
+      }
+      const data = (await response.json()) as {
+        approvals: ToolApprovalAnswer[];
+      };
+      return data.approvals;
+    }
+    const data = await listToolApprovals(
+      workspaceId,
+      agentId,
+      undefined,
+      undefined,
+      conversationId
+    );
+    return data.approvals.map(toToolApprovalAnswer);
+  }, [toolApprovalsApi, workspaceId, agentId, conversationId]);
+
+  useEffect(() => {
+    if (!waitingToolApprovalIds || isLoading || !canFetchToolApprovals) {
+      return;
+    }
+    const waitingIds = waitingToolApprovalIds.split(",");
+    let cancelled = false;
+    const interval = setInterval(async () => {
+      try {
+        const resumed = (await fetchToolApprovalAnswers()).filter(
+          (approval) => approval.resumed && waitingIds.includes(approval.id)
+        );
+        if (cancelled || resumed.length === 0) {
+          return;
+        }
+        setSettledToolApprovalIds(
+          (prev) => new Set([...prev, ...resumed.map(({ id }) => id)])
+        );
+        const answerMessages = resumed.flatMap(({ id, answer }) =>
+          answer ? [buildToolApprovalAnswerMessage(id, answer)] : []
+        );
+        if (answerMessages.length > 0) {
+          setMessages((prev) => [...prev, ...answerMessages]);
+        }
+      } catch (err) {
+        console.error("[AgentChat] Failed to check tool approvals:", err);
+      }
+    }, TOOL_APPROVAL_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [
+    waitingToolApprovalIds,
+    isLoading,
+    canFetchToolApprovals,
+    fetchToolApprovalAnswers,
+    setMessages,
+  ]);
   const lastAssistantMessageHasTextPart = useMemo(
     () => lastAssistantMessageHasText(messages),
     [messages]
@@ -402,6 +499,8 @@ export const AgentChat: FC<AgentChatProps> = ({
         index === messages.length - 1 &&
         (status === "streaming" || status === "submitted") &&
         message.role === "assistant";
+      const requestId = (message.metadata as { requestId?: unknown } | undefined)
+        ?.requestId;
       return (
         <div className="mb-4">
           <ChatMessage
@@ -410,10 +509,20 @@ export const AgentChat: FC<AgentChatProps> = ({
             isWidget={isWidget}
             isStreaming={isStreamingMessage}
           />
+          {feedbackApi &&
+            message.role === "assistant" &&
+            !isStreamingMessage &&
+            typeof requestId === "string" && (
+              <MessageFeedback
+                api={feedbackApi}
+                conversationId={conversationId}
+                messageId={requestId}
+              />
+            )}
         </div>
       );
     },
-    [messages.length, status, agent, isWidget]
+    [messages.length, status, agent, isWidget, feedbackApi, conversationId]
   );
 
   const handleInputChange = (
@@ -0,0 +1,175 @@
+import { useMemo, useState } from "react";
+import type { FC } from "react";
+
+import { useUpdateAgent } from "../hooks/useAgents";
+import { useFolders } from "../hooks/useDocuments";
+import { formatTagList, parseTagList } from "../utils/documentTags";
+
+interface AgentDocumentAccessProps {
+  workspaceId: string;
+  agentId: string;
+  folderPaths: string[] | null;
+  tags: string[] | null;
+}
+
+// Every folder with documents plus its parent folders, so a whole subtree can be selected
+const expandFolders = (folders: string[], selected: string[]): string[] => {
+  const all = new Set<string>();
+  for (const folder of [...folders, ...selected]) {
+    const parts = folder.split("/").filter((part) => part.length > 0);
+    for (let i = 1; i <= parts.length; i++) {
+      all.add(parts.slice(0, i).join("/"));
+    }
+  }
+  return Array.from(all).sort();
+};
+
+const isCoveredByParent = (folder: string, selected: string[]): boolean =>
+  selected.some((scope) => folder.startsWith(`${scope}/`));
+
+export const AgentDocumentAccess: FC<AgentDocumentAccessProps> = ({
+  workspaceId,
+  agentId,
+  folderPaths,
+  tags,
+}) => {
+  const updateAgent = useUpdateAgent(workspaceId, agentId);
+  const { data: folders } = useFolders(workspaceId);
+  const [restricted, setRestricted] = useState(
+    () => (folderPaths?.length ?? 0) > 0 || (tags?.length ?? 0) > 0
+  );
+  const [selected, setSelected] = useState<string[]>(() => folderPaths ?? []);
+  const [tagsInput, setTagsInput] = useState(() => formatTagList(tags));
+  const selectedTags = parseTagList(tagsInput);
+
+  const availableFolders = useMemo(
+    () => expandFolders(folders ?? [], selected),
+    [folders, selected]
+  );
+
+  const toggleFolder = (folder: string) => {
+    setSelected((current) =>
+      current.includes(folder)
+        ? current.filter((scope) => scope !== folder)
+        : // Selecting a folder already includes its subfolders
+          [
+            ...current.filter((scope) => !scope.startsWith(`${folder}/`)),
+            folder,
+          ]
+    );
+  };
+
+  const handleSave = async () => {
+    try {
+      const updated = await updateAgent.mutateAsync({
+        knowledgeFolderPaths: restricted && selected.length > 0 ? selected : null,
+        knowledgeTags: restricted && selectedTags.length > 0 ? selectedTags : null,
+      });
+      const savedFolders = updated.knowledgeFolderPaths ?? [];
+      const savedTags = updated.knowledgeTags ?? [];
+      setSelected(savedFolders);
+      setTagsInput(formatTagList(savedTags));
+      setRestricted(savedFolders.length > 0 || savedTags.length > 0);
+    } catch {
+      // Error is handled by toast in the hook
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm opacity-75 dark:text-neutral-300">
+        Choose which workspace documents this agent can read. The restriction
+        applies to the document search tool and to knowledge injection.
+        Knowledge graph facts learned from documents outside this scope are
+        left out of knowledge injection.
+      </p>
+      <div className="space-y-2">
+        <label className="flex cursor-pointer items-center gap-3">
+          <input
+            type="radio"
+            name="document-access"
+            checked={!restricted}
+            onChange={() => setRestricted(false)}
+          />
+          <span className="text-sm font-medium dark:text-neutral-300">
+            All workspace documents
+          </span>
+        </label>
+        <label className="flex cursor-pointer items-center gap-3">
+          <input
+            type="radio"
+            name="document-access"
+            checked={restricted}
+            onChange={() => setRestricted(true)}
+          />
+          <span className="text-sm font-medium dark:text-neutral-300">
+            Only documents in selected folders (and their subfolders) or with
+            selected tags
+          </span>
+        </label>
+      </div>
+      {restricted && (
+        <div className="rounded-lg border border-neutral-200 p-4 dark:border-neutral-700 dark:bg-surface-100">
+          {availableFolders.length === 0 ? (
+            <p className="text-sm opacity-75 dark:text-neutral-300">
+              This workspace has no document folders yet. Put documents in
+              folders to scope agents to them.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {availableFolders.map((folder) => {
+                const coveredByParent = isCoveredByParent(folder, selected);
+                return (
+                  <label
+                    key={folder}
+                    className="flex cursor-pointer items-center gap-3 text-sm dark:text-neutral-300"
+                    style={{
+                      paddingLeft: `${(folder.split("/").length - 1) * 1.25}rem`,
+                    }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={coveredByParent || selected.includes(folder)}
+                      disabled={coveredByParent}
+                      onChange={() => toggleFolder(folder)}
+                      className="rounded border-2 border-neutral-300"
+                    />
+                    <span className={coveredByParent ? "opacity-60" : ""}>
+                      {folder.split("/").pop()}
+                    </span>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+          <label className="mt-4 block">
+            <span className="text-sm font-medium dark:text-neutral-300">
+              Document tags
+            </span>
+            <input
+              type="text"
+              value={tagsInput}
+              onChange={(event) => setTagsInput(event.target.value)}
+              placeholder="e.g. public, onboarding"
+              className="mt-1 w-full rounded-xl border border-neutral-300 bg-white px-4 py-2.5 text-sm text-neutral-900 transition-colors focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:focus:border-blue-400 dark:focus:ring-blue-400/40"
+            />
+            <span className="mt-1 block text-xs opacity-75 dark:text-neutral-300">
+              Comma-separated. Documents carrying any of these tags are
+              readable wherever they are stored.
+            </span>
+          </label>
+        </div>
+      )}
+      <button
+        onClick={handleSave}
+        disabled={
+          updateAgent.isPending ||
+          (restricted && selected.length === 0 && selectedTags.length === 0)
+        }
+        className="rounded-xl bg-gradient-primary px-4 py-2.5 font-semibold text-white transition-all duration-200 hover:shadow-colored disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {updateAgent.isPending ? "Saving..." : "Save Document Access"}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import type { FC } from "react";
+import { useState } from "react";
+
+import { useUpdateAgent } from "../hooks/useAgents";
+
+import { FallbackModelsPicker } from "./FallbackModelsPicker";
+
+interface AgentFallbackModelsProps {
+  workspaceId: string;
+  agentId: string;
+  fallbackModelNames: string[];
+  primaryModelName: string;
+  availableModels: string[];
+  isLoadingModels: boolean;
+  isEditing: boolean;
+}
+
+const AgentFallbackModelsEditor: FC<
+  Omit<AgentFallbackModelsProps, "isEditing">
+> = ({
+  workspaceId,
+  agentId,
+  fallbackModelNames,
+  primaryModelName,
+  availableModels,
+  isLoadingModels,
+}) => {
+  const updateAgent = useUpdateAgent(workspaceId, agentId);
+  const [value, setValue] = useState<string[]>(fallbackModelNames);
+  const isChanged = value.join("\n") !== fallbackModelNames.join("\n");
+
+  const handleSave = async () => {
+    try {
+      await updateAgent.mutateAsync({
+        fallbackModelNames: value.filter((model) => model !== primaryModelName),
+      });
+    } catch {
+      // Error handled by toast
+    }
+  };
+
+  return (
+    <div className="mt-3">
+      <p className="mb-2 text-sm font-semibold dark:text-neutral-300">
+        Fallback models:
+      </p>
+      <div className="flex flex-wrap items-start gap-4">
+        <FallbackModelsPicker
+          value={value}
+          onChange={setValue}
+          availableModels={availableModels}
+          primaryModelName={primaryModelName}
+          disabled={isLoadingModels || updateAgent.isPending}
+        />
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={updateAgent.isPending || !isChanged}
+          className="rounded-lg bg-gradient-primary px-3 py-1.5 text-xs font-semibold text-white transition-all duration-200 hover:shadow-colored disabled:opacity-50"
+        >
+          {updateAgent.isPending ? "Saving..." : "Save"}
+        </button>
+      </div>
+      <p className="mt-2 text-xs text-neutral-500 dark:text-neutral-400">
+        Tried in order when the model is unavailable, rate limited or times out.
+        Applies to webhooks, bots, schedules and delegations; chat streaming
+        always uses the main model.
+      </p>
+    </div>
+  );
+};
+
+/**
+ * Fallback models of an agent: shown next to its model, editable in edit mode
+ */
+export const AgentFallbackModels: FC<AgentFallbackModelsProps> = ({
+  isEditing,
+  ...props
+}) => {
+  if (isEditing) {
+    // Remount with the saved list whenever it changes
+    return (
+      <AgentFallbackModelsEditor
+        key={props.fallbackModelNames.join("\n")}
+        {...props}
+      />
+    );
+  }
+  return props.fallbackModelNames.length > 0 ? (
+    <p className="mt-2 text-sm dark:text-neutral-300">
+      <span className="font-semibold">Fallback models: </span>
+      {props.fallbackModelNames.join(" → ")}
+    </p>
+  ) : null;
+};
@@ -7,14 +7,20 @@ import {
   type MouseEvent,
 } from "react";
 
-import { useAgentKnowledgeGraph } from "../hooks/useAgentKnowledgeGraph";
-import type { KnowledgeGraphFact } from "../utils/api";
+import {
+  useAgentKnowledgeGraph,
+  useCreateKnowledgeGraphFact,
+  useDeleteKnowledgeGraphFact,
+  useUpdateKnowledgeGraphFact,
+} from "../hooks/useAgentKnowledgeGraph";
+import type { KnowledgeGraphFact, KnowledgeGraphFactInput } from "../utils/api";
 import {
   buildKnowledgeGraphLayout,
   type KnowledgeGraphEdge,
   type KnowledgeGraphNode,
 } from "../utils/knowledgeGraph";
 
+import { MemoryEndUserSelect } from "./MemoryEndUserSelect";
 import { Slider } from "./Slider";
 
 interface AgentKnowledgeGraphProps {
@@ -27,6 +33,55 @@ type HoveredNode = KnowledgeGraphNode & { screenX: number; screenY: number };
 
 const DEFAULT_MAX_RESULTS = 200;
 
+const EMPTY_FACT: KnowledgeGraphFactInput = {
+  source_id: "",
+  label: "",
+  target_id: "",
+};
+
+const factInputClassName =
+  "w-full min-w-0 rounded-lg border border-neutral-300 bg-white px-2 py-1.5 text-xs text-neutral-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50";
+
+const isCompleteFact = (fact: KnowledgeGraphFactInput) =>
+  !!fact.source_id.trim() && !!fact.label.trim() && !!fact.target_id.trim();
+
+interface FactFieldsProps {
+  value: KnowledgeGraphFactInput;
+  onChange: (value: KnowledgeGraphFactInput) => void;
+}
+
+const FactFields: FC<FactFieldsProps> = ({ value, onChange }) => (
+  <>
+    <input
+      type="text"
+      aria-label="Subject"
+      placeholder="Subject"
+      value={value.source_id}
+      maxLength={500}
+      onChange={(event) => onChange({ ...value, source_id: event.target.value })}
+      className={factInputClassName}
+    />
+    <input
+      type="text"
+      aria-label="Predicate"
+      placeholder="Predicate"
+      value={value.label}
+      maxLength={200}
+      onChange={(event) => onChange({ ...value, label: event.target.value })}
+      className={factInputClassName}
+    />
+    <input
+      type="text"
+      aria-label="Object"
+      placeholder="Object"
+      value={value.target_id}
+      maxLength={500}
+      onChange={(event) => onChange({ ...value, target_id: event.target.value })}
+      className={factInputClassName}
+    />
+  </>
+);
+
 export const AgentKnowledgeGraph: FC<AgentKnowledgeGraphProps> = ({
   workspaceId,
   agentId,
@@ -38,6 +93,7 @@ export const AgentKnowledgeGraph: FC<AgentKnowledgeGraphProps> = ({
   const [appliedMaxResults, setAppliedMaxResults] = useState(
     DEFAULT_MAX_RESULTS,
   );
+  const [endUserId, setEndUserId] = useState<string | undefined>();
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [hoveredNode, setHoveredNode] = useState<HoveredNode | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -54,6 +110,12 @@ export const AgentKnowledgeGraph: FC<AgentKnowledgeGraphProps> = ({
   });
   const [zoom, setZoom] = useState(1);
   const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [newFact, setNewFact] = useState<KnowledgeGraphFactInput>(EMPTY_FACT);
+  const [editingFactId, setEditingFactId] = useState<string | null>(null);
+  const [editFact, setEditFact] = useState<KnowledgeGraphFactInput>(EMPTY_FACT);
+  const createFact = useCreateKnowledgeGraphFact(workspaceId, agentId);
+  const updateFact = useUpdateKnowledgeGraphFact(workspaceId, agentId);
+  const deleteFact = useDeleteKnowledgeGraphFact(workspaceId, agentId);
 
   const effectiveQueryText =
     appliedQueryText.trim().length > 0 ? appliedQueryText.trim() : undefined;
@@ -62,6 +124,7 @@ export const AgentKnowledgeGraph: FC<AgentKnowledgeGraphProps> = ({
     useAgentKnowledgeGraph(workspaceId, agentId, {
       queryText: effectiveQueryText,
       maxResults: appliedMaxResults,
+      endUserId,
     });
 
   const facts = useMemo(() => data?.facts ?? [], [data?.facts]);
@@ -117,6 +180,48 @@ export const AgentKnowledgeGraph: FC<AgentKnowledgeGraphProps> = ({
     void refetch();
   };
 
+  const handleAddFact = async () => {
+    try {
+      await createFact.mutateAsync({ ...newFact, endUserId });
+      setNewFact(EMPTY_FACT);
+    } catch {
+      // Error toast shown by the mutation
+    }
+  };
+
+  const handleStartEdit = (fact: KnowledgeGraphFact) => {
+    setEditingFactId(fact.id);
+    setEditFact({
+      source_id: fact.source_id,
+      label: fact.label,
+      target_id: fact.target_id,
+    });
+  };
+
+  const handleSaveEdit = async (factId: string) => {
+    try {
+      await updateFact.mutateAsync({ factId, endUserId, ...editFact });
+      setEditingFactId(null);
+    } catch {
+      // Error toast shown by the mutation
+    }
+  };
+
+  const handleDeleteFact = async (fact: KnowledgeGraphFact) => {
+    if (
+      !confirm(
+        `Are you sure you want to delete the fact "${fact.source_id} ${fact.label} ${fact.target_id}"?`,
+      )
+    ) {
+      return;
+    }
+    try {
+      await deleteFact.mutateAsync({ factId: fact.id, endUserId });
+    } catch {
+      // Error toast shown by the mutation
+    }
+  };
+
   const handleResetView = () => {
     setZoom(1);
     setPan({ x: 0, y: 0 });
@@ -151,7 +256,8 @@ export const AgentKnowledgeGraph: FC<AgentKnowledgeGraphProps> = ({
       <div className="mb-4">
         <p className="text-sm text-neutral-600 dark:text-neutral-300">
           Visualize the facts extracted for this agent. Click a node to highlight
-          connected relationships, and use search to filter results.
+          connected relationships, and use search to filter results. Add, edit
+          or delete facts to correct what the agent knows.
         </p>
         <p className="mt-2 text-xs text-neutral-500 dark:text-neutral-400">
           Scroll to zoom. Drag the background to pan.
@@ -192,6 +298,17 @@ export const AgentKnowledgeGraph: FC<AgentKnowledgeGraphProps> = ({
               onChange={(value) => setMaxResults(value ?? DEFAULT_MAX_RESULTS)}
             />
           </div>
+          <MemoryEndUserSelect
+            id="knowledge-graph-end-user"
+            workspaceId={workspaceId}
+            agentId={agentId}
+            value={endUserId}
+            onChange={(value) => {
+              setEndUserId(value);
+              setSelectedNodeId(null);
+              setEditingFactId(null);
+            }}
+          />
         </div>
         <div className="flex justify-end">
           <button
@@ -204,6 +321,23 @@ export const AgentKnowledgeGraph: FC<AgentKnowledgeGraphProps> = ({
         </div>
       </div>
 
+      <div className="space-y-2 rounded-lg border border-neutral-200 bg-neutral-50 p-4 dark:border-neutral-700 dark:bg-surface-100">
+        <div className="text-sm font-semibold dark:text-neutral-300">
+          Add a fact
+        </div>
+        <div className="grid grid-cols-1 gap-2 md:grid-cols-[1fr,1fr,1fr,auto]">
+          <FactFields value={newFact} onChange={setNewFact} />
+          <button
+            type="button"
+            onClick={handleAddFact}
+            disabled={createFact.isPending || !isCompleteFact(newFact)}
+            className="rounded-lg bg-gradient-primary px-4 py-1.5 text-xs font-semibold text-white transition-all duration-200 hover:shadow-colored disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {createFact.isPending ? "Adding..." : "Add"}
+          </button>
+        </div>
+      </div>
+
       {isLoading && facts.length === 0 && (
         <div className="py-8 text-center">
           <p className="text-sm text-neutral-600 dark:text-neutral-300">
@@ -431,11 +565,57 @@ export const AgentKnowledgeGraph: FC<AgentKnowledgeGraphProps> = ({
                   key={fact.id}
                   className="rounded-lg border border-neutral-200 bg-neutral-50 px-3 py-2 text-xs text-neutral-700 dark:border-neutral-700 dark:bg-surface-100 dark:text-neutral-200"
                 >
-                  <span className="font-semibold">{fact.source_id}</span>{" "}
-                  <span className="text-neutral-500 dark:text-neutral-400">
-                    {fact.label}
-                  </span>{" "}
-                  <span className="font-semibold">{fact.target_id}</span>
+                  {editingFactId === fact.id ? (
+                    <div className="space-y-2">
+                      <FactFields value={editFact} onChange={setEditFact} />
+                      <div className="flex justify-end gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setEditingFactId(null)}
+                          className="font-semibold text-neutral-600 hover:text-neutral-900 dark:text-neutral-300 dark:hover:text-neutral-50"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleSaveEdit(fact.id)}
+                          disabled={
+                            updateFact.isPending || !isCompleteFact(editFact)
+                          }
+                          className="font-semibold text-blue-600 hover:text-blue-700 disabled:cursor-not-allowed disabled:opacity-50 dark:text-blue-400 dark:hover:text-blue-300"
+                        >
+                          {updateFact.isPending ? "Saving..." : "Save"}
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <span className="font-semibold">{fact.source_id}</span>{" "}
+                        <span className="text-neutral-500 dark:text-neutral-400">
+                          {fact.label}
+                        </span>{" "}
+                        <span className="font-semibold">{fact.target_id}</span>
+                      </div>
+                      <div className="flex shrink-0 gap-2">
+                        <button
+                          type="button"
+                          onClick={() => handleStartEdit(fact)}
+                          className="font-semibold text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteFact(fact)}
+                          disabled={deleteFact.isPending}
+                          className="font-semibold text-red-600 hover:text-red-700 disabled:cursor-not-allowed disabled:opacity-50 dark:text-red-400 dark:hover:text-red-300"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  )}
                 </div>
               ))}
               {relatedFacts.length === 0 && (
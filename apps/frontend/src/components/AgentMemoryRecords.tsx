@@ -1,6 +1,11 @@
 import { useState, useEffect, useRef, type FC } from "react";
 
-import { useAgentMemory } from "../hooks/useAgentMemory";
+import {
+  useAgentMemory,
+  useCreateAgentMemoryRecord,
+  useDeleteAgentMemoryRecord,
+  useUpdateAgentMemoryRecord,
+} from "../hooks/useAgentMemory";
 import { useToast } from "../hooks/useToast";
 import {
   getAgentMemoryRecord,
@@ -9,6 +14,7 @@ import {
 } from "../utils/api";
 import { trackEvent } from "../utils/tracking";
 
+import { MemoryEndUserSelect } from "./MemoryEndUserSelect";
 import { ScrollContainer } from "./ScrollContainer";
 import { Slider } from "./Slider";
 import { VirtualList } from "./VirtualList";
@@ -26,6 +32,7 @@ export const AgentMemoryRecords: FC<AgentMemoryRecordsProps> = ({
   const scrollRef = useRef<HTMLDivElement>(null);
   const previewLength = 120;
   const [grain, setGrain] = useState<TemporalGrain>("working");
+  const [endUserId, setEndUserId] = useState<string | undefined>();
   const [queryText, setQueryText] = useState("");
   const [minimumDaysAgo, setMinimumDaysAgo] = useState(0);
   const [maximumDaysAgo, setMaximumDaysAgo] = useState(365);
@@ -40,6 +47,13 @@ export const AgentMemoryRecords: FC<AgentMemoryRecordsProps> = ({
     Record<string, boolean>
   >({});
   const [recordErrors, setRecordErrors] = useState<Record<string, string>>({});
+  const [isAdding, setIsAdding] = useState(false);
+  const [newContent, setNewContent] = useState("");
+  const [editingRecordId, setEditingRecordId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState("");
+  const createRecord = useCreateAgentMemoryRecord(workspaceId, agentId);
+  const updateRecord = useUpdateAgentMemoryRecord(workspaceId, agentId);
+  const deleteRecord = useDeleteAgentMemoryRecord(workspaceId, agentId);
 
   const { data, isLoading, error, refetch, isRefetching } = useAgentMemory(
     workspaceId,
@@ -51,6 +65,7 @@ export const AgentMemoryRecords: FC<AgentMemoryRecordsProps> = ({
       maximumDaysAgo,
       maxResults,
       previewLength,
+      endUserId,
     }
   );
 
@@ -82,7 +97,15 @@ export const AgentMemoryRecords: FC<AgentMemoryRecordsProps> = ({
     setFullContentById({});
     setLoadingRecordIds({});
     setRecordErrors({});
-  }, [data, grain, queryText, minimumDaysAgo, maximumDaysAgo, maxResults]);
+  }, [
+    data,
+    grain,
+    endUserId,
+    queryText,
+    minimumDaysAgo,
+    maximumDaysAgo,
+    maxResults,
+  ]);
 
   const formatTimestamp = (timestamp: string) => {
     return new Date(timestamp).toLocaleString();
@@ -103,6 +126,85 @@ export const AgentMemoryRecords: FC<AgentMemoryRecordsProps> = ({
     return content.replace(/\r?\n/g, "\\n");
   };
 
+  const loadFullContent = async (recordId: string) => {
+    const response = await getAgentMemoryRecord(
+      workspaceId,
+      agentId,
+      recordId,
+      grain,
+      endUserId
+    );
+    setFullContentById((prev) => ({
+      ...prev,
+      [recordId]: response.record.content,
+    }));
+    return response.record.content;
+  };
+
+  const handleAddRecord = async () => {
+    try {
+      await createRecord.mutateAsync({
+        grain,
+        content: newContent.trim(),
+        endUserId,
+      });
+      setNewContent("");
+      setIsAdding(false);
+    } catch {
+      // Error toast shown by the mutation
+    }
+  };
+
+  const handleStartEdit = async (record: AgentMemoryResult) => {
+    let content = fullContentById[record.id] ?? record.content;
+    if (record.isTruncated && !fullContentById[record.id]) {
+      setLoadingRecordIds((prev) => ({ ...prev, [record.id]: true }));
+      try {
+        content = await loadFullContent(record.id);
+      } catch (fetchError) {
+        toast.error(
+          fetchError instanceof Error
+            ? fetchError.message
+            : "Failed to load memory record"
+        );
+        return;
+      } finally {
+        setLoadingRecordIds((prev) => ({ ...prev, [record.id]: false }));
+      }
+    }
+    setEditContent(content);
+    setEditingRecordId(record.id);
+  };
+
+  const handleSaveEdit = async (recordId: string) => {
+    try {
+      await updateRecord.mutateAsync({
+        recordId,
+        grain,
+        content: editContent.trim(),
+        endUserId,
+      });
+      setEditingRecordId(null);
+    } catch {
+      // Error toast shown by the mutation
+    }
+  };
+
+  const handleDeleteRecord = async (recordId: string) => {
+    if (
+      !confirm(
+        "Are you sure you want to delete this memory record? The agent will no longer find it in memory search."
+      )
+    ) {
+      return;
+    }
+    try {
+      await deleteRecord.mutateAsync({ recordId, grain, endUserId });
+    } catch {
+      // Error toast shown by the mutation
+    }
+  };
+
   const handleToggleRecord = async (
     recordId: string,
     shouldLoadFull = false
@@ -123,16 +225,7 @@ export const AgentMemoryRecords: FC<AgentMemoryRecordsProps> = ({
     setRecordErrors((prev) => ({ ...prev, [recordId]: "" }));
 
     try {
-      const response = await getAgentMemoryRecord(
-        workspaceId,
-        agentId,
-        recordId,
-        grain
-      );
-      setFullContentById((prev) => ({
-        ...prev,
-        [recordId]: response.record.content,
-      }));
+      await loadFullContent(recordId);
     } catch (fetchError) {
       setRecordErrors((prev) => ({
         ...prev,
@@ -171,7 +264,8 @@ export const AgentMemoryRecords: FC<AgentMemoryRecordsProps> = ({
           Search and browse the agent&apos;s memory records across different
           temporal grains. Working memory contains the most recent, detailed
           facts, while higher-level grains contain progressively summarized
-          information.
+          information. Add, edit or delete records to correct what the agent
+          remembers.
         </p>
       </div>
 
@@ -207,6 +301,17 @@ export const AgentMemoryRecords: FC<AgentMemoryRecordsProps> = ({
           </div>
         </div>
 
+        <MemoryEndUserSelect
+          id="agent-memory-end-user"
+          workspaceId={workspaceId}
+          agentId={agentId}
+          value={endUserId}
+          onChange={(value) => {
+            setEndUserId(value);
+            setEditingRecordId(null);
+          }}
+        />
+
         <div>
           <label className="mb-2 block text-sm font-semibold dark:text-neutral-300">
             Search Query (Optional)
@@ -292,8 +397,53 @@ export const AgentMemoryRecords: FC<AgentMemoryRecordsProps> = ({
             <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-50">
               Memory Records ({data.records.length})
             </h3>
+            {!isAdding && (
+              <button
+                type="button"
+                onClick={() => setIsAdding(true)}
+                className="rounded-xl bg-gradient-primary px-4 py-2 text-sm font-semibold text-white transition-all duration-200 hover:shadow-colored"
+              >
+                Add memory
+              </button>
+            )}
           </div>
 
+          {isAdding && (
+            <div className="space-y-3 rounded-xl border-2 border-primary-200 bg-white p-4 dark:border-primary-800 dark:bg-surface-50">
+              <label className="block text-sm font-semibold dark:text-neutral-300">
+                New memory in {grainLabels[grain]}
+              </label>
+              <textarea
+                value={newContent}
+                onChange={(e) => setNewContent(e.target.value)}
+                rows={4}
+                maxLength={20000}
+                placeholder="e.g., The customer prefers to be contacted by email."
+                className="w-full rounded-xl border-2 border-neutral-300 bg-white px-4 py-2.5 text-sm text-neutral-900 transition-all duration-200 focus:border-blue-500 focus:outline-none focus:ring-4 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:focus:border-blue-400 dark:focus:ring-blue-400/40"
+              />
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setIsAdding(false);
+                    setNewContent("");
+                  }}
+                  className="rounded-xl border-2 border-neutral-300 px-4 py-2 text-sm font-semibold text-neutral-700 transition-all duration-200 hover:bg-neutral-50 dark:border-neutral-700 dark:text-neutral-300 dark:hover:bg-neutral-800"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleAddRecord}
+                  disabled={createRecord.isPending || !newContent.trim()}
+                  className="rounded-xl bg-gradient-primary px-4 py-2 text-sm font-semibold text-white transition-all duration-200 hover:shadow-colored disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {createRecord.isPending ? "Adding..." : "Add"}
+                </button>
+              </div>
+            </div>
+          )}
+
           <ScrollContainer ref={scrollRef} maxHeight="min(60vh, 500px)">
             <VirtualList<AgentMemoryResult>
               scrollRef={scrollRef}
@@ -314,51 +464,84 @@ export const AgentMemoryRecords: FC<AgentMemoryRecordsProps> = ({
                           {formatTimestamp(record.timestamp)}
                         </span>
                       </div>
-                      {record.isTruncated && expandedRecordIds[record.id] && (
-                        <div className="mb-2 flex items-center justify-start text-xs text-neutral-600 dark:text-neutral-300">
-                          <button
-                            type="button"
-                            onClick={() => handleToggleRecord(record.id, true)}
-                            className="font-semibold text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
-                          >
-                            Show less
-                          </button>
-                        </div>
-                      )}
-                      <div className="whitespace-pre-wrap break-words text-sm text-neutral-900 dark:text-neutral-50">
-                        {expandedRecordIds[record.id] &&
-                        fullContentById[record.id]
-                          ? fullContentById[record.id]
-                          : `${formatPreviewContent(record.content)}${
-                              record.isTruncated ? "..." : ""
-                            }`}
-                      </div>
-                      {record.isTruncated && !expandedRecordIds[record.id] && (
-                        <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-neutral-600 dark:text-neutral-300">
-                          <button
-                            type="button"
-                            onClick={() => handleToggleRecord(record.id, true)}
-                            className="font-semibold text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
-                          >
-                            Show more
-                          </button>
+                      {editingRecordId === record.id ? (
+                        <div className="space-y-2">
+                          <textarea
+                            value={editContent}
+                            onChange={(e) => setEditContent(e.target.value)}
+                            rows={6}
+                            maxLength={20000}
+                            className="w-full rounded-xl border-2 border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-900 focus:border-blue-500 focus:outline-none focus:ring-4 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:focus:border-blue-400 dark:focus:ring-blue-400/40"
+                          />
+                          <div className="flex justify-end gap-2">
+                            <button
+                              type="button"
+                              onClick={() => setEditingRecordId(null)}
+                              className="rounded-lg border border-neutral-300 px-3 py-1.5 text-xs font-semibold text-neutral-700 hover:bg-neutral-50 dark:border-neutral-700 dark:text-neutral-300 dark:hover:bg-neutral-800"
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleSaveEdit(record.id)}
+                              disabled={
+                                updateRecord.isPending || !editContent.trim()
+                              }
+                              className="rounded-lg bg-gradient-primary px-3 py-1.5 text-xs font-semibold text-white transition-all duration-200 hover:shadow-colored disabled:cursor-not-allowed disabled:opacity-50"
+                            >
+                              {updateRecord.isPending ? "Saving..." : "Save"}
+                            </button>
+                          </div>
                         </div>
-                      )}
-                      {record.isTruncated &&
-                        expandedRecordIds[record.id] &&
-                        (loadingRecordIds[record.id] ||
-                          recordErrors[record.id]) && (
-                          <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-neutral-600 dark:text-neutral-300">
-                            {loadingRecordIds[record.id] && (
-                              <span>Loading full memory...</span>
-                            )}
-                            {recordErrors[record.id] && (
-                              <span className="text-red-600 dark:text-red-300">
-                                {recordErrors[record.id]}
-                              </span>
-                            )}
+                      ) : (
+                        <>
+                          {record.isTruncated && expandedRecordIds[record.id] && (
+                            <div className="mb-2 flex items-center justify-start text-xs text-neutral-600 dark:text-neutral-300">
+                              <button
+                                type="button"
+                                onClick={() => handleToggleRecord(record.id, true)}
+                                className="font-semibold text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+                              >
+                                Show less
+                              </button>
+                            </div>
+                          )}
+                          <div className="whitespace-pre-wrap break-words text-sm text-neutral-900 dark:text-neutral-50">
+                            {expandedRecordIds[record.id] &&
+                            fullContentById[record.id]
+                              ? fullContentById[record.id]
+                              : `${formatPreviewContent(record.content)}${
+                                  record.isTruncated ? "..." : ""
+                                }`}
                           </div>
-                        )}
+                          {record.isTruncated && !expandedRecordIds[record.id] && (
+                            <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-neutral-600 dark:text-neutral-300">
+                              <button
+                                type="button"
+                                onClick={() => handleToggleRecord(record.id, true)}
+                                className="font-semibold text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+                              >
+                                Show more
+                              </button>
+                            </div>
+                          )}
+                          {record.isTruncated &&
+                            expandedRecordIds[record.id] &&
+                            (loadingRecordIds[record.id] ||
+                              recordErrors[record.id]) && (
+                              <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-neutral-600 dark:text-neutral-300">
+                                {loadingRecordIds[record.id] && (
+                                  <span>Loading full memory...</span>
+                                )}
+                                {recordErrors[record.id] && (
+                                  <span className="text-red-600 dark:text-red-300">
+                                    {recordErrors[record.id]}
+                                  </span>
+                                )}
+                              </div>
+                            )}
+                        </>
+                      )}
                       {record.metadata &&
                         Object.keys(record.metadata).length > 0 && (
                           <details className="mt-2">
@@ -371,17 +554,38 @@ export const AgentMemoryRecords: FC<AgentMemoryRecordsProps> = ({
                           </details>
                         )}
                     </div>
-                    <button
-                      onClick={() =>
-                        handleCopyContent(
-                          fullContentById[record.id] ?? record.content
-                        )
-                      }
-                      className="ml-4 whitespace-nowrap rounded-lg bg-gradient-primary px-3 py-1.5 text-xs font-semibold text-white transition-all duration-200 hover:shadow-colored"
-                      title="Copy content"
-                    >
-                      Copy
-                    </button>
+                    <div className="ml-4 flex flex-col gap-2">
+                      <button
+                        onClick={() =>
+                          handleCopyContent(
+                            fullContentById[record.id] ?? record.content
+                          )
+                        }
+                        className="whitespace-nowrap rounded-lg bg-gradient-primary px-3 py-1.5 text-xs font-semibold text-white transition-all duration-200 hover:shadow-colored"
+                        title="Copy content"
+                      >
+                        Copy
+                      </button>
+                      <button
+                        onClick={() => handleStartEdit(record)}
+                        disabled={
+                          editingRecordId === record.id ||
+                          loadingRecordIds[record.id]
+                        }
+                        className="whitespace-nowrap rounded-lg border border-neutral-300 px-3 py-1.5 text-xs font-semibold text-neutral-700 transition-all duration-200 hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:text-neutral-300 dark:hover:bg-neutral-800"
+                        title="Edit content"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDeleteRecord(record.id)}
+                        disabled={deleteRecord.isPending}
+                        className="whitespace-nowrap rounded-lg border border-red-300 px-3 py-1.5 text-xs font-semibold text-red-700 transition-all duration-200 hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-red-800 dark:text-red-300 dark:hover:bg-red-950"
+                        title="Delete record"
+                      >
+                        Delete
+                      </button>
+                    </div>
                   </div>
                 </div>
               )}
@@ -1,19 +1,30 @@
-import { useRef, useState } from "react";
+import { lazy, Suspense, useMemo, useRef, useState } from "react";
 import type { FC } from "react";
 
 import {
+  useAgentScheduleRuns,
   useAgentSchedulesInfinite,
   useDeleteAgentSchedule,
   useUpdateAgentSchedule,
 } from "../hooks/useAgentSchedules";
-import type { AgentSchedule } from "../utils/api";
-import { describeCronExpression } from "../utils/scheduleCron";
+import type { AgentSchedule, AgentScheduleRun } from "../utils/api";
+import { formatCurrency } from "../utils/currency";
+import {
+  DEFAULT_TIMEZONE,
+  describeCronExpression,
+} from "../utils/scheduleCron";
 import { trackEvent } from "../utils/tracking";
 
 import { AgentScheduleModal } from "./AgentScheduleModal";
 import { ScrollContainer } from "./ScrollContainer";
 import { VirtualList } from "./VirtualList";
 
+const ConversationDetailModal = lazy(() =>
+  import("./ConversationDetailModal").then((module) => ({
+    default: module.ConversationDetailModal,
+  }))
+);
+
 interface AgentScheduleListProps {
   workspaceId: string;
   agentId: string;
@@ -44,6 +55,158 @@ const formatUtcIso = (value: string | null): string => {
   return formatUtcFromDate(date);
 };
 
+const RUN_STATUS_CLASSES: Record<AgentScheduleRun["status"], string> = {
+  running:
+    "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200",
+  succeeded:
+    "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200",
+};
+
+const describeDelivery = (schedule: AgentSchedule): string | null => {
+  if (!schedule.delivery) return null;
+  if (schedule.delivery.type === "channel") {
+    return "Sends the result to an output channel";
+  }
+  const count = schedule.delivery.recipients.length;
+  return `Emails the result to ${count} recipient${count === 1 ? "" : "s"}`;
+};
+
+const formatRunDuration = (run: AgentScheduleRun): string | null => {
+  if (!run.endedAt) return null;
+  const ms = new Date(run.endedAt).getTime() - new Date(run.startedAt).getTime();
+  if (Number.isNaN(ms) || ms < 0) return null;
+  if (ms < 1000) return `${ms} ms`;
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const ScheduleRunHistory: FC<{
+  workspaceId: string;
+  agentId: string;
+  scheduleId: string;
+}> = ({ workspaceId, agentId, scheduleId }) => {
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } =
+    useAgentScheduleRuns(workspaceId, agentId, scheduleId);
+  const [selectedConversationId, setSelectedConversationId] = useState<
+    string | null
+  >(null);
+
+  const runs = useMemo(
+    () => data?.pages.flatMap((p) => p.runs) ?? [],
+    [data],
+  );
+
+  if (isLoading) {
+    return (
+      <p className="text-sm text-neutral-600 dark:text-neutral-300">
+        Loading runs...
+      </p>
+    );
+  }
+  if (runs.length === 0) {
+    return (
+      <p className="text-sm text-neutral-600 dark:text-neutral-300">
+        No runs in the last 90 days.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {runs.map((run) => {
+        const duration = formatRunDuration(run);
+        return (
+          <div
+            key={run.id}
+            className="rounded-lg border border-neutral-200 p-3 text-sm dark:border-neutral-700"
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <span
+                className={`rounded px-2 py-0.5 text-xs font-semibold ${RUN_STATUS_CLASSES[run.status]}`}
+              >
+                {run.status}
+              </span>
+              <span className="text-neutral-600 dark:text-neutral-300">
+                {new Date(run.startedAt).toLocaleString()}
+              </span>
+              {duration && (
+                <span className="text-neutral-600 dark:text-neutral-300">
+                  took {duration}
+                </span>
+              )}
+              {run.costUsd !== null && (
+                <span className="text-neutral-600 dark:text-neutral-300">
+                  {formatCurrency(run.costUsd, "usd", 10)}
+                </span>
+              )}
+              {run.deliveryStatus && (
+                <span
+                  className={`rounded px-2 py-0.5 text-xs font-semibold ${
+                    run.deliveryStatus === "sent"
+                      ? RUN_STATUS_CLASSES.succeeded
+                      : RUN_STATUS_CLASSES.failed
+                  }`}
+                >
+                  {run.deliveryStatus === "sent" ? "delivered" : "delivery failed"}
+                </span>
+              )}
+              {run.conversationId && run.status !== "running" && (
+                <button
+                  onClick={() => setSelectedConversationId(run.conversationId)}
+                  className="text-sm font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+                >
+                  View conversation
+                </button>
+              )}
+            </div>
+            {run.error && (
+              <div className="mt-1 text-xs text-red-700 dark:text-red-300">
+                {run.error}
+              </div>
+            )}
+            {run.deliveryError && (
+              <div className="mt-1 text-xs text-red-700 dark:text-red-300">
+                Delivery: {run.deliveryError}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {hasNextPage && (
+        <button
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+          className="text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          {isFetchingNextPage ? "Loading..." : "Load more"}
+        </button>
+      )}
+      {selectedConversationId && (
+        <Suspense
+          fallback={
+            <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+              <div className="rounded-xl border border-neutral-200 bg-white p-8 shadow-xl dark:border-neutral-700 dark:bg-surface-50">
+                <div className="text-2xl font-semibold">
+                  Loading conversation...
+                </div>
+              </div>
+            </div>
+          }
+        >
+          <ConversationDetailModal
+            isOpen={!!selectedConversationId}
+            onClose={() => setSelectedConversationId(null)}
+            workspaceId={workspaceId}
+            agentId={agentId}
+            conversationId={selectedConversationId}
+          />
+        </Suspense>
+      )}
+    </div>
+  );
+};
 
 const ScheduleItem: FC<ScheduleItemProps> = ({
   schedule,
@@ -62,6 +225,7 @@ const ScheduleItem: FC<ScheduleItemProps> = ({
     agentId,
     schedule.id
   );
+  const [showRuns, setShowRuns] = useState(false);
 
   const handleToggleEnabled = async () => {
     try {
@@ -79,93 +243,122 @@ const ScheduleItem: FC<ScheduleItemProps> = ({
     }
   };
 
-  const scheduleDescription = describeCronExpression(schedule.cronExpression);
+  const timezone = schedule.timezone || DEFAULT_TIMEZONE;
+  const scheduleDescription = describeCronExpression(
+    schedule.cronExpression,
+    timezone
+  );
+  const deliveryDescription = describeDelivery(schedule);
 
   return (
-    <div className="flex items-center justify-between rounded-xl border-2 border-neutral-300 bg-white p-6 transition-all duration-200 hover:scale-[1.01] hover:shadow-bold active:scale-[0.99] dark:border-neutral-700 dark:bg-surface-50">
-      <div className="flex-1">
-        <div className="flex items-center gap-2">
-          <div className="text-lg font-semibold text-neutral-900 dark:text-neutral-50">
-            {schedule.name}
+    <div className="rounded-xl border-2 border-neutral-300 bg-white p-6 transition-all duration-200 hover:shadow-bold dark:border-neutral-700 dark:bg-surface-50">
+      <div className="flex items-center justify-between">
+        <div className="flex-1">
+          <div className="flex items-center gap-2">
+            <div className="text-lg font-semibold text-neutral-900 dark:text-neutral-50">
+              {schedule.name}
+            </div>
+            {schedule.enabled ? (
+              <span className="rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800 dark:bg-green-900 dark:text-green-200">
+                Enabled
+              </span>
+            ) : (
+              <span className="rounded-full bg-neutral-100 px-2 py-0.5 text-xs font-medium text-neutral-800 dark:bg-surface-100 dark:text-neutral-200">
+                Disabled
+              </span>
+            )}
           </div>
-          {schedule.enabled ? (
-            <span className="rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800 dark:bg-green-900 dark:text-green-200">
-              Enabled
-            </span>
-          ) : (
-            <span className="rounded-full bg-neutral-100 px-2 py-0.5 text-xs font-medium text-neutral-800 dark:bg-surface-100 dark:text-neutral-200">
-              Disabled
-            </span>
+          <div className="mt-1 text-sm text-neutral-600 dark:text-neutral-400">
+            {scheduleDescription}
+          </div>
+          {scheduleDescription === `Custom schedule (${timezone})` && (
+            <div className="mt-1 text-xs text-neutral-500 dark:text-neutral-500">
+              Advanced: {schedule.cronExpression}
+            </div>
           )}
-        </div>
-        <div className="mt-1 text-sm text-neutral-600 dark:text-neutral-400">
-          {scheduleDescription}
-        </div>
-        {scheduleDescription === "Custom schedule (UTC)" && (
           <div className="mt-1 text-xs text-neutral-500 dark:text-neutral-500">
-            Advanced: {schedule.cronExpression}
+            Next run: {formatUtc(schedule.nextRunAt)} · Last run:{" "}
+            {formatUtcIso(schedule.lastRunAt)}
           </div>
-        )}
-        <div className="mt-1 text-xs text-neutral-500 dark:text-neutral-500">
-          Next run: {formatUtc(schedule.nextRunAt)} · Last run:{" "}
-          {formatUtcIso(schedule.lastRunAt)}
+          {deliveryDescription && (
+            <div className="mt-1 text-xs text-neutral-500 dark:text-neutral-500">
+              {deliveryDescription}
+            </div>
+          )}
         </div>
-      </div>
-      {canEdit && (
         <div className="flex gap-2">
           <button
-            onClick={handleToggleEnabled}
-            disabled={updateSchedule.isPending}
-            className={`rounded-xl px-4 py-2 text-sm font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
-              schedule.enabled
-                ? "border border-orange-300 bg-white text-orange-600 hover:bg-orange-50 dark:border-orange-600 dark:bg-surface-50 dark:text-orange-400 dark:hover:bg-orange-950"
-                : "border border-green-300 bg-white text-green-600 hover:bg-green-50 dark:border-green-600 dark:bg-surface-50 dark:text-green-400 dark:hover:bg-green-950"
-            }`}
-          >
-            {updateSchedule.isPending
-              ? "Updating..."
-              : schedule.enabled
-              ? "Disable"
-              : "Enable"}
-          </button>
-          <button
-            onClick={() => {
-              trackEvent("agent_schedule_edit_started", {
-                workspace_id: workspaceId,
-                agent_id: agentId,
-                schedule_id: schedule.id,
-              });
-              onEdit(schedule.id);
-            }}
+            onClick={() => setShowRuns(!showRuns)}
             className="rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium text-neutral-700 transition-colors hover:bg-neutral-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-300 dark:hover:bg-neutral-800"
           >
-            Edit
-          </button>
-          <button
-            onClick={async () => {
-              if (
-                !confirm(
-                  "Are you sure you want to delete this schedule? This action cannot be undone."
-                )
-              ) {
-                return;
-              }
-              try {
-                await deleteSchedule.mutateAsync();
-                trackEvent("agent_schedule_deleted", {
-                  workspace_id: workspaceId,
-                  agent_id: agentId,
-                  schedule_id: schedule.id,
-                });
-              } catch {
-                // Error handled by toast
-              }
-            }}
-            disabled={deleteSchedule.isPending}
-            className="rounded-xl bg-error-600 px-4 py-2.5 text-sm font-semibold text-white transition-colors hover:bg-error-700 disabled:cursor-not-allowed disabled:opacity-50"
-          >
-            {deleteSchedule.isPending ? "Deleting..." : "Delete"}
+            {showRuns ? "Hide run history" : "Run history"}
           </button>
+          {canEdit && (
+            <>
+              <button
+                onClick={handleToggleEnabled}
+                disabled={updateSchedule.isPending}
+                className={`rounded-xl px-4 py-2 text-sm font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+                  schedule.enabled
+                    ? "border border-orange-300 bg-white text-orange-600 hover:bg-orange-50 dark:border-orange-600 dark:bg-surface-50 dark:text-orange-400 dark:hover:bg-orange-950"
+                    : "border border-green-300 bg-white text-green-600 hover:bg-green-50 dark:border-green-600 dark:bg-surface-50 dark:text-green-400 dark:hover:bg-green-950"
+                }`}
+              >
+                {updateSchedule.isPending
+                  ? "Updating..."
+                  : schedule.enabled
+                  ? "Disable"
+                  : "Enable"}
+              </button>
+              <button
+                onClick={() => {
+                  trackEvent("agent_schedule_edit_started", {
+                    workspace_id: workspaceId,
+                    agent_id: agentId,
+                    schedule_id: schedule.id,
+                  });
+                  onEdit(schedule.id);
+                }}
+                className="rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium text-neutral-700 transition-colors hover:bg-neutral-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-300 dark:hover:bg-neutral-800"
+              >
+                Edit
+              </button>
+              <button
+                onClick={async () => {
+                  if (
+                    !confirm(
+                      "Are you sure you want to delete this schedule? This action cannot be undone."
+                    )
+                  ) {
+                    return;
+                  }
+                  try {
+                    await deleteSchedule.mutateAsync();
+                    trackEvent("agent_schedule_deleted", {
+                      workspace_id: workspaceId,
+                      agent_id: agentId,
+                      schedule_id: schedule.id,
+                    });
+                  } catch {
+                    // Error handled by toast
+                  }
+                }}
+                disabled={deleteSchedule.isPending}
+                className="rounded-xl bg-error-600 px-4 py-2.5 text-sm font-semibold text-white transition-colors hover:bg-error-700 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {deleteSchedule.isPending ? "Deleting..." : "Delete"}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      {showRuns && (
+        <div className="mt-4 border-t border-neutral-200 pt-4 dark:border-neutral-700">
+          <ScheduleRunHistory
+            workspaceId={workspaceId}
+            agentId={agentId}
+            scheduleId={schedule.id}
+          />
         </div>
       )}
     </div>
@@ -212,7 +405,8 @@ export const AgentScheduleList: FC<AgentScheduleListProps> = ({
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <p className="text-sm text-neutral-600 dark:text-neutral-300">
-          All times are in UTC.
+          Schedules run in their own timezone. Next and last run times are
+          shown in UTC.
         </p>
         {canEdit && (
           <button
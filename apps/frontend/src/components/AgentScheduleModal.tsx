@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from "react";
+import { Suspense, useEffect, useMemo, useState } from "react";
 import type { FC } from "react";
 
 import { useDialogTracking } from "../contexts/DialogContext";
@@ -6,12 +6,15 @@ import {
   useCreateAgentSchedule,
   useUpdateAgentSchedule,
 } from "../hooks/useAgentSchedules";
+import { useChannels } from "../hooks/useChannels";
 import { useEscapeKey } from "../hooks/useEscapeKey";
-import type { AgentSchedule } from "../utils/api";
+import type { AgentSchedule, AgentScheduleDelivery } from "../utils/api";
 import {
   DAYS_OF_WEEK,
   buildCronExpression,
   describeSchedule,
+  getBrowserTimezone,
+  getSupportedTimezones,
   parseCronExpression,
   type ScheduleFrequency,
 } from "../utils/scheduleCron";
@@ -28,6 +31,57 @@ const FREQUENCY_OPTIONS: Array<{
   { value: "custom", label: "Advanced (custom)" },
 ];
 
+const PROMPT_VARIABLES = [
+  "{{now}}",
+  "{{date}}",
+  "{{lastRunAt}}",
+  "{{lastRunSummary}}",
+  "{{workspaceName}}",
+  "{{agentName}}",
+  "{{scheduleName}}",
+];
+
+type DeliveryType = "none" | AgentScheduleDelivery["type"];
+
+const INPUT_CLASS_NAME =
+  "w-full rounded-xl border border-neutral-300 bg-white px-4 py-2.5 text-neutral-900 transition-colors focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:focus:border-blue-400 dark:focus:ring-blue-400/40";
+
+const parseRecipients = (value: string): string[] =>
+  value
+    .split(/[,\s]+/)
+    .map((recipient) => recipient.trim())
+    .filter((recipient) => recipient.length > 0);
+
+const DeliveryChannelSelect: FC<{
+  workspaceId: string;
+  value: string;
+  onChange: (channelId: string) => void;
+}> = ({ workspaceId, value, onChange }) => {
+  const { data: channels } = useChannels(workspaceId);
+  return (
+    <>
+      <select
+        id="schedule-delivery-channel"
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        className={INPUT_CLASS_NAME}
+      >
+        <option value="">Select a channel...</option>
+        {channels.map((channel) => (
+          <option key={channel.id} value={channel.id}>
+            {channel.name} ({channel.type})
+          </option>
+        ))}
+      </select>
+      {channels.length === 0 && (
+        <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+          This workspace has no output channels yet.
+        </p>
+      )}
+    </>
+  );
+};
+
 interface AgentScheduleModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -75,7 +129,31 @@ export const AgentScheduleModal: FC<AgentScheduleModalProps> = ({
   const [customCron, setCustomCron] = useState(
     () => initialScheduleState.customCron
   );
+  const [timezone, setTimezone] = useState(
+    () => schedule?.timezone ?? getBrowserTimezone()
+  );
+  const timezoneOptions = useMemo(() => {
+    const options = getSupportedTimezones();
+    // Keep the current value selectable even if this browser does not list it
+    return options.includes(timezone) ? options : [timezone, ...options];
+  }, [timezone]);
   const [prompt, setPrompt] = useState(() => schedule?.prompt ?? "");
+  const [deliveryType, setDeliveryType] = useState<DeliveryType>(
+    () => schedule?.delivery?.type ?? "none"
+  );
+  const [deliveryChannelId, setDeliveryChannelId] = useState(() =>
+    schedule?.delivery?.type === "channel" ? schedule.delivery.channelId : ""
+  );
+  const [deliveryRecipients, setDeliveryRecipients] = useState(() =>
+    schedule?.delivery?.type === "email"
+      ? schedule.delivery.recipients.join(", ")
+      : ""
+  );
+  const [deliverySubject, setDeliverySubject] = useState(() =>
+    schedule?.delivery?.type === "email"
+      ? schedule.delivery.subjectTemplate ?? ""
+      : ""
+  );
   const [enabled, setEnabled] = useState(() => schedule?.enabled ?? true);
 
   const { registerDialog, unregisterDialog } = useDialogTracking();
@@ -106,19 +184,49 @@ export const AgentScheduleModal: FC<AgentScheduleModalProps> = ({
   );
   const scheduleDescription = useMemo(
     () =>
-      describeSchedule({
-        frequency,
-        timeOfDay,
-        minuteOfHour,
-        dayOfMonth,
-        dayOfWeek,
-      }),
-    [frequency, timeOfDay, minuteOfHour, dayOfMonth, dayOfWeek]
+      describeSchedule(
+        {
+          frequency,
+          timeOfDay,
+          minuteOfHour,
+          dayOfMonth,
+          dayOfWeek,
+        },
+        timezone
+      ),
+    [frequency, timeOfDay, minuteOfHour, dayOfMonth, dayOfWeek, timezone]
   );
 
+  const delivery = useMemo((): AgentScheduleDelivery | null | undefined => {
+    if (deliveryType === "channel") {
+      return deliveryChannelId
+        ? { type: "channel", channelId: deliveryChannelId }
+        : undefined;
+    }
+    if (deliveryType === "email") {
+      const recipients = parseRecipients(deliveryRecipients);
+      if (recipients.length === 0) return undefined;
+      return {
+        type: "email",
+        recipients,
+        ...(deliverySubject.trim() && {
+          subjectTemplate: deliverySubject.trim(),
+        }),
+      };
+    }
+    return null;
+  }, [deliveryType, deliveryChannelId, deliveryRecipients, deliverySubject]);
+  // undefined means a delivery target was chosen but is incomplete
+  const isDeliveryValid = delivery !== undefined;
+
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
-    if (!name.trim() || !cronExpression.trim() || !prompt.trim()) {
+    if (
+      !name.trim() ||
+      !cronExpression.trim() ||
+      !prompt.trim() ||
+      !isDeliveryValid
+    ) {
       return;
     }
 
@@ -127,7 +235,9 @@ export const AgentScheduleModal: FC<AgentScheduleModalProps> = ({
         const updatedSchedule = await updateSchedule.mutateAsync({
           name: name.trim(),
           cronExpression: cronExpression.trim(),
+          timezone,
           prompt: prompt.trim(),
+          delivery,
           enabled,
         });
         trackEvent("agent_schedule_updated", {
@@ -137,12 +247,15 @@ export const AgentScheduleModal: FC<AgentScheduleModalProps> = ({
           frequency,
           enabled: updatedSchedule.enabled,
           is_custom: frequency === "custom",
+          delivery_type: deliveryType,
         });
       } else {
         const createdSchedule = await createSchedule.mutateAsync({
           name: name.trim(),
           cronExpression: cronExpression.trim(),
+          timezone,
           prompt: prompt.trim(),
+          delivery: delivery ?? undefined,
           enabled,
         });
         trackEvent("agent_schedule_created", {
@@ -152,6 +265,7 @@ export const AgentScheduleModal: FC<AgentScheduleModalProps> = ({
           frequency,
           enabled: createdSchedule.enabled,
           is_custom: frequency === "custom",
+          delivery_type: deliveryType,
         });
       }
       handleClose();
@@ -223,7 +337,7 @@ export const AgentScheduleModal: FC<AgentScheduleModalProps> = ({
                 htmlFor="schedule-minute"
                 className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300"
               >
-                Minute of the hour (UTC)
+                Minute of the hour
               </label>
               <input
                 id="schedule-minute"
@@ -235,7 +349,7 @@ export const AgentScheduleModal: FC<AgentScheduleModalProps> = ({
                 className="w-full rounded-xl border border-neutral-300 bg-white px-4 py-2.5 text-neutral-900 transition-colors focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:focus:border-blue-400 dark:focus:ring-blue-400/40"
               />
               <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
-                Runs at that minute every hour (UTC).
+                Runs at that minute every hour.
               </p>
             </div>
           )}
@@ -248,7 +362,7 @@ export const AgentScheduleModal: FC<AgentScheduleModalProps> = ({
                 htmlFor="schedule-time"
                 className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300"
               >
-                Time of day (UTC)
+                Time of day
               </label>
               <input
                 id="schedule-time"
@@ -258,7 +372,8 @@ export const AgentScheduleModal: FC<AgentScheduleModalProps> = ({
                 className="w-full rounded-xl border border-neutral-300 bg-white px-4 py-2.5 text-neutral-900 transition-colors focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:focus:border-blue-400 dark:focus:ring-blue-400/40"
               />
               <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
-                Times are always in UTC.
+                Local time in the selected timezone, adjusted for daylight
+                saving time.
               </p>
             </div>
           )}
@@ -327,11 +442,33 @@ export const AgentScheduleModal: FC<AgentScheduleModalProps> = ({
                 required
               />
               <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
-                Use this only if you already know cron expressions (UTC).
+                Use this only if you already know cron expressions. They are
+                evaluated in the selected timezone.
               </p>
             </div>
           )}
 
+          <div>
+            <label
+              htmlFor="schedule-timezone"
+              className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300"
+            >
+              Timezone
+            </label>
+            <select
+              id="schedule-timezone"
+              value={timezone}
+              onChange={(event) => setTimezone(event.target.value)}
+              className="w-full rounded-xl border border-neutral-300 bg-white px-4 py-2.5 text-neutral-900 transition-colors focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:focus:border-blue-400 dark:focus:ring-blue-400/40"
+            >
+              {timezoneOptions.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div className="rounded-xl border border-primary-100 bg-primary-50 px-4 py-3 text-sm text-primary-800 dark:border-primary-900 dark:bg-primary-950 dark:text-primary-200">
             {scheduleDescription}
           </div>
@@ -353,10 +490,107 @@ export const AgentScheduleModal: FC<AgentScheduleModalProps> = ({
               required
             />
             <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
-              We will send this as the first message every time it runs.
+              We will send this as the first message every time it runs. You
+              can use {PROMPT_VARIABLES.join(", ")}.
             </p>
           </div>
 
+          <div>
+            <label
+              htmlFor="schedule-delivery-type"
+              className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300"
+            >
+              Send the result
+            </label>
+            <select
+              id="schedule-delivery-type"
+              value={deliveryType}
+              onChange={(event) =>
+                setDeliveryType(event.target.value as DeliveryType)
+              }
+              className={INPUT_CLASS_NAME}
+            >
+              <option value="none">Don&apos;t send (keep it in the conversation)</option>
+              <option value="channel">To an output channel</option>
+              <option value="email">By email</option>
+            </select>
+            <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+              The agent&apos;s final answer is sent after every successful run.
+            </p>
+          </div>
+
+          {deliveryType === "channel" && (
+            <div>
+              <label
+                htmlFor="schedule-delivery-channel"
+                className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300"
+              >
+                Output channel *
+              </label>
+              <Suspense
+                fallback={
+                  <p className="text-sm text-neutral-600 dark:text-neutral-300">
+                    Loading channels...
+                  </p>
+                }
+              >
+                <DeliveryChannelSelect
+                  workspaceId={workspaceId}
+                  value={deliveryChannelId}
+                  onChange={setDeliveryChannelId}
+                />
+              </Suspense>
+            </div>
+          )}
+
+          {deliveryType === "email" && (
+            <>
+              <div>
+                <label
+                  htmlFor="schedule-delivery-recipients"
+                  className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300"
+                >
+                  Recipients *
+                </label>
+                <input
+                  id="schedule-delivery-recipients"
+                  type="text"
+                  value={deliveryRecipients}
+                  onChange={(event) =>
+                    setDeliveryRecipients(event.target.value)
+                  }
+                  placeholder="alice@example.com, bob@example.com"
+                  className={INPUT_CLASS_NAME}
+                />
+                <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                  Up to 10 addresses, separated by commas. Sent through the
+                  workspace email connection.
+                </p>
+              </div>
+              <div>
+                <label
+                  htmlFor="schedule-delivery-subject"
+                  className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300"
+                >
+                  Subject
+                </label>
+                <input
+                  id="schedule-delivery-subject"
+                  type="text"
+                  value={deliverySubject}
+                  onChange={(event) => setDeliverySubject(event.target.value)}
+                  placeholder="{{scheduleName}} ({{date}})"
+                  maxLength={200}
+                  className={INPUT_CLASS_NAME}
+                />
+                <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                  You can use {"{{scheduleName}}"}, {"{{agentName}}"} and{" "}
+                  {"{{date}}"}.
+                </p>
+              </div>
+            </>
+          )}
+
           <div className="flex items-center gap-2">
             <input
               id="schedule-enabled"
@@ -380,7 +614,8 @@ export const AgentScheduleModal: FC<AgentScheduleModalProps> = ({
                 isPending ||
                 !name.trim() ||
                 !cronExpression.trim() ||
-                !prompt.trim()
+                !prompt.trim() ||
+                !isDeliveryValid
               }
               className="rounded-xl bg-gradient-primary px-4 py-2.5 font-semibold text-white transition-colors hover:shadow-colored disabled:cursor-not-allowed disabled:opacity-50"
             >
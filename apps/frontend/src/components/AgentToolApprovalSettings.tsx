@@ -0,0 +1,189 @@
+import type { FC } from "react";
+import { useState } from "react";
+
+import { useUpdateAgent } from "../hooks/useAgents";
+import {
+  APPROVABLE_BUILT_IN_TOOL_NAMES,
+  type ToolApprovalPolicy,
+} from "../utils/api";
+
+interface ApprovableMcpServer {
+  id: string;
+  name: string;
+  /** Tools of the server enabled for this agent */
+  toolNames: string[];
+}
+
+interface AgentToolApprovalSettingsProps {
+  workspaceId: string;
+  agentId: string;
+  toolApproval: ToolApprovalPolicy | null;
+  mcpServers: ApprovableMcpServer[];
+}
+
+type BuiltInToolName = (typeof APPROVABLE_BUILT_IN_TOOL_NAMES)[number];
+
+const DEFAULT_TIMEOUT_MINUTES = 24 * 60;
+const MAX_TIMEOUT_MINUTES = 7 * 24 * 60;
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value)
+    ? values.filter((item) => item !== value)
+    : [...values, value];
+
+const AgentToolApprovalSettingsEditor: FC<AgentToolApprovalSettingsProps> = ({
+  workspaceId,
+  agentId,
+  toolApproval,
+  mcpServers,
+}) => {
+  const updateAgent = useUpdateAgent(workspaceId, agentId);
+  const [toolNames, setToolNames] = useState<BuiltInToolName[]>(
+    toolApproval?.toolNames ?? []
+  );
+  const [mcpServerToolNames, setMcpServerToolNames] = useState<
+    Record<string, string[]>
+  >(toolApproval?.mcpServerToolNames ?? {});
+  const [timeoutMinutes, setTimeoutMinutes] = useState<number>(
+    toolApproval?.timeoutMinutes ?? DEFAULT_TIMEOUT_MINUTES
+  );
+  const isTimeoutValid =
+    Number.isInteger(timeoutMinutes) &&
+    timeoutMinutes > 0 &&
+    timeoutMinutes <= MAX_TIMEOUT_MINUTES;
+
+  const handleSave = async () => {
+    const selectedMcpServerToolNames = Object.fromEntries(
+      Object.entries(mcpServerToolNames).filter(
+        ([serverId, names]) =>
+          names.length > 0 && mcpServers.some((server) => server.id === serverId)
+      )
+    );
+    const hasRequirements =
+      toolNames.length > 0 || Object.keys(selectedMcpServerToolNames).length > 0;
+    try {
+      await updateAgent.mutateAsync({
+        toolApproval: hasRequirements
+          ? {
+              toolNames,
+              mcpServerToolNames: selectedMcpServerToolNames,
+              timeoutMinutes,
+            }
+          : null,
+      });
+    } catch {
+      // Error handled by toast
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="mb-2 text-xs font-semibold uppercase text-neutral-500 dark:text-neutral-400">
+          Built-in tools
+        </div>
+        <div className="space-y-2">
+          {APPROVABLE_BUILT_IN_TOOL_NAMES.map((toolName) => (
+            <label
+              key={toolName}
+              className="flex cursor-pointer items-center gap-2 text-sm dark:text-neutral-300"
+            >
+              <input
+                type="checkbox"
+                checked={toolNames.includes(toolName)}
+                onChange={() => setToolNames(toggle(toolNames, toolName))}
+                className="rounded border-2 border-neutral-300"
+              />
+              <span className="font-mono text-xs font-semibold">
+                {toolName}
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {mcpServers.map((server) => (
+        <div key={server.id}>
+          <div className="mb-2 text-xs font-semibold uppercase text-neutral-500 dark:text-neutral-400">
+            {server.name}
+          </div>
+          {server.toolNames.length === 0 ? (
+            <p className="text-xs opacity-70">No tools enabled.</p>
+          ) : (
+            <div className="space-y-2">
+              {server.toolNames.map((toolName) => (
+                <label
+                  key={toolName}
+                  className="flex cursor-pointer items-center gap-2 text-sm dark:text-neutral-300"
+                >
+                  <input
+                    type="checkbox"
+                    checked={
+                      mcpServerToolNames[server.id]?.includes(toolName) ?? false
+                    }
+                    onChange={() =>
+                      setMcpServerToolNames({
+                        ...mcpServerToolNames,
+                        [server.id]: toggle(
+                          mcpServerToolNames[server.id] ?? [],
+                          toolName
+                        ),
+                      })
+                    }
+                    className="rounded border-2 border-neutral-300"
+                  />
+                  <span className="font-mono text-xs font-semibold">
+                    {toolName}
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="text-sm dark:text-neutral-300">
+          <span className="mb-1 block font-semibold">Timeout (minutes)</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_TIMEOUT_MINUTES}
+            value={timeoutMinutes}
+            onChange={(e) => setTimeoutMinutes(Number(e.target.value))}
+            className="w-32 rounded-lg border-2 border-neutral-300 bg-white px-3 py-1.5 text-sm dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={updateAgent.isPending || !isTimeoutValid}
+          className="rounded-xl bg-gradient-primary px-4 py-2.5 font-semibold text-white transition-all duration-200 hover:shadow-colored disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {updateAgent.isPending ? "Saving..." : "Save Tool Approvals"}
+        </button>
+      </div>
+      <p className="text-xs text-neutral-500 dark:text-neutral-400">
+        Calls nobody decides within the timeout expire without running.
+      </p>
+      {!isTimeoutValid && (
+        <p className="text-xs text-red-600 dark:text-red-400">
+          The timeout must be between 1 and {MAX_TIMEOUT_MINUTES} minutes.
+        </p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Tools of an agent that wait for a workspace member's approval before they run
+ */
+export const AgentToolApprovalSettings: FC<AgentToolApprovalSettingsProps> = (
+  props
+) => (
+  // Remount with the saved policy whenever it changes
+  <AgentToolApprovalSettingsEditor
+    key={JSON.stringify(props.toolApproval ?? null)}
+    {...props}
+  />
+);
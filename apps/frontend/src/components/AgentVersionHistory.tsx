@@ -0,0 +1,286 @@
+import type { FC } from "react";
+import { useMemo, useState } from "react";
+
+import {
+  useAgentConfigVersionDiff,
+  useAgentConfigVersions,
+  useRestoreAgentConfigVersion,
+} from "../hooks/useAgentConfigVersions";
+import {
+  AGENT_CONFIG_VERSION_SOURCE_LABELS,
+  diffLinesSideBySide,
+  formatAgentConfigValue,
+} from "../utils/agentConfigDiff";
+import type { AgentConfigChange } from "../utils/api";
+
+interface AgentVersionHistoryProps {
+  workspaceId: string;
+  agentId: string;
+  canEdit: boolean;
+}
+
+const buttonClassName =
+  "rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:hover:bg-neutral-800";
+const columnClassName =
+  "min-w-0 overflow-x-auto rounded-lg border border-neutral-200 bg-neutral-50 font-mono text-xs dark:border-neutral-700 dark:bg-neutral-900";
+
+const SystemPromptDiff: FC<{ change: AgentConfigChange }> = ({ change }) => {
+  const lines = diffLinesSideBySide(
+    typeof change.before === "string" ? change.before : "",
+    typeof change.after === "string" ? change.after : ""
+  );
+  const renderCell = (text: string | null, changed: boolean, side: string) => (
+    <div
+      className={`min-h-5 whitespace-pre-wrap break-words px-2 ${
+        changed && text !== null
+          ? side === "before"
+            ? "bg-red-100 text-red-900 dark:bg-red-950 dark:text-red-200"
+            : "bg-green-100 text-green-900 dark:bg-green-950 dark:text-green-200"
+          : ""
+      }`}
+    >
+      {text ?? ""}
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div className={columnClassName}>
+        {lines.map((line, index) => (
+          <div key={index}>{renderCell(line.before, line.changed, "before")}</div>
+        ))}
+      </div>
+      <div className={columnClassName}>
+        {lines.map((line, index) => (
+          <div key={index}>{renderCell(line.after, line.changed, "after")}</div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const SettingDiff: FC<{ change: AgentConfigChange }> = ({ change }) => (
+  <div className="grid grid-cols-2 gap-2">
+    <pre
+      className={`${columnClassName} whitespace-pre-wrap p-2 text-red-900 dark:text-red-200`}
+    >
+      {formatAgentConfigValue(change.before)}
+    </pre>
+    <pre
+      className={`${columnClassName} whitespace-pre-wrap p-2 text-green-900 dark:text-green-200`}
+    >
+      {formatAgentConfigValue(change.after)}
+    </pre>
+  </div>
+);
+
+/**
+ * Configuration history of an agent: what changed in each version, compared
+ * side by side, and restoring an earlier version
+ */
+export const AgentVersionHistory: FC<AgentVersionHistoryProps> = ({
+  workspaceId,
+  agentId,
+  canEdit,
+}) => {
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [compareToCurrent, setCompareToCurrent] = useState(false);
+
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+    error,
+  } = useAgentConfigVersions(workspaceId, agentId);
+  const restoreVersion = useRestoreAgentConfigVersion(workspaceId, agentId);
+
+  const versions = useMemo(
+    () => data?.pages.flatMap((page) => page.versions) ?? [],
+    [data]
+  );
+  const currentVersion = data?.pages[0]?.currentVersion;
+  const activeVersion = selectedVersion ?? versions[0]?.configVersion ?? null;
+  const isCurrent = activeVersion === currentVersion;
+
+  const diff = useAgentConfigVersionDiff(
+    workspaceId,
+    agentId,
+    activeVersion,
+    compareToCurrent && !isCurrent ? "current" : undefined
+  );
+
+  const handleRestore = () => {
+    if (activeVersion === null) {
+      return;
+    }
+    if (
+      !confirm(
+        `Restore version ${activeVersion}? The current configuration is kept in the history and can be restored later.`
+      )
+    ) {
+      return;
+    }
+    restoreVersion.mutate(activeVersion, {
+      onSuccess: () => {
+        setSelectedVersion(null);
+        setCompareToCurrent(false);
+      },
+    });
+  };
+
+  if (error) {
+    return (
+      <div className="rounded-xl border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-950">
+        <div className="text-sm font-semibold text-red-800 dark:text-red-200">
+          Error
+        </div>
+        <div className="mt-1 text-xs text-red-700 dark:text-red-300">
+          {error instanceof Error
+            ? error.message
+            : "Failed to load version history"}
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading && !data) {
+    return (
+      <p className="text-sm text-neutral-600 dark:text-neutral-300">
+        Loading version history...
+      </p>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <p className="text-sm text-neutral-600 dark:text-neutral-300">
+        No versions recorded yet. A version is recorded every time the
+        configuration changes.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[minmax(220px,1fr)_3fr]">
+      <div>
+        <ul className="space-y-2">
+          {versions.map((version) => (
+            <li key={version.configVersion}>
+              <button
+                type="button"
+                onClick={() => {
+                  setSelectedVersion(version.configVersion);
+                  setCompareToCurrent(false);
+                }}
+                className={`w-full rounded-xl border px-3 py-2 text-left text-sm transition-colors ${
+                  version.configVersion === activeVersion
+                    ? "border-primary-500 bg-primary-50 dark:border-primary-400 dark:bg-primary-950"
+                    : "border-neutral-200 bg-white hover:bg-neutral-50 dark:border-neutral-700 dark:bg-surface-50 dark:hover:bg-neutral-800"
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold text-neutral-900 dark:text-neutral-50">
+                    Version {version.configVersion}
+                  </span>
+                  {version.configVersion === currentVersion && (
+                    <span className="rounded-lg border border-green-200 bg-green-50 px-2 py-0.5 text-xs font-semibold text-green-800 dark:border-green-800 dark:bg-green-950 dark:text-green-200">
+                      Current
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-neutral-600 dark:text-neutral-400">
+                  {AGENT_CONFIG_VERSION_SOURCE_LABELS[version.source]}
+                  {version.restoredFromVersion !== null &&
+                    ` from version ${version.restoredFromVersion}`}
+                  {" · "}
+                  {new Date(version.createdAt).toLocaleString()}
+                </div>
+                {version.changedFields.length > 0 && (
+                  <div className="mt-1 truncate text-xs text-neutral-500 dark:text-neutral-400">
+                    {version.changedFields.join(", ")}
+                  </div>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+        {hasNextPage && (
+          <button
+            type="button"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className={`${buttonClassName} mt-2 w-full`}
+          >
+            {isFetchingNextPage ? "Loading..." : "Load older versions"}
+          </button>
+        )}
+      </div>
+
+      <div className="min-w-0 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="text-sm text-neutral-700 dark:text-neutral-300">
+            {compareToCurrent && !isCurrent
+              ? `Current configuration (left) compared with version ${activeVersion} (right)`
+              : diff.data?.compareTo
+                ? `Version ${diff.data.compareTo} (left) compared with version ${activeVersion} (right)`
+                : `Initial configuration (version ${activeVersion})`}
+          </div>
+          {!isCurrent && (
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setCompareToCurrent((value) => !value)}
+                className={buttonClassName}
+              >
+                {compareToCurrent ? "Compare with previous" : "Compare with current"}
+              </button>
+              {canEdit && (
+                <button
+                  type="button"
+                  onClick={handleRestore}
+                  disabled={restoreVersion.isPending}
+                  className="rounded-xl bg-gradient-primary px-4 py-2 text-sm font-semibold text-white transition-colors hover:shadow-colored disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {restoreVersion.isPending
+                    ? "Restoring..."
+                    : `Restore version ${activeVersion}`}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {diff.isLoading ? (
+          <p className="text-sm text-neutral-600 dark:text-neutral-300">
+            Loading changes...
+          </p>
+        ) : diff.error ? (
+          <p className="text-sm text-red-700 dark:text-red-300">
+            {diff.error instanceof Error
+              ? diff.error.message
+              : "Failed to load changes"}
+          </p>
+        ) : diff.data && diff.data.changes.length === 0 ? (
+          <p className="text-sm text-neutral-600 dark:text-neutral-300">
+            No configuration differences.
+          </p>
+        ) : (
+          diff.data?.changes.map((change) => (
+            <div key={change.field}>
+              <div className="mb-1 font-mono text-xs font-semibold text-neutral-800 dark:text-neutral-200">
+                {change.field}
+              </div>
+              {change.field === "systemPrompt" ? (
+                <SystemPromptDiff change={change} />
+              ) : (
+                <SettingDiff change={change} />
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,315 @@
+import type { FC } from "react";
+import { useMemo, useRef, useState } from "react";
+
+import { useWorkspaceAuditLog } from "../hooks/useAuditLog";
+import { useToast } from "../hooks/useToast";
+import {
+  exportWorkspaceAuditLog,
+  type AuditLogAction,
+  type AuditLogEntry,
+  type AuditLogFilters,
+  type AuditLogResourceType,
+} from "../utils/api";
+
+import { ScrollContainer } from "./ScrollContainer";
+import { VirtualTable } from "./VirtualTable";
+
+const ACTION_LABELS: Record<AuditLogAction, string> = {
+  created: "Created",
+  updated: "Updated",
+  deleted: "Deleted",
+};
+
+const ACTION_COLORS: Record<AuditLogAction, string> = {
+  created:
+    "border-green-200 bg-green-50 text-green-800 dark:border-green-800 dark:bg-green-950 dark:text-green-200",
+  updated:
+    "border-blue-200 bg-blue-50 text-blue-800 dark:border-blue-800 dark:bg-blue-950 dark:text-blue-200",
+  deleted:
+    "border-red-200 bg-red-50 text-red-800 dark:border-red-800 dark:bg-red-950 dark:text-red-200",
+};
+
+const RESOURCE_TYPE_LABELS: Record<AuditLogResourceType, string> = {
+  workspace: "Workspace",
+  agent: "Agent",
+  "agent-key": "Agent key",
+  "workspace-api-key": "Provider key",
+  "stream-server": "Stream server",
+  "mcp-server": "Connected tool",
+  channel: "Channel",
+  document: "Document",
+  member: "Member",
+  invite: "Invite",
+  "spending-limit": "Spending limit",
+  integration: "Integration",
+  "email-connection": "Email connection",
+  "model-endpoint": "Model endpoint",
+  schedule: "Schedule",
+  "eval-judge": "Eval judge",
+  "eval-dataset": "Eval dataset",
+  "memory-record": "Memory record",
+  "knowledge-graph-fact": "Knowledge graph fact",
+};
+
+const selectClassName =
+  "rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50";
+const buttonClassName =
+  "rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:hover:bg-neutral-800";
+
+interface AuditLogTableProps {
+  workspaceId: string;
+}
+
+/**
+ * Filterable history of changes made to a workspace, with CSV export
+ */
+export const AuditLogTable: FC<AuditLogTableProps> = ({ workspaceId }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const toast = useToast();
+  const [action, setAction] = useState<AuditLogAction | "">("");
+  const [resourceType, setResourceType] = useState<AuditLogResourceType | "">(
+    ""
+  );
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [isExporting, setIsExporting] = useState(false);
+
+  const filters = useMemo(
+    (): AuditLogFilters => ({
+      action: action || undefined,
+      resourceType: resourceType || undefined,
+      from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+      // Date inputs are inclusive of the whole selected day
+      to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+    }),
+    [action, resourceType, fromDate, toDate]
+  );
+
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+    error,
+    refetch,
+    isRefetching,
+  } = useWorkspaceAuditLog(workspaceId, filters);
+
+  const events = useMemo(
+    () => data?.pages.flatMap((page) => page.events) ?? [],
+    [data]
+  );
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await exportWorkspaceAuditLog(workspaceId, filters);
+    } catch (exportError) {
+      toast.error(
+        exportError instanceof Error
+          ? exportError.message
+          : "Failed to export audit log"
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const formatResource = (event: AuditLogEntry) =>
+    event.resourceName || event.resourceId || "-";
+
+  return (
+    <>
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-2xl font-semibold text-neutral-900 dark:text-neutral-50">
+          Audit log
+        </h2>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className={buttonClassName}
+          >
+            {isExporting ? "Exporting..." : "Export CSV"}
+          </button>
+          <button
+            onClick={() => refetch()}
+            disabled={isRefetching}
+            className={buttonClassName}
+          >
+            {isRefetching ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-end gap-3 text-sm">
+        <label className="flex flex-col gap-1 text-neutral-700 dark:text-neutral-300">
+          Action
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value as AuditLogAction | "")}
+            className={selectClassName}
+          >
+            <option value="">All actions</option>
+            {Object.entries(ACTION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-neutral-700 dark:text-neutral-300">
+          Resource
+          <select
+            value={resourceType}
+            onChange={(e) =>
+              setResourceType(e.target.value as AuditLogResourceType | "")
+            }
+            className={selectClassName}
+          >
+            <option value="">All resources</option>
+            {Object.entries(RESOURCE_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-neutral-700 dark:text-neutral-300">
+          From
+          <input
+            type="date"
+            value={fromDate}
+            max={toDate || undefined}
+            onChange={(e) => setFromDate(e.target.value)}
+            className={selectClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-neutral-700 dark:text-neutral-300">
+          To
+          <input
+            type="date"
+            value={toDate}
+            min={fromDate || undefined}
+            onChange={(e) => setToDate(e.target.value)}
+            className={selectClassName}
+          />
+        </label>
+      </div>
+
+      {error ? (
+        <div className="rounded-xl border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-950">
+          <div className="text-sm font-semibold text-red-800 dark:text-red-200">
+            Error
+          </div>
+          <div className="mt-1 text-xs text-red-700 dark:text-red-300">
+            {error instanceof Error ? error.message : "Failed to load audit log"}
+          </div>
+        </div>
+      ) : isLoading && !data ? (
+        <p className="text-sm text-neutral-600 dark:text-neutral-300">
+          Loading audit log...
+        </p>
+      ) : (
+        <div className="text-xs">
+          <ScrollContainer ref={scrollRef} className="overflow-x-auto">
+            <VirtualTable<AuditLogEntry>
+              scrollRef={scrollRef}
+              rows={events}
+              getItemKey={(_i, event) => event.id}
+              estimateSize={() => 52}
+              hasNextPage={hasNextPage}
+              isFetchingNextPage={isFetchingNextPage}
+              fetchNextPage={fetchNextPage}
+              empty={
+                <p className="py-4 text-sm text-neutral-600 dark:text-neutral-300">
+                  No changes recorded yet.
+                </p>
+              }
+              columns={[
+                {
+                  key: "date",
+                  header: "Date",
+                  width: "150px",
+                  render: (event) => (
+                    <span className="text-neutral-600 dark:text-neutral-400">
+                      {new Date(event.createdAt).toLocaleString()}
+                    </span>
+                  ),
+                },
+                {
+                  key: "actor",
+                  header: "Who",
+                  width: "minmax(160px, 2fr)",
+                  render: (event) => (
+                    <span title={event.ipAddress ?? undefined}>
+                      {event.actorEmail || event.actorUserId || "-"}
+                      {event.apiKeyId && (
+                        <span className="ml-1 text-neutral-500 dark:text-neutral-400">
+                          (API key)
+                        </span>
+                      )}
+                    </span>
+                  ),
+                },
+                {
+                  key: "action",
+                  header: "Action",
+                  width: "90px",
+                  render: (event) => (
+                    <span
+                      className={`inline-block rounded-lg border px-2 py-1 text-xs font-semibold ${
+                        ACTION_COLORS[event.action]
+                      }`}
+                    >
+                      {ACTION_LABELS[event.action]}
+                    </span>
+                  ),
+                },
+                {
+                  key: "resourceType",
+                  header: "Resource",
+                  width: "120px",
+                  render: (event) =>
+                    RESOURCE_TYPE_LABELS[event.resourceType] ??
+                    event.resourceType,
+                },
+                {
+                  key: "resource",
+                  header: "Name",
+                  width: "minmax(140px, 2fr)",
+                  render: (event) => (
+                    <span
+                      className="whitespace-nowrap"
+                      title={event.resourceId ?? undefined}
+                    >
+                      {formatResource(event)}
+                    </span>
+                  ),
+                },
+                {
+                  key: "changes",
+                  header: "Changes",
+                  width: "minmax(160px, 2fr)",
+                  render: (event) => (
+                    <span
+                      className="text-neutral-600 dark:text-neutral-400"
+                      title={
+                        event.details ? JSON.stringify(event.details) : undefined
+                      }
+                    >
+                      {event.changedFields.length > 0
+                        ? event.changedFields.join(", ")
+                        : "-"}
+                    </span>
+                  ),
+                },
+              ]}
+            />
+          </ScrollContainer>
+        </div>
+      )}
+    </>
+  );
+};
@@ -2,11 +2,12 @@ import { useState, useMemo, useRef } from "react";
 import type { FC } from "react";
 
 import {
+  useChannelDeliveries,
   useChannelsInfinite,
   useDeleteChannel,
   useTestChannel,
 } from "../hooks/useChannels";
-import type { Channel } from "../utils/api";
+import type { Channel, ChannelDelivery } from "../utils/api";
 import { trackEvent } from "../utils/tracking";
 
 import { ChannelModal } from "./ChannelModal";
@@ -25,6 +26,97 @@ interface ChannelItemProps {
   onEdit: (channelId: string) => void;
 }
 
+const DELIVERY_STATUS_CLASSES: Record<ChannelDelivery["status"], string> = {
+  pending:
+    "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200",
+  delivered:
+    "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200",
+};
+
+const ChannelDeliveryLog: FC<{ workspaceId: string; channelId: string }> = ({
+  workspaceId,
+  channelId,
+}) => {
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } =
+    useChannelDeliveries(workspaceId, channelId);
+
+  const deliveries = useMemo(
+    () => data?.pages.flatMap((p) => p.deliveries) ?? [],
+    [data],
+  );
+
+  if (isLoading) {
+    return (
+      <p className="text-sm text-neutral-600 dark:text-neutral-300">
+        Loading deliveries...
+      </p>
+    );
+  }
+  if (deliveries.length === 0) {
+    return (
+      <p className="text-sm text-neutral-600 dark:text-neutral-300">
+        No deliveries in the last 30 days.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {deliveries.map((delivery) => (
+        <div
+          key={delivery.id}
+          className="rounded-lg border border-neutral-200 p-3 text-sm dark:border-neutral-700"
+        >
+          <div className="flex flex-wrap items-center gap-2">
+            <span
+              className={`rounded px-2 py-0.5 text-xs font-semibold ${DELIVERY_STATUS_CLASSES[delivery.status]}`}
+            >
+              {delivery.status}
+            </span>
+            <span className="text-neutral-600 dark:text-neutral-300">
+              {new Date(delivery.createdAt).toLocaleString()}
+            </span>
+            <span className="text-neutral-600 dark:text-neutral-300">
+              {delivery.attempts}{" "}
+              {delivery.attempts === 1 ? "attempt" : "attempts"}
+            </span>
+            {delivery.lastStatusCode !== null && (
+              <span className="text-neutral-600 dark:text-neutral-300">
+                HTTP {delivery.lastStatusCode}
+              </span>
+            )}
+          </div>
+          <div className="mt-1 truncate text-neutral-700 dark:text-neutral-300">
+            {delivery.contentPreview}
+          </div>
+          {delivery.lastError && delivery.status !== "delivered" && (
+            <div className="mt-1 text-xs text-red-700 dark:text-red-300">
+              {delivery.lastError}
+              {delivery.status === "pending" && delivery.nextAttemptAt && (
+                <>
+                  {" "}
+                  - next attempt at{" "}
+                  {new Date(delivery.nextAttemptAt).toLocaleString()}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+      {hasNextPage && (
+        <button
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+          className="text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          {isFetchingNextPage ? "Loading..." : "Load more"}
+        </button>
+      )}
+    </div>
+  );
+};
+
 const ChannelItem: FC<ChannelItemProps> = ({
   channel,
   workspaceId,
@@ -33,68 +125,86 @@ const ChannelItem: FC<ChannelItemProps> = ({
 }) => {
   const deleteChannel = useDeleteChannel(workspaceId, channel.id);
   const testChannel = useTestChannel(workspaceId, channel.id);
+  const [showDeliveries, setShowDeliveries] = useState(false);
 
   return (
-    <div className="flex transform items-center justify-between rounded-xl border-2 border-neutral-300 bg-white p-6 transition-all duration-200 hover:scale-[1.01] hover:shadow-bold active:scale-[0.99] dark:border-neutral-700 dark:bg-surface-50">
-      <div>
-        <div className="text-lg font-semibold text-neutral-900 dark:text-neutral-50">
-          {channel.name}
+    <div className="rounded-xl border-2 border-neutral-300 bg-white p-6 transition-all duration-200 hover:shadow-bold dark:border-neutral-700 dark:bg-surface-50">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-lg font-semibold text-neutral-900 dark:text-neutral-50">
+            {channel.name}
+          </div>
+          <div className="mt-1 text-sm text-neutral-600 dark:text-neutral-300">
+            Type: {channel.type}
+          </div>
         </div>
-        <div className="mt-1 text-sm text-neutral-600 dark:text-neutral-300">
-          Type: {channel.type}
+        <div className="flex gap-2">
+          {channel.type === "http" && (
+            <button
+              onClick={() => setShowDeliveries(!showDeliveries)}
+              className="rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium transition-colors hover:bg-neutral-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:hover:bg-neutral-800"
+            >
+              {showDeliveries ? "Hide delivery log" : "Delivery log"}
+            </button>
+          )}
+          {canEdit && (
+            <>
+              <button
+                onClick={async () => {
+                  try {
+                    await testChannel.mutateAsync();
+                    trackEvent("channel_tested", {
+                      workspace_id: workspaceId,
+                      channel_id: channel.id,
+                      channel_type: channel.type,
+                    });
+                  } catch {
+                    // Error is handled by toast in the hook
+                  }
+                }}
+                disabled={testChannel.isPending}
+                className="rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:hover:bg-neutral-800"
+              >
+                {testChannel.isPending ? "✨ Testing..." : "✨ Test"}
+              </button>
+              <button
+                onClick={() => onEdit(channel.id)}
+                className="rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium transition-colors hover:bg-neutral-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:hover:bg-neutral-800"
+              >
+                Edit
+              </button>
+              <button
+                onClick={async () => {
+                  if (
+                    !confirm(
+                      "Are you sure you want to delete this channel? This action cannot be undone."
+                    )
+                  ) {
+                    return;
+                  }
+                  try {
+                    await deleteChannel.mutateAsync();
+                    trackEvent("channel_deleted", {
+                      workspace_id: workspaceId,
+                      channel_id: channel.id,
+                      channel_type: channel.type,
+                    });
+                  } catch {
+                    // Error is handled by toast in the hook
+                  }
+                }}
+                disabled={deleteChannel.isPending}
+                className="rounded-xl bg-error-600 px-4 py-2.5 text-sm font-semibold text-white transition-colors hover:bg-error-700 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {deleteChannel.isPending ? "Deleting..." : "Delete"}
+              </button>
+            </>
+          )}
         </div>
       </div>
-      {canEdit && (
-        <div className="flex gap-2">
-          <button
-            onClick={async () => {
-              try {
-                await testChannel.mutateAsync();
-                trackEvent("channel_tested", {
-                  workspace_id: workspaceId,
-                  channel_id: channel.id,
-                  channel_type: channel.type,
-                });
-              } catch {
-                // Error is handled by toast in the hook
-              }
-            }}
-            disabled={testChannel.isPending}
-            className="rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:hover:bg-neutral-800"
-          >
-            {testChannel.isPending ? "✨ Testing..." : "✨ Test"}
-          </button>
-          <button
-            onClick={() => onEdit(channel.id)}
-            className="rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium transition-colors hover:bg-neutral-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:hover:bg-neutral-800"
-          >
-            Edit
-          </button>
-          <button
-            onClick={async () => {
-              if (
-                !confirm(
-                  "Are you sure you want to delete this channel? This action cannot be undone."
-                )
-              ) {
-                return;
-              }
-              try {
-                await deleteChannel.mutateAsync();
-                trackEvent("channel_deleted", {
-                  workspace_id: workspaceId,
-                  channel_id: channel.id,
-                  channel_type: channel.type,
-                });
-              } catch {
-                // Error is handled by toast in the hook
-              }
-            }}
-            disabled={deleteChannel.isPending}
-            className="rounded-xl bg-error-600 px-4 py-2.5 text-sm font-semibold text-white transition-colors hover:bg-error-700 disabled:cursor-not-allowed disabled:opacity-50"
-          >
-            {deleteChannel.isPending ? "Deleting..." : "Delete"}
-          </button>
+      {showDeliveries && (
+        <div className="mt-4 border-t border-neutral-200 pt-4 dark:border-neutral-700">
+          <ChannelDeliveryLog workspaceId={workspaceId} channelId={channel.id} />
         </div>
       )}
     </div>
@@ -150,7 +260,7 @@ export const ChannelList: FC<ChannelListProps> = ({ workspaceId, canEdit }) => {
         </div>
         <p className="mb-6 text-sm text-neutral-600 dark:text-neutral-300">
           Notification channels allow your agents to send messages to external
-          services like Discord, Slack, or webhooks. Configure channels here and
+          services like Discord, Slack, email, or webhooks. Configure channels here and
           agents can use them to send notifications and updates.
         </p>
 
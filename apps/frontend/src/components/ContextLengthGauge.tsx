@@ -12,7 +12,8 @@ export interface ContextLengthGaugeProps {
     | "estimatedKnowledgeTokens"
     | "contextLength"
     | "ratio"
-  >;
+  > &
+    Partial<Pick<ContextStats, "compactionThresholdTokens">>;
   size?: "sm" | "md";
   /** Label shown above or near gauge; default for size md. */
   label?: string;
@@ -23,6 +24,9 @@ const SIZE_CONFIG = {
   md: { strokeWidth: 6, size: 56, fontSize: "0.75rem" },
 } as const;
 
+/** Color of the marker where conversations start to be compacted */
+const COMPACTION_MARKER_COLOR = "#ef4444";
+
 /** Segment colors: instructions, skills, knowledge (est.) */
 const SEGMENT_COLORS = {
   instructions: "#3b82f6",
@@ -120,8 +124,17 @@ export const ContextLengthGauge: FC<ContextLengthGaugeProps> = ({
     .join(", ");
   const usedPct = Math.round(ratio * 100);
   const availablePct = 100 - usedPct;
+  const { compactionThresholdTokens } = contextStats;
+  const compactionRatio =
+    compactionThresholdTokens && contextLength > 0
+      ? Math.min(1, compactionThresholdTokens / contextLength)
+      : undefined;
+  const compactionNote =
+    compactionThresholdTokens !== undefined
+      ? ` Older turns of conversations are summarized above ${formatTokens(compactionThresholdTokens)} tokens.`
+      : "";
   const remainingNote =
-    " Remaining context is used by the conversation (user, assistant, tool calls and results).";
+    ` Remaining context is used by the conversation (user, assistant, tool calls and results).${compactionNote}`;
   const ariaLabel = displayLabel
     ? `${displayLabel}: ${textShort} (${usedPct}% used${availablePct > 0 ? `, ${availablePct}% available` : ""}). Breakdown: ${segmentSummary}.${remainingNote}`
     : `Context usage (estimated): ${textShort} (${usedPct}% used${availablePct > 0 ? `, ${availablePct}% available` : ""}). Breakdown: ${segmentSummary}.${remainingNote}`;
@@ -181,6 +194,18 @@ export const ContextLengthGauge: FC<ContextLengthGaugeProps> = ({
           className="text-neutral-200 dark:text-neutral-600"
         />
         {segmentArcs}
+        {compactionRatio !== undefined && (
+          <circle
+            cx={config.size / 2}
+            cy={config.size / 2}
+            r={r}
+            fill="none"
+            stroke={COMPACTION_MARKER_COLOR}
+            strokeWidth={config.strokeWidth + 2}
+            strokeDasharray={`2 ${circumference}`}
+            transform={`rotate(${-90 + 360 * compactionRatio - 1} ${config.size / 2} ${config.size / 2})`}
+          />
+        )}
         <text
           x={config.size / 2}
           y={config.size / 2}
@@ -222,6 +247,18 @@ export const ContextLengthGauge: FC<ContextLengthGaugeProps> = ({
               </span>
             </div>
           ))}
+          {compactionThresholdTokens !== undefined && (
+            <div className="flex items-center gap-2 text-xs text-neutral-600 dark:text-neutral-400">
+              <span
+                className="h-2.5 w-1 flex-shrink-0 rounded-sm"
+                style={{ backgroundColor: COMPACTION_MARKER_COLOR }}
+                aria-hidden
+              />
+              <span>
+                Compaction at: {formatTokens(compactionThresholdTokens)}
+              </span>
+            </div>
+          )}
         </div>
       )}
       {size !== "sm" && (
@@ -235,6 +272,8 @@ export const ContextLengthGauge: FC<ContextLengthGaugeProps> = ({
           <span className="max-w-[12rem] text-[0.65rem] text-neutral-400 dark:text-neutral-500">
             Remaining context is used by the conversation (user, assistant,
             tool calls and results, etc.).
+            {compactionThresholdTokens !== undefined &&
+              " Beyond the compaction marker, older turns are summarized."}
           </span>
         </div>
       )}
@@ -0,0 +1,84 @@
+import { ArrowsPointingInIcon } from "@heroicons/react/24/outline";
+import type { FC } from "react";
+
+import type {
+  ConversationCompaction,
+  ConversationCompactionEvent,
+} from "../utils/api";
+
+interface ConversationCompactionSectionProps {
+  compaction?: ConversationCompaction | null;
+  events?: ConversationCompactionEvent[];
+}
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
+
+/**
+ * Compactions of a long conversation: older turns summarized into a pinned
+ * summary message so the prompt fits the model's context window
+ */
+export const ConversationCompactionSection: FC<
+  ConversationCompactionSectionProps
+> = ({ compaction, events }) => {
+  if (!compaction && (!events || events.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 rounded-xl border border-neutral-200 bg-neutral-50 p-4 dark:border-neutral-700 dark:bg-surface-100">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-neutral-900 dark:text-neutral-50">
+          <ArrowsPointingInIcon className="size-5" />
+          Compaction
+        </h3>
+        {events && events.length > 0 && (
+          <span className="rounded-full bg-primary-100 px-2.5 py-0.5 text-xs font-medium text-primary-800 dark:bg-primary-900 dark:text-primary-200">
+            {events.length}
+          </span>
+        )}
+      </div>
+      <p className="mb-3 text-xs text-neutral-600 dark:text-neutral-400">
+        This conversation outgrew the model&apos;s context window. Older turns
+        are sent to the model as a summary; recent turns and their tool results
+        are sent verbatim. The full history below is unchanged.
+      </p>
+      {events && events.length > 0 && (
+        <ul className="mb-3 space-y-2">
+          {events.map((event) => (
+            <li
+              key={event.createdAt}
+              className="rounded-lg border border-neutral-200 bg-white p-3 text-xs text-neutral-700 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-300"
+            >
+              <div className="mb-1 font-medium text-neutral-900 dark:text-neutral-50">
+                {new Date(event.createdAt).toLocaleString()}
+              </div>
+              <div>
+                Summarized {event.summarizedMessageCount} messages, kept{" "}
+                {event.keptMessageCount} recent messages
+              </div>
+              <div>
+                Prompt: {formatTokens(event.estimatedTokensBefore)} →{" "}
+                {formatTokens(event.estimatedTokensAfter)} tokens (est., limit{" "}
+                {formatTokens(event.maxSafeInputTokens)}) · {event.modelName}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {compaction && (
+        <details className="text-sm">
+          <summary className="cursor-pointer font-medium text-neutral-700 dark:text-neutral-300">
+            Current summary ({compaction.summarizedMessageCount} messages)
+          </summary>
+          <div className="mt-2 whitespace-pre-wrap rounded-lg border border-neutral-200 bg-white p-3 text-xs text-neutral-800 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-200">
+            {compaction.summary}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+};
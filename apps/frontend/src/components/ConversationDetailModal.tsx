@@ -23,6 +23,8 @@ import { formatCurrency } from "../utils/currency";
 import { getMessageCost } from "../utils/messageCost";
 
 import { AgentNameLink } from "./AgentNameLink";
+import { ConversationCompactionSection } from "./ConversationCompactionSection";
+import { ConversationFeedbackSection } from "./ConversationFeedbackSection";
 import { ConversationTemporalGraph } from "./ConversationTemporalGraph";
 import { NestedConversationDelegation } from "./NestedConversationDelegation";
 import { TruncatedPayloadDisplay } from "./TruncatedPayloadDisplay";
@@ -660,6 +662,18 @@ export const ConversationDetailModal: FC<ConversationDetailModalProps> = ({
                   {formatDate(conversationDetail.lastMessageAt)}
                 </div>
               </div>
+              {conversationDetail.agentConfigVersions &&
+                conversationDetail.agentConfigVersions.length > 0 && (
+                  <div>
+                    <div className="mb-1 flex items-center gap-1.5 font-medium text-neutral-700 dark:text-neutral-300">
+                      <TagIcon className="size-3.5" />
+                      Agent Version
+                    </div>
+                    <div className="text-neutral-900 dark:text-neutral-50">
+                      {conversationDetail.agentConfigVersions.join(", ")}
+                    </div>
+                  </div>
+                )}
             </div>
           </div>
 
@@ -878,6 +892,13 @@ export const ConversationDetailModal: FC<ConversationDetailModalProps> = ({
             </div>
           )}
 
+        <ConversationCompactionSection
+          compaction={conversationDetail.compaction}
+          events={conversationDetail.compactionEvents}
+        />
+
+        <ConversationFeedbackSection feedback={conversationDetail.feedback} />
+
         {/* Error Details */}
         {conversationDetail.error && (
           <div className="mb-4 rounded-xl border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-950">
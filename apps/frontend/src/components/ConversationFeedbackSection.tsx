@@ -0,0 +1,67 @@
+import { HandThumbUpIcon } from "@heroicons/react/24/outline";
+import type { FC } from "react";
+
+import type { ConversationFeedback } from "../utils/api";
+
+interface ConversationFeedbackSectionProps {
+  feedback?: ConversationFeedback[];
+}
+
+const SOURCE_LABELS: Record<ConversationFeedback["source"], string> = {
+  widget: "Widget",
+  slack: "Slack",
+  discord: "Discord",
+  api: "API",
+};
+
+/**
+ * End users' thumbs up/down on the agent's replies in this conversation
+ */
+export const ConversationFeedbackSection: FC<
+  ConversationFeedbackSectionProps
+> = ({ feedback }) => {
+  if (!feedback || feedback.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 rounded-xl border border-neutral-200 bg-neutral-50 p-4 dark:border-neutral-700 dark:bg-surface-100">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-neutral-900 dark:text-neutral-50">
+          <HandThumbUpIcon className="size-5" />
+          End-user Feedback
+        </h3>
+        <span className="rounded-full bg-primary-100 px-2.5 py-0.5 text-xs font-medium text-primary-800 dark:bg-primary-900 dark:text-primary-200">
+          {feedback.length}
+        </span>
+      </div>
+      <ul className="space-y-2">
+        {[...feedback].reverse().map((entry) => (
+          <li
+            key={`${entry.messageId}-${entry.source}-${entry.userId ?? ""}`}
+            className="rounded-lg border border-neutral-200 bg-white p-3 text-xs text-neutral-700 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-300"
+          >
+            <div className="flex items-center gap-2">
+              <span className="text-base">
+                {entry.rating === "positive" ? "👍" : "👎"}
+              </span>
+              <span className="font-medium text-neutral-900 dark:text-neutral-50">
+                {SOURCE_LABELS[entry.source]}
+                {entry.userId && ` · ${entry.userId}`}
+              </span>
+              <span className="ml-auto">
+                {new Date(entry.createdAt).toLocaleString()}
+              </span>
+            </div>
+            {entry.comment && (
+              <p className="mt-2 whitespace-pre-wrap">{entry.comment}</p>
+            )}
+            <div className="mt-1 font-mono text-[10px] text-neutral-500 dark:text-neutral-400">
+              Reply {entry.messageId}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,329 @@
+import type { FC } from "react";
+import { useState } from "react";
+
+import type { Conversation, ConversationSearchFilters } from "../utils/api";
+import { toNanoDollars } from "../utils/currency";
+
+const CONVERSATION_TYPE_LABELS: Record<Conversation["conversationType"], string> =
+  {
+    test: "Test",
+    webhook: "Webhook",
+    stream: "Stream",
+    scheduled: "Scheduled",
+    mcp: "MCP",
+  };
+
+const fieldClassName =
+  "rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50";
+const buttonClassName =
+  "rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:hover:bg-neutral-800";
+const labelClassName =
+  "flex flex-col gap-1 text-neutral-700 dark:text-neutral-300";
+
+type TriState = "" | "true" | "false";
+
+const FEEDBACK_LABELS: Record<
+  NonNullable<ConversationSearchFilters["feedback"]>,
+  string
+> = {
+  any: "With feedback",
+  positive: "With 👍",
+  negative: "With 👎",
+  none: "Without feedback",
+};
+
+interface FilterDraft {
+  q: string;
+  conversationType: Conversation["conversationType"] | "";
+  fromDate: string;
+  toDate: string;
+  hasError: TriState;
+  minCost: string;
+  maxCost: string;
+  model: string;
+  tool: string;
+  minEvalScore: string;
+  maxEvalScore: string;
+  criticalFailure: TriState;
+  hasDelegations: TriState;
+  feedback: ConversationSearchFilters["feedback"] | "";
+}
+
+const EMPTY_DRAFT: FilterDraft = {
+  q: "",
+  conversationType: "",
+  fromDate: "",
+  toDate: "",
+  hasError: "",
+  minCost: "",
+  maxCost: "",
+  model: "",
+  tool: "",
+  minEvalScore: "",
+  maxEvalScore: "",
+  criticalFailure: "",
+  hasDelegations: "",
+  feedback: "",
+};
+
+const toBoolean = (value: TriState) =>
+  value === "" ? undefined : value === "true";
+
+const toNumber = (value: string) =>
+  value.trim() === "" ? undefined : Number(value);
+
+const toFilters = (draft: FilterDraft): ConversationSearchFilters => {
+  const minCost = toNumber(draft.minCost);
+  const maxCost = toNumber(draft.maxCost);
+  return {
+    q: draft.q.trim() || undefined,
+    conversationType: draft.conversationType || undefined,
+    from: draft.fromDate
+      ? new Date(`${draft.fromDate}T00:00:00`).toISOString()
+      : undefined,
+    // Date inputs are inclusive of the whole selected day
+    to: draft.toDate
+      ? new Date(`${draft.toDate}T23:59:59.999`).toISOString()
+      : undefined,
+    hasError: toBoolean(draft.hasError),
+    minCostUsd: minCost !== undefined ? toNanoDollars(minCost) : undefined,
+    maxCostUsd: maxCost !== undefined ? toNanoDollars(maxCost) : undefined,
+    model: draft.model.trim() || undefined,
+    tool: draft.tool.trim() || undefined,
+    minEvalScore: toNumber(draft.minEvalScore),
+    maxEvalScore: toNumber(draft.maxEvalScore),
+    criticalFailure: toBoolean(draft.criticalFailure),
+    hasDelegations: toBoolean(draft.hasDelegations),
+    feedback: draft.feedback || undefined,
+  };
+};
+
+const TriStateSelect: FC<{
+  label: string;
+  value: TriState;
+  yesLabel: string;
+  noLabel: string;
+  onChange: (value: TriState) => void;
+}> = ({ label, value, yesLabel, noLabel, onChange }) => (
+  <label className={labelClassName}>
+    {label}
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as TriState)}
+      className={fieldClassName}
+    >
+      <option value="">Any</option>
+      <option value="true">{yesLabel}</option>
+      <option value="false">{noLabel}</option>
+    </select>
+  </label>
+);
+
+interface ConversationFilterBarProps {
+  onApply: (filters: ConversationSearchFilters) => void;
+  isSearching: boolean;
+}
+
+/**
+ * Search text and filters of a conversation list, applied on submit
+ */
+export const ConversationFilterBar: FC<ConversationFilterBarProps> = ({
+  onApply,
+  isSearching,
+}) => {
+  const [draft, setDraft] = useState<FilterDraft>(EMPTY_DRAFT);
+  const [showMoreFilters, setShowMoreFilters] = useState(false);
+
+  const update = (changes: Partial<FilterDraft>) =>
+    setDraft((current) => ({ ...current, ...changes }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onApply(toFilters(draft));
+  };
+
+  const handleClear = () => {
+    setDraft(EMPTY_DRAFT);
+    onApply({});
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-4 space-y-3 text-sm">
+      <div className="flex flex-wrap items-end gap-3">
+        <label className={`${labelClassName} min-w-[16rem] flex-1`}>
+          Message text
+          <input
+            type="search"
+            value={draft.q}
+            onChange={(e) => update({ q: e.target.value })}
+            maxLength={200}
+            placeholder="e.g. invoice 4471"
+            className={fieldClassName}
+          />
+        </label>
+        <label className={labelClassName}>
+          Type
+          <select
+            value={draft.conversationType}
+            onChange={(e) =>
+              update({
+                conversationType: e.target
+                  .value as FilterDraft["conversationType"],
+              })
+            }
+            className={fieldClassName}
+          >
+            <option value="">All types</option>
+            {Object.entries(CONVERSATION_TYPE_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={labelClassName}>
+          From
+          <input
+            type="date"
+            value={draft.fromDate}
+            max={draft.toDate || undefined}
+            onChange={(e) => update({ fromDate: e.target.value })}
+            className={fieldClassName}
+          />
+        </label>
+        <label className={labelClassName}>
+          To
+          <input
+            type="date"
+            value={draft.toDate}
+            min={draft.fromDate || undefined}
+            onChange={(e) => update({ toDate: e.target.value })}
+            className={fieldClassName}
+          />
+        </label>
+        <div className="flex gap-2">
+          <button type="submit" disabled={isSearching} className={buttonClassName}>
+            {isSearching ? "Searching..." : "Search"}
+          </button>
+          <button type="button" onClick={handleClear} className={buttonClassName}>
+            Clear
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowMoreFilters((current) => !current)}
+            className={buttonClassName}
+          >
+            {showMoreFilters ? "Fewer filters" : "More filters"}
+          </button>
+        </div>
+      </div>
+
+      {showMoreFilters && (
+        <div className="flex flex-wrap items-end gap-3">
+          <TriStateSelect
+            label="Error"
+            value={draft.hasError}
+            yesLabel="With error"
+            noLabel="Without error"
+            onChange={(hasError) => update({ hasError })}
+          />
+          <label className={labelClassName}>
+            Min cost ($)
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={draft.minCost}
+              onChange={(e) => update({ minCost: e.target.value })}
+              className={`${fieldClassName} w-28`}
+            />
+          </label>
+          <label className={labelClassName}>
+            Max cost ($)
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={draft.maxCost}
+              onChange={(e) => update({ maxCost: e.target.value })}
+              className={`${fieldClassName} w-28`}
+            />
+          </label>
+          <label className={labelClassName}>
+            Model
+            <input
+              type="text"
+              value={draft.model}
+              onChange={(e) => update({ model: e.target.value })}
+              placeholder="e.g. gpt-4.1"
+              className={fieldClassName}
+            />
+          </label>
+          <label className={labelClassName}>
+            Tool used
+            <input
+              type="text"
+              value={draft.tool}
+              onChange={(e) => update({ tool: e.target.value })}
+              placeholder="e.g. search_documents"
+              className={fieldClassName}
+            />
+          </label>
+          <label className={labelClassName}>
+            Min eval score
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={draft.minEvalScore}
+              onChange={(e) => update({ minEvalScore: e.target.value })}
+              className={`${fieldClassName} w-24`}
+            />
+          </label>
+          <label className={labelClassName}>
+            Max eval score
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={draft.maxEvalScore}
+              onChange={(e) => update({ maxEvalScore: e.target.value })}
+              className={`${fieldClassName} w-24`}
+            />
+          </label>
+          <TriStateSelect
+            label="Critical failure"
+            value={draft.criticalFailure}
+            yesLabel="Detected"
+            noLabel="Not detected"
+            onChange={(criticalFailure) => update({ criticalFailure })}
+          />
+          <TriStateSelect
+            label="Delegations"
+            value={draft.hasDelegations}
+            yesLabel="With delegations"
+            noLabel="Without delegations"
+            onChange={(hasDelegations) => update({ hasDelegations })}
+          />
+          <label className={labelClassName}>
+            End-user feedback
+            <select
+              value={draft.feedback}
+              onChange={(e) =>
+                update({ feedback: e.target.value as FilterDraft["feedback"] })
+              }
+              className={fieldClassName}
+            >
+              <option value="">Any</option>
+              {Object.entries(FEEDBACK_LABELS).map(([feedback, label]) => (
+                <option key={feedback} value={feedback}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </form>
+  );
+};
@@ -1,8 +1,8 @@
 import { ClockIcon } from "@heroicons/react/24/outline";
-import { useEffect, useMemo, useRef, type FC } from "react";
+import { useEffect, useMemo, useRef, useState, type FC } from "react";
 
-import { useAgentConversations } from "../hooks/useAgentConversations";
-import type { Conversation } from "../utils/api";
+import { useConversations } from "../hooks/useAgentConversations";
+import type { Conversation, ConversationSearchFilters } from "../utils/api";
 import {
   getTokenUsageColor,
   getCostColor,
@@ -10,21 +10,30 @@ import {
 import { formatCurrency } from "../utils/currency";
 import { trackEvent } from "../utils/tracking";
 
+import { ConversationFilterBar } from "./ConversationFilterBar";
 import { ScrollContainer } from "./ScrollContainer";
 import { VirtualList } from "./VirtualList";
 
 interface ConversationListProps {
   workspaceId: string;
-  agentId: string;
-  onConversationClick: (conversationId: string) => void;
+  /** Omit to list the conversations of every agent in the workspace */
+  agentId?: string;
+  /** Names shown on each conversation when listing the whole workspace */
+  agentNames?: Record<string, string>;
+  onConversationClick: (conversationId: string, agentId: string) => void;
 }
 
 export const ConversationList: FC<ConversationListProps> = ({
   workspaceId,
   agentId,
+  agentNames,
   onConversationClick,
 }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
+  const [filters, setFilters] = useState<ConversationSearchFilters>({});
+  const isFiltered = Object.values(filters).some(
+    (value) => value !== undefined
+  );
   const {
     data,
     fetchNextPage,
@@ -34,7 +43,7 @@ export const ConversationList: FC<ConversationListProps> = ({
     error,
     refetch,
     isRefetching,
-  } = useAgentConversations(workspaceId, agentId, 50);
+  } = useConversations(workspaceId, agentId, 50, filters);
 
   // Flatten all conversations from all pages
   const conversations = useMemo(
@@ -84,33 +93,46 @@ export const ConversationList: FC<ConversationListProps> = ({
         return "bg-success-100 text-success-700 border-success-200 dark:bg-success-900 dark:text-success-300 dark:border-success-700";
       case "scheduled":
         return "bg-indigo-100 text-indigo-700 border-indigo-200 dark:bg-indigo-900 dark:text-indigo-300 dark:border-indigo-700";
+      case "mcp":
+        return "bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-900 dark:text-amber-300 dark:border-amber-700";
       default:
         return "bg-neutral-100 text-neutral-700 border-neutral-200 dark:bg-surface-100 dark:text-neutral-300 dark:border-neutral-700";
     }
   };
 
 
-  if (isLoading && !data) {
-    return (
-      <>
-        <div className="mb-4 flex items-center justify-end">
-          <button
-            onClick={() => refetch()}
-            disabled={isRefetching}
-            className="rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:hover:bg-neutral-800"
-          >
-            {isRefetching ? "Refreshing..." : "Refresh"}
-          </button>
+  const emptyMessage = isFiltered
+    ? hasNextPage
+      ? "No matches among the most recent conversations searched so far."
+      : "No matching conversations."
+    : "No conversations yet.";
+
+  return (
+    <>
+      <div className="mb-4 space-y-2">
+        <p className="text-sm text-neutral-600 dark:text-neutral-300">
+          {agentId
+            ? "View all conversations this agent has participated in."
+            : "View the conversations of every agent in this workspace."}{" "}
+          Each conversation shows the message count, token usage, and
+          timestamps. Search the message text or filter by type, date, error,
+          cost, model, tool, eval score and delegations. Click on a
+          conversation to view its full details and message history.
+        </p>
+        <div className="rounded-xl border border-yellow-200 bg-yellow-50 p-3 dark:border-yellow-800 dark:bg-yellow-950">
+          <p className="text-xs font-medium text-yellow-800 dark:text-yellow-200">
+            Note: Conversation logs expire after 1 month and are automatically
+            deleted
+          </p>
         </div>
-        <p className="text-sm text-neutral-600 dark:text-neutral-300">Loading conversations...</p>
-      </>
-    );
-  }
+      </div>
+
+      <ConversationFilterBar
+        onApply={setFilters}
+        isSearching={isFiltered && isLoading}
+      />
 
-  if (error) {
-    return (
-      <>
-        <div className="mb-4 flex items-center justify-end">
+      <div className="mb-4 flex items-center justify-end">
           <button
             onClick={() => refetch()}
             disabled={isRefetching}
@@ -118,7 +140,9 @@ export const ConversationList: FC<ConversationListProps> = ({
           >
             {isRefetching ? "Refreshing..." : "Refresh"}
           </button>
-        </div>
+      </div>
+
+      {error ? (
         <div className="rounded-xl border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-950">
           <div className="text-sm font-semibold text-red-800 dark:text-red-200">Error</div>
           <div className="mt-1 text-xs text-red-700 dark:text-red-300">
@@ -127,198 +151,190 @@ export const ConversationList: FC<ConversationListProps> = ({
               : "Failed to load conversations"}
           </div>
         </div>
-      </>
-    );
-  }
-
-  return (
-    <>
-      <div className="mb-4 space-y-2">
+      ) : isLoading && !data ? (
         <p className="text-sm text-neutral-600 dark:text-neutral-300">
-          View all conversations this agent has participated in. Each
-          conversation shows the message count, token usage, and timestamps.
-          Click on a conversation to view its full details and message history.
+          {isFiltered ? "Searching conversations..." : "Loading conversations..."}
         </p>
-        <div className="rounded-xl border border-yellow-200 bg-yellow-50 p-3 dark:border-yellow-800 dark:bg-yellow-950">
-          <p className="text-xs font-medium text-yellow-800 dark:text-yellow-200">
-            Note: Conversation logs expire after 1 month and are automatically
-            deleted
-          </p>
-        </div>
-      </div>
-
-      {conversations.length === 0 && !isLoading ? (
-        <>
-          <div className="mb-4 flex items-center justify-end">
-            <button
-              onClick={() => refetch()}
-              disabled={isRefetching}
-              className="rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:hover:bg-neutral-800"
-            >
-              {isRefetching ? "Refreshing..." : "Refresh"}
-            </button>
-          </div>
-          <p className="text-sm text-neutral-600 dark:text-neutral-300">No conversations yet.</p>
-        </>
       ) : (
-        <>
-          <div className="mb-4 flex items-center justify-end">
-            <button
-              onClick={() => refetch()}
-              disabled={isRefetching}
-              className="rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:hover:bg-neutral-800"
-            >
-              {isRefetching ? "Refreshing..." : "Refresh"}
-            </button>
-          </div>
-          <ScrollContainer ref={scrollRef} className="mb-4">
-            <VirtualList<Conversation>
-              scrollRef={scrollRef}
-              items={conversations}
-              estimateSize={() => 140}
-              getItemKey={(_index, c) => c.id}
-              hasNextPage={hasNextPage}
-              isFetchingNextPage={isFetchingNextPage}
-              fetchNextPage={fetchNextPage}
-              empty={
-                <p className="py-4 text-sm text-neutral-600 dark:text-neutral-300">
-                  No conversations yet.
+        <ScrollContainer ref={scrollRef} className="mb-4">
+          <VirtualList<Conversation>
+            scrollRef={scrollRef}
+            items={conversations}
+            estimateSize={() => 140}
+            getItemKey={(_index, c) => c.id}
+            hasNextPage={hasNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+            fetchNextPage={fetchNextPage}
+            empty={
+              <div className="flex items-center gap-3 py-4">
+                <p className="text-sm text-neutral-600 dark:text-neutral-300">
+                  {emptyMessage}
                 </p>
-              }
-              renderRow={(conversation) => (
-                <div className="mb-2">
-                  <div
-                    onClick={() => {
-                      trackEvent("agent_conversation_viewed", {
-                        workspace_id: workspaceId,
-                        agent_id: agentId,
-                        conversation_id: conversation.id,
-                        conversation_type: conversation.conversationType,
-                      });
-                      onConversationClick(conversation.id);
-                    }}
-                    className="transform cursor-pointer rounded-xl border-2 border-neutral-300 bg-white p-4 transition-all duration-200 hover:scale-[1.01] hover:border-blue-400 hover:shadow-bold active:scale-[0.99] dark:border-neutral-700 dark:bg-surface-50 dark:hover:border-blue-400/60 dark:hover:shadow-blue-glow"
+                {isFiltered && hasNextPage && (
+                  <button
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                    className="rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:hover:bg-neutral-800"
                   >
-                    <div className="mb-2 flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        <span
-                          className={`rounded-lg border px-2 py-1 text-xs font-semibold ${getConversationTypeColor(
-                            conversation.conversationType
-                          )}`}
-                        >
-                          {conversation.conversationType.toUpperCase()}
-                        </span>
-                        <span className="text-xs text-neutral-600 dark:text-neutral-400">
-                          {conversation.messageCount} message
-                          {conversation.messageCount !== 1 ? "s" : ""}
+                    {isFetchingNextPage
+                      ? "Searching..."
+                      : "Search older conversations"}
+                  </button>
+                )}
+              </div>
+            }
+            renderRow={(conversation) => (
+              <div className="mb-2">
+                <div
+                  onClick={() => {
+                    trackEvent("agent_conversation_viewed", {
+                      workspace_id: workspaceId,
+                      agent_id: agentId ?? conversation.agentId,
+                      conversation_id: conversation.id,
+                      conversation_type: conversation.conversationType,
+                    });
+                    onConversationClick(
+                      conversation.id,
+                      conversation.agentId ?? agentId ?? ""
+                    );
+                  }}
+                  className="transform cursor-pointer rounded-xl border-2 border-neutral-300 bg-white p-4 transition-all duration-200 hover:scale-[1.01] hover:border-blue-400 hover:shadow-bold active:scale-[0.99] dark:border-neutral-700 dark:bg-surface-50 dark:hover:border-blue-400/60 dark:hover:shadow-blue-glow"
+                >
+                  <div className="mb-2 flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={`rounded-lg border px-2 py-1 text-xs font-semibold ${getConversationTypeColor(
+                          conversation.conversationType
+                        )}`}
+                      >
+                        {conversation.conversationType.toUpperCase()}
+                      </span>
+                      {!agentId && conversation.agentId && (
+                        <span className="text-xs font-semibold text-neutral-900 dark:text-neutral-50">
+                          {agentNames?.[conversation.agentId] ??
+                            conversation.agentId}
                         </span>
-                      </div>
-                      <div className="flex flex-col items-end gap-1">
-                        <div className="flex items-center gap-2">
-                          {conversation.hasError && (
-                            <div className="inline-flex items-center gap-1 rounded-lg border border-error-200 bg-error-100 px-2 py-1 text-[10px] font-semibold uppercase tracking-wide text-error-800 dark:border-error-800 dark:bg-error-900 dark:text-error-200">
-                              Error
-                            </div>
-                          )}
-                          {conversation.costUsd !== undefined && (
-                            <span
-                              className={`rounded-lg border px-2 py-1 text-xs font-semibold ${getCostColor(
-                                conversation.costUsd
-                              )}`}
-                            >
-                              {formatCurrency(conversation.costUsd, "usd", 10)}
-                            </span>
-                          )}
-                        </div>
-                        {conversation.rerankingCostUsd !== undefined && (
+                      )}
+                      <span className="text-xs text-neutral-600 dark:text-neutral-400">
+                        {conversation.messageCount} message
+                        {conversation.messageCount !== 1 ? "s" : ""}
+                      </span>
+                    </div>
+                    <div className="flex flex-col items-end gap-1">
+                      <div className="flex items-center gap-2">
+                        {((conversation.positiveFeedbackCount ?? 0) > 0 ||
+                          (conversation.negativeFeedbackCount ?? 0) > 0) && (
                           <span
-                            className={`rounded-lg border px-2 py-0.5 text-[10px] font-medium ${getCostColor(
-                              conversation.rerankingCostUsd
-                            )}`}
-                            title="Reranking cost"
+                            className="text-xs text-neutral-600 dark:text-neutral-400"
+                            title="End-user feedback"
                           >
-                            Rerank: {formatCurrency(conversation.rerankingCostUsd, "usd", 10)}
+                            👍 {conversation.positiveFeedbackCount ?? 0} · 👎{" "}
+                            {conversation.negativeFeedbackCount ?? 0}
                           </span>
                         )}
-                      </div>
-                    </div>
-                    <div className="flex items-start justify-between gap-4">
-                      <div className="flex items-center gap-4 text-xs text-neutral-600 dark:text-neutral-400">
-                        <div className="flex items-center gap-1">
-                          <ClockIcon className="size-3" />
-                          <span>{formatDate(conversation.startedAt)}</span>
-                        </div>
-                        <div className="flex items-center gap-1">
-                          <ClockIcon className="size-3" />
-                          <span>{formatDate(conversation.lastMessageAt)}</span>
-                        </div>
-                        {conversation.totalGenerationTimeMs !== undefined && (
-                          <div className="flex items-center gap-1">
-                            <ClockIcon className="size-3" />
-                            <span className="font-medium">
-                              {formatGenerationTime(conversation.totalGenerationTimeMs)}
-                            </span>
+                        {conversation.hasError && (
+                          <div className="inline-flex items-center gap-1 rounded-lg border border-error-200 bg-error-100 px-2 py-1 text-[10px] font-semibold uppercase tracking-wide text-error-800 dark:border-error-800 dark:bg-error-900 dark:text-error-200">
+                            Error
                           </div>
                         )}
-                      </div>
-                      {conversation.tokenUsage && (
-                        <div className="flex flex-wrap items-center gap-1.5">
+                        {conversation.costUsd !== undefined && (
                           <span
-                            className={`rounded-lg border px-2 py-0.5 text-xs font-semibold ${getTokenUsageColor(
-                              conversation.tokenUsage.promptTokens
+                            className={`rounded-lg border px-2 py-1 text-xs font-semibold ${getCostColor(
+                              conversation.costUsd
                             )}`}
                           >
-                            P: {conversation.tokenUsage.promptTokens.toLocaleString()}
+                            {formatCurrency(conversation.costUsd, "usd", 10)}
                           </span>
-                          <span
-                            className={`rounded-lg border px-2 py-0.5 text-xs font-semibold ${getTokenUsageColor(
-                              conversation.tokenUsage.completionTokens
-                            )}`}
-                          >
-                            C:{" "}
-                            {conversation.tokenUsage.completionTokens.toLocaleString()}
-                          </span>
-                          {"reasoningTokens" in conversation.tokenUsage &&
-                            typeof conversation.tokenUsage.reasoningTokens === "number" &&
-                            conversation.tokenUsage.reasoningTokens > 0 && (
-                              <span
-                                className={`rounded-lg border px-2 py-0.5 text-xs font-semibold ${getTokenUsageColor(
-                                  conversation.tokenUsage.reasoningTokens
-                                )}`}
-                              >
-                                R:{" "}
-                                {conversation.tokenUsage.reasoningTokens.toLocaleString()}
-                              </span>
-                            )}
-                          {"cachedPromptTokens" in conversation.tokenUsage &&
-                            typeof conversation.tokenUsage.cachedPromptTokens === "number" &&
-                            conversation.tokenUsage.cachedPromptTokens > 0 && (
-                              <span
-                                className={`rounded-lg border px-2 py-0.5 text-xs font-semibold ${getTokenUsageColor(
-                                  conversation.tokenUsage.cachedPromptTokens
-                                )}`}
-                              >
-                                Cache:{" "}
-                                {conversation.tokenUsage.cachedPromptTokens.toLocaleString()}
-                              </span>
-                            )}
-                          <span
-                            className={`rounded-lg border px-2 py-0.5 text-xs font-semibold ${getTokenUsageColor(
-                              conversation.tokenUsage.totalTokens
-                            )}`}
-                          >
-                            Total:{" "}
-                            {conversation.tokenUsage.totalTokens.toLocaleString()}
+                        )}
+                      </div>
+                      {conversation.rerankingCostUsd !== undefined && (
+                        <span
+                          className={`rounded-lg border px-2 py-0.5 text-[10px] font-medium ${getCostColor(
+                            conversation.rerankingCostUsd
+                          )}`}
+                          title="Reranking cost"
+                        >
+                          Rerank: {formatCurrency(conversation.rerankingCostUsd, "usd", 10)}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-center gap-4 text-xs text-neutral-600 dark:text-neutral-400">
+                      <div className="flex items-center gap-1">
+                        <ClockIcon className="size-3" />
+                        <span>{formatDate(conversation.startedAt)}</span>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <ClockIcon className="size-3" />
+                        <span>{formatDate(conversation.lastMessageAt)}</span>
+                      </div>
+                      {conversation.totalGenerationTimeMs !== undefined && (
+                        <div className="flex items-center gap-1">
+                          <ClockIcon className="size-3" />
+                          <span className="font-medium">
+                            {formatGenerationTime(conversation.totalGenerationTimeMs)}
                           </span>
                         </div>
                       )}
                     </div>
+                    {conversation.tokenUsage && (
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        <span
+                          className={`rounded-lg border px-2 py-0.5 text-xs font-semibold ${getTokenUsageColor(
+                            conversation.tokenUsage.promptTokens
+                          )}`}
+                        >
+                          P: {conversation.tokenUsage.promptTokens.toLocaleString()}
+                        </span>
+                        <span
+                          className={`rounded-lg border px-2 py-0.5 text-xs font-semibold ${getTokenUsageColor(
+                            conversation.tokenUsage.completionTokens
+                          )}`}
+                        >
+                          C:{" "}
+                          {conversation.tokenUsage.completionTokens.toLocaleString()}
+                        </span>
+                        {"reasoningTokens" in conversation.tokenUsage &&
+                          typeof conversation.tokenUsage.reasoningTokens === "number" &&
+                          conversation.tokenUsage.reasoningTokens > 0 && (
+                            <span
+                              className={`rounded-lg border px-2 py-0.5 text-xs font-semibold ${getTokenUsageColor(
+                                conversation.tokenUsage.reasoningTokens
+                              )}`}
+                            >
+                              R:{" "}
+                              {conversation.tokenUsage.reasoningTokens.toLocaleString()}
+                            </span>
+                          )}
+                        {"cachedPromptTokens" in conversation.tokenUsage &&
+                          typeof conversation.tokenUsage.cachedPromptTokens === "number" &&
+                          conversation.tokenUsage.cachedPromptTokens > 0 && (
+                            <span
+                              className={`rounded-lg border px-2 py-0.5 text-xs font-semibold ${getTokenUsageColor(
+                                conversation.tokenUsage.cachedPromptTokens
+                              )}`}
+                            >
+                              Cache:{" "}
+                              {conversation.tokenUsage.cachedPromptTokens.toLocaleString()}
+                            </span>
+                          )}
+                        <span
+                          className={`rounded-lg border px-2 py-0.5 text-xs font-semibold ${getTokenUsageColor(
+                            conversation.tokenUsage.totalTokens
+                          )}`}
+                        >
+                          Total:{" "}
+                          {conversation.tokenUsage.totalTokens.toLocaleString()}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </div>
-              )}
-            />
-          </ScrollContainer>
-        </>
+              </div>
+            )}
+          />
+        </ScrollContainer>
       )}
     </>
   );
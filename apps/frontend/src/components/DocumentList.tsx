@@ -9,6 +9,7 @@ import {
   useFolders,
   useSearchDocuments,
 } from "../hooks/useDocuments";
+import type { DocumentSearchMode } from "../utils/api";
 import { getSizeColor, getAgeColor, getPercentageColor } from "../utils/colorUtils";
 import { trackEvent } from "../utils/tracking";
 
@@ -35,6 +36,7 @@ export const DocumentList: FC<DocumentListProps> = ({
   );
   const [searchQuery, setSearchQuery] = useState("");
   const [activeSearchQuery, setActiveSearchQuery] = useState("");
+  const [searchMode, setSearchMode] = useState<DocumentSearchMode>("hybrid");
   const [currentTime, setCurrentTime] = useState(() => Date.now());
   
   // Update current time every minute for age calculations
@@ -46,7 +48,7 @@ export const DocumentList: FC<DocumentListProps> = ({
   }, []);
 
   const { data: searchResults = [], isLoading: isSearching } =
-    useSearchDocuments(workspaceId, activeSearchQuery);
+    useSearchDocuments(workspaceId, activeSearchQuery, undefined, searchMode);
 
   const handleSearch = () => {
     if (searchQuery.trim()) {
@@ -54,6 +56,7 @@ export const DocumentList: FC<DocumentListProps> = ({
       trackEvent("document_search_performed", {
         workspace_id: workspaceId,
         query_length: searchQuery.trim().length,
+        mode: searchMode,
       });
     }
   };
@@ -159,6 +162,19 @@ export const DocumentList: FC<DocumentListProps> = ({
                 className="w-full rounded-xl border border-neutral-300 bg-white py-3 pl-12 pr-4 text-neutral-900 transition-all duration-200 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:placeholder:text-neutral-400 dark:focus:border-blue-400 dark:focus:ring-blue-400/40"
               />
             </div>
+            <select
+              value={searchMode}
+              onChange={(e) =>
+                setSearchMode(e.target.value as DocumentSearchMode)
+              }
+              aria-label="Search mode"
+              title="Hybrid matches exact terms and meaning, Keyword only exact terms, Semantic only meaning"
+              className="rounded-xl border border-neutral-300 bg-white px-4 py-3 text-sm text-neutral-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50"
+            >
+              <option value="hybrid">Hybrid</option>
+              <option value="keyword">Keyword</option>
+              <option value="vector">Semantic</option>
+            </select>
             <button
               onClick={handleSearch}
               disabled={!searchQuery.trim()}
@@ -9,6 +9,18 @@ import {
 import type { CreateDocumentInput } from "../utils/api";
 import { trackEvent } from "../utils/tracking";
 
+// Keep in sync with the extractors registered in the backend (utils/documentExtraction)
+const SUPPORTED_EXTENSIONS = [
+  ".md",
+  ".txt",
+  ".markdown",
+  ".pdf",
+  ".docx",
+  ".html",
+  ".htm",
+  ".csv",
+];
+
 interface DocumentUploadProps {
   workspaceId: string;
   currentFolder?: string;
@@ -55,11 +67,13 @@ export const DocumentUpload: FC<DocumentUploadProps> = ({
 
     const files = Array.from(e.dataTransfer.files).filter((file) => {
       const ext = file.name.substring(file.name.lastIndexOf(".")).toLowerCase();
-      return [".md", ".txt", ".markdown"].includes(ext);
+      return SUPPORTED_EXTENSIONS.includes(ext);
     });
 
     if (files.length === 0) {
-      alert("Please drop markdown or text files only (.md, .txt, .markdown)");
+      alert(
+        `Please drop supported files only (${SUPPORTED_EXTENSIONS.join(", ")})`
+      );
       return;
     }
 
@@ -72,11 +86,13 @@ export const DocumentUpload: FC<DocumentUploadProps> = ({
 
     const validFiles = Array.from(files).filter((file) => {
       const ext = file.name.substring(file.name.lastIndexOf(".")).toLowerCase();
-      return [".md", ".txt", ".markdown"].includes(ext);
+      return SUPPORTED_EXTENSIONS.includes(ext);
     });
 
     if (validFiles.length === 0) {
-      alert("Please select markdown or text files only (.md, .txt, .markdown)");
+      alert(
+        `Please select supported files only (${SUPPORTED_EXTENSIONS.join(", ")})`
+      );
       return;
     }
 
@@ -173,10 +189,11 @@ export const DocumentUpload: FC<DocumentUploadProps> = ({
         Upload Documents
       </h2>
       <p className="mb-4 text-sm text-neutral-600 dark:text-neutral-300">
-        Upload documents (markdown or text files) that your agents can reference
-        when answering questions. Documents are organized in folders and can be
-        searched by agents during conversations. Maximum file size is 10MB per
-        file.
+        Upload documents (markdown, text, PDF, Word, HTML or CSV files) that
+        your agents can reference when answering questions. Text is extracted
+        from PDF, Word, HTML and CSV files for search. Documents are organized
+        in folders and can be searched by agents during conversations. Maximum
+        file size is 10MB per file.
       </p>
 
       {/* Folder selection */}
@@ -227,7 +244,7 @@ export const DocumentUpload: FC<DocumentUploadProps> = ({
           ref={fileInputRef}
           type="file"
           multiple
-          accept=".md,.txt,.markdown"
+          accept={SUPPORTED_EXTENSIONS.join(",")}
           onChange={handleFileSelect}
           className="hidden"
           id="file-upload"
@@ -239,7 +256,7 @@ export const DocumentUpload: FC<DocumentUploadProps> = ({
           Select Files
         </label>
         <p className="mt-2 text-xs text-neutral-500 dark:text-neutral-300">
-          Supported: .md, .txt, .markdown (max 10MB per file)
+          Supported: {SUPPORTED_EXTENSIONS.join(", ")} (max 10MB per file)
         </p>
       </div>
 
@@ -9,6 +9,7 @@ import {
   useFolders,
 } from "../hooks/useDocuments";
 import { useEscapeKey } from "../hooks/useEscapeKey";
+import { formatTagList, parseTagList } from "../utils/documentTags";
 
 import { QueryPanel } from "./QueryPanel";
 
@@ -34,14 +35,21 @@ const DocumentViewerContent: FC<{
   const [name, setName] = useState(() => document.name);
   const [content, setContent] = useState(() => document.content || "");
   const [folderPath, setFolderPath] = useState(() => document.folderPath || "");
+  const [tagsInput, setTagsInput] = useState(() =>
+    formatTagList(document.tags)
+  );
+  const tags = parseTagList(tagsInput);
+  const tagsChanged = formatTagList(tags) !== formatTagList(document.tags);
   const [isDeleting, setIsDeleting] = useState(false);
 
   const handleSave = async () => {
     try {
       await updateDocument.mutateAsync({
         name,
-        content,
+        // Extracted text of PDF/DOCX/HTML/CSV documents is read-only
+        content: document.isExtracted ? undefined : content,
         folderPath: folderPath !== document.folderPath ? folderPath : undefined,
+        tags: tagsChanged ? tags : undefined,
       });
       onClose();
     } catch {
@@ -71,6 +79,7 @@ const DocumentViewerContent: FC<{
     setName(document.name);
     setContent(document.content);
     setFolderPath(document.folderPath);
+    setTagsInput(formatTagList(document.tags));
     onClose();
   };
 
@@ -79,7 +88,8 @@ const DocumentViewerContent: FC<{
   const hasChanges =
     name !== document.name ||
     content !== document.content ||
-    folderPath !== document.folderPath;
+    folderPath !== document.folderPath ||
+    tagsChanged;
 
   return (
     <>
@@ -117,10 +127,26 @@ const DocumentViewerContent: FC<{
           </select>
         </div>
 
+        <div>
+          <label className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300">
+            Tags
+          </label>
+          <input
+            type="text"
+            value={tagsInput}
+            onChange={(e) => setTagsInput(e.target.value)}
+            placeholder="e.g. public, onboarding"
+            className="w-full rounded-xl border border-neutral-300 bg-white px-4 py-2.5 text-neutral-900 transition-colors focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:focus:border-blue-400 dark:focus:ring-blue-400/40"
+          />
+          <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-300">
+            Comma-separated. Agents can be given access to documents by tag.
+          </p>
+        </div>
+
         <div>
           <div className="mb-2 flex items-center justify-between">
             <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">
-              Content
+              {document.isExtracted ? "Extracted text (read-only)" : "Content"}
             </label>
             <span className="text-xs text-neutral-500 dark:text-neutral-300">
               {new Date(document.createdAt).toLocaleString()} •{" "}
@@ -130,6 +156,7 @@ const DocumentViewerContent: FC<{
           <textarea
             value={content}
             onChange={(e) => setContent(e.target.value)}
+            readOnly={document.isExtracted}
             className="w-full rounded-xl border border-neutral-300 bg-white px-4 py-2.5 font-mono text-neutral-900 transition-colors focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:focus:border-blue-400 dark:focus:ring-blue-400/40"
             rows={20}
           />
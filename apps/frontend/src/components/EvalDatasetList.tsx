@@ -0,0 +1,155 @@
+import { useState } from "react";
+import type { FC } from "react";
+
+import {
+  useDeleteEvalDataset,
+  useEvalDatasets,
+} from "../hooks/useEvalDatasets";
+import type { EvalDataset } from "../utils/api";
+
+import { EvalDatasetModal } from "./EvalDatasetModal";
+import { EvalRunModal } from "./EvalRunModal";
+
+interface EvalDatasetListProps {
+  workspaceId: string;
+  agentId: string;
+  canEdit: boolean;
+}
+
+export const EvalDatasetList: FC<EvalDatasetListProps> = ({
+  workspaceId,
+  agentId,
+  canEdit,
+}) => {
+  const { data: datasets, isLoading } = useEvalDatasets(workspaceId, agentId);
+  const deleteDataset = useDeleteEvalDataset(workspaceId, agentId);
+  const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [editingDatasetId, setEditingDatasetId] = useState<string | null>(
+    null
+  );
+  const [runningDataset, setRunningDataset] = useState<EvalDataset | null>(
+    null
+  );
+
+  const handleDelete = async (dataset: EvalDataset) => {
+    if (
+      !confirm(
+        `Are you sure you want to delete the test dataset "${dataset.name}"? Its past runs are kept.`
+      )
+    ) {
+      return;
+    }
+    try {
+      await deleteDataset.mutateAsync(dataset.id);
+    } catch {
+      // Error is handled by toast in the hook
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="rounded-xl border-2 border-neutral-300 bg-white p-6 dark:border-neutral-700 dark:bg-surface-50">
+        <p className="text-lg font-bold text-neutral-900 dark:text-neutral-50">
+          Loading test datasets...
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-neutral-600 dark:text-neutral-300">
+          Fixed input messages, each with an optional expected answer or
+          rubric notes. Run a dataset to score the agent offline with its
+          enabled judges and compare configurations before changing them.
+        </p>
+        {canEdit && (
+          <button
+            onClick={() => setIsCreateModalOpen(true)}
+            className="shrink-0 rounded-xl bg-gradient-primary px-4 py-2.5 text-sm font-semibold text-white transition-colors hover:shadow-colored"
+          >
+            ✨ Create Dataset
+          </button>
+        )}
+      </div>
+
+      {!datasets || datasets.length === 0 ? (
+        <div className="rounded-xl border-2 border-neutral-300 bg-white p-6 dark:border-neutral-700 dark:bg-surface-50">
+          <p className="text-base font-bold text-neutral-700 dark:text-neutral-300">
+            No test datasets yet.
+          </p>
+        </div>
+      ) : (
+        datasets.map((dataset) => (
+          <div
+            key={dataset.id}
+            className="flex items-center justify-between gap-4 rounded-xl border-2 border-neutral-300 bg-white p-6 dark:border-neutral-700 dark:bg-surface-50"
+          >
+            <div className="min-w-0 flex-1">
+              <div className="text-lg font-semibold text-neutral-900 dark:text-neutral-50">
+                {dataset.name}
+              </div>
+              {dataset.description && (
+                <div className="mt-1 text-sm text-neutral-600 dark:text-neutral-400">
+                  {dataset.description}
+                </div>
+              )}
+              <div className="mt-1 text-xs text-neutral-500 dark:text-neutral-500">
+                {dataset.caseCount} case{dataset.caseCount === 1 ? "" : "s"} |
+                Updated:{" "}
+                {new Date(
+                  dataset.updatedAt ?? dataset.createdAt
+                ).toLocaleDateString()}
+              </div>
+            </div>
+            {canEdit && (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setRunningDataset(dataset)}
+                  disabled={dataset.caseCount === 0}
+                  className="rounded-xl border border-green-300 bg-white px-4 py-2 text-sm font-medium text-green-600 transition-colors hover:bg-green-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-green-600 dark:bg-surface-50 dark:text-green-400 dark:hover:bg-green-950"
+                >
+                  ▶ Run
+                </button>
+                <button
+                  onClick={() => setEditingDatasetId(dataset.id)}
+                  className="rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium text-neutral-700 transition-colors hover:bg-neutral-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-300 dark:hover:bg-neutral-800"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(dataset)}
+                  disabled={deleteDataset.isPending}
+                  className="rounded-xl bg-error-600 px-4 py-2.5 text-sm font-semibold text-white transition-colors hover:bg-error-700 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+            )}
+          </div>
+        ))
+      )}
+
+      {(isCreateModalOpen || editingDatasetId) && (
+        <EvalDatasetModal
+          onClose={() => {
+            setIsCreateModalOpen(false);
+            setEditingDatasetId(null);
+          }}
+          workspaceId={workspaceId}
+          agentId={agentId}
+          datasetId={editingDatasetId ?? undefined}
+        />
+      )}
+      {runningDataset && (
+        <EvalRunModal
+          onClose={() => setRunningDataset(null)}
+          workspaceId={workspaceId}
+          agentId={agentId}
+          dataset={runningDataset}
+        />
+      )}
+    </div>
+  );
+};
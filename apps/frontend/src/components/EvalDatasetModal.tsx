@@ -0,0 +1,290 @@
+import { useEffect, useState } from "react";
+import type { FC } from "react";
+
+import { useDialogTracking } from "../contexts/DialogContext";
+import { useEscapeKey } from "../hooks/useEscapeKey";
+import {
+  useCreateEvalDataset,
+  useEvalDataset,
+  useUpdateEvalDataset,
+} from "../hooks/useEvalDatasets";
+import type { EvalDataset, EvalDatasetCaseInput } from "../utils/api";
+
+const MAX_CASES = 100;
+
+const inputClassName =
+  "w-full rounded-xl border border-neutral-300 bg-white px-4 py-2.5 text-neutral-900 transition-colors focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:focus:border-blue-400 dark:focus:ring-blue-400/40";
+
+interface EvalDatasetModalProps {
+  onClose: () => void;
+  workspaceId: string;
+  agentId: string;
+  datasetId?: string; // If provided, we're editing; otherwise, creating
+}
+
+interface CaseDraft {
+  /** Key for rendering; the case ID of existing cases */
+  key: string;
+  caseId?: string;
+  input: string;
+  expectedOutput: string;
+  rubric: string;
+}
+
+const emptyCase = (): CaseDraft => ({
+  key: crypto.randomUUID(),
+  input: "",
+  expectedOutput: "",
+  rubric: "",
+});
+
+const toCaseDrafts = (dataset: EvalDataset | undefined): CaseDraft[] =>
+  dataset?.cases && dataset.cases.length > 0
+    ? dataset.cases.map((datasetCase) => ({
+        key: datasetCase.caseId,
+        caseId: datasetCase.caseId,
+        input: datasetCase.input,
+        expectedOutput: datasetCase.expectedOutput ?? "",
+        rubric: datasetCase.rubric ?? "",
+      }))
+    : [emptyCase()];
+
+interface EvalDatasetFormProps {
+  dataset?: EvalDataset;
+  workspaceId: string;
+  agentId: string;
+  onClose: () => void;
+}
+
+/** Mounted once the dataset being edited is loaded, so state starts from it */
+const EvalDatasetForm: FC<EvalDatasetFormProps> = ({
+  dataset,
+  workspaceId,
+  agentId,
+  onClose,
+}) => {
+  const createDataset = useCreateEvalDataset(workspaceId, agentId);
+  const updateDataset = useUpdateEvalDataset(
+    workspaceId,
+    agentId,
+    dataset?.id ?? ""
+  );
+  const [name, setName] = useState(dataset?.name ?? "");
+  const [description, setDescription] = useState(dataset?.description ?? "");
+  const [cases, setCases] = useState<CaseDraft[]>(() => toCaseDrafts(dataset));
+
+  const updateCase = (key: string, changes: Partial<CaseDraft>) => {
+    setCases((current) =>
+      current.map((draft) =>
+        draft.key === key ? { ...draft, ...changes } : draft
+      )
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const filledCases: EvalDatasetCaseInput[] = cases
+      .filter((draft) => draft.input.trim())
+      .map((draft) => ({
+        ...(draft.caseId && { caseId: draft.caseId }),
+        input: draft.input.trim(),
+        expectedOutput: draft.expectedOutput.trim() || null,
+        rubric: draft.rubric.trim() || null,
+      }));
+    if (!name.trim()) return;
+
+    try {
+      if (dataset) {
+        await updateDataset.mutateAsync({
+          name: name.trim(),
+          description: description.trim() || null,
+          cases: filledCases,
+        });
+      } else {
+        await createDataset.mutateAsync({
+          name: name.trim(),
+          ...(description.trim() && { description: description.trim() }),
+          cases: filledCases,
+        });
+      }
+      onClose();
+    } catch {
+      // Error is handled by toast in the hook
+    }
+  };
+
+  const isPending = dataset ? updateDataset.isPending : createDataset.isPending;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div>
+        <label
+          htmlFor="datasetName"
+          className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300"
+        >
+          Name *
+        </label>
+        <input
+          id="datasetName"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={200}
+          className={inputClassName}
+          required
+        />
+      </div>
+
+      <div>
+        <label
+          htmlFor="datasetDescription"
+          className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300"
+        >
+          Description
+        </label>
+        <input
+          id="datasetDescription"
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={1000}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="space-y-4">
+        <div className="text-sm font-medium text-neutral-700 dark:text-neutral-300">
+          Test Cases ({cases.length}/{MAX_CASES})
+        </div>
+        {cases.map((draft, index) => (
+          <div
+            key={draft.key}
+            className="space-y-3 rounded-xl border border-neutral-200 p-4 dark:border-neutral-700"
+          >
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-semibold text-neutral-900 dark:text-neutral-50">
+                Case {index + 1}
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  setCases((current) =>
+                    current.filter((other) => other.key !== draft.key)
+                  )
+                }
+                className="text-sm font-medium text-error-600 hover:text-error-700 dark:text-error-400"
+              >
+                Remove
+              </button>
+            </div>
+            <textarea
+              aria-label={`Case ${index + 1} input message`}
+              value={draft.input}
+              onChange={(e) => updateCase(draft.key, { input: e.target.value })}
+              rows={2}
+              placeholder="Input message sent to the agent *"
+              className={`${inputClassName} text-sm`}
+            />
+            <textarea
+              aria-label={`Case ${index + 1} expected answer`}
+              value={draft.expectedOutput}
+              onChange={(e) =>
+                updateCase(draft.key, { expectedOutput: e.target.value })
+              }
+              rows={2}
+              placeholder="Expected answer (optional)"
+              className={`${inputClassName} text-sm`}
+            />
+            <input
+              type="text"
+              aria-label={`Case ${index + 1} rubric notes`}
+              value={draft.rubric}
+              onChange={(e) => updateCase(draft.key, { rubric: e.target.value })}
+              placeholder="Rubric notes for the judges (optional)"
+              className={`${inputClassName} text-sm`}
+            />
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setCases((current) => [...current, emptyCase()])}
+          disabled={cases.length >= MAX_CASES}
+          className="rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium text-neutral-700 transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-300 dark:hover:bg-neutral-800"
+        >
+          + Add Case
+        </button>
+        <p className="text-xs text-neutral-600 dark:text-neutral-300">
+          Cases without an input message are not saved. The judges score each
+          answer against its expected answer and rubric notes.
+        </p>
+      </div>
+
+      <div className="flex gap-3 pt-4">
+        <button
+          type="submit"
+          disabled={isPending}
+          className="rounded-xl bg-gradient-primary px-4 py-2.5 font-semibold text-white transition-colors hover:shadow-colored disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isPending
+            ? dataset
+              ? "Updating..."
+              : "✨ Creating..."
+            : dataset
+            ? "Update"
+            : "✨ Create"}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isPending}
+          className="rounded-xl border border-neutral-300 bg-white px-4 py-2.5 font-medium text-neutral-700 transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:hover:bg-neutral-800"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export const EvalDatasetModal: FC<EvalDatasetModalProps> = ({
+  onClose,
+  workspaceId,
+  agentId,
+  datasetId,
+}) => {
+  const { data: dataset, isLoading } = useEvalDataset(
+    workspaceId,
+    agentId,
+    datasetId
+  );
+
+  const { registerDialog, unregisterDialog } = useDialogTracking();
+  useEscapeKey(true, onClose);
+
+  useEffect(() => {
+    registerDialog();
+    return () => unregisterDialog();
+  }, [registerDialog, unregisterDialog]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="max-h-[90vh] w-full max-w-3xl overflow-y-auto rounded-2xl border-2 border-neutral-300 bg-white p-8 shadow-dramatic dark:border-neutral-700 dark:bg-surface-50">
+        <h2 className="mb-8 text-3xl font-bold text-neutral-900 dark:text-neutral-50">
+          {datasetId ? "Edit Test Dataset" : "✨ Create Test Dataset"}
+        </h2>
+        {datasetId && isLoading ? (
+          <p className="text-sm text-neutral-600 dark:text-neutral-300">
+            Loading test dataset...
+          </p>
+        ) : (
+          <EvalDatasetForm
+            dataset={dataset}
+            workspaceId={workspaceId}
+            agentId={agentId}
+            onClose={onClose}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState, useEffect, lazy, Suspense } from "react";
+import { useState, useEffect, useMemo, lazy, Suspense } from "react";
 import type { FC } from "react";
 
 import { useDialogTracking } from "../contexts/DialogContext";
@@ -8,8 +8,10 @@ import {
   useUpdateEvalJudge,
   useEvalJudge,
 } from "../hooks/useEvalJudges";
+import { useCustomModels } from "../hooks/useModelEndpoints";
 import type { ModelCapabilities } from "../utils/api";
 import {
+  CUSTOM_MODEL_PREFIX,
   filterTextGenerationModels,
   getCapabilitiesForProvider,
   getCapabilityLabels,
@@ -19,6 +21,8 @@ import {
   resolveDefaultModel,
 } from "../utils/modelConfig";
 
+import { FallbackModelsPicker } from "./FallbackModelsPicker";
+
 const ModelPricesDialog = lazy(() =>
   import("./ModelPricesDialog").then((module) => ({
     default: module.ModelPricesDialog,
@@ -54,6 +58,7 @@ export const EvalJudgeModal: FC<EvalJudgeModalProps> = ({
   const [samplingProbability, setSamplingProbability] = useState(100);
   const provider = "openrouter" as const; // Only openrouter is supported
   const [modelName, setModelName] = useState<string | null>(null);
+  const [fallbackModelNames, setFallbackModelNames] = useState<string[]>([]);
   
   // Default evaluation prompt template
   const defaultEvalPrompt = `You are an AI Agent Auditor. Your job is to objectively evaluate the performance of an AI Agent based on its execution trace.
@@ -109,6 +114,12 @@ You must respond with valid JSON only. Do not include markdown formatting like \
   const [defaultModel, setDefaultModel] = useState<string>("");
   const [isLoadingModels, setIsLoadingModels] = useState(true);
   const [modelLoadError, setModelLoadError] = useState<string | null>(null);
+  // Judges can also use the models of the workspace's custom endpoints
+  const customModels = useCustomModels(workspaceId);
+  const judgeModels = useMemo(
+    () => [...availableModels, ...customModels.modelNames],
+    [availableModels, customModels.modelNames]
+  );
 
   // Fetch models on mount and when modal opens
   useEffect(() => {
@@ -136,7 +147,9 @@ You must respond with valid JSON only. Do not include markdown formatting like \
           setDefaultModel(resolvedDefaultModel);
           setModelCapabilities(capabilities);
           setModelName((current) =>
-            current && !resolvedModels.includes(current)
+            current &&
+            !resolvedModels.includes(current) &&
+            !current.startsWith(CUSTOM_MODEL_PREFIX)
               ? null
               : current
           );
@@ -174,12 +187,14 @@ You must respond with valid JSON only. Do not include markdown formatting like \
         setSamplingProbability(judge.samplingProbability ?? 100);
         // Provider is always "openrouter" - no need to set it
         setModelName(judge.modelName || null);
+        setFallbackModelNames(judge.fallbackModelNames ?? []);
         setEvalPrompt(judge.evalPrompt);
       } else {
         setName("");
         setEnabled(true);
         setSamplingProbability(100);
         setModelName(null);
+        setFallbackModelNames([]);
         setEvalPrompt(defaultEvalPrompt);
       }
     }
@@ -191,6 +206,7 @@ You must respond with valid JSON only. Do not include markdown formatting like \
     setEnabled(true);
     setSamplingProbability(100);
     setModelName(null);
+    setFallbackModelNames([]);
     setEvalPrompt(defaultEvalPrompt);
     setIsModelPricesOpen(false);
     onClose();
@@ -219,6 +235,9 @@ You must respond with valid JSON only. Do not include markdown formatting like \
           samplingProbability,
           provider,
           modelName: finalModelName,
+          fallbackModelNames: fallbackModelNames.filter(
+            (model) => model !== finalModelName
+          ),
           evalPrompt: evalPrompt.trim(),
         });
       } else {
@@ -228,6 +247,9 @@ You must respond with valid JSON only. Do not include markdown formatting like \
           samplingProbability,
           provider,
           modelName: finalModelName,
+          fallbackModelNames: fallbackModelNames.filter(
+            (model) => model !== finalModelName
+          ),
           evalPrompt: evalPrompt.trim(),
         });
       }
@@ -239,10 +261,9 @@ You must respond with valid JSON only. Do not include markdown formatting like \
 
   const isPending = isEditing ? updateJudge.isPending : createJudge.isPending;
   const selectedModelName = modelName || defaultModel;
-  const selectedCapabilities = getModelCapabilities(
-    modelCapabilities,
-    selectedModelName
-  );
+  const selectedCapabilities =
+    customModels.capabilities[selectedModelName] ??
+    getModelCapabilities(modelCapabilities, selectedModelName);
   const capabilityLabels = getCapabilityLabels(selectedCapabilities);
 
   if (!isOpen) return null;
@@ -342,10 +363,10 @@ You must respond with valid JSON only. Do not include markdown formatting like \
             >
               {isLoadingModels ? (
                 <option value="">Loading...</option>
-              ) : availableModels.length === 0 ? (
+              ) : judgeModels.length === 0 ? (
                 <option value="">No models available</option>
               ) : (
-                availableModels.map((model) => (
+                judgeModels.map((model) => (
                   <option key={model} value={model}>
                     {model}
                   </option>
@@ -373,6 +394,23 @@ You must respond with valid JSON only. Do not include markdown formatting like \
             )}
           </div>
 
+          <div>
+            <div className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300">
+              Fallback Models
+            </div>
+            <FallbackModelsPicker
+              value={fallbackModelNames}
+              onChange={setFallbackModelNames}
+              availableModels={judgeModels}
+              primaryModelName={selectedModelName}
+              disabled={isLoadingModels}
+            />
+            <p className="mt-1.5 text-xs text-neutral-600 dark:text-neutral-300">
+              Tried in order when the judge&apos;s model is unavailable, rate
+              limited or times out.
+            </p>
+          </div>
+
           <div>
             <label
               htmlFor="evalPrompt"
@@ -580,6 +580,16 @@ export const EvalResultsList: FC<EvalResultsListProps> = ({
                     </div>
                   </div>
                 )}
+                {selectedResult.modelName && (
+                  <div>
+                    <div className="text-sm font-medium text-neutral-600 dark:text-neutral-400">
+                      Model
+                    </div>
+                    <div className="mt-1 font-mono text-sm text-neutral-900 dark:text-neutral-50">
+                      {selectedResult.modelName}
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,201 @@
+import type { FC } from "react";
+
+import { useEvalRunComparison } from "../hooks/useEvalDatasets";
+import type { EvalRun, EvalRunCase, EvalScores } from "../utils/api";
+import { formatCurrency } from "../utils/currency";
+
+interface EvalRunComparisonProps {
+  workspaceId: string;
+  agentId: string;
+  baseRunId: string;
+  candidateRunId: string;
+}
+
+const SCORE_LABELS: Array<[keyof EvalScores, string]> = [
+  ["goalCompletion", "Goal"],
+  ["toolEfficiency", "Tools"],
+  ["faithfulness", "Faithfulness"],
+];
+
+const runTitle = (run: EvalRun) =>
+  run.label ?? new Date(run.createdAt).toLocaleString();
+
+const DeltaBadge: FC<{ value: number }> = ({ value }) => (
+  <span
+    className={`font-semibold ${
+      value > 0
+        ? "text-green-600 dark:text-green-400"
+        : value < 0
+        ? "text-error-600 dark:text-error-400"
+        : "text-neutral-500"
+    }`}
+  >
+    {value > 0 ? "+" : ""}
+    {value}
+  </span>
+);
+
+const ScoresCell: FC<{ scores: EvalScores | null }> = ({ scores }) =>
+  scores ? (
+    <span className="font-mono text-xs">
+      {SCORE_LABELS.map(([key]) => scores[key]).join(" / ")}
+    </span>
+  ) : (
+    <span className="text-xs text-neutral-500">–</span>
+  );
+
+const CaseResult: FC<{ runCase: EvalRunCase | null }> = ({ runCase }) => {
+  if (!runCase) {
+    return <span className="text-xs text-neutral-500">Not in this run</span>;
+  }
+  if (runCase.status === "failed") {
+    return (
+      <span className="text-xs text-error-600 dark:text-error-400">
+        Failed: {runCase.error ?? "unknown error"}
+      </span>
+    );
+  }
+  if (runCase.status !== "completed") {
+    return <span className="text-xs text-neutral-500">{runCase.status}…</span>;
+  }
+  return (
+    <div className="space-y-1">
+      <ScoresCell scores={runCase.averageScores} />
+      <details className="text-xs text-neutral-600 dark:text-neutral-400">
+        <summary className="cursor-pointer">Answer</summary>
+        <p className="mt-1 whitespace-pre-wrap">{runCase.output}</p>
+        {runCase.scores.map((score) => (
+          <p key={score.judgeId} className="mt-1 italic">
+            {score.judgeName}: {score.errorMessage ?? score.summary}
+          </p>
+        ))}
+      </details>
+    </div>
+  );
+};
+
+export const EvalRunComparison: FC<EvalRunComparisonProps> = ({
+  workspaceId,
+  agentId,
+  baseRunId,
+  candidateRunId,
+}) => {
+  const { data, isLoading, error } = useEvalRunComparison(
+    workspaceId,
+    agentId,
+    baseRunId,
+    candidateRunId
+  );
+
+  if (isLoading) {
+    return (
+      <p className="text-sm text-neutral-600 dark:text-neutral-300">
+        Loading comparison...
+      </p>
+    );
+  }
+  if (error || !data) {
+    return (
+      <p className="text-sm text-error-600 dark:text-error-400">
+        {error?.message ?? "Failed to load the comparison"}
+      </p>
+    );
+  }
+
+  const { base, candidate } = data;
+  return (
+    <div className="space-y-4 rounded-xl border-2 border-neutral-300 bg-white p-6 dark:border-neutral-700 dark:bg-surface-50">
+      <div className="grid gap-4 sm:grid-cols-2">
+        {[
+          { title: "Base", run: base },
+          { title: "Candidate", run: candidate },
+        ].map(({ title, run }) => (
+          <div key={title}>
+            <div className="text-xs font-semibold uppercase text-neutral-500">
+              {title}
+            </div>
+            <div className="font-semibold text-neutral-900 dark:text-neutral-50">
+              {runTitle(run)}
+            </div>
+            <div className="text-xs text-neutral-600 dark:text-neutral-400">
+              {run.modelName}
+              {run.overrides?.systemPrompt ? " | candidate prompt" : ""} |{" "}
+              {run.finishedCaseCount}/{run.caseCount} cases |{" "}
+              {formatCurrency(run.costUsd, "usd", 6)}
+            </div>
+            <div className="mt-1 text-sm">
+              <ScoresCell scores={run.averageScores} />
+            </div>
+          </div>
+        ))}
+      </div>
+      {base.averageScores && candidate.averageScores && (
+        <div className="flex flex-wrap gap-4 text-sm text-neutral-700 dark:text-neutral-300">
+          {SCORE_LABELS.map(([key, label]) => (
+            <span key={key}>
+              {label}:{" "}
+              <DeltaBadge
+                value={
+                  Math.round(
+                    (candidate.averageScores![key] -
+                      base.averageScores![key]) *
+                      10
+                  ) / 10
+                }
+              />
+            </span>
+          ))}
+          <span>
+            Cost: {formatCurrency(candidate.costUsd - base.costUsd, "usd", 6)}
+          </span>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-neutral-200 text-xs uppercase text-neutral-500 dark:border-neutral-700">
+              <th className="py-2 pr-4">Case</th>
+              <th className="py-2 pr-4">Base (goal / tools / faithfulness)</th>
+              <th className="py-2 pr-4">Candidate</th>
+              <th className="py-2 pr-4">Δ Score</th>
+              <th className="py-2">Δ Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.cases.map((row) => (
+              <tr
+                key={row.caseId}
+                className="border-b border-neutral-200 align-top last:border-b-0 dark:border-neutral-700"
+              >
+                <td className="max-w-xs py-2 pr-4 text-neutral-900 dark:text-neutral-50">
+                  {row.input}
+                </td>
+                <td className="py-2 pr-4">
+                  <CaseResult runCase={row.base} />
+                </td>
+                <td className="py-2 pr-4">
+                  <CaseResult runCase={row.candidate} />
+                </td>
+                <td className="py-2 pr-4 font-mono text-xs">
+                  {row.scoreDelta
+                    ? SCORE_LABELS.map(([key]) => (
+                        <div key={key}>
+                          <DeltaBadge value={row.scoreDelta![key]} />
+                        </div>
+                      ))
+                    : "–"}
+                </td>
+                <td className="py-2 font-mono text-xs">
+                  {row.costDeltaUsd !== null
+                    ? formatCurrency(row.costDeltaUsd, "usd", 6)
+                    : "–"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import type { FC } from "react";
+
+import { useEvalRuns } from "../hooks/useEvalDatasets";
+import type { EvalRun } from "../utils/api";
+import { formatCurrency } from "../utils/currency";
+
+import { EvalRunComparison } from "./EvalRunComparison";
+
+interface EvalRunListProps {
+  workspaceId: string;
+  agentId: string;
+}
+
+const selectButtonClassName = (selected: boolean) =>
+  `rounded-lg border px-3 py-1 text-xs font-medium transition-colors ${
+    selected
+      ? "border-blue-500 bg-blue-50 text-blue-700 dark:border-blue-400 dark:bg-blue-950 dark:text-blue-300"
+      : "border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-300 dark:hover:bg-neutral-800"
+  }`;
+
+export const EvalRunList: FC<EvalRunListProps> = ({ workspaceId, agentId }) => {
+  const { data, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useEvalRuns(workspaceId, agentId);
+  const [baseRunId, setBaseRunId] = useState<string | null>(null);
+  const [candidateRunId, setCandidateRunId] = useState<string | null>(null);
+
+  const runs: EvalRun[] = data?.pages.flatMap((page) => page.runs) ?? [];
+
+  if (isLoading) {
+    return (
+      <div className="rounded-xl border-2 border-neutral-300 bg-white p-6 dark:border-neutral-700 dark:bg-surface-50">
+        <p className="text-lg font-bold text-neutral-900 dark:text-neutral-50">
+          Loading test runs...
+        </p>
+      </div>
+    );
+  }
+
+  if (runs.length === 0) {
+    return (
+      <div className="rounded-xl border-2 border-neutral-300 bg-white p-6 dark:border-neutral-700 dark:bg-surface-50">
+        <p className="text-base font-bold text-neutral-700 dark:text-neutral-300">
+          No test runs yet. Run a test dataset to see its results here.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-neutral-600 dark:text-neutral-300">
+        Pick a base run (e.g. the current configuration) and a candidate run
+        of the same dataset to compare them case by case.
+      </p>
+      <div className="space-y-2">
+        {runs.map((run) => (
+          <div
+            key={run.id}
+            className="flex flex-wrap items-center justify-between gap-4 rounded-xl border-2 border-neutral-300 bg-white p-4 dark:border-neutral-700 dark:bg-surface-50"
+          >
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-neutral-900 dark:text-neutral-50">
+                  {run.label ?? run.datasetName}
+                </span>
+                {run.status === "running" ? (
+                  <span className="rounded-full bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                    Running {run.finishedCaseCount}/{run.caseCount}
+                  </span>
+                ) : (
+                  <span className="rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800 dark:bg-green-900 dark:text-green-200">
+                    Completed
+                  </span>
+                )}
+              </div>
+              <div className="mt-1 text-xs text-neutral-600 dark:text-neutral-400">
+                {run.label ? `${run.datasetName} | ` : ""}
+                {run.modelName}
+                {run.overrides?.systemPrompt ? " | candidate prompt" : ""}
+                {run.configVersion ? ` | config v${run.configVersion}` : ""} |{" "}
+                {new Date(run.createdAt).toLocaleString()}
+              </div>
+              <div className="mt-1 text-xs text-neutral-600 dark:text-neutral-400">
+                {run.averageScores
+                  ? `Goal ${run.averageScores.goalCompletion} | Tools ${run.averageScores.toolEfficiency} | Faithfulness ${run.averageScores.faithfulness}`
+                  : "Not scored yet"}
+                {run.failedCaseCount > 0
+                  ? ` | ${run.failedCaseCount} failed`
+                  : ""}
+                {run.criticalFailureCount > 0
+                  ? ` | ${run.criticalFailureCount} critical`
+                  : ""}{" "}
+                | {formatCurrency(run.costUsd, "usd", 6)}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() =>
+                  setBaseRunId((current) => (current === run.id ? null : run.id))
+                }
+                className={selectButtonClassName(baseRunId === run.id)}
+              >
+                Base
+              </button>
+              <button
+                onClick={() =>
+                  setCandidateRunId((current) =>
+                    current === run.id ? null : run.id
+                  )
+                }
+                className={selectButtonClassName(candidateRunId === run.id)}
+              >
+                Candidate
+              </button>
+            </div>
+          </div>
+        ))}
+        {hasNextPage && (
+          <button
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium text-neutral-700 transition-colors hover:bg-neutral-50 disabled:opacity-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-300 dark:hover:bg-neutral-800"
+          >
+            {isFetchingNextPage ? "Loading..." : "Load more"}
+          </button>
+        )}
+      </div>
+
+      {baseRunId && candidateRunId && baseRunId !== candidateRunId && (
+        <EvalRunComparison
+          workspaceId={workspaceId}
+          agentId={agentId}
+          baseRunId={baseRunId}
+          candidateRunId={candidateRunId}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import { ExclamationTriangleIcon } from "@heroicons/react/24/outline";
+import { useQuery } from "@tanstack/react-query";
+import { useEffect, useMemo, useState } from "react";
+import type { FC } from "react";
+
+import { useDialogTracking } from "../contexts/DialogContext";
+import { useEscapeKey } from "../hooks/useEscapeKey";
+import { useStartEvalRun } from "../hooks/useEvalDatasets";
+import { useCustomModels } from "../hooks/useModelEndpoints";
+import type { EvalDataset } from "../utils/api";
+import {
+  filterTextGenerationModels,
+  getCapabilitiesForProvider,
+  getModelsForProvider,
+} from "../utils/modelConfig";
+
+const inputClassName =
+  "w-full rounded-xl border border-neutral-300 bg-white px-4 py-2.5 text-neutral-900 transition-colors focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:focus:border-blue-400 dark:focus:ring-blue-400/40";
+
+interface EvalRunModalProps {
+  onClose: () => void;
+  workspaceId: string;
+  agentId: string;
+  dataset: EvalDataset;
+}
+
+export const EvalRunModal: FC<EvalRunModalProps> = ({
+  onClose,
+  workspaceId,
+  agentId,
+  dataset,
+}) => {
+  const startRun = useStartEvalRun(workspaceId, agentId);
+  const [label, setLabel] = useState("");
+  const [systemPrompt, setSystemPrompt] = useState("");
+  const [modelName, setModelName] = useState("");
+
+  const { data: openrouterModels = [], isLoading: isLoadingModels } = useQuery(
+    {
+      queryKey: ["models", "openrouter", "text-generation"],
+      queryFn: async () => {
+        const [models, capabilities] = await Promise.all([
+          getModelsForProvider("openrouter"),
+          getCapabilitiesForProvider("openrouter"),
+        ]);
+        const filtered = filterTextGenerationModels(models, capabilities);
+        return filtered.length > 0 ? filtered : models;
+      },
+    }
+  );
+  const customModels = useCustomModels(workspaceId);
+  const models = useMemo(
+    () => [...openrouterModels, ...customModels.modelNames],
+    [openrouterModels, customModels.modelNames]
+  );
+
+  const { registerDialog, unregisterDialog } = useDialogTracking();
+  useEscapeKey(true, onClose);
+
+  useEffect(() => {
+    registerDialog();
+    return () => unregisterDialog();
+  }, [registerDialog, unregisterDialog]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await startRun.mutateAsync({
+        datasetId: dataset.id,
+        input: {
+          ...(label.trim() && { label: label.trim() }),
+          ...(systemPrompt.trim() && { systemPrompt: systemPrompt.trim() }),
+          ...(modelName && { modelName }),
+        },
+      });
+      onClose();
+    } catch {
+      // Error is handled by toast in the hook
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-2xl border-2 border-neutral-300 bg-white p-8 shadow-dramatic dark:border-neutral-700 dark:bg-surface-50">
+        <h2 className="mb-2 text-3xl font-bold text-neutral-900 dark:text-neutral-50">
+          Run &quot;{dataset.name}&quot;
+        </h2>
+        <p className="mb-4 text-sm text-neutral-600 dark:text-neutral-300">
+          The agent answers each of the {dataset.caseCount} cases and the
+          enabled judges score every answer. Leave the prompt and model empty
+          to test the current configuration. Agent and judge calls are charged
+          as usual.
+        </p>
+        <div className="mb-8 rounded-lg border border-yellow-200 bg-yellow-50 p-4 dark:border-yellow-800 dark:bg-yellow-950">
+          <p className="flex items-center gap-2 text-sm text-yellow-900 dark:text-yellow-100">
+            <ExclamationTriangleIcon className="size-4 shrink-0" />
+            Tools run for real: emails are sent, notifications posted and MCP
+            servers called, exactly as in production.
+          </p>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div>
+            <label
+              htmlFor="runLabel"
+              className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300"
+            >
+              Label
+            </label>
+            <input
+              id="runLabel"
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              maxLength={200}
+              placeholder="e.g. Shorter prompt"
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="runSystemPrompt"
+              className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300"
+            >
+              Candidate System Prompt
+            </label>
+            <textarea
+              id="runSystemPrompt"
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              rows={6}
+              placeholder="Empty: the agent's current system prompt"
+              className={`${inputClassName} font-mono text-sm`}
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="runModelName"
+              className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300"
+            >
+              Candidate Model
+            </label>
+            <select
+              id="runModelName"
+              value={modelName}
+              disabled={isLoadingModels}
+              onChange={(e) => setModelName(e.target.value)}
+              className={`${inputClassName} font-mono disabled:opacity-50`}
+            >
+              <option value="">The agent&apos;s current model</option>
+              {models.map((model) => (
+                <option key={model} value={model}>
+                  {model}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="submit"
+              disabled={startRun.isPending}
+              className="rounded-xl bg-gradient-primary px-4 py-2.5 font-semibold text-white transition-colors hover:shadow-colored disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {startRun.isPending ? "Starting..." : "▶ Start Run"}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={startRun.isPending}
+              className="rounded-xl border border-neutral-300 bg-white px-4 py-2.5 font-medium text-neutral-700 transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:hover:bg-neutral-800"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import type { FC } from "react";
+
+/** Matches the backend limit on fallback models */
+const MAX_FALLBACK_MODELS = 3;
+
+interface FallbackModelsPickerProps {
+  value: string[];
+  onChange: (value: string[]) => void;
+  availableModels: string[];
+  /** Model the fallbacks back up; not offered as a fallback */
+  primaryModelName: string;
+  disabled?: boolean;
+}
+
+/**
+ * Ordered list of fallback models, tried one after the other when the primary
+ * model's provider fails
+ */
+export const FallbackModelsPicker: FC<FallbackModelsPickerProps> = ({
+  value,
+  onChange,
+  availableModels,
+  primaryModelName,
+  disabled = false,
+}) => {
+  const addableModels = availableModels.filter(
+    (model) => model !== primaryModelName && !value.includes(model)
+  );
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <ol className="space-y-1">
+          {value.map((model, index) => (
+            <li
+              key={model}
+              className="flex items-center gap-2 text-sm text-neutral-900 dark:text-neutral-50"
+            >
+              <span className="w-5 text-xs text-neutral-500 dark:text-neutral-400">
+                {index + 1}.
+              </span>
+              <span className="font-mono">{model}</span>
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((name) => name !== model))}
+                disabled={disabled}
+                aria-label={`Remove fallback model ${model}`}
+                className="rounded-lg p-1 text-neutral-500 transition-colors hover:bg-neutral-100 hover:text-neutral-900 disabled:opacity-50 dark:text-neutral-400 dark:hover:bg-neutral-800 dark:hover:text-neutral-50"
+              >
+                <XMarkIcon className="size-4" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+      {value.length < MAX_FALLBACK_MODELS && (
+        <select
+          value=""
+          disabled={disabled || addableModels.length === 0}
+          onChange={(e) => {
+            if (e.target.value) {
+              onChange([...value, e.target.value]);
+            }
+          }}
+          className="rounded-xl border-2 border-neutral-300 bg-white px-3 py-1.5 text-sm text-neutral-900 transition-all duration-200 focus:border-blue-500 focus:outline-none focus:ring-4 focus:ring-blue-500 disabled:opacity-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:focus:border-blue-400 dark:focus:ring-blue-400/40"
+        >
+          <option value="">Add a fallback model...</option>
+          {addableModels.map((model) => (
+            <option key={model} value={model}>
+              {model}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
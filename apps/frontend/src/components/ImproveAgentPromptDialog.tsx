@@ -6,7 +6,11 @@ import { useDialogTracking } from "../contexts/DialogContext";
 import { useImproveAgentPrompt, useUpdateAgent } from "../hooks/useAgents";
 import { useEscapeKey } from "../hooks/useEscapeKey";
 import { useAgentEvalResults } from "../hooks/useEvalJudges";
-import type { EvalResult, EvalResultsResponse } from "../utils/api";
+import type {
+  EvalResult,
+  EvalResultsResponse,
+  ImprovePromptFromEvalsInput,
+} from "../utils/api";
 import { getAvailableModels } from "../utils/api";
 import {
   filterTextGenerationModels,
@@ -17,7 +21,7 @@ import { LoadingScreen } from "./LoadingScreen";
 import { ScrollContainer } from "./ScrollContainer";
 import { VirtualList } from "./VirtualList";
 
-const DEFAULT_USER_PROMPT = `Update the system prompt based on the selected evaluation results.
+const DEFAULT_USER_PROMPT = `Update the system prompt based on the selected evaluation results and end-user feedback.
 
 - Address recurring low scores or critical failures.
 - Preserve important constraints and safety requirements.
@@ -52,6 +56,9 @@ export const ImproveAgentPromptDialog: FC<ImproveAgentPromptDialogProps> = ({
   const [userPrompt, setUserPrompt] = useState(DEFAULT_USER_PROMPT);
   const [modelName, setModelName] = useState<string>("");
   const [generatedPrompt, setGeneratedPrompt] = useState<string | null>(null);
+  const [includeFeedback, setIncludeFeedback] = useState<
+    ImprovePromptFromEvalsInput["includeFeedback"] | ""
+  >("");
   const scrollRef = useRef<HTMLDivElement>(null);
   const { registerDialog, unregisterDialog } = useDialogTracking();
 
@@ -132,6 +139,7 @@ export const ImproveAgentPromptDialog: FC<ImproveAgentPromptDialogProps> = ({
     setUserPrompt(DEFAULT_USER_PROMPT);
     setModelName("");
     setGeneratedPrompt(null);
+    setIncludeFeedback("");
     onClose();
   };
 
@@ -157,8 +165,10 @@ export const ImproveAgentPromptDialog: FC<ImproveAgentPromptDialogProps> = ({
     });
   };
 
+  const hasInput = selectedEvaluations.length > 0 || !!includeFeedback;
+
   const handleGenerate = async () => {
-    if (!userPrompt.trim() || selectedEvaluations.length === 0) {
+    if (!userPrompt.trim() || !hasInput) {
       return;
     }
     try {
@@ -169,6 +179,7 @@ export const ImproveAgentPromptDialog: FC<ImproveAgentPromptDialogProps> = ({
           conversationId: evaluation.conversationId,
           judgeId: evaluation.judgeId,
         })),
+        ...(includeFeedback && { includeFeedback }),
       });
       setGeneratedPrompt(result.prompt);
       setStep(3);
@@ -305,11 +316,32 @@ export const ImproveAgentPromptDialog: FC<ImproveAgentPromptDialogProps> = ({
               </ScrollContainer>
             )}
 
+            <label className="flex flex-col gap-1 text-sm font-semibold text-neutral-700 dark:text-neutral-300">
+              End-user feedback
+              <select
+                value={includeFeedback}
+                onChange={(e) =>
+                  setIncludeFeedback(
+                    e.target.value as ImprovePromptFromEvalsInput["includeFeedback"] | ""
+                  )
+                }
+                className="rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm font-normal dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50"
+              >
+                <option value="">Don&apos;t include feedback</option>
+                <option value="negative">Include recent 👎 ratings</option>
+                <option value="all">Include recent 👍 and 👎 ratings</option>
+              </select>
+              <span className="text-xs font-normal text-neutral-600 dark:text-neutral-400">
+                Sends the most recent thumbs up/down end users gave the agent&apos;s
+                replies, with their comments and the rated exchanges.
+              </span>
+            </label>
+
             <div className="flex gap-3">
               <button
                 type="button"
                 onClick={() => setStep(2)}
-                disabled={selectedEvaluations.length === 0}
+                disabled={!hasInput}
                 className="flex-1 rounded-xl bg-gradient-primary px-4 py-2.5 font-semibold text-white transition-colors hover:shadow-colored disabled:cursor-not-allowed disabled:opacity-50"
               >
                 Continue
@@ -400,7 +432,7 @@ export const ImproveAgentPromptDialog: FC<ImproveAgentPromptDialogProps> = ({
                 disabled={
                   improvePrompt.isPending ||
                   !userPrompt.trim() ||
-                  selectedEvaluations.length === 0
+                  !hasInput
                 }
                 className="flex-1 rounded-xl bg-gradient-primary px-4 py-2.5 font-semibold text-white transition-colors hover:shadow-colored disabled:cursor-not-allowed disabled:opacity-50"
               >
@@ -1,6 +1,13 @@
 import type { FC } from "react";
 
-import type { BotIntegration } from "../utils/api";
+import type { BotIntegration, BotIntegrationPlatform } from "../utils/api";
+
+const PLATFORM_LABELS: Record<BotIntegrationPlatform, string> = {
+  slack: "Slack",
+  discord: "Discord",
+  teams: "Microsoft Teams",
+  telegram: "Telegram",
+};
 
 interface IntegrationCardProps {
   integration: BotIntegration;
@@ -42,7 +49,8 @@ export const IntegrationCard: FC<IntegrationCardProps> = ({
             </span>
           </div>
           <p className="mt-1 text-sm text-neutral-600 dark:text-neutral-400">
-            {integration.platform === "slack" ? "Slack" : "Discord"} Bot
+            {PLATFORM_LABELS[integration.platform]} Bot
+            {integration.botUsername && ` (@${integration.botUsername})`}
           </p>
           {hasCommand && integration.discordCommand && (
             <p className="mt-2 text-sm font-medium text-neutral-700 dark:text-neutral-300">
@@ -11,6 +11,7 @@ const Login: FC = () => {
   const [email, setEmail] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [emailSent, setEmailSent] = useState(false);
+  const [emailError, setEmailError] = useState<string | null>(null);
   const [isPasskeyLoading, setIsPasskeyLoading] = useState(false);
   const [passkeyError, setPasskeyError] = useState<string | null>(null);
   const [passkeyAvailable, setPasskeyAvailable] = useState<boolean | null>(
@@ -35,13 +36,35 @@ const Login: FC = () => {
     if (!email.trim()) return;
 
     setIsSubmitting(true);
+    setEmailError(null);
     try {
+      // Members of a domain with single sign-on go to their identity provider
+      const ssoResponse = await fetch(
+        `/api/user/sso/discover?email=${encodeURIComponent(email.trim())}`,
+        { credentials: "include" }
+      ).catch(() => null);
+      if (ssoResponse?.ok) {
+        const { sso } = (await ssoResponse.json()) as { sso?: boolean };
+        if (sso) {
+          const params = new URLSearchParams({
+            email: email.trim(),
+            callbackUrl: window.location.href,
+          });
+          window.location.href = `/api/user/sso/login?${params.toString()}`;
+          return;
+        }
+      }
+
       const result = await signIn("email", {
         email: email.trim(),
         callbackUrl: window.location.href,
         redirect: false,
       });
-      if (!result?.error) {
+      if (result?.error) {
+        setEmailError(
+          "We could not send a sign-in link to this address. Your organization may require single sign-on."
+        );
+      } else {
         setEmailSent(true);
       }
     } finally {
@@ -180,6 +203,16 @@ const Login: FC = () => {
               />
             </div>
 
+            {emailError && (
+              <p
+                role="alert"
+                aria-live="polite"
+                className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800 dark:border-red-800 dark:bg-red-950/50 dark:text-red-200"
+              >
+                {emailError}
+              </p>
+            )}
+
             <button
               type="submit"
               disabled={isSubmitting || !email.trim()}
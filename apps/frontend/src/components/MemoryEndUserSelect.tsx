@@ -0,0 +1,54 @@
+import type { FC } from "react";
+
+import { useAgentMemoryPartitions } from "../hooks/useAgentMemory";
+
+interface MemoryEndUserSelectProps {
+  id: string;
+  workspaceId: string;
+  agentId: string;
+  value: string | undefined;
+  onChange: (endUserId: string | undefined) => void;
+}
+
+/**
+ * Picks whose memory is shown: the agent-wide memory or one end user's memory.
+ * Renders nothing until the agent has memory for at least one end user.
+ */
+export const MemoryEndUserSelect: FC<MemoryEndUserSelectProps> = ({
+  id,
+  workspaceId,
+  agentId,
+  value,
+  onChange,
+}) => {
+  const { data } = useAgentMemoryPartitions(workspaceId, agentId);
+  const partitions = data?.partitions ?? [];
+
+  if (partitions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <label
+        htmlFor={id}
+        className="mb-2 block text-sm font-semibold dark:text-neutral-300"
+      >
+        End user
+      </label>
+      <select
+        id={id}
+        value={value ?? ""}
+        onChange={(event) => onChange(event.target.value || undefined)}
+        className="w-full rounded-xl border-2 border-neutral-300 bg-white px-4 py-2.5 text-neutral-900 transition-all duration-200 focus:border-blue-500 focus:outline-none focus:ring-4 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:focus:border-blue-400 dark:focus:ring-blue-400/40"
+      >
+        <option value="">Agent-wide memory</option>
+        {partitions.map((partition) => (
+          <option key={partition.endUserId} value={partition.endUserId}>
+            {partition.endUserId}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
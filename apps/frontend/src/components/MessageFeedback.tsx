@@ -0,0 +1,133 @@
+import type { FC } from "react";
+import { useState } from "react";
+
+type Rating = "positive" | "negative";
+
+interface MessageFeedbackProps {
+  /** Feedback endpoint of the widget (POST { conversationId, messageId, rating, comment? }) */
+  api: string;
+  conversationId: string;
+  /** Request ID of the rated reply, from the message metadata */
+  messageId: string;
+}
+
+const COMMENT_MAX_LENGTH = 2000;
+
+const ratingButtonClassName = (selected: boolean) =>
+  `rounded-lg border px-2 py-1 text-sm transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+    selected
+      ? "border-primary-500 bg-primary-50 dark:border-primary-400 dark:bg-primary-950"
+      : "border-transparent hover:border-neutral-300 dark:hover:border-neutral-700"
+  }`;
+
+/**
+ * Thumbs up/down and an optional comment under an agent reply in the widget
+ */
+export const MessageFeedback: FC<MessageFeedbackProps> = ({
+  api,
+  conversationId,
+  messageId,
+}) => {
+  const [rating, setRating] = useState<Rating | null>(null);
+  const [comment, setComment] = useState("");
+  const [showComment, setShowComment] = useState(false);
+  const [commentSent, setCommentSent] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async (nextRating: Rating, nextComment?: string) => {
+    setIsSending(true);
+    setError(null);
+    try {
+      const response = await fetch(api, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          conversationId,
+          messageId,
+          rating: nextRating,
+          ...(nextComment && { comment: nextComment }),
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Feedback request failed with ${response.status}`);
+      }
+      return true;
+    } catch (err) {
+      console.error("[MessageFeedback] Failed to send feedback:", err);
+      setError("Feedback could not be sent. Please try again.");
+      return false;
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleRate = async (nextRating: Rating) => {
+    if (await send(nextRating)) {
+      setRating(nextRating);
+      setShowComment(true);
+      setCommentSent(false);
+    }
+  };
+
+  const handleSubmitComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = comment.trim();
+    if (!rating || !trimmed) {
+      return;
+    }
+    if (await send(rating, trimmed)) {
+      setShowComment(false);
+      setCommentSent(true);
+    }
+  };
+
+  return (
+    <div className="mt-1 space-y-2 text-xs text-neutral-600 dark:text-neutral-400">
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          aria-label="Helpful"
+          aria-pressed={rating === "positive"}
+          disabled={isSending}
+          onClick={() => handleRate("positive")}
+          className={ratingButtonClassName(rating === "positive")}
+        >
+          👍
+        </button>
+        <button
+          type="button"
+          aria-label="Not helpful"
+          aria-pressed={rating === "negative"}
+          disabled={isSending}
+          onClick={() => handleRate("negative")}
+          className={ratingButtonClassName(rating === "negative")}
+        >
+          👎
+        </button>
+        {rating && !showComment && <span>Thanks for your feedback!</span>}
+        {commentSent && <span>Comment sent.</span>}
+      </div>
+      {showComment && (
+        <form onSubmit={handleSubmitComment} className="flex gap-2">
+          <input
+            type="text"
+            value={comment}
+            maxLength={COMMENT_MAX_LENGTH}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Tell us more (optional)"
+            className="min-w-0 flex-1 rounded-lg border border-neutral-300 bg-white px-2 py-1 text-sm dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50"
+          />
+          <button
+            type="submit"
+            disabled={isSending || !comment.trim()}
+            className="rounded-lg border border-neutral-300 px-2 py-1 text-sm font-medium disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700"
+          >
+            Send
+          </button>
+        </form>
+      )}
+      {error && <div className="text-red-600 dark:text-red-400">{error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import type { FC } from "react";
+
+import {
+  useDeleteModelEndpoint,
+  useModelEndpoints,
+} from "../hooks/useModelEndpoints";
+import type { ModelEndpoint } from "../utils/api";
+
+import { ModelEndpointModal } from "./ModelEndpointModal";
+
+interface ModelEndpointListProps {
+  workspaceId: string;
+  canEdit: boolean;
+}
+
+const ModelEndpointItem: FC<{
+  endpoint: ModelEndpoint;
+  workspaceId: string;
+  canEdit: boolean;
+  onEdit: (endpoint: ModelEndpoint) => void;
+}> = ({ endpoint, workspaceId, canEdit, onEdit }) => {
+  const deleteEndpoint = useDeleteModelEndpoint(workspaceId);
+
+  return (
+    <div className="flex items-start justify-between gap-4 rounded-xl border-2 border-neutral-300 bg-white p-6 dark:border-neutral-700 dark:bg-surface-50">
+      <div className="min-w-0 flex-1">
+        <div className="text-lg font-semibold text-neutral-900 dark:text-neutral-50">
+          {endpoint.name}
+        </div>
+        <div className="mt-1 break-all font-mono text-sm text-neutral-600 dark:text-neutral-400">
+          {endpoint.baseUrl}
+        </div>
+        <div className="mt-1 text-sm text-neutral-600 dark:text-neutral-400">
+          {endpoint.hasApiKey ? "API key set" : "No API key"}
+        </div>
+        <ul className="mt-2 space-y-0.5">
+          {endpoint.models.map((model) => (
+            <li
+              key={model.name}
+              className="font-mono text-sm text-neutral-700 dark:text-neutral-300"
+            >
+              {model.modelName ?? model.name}
+            </li>
+          ))}
+        </ul>
+      </div>
+      {canEdit && (
+        <div className="flex gap-2">
+          <button
+            onClick={() => onEdit(endpoint)}
+            className="rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium text-neutral-700 transition-colors hover:bg-neutral-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-300 dark:hover:bg-neutral-800"
+          >
+            Edit
+          </button>
+          <button
+            onClick={async () => {
+              if (
+                !confirm(
+                  "Are you sure you want to delete this model endpoint? This action cannot be undone."
+                )
+              ) {
+                return;
+              }
+              try {
+                await deleteEndpoint.mutateAsync(endpoint.id);
+              } catch {
+                // Error is handled by toast in the hook
+              }
+            }}
+            disabled={deleteEndpoint.isPending}
+            className="rounded-xl bg-error-600 px-4 py-2.5 text-sm font-semibold text-white transition-colors hover:bg-error-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {deleteEndpoint.isPending ? "Deleting..." : "Delete"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Self-hosted OpenAI-compatible model endpoints of a workspace, whose models
+ * agents and eval judges can select
+ */
+export const ModelEndpointList: FC<ModelEndpointListProps> = ({
+  workspaceId,
+  canEdit,
+}) => {
+  const { data: endpoints, isLoading } = useModelEndpoints(workspaceId);
+  const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [editingEndpoint, setEditingEndpoint] = useState<ModelEndpoint>();
+
+  const handleCloseModal = () => {
+    setIsCreateModalOpen(false);
+    setEditingEndpoint(undefined);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="rounded-xl border-2 border-neutral-300 bg-white p-6 dark:border-neutral-700 dark:bg-surface-50">
+        <p className="text-lg font-bold text-neutral-900 dark:text-neutral-50">
+          Loading model endpoints...
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-neutral-600 dark:text-neutral-300">
+        Connect your own OpenAI-compatible servers (vLLM, Ollama, ...). Their
+        models can be selected for agents and eval judges and never use
+        credits. Available on paid plans.
+      </p>
+      {canEdit && (
+        <div className="flex justify-end">
+          <button
+            onClick={() => setIsCreateModalOpen(true)}
+            className="rounded-xl bg-gradient-primary px-4 py-2.5 text-sm font-semibold text-white transition-colors hover:shadow-colored"
+          >
+            Add model endpoint
+          </button>
+        </div>
+      )}
+
+      {!endpoints || endpoints.length === 0 ? (
+        <div className="rounded-xl border-2 border-neutral-300 bg-white p-6 dark:border-neutral-700 dark:bg-surface-50">
+          <p className="text-base font-bold text-neutral-700 dark:text-neutral-300">
+            No model endpoints configured.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {endpoints.map((endpoint) => (
+            <ModelEndpointItem
+              key={endpoint.id}
+              endpoint={endpoint}
+              workspaceId={workspaceId}
+              canEdit={canEdit}
+              onEdit={setEditingEndpoint}
+            />
+          ))}
+        </div>
+      )}
+
+      <ModelEndpointModal
+        isOpen={isCreateModalOpen || !!editingEndpoint}
+        onClose={handleCloseModal}
+        workspaceId={workspaceId}
+        endpoint={editingEndpoint}
+      />
+    </div>
+  );
+};
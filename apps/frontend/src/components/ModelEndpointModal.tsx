@@ -0,0 +1,377 @@
+import { PlusIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { useEffect, useState } from "react";
+import type { FC, FormEvent, ReactNode } from "react";
+
+import { useDialogTracking } from "../contexts/DialogContext";
+import { useEscapeKey } from "../hooks/useEscapeKey";
+import {
+  useCreateModelEndpoint,
+  useUpdateModelEndpoint,
+} from "../hooks/useModelEndpoints";
+import type { ModelEndpoint, ModelEndpointModel } from "../utils/api";
+
+const LABEL_CLASSNAME =
+  "mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300";
+const HINT_CLASSNAME = "mt-1.5 text-xs text-neutral-600 dark:text-neutral-300";
+const INPUT_CLASSNAME =
+  "w-full rounded-xl border border-neutral-300 bg-white px-4 py-2.5 text-neutral-900 transition-colors focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:focus:border-blue-400 dark:focus:ring-blue-400/40";
+const SMALL_INPUT_CLASSNAME =
+  "w-full rounded-lg border border-neutral-300 bg-white px-2 py-1.5 text-sm text-neutral-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50";
+
+const CAPABILITIES = [
+  { key: "toolCalling", label: "Tool calling" },
+  { key: "structuredOutput", label: "Structured output" },
+  { key: "imageInput", label: "Image input" },
+] as const;
+
+interface ModelFormState {
+  name: string;
+  contextLength: string;
+  inputPrice: string;
+  outputPrice: string;
+  toolCalling: boolean;
+  structuredOutput: boolean;
+  imageInput: boolean;
+}
+
+const EMPTY_MODEL: ModelFormState = {
+  name: "",
+  contextLength: "",
+  inputPrice: "",
+  outputPrice: "",
+  toolCalling: false,
+  structuredOutput: false,
+  imageInput: false,
+};
+
+const toModelFormState = (model: ModelEndpointModel): ModelFormState => ({
+  name: model.name,
+  contextLength: model.contextLength?.toString() ?? "",
+  inputPrice: model.pricing?.input.toString() ?? "",
+  outputPrice: model.pricing?.output.toString() ?? "",
+  toolCalling: !!model.capabilities?.toolCalling,
+  structuredOutput: !!model.capabilities?.structuredOutput,
+  imageInput: !!model.capabilities?.imageInput,
+});
+
+const toModelInput = (model: ModelFormState): ModelEndpointModel => {
+  const hasPricing = model.inputPrice !== "" || model.outputPrice !== "";
+  return {
+    name: model.name.trim(),
+    ...(model.contextLength
+      ? { contextLength: Number(model.contextLength) }
+      : {}),
+    capabilities: {
+      toolCalling: model.toolCalling,
+      structuredOutput: model.structuredOutput,
+      imageInput: model.imageInput,
+    },
+    ...(hasPricing
+      ? {
+          pricing: {
+            input: Number(model.inputPrice || 0),
+            output: Number(model.outputPrice || 0),
+          },
+        }
+      : {}),
+  };
+};
+
+const FormField = ({
+  label,
+  htmlFor,
+  hint,
+  children,
+}: {
+  label: ReactNode;
+  htmlFor?: string;
+  hint?: ReactNode;
+  children: ReactNode;
+}) => (
+  <div>
+    <label htmlFor={htmlFor} className={LABEL_CLASSNAME}>
+      {label}
+    </label>
+    {children}
+    {hint ? <p className={HINT_CLASSNAME}>{hint}</p> : null}
+  </div>
+);
+
+const ModelRow: FC<{
+  index: number;
+  model: ModelFormState;
+  onChange: (patch: Partial<ModelFormState>) => void;
+  onRemove?: () => void;
+}> = ({ index, model, onChange, onRemove }) => (
+  <div className="space-y-2 rounded-xl border border-neutral-200 p-3 dark:border-neutral-700">
+    <div className="flex items-center gap-2">
+      <input
+        type="text"
+        value={model.name}
+        onChange={(e) => onChange({ name: e.target.value })}
+        placeholder="Model name (e.g. llama3.1:8b)"
+        aria-label={`Model ${index + 1} name`}
+        className={`${SMALL_INPUT_CLASSNAME} font-mono`}
+        required
+      />
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          aria-label={`Remove model ${index + 1}`}
+          className="rounded-lg p-1 text-neutral-500 transition-colors hover:bg-neutral-100 hover:text-neutral-900 dark:text-neutral-400 dark:hover:bg-neutral-800 dark:hover:text-neutral-50"
+        >
+          <XMarkIcon className="size-4" />
+        </button>
+      )}
+    </div>
+    <div className="grid grid-cols-3 gap-2">
+      <input
+        type="number"
+        min={1}
+        step={1}
+        value={model.contextLength}
+        onChange={(e) => onChange({ contextLength: e.target.value })}
+        placeholder="Context length"
+        aria-label={`Model ${index + 1} context length`}
+        className={SMALL_INPUT_CLASSNAME}
+      />
+      <input
+        type="number"
+        min={0}
+        step="any"
+        value={model.inputPrice}
+        onChange={(e) => onChange({ inputPrice: e.target.value })}
+        placeholder="Input $ / 1M"
+        aria-label={`Model ${index + 1} input price`}
+        className={SMALL_INPUT_CLASSNAME}
+      />
+      <input
+        type="number"
+        min={0}
+        step="any"
+        value={model.outputPrice}
+        onChange={(e) => onChange({ outputPrice: e.target.value })}
+        placeholder="Output $ / 1M"
+        aria-label={`Model ${index + 1} output price`}
+        className={SMALL_INPUT_CLASSNAME}
+      />
+    </div>
+    <div className="flex flex-wrap gap-4">
+      {CAPABILITIES.map(({ key, label }) => (
+        <label
+          key={key}
+          className="flex items-center gap-1.5 text-sm text-neutral-700 dark:text-neutral-300"
+        >
+          <input
+            type="checkbox"
+            checked={model[key]}
+            onChange={(e) => onChange({ [key]: e.target.checked })}
+          />
+          {label}
+        </label>
+      ))}
+    </div>
+  </div>
+);
+
+interface ModelEndpointModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  workspaceId: string;
+  /** Endpoint to edit; creates a new endpoint when omitted */
+  endpoint?: ModelEndpoint;
+}
+
+const ModelEndpointModalContent: FC<ModelEndpointModalProps> = ({
+  isOpen,
+  onClose,
+  workspaceId,
+  endpoint,
+}) => {
+  const isEditing = !!endpoint;
+  const createEndpoint = useCreateModelEndpoint(workspaceId);
+  const updateEndpoint = useUpdateModelEndpoint(workspaceId);
+  const [name, setName] = useState(endpoint?.name ?? "");
+  const [baseUrl, setBaseUrl] = useState(endpoint?.baseUrl ?? "");
+  const [apiKey, setApiKey] = useState("");
+  const [removeApiKey, setRemoveApiKey] = useState(false);
+  const [models, setModels] = useState<ModelFormState[]>(
+    endpoint ? endpoint.models.map(toModelFormState) : [EMPTY_MODEL]
+  );
+  const isPending = createEndpoint.isPending || updateEndpoint.isPending;
+
+  useEscapeKey(isOpen, onClose);
+
+  const { registerDialog, unregisterDialog } = useDialogTracking();
+  useEffect(() => {
+    if (isOpen) {
+      registerDialog();
+      return () => unregisterDialog();
+    }
+  }, [isOpen, registerDialog, unregisterDialog]);
+
+  const updateModel = (index: number, patch: Partial<ModelFormState>) => {
+    setModels((previous) =>
+      previous.map((model, i) => (i === index ? { ...model, ...patch } : model))
+    );
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const modelInputs = models.map(toModelInput);
+    try {
+      if (endpoint) {
+        await updateEndpoint.mutateAsync({
+          endpointId: endpoint.id,
+          input: {
+            name: name.trim(),
+            baseUrl: baseUrl.trim(),
+            models: modelInputs,
+            ...(removeApiKey ? { apiKey: "" } : apiKey ? { apiKey } : {}),
+          },
+        });
+      } else {
+        await createEndpoint.mutateAsync({
+          name: name.trim(),
+          baseUrl: baseUrl.trim(),
+          models: modelInputs,
+          ...(apiKey ? { apiKey } : {}),
+        });
+      }
+      onClose();
+    } catch {
+      // Error is handled by toast in the hook
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-2xl border-2 border-neutral-300 bg-white p-8 shadow-dramatic dark:border-neutral-700 dark:bg-surface-50">
+        <h2 className="mb-8 text-3xl font-bold text-neutral-900 dark:text-neutral-50">
+          {isEditing ? "Edit Model Endpoint" : "Add Model Endpoint"}
+        </h2>
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <FormField label="Name *" htmlFor="endpointName">
+            <input
+              id="endpointName"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={INPUT_CLASSNAME}
+              required
+            />
+          </FormField>
+          <FormField
+            label="Base URL *"
+            htmlFor="endpointBaseUrl"
+            hint="Base URL of the OpenAI-compatible API, e.g. https://llm.example.com/v1. Must use https and a public host name."
+          >
+            <input
+              id="endpointBaseUrl"
+              type="url"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              className={`${INPUT_CLASSNAME} font-mono`}
+              required
+            />
+          </FormField>
+          <FormField
+            label="API key"
+            htmlFor="endpointApiKey"
+            hint={
+              isEditing && endpoint.hasApiKey
+                ? "Leave empty to keep the existing key. Enter a new value to replace it."
+                : "Sent as bearer token. Leave empty if the endpoint needs no key."
+            }
+          >
+            <input
+              id="endpointApiKey"
+              type="password"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              disabled={removeApiKey}
+              className={INPUT_CLASSNAME}
+              autoComplete="off"
+            />
+            {isEditing && endpoint.hasApiKey && (
+              <label className="mt-2 flex items-center gap-2 text-sm text-neutral-700 dark:text-neutral-300">
+                <input
+                  type="checkbox"
+                  checked={removeApiKey}
+                  onChange={(e) => setRemoveApiKey(e.target.checked)}
+                />
+                Remove the API key
+              </label>
+            )}
+          </FormField>
+          <div>
+            <p className={LABEL_CLASSNAME}>Models *</p>
+            <div className="space-y-2">
+              {models.map((model, index) => (
+                <ModelRow
+                  key={index}
+                  index={index}
+                  model={model}
+                  onChange={(patch) => updateModel(index, patch)}
+                  onRemove={
+                    models.length > 1
+                      ? () =>
+                          setModels((previous) =>
+                            previous.filter((_, i) => i !== index)
+                          )
+                      : undefined
+                  }
+                />
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setModels((previous) => [...previous, EMPTY_MODEL])}
+              className="mt-2 flex items-center gap-1 text-sm font-medium text-primary-600 hover:underline dark:text-primary-400"
+            >
+              <PlusIcon className="size-4" />
+              Add model
+            </button>
+            <p className={HINT_CLASSNAME}>
+              Declare what each model supports: tools and structured output
+              are only used when enabled. Prices are in USD per 1M tokens and
+              only used to report costs; calls to your endpoint never use
+              credits.
+            </p>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="submit"
+              disabled={isPending}
+              className="rounded-xl bg-gradient-primary px-4 py-2.5 font-semibold text-white transition-colors hover:shadow-colored disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isPending
+                ? isEditing
+                  ? "Updating..."
+                  : "Creating..."
+                : isEditing
+                ? "Update"
+                : "Create"}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isPending}
+              className="rounded-xl border border-neutral-300 bg-white px-4 py-2.5 font-medium text-neutral-700 transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:hover:bg-neutral-800"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export const ModelEndpointModal: FC<ModelEndpointModalProps> = (props) => {
+  if (!props.isOpen) return null;
+  // Remount per endpoint so the form starts from its saved values
+  return <ModelEndpointModalContent key={props.endpoint?.id ?? "new"} {...props} />;
+};
@@ -29,6 +29,9 @@ export const RequiresSession: FC<PropsWithChildren> = ({ children }) => {
   // Allow auth gate route without authentication
   const isAuthGateRoute = location.pathname === "/auth/gate";
 
+  // Allow single sign-on completion route without authentication
+  const isSsoRoute = location.pathname === "/auth/sso";
+
   // Allow API docs route without authentication (but still show layout)
   const isApiDocsRoute = location.pathname.startsWith("/docs/api");
 
@@ -42,7 +45,7 @@ export const RequiresSession: FC<PropsWithChildren> = ({ children }) => {
   }
 
   // If it's an invite route, allow it through without requiring authentication
-  if (isInviteRoute || isAuthGateRoute) {
+  if (isInviteRoute || isAuthGateRoute || isSsoRoute) {
     return (
       <div className="bg-page flex min-h-screen flex-col">
         <main className="bg-page flex-1">{children}</main>
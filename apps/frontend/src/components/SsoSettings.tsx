@@ -0,0 +1,317 @@
+import { useEffect, useState, type FC } from "react";
+
+import {
+  useDeleteSsoConfig,
+  useSsoSettings,
+  useUpdateSsoConfig,
+  useVerifySsoDomain,
+} from "../hooks/useSubscription";
+import type { SsoConfig, SsoConfigInput } from "../utils/api";
+
+const PERMISSION_LEVELS = {
+  READ: 1,
+  WRITE: 2,
+  OWNER: 3,
+} as const;
+
+const inputClassName =
+  "w-full rounded-xl border border-neutral-300 bg-white px-4 py-3 text-neutral-900 transition-all duration-200 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:focus:border-blue-400 dark:focus:ring-blue-400/40";
+const labelClassName =
+  "mb-2 block text-sm font-semibold text-neutral-900 dark:text-neutral-300";
+const checkboxClassName =
+  "size-4 rounded border-neutral-300 text-blue-600 focus:ring-blue-500 dark:border-neutral-700";
+
+const toFormState = (config: SsoConfig | null): SsoConfigInput => ({
+  domain: config?.domain ?? "",
+  issuer: config?.issuer ?? "",
+  clientId: config?.clientId ?? "",
+  clientSecret: "",
+  scopes: config?.scopes ?? "openid email profile",
+  provisionWorkspaceIds: config?.provisionWorkspaceIds ?? [],
+  defaultPermissionLevel: config?.defaultPermissionLevel ?? 1,
+  enforceSso: config?.enforceSso ?? false,
+  enabled: config?.enabled ?? true,
+});
+
+/**
+ * Subscription-level single sign-on (OpenID Connect) configuration for billing managers
+ */
+export const SsoSettings: FC = () => {
+  const { data, isLoading, error } = useSsoSettings();
+  const updateMutation = useUpdateSsoConfig();
+  const verifyMutation = useVerifySsoDomain();
+  const deleteMutation = useDeleteSsoConfig();
+  const [form, setForm] = useState<SsoConfigInput>(() => toFormState(null));
+
+  const config = data?.config ?? null;
+
+  useEffect(() => {
+    setForm(toFormState(config));
+  }, [config]);
+
+  if (isLoading) {
+    return null;
+  }
+
+  if (error || !data) {
+    return (
+      <p className="text-sm text-neutral-600 dark:text-neutral-300">
+        Single sign-on settings are only available to billing managers.
+      </p>
+    );
+  }
+
+  const update = (changes: Partial<SsoConfigInput>) =>
+    setForm((current) => ({ ...current, ...changes }));
+
+  const toggleWorkspace = (workspaceId: string, checked: boolean) =>
+    update({
+      provisionWorkspaceIds: checked
+        ? [...form.provisionWorkspaceIds, workspaceId]
+        : form.provisionWorkspaceIds.filter((id) => id !== workspaceId),
+    });
+
+  // Errors are reported by the mutations' onError toasts
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateMutation.mutate({
+      ...form,
+      clientSecret: form.clientSecret?.trim() || undefined,
+    });
+  };
+
+  const handleDelete = () => {
+    if (
+      !window.confirm(
+        "Remove single sign-on? Members of the domain will sign in with email links again."
+      )
+    ) {
+      return;
+    }
+    deleteMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-neutral-600 dark:text-neutral-300">
+        Let members of your company domain sign in through your identity
+        provider (OpenID Connect). Register{" "}
+        <code className="rounded bg-neutral-100 px-1.5 py-0.5 font-mono text-xs dark:bg-neutral-800">
+          {data.redirectUri}
+        </code>{" "}
+        as the redirect URI of the application in your identity provider.
+      </p>
+
+      {config && (
+        <div
+          className={`rounded-xl border p-4 text-sm ${
+            config.domainVerified
+              ? "border-green-200 bg-green-50 text-green-800 dark:border-green-800 dark:bg-green-950/50 dark:text-green-200"
+              : "border-amber-200 bg-amber-50 text-amber-800 dark:border-amber-800 dark:bg-amber-950/50 dark:text-amber-200"
+          }`}
+        >
+          {config.domainVerified ? (
+            <p>
+              <span className="font-semibold">{config.domain}</span> is
+              verified.{" "}
+              {config.enabled
+                ? "Single sign-on is active."
+                : "Single sign-on is disabled."}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              <p>
+                Add this DNS TXT record to{" "}
+                <span className="font-semibold">{config.domain}</span>, then
+                verify the domain. Single sign-on stays inactive until then.
+              </p>
+              <code className="block break-all rounded-lg bg-white/70 px-3 py-2 font-mono text-xs dark:bg-black/30">
+                {config.verificationRecord.value}
+              </code>
+              <button
+                type="button"
+                onClick={() => verifyMutation.mutate()}
+                disabled={verifyMutation.isPending}
+                className="rounded-xl border border-amber-300 px-4 py-2 font-semibold transition-colors duration-200 hover:bg-amber-100 disabled:opacity-50 dark:border-amber-700 dark:hover:bg-amber-900"
+              >
+                {verifyMutation.isPending ? "Verifying..." : "Verify domain"}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <label htmlFor="sso-domain" className={labelClassName}>
+              Email domain
+            </label>
+            <input
+              id="sso-domain"
+              value={form.domain}
+              onChange={(e) => update({ domain: e.target.value })}
+              className={inputClassName}
+              placeholder="example.com"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="sso-issuer" className={labelClassName}>
+              Issuer URL
+            </label>
+            <input
+              id="sso-issuer"
+              type="url"
+              value={form.issuer}
+              onChange={(e) => update({ issuer: e.target.value })}
+              className={inputClassName}
+              placeholder="https://login.example.com"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="sso-client-id" className={labelClassName}>
+              Client ID
+            </label>
+            <input
+              id="sso-client-id"
+              value={form.clientId}
+              onChange={(e) => update({ clientId: e.target.value })}
+              className={inputClassName}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="sso-client-secret" className={labelClassName}>
+              Client secret
+            </label>
+            <input
+              id="sso-client-secret"
+              type="password"
+              autoComplete="off"
+              value={form.clientSecret ?? ""}
+              onChange={(e) => update({ clientSecret: e.target.value })}
+              className={inputClassName}
+              placeholder={
+                config?.hasClientSecret
+                  ? "Leave empty to keep the current secret"
+                  : ""
+              }
+              required={!config?.hasClientSecret}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="sso-scopes" className={labelClassName}>
+              Scopes
+            </label>
+            <input
+              id="sso-scopes"
+              value={form.scopes ?? ""}
+              onChange={(e) => update({ scopes: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <div>
+          <span className={labelClassName}>
+            Workspaces new members join on first sign-in
+          </span>
+          {data.workspaces.length === 0 ? (
+            <p className="text-sm text-neutral-600 dark:text-neutral-300">
+              This subscription has no workspaces yet.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {data.workspaces.map((workspace) => (
+                <label
+                  key={workspace.id}
+                  className="flex items-center gap-2 text-sm text-neutral-700 dark:text-neutral-300"
+                >
+                  <input
+                    type="checkbox"
+                    checked={form.provisionWorkspaceIds.includes(workspace.id)}
+                    onChange={(e) =>
+                      toggleWorkspace(workspace.id, e.target.checked)
+                    }
+                    className={checkboxClassName}
+                  />
+                  {workspace.name}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="md:w-1/2">
+          <label htmlFor="sso-permission" className={labelClassName}>
+            Default permission
+          </label>
+          <select
+            id="sso-permission"
+            value={form.defaultPermissionLevel}
+            onChange={(e) =>
+              update({
+                defaultPermissionLevel: Number(
+                  e.target.value
+                ) as SsoConfigInput["defaultPermissionLevel"],
+              })
+            }
+            className={inputClassName}
+          >
+            <option value={PERMISSION_LEVELS.READ}>Read - View only</option>
+            <option value={PERMISSION_LEVELS.WRITE}>
+              Write - Can edit agents and documents
+            </option>
+            <option value={PERMISSION_LEVELS.OWNER}>
+              Owner - Full access
+            </option>
+          </select>
+        </div>
+
+        <label className="flex items-start gap-2 text-sm text-neutral-700 dark:text-neutral-300">
+          <input
+            type="checkbox"
+            checked={form.enforceSso}
+            onChange={(e) => update({ enforceSso: e.target.checked })}
+            className={`mt-0.5 ${checkboxClassName}`}
+          />
+          <span>
+            Require single sign-on for members of this domain (email links and
+            passkeys are refused; billing managers keep them as a fallback)
+          </span>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-neutral-700 dark:text-neutral-300">
+          <input
+            type="checkbox"
+            checked={form.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            className={checkboxClassName}
+          />
+          Enabled
+        </label>
+
+        <div className="flex flex-wrap gap-3">
+          <button
+            type="submit"
+            disabled={updateMutation.isPending}
+            className="transform rounded-xl bg-gradient-primary px-6 py-3 font-semibold text-white transition-all duration-200 hover:scale-[1.02] hover:shadow-colored active:scale-[0.98] disabled:transform-none disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {updateMutation.isPending ? "Saving..." : "Save single sign-on"}
+          </button>
+          {config && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              className="rounded-xl border border-error-200 px-4 py-2 font-semibold text-error-600 transition-all duration-200 hover:bg-error-50 disabled:opacity-50 dark:border-error-800 dark:text-error-400 dark:hover:bg-error-900"
+            >
+              {deleteMutation.isPending ? "Removing..." : "Remove"}
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,326 @@
+import type { FC } from "react";
+import { useEffect, useState } from "react";
+
+import { useDialogTracking } from "../contexts/DialogContext";
+import { useAgents } from "../hooks/useAgents";
+import { useEscapeKey } from "../hooks/useEscapeKey";
+import { useToast } from "../hooks/useToast";
+import {
+  createIntegration,
+  type CreateIntegrationInput,
+  type BotIntegration,
+} from "../utils/api";
+import { trackEvent } from "../utils/tracking";
+
+import { Slider } from "./Slider";
+
+interface TeamsConnectModalProps {
+  workspaceId: string;
+  agentId?: string; // Pre-select this agent
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export const TeamsConnectModal: FC<TeamsConnectModalProps> = ({
+  workspaceId,
+  agentId: preSelectedAgentId,
+  onClose,
+  onSuccess,
+}) => {
+  const [selectedAgentId, setSelectedAgentId] = useState<string>(
+    preSelectedAgentId || ""
+  );
+  const [appId, setAppId] = useState("");
+  const [appPassword, setAppPassword] = useState("");
+  const [tenantId, setTenantId] = useState("");
+  const [integrationName, setIntegrationName] = useState("");
+  const [messageHistoryCount, setMessageHistoryCount] = useState(10);
+  const [createdIntegration, setCreatedIntegration] =
+    useState<BotIntegration | null>(null);
+  const { data: agents } = useAgents(workspaceId);
+  const toast = useToast();
+  const { registerDialog, unregisterDialog } = useDialogTracking();
+
+  // Handle Escape key to close modal
+  useEscapeKey(true, onClose);
+
+  // Register dialog for focus management
+  useEffect(() => {
+    registerDialog();
+    return () => unregisterDialog();
+  }, [registerDialog, unregisterDialog]);
+
+  const handleCreateIntegration = async () => {
+    if (!integrationName || !appId || !appPassword || !selectedAgentId) {
+      toast.error("Please fill in all required fields");
+      return;
+    }
+
+    try {
+      const input: CreateIntegrationInput = {
+        platform: "teams",
+        name: integrationName,
+        agentId: selectedAgentId,
+        config: {
+          appId: appId.trim(),
+          appPassword,
+          tenantId: tenantId.trim() || undefined,
+          messageHistoryCount,
+        },
+      };
+      const integration = await createIntegration(workspaceId, input);
+      setCreatedIntegration(integration);
+      trackEvent("integration_created", {
+        workspace_id: workspaceId,
+        integration_id: integration.id,
+        platform: "teams",
+        agent_id: selectedAgentId,
+        integration_name: integrationName,
+      });
+      toast.success("Integration created successfully");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to create integration"
+      );
+    }
+  };
+
+  const handleCopy = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast.success("Copied to clipboard");
+  };
+
+  const handleFinish = () => {
+    onSuccess();
+    onClose();
+  };
+
+  // If integration was created, show the messaging endpoint
+  if (createdIntegration) {
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+        <div className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-lg bg-white p-6 shadow-xl dark:bg-surface-50">
+          <div className="mb-4 flex items-center justify-between">
+            <h2 className="text-xl font-bold text-neutral-900 dark:text-neutral-50">
+              Integration Created Successfully
+            </h2>
+            <button
+              onClick={handleFinish}
+              className="text-neutral-500 hover:text-neutral-700 dark:text-neutral-400 dark:hover:text-neutral-200"
+            >
+              ✕
+            </button>
+          </div>
+
+          <div className="space-y-4">
+            <div className="rounded-lg bg-green-50 p-4 dark:bg-green-900/20">
+              <p className="text-sm text-green-800 dark:text-green-200">
+                Your Microsoft Teams integration has been created. Copy the
+                webhook URL below and paste it into your Azure Bot&apos;s
+                &quot;Messaging endpoint&quot; field.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">
+                Messaging Endpoint
+              </label>
+              <div className="mt-1 flex gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={createdIntegration.webhookUrl}
+                  className="flex-1 rounded-md border border-neutral-300 bg-white px-3 py-2 text-sm dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50"
+                />
+                <button
+                  onClick={() => handleCopy(createdIntegration.webhookUrl)}
+                  className="rounded-md bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700"
+                >
+                  Copy
+                </button>
+              </div>
+            </div>
+
+            <div className="rounded-lg bg-blue-50 p-4 dark:bg-blue-900/20">
+              <h4 className="mb-2 text-sm font-semibold text-blue-900 dark:text-blue-200">
+                Next Steps
+              </h4>
+              <ol className="list-inside list-decimal space-y-1 text-sm text-blue-800 dark:text-blue-300">
+                <li>Open your Azure Bot resource in the Azure portal</li>
+                <li>
+                  Go to &quot;Configuration&quot; and paste the URL above into
+                  &quot;Messaging endpoint&quot;, then click &quot;Apply&quot;
+                </li>
+                <li>
+                  Go to &quot;Channels&quot; and add the &quot;Microsoft
+                  Teams&quot; channel
+                </li>
+                <li>
+                  Create a Teams app for the bot (for example in the Teams
+                  Developer Portal) and install it in a chat or team
+                </li>
+                <li>
+                  Message the bot directly, or @mention it in a channel
+                </li>
+              </ol>
+            </div>
+
+            <button
+              onClick={handleFinish}
+              className="w-full rounded-md bg-primary-600 px-4 py-2 font-medium text-white hover:bg-primary-700"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-lg bg-white p-6 shadow-xl dark:bg-surface-50">
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-xl font-bold text-neutral-900 dark:text-neutral-50">
+            Connect Microsoft Teams Bot
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-neutral-500 hover:text-neutral-700 dark:text-neutral-400 dark:hover:text-neutral-200"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="rounded-lg bg-blue-50 p-4 dark:bg-blue-900/20">
+            <h4 className="mb-2 text-sm font-semibold text-blue-900 dark:text-blue-200">
+              Setup Instructions
+            </h4>
+            <ol className="list-inside list-decimal space-y-1 text-sm text-blue-800 dark:text-blue-300">
+              <li>Create an &quot;Azure Bot&quot; resource in the Azure portal</li>
+              <li>
+                Under &quot;Configuration&quot;, copy the Microsoft App ID (and
+                the App Tenant ID for single-tenant bots)
+              </li>
+              <li>
+                Click &quot;Manage Password&quot; and create a client secret
+              </li>
+              <li>Fill in the form below and create the integration</li>
+              <li>
+                Paste the webhook URL into the bot&apos;s &quot;Messaging
+                endpoint&quot;
+              </li>
+            </ol>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">
+              Select Agent *
+            </label>
+            <select
+              value={selectedAgentId}
+              onChange={(e) => setSelectedAgentId(e.target.value)}
+              disabled={!!preSelectedAgentId}
+              className="mt-1 w-full rounded-md border border-neutral-300 bg-white px-3 py-2 disabled:bg-neutral-100 disabled:text-neutral-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:disabled:bg-neutral-800 dark:disabled:text-neutral-400"
+            >
+              <option value="">Select an agent...</option>
+              {agents?.map((agent) => (
+                <option key={agent.id} value={agent.id}>
+                  {agent.name}
+                </option>
+              ))}
+            </select>
+            {preSelectedAgentId && (
+              <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                Agent is pre-selected for this integration
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">
+              Integration Name *
+            </label>
+            <input
+              type="text"
+              value={integrationName}
+              onChange={(e) => setIntegrationName(e.target.value)}
+              placeholder="My Teams Bot"
+              className="mt-1 w-full rounded-md border border-neutral-300 bg-white px-3 py-2 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">
+              Microsoft App ID *
+            </label>
+            <input
+              type="text"
+              value={appId}
+              onChange={(e) => setAppId(e.target.value)}
+              placeholder="00000000-0000-0000-0000-000000000000"
+              className="mt-1 w-full rounded-md border border-neutral-300 bg-white px-3 py-2 font-mono text-sm dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">
+              App Password (client secret) *
+            </label>
+            <input
+              type="password"
+              value={appPassword}
+              onChange={(e) => setAppPassword(e.target.value)}
+              placeholder="..."
+              className="mt-1 w-full rounded-md border border-neutral-300 bg-white px-3 py-2 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">
+              Tenant ID (single-tenant bots only)
+            </label>
+            <input
+              type="text"
+              value={tenantId}
+              onChange={(e) => setTenantId(e.target.value)}
+              placeholder="Leave empty for multi-tenant bots"
+              className="mt-1 w-full rounded-md border border-neutral-300 bg-white px-3 py-2 font-mono text-sm dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50"
+            />
+          </div>
+
+          <div>
+            <Slider
+              label="Message History Count"
+              value={messageHistoryCount}
+              min={0}
+              max={100}
+              step={1}
+              onChange={(value) => setMessageHistoryCount(value ?? 10)}
+            />
+            <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+              Number of previous messages in the conversation to include as
+              context (0-100). Default: 10.
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="flex-1 rounded-md border border-neutral-300 px-4 py-2 font-medium text-neutral-700 hover:bg-neutral-50 dark:border-neutral-700 dark:text-neutral-300 dark:hover:bg-neutral-800"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreateIntegration}
+              className="flex-1 rounded-md bg-primary-600 px-4 py-2 font-medium text-white hover:bg-primary-700"
+            >
+              Create Integration
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
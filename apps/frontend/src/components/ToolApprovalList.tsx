@@ -0,0 +1,254 @@
+import type { FC } from "react";
+import { useMemo, useState } from "react";
+
+import {
+  useDecideToolApproval,
+  useToolApprovals,
+} from "../hooks/useToolApprovals";
+import type { ToolApprovalRequest, ToolApprovalStatus } from "../utils/api";
+
+interface ToolApprovalListProps {
+  workspaceId: string;
+  agentId: string;
+  canEdit: boolean;
+}
+
+const STATUS_LABELS: Record<ToolApprovalStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+  expired: "Expired",
+};
+
+const STATUS_CLASS_NAMES: Record<ToolApprovalStatus, string> = {
+  pending:
+    "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  approved: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  rejected: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  expired:
+    "bg-neutral-100 text-neutral-700 dark:bg-neutral-800 dark:text-neutral-300",
+};
+
+const buttonClassName =
+  "rounded-xl border border-neutral-300 bg-white px-4 py-2 text-sm font-medium transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:hover:bg-neutral-800";
+
+const formatArgs = (args: Record<string, unknown>) =>
+  JSON.stringify(args, null, 2);
+
+const parseArgs = (text: string): Record<string, unknown> | null => {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return parsed !== null &&
+      typeof parsed === "object" &&
+      !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const PendingApproval: FC<{
+  approval: ToolApprovalRequest;
+  workspaceId: string;
+  agentId: string;
+  canEdit: boolean;
+}> = ({ approval, workspaceId, agentId, canEdit }) => {
+  const decide = useDecideToolApproval(workspaceId, agentId);
+  const originalArgs = formatArgs(approval.args);
+  const [argsText, setArgsText] = useState(originalArgs);
+  const [reason, setReason] = useState("");
+  const editedArgs = parseArgs(argsText);
+  const isEdited = argsText !== originalArgs;
+
+  const handleApprove = () => {
+    if (!editedArgs) {
+      return;
+    }
+    decide.mutate({
+      approvalId: approval.id,
+      input: {
+        decision: "approve",
+        ...(isEdited && { args: editedArgs }),
+        ...(reason.trim() && { reason: reason.trim() }),
+      },
+    });
+  };
+
+  const handleReject = () => {
+    decide.mutate({
+      approvalId: approval.id,
+      input: {
+        decision: "reject",
+        ...(reason.trim() && { reason: reason.trim() }),
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={argsText}
+        onChange={(e) => setArgsText(e.target.value)}
+        readOnly={!canEdit}
+        rows={Math.min(12, argsText.split("\n").length + 1)}
+        className="w-full rounded-lg border border-neutral-200 bg-neutral-50 p-2 font-mono text-xs dark:border-neutral-700 dark:bg-neutral-900 dark:text-neutral-50"
+        aria-label="Tool arguments"
+      />
+      {!editedArgs && (
+        <p className="text-xs text-red-600 dark:text-red-400">
+          The arguments must be a JSON object.
+        </p>
+      )}
+      {canEdit && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={1000}
+            placeholder="Reason (optional, passed to the agent)"
+            className="min-w-48 flex-1 rounded-lg border-2 border-neutral-300 bg-white px-3 py-1.5 text-sm dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50"
+          />
+          <button
+            type="button"
+            onClick={handleApprove}
+            disabled={decide.isPending || !editedArgs}
+            className="rounded-xl bg-gradient-primary px-4 py-2 text-sm font-semibold text-white transition-all duration-200 hover:shadow-colored disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isEdited ? "Approve with edits" : "Approve"}
+          </button>
+          <button
+            type="button"
+            onClick={handleReject}
+            disabled={decide.isPending}
+            className={buttonClassName}
+          >
+            Reject
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DecidedApproval: FC<{ approval: ToolApprovalRequest }> = ({
+  approval,
+}) => (
+  <div className="space-y-1 text-xs text-neutral-700 dark:text-neutral-300">
+    <details>
+      <summary className="cursor-pointer">
+        Arguments{approval.approvedArgs ? " (edited before approval)" : ""}
+      </summary>
+      <pre className="mt-1 whitespace-pre-wrap rounded-lg border border-neutral-200 bg-neutral-50 p-2 font-mono dark:border-neutral-700 dark:bg-neutral-900">
+        {formatArgs(approval.approvedArgs ?? approval.args)}
+      </pre>
+    </details>
+    {approval.decidedAt && (
+      <div>
+        Decided {new Date(approval.decidedAt).toLocaleString()}
+        {approval.decidedBy === "timeout" ? " by the timeout policy" : ""}
+      </div>
+    )}
+    {approval.reason && <div>Reason: {approval.reason}</div>}
+    {approval.resultPreview && (
+      <div className="break-words">Result: {approval.resultPreview}</div>
+    )}
+    {approval.error && (
+      <div className="text-red-600 dark:text-red-400">
+        Error: {approval.error}
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * Approval requests of tool calls that require approval: pending requests can
+ * be approved (optionally with edited arguments) or rejected
+ */
+export const ToolApprovalList: FC<ToolApprovalListProps> = ({
+  workspaceId,
+  agentId,
+  canEdit,
+}) => {
+  const [showAll, setShowAll] = useState(false);
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } =
+    useToolApprovals(workspaceId, agentId, showAll ? undefined : "pending");
+
+  const approvals = useMemo(
+    () => data?.pages.flatMap((page) => page.approvals) ?? [],
+    [data]
+  );
+
+  return (
+    <div className="space-y-3">
+      <label className="flex cursor-pointer items-center gap-2 text-sm dark:text-neutral-300">
+        <input
+          type="checkbox"
+          checked={showAll}
+          onChange={() => setShowAll(!showAll)}
+          className="rounded border-2 border-neutral-300"
+        />
+        Show decided requests
+      </label>
+      {isLoading && !data ? (
+        <p className="text-sm text-neutral-600 dark:text-neutral-300">
+          Loading approval requests...
+        </p>
+      ) : approvals.length === 0 ? (
+        <p className="text-sm text-neutral-600 dark:text-neutral-300">
+          {showAll ? "No approval requests yet." : "No pending approval requests."}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {approvals.map((approval) => (
+            <li
+              key={approval.id}
+              className="rounded-lg border border-neutral-200 p-3 dark:border-neutral-700 dark:bg-surface-100"
+            >
+              <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+                <span className="font-mono text-sm font-semibold dark:text-neutral-50">
+                  {approval.toolName}
+                </span>
+                <span
+                  className={`rounded-full px-2.5 py-0.5 text-xs font-medium ${
+                    STATUS_CLASS_NAMES[approval.status]
+                  }`}
+                >
+                  {STATUS_LABELS[approval.status]}
+                </span>
+              </div>
+              <div className="mb-2 text-xs text-neutral-500 dark:text-neutral-400">
+                Requested {new Date(approval.createdAt).toLocaleString()}
+                {approval.status === "pending" &&
+                  ` · expires at ${new Date(
+                    approval.expiresAt
+                  ).toLocaleString()}`}
+              </div>
+              {approval.status === "pending" ? (
+                <PendingApproval
+                  approval={approval}
+                  workspaceId={workspaceId}
+                  agentId={agentId}
+                  canEdit={canEdit}
+                />
+              ) : (
+                <DecidedApproval approval={approval} />
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {hasNextPage && (
+        <button
+          type="button"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+          className={buttonClassName}
+        >
+          {isFetchingNextPage ? "Loading..." : "Load more"}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -40,7 +40,7 @@ export const UsageStats: FC<UsageStatsProps> = ({
     <div className="rounded-2xl border border-neutral-200 bg-white p-8 shadow-medium dark:border-neutral-700 dark:bg-surface-50">
       <h3 className="mb-4 text-2xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">{title}</h3>
       <p className="mb-8 text-base leading-relaxed text-neutral-600 dark:text-neutral-300">
-        Input tokens are the text you send to the AI. Output tokens are the text the AI generates. Total tokens is the sum of both. Total Cost includes all costs: token costs (from model usage), tool costs (from external tools like web search), reranking costs (from knowledge base document reranking), and eval costs (from evaluation judge calls). Reranking Cost and Eval Cost are shown separately when present. Conversation count shows the number of unique conversations. Messages in are user messages, messages out are assistant responses. Tool usage shows calls to external tools like web search and URL fetching. BYOK (Bring Your Own Key) shows usage with your own API keys, while Platform shows usage with platform-provided keys.
+        Input tokens are the text you send to the AI. Output tokens are the text the AI generates. Total tokens is the sum of both. Total Cost includes all costs: token costs (from model usage), tool costs (from external tools like web search), reranking costs (from knowledge base document reranking), and eval costs (from evaluation judge calls). Reranking Cost and Eval Cost are shown separately when present. Conversation count shows the number of unique conversations. Messages in are user messages, messages out are assistant responses. End-user feedback counts thumbs up and down given to agent replies in the widget, Slack, Discord or the API. Tool usage shows calls to external tools like web search and URL fetching. BYOK (Bring Your Own Key) shows usage with your own API keys, while Platform shows usage with platform-provided keys.
       </p>
 
       <div className="mb-8 grid grid-cols-2 gap-4 lg:grid-cols-4">
@@ -61,6 +61,14 @@ export const UsageStats: FC<UsageStatsProps> = ({
           <div className="mb-2 text-sm font-semibold text-success-700 dark:text-success-300">Total Messages</div>
           <div className="text-3xl font-bold text-success-900 dark:text-success-50">{formatNumber(stats.totalMessages)}</div>
         </div>
+        {((stats.positiveFeedback ?? 0) > 0 || (stats.negativeFeedback ?? 0) > 0) && (
+          <div className="overflow-hidden rounded-xl border border-success-200 bg-success-100 p-5 dark:border-success-700 dark:bg-success-900">
+            <div className="mb-2 text-sm font-semibold text-success-700 dark:text-success-300">End-user Feedback</div>
+            <div className="text-3xl font-bold text-success-900 dark:text-success-50">
+              👍 {formatNumber(stats.positiveFeedback ?? 0)} · 👎 {formatNumber(stats.negativeFeedback ?? 0)}
+            </div>
+          </div>
+        )}
         {/* Tokens Group - Primary (Teal) */}
         <div className="overflow-hidden rounded-xl border border-primary-200 bg-primary-100 p-5 dark:border-primary-700 dark:bg-primary-900">
           <div className="mb-2 text-sm font-semibold text-primary-700 dark:text-primary-300">Input Tokens</div>
@@ -0,0 +1,138 @@
+import type { FC } from "react";
+
+import { useWorkspaces } from "../hooks/useWorkspaces";
+import type { UserApiKeyCapability } from "../utils/api";
+import {
+  USER_API_KEY_CAPABILITY_LABELS,
+  type UserApiKeyScopeForm,
+} from "../utils/userApiKeyScope";
+
+interface UserApiKeyScopeFieldsProps {
+  value: UserApiKeyScopeForm;
+  onChange: (value: UserApiKeyScopeForm) => void;
+}
+
+const labelClassName =
+  "mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300";
+const checkboxClassName =
+  "size-4 rounded border-neutral-300 text-blue-600 focus:ring-blue-500 dark:border-neutral-700";
+const inputClassName =
+  "w-full rounded-xl border border-neutral-300 px-4 py-2 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 dark:border-neutral-700 dark:bg-surface-50 dark:text-neutral-50 dark:focus:border-blue-400 dark:focus:ring-blue-400/40";
+
+const toggle = <T,>(values: T[], value: T, checked: boolean): T[] =>
+  checked ? [...values, value] : values.filter((item) => item !== value);
+
+/**
+ * Workspace, capability, expiry and IP restrictions of a new user API key
+ */
+export const UserApiKeyScopeFields: FC<UserApiKeyScopeFieldsProps> = ({
+  value,
+  onChange,
+}) => {
+  const { data: workspaces } = useWorkspaces();
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <span className={labelClassName}>Workspaces</span>
+        <div className="max-h-40 space-y-2 overflow-y-auto">
+          {workspaces.map((workspace) => (
+            <label
+              key={workspace.id}
+              className="flex items-center gap-2 text-sm text-neutral-700 dark:text-neutral-300"
+            >
+              <input
+                type="checkbox"
+                checked={value.workspaceIds.includes(workspace.id)}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    workspaceIds: toggle(
+                      value.workspaceIds,
+                      workspace.id,
+                      e.target.checked
+                    ),
+                  })
+                }
+                className={checkboxClassName}
+              />
+              {workspace.name}
+            </label>
+          ))}
+        </div>
+        <p className="mt-2 text-sm text-neutral-500 dark:text-neutral-300">
+          Leave empty to allow every workspace you can access.
+        </p>
+      </div>
+
+      <div>
+        <span className={labelClassName}>Capabilities</span>
+        <div className="grid grid-cols-2 gap-2">
+          {(
+            Object.entries(USER_API_KEY_CAPABILITY_LABELS) as [
+              UserApiKeyCapability,
+              string,
+            ][]
+          ).map(([capability, label]) => (
+            <label
+              key={capability}
+              className="flex items-center gap-2 text-sm text-neutral-700 dark:text-neutral-300"
+            >
+              <input
+                type="checkbox"
+                checked={value.capabilities.includes(capability)}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    capabilities: toggle(
+                      value.capabilities,
+                      capability,
+                      e.target.checked
+                    ),
+                  })
+                }
+                className={checkboxClassName}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        <p className="mt-2 text-sm text-neutral-500 dark:text-neutral-300">
+          Leave empty to give the key your full access.
+        </p>
+      </div>
+
+      <div>
+        <label htmlFor="keyExpiresOn" className={labelClassName}>
+          Expires on (optional)
+        </label>
+        <input
+          type="date"
+          id="keyExpiresOn"
+          min={today}
+          value={value.expiresOn}
+          onChange={(e) => onChange({ ...value, expiresOn: e.target.value })}
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="keyAllowedIps" className={labelClassName}>
+          Allowed IP addresses (optional)
+        </label>
+        <input
+          type="text"
+          id="keyAllowedIps"
+          value={value.allowedIps}
+          onChange={(e) => onChange({ ...value, allowedIps: e.target.value })}
+          placeholder="e.g., 203.0.113.4, 10.0.0.0/8"
+          className={inputClassName}
+        />
+        <p className="mt-2 text-sm text-neutral-500 dark:text-neutral-300">
+          IP addresses or CIDR ranges, separated by commas.
+        </p>
+      </div>
+    </div>
+  );
+};
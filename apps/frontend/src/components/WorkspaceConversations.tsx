@@ -0,0 +1,67 @@
+import { lazy, Suspense, useMemo, useState } from "react";
+import type { FC } from "react";
+
+import { useAgents } from "../hooks/useAgents";
+
+import { ConversationList } from "./ConversationList";
+import { QueryPanel } from "./QueryPanel";
+
+const ConversationDetailModal = lazy(() =>
+  import("./ConversationDetailModal").then((module) => ({
+    default: module.ConversationDetailModal,
+  }))
+);
+
+const loadingConversation = (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+    <div className="rounded-xl border border-neutral-200 bg-white p-8 shadow-xl dark:border-neutral-700">
+      <div className="text-2xl font-semibold">Loading conversation...</div>
+    </div>
+  </div>
+);
+
+interface WorkspaceConversationsProps {
+  workspaceId: string;
+}
+
+/**
+ * Searchable conversations of every agent in a workspace
+ */
+export const WorkspaceConversations: FC<WorkspaceConversationsProps> = ({
+  workspaceId,
+}) => {
+  const { data: agents } = useAgents(workspaceId);
+  const agentNames = useMemo(
+    () => Object.fromEntries(agents.map((agent) => [agent.id, agent.name])),
+    [agents]
+  );
+  const [selected, setSelected] = useState<{
+    conversationId: string;
+    agentId: string;
+  } | null>(null);
+
+  return (
+    <>
+      <ConversationList
+        workspaceId={workspaceId}
+        agentNames={agentNames}
+        onConversationClick={(conversationId, agentId) =>
+          setSelected({ conversationId, agentId })
+        }
+      />
+      {selected && (
+        <Suspense fallback={loadingConversation}>
+          <QueryPanel fallback={loadingConversation}>
+            <ConversationDetailModal
+              isOpen
+              onClose={() => setSelected(null)}
+              workspaceId={workspaceId}
+              agentId={selected.agentId}
+              conversationId={selected.conversationId}
+            />
+          </QueryPanel>
+        </Suspense>
+      )}
+    </>
+  );
+};
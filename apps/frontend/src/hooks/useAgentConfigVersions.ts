@@ -0,0 +1,97 @@
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+
+import {
+  getAgentConfigVersionDiff,
+  listAgentConfigVersions,
+  restoreAgentConfigVersion,
+  type Agent,
+} from "../utils/api";
+
+import { useToast } from "./useToast";
+
+export function useAgentConfigVersions(
+  workspaceId: string,
+  agentId: string,
+  limit: number = 20
+) {
+  return useInfiniteQuery({
+    queryKey: ["workspaces", workspaceId, "agents", agentId, "versions"],
+    queryFn: async ({ pageParam }) => {
+      const result = await listAgentConfigVersions(
+        workspaceId,
+        agentId,
+        limit,
+        pageParam
+      );
+      return result;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+}
+
+export function useAgentConfigVersionDiff(
+  workspaceId: string,
+  agentId: string,
+  version: number | null,
+  compareTo?: number | "current"
+) {
+  return useQuery({
+    queryKey: [
+      "workspaces",
+      workspaceId,
+      "agents",
+      agentId,
+      "versions",
+      version,
+      "diff",
+      compareTo ?? "previous",
+    ],
+    queryFn: () =>
+      getAgentConfigVersionDiff(workspaceId, agentId, version!, compareTo),
+    enabled: version !== null,
+  });
+}
+
+export function useRestoreAgentConfigVersion(
+  workspaceId: string,
+  agentId: string
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: (version: number) =>
+      restoreAgentConfigVersion(workspaceId, agentId, version),
+    onSuccess: (data, version) => {
+      // Keep contextStats and modelInfo, which the restore response does not include
+      queryClient.setQueryData(
+        ["workspaces", workspaceId, "agents", agentId],
+        (prev: Agent | undefined) => {
+          if (!prev) return data;
+          return {
+            ...prev,
+            ...data,
+            contextStats: data.contextStats ?? prev.contextStats,
+            modelInfo: data.modelInfo ?? prev.modelInfo,
+          } as Agent;
+        }
+      );
+      queryClient.invalidateQueries({
+        queryKey: ["workspaces", workspaceId, "agents", agentId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["agent-tools", workspaceId, agentId],
+      });
+      toast.success(`Restored version ${version}`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to restore version");
+    },
+  });
+}
@@ -7,28 +7,39 @@ import {
 import {
   getAgentConversation,
   listAgentConversations,
+  listWorkspaceConversations,
+  type ConversationSearchFilters,
 } from "../utils/api";
 
-export function useAgentConversations(
+/**
+ * Conversations of an agent, or of every agent in the workspace when agentId is
+ * omitted, optionally searched
+ */
+export function useConversations(
   workspaceId: string,
-  agentId: string,
-  limit: number = 50
+  agentId: string | undefined,
+  limit: number = 50,
+  filters: ConversationSearchFilters = {}
 ) {
   return useInfiniteQuery({
-    queryKey: [
-      "workspaces",
-      workspaceId,
-      "agents",
-      agentId,
-      "conversations",
-    ],
+    queryKey: agentId
+      ? ["workspaces", workspaceId, "agents", agentId, "conversations", filters]
+      : ["workspaces", workspaceId, "conversations", filters],
     queryFn: async ({ pageParam }) => {
-      const result = await listAgentConversations(
-        workspaceId,
-        agentId,
-        limit,
-        pageParam
-      );
+      const result = agentId
+        ? await listAgentConversations(
+            workspaceId,
+            agentId,
+            limit,
+            pageParam,
+            filters
+          )
+        : await listWorkspaceConversations(
+            workspaceId,
+            limit,
+            pageParam,
+            filters
+          );
       return result;
     },
     initialPageParam: undefined as string | undefined,
@@ -1,10 +1,16 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 
 import {
+  createKnowledgeGraphFact,
+  deleteKnowledgeGraphFact,
   getAgentKnowledgeGraph,
+  updateKnowledgeGraphFact,
   type AgentKnowledgeGraphOptions,
+  type KnowledgeGraphFactInput,
 } from "../utils/api";
 
+import { useToast } from "./useToast";
+
 export function useAgentKnowledgeGraph(
   workspaceId: string,
   agentId: string,
@@ -16,3 +22,76 @@ export function useAgentKnowledgeGraph(
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 }
+
+export function useCreateKnowledgeGraphFact(
+  workspaceId: string,
+  agentId: string,
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: ({
+      endUserId,
+      ...input
+    }: KnowledgeGraphFactInput & { endUserId?: string }) =>
+      createKnowledgeGraphFact(workspaceId, agentId, input, endUserId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["agent-knowledge-graph", workspaceId, agentId],
+      });
+      toast.success("Fact added");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to add fact");
+    },
+  });
+}
+
+export function useUpdateKnowledgeGraphFact(
+  workspaceId: string,
+  agentId: string,
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: ({
+      factId,
+      endUserId,
+      ...input
+    }: KnowledgeGraphFactInput & { factId: string; endUserId?: string }) =>
+      updateKnowledgeGraphFact(workspaceId, agentId, factId, input, endUserId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["agent-knowledge-graph", workspaceId, agentId],
+      });
+      toast.success("Fact updated");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update fact");
+    },
+  });
+}
+
+export function useDeleteKnowledgeGraphFact(
+  workspaceId: string,
+  agentId: string,
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: ({ factId, endUserId }: { factId: string; endUserId?: string }) =>
+      deleteKnowledgeGraphFact(workspaceId, agentId, factId, endUserId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["agent-knowledge-graph", workspaceId, agentId],
+      });
+      toast.success("Fact deleted");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete fact");
+    },
+  });
+}
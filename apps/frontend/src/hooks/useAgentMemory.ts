@@ -1,6 +1,24 @@
-import { useQuery } from "@tanstack/react-query";
+import {
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type QueryClient,
+} from "@tanstack/react-query";
 
-import { getAgentMemory, type AgentMemoryOptions } from "../utils/api";
+import {
+  createAgentMemoryRecord,
+  deleteAgentMemoryRecord,
+  getAgentMemory,
+  getAgentMemoryPartitions,
+  updateAgentMemoryRecord,
+  type AgentMemoryOptions,
+  type AgentMemoryResponse,
+  type AgentMemoryResult,
+  type MemoryRecordInput,
+  type TemporalGrain,
+} from "../utils/api";
+
+import { useToast } from "./useToast";
 
 export function useAgentMemory(
   workspaceId: string,
@@ -14,6 +32,144 @@ export function useAgentMemory(
   });
 }
 
+export function useAgentMemoryPartitions(workspaceId: string, agentId: string) {
+  return useQuery({
+    queryKey: ["agent-memory-partitions", workspaceId, agentId],
+    queryFn: () => getAgentMemoryPartitions(workspaceId, agentId),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+type EndUserTarget = { endUserId?: string };
+
+const toPreview = (
+  record: AgentMemoryResult,
+  previewLength: number | undefined
+): AgentMemoryResult =>
+  previewLength === undefined
+    ? record
+    : {
+        ...record,
+        content: record.content.slice(0, previewLength),
+        isTruncated: record.content.length > previewLength,
+      };
+
+/**
+ * Memory writes are applied by a queue, so a refetch right after a change can still return
+ * the old records. The cached lists of the grain are updated directly instead.
+ */
+function updateCachedRecords(
+  queryClient: QueryClient,
+  workspaceId: string,
+  agentId: string,
+  grain: TemporalGrain,
+  endUserId: string | undefined,
+  update: (
+    records: AgentMemoryResult[],
+    preview: (record: AgentMemoryResult) => AgentMemoryResult
+  ) => AgentMemoryResult[]
+) {
+  const cached = queryClient.getQueriesData<AgentMemoryResponse>({
+    queryKey: ["agent-memory", workspaceId, agentId],
+  });
+  for (const [queryKey, data] of cached) {
+    const options = queryKey[3] as AgentMemoryOptions | undefined;
+    if (
+      !data ||
+      (options?.grain ?? "working") !== grain ||
+      options?.endUserId !== endUserId
+    ) {
+      continue;
+    }
+    queryClient.setQueryData<AgentMemoryResponse>(queryKey, {
+      ...data,
+      records: update(data.records, (record) =>
+        toPreview(record, options?.previewLength)
+      ),
+    });
+  }
+}
+
+export function useCreateAgentMemoryRecord(
+  workspaceId: string,
+  agentId: string
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: ({
+      endUserId,
+      ...input
+    }: MemoryRecordInput & { grain: TemporalGrain } & EndUserTarget) =>
+      createAgentMemoryRecord(workspaceId, agentId, input, endUserId),
+    onSuccess: ({ grain, record }, { endUserId }) => {
+      updateCachedRecords(queryClient, workspaceId, agentId, grain, endUserId, (records, preview) => [
+        preview(record),
+        ...records,
+      ]);
+      toast.success("Memory added. It can take a moment to become searchable.");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to add memory");
+    },
+  });
+}
+
+export function useUpdateAgentMemoryRecord(
+  workspaceId: string,
+  agentId: string
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
 
+  return useMutation({
+    mutationFn: ({
+      recordId,
+      grain,
+      endUserId,
+      ...input
+    }: MemoryRecordInput & {
+      recordId: string;
+      grain: TemporalGrain;
+    } & EndUserTarget) =>
+      updateAgentMemoryRecord(workspaceId, agentId, recordId, grain, input, endUserId),
+    onSuccess: ({ grain, record }, { endUserId }) => {
+      updateCachedRecords(queryClient, workspaceId, agentId, grain, endUserId, (records, preview) =>
+        records.map((existing) =>
+          existing.id === record.id ? preview(record) : existing
+        )
+      );
+      toast.success("Memory updated");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update memory");
+    },
+  });
+}
 
+export function useDeleteAgentMemoryRecord(
+  workspaceId: string,
+  agentId: string
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
 
+  return useMutation({
+    mutationFn: ({
+      recordId,
+      grain,
+      endUserId,
+    }: { recordId: string; grain: TemporalGrain } & EndUserTarget) =>
+      deleteAgentMemoryRecord(workspaceId, agentId, recordId, grain, endUserId),
+    onSuccess: (_data, { recordId, grain, endUserId }) => {
+      updateCachedRecords(queryClient, workspaceId, agentId, grain, endUserId, (records) =>
+        records.filter((record) => record.id !== recordId)
+      );
+      toast.success("Memory deleted");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete memory");
+    },
+  });
+}
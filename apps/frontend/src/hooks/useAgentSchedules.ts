@@ -7,6 +7,7 @@ import {
 
 import {
   listAgentSchedules,
+  listAgentScheduleRuns,
   getAgentSchedule,
   createAgentSchedule,
   updateAgentSchedule,
@@ -76,6 +77,36 @@ export function useAgentSchedule(
   });
 }
 
+export function useAgentScheduleRuns(
+  workspaceId: string,
+  agentId: string,
+  scheduleId: string,
+  pageSize = 20
+) {
+  return useInfiniteQuery({
+    queryKey: [
+      "workspaces",
+      workspaceId,
+      "agents",
+      agentId,
+      "schedules",
+      scheduleId,
+      "runs",
+    ],
+    queryFn: async ({ pageParam }) =>
+      listAgentScheduleRuns(
+        workspaceId,
+        agentId,
+        scheduleId,
+        pageSize,
+        pageParam
+      ),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!workspaceId && !!agentId && !!scheduleId,
+  });
+}
+
 export function useCreateAgentSchedule(workspaceId: string, agentId: string) {
   const queryClient = useQueryClient();
   const toast = useToast();
@@ -0,0 +1,24 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+
+import { listWorkspaceAuditLog, type AuditLogFilters } from "../utils/api";
+
+export function useWorkspaceAuditLog(
+  workspaceId: string,
+  filters: AuditLogFilters,
+  limit: number = 50
+) {
+  return useInfiniteQuery({
+    queryKey: ["workspaces", workspaceId, "audit-log", filters],
+    queryFn: async ({ pageParam }) => {
+      const result = await listWorkspaceAuditLog(
+        workspaceId,
+        filters,
+        limit,
+        pageParam
+      );
+      return result;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+}
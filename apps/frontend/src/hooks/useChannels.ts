@@ -12,6 +12,7 @@ import {
   updateChannel,
   deleteChannel,
   testChannel,
+  listChannelDeliveries,
   type CreateChannelInput,
   type UpdateChannelInput,
 } from "../utils/api";
@@ -47,6 +48,20 @@ export function useChannel(workspaceId: string, channelId: string) {
   });
 }
 
+export function useChannelDeliveries(
+  workspaceId: string,
+  channelId: string,
+  pageSize = 20
+) {
+  return useInfiniteQuery({
+    queryKey: ["workspaces", workspaceId, "channels", channelId, "deliveries"],
+    queryFn: async ({ pageParam }) =>
+      listChannelDeliveries(workspaceId, channelId, pageSize, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+}
+
 export function useCreateChannel(workspaceId: string) {
   const queryClient = useQueryClient();
   const toast = useToast();
@@ -11,6 +11,7 @@ import {
   deleteDocument,
   searchDocuments,
   type CreateDocumentInput,
+  type DocumentSearchMode,
   type UpdateDocumentInput,
 } from "../utils/api";
 
@@ -155,12 +156,13 @@ export function useDeleteDocument(workspaceId: string, documentId: string) {
 export function useSearchDocuments(
   workspaceId: string,
   query: string,
-  limit?: number
+  limit?: number,
+  mode?: DocumentSearchMode
 ) {
   return useQuery({
-    queryKey: ["documents-search", workspaceId, query, limit],
+    queryKey: ["documents-search", workspaceId, query, limit, mode],
     queryFn: async () => {
-      const result = await searchDocuments(workspaceId, query, limit);
+      const result = await searchDocuments(workspaceId, query, limit, mode);
       return result.results;
     },
     enabled: query.trim().length > 0,
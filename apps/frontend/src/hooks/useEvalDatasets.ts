@@ -0,0 +1,205 @@
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+
+import {
+  compareEvalRuns,
+  createEvalDataset,
+  deleteEvalDataset,
+  getEvalDataset,
+  listEvalDatasets,
+  listEvalRuns,
+  startEvalRun,
+  updateEvalDataset,
+  type CreateEvalDatasetInput,
+  type StartEvalRunInput,
+  type UpdateEvalDatasetInput,
+} from "../utils/api";
+
+import { useToast } from "./useToast";
+
+// Runs take a while (every case calls the agent and the judges)
+const RUNNING_REFETCH_INTERVAL = 10_000;
+
+export function useEvalDatasets(workspaceId: string, agentId: string) {
+  return useQuery({
+    queryKey: ["workspaces", workspaceId, "agents", agentId, "eval-datasets"],
+    queryFn: async () => {
+      const result = await listEvalDatasets(workspaceId, agentId);
+      return result.datasets;
+    },
+    enabled: !!workspaceId && !!agentId,
+  });
+}
+
+export function useEvalDataset(
+  workspaceId: string,
+  agentId: string,
+  datasetId: string | undefined
+) {
+  return useQuery({
+    queryKey: [
+      "workspaces",
+      workspaceId,
+      "agents",
+      agentId,
+      "eval-datasets",
+      datasetId,
+    ],
+    queryFn: () => getEvalDataset(workspaceId, agentId, datasetId!),
+    enabled: !!workspaceId && !!agentId && !!datasetId,
+  });
+}
+
+export function useCreateEvalDataset(workspaceId: string, agentId: string) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: (input: CreateEvalDatasetInput) =>
+      createEvalDataset(workspaceId, agentId, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [
+          "workspaces",
+          workspaceId,
+          "agents",
+          agentId,
+          "eval-datasets",
+        ],
+      });
+      toast.success("Test dataset created successfully");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to create test dataset");
+    },
+  });
+}
+
+export function useUpdateEvalDataset(
+  workspaceId: string,
+  agentId: string,
+  datasetId: string
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: (input: UpdateEvalDatasetInput) =>
+      updateEvalDataset(workspaceId, agentId, datasetId, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [
+          "workspaces",
+          workspaceId,
+          "agents",
+          agentId,
+          "eval-datasets",
+        ],
+      });
+      toast.success("Test dataset updated successfully");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update test dataset");
+    },
+  });
+}
+
+export function useDeleteEvalDataset(workspaceId: string, agentId: string) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: (datasetId: string) =>
+      deleteEvalDataset(workspaceId, agentId, datasetId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [
+          "workspaces",
+          workspaceId,
+          "agents",
+          agentId,
+          "eval-datasets",
+        ],
+      });
+      toast.success("Test dataset deleted successfully");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete test dataset");
+    },
+  });
+}
+
+export function useStartEvalRun(workspaceId: string, agentId: string) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: ({
+      datasetId,
+      input,
+    }: {
+      datasetId: string;
+      input: StartEvalRunInput;
+    }) => startEvalRun(workspaceId, agentId, datasetId, input),
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({
+        queryKey: ["workspaces", workspaceId, "agents", agentId, "eval-runs"],
+      });
+      toast.success(
+        `Started a run of ${run.caseCount} case${run.caseCount === 1 ? "" : "s"}`
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to start the test run");
+    },
+  });
+}
+
+export function useEvalRuns(workspaceId: string, agentId: string) {
+  return useInfiniteQuery({
+    queryKey: ["workspaces", workspaceId, "agents", agentId, "eval-runs"],
+    queryFn: async ({ pageParam }) =>
+      listEvalRuns(workspaceId, agentId, undefined, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!workspaceId && !!agentId,
+    refetchInterval: (query) =>
+      query.state.data?.pages.some((page) =>
+        page.runs.some((run) => run.status === "running")
+      )
+        ? RUNNING_REFETCH_INTERVAL
+        : false,
+  });
+}
+
+export function useEvalRunComparison(
+  workspaceId: string,
+  agentId: string,
+  baseRunId: string | undefined,
+  candidateRunId: string | undefined
+) {
+  return useQuery({
+    queryKey: [
+      "workspaces",
+      workspaceId,
+      "agents",
+      agentId,
+      "eval-runs",
+      "compare",
+      baseRunId,
+      candidateRunId,
+    ],
+    queryFn: () =>
+      compareEvalRuns(workspaceId, agentId, baseRunId!, candidateRunId!),
+    enabled: !!workspaceId && !!agentId && !!baseRunId && !!candidateRunId,
+    refetchInterval: (query) =>
+      query.state.data?.base.status === "running" ||
+      query.state.data?.candidate.status === "running"
+        ? RUNNING_REFETCH_INTERVAL
+        : false,
+  });
+}
@@ -0,0 +1,113 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMemo } from "react";
+
+import {
+  listModelEndpoints,
+  createModelEndpoint,
+  updateModelEndpoint,
+  deleteModelEndpoint,
+  type CreateModelEndpointInput,
+  type ModelCapabilities,
+  type UpdateModelEndpointInput,
+} from "../utils/api";
+
+import { useToast } from "./useToast";
+
+export function useModelEndpoints(workspaceId: string) {
+  return useQuery({
+    queryKey: ["workspaces", workspaceId, "model-endpoints"],
+    queryFn: async () => (await listModelEndpoints(workspaceId)).endpoints,
+    enabled: !!workspaceId,
+  });
+}
+
+/**
+ * Models of the workspace's custom endpoints for the model selects of agents
+ * and eval judges: their names ("custom:{endpointId}:{model}") and declared
+ * capabilities
+ */
+export function useCustomModels(workspaceId: string): {
+  modelNames: string[];
+  capabilities: Record<string, ModelCapabilities>;
+} {
+  const { data: endpoints } = useModelEndpoints(workspaceId);
+  return useMemo(() => {
+    const capabilities: Record<string, ModelCapabilities> = {};
+    for (const model of (endpoints ?? []).flatMap((e) => e.models)) {
+      if (model.modelName) {
+        capabilities[model.modelName] = {
+          input_modalities: model.capabilities?.imageInput
+            ? ["image", "text"]
+            : ["text"],
+          output_modalities: ["text"],
+          text_generation: true,
+          tool_calling: model.capabilities?.toolCalling === true,
+          structured_output: model.capabilities?.structuredOutput === true,
+        };
+      }
+    }
+    return { modelNames: Object.keys(capabilities), capabilities };
+  }, [endpoints]);
+}
+
+export function useCreateModelEndpoint(workspaceId: string) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: (input: CreateModelEndpointInput) =>
+      createModelEndpoint(workspaceId, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["workspaces", workspaceId, "model-endpoints"],
+      });
+      toast.success("Model endpoint created successfully");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to create model endpoint");
+    },
+  });
+}
+
+export function useUpdateModelEndpoint(workspaceId: string) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: ({
+      endpointId,
+      input,
+    }: {
+      endpointId: string;
+      input: UpdateModelEndpointInput;
+    }) => updateModelEndpoint(workspaceId, endpointId, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["workspaces", workspaceId, "model-endpoints"],
+      });
+      toast.success("Model endpoint updated successfully");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update model endpoint");
+    },
+  });
+}
+
+export function useDeleteModelEndpoint(workspaceId: string) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: (endpointId: string) =>
+      deleteModelEndpoint(workspaceId, endpointId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["workspaces", workspaceId, "model-endpoints"],
+      });
+      toast.success("Model endpoint deleted successfully");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete model endpoint");
+    },
+  });
+}
@@ -11,6 +11,11 @@ import {
   getSubscriptionPortalUrl,
   purchaseCredits,
   syncSubscription,
+  getSsoSettings,
+  updateSsoConfig,
+  verifySsoDomain,
+  deleteSsoConfig,
+  type SsoConfigInput,
 } from "../utils/api";
 
 import { useToast } from "./useToast";
@@ -179,3 +184,58 @@ export function useSubscriptionSync() {
     },
   });
 }
+
+export function useSsoSettings() {
+  return useQuery({
+    queryKey: ["subscription", "sso"],
+    queryFn: () => getSsoSettings(),
+  });
+}
+
+export function useUpdateSsoConfig() {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: (input: SsoConfigInput) => updateSsoConfig(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["subscription", "sso"] });
+      toast.success("Single sign-on settings saved");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save single sign-on settings");
+    },
+  });
+}
+
+export function useVerifySsoDomain() {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: () => verifySsoDomain(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["subscription", "sso"] });
+      toast.success("Domain verified");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to verify domain");
+    },
+  });
+}
+
+export function useDeleteSsoConfig() {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: () => deleteSsoConfig(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["subscription", "sso"] });
+      toast.success("Single sign-on removed");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to remove single sign-on");
+    },
+  });
+}
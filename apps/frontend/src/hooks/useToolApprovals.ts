@@ -0,0 +1,72 @@
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
+
+import {
+  decideToolApproval,
+  listToolApprovals,
+  type DecideToolApprovalInput,
+  type ToolApprovalStatus,
+} from "../utils/api";
+
+import { useToast } from "./useToast";
+
+export function useToolApprovals(
+  workspaceId: string,
+  agentId: string,
+  status?: ToolApprovalStatus
+) {
+  return useInfiniteQuery({
+    queryKey: [
+      "workspaces",
+      workspaceId,
+      "agents",
+      agentId,
+      "tool-approvals",
+      status ?? "all",
+    ],
+    queryFn: async ({ pageParam }) =>
+      listToolApprovals(workspaceId, agentId, status, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!workspaceId && !!agentId,
+    // Pending requests come in while the agent runs elsewhere (bots, webhooks)
+    refetchInterval: 30_000,
+  });
+}
+
+export function useDecideToolApproval(workspaceId: string, agentId: string) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: ({
+      approvalId,
+      input,
+    }: {
+      approvalId: string;
+      input: DecideToolApprovalInput;
+    }) => decideToolApproval(workspaceId, agentId, approvalId, input),
+    onSuccess: (approval) => {
+      queryClient.invalidateQueries({
+        queryKey: [
+          "workspaces",
+          workspaceId,
+          "agents",
+          agentId,
+          "tool-approvals",
+        ],
+      });
+      toast.success(
+        approval.status === "approved"
+          ? `Approved ${approval.toolName}; the conversation resumes shortly`
+          : `Rejected ${approval.toolName}`
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to decide the approval request");
+    },
+  });
+}
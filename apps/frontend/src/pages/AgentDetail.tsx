@@ -26,6 +26,8 @@ import {
   ShareIcon,
   Cog6ToothIcon,
   UserCircleIcon,
+  FolderIcon,
+  ShieldCheckIcon,
 } from "@heroicons/react/24/outline";
 import {
   useQueryErrorResetBoundary,
@@ -48,8 +50,11 @@ import { useParams, useNavigate } from "react-router-dom";
 
 
 import { AccordionSection } from "../components/AccordionSection";
+import { AgentDocumentAccess } from "../components/AgentDocumentAccess";
+import { AgentFallbackModels } from "../components/AgentFallbackModels";
 import { AgentSkillsPicker } from "../components/AgentSkillsPicker";
 import { AgentSuggestions } from "../components/AgentSuggestions";
+import { AgentToolApprovalSettings } from "../components/AgentToolApprovalSettings";
 import { ClientToolEditor } from "../components/ClientToolEditor";
 import { ContextLengthGauge } from "../components/ContextLengthGauge";
 import {
@@ -104,6 +109,21 @@ const TransactionTable = lazy(() =>
     default: module.TransactionTable,
   }))
 );
+const AgentVersionHistory = lazy(() =>
+  import("../components/AgentVersionHistory").then((module) => ({
+    default: module.AgentVersionHistory,
+  }))
+);
+const ToolApprovalList = lazy(() =>
+  import("../components/ToolApprovalList").then((module) => ({
+    default: module.ToolApprovalList,
+  }))
+);
+const EvalDatasetList = lazy(() =>
+  import("../components/EvalDatasetList").then((module) => ({
+    default: module.EvalDatasetList,
+  }))
+);
 const EvalJudgeList = lazy(() =>
   import("../components/EvalJudgeList").then((module) => ({
     default: module.EvalJudgeList,
@@ -114,6 +134,11 @@ const EvalResultsChart = lazy(() =>
     default: module.EvalResultsChart,
   }))
 );
+const EvalRunList = lazy(() =>
+  import("../components/EvalRunList").then((module) => ({
+    default: module.EvalRunList,
+  }))
+);
 const EvalResultsList = lazy(() =>
   import("../components/EvalResultsList").then((module) => ({
     default: module.EvalResultsList,
@@ -139,6 +164,16 @@ const DiscordConnectModal = lazy(() =>
     default: module.DiscordConnectModal,
   }))
 );
+const TeamsConnectModal = lazy(() =>
+  import("../components/TeamsConnectModal").then((module) => ({
+    default: module.TeamsConnectModal,
+  }))
+);
+const TelegramConnectModal = lazy(() =>
+  import("../components/TelegramConnectModal").then((module) => ({
+    default: module.TelegramConnectModal,
+  }))
+);
 const DiscordCommandDialog = lazy(() =>
   import("../components/DiscordCommandDialog").then((module) => ({
     default: module.DiscordCommandDialog,
@@ -158,6 +193,7 @@ import { useEmailConnection } from "../hooks/useEmailConnection";
 import { useEscapeKey } from "../hooks/useEscapeKey";
 import { useLocalPreference } from "../hooks/useLocalPreference";
 import { useMcpServers } from "../hooks/useMcpServers";
+import { useCustomModels } from "../hooks/useModelEndpoints";
 import {
   useStreamServer,
   useCreateStreamServer,
@@ -204,6 +240,7 @@ import {
   fetchAvailableModels,
   getImageModelsForProvider,
   resolveDefaultModel,
+  CUSTOM_MODEL_PREFIX,
   type Provider,
 } from "../utils/modelConfig";
 import { trackEvent } from "../utils/tracking";
@@ -297,6 +334,7 @@ const DEFAULT_WIDGET_CUSTOMIZATION = {
     'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
   fontSize: "16px",
   enableFileUpload: true,
+  enableFeedback: true,
 };
 
 const parseColor = (color?: string) => {
@@ -509,6 +547,21 @@ function useSyncEnableMemorySearch(
   }, [agent?.id, agent?.enableMemorySearch, setEnableMemorySearch]);
 }
 
+function useSyncMemoryPartitionByEndUser(
+  agent: ReturnType<typeof useAgent>["data"],
+  setMemoryPartitionByEndUser: (value: boolean) => void
+) {
+  const prevRef = useRef<boolean | undefined>(agent?.memoryPartitionByEndUser);
+  useEffect(() => {
+    const currentValue = agent?.memoryPartitionByEndUser ?? false;
+    const prevValue = prevRef.current ?? false;
+    if (currentValue !== prevValue) {
+      prevRef.current = currentValue;
+      setMemoryPartitionByEndUser(currentValue);
+    }
+  }, [agent?.id, agent?.memoryPartitionByEndUser, setMemoryPartitionByEndUser]);
+}
+
 const AgentDataLoader: FC<{ workspaceId: string; agentId: string }> = ({
   workspaceId,
   agentId,
@@ -730,6 +783,8 @@ function useAgentDetailState({
   const [isHelpOpen, setIsHelpOpen] = useState(false);
   const [showSlackModal, setShowSlackModal] = useState(false);
   const [showDiscordModal, setShowDiscordModal] = useState(false);
+  const [showTeamsModal, setShowTeamsModal] = useState(false);
+  const [showTelegramModal, setShowTelegramModal] = useState(false);
   const [commandDialogState, setCommandDialogState] = useState<{
     integrationId: string;
     currentCommandName?: string;
@@ -945,6 +1000,8 @@ function useAgentDetailState({
   const [enableMemorySearch, setEnableMemorySearch] = useState<boolean>(
     () => agent?.enableMemorySearch ?? false
   );
+  const [memoryPartitionByEndUser, setMemoryPartitionByEndUser] =
+    useState<boolean>(() => agent?.memoryPartitionByEndUser ?? false);
 
   const [summarizationPrompts, setSummarizationPrompts] = useState<
     Record<SummarizationPromptGrain, string>
@@ -1081,6 +1138,7 @@ function useAgentDetailState({
     fontFamily?: string;
     fontSize?: string;
   enableFileUpload?: boolean;
+  enableFeedback?: boolean;
   }>(`widget-customization-${agentId}`, DEFAULT_WIDGET_CUSTOMIZATION);
 
   const [widgetPreviewSettings, setWidgetPreviewSettings] =
@@ -1117,6 +1175,12 @@ function useAgentDetailState({
   const [modelCapabilities, setModelCapabilities] = useState<
     Record<string, ModelCapabilities> | undefined
   >(undefined);
+  // Agents can also use the models of the workspace's custom endpoints
+  const customModels = useCustomModels(workspaceId);
+  const agentModels = useMemo(
+    () => [...availableModels, ...customModels.modelNames],
+    [availableModels, customModels.modelNames]
+  );
 
   // Fetch models on mount
   useEffect(() => {
@@ -1152,7 +1216,11 @@ function useAgentDetailState({
           setImageModels(imageCapableModels);
           setModelCapabilities(capabilities);
           setModelName((current) =>
-            current && !resolvedModels.includes(current) ? null : current
+            current &&
+            !resolvedModels.includes(current) &&
+            !current.startsWith(CUSTOM_MODEL_PREFIX)
+              ? null
+              : current
           );
         }
       } catch (error) {
@@ -1258,6 +1326,7 @@ function useAgentDetailState({
   useSyncEnabledMcpServerToolNames(agent, setEnabledMcpServerToolNames);
   useSyncEnabledSkillIds(agent, setEnabledSkillIds);
   useSyncEnableMemorySearch(agent, setEnableMemorySearch);
+  useSyncMemoryPartitionByEndUser(agent, setMemoryPartitionByEndUser);
 
   const prevSummarizationPromptsRef = useRef(agent?.summarizationPrompts);
   useEffect(() => {
@@ -1775,8 +1844,10 @@ function useAgentDetailState({
     try {
       const updated = await updateAgent.mutateAsync({
         enableMemorySearch,
+        memoryPartitionByEndUser,
       });
       setEnableMemorySearch(updated.enableMemorySearch ?? false);
+      setMemoryPartitionByEndUser(updated.memoryPartitionByEndUser ?? false);
     } catch {
       // Error is handled by toast in the hook
     }
@@ -2172,10 +2243,9 @@ function useAgentDetailState({
   };
 
   const selectedModelName = modelName || defaultModel;
-  const selectedModelCapabilities = getModelCapabilities(
-    modelCapabilities,
-    selectedModelName
-  );
+  const selectedModelCapabilities =
+    customModels.capabilities[selectedModelName] ??
+    getModelCapabilities(modelCapabilities, selectedModelName);
   const modelCapabilityLabels = getCapabilityLabels(selectedModelCapabilities);
   const isToolCallingSupported = selectedModelCapabilities?.tool_calling === true;
   const rerankingCapabilityLabels = getCapabilityLabels(
@@ -2232,6 +2302,10 @@ function useAgentDetailState({
     setShowSlackModal,
     showDiscordModal,
     setShowDiscordModal,
+    showTeamsModal,
+    setShowTeamsModal,
+    showTelegramModal,
+    setShowTelegramModal,
     commandDialogState,
     setCommandDialogState,
     systemPromptRef,
@@ -2251,6 +2325,8 @@ function useAgentDetailState({
     enabledMcpServerToolNames,
     enableMemorySearch,
     setEnableMemorySearch,
+    memoryPartitionByEndUser,
+    setMemoryPartitionByEndUser,
     summarizationPrompts,
     memoryExtractionEnabled,
     setMemoryExtractionEnabled,
@@ -2310,6 +2386,7 @@ function useAgentDetailState({
     modelName,
     setModelName,
     availableModels,
+    agentModels,
     defaultModel,
     isLoadingModels,
     modelLoadError,
@@ -2593,6 +2670,12 @@ interface AgentDetailModalsProps {
   showDiscordModal: boolean;
   onCloseDiscordModal: () => void;
   onDiscordSuccess: () => void;
+  showTeamsModal: boolean;
+  onCloseTeamsModal: () => void;
+  onTeamsSuccess: () => void;
+  showTelegramModal: boolean;
+  onCloseTelegramModal: () => void;
+  onTelegramSuccess: () => void;
   commandDialogState: {
     integrationId: string;
     currentCommandName?: string;
@@ -2626,6 +2709,12 @@ const AgentDetailModals: FC<AgentDetailModalsProps> = ({
   showDiscordModal,
   onCloseDiscordModal,
   onDiscordSuccess,
+  showTeamsModal,
+  onCloseTeamsModal,
+  onTeamsSuccess,
+  showTelegramModal,
+  onCloseTelegramModal,
+  onTelegramSuccess,
   commandDialogState,
   onCloseCommandDialog,
   onCommandDialogSuccess,
@@ -2764,6 +2853,28 @@ const AgentDetailModals: FC<AgentDetailModalsProps> = ({
         </Suspense>
       )}
 
+      {showTeamsModal && (
+        <Suspense fallback={<LoadingScreen />}>
+          <TeamsConnectModal
+            workspaceId={workspaceId}
+            agentId={agentId}
+            onClose={onCloseTeamsModal}
+            onSuccess={onTeamsSuccess}
+          />
+        </Suspense>
+      )}
+
+      {showTelegramModal && (
+        <Suspense fallback={<LoadingScreen />}>
+          <TelegramConnectModal
+            workspaceId={workspaceId}
+            agentId={agentId}
+            onClose={onCloseTelegramModal}
+            onSuccess={onTelegramSuccess}
+          />
+        </Suspense>
+      )}
+
       {commandDialogState && (
         <Suspense fallback={<LoadingScreen />}>
           <DiscordCommandDialog
@@ -2780,6 +2891,7 @@ const AgentDetailModals: FC<AgentDetailModalsProps> = ({
 };
 
 interface AgentOverviewCardProps {
+  workspaceId: string;
   agent: NonNullable<AgentDetailContentProps["agent"]>;
   canEdit: boolean;
   isEditing: boolean;
@@ -2806,6 +2918,7 @@ interface AgentOverviewCardProps {
 }
 
 const AgentOverviewCard: FC<AgentOverviewCardProps> = ({
+  workspaceId,
   agent,
   canEdit,
   isEditing,
@@ -2968,6 +3081,15 @@ const AgentOverviewCard: FC<AgentOverviewCardProps> = ({
             </button>
           )}
         </div>
+        <AgentFallbackModels
+          workspaceId={workspaceId}
+          agentId={agent.id}
+          fallbackModelNames={agent.fallbackModelNames ?? []}
+          primaryModelName={modelName || defaultModel}
+          availableModels={availableModels}
+          isLoadingModels={isLoadingModels}
+          isEditing={isEditing}
+        />
         <p className="mt-2 text-xs text-neutral-500 dark:text-neutral-400">
           The provider is the company that runs the model. The model is the
           specific AI engine your assistant uses.
@@ -3248,6 +3370,10 @@ const AgentDetailContent: FC<AgentDetailContentProps> = (props) => {
     setShowSlackModal,
     showDiscordModal,
     setShowDiscordModal,
+    showTeamsModal,
+    setShowTeamsModal,
+    showTelegramModal,
+    setShowTelegramModal,
     commandDialogState,
     setCommandDialogState,
     systemPromptRef,
@@ -3268,6 +3394,8 @@ const AgentDetailContent: FC<AgentDetailContentProps> = (props) => {
     isLoadingMcpServerTools,
     enableMemorySearch,
     setEnableMemorySearch,
+    memoryPartitionByEndUser,
+    setMemoryPartitionByEndUser,
     summarizationPrompts,
     memoryExtractionEnabled,
     setMemoryExtractionEnabled,
@@ -3326,6 +3454,7 @@ const AgentDetailContent: FC<AgentDetailContentProps> = (props) => {
     modelName,
     setModelName,
     availableModels,
+    agentModels,
     defaultModel,
     isLoadingModels,
     modelLoadError,
@@ -3424,6 +3553,9 @@ const AgentDetailContent: FC<AgentDetailContentProps> = (props) => {
           ...(enableSearchDocuments
             ? [{ id: "document-search", label: "Document search tool" }]
             : []),
+          ...(canEdit
+            ? [{ id: "document-access", label: "Document access" }]
+            : []),
         ],
       },
       {
@@ -3480,8 +3612,10 @@ const AgentDetailContent: FC<AgentDetailContentProps> = (props) => {
           ...(canEdit
             ? [{ id: "spending-limits", label: "Spending limits" }]
             : []),
+          { id: "tool-approvals", label: "Tool approvals" },
           { id: "usage", label: "Assistant usage" },
           { id: "transactions", label: "Payment history" },
+          { id: "version-history", label: "Version history" },
         ],
       },
       {
@@ -3515,13 +3649,14 @@ const AgentDetailContent: FC<AgentDetailContentProps> = (props) => {
       >
         <div className="mx-auto w-full max-w-6xl">
         <AgentOverviewCard
+          workspaceId={workspaceId}
           agent={agent}
           canEdit={canEdit}
           isEditing={isEditing}
           isLoadingModels={isLoadingModels}
           modelName={modelName}
           defaultModel={defaultModel}
-          availableModels={availableModels}
+          availableModels={agentModels}
           modelLoadError={modelLoadError}
           capabilityLabels={modelCapabilityLabels}
           isToolCallingSupported={isToolCallingSupported}
@@ -3637,10 +3772,10 @@ const AgentDetailContent: FC<AgentDetailContentProps> = (props) => {
                           >
                             {isLoadingModels ? (
                               <option value="">Loading...</option>
-                            ) : availableModels.length === 0 ? (
+                            ) : agentModels.length === 0 ? (
                               <option value="">No models available</option>
                             ) : (
-                              availableModels.map((model) => (
+                              agentModels.map((model) => (
                                 <option key={model} value={model}>
                                   {model}
                                 </option>
@@ -4028,6 +4163,22 @@ const AgentDetailContent: FC<AgentDetailContentProps> = (props) => {
                     onConversationOpen={setSelectedConversationId}
                   />
                 </div>
+                <div>
+                  <h3 className="mb-4 text-lg font-semibold text-neutral-900 dark:text-neutral-50">
+                    Test Datasets
+                  </h3>
+                  <EvalDatasetList
+                    workspaceId={workspaceId}
+                    agentId={agentId}
+                    canEdit={canEdit}
+                  />
+                </div>
+                <div>
+                  <h3 className="mb-4 text-lg font-semibold text-neutral-900 dark:text-neutral-50">
+                    Test Runs
+                  </h3>
+                  <EvalRunList workspaceId={workspaceId} agentId={agentId} />
+                </div>
               </div>
             </QueryPanel>
           </AgentAccordionSection>
@@ -4292,7 +4443,7 @@ const AgentDetailContent: FC<AgentDetailContentProps> = (props) => {
                     and recall information from all conversations, which could
                     expose sensitive information across different user
                     sessions. Only enable this if you understand the privacy
-                    implications.
+                    implications, or keep memory per end user below.
                   </p>
                 </div>
                 <label className="flex cursor-pointer items-start gap-3 rounded-lg border border-neutral-200 p-4 transition-colors hover:bg-neutral-50 dark:border-neutral-700 dark:bg-surface-100">
@@ -4310,6 +4461,34 @@ const AgentDetailContent: FC<AgentDetailContentProps> = (props) => {
                     </div>
                   </div>
                 </label>
+                <label className="flex cursor-pointer items-start gap-3 rounded-lg border border-neutral-200 p-4 transition-colors hover:bg-neutral-50 dark:border-neutral-700 dark:bg-surface-100">
+                  <input
+                    type="checkbox"
+                    checked={memoryPartitionByEndUser}
+                    onChange={(e) =>
+                      setMemoryPartitionByEndUser(e.target.checked)
+                    }
+                    className="mt-1 rounded border-2 border-neutral-300"
+                  />
+                  <div className="flex-1">
+                    <div className="font-bold">Keep Memory Per End User</div>
+                    <div className="mt-1 text-sm opacity-75 dark:text-neutral-300">
+                      Store what the agent learns from each end user (widget
+                      userId, Slack or Discord user, X-End-User-Id header)
+                      separately. Memory search and knowledge injection only
+                      see the current end user&apos;s memory plus the
+                      agent-wide memory.
+                    </div>
+                    <div className="mt-2 text-sm text-yellow-800 dark:text-yellow-300">
+                      Widget and stream requests must sign the end-user ID on
+                      your server with one of the agent&apos;s webhook keys
+                      (X-End-User-Signature: &quot;sha256=&quot; + hex
+                      HMAC-SHA256 of the ID; widget option userIdSignature).
+                      Unsigned IDs are rejected. Webhook requests are trusted
+                      since they carry the key.
+                    </div>
+                  </div>
+                </label>
                 <button
                   onClick={handleSaveMemorySearch}
                   disabled={updateAgent.isPending}
@@ -4317,7 +4496,7 @@ const AgentDetailContent: FC<AgentDetailContentProps> = (props) => {
                 >
                   {updateAgent.isPending
                     ? "Saving..."
-                    : "Save Memory Search Setting"}
+                    : "Save Memory Search Settings"}
                 </button>
               </div>
             </AgentAccordionSection>
@@ -4615,6 +4794,28 @@ const AgentDetailContent: FC<AgentDetailContentProps> = (props) => {
             </AgentAccordionSection>
           )}
 
+          {/* Document Access Section */}
+          {canEdit && (
+            <AgentAccordionSection
+              id="document-access"
+              title={
+                <>
+                  <FolderIcon className="mr-2 inline-block size-5" />
+                  DOCUMENT ACCESS
+                </>
+              }
+              expandedSection={expandedSection}
+              onToggle={toggleSection}
+            >
+              <AgentDocumentAccess
+                workspaceId={workspaceId}
+                agentId={agentId}
+                folderPaths={agent?.knowledgeFolderPaths ?? null}
+                tags={agent?.knowledgeTags ?? null}
+              />
+            </AgentAccordionSection>
+          )}
+
           {/* Document Search Tool Section */}
           {canEdit && (
             <AgentAccordionSection
@@ -4631,7 +4832,9 @@ const AgentDetailContent: FC<AgentDetailContentProps> = (props) => {
                 <div className="space-y-4">
                   <p className="text-sm opacity-75 dark:text-neutral-300">
                     Enable the document search tool to allow this agent to
-                    search workspace documents using semantic vector search.
+                    search workspace documents. It combines keyword matching
+                    for exact terms (product codes, error messages, names) with
+                    semantic search for related concepts.
                   </p>
                   <label className="flex cursor-pointer items-start gap-3 rounded-lg border border-neutral-200 p-4 transition-colors hover:bg-neutral-50 dark:border-neutral-700 dark:bg-surface-100">
                     <input
@@ -6329,6 +6532,32 @@ const AgentDetailContent: FC<AgentDetailContentProps> = (props) => {
                           />
                         </div>
 
+                        <div className="flex items-center justify-between rounded-lg border border-neutral-200 bg-white p-3 dark:border-neutral-800 dark:bg-surface-50">
+                          <div>
+                            <label
+                              htmlFor="widget-feedback-toggle"
+                              className="text-xs font-medium"
+                            >
+                              Feedback Buttons
+                            </label>
+                            <p className="text-xs opacity-75">
+                              Let users rate replies with thumbs up or down
+                            </p>
+                          </div>
+                          <input
+                            id="widget-feedback-toggle"
+                            type="checkbox"
+                            checked={widgetCustomization.enableFeedback !== false}
+                            onChange={(e) =>
+                              setWidgetCustomization({
+                                ...widgetCustomization,
+                                enableFeedback: e.target.checked,
+                              })
+                            }
+                            className="size-5 rounded border-neutral-300 text-blue-600 focus:ring-blue-500 dark:border-neutral-700"
+                          />
+                        </div>
+
                           </>
                         ))()}
                       </div>
@@ -6731,6 +6960,9 @@ const AgentDetailContent: FC<AgentDetailContentProps> = (props) => {
                           widgetCustomization.fontFamily ? `    fontFamily: "${widgetCustomization.fontFamily}",` : null,
                           widgetCustomization.fontSize ? `    fontSize: "${widgetCustomization.fontSize}",` : null,
                           widgetCustomization.enableFileUpload === false ? `    enableFileUpload: false,` : null,
+                          widgetCustomization.enableFeedback === false ? `    enableFeedback: false,` : null,
+                          agent?.memoryPartitionByEndUser ? `    userId: "YOUR_USER_ID", // ID of the signed-in user; the agent keeps a separate memory per user` : null,
+                          agent?.memoryPartitionByEndUser ? `    userIdSignature: "YOUR_USER_ID_SIGNATURE", // "sha256=" + hex HMAC-SHA256 of userId with a webhook key, computed on your server` : null,
                         ].filter(Boolean).join("\n");
                         
                         const embedCode = `<!-- Create a container for the widget -->
@@ -6875,6 +7107,9 @@ body {
                               if (widgetCustomization.enableFileUpload === false) {
                                 params.set("enableFileUpload", "false");
                               }
+                              if (widgetCustomization.enableFeedback === false) {
+                                params.set("enableFeedback", "false");
+                              }
                               const previewParams = widgetPreviewSettingsToSearchParams(
                                 widgetPreviewSettings
                               );
@@ -7308,12 +7543,13 @@ body {
             onToggle={toggleSection}
           >
               <p className="mb-4 text-sm opacity-75 dark:text-neutral-300">
-                Connect this agent to Slack or Discord bots to make it available
+                Connect this agent to Slack, Discord, Microsoft Teams or
+                Telegram bots to make it available
                 to your team or community. Each integration creates a bot that
                 responds to messages in the connected platform.
               </p>
               {canEdit && (
-                <div className="mb-4 flex gap-2">
+                <div className="mb-4 flex flex-wrap gap-2">
                   <button
                     onClick={() => setShowSlackModal(true)}
                     className="rounded-xl bg-gradient-primary px-4 py-2.5 font-semibold text-white transition-all duration-200 hover:shadow-colored"
@@ -7326,13 +7562,25 @@ body {
                   >
                     ✨ Connect to Discord
                   </button>
+                  <button
+                    onClick={() => setShowTeamsModal(true)}
+                    className="rounded-xl bg-violet-600 px-4 py-2.5 font-semibold text-white transition-all duration-200 hover:bg-violet-700"
+                  >
+                    ✨ Connect to Teams
+                  </button>
+                  <button
+                    onClick={() => setShowTelegramModal(true)}
+                    className="rounded-xl bg-sky-600 px-4 py-2.5 font-semibold text-white transition-all duration-200 hover:bg-sky-700"
+                  >
+                    ✨ Connect to Telegram
+                  </button>
                 </div>
               )}
 
               {agentIntegrations.length === 0 ? (
                 <p className="text-sm opacity-75 dark:text-neutral-300">
-                  No bot integrations yet. Connect to Slack or Discord to get
-                  started.
+                  No bot integrations yet. Connect to Slack, Discord, Teams or
+                  Telegram to get started.
                 </p>
               ) : (
                 <ScrollContainer
@@ -7390,6 +7638,66 @@ body {
             </AgentAccordionSection>
           )}
 
+          {/* Tool Approvals Section */}
+          <AgentAccordionSection
+            id="tool-approvals"
+            title={
+              <>
+                <ShieldCheckIcon className="mr-2 inline-block size-5" />
+                TOOL APPROVALS
+              </>
+            }
+            expandedSection={expandedSection}
+            onToggle={toggleSection}
+          >
+            <p className="mb-4 text-sm text-neutral-600 dark:text-neutral-300">
+              Calls of the selected tools wait for a workspace member&apos;s
+              approval. The agent pauses with the proposed arguments, the
+              request is posted to the notification channel, and the
+              conversation continues once the call is approved (optionally with
+              edited arguments), rejected or timed out.
+            </p>
+            {canEdit && (
+              <div className="mb-6">
+                <AgentToolApprovalSettings
+                  workspaceId={workspaceId}
+                  agentId={agentId}
+                  toolApproval={agent.toolApproval ?? null}
+                  mcpServers={(mcpServersData?.servers ?? [])
+                    .filter((server) =>
+                      agent.enabledMcpServerIds?.includes(server.id)
+                    )
+                    .map((server) => {
+                      const allowedToolNames =
+                        agent.enabledMcpServerToolNames?.[server.id];
+                      return {
+                        id: server.id,
+                        name: server.name,
+                        toolNames: getMcpServerToolsForServer(server.id)
+                          .map((tool) => tool.name)
+                          .filter(
+                            (toolName) =>
+                              !allowedToolNames ||
+                              allowedToolNames.includes(toolName)
+                          ),
+                      };
+                    })}
+                />
+              </div>
+            )}
+            <QueryPanel
+              fallback={
+                <LoadingScreen compact message="Loading approval requests..." />
+              }
+            >
+              <ToolApprovalList
+                workspaceId={workspaceId}
+                agentId={agentId}
+                canEdit={!!canEdit}
+              />
+            </QueryPanel>
+          </AgentAccordionSection>
+
           {/* Usage Section */}
           <AgentAccordionSection
             id="usage"
@@ -7425,6 +7733,36 @@ body {
               <TransactionTable workspaceId={workspaceId} agentId={agentId} />
             </QueryPanel>
           </AgentAccordionSection>
+
+          {/* Version History Section */}
+          <AgentAccordionSection
+            id="version-history"
+            title={
+              <>
+                <ClockIcon className="mr-2 inline-block size-5" />
+                VERSION HISTORY
+              </>
+            }
+            expandedSection={expandedSection}
+            onToggle={toggleSection}
+          >
+            <p className="mb-4 text-sm text-neutral-600 dark:text-neutral-300">
+              Every change to this agent&apos;s configuration is recorded as a
+              version. Select a version to see what changed, and restore it to
+              undo later changes.
+            </p>
+            <QueryPanel
+              fallback={
+                <LoadingScreen compact message="Loading version history..." />
+              }
+            >
+              <AgentVersionHistory
+                workspaceId={workspaceId}
+                agentId={agentId}
+                canEdit={!!canEdit}
+              />
+            </QueryPanel>
+          </AgentAccordionSection>
         </SectionGroup>
 
         <SectionGroup
@@ -7501,6 +7839,22 @@ body {
             });
             setShowDiscordModal(false);
           }}
+          showTeamsModal={showTeamsModal}
+          onCloseTeamsModal={() => setShowTeamsModal(false)}
+          onTeamsSuccess={() => {
+            queryClient.invalidateQueries({
+              queryKey: ["integrations", workspaceId],
+            });
+            setShowTeamsModal(false);
+          }}
+          showTelegramModal={showTelegramModal}
+          onCloseTelegramModal={() => setShowTelegramModal(false)}
+          onTelegramSuccess={() => {
+            queryClient.invalidateQueries({
+              queryKey: ["integrations", workspaceId],
+            });
+            setShowTelegramModal(false);
+          }}
           commandDialogState={commandDialogState}
           onCloseCommandDialog={() => setCommandDialogState(null)}
           onCommandDialogSuccess={handleCommandDialogSuccess}
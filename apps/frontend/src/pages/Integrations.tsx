@@ -9,6 +9,8 @@ import { IntegrationCard } from "../components/IntegrationCard";
 import { LoadingScreen } from "../components/LoadingScreen";
 import { ScrollContainer } from "../components/ScrollContainer";
 import { SlackConnectModal } from "../components/SlackConnectModal";
+import { TeamsConnectModal } from "../components/TeamsConnectModal";
+import { TelegramConnectModal } from "../components/TelegramConnectModal";
 import { VirtualList } from "../components/VirtualList";
 import { useToast } from "../hooks/useToast";
 import {
@@ -22,6 +24,8 @@ const Integrations: FC = () => {
   const { workspaceId } = useParams<{ workspaceId: string }>();
   const [showSlackModal, setShowSlackModal] = useState(false);
   const [showDiscordModal, setShowDiscordModal] = useState(false);
+  const [showTeamsModal, setShowTeamsModal] = useState(false);
+  const [showTelegramModal, setShowTelegramModal] = useState(false);
   const [commandDialogState, setCommandDialogState] = useState<{
     integrationId: string;
     currentCommandName?: string;
@@ -160,11 +164,11 @@ const Integrations: FC = () => {
             Integrations
           </h1>
           <p className="mt-2 text-neutral-600 dark:text-neutral-400">
-            Connect your agents to Slack or Discord so they can respond in
-            your channels.
+            Connect your agents to Slack, Discord, Microsoft Teams or Telegram
+            so they can respond in your channels.
           </p>
         </div>
-        <div className="flex gap-2">
+        <div className="flex flex-wrap justify-end gap-2">
           <button
             onClick={() => {
               trackEvent("slack_connect_modal_opened", {
@@ -187,6 +191,28 @@ const Integrations: FC = () => {
           >
             Connect Discord
           </button>
+          <button
+            onClick={() => {
+              trackEvent("teams_connect_modal_opened", {
+                workspace_id: workspaceId,
+              });
+              setShowTeamsModal(true);
+            }}
+            className="rounded-md bg-violet-600 px-4 py-2 font-medium text-white hover:bg-violet-700"
+          >
+            Connect Teams
+          </button>
+          <button
+            onClick={() => {
+              trackEvent("telegram_connect_modal_opened", {
+                workspace_id: workspaceId,
+              });
+              setShowTelegramModal(true);
+            }}
+            className="rounded-md bg-sky-600 px-4 py-2 font-medium text-white hover:bg-sky-700"
+          >
+            Connect Telegram
+          </button>
         </div>
       </div>
 
@@ -212,8 +238,8 @@ const Integrations: FC = () => {
           empty={
             <div className="rounded-lg border border-neutral-200 bg-white p-12 text-center dark:border-neutral-700 dark:bg-surface-50">
               <p className="text-neutral-600 dark:text-neutral-400">
-                No integrations yet. Connect Slack or Discord to let your agent
-                reply there.
+                No integrations yet. Connect Slack, Discord, Teams or Telegram
+                to let your agent reply there.
               </p>
             </div>
           }
@@ -240,6 +266,26 @@ const Integrations: FC = () => {
         />
       )}
 
+      {showTeamsModal && (
+        <TeamsConnectModal
+          workspaceId={workspaceId}
+          onClose={() => setShowTeamsModal(false)}
+          onSuccess={() => {
+            queryClient.invalidateQueries({ queryKey: ["integrations", workspaceId] });
+          }}
+        />
+      )}
+
+      {showTelegramModal && (
+        <TelegramConnectModal
+          workspaceId={workspaceId}
+          onClose={() => setShowTelegramModal(false)}
+          onSuccess={() => {
+            queryClient.invalidateQueries({ queryKey: ["integrations", workspaceId] });
+          }}
+        />
+      )}
+
       {commandDialogState && (
         <DiscordCommandDialog
           workspaceId={workspaceId}
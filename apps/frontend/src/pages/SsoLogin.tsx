@@ -0,0 +1,71 @@
+import { signIn } from "next-auth/react";
+import { useEffect, useRef, useState, type FC } from "react";
+import { useSearchParams } from "react-router-dom";
+
+/**
+ * Landing page for single sign-on: the backend redirects here after the identity
+ * provider callback with either a one-time login token or an error message.
+ */
+const SsoLogin: FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const callbackUrl = searchParams.get("callbackUrl") || "/";
+  const [error, setError] = useState<string | null>(
+    searchParams.get("error") ||
+      (token ? null : "Invalid sign-in link. Please try again.")
+  );
+  const signingIn = useRef(false);
+
+  useEffect(() => {
+    if (!token || signingIn.current) {
+      return;
+    }
+    // Avoid submitting the token twice when effects run twice in StrictMode
+    signingIn.current = true;
+    signIn("sso", { token, redirect: false })
+      .then((result) => {
+        if (result?.ok && !result.error) {
+          window.location.href = callbackUrl;
+        } else {
+          setError(
+            "Single sign-on failed. Your account may not be allowed to sign in."
+          );
+        }
+      })
+      .catch(() => {
+        setError("Single sign-on failed. Please check your connection.");
+      });
+  }, [token, callbackUrl]);
+
+  return (
+    <div className="bg-page relative flex min-h-screen items-center justify-center overflow-hidden p-4">
+      <div className="pointer-events-none absolute inset-0 bg-[radial-gradient(circle_at_30%_20%,rgba(13,148,136,0.08),transparent_50%)] dark:bg-[radial-gradient(circle_at_30%_20%,rgba(13,148,136,0.15),transparent_50%)]"></div>
+      <div className="pointer-events-none absolute inset-0 bg-[radial-gradient(circle_at_70%_80%,rgba(124,58,237,0.08),transparent_50%)] dark:bg-[radial-gradient(circle_at_70%_80%,rgba(124,58,237,0.15),transparent_50%)]"></div>
+
+      <div className="relative z-10 w-full max-w-md rounded-2xl border border-neutral-200 bg-white/90 p-10 shadow-large backdrop-blur-sm dark:border-neutral-700 dark:bg-surface-50/90">
+        <h1 className="mb-3 text-3xl font-bold text-neutral-900 dark:text-neutral-50">
+          Single sign-on
+        </h1>
+        {error ? (
+          <>
+            <div className="mb-6 rounded-xl border border-error-300 bg-error-100 p-3 text-sm text-error-900 dark:border-error-600 dark:bg-error-900 dark:text-error-100">
+              {error}
+            </div>
+            <a
+              href="/"
+              className="inline-block rounded-xl bg-gradient-primary px-4 py-3 font-semibold text-white transition-all duration-200 hover:shadow-colored"
+            >
+              Back to sign in
+            </a>
+          </>
+        ) : (
+          <p className="text-sm text-neutral-600 dark:text-neutral-300">
+            Signing you in...
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SsoLogin;
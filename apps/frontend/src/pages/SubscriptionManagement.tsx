@@ -7,6 +7,7 @@ import { useSearchParams } from "react-router-dom";
 import { LoadingScreen } from "../components/LoadingScreen";
 import { PlanComparison } from "../components/PlanComparison";
 import { ScrollContainer } from "../components/ScrollContainer";
+import { SsoSettings } from "../components/SsoSettings";
 import {
   useSubscription,
   useUserByEmail,
@@ -786,6 +787,13 @@ const SubscriptionManagement: FC = () => {
             </form>
           </div>
         )}
+
+        <div className="mt-8 rounded-2xl border border-neutral-200 bg-white p-8 shadow-medium dark:border-neutral-700 dark:bg-surface-50">
+          <h2 className="mb-6 text-2xl font-semibold text-neutral-900 dark:text-neutral-50">
+            Single sign-on
+          </h2>
+          <SsoSettings />
+        </div>
       </div>
     </div>
   );
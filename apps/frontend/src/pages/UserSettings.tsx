@@ -5,6 +5,7 @@ import { Link } from "react-router-dom";
 import { BrandName } from "../components/BrandName";
 import { LoadingScreen } from "../components/LoadingScreen";
 import { ScrollContainer } from "../components/ScrollContainer";
+import { UserApiKeyScopeFields } from "../components/UserApiKeyScopeFields";
 import { useEscapeKey } from "../hooks/useEscapeKey";
 import { useToast } from "../hooks/useToast";
 import {
@@ -12,7 +13,14 @@ import {
   useCreateUserApiKey,
   useDeleteUserApiKey,
 } from "../hooks/useUserApiKeys";
+import type { UserApiKey } from "../utils/api";
 import { trackEvent } from "../utils/tracking";
+import {
+  EMPTY_USER_API_KEY_SCOPE,
+  toUserApiKeyScopeInput,
+  USER_API_KEY_CAPABILITY_LABELS,
+  type UserApiKeyScopeForm,
+} from "../utils/userApiKeyScope";
 
 // Lazy load SubscriptionPanel
 const SubscriptionPanel = lazy(() =>
@@ -28,6 +36,9 @@ const UserSettings: FC = () => {
   const createApiKeyMutation = useCreateUserApiKey();
   const deleteApiKeyMutation = useDeleteUserApiKey();
   const [newKeyName, setNewKeyName] = useState("");
+  const [newKeyScope, setNewKeyScope] = useState<UserApiKeyScopeForm>(
+    EMPTY_USER_API_KEY_SCOPE
+  );
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [isPasskeyLoading, setIsPasskeyLoading] = useState(false);
   const [newlyCreatedKey, setNewlyCreatedKey] = useState<{
@@ -42,6 +53,7 @@ const UserSettings: FC = () => {
     try {
       const result = await createApiKeyMutation.mutateAsync({
         name: newKeyName.trim() || undefined,
+        ...toUserApiKeyScopeInput(newKeyScope),
       });
       trackEvent("user_api_key_created", {
         key_id: result.id,
@@ -52,6 +64,7 @@ const UserSettings: FC = () => {
         name: result.name,
       });
       setNewKeyName("");
+      setNewKeyScope(EMPTY_USER_API_KEY_SCOPE);
       setShowCreateModal(false);
     } catch {
       // Error is handled by the mutation
@@ -92,10 +105,27 @@ const UserSettings: FC = () => {
     });
   };
 
-  useEscapeKey(showCreateModal, () => {
+  const describeKeyScope = (key: UserApiKey) => {
+    const workspaces = key.workspaceIds
+      ? `${key.workspaceIds.length} workspace${
+          key.workspaceIds.length === 1 ? "" : "s"
+        }`
+      : "All workspaces";
+    const capabilities = key.capabilities
+      ? key.capabilities
+          .map((capability) => USER_API_KEY_CAPABILITY_LABELS[capability])
+          .join(", ")
+      : "Full access";
+    return `${workspaces} · ${capabilities}`;
+  };
+
+  const closeCreateModal = () => {
     setShowCreateModal(false);
     setNewKeyName("");
-  });
+    setNewKeyScope(EMPTY_USER_API_KEY_SCOPE);
+  };
+
+  useEscapeKey(showCreateModal, closeCreateModal);
 
   useEscapeKey(!!newlyCreatedKey, () => setNewlyCreatedKey(null));
 
@@ -218,9 +248,31 @@ const UserSettings: FC = () => {
                           </span>
                         </div>
                         <div className="space-y-1 text-sm text-neutral-600">
+                          <p>{describeKeyScope(key)}</p>
+                          {key.allowedIps && (
+                            <p>Allowed IPs: {key.allowedIps.join(", ")}</p>
+                          )}
                           <p>Created: {formatDate(key.createdAt)}</p>
+                          {key.expiresAt && (
+                            <p
+                              className={
+                                new Date(key.expiresAt) < new Date()
+                                  ? "text-error-600"
+                                  : undefined
+                              }
+                            >
+                              {new Date(key.expiresAt) < new Date()
+                                ? "Expired"
+                                : "Expires"}
+                              : {formatDate(key.expiresAt)}
+                            </p>
+                          )}
                           {key.lastUsedAt && (
-                            <p>Last used: {formatDate(key.lastUsedAt)}</p>
+                            <p>
+                              Last used: {formatDate(key.lastUsedAt)} (
+                              {key.requestCount} request
+                              {key.requestCount === 1 ? "" : "s"})
+                            </p>
                           )}
                           {!key.lastUsedAt && (
                             <p className="italic text-neutral-400">Never used</p>
@@ -248,7 +300,7 @@ const UserSettings: FC = () => {
       {/* Create Key Modal */}
       {showCreateModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
-          <div className="w-full max-w-md rounded-2xl bg-white p-8 shadow-large dark:border-neutral-700 dark:bg-surface-50">
+          <div className="max-h-[90vh] w-full max-w-md overflow-y-auto rounded-2xl bg-white p-8 shadow-large dark:border-neutral-700 dark:bg-surface-50">
             <h2 className="mb-4 text-2xl font-bold text-neutral-900 dark:text-neutral-50">
               Create a new API key
             </h2>
@@ -272,13 +324,16 @@ const UserSettings: FC = () => {
                   Use a name that helps you remember where it&apos;s used.
                 </p>
               </div>
+              <div className="mb-6">
+                <UserApiKeyScopeFields
+                  value={newKeyScope}
+                  onChange={setNewKeyScope}
+                />
+              </div>
               <div className="flex gap-3">
                 <button
                   type="button"
-                  onClick={() => {
-                    setShowCreateModal(false);
-                    setNewKeyName("");
-                  }}
+                  onClick={closeCreateModal}
                   className="flex-1 rounded-xl border border-neutral-300 px-4 py-2 font-medium text-neutral-700 transition-colors hover:bg-neutral-50 dark:border-neutral-700 dark:text-neutral-50 dark:hover:bg-neutral-800"
                 >
                   Cancel
@@ -29,6 +29,7 @@ declare global {
         fontFamily?: string;
         fontSize?: string;
         enableFileUpload?: boolean;
+        enableFeedback?: boolean;
         tools?: Record<string, (...args: unknown[]) => Promise<unknown>>;
         baseUrl?: string;
         containerId: string;
@@ -216,6 +217,8 @@ const WidgetPreview: FC = () => {
             searchParams.get("enableFileUpload") === "false"
               ? false
               : undefined;
+          const enableFeedback =
+            searchParams.get("enableFeedback") === "false" ? false : undefined;
 
           window.AgentWidget.init({
             apiKey: widgetKey.key!,
@@ -233,6 +236,7 @@ const WidgetPreview: FC = () => {
             fontFamily,
             fontSize,
             enableFileUpload,
+            enableFeedback,
             baseUrl: window.location.origin,
             containerId,
           });
@@ -12,9 +12,12 @@ import {
   ArrowTrendingDownIcon,
   ChartBarIcon,
   KeyIcon,
+  MagnifyingGlassIcon,
   UsersIcon,
   ExclamationTriangleIcon,
   ArrowDownTrayIcon,
+  ClipboardDocumentListIcon,
+  ServerStackIcon,
 } from "@heroicons/react/24/outline";
 import { useQueryErrorResetBoundary } from "@tanstack/react-query";
 import { useState, Suspense, lazy, useEffect, useRef, useMemo } from "react";
@@ -86,6 +89,11 @@ const McpServerList = lazy(() =>
     default: module.McpServerList,
   }))
 );
+const ModelEndpointList = lazy(() =>
+  import("../components/ModelEndpointList").then((module) => ({
+    default: module.ModelEndpointList,
+  }))
+);
 const SpendingLimitsManager = lazy(() =>
   import("../components/SpendingLimitsManager").then((module) => ({
     default: module.SpendingLimitsManager,
@@ -101,6 +109,11 @@ const TransactionTable = lazy(() =>
     default: module.TransactionTable,
   }))
 );
+const AuditLogTable = lazy(() =>
+  import("../components/AuditLogTable").then((module) => ({
+    default: module.AuditLogTable,
+  }))
+);
 const TeamMembers = lazy(() =>
   import("../components/TeamMembers").then((module) => ({
     default: module.TeamMembers,
@@ -111,6 +124,11 @@ const InviteMember = lazy(() =>
     default: module.InviteMember,
   }))
 );
+const WorkspaceConversations = lazy(() =>
+  import("../components/WorkspaceConversations").then((module) => ({
+    default: module.WorkspaceConversations,
+  }))
+);
 const AgentChatWithFunctionUrl = lazy(() =>
   import("../components/AgentChatWithFunctionUrl").then((module) => ({
     default: module.AgentChatWithFunctionUrl,
@@ -380,6 +398,7 @@ const WorkspaceDetailContent: FC<WorkspaceDetailContentProps> = ({
         title: "Messages & channels",
         icon: <ChatBubbleLeftRightIcon className="size-5" />,
         children: [
+          { id: "conversations", label: "Conversations" },
           { id: "channels", label: "Message channels" },
           { id: "email-connection", label: "Email connection" },
         ],
@@ -392,6 +411,7 @@ const WorkspaceDetailContent: FC<WorkspaceDetailContentProps> = ({
             ? [
                 { id: "mcp-servers", label: "Connected tools" },
                 { id: "api-key", label: "Bring your AI Provider Key" },
+                { id: "model-endpoints", label: "Custom model endpoints" },
               ]
             : []),
         ],
@@ -411,7 +431,12 @@ const WorkspaceDetailContent: FC<WorkspaceDetailContentProps> = ({
         icon: <UsersIcon className="size-5" />,
         children: [
           { id: "team", label: "Team members" },
-          ...(canDelete ? [{ id: "danger", label: "Delete workspace" }] : []),
+          ...(canDelete
+            ? [
+                { id: "audit-log", label: "Audit log" },
+                { id: "danger", label: "Delete workspace" },
+              ]
+            : []),
         ],
       },
     ];
@@ -812,6 +837,30 @@ const WorkspaceDetailContent: FC<WorkspaceDetailContentProps> = ({
             </>
           }
         >
+          <AccordionSection
+            id="conversations"
+            title={
+              <>
+                <MagnifyingGlassIcon className="mr-2 inline-block size-5" />
+                Conversations
+              </>
+            }
+            isExpanded={expandedSection === "conversations"}
+            onToggle={() => toggleSection("conversations")}
+          >
+            <LazyAccordionContent
+              isExpanded={expandedSection === "conversations"}
+            >
+              <QueryPanel
+                fallback={
+                  <LoadingScreen compact message="Loading conversations..." />
+                }
+              >
+                <WorkspaceConversations workspaceId={id!} />
+              </QueryPanel>
+            </LazyAccordionContent>
+          </AccordionSection>
+
           <AccordionSection
             id="channels"
             title={
@@ -906,6 +955,26 @@ const WorkspaceDetailContent: FC<WorkspaceDetailContentProps> = ({
               </LazyAccordionContent>
             </AccordionSection>
           )}
+
+          {canEdit && (
+            <AccordionSection
+              id="model-endpoints"
+              title={
+                <>
+                  <ServerStackIcon className="mr-2 inline-block size-5" />
+                  Custom model endpoints
+                </>
+              }
+              isExpanded={expandedSection === "model-endpoints"}
+              onToggle={() => toggleSection("model-endpoints")}
+            >
+              <LazyAccordionContent
+                isExpanded={expandedSection === "model-endpoints"}
+              >
+                <ModelEndpointList workspaceId={id!} canEdit={!!canEdit} />
+              </LazyAccordionContent>
+            </AccordionSection>
+          )}
         </SectionGroup>
 
         <SectionGroup
@@ -1093,6 +1162,30 @@ const WorkspaceDetailContent: FC<WorkspaceDetailContentProps> = ({
           </LazyAccordionContent>
         </AccordionSection>
 
+        {canDelete && (
+          <AccordionSection
+            id="audit-log"
+            title={
+              <>
+                <ClipboardDocumentListIcon className="mr-2 inline-block size-5" />
+                Audit log
+              </>
+            }
+            isExpanded={expandedSection === "audit-log"}
+            onToggle={() => toggleSection("audit-log")}
+          >
+            <LazyAccordionContent isExpanded={expandedSection === "audit-log"}>
+              <QueryPanel
+                fallback={
+                  <LoadingScreen compact message="Loading audit log..." />
+                }
+              >
+                <AuditLogTable workspaceId={id!} />
+              </QueryPanel>
+            </LazyAccordionContent>
+          </AccordionSection>
+        )}
+
         {canDelete && (
           <AccordionSection
             id="danger"
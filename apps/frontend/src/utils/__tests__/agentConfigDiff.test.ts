@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  diffLinesSideBySide,
+  formatAgentConfigValue,
+} from "../agentConfigDiff";
+
+describe("agentConfigDiff utilities", () => {
+  it("aligns unchanged, removed and added lines", () => {
+    expect(
+      diffLinesSideBySide(
+        "You are helpful.\nBe brief.",
+        "You are helpful.\nBe thorough.\nCite sources."
+      )
+    ).toEqual([
+      { before: "You are helpful.", after: "You are helpful.", changed: false },
+      { before: "Be brief.", after: null, changed: true },
+      { before: null, after: "Be thorough.", changed: true },
+      { before: null, after: "Cite sources.", changed: true },
+    ]);
+  });
+
+  it("treats an empty text as having no lines", () => {
+    expect(diffLinesSideBySide("", "New prompt")).toEqual([
+      { before: null, after: "New prompt", changed: true },
+    ]);
+  });
+
+  it("formats unset values and settings objects", () => {
+    expect(formatAgentConfigValue(null)).toBe("(not set)");
+    expect(formatAgentConfigValue({ enabled: true })).toBe(
+      '{\n  "enabled": true\n}'
+    );
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+
+import { formatTagList, parseTagList } from "../documentTags";
+
+describe("documentTags utilities", () => {
+  it("normalizes a comma-separated tag list", () => {
+    expect(parseTagList(" Public, onboarding,,public , HR ")).toEqual([
+      "public",
+      "onboarding",
+      "hr",
+    ]);
+    expect(parseTagList("  ")).toEqual([]);
+  });
+
+  it("formats tags for editing", () => {
+    expect(formatTagList(["public", "hr"])).toBe("public, hr");
+    expect(formatTagList(null)).toBe("");
+  });
+});
@@ -93,4 +93,13 @@ describe("scheduleCron utilities", () => {
       "Custom schedule (UTC)"
     );
   });
+
+  it("describes schedules in their timezone", () => {
+    expect(describeCronExpression("0 9 * * 1", "Europe/Lisbon")).toBe(
+      "Every week on Monday at 09:00 Europe/Lisbon"
+    );
+    expect(describeCronExpression("*/5 * * * *", "Europe/Lisbon")).toBe(
+      "Custom schedule (Europe/Lisbon)"
+    );
+  });
 });
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+
+import type { ToolApprovalRequest } from "../api";
+import {
+  buildToolApprovalAnswerMessage,
+  findWaitingToolApprovalIds,
+  toToolApprovalAnswer,
+} from "../toolApprovalAnswers";
+
+const pendingOutput = (approvalId: string) =>
+  `Approval required: this send_email call was NOT executed yet. A workspace member has to approve it first (approval request ${approvalId}, expires 2026-10-19T12:00:00.000Z). Do not call send_email again for the same action.`;
+
+describe("findWaitingToolApprovalIds", () => {
+  const messages = [
+    { id: "user-1", parts: [{ type: "text", text: "Email Bob" }] },
+    {
+      id: "assistant-1",
+      parts: [
+        {
+          type: "tool-send_email",
+          state: "output-available",
+          output: pendingOutput("approval-1"),
+        },
+        { type: "tool-search", state: "output-available", output: "Results" },
+        { type: "text", text: "The email is waiting for approval." },
+      ],
+    },
+  ];
+
+  it("finds approval requests of paused tool calls", () => {
+    expect(findWaitingToolApprovalIds(messages, new Set())).toEqual([
+      "approval-1",
+    ]);
+  });
+
+  it("skips settled requests", () => {
+    expect(
+      findWaitingToolApprovalIds(messages, new Set(["approval-1"]))
+    ).toEqual([]);
+  });
+
+  it("skips requests whose answer is already shown", () => {
+    expect(
+      findWaitingToolApprovalIds(
+        [...messages, buildToolApprovalAnswerMessage("approval-1", "Sent.")],
+        new Set()
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("toToolApprovalAnswer", () => {
+  const request = {
+    id: "approval-1",
+    status: "approved",
+    resultPreview: null,
+    answer: null,
+    error: null,
+  } as ToolApprovalRequest;
+
+  it("is not resumed until the run stored a result or an error", () => {
+    expect(toToolApprovalAnswer(request).resumed).toBe(false);
+    expect(
+      toToolApprovalAnswer({
+        ...request,
+        resultPreview: "Email sent",
+        answer: "I sent the email.",
+      })
+    ).toEqual({ id: "approval-1", resumed: true, answer: "I sent the email." });
+    expect(
+      toToolApprovalAnswer({ ...request, error: "Resume failed" }).resumed
+    ).toBe(true);
+  });
+});
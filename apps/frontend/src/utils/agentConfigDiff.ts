@@ -0,0 +1,76 @@
+import type { AgentConfigVersionSource } from "./api";
+
+export const AGENT_CONFIG_VERSION_SOURCE_LABELS: Record<
+  AgentConfigVersionSource,
+  string
+> = {
+  created: "Created",
+  baseline: "Before history",
+  updated: "Edited",
+  assistant: "Edited by assistant",
+  restored: "Restored",
+};
+
+export type SideBySideLine = {
+  before: string | null;
+  after: string | null;
+  changed: boolean;
+};
+
+/**
+ * Aligns two texts line by line for a side-by-side view. Lines only present on
+ * one side are paired with an empty cell. Uses a longest common subsequence,
+ * which is fine for prompt-sized texts.
+ */
+export function diffLinesSideBySide(
+  beforeText: string,
+  afterText: string
+): SideBySideLine[] {
+  const before = beforeText ? beforeText.split("\n") : [];
+  const after = afterText ? afterText.split("\n") : [];
+  const lengths: number[][] = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: SideBySideLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push({ before: before[i], after: after[j], changed: false });
+      i++;
+      j++;
+    } else if (
+      i < before.length &&
+      (j >= after.length || lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      lines.push({ before: before[i], after: null, changed: true });
+      i++;
+    } else {
+      lines.push({ before: null, after: after[j], changed: true });
+      j++;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Displays a configuration value (settings objects as indented JSON)
+ */
+export function formatAgentConfigValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "(not set)";
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  return JSON.stringify(value, null, 2);
+}
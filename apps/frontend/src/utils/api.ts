@@ -133,6 +133,8 @@ export interface ContextStats {
   /** Estimated tokens for injected knowledge (0 when disabled). */
   estimatedKnowledgeTokens?: number;
   maxSafeInputTokens: number;
+  /** Estimated input tokens above which older conversation turns are compacted into a summary. */
+  compactionThresholdTokens?: number;
   ratio: number;
   modelName: string;
 }
@@ -168,6 +170,7 @@ export interface Agent {
   memoryExtractionEnabled?: boolean;
   memoryExtractionModel?: string;
   memoryExtractionPrompt?: string;
+  memoryPartitionByEndUser?: boolean;
   notificationChannelId?: string;
   delegatableAgentIds?: string[];
   enabledMcpServerIds?: string[];
@@ -178,6 +181,8 @@ export interface Agent {
   enableKnowledgeInjection?: boolean;
   enableKnowledgeInjectionFromMemories?: boolean;
   enableKnowledgeInjectionFromDocuments?: boolean;
+  knowledgeFolderPaths?: string[] | null;
+  knowledgeTags?: string[] | null;
   knowledgeInjectionSnippetCount?: number;
   knowledgeInjectionMinSimilarity?: number;
   knowledgeInjectionEntityExtractorModel?: string;
@@ -198,8 +203,13 @@ export interface Agent {
   maxOutputTokens?: number;
   stopSequences?: string[];
   maxToolRoundtrips?: number;
+  outputSchema?: Record<string, unknown> | null;
   provider?: string;
   modelName?: string;
+  /** Models tried in order when the agent's model fails with a provider error */
+  fallbackModelNames?: string[];
+  /** Tools whose calls wait for a workspace member's approval */
+  toolApproval?: ToolApprovalPolicy | null;
   avatar?: string;
   widgetConfig?: {
     enabled: boolean;
@@ -229,6 +239,7 @@ export interface CreateAgentInput {
   memoryExtractionEnabled?: boolean;
   memoryExtractionModel?: string | null;
   memoryExtractionPrompt?: string | null;
+  memoryPartitionByEndUser?: boolean;
 }
 
 export interface UpdateAgentInput {
@@ -244,6 +255,8 @@ export interface UpdateAgentInput {
   enableKnowledgeInjection?: boolean;
   enableKnowledgeInjectionFromMemories?: boolean;
   enableKnowledgeInjectionFromDocuments?: boolean;
+  knowledgeFolderPaths?: string[] | null;
+  knowledgeTags?: string[] | null;
   knowledgeInjectionSnippetCount?: number;
   knowledgeInjectionMinSimilarity?: number;
   knowledgeInjectionEntityExtractorModel?: string | null;
@@ -261,6 +274,7 @@ export interface UpdateAgentInput {
   memoryExtractionEnabled?: boolean;
   memoryExtractionModel?: string | null;
   memoryExtractionPrompt?: string | null;
+  memoryPartitionByEndUser?: boolean;
   spendingLimits?: SpendingLimit[];
   temperature?: number | null;
   topP?: number | null;
@@ -268,8 +282,11 @@ export interface UpdateAgentInput {
   maxOutputTokens?: number | null;
   stopSequences?: string[] | null;
   maxToolRoundtrips?: number | null;
+  outputSchema?: Record<string, unknown> | null;
   provider?: string;
   modelName?: string | null;
+  fallbackModelNames?: string[] | null;
+  toolApproval?: ToolApprovalPolicy | null;
   avatar?: string | null;
   widgetConfig?: {
     enabled: boolean;
@@ -300,20 +317,26 @@ export interface Document {
   folderPath: string;
   contentType: string;
   size: number;
+  tags?: string[];
   createdAt: string;
   updatedAt?: string;
 }
 
 export interface DocumentWithContent extends Document {
   content: string;
+  /** True for PDF/DOCX/HTML/CSV documents: content is extracted text and read-only */
+  isExtracted?: boolean;
 }
 
+export type DocumentSearchMode = "vector" | "keyword" | "hybrid";
+
 export interface DocumentSearchResult {
   snippet: string;
   documentName: string;
   documentId: string;
   folderPath: string;
   similarity: number;
+  anchor?: string;
 }
 
 export interface CreateDocumentInput {
@@ -325,6 +348,7 @@ export interface UpdateDocumentInput {
   content?: string;
   name?: string;
   folderPath?: string;
+  tags?: string[];
 }
 
 export interface Channel {
@@ -335,8 +359,21 @@ export interface Channel {
   updatedAt?: string;
 }
 
+export interface EmailChannelConfig {
+  recipients: string[];
+  subjectTemplate?: string;
+  sender?: "workspace" | "system";
+}
+
+export interface HttpChannelConfig {
+  url: string;
+  headers?: Record<string, string>;
+  /** Signing secret; generated by the server when omitted on create */
+  secret?: string;
+}
+
 export interface CreateChannelInput {
-  type: "discord" | "slack";
+  type: "discord" | "slack" | "email" | "http";
   name: string;
   config:
     | {
@@ -345,14 +382,36 @@ export interface CreateChannelInput {
       }
     | {
         webhookUrl: string;
-      };
+      }
+    | EmailChannelConfig
+    | HttpChannelConfig;
+}
+
+export interface CreateChannelResponse extends Channel {
+  /** Signing secret of an http channel; only returned when the channel is created */
+  signingSecret?: string;
+}
+
+export interface ChannelDelivery {
+  id: string;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  agentId: string | null;
+  conversationId: string | null;
+  contentPreview: string;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
 }
 
 /**
  * Input for updating a channel.
  * Note: The channel type cannot be changed during updates.
  * The config should match the existing channel type (Discord channels use botToken/discordChannelId,
- * Slack channels use webhookUrl).
+ * Slack channels use webhookUrl, email channels use recipients/subjectTemplate/sender,
+ * http channels use url/headers/secret).
  */
 export interface UpdateChannelInput {
   name?: string;
@@ -363,7 +422,9 @@ export interface UpdateChannelInput {
       }
     | {
         webhookUrl?: string;
-      };
+      }
+    | Partial<EmailChannelConfig>
+    | Partial<HttpChannelConfig>;
 }
 
 // Token storage keys
@@ -847,6 +908,7 @@ export interface WorkspaceExport {
     maxOutputTokens?: number;
     stopSequences?: string[];
     maxToolRoundtrips?: number;
+    outputSchema?: Record<string, unknown>;
     provider?: string;
     modelName?: string;
     avatar?: string;
@@ -1224,6 +1286,8 @@ export interface ImprovePromptFromEvalsInput {
     conversationId: string;
     judgeId: string;
   }>;
+  /** Also send recent end-user ratings of the agent's replies */
+  includeFeedback?: "negative" | "all";
 }
 
 export async function improvePromptFromEvals(
@@ -1256,6 +1320,187 @@ export async function updateAgent(
   return response.json();
 }
 
+export type AgentConfigVersionSource =
+  | "created"
+  | "baseline"
+  | "updated"
+  | "assistant"
+  | "restored";
+
+export interface AgentConfigVersion {
+  configVersion: number;
+  source: AgentConfigVersionSource;
+  changedFields: string[];
+  restoredFromVersion: number | null;
+  createdBy: string | null;
+  createdAt: string;
+  config?: Record<string, unknown>;
+}
+
+export interface ListAgentConfigVersionsResponse {
+  currentVersion: number;
+  versions: AgentConfigVersion[];
+  nextCursor?: string;
+}
+
+export interface AgentConfigChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AgentConfigVersionDiff {
+  version: number;
+  compareTo: number | null;
+  changes: AgentConfigChange[];
+}
+
+export async function listAgentConfigVersions(
+  workspaceId: string,
+  agentId: string,
+  limit?: number,
+  cursor?: string,
+): Promise<ListAgentConfigVersionsResponse> {
+  const params = new URLSearchParams();
+  if (limit !== undefined) {
+    params.append("limit", limit.toString());
+  }
+  if (cursor) {
+    params.append("cursor", cursor);
+  }
+  const queryString = params.toString();
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/versions${
+      queryString ? `?${queryString}` : ""
+    }`,
+  );
+  return response.json();
+}
+
+/**
+ * Changes made by a configuration version, compared with the previous version
+ * (or with another version, or "current" for the live configuration)
+ */
+export async function getAgentConfigVersionDiff(
+  workspaceId: string,
+  agentId: string,
+  version: number,
+  compareTo?: number | "current",
+): Promise<AgentConfigVersionDiff> {
+  const queryString =
+    compareTo !== undefined ? `?compareTo=${compareTo}` : "";
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/versions/${version}/diff${queryString}`,
+  );
+  return response.json();
+}
+
+export async function restoreAgentConfigVersion(
+  workspaceId: string,
+  agentId: string,
+  version: number,
+): Promise<Agent> {
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/versions/${version}/restore`,
+    {
+      method: "POST",
+    },
+  );
+  return response.json();
+}
+
+export const APPROVABLE_BUILT_IN_TOOL_NAMES = [
+  "send_email",
+  "send_notification",
+  "call_agent",
+  "call_agent_async",
+  "generate_image",
+] as const;
+
+export interface ToolApprovalPolicy {
+  toolNames?: Array<(typeof APPROVABLE_BUILT_IN_TOOL_NAMES)[number]>;
+  /** Per-server MCP tool names, as in enabledMcpServerToolNames */
+  mcpServerToolNames?: Record<string, string[]>;
+  timeoutMinutes?: number;
+}
+
+export type ToolApprovalStatus = "pending" | "approved" | "rejected" | "expired";
+
+export interface ToolApprovalRequest {
+  id: string;
+  agentId: string;
+  conversationId: string | null;
+  toolName: string;
+  mcpServerId: string | null;
+  args: Record<string, unknown>;
+  approvedArgs: Record<string, unknown> | null;
+  status: ToolApprovalStatus;
+  expiresAt: string;
+  decidedAt: string | null;
+  decidedBy: string | null;
+  reason: string | null;
+  resumedAt: string | null;
+  resultPreview: string | null;
+  /** The agent's answer of the resumed run */
+  answer: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+export interface ListToolApprovalsResponse {
+  approvals: ToolApprovalRequest[];
+  nextCursor?: string;
+}
+
+export interface DecideToolApprovalInput {
+  decision: "approve" | "reject";
+  /** Edited arguments (approve only) */
+  args?: Record<string, unknown>;
+  reason?: string;
+}
+
+export async function listToolApprovals(
+  workspaceId: string,
+  agentId: string,
+  status?: ToolApprovalStatus,
+  cursor?: string,
+  conversationId?: string,
+): Promise<ListToolApprovalsResponse> {
+  const params = new URLSearchParams();
+  if (status) {
+    params.append("status", status);
+  }
+  if (conversationId) {
+    params.append("conversationId", conversationId);
+  }
+  if (cursor) {
+    params.append("cursor", cursor);
+  }
+  const queryString = params.toString();
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/tool-approvals${
+      queryString ? `?${queryString}` : ""
+    }`,
+  );
+  return response.json();
+}
+
+export async function decideToolApproval(
+  workspaceId: string,
+  agentId: string,
+  approvalId: string,
+  input: DecideToolApprovalInput,
+): Promise<ToolApprovalRequest> {
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/tool-approvals/${approvalId}/decision`,
+    {
+      method: "POST",
+      body: JSON.stringify(input),
+    },
+  );
+  return response.json();
+}
+
 export async function deleteAgent(
   workspaceId: string,
   agentId: string,
@@ -1327,7 +1572,8 @@ export interface Delegation {
 
 export interface Conversation {
   id: string;
-  conversationType: "test" | "webhook" | "stream" | "scheduled";
+  agentId?: string;
+  conversationType: "test" | "webhook" | "stream" | "scheduled" | "mcp";
   startedAt: string;
   lastMessageAt: string;
   messageCount: number;
@@ -1341,12 +1587,50 @@ export interface Conversation {
   hasError?: boolean;
   error?: ConversationError | null;
   totalGenerationTimeMs?: number;
+  /** Agent configuration versions that produced the conversation */
+  agentConfigVersions?: number[];
+  positiveFeedbackCount?: number;
+  negativeFeedbackCount?: number;
+}
+
+/** End-user rating of an agent reply */
+export interface ConversationFeedback {
+  /** Request ID of the rated reply; its messages carry it as awsRequestId */
+  messageId: string;
+  rating: "positive" | "negative";
+  comment?: string;
+  source: "widget" | "slack" | "discord" | "api";
+  userId?: string;
+  createdAt: string;
+}
+
+/** Summary of older turns sent to the model instead of them */
+export interface ConversationCompaction {
+  summary: string;
+  /** Number of leading model messages the summary replaces */
+  summarizedMessageCount: number;
+  fingerprint: string;
+  modelName: string;
+  updatedAt: string;
+}
+
+export interface ConversationCompactionEvent {
+  createdAt: string;
+  summarizedMessageCount: number;
+  keptMessageCount: number;
+  estimatedTokensBefore: number;
+  estimatedTokensAfter: number;
+  maxSafeInputTokens: number;
+  modelName: string;
 }
 
 export interface ConversationDetail extends Conversation {
   messages: unknown[];
   awsRequestIds?: string[];
   delegations?: Delegation[];
+  compaction?: ConversationCompaction | null;
+  compactionEvents?: ConversationCompactionEvent[];
+  feedback?: ConversationFeedback[];
 }
 
 export interface ListConversationsResponse {
@@ -1354,12 +1638,29 @@ export interface ListConversationsResponse {
   nextCursor?: string;
 }
 
-export async function listAgentConversations(
-  workspaceId: string,
-  agentId: string,
-  limit?: number,
-  cursor?: string,
-): Promise<ListConversationsResponse> {
+/** Search filters of conversation lists; costs are in nano-dollars, dates ISO 8601 */
+export interface ConversationSearchFilters {
+  q?: string;
+  conversationType?: Conversation["conversationType"];
+  from?: string;
+  to?: string;
+  hasError?: boolean;
+  minCostUsd?: number;
+  maxCostUsd?: number;
+  model?: string;
+  tool?: string;
+  minEvalScore?: number;
+  maxEvalScore?: number;
+  criticalFailure?: boolean;
+  hasDelegations?: boolean;
+  feedback?: "any" | "positive" | "negative" | "none";
+}
+
+function buildConversationListQuery(
+  limit: number | undefined,
+  cursor: string | undefined,
+  filters: ConversationSearchFilters | undefined
+): string {
   const params = new URLSearchParams();
   if (limit !== undefined) {
     params.append("limit", limit.toString());
@@ -1367,10 +1668,43 @@ export async function listAgentConversations(
   if (cursor) {
     params.append("cursor", cursor);
   }
+  for (const [key, value] of Object.entries(filters ?? {})) {
+    if (value !== undefined && value !== "") {
+      params.append(key, String(value));
+    }
+  }
   const queryString = params.toString();
-  const url = `/api/workspaces/${workspaceId}/agents/${agentId}/conversations${
-    queryString ? `?${queryString}` : ""
-  }`;
+  return queryString ? `?${queryString}` : "";
+}
+
+export async function listAgentConversations(
+  workspaceId: string,
+  agentId: string,
+  limit?: number,
+  cursor?: string,
+  filters?: ConversationSearchFilters,
+): Promise<ListConversationsResponse> {
+  const url = `/api/workspaces/${workspaceId}/agents/${agentId}/conversations${buildConversationListQuery(
+    limit,
+    cursor,
+    filters
+  )}`;
+  const response = await apiFetch(url);
+  return response.json();
+}
+
+/** Conversations of every agent in the workspace */
+export async function listWorkspaceConversations(
+  workspaceId: string,
+  limit?: number,
+  cursor?: string,
+  filters?: ConversationSearchFilters,
+): Promise<ListConversationsResponse> {
+  const url = `/api/workspaces/${workspaceId}/conversations${buildConversationListQuery(
+    limit,
+    cursor,
+    filters
+  )}`;
   const response = await apiFetch(url);
   return response.json();
 }
@@ -1437,6 +1771,123 @@ export async function listAgentTransactions(
   return response.json();
 }
 
+export type AuditLogAction = "created" | "updated" | "deleted";
+
+export type AuditLogResourceType =
+  | "workspace"
+  | "agent"
+  | "agent-key"
+  | "workspace-api-key"
+  | "stream-server"
+  | "mcp-server"
+  | "channel"
+  | "document"
+  | "member"
+  | "invite"
+  | "spending-limit"
+  | "integration"
+  | "email-connection"
+  | "model-endpoint"
+  | "schedule"
+  | "eval-judge"
+  | "eval-dataset"
+  | "memory-record"
+  | "knowledge-graph-fact";
+
+export interface AuditLogEntry {
+  id: string;
+  action: AuditLogAction;
+  resourceType: AuditLogResourceType;
+  resourceId: string | null;
+  resourceName: string | null;
+  agentId: string | null;
+  actorUserId: string | null;
+  actorEmail: string | null;
+  apiKeyId: string | null;
+  changedFields: string[];
+  details: Record<string, unknown> | null;
+  ipAddress: string | null;
+  requestId: string | null;
+  createdAt: string;
+}
+
+export interface AuditLogFilters {
+  action?: AuditLogAction;
+  resourceType?: AuditLogResourceType;
+  /** Dates (YYYY-MM-DD) or ISO date-times, inclusive */
+  from?: string;
+  to?: string;
+}
+
+export interface ListAuditLogResponse {
+  events: AuditLogEntry[];
+  nextCursor?: string;
+}
+
+const toAuditLogParams = (filters: AuditLogFilters) => {
+  const params = new URLSearchParams();
+  if (filters.action) {
+    params.append("action", filters.action);
+  }
+  if (filters.resourceType) {
+    params.append("resourceType", filters.resourceType);
+  }
+  if (filters.from) {
+    params.append("from", filters.from);
+  }
+  if (filters.to) {
+    params.append("to", filters.to);
+  }
+  return params;
+};
+
+export async function listWorkspaceAuditLog(
+  workspaceId: string,
+  filters: AuditLogFilters = {},
+  limit?: number,
+  cursor?: string,
+): Promise<ListAuditLogResponse> {
+  const params = toAuditLogParams(filters);
+  if (limit !== undefined) {
+    params.append("limit", limit.toString());
+  }
+  if (cursor) {
+    params.append("cursor", cursor);
+  }
+  const queryString = params.toString();
+  const url = `/api/workspaces/${workspaceId}/audit-log${
+    queryString ? `?${queryString}` : ""
+  }`;
+  const response = await apiFetch(url);
+  return response.json();
+}
+
+/**
+ * Export the filtered workspace audit log as a downloadable CSV file
+ */
+export async function exportWorkspaceAuditLog(
+  workspaceId: string,
+  filters: AuditLogFilters = {},
+): Promise<void> {
+  const queryString = toAuditLogParams(filters).toString();
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/audit-log/export${
+      queryString ? `?${queryString}` : ""
+    }`,
+  );
+
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `audit-log-${workspaceId}.csv`;
+  document.body.appendChild(link);
+  link.click();
+
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+}
+
 export async function getAgentConversation(
   workspaceId: string,
   agentId: string,
@@ -1584,12 +2035,16 @@ export async function searchDocuments(
   workspaceId: string,
   query: string,
   limit?: number,
+  mode?: DocumentSearchMode,
 ): Promise<{ results: DocumentSearchResult[] }> {
   const params = new URLSearchParams();
   params.append("q", query);
   if (limit !== undefined) {
     params.append("limit", limit.toString());
   }
+  if (mode !== undefined) {
+    params.append("mode", mode);
+  }
   const response = await apiFetch(
     `/api/workspaces/${workspaceId}/documents/search?${params.toString()}`,
   );
@@ -1629,7 +2084,7 @@ export async function getChannel(
 export async function createChannel(
   workspaceId: string,
   input: CreateChannelInput,
-): Promise<Channel> {
+): Promise<CreateChannelResponse> {
   const response = await apiFetch(`/api/workspaces/${workspaceId}/channels`, {
     method: "POST",
     body: JSON.stringify(input),
@@ -1674,6 +2129,27 @@ export async function testChannel(
   return response.json();
 }
 
+export interface ListChannelDeliveriesResponse {
+  deliveries: ChannelDelivery[];
+  nextCursor?: string;
+}
+
+export async function listChannelDeliveries(
+  workspaceId: string,
+  channelId: string,
+  limit?: number,
+  cursor?: string,
+): Promise<ListChannelDeliveriesResponse> {
+  const params = new URLSearchParams();
+  if (limit !== undefined) params.append("limit", limit.toString());
+  if (cursor) params.append("cursor", cursor);
+  const q = params.toString();
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/channels/${channelId}/deliveries${q ? `?${q}` : ""}`,
+  );
+  return response.json();
+}
+
 export interface EmailConnection {
   name: string;
   type: "gmail" | "outlook" | "smtp";
@@ -1934,39 +2410,131 @@ export async function deleteMcpServer(
   });
 }
 
-export interface McpOAuthStatus {
-  connected: boolean;
-  email: string | null;
+export interface ModelEndpointModel {
+  name: string;
+  /** Model name agents and eval judges select: "custom:{endpointId}:{name}" */
+  modelName?: string;
+  contextLength?: number;
+  capabilities?: {
+    toolCalling?: boolean;
+    structuredOutput?: boolean;
+    imageInput?: boolean;
+  };
+  /** USD per million tokens, only used to report costs */
+  pricing?: {
+    input: number;
+    output: number;
+  };
 }
 
-export async function getMcpOAuthStatus(
+export interface ModelEndpoint {
+  id: string;
+  name: string;
+  baseUrl: string;
+  hasApiKey: boolean;
+  models: ModelEndpointModel[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface CreateModelEndpointInput {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  models: ModelEndpointModel[];
+}
+
+export interface UpdateModelEndpointInput {
+  name?: string;
+  baseUrl?: string;
+  /** Empty string removes the key */
+  apiKey?: string;
+  models?: ModelEndpointModel[];
+}
+
+export async function listModelEndpoints(
   workspaceId: string,
-  serverId: string,
-): Promise<McpOAuthStatus> {
+): Promise<{ endpoints: ModelEndpoint[] }> {
   const response = await apiFetch(
-    `/api/workspaces/${workspaceId}/mcp-servers/${serverId}/oauth/status`,
+    `/api/workspaces/${workspaceId}/model-endpoints`,
   );
   return response.json();
 }
 
-export async function initiateMcpOAuthFlow(
+export async function createModelEndpoint(
   workspaceId: string,
-  serverId: string,
-): Promise<{ authUrl: string }> {
+  input: CreateModelEndpointInput,
+): Promise<ModelEndpoint> {
   const response = await apiFetch(
-    `/api/workspaces/${workspaceId}/mcp-servers/${serverId}/oauth/authorize`,
+    `/api/workspaces/${workspaceId}/model-endpoints`,
+    {
+      method: "POST",
+      body: JSON.stringify(input),
+    },
   );
   return response.json();
 }
 
-export async function disconnectMcpOAuth(
+export async function updateModelEndpoint(
   workspaceId: string,
-  serverId: string,
-): Promise<void> {
-  await apiFetch(
-    `/api/workspaces/${workspaceId}/mcp-servers/${serverId}/oauth/disconnect`,
+  endpointId: string,
+  input: UpdateModelEndpointInput,
+): Promise<ModelEndpoint> {
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/model-endpoints/${endpointId}`,
     {
-      method: "POST",
+      method: "PUT",
+      body: JSON.stringify(input),
+    },
+  );
+  return response.json();
+}
+
+export async function deleteModelEndpoint(
+  workspaceId: string,
+  endpointId: string,
+): Promise<void> {
+  await apiFetch(
+    `/api/workspaces/${workspaceId}/model-endpoints/${endpointId}`,
+    {
+      method: "DELETE",
+    },
+  );
+}
+
+export interface McpOAuthStatus {
+  connected: boolean;
+  email: string | null;
+}
+
+export async function getMcpOAuthStatus(
+  workspaceId: string,
+  serverId: string,
+): Promise<McpOAuthStatus> {
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/mcp-servers/${serverId}/oauth/status`,
+  );
+  return response.json();
+}
+
+export async function initiateMcpOAuthFlow(
+  workspaceId: string,
+  serverId: string,
+): Promise<{ authUrl: string }> {
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/mcp-servers/${serverId}/oauth/authorize`,
+  );
+  return response.json();
+}
+
+export async function disconnectMcpOAuth(
+  workspaceId: string,
+  serverId: string,
+): Promise<void> {
+  await apiFetch(
+    `/api/workspaces/${workspaceId}/mcp-servers/${serverId}/oauth/disconnect`,
+    {
+      method: "POST",
     },
   );
 }
@@ -2004,6 +2572,8 @@ export interface UsageStats {
   messagesIn: number;
   messagesOut: number;
   totalMessages: number;
+  positiveFeedback?: number;
+  negativeFeedback?: number;
   byModel: Array<{
     model: string;
     inputTokens: number;
@@ -2060,6 +2630,8 @@ export interface DailyUsageData {
   messagesIn: number;
   messagesOut: number;
   totalMessages: number;
+  positiveFeedback?: number;
+  negativeFeedback?: number;
 }
 
 export interface WorkspaceDailyUsageResponse {
@@ -2205,6 +2777,8 @@ export interface AgentMemoryOptions {
   maximumDaysAgo?: number;
   maxResults?: number;
   previewLength?: number;
+  /** Shows the memory of this end user instead of the agent-global memory */
+  endUserId?: string;
 }
 
 export interface AgentMemoryResult {
@@ -2246,6 +2820,9 @@ export async function getAgentMemory(
   if (options.previewLength !== undefined) {
     params.append("previewLength", options.previewLength.toString());
   }
+  if (options.endUserId) {
+    params.append("endUserId", options.endUserId);
+  }
   const queryString = params.toString();
   const url = `/api/workspaces/${workspaceId}/agents/${agentId}/memory${
     queryString ? `?${queryString}` : ""
@@ -2265,6 +2842,8 @@ export interface KnowledgeGraphFact {
 export interface AgentKnowledgeGraphOptions {
   queryText?: string;
   maxResults?: number;
+  /** Shows the graph of this end user instead of the agent-global graph */
+  endUserId?: string;
 }
 
 export interface AgentKnowledgeGraphResponse {
@@ -2285,6 +2864,9 @@ export async function getAgentKnowledgeGraph(
   if (options.maxResults !== undefined) {
     params.append("maxResults", options.maxResults.toString());
   }
+  if (options.endUserId) {
+    params.append("endUserId", options.endUserId);
+  }
   const queryString = params.toString();
   const url = `/api/workspaces/${workspaceId}/agents/${agentId}/knowledge-graph${
     queryString ? `?${queryString}` : ""
@@ -2304,11 +2886,15 @@ export async function getAgentMemoryRecord(
   agentId: string,
   recordId: string,
   grain: TemporalGrain = "working",
+  endUserId?: string,
 ): Promise<AgentMemoryRecordResponse> {
   const params = new URLSearchParams();
   if (grain) {
     params.append("grain", grain);
   }
+  if (endUserId) {
+    params.append("endUserId", endUserId);
+  }
   const queryString = params.toString();
   const url = `/api/workspaces/${workspaceId}/agents/${agentId}/memory/${recordId}${
     queryString ? `?${queryString}` : ""
@@ -2317,6 +2903,158 @@ export async function getAgentMemoryRecord(
   return response.json();
 }
 
+/**
+ * Query string selecting the memory of an end user for the memory write endpoints
+ */
+const endUserQuery = (endUserId: string | undefined, separator: "?" | "&") =>
+  endUserId ? `${separator}endUserId=${encodeURIComponent(endUserId)}` : "";
+
+export interface MemoryRecordInput {
+  content: string;
+  /** Places the record in time (ISO date-time); defaults to now */
+  timestamp?: string;
+}
+
+export interface MemoryRecordWriteResponse {
+  workspaceId: string;
+  agentId: string;
+  grain: TemporalGrain;
+  record: AgentMemoryResult;
+}
+
+export async function createAgentMemoryRecord(
+  workspaceId: string,
+  agentId: string,
+  input: MemoryRecordInput & { grain?: TemporalGrain },
+  endUserId?: string,
+): Promise<MemoryRecordWriteResponse> {
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/memory${endUserQuery(
+      endUserId,
+      "?",
+    )}`,
+    {
+      method: "POST",
+      body: JSON.stringify(input),
+    },
+  );
+  return response.json();
+}
+
+export async function updateAgentMemoryRecord(
+  workspaceId: string,
+  agentId: string,
+  recordId: string,
+  grain: TemporalGrain,
+  input: MemoryRecordInput,
+  endUserId?: string,
+): Promise<MemoryRecordWriteResponse> {
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/memory/${encodeURIComponent(
+      recordId,
+    )}?grain=${grain}${endUserQuery(endUserId, "&")}`,
+    {
+      method: "PUT",
+      body: JSON.stringify(input),
+    },
+  );
+  return response.json();
+}
+
+export async function deleteAgentMemoryRecord(
+  workspaceId: string,
+  agentId: string,
+  recordId: string,
+  grain: TemporalGrain,
+  endUserId?: string,
+): Promise<void> {
+  await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/memory/${encodeURIComponent(
+      recordId,
+    )}?grain=${grain}${endUserQuery(endUserId, "&")}`,
+    {
+      method: "DELETE",
+    },
+  );
+}
+
+export interface KnowledgeGraphFactInput {
+  source_id: string;
+  label: string;
+  target_id: string;
+}
+
+export async function createKnowledgeGraphFact(
+  workspaceId: string,
+  agentId: string,
+  input: KnowledgeGraphFactInput,
+  endUserId?: string,
+): Promise<KnowledgeGraphFact> {
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/knowledge-graph/facts${endUserQuery(
+      endUserId,
+      "?",
+    )}`,
+    {
+      method: "POST",
+      body: JSON.stringify(input),
+    },
+  );
+  return response.json();
+}
+
+export async function updateKnowledgeGraphFact(
+  workspaceId: string,
+  agentId: string,
+  factId: string,
+  input: KnowledgeGraphFactInput,
+  endUserId?: string,
+): Promise<KnowledgeGraphFact> {
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/knowledge-graph/facts/${factId}${endUserQuery(
+      endUserId,
+      "?",
+    )}`,
+    {
+      method: "PUT",
+      body: JSON.stringify(input),
+    },
+  );
+  return response.json();
+}
+
+export async function deleteKnowledgeGraphFact(
+  workspaceId: string,
+  agentId: string,
+  factId: string,
+  endUserId?: string,
+): Promise<void> {
+  await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/knowledge-graph/facts/${factId}${endUserQuery(
+      endUserId,
+      "?",
+    )}`,
+    {
+      method: "DELETE",
+    },
+  );
+}
+
+export interface AgentMemoryPartition {
+  endUserId: string;
+  createdAt: string;
+}
+
+export async function getAgentMemoryPartitions(
+  workspaceId: string,
+  agentId: string,
+): Promise<{ partitions: AgentMemoryPartition[] }> {
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/memory-partitions`,
+  );
+  return response.json();
+}
+
 export interface AvailableModels {
   google?: {
     models: string[];
@@ -2634,6 +3372,69 @@ export async function syncSubscription(): Promise<{
   return data;
 }
 
+export interface SsoConfig {
+  protocol: "oidc";
+  domain: string;
+  domainVerified: boolean;
+  domainVerifiedAt: string | null;
+  verificationRecord: { type: "TXT"; name: string; value: string };
+  issuer: string;
+  clientId: string;
+  hasClientSecret: boolean;
+  scopes: string;
+  provisionWorkspaceIds: string[];
+  defaultPermissionLevel: 1 | 2 | 3;
+  enforceSso: boolean;
+  enabled: boolean;
+  updatedAt: string;
+}
+
+export interface SsoSettings {
+  config: SsoConfig | null;
+  redirectUri: string;
+  workspaces: { id: string; name: string }[];
+}
+
+export interface SsoConfigInput {
+  domain: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes?: string;
+  provisionWorkspaceIds: string[];
+  defaultPermissionLevel: 1 | 2 | 3;
+  enforceSso: boolean;
+  enabled: boolean;
+}
+
+export async function getSsoSettings(): Promise<SsoSettings> {
+  const response = await apiFetch("/api/subscription/sso");
+  return response.json();
+}
+
+export async function updateSsoConfig(
+  input: SsoConfigInput,
+): Promise<{ config: SsoConfig }> {
+  const response = await apiFetch("/api/subscription/sso", {
+    method: "PUT",
+    body: JSON.stringify(input),
+  });
+  return response.json();
+}
+
+export async function verifySsoDomain(): Promise<{ config: SsoConfig }> {
+  const response = await apiFetch("/api/subscription/sso/verify-domain", {
+    method: "POST",
+  });
+  return response.json();
+}
+
+export async function deleteSsoConfig(): Promise<void> {
+  await apiFetch("/api/subscription/sso", {
+    method: "DELETE",
+  });
+}
+
 export async function purchaseCredits(
   workspaceId: string,
   amount: number,
@@ -2884,9 +3685,11 @@ export async function deleteStreamServer(
 
 // Bot Integration Management API
 
+export type BotIntegrationPlatform = "slack" | "discord" | "teams" | "telegram";
+
 export interface BotIntegration {
   id: string;
-  platform: "slack" | "discord";
+  platform: BotIntegrationPlatform;
   name: string;
   agentId: string;
   webhookUrl: string;
@@ -2898,10 +3701,12 @@ export interface BotIntegration {
     commandName: string;
     commandId: string;
   };
+  // Telegram bot username (without @)
+  botUsername?: string;
 }
 
 export interface CreateIntegrationInput {
-  platform: "slack" | "discord";
+  platform: BotIntegrationPlatform;
   name: string;
   agentId: string;
   config: {
@@ -2914,6 +3719,10 @@ export interface CreateIntegrationInput {
     // Discord
     publicKey?: string;
     applicationId?: string;
+    // Teams
+    appId?: string;
+    appPassword?: string;
+    tenantId?: string;
   };
 }
 
@@ -3032,20 +3841,34 @@ export async function generateSlackManifest(
 
 // User API Keys API
 
-export interface UserApiKey {
+export type UserApiKeyCapability = "read" | "documents" | "agents" | "usage";
+
+export interface UserApiKeyScope {
+  workspaceIds: string[] | null; // null = every workspace of the user
+  capabilities: UserApiKeyCapability[] | null; // null = full access
+  expiresAt: string | null;
+  allowedIps: string[] | null;
+}
+
+export interface UserApiKey extends UserApiKeyScope {
   id: string;
   name: string | null;
   keyPrefix: string;
   maskedKey: string;
   createdAt: string;
   lastUsedAt: string | null;
+  requestCount: number;
 }
 
 export interface CreateUserApiKeyInput {
   name?: string;
+  workspaceIds?: string[];
+  capabilities?: UserApiKeyCapability[];
+  expiresAt?: string;
+  allowedIps?: string[];
 }
 
-export interface CreateUserApiKeyResponse {
+export interface CreateUserApiKeyResponse extends UserApiKeyScope {
   id: string;
   key: string; // Only shown once
   name: string | null;
@@ -3092,6 +3915,7 @@ export interface EvalJudge {
   samplingProbability: number;
   provider: "openrouter"; // Only openrouter is supported for eval judges
   modelName: string;
+  fallbackModelNames: string[];
   evalPrompt: string;
   createdAt: string;
   updatedAt?: string;
@@ -3103,6 +3927,7 @@ export interface CreateEvalJudgeInput {
   samplingProbability?: number;
   provider?: "openrouter"; // Only openrouter is supported for eval judges
   modelName: string;
+  fallbackModelNames?: string[];
   evalPrompt: string;
 }
 
@@ -3112,16 +3937,25 @@ export interface UpdateEvalJudgeInput {
   samplingProbability?: number;
   provider?: "openrouter"; // Only openrouter is supported for eval judges
   modelName?: string;
+  fallbackModelNames?: string[];
   evalPrompt?: string;
 }
 
 // Agent Schedule Management API
 
+/** Where the final answer of each successful scheduled run is sent */
+export type AgentScheduleDelivery =
+  | { type: "channel"; channelId: string }
+  | { type: "email"; recipients: string[]; subjectTemplate?: string };
+
 export interface AgentSchedule {
   id: string;
   name: string;
   cronExpression: string;
+  /** IANA timezone the cron expression is evaluated in */
+  timezone: string;
   prompt: string;
+  delivery: AgentScheduleDelivery | null;
   enabled: boolean;
   nextRunAt: number;
   lastRunAt: string | null;
@@ -3132,14 +3966,19 @@ export interface AgentSchedule {
 export interface CreateAgentScheduleInput {
   name: string;
   cronExpression: string;
+  timezone?: string;
   prompt: string;
+  delivery?: AgentScheduleDelivery;
   enabled?: boolean;
 }
 
 export interface UpdateAgentScheduleInput {
   name?: string;
   cronExpression?: string;
+  timezone?: string;
   prompt?: string;
+  /** null removes the delivery target */
+  delivery?: AgentScheduleDelivery | null;
   enabled?: boolean;
 }
 
@@ -3157,6 +3996,8 @@ export interface EvalResult {
   errorMessage?: string;
   errorDetails?: string;
   costUsd: number | null;
+  /** Model that produced the evaluation */
+  modelName?: string | null;
   evaluatedAt: string;
 }
 
@@ -3256,6 +4097,266 @@ export async function deleteEvalJudge(
   );
 }
 
+export interface EvalDatasetCase {
+  caseId: string;
+  input: string;
+  expectedOutput: string | null;
+  rubric: string | null;
+}
+
+export interface EvalDataset {
+  id: string;
+  name: string;
+  description: string | null;
+  caseCount: number;
+  /** Only returned for a single dataset */
+  cases?: EvalDatasetCase[];
+  createdAt: string;
+  updatedAt: string | null;
+}
+
+export interface EvalDatasetCaseInput {
+  /** Omitted for new cases */
+  caseId?: string;
+  input: string;
+  expectedOutput?: string | null;
+  rubric?: string | null;
+}
+
+export interface CreateEvalDatasetInput {
+  name: string;
+  description?: string;
+  cases: EvalDatasetCaseInput[];
+}
+
+export interface UpdateEvalDatasetInput {
+  name?: string;
+  description?: string | null;
+  cases?: EvalDatasetCaseInput[];
+}
+
+export interface StartEvalRunInput {
+  label?: string;
+  /** Candidate system prompt used instead of the agent's */
+  systemPrompt?: string;
+  /** Candidate model used instead of the agent's */
+  modelName?: string;
+}
+
+export interface EvalScores {
+  goalCompletion: number;
+  toolEfficiency: number;
+  faithfulness: number;
+}
+
+export interface EvalRun {
+  id: string;
+  datasetId: string;
+  datasetName: string;
+  label: string | null;
+  overrides: { systemPrompt?: string; modelName?: string } | null;
+  modelName: string;
+  configVersion: number | null;
+  status: "running" | "completed";
+  caseCount: number;
+  finishedCaseCount: number;
+  failedCaseCount: number;
+  scoredCaseCount: number;
+  averageScores: EvalScores | null;
+  criticalFailureCount: number;
+  /** Agent and judge cost in nano-dollars */
+  costUsd: number;
+  createdBy: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface EvalRunCaseJudgeScore {
+  judgeId: string;
+  judgeName: string;
+  status: "completed" | "failed";
+  scoreGoalCompletion: number | null;
+  scoreToolEfficiency: number | null;
+  scoreFaithfulness: number | null;
+  criticalFailureDetected: boolean;
+  summary: string;
+  errorMessage?: string;
+}
+
+export interface EvalRunCase {
+  caseId: string;
+  input: string;
+  expectedOutput: string | null;
+  rubric: string | null;
+  status: "pending" | "running" | "completed" | "failed";
+  output: string | null;
+  toolCallCount: number | null;
+  error: string | null;
+  averageScores: EvalScores | null;
+  scores: EvalRunCaseJudgeScore[];
+  /** Agent and judge cost in nano-dollars */
+  costUsd: number;
+  durationMs: number | null;
+}
+
+export interface EvalRunWithCases extends EvalRun {
+  cases: EvalRunCase[];
+}
+
+export interface EvalRunComparison {
+  base: EvalRun;
+  candidate: EvalRun;
+  cases: Array<{
+    caseId: string;
+    input: string;
+    base: EvalRunCase | null;
+    candidate: EvalRunCase | null;
+    /** Candidate minus base; null unless both runs scored the case */
+    scoreDelta: EvalScores | null;
+    /** Candidate minus base in nano-dollars */
+    costDeltaUsd: number | null;
+  }>;
+}
+
+export interface ListEvalRunsResponse {
+  runs: EvalRun[];
+  nextCursor?: string | null;
+}
+
+export async function listEvalDatasets(
+  workspaceId: string,
+  agentId: string,
+): Promise<{ datasets: EvalDataset[] }> {
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/eval-datasets`,
+  );
+  return response.json();
+}
+
+export async function getEvalDataset(
+  workspaceId: string,
+  agentId: string,
+  datasetId: string,
+): Promise<EvalDataset> {
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/eval-datasets/${datasetId}`,
+  );
+  return response.json();
+}
+
+export async function createEvalDataset(
+  workspaceId: string,
+  agentId: string,
+  input: CreateEvalDatasetInput,
+): Promise<EvalDataset> {
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/eval-datasets`,
+    {
+      method: "POST",
+      body: JSON.stringify(input),
+    },
+  );
+  return response.json();
+}
+
+export async function updateEvalDataset(
+  workspaceId: string,
+  agentId: string,
+  datasetId: string,
+  input: UpdateEvalDatasetInput,
+): Promise<EvalDataset> {
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/eval-datasets/${datasetId}`,
+    {
+      method: "PUT",
+      body: JSON.stringify(input),
+    },
+  );
+  return response.json();
+}
+
+export async function deleteEvalDataset(
+  workspaceId: string,
+  agentId: string,
+  datasetId: string,
+): Promise<void> {
+  await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/eval-datasets/${datasetId}`,
+    {
+      method: "DELETE",
+    },
+  );
+}
+
+export async function startEvalRun(
+  workspaceId: string,
+  agentId: string,
+  datasetId: string,
+  input: StartEvalRunInput,
+): Promise<EvalRun> {
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/eval-datasets/${datasetId}/runs`,
+    {
+      method: "POST",
+      body: JSON.stringify(input),
+    },
+  );
+  return response.json();
+}
+
+export async function listEvalRuns(
+  workspaceId: string,
+  agentId: string,
+  datasetId?: string,
+  cursor?: string,
+): Promise<ListEvalRunsResponse> {
+  const params = new URLSearchParams();
+  if (datasetId) params.append("datasetId", datasetId);
+  if (cursor) params.append("cursor", cursor);
+  const q = params.toString();
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/eval-runs${q ? `?${q}` : ""}`,
+  );
+  return response.json();
+}
+
+export async function getEvalRun(
+  workspaceId: string,
+  agentId: string,
+  runId: string,
+): Promise<EvalRunWithCases> {
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/eval-runs/${runId}`,
+  );
+  return response.json();
+}
+
+export async function compareEvalRuns(
+  workspaceId: string,
+  agentId: string,
+  baseRunId: string,
+  candidateRunId: string,
+): Promise<EvalRunComparison> {
+  const params = new URLSearchParams({ baseRunId, candidateRunId });
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/eval-runs/compare?${params.toString()}`,
+  );
+  return response.json();
+}
+
+export interface AgentScheduleRun {
+  id: string;
+  status: "running" | "succeeded" | "failed";
+  startedAt: string;
+  endedAt: string | null;
+  conversationId: string | null;
+  /** Provisional cost of the run in nano-dollars */
+  costUsd: number | null;
+  error: string | null;
+  deliveryStatus: "sent" | "failed" | null;
+  deliveryError: string | null;
+}
+
 export interface ListAgentSchedulesResponse {
   schedules: AgentSchedule[];
   nextCursor?: string;
@@ -3277,6 +4378,28 @@ export async function listAgentSchedules(
   return response.json();
 }
 
+export interface ListAgentScheduleRunsResponse {
+  runs: AgentScheduleRun[];
+  nextCursor?: string;
+}
+
+export async function listAgentScheduleRuns(
+  workspaceId: string,
+  agentId: string,
+  scheduleId: string,
+  limit?: number,
+  cursor?: string,
+): Promise<ListAgentScheduleRunsResponse> {
+  const params = new URLSearchParams();
+  if (limit !== undefined) params.append("limit", limit.toString());
+  if (cursor) params.append("cursor", cursor);
+  const q = params.toString();
+  const response = await apiFetch(
+    `/api/workspaces/${workspaceId}/agents/${agentId}/schedules/${scheduleId}/runs${q ? `?${q}` : ""}`,
+  );
+  return response.json();
+}
+
 export async function getAgentSchedule(
   workspaceId: string,
   agentId: string,
@@ -0,0 +1,16 @@
+/**
+ * Parse a comma-separated tag list the way the backend stores tags:
+ * trimmed, lowercase, without duplicates or empty tags
+ */
+export const parseTagList = (value: string): string[] =>
+  Array.from(
+    new Set(
+      value
+        .split(",")
+        .map((tag) => tag.trim().toLowerCase())
+        .filter((tag) => tag.length > 0)
+    )
+  );
+
+export const formatTagList = (tags: string[] | null | undefined): string =>
+  (tags ?? []).join(", ");
@@ -11,6 +11,9 @@ export interface ModelConfig {
   capabilities?: Record<string, ModelCapabilities>;
 }
 
+/** Prefix of the models of a workspace's custom endpoints: "custom:{endpointId}:{model}" */
+export const CUSTOM_MODEL_PREFIX = "custom:";
+
 const PROVIDER_DISPLAY_NAMES: Record<Provider, string> = {
   google: "Google",
   openrouter: "OpenRouter",
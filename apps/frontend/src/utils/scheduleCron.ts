@@ -11,6 +11,8 @@ export const DAYS_OF_WEEK = [
 ];
 
 export const DEFAULT_TIME = "09:00";
+/** Timezone of schedules that do not set one */
+export const DEFAULT_TIMEZONE = "UTC";
 export const DEFAULT_MINUTE = "0";
 export const DEFAULT_DAY_OF_MONTH = "1";
 export const DEFAULT_DAY_OF_WEEK = "1";
@@ -179,13 +181,16 @@ export const buildCronExpression = (values: {
   return `${safeMinute} ${safeHour} ${day} * *`;
 };
 
-export const describeSchedule = (values: {
-  frequency: ScheduleFrequency;
-  timeOfDay: string;
-  minuteOfHour: string;
-  dayOfMonth: string;
-  dayOfWeek: string;
-}) => {
+export const describeSchedule = (
+  values: {
+    frequency: ScheduleFrequency;
+    timeOfDay: string;
+    minuteOfHour: string;
+    dayOfMonth: string;
+    dayOfWeek: string;
+  },
+  timezone: string = DEFAULT_TIMEZONE
+) => {
   const [hour = "0", minute = "0"] = values.timeOfDay.split(":");
   const safeHour = padTwo(Number(hour || 0));
   const safeMinute = padTwo(Number(minute || 0));
@@ -194,34 +199,62 @@ export const describeSchedule = (values: {
     const minuteValue = isValidNumber(values.minuteOfHour, 0, 59)
       ? values.minuteOfHour
       : DEFAULT_MINUTE;
-    return `Every hour at :${padTwo(Number(minuteValue))} UTC`;
+    return `Every hour at :${padTwo(Number(minuteValue))} ${timezone}`;
   }
 
   if (values.frequency === "daily") {
-    return `Every day at ${safeHour}:${safeMinute} UTC`;
+    return `Every day at ${safeHour}:${safeMinute} ${timezone}`;
   }
 
   if (values.frequency === "weekly") {
     const dayLabel =
       DAYS_OF_WEEK.find((day) => day.value === values.dayOfWeek)?.label ||
       "Monday";
-    return `Every week on ${dayLabel} at ${safeHour}:${safeMinute} UTC`;
+    return `Every week on ${dayLabel} at ${safeHour}:${safeMinute} ${timezone}`;
   }
 
   if (values.frequency === "monthly") {
     const dayOfMonth = isValidNumber(values.dayOfMonth, 1, 31)
       ? values.dayOfMonth
       : DEFAULT_DAY_OF_MONTH;
-    return `Every month on day ${dayOfMonth} at ${safeHour}:${safeMinute} UTC`;
+    return `Every month on day ${dayOfMonth} at ${safeHour}:${safeMinute} ${timezone}`;
   }
 
-  return "Custom schedule (UTC)";
+  return `Custom schedule (${timezone})`;
 };
 
-export const describeCronExpression = (expression: string): string => {
+export const describeCronExpression = (
+  expression: string,
+  timezone: string = DEFAULT_TIMEZONE
+): string => {
   const parsed = parseCronExpression(expression);
   if (parsed.frequency === "custom") {
-    return "Custom schedule (UTC)";
+    return `Custom schedule (${timezone})`;
+  }
+  return describeSchedule(parsed, timezone);
+};
+
+/**
+ * IANA timezones offered when configuring a schedule.
+ * Falls back to UTC only on runtimes without Intl.supportedValuesOf.
+ */
+export const getSupportedTimezones = (): string[] => {
+  const intl = Intl as typeof Intl & {
+    supportedValuesOf?: (key: "timeZone") => string[];
+  };
+  const timezones = intl.supportedValuesOf?.("timeZone") ?? [];
+  return timezones.includes(DEFAULT_TIMEZONE)
+    ? timezones
+    : [DEFAULT_TIMEZONE, ...timezones];
+};
+
+/** Browser timezone, used as the default for new schedules */
+export const getBrowserTimezone = (): string => {
+  try {
+    return (
+      Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE
+    );
+  } catch {
+    return DEFAULT_TIMEZONE;
   }
-  return describeSchedule(parsed);
 };
@@ -0,0 +1,71 @@
+import type { ToolApprovalRequest } from "./api";
+
+/** Poll interval while a tool call of the chat waits for approval */
+export const TOOL_APPROVAL_POLL_INTERVAL_MS = 10_000;
+
+/** What the chat needs to know about an approval request to show its answer */
+export interface ToolApprovalAnswer {
+  id: string;
+  /** Whether the paused run has finished resuming */
+  resumed: boolean;
+  answer: string | null;
+}
+
+// Matches the tool result of a gated call, e.g. "Approval required: ... (approval request <id>, expires ...)"
+const PENDING_APPROVAL_PATTERN =
+  /^Approval required:[\s\S]*?\(approval request ([^,\s)]+)/;
+
+export const getToolApprovalAnswerMessageId = (approvalId: string) =>
+  `tool-approval-${approvalId}`;
+
+/**
+ * IDs of the approval requests that paused tool calls of the chat and are
+ * not settled yet (no answer shown, not resumed without an answer)
+ */
+export function findWaitingToolApprovalIds(
+  messages: Array<{ id: string; parts?: unknown[] }>,
+  settledIds: ReadonlySet<string>,
+): string[] {
+  const messageIds = new Set(messages.map((message) => message.id));
+  const ids = new Set<string>();
+  for (const message of messages) {
+    for (const part of message.parts ?? []) {
+      if (
+        typeof part !== "object" ||
+        part === null ||
+        !("output" in part) ||
+        typeof part.output !== "string"
+      ) {
+        continue;
+      }
+      const match = part.output.match(PENDING_APPROVAL_PATTERN);
+      if (
+        match &&
+        !settledIds.has(match[1]) &&
+        !messageIds.has(getToolApprovalAnswerMessageId(match[1]))
+      ) {
+        ids.add(match[1]);
+      }
+    }
+  }
+  return [...ids];
+}
+
+/** Maps a request of the workspace API (test chat) to what the chat needs */
+export const toToolApprovalAnswer = (
+  request: ToolApprovalRequest,
+): ToolApprovalAnswer => ({
+  id: request.id,
+  resumed: request.resultPreview !== null || request.error !== null,
+  answer: request.answer,
+});
+
+/** Assistant message showing the answer of a resumed run */
+export const buildToolApprovalAnswerMessage = (
+  approvalId: string,
+  answer: string,
+) => ({
+  id: getToolApprovalAnswerMessageId(approvalId),
+  role: "assistant" as const,
+  parts: [{ type: "text" as const, text: answer }],
+});
@@ -0,0 +1,46 @@
+import type { CreateUserApiKeyInput, UserApiKeyCapability } from "./api";
+
+export interface UserApiKeyScopeForm {
+  workspaceIds: string[];
+  capabilities: UserApiKeyCapability[];
+  expiresOn: string;
+  allowedIps: string;
+}
+
+export const EMPTY_USER_API_KEY_SCOPE: UserApiKeyScopeForm = {
+  workspaceIds: [],
+  capabilities: [],
+  expiresOn: "",
+  allowedIps: "",
+};
+
+export const USER_API_KEY_CAPABILITY_LABELS: Record<
+  UserApiKeyCapability,
+  string
+> = {
+  read: "Read-only",
+  documents: "Manage documents",
+  agents: "Call agents",
+  usage: "Read usage",
+};
+
+/**
+ * Turns the form into create request fields; empty selections mean no restriction
+ */
+export const toUserApiKeyScopeInput = (
+  form: UserApiKeyScopeForm
+): Omit<CreateUserApiKeyInput, "name"> => {
+  const allowedIps = form.allowedIps
+    .split(/[\s,]+/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return {
+    workspaceIds: form.workspaceIds.length > 0 ? form.workspaceIds : undefined,
+    capabilities: form.capabilities.length > 0 ? form.capabilities : undefined,
+    // Keys stay valid until the end of the chosen day
+    expiresAt: form.expiresOn
+      ? new Date(`${form.expiresOn}T23:59:59`).toISOString()
+      : undefined,
+    allowedIps: allowedIps.length > 0 ? allowedIps : undefined,
+  };
+};
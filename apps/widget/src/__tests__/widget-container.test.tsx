@@ -3,11 +3,19 @@ import { render, screen } from "@testing-library/react";
 
 // Mock AgentChat component
 vi.mock("@/components/AgentChat", () => ({
-  AgentChat: ({ workspaceId, agentId, api, tools, enableFileUpload }: any) => (
+  AgentChat: ({
+    workspaceId,
+    agentId,
+    api,
+    feedbackApi,
+    tools,
+    enableFileUpload,
+  }: any) => (
     <div data-testid="agent-chat">
       <div>Workspace: {workspaceId}</div>
       <div>Agent: {agentId}</div>
       <div>API: {api}</div>
+      <div>Feedback API: {feedbackApi ?? "none"}</div>
       <div>Tools: {tools ? Object.keys(tools).join(", ") : "none"}</div>
       <div>
         Uploads: {enableFileUpload === false ? "disabled" : "enabled"}
@@ -110,4 +118,31 @@ describe("WidgetContainer", () => {
 
     expect(screen.getByText("Uploads: disabled")).toBeInTheDocument();
   });
+
+  it("should rate replies through the feedback endpoint unless disabled", async () => {
+    const { WidgetContainer } = await import("../widget-container");
+    const config = {
+      apiKey: "key-123",
+      workspaceId: "workspace-123",
+      agentId: "agent-456",
+    };
+
+    const { unmount } = render(
+      <WidgetContainer config={config} baseUrl="https://api.example.com" />
+    );
+    expect(
+      screen.getByText(
+        "Feedback API: https://api.example.com/api/widget/workspace-123/agent-456/key-123/feedback"
+      )
+    ).toBeInTheDocument();
+    unmount();
+
+    render(
+      <WidgetContainer
+        config={{ ...config, enableFeedback: false }}
+        baseUrl="https://api.example.com"
+      />
+    );
+    expect(screen.getByText("Feedback API: none")).toBeInTheDocument();
+  });
 });
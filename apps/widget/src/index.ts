@@ -53,6 +53,9 @@ export function init(options: AgentWidgetInitOptions): void {
     fontFamily: options.fontFamily,
     fontSize: options.fontSize,
     enableFileUpload: options.enableFileUpload,
+    enableFeedback: options.enableFeedback,
+    userId: options.userId,
+    userIdSignature: options.userIdSignature,
   };
 
   const createAndInitWidget = () => {
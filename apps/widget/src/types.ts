@@ -15,6 +15,15 @@ export interface WidgetConfig {
   fontFamily?: string;
   fontSize?: string;
   enableFileUpload?: boolean;
+  // Show thumbs up/down under agent replies (default true)
+  enableFeedback?: boolean;
+  // ID of the signed-in user on the host page. Agents with per-end-user memory keep a
+  // separate memory for each user ID.
+  userId?: string;
+  // Signature of userId computed on your server with one of the agent's webhook keys:
+  // "sha256=" + hex HMAC-SHA256(webhookKey, userId). Required by agents with per-end-user
+  // memory; never put the webhook key itself in the page.
+  userIdSignature?: string;
 }
 
 export interface AgentWidgetInitOptions extends WidgetConfig {
@@ -48,9 +48,14 @@ export const WidgetContainer: FC<WidgetContainerProps> = ({
     workspaceId: config.workspaceId,
     agentId: config.agentId,
     api: apiUrl,
+    feedbackApi:
+      config.enableFeedback !== false ? `${apiUrl}/feedback` : undefined,
+    toolApprovalsApi: `${apiUrl}/tool-approvals`,
     tools: config.tools,
     isWidget: true, // Mark as widget to hide test message and adjust styling
     enableFileUpload: config.enableFileUpload !== false,
+    endUserId: config.userId,
+    endUserIdSignature: config.userIdSignature,
     agent: {
       // Minimal agent object - only fields used by AgentChat component
       // This prevents the useAgent hook from executing and failing due to lack of auth